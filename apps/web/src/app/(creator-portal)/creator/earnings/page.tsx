@@ -1,6 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
-import { ArrowDownRight, ArrowUpRight } from 'lucide-react'
+import { ArrowDownRight, ArrowUpRight, Lock } from 'lucide-react'
 
 interface ConnectedAccountRow {
   ledger_id: string
@@ -31,6 +31,17 @@ interface TransactionView extends EntryRow {
   platform: string | null
 }
 
+interface ReserveTrancheRow {
+  id: string
+  amount: number
+  reserve_percent: number
+  release_at: string
+}
+
+interface ReserveTrancheView extends ReserveTrancheRow {
+  ledger_name: string
+}
+
 export default async function CreatorEarningsPage() {
   const supabase = await createClient()
 
@@ -53,6 +64,7 @@ export default async function CreatorEarningsPage() {
     .eq('is_active', true)
 
   const allTransactions: TransactionView[] = []
+  const reserveTranches: ReserveTrancheView[] = []
 
   const connectedAccountRows = (connectedAccounts as ConnectedAccountRow[] | null) ?? []
   if (connectedAccountRows.length > 0) {
@@ -96,9 +108,28 @@ export default async function CreatorEarningsPage() {
             })
       }
     }
+
+      // Rolling reserve slices still held, released on their own dates
+      const { data: tranches } = await supabase
+        .from('creator_reserve_tranches')
+        .select('id, amount, reserve_percent, release_at')
+        .eq('ledger_id', account.ledger_id)
+        .eq('creator_id', account.entity_id)
+        .eq('status', 'held')
+        .order('release_at', { ascending: true })
+
+      for (const tranche of (tranches as ReserveTrancheRow[] | null) ?? []) {
+        reserveTranches.push({
+          ...tranche,
+          ledger_name: account.ledger?.business_name || 'Unknown',
+        })
+      }
   }
   }
 
+  reserveTranches.sort((a, b) => new Date(a.release_at).getTime() - new Date(b.release_at).getTime())
+  const totalReserved = reserveTranches.reduce((sum, t) => sum + Number(t.amount), 0)
+
   // Sort by date
   allTransactions.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
 
@@ -161,6 +192,38 @@ export default async function CreatorEarningsPage() {
         </div>
       </div>
 
+      {/* Rolling Reserve */}
+      {reserveTranches.length > 0 && (
+        <div className="bg-card border border-border rounded-lg mb-8">
+          <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Lock className="w-5 h-5 text-amber-500" />
+              <h2 className="text-lg font-semibold text-foreground">Rolling Reserve</h2>
+            </div>
+            <p className="text-lg font-bold text-amber-600">{formatCurrency(totalReserved)}</p>
+          </div>
+          <div className="px-6 py-3 text-sm text-muted-foreground border-b border-border">
+            Part of each sale is held in reserve and released to your balance on the date shown.
+            Next release: {formatDate(reserveTranches[0].release_at)}
+          </div>
+          <div className="divide-y divide-border">
+            {reserveTranches.slice(0, 10).map((tranche) => (
+              <div key={tranche.id} className="px-6 py-3 flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-foreground">
+                    {Number(tranche.reserve_percent)}% reserve
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {tranche.ledger_name} &bull; releases {formatDate(tranche.release_at)}
+                  </p>
+                </div>
+                <p className="font-medium text-foreground">{formatCurrency(tranche.amount)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Transactions Table */}
       <div className="bg-card border border-border rounded-lg">
         <div className="px-6 py-4 border-b border-border flex items-center justify-between">
@@ -12,6 +12,8 @@ interface PayoutStatus {
   bank_last4: string | null
   bank_name: string | null
   payouts_enabled: boolean
+  bank_details_required: boolean
+  last_payout_return_code: string | null
 }
 
 interface TaxProfile {
@@ -276,9 +278,17 @@ export default function CreatorSettingsPage() {
           </>
         ) : (
           <>
-            <p className="mt-2 text-sm text-muted-foreground">
-              Add a bank account to receive payouts from the platform.
-            </p>
+            {payoutStatus?.bank_details_required ? (
+              <p className="mt-2 text-sm text-destructive">
+                Your last payout was returned by your bank
+                {payoutStatus.last_payout_return_code ? ` (${payoutStatus.last_payout_return_code})` : ''}.
+                Add a new bank account to resume payouts.
+              </p>
+            ) : (
+              <p className="mt-2 text-sm text-muted-foreground">
+                Add a bank account to receive payouts from the platform.
+              </p>
+            )}
             <div className="mt-4">
               <button
                 onClick={handleSetupPayout}
@@ -19,6 +19,15 @@ const EVENT_TYPES = [
   { value: 'payout.created', label: 'Payout Created' },
   { value: 'payout.executed', label: 'Payout Executed' },
   { value: 'payout.failed', label: 'Payout Failed' },
+  { value: 'payout.returned', label: 'Payout Returned' },
+  { value: 'dispute.opened', label: 'Dispute Opened' },
+  { value: 'dispute.won', label: 'Dispute Won' },
+  { value: 'dispute.lost', label: 'Dispute Lost' },
+  { value: 'subscription.created', label: 'Subscription Created' },
+  { value: 'subscription.renewed', label: 'Subscription Renewed' },
+  { value: 'subscription.payment_failed', label: 'Subscription Payment Failed' },
+  { value: 'subscription.updated', label: 'Subscription Updated' },
+  { value: 'subscription.canceled', label: 'Subscription Canceled' },
 ]
 
 interface ConnectWizardProps {
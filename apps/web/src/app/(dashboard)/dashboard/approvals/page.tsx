@@ -0,0 +1,515 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useLivemode, useActiveLedgerGroupId } from '@/components/livemode-provider'
+import { pickActiveLedger } from '@/lib/active-ledger'
+import { callLedgerFunction } from '@/lib/ledger-functions-client'
+import { ClipboardCheck, RefreshCw, CheckCircle, XCircle, AlertCircle, Save } from 'lucide-react'
+import { useToast } from '@/components/notifications/toast-provider'
+import { ConfirmDialog } from '@/components/settings/confirm-dialog'
+import { SensitiveActionModal } from '@/components/settings/sensitive-action-modal'
+import { useSensitiveActionGate } from '@/hooks/use-sensitive-action-gate'
+
+type JournalType = 'adjustment' | 'reversal' | 'opening_balance'
+type ApproverRole = 'owner' | 'admin' | 'member'
+
+interface PendingJournal {
+  id: string
+  journal_type: JournalType
+  status: string
+  amount: number
+  currency: string
+  summary: string
+  prepared_by: string
+  prepared_by_user_id: string | null
+  required_role: ApproverRole
+  decided_by_user_id: string | null
+  decided_at: string | null
+  decision_reason: string | null
+  transaction_id: string | null
+  posting_error: string | null
+  posting_attempts: number
+  created_at: string
+}
+
+interface PolicyDraft {
+  threshold: string
+  required_role: ApproverRole
+  is_active: boolean
+}
+
+const JOURNAL_TYPE_LABELS: Record<JournalType, string> = {
+  adjustment: 'Adjustment',
+  reversal: 'Reversal',
+  opening_balance: 'Opening balance',
+}
+
+const STATUS_FILTERS = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'posted', label: 'Posted' },
+  { value: 'approved', label: 'Not posted' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: '', label: 'All' },
+]
+
+const EMPTY_POLICY: PolicyDraft = { threshold: '', required_role: 'admin', is_active: false }
+
+export default function ApprovalsPage() {
+  const livemode = useLivemode()
+  const activeLedgerGroupId = useActiveLedgerGroupId()
+  const [journals, setJournals] = useState<PendingJournal[]>([])
+  const [policies, setPolicies] = useState<Record<JournalType, PolicyDraft>>({
+    adjustment: EMPTY_POLICY,
+    reversal: EMPTY_POLICY,
+    opening_balance: EMPTY_POLICY,
+  })
+  const [statusFilter, setStatusFilter] = useState('pending')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [actingId, setActingId] = useState<string | null>(null)
+  const [savingPolicy, setSavingPolicy] = useState<JournalType | null>(null)
+  const [confirmApprove, setConfirmApprove] = useState<PendingJournal | null>(null)
+  const [rejectionReasons, setRejectionReasons] = useState<Record<string, string>>({})
+  const [ledgerId, setLedgerId] = useState<string | null>(null)
+  const [userId, setUserId] = useState<string | null>(null)
+  const toast = useToast()
+  const { challenge, dismissChallenge, handleProtectedResponse, retryVerifiedAction } =
+    useSensitiveActionGate()
+
+  const loadData = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const supabase = createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return
+    setUserId(user.id)
+
+    const { data: membership } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership) return
+
+    const { data: ledgers } = await supabase
+      .from('ledgers')
+      .select('id, ledger_group_id')
+      .eq('organization_id', membership.organization_id)
+      .eq('status', 'active')
+      .eq('livemode', livemode)
+
+    const ledger = pickActiveLedger(ledgers, activeLedgerGroupId)
+    if (!ledger) return
+    setLedgerId(ledger.id)
+
+    try {
+      const listRes = await callLedgerFunction('pending-journals', {
+        ledgerId: ledger.id,
+        method: 'GET',
+        query: statusFilter ? { status: statusFilter } : undefined,
+      })
+      const listData = await listRes.json()
+      setJournals(listRes.ok && Array.isArray(listData.pending_journals) ? listData.pending_journals : [])
+
+      const policyRes = await callLedgerFunction('pending-journals/policies', {
+        ledgerId: ledger.id,
+        method: 'GET',
+      })
+      const policyData = await policyRes.json()
+      if (policyRes.ok && Array.isArray(policyData.policies)) {
+        const next: Record<JournalType, PolicyDraft> = {
+          adjustment: EMPTY_POLICY,
+          reversal: EMPTY_POLICY,
+          opening_balance: EMPTY_POLICY,
+        }
+        for (const policy of policyData.policies) {
+          next[policy.journal_type as JournalType] = {
+            threshold: (Number(policy.threshold_amount) / 100).toString(),
+            required_role: policy.required_role,
+            is_active: policy.is_active,
+          }
+        }
+        setPolicies(next)
+      }
+    } catch {
+      setError('Failed to load journal approvals')
+    } finally {
+      setLoading(false)
+    }
+  }, [activeLedgerGroupId, livemode, statusFilter])
+
+  useEffect(() => {
+    void loadData()
+  }, [loadData])
+
+  const decide = async (journal: PendingJournal, decision: 'approve' | 'reject') => {
+    if (!ledgerId) return
+    const reason = rejectionReasons[journal.id]?.trim()
+
+    setActingId(journal.id)
+    try {
+      const res = await callLedgerFunction(`pending-journals/${journal.id}/${decision}`, {
+        ledgerId,
+        method: 'POST',
+        body: reason ? { reason } : {},
+      })
+
+      const result = await res.json()
+      if (handleProtectedResponse(res, result, () => decide(journal, decision))) {
+        return
+      }
+      if (res.ok && result.success !== false) {
+        toast.success(
+          decision === 'approve' ? 'Journal approved' : 'Journal rejected',
+          decision === 'approve' ? 'The journal has been posted to the ledger' : journal.summary,
+        )
+        setRejectionReasons((current) => ({ ...current, [journal.id]: '' }))
+        loadData()
+      } else {
+        toast.error(decision === 'approve' ? 'Approval failed' : 'Rejection failed', result.error || 'Unknown error')
+        if (res.status === 502) loadData()
+      }
+    } catch {
+      toast.error('Failed to update journal')
+    } finally {
+      setActingId(null)
+    }
+  }
+
+  const retryPosting = async (journal: PendingJournal) => {
+    if (!ledgerId) return
+
+    setActingId(journal.id)
+    try {
+      const res = await callLedgerFunction(`pending-journals/${journal.id}/post`, {
+        ledgerId,
+        method: 'POST',
+        body: {},
+      })
+
+      const result = await res.json()
+      if (handleProtectedResponse(res, result, () => retryPosting(journal))) {
+        return
+      }
+      if (res.ok && result.success !== false) {
+        toast.success('Journal posted', journal.summary)
+      } else {
+        toast.error('Posting failed', result.error || 'Unknown error')
+      }
+      loadData()
+    } catch {
+      toast.error('Failed to post journal')
+    } finally {
+      setActingId(null)
+    }
+  }
+
+  const handleApprove = async () => {
+    if (!confirmApprove) return
+    await decide(confirmApprove, 'approve')
+    setConfirmApprove(null)
+  }
+
+  const savePolicy = async (journalType: JournalType) => {
+    if (!ledgerId) return
+    const draft = policies[journalType]
+    const threshold = Math.round(parseFloat(draft.threshold || '0') * 100)
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      toast.error('Invalid threshold', 'Enter a non-negative amount')
+      return
+    }
+
+    setSavingPolicy(journalType)
+    try {
+      const res = await callLedgerFunction('pending-journals/policies', {
+        ledgerId,
+        method: 'POST',
+        body: {
+          journal_type: journalType,
+          threshold_amount: threshold,
+          required_role: draft.required_role,
+          is_active: draft.is_active,
+        },
+      })
+
+      const result = await res.json()
+      if (handleProtectedResponse(res, result, () => savePolicy(journalType))) {
+        return
+      }
+      if (res.ok && result.success !== false) {
+        toast.success('Approval policy saved', JOURNAL_TYPE_LABELS[journalType])
+      } else {
+        toast.error('Failed to save policy', result.error || 'Unknown error')
+      }
+    } catch {
+      toast.error('Failed to save policy')
+    } finally {
+      setSavingPolicy(null)
+    }
+  }
+
+  const updatePolicy = (journalType: JournalType, patch: Partial<PolicyDraft>) => {
+    setPolicies((current) => ({ ...current, [journalType]: { ...current[journalType], ...patch } }))
+  }
+
+  const formatAmount = (journal: PendingJournal) =>
+    `${(Number(journal.amount) / 100).toLocaleString(undefined, { minimumFractionDigits: 2 })} ${journal.currency}`
+
+  const getStatusBadge = (journal: PendingJournal) => {
+    switch (journal.status) {
+      case 'pending':
+        return <span className="px-2 py-1 text-xs rounded bg-yellow-500/10 text-yellow-700 dark:text-yellow-400">Pending</span>
+      case 'approved':
+        return journal.posting_error
+          ? <span className="px-2 py-1 text-xs rounded bg-red-500/10 text-red-700 dark:text-red-400" title={journal.posting_error}>Posting failed</span>
+          : <span className="px-2 py-1 text-xs rounded bg-blue-500/10 text-blue-700 dark:text-blue-400">Posting</span>
+      case 'posted':
+        return <span className="px-2 py-1 text-xs rounded bg-green-500/10 text-green-700 dark:text-green-400">Posted</span>
+      case 'rejected':
+        return <span className="px-2 py-1 text-xs rounded bg-muted text-muted-foreground">Rejected</span>
+      default:
+        return <span className="px-2 py-1 text-xs rounded bg-muted text-muted-foreground">{journal.status}</span>
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 w-64 bg-muted rounded" />
+          <div className="h-4 w-96 bg-muted rounded" />
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="p-8 max-w-6xl mx-auto">
+        <div className="bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg p-4">
+          <div className="flex gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-red-900 dark:text-red-300">Error Loading Approvals</p>
+              <p className="text-red-700 dark:text-red-400 mt-1">{error}</p>
+              <button
+                onClick={loadData}
+                className="mt-2 text-red-700 dark:text-red-400 underline hover:no-underline"
+              >
+                Try again
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Journal Approvals</h1>
+          <p className="text-muted-foreground mt-1">
+            Adjustments, reversals and opening balances waiting for a second team member
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 bg-card border border-border rounded-lg text-sm"
+          >
+            {STATUS_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>{filter.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={loadData}
+            className="px-4 py-2 bg-card border border-border rounded-lg hover:bg-muted/50 flex items-center gap-2"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Journals Table */}
+      {journals.length === 0 ? (
+        <div className="bg-card rounded-lg border border-border p-8 text-center">
+          <ClipboardCheck className="w-12 h-12 text-muted-foreground/50 mx-auto mb-3" />
+          <p className="text-muted-foreground">No journals to review</p>
+          <p className="text-sm text-muted-foreground/70 mt-1">Journals held by an approval policy will appear here</p>
+        </div>
+      ) : (
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-muted/50 border-b border-border">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Journal</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase">Amount</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Prepared By</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Approver</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-muted-foreground uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {journals.map((journal) => {
+                const isOwnJournal = !!userId && journal.prepared_by_user_id === userId
+                return (
+                  <tr key={journal.id} className="hover:bg-muted/50 align-top">
+                    <td className="px-4 py-3">
+                      <div className="text-sm font-medium">{JOURNAL_TYPE_LABELS[journal.journal_type]}</div>
+                      <div className="text-xs text-muted-foreground">{journal.summary}</div>
+                      <div className="text-xs text-muted-foreground/70 mt-0.5">
+                        {new Date(journal.created_at).toLocaleString()}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right font-medium">{formatAmount(journal)}</td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">
+                      {isOwnJournal ? 'You' : journal.prepared_by}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">
+                      {journal.decided_by_user_id
+                        ? (journal.decided_by_user_id === userId ? 'You' : <code className="text-xs">{journal.decided_by_user_id.slice(0, 8)}</code>)
+                        : <span className="capitalize">{journal.required_role} or above</span>}
+                      {journal.decision_reason && (
+                        <div className="text-xs text-muted-foreground/70 mt-0.5">{journal.decision_reason}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {getStatusBadge(journal)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {journal.status === 'pending' && (
+                        isOwnJournal ? (
+                          <span className="text-xs text-muted-foreground">Awaiting another approver</span>
+                        ) : (
+                          <div className="flex items-center justify-end gap-2">
+                            <button
+                              onClick={() => setConfirmApprove(journal)}
+                              disabled={actingId === journal.id}
+                              className="text-sm text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300 disabled:text-muted-foreground flex items-center gap-1"
+                            >
+                              <CheckCircle className="w-3.5 h-3.5" />
+                              {actingId === journal.id ? 'Working...' : 'Approve'}
+                            </button>
+                            <input
+                              type="text"
+                              value={rejectionReasons[journal.id] || ''}
+                              onChange={(e) => setRejectionReasons((current) => ({ ...current, [journal.id]: e.target.value }))}
+                              placeholder="Rejection reason..."
+                              className="w-40 border border-border rounded-md py-1 px-2 text-xs bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                            />
+                            <button
+                              onClick={() => decide(journal, 'reject')}
+                              disabled={actingId === journal.id || !rejectionReasons[journal.id]?.trim()}
+                              className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:text-muted-foreground flex items-center gap-1"
+                            >
+                              <XCircle className="w-3.5 h-3.5" />
+                              Reject
+                            </button>
+                          </div>
+                        )
+                      )}
+                      {journal.status === 'approved' && journal.posting_error && (
+                        <div className="flex flex-col items-end gap-1">
+                          <button
+                            onClick={() => retryPosting(journal)}
+                            disabled={actingId === journal.id}
+                            className="text-sm text-primary hover:underline disabled:text-muted-foreground flex items-center gap-1"
+                          >
+                            <RefreshCw className="w-3.5 h-3.5" />
+                            {actingId === journal.id ? 'Working...' : 'Retry posting'}
+                          </button>
+                          <span className="text-xs text-muted-foreground">
+                            {journal.posting_attempts} failed {journal.posting_attempts === 1 ? 'attempt' : 'attempts'}
+                          </span>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Approval Policies */}
+      <div className="mt-8">
+        <h2 className="text-lg font-semibold text-foreground">Approval Policies</h2>
+        <p className="text-sm text-muted-foreground mt-1 mb-4">
+          Journals at or above the threshold wait for approval by a team member with the required role. Owners and admins can change policies.
+        </p>
+        <div className="bg-card rounded-lg border border-border divide-y divide-border">
+          {(Object.keys(JOURNAL_TYPE_LABELS) as JournalType[]).map((journalType) => {
+            const draft = policies[journalType]
+            return (
+              <div key={journalType} className="flex items-center gap-4 px-4 py-3">
+                <div className="w-40 text-sm font-medium">{JOURNAL_TYPE_LABELS[journalType]}</div>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={draft.is_active}
+                    onChange={(e) => updatePolicy(journalType, { is_active: e.target.checked })}
+                  />
+                  Require approval
+                </label>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  From
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.threshold}
+                    onChange={(e) => updatePolicy(journalType, { threshold: e.target.value })}
+                    placeholder="0.00"
+                    className="w-28 border border-border rounded-md py-1 px-2 text-sm bg-background text-foreground"
+                  />
+                </label>
+                <select
+                  value={draft.required_role}
+                  onChange={(e) => updatePolicy(journalType, { required_role: e.target.value as ApproverRole })}
+                  className="border border-border rounded-md py-1 px-2 text-sm bg-background text-foreground"
+                >
+                  <option value="member">Member or above</option>
+                  <option value="admin">Admin or above</option>
+                  <option value="owner">Owner</option>
+                </select>
+                <button
+                  onClick={() => savePolicy(journalType)}
+                  disabled={savingPolicy === journalType}
+                  className="ml-auto px-3 py-1.5 text-sm bg-card border border-border rounded-md hover:bg-muted/50 disabled:opacity-50 flex items-center gap-1"
+                >
+                  <Save className="w-3.5 h-3.5" />
+                  {savingPolicy === journalType ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!confirmApprove}
+        onClose={() => setConfirmApprove(null)}
+        onConfirm={handleApprove}
+        title="Approve Journal"
+        message={confirmApprove ? `Approve and post this ${JOURNAL_TYPE_LABELS[confirmApprove.journal_type].toLowerCase()} of ${formatAmount(confirmApprove)} prepared by ${confirmApprove.prepared_by}? It will be written to the ledger immediately.` : ''}
+        confirmLabel="Approve & Post"
+      />
+
+      <SensitiveActionModal
+        challenge={challenge}
+        onClose={dismissChallenge}
+        onVerified={retryVerifiedAction}
+      />
+    </div>
+  )
+}
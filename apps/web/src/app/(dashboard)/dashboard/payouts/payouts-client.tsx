@@ -163,6 +163,7 @@ export function PayoutsClient({ ledger, payouts, stats }: PayoutsClientProps) {
   const formatRailLabel = (rail: PayoutRail) => {
     const name = String(rail?.rail || '').toLowerCase()
     if (name === 'card') return 'Card'
+    if (name === 'instant') return 'Instant'
     return name.replaceAll('_', ' ')
   }
 
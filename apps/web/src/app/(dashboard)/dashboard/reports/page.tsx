@@ -4,6 +4,7 @@ import Link from 'next/link'
 import { FileText, Calendar, TrendingUp, Scale, ShieldCheck } from 'lucide-react'
 import { getLivemode, getActiveLedgerGroupId } from '@/lib/livemode-server'
 import { pickActiveLedger } from '@/lib/active-ledger'
+import { ReopenPeriodButton } from '@/components/reports/reopen-period-button'
 
 export default async function ReportsPage() {
   const supabase = await createClient()
@@ -15,7 +16,7 @@ export default async function ReportsPage() {
 
   const { data: membership } = await supabase
     .from('organization_members')
-    .select('organization_id')
+    .select('organization_id, role')
     .eq('user_id', user.id)
     .eq('status', 'active')
     .single()
@@ -136,41 +137,58 @@ export default async function ReportsPage() {
           </div>
         ) : (
           <div className="divide-y divide-border">
-            {periods.map((period) => (
-              <div key={period.id} className="px-6 py-4 flex items-center justify-between">
-                <div>
-                  <p className="font-medium text-foreground">
-                    {new Date(period.fiscal_year, period.period_number - 1).toLocaleDateString('en-US', {
-                      year: 'numeric',
-                      month: 'long',
-                    })}
-                  </p>
-                  <p className="text-sm text-muted-foreground">
-                    {period.period_start} to {period.period_end}
-                  </p>
-                </div>
-                <div className="flex items-center gap-4">
-                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                    period.status === 'closed' 
-                      ? 'bg-green-500/10 text-green-600' 
-                      : period.status === 'locked'
-                      ? 'bg-blue-500/10 text-blue-600'
-                      : 'bg-yellow-500/10 text-yellow-600'
-                  }`}>
-                    {period.status}
-                  </span>
-                  {period.status === 'closed' && (
-                    <span
-                      title="Frozen reports can be retrieved via the API: POST /frozen-statements { action: 'get', period_id: '...' }"
-                      className="inline-flex items-center gap-1 text-xs text-muted-foreground"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect width="18" height="11" x="3" y="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></svg>
-                      Frozen
+            {periods.map((period) => {
+              const periodLabel = new Date(period.fiscal_year, period.period_number - 1).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+              })
+
+              return (
+                <div key={period.id} className="px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">
+                      {periodLabel}
+                      {period.close_version > 1 && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          closed {period.close_version} times
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {period.period_start} to {period.period_end}
+                    </p>
+                    {period.status === 'open' && period.reopened_at && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Reopened {new Date(period.reopened_at).toLocaleDateString('en-US')}: {period.reopen_reason}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                      period.status === 'closed' 
+                        ? 'bg-green-500/10 text-green-600' 
+                        : period.status === 'locked'
+                        ? 'bg-blue-500/10 text-blue-600'
+                        : 'bg-yellow-500/10 text-yellow-600'
+                    }`}>
+                      {period.status}
                     </span>
-                  )}
+                    {period.status === 'closed' && (
+                      <span
+                        title="Frozen reports can be retrieved via the API: POST /frozen-statements { action: 'get', period_id: '...' }"
+                        className="inline-flex items-center gap-1 text-xs text-muted-foreground"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect width="18" height="11" x="3" y="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></svg>
+                        Frozen
+                      </span>
+                    )}
+                    {period.status === 'closed' && membership.role === 'owner' && (
+                      <ReopenPeriodButton ledgerId={ledger.id} periodId={period.id} periodLabel={periodLabel} />
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))}
+              )
+            })}
           </div>
         )}
       </div>
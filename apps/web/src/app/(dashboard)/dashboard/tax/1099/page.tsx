@@ -99,7 +99,7 @@ export default function Tax1099Page() {
       })
       const result: TaxGenerateResponse = await res.json()
       if (result.success && result.generation) {
-        toast.success('Documents generated', `${result.generation.created} created. ${result.generation.skipped} below $600 threshold.`)
+        toast.success('Documents generated', `${result.generation.created} created. ${result.generation.skipped} below their form threshold.`)
         loadData()
       } else {
         toast.error('Generation failed', result.error)
@@ -267,7 +267,7 @@ export default function Tax1099Page() {
       <div className="flex items-center justify-between mb-6">
         <div>
           <h1 className="text-2xl font-bold text-foreground">1099 Overview</h1>
-          <p className="text-muted-foreground mt-1">Payment summaries for creators earning $600+</p>
+          <p className="text-muted-foreground mt-1">1099-NEC, 1099-K and 1099-MISC for creators above their form threshold</p>
         </div>
 
         <div className="flex items-center gap-3">
@@ -506,7 +506,7 @@ export default function Tax1099Page() {
         onClose={() => setConfirmAction(null)}
         onConfirm={confirmGenerateAllPdfs}
         title="Generate All PDFs"
-        message={`Generate 1099-NEC draft PDFs for all ${documents.length} documents?`}
+        message={`Generate draft 1099 PDFs for all ${documents.length} documents?`}
         confirmLabel="Generate PDFs"
       />
       <ConfirmDialog
@@ -514,7 +514,7 @@ export default function Tax1099Page() {
         onClose={() => setConfirmAction(null)}
         onConfirm={confirmSendCopyB}
         title="Send Copy B to Recipients"
-        message={`Email 1099-NEC Copy B PDFs to all recipients with $600+ in gross payments for ${taxYear}?`}
+        message={`Email 1099 Copy B PDFs to all recipients with a ${taxYear} tax document?`}
         confirmLabel="Send Copy B"
       />
 
@@ -414,7 +414,7 @@ export default function TaxSummaryPage() {
         </h2>
         <div className="bg-card rounded-lg border border-border overflow-hidden">
           <div className="px-4 py-3 border-b border-border bg-muted/30 text-sm text-muted-foreground">
-            Maryland digital goods is the only reviewed auto-collect rule in this repo. Other states are monitored for threshold activity and remain pending review.
+            Tax is collected only in jurisdictions registered as nexus through the sales tax API (Maryland digital goods when none are set). States without nexus are monitored here for threshold activity.
           </div>
           <table className="w-full">
             <thead className="bg-muted/50 border-b border-border">
@@ -223,6 +223,34 @@ const TREASURY_RESOURCE_ENDPOINTS: ApiEndpointDoc[] = [
       { in: 'body', name: 'execute_transfer', type: 'boolean', required: false },
     ],
   },
+  {
+    endpoint: 'holds-reserves',
+    title: 'Creator Reserves',
+    path: '/v1/holds/reserves',
+    methods: ['GET'],
+    auth: 'API key',
+    internal: false,
+    deprecated: false,
+    description: 'List rolling reserve held per participant, with the reserve policy and next scheduled release.',
+    source: 'supabase/functions/holds/index.ts',
+    parameters: [],
+  },
+  {
+    endpoint: 'holds-reserve-detail',
+    title: 'Creator Reserve',
+    path: '/v1/holds/reserves/{participant_id}',
+    methods: ['GET', 'POST', 'DELETE'],
+    auth: 'API key',
+    internal: false,
+    deprecated: false,
+    description: 'Get a participant\'s rolling reserve and held tranches, set the percent of each sale held and for how many days, or remove the policy. Tranches already held still release on their dates.',
+    source: 'supabase/functions/holds/index.ts',
+    parameters: [
+      { in: 'path', name: 'participant_id', type: 'string', required: true },
+      { in: 'body', name: 'reserve_percent', type: 'number', required: false },
+      { in: 'body', name: 'hold_days', type: 'number', required: false },
+    ],
+  },
   {
     endpoint: 'checkout-sessions',
     title: 'Checkout Sessions',
@@ -231,11 +259,12 @@ const TREASURY_RESOURCE_ENDPOINTS: ApiEndpointDoc[] = [
     auth: 'API key',
     internal: false,
     deprecated: false,
-    description: 'Create a hosted or direct checkout session for a participant sale.',
+    description: 'Create a hosted or direct checkout session for a participant sale, or for a multi-party cart whose line items each post as their own sale.',
     source: 'supabase/functions/checkout-sessions/index.ts',
     parameters: [
-      { in: 'body', name: 'participant_id', type: 'string', required: true },
-      { in: 'body', name: 'amount', type: 'number', required: true },
+      { in: 'body', name: 'participant_id', type: 'string', required: false },
+      { in: 'body', name: 'amount', type: 'number', required: false },
+      { in: 'body', name: 'line_items', type: 'Array<{ participant_id: string; amount: number; product_id?: string; product_name?: string }>', required: false },
       { in: 'body', name: 'currency', type: 'string', required: false },
       { in: 'body', name: 'product_id', type: 'string', required: false },
       { in: 'body', name: 'product_name', type: 'string', required: false },
@@ -246,6 +275,12 @@ const TREASURY_RESOURCE_ENDPOINTS: ApiEndpointDoc[] = [
       { in: 'body', name: 'success_url', type: 'string', required: false },
       { in: 'body', name: 'cancel_url', type: 'string', required: false },
       { in: 'body', name: 'idempotency_key', type: 'string', required: false },
+      { in: 'body', name: 'collect_sales_tax', type: 'boolean', required: false },
+      { in: 'body', name: 'tax_category', type: 'string', required: false },
+      { in: 'body', name: 'customer_country', type: 'string', required: false },
+      { in: 'body', name: 'customer_state', type: 'string', required: false },
+      { in: 'body', name: 'customer_postal_code', type: 'string', required: false },
+      { in: 'body', name: 'customer_tax_id', type: 'string', required: false },
       { in: 'body', name: 'metadata', type: 'Record<string, string>', required: false },
     ],
   },
@@ -272,6 +307,23 @@ const TREASURY_RESOURCE_ENDPOINTS: ApiEndpointDoc[] = [
       { in: 'body', name: 'metadata', type: 'Record<string, unknown>', required: false },
     ],
   },
+  {
+    endpoint: 'payout-return',
+    title: 'Return Payout',
+    path: '/v1/payouts/{payout_id}/return',
+    methods: ['POST'],
+    auth: 'API key',
+    internal: false,
+    deprecated: false,
+    description: 'Record a bank return (R01, R03, ...) for a payout. Reverses the payout into the creator balance and flags the creator for new bank details on account-level codes.',
+    source: 'supabase/functions/payouts/index.ts',
+    parameters: [
+      { in: 'path', name: 'payout_id', type: 'string', required: true },
+      { in: 'body', name: 'return_code', type: 'string', required: true },
+      { in: 'body', name: 'reason', type: 'string', required: false },
+      { in: 'body', name: 'returned_at', type: 'string', required: false },
+    ],
+  },
   {
     endpoint: 'refunds',
     title: 'Refunds',
@@ -285,7 +337,8 @@ const TREASURY_RESOURCE_ENDPOINTS: ApiEndpointDoc[] = [
     parameters: [
       { in: 'query', name: 'sale_reference', type: 'string', required: false },
       { in: 'query', name: 'limit', type: 'number', required: false },
-      { in: 'body', name: 'original_sale_reference', type: 'string', required: true },
+      { in: 'body', name: 'original_sale_reference', type: 'string', required: false },
+      { in: 'body', name: 'line_item_id', type: 'string', required: false },
       { in: 'body', name: 'reason', type: 'string', required: true },
       { in: 'body', name: 'amount', type: 'number', required: false },
       { in: 'body', name: 'refund_from', type: "'both' | 'platform_only' | 'creator_only'", required: false },
@@ -296,6 +349,92 @@ const TREASURY_RESOURCE_ENDPOINTS: ApiEndpointDoc[] = [
       { in: 'body', name: 'metadata', type: 'Record<string, unknown>', required: false },
     ],
   },
+  {
+    endpoint: 'disputes',
+    title: 'Disputes',
+    path: '/v1/disputes',
+    methods: ['GET', 'POST'],
+    auth: 'API key',
+    internal: false,
+    deprecated: false,
+    description: 'List disputes or open one against a recorded sale. Opening posts the chargeback immediately.',
+    source: 'supabase/functions/disputes/index.ts',
+    parameters: [
+      { in: 'query', name: 'status', type: "'open' | 'evidence_submitted' | 'won' | 'lost' | 'accepted'", required: false },
+      { in: 'query', name: 'creator_id', type: 'string', required: false },
+      { in: 'query', name: 'sale_reference', type: 'string', required: false },
+      { in: 'query', name: 'limit', type: 'number', required: false },
+      { in: 'body', name: 'dispute_id', type: 'string', required: true },
+      { in: 'body', name: 'amount', type: 'number', required: true },
+      { in: 'body', name: 'fee', type: 'number', required: false },
+      { in: 'body', name: 'sale_reference', type: 'string', required: false },
+      { in: 'body', name: 'creator_id', type: 'string', required: false },
+      { in: 'body', name: 'reason', type: 'string', required: false },
+      { in: 'body', name: 'evidence_due_by', type: 'string', required: false },
+      { in: 'body', name: 'currency', type: 'string', required: false },
+      { in: 'body', name: 'metadata', type: 'Record<string, unknown>', required: false },
+    ],
+  },
+  {
+    endpoint: 'dispute-detail',
+    title: 'Dispute Detail',
+    path: '/v1/disputes/{dispute_id}',
+    methods: ['GET'],
+    auth: 'API key',
+    internal: false,
+    deprecated: false,
+    description: 'Get a dispute with its chargeback and reversal transactions.',
+    source: 'supabase/functions/disputes/index.ts',
+    parameters: [
+      { in: 'path', name: 'dispute_id', type: 'string', required: true },
+    ],
+  },
+  {
+    endpoint: 'dispute-evidence',
+    title: 'Submit Dispute Evidence',
+    path: '/v1/disputes/{dispute_id}/evidence',
+    methods: ['POST'],
+    auth: 'API key',
+    internal: false,
+    deprecated: false,
+    description: 'Attach evidence metadata to an open dispute. Pass submit: false to save without changing status.',
+    source: 'supabase/functions/disputes/index.ts',
+    parameters: [
+      { in: 'path', name: 'dispute_id', type: 'string', required: true },
+      { in: 'body', name: 'evidence', type: 'Record<string, unknown>', required: true },
+      { in: 'body', name: 'submit', type: 'boolean', required: false },
+    ],
+  },
+  {
+    endpoint: 'dispute-accept',
+    title: 'Accept Dispute',
+    path: '/v1/disputes/{dispute_id}/accept',
+    methods: ['POST'],
+    auth: 'API key',
+    internal: false,
+    deprecated: false,
+    description: 'Concede a dispute. The chargeback stands.',
+    source: 'supabase/functions/disputes/index.ts',
+    parameters: [
+      { in: 'path', name: 'dispute_id', type: 'string', required: true },
+    ],
+  },
+  {
+    endpoint: 'dispute-outcome',
+    title: 'Record Dispute Outcome',
+    path: '/v1/disputes/{dispute_id}/outcome',
+    methods: ['POST'],
+    auth: 'API key',
+    internal: false,
+    deprecated: false,
+    description: 'Record the processor decision. A won dispute reverses the chargeback.',
+    source: 'supabase/functions/disputes/index.ts',
+    parameters: [
+      { in: 'path', name: 'dispute_id', type: 'string', required: true },
+      { in: 'body', name: 'outcome', type: "'won' | 'lost' | 'accepted'", required: true },
+      { in: 'body', name: 'fee_refunded', type: 'boolean', required: false },
+    ],
+  },
 ]
 
 const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
@@ -421,6 +560,12 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "type": "number",
         "required": false
       },
+      {
+        "in": "body",
+        "name": "fiscal_year",
+        "type": "boolean",
+        "required": false
+      },
       {
         "in": "body",
         "name": "notes",
@@ -658,6 +803,30 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "type": "number",
         "required": false
       },
+      {
+        "in": "body",
+        "name": "backup_withholding_enabled",
+        "type": "boolean",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "negative_balance_recovery_percent",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "negative_balance_block_payouts",
+        "type": "boolean",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "negative_balance_write_off_days",
+        "type": "number | null",
+        "required": false
+      },
       {
         "in": "body",
         "name": "currency",
@@ -666,6 +835,33 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
       }
     ]
   },
+  {
+    "endpoint": "creator-receivables",
+    "title": "Creator Receivables",
+    "path": "/v1/creator-receivables",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Negative creator balances still owed, aged per creator into current, 31-60, 61-90 and over-90-day buckets, with the ledger's recovery policy. Refunds and chargebacks that push a creator below zero move the deficit to a per-creator receivable that later earnings pay down.",
+    "source": "supabase/functions/creator-receivables/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "creator_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "as_of",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
   {
     "endpoint": "delete-creator",
     "title": "Delete Creator",
@@ -729,6 +925,18 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "name": "rail_config",
         "type": "RailConfig",
         "required": false
+      },
+      {
+        "in": "body",
+        "name": "file_content",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "file_type",
+        "type": "string",
+        "required": false
       }
     ]
   },
@@ -778,152 +986,338 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
     ]
   },
   {
-    "endpoint": "frozen-statements",
-    "title": "Frozen Statements",
-    "path": "/v1/frozen-statements",
+    "endpoint": "fixed-assets",
+    "title": "Fixed Assets",
+    "path": "/v1/fixed-assets",
     "methods": [
+      "GET",
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Frozen Statements",
-    "source": "supabase/functions/frozen-statements/index.ts",
+    "description": "Register fixed assets and list the register. Registering posts the acquisition (Fixed Assets debited, the funding account credited) and a monthly depreciation schedule; months already elapsed are posted immediately as depreciation adjustments against Accumulated Depreciation.",
+    "source": "supabase/functions/fixed-assets/index.ts",
     "parameters": [
+      {
+        "in": "query",
+        "name": "status",
+        "type": "'active' | 'fully_depreciated' | 'disposed'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "category",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
       {
         "in": "body",
-        "name": "action",
-        "type": "Action",
-        "required": true
+        "name": "name",
+        "type": "string",
+        "required": false
       },
       {
         "in": "body",
-        "name": "period_id",
+        "name": "category",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "statement_type",
-        "type": "StatementType",
+        "name": "description",
+        "type": "string",
         "required": false
-      }
-    ]
-  },
-  {
-    "endpoint": "generate-pdf",
-    "title": "Generate Pdf",
-    "path": "/v1/generate-pdf",
-    "methods": [
-      "POST"
-    ],
-    "auth": "API key",
-    "internal": false,
-    "deprecated": false,
-    "description": "Generate PDF Reports",
-    "source": "supabase/functions/generate-pdf/index.ts",
-    "parameters": [
+      },
       {
         "in": "body",
-        "name": "report_type",
-        "type": "ReportType",
-        "required": true
+        "name": "cost",
+        "type": "number",
+        "required": false
       },
       {
         "in": "body",
-        "name": "period_id",
-        "type": "string",
+        "name": "salvage_value",
+        "type": "number",
         "required": false
       },
       {
         "in": "body",
-        "name": "creator_id",
+        "name": "acquisition_date",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "start_date",
-        "type": "string",
+        "name": "useful_life_months",
+        "type": "number",
         "required": false
       },
       {
         "in": "body",
-        "name": "end_date",
-        "type": "string",
+        "name": "method",
+        "type": "'straight_line' | 'declining_balance'",
         "required": false
       },
       {
         "in": "body",
-        "name": "tax_year",
+        "name": "declining_factor",
         "type": "number",
         "required": false
       },
       {
         "in": "body",
-        "name": "ledger_id",
-        "type": "string",
+        "name": "funding_account_type",
+        "type": "'cash' | 'accounts_payable' | 'owner_equity'",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "generate-report",
-    "title": "Generate Report",
-    "path": "/v1/generate-report",
+    "endpoint": "frozen-statements",
+    "title": "Frozen Statements",
+    "path": "/v1/frozen-statements",
     "methods": [
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Generate Report",
-    "source": "supabase/functions/generate-report/index.ts",
+    "description": "Frozen Statements",
+    "source": "supabase/functions/frozen-statements/index.ts",
     "parameters": [
       {
         "in": "body",
-        "name": "report_type",
-        "type": "ReportType",
+        "name": "action",
+        "type": "Action",
         "required": true
       },
       {
         "in": "body",
-        "name": "start_date",
+        "name": "period_id",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "end_date",
-        "type": "string",
+        "name": "statement_type",
+        "type": "StatementType",
         "required": false
       },
       {
         "in": "body",
-        "name": "creator_id",
-        "type": "string",
+        "name": "version",
+        "type": "number",
         "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "fx-revaluation",
+    "title": "FX Revaluation",
+    "path": "/v1/fx-revaluation",
+    "methods": [
+      "GET",
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Revalue open foreign-currency positions at closing rates and post unrealized FX gain/loss, or list past revaluation runs",
+    "source": "supabase/functions/fx-revaluation/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "as_of_date",
+        "type": "string",
+        "required": true
       },
       {
         "in": "body",
-        "name": "format",
-        "type": "'json' | 'csv'",
+        "name": "rates",
+        "type": "Record<string, number>",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "get-runway",
-    "title": "Get Runway",
-    "path": "/v1/get-runway",
+    "endpoint": "fx-rates",
+    "title": "FX Rates",
+    "path": "/v1/fx-rates",
     "methods": [
-      "GET"
+      "GET",
+      "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Get Runway",
-    "source": "supabase/functions/get-runway/index.ts",
+    "description": "List the ledger's effective-dated FX rate table or push rates into it",
+    "source": "supabase/functions/fx-rates/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "rates",
+        "type": "Array<{ base_currency: string; quote_currency: string; rate: number; effective_date: string }>",
+        "required": true
+      },
+      {
+        "in": "query",
+        "name": "base_currency",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "quote_currency",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "from_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "to_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "generate-pdf",
+    "title": "Generate Pdf",
+    "path": "/v1/generate-pdf",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Generate PDF Reports",
+    "source": "supabase/functions/generate-pdf/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "report_type",
+        "type": "ReportType",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "period_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "creator_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "start_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "end_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "tax_year",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "ledger_id",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "generate-report",
+    "title": "Generate Report",
+    "path": "/v1/generate-report",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Generate Report",
+    "source": "supabase/functions/generate-report/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "report_type",
+        "type": "ReportType",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "start_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "end_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "creator_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "format",
+        "type": "'json' | 'csv'",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "get-runway",
+    "title": "Get Runway",
+    "path": "/v1/get-runway",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Get Runway",
+    "source": "supabase/functions/get-runway/index.ts",
     "parameters": []
   },
   {
@@ -989,6 +1383,94 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
       }
     ]
   },
+  {
+    "endpoint": "gift-codes",
+    "title": "Gift Code Batches",
+    "path": "/v1/gift-codes/batches",
+    "methods": [
+      "GET",
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List gift card and promo code batches, or generate a batch. Gift cards are single-use stored value booked to gift card liability on issue; promo codes are multi-use, once per customer, and expensed to marketing on redemption. Codes are returned in full only on creation and export.",
+    "source": "supabase/functions/gift-codes/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "kind",
+        "type": "'gift_card' | 'promo'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "status",
+        "type": "'active' | 'voided'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "kind",
+        "type": "'gift_card' | 'promo'",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "name",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "denomination",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "currency",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "count",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "code",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "max_redemptions",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "expires_at",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "metadata",
+        "type": "object",
+        "required": false
+      }
+    ]
+  },
   {
     "endpoint": "health-check",
     "title": "Health Check",
@@ -1492,7 +1974,7 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Manage Splits",
+    "description": "Manage tiers, per-creator and per-product splits, and versioned multi-recipient split rules",
     "source": "supabase/functions/manage-splits/index.ts",
     "parameters": [
       {
@@ -1518,6 +2000,36 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "name": "product_id",
         "type": "string",
         "required": false
+      },
+      {
+        "in": "body",
+        "name": "split_rule_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "scope",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "scope_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "name",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "recipients",
+        "type": "unknown",
+        "required": false
       }
     ]
   },
@@ -1579,23 +2091,56 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
     ]
   },
   {
-    "endpoint": "preflight-authorization",
-    "title": "Preflight Authorization",
-    "path": "/v1/preflight-authorization",
+    "endpoint": "pending-journals",
+    "title": "Pending Journals",
+    "path": "/v1/pending-journals",
     "methods": [
-      "POST"
+      "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Preflight Authorization",
-    "source": "supabase/functions/preflight-authorization/index.ts",
+    "description": "List journals held for maker-checker approval. Adjustments, reversals and opening balances at or above the ledger's approval threshold answer 202 with a pending journal instead of posting; a team member other than the preparer approves or rejects them in the dashboard, and approval posts the original request.",
+    "source": "supabase/functions/pending-journals/index.ts",
     "parameters": [
       {
-        "in": "body",
-        "name": "idempotency_key",
-        "type": "string",
-        "required": true
+        "in": "query",
+        "name": "status",
+        "type": "'pending' | 'approved' | 'rejected' | 'posted'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "journal_type",
+        "type": "'adjustment' | 'reversal' | 'opening_balance'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "preflight-authorization",
+    "title": "Preflight Authorization",
+    "path": "/v1/preflight-authorization",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Preflight Authorization",
+    "source": "supabase/functions/preflight-authorization/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "idempotency_key",
+        "type": "string",
+        "required": true
       },
       {
         "in": "body",
@@ -1896,6 +2441,12 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "name": "prepared_by",
         "type": "string",
         "required": true
+      },
+      {
+        "in": "body",
+        "name": "auto_reverse",
+        "type": "boolean",
+        "required": false
       }
     ]
   },
@@ -2172,6 +2723,12 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "name": "balances",
         "type": "OpeningBalanceEntry[]",
         "required": true
+      },
+      {
+        "in": "body",
+        "name": "prepared_by",
+        "type": "string",
+        "required": false
       }
     ]
   },
@@ -2218,6 +2775,18 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "type": "'platform' | 'creator' | 'split'",
         "required": false
       },
+      {
+        "in": "body",
+        "name": "currency",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "fx_rate",
+        "type": "number",
+        "required": false
+      },
       {
         "in": "body",
         "name": "product_id",
@@ -2236,6 +2805,18 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "type": "number",
         "required": false
       },
+      {
+        "in": "body",
+        "name": "split_rule_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "recognition",
+        "type": "{ method: 'straight_line', months, start_date? } | { method: 'milestone', milestones, start_date? }",
+        "required": false
+      },
       {
         "in": "body",
         "name": "skip_withholding",
@@ -2302,314 +2883,1683 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
     ]
   },
   {
-    "endpoint": "register-instrument",
-    "title": "Register Instrument",
-    "path": "/v1/register-instrument",
-    "methods": [
-      "POST"
-    ],
-    "auth": "API key",
-    "internal": false,
-    "deprecated": false,
-    "description": "Register Authorizing Instrument",
-    "source": "supabase/functions/register-instrument/index.ts",
-    "parameters": [
-      {
-        "in": "body",
-        "name": "external_ref",
-        "type": "string",
-        "required": true
-      },
-      {
-        "in": "body",
-        "name": "extracted_terms",
-        "type": "ExtractedTerms",
-        "required": true
-      }
-    ]
-  },
-  {
-    "endpoint": "reverse-transaction",
-    "title": "Reverse Transaction",
-    "path": "/v1/reverse-transaction",
+    "endpoint": "recurring-journals",
+    "title": "Recurring Journals",
+    "path": "/v1/recurring-journals",
     "methods": [
+      "GET",
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Reverse Transaction",
-    "source": "supabase/functions/reverse-transaction/index.ts",
+    "description": "List recurring journal templates, or create one. A template is a balanced set of adjustment entries (amounts in minor units) posted as an adjustment on each due date by the run-recurring-journals cron, e.g. a monthly rent accrual or amortization. Every instance after the first links to the first as a recurring_child in the transaction graph. Accrual and deferral templates can auto_reverse each instance on the first day of the next period.",
+    "source": "supabase/functions/recurring-journals/index.ts",
     "parameters": [
       {
-        "in": "body",
-        "name": "transaction_id",
-        "type": "string",
-        "required": true
-      },
-      {
-        "in": "body",
-        "name": "reason",
-        "type": "string",
-        "required": true
+        "in": "query",
+        "name": "status",
+        "type": "'active' | 'paused' | 'ended'",
+        "required": false
       },
       {
-        "in": "body",
-        "name": "partial_amount",
+        "in": "query",
+        "name": "limit",
         "type": "number",
         "required": false
       },
       {
         "in": "body",
-        "name": "idempotency_key",
+        "name": "name",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "metadata",
-        "type": "Record<string, any>",
+        "name": "adjustment_type",
+        "type": "'accrual' | 'deferral' | 'depreciation' | 'reclassification' | 'other'",
         "required": false
-      }
-    ]
-  },
-  {
-    "endpoint": "risk-evaluation",
-    "title": "Risk Evaluation",
-    "path": "/v1/risk-evaluation",
-    "methods": [
-      "POST"
-    ],
-    "auth": "API key",
-    "internal": false,
-    "deprecated": true,
-    "description": "Risk Evaluation",
-    "source": "supabase/functions/risk-evaluation/index.ts",
-    "parameters": [
+      },
       {
         "in": "body",
-        "name": "idempotency_key",
+        "name": "reason",
         "type": "string",
-        "required": true
+        "required": false
       },
       {
         "in": "body",
-        "name": "amount",
-        "type": "number",
-        "required": true
+        "name": "entries",
+        "type": "Array<{ account_type: string; entity_id?: string; entry_type: 'debit' | 'credit'; amount: number }>",
+        "required": false
       },
       {
         "in": "body",
-        "name": "currency",
-        "type": "string",
+        "name": "recurrence_interval",
+        "type": "'weekly' | 'monthly' | 'quarterly' | 'annual'",
         "required": false
       },
       {
         "in": "body",
-        "name": "counterparty_name",
+        "name": "start_date",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "authorizing_instrument_id",
+        "name": "end_date",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "expected_date",
-        "type": "string",
+        "name": "auto_reverse",
+        "type": "boolean",
         "required": false
       },
       {
         "in": "body",
-        "name": "category",
+        "name": "prepared_by",
         "type": "string",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "scheduled-payouts",
-    "title": "Scheduled Payouts",
-    "path": "/v1/scheduled-payouts",
-    "methods": [
-      "POST"
-    ],
-    "auth": "API key",
-    "internal": true,
-    "deprecated": false,
-    "description": "Scheduled Payouts",
-    "source": "supabase/functions/scheduled-payouts/index.ts",
-    "parameters": []
-  },
-  {
-    "endpoint": "security-alerts",
-    "title": "Security Alerts",
-    "path": "/v1/security-alerts",
-    "methods": [
-      "POST"
-    ],
-    "auth": "Public/JWT",
-    "internal": true,
-    "deprecated": false,
-    "description": "Security Alerts",
-    "source": "supabase/functions/security-alerts/index.ts",
-    "parameters": []
-  },
-  {
-    "endpoint": "send-breach-alert",
-    "title": "Send Breach Alert",
-    "path": "/v1/send-breach-alert",
+    "endpoint": "referrals",
+    "title": "Referral Attributions",
+    "path": "/v1/referrals",
     "methods": [
+      "GET",
       "POST"
     ],
     "auth": "API key",
-    "internal": true,
+    "internal": false,
     "deprecated": false,
-    "description": "Send Breach Alert",
-    "source": "supabase/functions/send-breach-alert/index.ts",
+    "description": "List referral attributions or create one. An attribution pays the referrer commission_percent of the platform's share on every sale and credit redemption by the referred creator or customer within the window; refunds reverse commissions proportionally.",
+    "source": "supabase/functions/referrals/index.ts",
     "parameters": [
       {
         "in": "body",
-        "name": "cash_balance",
-        "type": "number",
+        "name": "referrer_id",
+        "type": "string",
         "required": true
       },
       {
         "in": "body",
-        "name": "pending_total",
-        "type": "number",
-        "required": true
+        "name": "referred_type",
+        "type": "'creator' | 'customer'",
+        "required": false
       },
       {
         "in": "body",
-        "name": "shortfall",
-        "type": "number",
+        "name": "referred_id",
+        "type": "string",
         "required": true
       },
       {
         "in": "body",
-        "name": "coverage_ratio",
+        "name": "commission_percent",
         "type": "number",
         "required": true
       },
       {
         "in": "body",
-        "name": "triggered_by",
-        "type": "'project_intent' | 'get_runway' | 'manual'",
-        "required": true
+        "name": "starts_at",
+        "type": "string",
+        "required": false
       },
       {
         "in": "body",
-        "name": "instrument_id",
+        "name": "ends_at",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "external_ref",
+        "name": "metadata",
+        "type": "Record<string, unknown>",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "referrer_id",
         "type": "string",
         "required": false
       },
       {
-        "in": "body",
-        "name": "projections_created",
-        "type": "number",
+        "in": "query",
+        "name": "referred_type",
+        "type": "'creator' | 'customer'",
         "required": false
       },
       {
-        "in": "body",
-        "name": "channel",
-        "type": "'slack' | 'email' | 'webhook'",
+        "in": "query",
+        "name": "referred_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "status",
+        "type": "'active' | 'ended'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "send-statements",
-    "title": "Send Statements",
-    "path": "/v1/send-statements",
+    "endpoint": "register-instrument",
+    "title": "Register Instrument",
+    "path": "/v1/register-instrument",
     "methods": [
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Soledgic Auto-Email Service",
-    "source": "supabase/functions/send-statements/index.ts",
+    "description": "Register Authorizing Instrument",
+    "source": "supabase/functions/register-instrument/index.ts",
     "parameters": [
       {
         "in": "body",
-        "name": "action",
-        "type": "'send_monthly_statements' | 'send_single_statement' | 'preview' | 'get_queue'...",
+        "name": "external_ref",
+        "type": "string",
         "required": true
       },
       {
         "in": "body",
-        "name": "ledger_id",
-        "type": "string",
-        "required": false
+        "name": "extracted_terms",
+        "type": "ExtractedTerms",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "reopen-period",
+    "title": "Reopen Period",
+    "path": "/v1/reopen-period",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Reopen a closed month or quarter so a late correction can be posted. Organization owners only, from the dashboard with step-up verification; API key requests are refused. Locked fiscal years, and periods inside a closed quarter or year, cannot be reopened. Closing the period again records a new close version, and frozen statements generated after it are kept as a new version beside the earlier ones.",
+    "source": "supabase/functions/reopen-period/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "period_id",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "reason",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "revenue-recognition",
+    "title": "Revenue Recognition Schedules",
+    "path": "/v1/revenue-recognition",
+    "methods": [
+      "GET",
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List revenue recognition schedules or put an existing sale on one. The platform's share of the sale moves to deferred revenue and is released straight-line at each month end or by milestone; refunds unwind the unrecognized remainder.",
+    "source": "supabase/functions/revenue-recognition/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "transaction_id",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "recognition",
+        "type": "{ method: 'straight_line', months, start_date? } | { method: 'milestone', milestones: [{ name, percent, recognize_on? }], start_date? }",
+        "required": true
+      },
+      {
+        "in": "query",
+        "name": "status",
+        "type": "'active' | 'completed' | 'canceled'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "source_transaction_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "reverse-transaction",
+    "title": "Reverse Transaction",
+    "path": "/v1/reverse-transaction",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Reverse Transaction",
+    "source": "supabase/functions/reverse-transaction/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "transaction_id",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "reason",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "partial_amount",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "idempotency_key",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "metadata",
+        "type": "Record<string, any>",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "prepared_by",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "risk-evaluation",
+    "title": "Risk Evaluation",
+    "path": "/v1/risk-evaluation",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": true,
+    "description": "Risk Evaluation",
+    "source": "supabase/functions/risk-evaluation/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "idempotency_key",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "amount",
+        "type": "number",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "currency",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "counterparty_name",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "authorizing_instrument_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "expected_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "category",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "scheduled-payouts",
+    "title": "Scheduled Payouts",
+    "path": "/v1/scheduled-payouts",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": true,
+    "deprecated": false,
+    "description": "Scheduled Payouts",
+    "source": "supabase/functions/scheduled-payouts/index.ts",
+    "parameters": []
+  },
+  {
+    "endpoint": "security-alerts",
+    "title": "Security Alerts",
+    "path": "/v1/security-alerts",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Public/JWT",
+    "internal": true,
+    "deprecated": false,
+    "description": "Security Alerts",
+    "source": "supabase/functions/security-alerts/index.ts",
+    "parameters": []
+  },
+  {
+    "endpoint": "send-breach-alert",
+    "title": "Send Breach Alert",
+    "path": "/v1/send-breach-alert",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": true,
+    "deprecated": false,
+    "description": "Send Breach Alert",
+    "source": "supabase/functions/send-breach-alert/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "cash_balance",
+        "type": "number",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "pending_total",
+        "type": "number",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "shortfall",
+        "type": "number",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "coverage_ratio",
+        "type": "number",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "triggered_by",
+        "type": "'project_intent' | 'get_runway' | 'manual'",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "instrument_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "external_ref",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "projections_created",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "channel",
+        "type": "'slack' | 'email' | 'webhook'",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "send-statements",
+    "title": "Send Statements",
+    "path": "/v1/send-statements",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Soledgic Auto-Email Service",
+    "source": "supabase/functions/send-statements/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "action",
+        "type": "'send_monthly_statements' | 'send_single_statement' | 'preview' | 'get_queue'...",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "ledger_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "creator_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "year",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "month",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "email_config",
+        "type": "EmailConfig",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "submit-tax-info",
+    "title": "Submit Tax Info",
+    "path": "/v1/submit-tax-info",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Public/JWT",
+    "internal": false,
+    "deprecated": true,
+    "description": "Submit Tax Info",
+    "source": "supabase/functions/submit-tax-info/index.ts",
+    "parameters": []
+  },
+  {
+    "endpoint": "subscriptions",
+    "title": "Subscriptions",
+    "path": "/v1/subscriptions",
+    "methods": [
+      "GET",
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List subscriptions or subscribe a buyer to a plan. Subscribing charges the first period to the saved payment_method_id; every paid period is booked as a funding + split sale. Renewals are charged by the renewal cron and failed renewals are retried on the ledger's subscription_retry_days dunning schedule before the subscription is canceled.",
+    "source": "supabase/functions/subscriptions/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "plan_id",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "buyer_id",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "payment_method_id",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "idempotency_key",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "customer_email",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "metadata",
+        "type": "Record<string, unknown>",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "status",
+        "type": "'incomplete' | 'active' | 'past_due' | 'canceled'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "buyer_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "participant_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "plan_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "test-cleanup",
+    "title": "Test Cleanup",
+    "path": "/v1/test-cleanup",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": true,
+    "deprecated": false,
+    "description": "Test Data Cleanup",
+    "source": "supabase/functions/test-cleanup/index.ts",
+    "parameters": []
+  },
+  {
+    "endpoint": "trial-balance",
+    "title": "Trial Balance",
+    "path": "/v1/trial-balance",
+    "methods": [
+      "GET",
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Trial Balance",
+    "source": "supabase/functions/trial-balance/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "snapshot",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "as_of",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "upload-receipt",
+    "title": "Upload Receipt",
+    "path": "/v1/upload-receipt",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Upload Receipt",
+    "source": "supabase/functions/upload-receipt/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "file_url",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "file_name",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "file_size",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "mime_type",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "merchant_name",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "transaction_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "total_amount",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "transaction_id",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "webhooks",
+    "title": "Webhooks",
+    "path": "/v1/webhooks",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Webhooks Management",
+    "source": "supabase/functions/webhooks/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "action",
+        "type": "'list' | 'create' | 'update' | 'delete' | 'test' | 'deliveries' | 'retry' | '...",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "endpoint_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "delivery_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "url",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "description",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "events",
+        "type": "string[]",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "is_active",
+        "type": "boolean",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "reconciliations-unmatched",
+    "title": "Reconciliations Unmatched",
+    "path": "/v1/reconciliations/unmatched",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List unmatched ledger transactions that still need settlement or bank reconciliation.",
+    "source": "supabase/functions/reconciliations/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "reconciliations-match-create",
+    "title": "Create Reconciliation Match",
+    "path": "/v1/reconciliations/matches",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Match a ledger transaction to an external bank or settlement transaction.",
+    "source": "supabase/functions/reconciliations/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "transaction_id",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "bank_transaction_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "reconciliations-match-delete",
+    "title": "Delete Reconciliation Match",
+    "path": "/v1/reconciliations/matches/{transaction_id}",
+    "methods": [
+      "DELETE"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Remove an existing reconciliation match for a transaction.",
+    "source": "supabase/functions/reconciliations/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "transaction_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "reconciliations-snapshot-create",
+    "title": "Create Reconciliation Snapshot",
+    "path": "/v1/reconciliations/snapshots",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Create a reconciliation snapshot for an accounting period or as-of date.",
+    "source": "supabase/functions/reconciliations/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "period_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "as_of_date",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "reconciliations-snapshot-detail",
+    "title": "Reconciliation Snapshot Detail",
+    "path": "/v1/reconciliations/snapshots/{period_id}",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Fetch the latest reconciliation snapshot for a period and verify its integrity hash.",
+    "source": "supabase/functions/reconciliations/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "period_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "reconciliations-auto-match",
+    "title": "Auto Match Settlement Transaction",
+    "path": "/v1/reconciliations/auto-match",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Attempt to automatically match a bank aggregator transaction to a ledger transaction.",
+    "source": "supabase/functions/reconciliations/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "bank_aggregator_transaction_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "fraud-evaluations",
+    "title": "Fraud Evaluations",
+    "path": "/v1/fraud/evaluations",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Evaluate a proposed transaction against configured fraud and policy rules.",
+    "source": "supabase/functions/fraud/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "idempotency_key",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "amount",
+        "type": "number",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "currency",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "counterparty_name",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "authorizing_instrument_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "expected_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "category",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "fraud-evaluation-detail",
+    "title": "Fraud Evaluation Detail",
+    "path": "/v1/fraud/evaluations/{evaluation_id}",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Get a previously created fraud evaluation.",
+    "source": "supabase/functions/fraud/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "evaluation_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "fraud-policies",
+    "title": "Fraud Policies",
+    "path": "/v1/fraud/policies",
+    "methods": [
+      "GET",
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List configured fraud policies or create a new policy rule.",
+    "source": "supabase/functions/fraud/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "policy_type",
+        "type": "'require_instrument' | 'budget_cap' | 'projection_guard'",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "config",
+        "type": "Record<string, unknown>",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "severity",
+        "type": "'hard' | 'soft'",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "priority",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "fraud-policy-delete",
+    "title": "Delete Fraud Policy",
+    "path": "/v1/fraud/policies/{policy_id}",
+    "methods": [
+      "DELETE"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Delete a configured fraud policy.",
+    "source": "supabase/functions/fraud/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "policy_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "compliance-overview",
+    "title": "Compliance Overview",
+    "path": "/v1/compliance/overview",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Get a ledger-scoped overview of compliance and monitoring signals.",
+    "source": "supabase/functions/compliance/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "days",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "hours",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "compliance-access-patterns",
+    "title": "Compliance Access Patterns",
+    "path": "/v1/compliance/access-patterns",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List suspicious or high-volume access patterns for the current ledger.",
+    "source": "supabase/functions/compliance/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "hours",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "compliance-financial-activity",
+    "title": "Compliance Financial Activity",
+    "path": "/v1/compliance/financial-activity",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Summarize payout, sale, refund, and dispute activity for compliance review.",
+    "source": "supabase/functions/compliance/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "days",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "compliance-security-summary",
+    "title": "Compliance Security Summary",
+    "path": "/v1/compliance/security-summary",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Summarize risk-scored security and audit events for the current ledger.",
+    "source": "supabase/functions/compliance/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "days",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-documents-v2",
+    "title": "Tax Documents",
+    "path": "/v1/tax/documents",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List generated tax documents (1099-NEC, 1099-K, 1099-MISC, 1042-S) for a tax year.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "tax_year",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "form_type",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-documents-generate",
+    "title": "Generate Tax Documents",
+    "path": "/v1/tax/documents/generate",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Generate tax documents for all participants that cross the filing threshold, plus a 1042-S for every creator with an active W-8 or NRA withholding in the year.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "tax_year",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-documents-export",
+    "title": "Export Tax Documents",
+    "path": "/v1/tax/documents/export",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Export generated tax documents as CSV or JSON.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "tax_year",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "format",
+        "type": "'csv' | 'json'",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-document-detail",
+    "title": "Tax Document Detail",
+    "path": "/v1/tax/documents/{document_id}",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Fetch a single generated tax document.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "document_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-document-mark-filed",
+    "title": "Mark Tax Document Filed",
+    "path": "/v1/tax/documents/{document_id}/mark-filed",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Mark a generated tax document as filed.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "document_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-calculation",
+    "title": "Tax Calculation",
+    "path": "/v1/tax/calculations/{participant_id}",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Calculate participant-level tax totals and shared tax profile status for a year.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "participant_id",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "query",
+        "name": "tax_year",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-thresholds",
+    "title": "Tax Form Thresholds",
+    "path": "/v1/tax/thresholds",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List the 1099 form, box and filing threshold for each payment category in effect for a tax year.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "tax_year",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-filings",
+    "title": "Tax Filings",
+    "path": "/v1/tax/filings",
+    "methods": [
+      "GET",
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Generate an IRS FIRE (Publication 1220) file or IRIS XML submission for a tax year, validated against the record layout and stored privately with a short-lived download URL. Production files mark the included documents filed. GET lists previous filings.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "tax_year",
+        "type": "number",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "format",
+        "type": "'fire' | 'iris'",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "form_type",
+        "type": "'1099-NEC' | '1099-K' | '1099-MISC'",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "test_file",
+        "type": "boolean",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "combined_federal_state",
+        "type": "boolean",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "payee_tins",
+        "type": "Record<string, string>",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "transmitter",
+        "type": "{ tin?: string; tcc?: string; name?: string; contact_name?: string; contact_phone?: string; contact_email?: string }",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "payer",
+        "type": "{ tin?: string; name?: string; address?: string; city?: string; state?: string; zip?: string; phone?: string }",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "tax_year",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-filing-detail",
+    "title": "Tax Filing Detail",
+    "path": "/v1/tax/filings/{filing_id}",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Fetch a tax filing record with a fresh five-minute download URL for the stored file.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "filing_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-backup-withholding",
+    "title": "Backup Withholding",
+    "path": "/v1/tax/backup-withholding",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List participants with active backup withholding (24% on sales and payouts), either because no TIN is on file or because a B-notice withholding start date has passed. Pass status to list a single state.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "status",
+        "type": "'not_required' | 'required_missing_tin' | 'required_b_notice'",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-backup-withholding-detail",
+    "title": "Participant Backup Withholding",
+    "path": "/v1/tax/backup-withholding/{participant_id}",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Recompute and return a participant's backup withholding state with their CP2100 notices and deadlines.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "participant_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-backup-withholding-notices",
+    "title": "Backup Withholding Notices",
+    "path": "/v1/tax/backup-withholding/notices",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List imported CP2100 notices with their B-notice due date, withholding start date and deadline status.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "status",
+        "type": "'open' | 'b_notice_sent' | 'resolved' | 'unresolved'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "tax_year",
+        "type": "number",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-backup-withholding-notices-import",
+    "title": "Import CP2100 Notices",
+    "path": "/v1/tax/backup-withholding/notices/import",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Import a CP2100 / CP2100A name/TIN mismatch list as rows or CSV. Rows are matched to participants by account number, repeat notices within three years become second B-notices, and deadlines are set 15 and 30 business days after the later of the notice and receipt dates. Only the last four TIN digits are kept.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "notice_date",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "received_date",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "notice_source",
+        "type": "'cp2100' | 'cp2100a'",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "rows",
+        "type": "Array<{ account_number?: string; participant_id?: string; name?: string; tin?: string; tax_year?: number }>",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "csv",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-backup-withholding-notice-sent",
+    "title": "Mark B-Notice Sent",
+    "path": "/v1/tax/backup-withholding/notices/{notice_id}/b-notice-sent",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Record that the B-notice for an open CP2100 entry was mailed.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "notice_id",
+        "type": "string",
+        "required": true
       },
       {
-        "in": "body",
-        "name": "creator_id",
+        "in": "body",
+        "name": "sent_at",
+        "type": "string",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-backup-withholding-notice-resolve",
+    "title": "Resolve B-Notice",
+    "path": "/v1/tax/backup-withholding/notices/{notice_id}/resolve",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Resolve a CP2100 entry and stop backup withholding when no other notice applies. Second B-notices require IRS or SSA TIN validation.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "notice_id",
         "type": "string",
-        "required": false
+        "required": true
       },
       {
         "in": "body",
-        "name": "year",
-        "type": "number",
-        "required": false
-      },
+        "name": "resolution",
+        "type": "'w9_recertified' | 'irs_validation' | 'ssa_validation' | 'notice_withdrawn'",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "tax-summary",
+    "title": "Tax Summary",
+    "path": "/v1/tax/summaries/{tax_year}",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Generate and return tax summary totals for one year, optionally filtered to a participant.",
+    "source": "supabase/functions/tax/index.ts",
+    "parameters": [
       {
-        "in": "body",
-        "name": "month",
+        "in": "path",
+        "name": "tax_year",
         "type": "number",
-        "required": false
+        "required": true
       },
       {
-        "in": "body",
-        "name": "email_config",
-        "type": "EmailConfig",
+        "in": "query",
+        "name": "participant_id",
+        "type": "string",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "submit-tax-info",
-    "title": "Submit Tax Info",
-    "path": "/v1/submit-tax-info",
+    "endpoint": "fx-rates-lookup",
+    "title": "Look Up FX Rate",
+    "path": "/v1/fx-rates/lookup",
     "methods": [
-      "POST"
+      "GET"
     ],
-    "auth": "Public/JWT",
+    "auth": "API key",
     "internal": false,
-    "deprecated": true,
-    "description": "Submit Tax Info",
-    "source": "supabase/functions/submit-tax-info/index.ts",
-    "parameters": []
+    "deprecated": false,
+    "description": "Resolve the rate in force for a currency pair on a date (direct, inverse or cross via the functional currency).",
+    "source": "supabase/functions/fx-rates/index.ts",
+    "parameters": [
+      {
+        "in": "query",
+        "name": "from",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "query",
+        "name": "to",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "date",
+        "type": "string",
+        "required": false
+      }
+    ]
   },
   {
-    "endpoint": "test-cleanup",
-    "title": "Test Cleanup",
-    "path": "/v1/test-cleanup",
+    "endpoint": "fx-rates-import",
+    "title": "Import FX Rates",
+    "path": "/v1/fx-rates/import",
     "methods": [
       "POST"
     ],
     "auth": "API key",
-    "internal": true,
+    "internal": false,
     "deprecated": false,
-    "description": "Test Data Cleanup",
-    "source": "supabase/functions/test-cleanup/index.ts",
-    "parameters": []
+    "description": "Import rates from a CSV file or an ECB eurofxref XML feed.",
+    "source": "supabase/functions/fx-rates/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "data",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "format",
+        "type": "'csv' | 'ecb_xml' | 'auto'",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "base_currency",
+        "type": "string",
+        "required": false
+      }
+    ]
   },
   {
-    "endpoint": "trial-balance",
-    "title": "Trial Balance",
-    "path": "/v1/trial-balance",
+    "endpoint": "sales-tax-rates",
+    "title": "Sales Tax Rates",
+    "path": "/v1/sales-tax/rates",
     "methods": [
       "GET",
       "POST"
@@ -2617,12 +4567,24 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Trial Balance",
-    "source": "supabase/functions/trial-balance/index.ts",
+    "description": "List built-in and ledger sales tax / VAT rates, or upsert effective-dated ledger overrides by country, state, postal prefix and tax category.",
+    "source": "supabase/functions/sales-tax/index.ts",
     "parameters": [
+      {
+        "in": "body",
+        "name": "rates",
+        "type": "Array<{ country_code: string; state_code?: string; postal_code?: string; tax_category?: string; jurisdiction_code?: string; jurisdiction_name?: string; tax_type?: 'sales_tax' | 'vat' | 'gst'; rate_bps: number; effective_from: string; effective_to?: string }>",
+        "required": true
+      },
       {
         "in": "query",
-        "name": "snapshot",
+        "name": "country_code",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "state_code",
         "type": "string",
         "required": false
       },
@@ -2635,660 +4597,825 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
     ]
   },
   {
-    "endpoint": "upload-receipt",
-    "title": "Upload Receipt",
-    "path": "/v1/upload-receipt",
+    "endpoint": "sales-tax-nexus",
+    "title": "Sales Tax Nexus",
+    "path": "/v1/sales-tax/nexus",
     "methods": [
+      "GET",
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Upload Receipt",
-    "source": "supabase/functions/upload-receipt/index.ts",
+    "description": "List or upsert the jurisdictions where the ledger is registered to collect tax. With no nexus rows, tax is collected for US-MD only.",
+    "source": "supabase/functions/sales-tax/index.ts",
     "parameters": [
       {
         "in": "body",
-        "name": "file_url",
-        "type": "string",
+        "name": "nexus",
+        "type": "Array<{ country_code: string; state_code?: string; registration_number?: string; collect_tax?: boolean; effective_from?: string; effective_to?: string }>",
         "required": true
-      },
+      }
+    ]
+  },
+  {
+    "endpoint": "sales-tax-calculate",
+    "title": "Calculate Sales Tax",
+    "path": "/v1/sales-tax/calculate",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Quote sales tax / VAT on a subtotal for a buyer location, applying nexus and B2B VAT reverse charge.",
+    "source": "supabase/functions/sales-tax/index.ts",
+    "parameters": [
       {
         "in": "body",
-        "name": "file_name",
-        "type": "string",
-        "required": false
+        "name": "amount",
+        "type": "number",
+        "required": true
       },
       {
         "in": "body",
-        "name": "file_size",
-        "type": "number",
+        "name": "customer_country",
+        "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "mime_type",
+        "name": "customer_state",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "merchant_name",
+        "name": "customer_postal_code",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "transaction_date",
+        "name": "tax_category",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "total_amount",
-        "type": "number",
+        "name": "customer_tax_id",
+        "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "transaction_id",
+        "name": "as_of",
         "type": "string",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "webhooks",
-    "title": "Webhooks",
-    "path": "/v1/webhooks",
+    "endpoint": "referrals-detail",
+    "title": "Referral Attribution",
+    "path": "/v1/referrals/{attribution_id}",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Get a referral attribution with its commissions and earned, reversed and net totals.",
+    "source": "supabase/functions/referrals/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "attribution_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "referrals-end",
+    "title": "End Referral Attribution",
+    "path": "/v1/referrals/{attribution_id}/end",
     "methods": [
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Webhooks Management",
-    "source": "supabase/functions/webhooks/index.ts",
+    "description": "Stop an attribution from earning further commissions. Commissions already posted are still reversed if their sales are refunded.",
+    "source": "supabase/functions/referrals/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "attribution_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "subscriptions-plans",
+    "title": "Subscription Plans",
+    "path": "/v1/subscriptions/plans",
+    "methods": [
+      "GET",
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List subscription plans or create one. amount is the price per period in minor units; currency defaults to the ledger's functional currency.",
+    "source": "supabase/functions/subscriptions/index.ts",
     "parameters": [
       {
         "in": "body",
-        "name": "action",
-        "type": "'list' | 'create' | 'update' | 'delete' | 'test' | 'deliveries' | 'retry' | '...",
+        "name": "participant_id",
+        "type": "string",
         "required": true
       },
       {
         "in": "body",
-        "name": "endpoint_id",
+        "name": "product_id",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "delivery_id",
+        "name": "name",
         "type": "string",
-        "required": false
+        "required": true
       },
       {
         "in": "body",
-        "name": "url",
+        "name": "amount",
+        "type": "number",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "currency",
         "type": "string",
         "required": false
       },
       {
         "in": "body",
-        "name": "description",
-        "type": "string",
+        "name": "interval",
+        "type": "'day' | 'week' | 'month' | 'year'",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "interval_count",
+        "type": "number",
         "required": false
       },
       {
         "in": "body",
-        "name": "events",
-        "type": "string[]",
+        "name": "revenue_recognition",
+        "type": "'immediate' | 'ratable'",
         "required": false
       },
       {
         "in": "body",
-        "name": "is_active",
-        "type": "boolean",
+        "name": "metadata",
+        "type": "Record<string, unknown>",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "participant_id",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "status",
+        "type": "'active' | 'archived'",
+        "required": false
+      },
+      {
+        "in": "query",
+        "name": "limit",
+        "type": "number",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "reconciliations-unmatched",
-    "title": "Reconciliations Unmatched",
-    "path": "/v1/reconciliations/unmatched",
+    "endpoint": "subscriptions-plan-archive",
+    "title": "Archive Subscription Plan",
+    "path": "/v1/subscriptions/plans/{plan_id}/archive",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Stop new subscriptions to a plan. Existing subscriptions keep renewing.",
+    "source": "supabase/functions/subscriptions/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "plan_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "subscriptions-detail",
+    "title": "Subscription",
+    "path": "/v1/subscriptions/{subscription_id}",
     "methods": [
       "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "List unmatched ledger transactions that still need settlement or bank reconciliation.",
-    "source": "supabase/functions/reconciliations/index.ts",
+    "description": "Get a subscription with its charges, including failed dunning attempts.",
+    "source": "supabase/functions/subscriptions/index.ts",
     "parameters": [
       {
-        "in": "query",
-        "name": "limit",
-        "type": "number",
-        "required": false
+        "in": "path",
+        "name": "subscription_id",
+        "type": "string",
+        "required": true
       }
     ]
   },
   {
-    "endpoint": "reconciliations-match-create",
-    "title": "Create Reconciliation Match",
-    "path": "/v1/reconciliations/matches",
+    "endpoint": "subscriptions-change-plan",
+    "title": "Change Subscription Plan",
+    "path": "/v1/subscriptions/{subscription_id}/change-plan",
     "methods": [
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Match a ledger transaction to an external bank or settlement transaction.",
-    "source": "supabase/functions/reconciliations/index.ts",
+    "description": "Move an active subscription to another plan with the same currency and interval. With prorate (default true) an upgrade is charged for the rest of the period now and a downgrade becomes credit applied to later charges.",
+    "source": "supabase/functions/subscriptions/index.ts",
     "parameters": [
       {
-        "in": "body",
-        "name": "transaction_id",
+        "in": "path",
+        "name": "subscription_id",
         "type": "string",
         "required": true
       },
       {
         "in": "body",
-        "name": "bank_transaction_id",
+        "name": "plan_id",
         "type": "string",
         "required": true
+      },
+      {
+        "in": "body",
+        "name": "prorate",
+        "type": "boolean",
+        "required": false
       }
     ]
   },
   {
-    "endpoint": "reconciliations-match-delete",
-    "title": "Delete Reconciliation Match",
-    "path": "/v1/reconciliations/matches/{transaction_id}",
+    "endpoint": "subscriptions-cancel",
+    "title": "Cancel Subscription",
+    "path": "/v1/subscriptions/{subscription_id}/cancel",
     "methods": [
-      "DELETE"
+      "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Remove an existing reconciliation match for a transaction.",
-    "source": "supabase/functions/reconciliations/index.ts",
+    "description": "Cancel at the end of the paid period (default for active subscriptions) or immediately with at_period_end false. The current period is not refunded.",
+    "source": "supabase/functions/subscriptions/index.ts",
     "parameters": [
       {
         "in": "path",
-        "name": "transaction_id",
+        "name": "subscription_id",
         "type": "string",
         "required": true
+      },
+      {
+        "in": "body",
+        "name": "at_period_end",
+        "type": "boolean",
+        "required": false
       }
     ]
   },
   {
-    "endpoint": "reconciliations-snapshot-create",
-    "title": "Create Reconciliation Snapshot",
-    "path": "/v1/reconciliations/snapshots",
+    "endpoint": "subscriptions-payment-method",
+    "title": "Update Subscription Payment Method",
+    "path": "/v1/subscriptions/{subscription_id}/payment-method",
     "methods": [
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Create a reconciliation snapshot for an accounting period or as-of date.",
-    "source": "supabase/functions/reconciliations/index.ts",
+    "description": "Replace the saved payment method. A past_due subscription is retried on the next renewal run.",
+    "source": "supabase/functions/subscriptions/index.ts",
     "parameters": [
       {
-        "in": "body",
-        "name": "period_id",
+        "in": "path",
+        "name": "subscription_id",
         "type": "string",
-        "required": false
+        "required": true
       },
       {
         "in": "body",
-        "name": "as_of_date",
+        "name": "payment_method_id",
         "type": "string",
-        "required": false
+        "required": true
       }
     ]
   },
   {
-    "endpoint": "reconciliations-snapshot-detail",
-    "title": "Reconciliation Snapshot Detail",
-    "path": "/v1/reconciliations/snapshots/{period_id}",
+    "endpoint": "revenue-recognition-detail",
+    "title": "Revenue Recognition Schedule",
+    "path": "/v1/revenue-recognition/{schedule_id}",
     "methods": [
       "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Fetch the latest reconciliation snapshot for a period and verify its integrity hash.",
-    "source": "supabase/functions/reconciliations/index.ts",
+    "description": "Get a revenue recognition schedule with its lines and the amounts recognized, unwound and still deferred.",
+    "source": "supabase/functions/revenue-recognition/index.ts",
     "parameters": [
       {
         "in": "path",
-        "name": "period_id",
+        "name": "schedule_id",
         "type": "string",
         "required": true
       }
     ]
   },
   {
-    "endpoint": "reconciliations-auto-match",
-    "title": "Auto Match Settlement Transaction",
-    "path": "/v1/reconciliations/auto-match",
+    "endpoint": "revenue-recognition-milestone-complete",
+    "title": "Complete Revenue Milestone",
+    "path": "/v1/revenue-recognition/{schedule_id}/milestones/{line_number}/complete",
     "methods": [
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Attempt to automatically match a bank aggregator transaction to a ledger transaction.",
-    "source": "supabase/functions/reconciliations/index.ts",
+    "description": "Recognize a milestone's revenue now, whatever date it was planned for.",
+    "source": "supabase/functions/revenue-recognition/index.ts",
     "parameters": [
       {
-        "in": "body",
-        "name": "bank_aggregator_transaction_id",
+        "in": "path",
+        "name": "schedule_id",
         "type": "string",
         "required": true
+      },
+      {
+        "in": "path",
+        "name": "line_number",
+        "type": "number",
+        "required": true
       }
     ]
   },
   {
-    "endpoint": "fraud-evaluations",
-    "title": "Fraud Evaluations",
-    "path": "/v1/fraud/evaluations",
+    "endpoint": "creator-receivables-recover",
+    "title": "Recover Creator Debts",
+    "path": "/v1/creator-receivables/recover",
     "methods": [
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Evaluate a proposed transaction against configured fraud and policy rules.",
-    "source": "supabase/functions/fraud/index.ts",
+    "description": "Net a creator's available balance against what they owe now, oldest debt first, within the ledger's recovery percent.",
+    "source": "supabase/functions/creator-receivables/index.ts",
     "parameters": [
       {
         "in": "body",
-        "name": "idempotency_key",
+        "name": "creator_id",
         "type": "string",
         "required": true
-      },
-      {
-        "in": "body",
-        "name": "amount",
-        "type": "number",
-        "required": true
-      },
-      {
-        "in": "body",
-        "name": "currency",
-        "type": "string",
-        "required": false
-      },
-      {
-        "in": "body",
-        "name": "counterparty_name",
-        "type": "string",
-        "required": false
-      },
+      }
+    ]
+  },
+  {
+    "endpoint": "creator-receivables-debts",
+    "title": "Creator Debts",
+    "path": "/v1/creator-receivables/debts",
+    "methods": [
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List the negative balance debts recorded for creators, newest first.",
+    "source": "supabase/functions/creator-receivables/index.ts",
+    "parameters": [
       {
-        "in": "body",
-        "name": "authorizing_instrument_id",
-        "type": "string",
+        "in": "query",
+        "name": "status",
+        "type": "'outstanding' | 'recovered' | 'written_off'",
         "required": false
       },
       {
-        "in": "body",
-        "name": "expected_date",
+        "in": "query",
+        "name": "creator_id",
         "type": "string",
         "required": false
       },
       {
-        "in": "body",
-        "name": "category",
-        "type": "string",
+        "in": "query",
+        "name": "limit",
+        "type": "number",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "fraud-evaluation-detail",
-    "title": "Fraud Evaluation Detail",
-    "path": "/v1/fraud/evaluations/{evaluation_id}",
+    "endpoint": "creator-receivables-debt-detail",
+    "title": "Creator Debt",
+    "path": "/v1/creator-receivables/debts/{debt_id}",
     "methods": [
       "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Get a previously created fraud evaluation.",
-    "source": "supabase/functions/fraud/index.ts",
+    "description": "Get a creator debt with the amounts recovered, written off and still outstanding.",
+    "source": "supabase/functions/creator-receivables/index.ts",
     "parameters": [
       {
         "in": "path",
-        "name": "evaluation_id",
+        "name": "debt_id",
         "type": "string",
         "required": true
       }
     ]
   },
   {
-    "endpoint": "fraud-policies",
-    "title": "Fraud Policies",
-    "path": "/v1/fraud/policies",
+    "endpoint": "creator-receivables-debt-write-off",
+    "title": "Write Off Creator Debt",
+    "path": "/v1/creator-receivables/debts/{debt_id}/write-off",
     "methods": [
-      "GET",
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "List configured fraud policies or create a new policy rule.",
-    "source": "supabase/functions/fraud/index.ts",
+    "description": "Write what is left of an outstanding creator debt off to bad debt expense.",
+    "source": "supabase/functions/creator-receivables/index.ts",
     "parameters": [
       {
-        "in": "body",
-        "name": "policy_type",
-        "type": "'require_instrument' | 'budget_cap' | 'projection_guard'",
-        "required": false
-      },
-      {
-        "in": "body",
-        "name": "config",
-        "type": "Record<string, unknown>",
-        "required": false
-      },
-      {
-        "in": "body",
-        "name": "severity",
-        "type": "'hard' | 'soft'",
-        "required": false
+        "in": "path",
+        "name": "debt_id",
+        "type": "string",
+        "required": true
       },
       {
         "in": "body",
-        "name": "priority",
-        "type": "number",
+        "name": "reason",
+        "type": "string",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "fraud-policy-delete",
-    "title": "Delete Fraud Policy",
-    "path": "/v1/fraud/policies/{policy_id}",
+    "endpoint": "gift-codes-batch-detail",
+    "title": "Gift Code Batch",
+    "path": "/v1/gift-codes/batches/{batch_id}",
     "methods": [
-      "DELETE"
+      "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Delete a configured fraud policy.",
-    "source": "supabase/functions/fraud/index.ts",
+    "description": "Get a batch with its codes counted by status, total redemptions and the gift card value still outstanding.",
+    "source": "supabase/functions/gift-codes/index.ts",
     "parameters": [
       {
         "in": "path",
-        "name": "policy_id",
+        "name": "batch_id",
         "type": "string",
         "required": true
       }
     ]
   },
   {
-    "endpoint": "compliance-overview",
-    "title": "Compliance Overview",
-    "path": "/v1/compliance/overview",
+    "endpoint": "gift-codes-batch-export",
+    "title": "Export Gift Codes",
+    "path": "/v1/gift-codes/batches/{batch_id}/export",
     "methods": [
       "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Get a ledger-scoped overview of compliance and monitoring signals.",
-    "source": "supabase/functions/compliance/index.ts",
+    "description": "Export every code in a batch with its status as CSV or JSON, for printing or handing to a distributor.",
+    "source": "supabase/functions/gift-codes/index.ts",
     "parameters": [
       {
-        "in": "query",
-        "name": "days",
-        "type": "number",
-        "required": false
+        "in": "path",
+        "name": "batch_id",
+        "type": "string",
+        "required": true
       },
       {
         "in": "query",
-        "name": "hours",
-        "type": "number",
+        "name": "format",
+        "type": "'csv' | 'json'",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "compliance-access-patterns",
-    "title": "Compliance Access Patterns",
-    "path": "/v1/compliance/access-patterns",
+    "endpoint": "gift-codes-batch-void",
+    "title": "Void Gift Code Batch",
+    "path": "/v1/gift-codes/batches/{batch_id}/void",
     "methods": [
-      "GET"
+      "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "List suspicious or high-volume access patterns for the current ledger.",
-    "source": "supabase/functions/compliance/index.ts",
+    "description": "Void every active code in a batch. Unredeemed gift card value is reversed out of gift card liability; redeemed codes are unaffected.",
+    "source": "supabase/functions/gift-codes/index.ts",
     "parameters": [
       {
-        "in": "query",
-        "name": "hours",
-        "type": "number",
-        "required": false
+        "in": "path",
+        "name": "batch_id",
+        "type": "string",
+        "required": true
       },
       {
-        "in": "query",
-        "name": "limit",
-        "type": "number",
+        "in": "body",
+        "name": "reason",
+        "type": "string",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "compliance-financial-activity",
-    "title": "Compliance Financial Activity",
-    "path": "/v1/compliance/financial-activity",
+    "endpoint": "gift-codes-code-void",
+    "title": "Void Gift Code",
+    "path": "/v1/gift-codes/codes/{code}/void",
     "methods": [
-      "GET"
+      "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Summarize payout, sale, refund, and dispute activity for compliance review.",
-    "source": "supabase/functions/compliance/index.ts",
+    "description": "Void a single active code, for example one reported lost or stolen.",
+    "source": "supabase/functions/gift-codes/index.ts",
     "parameters": [
       {
-        "in": "query",
-        "name": "days",
-        "type": "number",
+        "in": "path",
+        "name": "code",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "reason",
+        "type": "string",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "compliance-security-summary",
-    "title": "Compliance Security Summary",
-    "path": "/v1/compliance/security-summary",
+    "endpoint": "gift-codes-redeem",
+    "title": "Redeem Gift Code",
+    "path": "/v1/gift-codes/redeem",
     "methods": [
-      "GET"
+      "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Summarize risk-scored security and audit events for the current ledger.",
-    "source": "supabase/functions/compliance/index.ts",
+    "description": "Redeem a code into the customer's consumer_credit wallet. Failed attempts are logged and a customer with too many in a short window is throttled with a 429.",
+    "source": "supabase/functions/gift-codes/index.ts",
     "parameters": [
       {
-        "in": "query",
-        "name": "days",
-        "type": "number",
-        "required": false
+        "in": "body",
+        "name": "code",
+        "type": "string",
+        "required": true
+      },
+      {
+        "in": "body",
+        "name": "customer_id",
+        "type": "string",
+        "required": true
       }
     ]
   },
   {
-    "endpoint": "tax-documents-v2",
-    "title": "Tax Documents",
-    "path": "/v1/tax/documents",
+    "endpoint": "pending-journals-detail",
+    "title": "Pending Journal",
+    "path": "/v1/pending-journals/{journal_id}",
     "methods": [
       "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "List generated tax documents for a tax year.",
-    "source": "supabase/functions/tax/index.ts",
+    "description": "Get a pending journal with the request body that will post when it is approved.",
+    "source": "supabase/functions/pending-journals/index.ts",
     "parameters": [
       {
-        "in": "query",
-        "name": "tax_year",
-        "type": "number",
-        "required": false
+        "in": "path",
+        "name": "journal_id",
+        "type": "string",
+        "required": true
       }
     ]
   },
   {
-    "endpoint": "tax-documents-generate",
-    "title": "Generate Tax Documents",
-    "path": "/v1/tax/documents/generate",
+    "endpoint": "pending-journals-policies",
+    "title": "Journal Approval Policies",
+    "path": "/v1/pending-journals/policies",
     "methods": [
-      "POST"
+      "GET"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "List the ledger's approval policies: per journal type, the amount (minor units) from which approval is required and the lowest team role that may approve. Policies are changed by owners and admins in the dashboard.",
+    "source": "supabase/functions/pending-journals/index.ts",
+    "parameters": []
+  },
+  {
+    "endpoint": "recurring-journals-detail",
+    "title": "Recurring Journal",
+    "path": "/v1/recurring-journals/{template_id}",
+    "methods": [
+      "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Generate tax documents for all participants that cross the filing threshold.",
-    "source": "supabase/functions/tax/index.ts",
+    "description": "Get a recurring journal template with its next run dates and most recent posted instances, including each instance's auto-reversal.",
+    "source": "supabase/functions/recurring-journals/index.ts",
     "parameters": [
       {
-        "in": "body",
-        "name": "tax_year",
-        "type": "number",
-        "required": false
+        "in": "path",
+        "name": "template_id",
+        "type": "string",
+        "required": true
       }
     ]
   },
   {
-    "endpoint": "tax-documents-export",
-    "title": "Export Tax Documents",
-    "path": "/v1/tax/documents/export",
+    "endpoint": "recurring-journals-pause",
+    "title": "Pause Recurring Journal",
+    "path": "/v1/recurring-journals/{template_id}/pause",
     "methods": [
-      "GET"
+      "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Export generated tax documents as CSV or JSON.",
-    "source": "supabase/functions/tax/index.ts",
+    "description": "Stop posting instances until the template is resumed. A resumed template posts the instances it missed, one per cron run.",
+    "source": "supabase/functions/recurring-journals/index.ts",
     "parameters": [
       {
-        "in": "query",
-        "name": "tax_year",
-        "type": "number",
-        "required": false
-      },
-      {
-        "in": "query",
-        "name": "format",
-        "type": "'csv' | 'json'",
-        "required": false
+        "in": "path",
+        "name": "template_id",
+        "type": "string",
+        "required": true
       }
     ]
   },
   {
-    "endpoint": "tax-document-detail",
-    "title": "Tax Document Detail",
-    "path": "/v1/tax/documents/{document_id}",
+    "endpoint": "recurring-journals-resume",
+    "title": "Resume Recurring Journal",
+    "path": "/v1/recurring-journals/{template_id}/resume",
     "methods": [
-      "GET"
+      "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Fetch a single generated tax document.",
-    "source": "supabase/functions/tax/index.ts",
+    "description": "Resume a paused template.",
+    "source": "supabase/functions/recurring-journals/index.ts",
     "parameters": [
       {
         "in": "path",
-        "name": "document_id",
+        "name": "template_id",
         "type": "string",
         "required": true
       }
     ]
   },
   {
-    "endpoint": "tax-document-mark-filed",
-    "title": "Mark Tax Document Filed",
-    "path": "/v1/tax/documents/{document_id}/mark-filed",
+    "endpoint": "recurring-journals-end",
+    "title": "End Recurring Journal",
+    "path": "/v1/recurring-journals/{template_id}/end",
     "methods": [
       "POST"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Mark a generated tax document as filed.",
-    "source": "supabase/functions/tax/index.ts",
+    "description": "End a template for good. Instances already posted, and their pending auto-reversals, are unaffected.",
+    "source": "supabase/functions/recurring-journals/index.ts",
     "parameters": [
       {
         "in": "path",
-        "name": "document_id",
+        "name": "template_id",
         "type": "string",
         "required": true
       }
     ]
   },
   {
-    "endpoint": "tax-calculation",
-    "title": "Tax Calculation",
-    "path": "/v1/tax/calculations/{participant_id}",
+    "endpoint": "fixed-assets-schedule",
+    "title": "Depreciation Schedule",
+    "path": "/v1/fixed-assets/schedule",
     "methods": [
       "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Calculate participant-level tax totals and shared tax profile status for a year.",
-    "source": "supabase/functions/tax/index.ts",
+    "description": "Depreciation schedule for a period (defaults to the current fiscal year): opening book value, additions, depreciation, disposals and closing book value per asset, plus depreciation by month. Pending months are projected from the schedule.",
+    "source": "supabase/functions/fixed-assets/index.ts",
     "parameters": [
       {
-        "in": "path",
-        "name": "participant_id",
+        "in": "query",
+        "name": "start_date",
         "type": "string",
-        "required": true
+        "required": false
       },
       {
         "in": "query",
-        "name": "tax_year",
-        "type": "number",
+        "name": "end_date",
+        "type": "string",
         "required": false
       }
     ]
   },
   {
-    "endpoint": "tax-summary",
-    "title": "Tax Summary",
-    "path": "/v1/tax/summaries/{tax_year}",
+    "endpoint": "fixed-assets-detail",
+    "title": "Fixed Asset",
+    "path": "/v1/fixed-assets/{asset_id}",
     "methods": [
       "GET"
     ],
     "auth": "API key",
     "internal": false,
     "deprecated": false,
-    "description": "Generate and return tax summary totals for one year, optionally filtered to a participant.",
-    "source": "supabase/functions/tax/index.ts",
+    "description": "Get a fixed asset with its net book value and every depreciation line, posted, pending or canceled.",
+    "source": "supabase/functions/fixed-assets/index.ts",
     "parameters": [
       {
         "in": "path",
-        "name": "tax_year",
-        "type": "number",
+        "name": "asset_id",
+        "type": "string",
+        "required": true
+      }
+    ]
+  },
+  {
+    "endpoint": "fixed-assets-dispose",
+    "title": "Dispose Fixed Asset",
+    "path": "/v1/fixed-assets/{asset_id}/dispose",
+    "methods": [
+      "POST"
+    ],
+    "auth": "API key",
+    "internal": false,
+    "deprecated": false,
+    "description": "Sell or retire an asset. Depreciation is caught up to the disposal date, remaining lines are canceled, and the cost and accumulated depreciation are removed with the difference from proceeds posted to Gain/Loss on Asset Disposal.",
+    "source": "supabase/functions/fixed-assets/index.ts",
+    "parameters": [
+      {
+        "in": "path",
+        "name": "asset_id",
+        "type": "string",
         "required": true
       },
       {
-        "in": "query",
-        "name": "participant_id",
+        "in": "body",
+        "name": "disposal_date",
         "type": "string",
         "required": false
+      },
+      {
+        "in": "body",
+        "name": "proceeds",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "proceeds_account_type",
+        "type": "'cash' | 'accounts_receivable'",
+        "required": false
       }
     ]
   },
@@ -3360,6 +5487,201 @@ const RAW_API_ENDPOINT_CATALOG: ApiEndpointDoc[] = [
         "required": false
       }
     ]
+  },
+  {
+    "endpoint": "subscription-renewals",
+    "title": "Subscription Renewals",
+    "path": "/v1/subscription-renewals",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Custom/internal",
+    "internal": true,
+    "deprecated": false,
+    "description": "Charge due renewals, retry past_due subscriptions on their dunning schedule, end subscriptions set to cancel at period end and re-book charged_pending_ledger charges",
+    "source": "supabase/functions/subscription-renewals/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "dry_run",
+        "type": "boolean",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "recognize-deferred-revenue",
+    "title": "Recognize Deferred Revenue",
+    "path": "/v1/recognize-deferred-revenue",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Custom/internal",
+    "internal": true,
+    "deprecated": false,
+    "description": "Release revenue schedule lines that have come due from deferred revenue to platform revenue, and unwind schedules whose sale was voided",
+    "source": "supabase/functions/recognize-deferred-revenue/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "as_of",
+        "type": "string",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "dry_run",
+        "type": "boolean",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "process-creator-debts",
+    "title": "Process Creator Debts",
+    "path": "/v1/process-creator-debts",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Custom/internal",
+    "internal": true,
+    "deprecated": false,
+    "description": "Recover outstanding creator debts from balances earned outside record-sale, and write off debts older than each ledger's negative_balance_write_off_days",
+    "source": "supabase/functions/process-creator-debts/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "dry_run",
+        "type": "boolean",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "process-sale-followups",
+    "title": "Process Sale Follow-ups",
+    "path": "/v1/process-sale-followups",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Custom/internal",
+    "internal": true,
+    "deprecated": false,
+    "description": "Retry the referral commissions, revenue schedules, creator reserves and creator debt recoveries left pending after a sale committed",
+    "source": "supabase/functions/process-sale-followups/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "dry_run",
+        "type": "boolean",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "expire-gift-codes",
+    "title": "Expire Gift Codes",
+    "path": "/v1/expire-gift-codes",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Custom/internal",
+    "internal": true,
+    "deprecated": false,
+    "description": "Expire gift cards and promo codes past their expiry date and recognize unredeemed gift card value as breakage revenue",
+    "source": "supabase/functions/expire-gift-codes/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "dry_run",
+        "type": "boolean",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "run-recurring-journals",
+    "title": "Run Recurring Journals",
+    "path": "/v1/run-recurring-journals",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Custom/internal",
+    "internal": true,
+    "deprecated": false,
+    "description": "Post the due instances of recurring journal templates, then the reversing entries of auto-reversing accruals and deferrals whose reversal date has arrived",
+    "source": "supabase/functions/run-recurring-journals/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "dry_run",
+        "type": "boolean",
+        "required": false
+      }
+    ]
+  },
+  {
+    "endpoint": "run-depreciation",
+    "title": "Run Depreciation",
+    "path": "/v1/run-depreciation",
+    "methods": [
+      "POST"
+    ],
+    "auth": "Custom/internal",
+    "internal": true,
+    "deprecated": false,
+    "description": "Post fixed asset depreciation lines that have come due, catching up assets that fell behind",
+    "source": "supabase/functions/run-depreciation/index.ts",
+    "parameters": [
+      {
+        "in": "body",
+        "name": "limit",
+        "type": "number",
+        "required": false
+      },
+      {
+        "in": "body",
+        "name": "dry_run",
+        "type": "boolean",
+        "required": false
+      }
+    ]
   }
 ]
 
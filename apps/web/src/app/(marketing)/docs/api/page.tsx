@@ -77,6 +77,7 @@ const ENDPOINT_CATEGORIES: Record<string, string> = {
   'create-ledger': 'Ledgers',
   'list-ledgers': 'Ledgers',
   'close-period': 'Ledgers',
+  'reopen-period': 'Ledgers',
   'frozen-statements': 'Ledgers',
 
   'generate-report': 'Reports',
@@ -143,6 +144,13 @@ const ENDPOINT_CATEGORIES: Record<string, string> = {
   'ops-monitor': 'Internal',
   'process-processor-inbox': 'Internal',
   'reconcile-checkout-ledger': 'Internal',
+  'subscription-renewals': 'Internal',
+  'recognize-deferred-revenue': 'Internal',
+  'process-creator-debts': 'Internal',
+  'process-sale-followups': 'Internal',
+  'expire-gift-codes': 'Internal',
+  'run-recurring-journals': 'Internal',
+  'run-depreciation': 'Internal',
 }
 
 function categorySlug(category: string): string {
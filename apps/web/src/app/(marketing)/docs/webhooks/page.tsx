@@ -54,10 +54,46 @@ export default function WebhooksPage() {
                 <td className="py-2 px-3"><code className="bg-muted px-1 rounded">payout.executed</code></td>
                 <td className="py-2 px-3 text-muted-foreground">A payout rail reported completion</td>
               </tr>
-              <tr>
+              <tr className="border-b border-border">
                 <td className="py-2 px-3"><code className="bg-muted px-1 rounded">payout.failed</code></td>
                 <td className="py-2 px-3 text-muted-foreground">A payout rail reported failure</td>
               </tr>
+              <tr className="border-b border-border">
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">payout.returned</code></td>
+                <td className="py-2 px-3 text-muted-foreground">The bank returned a payout and it was reversed into the creator balance</td>
+              </tr>
+              <tr className="border-b border-border">
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">dispute.opened</code></td>
+                <td className="py-2 px-3 text-muted-foreground">A dispute was opened and the chargeback was debited from the creator balance</td>
+              </tr>
+              <tr className="border-b border-border">
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">dispute.won</code></td>
+                <td className="py-2 px-3 text-muted-foreground">A dispute was won and the chargeback was reversed</td>
+              </tr>
+              <tr className="border-b border-border">
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">dispute.lost</code></td>
+                <td className="py-2 px-3 text-muted-foreground">A dispute was lost or accepted; the chargeback stands</td>
+              </tr>
+              <tr className="border-b border-border">
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">subscription.created</code></td>
+                <td className="py-2 px-3 text-muted-foreground">A subscription started and its first period was charged</td>
+              </tr>
+              <tr className="border-b border-border">
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">subscription.renewed</code></td>
+                <td className="py-2 px-3 text-muted-foreground">A renewal was charged and booked as a sale; the period advanced</td>
+              </tr>
+              <tr className="border-b border-border">
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">subscription.payment_failed</code></td>
+                <td className="py-2 px-3 text-muted-foreground">A renewal or dunning retry was declined</td>
+              </tr>
+              <tr className="border-b border-border">
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">subscription.updated</code></td>
+                <td className="py-2 px-3 text-muted-foreground">A subscription changed plan or was set to cancel at period end</td>
+              </tr>
+              <tr>
+                <td className="py-2 px-3"><code className="bg-muted px-1 rounded">subscription.canceled</code></td>
+                <td className="py-2 px-3 text-muted-foreground">A subscription was canceled on request, at period end, or after dunning ran out</td>
+              </tr>
             </tbody>
           </table>
         </div>
@@ -50,20 +50,59 @@ function normalizePostalCode(value: string | null | undefined): string | null {
   return trimmed.slice(0, 20)
 }
 
-function isDigitalGoodsTaxCategory(value: unknown): boolean {
-  return typeof value === 'string' && value === 'digital_goods'
+interface VerifiedSalesTax {
+  amount: number
+  rateBps: number | null
+  jurisdiction: string | null
+  taxType: string | null
+  reverseCharge: boolean
 }
 
-function shouldCollectMarylandDigitalGoodsTax(
-  taxCategory: unknown,
-  collectSalesTax: boolean,
-  countryCode: string | null,
-  stateCode: string | null
-): boolean {
-  if (!collectSalesTax) return false
-  if (!isDigitalGoodsTaxCategory(taxCategory)) return false
-  if ((countryCode || 'US') !== 'US') return false
-  return stateCode === 'MD'
+const NO_SALES_TAX: VerifiedSalesTax = {
+  amount: 0,
+  rateBps: null,
+  jurisdiction: null,
+  taxType: null,
+  reverseCharge: false,
+}
+
+// Re-quote tax against the processor-verified billing address. Returns null
+// when the rate lookup itself fails so the charge is not taken untaxed.
+async function calculateVerifiedSalesTax(
+  supabase: ReturnType<typeof createServiceRoleClient>,
+  ledgerId: string,
+  subtotalCents: number,
+  countryCode: string,
+  stateCode: string | null,
+  postalCode: string | null,
+  taxCategory: string | null,
+  customerTaxId: string | null,
+): Promise<VerifiedSalesTax | null> {
+  const { data, error } = await supabase.rpc('calculate_sales_tax', {
+    p_ledger_id: ledgerId,
+    p_subtotal_cents: subtotalCents,
+    p_country_code: countryCode,
+    p_state_code: stateCode,
+    p_postal_code: postalCode,
+    p_tax_category: taxCategory,
+    p_customer_tax_id: customerTaxId,
+  })
+  if (error || !isJsonRecord(data)) {
+    console.error('calculate_sales_tax failed:', error?.message)
+    return null
+  }
+
+  const collect = data.collect === true
+  const reverseCharge = data.reverse_charge === true
+  if (!collect && !reverseCharge) return NO_SALES_TAX
+
+  return {
+    amount: collect ? Math.max(0, Math.round(Number(data.tax_cents ?? 0))) : 0,
+    rateBps: collect && data.rate_bps != null ? Number(data.rate_bps) : null,
+    jurisdiction: typeof data.jurisdiction_code === 'string' ? data.jurisdiction_code : null,
+    taxType: typeof data.tax_type === 'string' ? data.tax_type : null,
+    reverseCharge,
+  }
 }
 
 function pickCheckoutInstrument(instruments: unknown[]): { id: string; type: string; raw: unknown } | null {
@@ -214,18 +253,9 @@ export async function POST(
   const verifiedState = normalizeStateCode(verifiedLocation.state)
   const verifiedPostalCode = normalizePostalCode(verifiedLocation.postalCode)
   const subtotalAmount = Number(session.subtotal_amount ?? session.amount)
-  const verifiedSalesTaxAmount = shouldCollectMarylandDigitalGoodsTax(
-    taxCategory,
-    collectSalesTax,
-    verifiedCountry,
-    verifiedState
-  )
-    ? Math.round(subtotalAmount * 0.06)
-    : 0
-  const verifiedSalesTaxState = verifiedSalesTaxAmount > 0 ? 'MD' : null
-  const verifiedTotalAmount = subtotalAmount + verifiedSalesTaxAmount
+  const taxCountry = verifiedCountry || 'US'
 
-  if (isDigitalGoodsTaxCategory(taxCategory) && collectSalesTax && !verifiedState) {
+  if (collectSalesTax && taxCountry === 'US' && taxCategory !== 'exempt' && !verifiedState) {
     await supabase
       .from('checkout_sessions')
       .update({
@@ -242,6 +272,34 @@ export async function POST(
     )
   }
 
+  const verifiedSalesTax = collectSalesTax
+    ? await calculateVerifiedSalesTax(
+      supabase,
+      session.ledger_id,
+      subtotalAmount,
+      taxCountry,
+      verifiedState,
+      verifiedPostalCode,
+      taxCategory,
+      typeof session.customer_tax_id === 'string' ? session.customer_tax_id : null,
+    )
+    : NO_SALES_TAX
+
+  if (!verifiedSalesTax) {
+    await supabase
+      .from('checkout_sessions')
+      .update({ status: 'collecting', updated_at: new Date().toISOString() })
+      .eq('id', sessionId)
+    return NextResponse.json(
+      { error: 'Unable to calculate sales tax right now. Please try again.' },
+      { status: 503 }
+    )
+  }
+
+  const verifiedSalesTaxAmount = verifiedSalesTax.amount
+  const verifiedSalesTaxState = verifiedSalesTaxAmount > 0 && taxCountry === 'US' ? verifiedState : null
+  const verifiedTotalAmount = subtotalAmount + verifiedSalesTaxAmount
+
   const needsSessionTaxRefresh =
     normalizeCountryCode(session.customer_tax_country) !== verifiedCountry ||
     normalizeStateCode(session.customer_tax_state) !== verifiedState ||
@@ -250,15 +308,22 @@ export async function POST(
     normalizeStateCode(session.sales_tax_state) !== verifiedSalesTaxState ||
     Number(session.amount) !== verifiedTotalAmount
 
-  if (isDigitalGoodsTaxCategory(taxCategory) && needsSessionTaxRefresh) {
+  const verifiedSalesTaxColumns = {
+    sales_tax_jurisdiction: verifiedSalesTax.jurisdiction,
+    sales_tax_type: verifiedSalesTax.taxType,
+    sales_tax_reverse_charge: verifiedSalesTax.reverseCharge,
+  }
+
+  if (collectSalesTax && needsSessionTaxRefresh) {
     await supabase
       .from('checkout_sessions')
       .update({
         status: 'collecting',
         amount: verifiedTotalAmount,
         sales_tax_amount: verifiedSalesTaxAmount,
-        sales_tax_rate_bps: verifiedSalesTaxAmount > 0 ? 600 : null,
+        sales_tax_rate_bps: verifiedSalesTax.rateBps,
         sales_tax_state: verifiedSalesTaxState,
+        ...verifiedSalesTaxColumns,
         customer_tax_country: verifiedCountry,
         customer_tax_state: verifiedState,
         customer_tax_postal_code: verifiedPostalCode,
@@ -278,32 +343,47 @@ export async function POST(
     )
   }
 
-  if (isDigitalGoodsTaxCategory(taxCategory) && !needsSessionTaxRefresh && verifiedLocation.source) {
+  if (collectSalesTax && !needsSessionTaxRefresh) {
     await supabase
       .from('checkout_sessions')
       .update({
-        customer_tax_country: verifiedCountry,
-        customer_tax_state: verifiedState,
-        customer_tax_postal_code: verifiedPostalCode,
-        metadata: {
-          ...(session.metadata || {}),
-          customer_tax_source: verifiedLocation.source,
-        },
+        ...verifiedSalesTaxColumns,
+        ...(verifiedLocation.source
+          ? {
+            customer_tax_country: verifiedCountry,
+            customer_tax_state: verifiedState,
+            customer_tax_postal_code: verifiedPostalCode,
+            metadata: {
+              ...(session.metadata || {}),
+              customer_tax_source: verifiedLocation.source,
+            },
+          }
+          : {}),
         updated_at: new Date().toISOString(),
       })
       .eq('id', sessionId)
   }
 
-  // Verify creator is still active before charging
-  const { data: creatorAccount } = await supabase
+  // Verify every creator on the session is still active before charging.
+  // Multi-party sessions carry their creators on the line items.
+  const isMultiParty = Number(session.line_item_count ?? 0) > 0
+  let creatorIds: string[] = session.creator_id ? [session.creator_id] : []
+  if (isMultiParty) {
+    const { data: lineItems } = await supabase
+      .from('checkout_line_items')
+      .select('creator_id')
+      .eq('checkout_session_id', session.id)
+    creatorIds = Array.from(new Set((lineItems || []).map((item) => String(item.creator_id))))
+  }
+
+  const { data: creatorAccounts } = await supabase
     .from('accounts')
     .select('is_active')
     .eq('ledger_id', session.ledger_id)
     .eq('account_type', 'creator_balance')
-    .eq('entity_id', session.creator_id)
-    .maybeSingle()
+    .in('entity_id', creatorIds)
 
-  if (creatorAccount && creatorAccount.is_active === false) {
+  if ((creatorAccounts || []).some((account) => account.is_active === false)) {
     await supabase
       .from('checkout_sessions')
       .update({ status: 'failed', updated_at: new Date().toISOString() })
@@ -324,8 +404,9 @@ export async function POST(
   const transferTags: Record<string, string> = {
     soledgic_checkout_session_id: session.id,
     soledgic_ledger_id: session.ledger_id,
-    soledgic_creator_id: session.creator_id,
   }
+  if (session.creator_id) transferTags.soledgic_creator_id = session.creator_id
+  if (isMultiParty) transferTags.soledgic_line_item_count = String(session.line_item_count)
   if (session.product_id) transferTags.product_id = session.product_id
   if (session.product_name) transferTags.product_name = session.product_name
   if (session.customer_id) transferTags.customer_id = session.customer_id
@@ -400,32 +481,50 @@ export async function POST(
   // Record sale via record_sale_atomic.
   // If this fails, mark session as 'charged_pending_ledger' so it can be
   // retried by reconciliation instead of silently losing the journal entry.
+  // Multi-party sessions post one sale per line item
+  // (checkout_<session>_<position>) via record_checkout_line_item_sales.
   // ========================================================================
   const referenceId = `checkout_${session.id}`
   const soledgicFeeAmount = Math.floor(subtotalAmount * 0.035)
+  const saleMetadata = {
+    ...(session.metadata || {}),
+    subtotal_amount_cents: subtotalAmount,
+    sales_tax_amount_cents: verifiedSalesTaxAmount,
+    customer_tax_country: verifiedCountry,
+    customer_tax_state: verifiedState,
+    customer_tax_source: verifiedLocation.source || session.metadata?.customer_tax_source || null,
+    ...(verifiedSalesTaxAmount > 0 && verifiedSalesTax.jurisdiction
+      ? { sales_tax_jurisdiction: verifiedSalesTax.jurisdiction }
+      : {}),
+    ...(verifiedSalesTax.reverseCharge ? { sales_tax_reverse_charge: true } : {}),
+  }
   let saleRecorded = false
   try {
-    const { error: rpcError } = await supabase.rpc('record_sale_atomic', {
-      p_ledger_id: session.ledger_id,
-      p_reference_id: referenceId,
-      p_creator_id: session.creator_id,
-      p_gross_amount: verifiedTotalAmount,
-      p_creator_amount: session.creator_amount,
-      p_platform_amount: session.platform_amount,
-      p_processing_fee: 0,
-      p_soledgic_fee: soledgicFeeAmount,
-      p_sales_tax: verifiedSalesTaxAmount,
-      p_product_id: session.product_id || null,
-      p_product_name: session.product_name || null,
-      p_metadata: {
-        ...(session.metadata || {}),
-        subtotal_amount_cents: subtotalAmount,
-        sales_tax_amount_cents: verifiedSalesTaxAmount,
-        customer_tax_country: verifiedCountry,
-        customer_tax_state: verifiedState,
-        customer_tax_source: verifiedLocation.source || session.metadata?.customer_tax_source || null,
-      },
-    })
+    const { error: rpcError } = isMultiParty
+      ? await supabase.rpc('record_checkout_line_item_sales', {
+        p_ledger_id: session.ledger_id,
+        p_checkout_reference: referenceId,
+        p_sales_tax: verifiedSalesTaxAmount,
+        p_metadata: saleMetadata,
+        p_currency: session.currency || null,
+        p_fx_rate: session.metadata?.fx_rate ?? null,
+      })
+      : await supabase.rpc('record_sale_atomic', {
+        p_ledger_id: session.ledger_id,
+        p_reference_id: referenceId,
+        p_creator_id: session.creator_id,
+        p_gross_amount: verifiedTotalAmount,
+        p_creator_amount: session.creator_amount,
+        p_platform_amount: session.platform_amount,
+        p_processing_fee: 0,
+        p_soledgic_fee: soledgicFeeAmount,
+        p_sales_tax: verifiedSalesTaxAmount,
+        p_product_id: session.product_id || null,
+        p_product_name: session.product_name || null,
+        p_metadata: saleMetadata,
+        p_currency: session.currency || null,
+        p_fx_rate: session.metadata?.fx_rate ?? null,
+      })
     if (rpcError) {
       console.error('record_sale_atomic RPC error after successful charge:', rpcError.message)
     } else {
@@ -486,8 +585,10 @@ export async function POST(
             subtotal_amount: subtotalAmount / 100,
             sales_tax_amount: verifiedSalesTaxAmount / 100,
             sales_tax_state: verifiedSalesTaxState,
+            sales_tax_jurisdiction: verifiedSalesTax.jurisdiction,
             currency: session.currency,
             creator_id: session.creator_id,
+            line_item_count: Number(session.line_item_count ?? 0),
             product_id: session.product_id,
             product_name: session.product_name,
             customer_email: session.customer_email,
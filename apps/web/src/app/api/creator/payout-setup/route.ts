@@ -169,6 +169,8 @@ export const POST = createApiHandler(
           bank_last4: connectedAccount.default_bank_last4 || null,
           bank_name: connectedAccount.default_bank_name || null,
           payouts_enabled: connectedAccount.payouts_enabled === true,
+          bank_details_required: connectedAccount.bank_details_required === true,
+          last_payout_return_code: connectedAccount.last_payout_return_code || null,
         },
       })
     }
@@ -282,6 +284,8 @@ export const POST = createApiHandler(
           default_bank_last4: chosen.last4,
           default_bank_name: chosen.bank_name,
           payouts_enabled: true,
+          bank_details_required: false,
+          bank_details_required_reason: null,
           setup_state: null,
           setup_state_expires_at: null,
           updated_at: new Date().toISOString(),
@@ -17,6 +17,8 @@ const ALLOWED_ENDPOINT_ROOTS = new Set([
   'record-transfer',
   'record-adjustment',
   'reverse-transaction',
+  'pending-journals',
+  'reopen-period',
   'webhooks',
   'import-transactions',
   'submit-tax-info',
@@ -66,6 +68,10 @@ const OWNER_ADMIN_ONLY_ENDPOINT_ROOTS = new Set([
   'platform-payouts',
 ])
 
+const OWNER_ONLY_ENDPOINT_ROOTS = new Set([
+  'reopen-period',
+])
+
 const STEP_UP_ENDPOINT_ROOTS = new Set([
   'wallets',
   'payouts',
@@ -78,6 +84,8 @@ const STEP_UP_ENDPOINT_ROOTS = new Set([
   'record-income',
   'record-transfer',
   'record-adjustment',
+  'pending-journals',
+  'reopen-period',
   'configure-alerts',
 ])
 
@@ -117,6 +125,10 @@ function getSensitiveActionLabel(
         return 'record internal transfers'
       case 'record-adjustment':
         return 'record journal adjustments'
+      case 'pending-journals':
+        return 'approve journals or change approval policies'
+      case 'reopen-period':
+        return 'reopen closed accounting periods'
       case 'configure-alerts':
         return 'manage alert configurations'
       default:
@@ -274,6 +286,13 @@ async function proxyLedgerFunction(
     )
   }
 
+  if (OWNER_ONLY_ENDPOINT_ROOTS.has(endpointRoot) && access.role !== 'owner') {
+    return NextResponse.json(
+      { error: 'Only owners can perform this action' },
+      { status: 403 }
+    )
+  }
+
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
   if (!supabaseAnonKey) {
     return NextResponse.json({ error: 'Supabase anon key is not configured' }, { status: 503 })
@@ -284,6 +303,8 @@ async function proxyLedgerFunction(
   headers.set('apikey', supabaseAnonKey)
   headers.set('x-soledgic-internal-token', internalToken)
   headers.set('x-ledger-id', ledgerId)
+  // Identifies the team member for maker-checker journal approvals
+  headers.set('x-soledgic-user-id', userId)
   headers.set('Soledgic-Version', DEFAULT_SOLEDGIC_API_VERSION)
 
   let body: string | undefined
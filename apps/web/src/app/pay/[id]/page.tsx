@@ -15,13 +15,20 @@ interface CheckoutSession {
   expires_at: string
   cancel_url: string | null
   ledger_id: string
+  line_item_count: number
+}
+
+interface CheckoutLineItem {
+  position: number
+  product_name: string | null
+  amount: number
 }
 
 async function getSession(id: string): Promise<CheckoutSession | null> {
   const supabase = createServiceRoleClient()
   const { data, error } = await supabase
     .from('checkout_sessions')
-    .select('id, amount, subtotal_amount, sales_tax_amount, sales_tax_state, currency, product_name, customer_email, status, expires_at, cancel_url, ledger_id')
+    .select('id, amount, subtotal_amount, sales_tax_amount, sales_tax_state, currency, product_name, customer_email, status, expires_at, cancel_url, ledger_id, line_item_count')
     .eq('id', id)
     .single()
 
@@ -29,6 +36,17 @@ async function getSession(id: string): Promise<CheckoutSession | null> {
   return data as CheckoutSession
 }
 
+async function getLineItems(sessionId: string): Promise<CheckoutLineItem[]> {
+  const supabase = createServiceRoleClient()
+  const { data } = await supabase
+    .from('checkout_line_items')
+    .select('position, product_name, amount')
+    .eq('checkout_session_id', sessionId)
+    .order('position', { ascending: true })
+
+  return (data || []) as CheckoutLineItem[]
+}
+
 function formatAmount(cents: number, currency: string) {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -44,6 +62,7 @@ export default async function CheckoutPage({ params }: { params: Promise<{ id: s
     notFound()
   }
 
+  const lineItems = session.line_item_count > 0 ? await getLineItems(session.id) : []
   const now = new Date()
   const expiresAt = new Date(session.expires_at)
   const isExpired = expiresAt.getTime() <= now.getTime()
@@ -95,6 +114,17 @@ export default async function CheckoutPage({ params }: { params: Promise<{ id: s
             )}
           </div>
 
+          {lineItems.length > 0 && (
+            <ul className="border-t border-border py-4 space-y-2">
+              {lineItems.map((item) => (
+                <li key={item.position} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{item.product_name || `Item ${item.position}`}</span>
+                  <span className="font-medium text-foreground">{formatAmount(item.amount, session.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
           <div className="border-t border-b border-border py-6 mb-6">
             {session.sales_tax_amount > 0 ? (
               <div className="space-y-3">
@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { X, Loader2, AlertCircle, Unlock } from 'lucide-react'
+import { useToast } from '@/components/notifications/toast-provider'
+import { SensitiveActionModal } from '@/components/settings/sensitive-action-modal'
+import { useSensitiveActionGate } from '@/hooks/use-sensitive-action-gate'
+import { callLedgerFunction } from '@/lib/ledger-functions-client'
+
+interface ReopenPeriodButtonProps {
+  ledgerId: string
+  periodId: string
+  periodLabel: string
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback
+}
+
+export function ReopenPeriodButton({ ledgerId, periodId, periodLabel }: ReopenPeriodButtonProps) {
+  const router = useRouter()
+  const toast = useToast()
+  const [isOpen, setIsOpen] = useState(false)
+  const [reason, setReason] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { challenge, dismissChallenge, handleProtectedResponse, retryVerifiedAction } =
+    useSensitiveActionGate()
+
+  const close = () => {
+    setIsOpen(false)
+    setReason('')
+    setError(null)
+  }
+
+  const submitReopen = async () => {
+    if (!reason.trim()) {
+      setError('Please explain why the period needs to be reopened')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await callLedgerFunction('reopen-period', {
+        ledgerId,
+        method: 'POST',
+        body: { period_id: periodId, reason: reason.trim() },
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        if (handleProtectedResponse(response, data, submitReopen)) {
+          return
+        }
+        throw new Error(data.error || 'Failed to reopen period')
+      }
+
+      toast.success('Period reopened', `${periodLabel} is open for corrections. Close it again when you are done.`)
+      close()
+      router.refresh()
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to reopen period'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await submitReopen()
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Unlock className="w-3.5 h-3.5" />
+        Reopen
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/50" onClick={close} />
+
+          <div className="relative bg-card border border-border rounded-lg shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+              <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                <Unlock className="w-5 h-5" />
+                Reopen {periodLabel}
+              </h2>
+              <button
+                onClick={close}
+                className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Transactions dated in this period can be posted and reversed again until it is closed.
+                Its frozen statements are kept; statements generated after the next close are saved as a new version.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Reason *
+                </label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  maxLength={1000}
+                  placeholder="e.g., Late vendor invoice for March"
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                />
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-md text-red-600">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span className="text-sm">{error}</span>
+                </div>
+              )}
+
+              <div className="flex items-center gap-3 pt-2">
+                <button
+                  type="submit"
+                  disabled={loading || !reason.trim()}
+                  className="flex-1 bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {loading ? 'Reopening...' : 'Reopen Period'}
+                </button>
+                <button
+                  type="button"
+                  onClick={close}
+                  className="px-4 py-2 border border-border rounded-md text-foreground hover:bg-accent transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <SensitiveActionModal
+        challenge={challenge}
+        onClose={dismissChallenge}
+        onVerified={retryVerifiedAction}
+      />
+    </>
+  )
+}
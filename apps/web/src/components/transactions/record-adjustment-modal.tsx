@@ -37,6 +37,8 @@ const ADJUSTMENT_TYPES = [
   { value: 'other', label: 'Other', description: 'Other adjustment' },
 ]
 
+const AUTO_REVERSE_TYPES = ['accrual', 'deferral']
+
 const ACCOUNT_TYPES = [
   { value: 'cash', label: 'Cash' },
   { value: 'creator_balance', label: 'Creator Balance' },
@@ -59,6 +61,7 @@ export function RecordAdjustmentModal({
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
+  const [pendingApproval, setPendingApproval] = useState(false)
   const { challenge, dismissChallenge, handleProtectedResponse, retryVerifiedAction } =
     useSensitiveActionGate()
 
@@ -66,11 +69,15 @@ export function RecordAdjustmentModal({
   const [adjustmentType, setAdjustmentType] = useState('correction')
   const [reason, setReason] = useState('')
   const [preparedBy, setPreparedBy] = useState('')
+  const [autoReverse, setAutoReverse] = useState(false)
   const [entries, setEntries] = useState<Entry[]>([
     { id: '1', account_type: 'cash', entry_type: 'debit', amount: '' },
     { id: '2', account_type: 'revenue', entry_type: 'credit', amount: '' },
   ])
 
+  // Accruals and deferrals can reverse themselves at the start of the next period
+  const canAutoReverse = AUTO_REVERSE_TYPES.includes(adjustmentType)
+
   const addEntry = () => {
     const newId = String(Date.now())
     setEntries([...entries, { id: newId, account_type: 'cash', entry_type: 'debit', amount: '' }])
@@ -133,6 +140,7 @@ export function RecordAdjustmentModal({
           adjustment_type: adjustmentType,
           reason: reason.trim(),
           prepared_by: preparedBy.trim(),
+          ...(canAutoReverse && autoReverse ? { auto_reverse: true } : {}),
           entries: entriesWithAmounts.map(e => ({
             account_type: e.account_type,
             entity_id: e.entity_id || undefined,
@@ -151,6 +159,8 @@ export function RecordAdjustmentModal({
         throw new Error(data.error || 'Failed to record adjustment')
       }
 
+      // 202: the ledger's approval policy queued the adjustment for review
+      setPendingApproval(response.status === 202)
       setSuccess(true)
       setTimeout(() => {
         onSuccess?.()
@@ -171,9 +181,11 @@ export function RecordAdjustmentModal({
 
   const resetForm = () => {
     setSuccess(false)
+    setPendingApproval(false)
     setAdjustmentType('correction')
     setReason('')
     setPreparedBy('')
+    setAutoReverse(false)
     setEntries([
       { id: '1', account_type: 'cash', entry_type: 'debit', amount: '' },
       { id: '2', account_type: 'revenue', entry_type: 'credit', amount: '' },
@@ -207,9 +219,13 @@ export function RecordAdjustmentModal({
           {success ? (
             <div className="py-8 text-center">
               <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-foreground">Adjustment Recorded</h3>
+              <h3 className="text-lg font-semibold text-foreground">
+                {pendingApproval ? 'Adjustment Submitted for Approval' : 'Adjustment Recorded'}
+              </h3>
               <p className="text-muted-foreground mt-1">
-                The adjustment journal entry has been created.
+                {pendingApproval
+                  ? 'It will post once another team member approves it under Approvals.'
+                  : 'The adjustment journal entry has been created.'}
               </p>
             </div>
           ) : (
@@ -233,6 +249,22 @@ export function RecordAdjustmentModal({
                 <p className="text-xs text-muted-foreground mt-1">
                   {ADJUSTMENT_TYPES.find(t => t.value === adjustmentType)?.description}
                 </p>
+                {canAutoReverse && (
+                  <label className="flex items-start gap-2 mt-3 text-sm text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={autoReverse}
+                      onChange={(e) => setAutoReverse(e.target.checked)}
+                      className="mt-0.5 h-4 w-4 rounded border-border"
+                    />
+                    <span>
+                      Auto-reverse on the first day of the next period
+                      <span className="block text-xs text-muted-foreground">
+                        A reversing entry posts automatically, so the {adjustmentType} only counts in this period.
+                      </span>
+                    </span>
+                  </label>
+                )}
               </div>
 
               {/* Reason */}
@@ -28,6 +28,8 @@ export interface CreatorConnectedAccountRow {
   default_bank_account_id: string | null
   default_bank_last4: string | null
   default_bank_name: string | null
+  bank_details_required: boolean
+  last_payout_return_code: string | null
   processor_identity_id: string | null
   setup_state: string | null
   setup_state_expires_at: string | null
@@ -81,6 +83,8 @@ function normalizeConnectedAccountRow(row: unknown): CreatorConnectedAccountRow
     default_bank_account_id: asString(record?.default_bank_account_id),
     default_bank_last4: asString(record?.default_bank_last4),
     default_bank_name: asString(record?.default_bank_name),
+    bank_details_required: asBoolean(record?.bank_details_required),
+    last_payout_return_code: asString(record?.last_payout_return_code),
     processor_identity_id: asString(record?.processor_identity_id),
     setup_state: asString(record?.setup_state),
     setup_state_expires_at: asString(record?.setup_state_expires_at),
@@ -207,6 +211,8 @@ export async function listCreatorConnectedAccountsForIdentity(
         default_bank_account_id,
         default_bank_last4,
         default_bank_name,
+        bank_details_required,
+        last_payout_return_code,
         processor_identity_id,
         setup_state,
         setup_state_expires_at,
@@ -244,6 +250,8 @@ export async function listCreatorConnectedAccountsForIdentity(
       default_bank_account_id,
       default_bank_last4,
       default_bank_name,
+      bank_details_required,
+      last_payout_return_code,
       processor_identity_id,
       setup_state,
       setup_state_expires_at,
@@ -10,6 +10,7 @@ export const CURRENCIES = {
   MXN: { code: 'MXN', symbol: 'Mex$', name: 'Mexican Peso', decimals: 2 },
   BRL: { code: 'BRL', symbol: 'R$', name: 'Brazilian Real', decimals: 2 },
   INR: { code: 'INR', symbol: '₹', name: 'Indian Rupee', decimals: 2 },
+  NGN: { code: 'NGN', symbol: '₦', name: 'Nigerian Naira', decimals: 2 },
 } as const
 
 export type CurrencyCode = keyof typeof CURRENCIES
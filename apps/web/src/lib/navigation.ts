@@ -63,6 +63,7 @@ export const dashboardNavigation: NavSection[] = [
       { name: 'Invoices', href: '/dashboard/invoices', icon: FileText },
 { name: 'Wallets', href: '/dashboard/wallets', icon: WalletCards },
       { name: 'Holds', href: '/dashboard/holds', icon: HandCoins },
+      { name: 'Approvals', href: '/dashboard/approvals', icon: ClipboardCheck },
       { name: 'Reports', href: '/dashboard/reports', icon: FileText },
       { name: 'Compliance', href: '/dashboard/compliance', icon: ShieldCheck },
     ],
@@ -63,8 +63,9 @@ const SCHEMAS: Record<string, object> = {
     properties: {
       reference_id: { type: 'string', description: 'Your external sale ID (order ID, payment ID, etc.)' },
       creator_id: { type: 'string', description: 'The creator receiving funds' },
-      amount: { type: 'integer', description: 'Sale amount in cents' },
-      currency: { type: 'string', description: 'Currency code (default: USD)', default: 'USD' },
+      amount: { type: 'integer', description: 'Sale amount in minor units of currency' },
+      currency: { type: 'string', description: "Currency code (default: the ledger's functional currency)" },
+      fx_rate: { type: 'number', description: 'Functional-currency units per one unit of currency. Required when currency differs from the functional currency' },
       description: { type: 'string', description: 'Sale description' },
       reference_type: { type: 'string', description: "Reference type (e.g., 'processor_payment', 'manual')" },
       processing_fee: { type: 'integer', description: 'Processing fee in cents' },
@@ -72,6 +73,8 @@ const SCHEMAS: Record<string, object> = {
       product_id: { type: 'string' },
       product_name: { type: 'string' },
       creator_percent: { type: 'number', description: 'Override revenue split percentage (0-100)' },
+      split_rule_id: { type: 'string', format: 'uuid', description: 'Distribute the sale with this split rule. Without it, the product\'s or creator\'s rule applies unless creator_percent is set' },
+      recognition: { $ref: '#/components/schemas/RevenueRecognitionSchedule' },
       skip_withholding: { type: 'boolean', description: 'Skip tax withholding for this sale' },
       metadata: { type: 'object', additionalProperties: true },
     },
@@ -138,6 +141,7 @@ const SCHEMAS: Record<string, object> = {
       partial_amount: { type: 'integer', description: 'Partial reversal amount in cents' },
       idempotency_key: { type: 'string', description: 'Unique key to prevent duplicate reversals' },
       metadata: { type: 'object', additionalProperties: true },
+      prepared_by: { type: 'string', description: 'Preparer recorded on the journal; a preparer cannot approve it' },
     },
     required: ['transaction_id', 'reason'],
   },
@@ -224,6 +228,7 @@ const SCHEMAS: Record<string, object> = {
       original_transaction_id: { type: 'string', format: 'uuid' },
       supporting_documentation: { type: 'string' },
       prepared_by: { type: 'string' },
+      auto_reverse: { type: 'boolean', description: 'Accruals and deferrals only: reverse on the first day of the next period' },
     },
     required: ['adjustment_type', 'entries', 'reason', 'prepared_by'],
   },
@@ -246,6 +251,7 @@ const SCHEMAS: Record<string, object> = {
           required: ['account_type', 'balance'],
         },
       },
+      prepared_by: { type: 'string', description: 'Preparer recorded on the journal; a preparer cannot approve it' },
     },
     required: ['as_of_date', 'source', 'balances'],
   },
@@ -285,7 +291,7 @@ const SCHEMAS: Record<string, object> = {
     properties: {
       report_type: {
         type: 'string',
-        enum: ['transaction_detail', 'creator_earnings', 'platform_revenue', 'payout_summary', 'reconciliation', 'audit_log'],
+        enum: ['transaction_detail', 'creator_earnings', 'platform_revenue', 'payout_summary', 'reconciliation', 'audit_log', 'sales_tax_liability'],
       },
       format: { type: 'string', enum: ['csv', 'json'] },
       start_date: { type: 'string', format: 'date' },
@@ -389,8 +395,23 @@ const SCHEMAS: Record<string, object> = {
   TreasuryCheckoutSessionRequest: {
     type: 'object',
     properties: {
-      participant_id: { type: 'string' },
-      amount: { type: 'integer', description: 'Amount in cents' },
+      participant_id: { type: 'string', description: 'Required unless line_items is set' },
+      amount: { type: 'integer', description: 'Amount in cents; with line_items, must equal their total' },
+      line_items: {
+        type: 'array',
+        maxItems: 50,
+        description: 'Multi-party cart: charged once, posted as one sale per line item with its own split',
+        items: {
+          type: 'object',
+          properties: {
+            participant_id: { type: 'string' },
+            amount: { type: 'integer', description: 'Line subtotal in cents' },
+            product_id: { type: 'string' },
+            product_name: { type: 'string' },
+          },
+          required: ['participant_id', 'amount'],
+        },
+      },
       currency: { type: 'string', default: 'USD' },
       product_id: { type: 'string' },
       product_name: { type: 'string' },
@@ -401,9 +422,14 @@ const SCHEMAS: Record<string, object> = {
       success_url: { type: 'string', format: 'uri' },
       cancel_url: { type: 'string', format: 'uri' },
       idempotency_key: { type: 'string' },
+      collect_sales_tax: { type: 'boolean', default: false },
+      tax_category: { type: 'string', description: 'e.g. digital_goods, service, physical_goods, exempt' },
+      customer_country: { type: 'string', description: 'ISO 3166-1 alpha-2; defaults to US' },
+      customer_state: { type: 'string', description: 'Required for US customers when collect_sales_tax is true' },
+      customer_postal_code: { type: 'string' },
+      customer_tax_id: { type: 'string', description: 'Buyer VAT / tax ID; cross-border B2B VAT is reverse charged' },
       metadata: { type: 'object', additionalProperties: { type: 'string' } },
     },
-    required: ['participant_id', 'amount'],
   },
 
   TreasuryPayoutRequest: {
@@ -427,6 +453,7 @@ const SCHEMAS: Record<string, object> = {
     type: 'object',
     properties: {
       sale_reference: { type: 'string' },
+      line_item_id: { type: 'string', description: 'Refund one line item of a multi-party checkout; sale_reference may then be omitted' },
       reason: { type: 'string' },
       amount: { type: 'integer', description: 'Amount in cents' },
       refund_from: { type: 'string', enum: ['both', 'platform_only', 'creator_only'] },
@@ -436,7 +463,7 @@ const SCHEMAS: Record<string, object> = {
       processor_payment_id: { type: 'string', description: 'Processor payment ID to refund (required when mode is processor_refund)' },
       metadata: { type: 'object', additionalProperties: true },
     },
-    required: ['sale_reference', 'reason'],
+    required: ['reason'],
   },
 
   RefundsListRequest: {
@@ -466,19 +493,160 @@ const SCHEMAS: Record<string, object> = {
         type: 'object',
         properties: {
           transaction_id: { type: 'string', format: 'uuid' },
+          currency: { type: 'string' },
+          functional_currency: { type: 'string' },
+          fx_rate: { type: ['number', 'null'] },
           breakdown: { $ref: '#/components/schemas/SaleBreakdown' },
+          split_rule: {
+            type: 'object',
+            description: 'Present when a split rule distributed the sale',
+            properties: {
+              split_rule_id: { type: 'string', format: 'uuid' },
+              version: { type: 'integer' },
+              version_id: { type: 'string', format: 'uuid' },
+              credits: {
+                type: 'array',
+                description: 'Recipients other than the selling creator, each credited by its own transfer',
+                items: {
+                  type: 'object',
+                  properties: {
+                    position: { type: 'integer' },
+                    participant_id: { type: 'string' },
+                    role: { type: 'string', enum: ['creator', 'co_creator', 'affiliate', 'referral'] },
+                    amount: { type: 'number' },
+                    transaction_id: { type: ['string', 'null'], format: 'uuid' },
+                  },
+                },
+              },
+            },
+          },
+          referral_commissions: {
+            type: 'array',
+            description: 'Present when referral attributions earned a commission out of the platform share',
+            items: {
+              type: 'object',
+              properties: {
+                attribution_id: { type: 'string', format: 'uuid' },
+                referrer_id: { type: 'string' },
+                amount: { type: 'number', description: 'Functional currency' },
+                transaction_id: { type: 'string', format: 'uuid' },
+              },
+            },
+          },
+          revenue_schedule: {
+            type: 'object',
+            description: 'Present when the sale was recorded with a recognition schedule. Only error is set if the sale posted but the schedule could not be created',
+            properties: {
+              schedule_id: { type: 'string', format: 'uuid' },
+              method: { type: 'string', enum: ['straight_line', 'milestone'] },
+              deferral_transaction_id: { type: 'string', format: 'uuid' },
+              deferred_amount: { type: 'number', description: 'Functional currency' },
+              error: { type: 'string' },
+            },
+          },
+          creator_debt_recovery: {
+            type: 'object',
+            description: "Present when the creator's share paid down a negative balance they owed",
+            properties: {
+              amount: { type: 'number', description: 'Functional currency' },
+              transaction_id: { type: 'string', format: 'uuid' },
+              debts: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    debt_id: { type: 'string', format: 'uuid' },
+                    amount: { type: 'number' },
+                    status: { type: 'string', enum: ['outstanding', 'recovered', 'written_off'] },
+                  },
+                },
+              },
+            },
+          },
+          reserve: {
+            type: 'object',
+            description: "Present when the creator's reserve policy held part of their share",
+            properties: {
+              tranche_id: { type: 'string', format: 'uuid' },
+              amount: { type: 'number', description: 'Functional currency' },
+              release_at: { type: 'string', format: 'date-time' },
+              transaction_id: { type: 'string', format: 'uuid' },
+            },
+          },
         },
       },
     ],
   },
 
+  RevenueRecognitionSchedule: {
+    type: 'object',
+    description: "Defers the platform's share of the sale and recognizes it straight-line at each month end or by milestone",
+    properties: {
+      method: { type: 'string', enum: ['straight_line', 'milestone'] },
+      months: { type: 'integer', minimum: 1, maximum: 120, description: 'straight_line only' },
+      start_date: { type: 'string', format: 'date', description: 'Defaults to the sale date' },
+      milestones: {
+        type: 'array',
+        description: 'milestone only; percents must add up to 100',
+        maxItems: 50,
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            percent: { type: 'number' },
+            recognize_on: { type: 'string', format: 'date', description: 'Omit to recognize when the milestone is completed' },
+          },
+          required: ['name', 'percent'],
+        },
+      },
+    },
+    required: ['method'],
+  },
+
+  SplitRuleRecipient: {
+    type: 'object',
+    properties: {
+      participant_id: { type: 'string' },
+      role: { type: 'string', enum: ['creator', 'co_creator', 'affiliate', 'referral'], default: 'co_creator' },
+      percent: { type: 'number', minimum: 0, maximum: 100, description: 'Percent of the sale net after fees' },
+      fixed_amount: { type: 'integer', description: 'Minor units added on top of percent' },
+      min_amount: { type: 'integer', description: 'Floor in minor units' },
+      max_amount: { type: 'integer', description: 'Cap in minor units' },
+      position: { type: 'integer', minimum: 1, description: 'Waterfall order; defaults to array order' },
+    },
+    required: ['participant_id'],
+  },
+
   CheckoutBreakdown: {
     type: 'object',
     properties: {
       gross_amount: { type: 'number' },
       creator_amount: { type: 'number' },
       platform_amount: { type: 'number' },
-      creator_percent: { type: 'number' },
+      creator_percent: { type: ['number', 'null'], description: 'Null for multi-party checkouts' },
+    },
+  },
+
+  CheckoutLineItem: {
+    type: 'object',
+    properties: {
+      id: { type: ['string', 'null'], format: 'uuid' },
+      position: { type: 'integer' },
+      participant_id: { type: 'string' },
+      product_id: { type: ['string', 'null'] },
+      product_name: { type: ['string', 'null'] },
+      amount: { type: 'integer', description: 'Line subtotal in cents' },
+      reference_id: { type: ['string', 'null'], description: 'Sale reference once posted' },
+      transaction_id: { type: ['string', 'null'], format: 'uuid' },
+      breakdown: {
+        type: 'object',
+        properties: {
+          creator_amount: { type: 'number' },
+          platform_amount: { type: 'number' },
+          soledgic_fee: { type: 'number' },
+          creator_percent: { type: 'number' },
+        },
+      },
     },
   },
 
@@ -1180,6 +1348,7 @@ const SCHEMAS: Record<string, object> = {
               currency: { type: 'string' },
               expires_at: { type: ['string', 'null'], format: 'date-time' },
               breakdown: { $ref: '#/components/schemas/CheckoutBreakdown' },
+              line_items: { type: 'array', items: { $ref: '#/components/schemas/CheckoutLineItem' } },
             },
           },
         },
@@ -1241,6 +1410,45 @@ const SCHEMAS: Record<string, object> = {
               },
               is_full_refund: { type: ['boolean', 'null'] },
               repair_pending: { type: ['boolean', 'null'] },
+              referral_reversals: {
+                type: 'array',
+                description: 'Referral commissions clawed back in proportion to the refund',
+                items: {
+                  type: 'object',
+                  properties: {
+                    referrer_id: { type: 'string' },
+                    amount: { type: 'number' },
+                    transaction_id: { type: 'string', format: 'uuid' },
+                    reverses: { type: 'string', format: 'uuid', description: 'Commission transaction reversed' },
+                  },
+                },
+              },
+              revenue_unwinds: {
+                type: 'array',
+                description: 'Deferred revenue released because the sale it was waiting on was refunded',
+                items: {
+                  type: 'object',
+                  properties: {
+                    schedule_id: { type: 'string', format: 'uuid' },
+                    amount: { type: 'number', description: 'Functional currency' },
+                    transaction_id: { type: 'string', format: 'uuid' },
+                    reverses: { type: 'string', format: 'uuid', description: 'Deferral transaction reversed' },
+                  },
+                },
+              },
+              creator_debts: {
+                type: 'array',
+                description: 'Creator balances the refund pushed below zero, moved to a creator receivable',
+                items: {
+                  type: 'object',
+                  properties: {
+                    debt_id: { type: 'string', format: 'uuid' },
+                    creator_id: { type: 'string' },
+                    amount: { type: 'number', description: 'Functional currency' },
+                    transaction_id: { type: 'string', format: 'uuid' },
+                  },
+                },
+              },
             },
           },
         },
@@ -1353,14 +1561,27 @@ const ENDPOINT_SCHEMA_MAP: Record<string, SchemaBinding> = {
 // catalog type strings use custom type names, `{` openers, or truncated unions.
 
 const BODY_SCHEMA_OVERRIDES: Record<string, object> = {
+  'dispute-evidence': {
+    type: 'object',
+    properties: {
+      evidence: { type: 'object', additionalProperties: true, description: 'Evidence metadata; store files with the processor' },
+      submit: { type: 'boolean', description: 'Mark evidence as submitted (default true)' },
+    },
+    required: ['evidence'],
+  },
   'execute-payout': {
     type: 'object',
     properties: {
-      action: { type: 'string', enum: ['execute', 'batch_execute', 'get_status', 'configure_rail', 'list_rails'] },
+      action: {
+        type: 'string',
+        enum: ['execute', 'batch_execute', 'get_status', 'configure_rail', 'list_rails', 'generate_batch_file', 'import_return_file'],
+      },
       payout_id: { type: 'string', format: 'uuid' },
       payout_ids: { type: 'array', items: { type: 'string', format: 'uuid' } },
-      rail: { type: 'string', description: 'Payout rail identifier' },
-      rail_config: { type: 'object', additionalProperties: true, description: 'Rail-specific configuration' },
+      rail: { type: 'string', description: 'Payout rail identifier (ach, card, instant, manual)' },
+      rail_config: { type: 'object', additionalProperties: true, description: 'Rail-specific configuration; settings.fee_schedule sets per-rail payout fees' },
+      file_content: { type: 'string', description: 'NACHA file received from the bank (import_return_file)' },
+      file_type: { type: 'string', enum: ['return', 'acknowledgment'], description: 'Kind of bank file (default return)' },
     },
     required: ['action'],
   },
@@ -1369,14 +1590,144 @@ const BODY_SCHEMA_OVERRIDES: Record<string, object> = {
     properties: {
       action: { type: 'string', enum: ['generate', 'list', 'get', 'compare'] },
       period_id: { type: 'string', format: 'uuid' },
-      statement_type: { type: 'string', enum: ['balance_sheet', 'income_statement', 'trial_balance'] },
+      statement_type: { type: 'string', enum: ['profit_loss', 'balance_sheet', 'trial_balance', 'cash_flow', 'sales_tax_liability'] },
+      version: { type: 'integer', minimum: 1, description: 'Close version to get (default latest); a reopened and re-closed period has one per close' },
     },
     required: ['action'],
   },
+  'fx-rates': {
+    type: 'object',
+    properties: {
+      rates: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            base_currency: { type: 'string', description: 'ISO 4217 code' },
+            quote_currency: { type: 'string', description: 'ISO 4217 code' },
+            rate: { type: 'number', description: 'Quote units per one base unit' },
+            effective_date: { type: 'string', format: 'date' },
+          },
+          required: ['base_currency', 'quote_currency', 'rate', 'effective_date'],
+        },
+      },
+    },
+    required: ['rates'],
+  },
+  'tax-filings': {
+    type: 'object',
+    properties: {
+      tax_year: { type: 'integer' },
+      format: { type: 'string', enum: ['fire', 'iris'], default: 'fire' },
+      form_type: { type: 'string', enum: ['1099-NEC', '1099-K', '1099-MISC'], description: 'Omit to file every form type' },
+      test_file: { type: 'boolean', default: false, description: 'Test files leave documents unfiled' },
+      combined_federal_state: { type: 'boolean', description: 'Combined Federal/State Filing Program' },
+      payee_tins: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Full 9-digit TIN per recipient_id; must match the last four on file. Not stored.',
+      },
+      transmitter: {
+        type: 'object',
+        description: 'Defaults from ledger settings.tax_filing.transmitter',
+        properties: {
+          tin: { type: 'string' },
+          tcc: { type: 'string', description: 'Transmitter Control Code' },
+          name: { type: 'string' },
+          contact_name: { type: 'string' },
+          contact_phone: { type: 'string' },
+          contact_email: { type: 'string' },
+        },
+      },
+      payer: {
+        type: 'object',
+        description: 'Defaults from ledger settings.tax_filing.payer',
+        properties: {
+          tin: { type: 'string' },
+          name: { type: 'string' },
+          address: { type: 'string' },
+          city: { type: 'string' },
+          state: { type: 'string' },
+          zip: { type: 'string' },
+          phone: { type: 'string' },
+        },
+      },
+    },
+    required: ['tax_year', 'payee_tins'],
+  },
+  'tax-backup-withholding-notices-import': {
+    type: 'object',
+    properties: {
+      notice_date: { type: 'string', format: 'date', description: 'Date printed on the CP2100' },
+      received_date: { type: 'string', format: 'date', description: 'Defaults to today' },
+      notice_source: { type: 'string', enum: ['cp2100', 'cp2100a'], default: 'cp2100' },
+      rows: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            account_number: { type: 'string', description: 'Account number reported on the 1099 (participant id)' },
+            participant_id: { type: 'string' },
+            name: { type: 'string' },
+            tin: { type: 'string', description: 'Only the last four digits are stored' },
+            tax_year: { type: 'integer' },
+          },
+        },
+      },
+      csv: { type: 'string', description: 'Alternative to rows: account_number, name, tin, tax_year columns' },
+    },
+    required: ['notice_date'],
+  },
+  'sales-tax-rates': {
+    type: 'object',
+    properties: {
+      rates: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            country_code: { type: 'string', description: 'ISO 3166-1 alpha-2' },
+            state_code: { type: 'string', description: 'Omit for a country-wide rate' },
+            postal_code: { type: 'string', description: 'Postal code prefix' },
+            tax_category: { type: 'string', description: 'Omit to apply to every category' },
+            jurisdiction_code: { type: 'string' },
+            jurisdiction_name: { type: 'string' },
+            tax_type: { type: 'string', enum: ['sales_tax', 'vat', 'gst'], default: 'sales_tax' },
+            rate_bps: { type: 'integer', minimum: 0, maximum: 10000, description: 'Basis points: 600 = 6%' },
+            effective_from: { type: 'string', format: 'date' },
+            effective_to: { type: 'string', format: 'date' },
+          },
+          required: ['country_code', 'rate_bps', 'effective_from'],
+        },
+      },
+    },
+    required: ['rates'],
+  },
+  'sales-tax-nexus': {
+    type: 'object',
+    properties: {
+      nexus: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            country_code: { type: 'string', description: 'ISO 3166-1 alpha-2' },
+            state_code: { type: 'string', description: 'Omit for country-level registration' },
+            registration_number: { type: 'string' },
+            collect_tax: { type: 'boolean', default: true },
+            effective_from: { type: 'string', format: 'date' },
+            effective_to: { type: 'string', format: 'date' },
+          },
+          required: ['country_code'],
+        },
+      },
+    },
+    required: ['nexus'],
+  },
   'generate-pdf': {
     type: 'object',
     properties: {
-      report_type: { type: 'string', enum: ['invoice', 'statement', 'balance_sheet', 'income_statement', 'trial_balance', '1099_nec'] },
+      report_type: { type: 'string', enum: ['creator_statement', 'profit_loss', 'balance_sheet', 'trial_balance', '1099', '1099_nec_form', '1099_misc_form', '1099_k_form', '1042_s_form', 'reconciliation_summary', 'sales_tax_liability'] },
       period_id: { type: 'string', format: 'uuid' },
       creator_id: { type: 'string' },
       start_date: { type: 'string', format: 'date' },
@@ -1389,7 +1740,7 @@ const BODY_SCHEMA_OVERRIDES: Record<string, object> = {
   'generate-report': {
     type: 'object',
     properties: {
-      report_type: { type: 'string', enum: ['transaction_detail', 'creator_earnings', 'platform_revenue', 'payout_summary', 'reconciliation'] },
+      report_type: { type: 'string', enum: ['profit_loss', 'trial_balance', '1099_summary', 'creator_earnings', 'transaction_history', 'provenance', 'sales_tax_liability'] },
       start_date: { type: 'string', format: 'date' },
       end_date: { type: 'string', format: 'date' },
       creator_id: { type: 'string' },
@@ -1400,10 +1751,27 @@ const BODY_SCHEMA_OVERRIDES: Record<string, object> = {
   'manage-splits': {
     type: 'object',
     properties: {
-      action: { type: 'string', enum: ['get', 'set', 'set_product', 'delete_product', 'list_product'] },
+      action: {
+        type: 'string',
+        enum: [
+          'list_tiers', 'get_effective_split', 'set_creator_split', 'clear_creator_split',
+          'set_product_split', 'clear_product_split', 'auto_promote_creators',
+          'set_split_rule', 'get_split_rule', 'list_split_rules', 'archive_split_rule',
+        ],
+      },
       creator_id: { type: 'string' },
       creator_percent: { type: 'number', minimum: 0, maximum: 100 },
       product_id: { type: 'string' },
+      split_rule_id: { type: 'string', format: 'uuid' },
+      scope: { type: 'string', enum: ['product', 'creator'] },
+      scope_id: { type: 'string', description: 'Product or creator id the split rule applies to' },
+      name: { type: 'string' },
+      recipients: {
+        type: 'array',
+        maxItems: 20,
+        description: 'set_split_rule: recipients paid in waterfall order; each call creates a new rule version. Applies to recorded sales, single-creator checkouts, wallet purchases and auto-booked processor charges; multi-party cart line items name their own participants',
+        items: { $ref: '#/components/schemas/SplitRuleRecipient' },
+      },
     },
     required: ['action'],
   },
@@ -1586,7 +1954,20 @@ const TAG_MAP: Record<string, string> = {
   'receive-payment': 'Payments',
   'checkout-sessions': 'Payments',
   'payouts': 'Payments',
+  'payout-return': 'Payments',
   'refunds': 'Payments',
+  'disputes': 'Payments',
+  'dispute-detail': 'Payments',
+  'dispute-evidence': 'Payments',
+  'dispute-accept': 'Payments',
+  'dispute-outcome': 'Payments',
+  'subscriptions': 'Payments',
+  'subscriptions-plans': 'Payments',
+  'subscriptions-plan-archive': 'Payments',
+  'subscriptions-detail': 'Payments',
+  'subscriptions-change-plan': 'Payments',
+  'subscriptions-cancel': 'Payments',
+  'subscriptions-payment-method': 'Payments',
   // Treasury
   'participants': 'Treasury',
   'participant-detail': 'Treasury',
@@ -1599,9 +1980,25 @@ const TAG_MAP: Record<string, string> = {
   'holds': 'Treasury',
   'holds-summary': 'Treasury',
   'hold-release': 'Treasury',
+  'holds-reserves': 'Treasury',
+  'holds-reserve-detail': 'Treasury',
+  'gift-codes': 'Treasury',
+  'gift-codes-batch-detail': 'Treasury',
+  'gift-codes-batch-export': 'Treasury',
+  'gift-codes-batch-void': 'Treasury',
+  'gift-codes-code-void': 'Treasury',
+  'gift-codes-redeem': 'Treasury',
   // Creators
   'delete-creator': 'Creators',
   'manage-splits': 'Creators',
+  'referrals': 'Creators',
+  'referrals-detail': 'Creators',
+  'referrals-end': 'Creators',
+  'creator-receivables': 'Creators',
+  'creator-receivables-recover': 'Creators',
+  'creator-receivables-debts': 'Creators',
+  'creator-receivables-debt-detail': 'Creators',
+  'creator-receivables-debt-write-off': 'Creators',
   'manage-contractors': 'Creators',
   // Balances
   'get-runway': 'Balances',
@@ -1617,6 +2014,29 @@ const TAG_MAP: Record<string, string> = {
   'record-income': 'Accounting',
   'pay-bill': 'Accounting',
   'close-period': 'Accounting',
+  'reopen-period': 'Accounting',
+  'pending-journals': 'Accounting',
+  'pending-journals-detail': 'Accounting',
+  'pending-journals-policies': 'Accounting',
+  'recurring-journals': 'Accounting',
+  'recurring-journals-detail': 'Accounting',
+  'recurring-journals-pause': 'Accounting',
+  'recurring-journals-resume': 'Accounting',
+  'recurring-journals-end': 'Accounting',
+  'fixed-assets': 'Accounting',
+  'fixed-assets-schedule': 'Accounting',
+  'fixed-assets-detail': 'Accounting',
+  'fixed-assets-dispose': 'Accounting',
+  'revenue-recognition': 'Accounting',
+  'revenue-recognition-detail': 'Accounting',
+  'revenue-recognition-milestone-complete': 'Accounting',
+  'fx-revaluation': 'Accounting',
+  'fx-rates': 'Accounting',
+  'fx-rates-lookup': 'Accounting',
+  'fx-rates-import': 'Accounting',
+  'sales-tax-rates': 'Accounting',
+  'sales-tax-nexus': 'Accounting',
+  'sales-tax-calculate': 'Accounting',
   'reconcile': 'Accounting',
   'reconciliations-unmatched': 'Accounting',
   'reconciliations-match-create': 'Accounting',
@@ -1646,6 +2066,15 @@ const TAG_MAP: Record<string, string> = {
   'tax-document-detail': 'Tax',
   'tax-document-mark-filed': 'Tax',
   'tax-calculation': 'Tax',
+  'tax-thresholds': 'Tax',
+  'tax-filings': 'Tax',
+  'tax-filing-detail': 'Tax',
+  'tax-backup-withholding': 'Tax',
+  'tax-backup-withholding-detail': 'Tax',
+  'tax-backup-withholding-notices': 'Tax',
+  'tax-backup-withholding-notices-import': 'Tax',
+  'tax-backup-withholding-notice-sent': 'Tax',
+  'tax-backup-withholding-notice-resolve': 'Tax',
   'tax-summary': 'Tax',
   // Risk
   'risk-evaluation': 'Risk',
@@ -26,7 +26,9 @@ if (!existsSync(sdkClientSourcePath)) fail('sdk/typescript/src/client.ts is miss
 if (!existsSync(sdkWebhooksSourcePath)) fail('sdk/typescript/src/webhooks.ts is missing.')
 if (!existsSync(sdkExamplePath)) fail('sdk/typescript/examples/docs-validation.ts is missing.')
 
-const openApi = parse(readFileSync(openApiPath, 'utf8')) as { paths?: Record<string, unknown> }
+// Every success response aliases the shared rate-limit headers anchor, so the
+// spec outgrows yaml's default alias cap. The file is generated locally.
+const openApi = parse(readFileSync(openApiPath, 'utf8'), { maxAliasCount: -1 }) as { paths?: Record<string, unknown> }
 const openApiPaths = new Set(Object.keys(openApi.paths || {}))
 
 const publicCatalogPaths = API_ENDPOINT_CATALOG
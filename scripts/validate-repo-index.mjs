@@ -676,18 +676,24 @@ const WIRING_CHECKS = [
     file: 'supabase/functions/_shared/payout-service.ts',
     pattern: 'min_payout_delay_days',
   },
-  // Mercury ACH rail registered in execute-payout
+  // Mercury ACH rail registered in the payout rail registry
   {
-    label: 'Mercury ACH rail in payout executor',
-    file: 'supabase/functions/execute-payout/index.ts',
-    pattern: 'MercuryACHRail',
+    label: 'Mercury ACH rail in payout rail registry',
+    file: 'supabase/functions/_shared/payment-rails.ts',
+    pattern: 'registerPaymentRail(new MercuryACHRail()',
   },
-  // Mercury client imported in execute-payout
+  // Mercury client imported by the rail registry
   {
-    label: 'Mercury client imported in execute-payout',
-    file: 'supabase/functions/execute-payout/index.ts',
+    label: 'Mercury client imported in payment-rails',
+    file: 'supabase/functions/_shared/payment-rails.ts',
     pattern: 'mercury-client.ts',
   },
+  // execute-payout resolves rails through the registry
+  {
+    label: 'Payout executor uses rail registry',
+    file: 'supabase/functions/execute-payout/index.ts',
+    pattern: 'payment-rails.ts',
+  },
   // Platform payouts endpoint in proxy allowlist
   {
     label: 'platform-payouts in proxy allowlist',
@@ -9,6 +9,37 @@ import type {
   VerifyWebhookSignatureOptions,
   RecordSaleRequest,
   SaleResponse,
+  SetSplitRuleRequest,
+  SetSplitRuleResponse,
+  SplitRuleScope,
+  CreateReferralAttributionRequest,
+  ListReferralAttributionsRequest,
+  ReferralAttribution,
+  CreateRevenueScheduleRequest,
+  ListRevenueSchedulesRequest,
+  RevenueSchedule,
+  RevenueScheduleLine,
+  GetCreatorReceivablesRequest,
+  ListCreatorDebtsRequest,
+  CreatorDebt,
+  CreatorReceivablesReport,
+  CreatorDebtRecoveryResult,
+  CreatorReservePolicy,
+  CreatorReserveSummary,
+  CreatorReserveDetail,
+  CreateGiftCodeBatchRequest,
+  GiftCodeBatch,
+  GiftCodeBatchSummary,
+  GiftCodeKind,
+  GiftCodeRedemption,
+  CreateSubscriptionPlanRequest,
+  ListSubscriptionPlansRequest,
+  SubscriptionPlan,
+  CreateSubscriptionRequest,
+  ListSubscriptionsRequest,
+  Subscription,
+  ChangeSubscriptionPlanRequest,
+  SubscriptionProration,
   RecordIncomeRequest,
   RecordExpenseRequest,
   RecordBillRequest,
@@ -20,6 +51,40 @@ import type {
   ReverseResponse,
   Period,
   CreatePeriodRequest,
+  FiscalYearClose,
+  PendingJournal,
+  PendingJournalStatus,
+  JournalType,
+  JournalApprovalPolicy,
+  CreateRecurringJournalRequest,
+  RecurringJournalInstance,
+  RecurringJournalStatus,
+  RecurringJournalTemplate,
+  CreateFixedAssetRequest,
+  DepreciationSchedule,
+  DisposeFixedAssetRequest,
+  FixedAsset,
+  FixedAssetDepreciationLine,
+  FixedAssetDisposal,
+  FixedAssetStatus,
+  RunFxRevaluationRequest,
+  FxRevaluationRun,
+  FxRateInput,
+  ListFxRatesRequest,
+  ImportFxRatesRequest,
+  FxRate,
+  FxRateQuote,
+  SalesTaxRateInput,
+  ListSalesTaxRatesRequest,
+  SalesTaxNexusInput,
+  CalculateSalesTaxRequest,
+  SalesTaxRate,
+  SalesTaxNexus,
+  SalesTaxQuote,
+  Dispute,
+  CreateDisputeRequest,
+  ListDisputesRequest,
+  RecordDisputeOutcomeRequest,
   ReconcileMatchRequest,
   ReconciliationMatchResponse,
   ReconciliationUnmatchResponse,
@@ -49,6 +114,20 @@ import type {
   TaxCalculationResponse,
   TaxDocumentGenerationResponse,
   TaxDocumentsResponse,
+  TaxFormThresholdsResponse,
+  CreateTaxFilingRequest,
+  TaxFilingResponse,
+  TaxFilingsResponse,
+  BackupWithholdingStatus,
+  BackupWithholdingStatesResponse,
+  BackupWithholdingStateResponse,
+  BackupWithholdingNoticesResponse,
+  BackupWithholdingNoticeResolution,
+  BackupWithholdingNoticeResponse,
+  ImportBackupWithholdingNoticesRequest,
+  ImportBackupWithholdingNoticesResponse,
+  TaxDocumentType,
+  TaxFormType,
   TaxDocumentResponse,
   TaxSummaryResponse,
   ComplianceOverviewResponse,
@@ -86,6 +165,8 @@ import type {
   CheckoutSessionResourceResponse,
   CreatePayoutRequest,
   PayoutResourceResponse,
+  ReturnPayoutRequest,
+  PayoutReturnResponse,
   CreateRefundRequest,
   RefundResourceResponse,
   ListRefundsRequest,
@@ -111,7 +192,34 @@ import type {
 } from './types'
 import { SoledgicError, ValidationError, AuthenticationError, NotFoundError, ConflictError } from './errors'
 import { verifyWebhookSignature, parseWebhookEvent } from './webhooks'
-import { mapWebhookEndpoint, mapWebhookDelivery } from './helpers'
+import {
+  mapWebhookEndpoint,
+  mapWebhookDelivery,
+  mapDispute,
+  mapSalesTaxNexus,
+  mapTaxFiling,
+  mapBackupWithholdingState,
+  mapBackupWithholdingNotice,
+  mapReferralAttribution,
+  mapRevenueSchedule,
+  mapRevenueScheduleLine,
+  toRevenueScheduleBody,
+  mapCreatorDebt,
+  mapCreatorReceivableAging,
+  mapCreatorReserveSummary,
+  mapCreatorReserveTranche,
+  mapGiftCodeBatch,
+  mapPendingJournal,
+  mapJournalApprovalPolicy,
+  mapRecurringJournalInstance,
+  mapRecurringJournalTemplate,
+  mapFixedAsset,
+  mapFixedAssetDepreciationLine,
+  mapDepreciationSchedule,
+  mapSubscriptionPlan,
+  mapSubscription,
+  mapSubscriptionCharge,
+} from './helpers'
 
 export const DEFAULT_API_VERSION = '2026-03-01'
 
@@ -331,9 +439,13 @@ export class Soledgic {
       reference_id: req.referenceId,
       creator_id: req.creatorId,
       amount: req.amount,
+      currency: req.currency,
+      fx_rate: req.fxRate,
       processing_fee: req.processingFee,
       processing_fee_paid_by: req.processingFeePaidBy,
       creator_percent: req.creatorPercent,
+      split_rule_id: req.splitRuleId,
+      recognition: req.recognition ? toRevenueScheduleBody(req.recognition) : undefined,
       product_id: req.productId,
       product_name: req.productName,
       creator_name: req.creatorName,
@@ -444,6 +556,7 @@ export class Soledgic {
       partial_amount: req.partialAmount,
       idempotency_key: req.idempotencyKey,
       metadata: req.metadata,
+      prepared_by: req.preparedBy,
     })
     return {
       success: response.success,
@@ -456,6 +569,192 @@ export class Soledgic {
       voidedAt: response.voided_at ?? null,
       reversedAt: response.reversed_at ?? null,
       warning: response.warning ?? null,
+      pendingJournal: response.pending_journal ? mapPendingJournal(response.pending_journal) : null,
+    }
+  }
+
+  // === JOURNAL APPROVALS ===
+  // Adjustments, reversals and opening balances above a ledger's approval
+  // threshold answer 202 with a pending journal. Approval and rejection
+  // happen in the dashboard, by a team member other than the preparer.
+
+  async listPendingJournals(filters: { status?: PendingJournalStatus; journalType?: JournalType; limit?: number } = {}): Promise<{ success: boolean; pendingJournals: PendingJournal[] }> {
+    const response = await this.requestGet<any>('pending-journals', {
+      status: filters.status,
+      journal_type: filters.journalType,
+      limit: filters.limit,
+    })
+    return {
+      success: response.success,
+      pendingJournals: (response.pending_journals || []).map(mapPendingJournal),
+    }
+  }
+
+  async getPendingJournal(journalId: string): Promise<{ success: boolean; pendingJournal: PendingJournal; payload: Record<string, unknown> }> {
+    const response = await this.requestGet<any>(`pending-journals/${encodeURIComponent(journalId)}`)
+    return {
+      success: response.success,
+      pendingJournal: mapPendingJournal(response.pending_journal),
+      payload: response.pending_journal?.payload || {},
+    }
+  }
+
+  async listJournalApprovalPolicies(): Promise<{ success: boolean; policies: JournalApprovalPolicy[] }> {
+    const response = await this.requestGet<any>('pending-journals/policies')
+    return {
+      success: response.success,
+      policies: (response.policies || []).map(mapJournalApprovalPolicy),
+    }
+  }
+
+  // === RECURRING JOURNALS ===
+  // Templates post one adjustment per due date through the
+  // run-recurring-journals cron; every instance after the first links to
+  // the first as a recurring_child in the transaction graph.
+
+  async createRecurringJournal(req: CreateRecurringJournalRequest): Promise<{ success: boolean; template: RecurringJournalTemplate }> {
+    const response = await this.request<any>('recurring-journals', {
+      name: req.name,
+      adjustment_type: req.adjustmentType,
+      reason: req.reason,
+      entries: req.entries.map(e => ({
+        account_type: e.accountType,
+        entity_id: e.entityId ?? undefined,
+        entry_type: e.entryType,
+        amount: e.amount,
+      })),
+      recurrence_interval: req.recurrenceInterval,
+      start_date: req.startDate,
+      end_date: req.endDate,
+      auto_reverse: req.autoReverse,
+      prepared_by: req.preparedBy,
+    })
+    return {
+      success: response.success,
+      template: mapRecurringJournalTemplate(response.template),
+    }
+  }
+
+  async listRecurringJournals(filters: { status?: RecurringJournalStatus; limit?: number } = {}): Promise<{ success: boolean; templates: RecurringJournalTemplate[] }> {
+    const response = await this.requestGet<any>('recurring-journals', {
+      status: filters.status,
+      limit: filters.limit,
+    })
+    return {
+      success: response.success,
+      templates: (response.templates || []).map(mapRecurringJournalTemplate),
+    }
+  }
+
+  async getRecurringJournal(templateId: string): Promise<{ success: boolean; template: RecurringJournalTemplate; upcomingRunDates: string[]; instances: RecurringJournalInstance[] }> {
+    const response = await this.requestGet<any>(`recurring-journals/${encodeURIComponent(templateId)}`)
+    return {
+      success: response.success,
+      template: mapRecurringJournalTemplate(response.template),
+      upcomingRunDates: response.upcoming_run_dates || [],
+      instances: (response.instances || []).map(mapRecurringJournalInstance),
+    }
+  }
+
+  async pauseRecurringJournal(templateId: string) {
+    return this.changeRecurringJournalStatus(templateId, 'pause')
+  }
+
+  async resumeRecurringJournal(templateId: string) {
+    return this.changeRecurringJournalStatus(templateId, 'resume')
+  }
+
+  /** Stop a template for good. Instances already posted are unaffected. */
+  async endRecurringJournal(templateId: string) {
+    return this.changeRecurringJournalStatus(templateId, 'end')
+  }
+
+  private async changeRecurringJournalStatus(templateId: string, action: 'pause' | 'resume' | 'end'): Promise<{ success: boolean; template: RecurringJournalTemplate }> {
+    const response = await this.request<any>(`recurring-journals/${encodeURIComponent(templateId)}/${action}`, {})
+    return {
+      success: response.success,
+      template: mapRecurringJournalTemplate(response.template),
+    }
+  }
+
+  // === FIXED ASSETS ===
+  // Registering an asset books its cost and a monthly depreciation schedule;
+  // the run-depreciation cron posts each month into Accumulated Depreciation.
+
+  async createFixedAsset(req: CreateFixedAssetRequest): Promise<{ success: boolean; asset: FixedAsset; lines: FixedAssetDepreciationLine[] }> {
+    const response = await this.request<any>('fixed-assets', {
+      name: req.name,
+      category: req.category,
+      description: req.description,
+      cost: req.cost,
+      salvage_value: req.salvageValue,
+      acquisition_date: req.acquisitionDate,
+      useful_life_months: req.usefulLifeMonths,
+      method: req.method,
+      declining_factor: req.decliningFactor,
+      funding_account_type: req.fundingAccountType,
+    })
+    return {
+      success: response.success,
+      asset: mapFixedAsset(response.asset),
+      lines: (response.lines || []).map(mapFixedAssetDepreciationLine),
+    }
+  }
+
+  async listFixedAssets(filters: { status?: FixedAssetStatus; category?: string; limit?: number } = {}): Promise<{ success: boolean; assets: FixedAsset[] }> {
+    const response = await this.requestGet<any>('fixed-assets', {
+      status: filters.status,
+      category: filters.category,
+      limit: filters.limit,
+    })
+    return {
+      success: response.success,
+      assets: (response.assets || []).map(mapFixedAsset),
+    }
+  }
+
+  async getFixedAsset(assetId: string): Promise<{ success: boolean; asset: FixedAsset; lines: FixedAssetDepreciationLine[] }> {
+    const response = await this.requestGet<any>(`fixed-assets/${encodeURIComponent(assetId)}`)
+    return {
+      success: response.success,
+      asset: mapFixedAsset(response.asset),
+      lines: (response.lines || []).map(mapFixedAssetDepreciationLine),
+    }
+  }
+
+  /** Remove an asset from the books, posting proceeds against net book value as a gain or loss. */
+  async disposeFixedAsset(
+    assetId: string,
+    req: DisposeFixedAssetRequest = {},
+  ): Promise<{ success: boolean; asset: FixedAsset; lines: FixedAssetDepreciationLine[]; disposal: FixedAssetDisposal }> {
+    const response = await this.request<any>(`fixed-assets/${encodeURIComponent(assetId)}/dispose`, {
+      disposal_date: req.disposalDate,
+      proceeds: req.proceeds,
+      proceeds_account_type: req.proceedsAccountType,
+    })
+    return {
+      success: response.success,
+      asset: mapFixedAsset(response.asset),
+      lines: (response.lines || []).map(mapFixedAssetDepreciationLine),
+      disposal: {
+        transactionId: String(response.disposal?.transaction_id ?? ''),
+        accumulatedDepreciation: Number(response.disposal?.accumulated_depreciation ?? 0),
+        netBookValue: Number(response.disposal?.net_book_value ?? 0),
+        proceeds: Number(response.disposal?.proceeds ?? 0),
+        gainLoss: Number(response.disposal?.gain_loss ?? 0),
+      },
+    }
+  }
+
+  /** Depreciation schedule report; defaults to the current fiscal year. */
+  async getDepreciationSchedule(options: { startDate?: string; endDate?: string } = {}): Promise<{ success: boolean; schedule: DepreciationSchedule }> {
+    const response = await this.requestGet<any>('fixed-assets/schedule', {
+      start_date: options.startDate,
+      end_date: options.endDate,
+    })
+    return {
+      success: response.success,
+      schedule: mapDepreciationSchedule(response.schedule),
     }
   }
 
@@ -478,6 +777,217 @@ export class Soledgic {
     return this.request('close-period', { year, month, quarter })
   }
 
+  /** Roll the fiscal year's net income into retained earnings and lock the year. */
+  async closeFiscalYear(fiscalYear: number, notes?: string): Promise<{ success: boolean; close: FiscalYearClose }> {
+    const response = await this.request<any>('close-period', {
+      year: fiscalYear,
+      fiscal_year: true,
+      notes,
+    })
+    return {
+      success: response.success,
+      close: {
+        periodId: response.period_id,
+        fiscalYear,
+        startDate: response.period?.start_date,
+        endDate: response.period?.end_date,
+        status: response.period?.status,
+        closingTransactionId: response.closing?.transaction_id ?? null,
+        retainedEarningsAccountId: response.closing?.retained_earnings_account_id ?? null,
+        netIncome: Number(response.closing?.net_income ?? 0),
+        accountsClosed: Number(response.closing?.accounts_closed ?? 0),
+      },
+    }
+  }
+
+  // === FX REVALUATION ===
+
+  async runFxRevaluation(req: RunFxRevaluationRequest): Promise<{ success: boolean; revaluation: FxRevaluationRun }> {
+    const response = await this.request<any>('fx-revaluation', {
+      as_of_date: req.asOfDate,
+      rates: req.rates,
+    })
+    return {
+      success: response.success,
+      revaluation: {
+        runId: response.run_id ?? null,
+        transactionId: response.transaction_id ?? null,
+        asOfDate: response.as_of_date,
+        functionalCurrency: response.functional_currency,
+        rates: response.rates || {},
+        unrealizedGainLoss: Number(response.unrealized_gain_loss ?? 0),
+        realizedGainLoss: Number(response.realized_gain_loss ?? 0),
+        positionsRevalued: Number(response.positions_revalued ?? 0),
+      },
+    }
+  }
+
+  // === FX RATES ===
+
+  async listFxRates(options?: ListFxRatesRequest): Promise<{ success: boolean; functionalCurrency: string; rates: FxRate[] }> {
+    const response = await this.requestGet<any>('fx-rates', {
+      base_currency: options?.baseCurrency,
+      quote_currency: options?.quoteCurrency,
+      from_date: options?.fromDate,
+      to_date: options?.toDate,
+      limit: options?.limit,
+    })
+    return {
+      success: response.success,
+      functionalCurrency: response.functional_currency,
+      rates: (response.rates || []).map((rate: any) => ({
+        id: rate.id,
+        baseCurrency: rate.base_currency,
+        quoteCurrency: rate.quote_currency,
+        rate: Number(rate.rate),
+        effectiveDate: rate.effective_date,
+        source: rate.source,
+        createdAt: rate.created_at,
+        updatedAt: rate.updated_at,
+      })),
+    }
+  }
+
+  async pushFxRates(rates: FxRateInput[]): Promise<{ success: boolean; stored: number }> {
+    const response = await this.request<any>('fx-rates', {
+      rates: rates.map((rate) => ({
+        base_currency: rate.baseCurrency,
+        quote_currency: rate.quoteCurrency,
+        rate: rate.rate,
+        effective_date: rate.effectiveDate,
+      })),
+    })
+    return { success: response.success, stored: response.stored ?? 0 }
+  }
+
+  async importFxRates(req: ImportFxRatesRequest) {
+    const response = await this.request<any>('fx-rates/import', {
+      data: req.data,
+      format: req.format,
+      base_currency: req.baseCurrency,
+    })
+    return {
+      success: response.success,
+      importBatchId: response.import_batch_id ?? null,
+      format: response.format,
+      stored: response.stored ?? 0,
+      skipped: response.skipped ?? 0,
+      errors: (response.errors || []) as string[],
+    }
+  }
+
+  async lookupFxRate(from: string, to?: string, date?: string): Promise<{ success: boolean; quote: FxRateQuote }> {
+    const response = await this.requestGet<any>('fx-rates/lookup', { from, to, date })
+    return {
+      success: response.success,
+      quote: {
+        from: response.from,
+        to: response.to,
+        date: response.date,
+        rate: Number(response.rate),
+        effectiveDate: response.effective_date,
+        method: response.method,
+      },
+    }
+  }
+
+  // === SALES TAX ===
+
+  async listSalesTaxRates(options?: ListSalesTaxRatesRequest): Promise<{ success: boolean; rates: SalesTaxRate[] }> {
+    const response = await this.requestGet<any>('sales-tax/rates', {
+      country_code: options?.countryCode,
+      state_code: options?.stateCode,
+      as_of: options?.asOf,
+    })
+    return {
+      success: response.success,
+      rates: (response.rates || []).map((rate: any) => ({
+        id: rate.id,
+        source: rate.source,
+        countryCode: rate.country_code,
+        stateCode: rate.state_code ?? null,
+        postalCode: rate.postal_code ?? null,
+        taxCategory: rate.tax_category ?? null,
+        jurisdictionCode: rate.jurisdiction_code,
+        jurisdictionName: rate.jurisdiction_name,
+        taxType: rate.tax_type,
+        rateBps: Number(rate.rate_bps),
+        effectiveFrom: rate.effective_from,
+        effectiveTo: rate.effective_to ?? null,
+      })),
+    }
+  }
+
+  /** Ledger rate overrides; upserted on location + category + effectiveFrom. */
+  async upsertSalesTaxRates(rates: SalesTaxRateInput[]): Promise<{ success: boolean; stored: number }> {
+    const response = await this.request<any>('sales-tax/rates', {
+      rates: rates.map((rate) => ({
+        country_code: rate.countryCode,
+        state_code: rate.stateCode,
+        postal_code: rate.postalCode,
+        tax_category: rate.taxCategory,
+        jurisdiction_code: rate.jurisdictionCode,
+        jurisdiction_name: rate.jurisdictionName,
+        tax_type: rate.taxType,
+        rate_bps: rate.rateBps,
+        effective_from: rate.effectiveFrom,
+        effective_to: rate.effectiveTo,
+      })),
+    })
+    return { success: response.success, stored: response.stored ?? 0 }
+  }
+
+  async listSalesTaxNexus(): Promise<{ success: boolean; defaultNexus: boolean; nexus: SalesTaxNexus[] }> {
+    const response = await this.requestGet<any>('sales-tax/nexus')
+    return {
+      success: response.success,
+      defaultNexus: Boolean(response.default_nexus),
+      nexus: (response.nexus || []).map(mapSalesTaxNexus),
+    }
+  }
+
+  async upsertSalesTaxNexus(nexus: SalesTaxNexusInput[]): Promise<{ success: boolean; nexus: SalesTaxNexus[] }> {
+    const response = await this.request<any>('sales-tax/nexus', {
+      nexus: nexus.map((row) => ({
+        country_code: row.countryCode,
+        state_code: row.stateCode,
+        registration_number: row.registrationNumber,
+        collect_tax: row.collectTax,
+        effective_from: row.effectiveFrom,
+        effective_to: row.effectiveTo,
+      })),
+    })
+    return { success: response.success, nexus: (response.nexus || []).map(mapSalesTaxNexus) }
+  }
+
+  async calculateSalesTax(req: CalculateSalesTaxRequest): Promise<{ success: boolean; quote: SalesTaxQuote }> {
+    const response = await this.request<any>('sales-tax/calculate', {
+      amount: req.amount,
+      customer_country: req.customerCountry,
+      customer_state: req.customerState,
+      customer_postal_code: req.customerPostalCode,
+      tax_category: req.taxCategory,
+      customer_tax_id: req.customerTaxId,
+      as_of: req.asOf,
+    })
+    return {
+      success: response.success,
+      quote: {
+        collect: Boolean(response.collect),
+        subtotalAmount: Number(response.subtotal_amount ?? req.amount),
+        taxAmount: Number(response.tax_cents ?? 0),
+        totalAmount: Number(response.total_amount ?? req.amount),
+        rateBps: response.rate_bps ?? null,
+        jurisdictionCode: response.jurisdiction_code ?? null,
+        jurisdictionName: response.jurisdiction_name ?? null,
+        taxType: response.tax_type ?? null,
+        reverseCharge: Boolean(response.reverse_charge),
+        reason: response.reason ?? null,
+        asOf: response.as_of,
+      },
+    }
+  }
+
   // === RECONCILIATION ===
 
   async matchTransaction(req: ReconcileMatchRequest): Promise<ReconciliationMatchResponse> {
@@ -580,11 +1090,13 @@ export class Soledgic {
     })
   }
 
-  async getFrozenStatement(periodId: string, statementType: 'profit_loss' | 'balance_sheet' | 'trial_balance'): Promise<{ success: boolean; statement: FrozenStatement }> {
+  /** Latest version unless `version` picks the statement of an earlier close of a reopened period. */
+  async getFrozenStatement(periodId: string, statementType: 'profit_loss' | 'balance_sheet' | 'trial_balance' | 'sales_tax_liability', version?: number): Promise<{ success: boolean; statement: FrozenStatement }> {
     return this.request('frozen-statements', {
       action: 'get',
       period_id: periodId,
       statement_type: statementType,
+      version,
     })
   }
 
@@ -624,6 +1136,331 @@ export class Soledgic {
     return this.request('manage-splits', { action: 'auto_promote' })
   }
 
+  /** Create a split rule or add a new version of it. Past sales keep their version. */
+  async setSplitRule(req: SetSplitRuleRequest): Promise<SetSplitRuleResponse> {
+    return this.request<SetSplitRuleResponse>('manage-splits', {
+      action: 'set_split_rule',
+      scope: req.scope,
+      scope_id: req.scopeId,
+      name: req.name,
+      recipients: req.recipients.map((recipient) => ({
+        participant_id: recipient.participantId,
+        role: recipient.role,
+        percent: recipient.percent,
+        fixed_amount: recipient.fixedAmount,
+        min_amount: recipient.minAmount,
+        max_amount: recipient.maxAmount,
+        position: recipient.position,
+      })),
+    })
+  }
+
+  async getSplitRule(splitRuleId: string) {
+    return this.request('manage-splits', { action: 'get_split_rule', split_rule_id: splitRuleId })
+  }
+
+  async listSplitRules(scope?: SplitRuleScope) {
+    return this.request('manage-splits', { action: 'list_split_rules', scope })
+  }
+
+  async archiveSplitRule(splitRuleId: string) {
+    return this.request('manage-splits', { action: 'archive_split_rule', split_rule_id: splitRuleId })
+  }
+
+  // === REFERRALS ===
+
+  async listReferralAttributions(options?: ListReferralAttributionsRequest): Promise<{ success: boolean; attributions: ReferralAttribution[] }> {
+    const response = await this.requestGet<any>('referrals', {
+      referrer_id: options?.referrerId,
+      referred_type: options?.referredType,
+      referred_id: options?.referredId,
+      status: options?.status,
+      limit: options?.limit,
+    })
+    return {
+      success: response.success,
+      attributions: (response.attributions || []).map(mapReferralAttribution),
+    }
+  }
+
+  /** Start paying a referrer a percent of the platform's share on the referred party's revenue. */
+  async createReferralAttribution(req: CreateReferralAttributionRequest): Promise<{ success: boolean; attribution: ReferralAttribution }> {
+    const response = await this.request<any>('referrals', {
+      referrer_id: req.referrerId,
+      referred_type: req.referredType,
+      referred_id: req.referredId,
+      commission_percent: req.commissionPercent,
+      starts_at: req.startsAt,
+      ends_at: req.endsAt,
+      metadata: req.metadata,
+    })
+    return { success: response.success, attribution: mapReferralAttribution(response.attribution) }
+  }
+
+  async getReferralAttribution(attributionId: string) {
+    const response = await this.requestGet<any>(`referrals/${encodeURIComponent(attributionId)}`)
+    return {
+      success: response.success,
+      attribution: mapReferralAttribution(response.attribution),
+      totals: {
+        commissionCount: Number(response.totals?.commission_count ?? 0),
+        earned: Number(response.totals?.earned ?? 0),
+        reversed: Number(response.totals?.reversed ?? 0),
+        net: Number(response.totals?.net ?? 0),
+      },
+      commissions: (response.commissions || []).map((commission: any) => ({
+        id: commission.id,
+        sourceTransactionId: commission.source_transaction_id,
+        commissionTransactionId: commission.commission_transaction_id,
+        baseAmount: Number(commission.base_amount),
+        amount: Number(commission.amount),
+        reversedAmount: Number(commission.reversed_amount),
+        createdAt: commission.created_at,
+      })),
+    }
+  }
+
+  /** Stop future commissions. Posted commissions are still reversed on refund. */
+  async endReferralAttribution(attributionId: string): Promise<{ success: boolean; attribution: ReferralAttribution }> {
+    const response = await this.request<any>(`referrals/${encodeURIComponent(attributionId)}/end`, {})
+    return { success: response.success, attribution: mapReferralAttribution(response.attribution) }
+  }
+
+  // === REVENUE RECOGNITION ===
+
+  async listRevenueSchedules(options?: ListRevenueSchedulesRequest): Promise<{ success: boolean; schedules: RevenueSchedule[] }> {
+    const response = await this.requestGet<any>('revenue-recognition', {
+      status: options?.status,
+      source_transaction_id: options?.sourceTransactionId,
+      limit: options?.limit,
+    })
+    return { success: response.success, schedules: (response.schedules || []).map(mapRevenueSchedule) }
+  }
+
+  /** Defer an already-recorded sale. Use `recognition` on recordSale for new sales. */
+  async createRevenueSchedule(
+    req: CreateRevenueScheduleRequest,
+  ): Promise<{ success: boolean; schedule: RevenueSchedule; lines: RevenueScheduleLine[] }> {
+    const response = await this.request<any>('revenue-recognition', {
+      transaction_id: req.transactionId,
+      recognition: toRevenueScheduleBody(req.recognition),
+    })
+    return {
+      success: response.success,
+      schedule: mapRevenueSchedule(response.schedule),
+      lines: (response.lines || []).map(mapRevenueScheduleLine),
+    }
+  }
+
+  async getRevenueSchedule(
+    scheduleId: string,
+  ): Promise<{ success: boolean; schedule: RevenueSchedule; lines: RevenueScheduleLine[] }> {
+    const response = await this.requestGet<any>(`revenue-recognition/${encodeURIComponent(scheduleId)}`)
+    return {
+      success: response.success,
+      schedule: mapRevenueSchedule(response.schedule),
+      lines: (response.lines || []).map(mapRevenueScheduleLine),
+    }
+  }
+
+  /** Recognize a milestone now, whatever date it was planned for. */
+  async completeRevenueMilestone(
+    scheduleId: string,
+    lineNumber: number,
+  ): Promise<{ success: boolean; schedule: RevenueSchedule; lines: RevenueScheduleLine[] }> {
+    const response = await this.request<any>(
+      `revenue-recognition/${encodeURIComponent(scheduleId)}/milestones/${encodeURIComponent(String(lineNumber))}/complete`,
+      {},
+    )
+    return {
+      success: response.success,
+      schedule: mapRevenueSchedule(response.schedule),
+      lines: (response.lines || []).map(mapRevenueScheduleLine),
+    }
+  }
+
+  // === CREATOR RECEIVABLES ===
+
+  /** Negative creator balances still owed, aged per creator. */
+  async getCreatorReceivables(options?: GetCreatorReceivablesRequest): Promise<CreatorReceivablesReport> {
+    const response = await this.requestGet<any>('creator-receivables', {
+      creator_id: options?.creatorId,
+      as_of: options?.asOf,
+    })
+    const summary = response.summary || {}
+    return {
+      success: response.success,
+      asOf: response.as_of,
+      policy: {
+        recoveryPercent: Number(response.policy?.recovery_percent ?? 100),
+        blockPayouts: response.policy?.block_payouts === true,
+        writeOffDays: response.policy?.write_off_days ?? null,
+      },
+      summary: {
+        creators: Number(summary.creators ?? 0),
+        debts: Number(summary.debts ?? 0),
+        totalOutstanding: Number(summary.total_outstanding ?? 0),
+        current: Number(summary.current ?? 0),
+        days31To60: Number(summary.days_31_60 ?? 0),
+        days61To90: Number(summary.days_61_90 ?? 0),
+        daysOver90: Number(summary.days_over_90 ?? 0),
+      },
+      creators: (response.creators || []).map(mapCreatorReceivableAging),
+    }
+  }
+
+  async listCreatorDebts(options?: ListCreatorDebtsRequest): Promise<{ success: boolean; debts: CreatorDebt[] }> {
+    const response = await this.requestGet<any>('creator-receivables/debts', {
+      status: options?.status,
+      creator_id: options?.creatorId,
+      limit: options?.limit,
+    })
+    return { success: response.success, debts: (response.debts || []).map(mapCreatorDebt) }
+  }
+
+  async getCreatorDebt(debtId: string): Promise<{ success: boolean; debt: CreatorDebt }> {
+    const response = await this.requestGet<any>(`creator-receivables/debts/${encodeURIComponent(debtId)}`)
+    return { success: response.success, debt: mapCreatorDebt(response.debt) }
+  }
+
+  /** Net the creator's available balance against what they owe, now. */
+  async recoverCreatorDebts(creatorId: string): Promise<CreatorDebtRecoveryResult> {
+    const response = await this.request<any>('creator-receivables/recover', { creator_id: creatorId })
+    return {
+      success: response.success,
+      creatorId: response.creator_id,
+      recoveredAmount: Number(response.recovered_amount ?? 0),
+      transactionId: response.transaction_id ?? null,
+      recoveries: (response.recoveries || []).map((recovery: any) => ({
+        debtId: recovery.debt_id,
+        transactionId: recovery.transaction_id,
+        debtTransactionId: recovery.debt_transaction_id,
+        amount: Number(recovery.amount ?? 0),
+        status: recovery.status,
+      })),
+    }
+  }
+
+  /** Write what is left of a debt off to bad debt expense. */
+  async writeOffCreatorDebt(debtId: string, reason?: string): Promise<{ success: boolean; debt: CreatorDebt }> {
+    const response = await this.request<any>(
+      `creator-receivables/debts/${encodeURIComponent(debtId)}/write-off`,
+      { reason },
+    )
+    return { success: response.success, debt: mapCreatorDebt(response.debt) }
+  }
+
+  // === SUBSCRIPTIONS ===
+
+  async listSubscriptionPlans(options?: ListSubscriptionPlansRequest): Promise<{ success: boolean; plans: SubscriptionPlan[] }> {
+    const response = await this.requestGet<any>('subscriptions/plans', {
+      participant_id: options?.participantId,
+      status: options?.status,
+      limit: options?.limit,
+    })
+    return { success: response.success, plans: (response.plans || []).map(mapSubscriptionPlan) }
+  }
+
+  async createSubscriptionPlan(req: CreateSubscriptionPlanRequest): Promise<{ success: boolean; plan: SubscriptionPlan }> {
+    const response = await this.request<any>('subscriptions/plans', {
+      participant_id: req.participantId,
+      product_id: req.productId,
+      name: req.name,
+      amount: req.amount,
+      currency: req.currency,
+      interval: req.interval,
+      interval_count: req.intervalCount,
+      revenue_recognition: req.revenueRecognition,
+      metadata: req.metadata,
+    })
+    return { success: response.success, plan: mapSubscriptionPlan(response.plan) }
+  }
+
+  /** Stop new subscriptions to a plan. Existing subscriptions keep renewing. */
+  async archiveSubscriptionPlan(planId: string): Promise<{ success: boolean; plan: SubscriptionPlan }> {
+    const response = await this.request<any>(`subscriptions/plans/${encodeURIComponent(planId)}/archive`, {})
+    return { success: response.success, plan: mapSubscriptionPlan(response.plan) }
+  }
+
+  async listSubscriptions(options?: ListSubscriptionsRequest): Promise<{ success: boolean; subscriptions: Subscription[] }> {
+    const response = await this.requestGet<any>('subscriptions', {
+      status: options?.status,
+      buyer_id: options?.buyerId,
+      participant_id: options?.participantId,
+      plan_id: options?.planId,
+      limit: options?.limit,
+    })
+    return { success: response.success, subscriptions: (response.subscriptions || []).map(mapSubscription) }
+  }
+
+  /** Subscribe a buyer and charge the first period to their saved payment method. */
+  async createSubscription(req: CreateSubscriptionRequest) {
+    const response = await this.request<any>('subscriptions', {
+      plan_id: req.planId,
+      buyer_id: req.buyerId,
+      payment_method_id: req.paymentMethodId,
+      idempotency_key: req.idempotencyKey,
+      customer_email: req.customerEmail,
+      metadata: req.metadata,
+    })
+    return {
+      success: response.success,
+      subscription: mapSubscription(response.subscription),
+      charge: response.charge ? mapSubscriptionCharge(response.charge) : null,
+      idempotent: Boolean(response.idempotent),
+    }
+  }
+
+  async getSubscription(subscriptionId: string) {
+    const response = await this.requestGet<any>(`subscriptions/${encodeURIComponent(subscriptionId)}`)
+    return {
+      success: response.success,
+      subscription: mapSubscription(response.subscription),
+      charges: (response.charges || []).map(mapSubscriptionCharge),
+    }
+  }
+
+  /** Move to another plan with the same currency and interval, prorating the current period. */
+  async changeSubscriptionPlan(
+    subscriptionId: string,
+    req: ChangeSubscriptionPlanRequest,
+  ): Promise<{ success: boolean; subscription: Subscription; proration: SubscriptionProration }> {
+    const response = await this.request<any>(`subscriptions/${encodeURIComponent(subscriptionId)}/change-plan`, {
+      plan_id: req.planId,
+      prorate: req.prorate,
+    })
+    const proration = response.proration || {}
+    return {
+      success: response.success,
+      subscription: mapSubscription(response.subscription),
+      proration: {
+        remainingFraction: Number(proration.remaining_fraction ?? 0),
+        unusedAmount: Number(proration.unused_amount ?? 0),
+        newAmount: Number(proration.new_amount ?? 0),
+        netAmount: Number(proration.net_amount ?? 0),
+        prorated: Boolean(proration.prorated),
+        creditAdded: Number(proration.credit_added ?? 0),
+        charge: proration.charge ? mapSubscriptionCharge(proration.charge) : null,
+      },
+    }
+  }
+
+  /** Cancel at the end of the paid period (default) or immediately with `atPeriodEnd: false`. */
+  async cancelSubscription(subscriptionId: string, options?: { atPeriodEnd?: boolean }): Promise<{ success: boolean; subscription: Subscription }> {
+    const response = await this.request<any>(`subscriptions/${encodeURIComponent(subscriptionId)}/cancel`, {
+      at_period_end: options?.atPeriodEnd,
+    })
+    return { success: response.success, subscription: mapSubscription(response.subscription) }
+  }
+
+  /** Replace the saved payment method; a past-due subscription is retried on the next renewal run. */
+  async updateSubscriptionPaymentMethod(subscriptionId: string, paymentMethodId: string): Promise<{ success: boolean; subscription: Subscription }> {
+    const response = await this.request<any>(`subscriptions/${encodeURIComponent(subscriptionId)}/payment-method`, {
+      payment_method_id: paymentMethodId,
+    })
+    return { success: response.success, subscription: mapSubscription(response.subscription) }
+  }
+
   async getSummary() {
     const response = await this.requestGet<any>('participants')
     const participants = Array.isArray(response.participants) ? response.participants : []
@@ -664,6 +1501,11 @@ export class Soledgic {
     return this.request('generate-report', { report_type: 'creator_earnings', start_date: startDate, end_date: endDate })
   }
 
+  /** Taxable sales, exempt sales, refunded tax and net tax due per jurisdiction. */
+  async getSalesTaxLiability(startDate: string, endDate: string) {
+    return this.request('generate-report', { report_type: 'sales_tax_liability', start_date: startDate, end_date: endDate })
+  }
+
   async getHistoricalEarnings(options: {
     startDate?: string
     endDate?: string
@@ -722,9 +1564,110 @@ export class Soledgic {
     return this.request('credits', { action: 'balance', user_id: userId })
   }
 
+  // === GIFT CODES ===
+
+  /** Generate a batch of gift cards or promo codes. Codes are returned once, here and by export. */
+  async createGiftCodeBatch(req: CreateGiftCodeBatchRequest): Promise<{ success: boolean; batch: GiftCodeBatch; codes: string[] }> {
+    const response = await this.request<any>('gift-codes/batches', {
+      kind: req.kind,
+      name: req.name,
+      denomination: req.denomination,
+      currency: req.currency,
+      count: req.count,
+      code: req.code,
+      max_redemptions: req.maxRedemptions,
+      expires_at: req.expiresAt,
+      metadata: req.metadata,
+    })
+    return {
+      success: response.success,
+      batch: mapGiftCodeBatch(response.batch),
+      codes: response.codes || [],
+    }
+  }
+
+  async listGiftCodeBatches(filters: { kind?: GiftCodeKind; status?: 'active' | 'voided'; limit?: number } = {}): Promise<{ success: boolean; batches: GiftCodeBatch[] }> {
+    const response = await this.requestGet<any>('gift-codes/batches', {
+      kind: filters.kind,
+      status: filters.status,
+      limit: filters.limit,
+    })
+    return {
+      success: response.success,
+      batches: (response.batches || []).map(mapGiftCodeBatch),
+    }
+  }
+
+  async getGiftCodeBatch(batchId: string): Promise<{ success: boolean; batch: GiftCodeBatch; summary: GiftCodeBatchSummary }> {
+    const response = await this.requestGet<any>(`gift-codes/batches/${encodeURIComponent(batchId)}`)
+    const summary = response.summary || {}
+    return {
+      success: response.success,
+      batch: mapGiftCodeBatch(response.batch),
+      summary: {
+        active: Number(summary.active ?? 0),
+        redeemed: Number(summary.redeemed ?? 0),
+        expired: Number(summary.expired ?? 0),
+        voided: Number(summary.voided ?? 0),
+        redemptions: Number(summary.redemptions ?? 0),
+        outstandingValue: Number(summary.outstanding_value ?? 0),
+      },
+    }
+  }
+
+  async exportGiftCodeBatch(batchId: string, format: 'csv' | 'json' = 'csv') {
+    const path = `gift-codes/batches/${encodeURIComponent(batchId)}/export`
+    if (format === 'csv') {
+      const response = await this.requestGetRaw(path, { format })
+      const csv = await response.text()
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filenameMatch = disposition.match(/filename="?([^"]+)"?/)
+      return { csv, filename: filenameMatch?.[1] || `gift_codes_${batchId}.csv` }
+    }
+    return this.requestGet(path, { format })
+  }
+
+  /** Void every active code in a batch. Unredeemed gift card value is reversed out of the liability. */
+  async voidGiftCodeBatch(batchId: string, reason?: string) {
+    return this.voidGiftCodes(`gift-codes/batches/${encodeURIComponent(batchId)}/void`, reason)
+  }
+
+  async voidGiftCode(code: string, reason?: string) {
+    return this.voidGiftCodes(`gift-codes/codes/${encodeURIComponent(code)}/void`, reason)
+  }
+
+  private async voidGiftCodes(path: string, reason?: string): Promise<{ success: boolean; voidedCount: number; refundedValue: number; transactionId: string | null }> {
+    const response = await this.request<any>(path, { reason })
+    return {
+      success: response.success,
+      voidedCount: Number(response.voided_count ?? 0),
+      refundedValue: Number(response.refunded_value ?? 0),
+      transactionId: response.transaction_id ?? null,
+    }
+  }
+
+  /** Redeem a code into the customer's consumer_credit wallet. Repeated failures are throttled (429). */
+  async redeemGiftCode(code: string, customerId: string): Promise<GiftCodeRedemption> {
+    const response = await this.request<any>('gift-codes/redeem', {
+      code,
+      customer_id: customerId,
+    })
+    return {
+      success: response.success,
+      codeId: response.redemption?.code_id,
+      kind: response.redemption?.kind,
+      customerId: response.redemption?.customer_id ?? customerId,
+      amount: Number(response.redemption?.amount ?? 0),
+      currency: response.redemption?.currency,
+      transactionId: response.redemption?.transaction_id,
+      walletId: response.wallet?.wallet_id,
+      walletBalance: Number(response.wallet?.balance ?? 0),
+    }
+  }
+
   // === PDF EXPORTS ===
 
-  async generatePDF(reportType: 'creator_statement' | 'profit_loss' | 'trial_balance' | '1099', options: {
+  async generatePDF(reportType: 'creator_statement' | 'profit_loss' | 'trial_balance' | '1099' | 'sales_tax_liability', options: {
     creatorId?: string
     startDate?: string
     endDate?: string
@@ -757,6 +1700,10 @@ export class Soledgic {
     return this.generatePDF('1099', { taxYear })
   }
 
+  async getSalesTaxLiabilityPDF(startDate: string, endDate: string) {
+    return this.generatePDF('sales_tax_liability', { startDate, endDate })
+  }
+
   // === AUTO-EMAIL ===
 
   async configureEmail(config: {
@@ -820,7 +1767,11 @@ export class Soledgic {
     return this.request('execute-payout', { action: 'list_rails' })
   }
 
-  async configurePayoutRail(rail: 'card' | 'wise' | 'manual' | 'crypto', config: {
+  /**
+   * Configure a payout rail. `settings.fee_schedule` ({ percent, fixed_cents,
+   * min_cents, max_cents, paid_by }) sets the fee booked on each payout the rail executes.
+   */
+  async configurePayoutRail(rail: 'card' | 'ach' | 'instant' | 'wise' | 'manual' | 'crypto', config: {
     enabled: boolean
     credentials?: Record<string, string>
     settings?: Record<string, any>
@@ -844,6 +1795,14 @@ export class Soledgic {
     })
   }
 
+  /** Poll the rail that executed a payout for its current status */
+  async getPayoutStatus(payoutId: string) {
+    return this.request('execute-payout', {
+      action: 'get_status',
+      payout_id: payoutId,
+    })
+  }
+
   async executeBatchPayouts(payoutIds: string[], rail?: string) {
     return this.request('execute-payout', {
       action: 'batch_execute',
@@ -859,6 +1818,19 @@ export class Soledgic {
     })
   }
 
+  /**
+   * Import a NACHA file received from the bank. Return files reverse returned
+   * payouts, acknowledgment files mark rejected payouts failed, and NOC entries
+   * in either update the creator's stored bank details.
+   */
+  async importPayoutReturnFile(fileContent: string, fileType: 'return' | 'acknowledgment' = 'return') {
+    return this.request('execute-payout', {
+      action: 'import_return_file',
+      file_content: fileContent,
+      file_type: fileType,
+    })
+  }
+
   // === WEBHOOKS ===
 
   async listWebhookEndpoints() {
@@ -1233,6 +2205,53 @@ export class Soledgic {
     }
   }
 
+  /** Held rolling reserve per participant with a policy or a tranche still held. */
+  async listCreatorReserves(): Promise<{ success: boolean; reserves: CreatorReserveSummary[]; totalHeld: number }> {
+    const response = await this.requestGet<any>('holds/reserves')
+    return {
+      success: response.success,
+      reserves: (response.reserves || []).map(mapCreatorReserveSummary),
+      totalHeld: Number(response.total_held ?? 0),
+    }
+  }
+
+  async getCreatorReserve(participantId: string): Promise<CreatorReserveDetail> {
+    const response = await this.requestGet<any>(`holds/reserves/${encodeURIComponent(participantId)}`)
+    return {
+      success: response.success,
+      participantId: response.participant_id,
+      policy: response.policy
+        ? { reservePercent: Number(response.policy.reserve_percent), holdDays: Number(response.policy.hold_days) }
+        : null,
+      heldAmount: Number(response.held_amount ?? 0),
+      releasedAmount: Number(response.released_amount ?? 0),
+      nextReleaseAt: response.next_release_at ?? null,
+      nextReleaseAmount: Number(response.next_release_amount ?? 0),
+      tranches: (response.tranches || []).map(mapCreatorReserveTranche),
+    }
+  }
+
+  /** Hold a percentage of each later sale for this participant, released after holdDays. */
+  async setCreatorReservePolicy(participantId: string, policy: CreatorReservePolicy) {
+    const response = await this.request<any>(`holds/reserves/${encodeURIComponent(participantId)}`, {
+      reserve_percent: policy.reservePercent,
+      hold_days: policy.holdDays,
+    })
+    return {
+      success: response.success,
+      policy: {
+        reservePercent: Number(response.policy?.reserve_percent ?? policy.reservePercent),
+        holdDays: Number(response.policy?.hold_days ?? policy.holdDays),
+      },
+    }
+  }
+
+  /** Stop reserving new sales. Tranches already held still release on schedule. */
+  async removeCreatorReservePolicy(participantId: string): Promise<{ success: boolean; deleted: boolean }> {
+    const response = await this.requestDelete<any>(`holds/reserves/${encodeURIComponent(participantId)}`)
+    return { success: response.success, deleted: Boolean(response.deleted) }
+  }
+
   // === PAYOUT ELIGIBILITY ===
 
   async checkPayoutEligibility(creatorId: string) {
@@ -1463,6 +2482,10 @@ export class Soledgic {
         min_payout_amount: req.settings.minPayoutAmount,
         payout_schedule: req.settings.payoutSchedule,
         tax_withholding_percent: req.settings.taxWithholdingPercent,
+        backup_withholding_enabled: req.settings.backupWithholdingEnabled,
+        negative_balance_recovery_percent: req.settings.negativeBalanceRecoveryPercent,
+        negative_balance_block_payouts: req.settings.negativeBalanceBlockPayouts,
+        negative_balance_write_off_days: req.settings.negativeBalanceWriteOffDays,
         currency: req.settings.currency,
         fiscal_year_start: req.settings.fiscalYearStart,
         receipt_threshold: req.settings.receiptThreshold,
@@ -1498,6 +2521,7 @@ export class Soledgic {
       original_transaction_id: req.originalTransactionId,
       supporting_documentation: req.supportingDocumentation,
       prepared_by: req.preparedBy,
+      auto_reverse: req.autoReverse,
     })
   }
 
@@ -1511,6 +2535,7 @@ export class Soledgic {
         entity_id: b.entityId,
         balance: b.balance,
       })),
+      prepared_by: req.preparedBy,
     })
   }
 
@@ -1619,7 +2644,19 @@ export class Soledgic {
         transactionCount: response.calculation.transaction_count,
         requires1099: Boolean(response.calculation.requires_1099),
         monthlyTotals: response.calculation.monthly_totals || {},
-        threshold: response.calculation.threshold,
+        threshold: response.calculation.threshold ?? null,
+        forms: (response.calculation.forms || []).map((form: any) => ({
+          formType: form.form_type,
+          paymentCategory: form.payment_category,
+          formBox: form.form_box,
+          grossPayments: form.gross_payments,
+          transactionCount: form.transaction_count,
+          monthlyTotals: form.monthly_totals || {},
+          amountThreshold: form.amount_threshold,
+          transactionThreshold: form.transaction_threshold ?? null,
+          meetsThreshold: Boolean(form.meets_threshold),
+          backupWithheld: form.backup_withheld ?? 0,
+        })),
         linkedUserId: response.calculation.linked_user_id ?? null,
         sharedTaxProfile: response.calculation.shared_tax_profile
           ? {
@@ -1641,12 +2678,34 @@ export class Soledgic {
         created: response.generation.created,
         skipped: response.generation.skipped,
         totalAmount: response.generation.total_amount,
+        totalWithheld: response.generation.total_withheld ?? 0,
+        form1042s: {
+          created: response.generation.form_1042s?.created ?? 0,
+          totalAmount: response.generation.form_1042s?.total_amount ?? 0,
+          totalWithheld: response.generation.form_1042s?.total_withheld ?? 0,
+        },
       },
     }
   }
 
-  async listTaxDocuments(taxYear?: number): Promise<TaxDocumentsResponse> {
-    const response = await this.requestGet<any>('tax/documents', { tax_year: taxYear })
+  async listTaxFormThresholds(taxYear?: number): Promise<TaxFormThresholdsResponse> {
+    const response = await this.requestGet<any>('tax/thresholds', { tax_year: taxYear })
+    return {
+      success: response.success,
+      taxYear: response.tax_year,
+      thresholds: (response.thresholds || []).map((row: any) => ({
+        paymentCategory: row.payment_category,
+        formType: row.form_type,
+        formBox: row.form_box,
+        amountThreshold: row.amount_threshold,
+        transactionThreshold: row.transaction_threshold ?? null,
+        taxYearFrom: row.tax_year_from,
+      })),
+    }
+  }
+
+  async listTaxDocuments(taxYear?: number, formType?: TaxDocumentType): Promise<TaxDocumentsResponse> {
+    const response = await this.requestGet<any>('tax/documents', { tax_year: taxYear, form_type: formType })
     return {
       success: response.success,
       taxYear: response.tax_year,
@@ -1658,6 +2717,12 @@ export class Soledgic {
           exported: response.summary?.by_status?.exported ?? 0,
           filed: response.summary?.by_status?.filed ?? 0,
         },
+        byFormType: {
+          '1099-NEC': response.summary?.by_form_type?.['1099-NEC'] ?? 0,
+          '1099-K': response.summary?.by_form_type?.['1099-K'] ?? 0,
+          '1099-MISC': response.summary?.by_form_type?.['1099-MISC'] ?? 0,
+          '1042-S': response.summary?.by_form_type?.['1042-S'] ?? 0,
+        },
       },
       documents: response.documents || [],
     }
@@ -1763,6 +2828,138 @@ export class Soledgic {
     })
   }
 
+  // === TAX FILINGS ===
+
+  async createTaxFiling(params: CreateTaxFilingRequest): Promise<TaxFilingResponse> {
+    const response = await this.request<any>('tax/filings', {
+      tax_year: params.taxYear,
+      format: params.format,
+      form_type: params.formType,
+      test_file: params.testFile,
+      combined_federal_state: params.combinedFederalState,
+      payee_tins: params.payeeTins,
+      transmitter: params.transmitter ? {
+        tin: params.transmitter.tin,
+        tcc: params.transmitter.tcc,
+        name: params.transmitter.name,
+        contact_name: params.transmitter.contactName,
+        contact_phone: params.transmitter.contactPhone,
+        contact_email: params.transmitter.contactEmail,
+      } : undefined,
+      payer: params.payer,
+    })
+    return { success: response.success, filing: mapTaxFiling(response.filing) }
+  }
+
+  async listTaxFilings(taxYear?: number): Promise<TaxFilingsResponse> {
+    const response = await this.requestGet<any>('tax/filings', { tax_year: taxYear })
+    return {
+      success: response.success,
+      filings: (response.filings || []).map(mapTaxFiling),
+    }
+  }
+
+  async getTaxFiling(filingId: string): Promise<TaxFilingResponse> {
+    const response = await this.requestGet<any>(`tax/filings/${filingId}`)
+    return { success: response.success, filing: mapTaxFiling(response.filing) }
+  }
+
+  // === BACKUP WITHHOLDING ===
+
+  /** Participants whose backup withholding is active, or all with the given status. */
+  async listBackupWithholdingStates(status?: BackupWithholdingStatus): Promise<BackupWithholdingStatesResponse> {
+    const response = await this.requestGet<any>('tax/backup-withholding', { status })
+    return {
+      success: response.success,
+      states: (response.states || []).map(mapBackupWithholdingState),
+    }
+  }
+
+  async getBackupWithholdingState(participantId: string): Promise<BackupWithholdingStateResponse> {
+    const response = await this.requestGet<any>(`tax/backup-withholding/${encodeURIComponent(participantId)}`)
+    return {
+      success: response.success,
+      state: mapBackupWithholdingState(response.state),
+      notices: (response.notices || []).map(mapBackupWithholdingNotice),
+    }
+  }
+
+  /** status also accepts 'unresolved' (open and B-notice sent). */
+  async listBackupWithholdingNotices(options?: { status?: string; taxYear?: number }): Promise<BackupWithholdingNoticesResponse> {
+    const response = await this.requestGet<any>('tax/backup-withholding/notices', {
+      status: options?.status,
+      tax_year: options?.taxYear,
+    })
+    return {
+      success: response.success,
+      notices: (response.notices || []).map(mapBackupWithholdingNotice),
+      summary: {
+        total: response.summary?.total ?? 0,
+        bNoticeOverdue: response.summary?.b_notice_overdue ?? 0,
+        bNoticeDueSoon: response.summary?.b_notice_due_soon ?? 0,
+        withholdingActive: response.summary?.withholding_active ?? 0,
+      },
+    }
+  }
+
+  /** Import a CP2100 / CP2100A name/TIN mismatch list and start the B-notice clock. */
+  async importBackupWithholdingNotices(req: ImportBackupWithholdingNoticesRequest): Promise<ImportBackupWithholdingNoticesResponse> {
+    const response = await this.request<any>('tax/backup-withholding/notices/import', {
+      notice_date: req.noticeDate,
+      received_date: req.receivedDate,
+      notice_source: req.noticeSource,
+      rows: req.rows?.map((row) => ({
+        account_number: row.accountNumber,
+        participant_id: row.participantId,
+        name: row.name,
+        tin: row.tin,
+        tax_year: row.taxYear,
+      })),
+      csv: req.csv,
+    })
+    const result = response.import || {}
+    return {
+      success: response.success,
+      import: {
+        batchId: result.batch_id,
+        noticeDate: result.notice_date,
+        receivedDate: result.received_date,
+        bNoticeDueDate: result.b_notice_due_date,
+        withholdingStartDate: result.withholding_start_date,
+        imported: result.imported ?? 0,
+        secondNotices: result.second_notices ?? 0,
+        duplicates: result.duplicates ?? 0,
+        unmatched: (result.unmatched || []).map((row: any) => ({
+          row: row.row,
+          accountNumber: row.account_number,
+          name: row.name ?? null,
+        })),
+        errors: result.errors || [],
+      },
+      notices: (response.notices || []).map(mapBackupWithholdingNotice),
+    }
+  }
+
+  async markBNoticeSent(noticeId: string, sentAt?: string): Promise<BackupWithholdingNoticeResponse> {
+    const response = await this.request<any>(`tax/backup-withholding/notices/${noticeId}/b-notice-sent`, {
+      sent_at: sentAt,
+    })
+    return { success: response.success, notice: mapBackupWithholdingNotice(response.notice) }
+  }
+
+  /** Second notices only accept irs_validation, ssa_validation or notice_withdrawn. */
+  async resolveBackupWithholdingNotice(
+    noticeId: string,
+    resolution: BackupWithholdingNoticeResolution,
+  ): Promise<BackupWithholdingNoticeResponse> {
+    const response = await this.request<any>(`tax/backup-withholding/notices/${noticeId}/resolve`, { resolution })
+    return {
+      success: response.success,
+      notice: mapBackupWithholdingNotice(response.notice),
+      state: response.state ? mapBackupWithholdingState(response.state) : null,
+    }
+  }
+
   // === COMPLIANCE MONITORING ===
 
   async getComplianceOverview(options?: { days?: number; hours?: number }): Promise<ComplianceOverviewResponse> {
@@ -2155,6 +3352,12 @@ export class Soledgic {
     const response = await this.request<any>('checkout-sessions', {
       amount: req.amount,
       participant_id: req.participantId,
+      line_items: req.lineItems?.map((item) => ({
+        participant_id: item.participantId,
+        amount: item.amount,
+        product_id: item.productId,
+        product_name: item.productName,
+      })),
       currency: req.currency,
       product_id: req.productId,
       product_name: req.productName,
@@ -2188,9 +3391,29 @@ export class Soledgic {
               grossAmount: checkoutSession.breakdown.gross_amount,
               creatorAmount: checkoutSession.breakdown.creator_amount,
               platformAmount: checkoutSession.breakdown.platform_amount,
-              creatorPercent: checkoutSession.breakdown.creator_percent,
+              creatorPercent: checkoutSession.breakdown.creator_percent ?? null,
             }
           : null,
+        ...(Array.isArray(checkoutSession.line_items)
+          ? {
+              lineItems: checkoutSession.line_items.map((item: any) => ({
+                id: item.id ?? null,
+                position: item.position,
+                participantId: item.participant_id,
+                productId: item.product_id ?? null,
+                productName: item.product_name ?? null,
+                amount: item.amount,
+                referenceId: item.reference_id ?? null,
+                transactionId: item.transaction_id ?? null,
+                breakdown: {
+                  creatorAmount: item.breakdown?.creator_amount ?? 0,
+                  platformAmount: item.breakdown?.platform_amount ?? 0,
+                  soledgicFee: item.breakdown?.soledgic_fee ?? 0,
+                  creatorPercent: item.breakdown?.creator_percent ?? 0,
+                },
+              })),
+            }
+          : {}),
       },
     }
   }
@@ -2217,15 +3440,42 @@ export class Soledgic {
         grossAmount: payout.gross_amount ?? null,
         fees: payout.fees ?? null,
         netAmount: payout.net_amount ?? null,
+        backupWithholding: payout.backup_withholding ?? null,
         previousBalance: payout.previous_balance ?? null,
         newBalance: payout.new_balance ?? null,
       },
     }
   }
 
+  /**
+   * Record a bank return (R01, R03, ...) for a payout. Reverses the payout into
+   * the creator balance and, for account-level codes, flags the creator as
+   * needing new bank details.
+   */
+  async returnPayout(payoutId: string, req: ReturnPayoutRequest): Promise<PayoutReturnResponse> {
+    const response = await this.request<any>(`payouts/${encodeURIComponent(payoutId)}/return`, {
+      return_code: req.returnCode,
+      reason: req.reason,
+      returned_at: req.returnedAt,
+    })
+    const payoutReturn = response.payout_return || {}
+    return {
+      success: response.success,
+      created: Boolean(response.created),
+      payoutReturn: {
+        payoutId: payoutReturn.payout_id,
+        returnTransactionId: payoutReturn.return_transaction_id,
+        returnCode: payoutReturn.return_code,
+        returnReason: payoutReturn.return_reason ?? null,
+        requiresNewBankDetails: Boolean(payoutReturn.requires_new_bank_details),
+      },
+    }
+  }
+
   async createRefund(req: CreateRefundRequest): Promise<RefundResourceResponse> {
     const response = await this.request<any>('refunds', {
       sale_reference: req.saleReference,
+      line_item_id: req.lineItemId,
       reason: req.reason,
       amount: req.amount,
       refund_from: req.refundFrom,
@@ -2293,6 +3543,82 @@ export class Soledgic {
     }
   }
 
+  // === DISPUTES ===
+
+  async listDisputes(req: ListDisputesRequest = {}): Promise<{ success: boolean; disputes: Dispute[] }> {
+    const response = await this.requestGet<any>('disputes', {
+      status: req.status,
+      creator_id: req.creatorId,
+      sale_reference: req.saleReference,
+      limit: req.limit,
+    })
+    return {
+      success: response.success,
+      disputes: (response.disputes || []).map(mapDispute),
+    }
+  }
+
+  async getDispute(id: string): Promise<{ success: boolean; dispute: Dispute }> {
+    const response = await this.requestGet<any>(`disputes/${encodeURIComponent(id)}`)
+    return { success: response.success, dispute: mapDispute(response.dispute) }
+  }
+
+  async createDispute(req: CreateDisputeRequest): Promise<{ success: boolean; created: boolean; dispute: Dispute }> {
+    const response = await this.request<any>('disputes', {
+      dispute_id: req.disputeId,
+      amount: req.amount,
+      fee: req.fee,
+      sale_reference: req.saleReference,
+      creator_id: req.creatorId,
+      reason: req.reason,
+      evidence_due_by: req.evidenceDueBy,
+      currency: req.currency,
+      metadata: req.metadata,
+    })
+    return {
+      success: response.success,
+      created: Boolean(response.created),
+      dispute: mapDispute(response.dispute),
+    }
+  }
+
+  /** Attach evidence metadata. Pass `submit: false` to save a draft without changing status. */
+  async submitDisputeEvidence(
+    id: string,
+    evidence: Record<string, unknown>,
+    options?: { submit?: boolean },
+  ): Promise<{ success: boolean; dispute: Dispute }> {
+    const response = await this.request<any>(`disputes/${encodeURIComponent(id)}/evidence`, {
+      evidence,
+      submit: options?.submit,
+    })
+    return { success: response.success, dispute: mapDispute(response.dispute) }
+  }
+
+  async acceptDispute(id: string): Promise<{ success: boolean; changed: boolean; dispute: Dispute }> {
+    const response = await this.request<any>(`disputes/${encodeURIComponent(id)}/accept`, {})
+    return {
+      success: response.success,
+      changed: Boolean(response.changed),
+      dispute: mapDispute(response.dispute),
+    }
+  }
+
+  async recordDisputeOutcome(
+    id: string,
+    req: RecordDisputeOutcomeRequest,
+  ): Promise<{ success: boolean; changed: boolean; dispute: Dispute }> {
+    const response = await this.request<any>(`disputes/${encodeURIComponent(id)}/outcome`, {
+      outcome: req.outcome,
+      fee_refunded: req.feeRefunded,
+    })
+    return {
+      success: response.success,
+      changed: Boolean(response.changed),
+      dispute: mapDispute(response.dispute),
+    }
+  }
+
   // === INVOICES ===
 
   async createInvoice(req: CreateInvoiceRequest) {
@@ -2467,10 +3793,17 @@ export class Soledgic {
   async submitTaxInfo(req: SubmitTaxInfoRequest) {
     return this.request<any>('submit-tax-info', {
       participant_id: req.participantId,
+      form_type: req.formType,
       legal_name: req.legalName,
       tax_id_type: req.taxIdType,
       tax_id_last4: req.taxIdLast4,
       business_type: req.businessType,
+      foreign_tax_id_last4: req.foreignTaxIdLast4,
+      citizenship_country: req.citizenshipCountry,
+      treaty_country: req.treatyCountry,
+      treaty_article: req.treatyArticle,
+      treaty_rate_bps: req.treatyRateBps,
+      signed_at: req.signedAt,
       address: req.address ? {
         line1: req.address.line1,
         line2: req.address.line2,
@@ -3,7 +3,34 @@
  * Response mapping utilities
  */
 
-import type { WebhookEndpoint, WebhookDelivery } from './types'
+import type {
+  WebhookEndpoint,
+  WebhookDelivery,
+  Dispute,
+  SalesTaxNexus,
+  TaxFiling,
+  BackupWithholdingState,
+  BackupWithholdingNotice,
+  ReferralAttribution,
+  RevenueRecognitionSchedule,
+  RevenueSchedule,
+  RevenueScheduleLine,
+  CreatorDebt,
+  CreatorReceivableAging,
+  CreatorReserveSummary,
+  CreatorReserveTranche,
+  GiftCodeBatch,
+  PendingJournal,
+  JournalApprovalPolicy,
+  RecurringJournalInstance,
+  RecurringJournalTemplate,
+  FixedAsset,
+  FixedAssetDepreciationLine,
+  DepreciationSchedule,
+  SubscriptionPlan,
+  Subscription,
+  SubscriptionCharge,
+} from './types'
 
 export function mapWebhookEndpoint(endpoint: any): WebhookEndpoint {
   return {
@@ -61,3 +88,439 @@ export function mapWebhookDelivery(delivery: any): WebhookDelivery {
         : null,
   }
 }
+
+export function mapDispute(dispute: any): Dispute {
+  return {
+    id: String(dispute?.id ?? ''),
+    disputeId: String(dispute?.dispute_id ?? ''),
+    status: dispute?.status,
+    saleReference: dispute?.sale_reference ?? null,
+    saleTransactionId: dispute?.sale_transaction_id ?? null,
+    creatorId: String(dispute?.creator_id ?? ''),
+    amount: Number(dispute?.amount ?? 0),
+    fee: Number(dispute?.fee ?? 0),
+    currency: dispute?.currency ?? '',
+    reason: dispute?.reason ?? null,
+    evidence: dispute?.evidence && typeof dispute.evidence === 'object' ? dispute.evidence : {},
+    evidenceDueBy: dispute?.evidence_due_by ?? null,
+    evidenceSubmittedAt: dispute?.evidence_submitted_at ?? null,
+    chargebackTransactionId: dispute?.chargeback_transaction_id ?? null,
+    reversalTransactionId: dispute?.reversal_transaction_id ?? null,
+    feeRefunded: Boolean(dispute?.fee_refunded),
+    source: dispute?.source === 'processor' ? 'processor' : 'api',
+    resolvedAt: dispute?.resolved_at ?? null,
+    createdAt: dispute?.created_at ?? '',
+  }
+}
+
+export function mapSalesTaxNexus(nexus: any): SalesTaxNexus {
+  return {
+    id: String(nexus?.id ?? ''),
+    countryCode: nexus?.country_code ?? '',
+    stateCode: nexus?.state_code ?? null,
+    registrationNumber: nexus?.registration_number ?? null,
+    collectTax: nexus?.collect_tax !== false,
+    effectiveFrom: nexus?.effective_from ?? '',
+    effectiveTo: nexus?.effective_to ?? null,
+  }
+}
+
+export function mapTaxFiling(filing: any): TaxFiling {
+  return {
+    id: String(filing?.id ?? ''),
+    taxYear: Number(filing?.tax_year ?? 0),
+    format: filing?.format === 'iris' ? 'iris' : 'fire',
+    testFile: Boolean(filing?.test_file ?? filing?.is_test),
+    formTypes: filing?.form_types ?? [],
+    documentCount: Number(filing?.document_count ?? 0),
+    payeeCount: Number(filing?.payee_count ?? 0),
+    totalAmount: Number(filing?.total_amount ?? 0),
+    fileName: filing?.file_name ?? '',
+    fileHash: filing?.file_hash ?? '',
+    status: filing?.status ?? 'generated',
+    createdAt: filing?.created_at ?? null,
+    downloadUrl: filing?.download_url ?? null,
+    expiresInSeconds: filing?.expires_in_seconds ?? null,
+    documentsFiled: filing?.documents_filed ?? null,
+  }
+}
+
+export function mapBackupWithholdingState(state: any): BackupWithholdingState {
+  return {
+    participantId: String(state?.participant_id ?? ''),
+    status: state?.status ?? 'not_required',
+    active: Boolean(state?.active),
+    rateBps: Number(state?.rate_bps ?? 0),
+    noticeId: state?.notice_id ?? null,
+    activatedAt: state?.activated_at ?? null,
+    resolvedAt: state?.resolved_at ?? null,
+    withheldEarnings: Number(state?.withheld_earnings ?? 0),
+    updatedAt: state?.updated_at ?? null,
+  }
+}
+
+export function mapBackupWithholdingNotice(notice: any): BackupWithholdingNotice {
+  return {
+    id: String(notice?.id ?? ''),
+    participantId: String(notice?.participant_id ?? ''),
+    noticeSource: notice?.notice_source === 'cp2100a' ? 'cp2100a' : 'cp2100',
+    noticeDate: notice?.notice_date ?? '',
+    receivedDate: notice?.received_date ?? '',
+    taxYear: Number(notice?.tax_year ?? 0),
+    bNoticeType: notice?.b_notice_type === 'second' ? 'second' : 'first',
+    payeeName: notice?.payee_name ?? null,
+    tinLast4: notice?.tin_last4 ?? null,
+    status: notice?.status ?? 'open',
+    deadlineStatus: notice?.deadline_status ?? 'b_notice_due',
+    bNoticeDueDate: notice?.b_notice_due_date ?? '',
+    withholdingStartDate: notice?.withholding_start_date ?? '',
+    bNoticeSentAt: notice?.b_notice_sent_at ?? null,
+    resolvedAt: notice?.resolved_at ?? null,
+    resolution: notice?.resolution ?? null,
+    importBatchId: notice?.import_batch_id ?? null,
+    createdAt: notice?.created_at ?? null,
+  }
+}
+
+export function mapReferralAttribution(attribution: any): ReferralAttribution {
+  return {
+    id: String(attribution?.id ?? ''),
+    referrerId: String(attribution?.referrer_id ?? ''),
+    referredType: attribution?.referred_type === 'customer' ? 'customer' : 'creator',
+    referredId: String(attribution?.referred_id ?? ''),
+    commissionPercent: Number(attribution?.commission_percent ?? 0),
+    startsAt: attribution?.starts_at ?? '',
+    endsAt: attribution?.ends_at ?? null,
+    status: attribution?.status === 'ended' ? 'ended' : 'active',
+    metadata: attribution?.metadata ?? {},
+    createdAt: attribution?.created_at ?? '',
+  }
+}
+
+export function toRevenueScheduleBody(schedule: RevenueRecognitionSchedule) {
+  if (schedule.method === 'straight_line') {
+    return { method: schedule.method, months: schedule.months, start_date: schedule.startDate }
+  }
+  return {
+    method: schedule.method,
+    start_date: schedule.startDate,
+    milestones: schedule.milestones.map((milestone) => ({
+      name: milestone.name,
+      percent: milestone.percent,
+      recognize_on: milestone.recognizeOn,
+    })),
+  }
+}
+
+export function mapRevenueSchedule(schedule: any): RevenueSchedule {
+  return {
+    id: String(schedule?.id ?? ''),
+    sourceTransactionId: String(schedule?.source_transaction_id ?? ''),
+    deferralTransactionId: schedule?.deferral_transaction_id ?? null,
+    method: schedule?.method === 'milestone' ? 'milestone' : 'straight_line',
+    currency: String(schedule?.currency ?? ''),
+    totalAmount: Number(schedule?.total_amount ?? 0),
+    recognizedAmount: Number(schedule?.recognized_amount ?? 0),
+    unwoundAmount: Number(schedule?.unwound_amount ?? 0),
+    deferredBalance: Number(schedule?.deferred_balance ?? 0),
+    startDate: schedule?.start_date ?? '',
+    months: schedule?.months == null ? null : Number(schedule.months),
+    status: schedule?.status ?? 'active',
+    metadata: schedule?.metadata ?? {},
+    createdAt: schedule?.created_at ?? '',
+  }
+}
+
+export function mapRevenueScheduleLine(line: any): RevenueScheduleLine {
+  return {
+    lineNumber: Number(line?.line_number ?? 0),
+    name: line?.name ?? null,
+    recognizeOn: line?.recognize_on ?? null,
+    amount: Number(line?.amount ?? 0),
+    status: line?.status ?? 'pending',
+    recognizedAt: line?.recognized_at ?? null,
+    recognitionTransactionId: line?.recognition_transaction_id ?? null,
+  }
+}
+
+export function mapCreatorDebt(debt: any): CreatorDebt {
+  return {
+    id: String(debt?.id ?? ''),
+    creatorId: String(debt?.creator_id ?? ''),
+    sourceTransactionId: String(debt?.source_transaction_id ?? ''),
+    debtTransactionId: debt?.debt_transaction_id ?? null,
+    writeOffTransactionId: debt?.write_off_transaction_id ?? null,
+    currency: String(debt?.currency ?? ''),
+    amount: Number(debt?.amount ?? 0),
+    recoveredAmount: Number(debt?.recovered_amount ?? 0),
+    writtenOffAmount: Number(debt?.written_off_amount ?? 0),
+    outstandingAmount: Number(debt?.outstanding_amount ?? 0),
+    status: debt?.status ?? 'outstanding',
+    settledAt: debt?.settled_at ?? null,
+    metadata: debt?.metadata ?? {},
+    createdAt: debt?.created_at ?? '',
+  }
+}
+
+export function mapCreatorReceivableAging(row: any): CreatorReceivableAging {
+  return {
+    creatorId: String(row?.creator_id ?? ''),
+    debtCount: Number(row?.debt_count ?? 0),
+    outstanding: Number(row?.outstanding ?? 0),
+    current: Number(row?.current ?? 0),
+    days31To60: Number(row?.days_31_60 ?? 0),
+    days61To90: Number(row?.days_61_90 ?? 0),
+    daysOver90: Number(row?.days_over_90 ?? 0),
+    oldestDebtAt: row?.oldest_debt_at ?? null,
+  }
+}
+
+export function mapCreatorReserveSummary(row: any): CreatorReserveSummary {
+  return {
+    creatorId: String(row?.creator_id ?? ''),
+    reservePercent: row?.reserve_percent == null ? null : Number(row.reserve_percent),
+    holdDays: row?.hold_days == null ? null : Number(row.hold_days),
+    heldAmount: Number(row?.held_amount ?? 0),
+    heldTranches: Number(row?.held_tranches ?? 0),
+    releasedAmount: Number(row?.released_amount ?? 0),
+    nextReleaseAt: row?.next_release_at ?? null,
+    nextReleaseAmount: Number(row?.next_release_amount ?? 0),
+  }
+}
+
+export function mapCreatorReserveTranche(tranche: any): CreatorReserveTranche {
+  return {
+    id: String(tranche?.id ?? ''),
+    creatorId: String(tranche?.creator_id ?? ''),
+    saleTransactionId: String(tranche?.sale_transaction_id ?? ''),
+    holdTransactionId: tranche?.hold_transaction_id ?? null,
+    releaseTransactionId: tranche?.release_transaction_id ?? null,
+    currency: String(tranche?.currency ?? ''),
+    amount: Number(tranche?.amount ?? 0),
+    reservePercent: Number(tranche?.reserve_percent ?? 0),
+    releaseAt: tranche?.release_at ?? '',
+    status: tranche?.status === 'released' ? 'released' : 'held',
+    releasedAt: tranche?.released_at ?? null,
+    createdAt: tranche?.created_at ?? '',
+  }
+}
+
+export function mapGiftCodeBatch(batch: any): GiftCodeBatch {
+  return {
+    id: String(batch?.id ?? ''),
+    kind: batch?.kind === 'promo' ? 'promo' : 'gift_card',
+    name: String(batch?.name ?? ''),
+    denomination: Number(batch?.denomination ?? 0),
+    currency: String(batch?.currency ?? ''),
+    codeCount: Number(batch?.code_count ?? 0),
+    maxRedemptions: batch?.max_redemptions == null ? null : Number(batch.max_redemptions),
+    expiresAt: batch?.expires_at ?? null,
+    status: batch?.status === 'voided' ? 'voided' : 'active',
+    issueTransactionId: batch?.issue_transaction_id ?? null,
+    exportedAt: batch?.exported_at ?? null,
+    voidedAt: batch?.voided_at ?? null,
+  }
+}
+
+export function mapPendingJournal(journal: any): PendingJournal {
+  return {
+    id: String(journal?.id ?? ''),
+    journalType: journal?.journal_type,
+    status: journal?.status,
+    amount: Number(journal?.amount ?? 0),
+    currency: String(journal?.currency ?? ''),
+    summary: String(journal?.summary ?? ''),
+    preparedBy: String(journal?.prepared_by ?? ''),
+    preparedByUserId: journal?.prepared_by_user_id ?? null,
+    requiredRole: journal?.required_role,
+    decidedByUserId: journal?.decided_by_user_id ?? null,
+    decidedAt: journal?.decided_at ?? null,
+    decisionReason: journal?.decision_reason ?? null,
+    transactionId: journal?.transaction_id ?? null,
+    postedAt: journal?.posted_at ?? null,
+    postingError: journal?.posting_error ?? null,
+    postingAttempts: Number(journal?.posting_attempts ?? 0),
+    createdAt: String(journal?.created_at ?? ''),
+  }
+}
+
+export function mapJournalApprovalPolicy(policy: any): JournalApprovalPolicy {
+  return {
+    id: String(policy?.id ?? ''),
+    journalType: policy?.journal_type,
+    thresholdAmount: Number(policy?.threshold_amount ?? 0),
+    requiredRole: policy?.required_role,
+    isActive: policy?.is_active !== false,
+    updatedBy: policy?.updated_by ?? null,
+    updatedAt: policy?.updated_at ?? null,
+  }
+}
+
+export function mapRecurringJournalTemplate(template: any): RecurringJournalTemplate {
+  return {
+    id: String(template?.id ?? ''),
+    name: String(template?.name ?? ''),
+    adjustmentType: template?.adjustment_type,
+    reason: String(template?.reason ?? ''),
+    entries: (template?.entries || []).map((entry: any) => ({
+      accountType: String(entry?.account_type ?? ''),
+      entityId: entry?.entity_id ?? null,
+      entryType: entry?.entry_type,
+      amount: Number(entry?.amount ?? 0),
+    })),
+    amount: Number(template?.amount ?? 0),
+    currency: String(template?.currency ?? ''),
+    recurrenceInterval: template?.recurrence_interval,
+    startDate: String(template?.start_date ?? ''),
+    endDate: template?.end_date ?? null,
+    nextRunDate: template?.next_run_date ?? null,
+    autoReverse: template?.auto_reverse === true,
+    status: template?.status,
+    preparedBy: String(template?.prepared_by ?? ''),
+    occurrencesPosted: Number(template?.occurrences_posted ?? 0),
+    rootTransactionId: template?.root_transaction_id ?? null,
+    lastTransactionId: template?.last_transaction_id ?? null,
+    lastRunAt: template?.last_run_at ?? null,
+    lastError: template?.last_error ?? null,
+    createdAt: String(template?.created_at ?? ''),
+  }
+}
+
+export function mapRecurringJournalInstance(instance: any): RecurringJournalInstance {
+  return {
+    adjustmentId: String(instance?.adjustment_id ?? ''),
+    transactionId: String(instance?.transaction_id ?? ''),
+    adjustmentDate: String(instance?.adjustment_date ?? ''),
+    autoReverseOn: instance?.auto_reverse_on ?? null,
+    reversalTransactionId: instance?.reversal_transaction_id ?? null,
+    reversedAt: instance?.reversed_at ?? null,
+  }
+}
+
+export function mapFixedAsset(asset: any): FixedAsset {
+  return {
+    id: String(asset?.id ?? ''),
+    name: String(asset?.name ?? ''),
+    category: asset?.category ?? null,
+    description: asset?.description ?? null,
+    currency: String(asset?.currency ?? ''),
+    cost: Number(asset?.cost ?? 0),
+    salvageValue: Number(asset?.salvage_value ?? 0),
+    acquisitionDate: String(asset?.acquisition_date ?? ''),
+    usefulLifeMonths: Number(asset?.useful_life_months ?? 0),
+    method: asset?.method,
+    decliningFactor: asset?.declining_factor ?? null,
+    fundingAccountType: String(asset?.funding_account_type ?? ''),
+    accumulatedDepreciation: Number(asset?.accumulated_depreciation ?? 0),
+    netBookValue: Number(asset?.net_book_value ?? 0),
+    status: asset?.status,
+    acquisitionTransactionId: asset?.acquisition_transaction_id ?? null,
+    lastDepreciatedOn: asset?.last_depreciated_on ?? null,
+    lastError: asset?.last_error ?? null,
+    disposalDate: asset?.disposal_date ?? null,
+    disposalProceeds: asset?.disposal_proceeds ?? null,
+    disposalGainLoss: asset?.disposal_gain_loss ?? null,
+    disposalTransactionId: asset?.disposal_transaction_id ?? null,
+    createdAt: String(asset?.created_at ?? ''),
+  }
+}
+
+export function mapFixedAssetDepreciationLine(line: any): FixedAssetDepreciationLine {
+  return {
+    lineNumber: Number(line?.line_number ?? 0),
+    depreciateOn: String(line?.depreciate_on ?? ''),
+    amount: Number(line?.amount ?? 0),
+    bookValueAfter: Number(line?.book_value_after ?? 0),
+    status: line?.status,
+    postedAt: line?.posted_at ?? null,
+    transactionId: line?.transaction_id ?? null,
+  }
+}
+
+export function mapDepreciationSchedule(schedule: any): DepreciationSchedule {
+  const totals = schedule?.totals || {}
+  return {
+    startDate: String(schedule?.start_date ?? ''),
+    endDate: String(schedule?.end_date ?? ''),
+    assets: (schedule?.assets || []).map((asset: any) => ({
+      assetId: String(asset?.asset_id ?? ''),
+      name: String(asset?.name ?? ''),
+      category: asset?.category ?? null,
+      method: asset?.method,
+      status: asset?.status,
+      openingBookValue: Number(asset?.opening_book_value ?? 0),
+      additions: Number(asset?.additions ?? 0),
+      depreciation: Number(asset?.depreciation ?? 0),
+      depreciationPosted: Number(asset?.depreciation_posted ?? 0),
+      disposals: Number(asset?.disposals ?? 0),
+      closingBookValue: Number(asset?.closing_book_value ?? 0),
+    })),
+    months: (schedule?.months || []).map((month: any) => ({
+      month: String(month?.month ?? ''),
+      depreciation: Number(month?.depreciation ?? 0),
+    })),
+    totals: {
+      openingBookValue: Number(totals.opening_book_value ?? 0),
+      additions: Number(totals.additions ?? 0),
+      depreciation: Number(totals.depreciation ?? 0),
+      disposals: Number(totals.disposals ?? 0),
+      closingBookValue: Number(totals.closing_book_value ?? 0),
+    },
+  }
+}
+
+export function mapSubscriptionPlan(plan: any): SubscriptionPlan {
+  return {
+    id: String(plan?.id ?? ''),
+    participantId: String(plan?.participant_id ?? ''),
+    productId: plan?.product_id ?? null,
+    name: String(plan?.name ?? ''),
+    amount: Number(plan?.amount ?? 0),
+    currency: String(plan?.currency ?? ''),
+    interval: plan?.interval ?? 'month',
+    intervalCount: Number(plan?.interval_count ?? 1),
+    revenueRecognition: plan?.revenue_recognition === 'ratable' ? 'ratable' : 'immediate',
+    status: plan?.status === 'archived' ? 'archived' : 'active',
+    metadata: plan?.metadata ?? {},
+    createdAt: plan?.created_at ?? '',
+  }
+}
+
+export function mapSubscription(subscription: any): Subscription {
+  return {
+    id: String(subscription?.id ?? ''),
+    planId: String(subscription?.plan_id ?? ''),
+    participantId: String(subscription?.participant_id ?? ''),
+    buyerId: String(subscription?.buyer_id ?? ''),
+    customerEmail: subscription?.customer_email ?? null,
+    status: subscription?.status ?? 'incomplete',
+    currentPeriodStart: subscription?.current_period_start ?? '',
+    currentPeriodEnd: subscription?.current_period_end ?? '',
+    cancelAtPeriodEnd: Boolean(subscription?.cancel_at_period_end),
+    canceledAt: subscription?.canceled_at ?? null,
+    cancelReason: subscription?.cancel_reason ?? null,
+    creditBalance: Number(subscription?.credit_balance ?? 0),
+    failedAttempts: Number(subscription?.failed_attempts ?? 0),
+    nextRetryAt: subscription?.next_retry_at ?? null,
+    metadata: subscription?.metadata ?? {},
+    createdAt: subscription?.created_at ?? '',
+  }
+}
+
+export function mapSubscriptionCharge(charge: any): SubscriptionCharge {
+  return {
+    id: String(charge?.id ?? ''),
+    kind: charge?.kind ?? 'renewal',
+    periodStart: charge?.period_start ?? '',
+    periodEnd: charge?.period_end ?? '',
+    amount: Number(charge?.amount ?? 0),
+    creditApplied: Number(charge?.credit_applied ?? 0),
+    currency: String(charge?.currency ?? ''),
+    attempt: Number(charge?.attempt ?? 1),
+    status: charge?.status ?? 'pending',
+    paymentId: charge?.payment_id ?? null,
+    saleTransactionId: charge?.sale_transaction_id ?? null,
+    failureReason: charge?.failure_reason ?? null,
+    createdAt: charge?.created_at ?? '',
+  }
+}
@@ -248,6 +248,22 @@ describe('Soledgic SDK', () => {
     expect(body.metadata).toEqual({ source: 'test' })
   })
 
+  it('recordSale sends currency and fx_rate for foreign sales', async () => {
+    const fn = mockFetch({ success: true, transaction_id: 'txn_1' })
+    const sdk = createClient(fn)
+    await sdk.recordSale({
+      referenceId: 'order_eur',
+      creatorId: 'c_1',
+      amount: 5000,
+      currency: 'EUR',
+      fxRate: 1.0842,
+    })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(body.currency).toBe('EUR')
+    expect(body.fx_rate).toBe(1.0842)
+  })
+
   // === RECORD INCOME / EXPENSE / BILL ===
 
   it('recordIncome maps to snake_case', async () => {
@@ -335,6 +351,54 @@ describe('Soledgic SDK', () => {
     })
   })
 
+  it('createCheckoutSession sends line items and maps their splits', async () => {
+    const fn = mockFetch({
+      success: true,
+      checkout_session: {
+        id: 'sess_cart',
+        mode: 'session',
+        checkout_url: 'https://pay.example.com/sess_cart',
+        amount: 12000,
+        breakdown: { gross_amount: 120, creator_amount: 83.95, platform_amount: 31.85, creator_percent: null },
+        line_items: [
+          {
+            id: 'li_1',
+            position: 1,
+            participant_id: 'c_1',
+            product_id: 'prod_a',
+            product_name: 'Preset pack',
+            amount: 10000,
+            reference_id: null,
+            transaction_id: null,
+            breakdown: { creator_amount: 67.55, platform_amount: 28.95, soledgic_fee: 3.5, creator_percent: 70 },
+          },
+        ],
+      },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.createCheckoutSession({
+      lineItems: [
+        { participantId: 'c_1', productId: 'prod_a', productName: 'Preset pack', amount: 10000 },
+        { participantId: 'c_2', amount: 2000 },
+      ],
+      successUrl: 'https://example.com/success',
+    })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(body.participant_id).toBeUndefined()
+    expect(body.line_items).toEqual([
+      { participant_id: 'c_1', amount: 10000, product_id: 'prod_a', product_name: 'Preset pack' },
+      { participant_id: 'c_2', amount: 2000 },
+    ])
+    expect(result.checkoutSession.breakdown?.creatorPercent).toBeNull()
+    expect(result.checkoutSession.lineItems?.[0]).toMatchObject({
+      id: 'li_1',
+      participantId: 'c_1',
+      productId: 'prod_a',
+      breakdown: { creatorAmount: 67.55, creatorPercent: 70 },
+    })
+  })
+
   // === REFUNDS ===
 
   it('createRefund maps snake_case response to camelCase', async () => {
@@ -355,9 +419,12 @@ describe('Soledgic SDK', () => {
     const sdk = createClient(fn)
     const result = await sdk.createRefund({
       saleReference: 'order_1',
+      lineItemId: 'li_2',
       reason: 'Returned',
     })
 
+    expect(JSON.parse(fn.mock.calls[0][1].body).line_item_id).toBe('li_2')
+
     expect(result.refund.transactionId).toBe('txn_r1')
     expect(result.refund.refundedAmount).toBe(5000)
     expect(result.refund.breakdown?.fromCreator).toBe(4000)
@@ -767,6 +834,296 @@ describe('Soledgic SDK', () => {
     expect(fn.mock.calls[0][0]).toContain('/close-period')
   })
 
+  it('closeFiscalYear sends fiscal_year and maps the closing entries', async () => {
+    const fn = mockFetch({
+      success: true,
+      period_id: 'period_fy',
+      period: { start_date: '2025-07-01', end_date: '2026-06-30', status: 'locked' },
+      snapshot: { snapshot_id: 'snap_1', total_debits: 500, total_credits: 500, is_balanced: true },
+      closing: {
+        transaction_id: 'txn_close',
+        retained_earnings_account_id: 'acct_re',
+        net_income: 1250.5,
+        accounts_closed: 4,
+      },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.closeFiscalYear(2026, 'FY2026 year-end')
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(fn.mock.calls[0][0]).toContain('/close-period')
+    expect(body).toEqual({ year: 2026, fiscal_year: true, notes: 'FY2026 year-end' })
+    expect(result.close).toEqual({
+      periodId: 'period_fy',
+      fiscalYear: 2026,
+      startDate: '2025-07-01',
+      endDate: '2026-06-30',
+      status: 'locked',
+      closingTransactionId: 'txn_close',
+      retainedEarningsAccountId: 'acct_re',
+      netIncome: 1250.5,
+      accountsClosed: 4,
+    })
+  })
+
+  it('reverseTransaction returns the pending journal when approval is required', async () => {
+    const fn = mockFetch({
+      success: true,
+      status: 'pending_approval',
+      pending_journal: {
+        id: 'pj_1',
+        journal_type: 'reversal',
+        status: 'pending',
+        amount: 250000,
+        currency: 'USD',
+        summary: 'Reverse sale_1: Duplicate charge',
+        prepared_by: 'ops@example.com',
+        prepared_by_user_id: null,
+        required_role: 'admin',
+        created_at: '2026-10-01T12:00:00Z',
+      },
+    }, 202)
+    const sdk = createClient(fn)
+    const result = await sdk.reverseTransaction({
+      transactionId: 'txn_big',
+      reason: 'Duplicate charge',
+      preparedBy: 'ops@example.com',
+    })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(body.prepared_by).toBe('ops@example.com')
+    expect(result.reversalId).toBeNull()
+    expect(result.pendingJournal).toMatchObject({
+      id: 'pj_1',
+      journalType: 'reversal',
+      status: 'pending',
+      amount: 250000,
+      preparedBy: 'ops@example.com',
+      requiredRole: 'admin',
+      transactionId: null,
+    })
+  })
+
+  it('listPendingJournals sends filters and maps journals and policies', async () => {
+    const fn = mockFetch({
+      success: true,
+      pending_journals: [{
+        id: 'pj_2',
+        journal_type: 'adjustment',
+        status: 'posted',
+        amount: 1500000,
+        currency: 'USD',
+        summary: 'correction: Reclass Q3 revenue',
+        prepared_by: 'controller',
+        required_role: 'owner',
+        decided_by_user_id: 'user_2',
+        decided_at: '2026-10-02T09:00:00Z',
+        transaction_id: 'txn_adj',
+        posted_at: '2026-10-02T09:00:01Z',
+        created_at: '2026-10-01T12:00:00Z',
+      }],
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.listPendingJournals({ status: 'posted', journalType: 'adjustment' })
+
+    const url = new URL(fn.mock.calls[0][0])
+    expect(url.pathname).toContain('/pending-journals')
+    expect(url.searchParams.get('status')).toBe('posted')
+    expect(url.searchParams.get('journal_type')).toBe('adjustment')
+    expect(result.pendingJournals[0]).toMatchObject({
+      journalType: 'adjustment',
+      decidedByUserId: 'user_2',
+      transactionId: 'txn_adj',
+      postingError: null,
+    })
+
+    const policyFn = mockFetch({
+      success: true,
+      policies: [{ id: 'pol_1', journal_type: 'adjustment', threshold_amount: 1000000, required_role: 'owner', is_active: true }],
+    })
+    const policies = await createClient(policyFn).listJournalApprovalPolicies()
+    expect(policies.policies).toEqual([{
+      id: 'pol_1',
+      journalType: 'adjustment',
+      thresholdAmount: 1000000,
+      requiredRole: 'owner',
+      isActive: true,
+      updatedBy: null,
+      updatedAt: null,
+    }])
+  })
+
+  it('runFxRevaluation sends rates and maps the result', async () => {
+    const fn = mockFetch({
+      success: true,
+      run_id: 'run_1',
+      transaction_id: 'txn_fx',
+      as_of_date: '2026-03-31',
+      functional_currency: 'USD',
+      rates: { EUR: 1.09 },
+      unrealized_gain_loss: 12.5,
+      realized_gain_loss: 0,
+      positions_revalued: 2,
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.runFxRevaluation({ asOfDate: '2026-03-31', rates: { EUR: 1.09 } })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(fn.mock.calls[0][0]).toContain('/fx-revaluation')
+    expect(body.as_of_date).toBe('2026-03-31')
+    expect(body.rates).toEqual({ EUR: 1.09 })
+    expect(result.revaluation.runId).toBe('run_1')
+    expect(result.revaluation.unrealizedGainLoss).toBe(12.5)
+    expect(result.revaluation.positionsRevalued).toBe(2)
+  })
+
+  it('pushFxRates snake-cases each rate', async () => {
+    const fn = mockFetch({ success: true, stored: 1 })
+    const sdk = createClient(fn)
+    const result = await sdk.pushFxRates([
+      { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.0842, effectiveDate: '2026-04-01' },
+    ])
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(fn.mock.calls[0][0]).toContain('/fx-rates')
+    expect(body.rates).toEqual([
+      { base_currency: 'EUR', quote_currency: 'USD', rate: 1.0842, effective_date: '2026-04-01' },
+    ])
+    expect(result.stored).toBe(1)
+  })
+
+  it('lookupFxRate uses GET and maps the quote', async () => {
+    const fn = mockFetch({
+      success: true,
+      from: 'GBP',
+      to: 'USD',
+      date: '2026-04-03',
+      rate: 1.27,
+      effective_date: '2026-04-01',
+      method: 'cross',
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.lookupFxRate('GBP', 'USD', '2026-04-03')
+
+    const [url, opts] = fn.mock.calls[0]
+    expect(opts.method).toBe('GET')
+    expect(url).toContain('/fx-rates/lookup')
+    expect(url).toContain('from=GBP')
+    expect(result.quote.effectiveDate).toBe('2026-04-01')
+    expect(result.quote.method).toBe('cross')
+  })
+
+  it('calculateSalesTax snake-cases the request and maps the quote', async () => {
+    const fn = mockFetch({
+      success: true,
+      collect: false,
+      subtotal_amount: 1000,
+      total_amount: 1000,
+      tax_cents: 0,
+      rate_bps: 0,
+      jurisdiction_code: 'DE',
+      jurisdiction_name: 'Germany',
+      tax_type: 'vat',
+      reverse_charge: true,
+      reason: 'reverse_charge',
+      as_of: '2026-04-17',
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.calculateSalesTax({ amount: 1000, customerCountry: 'DE', customerTaxId: 'DE123456789' })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(fn.mock.calls[0][0]).toContain('/sales-tax/calculate')
+    expect(body.customer_country).toBe('DE')
+    expect(body.customer_tax_id).toBe('DE123456789')
+    expect(result.quote.reverseCharge).toBe(true)
+    expect(result.quote.taxAmount).toBe(0)
+    expect(result.quote.jurisdictionCode).toBe('DE')
+  })
+
+  it('upsertSalesTaxNexus snake-cases each registration', async () => {
+    const fn = mockFetch({
+      success: true,
+      nexus: [{ id: 'nx_1', country_code: 'US', state_code: 'NY', registration_number: null, collect_tax: true, effective_from: '2026-01-01', effective_to: null }],
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.upsertSalesTaxNexus([{ countryCode: 'US', stateCode: 'NY', effectiveFrom: '2026-01-01' }])
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(body.nexus[0]).toMatchObject({ country_code: 'US', state_code: 'NY', effective_from: '2026-01-01' })
+    expect(result.nexus[0].stateCode).toBe('NY')
+    expect(result.nexus[0].collectTax).toBe(true)
+  })
+
+  it('createDispute snake-cases the request and maps the dispute', async () => {
+    const fn = mockFetch({
+      success: true,
+      created: true,
+      dispute: {
+        id: 'd_1',
+        dispute_id: 'dp_123',
+        status: 'open',
+        sale_reference: 'sale_1',
+        creator_id: 'creator_1',
+        amount: 25,
+        fee: 15,
+        currency: 'USD',
+        evidence: {},
+        chargeback_transaction_id: 'txn_cb',
+        fee_refunded: false,
+        source: 'api',
+        created_at: '2026-04-13T00:00:00Z',
+      },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.createDispute({ disputeId: 'dp_123', amount: 2500, fee: 1500, saleReference: 'sale_1' })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(fn.mock.calls[0][0]).toContain('/disputes')
+    expect(body.dispute_id).toBe('dp_123')
+    expect(body.sale_reference).toBe('sale_1')
+    expect(result.created).toBe(true)
+    expect(result.dispute.chargebackTransactionId).toBe('txn_cb')
+    expect(result.dispute.reversalTransactionId).toBeNull()
+  })
+
+  it('recordDisputeOutcome posts to the outcome sub-resource', async () => {
+    const fn = mockFetch({
+      success: true,
+      changed: true,
+      dispute: { id: 'd_1', status: 'won', fee_refunded: true, reversal_transaction_id: 'txn_rev' },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.recordDisputeOutcome('d_1', { outcome: 'won', feeRefunded: true })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(fn.mock.calls[0][0]).toContain('/disputes/d_1/outcome')
+    expect(body).toEqual({ outcome: 'won', fee_refunded: true })
+    expect(result.dispute.status).toBe('won')
+    expect(result.dispute.feeRefunded).toBe(true)
+  })
+
+  it('returnPayout posts the return code to the payout return sub-resource', async () => {
+    const fn = mockFetch({
+      success: true,
+      created: true,
+      payout_return: {
+        payout_id: 'po_1',
+        return_transaction_id: 'txn_ret',
+        return_code: 'R03',
+        return_reason: 'No account / unable to locate account',
+        requires_new_bank_details: true,
+      },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.returnPayout('po_1', { returnCode: 'R03' })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(fn.mock.calls[0][0]).toContain('/payouts/po_1/return')
+    expect(body.return_code).toBe('R03')
+    expect(result.payoutReturn.returnTransactionId).toBe('txn_ret')
+    expect(result.payoutReturn.requiresNewBankDetails).toBe(true)
+  })
+
   it('listPeriods sends correct action', async () => {
     const fn = mockFetch({ success: true, periods: [] })
     const sdk = createClient(fn)
@@ -1382,6 +1739,205 @@ describe('Soledgic SDK', () => {
     expect(body.prepared_by).toBe('admin')
   })
 
+  it('recordAdjustment sends auto_reverse for accruals', async () => {
+    const fn = mockFetch({ success: true, transaction_id: 'txn_1', adjustment_id: 'adj_1', auto_reverse_on: '2026-11-01' })
+    const sdk = createClient(fn)
+    await sdk.recordAdjustment({
+      adjustmentType: 'accrual',
+      adjustmentDate: '2026-10-31',
+      entries: [
+        { accountType: 'expense', entryType: 'debit', amount: 250000 },
+        { accountType: 'accounts_payable', entryType: 'credit', amount: 250000 },
+      ],
+      reason: 'October rent',
+      preparedBy: 'controller',
+      autoReverse: true,
+    })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(body.adjustment_type).toBe('accrual')
+    expect(body.auto_reverse).toBe(true)
+  })
+
+  // === RECURRING JOURNALS ===
+
+  it('createRecurringJournal maps the template both ways', async () => {
+    const fn = mockFetch({
+      success: true,
+      template: {
+        id: 'rjt_1',
+        name: 'Office rent',
+        adjustment_type: 'accrual',
+        reason: 'Monthly rent accrual',
+        entries: [
+          { account_type: 'expense', entity_id: null, entry_type: 'debit', amount: 250000 },
+          { account_type: 'accounts_payable', entity_id: null, entry_type: 'credit', amount: 250000 },
+        ],
+        amount: 250000,
+        currency: 'USD',
+        recurrence_interval: 'monthly',
+        start_date: '2026-10-31',
+        end_date: null,
+        next_run_date: '2026-10-31',
+        auto_reverse: true,
+        status: 'active',
+        prepared_by: 'controller',
+        occurrences_posted: 0,
+        created_at: '2026-10-19T12:00:00Z',
+      },
+    }, 201)
+    const sdk = createClient(fn)
+    const result = await sdk.createRecurringJournal({
+      name: 'Office rent',
+      adjustmentType: 'accrual',
+      reason: 'Monthly rent accrual',
+      entries: [
+        { accountType: 'expense', entryType: 'debit', amount: 250000 },
+        { accountType: 'accounts_payable', entryType: 'credit', amount: 250000 },
+      ],
+      recurrenceInterval: 'monthly',
+      startDate: '2026-10-31',
+      autoReverse: true,
+      preparedBy: 'controller',
+    })
+
+    expect(fn.mock.calls[0][0]).toContain('/recurring-journals')
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(body.recurrence_interval).toBe('monthly')
+    expect(body.entries[1]).toEqual({ account_type: 'accounts_payable', entry_type: 'credit', amount: 250000 })
+    expect(body.auto_reverse).toBe(true)
+    expect(result.template).toMatchObject({
+      id: 'rjt_1',
+      adjustmentType: 'accrual',
+      amount: 250000,
+      nextRunDate: '2026-10-31',
+      autoReverse: true,
+      occurrencesPosted: 0,
+      rootTransactionId: null,
+      lastError: null,
+    })
+    expect(result.template.entries[0]).toEqual({ accountType: 'expense', entityId: null, entryType: 'debit', amount: 250000 })
+  })
+
+  it('getRecurringJournal maps posted instances and their reversals', async () => {
+    const fn = mockFetch({
+      success: true,
+      template: { id: 'rjt_1', status: 'active', entries: [], occurrences_posted: 1, root_transaction_id: 'txn_1' },
+      upcoming_run_dates: ['2026-11-30', '2026-12-31'],
+      instances: [{
+        adjustment_id: 'adj_1',
+        transaction_id: 'txn_1',
+        adjustment_date: '2026-10-31',
+        auto_reverse_on: '2026-11-01',
+        reversal_transaction_id: 'txn_rev',
+        reversed_at: '2026-11-01T00:05:00Z',
+      }],
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.getRecurringJournal('rjt_1')
+
+    expect(fn.mock.calls[0][1].method).toBe('GET')
+    expect(fn.mock.calls[0][0]).toContain('/recurring-journals/rjt_1')
+    expect(result.template.rootTransactionId).toBe('txn_1')
+    expect(result.upcomingRunDates).toEqual(['2026-11-30', '2026-12-31'])
+    expect(result.instances).toEqual([{
+      adjustmentId: 'adj_1',
+      transactionId: 'txn_1',
+      adjustmentDate: '2026-10-31',
+      autoReverseOn: '2026-11-01',
+      reversalTransactionId: 'txn_rev',
+      reversedAt: '2026-11-01T00:05:00Z',
+    }])
+  })
+
+  it('createFixedAsset sends cents and maps the schedule', async () => {
+    const fn = mockFetch({
+      success: true,
+      asset: {
+        id: 'fa_1',
+        name: 'Engineering laptops',
+        cost: 360000,
+        salvage_value: 60000,
+        acquisition_date: '2026-01-15',
+        useful_life_months: 36,
+        method: 'declining_balance',
+        declining_factor: 2,
+        funding_account_type: 'accounts_payable',
+        accumulated_depreciation: 180000,
+        net_book_value: 180000,
+        status: 'active',
+        acquisition_transaction_id: 'txn_acq',
+      },
+      lines: [{ line_number: 1, depreciate_on: '2026-01-31', amount: 20000, book_value_after: 340000, status: 'posted', transaction_id: 'txn_dep' }],
+    }, 201)
+    const sdk = createClient(fn)
+    const result = await sdk.createFixedAsset({
+      name: 'Engineering laptops',
+      cost: 360000,
+      salvageValue: 60000,
+      acquisitionDate: '2026-01-15',
+      usefulLifeMonths: 36,
+      method: 'declining_balance',
+      fundingAccountType: 'accounts_payable',
+    })
+
+    expect(fn.mock.calls[0][0]).toContain('/fixed-assets')
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(body).toMatchObject({ cost: 360000, salvage_value: 60000, useful_life_months: 36, funding_account_type: 'accounts_payable' })
+    expect(result.asset).toMatchObject({ decliningFactor: 2, netBookValue: 180000, acquisitionTransactionId: 'txn_acq', disposalGainLoss: null })
+    expect(result.lines[0]).toEqual({
+      lineNumber: 1,
+      depreciateOn: '2026-01-31',
+      amount: 20000,
+      bookValueAfter: 340000,
+      status: 'posted',
+      postedAt: null,
+      transactionId: 'txn_dep',
+    })
+  })
+
+  it('disposeFixedAsset returns the gain or loss', async () => {
+    const fn = mockFetch({
+      success: true,
+      asset: { id: 'fa_1', status: 'disposed', net_book_value: 0, disposal_gain_loss: -30000 },
+      lines: [],
+      disposal: { transaction_id: 'txn_disp', accumulated_depreciation: 200000, net_book_value: 160000, proceeds: 130000, gain_loss: -30000 },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.disposeFixedAsset('fa_1', { disposalDate: '2026-10-01', proceeds: 130000 })
+
+    expect(fn.mock.calls[0][0]).toContain('/fixed-assets/fa_1/dispose')
+    expect(JSON.parse(fn.mock.calls[0][1].body)).toEqual({ disposal_date: '2026-10-01', proceeds: 130000 })
+    expect(result.asset.disposalGainLoss).toBe(-30000)
+    expect(result.disposal).toEqual({
+      transactionId: 'txn_disp',
+      accumulatedDepreciation: 200000,
+      netBookValue: 160000,
+      proceeds: 130000,
+      gainLoss: -30000,
+    })
+  })
+
+  it('getDepreciationSchedule maps the roll-forward', async () => {
+    const fn = mockFetch({
+      success: true,
+      schedule: {
+        start_date: '2026-01-01',
+        end_date: '2026-12-31',
+        assets: [{ asset_id: 'fa_1', name: 'Server', method: 'straight_line', status: 'active', opening_book_value: 100000, additions: 0, depreciation: 30000, depreciation_posted: 20000, disposals: 0, closing_book_value: 70000 }],
+        months: [{ month: '2026-01', depreciation: 10000 }],
+        totals: { opening_book_value: 100000, additions: 0, depreciation: 30000, disposals: 0, closing_book_value: 70000 },
+      },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.getDepreciationSchedule({ startDate: '2026-01-01', endDate: '2026-12-31' })
+
+    expect(fn.mock.calls[0][0]).toContain('/fixed-assets/schedule?start_date=2026-01-01&end_date=2026-12-31')
+    expect(result.schedule.assets[0]).toMatchObject({ assetId: 'fa_1', depreciationPosted: 20000 })
+    expect(result.schedule.months).toEqual([{ month: '2026-01', depreciation: 10000 }])
+    expect(result.schedule.totals.closingBookValue).toBe(70000)
+  })
+
   // === FRAUD / TAX / COMPLIANCE ROUTING ===
 
   it('listFraudPolicies uses fraud policies GET route', async () => {
@@ -1858,6 +2414,199 @@ describe('Soledgic SDK', () => {
     expect(result.documents).toHaveLength(1)
   })
 
+  it('listTaxDocuments filters by form type and maps byFormType', async () => {
+    const fn = mockFetch({
+      success: true,
+      tax_year: 2025,
+      summary: { total_documents: 2, total_amount: 25045, by_form_type: { '1099-K': 1, '1099-MISC': 1 } },
+      documents: [],
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.listTaxDocuments(2025, '1099-K')
+
+    expect(String(fn.mock.calls[0][0])).toContain('form_type=1099-K')
+    expect(result.summary.byFormType).toEqual({ '1099-NEC': 0, '1099-K': 1, '1099-MISC': 1, '1042-S': 0 })
+  })
+
+  it('generateAllTaxDocuments maps the 1042-S counters', async () => {
+    const fn = mockFetch({
+      success: true,
+      generation: {
+        tax_year: 2025,
+        created: 4,
+        skipped: 0,
+        total_amount: 9000,
+        total_withheld: 216,
+        form_1042s: { created: 2, total_amount: 12000, total_withheld: 1800 },
+      },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.generateAllTaxDocuments(2025)
+
+    expect(result.generation.totalWithheld).toBe(216)
+    expect(result.generation.form1042s).toEqual({ created: 2, totalAmount: 12000, totalWithheld: 1800 })
+  })
+
+  it('listTaxFormThresholds uses GET tax/thresholds and maps rows', async () => {
+    const fn = mockFetch({
+      success: true,
+      tax_year: 2026,
+      thresholds: [
+        { payment_category: 'payment_settlement', form_type: '1099-K', form_box: '1a', amount_threshold: 20000, transaction_threshold: 200, tax_year_from: 2020 },
+        { payment_category: 'royalties', form_type: '1099-MISC', form_box: '2', amount_threshold: 10, transaction_threshold: null, tax_year_from: 2020 },
+      ],
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.listTaxFormThresholds(2026)
+
+    const [url, opts] = fn.mock.calls[0]
+    expect(opts.method).toBe('GET')
+    expect(String(url)).toContain('/tax/thresholds')
+    expect(String(url)).toContain('tax_year=2026')
+    expect(result.thresholds[0]).toEqual({
+      paymentCategory: 'payment_settlement',
+      formType: '1099-K',
+      formBox: '1a',
+      amountThreshold: 20000,
+      transactionThreshold: 200,
+      taxYearFrom: 2020,
+    })
+    expect(result.thresholds[1].transactionThreshold).toBeNull()
+  })
+
+  it('createTaxFiling posts snake_case body and maps the filing', async () => {
+    const fn = mockFetch({
+      success: true,
+      filing: {
+        id: 'filing_1',
+        tax_year: 2025,
+        format: 'fire',
+        test_file: false,
+        form_types: ['1099-NEC'],
+        document_count: 2,
+        payee_count: 2,
+        documents_filed: 2,
+        total_amount: 1934.56,
+        file_name: 'fire_2025.txt',
+        file_hash: 'abc123',
+        download_url: 'https://storage.example/signed',
+        expires_in_seconds: 300,
+      },
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.createTaxFiling({
+      taxYear: 2025,
+      format: 'fire',
+      payeeTins: { creator_1: '111223333' },
+      transmitter: { tcc: '12ABC', contactEmail: 'tax@acme.test' },
+    })
+
+    const [url, opts] = fn.mock.calls[0]
+    expect(String(url)).toContain('/tax/filings')
+    const body = JSON.parse(opts.body)
+    expect(body.tax_year).toBe(2025)
+    expect(body.payee_tins).toEqual({ creator_1: '111223333' })
+    expect(body.transmitter.contact_email).toBe('tax@acme.test')
+    expect(result.filing.documentsFiled).toBe(2)
+    expect(result.filing.downloadUrl).toBe('https://storage.example/signed')
+    expect(result.filing.status).toBe('generated')
+  })
+
+  it('listTaxFilings and getTaxFiling use GET tax/filings', async () => {
+    const fn = mockFetch({
+      success: true,
+      filings: [{ id: 'filing_1', tax_year: 2025, format: 'iris', is_test: true, status: 'generated' }],
+    })
+    const sdk = createClient(fn)
+    const list = await sdk.listTaxFilings(2025)
+
+    const [url, opts] = fn.mock.calls[0]
+    expect(opts.method).toBe('GET')
+    expect(String(url)).toContain('/tax/filings?tax_year=2025')
+    expect(list.filings[0]).toMatchObject({ id: 'filing_1', format: 'iris', testFile: true, downloadUrl: null })
+
+    const getFn = mockFetch({ success: true, filing: { id: 'filing_1', download_url: 'https://storage.example/signed' } })
+    const detail = await createClient(getFn).getTaxFiling('filing_1')
+    expect(String(getFn.mock.calls[0][0])).toContain('/tax/filings/filing_1')
+    expect(detail.filing.downloadUrl).toBe('https://storage.example/signed')
+  })
+
+  it('importBackupWithholdingNotices posts CP2100 rows and maps the import', async () => {
+    const fn = mockFetch({
+      success: true,
+      import: {
+        batch_id: 'batch_1',
+        notice_date: '2026-03-02',
+        received_date: '2026-03-06',
+        b_notice_due_date: '2026-03-27',
+        withholding_start_date: '2026-04-17',
+        imported: 1,
+        second_notices: 0,
+        duplicates: 0,
+        unmatched: [{ row: 2, account_number: 'ghost', name: 'Nobody' }],
+        errors: [],
+      },
+      notices: [{
+        id: 'notice_1',
+        participant_id: 'creator_1',
+        notice_source: 'cp2100',
+        b_notice_type: 'first',
+        tin_last4: '6789',
+        status: 'open',
+        deadline_status: 'b_notice_due',
+        b_notice_due_date: '2026-03-27',
+        withholding_start_date: '2026-04-17',
+      }],
+    })
+    const sdk = createClient(fn)
+    const result = await sdk.importBackupWithholdingNotices({
+      noticeDate: '2026-03-02',
+      receivedDate: '2026-03-06',
+      rows: [
+        { accountNumber: 'creator_1', name: 'Jane Smith', tin: '123456789', taxYear: 2025 },
+        { accountNumber: 'ghost', name: 'Nobody' },
+      ],
+    })
+
+    const [url, opts] = fn.mock.calls[0]
+    expect(String(url)).toContain('/tax/backup-withholding/notices/import')
+    const body = JSON.parse(opts.body)
+    expect(body.notice_date).toBe('2026-03-02')
+    expect(body.rows[0]).toEqual({ account_number: 'creator_1', name: 'Jane Smith', tin: '123456789', tax_year: 2025 })
+    expect(result.import.bNoticeDueDate).toBe('2026-03-27')
+    expect(result.import.unmatched).toEqual([{ row: 2, accountNumber: 'ghost', name: 'Nobody' }])
+    expect(result.notices[0]).toMatchObject({ participantId: 'creator_1', bNoticeType: 'first', tinLast4: '6789', deadlineStatus: 'b_notice_due' })
+  })
+
+  it('backup withholding state and notice lifecycle use the tax router', async () => {
+    const stateFn = mockFetch({
+      success: true,
+      state: { participant_id: 'creator_1', status: 'required_b_notice', active: true, rate_bps: 2400, notice_id: 'notice_1', withheld_earnings: 75.5 },
+      notices: [{ id: 'notice_1', participant_id: 'creator_1', status: 'b_notice_sent', deadline_status: 'withholding_active' }],
+    })
+    const state = await createClient(stateFn).getBackupWithholdingState('creator_1')
+    expect(stateFn.mock.calls[0][1].method).toBe('GET')
+    expect(String(stateFn.mock.calls[0][0])).toContain('/tax/backup-withholding/creator_1')
+    expect(state.state).toMatchObject({ status: 'required_b_notice', active: true, rateBps: 2400, withheldEarnings: 75.5 })
+    expect(state.notices[0].deadlineStatus).toBe('withholding_active')
+
+    const listFn = mockFetch({ success: true, notices: [], summary: { total: 3, b_notice_overdue: 1, b_notice_due_soon: 1, withholding_active: 1 } })
+    const list = await createClient(listFn).listBackupWithholdingNotices({ status: 'unresolved', taxYear: 2025 })
+    expect(String(listFn.mock.calls[0][0])).toContain('/tax/backup-withholding/notices?status=unresolved&tax_year=2025')
+    expect(list.summary).toEqual({ total: 3, bNoticeOverdue: 1, bNoticeDueSoon: 1, withholdingActive: 1 })
+
+    const resolveFn = mockFetch({
+      success: true,
+      notice: { id: 'notice_1', status: 'resolved', resolution: 'irs_validation' },
+      state: { participant_id: 'creator_1', status: 'not_required', active: false, rate_bps: 0 },
+    })
+    const resolved = await createClient(resolveFn).resolveBackupWithholdingNotice('notice_1', 'irs_validation')
+    expect(String(resolveFn.mock.calls[0][0])).toContain('/tax/backup-withholding/notices/notice_1/resolve')
+    expect(JSON.parse(resolveFn.mock.calls[0][1].body)).toEqual({ resolution: 'irs_validation' })
+    expect(resolved.notice.resolution).toBe('irs_validation')
+    expect(resolved.state?.active).toBe(false)
+  })
+
   it('markTaxDocumentFiled calls correct endpoint path', async () => {
     const fn = mockFetch({
       success: true,
@@ -2033,6 +2782,34 @@ describe('Soledgic SDK', () => {
     expect(body.address.postal_code).toBe('94102')
   })
 
+  it('submitTaxInfo sends W-8BEN treaty fields', async () => {
+    const fn = mockFetch({ success: true, submission: { form_type: 'W-8BEN', expires_at: '2028-12-31' } })
+    const sdk = createClient(fn)
+    await sdk.submitTaxInfo({
+      participantId: 'p_uk',
+      formType: 'W-8BEN',
+      legalName: 'Alex Brown',
+      foreignTaxIdLast4: 'A12C',
+      citizenshipCountry: 'GB',
+      treatyCountry: 'GB',
+      treatyArticle: '12',
+      treatyRateBps: 0,
+      signedAt: '2025-03-01',
+      address: { line1: '1 High St', city: 'London', postalCode: 'N1 9GU', country: 'GB' },
+      certify: true,
+    })
+
+    const body = JSON.parse(fn.mock.calls[0][1].body)
+    expect(body.form_type).toBe('W-8BEN')
+    expect(body.tax_id_type).toBeUndefined()
+    expect(body.citizenship_country).toBe('GB')
+    expect(body.treaty_country).toBe('GB')
+    expect(body.treaty_article).toBe('12')
+    expect(body.treaty_rate_bps).toBe(0)
+    expect(body.signed_at).toBe('2025-03-01')
+    expect(body.foreign_tax_id_last4).toBe('A12C')
+  })
+
   it('listLedgers uses GET on the correct endpoint', async () => {
     const fn = mockFetch({ success: true, ledgers: [] })
     const sdk = createClient(fn)
@@ -2253,6 +3030,19 @@ describe('Soledgic SDK', () => {
     })
   })
 
+  describe('getSalesTaxLiabilityPDF', () => {
+    it('delegates to generatePDF with sales_tax_liability type', async () => {
+      const fn = mockFetch({ success: true, filename: 'tax.pdf', data: 'base64' })
+      const sdk = createClient(fn)
+      await sdk.getSalesTaxLiabilityPDF('2026-04-01', '2026-06-30')
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(body.report_type).toBe('sales_tax_liability')
+      expect(body.start_date).toBe('2026-04-01')
+      expect(body.end_date).toBe('2026-06-30')
+    })
+  })
+
   // === FROZEN STATEMENTS ===
 
   describe('generateFrozenStatements', () => {
@@ -2363,6 +3153,452 @@ describe('Soledgic SDK', () => {
     })
   })
 
+  describe('setSplitRule', () => {
+    it('sends set_split_rule with snake_case recipients in waterfall order', async () => {
+      const fn = mockFetch({
+        success: true,
+        data: { split_rule_id: 'rule_1', version: 2, version_id: 'ver_2' },
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.setSplitRule({
+        scope: 'product',
+        scopeId: 'course_1',
+        name: 'Course launch',
+        recipients: [
+          { participantId: 'creator_1', role: 'creator', percent: 60 },
+          { participantId: 'cocreator_1', percent: 20, maxAmount: 5000 },
+          { participantId: 'partner_1', role: 'referral', fixedAmount: 100 },
+        ],
+      })
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(fn.mock.calls[0][0]).toContain('/manage-splits')
+      expect(body.action).toBe('set_split_rule')
+      expect(body.scope).toBe('product')
+      expect(body.scope_id).toBe('course_1')
+      expect(body.recipients).toEqual([
+        { participant_id: 'creator_1', role: 'creator', percent: 60 },
+        { participant_id: 'cocreator_1', percent: 20, max_amount: 5000 },
+        { participant_id: 'partner_1', role: 'referral', fixed_amount: 100 },
+      ])
+      expect(result.data.version).toBe(2)
+    })
+  })
+
+  describe('createReferralAttribution', () => {
+    it('posts a snake_case attribution and maps the response', async () => {
+      const fn = mockFetch({
+        success: true,
+        attribution: {
+          id: 'attr_1',
+          referrer_id: 'creator_ref',
+          referred_type: 'customer',
+          referred_id: 'buyer_1',
+          commission_percent: '7.50',
+          starts_at: '2026-01-01T00:00:00+00:00',
+          ends_at: null,
+          status: 'active',
+          metadata: {},
+          created_at: '2026-01-01T00:00:00+00:00',
+        },
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.createReferralAttribution({
+        referrerId: 'creator_ref',
+        referredType: 'customer',
+        referredId: 'buyer_1',
+        commissionPercent: 7.5,
+        startsAt: '2026-01-01T00:00:00Z',
+      })
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(fn.mock.calls[0][0]).toContain('/referrals')
+      expect(body).toEqual({
+        referrer_id: 'creator_ref',
+        referred_type: 'customer',
+        referred_id: 'buyer_1',
+        commission_percent: 7.5,
+        starts_at: '2026-01-01T00:00:00Z',
+      })
+      expect(result.attribution.commissionPercent).toBe(7.5)
+      expect(result.attribution.referredType).toBe('customer')
+      expect(result.attribution.endsAt).toBeNull()
+    })
+
+    it('getReferralAttribution maps commission totals', async () => {
+      const fn = mockFetch({
+        success: true,
+        attribution: { id: 'attr_1', referrer_id: 'creator_ref', referred_type: 'creator', referred_id: 'creator_new', commission_percent: 10, status: 'ended' },
+        totals: { commission_count: 2, earned: 5, reversed: 1.25, net: 3.75 },
+        commissions: [
+          { id: 'com_1', source_transaction_id: 'tx_sale', commission_transaction_id: 'tx_com', base_amount: '25.00', amount: '2.50', reversed_amount: '1.25' },
+        ],
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.getReferralAttribution('attr_1')
+
+      const [url, opts] = fn.mock.calls[0]
+      expect(opts.method).toBe('GET')
+      expect(url).toContain('/referrals/attr_1')
+      expect(result.attribution.status).toBe('ended')
+      expect(result.totals.net).toBe(3.75)
+      expect(result.commissions[0].reversedAmount).toBe(1.25)
+      expect(result.commissions[0].commissionTransactionId).toBe('tx_com')
+    })
+  })
+
+  describe('createSubscription', () => {
+    it('posts a snake_case subscription and maps the first charge', async () => {
+      const fn = mockFetch({
+        success: true,
+        subscription: {
+          id: 'sub_1',
+          plan_id: 'plan_1',
+          participant_id: 'creator_1',
+          buyer_id: 'buyer_1',
+          status: 'active',
+          current_period_start: '2026-01-31T12:00:00.000Z',
+          current_period_end: '2026-02-28T12:00:00.000Z',
+          cancel_at_period_end: false,
+          credit_balance: 0,
+          failed_attempts: 0,
+        },
+        charge: { id: 'chg_1', kind: 'initial', amount: 1000, credit_applied: 0, currency: 'USD', status: 'succeeded', sale_transaction_id: 'tx_sale' },
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.createSubscription({
+        planId: 'plan_1',
+        buyerId: 'buyer_1',
+        paymentMethodId: 'pm_1',
+        idempotencyKey: 'sub_key_1',
+      })
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(fn.mock.calls[0][0]).toContain('/subscriptions')
+      expect(body).toEqual({
+        plan_id: 'plan_1',
+        buyer_id: 'buyer_1',
+        payment_method_id: 'pm_1',
+        idempotency_key: 'sub_key_1',
+      })
+      expect(result.subscription.currentPeriodEnd).toBe('2026-02-28T12:00:00.000Z')
+      expect(result.charge?.saleTransactionId).toBe('tx_sale')
+      expect(result.idempotent).toBe(false)
+    })
+
+    it('changeSubscriptionPlan maps the proration', async () => {
+      const fn = mockFetch({
+        success: true,
+        subscription: { id: 'sub_1', plan_id: 'plan_2', status: 'active', credit_balance: 667 },
+        proration: { remaining_fraction: 0.3333, unused_amount: 1000, new_amount: 333, net_amount: -667, prorated: true, credit_added: 667, charge: null },
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.changeSubscriptionPlan('sub_1', { planId: 'plan_2' })
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(fn.mock.calls[0][0]).toContain('/subscriptions/sub_1/change-plan')
+      expect(body).toEqual({ plan_id: 'plan_2' })
+      expect(result.subscription.creditBalance).toBe(667)
+      expect(result.proration.netAmount).toBe(-667)
+      expect(result.proration.charge).toBeNull()
+    })
+  })
+
+  describe('createRevenueSchedule', () => {
+    it('posts a snake_case milestone schedule and maps lines', async () => {
+      const fn = mockFetch({
+        success: true,
+        schedule: {
+          id: 'sched_1',
+          source_transaction_id: 'tx_sale',
+          deferral_transaction_id: 'tx_deferral',
+          method: 'milestone',
+          currency: 'USD',
+          total_amount: '80.00',
+          recognized_amount: '20.00',
+          unwound_amount: '0.00',
+          deferred_balance: 60,
+          start_date: '2026-03-01',
+          months: null,
+          status: 'active',
+        },
+        lines: [
+          { line_number: 1, name: 'Kickoff', recognize_on: '2026-03-01', amount: '20.00', status: 'recognized', recognition_transaction_id: 'tx_rec_1' },
+          { line_number: 2, name: 'Delivery', recognize_on: null, amount: '60.00', status: 'pending' },
+        ],
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.createRevenueSchedule({
+        transactionId: 'tx_sale',
+        recognition: {
+          method: 'milestone',
+          milestones: [
+            { name: 'Kickoff', percent: 25, recognizeOn: '2026-03-01' },
+            { name: 'Delivery', percent: 75 },
+          ],
+        },
+      })
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(fn.mock.calls[0][0]).toContain('/revenue-recognition')
+      expect(body).toEqual({
+        transaction_id: 'tx_sale',
+        recognition: {
+          method: 'milestone',
+          milestones: [
+            { name: 'Kickoff', percent: 25, recognize_on: '2026-03-01' },
+            { name: 'Delivery', percent: 75 },
+          ],
+        },
+      })
+      expect(result.schedule.totalAmount).toBe(80)
+      expect(result.schedule.deferredBalance).toBe(60)
+      expect(result.schedule.months).toBeNull()
+      expect(result.lines[0].recognitionTransactionId).toBe('tx_rec_1')
+      expect(result.lines[1].recognizeOn).toBeNull()
+    })
+
+    it('recordSale sends a straight-line recognition schedule', async () => {
+      const fn = mockFetch({ success: true, transaction_id: 'tx_sale' })
+      const sdk = createClient(fn)
+      await sdk.recordSale({
+        referenceId: 'sale_1',
+        creatorId: 'creator_1',
+        amount: 12000,
+        recognition: { method: 'straight_line', months: 12, startDate: '2026-01-01' },
+      })
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(body.recognition).toEqual({ method: 'straight_line', months: 12, start_date: '2026-01-01' })
+    })
+  })
+
+  describe('getCreatorReceivables', () => {
+    it('maps aging buckets and the negative balance policy', async () => {
+      const fn = mockFetch({
+        success: true,
+        as_of: '2026-04-30',
+        policy: { recovery_percent: 50, block_payouts: true, write_off_days: 90 },
+        summary: { creators: 1, debts: 2, total_outstanding: 75, current: 25, days_31_60: 50, days_61_90: 0, days_over_90: 0 },
+        creators: [
+          { creator_id: 'creator_1', debt_count: 2, outstanding: '75.00', current: '25.00', days_31_60: '50.00', days_61_90: 0, days_over_90: 0, oldest_debt_at: '2026-03-10T00:00:00Z' },
+        ],
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.getCreatorReceivables({ creatorId: 'creator_1', asOf: '2026-04-30' })
+
+      expect(fn.mock.calls[0][0]).toContain('/creator-receivables?')
+      expect(fn.mock.calls[0][0]).toContain('creator_id=creator_1')
+      expect(fn.mock.calls[0][0]).toContain('as_of=2026-04-30')
+      expect(result.policy).toEqual({ recoveryPercent: 50, blockPayouts: true, writeOffDays: 90 })
+      expect(result.summary.totalOutstanding).toBe(75)
+      expect(result.summary.days31To60).toBe(50)
+      expect(result.creators[0]).toEqual({
+        creatorId: 'creator_1',
+        debtCount: 2,
+        outstanding: 75,
+        current: 25,
+        days31To60: 50,
+        days61To90: 0,
+        daysOver90: 0,
+        oldestDebtAt: '2026-03-10T00:00:00Z',
+      })
+    })
+
+    it('writeOffCreatorDebt posts the reason and maps the settled debt', async () => {
+      const fn = mockFetch({
+        success: true,
+        debt: {
+          id: 'debt_1',
+          creator_id: 'creator_1',
+          source_transaction_id: 'tx_refund',
+          debt_transaction_id: 'tx_debt',
+          write_off_transaction_id: 'tx_write_off',
+          currency: 'USD',
+          amount: '40.00',
+          recovered_amount: '15.00',
+          written_off_amount: '25.00',
+          outstanding_amount: 0,
+          status: 'written_off',
+          settled_at: '2026-06-01T00:00:00Z',
+          created_at: '2026-03-01T00:00:00Z',
+        },
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.writeOffCreatorDebt('debt_1', 'Creator churned')
+
+      expect(fn.mock.calls[0][0]).toContain('/creator-receivables/debts/debt_1/write-off')
+      expect(JSON.parse(fn.mock.calls[0][1].body)).toEqual({ reason: 'Creator churned' })
+      expect(result.debt.status).toBe('written_off')
+      expect(result.debt.recoveredAmount).toBe(15)
+      expect(result.debt.writtenOffAmount).toBe(25)
+      expect(result.debt.writeOffTransactionId).toBe('tx_write_off')
+      expect(result.debt.metadata).toEqual({})
+    })
+  })
+
+  describe('creator rolling reserves', () => {
+    it('getCreatorReserve maps the policy and held tranches', async () => {
+      const fn = mockFetch({
+        success: true,
+        participant_id: 'creator_1',
+        policy: { reserve_percent: '10.00', hold_days: 90 },
+        held_amount: 12.5,
+        released_amount: 4,
+        next_release_at: '2026-07-01T00:00:00Z',
+        next_release_amount: 7.5,
+        tranches: [
+          {
+            id: 'tranche_1',
+            creator_id: 'creator_1',
+            sale_transaction_id: 'tx_sale',
+            hold_transaction_id: 'tx_hold',
+            currency: 'USD',
+            amount: '7.50',
+            reserve_percent: '10.00',
+            release_at: '2026-07-01T00:00:00Z',
+            status: 'held',
+            created_at: '2026-04-02T00:00:00Z',
+          },
+        ],
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.getCreatorReserve('creator_1')
+
+      expect(fn.mock.calls[0][0]).toContain('/holds/reserves/creator_1')
+      expect(result.policy).toEqual({ reservePercent: 10, holdDays: 90 })
+      expect(result.heldAmount).toBe(12.5)
+      expect(result.nextReleaseAmount).toBe(7.5)
+      expect(result.tranches[0]).toEqual({
+        id: 'tranche_1',
+        creatorId: 'creator_1',
+        saleTransactionId: 'tx_sale',
+        holdTransactionId: 'tx_hold',
+        releaseTransactionId: null,
+        currency: 'USD',
+        amount: 7.5,
+        reservePercent: 10,
+        releaseAt: '2026-07-01T00:00:00Z',
+        status: 'held',
+        releasedAt: null,
+        createdAt: '2026-04-02T00:00:00Z',
+      })
+    })
+
+    it('listCreatorReserves keeps tranches held after the policy was removed', async () => {
+      const fn = mockFetch({
+        success: true,
+        total_held: 30,
+        reserves: [
+          { creator_id: 'creator_1', reserve_percent: null, hold_days: null, held_amount: '30.00', held_tranches: 2, released_amount: 0, next_release_at: '2026-06-01T00:00:00Z', next_release_amount: '10.00' },
+        ],
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.listCreatorReserves()
+
+      expect(result.totalHeld).toBe(30)
+      expect(result.reserves[0].reservePercent).toBeNull()
+      expect(result.reserves[0].heldAmount).toBe(30)
+      expect(result.reserves[0].nextReleaseAmount).toBe(10)
+    })
+
+    it('setCreatorReservePolicy posts snake_case fields', async () => {
+      const fn = mockFetch({ success: true, policy: { creator_id: 'creator_1', reserve_percent: 10, hold_days: 90 } })
+      const sdk = createClient(fn)
+      const result = await sdk.setCreatorReservePolicy('creator_1', { reservePercent: 10, holdDays: 90 })
+
+      expect(fn.mock.calls[0][0]).toContain('/holds/reserves/creator_1')
+      expect(JSON.parse(fn.mock.calls[0][1].body)).toEqual({ reserve_percent: 10, hold_days: 90 })
+      expect(result.policy).toEqual({ reservePercent: 10, holdDays: 90 })
+    })
+
+    it('removeCreatorReservePolicy sends DELETE', async () => {
+      const fn = mockFetch({ success: true, deleted: true, participant_id: 'creator_1' })
+      const sdk = createClient(fn)
+      const result = await sdk.removeCreatorReservePolicy('creator_1')
+
+      expect(fn.mock.calls[0][0]).toContain('/holds/reserves/creator_1')
+      expect(fn.mock.calls[0][1].method).toBe('DELETE')
+      expect(result).toEqual({ success: true, deleted: true })
+    })
+  })
+
+  describe('gift codes', () => {
+    it('createGiftCodeBatch posts snake_case fields and returns the codes', async () => {
+      const fn = mockFetch({
+        success: true,
+        batch: { id: 'batch_1', kind: 'gift_card', name: 'Holiday', denomination: 2500, currency: 'USD', code_count: 2, max_redemptions: 1, expires_at: '2027-01-01T00:00:00.000Z', status: 'active', issue_transaction_id: 'tx_issue' },
+        codes: ['ABCD-EFGH-JKMN-PQRS', 'TUVW-XYZ2-3456-789A'],
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.createGiftCodeBatch({ kind: 'gift_card', name: 'Holiday', denomination: 2500, count: 2, expiresAt: '2027-01-01T00:00:00.000Z' })
+
+      expect(fn.mock.calls[0][0]).toContain('/gift-codes/batches')
+      expect(JSON.parse(fn.mock.calls[0][1].body)).toEqual({
+        kind: 'gift_card',
+        name: 'Holiday',
+        denomination: 2500,
+        count: 2,
+        expires_at: '2027-01-01T00:00:00.000Z',
+      })
+      expect(result.codes).toHaveLength(2)
+      expect(result.batch.codeCount).toBe(2)
+      expect(result.batch.issueTransactionId).toBe('tx_issue')
+    })
+
+    it('getGiftCodeBatch maps the status summary', async () => {
+      const fn = mockFetch({
+        success: true,
+        batch: { id: 'batch_1', kind: 'gift_card', name: 'Holiday', denomination: 2500, currency: 'USD', code_count: 10, status: 'active' },
+        summary: { active: 6, redeemed: 3, expired: 1, voided: 0, redemptions: 3, outstanding_value: 15000 },
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.getGiftCodeBatch('batch_1')
+
+      expect(fn.mock.calls[0][0]).toContain('/gift-codes/batches/batch_1')
+      expect(result.summary).toEqual({ active: 6, redeemed: 3, expired: 1, voided: 0, redemptions: 3, outstandingValue: 15000 })
+    })
+
+    it('exportGiftCodeBatch returns CSV with the server filename', async () => {
+      const fn = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve('code,kind\nABCD-EFGH-JKMN-PQRS,gift_card'),
+        headers: new Headers({
+          'Content-Disposition': 'attachment; filename="gift_codes_batch_1.csv"',
+        }),
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.exportGiftCodeBatch('batch_1')
+
+      expect(fn.mock.calls[0][0]).toContain('/gift-codes/batches/batch_1/export?format=csv')
+      expect(result).toEqual({ csv: 'code,kind\nABCD-EFGH-JKMN-PQRS,gift_card', filename: 'gift_codes_batch_1.csv' })
+    })
+
+    it('redeemGiftCode maps the wallet credit', async () => {
+      const fn = mockFetch({
+        success: true,
+        redemption: { code_id: 'code_1', kind: 'gift_card', customer_id: 'cust_1', amount: 2500, currency: 'USD', transaction_id: 'tx_1' },
+        wallet: { wallet_id: 'wallet_1', owner_id: 'cust_1', balance: 40 },
+      })
+      const sdk = createClient(fn)
+      const result = await sdk.redeemGiftCode('abcd-efgh-jkmn-pqrs', 'cust_1')
+
+      expect(JSON.parse(fn.mock.calls[0][1].body)).toEqual({ code: 'abcd-efgh-jkmn-pqrs', customer_id: 'cust_1' })
+      expect(result).toEqual({
+        success: true,
+        codeId: 'code_1',
+        kind: 'gift_card',
+        customerId: 'cust_1',
+        amount: 2500,
+        currency: 'USD',
+        transactionId: 'tx_1',
+        walletId: 'wallet_1',
+        walletBalance: 40,
+      })
+    })
+  })
+
   // === IMPORT METHODS ===
 
   describe('getImportTemplates', () => {
@@ -2465,6 +3701,12 @@ describe('Soledgic SDK', () => {
         endpoint: 'close-period',
         bodyKeys: ['year', 'month'],
       },
+      {
+        name: 'closeFiscalYear',
+        call: (sdk) => sdk.closeFiscalYear(2026),
+        endpoint: 'close-period',
+        bodyKeys: ['year', 'fiscal_year'],
+      },
       {
         name: 'listPeriods',
         call: (sdk) => sdk.listPeriods(),
@@ -2599,6 +3841,18 @@ describe('Soledgic SDK', () => {
         endpoint: 'execute-payout',
         bodyKeys: ['action', 'payout_id'],
       },
+      {
+        name: 'getPayoutStatus',
+        call: (sdk) => sdk.getPayoutStatus('po_1'),
+        endpoint: 'execute-payout',
+        bodyKeys: ['action', 'payout_id'],
+      },
+      {
+        name: 'returnPayout',
+        call: (sdk) => sdk.returnPayout('po_1', { returnCode: 'R03' }),
+        endpoint: 'payouts/po_1/return',
+        bodyKeys: ['return_code'],
+      },
       {
         name: 'executeBatchPayouts',
         call: (sdk) => sdk.executeBatchPayouts(['po_1', 'po_2']),
@@ -2611,6 +3865,12 @@ describe('Soledgic SDK', () => {
         endpoint: 'execute-payout',
         bodyKeys: ['action', 'payout_ids'],
       },
+      {
+        name: 'importPayoutReturnFile',
+        call: (sdk) => sdk.importPayoutReturnFile('101 ...', 'acknowledgment'),
+        endpoint: 'execute-payout',
+        bodyKeys: ['action', 'file_content', 'file_type'],
+      },
       {
         name: 'listPayoutRails',
         call: (sdk) => sdk.listPayoutRails(),
@@ -2630,6 +3890,116 @@ describe('Soledgic SDK', () => {
         endpoint: 'manage-splits',
         bodyKeys: ['action', 'creator_id'],
       },
+      {
+        name: 'getSplitRule',
+        call: (sdk) => sdk.getSplitRule('rule_1'),
+        endpoint: 'manage-splits',
+        bodyKeys: ['action', 'split_rule_id'],
+      },
+      {
+        name: 'listSplitRules',
+        call: (sdk) => sdk.listSplitRules('creator'),
+        endpoint: 'manage-splits',
+        bodyKeys: ['action', 'scope'],
+      },
+      {
+        name: 'archiveSplitRule',
+        call: (sdk) => sdk.archiveSplitRule('rule_1'),
+        endpoint: 'manage-splits',
+        bodyKeys: ['action', 'split_rule_id'],
+      },
+      // Referrals
+      {
+        name: 'endReferralAttribution',
+        call: (sdk) => sdk.endReferralAttribution('attr_1'),
+        endpoint: 'referrals/attr_1/end',
+        bodyKeys: [],
+      },
+      // Revenue recognition
+      {
+        name: 'completeRevenueMilestone',
+        call: (sdk) => sdk.completeRevenueMilestone('sched_1', 2),
+        endpoint: 'revenue-recognition/sched_1/milestones/2/complete',
+        bodyKeys: [],
+      },
+      // Creator receivables
+      {
+        name: 'recoverCreatorDebts',
+        call: (sdk) => sdk.recoverCreatorDebts('creator_1'),
+        endpoint: 'creator-receivables/recover',
+        bodyKeys: ['creator_id'],
+      },
+      // Creator rolling reserves
+      {
+        name: 'setCreatorReservePolicy',
+        call: (sdk) => sdk.setCreatorReservePolicy('creator_1', { reservePercent: 10, holdDays: 90 }),
+        endpoint: 'holds/reserves/creator_1',
+        bodyKeys: ['reserve_percent', 'hold_days'],
+      },
+      // Gift codes
+      {
+        name: 'voidGiftCodeBatch',
+        call: (sdk) => sdk.voidGiftCodeBatch('batch_1', 'Misprint'),
+        endpoint: 'gift-codes/batches/batch_1/void',
+        bodyKeys: ['reason'],
+      },
+      {
+        name: 'voidGiftCode',
+        call: (sdk) => sdk.voidGiftCode('ABCD-EFGH-JKMN-PQRS', 'Reported stolen'),
+        endpoint: 'gift-codes/codes/ABCD-EFGH-JKMN-PQRS/void',
+        bodyKeys: ['reason'],
+      },
+      // Recurring journals
+      {
+        name: 'pauseRecurringJournal',
+        call: (sdk) => sdk.pauseRecurringJournal('rjt_1'),
+        endpoint: 'recurring-journals/rjt_1/pause',
+        bodyKeys: [],
+      },
+      {
+        name: 'resumeRecurringJournal',
+        call: (sdk) => sdk.resumeRecurringJournal('rjt_1'),
+        endpoint: 'recurring-journals/rjt_1/resume',
+        bodyKeys: [],
+      },
+      {
+        name: 'endRecurringJournal',
+        call: (sdk) => sdk.endRecurringJournal('rjt_1'),
+        endpoint: 'recurring-journals/rjt_1/end',
+        bodyKeys: [],
+      },
+      // Fixed assets
+      {
+        name: 'disposeFixedAsset',
+        call: (sdk) => sdk.disposeFixedAsset('fa_1', { proceeds: 0 }),
+        endpoint: 'fixed-assets/fa_1/dispose',
+        bodyKeys: ['proceeds'],
+      },
+      // Subscriptions
+      {
+        name: 'createSubscriptionPlan',
+        call: (sdk) => sdk.createSubscriptionPlan({ participantId: 'creator_1', name: 'Pro', amount: 1000, interval: 'month' }),
+        endpoint: 'subscriptions/plans',
+        bodyKeys: ['participant_id', 'name', 'amount', 'interval'],
+      },
+      {
+        name: 'archiveSubscriptionPlan',
+        call: (sdk) => sdk.archiveSubscriptionPlan('plan_1'),
+        endpoint: 'subscriptions/plans/plan_1/archive',
+        bodyKeys: [],
+      },
+      {
+        name: 'cancelSubscription',
+        call: (sdk) => sdk.cancelSubscription('sub_1', { atPeriodEnd: false }),
+        endpoint: 'subscriptions/sub_1/cancel',
+        bodyKeys: ['at_period_end'],
+      },
+      {
+        name: 'updateSubscriptionPaymentMethod',
+        call: (sdk) => sdk.updateSubscriptionPaymentMethod('sub_1', 'pm_2'),
+        endpoint: 'subscriptions/sub_1/payment-method',
+        bodyKeys: ['payment_method_id'],
+      },
       // Email
       {
         name: 'configureEmail',
@@ -2849,6 +4219,25 @@ describe('Soledgic SDK', () => {
       { name: 'getEscrowSummary', call: (sdk) => sdk.getEscrowSummary(), endpoint: 'holds/summary' },
       { name: 'getHoldSummary', call: (sdk) => sdk.getHoldSummary(), endpoint: 'holds/summary' },
       { name: 'listInvoices', call: (sdk) => sdk.listInvoices(), endpoint: 'invoices' },
+      { name: 'listSalesTaxRates', call: (sdk) => sdk.listSalesTaxRates({ countryCode: 'US' }), endpoint: 'sales-tax/rates' },
+      { name: 'listSalesTaxNexus', call: (sdk) => sdk.listSalesTaxNexus(), endpoint: 'sales-tax/nexus' },
+      { name: 'listReferralAttributions', call: (sdk) => sdk.listReferralAttributions({ referrerId: 'creator_ref' }), endpoint: 'referrals' },
+      { name: 'listRevenueSchedules', call: (sdk) => sdk.listRevenueSchedules({ status: 'active' }), endpoint: 'revenue-recognition' },
+      { name: 'getRevenueSchedule', call: (sdk) => sdk.getRevenueSchedule('sched_1'), endpoint: 'revenue-recognition/sched_1' },
+      { name: 'listCreatorDebts', call: (sdk) => sdk.listCreatorDebts({ status: 'outstanding' }), endpoint: 'creator-receivables/debts' },
+      { name: 'getCreatorDebt', call: (sdk) => sdk.getCreatorDebt('debt_1'), endpoint: 'creator-receivables/debts/debt_1' },
+      { name: 'listCreatorReserves', call: (sdk) => sdk.listCreatorReserves(), endpoint: 'holds/reserves' },
+      { name: 'getCreatorReserve', call: (sdk) => sdk.getCreatorReserve('creator_1'), endpoint: 'holds/reserves/creator_1' },
+      { name: 'listGiftCodeBatches', call: (sdk) => sdk.listGiftCodeBatches({ kind: 'promo' }), endpoint: 'gift-codes/batches' },
+      { name: 'listPendingJournals', call: (sdk) => sdk.listPendingJournals({ status: 'pending' }), endpoint: 'pending-journals' },
+      { name: 'getPendingJournal', call: (sdk) => sdk.getPendingJournal('pj_1'), endpoint: 'pending-journals/pj_1' },
+      { name: 'listJournalApprovalPolicies', call: (sdk) => sdk.listJournalApprovalPolicies(), endpoint: 'pending-journals/policies' },
+      { name: 'listRecurringJournals', call: (sdk) => sdk.listRecurringJournals({ status: 'active' }), endpoint: 'recurring-journals' },
+      { name: 'listFixedAssets', call: (sdk) => sdk.listFixedAssets({ status: 'active' }), endpoint: 'fixed-assets' },
+      { name: 'getFixedAsset', call: (sdk) => sdk.getFixedAsset('fa_1'), endpoint: 'fixed-assets/fa_1' },
+      { name: 'listSubscriptionPlans', call: (sdk) => sdk.listSubscriptionPlans({ participantId: 'creator_1' }), endpoint: 'subscriptions/plans' },
+      { name: 'listSubscriptions', call: (sdk) => sdk.listSubscriptions({ status: 'past_due' }), endpoint: 'subscriptions' },
+      { name: 'getSubscription', call: (sdk) => sdk.getSubscription('sub_1'), endpoint: 'subscriptions/sub_1' },
     ]
 
     for (const { name, call, endpoint, mockResponse } of getMethods) {
@@ -3285,6 +4674,7 @@ describe('Soledgic SDK', () => {
       expect(result.calculation.transactionCount).toBe(150)
       expect(result.calculation.requires1099).toBe(true)
       expect(result.calculation.threshold).toBe(600)
+      expect(result.calculation.forms).toEqual([])
       expect(result.calculation.linkedUserId).toBe('u1')
       expect(result.calculation.sharedTaxProfile?.legalName).toBe('Jane Doe')
       expect(result.calculation.sharedTaxProfile?.taxIdLast4).toBe('4321')
@@ -8657,6 +10047,16 @@ describe('Soledgic SDK', () => {
       expect(body.action).toBe('get')
       expect(body.period_id).toBe('period_1')
       expect(body.statement_type).toBe('profit_loss')
+      expect(body.version).toBeUndefined()
+    })
+
+    it('getFrozenStatement can ask for an earlier version', async () => {
+      const fn = mockFetch({ success: true, statement: { id: 'stmt_1', version: 1 } })
+      const sdk = createClient(fn)
+      await sdk.getFrozenStatement('period_1', 'balance_sheet', 1)
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(body.version).toBe(1)
     })
 
     // --- client.ts: listFrozenStatements ---
@@ -8722,6 +10122,17 @@ describe('Soledgic SDK', () => {
       expect(body.report_type).toBe('creator_earnings')
     })
 
+    it('getSalesTaxLiability sends sales_tax_liability report_type', async () => {
+      const fn = mockFetch({ success: true })
+      const sdk = createClient(fn)
+      await sdk.getSalesTaxLiability('2026-04-01', '2026-06-30')
+
+      const body = JSON.parse(fn.mock.calls[0][1].body)
+      expect(body.report_type).toBe('sales_tax_liability')
+      expect(body.start_date).toBe('2026-04-01')
+      expect(body.end_date).toBe('2026-06-30')
+    })
+
     it('getTransactions sends transaction_history with optional params', async () => {
       const fn = mockFetch({ success: true })
       const sdk = createClient(fn)
@@ -69,9 +69,17 @@ export interface RecordSaleRequest {
   referenceId: string
   creatorId: string
   amount: number
+  /** ISO currency code; defaults to the ledger's functional currency */
+  currency?: string
+  /** Functional-currency units per one unit of `currency`. Omit to use the ledger's FX rate table */
+  fxRate?: number
   processingFee?: number
   processingFeePaidBy?: 'platform' | 'creator' | 'split'
   creatorPercent?: number
+  /** Split the sale with this rule instead of creatorPercent. Product and creator rules apply automatically */
+  splitRuleId?: string
+  /** Defer the platform's share and recognize it on this schedule instead of immediately */
+  recognition?: RevenueRecognitionSchedule
   productId?: string
   productName?: string
   creatorName?: string
@@ -80,6 +88,175 @@ export interface RecordSaleRequest {
   metadata?: Record<string, unknown>
 }
 
+export type RevenueRecognitionMethod = 'straight_line' | 'milestone'
+
+export interface RevenueMilestoneInput {
+  name: string
+  /** Percent of the deferred amount; all milestones must add up to 100 */
+  percent: number
+  /** YYYY-MM-DD; omit to recognize when the milestone is completed */
+  recognizeOn?: string
+}
+
+export type RevenueRecognitionSchedule =
+  | {
+    method: 'straight_line'
+    /** One equal release at the end of each month */
+    months: number
+    /** YYYY-MM-DD; defaults to the sale date */
+    startDate?: string
+  }
+  | {
+    method: 'milestone'
+    milestones: RevenueMilestoneInput[]
+    startDate?: string
+  }
+
+export interface CreateRevenueScheduleRequest {
+  /** An existing sale that has not been refunded */
+  transactionId: string
+  recognition: RevenueRecognitionSchedule
+}
+
+export interface ListRevenueSchedulesRequest {
+  status?: RevenueScheduleStatus
+  sourceTransactionId?: string
+  limit?: number
+}
+
+export interface GetCreatorReceivablesRequest {
+  creatorId?: string
+  /** YYYY-MM-DD; ages debts as of the end of this day. Defaults to now */
+  asOf?: string
+}
+
+export interface ListCreatorDebtsRequest {
+  status?: CreatorDebtStatus
+  creatorId?: string
+  limit?: number
+}
+
+export type SplitRuleScope = 'product' | 'creator'
+export type SplitRecipientRole = 'creator' | 'co_creator' | 'affiliate' | 'referral'
+
+export interface SplitRuleRecipientInput {
+  participantId: string
+  role?: SplitRecipientRole
+  /** Percent of the sale net (after fees) */
+  percent?: number
+  /** Minor units added on top of percent */
+  fixedAmount?: number
+  minAmount?: number
+  maxAmount?: number
+  /** Waterfall order; defaults to array order */
+  position?: number
+}
+
+export interface SetSplitRuleRequest {
+  scope: SplitRuleScope
+  /** Product id or creator id the rule applies to */
+  scopeId: string
+  name?: string
+  recipients: SplitRuleRecipientInput[]
+}
+
+export interface SetSplitRuleResponse {
+  success: boolean
+  data: {
+    split_rule_id: string
+    scope: SplitRuleScope
+    scope_id: string
+    name: string | null
+    version: number
+    version_id: string
+    recipients: Array<{
+      position: number
+      participant_id: string
+      role: SplitRecipientRole
+      percent: number
+      fixed_amount: number
+      min_amount: number | null
+      max_amount: number | null
+    }>
+  }
+}
+
+export type ReferredType = 'creator' | 'customer'
+
+export interface CreateReferralAttributionRequest {
+  referrerId: string
+  /** Defaults to `creator` */
+  referredType?: ReferredType
+  /** Creator id, or the buyer_id / credits user_id of a customer */
+  referredId: string
+  /** Percent of the platform's share paid to the referrer */
+  commissionPercent: number
+  /** ISO timestamp; defaults to now */
+  startsAt?: string
+  /** ISO timestamp; open-ended when omitted */
+  endsAt?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface ListReferralAttributionsRequest {
+  referrerId?: string
+  referredType?: ReferredType
+  referredId?: string
+  status?: 'active' | 'ended'
+  limit?: number
+}
+
+export type SubscriptionInterval = 'day' | 'week' | 'month' | 'year'
+export type SubscriptionStatus = 'incomplete' | 'active' | 'past_due' | 'canceled'
+export type SubscriptionRevenueRecognition = 'immediate' | 'ratable'
+
+export interface CreateSubscriptionPlanRequest {
+  participantId: string
+  productId?: string
+  name: string
+  /** Price per period in minor units */
+  amount: number
+  /** Defaults to the ledger's functional currency */
+  currency?: string
+  interval: SubscriptionInterval
+  /** Intervals per billing period; defaults to 1 */
+  intervalCount?: number
+  /** `ratable` recognizes each charge over its period; monthly and yearly plans only */
+  revenueRecognition?: SubscriptionRevenueRecognition
+  metadata?: Record<string, unknown>
+}
+
+export interface ListSubscriptionPlansRequest {
+  participantId?: string
+  status?: 'active' | 'archived'
+  limit?: number
+}
+
+export interface CreateSubscriptionRequest {
+  planId: string
+  buyerId: string
+  /** Saved payment method charged for every period */
+  paymentMethodId: string
+  /** Required; retrying with the same key returns the existing subscription */
+  idempotencyKey: string
+  customerEmail?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface ListSubscriptionsRequest {
+  status?: SubscriptionStatus
+  buyerId?: string
+  participantId?: string
+  planId?: string
+  limit?: number
+}
+
+export interface ChangeSubscriptionPlanRequest {
+  planId: string
+  /** Reprice the rest of the current period; defaults to true */
+  prorate?: boolean
+}
+
 export interface RecordIncomeRequest {
   referenceId: string
   amount: number
@@ -363,12 +540,68 @@ export interface ListRefundsResponse {
   count: number
 }
 
+export type DisputeStatus = 'open' | 'evidence_submitted' | 'won' | 'lost' | 'accepted'
+
+export interface Dispute {
+  id: string
+  /** Processor dispute id */
+  disputeId: string
+  status: DisputeStatus
+  saleReference: string | null
+  saleTransactionId: string | null
+  creatorId: string
+  /** Chargeback amount in the ledger's functional currency */
+  amount: number
+  fee: number
+  currency: string
+  reason: string | null
+  evidence: Record<string, unknown>
+  evidenceDueBy: string | null
+  evidenceSubmittedAt: string | null
+  chargebackTransactionId: string | null
+  reversalTransactionId: string | null
+  feeRefunded: boolean
+  source: 'api' | 'processor'
+  resolvedAt: string | null
+  createdAt: string
+}
+
+export interface CreateDisputeRequest {
+  /** Processor dispute id; repeated calls with the same id are idempotent */
+  disputeId: string
+  /** Disputed amount in cents */
+  amount: number
+  /** Dispute fee charged by the processor, in cents */
+  fee?: number
+  saleReference?: string
+  /** Required when no saleReference is given */
+  creatorId?: string
+  reason?: string
+  evidenceDueBy?: string
+  currency?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface ListDisputesRequest {
+  status?: DisputeStatus
+  creatorId?: string
+  saleReference?: string
+  limit?: number
+}
+
+export interface RecordDisputeOutcomeRequest {
+  outcome: 'won' | 'lost' | 'accepted'
+  /** Processor returned the dispute fee (won disputes only) */
+  feeRefunded?: boolean
+}
+
 export interface ReverseTransactionRequest {
   transactionId: string
   reason: string
   partialAmount?: number
   idempotencyKey?: string
   metadata?: Record<string, unknown>
+  preparedBy?: string
 }
 
 export interface CreatePeriodRequest {
@@ -377,6 +610,90 @@ export interface CreatePeriodRequest {
   name?: string
 }
 
+export interface RunFxRevaluationRequest {
+  /** YYYY-MM-DD */
+  asOfDate: string
+  /** Closing rates keyed by currency: functional-currency units per one unit. Missing ones come from the FX rate table */
+  rates?: Record<string, number>
+}
+
+export interface FxRateInput {
+  baseCurrency: string
+  quoteCurrency: string
+  /** Quote units per one base unit */
+  rate: number
+  /** YYYY-MM-DD */
+  effectiveDate: string
+}
+
+export interface ListFxRatesRequest {
+  baseCurrency?: string
+  quoteCurrency?: string
+  fromDate?: string
+  toDate?: string
+  limit?: number
+}
+
+export interface ImportFxRatesRequest {
+  /** Raw file content */
+  data: string
+  format?: 'csv' | 'ecb_xml' | 'auto'
+  /** Base currency of an ECB-style feed (defaults to EUR) */
+  baseCurrency?: string
+}
+
+export type SalesTaxType = 'sales_tax' | 'vat' | 'gst'
+
+export interface SalesTaxRateInput {
+  /** ISO 3166-1 alpha-2 */
+  countryCode: string
+  /** State / region code; omit for a country-wide rate */
+  stateCode?: string
+  /** Postal code prefix; the longest matching prefix wins */
+  postalCode?: string
+  /** Omit to apply the rate to every category */
+  taxCategory?: string
+  /** Defaults to COUNTRY[-STATE[-POSTAL]] */
+  jurisdictionCode?: string
+  jurisdictionName?: string
+  taxType?: SalesTaxType
+  /** Basis points: 600 = 6% */
+  rateBps: number
+  /** YYYY-MM-DD */
+  effectiveFrom: string
+  effectiveTo?: string | null
+}
+
+export interface ListSalesTaxRatesRequest {
+  countryCode?: string
+  stateCode?: string
+  /** YYYY-MM-DD; only rates in effect on this date */
+  asOf?: string
+}
+
+export interface SalesTaxNexusInput {
+  countryCode: string
+  /** Omit for country-level registration (e.g. VAT) */
+  stateCode?: string
+  registrationNumber?: string
+  /** Set false to stop collecting without deleting the registration */
+  collectTax?: boolean
+  effectiveFrom?: string
+  effectiveTo?: string | null
+}
+
+export interface CalculateSalesTaxRequest {
+  /** Subtotal in cents */
+  amount: number
+  customerCountry?: string
+  customerState?: string
+  customerPostalCode?: string
+  taxCategory?: string
+  /** Buyer VAT / tax ID; enables reverse charge for cross-border B2B VAT */
+  customerTaxId?: string
+  asOf?: string
+}
+
 export interface ReconcileMatchRequest {
   transactionId: string
   bankTransactionId: string
@@ -446,6 +763,13 @@ export interface CreateLedgerRequest {
     minPayoutAmount?: number
     payoutSchedule?: 'manual' | 'weekly' | 'monthly'
     taxWithholdingPercent?: number
+    backupWithholdingEnabled?: boolean
+    /** Percent of later creator earnings netted against a negative balance (default 100) */
+    negativeBalanceRecoveryPercent?: number
+    /** Refuse payouts while a creator still owes a negative balance */
+    negativeBalanceBlockPayouts?: boolean
+    /** Write negative balances off to bad debt after this many days; never when omitted */
+    negativeBalanceWriteOffDays?: number | null
     currency?: string
     fiscalYearStart?: string
     receiptThreshold?: number
@@ -453,7 +777,7 @@ export interface CreateLedgerRequest {
 }
 
 export interface ExportReportRequest {
-  reportType: 'transaction_detail' | 'creator_earnings' | 'platform_revenue' | 'payout_summary' | 'reconciliation' | 'audit_log'
+  reportType: 'transaction_detail' | 'creator_earnings' | 'platform_revenue' | 'payout_summary' | 'reconciliation' | 'audit_log' | 'sales_tax_liability'
   format: 'csv' | 'json'
   startDate?: string
   endDate?: string
@@ -473,6 +797,8 @@ export interface RecordAdjustmentRequest {
   originalTransactionId?: string
   supportingDocumentation?: string
   preparedBy: string
+  /** Accruals and deferrals only: post the reversing entry on the first day of the next period */
+  autoReverse?: boolean
 }
 
 export interface RecordOpeningBalanceRequest {
@@ -484,6 +810,7 @@ export interface RecordOpeningBalanceRequest {
     entityId?: string
     balance: number
   }>
+  preparedBy?: string
 }
 
 export interface RecordTransferRequest {
@@ -556,9 +883,19 @@ export interface ReleaseHoldRequest {
   executeTransfer?: boolean
 }
 
-export type CreateCheckoutSessionRequest = {
+export interface CheckoutLineItemInput {
   participantId: string
+  /** Line subtotal in cents. */
   amount: number
+  productId?: string
+  productName?: string
+}
+
+export type CreateCheckoutSessionRequest = (
+  { participantId: string; amount: number; lineItems?: undefined } |
+  /** Multi-party cart: charged once, posted as one sale per line item. */
+  { lineItems: CheckoutLineItemInput[]; participantId?: undefined; amount?: number }
+) & {
   currency?: string
   productId?: string
   productName?: string
@@ -584,8 +921,17 @@ export interface CreatePayoutRequest {
   metadata?: Record<string, unknown>
 }
 
+export interface ReturnPayoutRequest {
+  /** NACHA return code, e.g. R01, R03. */
+  returnCode: string
+  reason?: string
+  returnedAt?: string
+}
+
 export interface CreateRefundRequest {
   saleReference: string
+  /** Refund a single line item of a multi-party checkout. */
+  lineItemId?: string
   reason: string
   amount?: number
   refundFrom?: 'both' | 'platform_only' | 'creator_only'
@@ -698,12 +1044,27 @@ export interface CreateBankAccountRequest {
   accountLastFour?: string
 }
 
+export type TaxInfoFormType = 'W-9' | 'W-8BEN' | 'W-8BEN-E'
+
 export interface SubmitTaxInfoRequest {
   participantId: string
+  /** Defaults to W-9. W-8 forms need a non-US address.country. */
+  formType?: TaxInfoFormType
   legalName: string
-  taxIdType: 'ssn' | 'ein' | 'itin'
-  taxIdLast4: string
-  businessType: 'individual' | 'sole_proprietor' | 'llc' | 'corporation' | 'partnership'
+  /** Required on a W-9; optional on a W-8. */
+  taxIdType?: 'ssn' | 'ein' | 'itin'
+  taxIdLast4?: string
+  /** Required except on a W-8BEN, which is always 'individual'. */
+  businessType?: 'individual' | 'sole_proprietor' | 'llc' | 'corporation' | 'partnership'
+  foreignTaxIdLast4?: string
+  /** ISO 3166-1 alpha-2; required on a W-8. */
+  citizenshipCountry?: string
+  treatyCountry?: string
+  treatyArticle?: string
+  /** Claimed treaty withholding rate, 0-3000 basis points. Without a claim sales withhold 30%. */
+  treatyRateBps?: number
+  /** YYYY-MM-DD; a W-8 expires at the end of the third calendar year after signing. */
+  signedAt?: string
   address?: {
     line1?: string
     line2?: string
@@ -749,14 +1110,367 @@ export interface SaleResponse {
     availableAmount: number
     withholdings: unknown[]
   }
+  /** Present when a split rule distributed the sale */
+  splitRule?: {
+    splitRuleId: string
+    version: number
+    versionId: string
+    credits: Array<{
+      position: number
+      participantId: string
+      role: SplitRecipientRole
+      amount: number
+      transactionId: string | null
+    }>
+  }
+  /** Present when referral attributions earned a commission on the sale */
+  referralCommissions?: ReferralCommission[]
+  /** Present when the sale was recorded with a recognition schedule */
+  revenueSchedule?: {
+    scheduleId?: string
+    method?: RevenueRecognitionMethod
+    deferralTransactionId?: string
+    /** Functional-currency amount */
+    deferredAmount?: number
+    /** Set when the sale posted but the schedule could not be created */
+    error?: string
+  }
+  /** Present when the creator's share paid down a negative balance they owed */
+  creatorDebtRecovery?: {
+    /** Functional-currency amount */
+    amount: number
+    transactionId: string
+    debts: Array<{ debtId: string; amount: number; status: CreatorDebtStatus }>
+  }
+  /** Present when the creator's reserve policy held part of their share */
+  reserve?: {
+    trancheId: string
+    /** Functional-currency amount */
+    amount: number
+    releaseAt: string
+    transactionId: string
+  }
   creatorBalance?: number
 }
 
+export interface ReferralCommission {
+  attributionId: string
+  referrerId: string
+  /** Functional-currency amount */
+  amount: number
+  transactionId: string
+}
+
+export interface ReferralAttribution {
+  id: string
+  referrerId: string
+  referredType: ReferredType
+  referredId: string
+  commissionPercent: number
+  startsAt: string
+  endsAt: string | null
+  status: 'active' | 'ended'
+  metadata: Record<string, unknown>
+  createdAt: string
+}
+
+export type RevenueScheduleStatus = 'active' | 'completed' | 'canceled'
+
+export interface RevenueSchedule {
+  id: string
+  sourceTransactionId: string
+  deferralTransactionId: string | null
+  method: RevenueRecognitionMethod
+  currency: string
+  /** Functional-currency amounts */
+  totalAmount: number
+  recognizedAmount: number
+  /** Released by refunds instead of being earned */
+  unwoundAmount: number
+  deferredBalance: number
+  startDate: string
+  months: number | null
+  status: RevenueScheduleStatus
+  metadata: Record<string, unknown>
+  createdAt: string
+}
+
+export interface RevenueScheduleLine {
+  lineNumber: number
+  name: string | null
+  /** Null for a milestone that has not been completed */
+  recognizeOn: string | null
+  amount: number
+  status: 'pending' | 'recognized' | 'canceled'
+  recognizedAt: string | null
+  recognitionTransactionId: string | null
+}
+
+export type CreatorDebtStatus = 'outstanding' | 'recovered' | 'written_off'
+
+/** A negative creator balance moved to a receivable after a refund or chargeback. */
+export interface CreatorDebt {
+  id: string
+  creatorId: string
+  /** Refund or chargeback that drove the balance negative */
+  sourceTransactionId: string
+  debtTransactionId: string | null
+  writeOffTransactionId: string | null
+  currency: string
+  /** Functional-currency amounts */
+  amount: number
+  recoveredAmount: number
+  writtenOffAmount: number
+  outstandingAmount: number
+  status: CreatorDebtStatus
+  settledAt: string | null
+  metadata: Record<string, unknown>
+  createdAt: string
+}
+
+export interface CreatorReceivableAging {
+  creatorId: string
+  debtCount: number
+  outstanding: number
+  /** Outstanding by debt age in days */
+  current: number
+  days31To60: number
+  days61To90: number
+  daysOver90: number
+  oldestDebtAt: string | null
+}
+
+export interface NegativeBalancePolicy {
+  recoveryPercent: number
+  blockPayouts: boolean
+  writeOffDays: number | null
+}
+
+export interface CreatorReceivablesReport {
+  success: boolean
+  asOf: string
+  policy: NegativeBalancePolicy
+  summary: {
+    creators: number
+    debts: number
+    totalOutstanding: number
+    current: number
+    days31To60: number
+    days61To90: number
+    daysOver90: number
+  }
+  creators: CreatorReceivableAging[]
+}
+
+export interface CreatorDebtRecoveryResult {
+  success: boolean
+  creatorId: string
+  recoveredAmount: number
+  /** Null when the creator had nothing available to recover */
+  transactionId: string | null
+  recoveries: Array<{
+    debtId: string
+    transactionId: string
+    debtTransactionId: string
+    amount: number
+    status: CreatorDebtStatus
+  }>
+}
+
+export interface CreatorReservePolicy {
+  /** Percent of each sale's creator share held, up to two decimals */
+  reservePercent: number
+  /** Days from the sale until its slice is released (1-730) */
+  holdDays: number
+}
+
+export interface CreatorReserveSummary {
+  creatorId: string
+  /** Null when the policy was removed but tranches are still held */
+  reservePercent: number | null
+  holdDays: number | null
+  /** Functional-currency amounts */
+  heldAmount: number
+  heldTranches: number
+  releasedAmount: number
+  nextReleaseAt: string | null
+  nextReleaseAmount: number
+}
+
+export interface CreatorReserveTranche {
+  id: string
+  creatorId: string
+  saleTransactionId: string
+  holdTransactionId: string | null
+  releaseTransactionId: string | null
+  currency: string
+  /** Functional-currency amount */
+  amount: number
+  reservePercent: number
+  releaseAt: string
+  status: 'held' | 'released'
+  releasedAt: string | null
+  createdAt: string
+}
+
+export interface CreatorReserveDetail {
+  success: boolean
+  participantId: string
+  policy: CreatorReservePolicy | null
+  heldAmount: number
+  releasedAmount: number
+  nextReleaseAt: string | null
+  nextReleaseAmount: number
+  /** Held tranches, soonest release first */
+  tranches: CreatorReserveTranche[]
+}
+
+export type GiftCodeKind = 'gift_card' | 'promo'
+
+export interface CreateGiftCodeBatchRequest {
+  /** gift_card: single-use stored value. promo: multi-use, once per customer */
+  kind: GiftCodeKind
+  name: string
+  /** Minor units of the ledger's functional currency */
+  denomination: number
+  currency?: string
+  /** Codes to generate (1-10000, default 1) */
+  count?: number
+  /** Promo only: a chosen code instead of a generated one (count must be 1) */
+  code?: string
+  /** Promo only: total redemptions allowed across all customers */
+  maxRedemptions?: number
+  expiresAt?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface GiftCodeBatch {
+  id: string
+  kind: GiftCodeKind
+  name: string
+  /** Minor units */
+  denomination: number
+  currency: string
+  codeCount: number
+  maxRedemptions: number | null
+  expiresAt: string | null
+  status: 'active' | 'voided'
+  issueTransactionId: string | null
+  exportedAt: string | null
+  voidedAt: string | null
+}
+
+export interface GiftCodeBatchSummary {
+  active: number
+  redeemed: number
+  expired: number
+  voided: number
+  redemptions: number
+  /** Unredeemed gift card value in minor units */
+  outstandingValue: number
+}
+
+export interface GiftCodeRedemption {
+  success: boolean
+  codeId: string
+  kind: GiftCodeKind
+  customerId: string
+  /** Minor units credited to the wallet */
+  amount: number
+  currency: string
+  transactionId: string
+  walletId: string
+  /** Wallet balance after the redemption */
+  walletBalance: number
+}
+
+export interface SubscriptionPlan {
+  id: string
+  participantId: string
+  productId: string | null
+  name: string
+  /** Minor units */
+  amount: number
+  currency: string
+  interval: SubscriptionInterval
+  intervalCount: number
+  revenueRecognition: SubscriptionRevenueRecognition
+  status: 'active' | 'archived'
+  metadata: Record<string, unknown>
+  createdAt: string
+}
+
+export interface Subscription {
+  id: string
+  planId: string
+  participantId: string
+  buyerId: string
+  customerEmail: string | null
+  status: SubscriptionStatus
+  currentPeriodStart: string
+  currentPeriodEnd: string
+  cancelAtPeriodEnd: boolean
+  canceledAt: string | null
+  cancelReason: string | null
+  /** Unused proration credit in minor units, applied to the next charges */
+  creditBalance: number
+  failedAttempts: number
+  nextRetryAt: string | null
+  metadata: Record<string, unknown>
+  createdAt: string
+}
+
+export interface SubscriptionCharge {
+  id: string
+  kind: 'initial' | 'renewal' | 'proration'
+  periodStart: string
+  periodEnd: string
+  /** Minor units, before creditApplied */
+  amount: number
+  creditApplied: number
+  currency: string
+  attempt: number
+  status: 'pending' | 'succeeded' | 'charged_pending_ledger' | 'failed'
+  paymentId: string | null
+  saleTransactionId: string | null
+  failureReason: string | null
+  createdAt: string
+}
+
+export interface SubscriptionProration {
+  remainingFraction: number
+  unusedAmount: number
+  newAmount: number
+  /** Positive nets are charged now; negative nets become credit */
+  netAmount: number
+  prorated: boolean
+  creditAdded: number
+  charge: SubscriptionCharge | null
+}
+
 export interface CheckoutBreakdown {
   grossAmount: number
   creatorAmount: number
   platformAmount: number
-  creatorPercent: number
+  /** Null for multi-party checkouts; each line item carries its own. */
+  creatorPercent: number | null
+}
+
+export interface CheckoutLineItem {
+  id: string | null
+  position: number
+  participantId: string
+  productId: string | null
+  productName: string | null
+  amount: number
+  referenceId: string | null
+  transactionId: string | null
+  breakdown: {
+    creatorAmount: number
+    platformAmount: number
+    soledgicFee: number
+    creatorPercent: number
+  }
 }
 
 export interface ReverseResponse {
@@ -770,6 +1484,8 @@ export interface ReverseResponse {
   voidedAt: string | null
   reversedAt: string | null
   warning: string | null
+  /** Set when the ledger's approval policy queued the reversal instead of posting it */
+  pendingJournal: PendingJournal | null
 }
 
 export interface Period {
@@ -786,6 +1502,302 @@ export interface Period {
   }
 }
 
+export interface FiscalYearClose {
+  periodId: string
+  fiscalYear: number
+  startDate: string
+  endDate: string
+  status: 'closed' | 'locked'
+  closingTransactionId: string | null
+  retainedEarningsAccountId: string | null
+  netIncome: number
+  accountsClosed: number
+}
+
+export type JournalType = 'adjustment' | 'reversal' | 'opening_balance'
+
+export type PendingJournalStatus = 'pending' | 'approved' | 'rejected' | 'posted'
+
+export interface PendingJournal {
+  id: string
+  journalType: JournalType
+  status: PendingJournalStatus
+  /** Minor units of the functional currency */
+  amount: number
+  currency: string
+  summary: string
+  preparedBy: string
+  preparedByUserId: string | null
+  requiredRole: 'owner' | 'admin' | 'member'
+  decidedByUserId: string | null
+  decidedAt: string | null
+  decisionReason: string | null
+  transactionId: string | null
+  postedAt: string | null
+  /** Why the last posting attempt failed; the journal stays approved until one succeeds */
+  postingError: string | null
+  postingAttempts: number
+  createdAt: string
+}
+
+export interface JournalApprovalPolicy {
+  id: string
+  journalType: JournalType
+  /** Minor units; journals at or above this amount wait for approval */
+  thresholdAmount: number
+  requiredRole: 'owner' | 'admin' | 'member'
+  isActive: boolean
+  /** Dashboard user who last changed the policy */
+  updatedBy: string | null
+  updatedAt: string | null
+}
+
+export type RecurringJournalType = 'accrual' | 'deferral' | 'depreciation' | 'reclassification' | 'other'
+export type RecurrenceInterval = 'weekly' | 'monthly' | 'quarterly' | 'annual'
+export type RecurringJournalStatus = 'active' | 'paused' | 'ended'
+
+export interface RecurringJournalEntry {
+  accountType: string
+  entityId?: string | null
+  entryType: 'debit' | 'credit'
+  /** Minor units */
+  amount: number
+}
+
+export interface CreateRecurringJournalRequest {
+  name: string
+  adjustmentType: RecurringJournalType
+  reason: string
+  entries: RecurringJournalEntry[]
+  recurrenceInterval: RecurrenceInterval
+  /** YYYY-MM-DD, today or later; defaults to today */
+  startDate?: string
+  endDate?: string
+  /** Accruals and deferrals only: each instance reverses on the first day of the next period */
+  autoReverse?: boolean
+  preparedBy: string
+}
+
+export interface RecurringJournalTemplate {
+  id: string
+  name: string
+  adjustmentType: RecurringJournalType
+  reason: string
+  entries: RecurringJournalEntry[]
+  /** Minor units: total debits of each instance */
+  amount: number
+  currency: string
+  recurrenceInterval: RecurrenceInterval
+  startDate: string
+  endDate: string | null
+  /** Null once the template has ended */
+  nextRunDate: string | null
+  autoReverse: boolean
+  status: RecurringJournalStatus
+  preparedBy: string
+  occurrencesPosted: number
+  /** First posted instance; later instances link to it as recurring_child */
+  rootTransactionId: string | null
+  lastTransactionId: string | null
+  lastRunAt: string | null
+  /** Why the last run could not post; retried on the next run */
+  lastError: string | null
+  createdAt: string
+}
+
+export interface RecurringJournalInstance {
+  adjustmentId: string
+  transactionId: string
+  adjustmentDate: string
+  autoReverseOn: string | null
+  reversalTransactionId: string | null
+  reversedAt: string | null
+}
+
+export type DepreciationMethod = 'straight_line' | 'declining_balance'
+export type FixedAssetStatus = 'active' | 'fully_depreciated' | 'disposed'
+
+export interface CreateFixedAssetRequest {
+  name: string
+  category?: string
+  description?: string
+  /** Minor units */
+  cost: number
+  /** Minor units; defaults to 0 */
+  salvageValue?: number
+  /** YYYY-MM-DD, today or earlier; defaults to today */
+  acquisitionDate?: string
+  usefulLifeMonths: number
+  /** Defaults to straight_line */
+  method?: DepreciationMethod
+  /** Declining balance only: multiple of the straight-line rate; defaults to 2 */
+  decliningFactor?: number
+  /** Account credited for the cost; defaults to cash */
+  fundingAccountType?: 'cash' | 'accounts_payable' | 'owner_equity'
+}
+
+export interface FixedAsset {
+  id: string
+  name: string
+  category: string | null
+  description: string | null
+  currency: string
+  /** Minor units */
+  cost: number
+  salvageValue: number
+  acquisitionDate: string
+  usefulLifeMonths: number
+  method: DepreciationMethod
+  decliningFactor: number | null
+  fundingAccountType: string
+  /** Minor units: depreciation posted so far */
+  accumulatedDepreciation: number
+  /** Minor units: cost less accumulated depreciation; 0 once disposed */
+  netBookValue: number
+  status: FixedAssetStatus
+  acquisitionTransactionId: string | null
+  lastDepreciatedOn: string | null
+  /** Why the last depreciation run could not post; retried on the next run */
+  lastError: string | null
+  disposalDate: string | null
+  disposalProceeds: number | null
+  /** Minor units: proceeds less net book value; negative for a loss */
+  disposalGainLoss: number | null
+  disposalTransactionId: string | null
+  createdAt: string
+}
+
+export interface FixedAssetDepreciationLine {
+  lineNumber: number
+  /** Last day of the month the line depreciates */
+  depreciateOn: string
+  /** Minor units */
+  amount: number
+  bookValueAfter: number
+  status: 'pending' | 'posted' | 'canceled'
+  postedAt: string | null
+  transactionId: string | null
+}
+
+export interface DisposeFixedAssetRequest {
+  /** YYYY-MM-DD; defaults to today */
+  disposalDate?: string
+  /** Minor units; defaults to 0 (scrapped) */
+  proceeds?: number
+  proceedsAccountType?: 'cash' | 'accounts_receivable'
+}
+
+export interface FixedAssetDisposal {
+  transactionId: string
+  /** Minor units */
+  accumulatedDepreciation: number
+  netBookValue: number
+  proceeds: number
+  /** Negative for a loss */
+  gainLoss: number
+}
+
+/** Book value roll-forward per asset over a period, in minor units. */
+export interface DepreciationSchedule {
+  startDate: string
+  endDate: string
+  assets: Array<{
+    assetId: string
+    name: string
+    category: string | null
+    method: DepreciationMethod
+    status: FixedAssetStatus
+    openingBookValue: number
+    additions: number
+    /** Includes months not yet posted */
+    depreciation: number
+    depreciationPosted: number
+    disposals: number
+    closingBookValue: number
+  }>
+  months: Array<{ month: string; depreciation: number }>
+  totals: {
+    openingBookValue: number
+    additions: number
+    depreciation: number
+    disposals: number
+    closingBookValue: number
+  }
+}
+
+export interface FxRevaluationRun {
+  runId: string | null
+  transactionId: string | null
+  asOfDate: string
+  functionalCurrency: string
+  rates: Record<string, number>
+  unrealizedGainLoss: number
+  realizedGainLoss: number
+  positionsRevalued: number
+}
+
+export interface FxRate {
+  id: string
+  baseCurrency: string
+  quoteCurrency: string
+  rate: number
+  effectiveDate: string
+  source: 'api' | 'csv' | 'ecb_xml' | 'manual'
+  createdAt: string
+  updatedAt: string
+}
+
+export interface FxRateQuote {
+  from: string
+  to: string
+  date: string
+  rate: number
+  /** Effective date of the rate actually used (latest on or before `date`) */
+  effectiveDate: string
+  method: 'identity' | 'direct' | 'inverse' | 'cross'
+}
+
+export interface SalesTaxRate {
+  id: string
+  /** `default` rows are built in; `ledger` rows override them */
+  source: 'ledger' | 'default'
+  countryCode: string
+  stateCode: string | null
+  postalCode: string | null
+  taxCategory: string | null
+  jurisdictionCode: string
+  jurisdictionName: string
+  taxType: SalesTaxType
+  rateBps: number
+  effectiveFrom: string
+  effectiveTo: string | null
+}
+
+export interface SalesTaxNexus {
+  id: string
+  countryCode: string
+  stateCode: string | null
+  registrationNumber: string | null
+  collectTax: boolean
+  effectiveFrom: string
+  effectiveTo: string | null
+}
+
+export interface SalesTaxQuote {
+  collect: boolean
+  subtotalAmount: number
+  taxAmount: number
+  totalAmount: number
+  rateBps: number | null
+  jurisdictionCode: string | null
+  jurisdictionName: string | null
+  taxType: SalesTaxType | null
+  reverseCharge: boolean
+  /** Why no tax was charged */
+  reason: 'exempt' | 'no_rate' | 'no_nexus' | 'reverse_charge' | null
+  asOf: string
+}
+
 export interface ReconciliationSnapshot {
   id: string
   periodStart: string
@@ -803,6 +1815,10 @@ export interface ReconciliationSnapshot {
 export interface FrozenStatement {
   type: 'profit_loss' | 'balance_sheet' | 'trial_balance'
   periodId: string
+  /** The period's close_version when generated; reopening and re-closing adds a version */
+  version: number
+  /** Set once a later close's statement exists; superseded versions cannot change */
+  supersededAt: string | null
   generatedAt: string
   integrityHash: string
   integrityValid: boolean
@@ -988,6 +2004,18 @@ export interface AutoMatchReconciliationResponse {
   }
 }
 
+export type TaxFormType = '1099-NEC' | '1099-K' | '1099-MISC'
+
+/** 1042-S is issued to creators with an active W-8 instead of a 1099. */
+export type TaxDocumentType = TaxFormType | '1042-S'
+
+export type TaxPaymentCategory =
+  | 'nonemployee_compensation'
+  | 'payment_settlement'
+  | 'royalties'
+  | 'rents'
+  | 'other_income'
+
 export interface TaxDocumentsResponse {
   success: boolean
   taxYear: number
@@ -999,10 +2027,210 @@ export interface TaxDocumentsResponse {
       exported: number
       filed: number
     }
+    byFormType: Record<TaxDocumentType, number>
   }
   documents: any[]
 }
 
+export interface TaxFormThreshold {
+  paymentCategory: TaxPaymentCategory
+  formType: TaxFormType
+  formBox: string
+  amountThreshold: number
+  /** Only set for 1099-K: both the amount and the count must be exceeded. */
+  transactionThreshold: number | null
+  taxYearFrom: number
+}
+
+export interface TaxFormThresholdsResponse {
+  success: boolean
+  taxYear: number
+  thresholds: TaxFormThreshold[]
+}
+
+export interface TaxCalculationForm {
+  formType: TaxFormType
+  paymentCategory: TaxPaymentCategory
+  formBox: string
+  grossPayments: number
+  transactionCount: number
+  monthlyTotals: Record<string, unknown>
+  amountThreshold: number
+  transactionThreshold: number | null
+  meetsThreshold: boolean
+  /** Backup withholding on these payments; any amount makes the form required. */
+  backupWithheld: number
+}
+
+export type TaxFilingFormat = 'fire' | 'iris'
+
+/** Transmitter (TCC holder) details; defaults come from ledger settings.tax_filing. */
+export interface TaxFilingTransmitter {
+  tin?: string
+  tcc?: string
+  name?: string
+  contactName?: string
+  contactPhone?: string
+  contactEmail?: string
+}
+
+export interface TaxFilingPayer {
+  tin?: string
+  name?: string
+  address?: string
+  city?: string
+  state?: string
+  zip?: string
+  phone?: string
+}
+
+export interface CreateTaxFilingRequest {
+  taxYear: number
+  format?: TaxFilingFormat
+  formType?: TaxFormType
+  /** Test files go to the IRS test system and leave documents unfiled. */
+  testFile?: boolean
+  combinedFederalState?: boolean
+  /** Full 9-digit TIN per recipient; must end in the last four on file. Never stored. */
+  payeeTins: Record<string, string>
+  transmitter?: TaxFilingTransmitter
+  payer?: TaxFilingPayer
+}
+
+export interface TaxFiling {
+  id: string
+  taxYear: number
+  format: TaxFilingFormat
+  testFile: boolean
+  formTypes: TaxFormType[]
+  documentCount: number
+  payeeCount: number
+  totalAmount: number
+  fileName: string
+  fileHash: string
+  status: 'generated' | 'submitted' | 'accepted' | 'rejected'
+  createdAt: string | null
+  /** Only on create and get; expires after expiresInSeconds. */
+  downloadUrl: string | null
+  expiresInSeconds: number | null
+  documentsFiled: number | null
+}
+
+export interface TaxFilingResponse {
+  success: boolean
+  filing: TaxFiling
+}
+
+export interface TaxFilingsResponse {
+  success: boolean
+  filings: TaxFiling[]
+}
+
+export type BackupWithholdingStatus = 'not_required' | 'required_missing_tin' | 'required_b_notice'
+
+export interface BackupWithholdingState {
+  participantId: string
+  status: BackupWithholdingStatus
+  active: boolean
+  /** 2400 (24%) while active, otherwise 0. */
+  rateBps: number
+  noticeId: string | null
+  activatedAt: string | null
+  resolvedAt: string | null
+  /** Earnings withheld on at sale time; paying them out is not withheld again. */
+  withheldEarnings: number
+  updatedAt: string | null
+}
+
+export type BackupWithholdingNoticeResolution = 'w9_recertified' | 'irs_validation' | 'ssa_validation' | 'notice_withdrawn'
+
+export interface BackupWithholdingNotice {
+  id: string
+  participantId: string
+  noticeSource: 'cp2100' | 'cp2100a'
+  noticeDate: string
+  receivedDate: string
+  taxYear: number
+  bNoticeType: 'first' | 'second'
+  payeeName: string | null
+  tinLast4: string | null
+  status: 'open' | 'b_notice_sent' | 'resolved'
+  deadlineStatus: 'b_notice_due' | 'b_notice_overdue' | 'awaiting_response' | 'withholding_active' | 'resolved'
+  /** 15 business days after the later of the notice and receipt dates. */
+  bNoticeDueDate: string
+  /** 30 business days after the later of the notice and receipt dates. */
+  withholdingStartDate: string
+  bNoticeSentAt: string | null
+  resolvedAt: string | null
+  resolution: BackupWithholdingNoticeResolution | null
+  importBatchId: string | null
+  createdAt: string | null
+}
+
+export interface BackupWithholdingStatesResponse {
+  success: boolean
+  states: BackupWithholdingState[]
+}
+
+export interface BackupWithholdingStateResponse {
+  success: boolean
+  state: BackupWithholdingState
+  notices: BackupWithholdingNotice[]
+}
+
+export interface BackupWithholdingNoticesResponse {
+  success: boolean
+  notices: BackupWithholdingNotice[]
+  summary: {
+    total: number
+    bNoticeOverdue: number
+    bNoticeDueSoon: number
+    withholdingActive: number
+  }
+}
+
+export interface ImportBackupWithholdingNoticesRequest {
+  noticeDate: string
+  /** Defaults to today; deadlines count from the later of the two dates. */
+  receivedDate?: string
+  noticeSource?: 'cp2100' | 'cp2100a'
+  /** CP2100 account numbers are the participant ids reported on the 1099. */
+  rows?: Array<{
+    accountNumber?: string
+    participantId?: string
+    name?: string
+    /** Only the last four digits are stored. */
+    tin?: string
+    taxYear?: number
+  }>
+  /** CSV alternative to rows: account_number, name, tin, tax_year columns. */
+  csv?: string
+}
+
+export interface ImportBackupWithholdingNoticesResponse {
+  success: boolean
+  import: {
+    batchId: string
+    noticeDate: string
+    receivedDate: string
+    bNoticeDueDate: string
+    withholdingStartDate: string
+    imported: number
+    secondNotices: number
+    duplicates: number
+    unmatched: Array<{ row: number; accountNumber: string; name: string | null }>
+    errors: string[]
+  }
+  notices: BackupWithholdingNotice[]
+}
+
+export interface BackupWithholdingNoticeResponse {
+  success: boolean
+  notice: BackupWithholdingNotice
+  /** Participant state after a resolution. */
+  state?: BackupWithholdingState | null
+}
+
 export interface TaxDocumentResponse {
   success: boolean
   document: any
@@ -1015,6 +2243,14 @@ export interface TaxDocumentGenerationResponse {
     created: number
     skipped: number
     totalAmount: number
+    /** Backup withholding reported as federal income tax withheld on the 1099s. */
+    totalWithheld: number
+    /** Creators with an active W-8 get a 1042-S instead of a 1099. */
+    form1042s: {
+      created: number
+      totalAmount: number
+      totalWithheld: number
+    }
   }
 }
 
@@ -1027,7 +2263,9 @@ export interface TaxCalculationResponse {
     transactionCount: number
     requires1099: boolean
     monthlyTotals: Record<string, unknown>
-    threshold: number
+    /** 1099-NEC threshold for the tax year; see forms for the other forms. */
+    threshold: number | null
+    forms: TaxCalculationForm[]
     linkedUserId: string | null
     sharedTaxProfile: {
       status: string
@@ -1336,6 +2574,7 @@ export interface CheckoutSessionResourceResponse {
     currency: string
     expiresAt: string | null
     breakdown: CheckoutBreakdown | null
+    lineItems?: CheckoutLineItem[]
   }
 }
 
@@ -1347,11 +2586,25 @@ export interface PayoutResourceResponse {
     grossAmount: number | null
     fees: number | null
     netAmount: number | null
+    /** Backup withholding kept back from this payout; already excluded from netAmount. */
+    backupWithholding: number | null
     previousBalance: number | null
     newBalance: number | null
   }
 }
 
+export interface PayoutReturnResponse {
+  success: boolean
+  created: boolean
+  payoutReturn: {
+    payoutId: string
+    returnTransactionId: string
+    returnCode: string
+    returnReason: string | null
+    requiresNewBankDetails: boolean
+  }
+}
+
 export interface RefundResourceResponse {
   success: boolean
   refund: {
@@ -0,0 +1,148 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  findEnclosingClosedPeriod,
+  nextCloseVersion,
+  reopenPeriodResponse,
+  validatePeriodReopen,
+} from '../accounting-period-service.ts'
+
+const INTERNAL_TOKEN = 'test-internal-token'
+Deno.env.set('SOLEDGIC_INTERNAL_FUNCTION_TOKEN', INTERNAL_TOKEN)
+
+const periodId = 'b7b0c6a4-5d8e-4c1f-9a7e-2f3d4c5b6a79'
+const ownerId = '0f8fad5b-d9cb-469f-a165-70867728950e'
+const march = {
+  id: periodId,
+  period_type: 'monthly',
+  period_start: '2026-03-01',
+  period_end: '2026-03-31',
+  status: 'closed',
+  close_version: 1,
+  closed_at: '2026-04-02T10:00:00Z',
+  closing_hash: 'abc123',
+}
+
+function mockSupabase(options: { role?: string; period?: any; covering?: any[] }) {
+  const calls = { updates: [] as any[], inserts: [] as Array<[string, any]> }
+  const supabase = {
+    from: (table: string) => {
+      let updating: any = null
+      const chain: any = {
+        select: () => chain,
+        eq: () => chain,
+        in: () => chain,
+        lte: () => chain,
+        gte: () => chain,
+        update: (row: any) => {
+          calls.updates.push(row)
+          updating = row
+          return chain
+        },
+        insert: (row: any) => {
+          calls.inserts.push([table, row])
+          return Promise.resolve({ error: null })
+        },
+        maybeSingle: () => {
+          if (table === 'organization_members') {
+            return Promise.resolve({ data: options.role ? { role: options.role } : null, error: null })
+          }
+          const data = options.period ? { ...options.period, ...(updating || {}) } : null
+          return Promise.resolve({ data, error: null })
+        },
+        then: (resolve: any) => resolve({ data: options.covering || [], error: null }),
+      }
+      return chain
+    },
+  } as any
+  return { supabase, calls }
+}
+
+const ledger = { id: 'ledger_1', organization_id: 'org_1', status: 'active', settings: {} } as any
+
+function dashboardRequest(userId: string | null = ownerId, token = INTERNAL_TOKEN) {
+  const headers: Record<string, string> = { 'x-soledgic-internal-token': token }
+  if (userId) headers['x-soledgic-user-id'] = userId
+  return new Request('http://localhost/reopen-period', { method: 'POST', headers })
+}
+
+// ==========================================================================
+// Helpers
+// ==========================================================================
+
+Deno.test('validate: period id and a non-empty reason are required', () => {
+  assertEquals(
+    validatePeriodReopen({ period_id: periodId, reason: '  Late vendor invoice  ' }).request,
+    { period_id: periodId, reason: 'Late vendor invoice' },
+  )
+  assertEquals(validatePeriodReopen({ period_id: periodId, reason: '   ' }).error, 'reason is required to reopen a period')
+  assertEquals(validatePeriodReopen({ period_id: periodId }).error, 'reason is required to reopen a period')
+  assertEquals(validatePeriodReopen({ period_id: 'march', reason: 'x' }).error, 'period_id must be a valid UUID')
+  assertEquals(typeof validatePeriodReopen({ period_id: periodId, reason: 'x'.repeat(1001) }).error, 'string')
+})
+
+Deno.test('enclosing: a closed quarter or locked year blocks reopening a month inside it', () => {
+  const quarter = { id: 'q1', period_type: 'quarterly', period_start: '2026-01-01', period_end: '2026-03-31', status: 'closed' }
+  const year = { id: 'fy', period_type: 'annual', period_start: '2026-01-01', period_end: '2026-12-31', status: 'locked' }
+
+  assertEquals(findEnclosingClosedPeriod(march, [march, quarter])?.id, 'q1')
+  assertEquals(findEnclosingClosedPeriod(march, [year])?.id, 'fy')
+  assertEquals(findEnclosingClosedPeriod(march, [march, { ...quarter, status: 'open' }]), null)
+  assertEquals(findEnclosingClosedPeriod(quarter, [march]), null)
+})
+
+Deno.test('close version: only a close after a reopen moves to the next version', () => {
+  assertEquals(nextCloseVersion(null), 1)
+  assertEquals(nextCloseVersion({ close_version: 1, reopened_at: null }), 1)
+  assertEquals(nextCloseVersion({ close_version: 1, reopened_at: '2026-04-10T09:00:00Z' }), 2)
+  assertEquals(nextCloseVersion({ close_version: 2, reopened_at: '2026-05-01T09:00:00Z' }), 3)
+})
+
+// ==========================================================================
+// Reopen
+// ==========================================================================
+
+Deno.test('reopen: API keys and forged user headers are refused', async () => {
+  const { supabase, calls } = mockSupabase({ role: 'owner', period: march })
+
+  const noUser = await reopenPeriodResponse(dashboardRequest(null), supabase, ledger, { period_id: periodId, reason: 'Late invoice' }, 'req_1')
+  const forged = await reopenPeriodResponse(dashboardRequest(ownerId, 'wrong'), supabase, ledger, { period_id: periodId, reason: 'Late invoice' }, 'req_1')
+
+  assertEquals(noUser.body.error_code, 'owner_required')
+  assertEquals(forged.status, 403)
+  assertEquals(calls.updates.length, 0)
+})
+
+Deno.test('reopen: admins cannot reopen periods', async () => {
+  const { supabase, calls } = mockSupabase({ role: 'admin', period: march })
+
+  const result = await reopenPeriodResponse(dashboardRequest(), supabase, ledger, { period_id: periodId, reason: 'Late invoice' }, 'req_1')
+
+  assertEquals(result.status, 403)
+  assertEquals(result.body.error_code, 'insufficient_role')
+  assertEquals(calls.updates.length, 0)
+})
+
+Deno.test('reopen: locked fiscal years and open periods are conflicts', async () => {
+  const locked = mockSupabase({ role: 'owner', period: { ...march, period_type: 'annual', status: 'locked' } })
+  const open = mockSupabase({ role: 'owner', period: { ...march, status: 'open' } })
+
+  const lockedResult = await reopenPeriodResponse(dashboardRequest(), locked.supabase, ledger, { period_id: periodId, reason: 'Late invoice' }, 'req_1')
+  const openResult = await reopenPeriodResponse(dashboardRequest(), open.supabase, ledger, { period_id: periodId, reason: 'Late invoice' }, 'req_1')
+
+  assertEquals(lockedResult.status, 409)
+  assertEquals(lockedResult.body.error_code, 'period_locked')
+  assertEquals(openResult.body.error_code, 'period_not_closed')
+})
+
+Deno.test('reopen: opens the period and records who and why', async () => {
+  const { supabase, calls } = mockSupabase({ role: 'owner', period: march, covering: [march] })
+
+  const result = await reopenPeriodResponse(dashboardRequest(), supabase, ledger, { period_id: periodId, reason: 'Late vendor invoice' }, 'req_1')
+
+  assertEquals(result.status, 200)
+  assertEquals(calls.updates[0].status, 'open')
+  assertEquals(calls.updates[0].reopened_by, ownerId)
+  assertEquals(calls.updates[0].reopen_reason, 'Late vendor invoice')
+  assertEquals((result.body.period as any).status, 'open')
+  assertEquals(result.body.previous_close, { close_version: 1, closed_at: '2026-04-02T10:00:00Z', closing_hash: 'abc123' })
+})
@@ -0,0 +1,131 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  addBusinessDays,
+  computeNoticeDeadlines,
+  getNoticeDeadlineStatus,
+  importBackupWithholdingNoticesResponse,
+  maskTin,
+  parseCp2100Csv,
+  resolveBackupWithholdingNoticeResponse,
+} from '../backup-withholding-service.ts'
+
+const ledger = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  business_name: 'Test Platform',
+  settings: {},
+} as any
+
+const req = new Request('https://example.com')
+const requestId = 'req_test'
+
+// Chainable query stub: filters return the builder; awaiting it or calling
+// maybeSingle resolves to `result`.
+function query(result: { data: unknown; error: unknown }) {
+  const builder: any = {
+    select() { return builder },
+    eq() { return builder },
+    neq() { return builder },
+    in() { return builder },
+    gte() { return builder },
+    lt() { return builder },
+    order() { return builder },
+    limit() { return builder },
+    insert() { return Promise.resolve({ error: null }) },
+    maybeSingle() { return Promise.resolve(result) },
+    then(resolve: (value: unknown) => unknown) { return Promise.resolve(result).then(resolve) },
+  }
+  return builder
+}
+
+Deno.test('addBusinessDays: skips weekends', () => {
+  // 2026-03-06 is a Friday
+  assertEquals(addBusinessDays('2026-03-06', 1), '2026-03-09')
+  assertEquals(addBusinessDays('2026-03-06', 15), '2026-03-27')
+  assertEquals(addBusinessDays('2026-03-06', 30), '2026-04-17')
+})
+
+Deno.test('computeNoticeDeadlines: counts from the later of notice and receipt', () => {
+  const deadlines = computeNoticeDeadlines('2026-03-02', '2026-03-06')
+  assertEquals(deadlines.base_date, '2026-03-06')
+  assertEquals(deadlines.b_notice_due_date, '2026-03-27')
+  assertEquals(deadlines.withholding_start_date, '2026-04-17')
+})
+
+Deno.test('getNoticeDeadlineStatus: overdue, awaiting response and withholding', () => {
+  const notice = { status: 'open', b_notice_due_date: '2026-03-27', withholding_start_date: '2026-04-17' }
+  assertEquals(getNoticeDeadlineStatus(notice, '2026-03-20'), 'b_notice_due')
+  assertEquals(getNoticeDeadlineStatus(notice, '2026-03-30'), 'b_notice_overdue')
+  assertEquals(getNoticeDeadlineStatus({ ...notice, status: 'b_notice_sent' }, '2026-03-30'), 'awaiting_response')
+  assertEquals(getNoticeDeadlineStatus({ ...notice, status: 'b_notice_sent' }, '2026-04-17'), 'withholding_active')
+  assertEquals(getNoticeDeadlineStatus({ ...notice, status: 'resolved' }, '2026-04-20'), 'resolved')
+})
+
+Deno.test('parseCp2100Csv: reads rows and keeps only the TIN last four', () => {
+  const result = parseCp2100Csv([
+    'account_number,Name,TIN,tax_year',
+    'creator_1,"Jane Smith",123-45-6789,2025',
+    ',No Account,987654321,2025',
+  ].join('\n'))
+
+  assertEquals(result.rows, [{ account_number: 'creator_1', name: 'Jane Smith', tin: '123-45-6789', tax_year: 2025 }])
+  assertEquals(result.errors, ['Row 3: missing account number'])
+  assertEquals(maskTin(result.rows[0].tin), '6789')
+  assertEquals(maskTin('12'), null)
+})
+
+Deno.test('import notices: flags second notices and reports unmatched rows', async () => {
+  const upserts: any[] = []
+  const refreshed: string[] = []
+  const supabase = {
+    from(table: string) {
+      if (table === 'accounts') {
+        return query({ data: [{ entity_id: 'creator_1' }, { entity_id: 'creator_2' }], error: null })
+      }
+      // Prior notices lookup, then the upsert of the new rows
+      const builder = query({ data: [{ entity_id: 'creator_2', notice_date: '2024-10-01' }], error: null })
+      builder.upsert = (rows: any[]) => {
+        upserts.push(...rows)
+        return query({ data: rows.map((row, i) => ({ id: `n${i}`, status: 'open', ...row })), error: null })
+      }
+      return builder
+    },
+    rpc(_fn: string, args: { p_entity_id: string }) {
+      refreshed.push(args.p_entity_id)
+      return Promise.resolve({ data: [{ out_status: 'not_required', out_notice_id: null, out_withheld_earnings: 0 }], error: null })
+    },
+  } as any
+
+  const result = await importBackupWithholdingNoticesResponse(req, supabase, ledger, {
+    notice_date: '2026-03-02',
+    received_date: '2026-03-06',
+    rows: [
+      { account_number: 'creator_1', name: 'Jane Smith', tin: '123456789', tax_year: 2025 },
+      { account_number: 'creator_2', name: 'Widget Co', tin: '987654321' },
+      { account_number: 'ghost', name: 'Nobody' },
+    ],
+  }, requestId)
+
+  assertEquals(result.status, 201)
+  const summary = result.body.import as Record<string, any>
+  assertEquals(summary.imported, 2)
+  assertEquals(summary.second_notices, 1)
+  assertEquals(summary.b_notice_due_date, '2026-03-27')
+  assertEquals(summary.unmatched, [{ row: 3, account_number: 'ghost', name: 'Nobody' }])
+  assertEquals(upserts.map((row) => [row.entity_id, row.b_notice_type, row.tin_last4, row.tax_year]), [
+    ['creator_1', 'first', '6789', 2025],
+    ['creator_2', 'second', '4321', 2025],
+  ])
+  assertEquals(refreshed, ['creator_1', 'creator_2'])
+})
+
+Deno.test('resolve notice: a second notice needs IRS or SSA validation', async () => {
+  const supabase = {
+    from() {
+      return query({ data: { id: 'n1', entity_id: 'creator_2', b_notice_type: 'second', status: 'b_notice_sent' }, error: null })
+    },
+  } as any
+
+  const result = await resolveBackupWithholdingNoticeResponse(req, supabase, ledger, 'n1', { resolution: 'w9_recertified' }, requestId)
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_notice_resolution')
+})
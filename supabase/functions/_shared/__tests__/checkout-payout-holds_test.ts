@@ -362,6 +362,9 @@ Deno.test('payout: returns 409 on idempotency conflict', async () => {
           },
         })
       }
+      if (fn === 'recover_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
+      }
       throw new Error(`Unexpected RPC: ${fn}`)
     },
     from() {
@@ -396,6 +399,9 @@ Deno.test('payout: exhausts retries on persistent transient errors', async () =>
           },
         })
       }
+      if (fn === 'recover_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
+      }
       throw new Error(`Unexpected RPC: ${fn}`)
     },
     from() {
@@ -430,6 +436,9 @@ Deno.test('payout: maps insufficient_balance status to 400 with details', async
           error: null,
         })
       }
+      if (fn === 'recover_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
+      }
       throw new Error(`Unexpected RPC: ${fn}`)
     },
     from() {
@@ -462,6 +471,9 @@ Deno.test('payout: maps duplicate reference_id to 409', async () => {
           error: null,
         })
       }
+      if (fn === 'recover_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
+      }
       throw new Error(`Unexpected RPC: ${fn}`)
     },
     from() {
@@ -505,6 +517,9 @@ Deno.test('payout: maps creator_not_found RPC status to 404', async () => {
           error: null,
         })
       }
+      if (fn === 'recover_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
+      }
       throw new Error(`Unexpected RPC: ${fn}`)
     },
     from() {
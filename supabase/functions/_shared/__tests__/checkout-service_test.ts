@@ -1,5 +1,5 @@
 import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
-import { createCheckoutResponse } from '../checkout-service.ts'
+import { createCheckoutResponse, validateCheckoutLineItems } from '../checkout-service.ts'
 
 const ledger = {
   id: '550e8400-e29b-41d4-a716-446655440000',
@@ -110,7 +110,24 @@ Deno.test('checkout: accepts exactly 50 cents (boundary)', async () => {
 
 Deno.test('checkout: adds Maryland digital goods tax from explicit address fields', async () => {
   let insertedSession: Record<string, unknown> | null = null
+  let taxArgs: Record<string, unknown> | null = null
   const supabase = {
+    rpc(fn: string, args: Record<string, unknown>) {
+      if (fn !== 'calculate_sales_tax') throw new Error(`Unexpected rpc: ${fn}`)
+      taxArgs = args
+      return Promise.resolve({
+        data: {
+          collect: true,
+          tax_cents: 60,
+          rate_bps: 600,
+          jurisdiction_code: 'US-MD',
+          jurisdiction_name: 'Maryland',
+          tax_type: 'sales_tax',
+          reverse_charge: false,
+        },
+        error: null,
+      })
+    },
     from(table: string) {
       if (table === 'product_splits') {
         return {
@@ -174,7 +191,96 @@ Deno.test('checkout: adds Maryland digital goods tax from explicit address field
   assertEquals(body.checkout_session.breakdown.subtotal_amount, 10)
   assertEquals(body.checkout_session.breakdown.sales_tax_amount, 0.6)
   assertEquals(insertedSession?.sales_tax_amount, 60)
+  assertEquals(insertedSession?.sales_tax_state, 'MD')
+  assertEquals(insertedSession?.sales_tax_jurisdiction, 'US-MD')
   assertEquals(insertedSession?.metadata?.customer_tax_source, 'request_address')
+  assertEquals(taxArgs?.p_state_code, 'MD')
+  assertEquals(taxArgs?.p_tax_category, 'digital_goods')
+})
+
+Deno.test('checkout: reverse-charges VAT for EU business buyers', async () => {
+  let insertedSession: Record<string, unknown> | null = null
+  const supabase = {
+    rpc() {
+      return Promise.resolve({
+        data: {
+          collect: false,
+          tax_cents: 0,
+          rate_bps: 0,
+          jurisdiction_code: 'DE',
+          jurisdiction_name: 'Germany',
+          tax_type: 'vat',
+          reverse_charge: true,
+          reason: 'reverse_charge',
+        },
+        error: null,
+      })
+    },
+    from(table: string) {
+      if (table === 'product_splits') {
+        return {
+          select() { return this },
+          eq() { return this },
+          single() { return Promise.resolve({ data: null, error: { code: 'PGRST116' } }) },
+        }
+      }
+      if (table === 'accounts') {
+        return {
+          select() { return this },
+          eq() { return this },
+          maybeSingle() {
+            return Promise.resolve({
+              data: { id: 'acct_1', is_active: true, metadata: {} },
+              error: null,
+            })
+          },
+          single() {
+            return Promise.resolve({ data: { metadata: {} }, error: null })
+          },
+        }
+      }
+      if (table === 'checkout_sessions') {
+        return {
+          insert(payload: Record<string, unknown>) {
+            insertedSession = payload
+            return {
+              select() { return this },
+              single() {
+                return Promise.resolve({
+                  data: { id: 'sess_vat', expires_at: '2026-01-01T01:00:00Z' },
+                  error: null,
+                })
+              },
+            }
+          },
+        }
+      }
+      if (table === 'audit_log') {
+        const chain: any = { select() { return chain }, eq() { return chain }, gte() { return chain }, neq() { return chain }, single() { return Promise.resolve({ data: null, error: null }) }, insert() { return Promise.resolve({ error: null }) } }
+        return chain
+      }
+      throw new Error(`Unexpected table: ${table}`)
+    },
+  } as any
+
+  const result = await createCheckoutResponse(req, supabase, ledger, {
+    amount: 1000,
+    participant_id: 'creator1',
+    success_url: 'https://example.com/success',
+    collect_sales_tax: true,
+    tax_category: 'digital_goods',
+    customer_country: 'DE',
+    customer_tax_id: 'de 123456789',
+  }, requestId)
+
+  assertEquals(result.status, 200)
+  const body = result.body as any
+  assertEquals(body.checkout_session.amount, 1000)
+  assertEquals(body.checkout_session.breakdown.sales_tax_reverse_charge, true)
+  assertEquals(insertedSession?.sales_tax_amount, 0)
+  assertEquals(insertedSession?.sales_tax_jurisdiction, 'DE')
+  assertEquals(insertedSession?.sales_tax_reverse_charge, true)
+  assertEquals(insertedSession?.customer_tax_id, 'DE123456789')
 })
 
 Deno.test('checkout: ignores metadata state when collecting sales tax', async () => {
@@ -429,3 +535,117 @@ Deno.test('checkout: split calculation with default_platform_fee_percent', async
   assertEquals(body.checkout_session.breakdown.platform_amount, 14.48) // 1448 / 100
   assertEquals(body.checkout_session.breakdown.soledgic_fee, 3.5) // 350 / 100
 })
+
+Deno.test('checkout: validates line items and their total', async () => {
+  assertEquals(validateCheckoutLineItems([]).error?.body.error_code, 'invalid_line_items')
+  assertEquals(validateCheckoutLineItems([{ participant_id: 'creator1', amount: 0 }]).error?.body.error_code, 'invalid_amount')
+  assertEquals(validateCheckoutLineItems([{ participant_id: 'bad id!', amount: 500 }]).error?.body.error_code, 'invalid_participant_id')
+  assertEquals(validateCheckoutLineItems([{ creator_id: 'creator1', amount: 500 }]).items?.[0].position, 1)
+
+  const result = await createCheckoutResponse(req, {} as any, ledger, {
+    amount: 1000,
+    line_items: [
+      { participant_id: 'creator1', amount: 600 },
+      { participant_id: 'creator2', amount: 300 },
+    ],
+    success_url: 'https://example.com/success',
+  }, requestId)
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'line_items_total_mismatch')
+})
+
+Deno.test('checkout: line items get their own product and creator splits', async () => {
+  const customLedger = { ...ledger, settings: { default_platform_fee_percent: 15 } }
+  let sessionInsert: any = null
+  let savedLineItems: any[] = []
+
+  const supabase = {
+    from(table: string) {
+      if (table === 'product_splits') {
+        return {
+          select() { return this },
+          eq(_column: string, value: string) {
+            this.productId = value
+            return this
+          },
+          single() {
+            return Promise.resolve(this.productId === 'prod_a'
+              ? { data: { creator_percent: 70 }, error: null }
+              : { data: null, error: { code: 'PGRST116' } })
+          },
+        } as any
+      }
+      if (table === 'accounts') {
+        return {
+          select() { return this },
+          eq() { return this },
+          in() { return this },
+          single() { return Promise.resolve({ data: { metadata: {} }, error: null }) },
+          then(resolve: any) { return Promise.resolve({ data: [], error: null }).then(resolve) },
+        }
+      }
+      if (table === 'checkout_sessions') {
+        return {
+          insert(row: any) {
+            sessionInsert = row
+            return {
+              select() { return this },
+              single() {
+                return Promise.resolve({ data: { id: 'sess_cart', expires_at: '2026-01-01T01:00:00Z' }, error: null })
+              },
+            }
+          },
+        }
+      }
+      if (table === 'checkout_line_items') {
+        return {
+          upsert(rows: any[]) {
+            savedLineItems = rows
+            return {
+              select() {
+                return Promise.resolve({
+                  data: rows.map((row) => ({ id: `li_${row.position}`, position: row.position, reference_id: null, transaction_id: null })),
+                  error: null,
+                })
+              },
+            }
+          },
+        }
+      }
+      if (table === 'audit_log') {
+        const chain: any = { select() { return chain }, eq() { return chain }, gte() { return chain }, neq() { return chain }, single() { return Promise.resolve({ data: null, error: null }) }, insert() { return Promise.resolve({ error: null }) } }
+        return chain
+      }
+      throw new Error(`Unexpected table: ${table}`)
+    },
+  } as any
+
+  const result = await createCheckoutResponse(req, supabase, customLedger, {
+    line_items: [
+      { participant_id: 'creator1', product_id: 'prod_a', product_name: 'Preset pack', amount: 10000 },
+      { participant_id: 'creator2', amount: 2000 },
+    ],
+    success_url: 'https://example.com/success',
+  }, requestId)
+
+  assertEquals(result.status, 200)
+  const session = (result.body as any).checkout_session
+  // Line 1: fee=350, net=9650, creator=floor(9650*0.70)=6755, platform=2895
+  // Line 2: fee=70, net=1930, creator=floor(1930*0.85)=1640, platform=290
+  assertEquals(session.amount, 12000)
+  assertEquals(session.breakdown.creator_amount, 83.95)
+  assertEquals(session.breakdown.platform_amount, 31.85)
+  assertEquals(session.breakdown.soledgic_fee, 4.2)
+  assertEquals(session.breakdown.creator_percent, null)
+  assertEquals(session.line_items.map((item: any) => [item.id, item.participant_id, item.breakdown.creator_percent]), [
+    ['li_1', 'creator1', 70],
+    ['li_2', 'creator2', 85],
+  ])
+  assertEquals(sessionInsert.creator_id, null)
+  assertEquals(sessionInsert.line_item_count, 2)
+  assertEquals(savedLineItems.map((row) => [row.checkout_reference, row.creator_amount, row.platform_amount, row.soledgic_fee]), [
+    ['checkout_sess_cart', 6755, 2895, 350],
+    ['checkout_sess_cart', 1640, 290, 70],
+  ])
+})
@@ -0,0 +1,131 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  checkCreatorDebtPayoutBlock,
+  getNegativeBalancePolicy,
+  recordCreatorDebts,
+  recoverCreatorDebts,
+} from '../creator-receivables-service.ts'
+
+function mockSupabase(rpcRows: any[] | null, rpcError: unknown = null, debtRows: any[] = []) {
+  const calls = { rpc: [] as Array<[string, any]>, debtQueries: 0 }
+  const supabase = {
+    rpc: (name: string, params: any) => {
+      calls.rpc.push([name, params])
+      return Promise.resolve({ data: rpcRows, error: rpcError })
+    },
+    from: (table: string) => {
+      assertEquals(table, 'creator_debts')
+      calls.debtQueries++
+      const chain: any = {
+        select: () => chain,
+        eq: () => chain,
+        then: (resolve: any) => resolve({ data: debtRows, error: null }),
+      }
+      return chain
+    },
+  } as any
+  return { supabase, calls }
+}
+
+const ledger = (settings: Record<string, unknown> = {}) => ({ id: 'ledger_1', settings }) as any
+
+// ==========================================================================
+// getNegativeBalancePolicy
+// ==========================================================================
+
+Deno.test('policy: recovers everything and never blocks or writes off by default', () => {
+  assertEquals(getNegativeBalancePolicy({}), { recovery_percent: 100, block_payouts: false, write_off_days: null })
+  assertEquals(getNegativeBalancePolicy(null), { recovery_percent: 100, block_payouts: false, write_off_days: null })
+})
+
+Deno.test('policy: reads and clamps ledger settings', () => {
+  assertEquals(getNegativeBalancePolicy({
+    negative_balance_recovery_percent: 50,
+    negative_balance_block_payouts: true,
+    negative_balance_write_off_days: 90,
+  }), { recovery_percent: 50, block_payouts: true, write_off_days: 90 })
+
+  assertEquals(getNegativeBalancePolicy({ negative_balance_recovery_percent: 250 }).recovery_percent, 100)
+  assertEquals(getNegativeBalancePolicy({ negative_balance_recovery_percent: '50' }).recovery_percent, 100)
+  assertEquals(getNegativeBalancePolicy({ negative_balance_block_payouts: 'yes' }).block_payouts, false)
+  assertEquals(getNegativeBalancePolicy({ negative_balance_write_off_days: 1.5 }).write_off_days, null)
+  assertEquals(getNegativeBalancePolicy({ negative_balance_write_off_days: -1 }).write_off_days, null)
+})
+
+// ==========================================================================
+// recordCreatorDebts
+// ==========================================================================
+
+Deno.test('record debts: maps new and existing debts for the refund', async () => {
+  const { supabase, calls } = mockSupabase([
+    { out_debt_id: 'debt_1', out_creator_id: 'creator_1', out_debt_transaction_id: 'tx_debt_1', out_amount: '42.50', out_created: true },
+    { out_debt_id: 'debt_0', out_creator_id: 'creator_2', out_debt_transaction_id: 'tx_debt_0', out_amount: 10, out_created: false },
+  ])
+
+  const debts = await recordCreatorDebts(supabase, 'ledger_1', 'tx_refund', 'req_1')
+
+  assertEquals(debts, [
+    { debt_id: 'debt_1', creator_id: 'creator_1', debt_transaction_id: 'tx_debt_1', amount: 42.5, created: true },
+    { debt_id: 'debt_0', creator_id: 'creator_2', debt_transaction_id: 'tx_debt_0', amount: 10, created: false },
+  ])
+  assertEquals(calls.rpc[0], ['record_creator_debts', { p_ledger_id: 'ledger_1', p_transaction_id: 'tx_refund' }])
+})
+
+Deno.test('record debts: never fails the refund', async () => {
+  const { supabase } = mockSupabase(null, { message: 'boom' })
+
+  assertEquals(await recordCreatorDebts(supabase, 'ledger_1', 'tx_refund', 'req_1'), [])
+})
+
+// ==========================================================================
+// recoverCreatorDebts
+// ==========================================================================
+
+Deno.test('recover debts: one row per debt the recovery pays down', async () => {
+  const { supabase, calls } = mockSupabase([
+    { out_debt_id: 'debt_1', out_transaction_id: 'tx_recovery', out_debt_transaction_id: 'tx_debt_1', out_amount: '30.00', out_status: 'recovered' },
+    { out_debt_id: 'debt_2', out_transaction_id: 'tx_recovery', out_debt_transaction_id: 'tx_debt_2', out_amount: '5.25', out_status: 'outstanding' },
+  ])
+
+  const { recoveries, error } = await recoverCreatorDebts(supabase, 'ledger_1', 'creator_1', 'req_1')
+
+  assertEquals(error, undefined)
+  assertEquals(recoveries.map((recovery) => [recovery.debt_id, recovery.debt_transaction_id, recovery.amount, recovery.status]), [
+    ['debt_1', 'tx_debt_1', 30, 'recovered'],
+    ['debt_2', 'tx_debt_2', 5.25, 'outstanding'],
+  ])
+  assertEquals(calls.rpc[0], ['recover_creator_debts', { p_ledger_id: 'ledger_1', p_creator_id: 'creator_1' }])
+})
+
+// ==========================================================================
+// checkCreatorDebtPayoutBlock
+// ==========================================================================
+
+Deno.test('payout block: off by default, even with open debts', async () => {
+  const { supabase, calls } = mockSupabase([], null, [{ amount: 50, recovered_amount: 0, written_off_amount: 0 }])
+
+  assertEquals(await checkCreatorDebtPayoutBlock(supabase, ledger(), 'creator_1', 'req_1'), { blocked: false, outstanding: 0 })
+  assertEquals(calls.rpc[0][0], 'recover_creator_debts')
+  assertEquals(calls.debtQueries, 0)
+})
+
+Deno.test('payout block: blocks while what is left after recovery is still owed', async () => {
+  const { supabase } = mockSupabase([], null, [
+    { amount: '50.00', recovered_amount: '20.00', written_off_amount: 0 },
+    { amount: 10, recovered_amount: 0, written_off_amount: 0 },
+  ])
+
+  assertEquals(
+    await checkCreatorDebtPayoutBlock(supabase, ledger({ negative_balance_block_payouts: true }), 'creator_1', 'req_1'),
+    { blocked: true, outstanding: 40 },
+  )
+})
+
+Deno.test('payout block: allows payouts once debts are recovered', async () => {
+  const { supabase } = mockSupabase([], null, [])
+
+  assertEquals(
+    await checkCreatorDebtPayoutBlock(supabase, ledger({ negative_balance_block_payouts: true }), 'creator_1', 'req_1'),
+    { blocked: false, outstanding: 0 },
+  )
+})
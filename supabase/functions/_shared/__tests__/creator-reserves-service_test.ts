@@ -0,0 +1,133 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  applyCreatorReserve,
+  deleteCreatorReservePolicyResponse,
+  getCreatorReserveResponse,
+  validateReservePolicy,
+} from '../creator-reserves-service.ts'
+
+function mockSupabase(rpcRows: any, rpcError: unknown = null, tableRows: Record<string, any[]> = {}) {
+  const calls = { rpc: [] as Array<[string, any]>, filters: [] as Array<[string, string, unknown]> }
+  const supabase = {
+    rpc: (name: string, params: any) => {
+      calls.rpc.push([name, params])
+      return Promise.resolve({ data: rpcRows, error: rpcError })
+    },
+    from: (table: string) => {
+      const chain: any = {
+        select: () => chain,
+        delete: () => chain,
+        eq: (column: string, value: unknown) => {
+          calls.filters.push([table, column, value])
+          return chain
+        },
+        order: () => chain,
+        limit: () => chain,
+        then: (resolve: any) => resolve({ data: tableRows[table] ?? [], error: null }),
+      }
+      return chain
+    },
+  } as any
+  return { supabase, calls }
+}
+
+const ledger = { id: 'ledger_1', settings: {} } as any
+const req = new Request('http://localhost/holds/reserves/creator_1')
+
+// ==========================================================================
+// validateReservePolicy
+// ==========================================================================
+
+Deno.test('policy: accepts a percent and whole-day hold period', () => {
+  assertEquals(validateReservePolicy({ reserve_percent: 10, hold_days: 90 }), {
+    policy: { reserve_percent: 10, hold_days: 90 },
+  })
+  assertEquals(validateReservePolicy({ reserve_percent: 12.5, hold_days: 1 }).policy?.reserve_percent, 12.5)
+})
+
+Deno.test('policy: rejects out-of-range or malformed values', () => {
+  assertEquals(typeof validateReservePolicy({ reserve_percent: 0, hold_days: 90 }).error, 'string')
+  assertEquals(typeof validateReservePolicy({ reserve_percent: 101, hold_days: 90 }).error, 'string')
+  assertEquals(typeof validateReservePolicy({ reserve_percent: '10', hold_days: 90 }).error, 'string')
+  assertEquals(typeof validateReservePolicy({ reserve_percent: 10.125, hold_days: 90 }).error, 'string')
+  assertEquals(typeof validateReservePolicy({ reserve_percent: 10, hold_days: 0 }).error, 'string')
+  assertEquals(typeof validateReservePolicy({ reserve_percent: 10, hold_days: 731 }).error, 'string')
+  assertEquals(typeof validateReservePolicy({ reserve_percent: 10, hold_days: 1.5 }).error, 'string')
+})
+
+// ==========================================================================
+// applyCreatorReserve
+// ==========================================================================
+
+Deno.test('apply: maps the tranche held from the sale', async () => {
+  const { supabase, calls } = mockSupabase([
+    { out_tranche_id: 'tranche_1', out_hold_transaction_id: 'tx_hold', out_amount: '8.00', out_release_at: '2026-07-01T00:00:00Z', out_created: true },
+  ])
+
+  assertEquals(await applyCreatorReserve(supabase, 'ledger_1', 'tx_sale', 'creator_1', 'req_1'), {
+    reserve: {
+      tranche_id: 'tranche_1',
+      transaction_id: 'tx_hold',
+      amount: 8,
+      release_at: '2026-07-01T00:00:00Z',
+      created: true,
+    },
+  })
+  assertEquals(calls.rpc[0], ['apply_creator_reserve', {
+    p_ledger_id: 'ledger_1',
+    p_transaction_id: 'tx_sale',
+    p_creator_id: 'creator_1',
+  }])
+})
+
+Deno.test('apply: null without a policy, and an RPC failure comes back as an error', async () => {
+  assertEquals(await applyCreatorReserve(mockSupabase([]).supabase, 'ledger_1', 'tx_sale', 'creator_1', 'req_1'), { reserve: null })
+  assertEquals(
+    await applyCreatorReserve(mockSupabase(null, { message: 'boom' }).supabase, 'ledger_1', 'tx_sale', 'creator_1', 'req_1'),
+    { reserve: null, error: 'boom' },
+  )
+})
+
+// ==========================================================================
+// Responses
+// ==========================================================================
+
+Deno.test('get: reports held tranches after the policy was removed', async () => {
+  const { supabase } = mockSupabase([
+    {
+      out_creator_id: 'creator_1',
+      out_reserve_percent: null,
+      out_hold_days: null,
+      out_held_amount: '15.00',
+      out_held_tranches: 2,
+      out_released_amount: '5.00',
+      out_next_release_at: '2026-06-01T00:00:00Z',
+      out_next_release_amount: '10.00',
+    },
+  ], null, {
+    creator_reserve_tranches: [
+      { id: 'tranche_1', creator_id: 'creator_1', sale_transaction_id: 'tx_1', amount: '10.00', reserve_percent: '10.00', release_at: '2026-06-01T00:00:00Z', status: 'held' },
+      { id: 'tranche_2', creator_id: 'creator_1', sale_transaction_id: 'tx_2', amount: '5.00', reserve_percent: '10.00', release_at: '2026-06-15T00:00:00Z', status: 'held' },
+    ],
+  })
+
+  const result = await getCreatorReserveResponse(req, supabase, ledger, 'creator_1', 'req_1')
+
+  assertEquals(result.status, 200)
+  assertEquals(result.body.policy, null)
+  assertEquals(result.body.held_amount, 15)
+  assertEquals(result.body.next_release_amount, 10)
+  assertEquals((result.body.tranches as any[]).map((tranche: any) => [tranche.id, tranche.amount]), [['tranche_1', 10], ['tranche_2', 5]])
+})
+
+Deno.test('delete: 404 when the participant has no policy', async () => {
+  const { supabase, calls } = mockSupabase(null, null, { creator_reserve_policies: [] })
+
+  const result = await deleteCreatorReservePolicyResponse(req, supabase, ledger, 'creator_1', 'req_1')
+
+  assertEquals(result.status, 404)
+  assertEquals(calls.filters, [
+    ['creator_reserve_policies', 'ledger_id', 'ledger_1'],
+    ['creator_reserve_policies', 'creator_id', 'creator_1'],
+  ])
+})
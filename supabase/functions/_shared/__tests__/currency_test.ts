@@ -0,0 +1,88 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  convertMinorAmount,
+  getFunctionalCurrency,
+  majorToMinor,
+  minorUnitFactor,
+  normalizeCurrency,
+  resolveTransactionCurrency,
+} from '../currency.ts'
+
+const usdLedger = { settings: { currency: 'USD' } } as any
+const eurLedger = { settings: { currency: 'eur' } } as any
+
+// ============================================================================
+// Minor units
+// ============================================================================
+
+Deno.test('minorUnitFactor: handles zero, two and three decimal currencies', () => {
+  assertEquals(minorUnitFactor('USD'), 100)
+  assertEquals(minorUnitFactor('jpy'), 1)
+  assertEquals(minorUnitFactor('KWD'), 1000)
+  assertEquals(minorUnitFactor(null), 100)
+})
+
+Deno.test('majorToMinor: rounds to the currency precision', () => {
+  assertEquals(majorToMinor(12.345, 'USD'), 1235)
+  assertEquals(majorToMinor(1200, 'JPY'), 1200)
+})
+
+Deno.test('convertMinorAmount: converts between precisions at the given rate', () => {
+  assertEquals(convertMinorAmount(10000, 'EUR', 'USD', 1.0842), 10842)
+  assertEquals(convertMinorAmount(10000, 'JPY', 'USD', 0.0067), 6700)
+  assertEquals(convertMinorAmount(5000, 'USD', 'usd', 2), 5000)
+})
+
+// ============================================================================
+// Functional currency resolution
+// ============================================================================
+
+Deno.test('normalizeCurrency: rejects unsupported codes', () => {
+  assertEquals(normalizeCurrency(' gbp '), 'GBP')
+  assertEquals(normalizeCurrency('XYZ'), null)
+  assertEquals(normalizeCurrency(42), null)
+})
+
+Deno.test('getFunctionalCurrency: falls back to USD', () => {
+  assertEquals(getFunctionalCurrency(eurLedger), 'EUR')
+  assertEquals(getFunctionalCurrency({ settings: {} } as any), 'USD')
+})
+
+Deno.test('resolveTransactionCurrency: defaults to the functional currency', () => {
+  const result = resolveTransactionCurrency(eurLedger, undefined, undefined)
+  assertEquals(result.ok, true)
+  if (result.ok) {
+    assertEquals(result.value.currency, 'EUR')
+    assertEquals(result.value.is_foreign, false)
+    assertEquals(result.value.fx_rate, null)
+  }
+})
+
+Deno.test('resolveTransactionCurrency: foreign currency requires a rate', () => {
+  const result = resolveTransactionCurrency(usdLedger, 'GBP', undefined)
+  assertEquals(result.ok, false)
+  if (!result.ok) assertEquals(result.error_code, 'fx_rate_required')
+})
+
+Deno.test('resolveTransactionCurrency: rejects non-positive rates', () => {
+  const result = resolveTransactionCurrency(usdLedger, 'GBP', 0)
+  assertEquals(result.ok, false)
+  if (!result.ok) assertEquals(result.error_code, 'invalid_fx_rate')
+})
+
+Deno.test('resolveTransactionCurrency: accepts a foreign currency with a rate', () => {
+  const result = resolveTransactionCurrency(usdLedger, 'gbp', 1.27)
+  assertEquals(result.ok, true)
+  if (result.ok) {
+    assertEquals(result.value.currency, 'GBP')
+    assertEquals(result.value.functional_currency, 'USD')
+    assertEquals(result.value.fx_rate, 1.27)
+    assertEquals(result.value.is_foreign, true)
+  }
+})
+
+Deno.test('resolveTransactionCurrency: same currency ignores any rate', () => {
+  const result = resolveTransactionCurrency(usdLedger, 'USD', 1.5)
+  assertEquals(result.ok, true)
+  if (result.ok) assertEquals(result.value.fx_rate, null)
+})
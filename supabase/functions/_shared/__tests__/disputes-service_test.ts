@@ -0,0 +1,196 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  createDisputeResponse,
+  recordDisputeOutcomeResponse,
+  resolveDispute,
+} from '../disputes-service.ts'
+
+const ledger = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  business_name: 'Test Platform',
+  organization_id: 'org_test_1',
+  settings: {},
+} as any
+
+const req = new Request('https://example.com')
+const requestId = 'req_test'
+const disputeUuid = '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+
+const disputeRow = {
+  id: disputeUuid,
+  external_dispute_id: 'dp_123',
+  status: 'open',
+  sale_reference: 'sale_1',
+  sale_transaction_id: 'txn_sale',
+  creator_id: 'creator1',
+  amount: 25,
+  fee_amount: 15,
+  currency: 'USD',
+  evidence: {},
+  chargeback_transaction_id: 'txn_cb',
+  reversal_transaction_id: null,
+  fee_refunded: false,
+  source: 'api',
+}
+
+function makeSupabase(rpcResults: Record<string, { data?: any; error?: any }>, row: any = disputeRow) {
+  const calls: Array<{ fn: string; args: any }> = []
+  const supabase = {
+    calls,
+    from() {
+      const chain: any = {
+        select() { return chain },
+        eq() { return chain },
+        maybeSingle() { return Promise.resolve({ data: row, error: null }) },
+        insert() { return Promise.resolve({ error: null }) },
+      }
+      return chain
+    },
+    rpc(fn: string, args: any) {
+      calls.push({ fn, args })
+      const result = rpcResults[fn] || { data: null, error: null }
+      return Promise.resolve({ data: result.data ?? null, error: result.error ?? null })
+    },
+  }
+  return supabase as any
+}
+
+Deno.test('createDisputeResponse: rejects fractional amounts', async () => {
+  const supabase = makeSupabase({})
+  const result = await createDisputeResponse(req, supabase, ledger, {
+    dispute_id: 'dp_123',
+    amount: 25.5,
+    sale_reference: 'sale_1',
+  }, requestId)
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_amount')
+  assertEquals(supabase.calls.length, 0)
+})
+
+Deno.test('createDisputeResponse: requires a sale or creator', async () => {
+  const result = await createDisputeResponse(req, makeSupabase({}), ledger, {
+    dispute_id: 'dp_123',
+    amount: 2500,
+  }, requestId)
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_dispute')
+})
+
+Deno.test('createDisputeResponse: posts chargeback and queues dispute.opened', async () => {
+  const supabase = makeSupabase({
+    record_dispute_atomic: {
+      data: [{
+        out_dispute_id: disputeUuid,
+        out_chargeback_transaction_id: 'txn_cb',
+        out_status: 'open',
+        out_created: true,
+      }],
+    },
+  })
+
+  const result = await createDisputeResponse(req, supabase, ledger, {
+    dispute_id: 'dp_123',
+    amount: 2500,
+    fee: 1500,
+    sale_reference: 'sale_1',
+  }, requestId)
+
+  assertEquals(result.status, 201)
+  assertEquals(result.body.created, true)
+  assertEquals((result.body.dispute as any).chargeback_transaction_id, 'txn_cb')
+
+  const recordCall = supabase.calls.find((c: any) => c.fn === 'record_dispute_atomic')
+  assertEquals(recordCall.args.p_amount_cents, 2500)
+  assertEquals(recordCall.args.p_fee_cents, 1500)
+  assertEquals(recordCall.args.p_source, 'api')
+
+  const webhook = supabase.calls.find((c: any) => c.fn === 'queue_webhook')
+  assertEquals(webhook.args.p_event_type, 'dispute.opened')
+  assertEquals(webhook.args.p_payload.data.dispute_id, 'dp_123')
+})
+
+Deno.test('createDisputeResponse: replay returns 200 without a webhook', async () => {
+  const supabase = makeSupabase({
+    record_dispute_atomic: {
+      data: [{ out_dispute_id: disputeUuid, out_chargeback_transaction_id: 'txn_cb', out_status: 'open', out_created: false }],
+    },
+  })
+
+  const result = await createDisputeResponse(req, supabase, ledger, {
+    dispute_id: 'dp_123',
+    amount: 2500,
+    sale_reference: 'sale_1',
+  }, requestId)
+
+  assertEquals(result.status, 200)
+  assertEquals(result.body.created, false)
+  assertEquals(supabase.calls.some((c: any) => c.fn === 'queue_webhook'), false)
+})
+
+Deno.test('createDisputeResponse: maps missing sale to 404', async () => {
+  const supabase = makeSupabase({
+    record_dispute_atomic: { error: { message: 'Sale not found: sale_missing' } },
+  })
+
+  const result = await createDisputeResponse(req, supabase, ledger, {
+    dispute_id: 'dp_123',
+    amount: 2500,
+    sale_reference: 'sale_missing',
+  }, requestId)
+
+  assertEquals(result.status, 404)
+  assertEquals(result.body.error_code, 'sale_not_found')
+})
+
+Deno.test('recordDisputeOutcomeResponse: rejects unknown outcomes', async () => {
+  const result = await recordDisputeOutcomeResponse(req, makeSupabase({}), ledger, disputeUuid, {
+    outcome: 'pending',
+  }, requestId)
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_outcome')
+})
+
+Deno.test('recordDisputeOutcomeResponse: conflicting outcome is a 409', async () => {
+  const supabase = makeSupabase({
+    resolve_dispute_atomic: { error: { message: 'Dispute already resolved as lost' } },
+  })
+
+  const result = await recordDisputeOutcomeResponse(req, supabase, ledger, disputeUuid, {
+    outcome: 'won',
+  }, requestId)
+
+  assertEquals(result.status, 409)
+  assertEquals(result.body.error_code, 'dispute_already_resolved')
+})
+
+Deno.test('resolveDispute: won queues dispute.won with the reversal', async () => {
+  const supabase = makeSupabase({
+    resolve_dispute_atomic: {
+      data: [{ out_status: 'won', out_reversal_transaction_id: 'txn_rev', out_changed: true }],
+    },
+  }, { ...disputeRow, status: 'won', reversal_transaction_id: 'txn_rev', fee_refunded: true })
+
+  const result = await resolveDispute(supabase, ledger.id, disputeUuid, 'won', true)
+
+  assertEquals(result.ok, true)
+  if (result.ok) assertEquals(result.transaction_id, 'txn_rev')
+  const webhook = supabase.calls.find((c: any) => c.fn === 'queue_webhook')
+  assertEquals(webhook.args.p_event_type, 'dispute.won')
+  assertEquals(webhook.args.p_payload.data.fee_refunded, true)
+})
+
+Deno.test('resolveDispute: accepted is reported as dispute.lost', async () => {
+  const supabase = makeSupabase({
+    resolve_dispute_atomic: {
+      data: [{ out_status: 'accepted', out_reversal_transaction_id: null, out_changed: true }],
+    },
+  }, { ...disputeRow, status: 'accepted' })
+
+  await resolveDispute(supabase, ledger.id, disputeUuid, 'accepted')
+
+  const webhook = supabase.calls.find((c: any) => c.fn === 'queue_webhook')
+  assertEquals(webhook.args.p_event_type, 'dispute.lost')
+})
@@ -7,6 +7,9 @@ import {
   parseMT940,
   parseFinancialFile,
   normalizeMerchant,
+  isNACHAFile,
+  parseNACHAReturnFile,
+  parseNOCCorrection,
 } from '../financial-file-parsers.ts'
 
 // ============================================================================
@@ -331,3 +334,94 @@ Deno.test('normalizeMerchant: handles PayPal prefix', () => {
 Deno.test('normalizeMerchant: passes through unknown merchants', () => {
   assertEquals(normalizeMerchant('LOCAL BAKERY'), 'LOCAL BAKERY')
 })
+
+// ============================================================================
+// NACHA returns / NOCs
+// ============================================================================
+
+const NACHA_FILE_HEADER = '101 121000358 1234567892604151200A094101' + 'RETURNING BANK'.padEnd(23) + 'SOLEDGIC'.padEnd(23) + ''.padEnd(8)
+const NACHA_BATCH_HEADER = '5220' + ''.padEnd(83) + '0000001'
+
+function nachaEntry(transactionCode: string, trace: string, amount = '0000005000'): string {
+  return '6' + transactionCode + '12100035' + '8' + 'OLD123'.padEnd(17) + amount +
+    'creator_1'.padEnd(15) + 'Jane Creator'.padEnd(22) + '  ' + '1' + trace
+}
+
+function nachaAddenda(type: string, code: string, originalTrace: string, info: string): string {
+  return ('7' + type + code + originalTrace + ''.padEnd(6) + '12345678' + info.padEnd(44)) + '121000350000001'
+}
+
+Deno.test('isNACHAFile: recognizes the file header record', () => {
+  assertEquals(isNACHAFile(NACHA_FILE_HEADER + '\n'), true)
+  assertEquals(isNACHAFile('OFXHEADER:100'), false)
+})
+
+Deno.test('parseNACHAReturnFile: return entry carries code and original trace', () => {
+  const file = [
+    NACHA_FILE_HEADER,
+    NACHA_BATCH_HEADER,
+    nachaEntry('21', '121000350000001'),
+    nachaAddenda('99', 'R03', '123456780000042', 'NO ACCOUNT'),
+    '8220',
+    '9000001',
+  ].join('\n')
+
+  const result = parseNACHAReturnFile(file)
+  assertEquals(result.errors, [])
+  assertEquals(result.file_creation_date, '2026-04-15')
+  assertEquals(result.entries.length, 1)
+  assertEquals(result.entries[0].kind, 'return')
+  assertEquals(result.entries[0].return_code, 'R03')
+  assertEquals(result.entries[0].original_trace_number, '123456780000042')
+  assertEquals(result.entries[0].amount_cents, 5000)
+  assertEquals(result.entries[0].individual_id, 'creator_1')
+  assertEquals(result.entries[0].addenda_information, 'NO ACCOUNT')
+})
+
+Deno.test('parseNACHAReturnFile: COR addenda becomes a NOC entry', () => {
+  const file = [
+    NACHA_FILE_HEADER,
+    NACHA_BATCH_HEADER,
+    nachaEntry('21', '121000350000002', '0000000000'),
+    nachaAddenda('98', 'C01', '123456780000043', 'NEW9876543'),
+  ].join('\r\n')
+
+  const entry = parseNACHAReturnFile(file).entries[0]
+  assertEquals(entry.kind, 'noc')
+  assertEquals(entry.change_code, 'C01')
+  assertEquals(entry.corrected_data, 'NEW9876543')
+  assertEquals(entry.original_trace_number, '123456780000043')
+})
+
+Deno.test('parseNACHAReturnFile: acknowledgment echoes stay plain entries', () => {
+  const file = [NACHA_FILE_HEADER, NACHA_BATCH_HEADER, nachaEntry('22', '123456780000044')].join('\n')
+  const entry = parseNACHAReturnFile(file).entries[0]
+  assertEquals(entry.kind, 'entry')
+  assertEquals(entry.trace_number, '123456780000044')
+  assertEquals(entry.original_trace_number, null)
+})
+
+Deno.test('parseNACHAReturnFile: reports orphan addenda and bad reason codes', () => {
+  const file = [
+    NACHA_FILE_HEADER,
+    nachaAddenda('99', 'R03', '123456780000042', ''),
+    NACHA_BATCH_HEADER,
+    nachaEntry('21', '121000350000001'),
+    nachaAddenda('99', 'X03', '123456780000042', ''),
+  ].join('\n')
+
+  const result = parseNACHAReturnFile(file)
+  assertEquals(result.errors.length, 2)
+  assertEquals(result.entries[0].kind, 'entry')
+})
+
+Deno.test('parseNOCCorrection: decodes bank detail change codes', () => {
+  assertEquals(parseNOCCorrection('C01', 'NEW9876543'), { account_number: 'NEW9876543' })
+  assertEquals(parseNOCCorrection('C02', '021000021'), { routing_number: '021000021' })
+  assertEquals(parseNOCCorrection('C03', '021000021   NEW9876543'), {
+    routing_number: '021000021',
+    account_number: 'NEW9876543',
+  })
+  assertEquals(parseNOCCorrection('C05', '32'), { account_type: 'savings' })
+  assertEquals(parseNOCCorrection('C04', 'JANE Q CREATOR'), null)
+})
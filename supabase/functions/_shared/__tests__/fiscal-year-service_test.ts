@@ -0,0 +1,97 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  fiscalYearBounds,
+  fiscalYearForDate,
+  getFiscalYearStartMonth,
+  postFiscalYearClose,
+  priorFiscalYearEnd,
+} from '../fiscal-year-service.ts'
+
+function mockSupabase(rpcRows: any, rpcError: unknown = null) {
+  const calls = { rpc: [] as Array<[string, any]> }
+  const supabase = {
+    rpc: (name: string, params: any) => {
+      calls.rpc.push([name, params])
+      return Promise.resolve({ data: rpcRows, error: rpcError })
+    },
+  } as any
+  return { supabase, calls }
+}
+
+// ==========================================================================
+// Bounds
+// ==========================================================================
+
+Deno.test('bounds: start month reads both the MM-DD string and a month number', () => {
+  assertEquals(getFiscalYearStartMonth({ fiscal_year_start: '01-01' }), 1)
+  assertEquals(getFiscalYearStartMonth({ fiscal_year_start: '07-01' }), 7)
+  assertEquals(getFiscalYearStartMonth({ fiscal_year_start: 10 }), 10)
+  assertEquals(getFiscalYearStartMonth({ fiscal_year_start: 13 }), 1)
+  assertEquals(getFiscalYearStartMonth({ fiscal_year_start: 'July' }), 1)
+  assertEquals(getFiscalYearStartMonth({}), 1)
+  assertEquals(getFiscalYearStartMonth(null), 1)
+})
+
+Deno.test('bounds: a January fiscal year is the calendar year', () => {
+  assertEquals(fiscalYearBounds(2026, 1), {
+    fiscal_year: 2026,
+    start_date: '2026-01-01',
+    end_date: '2026-12-31',
+  })
+})
+
+Deno.test('bounds: other fiscal years are named by the year they end in', () => {
+  assertEquals(fiscalYearBounds(2026, 7), {
+    fiscal_year: 2026,
+    start_date: '2025-07-01',
+    end_date: '2026-06-30',
+  })
+  assertEquals(fiscalYearBounds(2024, 3).end_date, '2024-02-29')
+})
+
+Deno.test('bounds: dates map to their fiscal year and the prior year end', () => {
+  assertEquals(fiscalYearForDate('2026-06-30', 7), 2026)
+  assertEquals(fiscalYearForDate('2026-07-01', 7), 2027)
+  assertEquals(fiscalYearForDate('2026-12-31', 1), 2026)
+  assertEquals(priorFiscalYearEnd('2026-08-15', 7), '2026-06-30')
+  assertEquals(priorFiscalYearEnd('2026-03-10', 1), '2025-12-31')
+})
+
+// ==========================================================================
+// Posting
+// ==========================================================================
+
+Deno.test('posting: closing entries map the RPC row', async () => {
+  const { supabase, calls } = mockSupabase([{
+    out_transaction_id: 'txn_close',
+    out_retained_earnings_account_id: 'acct_re',
+    out_net_income: '1250.50',
+    out_accounts_closed: 4,
+    out_created: true,
+  }])
+
+  const result = await postFiscalYearClose(supabase, 'ledger_1', fiscalYearBounds(2026, 7), 'req_1')
+
+  assertEquals(calls.rpc[0], ['close_fiscal_year_books', {
+    p_ledger_id: 'ledger_1',
+    p_fiscal_year: 2026,
+    p_period_start: '2025-07-01',
+    p_period_end: '2026-06-30',
+  }])
+  assertEquals(result.posting, {
+    transaction_id: 'txn_close',
+    retained_earnings_account_id: 'acct_re',
+    net_income: 1250.5,
+    accounts_closed: 4,
+    created: true,
+  })
+})
+
+Deno.test('posting: an RPC failure is returned to the caller', async () => {
+  const { supabase } = mockSupabase(null, { message: 'period locked' })
+
+  const result = await postFiscalYearClose(supabase, 'ledger_1', fiscalYearBounds(2026, 1), 'req_1')
+
+  assertEquals(result.posting, undefined)
+  assertEquals(result.error, 'Failed to post closing entries')
+})
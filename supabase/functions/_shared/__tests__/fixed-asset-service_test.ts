@@ -0,0 +1,192 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  buildDepreciationSchedule,
+  createFixedAssetResponse,
+  disposeFixedAssetResponse,
+  validateFixedAsset,
+  validateFixedAssetDisposal,
+} from '../fixed-asset-service.ts'
+
+function mockSupabase(asset: any, rpcResult: { data?: any; error?: any } = {}) {
+  const calls = { rpcs: [] as Array<[string, any]> }
+  const supabase = {
+    rpc: (name: string, params: any) => {
+      calls.rpcs.push([name, params])
+      return Promise.resolve({ data: rpcResult.data ?? null, error: rpcResult.error ?? null })
+    },
+    from: (_table: string) => {
+      const chain: any = {
+        insert: () => Promise.resolve({ error: null }),
+        select: () => chain,
+        eq: () => chain,
+        order: () => Promise.resolve({ data: [], error: null }),
+        maybeSingle: () => Promise.resolve({ data: asset, error: null }),
+      }
+      return chain
+    },
+  } as any
+  return { supabase, calls }
+}
+
+const ledger = { id: 'ledger_1', organization_id: 'org_1', status: 'active', settings: {} } as any
+const today = '2026-10-19'
+const assetId = 'b7b0c6a4-5d8e-4c1f-9a7e-2f3d4c5b6a79'
+const laptop = {
+  name: 'Engineering laptops',
+  category: 'equipment',
+  cost: 360000,
+  salvage_value: 60000,
+  acquisition_date: '2026-01-15',
+  useful_life_months: 36,
+}
+
+function apiRequest() {
+  return new Request('http://localhost/fixed-assets', { method: 'POST' })
+}
+
+// ==========================================================================
+// Validation
+// ==========================================================================
+
+Deno.test('validate: defaults to straight-line funded from cash', () => {
+  const { asset, error } = validateFixedAsset(laptop, today)
+
+  assertEquals(error, undefined)
+  assertEquals(asset?.method, 'straight_line')
+  assertEquals(asset?.declining_factor, null)
+  assertEquals(asset?.funding_account_type, 'cash')
+  assertEquals(asset?.description, null)
+})
+
+Deno.test('validate: declining balance defaults to double-declining', () => {
+  const { asset } = validateFixedAsset({ ...laptop, method: 'declining_balance' }, today)
+  assertEquals(asset?.declining_factor, 2)
+
+  const { asset: custom } = validateFixedAsset({ ...laptop, method: 'declining_balance', declining_factor: 1.5 }, today)
+  assertEquals(custom?.declining_factor, 1.5)
+})
+
+Deno.test('validate: rejects salvage at cost, future acquisitions and stray factors', () => {
+  assertEquals(validateFixedAsset({ ...laptop, salvage_value: 360000 }, today).error, 'salvage_value must be less than cost')
+  assertEquals(validateFixedAsset({ ...laptop, acquisition_date: '2026-10-20' }, today).error, 'acquisition_date cannot be in the future')
+  assertEquals(
+    validateFixedAsset({ ...laptop, declining_factor: 2 }, today).error,
+    'declining_factor only applies to declining_balance assets',
+  )
+  assertEquals(typeof validateFixedAsset({ ...laptop, cost: 3600.5 }, today).error, 'string')
+  assertEquals(typeof validateFixedAsset({ ...laptop, useful_life_months: 0 }, today).error, 'string')
+  assertEquals(typeof validateFixedAsset({ ...laptop, method: 'units_of_production' }, today).error, 'string')
+  assertEquals(typeof validateFixedAsset({ ...laptop, funding_account_type: 'revenue' }, today).error, 'string')
+})
+
+Deno.test('validate: disposal dates stay between acquisition and today', () => {
+  const { disposal } = validateFixedAssetDisposal({ proceeds: 50000 }, '2026-01-15', today)
+  assertEquals(disposal, { disposal_date: today, proceeds: 50000, proceeds_account_type: 'cash' })
+
+  assertEquals(typeof validateFixedAssetDisposal({ disposal_date: '2026-01-14' }, '2026-01-15', today).error, 'string')
+  assertEquals(typeof validateFixedAssetDisposal({ disposal_date: '2026-10-20' }, '2026-01-15', today).error, 'string')
+  assertEquals(typeof validateFixedAssetDisposal({ proceeds: -1 }, '2026-01-15', today).error, 'string')
+})
+
+// ==========================================================================
+// Schedule report
+// ==========================================================================
+
+function monthlyLines(id: string, months: string[], amount: number, postedThrough: string) {
+  return months.map((month) => ({
+    asset_id: id,
+    depreciate_on: `${month}-28`,
+    amount,
+    status: month <= postedThrough ? 'posted' : 'pending',
+  }))
+}
+
+Deno.test('schedule: rolls book value forward and projects pending months', () => {
+  const assets = [
+    { id: 'a1', name: 'Server', method: 'straight_line', status: 'active', cost: 1200, acquisition_date: '2025-11-03' },
+    { id: 'a2', name: 'Desk', method: 'straight_line', status: 'active', cost: 600, acquisition_date: '2026-02-10' },
+  ]
+  const lines = [
+    ...monthlyLines('a1', ['2025-11', '2025-12', '2026-01', '2026-02', '2026-03'], 100, '2026-02'),
+    ...monthlyLines('a2', ['2026-02', '2026-03'], 50, '2026-02'),
+  ]
+
+  const report = buildDepreciationSchedule(assets, lines, '2026-01-01', '2026-03-31')
+
+  assertEquals(report.assets[0].opening_book_value, 100000)
+  assertEquals(report.assets[0].depreciation, 30000)
+  assertEquals(report.assets[0].depreciation_posted, 20000)
+  assertEquals(report.assets[0].closing_book_value, 70000)
+  assertEquals(report.assets[1].opening_book_value, 0)
+  assertEquals(report.assets[1].additions, 60000)
+  assertEquals(report.assets[1].closing_book_value, 50000)
+  assertEquals(report.months, [
+    { month: '2026-01', depreciation: 10000 },
+    { month: '2026-02', depreciation: 15000 },
+    { month: '2026-03', depreciation: 15000 },
+  ])
+  assertEquals(report.totals.closing_book_value, 120000)
+})
+
+Deno.test('schedule: disposals leave at book value and earlier disposals drop out', () => {
+  const assets = [
+    { id: 'a1', name: 'Van', method: 'straight_line', status: 'disposed', cost: 1200, acquisition_date: '2025-11-03', disposal_date: '2026-02-15' },
+    { id: 'a2', name: 'Old van', method: 'straight_line', status: 'disposed', cost: 900, acquisition_date: '2024-01-01', disposal_date: '2025-06-30' },
+  ]
+  const lines = [
+    ...monthlyLines('a1', ['2025-11', '2025-12', '2026-01'], 100, '2026-01'),
+    { asset_id: 'a1', depreciate_on: '2026-02-28', amount: 100, status: 'canceled' },
+  ]
+
+  const report = buildDepreciationSchedule(assets, lines, '2026-01-01', '2026-12-31')
+
+  assertEquals(report.assets.length, 1)
+  assertEquals(report.assets[0].opening_book_value, 100000)
+  assertEquals(report.assets[0].depreciation, 10000)
+  assertEquals(report.assets[0].disposals, 90000)
+  assertEquals(report.assets[0].closing_book_value, 0)
+})
+
+// ==========================================================================
+// Posting
+// ==========================================================================
+
+Deno.test('create: sends major units to register_fixed_asset', async () => {
+  const { supabase, calls } = mockSupabase(
+    { id: assetId, status: 'active', cost: 3600, salvage_value: 600, accumulated_depreciation: 750 },
+    { data: [{ out_asset_id: assetId, out_acquisition_transaction_id: 'tx_1', out_lines_posted: 9 }] },
+  )
+
+  const result = await createFixedAssetResponse(apiRequest(), supabase, ledger, laptop, 'req_1')
+
+  assertEquals(result.status, 201)
+  assertEquals((result.body.asset as any).net_book_value, 285000)
+  const [name, params] = calls.rpcs[0]
+  assertEquals(name, 'register_fixed_asset')
+  assertEquals(params.p_cost, 3600)
+  assertEquals(params.p_salvage_value, 600)
+  assertEquals(params.p_declining_factor, null)
+})
+
+Deno.test('create: a closed period is a conflict, not a server error', async () => {
+  const { supabase } = mockSupabase(null, {
+    error: { message: 'Cannot create transaction in closed period. Use a correcting entry in the current period.' },
+  })
+
+  const result = await createFixedAssetResponse(apiRequest(), supabase, ledger, laptop, 'req_1')
+
+  assertEquals(result.status, 409)
+  assertEquals(result.body.error_code, 'fixed_asset_create_failed')
+})
+
+Deno.test('dispose: disposed assets cannot be disposed again', async () => {
+  const { supabase, calls } = mockSupabase({ id: 'asset_1', status: 'disposed', acquisition_date: '2026-01-15' })
+
+  const result = await disposeFixedAssetResponse(
+    apiRequest(), supabase, ledger, assetId, {}, 'req_1',
+  )
+
+  assertEquals(result.status, 409)
+  assertEquals(result.body.error_code, 'fixed_asset_already_disposed')
+  assertEquals(calls.rpcs.length, 0)
+})
@@ -7,7 +7,7 @@ import { assertEquals, assertNotEquals } from 'https://deno.land/std@0.224.0/tes
 // ============================================================================
 
 const VALID_ACTIONS = ['generate', 'get', 'list', 'verify']
-const VALID_STATEMENT_TYPES = ['profit_loss', 'balance_sheet', 'trial_balance', 'cash_flow']
+const VALID_STATEMENT_TYPES = ['profit_loss', 'balance_sheet', 'trial_balance', 'cash_flow', 'sales_tax_liability']
 
 async function generateHash(data: any): Promise<string> {
   const json = JSON.stringify(data, Object.keys(data).sort())
@@ -46,6 +46,19 @@ function isBalanceSheetBalanced(
   return Math.abs(totalAssets - totalLiabilities - totalEquity - netIncome) < 0.01
 }
 
+// Comparison against the most recent earlier close, from the generate action
+function previousVersionHashes(
+  earlier: Array<{ statement_type: string; version: number; integrity_hash: string }>,
+): { previousVersion: number | null; hashes: Map<string, string> } {
+  const sorted = [...earlier].sort((a, b) => b.version - a.version)
+  const previousVersion = sorted[0]?.version ?? null
+  const hashes = new Map<string, string>()
+  for (const stmt of sorted) {
+    if (stmt.version === previousVersion) hashes.set(stmt.statement_type, stmt.integrity_hash)
+  }
+  return { previousVersion, hashes }
+}
+
 // ============================================================================
 // VALID_ACTIONS
 // ============================================================================
@@ -72,6 +85,7 @@ Deno.test('VALID_STATEMENT_TYPES: contains expected types', () => {
   assertEquals(VALID_STATEMENT_TYPES.includes('balance_sheet'), true)
   assertEquals(VALID_STATEMENT_TYPES.includes('trial_balance'), true)
   assertEquals(VALID_STATEMENT_TYPES.includes('cash_flow'), true)
+  assertEquals(VALID_STATEMENT_TYPES.includes('sales_tax_liability'), true)
 })
 
 Deno.test('VALID_STATEMENT_TYPES: rejects unknown types', () => {
@@ -277,6 +291,29 @@ Deno.test('generate: only allows closed or locked periods', () => {
   assertEquals(allowedStatuses.includes('draft'), false)
 })
 
+// ============================================================================
+// Versions (period reopened and closed again)
+// ============================================================================
+
+Deno.test('versions: a first close has nothing to compare against', () => {
+  const { previousVersion, hashes } = previousVersionHashes([])
+  assertEquals(previousVersion, null)
+  assertEquals(hashes.size, 0)
+})
+
+Deno.test('versions: a re-close compares with the most recent earlier close only', async () => {
+  const v1 = await generateHash({ net_income: 1000 })
+  const v2 = await generateHash({ net_income: 1250 })
+  const { previousVersion, hashes } = previousVersionHashes([
+    { statement_type: 'profit_loss', version: 1, integrity_hash: v1 },
+    { statement_type: 'profit_loss', version: 2, integrity_hash: v2 },
+  ])
+
+  assertEquals(previousVersion, 2)
+  assertEquals(hashes.get('profit_loss'), v2)
+  assertNotEquals(hashes.get('profit_loss'), await generateHash({ net_income: 1300 }))
+})
+
 // ============================================================================
 // get action: integrity verification logic
 // ============================================================================
@@ -0,0 +1,120 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  detectFxRateFormat,
+  type FxRateQuote,
+  type FxRateSource,
+  parseEcbXml,
+  parseFxRatesCsv,
+  resolvePostingCurrency,
+} from '../fx-rates-service.ts'
+
+const usdLedger = { settings: { currency: 'USD' } } as any
+
+function fixedSource(quote: FxRateQuote | null): FxRateSource & { calls: string[][] } {
+  const calls: string[][] = []
+  return {
+    name: 'fixed',
+    calls,
+    getRate(from: string, to: string, onDate: string) {
+      calls.push([from, to, onDate])
+      return Promise.resolve(quote)
+    },
+  }
+}
+
+// ============================================================================
+// Parsers
+// ============================================================================
+
+Deno.test('detectFxRateFormat: XML vs CSV', () => {
+  assertEquals(detectFxRateFormat('  <?xml version="1.0"?>'), 'ecb_xml')
+  assertEquals(detectFxRateFormat('date,base,quote,rate'), 'csv')
+})
+
+Deno.test('parseFxRatesCsv: reads aliased headers and skips unsupported pairs', () => {
+  const result = parseFxRatesCsv([
+    'date,base,quote,rate',
+    '2026-04-01,eur,usd,1.0842',
+    '2026-04-01,EUR,XAU,0.0004',
+    '2026-04-01,EUR,USD,-1',
+  ].join('\n'))
+
+  assertEquals(result.rates, [
+    { base_currency: 'EUR', quote_currency: 'USD', rate: 1.0842, effective_date: '2026-04-01' },
+  ])
+  assertEquals(result.skipped, 1)
+  assertEquals(result.errors.length, 1)
+})
+
+Deno.test('parseFxRatesCsv: rejects a header without required columns', () => {
+  const result = parseFxRatesCsv('date,currency,value\n2026-04-01,USD,1.1')
+  assertEquals(result.rates.length, 0)
+  assertEquals(result.errors.length, 1)
+})
+
+Deno.test('parseEcbXml: reads daily cubes against the base currency', () => {
+  const xml = `<gesmes:Envelope><Cube>
+    <Cube time="2026-04-02">
+      <Cube currency="USD" rate="1.0850"/>
+      <Cube currency="GBP" rate="0.8561"/>
+      <Cube currency="THB" rate="39.51"/>
+    </Cube>
+    <Cube time="2026-04-01">
+      <Cube currency="USD" rate="1.0842"/>
+    </Cube>
+  </Cube></gesmes:Envelope>`
+
+  const result = parseEcbXml(xml)
+  assertEquals(result.rates.length, 3)
+  assertEquals(result.rates[0], { base_currency: 'EUR', quote_currency: 'USD', rate: 1.085, effective_date: '2026-04-02' })
+  assertEquals(result.rates[2].effective_date, '2026-04-01')
+  assertEquals(result.skipped, 1)
+})
+
+// ============================================================================
+// Posting currency resolution
+// ============================================================================
+
+Deno.test('resolvePostingCurrency: functional currency never consults the source', async () => {
+  const source = fixedSource(null)
+  const result = await resolvePostingCurrency(source, usdLedger, undefined, undefined)
+  assertEquals(result.ok, true)
+  assertEquals(source.calls.length, 0)
+})
+
+Deno.test('resolvePostingCurrency: explicit rate wins over the source', async () => {
+  const source = fixedSource({ rate: 1.3, effective_date: '2026-04-01', method: 'direct', source: 'csv' })
+  const result = await resolvePostingCurrency(source, usdLedger, 'GBP', 1.27)
+  assertEquals(result.ok, true)
+  if (result.ok) {
+    assertEquals(result.value.fx_rate, 1.27)
+    assertEquals(result.value.rate_effective_date, null)
+  }
+  assertEquals(source.calls.length, 0)
+})
+
+Deno.test('resolvePostingCurrency: falls back to the rate table', async () => {
+  const source = fixedSource({ rate: 1.0842, effective_date: '2026-04-01', method: 'inverse', source: 'ecb_xml' })
+  const result = await resolvePostingCurrency(source, usdLedger, 'EUR', undefined, '2026-04-03')
+  assertEquals(result.ok, true)
+  if (result.ok) {
+    assertEquals(result.value.fx_rate, 1.0842)
+    assertEquals(result.value.rate_effective_date, '2026-04-01')
+  }
+  assertEquals(source.calls, [['EUR', 'USD', '2026-04-03']])
+})
+
+Deno.test('resolvePostingCurrency: refuses to post without a rate', async () => {
+  const result = await resolvePostingCurrency(fixedSource(null), usdLedger, 'EUR', undefined, '2026-04-03')
+  assertEquals(result.ok, false)
+  if (!result.ok) {
+    assertEquals(result.error_code, 'fx_rate_missing')
+    assertEquals(result.status, 422)
+  }
+})
+
+Deno.test('resolvePostingCurrency: invalid currency is a 400', async () => {
+  const result = await resolvePostingCurrency(fixedSource(null), usdLedger, 'XYZ', undefined)
+  assertEquals(result.ok, false)
+  if (!result.ok) assertEquals(result.status, 400)
+})
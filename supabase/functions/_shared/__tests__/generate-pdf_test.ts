@@ -65,7 +65,7 @@ function generatePDF(content: PDFContent): string {
   return btoa(pdf)
 }
 
-const VALID_REPORT_TYPES = ['creator_statement', 'profit_loss', 'balance_sheet', 'trial_balance', '1099', '1099_nec_form', 'reconciliation_summary']
+const VALID_REPORT_TYPES = ['creator_statement', 'profit_loss', 'balance_sheet', 'trial_balance', '1099', '1099_nec_form', '1099_misc_form', '1099_k_form', '1042_s_form', 'reconciliation_summary', 'sales_tax_liability']
 
 function isValidInternalCall(authHeader: string | null, serviceKey: string | undefined): boolean {
   if (!authHeader) return false
@@ -212,7 +212,11 @@ Deno.test('VALID_REPORT_TYPES: contains all expected types', () => {
   assertEquals(VALID_REPORT_TYPES.includes('trial_balance'), true)
   assertEquals(VALID_REPORT_TYPES.includes('1099'), true)
   assertEquals(VALID_REPORT_TYPES.includes('1099_nec_form'), true)
+  assertEquals(VALID_REPORT_TYPES.includes('1099_misc_form'), true)
+  assertEquals(VALID_REPORT_TYPES.includes('1099_k_form'), true)
+  assertEquals(VALID_REPORT_TYPES.includes('1042_s_form'), true)
   assertEquals(VALID_REPORT_TYPES.includes('reconciliation_summary'), true)
+  assertEquals(VALID_REPORT_TYPES.includes('sales_tax_liability'), true)
 })
 
 Deno.test('VALID_REPORT_TYPES: rejects unknown types', () => {
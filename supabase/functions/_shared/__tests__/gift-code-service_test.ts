@@ -0,0 +1,150 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  createGiftCodeBatchResponse,
+  generateGiftCode,
+  normalizeGiftCode,
+  redeemGiftCodeResponse,
+  validateGiftCodeBatch,
+} from '../gift-code-service.ts'
+
+function mockSupabase(rpcRows: any, rpcError: unknown = null) {
+  const calls = { rpc: [] as Array<[string, any]>, inserts: [] as Array<[string, any]> }
+  const supabase = {
+    rpc: (name: string, params: any) => {
+      calls.rpc.push([name, params])
+      return Promise.resolve({ data: rpcRows, error: rpcError })
+    },
+    from: (table: string) => {
+      const chain: any = {
+        insert: (row: any) => {
+          calls.inserts.push([table, row])
+          return chain
+        },
+        select: () => chain,
+        single: () => Promise.resolve({ data: { id: 'signal_1' }, error: null }),
+        then: (resolve: any) => resolve({ data: [], error: null }),
+      }
+      return chain
+    },
+  } as any
+  return { supabase, calls }
+}
+
+const ledger = { id: 'ledger_1', organization_id: 'org_1', settings: {} } as any
+const req = new Request('http://localhost/gift-codes/redeem', { method: 'POST' })
+
+// ==========================================================================
+// Codes
+// ==========================================================================
+
+Deno.test('codes: generated codes are grouped and avoid ambiguous characters', () => {
+  const codes = new Set(Array.from({ length: 200 }, generateGiftCode))
+
+  assertEquals(codes.size, 200)
+  for (const code of codes) {
+    assertEquals(/^[A-HJ-NP-Z2-9]{4}(-[A-HJ-NP-Z2-9]{4}){3}$/.test(code), true)
+  }
+})
+
+Deno.test('codes: normalizes what a customer types', () => {
+  assertEquals(normalizeGiftCode(' abcd-efgh 2345 '), 'ABCD-EFGH2345')
+  assertEquals(normalizeGiftCode('SPRING25'), 'SPRING25')
+  assertEquals(normalizeGiftCode('abc'), null)
+  assertEquals(normalizeGiftCode('SPRING_25'), null)
+  assertEquals(normalizeGiftCode(25), null)
+})
+
+// ==========================================================================
+// validateGiftCodeBatch
+// ==========================================================================
+
+Deno.test('batch: gift cards are single-use in the functional currency', () => {
+  const future = new Date(Date.now() + 86_400_000).toISOString()
+  const { batch } = validateGiftCodeBatch(
+    { kind: 'gift_card', name: 'Holiday', denomination: 2500, count: 100, expires_at: future },
+    'USD',
+  )
+
+  assertEquals(batch?.max_redemptions, 1)
+  assertEquals(batch?.currency, 'USD')
+  assertEquals(batch?.count, 100)
+  assertEquals(batch?.expires_at, future)
+
+  assertEquals(typeof validateGiftCodeBatch({ kind: 'gift_card', name: 'X', denomination: 2500, max_redemptions: 5 }, 'USD').error, 'string')
+  assertEquals(typeof validateGiftCodeBatch({ kind: 'gift_card', name: 'X', denomination: 2500, currency: 'EUR' }, 'USD').error, 'string')
+  assertEquals(typeof validateGiftCodeBatch({ kind: 'gift_card', name: 'X', denomination: 2500, code: 'MINE' }, 'USD').error, 'string')
+})
+
+Deno.test('batch: rejects bad denominations, counts and past expiry', () => {
+  const base = { kind: 'promo', name: 'Launch' }
+  assertEquals(typeof validateGiftCodeBatch({ ...base, denomination: 0 }, 'USD').error, 'string')
+  assertEquals(typeof validateGiftCodeBatch({ ...base, denomination: 12.5 }, 'USD').error, 'string')
+  assertEquals(typeof validateGiftCodeBatch({ ...base, denomination: 500, count: 10001 }, 'USD').error, 'string')
+  assertEquals(typeof validateGiftCodeBatch({ ...base, denomination: 500, expires_at: '2020-01-01T00:00:00Z' }, 'USD').error, 'string')
+  assertEquals(typeof validateGiftCodeBatch({ ...base, denomination: 500, code: 'LAUNCH', count: 2 }, 'USD').error, 'string')
+  assertEquals(typeof validateGiftCodeBatch({ kind: 'voucher', name: 'X', denomination: 500 }, 'USD').error, 'string')
+})
+
+Deno.test('create: a vanity promo code is sent as-is in major units', async () => {
+  const { supabase, calls } = mockSupabase([
+    { out_batch_id: 'batch_1', out_issue_transaction_id: null, out_code_count: 1, out_total_value: '0' },
+  ])
+
+  const result = await createGiftCodeBatchResponse(req, supabase, ledger, {
+    kind: 'promo', name: 'Launch', denomination: 500, code: 'launch-5', max_redemptions: 1000,
+  }, 'req_1')
+
+  assertEquals(result.status, 201)
+  assertEquals(result.body.codes, ['LAUNCH-5'])
+  assertEquals(calls.rpc[0][1].p_denomination, 5)
+  assertEquals(calls.rpc[0][1].p_max_redemptions, 1000)
+})
+
+Deno.test('create: 409 when a code already exists', async () => {
+  const { supabase } = mockSupabase(null, { code: '23505', message: 'Duplicate gift code' })
+
+  const result = await createGiftCodeBatchResponse(req, supabase, ledger, {
+    kind: 'promo', name: 'Launch', denomination: 500, code: 'LAUNCH',
+  }, 'req_1')
+
+  assertEquals(result.status, 409)
+  assertEquals(result.body.error_code, 'gift_code_exists')
+})
+
+// ==========================================================================
+// Redemption
+// ==========================================================================
+
+Deno.test('redeem: credits the wallet and reports minor units', async () => {
+  const { supabase, calls } = mockSupabase([{
+    out_status: 'redeemed',
+    out_code_id: 'code_1',
+    out_kind: 'gift_card',
+    out_transaction_id: 'tx_1',
+    out_amount: '25.00',
+    out_currency: 'USD',
+    out_wallet_account_id: 'wallet_1',
+    out_wallet_balance: '40.00',
+  }])
+
+  const result = await redeemGiftCodeResponse(req, supabase, ledger, { code: 'abcd-efgh-jkmn-pqrs', customer_id: 'cust_1' }, 'req_1')
+
+  assertEquals(result.status, 200)
+  assertEquals((result.body.redemption as any).amount, 2500)
+  assertEquals(result.body.wallet, { wallet_id: 'wallet_1', owner_id: 'cust_1', balance: 40 })
+  assertEquals(calls.rpc[0][1].p_code, 'ABCD-EFGH-JKMN-PQRS')
+})
+
+Deno.test('redeem: maps failures and raises a risk signal when throttled', async () => {
+  const expired = await redeemGiftCodeResponse(req, mockSupabase([{ out_status: 'expired' }]).supabase, ledger, { code: 'ABCD1234', customer_id: 'cust_1' }, 'req_1')
+  assertEquals([expired.status, expired.body.error_code], [409, 'gift_code_expired'])
+
+  const missing = await redeemGiftCodeResponse(req, mockSupabase([{ out_status: 'not_found' }]).supabase, ledger, { code: 'ABCD1234', customer_id: 'cust_1' }, 'req_1')
+  assertEquals([missing.status, missing.body.error_code], [404, 'gift_code_not_found'])
+
+  const { supabase, calls } = mockSupabase([{ out_status: 'throttled' }])
+  const throttled = await redeemGiftCodeResponse(req, supabase, ledger, { code: 'ABCD1234', customer_id: 'cust_1' }, 'req_1')
+  assertEquals([throttled.status, throttled.body.error_code], [429, 'too_many_failed_redemptions'])
+  assertEquals(calls.inserts[0][0], 'risk_signals')
+  assertEquals(calls.inserts[0][1].entity_id, 'cust_1')
+})
@@ -0,0 +1,317 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  decidePendingJournalResponse,
+  gateJournal,
+  retryJournalPostingResponse,
+  roleMeetsRequirement,
+  upsertApprovalPolicyResponse,
+  validateApprovalPolicy,
+} from '../journal-approval-service.ts'
+import { getDashboardUserId } from '../utils.ts'
+
+function mockSupabase(policy: any) {
+  const calls = { rpc: [] as Array<[string, any]>, inserts: [] as Array<[string, any]> }
+  const supabase = {
+    rpc: (name: string, params: any) => {
+      calls.rpc.push([name, params])
+      return Promise.resolve({ data: [], error: null })
+    },
+    from: (table: string) => {
+      let inserted: any = null
+      const chain: any = {
+        insert: (row: any) => {
+          calls.inserts.push([table, row])
+          inserted = row
+          return chain
+        },
+        select: () => chain,
+        eq: () => chain,
+        maybeSingle: () => Promise.resolve({
+          data: table === 'journal_approval_policies' ? policy : null,
+          error: null,
+        }),
+        single: () => Promise.resolve({
+          data: inserted ? { id: 'pj_1', status: 'pending', created_at: '2026-10-01T00:00:00Z', ...inserted } : null,
+          error: null,
+        }),
+        then: (resolve: any) => resolve({ data: null, error: null }),
+      }
+      return chain
+    },
+  } as any
+  return { supabase, calls }
+}
+
+const ledger = { id: 'ledger_1', organization_id: 'org_1', settings: {} } as any
+const submission = {
+  journal_type: 'adjustment' as const,
+  amount: 5000,
+  summary: 'correction: Reclass Q3 revenue',
+  prepared_by: 'controller@example.com',
+  payload: { ledger_id: 'ledger_1', adjustment_type: 'correction', reason: 'Reclass Q3 revenue' },
+}
+
+function apiRequest(headers: Record<string, string> = {}) {
+  return new Request('http://localhost/record-adjustment', { method: 'POST', headers })
+}
+
+// ==========================================================================
+// Gate
+// ==========================================================================
+
+Deno.test('gate: journals post when the ledger has no policy', async () => {
+  const { supabase, calls } = mockSupabase(null)
+
+  const gate = await gateJournal(apiRequest(), supabase, ledger, submission, 'req_1')
+
+  assertEquals(gate, { post: true, approval: null })
+  assertEquals(calls.inserts.length, 0)
+})
+
+Deno.test('gate: journals below the threshold post', async () => {
+  const { supabase, calls } = mockSupabase({ id: 'pol_1', threshold_amount: '10000.00', required_role: 'admin' })
+
+  const gate = await gateJournal(apiRequest(), supabase, ledger, submission, 'req_1')
+
+  assertEquals(gate.post, true)
+  assertEquals(calls.inserts.length, 0)
+})
+
+Deno.test('gate: journals at the threshold are queued with their request', async () => {
+  const { supabase, calls } = mockSupabase({ id: 'pol_1', threshold_amount: '5000.00', required_role: 'owner' })
+
+  const gate = await gateJournal(apiRequest(), supabase, ledger, submission, 'req_1')
+
+  assertEquals(gate.post, false)
+  if (gate.post) return
+  assertEquals(gate.status, 202)
+  assertEquals(gate.body.status, 'pending_approval')
+
+  const [table, row] = calls.inserts[0]
+  assertEquals(table, 'pending_journals')
+  assertEquals(row.prepared_by, 'controller@example.com')
+  assertEquals(row.prepared_by_user_id, null)
+  assertEquals(row.required_role, 'owner')
+  assertEquals(row.currency, 'USD')
+  assertEquals(row.payload, { adjustment_type: 'correction', reason: 'Reclass Q3 revenue' })
+  assertEquals((gate.body.pending_journal as any).amount, 500000)
+})
+
+Deno.test('gate: replay and user headers are ignored without the internal token', async () => {
+  const { supabase, calls } = mockSupabase({ id: 'pol_1', threshold_amount: '0', required_role: 'admin' })
+  const req = apiRequest({
+    'x-soledgic-pending-journal-id': 'b7b0c6a4-5d8e-4c1f-9a7e-2f3d4c5b6a79',
+    'x-soledgic-user-id': '0f8fad5b-d9cb-469f-a165-70867728950e',
+  })
+
+  const gate = await gateJournal(req, supabase, ledger, { ...submission, prepared_by: null }, 'req_1')
+
+  assertEquals(getDashboardUserId(req), null)
+  assertEquals(gate.post, false)
+  assertEquals(calls.inserts[0][1].prepared_by, 'api')
+})
+
+// ==========================================================================
+// Decisions and policies
+// ==========================================================================
+
+Deno.test('decide: API keys cannot approve or reject journals', async () => {
+  const { supabase, calls } = mockSupabase(null)
+
+  const result = await decidePendingJournalResponse(
+    apiRequest(), supabase, ledger, 'b7b0c6a4-5d8e-4c1f-9a7e-2f3d4c5b6a79', 'approve', {}, 'req_1',
+  )
+
+  assertEquals(result.status, 403)
+  assertEquals(result.body.error_code, 'approver_required')
+  assertEquals(calls.rpc.length, 0)
+
+  const policy = await upsertApprovalPolicyResponse(apiRequest(), supabase, ledger, { journal_type: 'adjustment' }, 'req_1')
+  assertEquals(policy.status, 403)
+})
+
+const journalId = 'b7b0c6a4-5d8e-4c1f-9a7e-2f3d4c5b6a79'
+const approverId = '0f8fad5b-d9cb-469f-a165-70867728950e'
+
+// pending_journals honours the conditions of the posting claim and settle
+// updates, so a claim that is already held matches no row
+function mockJournalStore(postedTransactionId: string | null = null) {
+  const stored: any = {
+    id: journalId,
+    ledger_id: 'ledger_1',
+    journal_type: 'adjustment',
+    status: 'approved',
+    amount: '5000.00',
+    currency: 'USD',
+    required_role: 'admin',
+    payload: { adjustment_type: 'correction' },
+    transaction_id: null,
+    posting_attempts: 0,
+    posting_started_at: null,
+  }
+  const updates: any[] = []
+  const supabase = {
+    rpc: () => Promise.resolve({ data: [{ out_status: 'approved', out_error: null }], error: null }),
+    from: (table: string) => {
+      let update: any = null
+      const conditions: Array<(row: any) => boolean> = []
+      const matchedRow = () => {
+        if (!conditions.every((condition) => condition(stored))) return null
+        if (update) {
+          Object.assign(stored, update)
+          updates.push(update)
+        }
+        return { ...stored }
+      }
+      const chain: any = {
+        select: () => chain,
+        insert: () => chain,
+        limit: () => chain,
+        eq: (column: string, value: unknown) => {
+          if (table === 'pending_journals' && column in stored) conditions.push((row) => row[column] === value)
+          return chain
+        },
+        is: (column: string, value: unknown) => {
+          conditions.push((row) => row[column] === value)
+          return chain
+        },
+        or: () => {
+          conditions.push((row) => row.posting_started_at === null)
+          return chain
+        },
+        update: (values: any) => {
+          update = values
+          return chain
+        },
+        single: () => Promise.resolve({ data: matchedRow(), error: null }),
+        maybeSingle: () => {
+          if (table === 'organization_members') return Promise.resolve({ data: { role: 'owner' }, error: null })
+          if (table === 'transactions') {
+            return Promise.resolve({ data: postedTransactionId ? { id: postedTransactionId } : null, error: null })
+          }
+          return Promise.resolve({ data: matchedRow(), error: null })
+        },
+        then: (resolve: any) => resolve({ data: null, error: null }),
+      }
+      return chain
+    },
+  } as any
+  return { supabase, stored, updates }
+}
+
+async function withReplayEnv(fn: () => Promise<void>) {
+  const originalFetch = globalThis.fetch
+  Deno.env.set('SUPABASE_URL', 'https://project.supabase.co')
+  Deno.env.set('SOLEDGIC_INTERNAL_FUNCTION_TOKEN', 'internal_token')
+  try {
+    await fn()
+  } finally {
+    globalThis.fetch = originalFetch
+    Deno.env.delete('SUPABASE_URL')
+    Deno.env.delete('SOLEDGIC_INTERNAL_FUNCTION_TOKEN')
+  }
+}
+
+function dashboardRequest() {
+  return apiRequest({ 'x-soledgic-internal-token': 'internal_token', 'x-soledgic-user-id': approverId })
+}
+
+Deno.test('decide: a failed posting stays approved and a retry posts it', async () => {
+  const { supabase, stored, updates } = mockJournalStore()
+
+  await withReplayEnv(async () => {
+    globalThis.fetch = (() => Promise.reject(new Error('connection reset'))) as typeof fetch
+    const decided = await decidePendingJournalResponse(
+      dashboardRequest(), supabase, ledger, journalId, 'approve', {}, 'req_1',
+    )
+
+    assertEquals(decided.status, 502)
+    assertEquals(decided.body.error_code, 'journal_posting_failed')
+    assertEquals(stored.status, 'approved')
+    assertEquals(stored.posting_attempts, 1)
+    assertEquals(stored.posting_started_at, null)
+    assertEquals(stored.posting_error, 'Failed to reach the posting endpoint')
+
+    const replays: Array<[string, any]> = []
+    globalThis.fetch = ((url: string, init: RequestInit) => {
+      replays.push([url, init.headers])
+      return Promise.resolve(new Response(JSON.stringify({ success: true, transaction_id: 'tx_adj' }), { status: 200 }))
+    }) as typeof fetch
+    const retried = await retryJournalPostingResponse(dashboardRequest(), supabase, ledger, journalId, 'req_2')
+
+    assertEquals(retried.status, 200)
+    assertEquals(replays[0][0], 'https://project.supabase.co/functions/v1/record-adjustment')
+    assertEquals(replays[0][1]['x-soledgic-pending-journal-id'], journalId)
+    assertEquals(stored.status, 'posted')
+    assertEquals(stored.transaction_id, 'tx_adj')
+    assertEquals(stored.posting_error, null)
+    assertEquals((retried.body.pending_journal as any).posting_attempts, 2)
+
+    const again = await retryJournalPostingResponse(dashboardRequest(), supabase, ledger, journalId, 'req_3')
+    assertEquals(again.status, 409)
+    assertEquals(again.body.error_code, 'journal_not_retryable')
+    assertEquals(updates.length, 4)
+  })
+})
+
+Deno.test('retry: a journal claimed by another replay is not replayed again', async () => {
+  const { supabase, stored } = mockJournalStore()
+  stored.posting_started_at = new Date().toISOString()
+
+  await withReplayEnv(async () => {
+    let replays = 0
+    globalThis.fetch = (() => {
+      replays++
+      return Promise.resolve(new Response(JSON.stringify({ success: true, transaction_id: 'tx_adj' }), { status: 200 }))
+    }) as typeof fetch
+
+    const result = await retryJournalPostingResponse(dashboardRequest(), supabase, ledger, journalId, 'req_1')
+
+    assertEquals(result.status, 409)
+    assertEquals(result.body.error_code, 'journal_posting_in_progress')
+    assertEquals(replays, 0)
+    assertEquals(stored.status, 'approved')
+  })
+})
+
+Deno.test('retry: settles with the transaction a lost replay already posted', async () => {
+  const { supabase, stored } = mockJournalStore('tx_posted_earlier')
+  stored.posting_attempts = 1
+  stored.posting_error = 'Failed to reach the posting endpoint'
+
+  await withReplayEnv(async () => {
+    let replays = 0
+    globalThis.fetch = (() => {
+      replays++
+      return Promise.resolve(new Response(JSON.stringify({ success: false, error: 'Duplicate reference_id' }), { status: 409 }))
+    }) as typeof fetch
+
+    const result = await retryJournalPostingResponse(dashboardRequest(), supabase, ledger, journalId, 'req_1')
+
+    assertEquals(result.status, 200)
+    assertEquals(replays, 0)
+    assertEquals(stored.status, 'posted')
+    assertEquals(stored.transaction_id, 'tx_posted_earlier')
+    assertEquals(stored.posting_started_at, null)
+  })
+})
+
+Deno.test('policy: validates type, threshold and role', () => {
+  assertEquals(validateApprovalPolicy({ journal_type: 'reversal' }).policy, {
+    journal_type: 'reversal',
+    threshold_amount: 0,
+    required_role: 'admin',
+    is_active: true,
+  })
+  assertEquals(typeof validateApprovalPolicy({ journal_type: 'sale' }).error, 'string')
+  assertEquals(typeof validateApprovalPolicy({ journal_type: 'adjustment', threshold_amount: 12.5 }).error, 'string')
+  assertEquals(typeof validateApprovalPolicy({ journal_type: 'adjustment', required_role: 'viewer' }).error, 'string')
+})
+
+Deno.test('policy: roles rank owner over admin over member', () => {
+  assertEquals(roleMeetsRequirement('owner', 'admin'), true)
+  assertEquals(roleMeetsRequirement('admin', 'admin'), true)
+  assertEquals(roleMeetsRequirement('member', 'admin'), false)
+  assertEquals(roleMeetsRequirement('viewer', 'member'), false)
+  assertEquals(roleMeetsRequirement(null, 'member'), false)
+})
@@ -0,0 +1,158 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import { ingestNachaFile, normalizeNachaFileType } from '../nacha-file-service.ts'
+
+const ledgerId = 'ledger_1'
+const payoutId = '11111111-1111-4111-8111-111111111111'
+const ourTrace = '123456780000042'
+
+const FILE_HEADER = '101 121000358 1234567892604151200A094101' + 'RETURNING BANK'.padEnd(23) + 'SOLEDGIC'.padEnd(23) + ''.padEnd(8)
+const BATCH_HEADER = '5220' + ''.padEnd(83) + '0000001'
+
+function entry(trace: string): string {
+  return '6' + '22' + '12100035' + '8' + 'OLD123'.padEnd(17) + '0000005000' +
+    'creator_1'.padEnd(15) + 'Jane Creator'.padEnd(22) + '  ' + '1' + trace
+}
+
+function addenda(type: string, code: string, info: string): string {
+  return ('7' + type + code + ourTrace + ''.padEnd(6) + '12345678' + info.padEnd(44)) + '121000350000001'
+}
+
+function nachaFile(...records: string[]): string {
+  return [FILE_HEADER, BATCH_HEADER, ...records, '8220', '9000001'].join('\n')
+}
+
+function makeNachaSupabase(opts: {
+  rows?: Array<{ id: string; payout_transaction_id: string; trace_number: string; status: string }>
+  rpcResults?: Record<string, any>
+}) {
+  const calls: Array<{ fn: string; args: any }> = []
+  const supabase = {
+    calls,
+    rpc(fn: string, args: any) {
+      calls.push({ fn, args })
+      return Promise.resolve({ data: opts.rpcResults?.[fn] ?? null, error: null })
+    },
+    from(table: string) {
+      let op = 'select'
+      const chain: any = {
+        select() { return chain },
+        eq() { return chain },
+        in() { return chain },
+        update(values: any) {
+          op = 'update'
+          calls.push({ fn: `update:${table}`, args: values })
+          return chain
+        },
+        upsert() { return Promise.resolve({ error: null }) },
+        maybeSingle() {
+          return Promise.resolve({ data: { id: payoutId, metadata: { rail_status: 'pending' } }, error: null })
+        },
+        then(resolve: any) {
+          const data = op === 'select' && table === 'nacha_file_entries' ? opts.rows ?? [] : null
+          return Promise.resolve({ data, error: null }).then(resolve)
+        },
+      }
+      return chain
+    },
+  }
+  return supabase as any
+}
+
+const submittedRow = { id: 'nfe_1', payout_transaction_id: payoutId, trace_number: ourTrace, status: 'submitted' }
+
+Deno.test('normalizeNachaFileType: accepts return and acknowledgment only', () => {
+  assertEquals(normalizeNachaFileType('Return'), 'return')
+  assertEquals(normalizeNachaFileType('acknowledgment'), 'acknowledgment')
+  assertEquals(normalizeNachaFileType('statement'), null)
+})
+
+Deno.test('ingestNachaFile: rejects content that is not a NACHA file', async () => {
+  const result = await ingestNachaFile(makeNachaSupabase({}), ledgerId, 'date,amount\n2026-01-01,10', 'return')
+  assertEquals(result.ok, false)
+  if (!result.ok) assertEquals(result.error_code, 'invalid_nacha_file')
+})
+
+Deno.test('ingestNachaFile: return entry reverses the matched payout', async () => {
+  const supabase = makeNachaSupabase({
+    rows: [submittedRow],
+    rpcResults: {
+      record_payout_return_atomic: { status: 'created', transaction_id: 'txn_ret', creator_id: 'creator_1', amount: 50, currency: 'USD' },
+    },
+  })
+
+  const result = await ingestNachaFile(supabase, ledgerId, nachaFile(entry('121000350000001'), addenda('99', 'R03', 'NO ACCOUNT')), 'return')
+
+  assertEquals(result.ok, true)
+  if (!result.ok) return
+  assertEquals(result.counts.returned, 1)
+  assertEquals(result.entries[0].payout_id, payoutId)
+  assertEquals(result.entries[0].return_transaction_id, 'txn_ret')
+
+  const rpcCall = supabase.calls.find((c: any) => c.fn === 'record_payout_return_atomic')
+  assertEquals(rpcCall.args.p_source, 'nacha_file')
+  assertEquals(rpcCall.args.p_return_code, 'R03')
+  assertEquals(rpcCall.args.p_returned_at, '2026-04-15T00:00:00Z')
+
+  const entryUpdate = supabase.calls.find((c: any) => c.fn === 'update:nacha_file_entries')
+  assertEquals(entryUpdate.args.status, 'returned')
+})
+
+Deno.test('ingestNachaFile: rejected entry in an acknowledgment file marks the payout failed', async () => {
+  const supabase = makeNachaSupabase({ rows: [submittedRow] })
+
+  const result = await ingestNachaFile(supabase, ledgerId, nachaFile(entry('121000350000001'), addenda('99', 'R13', '')), 'acknowledgment')
+
+  assertEquals(result.ok, true)
+  if (!result.ok) return
+  assertEquals(result.counts.failed, 1)
+  assertEquals(supabase.calls.some((c: any) => c.fn === 'record_payout_return_atomic'), false)
+
+  const txUpdate = supabase.calls.find((c: any) => c.fn === 'update:transactions')
+  assertEquals(txUpdate.args.metadata.rail_status, 'failed')
+  assertEquals(txUpdate.args.metadata.return_code, 'R13')
+
+  const webhook = supabase.calls.find((c: any) => c.fn === 'queue_webhook')
+  assertEquals(webhook.args.p_event_type, 'payout.failed')
+})
+
+Deno.test('ingestNachaFile: acknowledgment echo matches on the entry trace number', async () => {
+  const supabase = makeNachaSupabase({ rows: [submittedRow] })
+
+  const result = await ingestNachaFile(supabase, ledgerId, nachaFile(entry(ourTrace)), 'acknowledgment')
+
+  assertEquals(result.ok, true)
+  if (!result.ok) return
+  assertEquals(result.counts.acknowledged, 1)
+  const txUpdate = supabase.calls.find((c: any) => c.fn === 'update:transactions')
+  assertEquals(txUpdate.args.metadata.rail_status, 'processing')
+})
+
+Deno.test('ingestNachaFile: NOC applies the decoded correction', async () => {
+  const supabase = makeNachaSupabase({
+    rows: [submittedRow],
+    rpcResults: { apply_nacha_noc: { status: 'applied', payout_transaction_id: payoutId, bank_details_updated: true } },
+  })
+
+  const result = await ingestNachaFile(supabase, ledgerId, nachaFile(entry('121000350000001'), addenda('98', 'C03', '021000021   NEW9876543')), 'return')
+
+  assertEquals(result.ok, true)
+  if (!result.ok) return
+  assertEquals(result.counts.corrected, 1)
+  assertEquals(result.entries[0].bank_details_updated, true)
+
+  const rpcCall = supabase.calls.find((c: any) => c.fn === 'apply_nacha_noc')
+  assertEquals(rpcCall.args.p_trace_number, ourTrace)
+  assertEquals(rpcCall.args.p_corrections, { routing_number: '021000021', account_number: 'NEW9876543' })
+})
+
+Deno.test('ingestNachaFile: unknown trace numbers are reported, not applied', async () => {
+  const supabase = makeNachaSupabase({ rows: [] })
+
+  const result = await ingestNachaFile(supabase, ledgerId, nachaFile(entry('121000350000001'), addenda('99', 'R01', '')), 'return')
+
+  assertEquals(result.ok, true)
+  if (!result.ok) return
+  assertEquals(result.counts.unmatched, 1)
+  assertEquals(result.entries[0].trace_number, ourTrace)
+  assertEquals(supabase.calls.some((c: any) => c.fn === 'record_payout_return_atomic'), false)
+})
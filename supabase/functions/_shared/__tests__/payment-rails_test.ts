@@ -0,0 +1,86 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  calculateRailFee,
+  getPaymentRail,
+  listPaymentRails,
+  normalizeRail,
+  type PaymentRail,
+  registerPaymentRail,
+  resolveFeeSchedule,
+  validateFeeSchedule,
+} from '../payment-rails.ts'
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+Deno.test('normalizeRail: resolves aliases to registered rails', () => {
+  assertEquals(normalizeRail('mercury'), 'ach')
+  assertEquals(normalizeRail('processor'), 'card')
+  assertEquals(normalizeRail('push_to_card'), 'instant')
+  assertEquals(normalizeRail('manual'), 'manual')
+  assertEquals(normalizeRail('carrier_pigeon'), null)
+  assertEquals(normalizeRail(null), null)
+})
+
+Deno.test('registerPaymentRail: new rails are executable and listed', async () => {
+  const rail: PaymentRail = {
+    name: 'test_rail',
+    execute: (payout) => Promise.resolve({ success: true, payout_id: payout.payout_id, rail: 'test_rail', status: 'pending' }),
+    getStatus: (externalId) => Promise.resolve({ success: true, payout_id: '', rail: 'test_rail', external_id: externalId, status: 'completed' }),
+    validateConfig: () => ({ valid: true, errors: [] }),
+    mapWebhookStatus: () => 'completed',
+  }
+  registerPaymentRail(rail, ['test_alias'])
+
+  assertEquals(normalizeRail('test_alias'), 'test_rail')
+  assertEquals(getPaymentRail('test_rail'), rail)
+  assertEquals(listPaymentRails().some((r) => r.name === 'test_rail'), true)
+
+  const status = await getPaymentRail('test_rail')!.getStatus('ext_1', { rail: 'test_rail', enabled: true })
+  assertEquals(status.status, 'completed')
+})
+
+Deno.test('mapWebhookStatus: instant rail treats SENT as landed, card rail as in flight', () => {
+  assertEquals(getPaymentRail('instant')!.mapWebhookStatus('SENT'), 'completed')
+  assertEquals(getPaymentRail('card')!.mapWebhookStatus('SENT'), 'processing')
+  assertEquals(getPaymentRail('instant')!.mapWebhookStatus('DECLINED'), 'failed')
+})
+
+// ============================================================================
+// Fee schedules
+// ============================================================================
+
+Deno.test('calculateRailFee: percent with min and max clamps', () => {
+  assertEquals(calculateRailFee({ percent: 1.5, min_cents: 50 }, 10000), 150)
+  assertEquals(calculateRailFee({ percent: 1.5, min_cents: 50 }, 1000), 50)
+  assertEquals(calculateRailFee({ percent: 1, fixed_cents: 25, max_cents: 500 }, 100000), 500)
+  assertEquals(calculateRailFee(null, 10000), 0)
+})
+
+Deno.test('calculateRailFee: never exceeds the payout amount', () => {
+  assertEquals(calculateRailFee({ fixed_cents: 500 }, 300), 300)
+})
+
+Deno.test('validateFeeSchedule: rejects bad shapes', () => {
+  assertEquals(validateFeeSchedule(undefined), [])
+  assertEquals(validateFeeSchedule({ percent: 1.5, min_cents: 50, paid_by: 'platform' }), [])
+  assertEquals(validateFeeSchedule({ percent: 150 }).length, 1)
+  assertEquals(validateFeeSchedule({ fixed_cents: 1.5 }).length, 1)
+  assertEquals(validateFeeSchedule({ min_cents: 100, max_cents: 50 }).length, 1)
+  assertEquals(validateFeeSchedule({ paid_by: 'someone' }).length, 1)
+})
+
+Deno.test('resolveFeeSchedule: configured schedule overrides the rail default', () => {
+  const instant = getPaymentRail('instant')!
+  assertEquals(resolveFeeSchedule(instant, { rail: 'instant', enabled: true })?.percent, 1.5)
+
+  const configured = resolveFeeSchedule(instant, {
+    rail: 'instant',
+    enabled: true,
+    settings: { fee_schedule: { fixed_cents: 100, paid_by: 'platform' } },
+  })
+  assertEquals(configured, { fixed_cents: 100, paid_by: 'platform' })
+
+  assertEquals(resolveFeeSchedule(getPaymentRail('ach')!, { rail: 'ach', enabled: true }), null)
+})
@@ -1,5 +1,10 @@
 import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
-import { processPayoutResponse } from '../payout-service.ts'
+import {
+  processPayoutResponse,
+  recordPayoutReturn,
+  requiresNewBankDetails,
+  returnPayoutResponse,
+} from '../payout-service.ts'
 
 const ledger = {
   id: '550e8400-e29b-41d4-a716-446655440000',
@@ -129,6 +134,42 @@ Deno.test('payout: accepts zero fees', async () => {
   assertEquals(body.payout.fees, 0)
 })
 
+Deno.test('payout: blocked while the creator has an open negative balance debt', async () => {
+  const base = makeCapPassingSupabase()
+  let payoutCalled = false
+  const supabase = {
+    rpc(fn: string) {
+      if (fn === 'process_payout_atomic') payoutCalled = true
+      return Promise.resolve({ data: [], error: null })
+    },
+    from(table: string) {
+      if (table === 'creator_debts') {
+        const chain: any = {
+          select() { return chain },
+          eq() { return chain },
+          then(resolve: any) { resolve({ data: [{ amount: 25, recovered_amount: 5, written_off_amount: 0 }], error: null }) },
+        }
+        return chain
+      }
+      return base.from(table)
+    },
+  } as any
+
+  const result = await processPayoutResponse(req, supabase, {
+    ...ledger,
+    settings: { negative_balance_block_payouts: true },
+  }, {
+    participant_id: 'creator1',
+    amount: 5000,
+    reference_id: 'payout_blocked_debt',
+  }, requestId)
+
+  assertEquals(result.status, 409)
+  assertEquals(result.body.error_code, 'creator_debt_outstanding')
+  assertEquals(result.body.outstanding_debt, 20)
+  assertEquals(payoutCalled, false)
+})
+
 Deno.test('payout: rejects zero amount', async () => {
   const result = await processPayoutResponse(req, {} as any, ledger, {
     participant_id: 'creator1',
@@ -262,3 +303,132 @@ Deno.test('payout: rejects empty reference_id', async () => {
   assertEquals(result.status, 400)
   assertEquals(result.body.error_code, 'invalid_reference_id')
 })
+
+// ==========================================================================
+// PAYOUT RETURNS
+// ==========================================================================
+
+const payoutUuid = '7c9e6679-7425-40de-944b-e07fc1f90ae7'
+
+function makeReturnSupabase(returnResult: { data?: any; error?: any }) {
+  const calls: Array<{ fn: string; args: any }> = []
+  const supabase = {
+    calls,
+    rpc(fn: string, args: any) {
+      calls.push({ fn, args })
+      if (fn === 'record_payout_return_atomic') {
+        return Promise.resolve({ data: returnResult.data ?? null, error: returnResult.error ?? null })
+      }
+      return Promise.resolve({ data: null, error: null })
+    },
+    from(table: string) {
+      calls.push({ fn: `from:${table}`, args: null })
+      const chain: any = {
+        upsert() { return Promise.resolve({ error: null }) },
+        insert() { return Promise.resolve({ error: null }) },
+      }
+      return chain
+    },
+  }
+  return supabase as any
+}
+
+Deno.test('requiresNewBankDetails: account-level codes flag the profile, funds codes do not', () => {
+  assertEquals(requiresNewBankDetails('R03'), true)
+  assertEquals(requiresNewBankDetails('R02'), true)
+  assertEquals(requiresNewBankDetails('R01'), false)
+  assertEquals(requiresNewBankDetails('R09'), false)
+})
+
+Deno.test('returnPayoutResponse: rejects codes that are not NACHA return codes', async () => {
+  const supabase = makeReturnSupabase({})
+  const result = await returnPayoutResponse(req, supabase, ledger, payoutUuid, {
+    return_code: 'X99',
+  }, requestId)
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_return_code')
+  assertEquals(supabase.calls.length, 0)
+})
+
+Deno.test('returnPayoutResponse: rejects non-UUID payout ids', async () => {
+  const result = await returnPayoutResponse(req, makeReturnSupabase({}), ledger, 'payout_1', {
+    return_code: 'R03',
+  }, requestId)
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_payout_id')
+})
+
+Deno.test('recordPayoutReturn: reverses the payout, links it and queues payout.returned', async () => {
+  const supabase = makeReturnSupabase({
+    data: { status: 'created', transaction_id: 'txn_ret', creator_id: 'creator1', amount: 50, currency: 'USD' },
+  })
+
+  const result = await recordPayoutReturn(supabase, ledger.id, payoutUuid, {
+    return_code: 'r03',
+    source: 'webhook',
+  })
+
+  assertEquals(result.ok, true)
+  if (result.ok) {
+    assertEquals(result.return_transaction_id, 'txn_ret')
+    assertEquals(result.requires_new_bank_details, true)
+    assertEquals(result.created, true)
+  }
+
+  const rpcCall = supabase.calls.find((c: any) => c.fn === 'record_payout_return_atomic')
+  assertEquals(rpcCall.args.p_return_code, 'R03')
+  assertEquals(rpcCall.args.p_return_reason, 'No account / unable to locate account')
+  assertEquals(rpcCall.args.p_requires_new_bank_details, true)
+  assertEquals(rpcCall.args.p_source, 'webhook')
+
+  assertEquals(supabase.calls.some((c: any) => c.fn === 'from:transaction_links'), true)
+
+  const webhook = supabase.calls.find((c: any) => c.fn === 'queue_webhook')
+  assertEquals(webhook.args.p_event_type, 'payout.returned')
+  assertEquals(webhook.args.p_payload.data.return_code, 'R03')
+  assertEquals(webhook.args.p_payload.data.amount, 50)
+})
+
+Deno.test('recordPayoutReturn: replay with the same code does not re-queue the webhook', async () => {
+  const supabase = makeReturnSupabase({
+    data: { status: 'duplicate', transaction_id: 'txn_ret', creator_id: 'creator1', amount: 50, currency: 'USD' },
+  })
+
+  const result = await recordPayoutReturn(supabase, ledger.id, payoutUuid, {
+    return_code: 'R01',
+    source: 'api',
+  })
+
+  assertEquals(result.ok, true)
+  if (result.ok) {
+    assertEquals(result.created, false)
+    assertEquals(result.requires_new_bank_details, false)
+  }
+  assertEquals(supabase.calls.some((c: any) => c.fn === 'queue_webhook'), false)
+})
+
+Deno.test('returnPayoutResponse: a different code for an already returned payout is a 409', async () => {
+  const supabase = makeReturnSupabase({
+    data: { status: 'error', error: 'return_code_conflict', transaction_id: 'txn_ret', return_code: 'R02' },
+  })
+
+  const result = await returnPayoutResponse(req, supabase, ledger, payoutUuid, {
+    return_code: 'R03',
+  }, requestId)
+
+  assertEquals(result.status, 409)
+  assertEquals(result.body.error_code, 'return_code_conflict')
+})
+
+Deno.test('returnPayoutResponse: unknown payout maps to 404', async () => {
+  const supabase = makeReturnSupabase({ error: { message: `Payout not found: ${payoutUuid}` } })
+
+  const result = await returnPayoutResponse(req, supabase, ledger, payoutUuid, {
+    return_code: 'R03',
+  }, requestId)
+
+  assertEquals(result.status, 404)
+  assertEquals(result.body.error_code, 'payout_not_found')
+})
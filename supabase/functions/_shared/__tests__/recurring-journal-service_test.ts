@@ -0,0 +1,165 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  addRecurrence,
+  createRecurringJournalResponse,
+  updateRecurringJournalStatusResponse,
+  upcomingRunDates,
+  validateRecurringJournalTemplate,
+} from '../recurring-journal-service.ts'
+
+function mockSupabase(template: any, account: any = { id: 'acct_1' }) {
+  const calls = { inserts: [] as Array<[string, any]>, updates: [] as Array<[string, any]> }
+  const supabase = {
+    from: (table: string) => {
+      let written: any = null
+      const chain: any = {
+        insert: (row: any) => {
+          calls.inserts.push([table, row])
+          written = row
+          return chain
+        },
+        update: (row: any) => {
+          calls.updates.push([table, row])
+          written = { ...template, ...row }
+          return chain
+        },
+        select: () => chain,
+        eq: () => chain,
+        is: () => chain,
+        limit: () => chain,
+        maybeSingle: () => Promise.resolve({
+          data: written ?? (table === 'accounts' ? account : template),
+          error: null,
+        }),
+        single: () => Promise.resolve({
+          data: written ? { id: 'rjt_1', status: 'active', occurrences_posted: 0, ...written } : null,
+          error: null,
+        }),
+      }
+      return chain
+    },
+  } as any
+  return { supabase, calls }
+}
+
+const ledger = { id: 'ledger_1', organization_id: 'org_1', status: 'active', settings: {} } as any
+const today = '2026-10-19'
+const rentAccrual = {
+  name: 'Office rent',
+  adjustment_type: 'accrual',
+  reason: 'Monthly rent accrual',
+  prepared_by: 'controller',
+  recurrence_interval: 'monthly',
+  start_date: '2026-10-31',
+  auto_reverse: true,
+  entries: [
+    { account_type: 'expense', entry_type: 'debit', amount: 250000 },
+    { account_type: 'accounts_payable', entry_type: 'credit', amount: 250000 },
+  ],
+}
+
+function apiRequest() {
+  return new Request('http://localhost/recurring-journals', { method: 'POST' })
+}
+
+// ==========================================================================
+// Schedule
+// ==========================================================================
+
+Deno.test('schedule: month-end templates clamp without drifting', () => {
+  assertEquals(addRecurrence('2026-01-31', 'monthly', 1), '2026-02-28')
+  assertEquals(addRecurrence('2026-01-31', 'monthly', 2), '2026-03-31')
+  assertEquals(addRecurrence('2028-01-31', 'monthly', 1), '2028-02-29')
+  assertEquals(addRecurrence('2026-11-30', 'quarterly', 1), '2027-02-28')
+})
+
+Deno.test('schedule: weekly and annual steps', () => {
+  assertEquals(addRecurrence('2026-12-28', 'weekly', 1), '2027-01-04')
+  assertEquals(addRecurrence('2028-02-29', 'annual', 1), '2029-02-28')
+  assertEquals(addRecurrence('2026-10-19', 'monthly', 0), '2026-10-19')
+})
+
+Deno.test('schedule: upcoming runs continue from posted occurrences and stop at end_date', () => {
+  const template = {
+    status: 'active',
+    start_date: '2026-01-31',
+    end_date: '2026-05-31',
+    recurrence_interval: 'monthly',
+    occurrences_posted: 2,
+  }
+
+  assertEquals(upcomingRunDates(template, 3), ['2026-03-31', '2026-04-30', '2026-05-31'])
+  assertEquals(upcomingRunDates({ ...template, occurrences_posted: 4 }, 3), ['2026-05-31'])
+  assertEquals(upcomingRunDates({ ...template, status: 'ended' }, 3), [])
+})
+
+// ==========================================================================
+// Validation
+// ==========================================================================
+
+Deno.test('validate: a balanced accrual template', () => {
+  const { template, error } = validateRecurringJournalTemplate(rentAccrual, today)
+
+  assertEquals(error, undefined)
+  assertEquals(template?.amount, 250000)
+  assertEquals(template?.end_date, null)
+  assertEquals(template?.auto_reverse, true)
+  assertEquals(template?.entries[0], { account_type: 'expense', entity_id: null, entry_type: 'debit', amount: 250000 })
+})
+
+Deno.test('validate: rejects unbalanced entries, past starts and auto-reversing depreciation', () => {
+  const unbalanced = validateRecurringJournalTemplate({
+    ...rentAccrual,
+    entries: [rentAccrual.entries[0], { ...rentAccrual.entries[1], amount: 240000 }],
+  }, today)
+  assertEquals(unbalanced.error, 'Entries must balance (debits 250000, credits 240000)')
+
+  assertEquals(typeof validateRecurringJournalTemplate({ ...rentAccrual, start_date: '2026-10-01' }, today).error, 'string')
+  assertEquals(typeof validateRecurringJournalTemplate({ ...rentAccrual, end_date: '2026-10-30' }, today).error, 'string')
+  assertEquals(typeof validateRecurringJournalTemplate({ ...rentAccrual, adjustment_type: 'depreciation' }, today).error, 'string')
+  assertEquals(typeof validateRecurringJournalTemplate({ ...rentAccrual, recurrence_interval: 'daily' }, today).error, 'string')
+  assertEquals(
+    validateRecurringJournalTemplate({ ...rentAccrual, adjustment_type: 'depreciation', auto_reverse: false }, today).error,
+    undefined,
+  )
+})
+
+// ==========================================================================
+// Templates
+// ==========================================================================
+
+Deno.test('create: stores major units and schedules the first run on start_date', async () => {
+  const { supabase, calls } = mockSupabase(null)
+
+  const result = await createRecurringJournalResponse(apiRequest(), supabase, ledger, rentAccrual, 'req_1')
+
+  assertEquals(result.status, 201)
+  const [table, row] = calls.inserts[0]
+  assertEquals(table, 'recurring_journal_templates')
+  assertEquals(row.amount, 2500)
+  assertEquals(row.entries[1].amount, 2500)
+  assertEquals(row.next_run_date, '2026-10-31')
+  assertEquals((result.body.template as any).amount, 250000)
+})
+
+Deno.test('create: unknown accounts are rejected before the template is saved', async () => {
+  const { supabase, calls } = mockSupabase(null, null)
+
+  const result = await createRecurringJournalResponse(apiRequest(), supabase, ledger, rentAccrual, 'req_1')
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'account_not_found')
+  assertEquals(calls.inserts.length, 0)
+})
+
+Deno.test('status: ended templates cannot be resumed', async () => {
+  const { supabase, calls } = mockSupabase({ id: 'rjt_1', status: 'ended', entries: [] })
+
+  const result = await updateRecurringJournalStatusResponse(
+    apiRequest(), supabase, ledger, 'b7b0c6a4-5d8e-4c1f-9a7e-2f3d4c5b6a79', 'resume', 'req_1',
+  )
+
+  assertEquals(result.status, 409)
+  assertEquals(result.body.error_code, 'invalid_recurring_journal_transition')
+  assertEquals(calls.updates.length, 0)
+})
@@ -0,0 +1,133 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  postReferralCommissions,
+  reverseReferralCommissions,
+  validateReferralAttribution,
+} from '../referral-service.ts'
+
+function mockSupabase(rpcRows: any[] | null, rpcError: unknown = null) {
+  const calls = { rpc: [] as Array<[string, any]>, upserted: [] as any[] }
+  const supabase = {
+    rpc: (name: string, params: any) => {
+      calls.rpc.push([name, params])
+      return Promise.resolve({ data: rpcRows, error: rpcError })
+    },
+    from: (table: string) => {
+      assertEquals(table, 'transaction_links')
+      return {
+        upsert: (rows: any[]) => {
+          calls.upserted.push(...rows)
+          return Promise.resolve({ error: null })
+        },
+      }
+    },
+  } as any
+  return { supabase, calls }
+}
+
+// ==========================================================================
+// validateReferralAttribution
+// ==========================================================================
+
+Deno.test('validate attribution: defaults to a creator referral with no end date', () => {
+  const { attribution, error } = validateReferralAttribution({
+    referrer_id: 'creator_ref',
+    referred_id: 'creator_new',
+    commission_percent: 12.345,
+  })
+
+  assertEquals(error, undefined)
+  assertEquals(attribution?.referred_type, 'creator')
+  assertEquals(attribution?.commission_percent, 12.35)
+  assertEquals(attribution?.starts_at, null)
+  assertEquals(attribution?.ends_at, null)
+  assertEquals(attribution?.metadata, {})
+})
+
+Deno.test('validate attribution: normalizes the window to ISO timestamps', () => {
+  const { attribution } = validateReferralAttribution({
+    referrer_id: 'creator_ref',
+    referred_type: 'customer',
+    referred_id: 'buyer_1',
+    commission_percent: 5,
+    starts_at: '2026-01-01',
+    ends_at: '2026-07-01T00:00:00Z',
+  })
+
+  assertEquals(attribution?.starts_at, '2026-01-01T00:00:00.000Z')
+  assertEquals(attribution?.ends_at, '2026-07-01T00:00:00.000Z')
+})
+
+Deno.test('validate attribution: rejects bad input', () => {
+  const cases: Array<[Record<string, unknown>, string]> = [
+    [{ referred_id: 'b', commission_percent: 5 }, 'Invalid referrer_id'],
+    [{ referrer_id: 'a', referred_type: 'partner', referred_id: 'b', commission_percent: 5 }, 'referred_type must be one of: creator, customer'],
+    [{ referrer_id: 'a', commission_percent: 5 }, 'Invalid referred_id'],
+    [{ referrer_id: 'a', referred_id: 'a', commission_percent: 5 }, 'A creator cannot refer themselves'],
+    [{ referrer_id: 'a', referred_id: 'b', commission_percent: 0 }, 'commission_percent must be greater than 0 and at most 100'],
+    [{ referrer_id: 'a', referred_id: 'b', commission_percent: 5, starts_at: 'soon' }, 'starts_at must be an ISO date'],
+    [{ referrer_id: 'a', referred_id: 'b', commission_percent: 5, starts_at: '2026-03-01', ends_at: '2026-02-01' }, 'ends_at must be after starts_at'],
+    [{ referrer_id: 'a', referred_id: 'b', commission_percent: 5, metadata: [] }, 'metadata must be an object'],
+  ]
+
+  for (const [input, message] of cases) {
+    assertEquals(validateReferralAttribution(input).error, message)
+  }
+})
+
+Deno.test('validate attribution: a customer may share the referrer id', () => {
+  const { error } = validateReferralAttribution({
+    referrer_id: 'user_1',
+    referred_type: 'customer',
+    referred_id: 'user_1',
+    commission_percent: 10,
+  })
+
+  assertEquals(error, undefined)
+})
+
+// ==========================================================================
+// postReferralCommissions / reverseReferralCommissions
+// ==========================================================================
+
+Deno.test('post commissions: links each commission to its source transaction', async () => {
+  const { supabase, calls } = mockSupabase([
+    { out_commission_id: 'com_1', out_attribution_id: 'attr_1', out_referrer_id: 'creator_ref', out_transaction_id: 'tx_com_1', out_amount: '2.50' },
+  ])
+
+  const { commissions, error } = await postReferralCommissions(supabase, 'ledger_1', 'tx_sale', 'req_1')
+
+  assertEquals(error, undefined)
+  assertEquals(calls.rpc, [['post_referral_commissions', { p_ledger_id: 'ledger_1', p_transaction_id: 'tx_sale' }]])
+  assertEquals(commissions[0].amount, 2.5)
+  assertEquals(calls.upserted.length, 1)
+  assertEquals(calls.upserted[0].source_id, 'tx_com_1')
+  assertEquals(calls.upserted[0].target_id, 'tx_sale')
+  assertEquals(calls.upserted[0].link_type, 'split')
+  assertEquals(calls.upserted[0].metadata.referral_attribution_id, 'attr_1')
+})
+
+Deno.test('post commissions: an RPC failure comes back as an error, not a throw', async () => {
+  const { supabase, calls } = mockSupabase(null, { message: 'boom' })
+
+  const { commissions, error } = await postReferralCommissions(supabase, 'ledger_1', 'tx_sale', 'req_1')
+
+  assertEquals(commissions, [])
+  assertEquals(error, 'boom')
+  assertEquals(calls.upserted, [])
+})
+
+Deno.test('reverse commissions: links each reversal to the commission it reverses', async () => {
+  const { supabase, calls } = mockSupabase([
+    { out_commission_id: 'com_1', out_referrer_id: 'creator_ref', out_transaction_id: 'tx_rev_1', out_commission_transaction_id: 'tx_com_1', out_amount: 1.25 },
+  ])
+
+  const reversals = await reverseReferralCommissions(supabase, 'ledger_1', 'tx_refund', 'req_1')
+
+  assertEquals(calls.rpc[0][1], { p_ledger_id: 'ledger_1', p_refund_transaction_id: 'tx_refund' })
+  assertEquals(reversals[0].amount, 1.25)
+  assertEquals(calls.upserted[0].source_id, 'tx_rev_1')
+  assertEquals(calls.upserted[0].target_id, 'tx_com_1')
+  assertEquals(calls.upserted[0].link_type, 'reversal')
+  assertEquals(calls.upserted[0].metadata.refund_transaction_id, 'tx_refund')
+})
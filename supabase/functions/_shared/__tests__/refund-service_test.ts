@@ -21,6 +21,7 @@ function makeSaleFoundSupabase(saleAmount: number, existingRefunds: any[] = [])
           eq() { return this },
           not() { return this },
           in() { return this },
+          gte() { return this },
           single() {
             return Promise.resolve({
               data: {
@@ -51,6 +52,7 @@ function makeSaleFoundSupabase(saleAmount: number, existingRefunds: any[] = [])
         neq() { return chain },
         single() { return Promise.resolve({ data: null, error: null }) },
         insert() { return Promise.resolve({ error: null }) },
+        upsert() { return Promise.resolve({ error: null }) },
       }
       return chain
     },
@@ -74,6 +76,9 @@ function makeSaleFoundSupabase(saleAmount: number, existingRefunds: any[] = [])
       if (fn === 'update_creator_risk_score') {
         return Promise.resolve({ error: null })
       }
+      if (fn === 'reverse_referral_commissions' || fn === 'reverse_revenue_schedule' || fn === 'record_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
+      }
       throw new Error(`Unexpected RPC: ${fn}`)
     },
   } as any
@@ -231,3 +236,71 @@ Deno.test('refund: partial refund exceeding remaining amount returns 409', async
   assertEquals(result.status, 409)
   assertEquals(result.body.error_code, 'refund_amount_exceeds_remaining')
 })
+
+Deno.test('refund: line_item_id refunds that line item\'s sale', async () => {
+  const saleSupabase = makeSaleFoundSupabase(50)
+  const saleReferences: string[] = []
+  const supabase = {
+    from(table: string) {
+      if (table === 'checkout_line_items') {
+        return {
+          select() { return this },
+          eq() { return this },
+          maybeSingle() {
+            return Promise.resolve({
+              data: { id: 'li_2', checkout_reference: 'checkout_sess_1', reference_id: 'checkout_sess_1_2' },
+              error: null,
+            })
+          },
+        }
+      }
+      const builder = saleSupabase.from(table)
+      const eq = builder.eq
+      builder.eq = function (column: string, value: string) {
+        if (column === 'reference_id') saleReferences.push(value)
+        return eq.call(this, column, value)
+      }
+      return builder
+    },
+    rpc: saleSupabase.rpc,
+  } as any
+
+  const result = await recordRefundResponse(req, supabase, ledger, {
+    original_sale_reference: 'checkout_sess_1',
+    line_item_id: 'li_2',
+    reason: 'one item returned',
+  }, requestId)
+
+  assertEquals(result.status, 200)
+  assertEquals(saleReferences[0], 'checkout_sess_1_2')
+})
+
+Deno.test('refund: rejects a line item that is not posted or belongs to another sale', async () => {
+  const lineItem = { id: 'li_1', checkout_reference: 'checkout_sess_1', reference_id: null as string | null }
+  const supabase = {
+    from() {
+      return {
+        select() { return this },
+        eq() { return this },
+        maybeSingle() { return Promise.resolve({ data: lineItem, error: null }) },
+      }
+    },
+  } as any
+
+  const notPosted = await recordRefundResponse(req, supabase, ledger, {
+    original_sale_reference: '',
+    line_item_id: 'li_1',
+    reason: 'customer request',
+  }, requestId)
+  assertEquals(notPosted.status, 409)
+  assertEquals(notPosted.body.error_code, 'line_item_not_posted')
+
+  lineItem.reference_id = 'checkout_sess_1_1'
+  const mismatch = await recordRefundResponse(req, supabase, ledger, {
+    original_sale_reference: 'sale_other',
+    line_item_id: 'li_1',
+    reason: 'customer request',
+  }, requestId)
+  assertEquals(mismatch.status, 400)
+  assertEquals(mismatch.body.error_code, 'line_item_sale_mismatch')
+})
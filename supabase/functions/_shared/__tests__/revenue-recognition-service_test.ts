@@ -0,0 +1,194 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  createRevenueSchedule,
+  ratableScheduleForPeriod,
+  reverseRevenueSchedule,
+  validateRevenueSchedule,
+} from '../revenue-recognition-service.ts'
+
+function mockSupabase(rpcRows: any[] | null, rpcError: unknown = null) {
+  const calls = { rpc: [] as Array<[string, any]>, upserted: [] as any[] }
+  const supabase = {
+    rpc: (name: string, params: any) => {
+      calls.rpc.push([name, params])
+      return Promise.resolve({ data: rpcRows, error: rpcError })
+    },
+    from: (table: string) => {
+      assertEquals(table, 'transaction_links')
+      return {
+        upsert: (rows: any[]) => {
+          calls.upserted.push(...rows)
+          return Promise.resolve({ error: null })
+        },
+      }
+    },
+  } as any
+  return { supabase, calls }
+}
+
+// ==========================================================================
+// validateRevenueSchedule
+// ==========================================================================
+
+Deno.test('validate schedule: straight-line with an optional start date', () => {
+  assertEquals(validateRevenueSchedule({ method: 'straight_line', months: 12 }), {
+    schedule: { method: 'straight_line', months: 12, start_date: null, milestones: null },
+  })
+  assertEquals(
+    validateRevenueSchedule({ method: 'straight_line', months: 3, start_date: '2026-02-01' }).schedule?.start_date,
+    '2026-02-01',
+  )
+})
+
+Deno.test('validate schedule: milestones must add up to 100 percent', () => {
+  const { schedule, error } = validateRevenueSchedule({
+    method: 'milestone',
+    milestones: [
+      { name: 'Kickoff', percent: 33.33, recognize_on: '2026-03-01' },
+      { name: 'Delivery', percent: 66.67 },
+    ],
+  })
+
+  assertEquals(error, undefined)
+  assertEquals(schedule?.milestones, [
+    { name: 'Kickoff', percent: 33.33, recognize_on: '2026-03-01' },
+    { name: 'Delivery', percent: 66.67, recognize_on: null },
+  ])
+})
+
+Deno.test('validate schedule: rejects bad input', () => {
+  const cases: Array<[unknown, string]> = [
+    [[], 'recognition must be an object'],
+    [{ method: 'upfront' }, 'recognition.method must be one of: straight_line, milestone'],
+    [{ method: 'straight_line', months: 0 }, 'recognition.months must be an integer from 1 to 120'],
+    [{ method: 'straight_line', months: 1.5 }, 'recognition.months must be an integer from 1 to 120'],
+    [{ method: 'straight_line', months: 12, start_date: '2026-02-30' }, 'recognition.start_date must be a YYYY-MM-DD date'],
+    [{ method: 'straight_line', months: 12, milestones: [] }, 'recognition.milestones only applies to milestone schedules'],
+    [{ method: 'milestone', months: 2, milestones: [] }, 'recognition.months only applies to straight_line schedules'],
+    [{ method: 'milestone', milestones: [] }, 'recognition.milestones must list 1 to 50 milestones'],
+    [{ method: 'milestone', milestones: [{ percent: 100 }] }, 'recognition.milestones[0].name is required'],
+    [{ method: 'milestone', milestones: [{ name: 'A', percent: 0 }] }, 'recognition.milestones[0].percent must be greater than 0 and at most 100'],
+    [{ method: 'milestone', milestones: [{ name: 'A', percent: 100, recognize_on: 'soon' }] }, 'recognition.milestones[0].recognize_on must be a YYYY-MM-DD date'],
+    [{ method: 'milestone', milestones: [{ name: 'A', percent: 60 }, { name: 'B', percent: 30 }] }, 'recognition.milestones percents must add up to 100'],
+  ]
+
+  for (const [input, message] of cases) {
+    assertEquals(validateRevenueSchedule(input).error, message)
+  }
+})
+
+Deno.test('ratable schedule: covers the billing period in months', () => {
+  assertEquals(ratableScheduleForPeriod('year', 1, '2026-04-15T10:00:00.000Z'), {
+    method: 'straight_line',
+    months: 12,
+    start_date: '2026-04-15',
+    milestones: null,
+  })
+  assertEquals(ratableScheduleForPeriod('month', 3, '2026-04-15T10:00:00.000Z')?.months, 3)
+  assertEquals(ratableScheduleForPeriod('week', 2, '2026-04-15T10:00:00.000Z'), null)
+  assertEquals(ratableScheduleForPeriod('year', 11, '2026-04-15T10:00:00.000Z'), null)
+})
+
+// ==========================================================================
+// createRevenueSchedule
+// ==========================================================================
+
+Deno.test('create schedule: links a new deferral to the sale', async () => {
+  const { supabase, calls } = mockSupabase([{
+    out_schedule_id: 'sched_1',
+    out_deferral_transaction_id: 'tx_deferral',
+    out_total_amount: '120.00',
+    out_created: true,
+  }])
+
+  const { posting, error } = await createRevenueSchedule(supabase, 'ledger_1', 'tx_sale', {
+    method: 'straight_line',
+    months: 12,
+    start_date: null,
+    milestones: null,
+  }, 'req_1')
+
+  assertEquals(error, undefined)
+  assertEquals(posting, {
+    schedule_id: 'sched_1',
+    deferral_transaction_id: 'tx_deferral',
+    total_amount: 120,
+    created: true,
+  })
+  assertEquals(calls.rpc[0][0], 'create_revenue_schedule')
+  assertEquals(calls.rpc[0][1].p_months, 12)
+  assertEquals(calls.upserted.length, 1)
+  assertEquals(calls.upserted[0].source_id, 'tx_deferral')
+  assertEquals(calls.upserted[0].target_id, 'tx_sale')
+  assertEquals(calls.upserted[0].link_type, 'adjustment')
+})
+
+Deno.test('create schedule: an existing schedule is returned without relinking', async () => {
+  const { supabase, calls } = mockSupabase([{
+    out_schedule_id: 'sched_1',
+    out_deferral_transaction_id: 'tx_deferral',
+    out_total_amount: 120,
+    out_created: false,
+  }])
+
+  const { posting } = await createRevenueSchedule(supabase, 'ledger_1', 'tx_sale', {
+    method: 'straight_line',
+    months: 12,
+    start_date: null,
+    milestones: null,
+  }, 'req_1')
+
+  assertEquals(posting?.created, false)
+  assertEquals(calls.upserted.length, 0)
+})
+
+Deno.test('create schedule: maps database rejections to client errors', async () => {
+  const { supabase } = mockSupabase(null, { message: 'Sale tx_sale has refunds; schedules must be created before refunding' })
+
+  const result = await createRevenueSchedule(supabase, 'ledger_1', 'tx_sale', {
+    method: 'straight_line',
+    months: 12,
+    start_date: null,
+    milestones: null,
+  }, 'req_1')
+
+  assertEquals(result.posting, undefined)
+  assertEquals(result.status, 409)
+  assertEquals(result.error, 'Sale tx_sale has refunds; schedules must be created before refunding')
+})
+
+// ==========================================================================
+// reverseRevenueSchedule
+// ==========================================================================
+
+Deno.test('reverse schedule: links each unwind to the deferral it reverses', async () => {
+  const { supabase, calls } = mockSupabase([{
+    out_schedule_id: 'sched_1',
+    out_transaction_id: 'tx_unwind',
+    out_deferral_transaction_id: 'tx_deferral',
+    out_amount: '45.50',
+  }])
+
+  const unwinds = await reverseRevenueSchedule(supabase, 'ledger_1', 'tx_refund', 'req_1')
+
+  assertEquals(unwinds, [{
+    schedule_id: 'sched_1',
+    transaction_id: 'tx_unwind',
+    deferral_transaction_id: 'tx_deferral',
+    amount: 45.5,
+  }])
+  assertEquals(calls.rpc[0], ['reverse_revenue_schedule', {
+    p_ledger_id: 'ledger_1',
+    p_refund_transaction_id: 'tx_refund',
+  }])
+  assertEquals(calls.upserted[0].link_type, 'reversal')
+  assertEquals(calls.upserted[0].target_id, 'tx_deferral')
+  assertEquals(calls.upserted[0].metadata.refund_transaction_id, 'tx_refund')
+})
+
+Deno.test('reverse schedule: never fails the refund', async () => {
+  const { supabase, calls } = mockSupabase(null, { message: 'boom' })
+
+  assertEquals(await reverseRevenueSchedule(supabase, 'ledger_1', 'tx_refund', 'req_1'), [])
+  assertEquals(calls.upserted.length, 0)
+})
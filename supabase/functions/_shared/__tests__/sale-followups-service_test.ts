@@ -0,0 +1,141 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  MAX_SALE_FOLLOWUP_ATTEMPTS,
+  retrySaleFollowups,
+  runSaleFollowups,
+} from '../sale-followups-service.ts'
+
+type RpcResult = { data: unknown; error: { message: string } | null }
+
+function mockSupabase(rpcResults: Record<string, RpcResult>, pendingRows: any[] = []) {
+  const calls = {
+    rpc: [] as string[],
+    markers: [] as any[],
+    updates: [] as Array<{ step: string; values: any }>,
+  }
+  const supabase = {
+    rpc: (name: string) => {
+      calls.rpc.push(name)
+      return Promise.resolve(rpcResults[name] ?? { data: [], error: null })
+    },
+    from: (table: string) => {
+      if (table === 'transaction_links') {
+        return { upsert: () => Promise.resolve({ error: null }) }
+      }
+      assertEquals(table, 'sale_followups')
+      let update: any = null
+      const filters: Record<string, unknown> = {}
+      const chain: any = {
+        upsert: (rows: any[]) => {
+          calls.markers.push(...rows)
+          return Promise.resolve({ error: null })
+        },
+        update: (values: any) => {
+          update = values
+          return chain
+        },
+        select: () => chain,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value
+          return chain
+        },
+        lt: () => chain,
+        in: () => chain,
+        order: () => chain,
+        limit: () => chain,
+        then: (resolve: any) => {
+          if (update) {
+            calls.updates.push({ step: filters.step as string, values: update })
+            return resolve({ error: null })
+          }
+          return resolve({ data: pendingRows, error: null })
+        },
+      }
+      return chain
+    },
+  } as any
+  return { supabase, calls }
+}
+
+const sale = { ledgerId: 'ledger_1', transactionId: 'tx_sale', creatorId: 'creator_1' }
+
+// ==========================================================================
+// runSaleFollowups
+// ==========================================================================
+
+Deno.test('run: records a marker per step and completes them in order', async () => {
+  const { supabase, calls } = mockSupabase({
+    apply_creator_reserve: {
+      data: [{ out_tranche_id: 'tranche_1', out_hold_transaction_id: 'tx_hold', out_amount: 8, out_release_at: '2026-07-01T00:00:00Z', out_created: true }],
+      error: null,
+    },
+  })
+
+  const results = await runSaleFollowups(supabase, sale, 'req_1')
+
+  assertEquals(calls.markers.map((marker) => marker.step), ['referral_commissions', 'creator_reserve', 'creator_debt_recovery'])
+  assertEquals(calls.rpc, ['post_referral_commissions', 'apply_creator_reserve', 'recover_creator_debts'])
+  assertEquals(calls.updates.map((u) => [u.step, u.values.status, u.values.attempts]), [
+    ['referral_commissions', 'completed', 1],
+    ['creator_reserve', 'completed', 1],
+    ['creator_debt_recovery', 'completed', 1],
+  ])
+  assertEquals(results.creator_reserve?.tranche_id, 'tranche_1')
+  assertEquals(results.pending, [])
+})
+
+Deno.test('run: a failed step stays pending and later steps wait for it', async () => {
+  const { supabase, calls } = mockSupabase({
+    create_revenue_schedule: { data: null, error: { message: 'connection reset' } },
+  })
+
+  const results = await runSaleFollowups(supabase, {
+    ...sale,
+    recognition: { method: 'straight_line', start_date: '2026-01-01', months: 12, milestones: null },
+  }, 'req_1')
+
+  assertEquals(calls.markers[1].payload.recognition.months, 12)
+  assertEquals(calls.rpc, ['post_referral_commissions', 'create_revenue_schedule'])
+  assertEquals(calls.updates[1].values.status, 'pending')
+  assertEquals(calls.updates[1].values.last_error, 'Failed to create revenue schedule')
+  assertEquals(results.completed, ['referral_commissions'])
+  assertEquals(results.pending, ['revenue_schedule', 'creator_reserve', 'creator_debt_recovery'])
+})
+
+Deno.test('run: a rejected schedule fails for good and later steps still post', async () => {
+  const { supabase, calls } = mockSupabase({
+    create_revenue_schedule: { data: null, error: { message: 'Sale has no platform revenue to defer' } },
+  })
+
+  const results = await runSaleFollowups(supabase, {
+    ...sale,
+    recognition: { method: 'straight_line', start_date: '2026-01-01', months: 12, milestones: null },
+  }, 'req_1')
+
+  assertEquals(calls.rpc, ['post_referral_commissions', 'create_revenue_schedule', 'apply_creator_reserve', 'recover_creator_debts'])
+  assertEquals(results.failed, ['revenue_schedule'])
+  assertEquals(results.revenue_schedule_error, 'Sale has no platform revenue to defer')
+  assertEquals(results.pending, [])
+})
+
+// ==========================================================================
+// retrySaleFollowups
+// ==========================================================================
+
+Deno.test('retry: reruns pending steps and gives up after the last attempt', async () => {
+  const { supabase, calls } = mockSupabase({
+    recover_creator_debts: { data: null, error: { message: 'deadlock detected' } },
+  }, [
+    { ledger_id: 'ledger_1', transaction_id: 'tx_sale', creator_id: 'creator_1', step: 'creator_debt_recovery', attempts: MAX_SALE_FOLLOWUP_ATTEMPTS - 1, payload: {} },
+    { ledger_id: 'ledger_1', transaction_id: 'tx_sale', creator_id: 'creator_1', step: 'creator_reserve', attempts: 2, payload: {} },
+  ])
+
+  const summary = await retrySaleFollowups(supabase, 50, 'req_1')
+
+  assertEquals(calls.rpc, ['apply_creator_reserve', 'recover_creator_debts'])
+  assertEquals(calls.updates.map((u) => [u.step, u.values.status, u.values.attempts]), [
+    ['creator_reserve', 'completed', 3],
+    ['creator_debt_recovery', 'failed', MAX_SALE_FOLLOWUP_ATTEMPTS],
+  ])
+  assertEquals(summary, { sales: 1, completed: 1, pending: 0, failed: 1 })
+})
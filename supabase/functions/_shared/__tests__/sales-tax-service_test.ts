@@ -0,0 +1,200 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  calculateSalesTax,
+  calculateSalesTaxResponse,
+  normalizeCustomerTaxId,
+  normalizeTaxRegion,
+  summarizeSalesTaxLiability,
+  upsertSalesTaxNexusResponse,
+  upsertSalesTaxRatesResponse,
+} from '../sales-tax-service.ts'
+
+const ledger = { id: 'ledger_1', settings: {} } as any
+const req = new Request('https://example.com/sales-tax')
+
+function makeTaxSupabase(rpcData: unknown, rpcError: unknown = null) {
+  const calls: Array<{ fn: string; args: any }> = []
+  const supabase = {
+    calls,
+    rpc(fn: string, args: any) {
+      calls.push({ fn, args })
+      return Promise.resolve({ data: rpcData, error: rpcError })
+    },
+    from(table: string) {
+      const chain: any = {
+        upsert(rows: any, options: any) {
+          calls.push({ fn: `upsert:${table}`, args: { rows, options } })
+          return chain
+        },
+        select() { return Promise.resolve({ data: [{ id: 'row_1' }], error: null }) },
+        insert() { return Promise.resolve({ error: null }) },
+      }
+      return chain
+    },
+  }
+  return supabase as any
+}
+
+Deno.test('normalizers: region codes and buyer tax IDs', () => {
+  assertEquals(normalizeTaxRegion(undefined), '')
+  assertEquals(normalizeTaxRegion(' md '), 'MD')
+  assertEquals(normalizeTaxRegion('Maryland'), null)
+  assertEquals(normalizeCustomerTaxId('de 123 456 789'), 'DE123456789')
+  assertEquals(normalizeCustomerTaxId('x'), null)
+})
+
+Deno.test('calculateSalesTax: maps the RPC quote', async () => {
+  const supabase = makeTaxSupabase({
+    collect: true,
+    tax_cents: 255,
+    rate_bps: 2550,
+    jurisdiction_code: 'FI',
+    jurisdiction_name: 'Finland',
+    tax_type: 'vat',
+    reverse_charge: false,
+  })
+
+  const result = await calculateSalesTax(supabase, ledger.id, {
+    subtotal_cents: 1000,
+    country: 'FI',
+    tax_category: 'digital_goods',
+    as_of: '2024-09-01',
+  })
+
+  assertEquals(result.ok, true)
+  if (!result.ok) return
+  assertEquals(result.quote.tax_cents, 255)
+  assertEquals(result.quote.jurisdiction_code, 'FI')
+  assertEquals(result.quote.reason, null)
+  assertEquals(supabase.calls[0].args.p_as_of, '2024-09-01')
+  assertEquals(supabase.calls[0].args.p_state_code, null)
+})
+
+Deno.test('calculateSalesTax: RPC failure is an error, not zero tax', async () => {
+  const result = await calculateSalesTax(makeTaxSupabase(null, { message: 'boom' }), ledger.id, {
+    subtotal_cents: 1000,
+    country: 'US',
+    state: 'MD',
+  })
+
+  assertEquals(result.ok, false)
+  if (!result.ok) assertEquals(result.error_code, 'sales_tax_calculation_failed')
+})
+
+Deno.test('calculateSalesTaxResponse: returns the total including tax', async () => {
+  const supabase = makeTaxSupabase({
+    collect: true,
+    tax_cents: 60,
+    rate_bps: 600,
+    jurisdiction_code: 'US-MD',
+    jurisdiction_name: 'Maryland',
+    tax_type: 'sales_tax',
+    reverse_charge: false,
+  })
+
+  const result = await calculateSalesTaxResponse(req, supabase, ledger, {
+    amount: 1000,
+    customer_country: 'us',
+    customer_state: 'md',
+    tax_category: 'digital_goods',
+  }, 'req_1')
+
+  assertEquals(result.status, 200)
+  const body = result.body as any
+  assertEquals(body.total_amount, 1060)
+  assertEquals(body.jurisdiction_code, 'US-MD')
+  assertEquals(supabase.calls[0].args.p_country_code, 'US')
+  assertEquals(supabase.calls[0].args.p_state_code, 'MD')
+})
+
+Deno.test('calculateSalesTaxResponse: rejects malformed buyer tax IDs', async () => {
+  const supabase = makeTaxSupabase(null)
+  const result = await calculateSalesTaxResponse(req, supabase, ledger, {
+    amount: 1000,
+    customer_country: 'DE',
+    customer_tax_id: '??',
+  }, 'req_1')
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_customer_tax_id')
+  assertEquals(supabase.calls.length, 0)
+})
+
+Deno.test('upsertSalesTaxRatesResponse: defaults the jurisdiction code from the location', async () => {
+  const supabase = makeTaxSupabase(null)
+  const result = await upsertSalesTaxRatesResponse(req, supabase, ledger, {
+    rates: [{ country_code: 'us', state_code: 'ny', postal_code: '100', rate_bps: 887, effective_from: '2026-01-01' }],
+  }, 'req_1')
+
+  assertEquals(result.status, 200)
+  const upsert = supabase.calls.find((c: any) => c.fn === 'upsert:ledger_sales_tax_rates')
+  assertEquals(upsert.args.rows[0].jurisdiction_code, 'US-NY-100')
+  assertEquals(upsert.args.rows[0].tax_type, 'sales_tax')
+  assertEquals(upsert.args.rows[0].tax_category, '')
+})
+
+Deno.test('upsertSalesTaxRatesResponse: rejects rates outside 0-10000 bps', async () => {
+  const result = await upsertSalesTaxRatesResponse(req, makeTaxSupabase(null), ledger, {
+    rates: [{ country_code: 'DE', rate_bps: 19.5, effective_from: '2026-01-01' }],
+  }, 'req_1')
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_rate_bps')
+})
+
+Deno.test('upsertSalesTaxNexusResponse: rejects an end date before the start', async () => {
+  const result = await upsertSalesTaxNexusResponse(req, makeTaxSupabase(null), ledger, {
+    nexus: [{ country_code: 'GB', effective_from: '2026-05-01', effective_to: '2026-01-01' }],
+  }, 'req_1')
+
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_date')
+})
+
+const q2 = { start: '2026-04-01', end: '2026-06-30' }
+
+function sale(id: string, metadata: Record<string, unknown>, amount = 10.6) {
+  return { id, amount, currency: 'USD', metadata }
+}
+
+Deno.test('summarizeSalesTaxLiability: splits taxable and exempt sales by jurisdiction', () => {
+  const report = summarizeSalesTaxLiability(q2, [
+    sale('s1', { sales_tax_jurisdiction: 'US-MD', amounts_cents: { gross: 1060, subtotal: 1000, sales_tax: 60 } }),
+    sale('s2', { sales_tax_jurisdiction: 'US-MD', amounts_cents: { gross: 2120, subtotal: 2000, sales_tax: 120 } }, 21.2),
+    sale('s3', { customer_tax_country: 'DE', currency: 'EUR', sales_tax_reverse_charge: true, amounts_cents: { gross: 5000, subtotal: 5000, sales_tax: 0 } }, 50),
+    sale('s4', { amounts_cents: { gross: 700, sales_tax: 0 } }, 7),
+  ], [], [])
+
+  assertEquals(report.jurisdictions.map((j) => `${j.jurisdiction_code}/${j.currency}`), ['DE/EUR', 'UNASSIGNED/USD', 'US-MD/USD'])
+
+  const md = report.jurisdictions.find((j) => j.jurisdiction_code === 'US-MD')!
+  assertEquals(md.taxable_sales_count, 2)
+  assertEquals(md.taxable_sales, 30)
+  assertEquals(md.tax_collected, 1.8)
+  assertEquals(md.net_tax_due, 1.8)
+
+  const de = report.jurisdictions.find((j) => j.jurisdiction_code === 'DE')!
+  assertEquals(de.exempt_sales, 50)
+  assertEquals(de.reverse_charge_sales, 50)
+  assertEquals(de.tax_collected, 0)
+
+  assertEquals(report.totals.find((t) => t.currency === 'USD')?.exempt_sales, 7)
+})
+
+Deno.test('summarizeSalesTaxLiability: refunds pro-rate tax back to the original jurisdiction', () => {
+  const original = sale('s_old', { sales_tax_jurisdiction: 'FI', currency: 'EUR', amounts_cents: { gross: 1255, subtotal: 1000, sales_tax: 255 } }, 12.55)
+
+  const report = summarizeSalesTaxLiability(q2, [], [
+    { id: 'r1', amount: 6.28, reverses: 's_old' },
+    { id: 'r2', amount: 5, reverses: 'not_a_sale' },
+  ], [original])
+
+  assertEquals(report.jurisdictions.length, 1)
+  const fi = report.jurisdictions[0]
+  assertEquals(fi.jurisdiction_code, 'FI')
+  assertEquals(fi.taxable_sales_count, 0)
+  assertEquals(fi.refund_count, 1)
+  assertEquals(fi.tax_refunded, 1.28)
+  assertEquals(fi.refunded_sales, 5)
+  assertEquals(fi.net_tax_due, -1.28)
+})
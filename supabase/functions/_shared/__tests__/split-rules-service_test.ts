@@ -0,0 +1,271 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  applySplitRule,
+  computeWaterfallSplit,
+  linkSplitCredits,
+  postSaleWithSplitRule,
+  validateSplitRecipients,
+  type SaleAtomicParams,
+  type SplitRuleRecipient,
+} from '../split-rules-service.ts'
+
+function recipient(overrides: Partial<SplitRuleRecipient> & Pick<SplitRuleRecipient, 'position' | 'participant_id'>): SplitRuleRecipient {
+  return {
+    role: 'co_creator',
+    percent: 0,
+    fixed_amount: 0,
+    min_amount: null,
+    max_amount: null,
+    ...overrides,
+  }
+}
+
+// ==========================================================================
+// computeWaterfallSplit
+// ==========================================================================
+
+Deno.test('waterfall: percent shares with platform keeping the remainder', () => {
+  const { allocations, platform_amount } = computeWaterfallSplit(10000, [
+    recipient({ position: 1, participant_id: 'creator_1', role: 'creator', percent: 60 }),
+    recipient({ position: 2, participant_id: 'cocreator_1', percent: 15 }),
+    recipient({ position: 3, participant_id: 'affiliate_1', role: 'affiliate', percent: 5 }),
+  ])
+
+  assertEquals(allocations.map((a) => a.amount), [6000, 1500, 500])
+  assertEquals(platform_amount, 2000)
+})
+
+Deno.test('waterfall: fixed amounts and caps apply per recipient', () => {
+  const { allocations, platform_amount } = computeWaterfallSplit(10000, [
+    recipient({ position: 1, participant_id: 'creator_1', percent: 70 }),
+    recipient({ position: 2, participant_id: 'affiliate_1', role: 'affiliate', percent: 10, max_amount: 250 }),
+    recipient({ position: 3, participant_id: 'partner_1', role: 'referral', fixed_amount: 150 }),
+    recipient({ position: 4, participant_id: 'cocreator_1', percent: 1, min_amount: 300 }),
+  ])
+
+  assertEquals(allocations.map((a) => a.amount), [7000, 250, 150, 300])
+  assertEquals(platform_amount, 2300)
+})
+
+Deno.test('waterfall: later recipients only get what earlier ones left', () => {
+  const { allocations, platform_amount } = computeWaterfallSplit(1000, [
+    recipient({ position: 2, participant_id: 'affiliate_1', percent: 30 }),
+    recipient({ position: 1, participant_id: 'creator_1', percent: 50, fixed_amount: 400 }),
+    recipient({ position: 3, participant_id: 'partner_1', min_amount: 500 }),
+  ])
+
+  assertEquals(allocations.map((a) => [a.participant_id, a.amount]), [
+    ['creator_1', 900],
+    ['affiliate_1', 100],
+    ['partner_1', 0],
+  ])
+  assertEquals(platform_amount, 0)
+})
+
+Deno.test('waterfall: floors percent shares so allocations never exceed the net', () => {
+  const { allocations, platform_amount } = computeWaterfallSplit(999, [
+    recipient({ position: 1, participant_id: 'creator_1', percent: 33.33 }),
+    recipient({ position: 2, participant_id: 'cocreator_1', percent: 33.33 }),
+    recipient({ position: 3, participant_id: 'cocreator_2', percent: 33.34 }),
+  ])
+
+  assertEquals(allocations.map((a) => a.amount), [332, 332, 333])
+  assertEquals(platform_amount, 2)
+})
+
+Deno.test('waterfall: fractional percents resolve exactly in basis points', () => {
+  const { allocations, platform_amount } = computeWaterfallSplit(10000, [
+    recipient({ position: 1, participant_id: 'creator_1', percent: 19.99 }),
+  ])
+
+  assertEquals(allocations.map((a) => a.amount), [1999])
+  assertEquals(platform_amount, 8001)
+})
+
+// ==========================================================================
+// validateSplitRecipients
+// ==========================================================================
+
+Deno.test('validate recipients: defaults role and orders by array position', () => {
+  const { recipients, error } = validateSplitRecipients([
+    { participant_id: 'creator_1', role: 'creator', percent: 80 },
+    { participant_id: 'affiliate_1', role: 'affiliate', fixed_amount: 200, max_amount: 500 },
+    { participant_id: 'cocreator_1', percent: 10 },
+  ])
+
+  assertEquals(error, undefined)
+  assertEquals(recipients?.map((r) => [r.position, r.participant_id, r.role]), [
+    [1, 'creator_1', 'creator'],
+    [2, 'affiliate_1', 'affiliate'],
+    [3, 'cocreator_1', 'co_creator'],
+  ])
+  assertEquals(recipients?.[1].max_amount, 500)
+  assertEquals(recipients?.[2].min_amount, null)
+})
+
+Deno.test('validate recipients: explicit positions set the waterfall order', () => {
+  const { recipients } = validateSplitRecipients([
+    { participant_id: 'partner_1', role: 'referral', percent: 5, position: 2 },
+    { participant_id: 'creator_1', percent: 70, position: 1 },
+  ])
+
+  assertEquals(recipients?.map((r) => r.participant_id), ['creator_1', 'partner_1'])
+})
+
+Deno.test('validate recipients: rejects bad input', () => {
+  const cases: Array<[unknown, string]> = [
+    [[], 'recipients must be a non-empty array'],
+    [[{ participant_id: 'a', role: 'investor', percent: 10 }], 'Invalid recipients[0].role: must be one of creator, co_creator, affiliate, referral'],
+    [[{ participant_id: 'a', percent: 101 }], 'Invalid recipients[0].percent: must be 0-100'],
+    [[{ participant_id: 'a', fixed_amount: -5 }], 'Invalid recipients[0] amounts: must be non-negative integers (minor units)'],
+    [[{ participant_id: 'a', percent: 10, min_amount: 500, max_amount: 100 }], 'Invalid recipients[0]: min_amount cannot exceed max_amount'],
+    [[{ participant_id: 'a' }], 'recipients[0] needs a percent, fixed_amount or min_amount'],
+    [[{ participant_id: 'a', percent: 60 }, { participant_id: 'b', percent: 50 }], 'recipient percents cannot total more than 100'],
+    [[{ participant_id: 'a', percent: 10, position: 1 }, { participant_id: 'b', percent: 10, position: 1 }], 'recipient positions must be unique'],
+  ]
+
+  for (const [input, message] of cases) {
+    assertEquals(validateSplitRecipients(input).error, message)
+  }
+})
+
+// ==========================================================================
+// linkSplitCredits
+// ==========================================================================
+
+Deno.test('link split credits: one split edge per posted credit with amount and version', async () => {
+  let upserted: any[] = []
+  const supabase = {
+    from: (table: string) => {
+      assertEquals(table, 'transaction_links')
+      return {
+        upsert: (rows: any[]) => {
+          upserted = rows
+          return Promise.resolve({ error: null })
+        },
+      }
+    },
+  } as any
+
+  const result = await linkSplitCredits(
+    supabase,
+    'ledger_1',
+    'tx_sale',
+    { split_rule_id: 'rule_1', version_id: 'ver_3', version: 3, recipients: [] },
+    [
+      { position: 2, participant_id: 'cocreator_1', role: 'co_creator', amount: 1500, transaction_id: 'tx_split_2' },
+      { position: 3, participant_id: 'partner_1', role: 'referral', amount: 250, transaction_id: null },
+    ],
+    { currency: 'USD', functionalCurrency: 'USD', fxRate: null },
+  )
+
+  assertEquals(result.created, 1)
+  assertEquals(upserted.length, 1)
+  assertEquals(upserted[0].source_id, 'tx_split_2')
+  assertEquals(upserted[0].target_id, 'tx_sale')
+  assertEquals(upserted[0].link_type, 'split')
+  assertEquals(upserted[0].amount, 15)
+  assertEquals(upserted[0].metadata.split_rule_version, 3)
+  assertEquals(upserted[0].metadata.role, 'co_creator')
+})
+
+// ==========================================================================
+// postSaleWithSplitRule
+// ==========================================================================
+
+const saleParams: SaleAtomicParams = {
+  p_ledger_id: 'ledger_1',
+  p_reference_id: 'sale_pay_1',
+  p_creator_id: 'creator_1',
+  p_gross_amount: 10000,
+  p_creator_amount: 7720,
+  p_platform_amount: 1930,
+  p_processing_fee: 0,
+  p_soledgic_fee: 350,
+  p_sales_tax: 0,
+  p_product_id: 'prod_1',
+  p_product_name: 'Course',
+  p_metadata: { checkout_provider: 'card' },
+  p_currency: null,
+  p_fx_rate: null,
+}
+
+const splitRule = {
+  split_rule_id: 'rule_1',
+  version_id: 'ver_2',
+  version: 2,
+  recipients: [
+    recipient({ position: 1, participant_id: 'creator_1', role: 'creator', percent: 60 }),
+    recipient({ position: 2, participant_id: 'cocreator_1', percent: 20 }),
+  ],
+}
+
+function postingSupabase(rpcData: Record<string, unknown>) {
+  const rpcCalls: Array<[string, any]> = []
+  let upserted: any[] = []
+  const supabase = {
+    rpc: (fn: string, args: any) => {
+      rpcCalls.push([fn, args])
+      return Promise.resolve({ data: rpcData[fn] ?? null, error: null })
+    },
+    from: (table: string) => {
+      assertEquals(table, 'transaction_links')
+      return {
+        upsert: (rows: any[]) => {
+          upserted = rows
+          return Promise.resolve({ error: null })
+        },
+      }
+    },
+  } as any
+  return { supabase, rpcCalls, upserted: () => upserted }
+}
+
+Deno.test('apply split rule: seller keeps its allocation, others become credits', () => {
+  const split = applySplitRule(splitRule, 'creator_1', 9650)
+
+  assertEquals(split.creator_amount, 5790)
+  assertEquals(split.platform_amount, 3860)
+  assertEquals(split.credits, [
+    { position: 2, participant_id: 'cocreator_1', role: 'co_creator', amount: 1930, transaction_id: null },
+  ])
+})
+
+Deno.test('post sale: without a rule posts record_sale_atomic unchanged', async () => {
+  const { supabase, rpcCalls } = postingSupabase({
+    record_sale_atomic: [{ out_transaction_id: 'tx_sale' }],
+  })
+
+  const posting = await postSaleWithSplitRule(supabase, saleParams, null)
+
+  assertEquals(rpcCalls.map(([fn]) => fn), ['record_sale_atomic'])
+  assertEquals(rpcCalls[0][1], saleParams)
+  assertEquals(posting.transaction_id, 'tx_sale')
+  assertEquals(posting.creator_amount, 7720)
+  assertEquals(posting.credits, [])
+})
+
+Deno.test('post sale: a rule re-divides the net and links each credit', async () => {
+  const { supabase, rpcCalls, upserted } = postingSupabase({
+    record_split_sale_atomic: [{
+      out_transaction_id: 'tx_sale',
+      out_split_credits: [
+        { position: 2, participant_id: 'cocreator_1', role: 'co_creator', amount: 1930, withheld: 0, transaction_id: 'tx_split_2' },
+      ],
+    }],
+    ledger_functional_currency: 'USD',
+  })
+
+  const posting = await postSaleWithSplitRule(supabase, saleParams, splitRule)
+
+  assertEquals(rpcCalls.map(([fn]) => fn), ['record_split_sale_atomic', 'ledger_functional_currency'])
+  const args = rpcCalls[0][1]
+  assertEquals(args.p_creator_amount, 5790)
+  assertEquals(args.p_platform_amount, 3860)
+  assertEquals(args.p_soledgic_fee, 350)
+  assertEquals(args.p_split_rule_version_id, 'ver_2')
+  assertEquals(args.p_split_credits, [{ position: 2, participant_id: 'cocreator_1', role: 'co_creator', amount: 1930 }])
+  assertEquals(posting.transaction_id, 'tx_sale')
+  assertEquals(posting.credits[0].transaction_id, 'tx_split_2')
+  assertEquals(upserted().map((link) => [link.source_id, link.target_id, link.amount]), [['tx_split_2', 'tx_sale', 19.3]])
+})
@@ -107,6 +107,30 @@ Deno.test('StripeWebhookAdapter: normalizes transfer.created as payout/processin
   assertEquals(events[0].amount_minor_units, 10000)
 })
 
+Deno.test('StripeWebhookAdapter: payout.failed maps bank failure codes to NACHA return codes', () => {
+  const row = makeRow({
+    event_type: 'payout.failed',
+    resource_id: 'po_test_1',
+    payload: {
+      id: 'evt_po_failed',
+      type: 'payout.failed',
+      data: {
+        object: {
+          id: 'po_test_1',
+          status: 'failed',
+          failure_code: 'account_closed',
+          metadata: { soledgic_payout_id: 'payout-1' },
+        },
+      },
+    },
+  })
+
+  const events = adapter.normalize(row)
+  assertEquals(events[0].kind, 'payout')
+  assertEquals(events[0].status, 'failed')
+  assertEquals(events[0].return_code, 'R02')
+})
+
 Deno.test('StripeWebhookAdapter: normalizes charge.dispute.created as dispute', () => {
   const row = makeRow({
     event_type: 'charge.dispute.created',
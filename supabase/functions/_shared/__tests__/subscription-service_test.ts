@@ -0,0 +1,404 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  addBillingInterval,
+  applyCredit,
+  computeProration,
+  DEFAULT_DUNNING_SCHEDULE_DAYS,
+  getDunningSchedule,
+  nextRetryAt,
+  renewSubscription,
+  validateSubscriptionPlan,
+} from '../subscription-service.ts'
+
+const ledger = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  business_name: 'Test Platform',
+  livemode: false,
+  status: 'active',
+  settings: {},
+} as any
+
+const requestId = 'req_test'
+
+const planRow = {
+  id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+  participant_id: 'creator_1',
+  product_id: 'prod_pro',
+  name: 'Pro',
+  amount: 1000,
+  currency: 'USD',
+  billing_interval: 'month',
+  interval_count: 1,
+  status: 'active',
+}
+
+function subscriptionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: '9b2f4c1e-6d7a-4e3b-8c5d-1f2a3b4c5d6e',
+    plan_id: planRow.id,
+    participant_id: 'creator_1',
+    buyer_id: 'buyer_1',
+    customer_email: null,
+    payment_method_id: 'pm_1',
+    status: 'active',
+    current_period_start: '2026-01-31T12:00:00.000Z',
+    current_period_end: '2026-02-28T12:00:00.000Z',
+    billing_anchor_day: 31,
+    cancel_at_period_end: false,
+    credit_balance: 0,
+    failed_attempts: 0,
+    next_retry_at: null,
+    ...overrides,
+  }
+}
+
+function makeSupabase(
+  tables: Record<string, any>,
+  rpcResults: Record<string, { data?: any; error?: any }> = {},
+) {
+  const calls = {
+    rpc: [] as Array<[string, any]>,
+    inserts: [] as Array<[string, any]>,
+    updates: [] as Array<[string, any]>,
+  }
+
+  const supabase = {
+    from(table: string) {
+      let pending: { op: 'select' | 'insert' | 'update'; values?: any } = { op: 'select' }
+      const result = () => {
+        if (pending.op === 'insert') {
+          return { data: { id: `${table}_new`, status: 'pending', ...pending.values }, error: null }
+        }
+        if (pending.op === 'update') {
+          return { data: { ...tables[table], ...pending.values }, error: null }
+        }
+        return { data: tables[table] ?? null, error: null }
+      }
+
+      const chain: any = {
+        select() { return chain },
+        eq() { return chain },
+        neq() { return chain },
+        order() { return chain },
+        limit() { return chain },
+        insert(values: any) {
+          pending = { op: 'insert', values }
+          calls.inserts.push([table, values])
+          return chain
+        },
+        update(values: any) {
+          pending = { op: 'update', values }
+          calls.updates.push([table, values])
+          return chain
+        },
+        upsert() { return Promise.resolve({ error: null }) },
+        single() { return Promise.resolve(result()) },
+        maybeSingle() { return Promise.resolve(result()) },
+        then(resolve: any, reject: any) { return Promise.resolve(result()).then(resolve, reject) },
+      }
+      return chain
+    },
+    rpc(fn: string, args: any) {
+      calls.rpc.push([fn, args])
+      const result = rpcResults[fn] || {}
+      return Promise.resolve({ data: result.data ?? null, error: result.error ?? null })
+    },
+  }
+
+  return { supabase: supabase as any, calls }
+}
+
+function makeProvider(result: Record<string, unknown>) {
+  const intents: any[] = []
+  const provider = {
+    createPaymentIntent(params: any) {
+      intents.push(params)
+      return Promise.resolve({ provider: 'card', ...result })
+    },
+  } as any
+  return { provider, intents }
+}
+
+function subscriptionUpdates(calls: { updates: Array<[string, any]> }) {
+  return calls.updates.filter(([table]) => table === 'buyer_subscriptions').map(([, values]) => values)
+}
+
+function webhookEvents(calls: { rpc: Array<[string, any]> }) {
+  return calls.rpc.filter(([fn]) => fn === 'queue_webhook').map(([, args]) => args.p_event_type)
+}
+
+// ==========================================================================
+// Billing math
+// ==========================================================================
+
+Deno.test('addBillingInterval: monthly periods clamp to short months and return to the anchor day', () => {
+  const jan31 = new Date('2026-01-31T12:00:00Z')
+  const feb = addBillingInterval(jan31, 'month', 1, 31)
+  const mar = addBillingInterval(feb, 'month', 1, 31)
+
+  assertEquals(feb.toISOString(), '2026-02-28T12:00:00.000Z')
+  assertEquals(mar.toISOString(), '2026-03-31T12:00:00.000Z')
+  assertEquals(addBillingInterval(new Date('2026-11-15T00:00:00Z'), 'month', 3, 15).toISOString(), '2027-02-15T00:00:00.000Z')
+})
+
+Deno.test('addBillingInterval: days, weeks and leap-day years', () => {
+  const start = new Date('2028-02-29T08:30:00Z')
+
+  assertEquals(addBillingInterval(start, 'day', 10, 29).toISOString(), '2028-03-10T08:30:00.000Z')
+  assertEquals(addBillingInterval(start, 'week', 2, 29).toISOString(), '2028-03-14T08:30:00.000Z')
+  assertEquals(addBillingInterval(start, 'year', 1, 29).toISOString(), '2029-02-28T08:30:00.000Z')
+})
+
+Deno.test('computeProration: an upgrade halfway through the period owes half the difference', () => {
+  const proration = computeProration({
+    current_amount: 1000,
+    new_amount: 3000,
+    period_start: new Date('2026-04-01T00:00:00Z'),
+    period_end: new Date('2026-05-01T00:00:00Z'),
+    at: new Date('2026-04-16T00:00:00Z'),
+  })
+
+  assertEquals(proration, {
+    remaining_fraction: 0.5,
+    unused_amount: 500,
+    new_amount: 1500,
+    net_amount: 1000,
+  })
+})
+
+Deno.test('computeProration: a downgrade nets negative and nothing is owed after the period ends', () => {
+  const period = {
+    period_start: new Date('2026-04-01T00:00:00Z'),
+    period_end: new Date('2026-05-01T00:00:00Z'),
+  }
+
+  const downgrade = computeProration({ ...period, current_amount: 3000, new_amount: 1000, at: new Date('2026-04-21T00:00:00Z') })
+  assertEquals(downgrade.unused_amount, 1000)
+  assertEquals(downgrade.new_amount, 333)
+  assertEquals(downgrade.net_amount, -667)
+
+  const late = computeProration({ ...period, current_amount: 1000, new_amount: 3000, at: new Date('2026-05-02T00:00:00Z') })
+  assertEquals(late.net_amount, 0)
+})
+
+Deno.test('applyCredit: credit covers the charge up to its amount', () => {
+  assertEquals(applyCredit(1000, 250), { charge_amount: 750, credit_applied: 250 })
+  assertEquals(applyCredit(1000, 4000), { charge_amount: 0, credit_applied: 1000 })
+  assertEquals(applyCredit(1000, 0), { charge_amount: 1000, credit_applied: 0 })
+})
+
+Deno.test('dunning: schedule comes from ledger settings and runs out', () => {
+  assertEquals(getDunningSchedule({}), DEFAULT_DUNNING_SCHEDULE_DAYS)
+  assertEquals(getDunningSchedule({ subscription_retry_days: [2, 'x', 0, 7, 45] }), [2, 7])
+  assertEquals(getDunningSchedule({ subscription_retry_days: [] }), [])
+
+  const failedAt = new Date('2026-03-01T00:00:00Z')
+  assertEquals(nextRetryAt(1, [1, 3, 5], failedAt)?.toISOString(), '2026-03-02T00:00:00.000Z')
+  assertEquals(nextRetryAt(3, [1, 3, 5], failedAt)?.toISOString(), '2026-03-06T00:00:00.000Z')
+  assertEquals(nextRetryAt(4, [1, 3, 5], failedAt), null)
+})
+
+// ==========================================================================
+// validateSubscriptionPlan
+// ==========================================================================
+
+Deno.test('validate plan: defaults to one interval and no product', () => {
+  const { plan, error } = validateSubscriptionPlan({
+    participant_id: 'creator_1',
+    name: ' Pro ',
+    amount: 1500,
+    interval: 'month',
+  })
+
+  assertEquals(error, undefined)
+  assertEquals(plan?.name, 'Pro')
+  assertEquals(plan?.interval_count, 1)
+  assertEquals(plan?.product_id, null)
+  assertEquals(plan?.currency, null)
+})
+
+Deno.test('validate plan: rejects bad input', () => {
+  const base = { participant_id: 'creator_1', name: 'Pro', amount: 1500, interval: 'month' }
+  const cases: Array<[Record<string, unknown>, string]> = [
+    [{ ...base, participant_id: 'bad id' }, 'Invalid participant_id'],
+    [{ ...base, name: '  ' }, 'name is required'],
+    [{ ...base, amount: 15.5 }, 'amount must be a positive integer in minor units'],
+    [{ ...base, currency: 'XYZ' }, 'Unsupported currency'],
+    [{ ...base, interval: 'quarter' }, 'interval must be one of: day, week, month, year'],
+    [{ ...base, interval_count: 0 }, 'interval_count must be an integer between 1 and 365'],
+    [{ ...base, metadata: 'x' }, 'metadata must be an object'],
+  ]
+
+  for (const [input, message] of cases) {
+    assertEquals(validateSubscriptionPlan(input).error, message)
+  }
+})
+
+// ==========================================================================
+// renewSubscription
+// ==========================================================================
+
+Deno.test('renewSubscription: a paid renewal books a split sale and advances the period', async () => {
+  const { supabase, calls } = makeSupabase({
+    buyer_subscriptions: subscriptionRow({ current_period_end: '2026-02-28T12:00:00.000Z' }),
+    subscription_plans: planRow,
+  }, {
+    record_funding_atomic: { data: [{ out_transaction_id: 'tx_funding' }] },
+    get_effective_split: { data: [{ creator_percent: 80, platform_percent: 20, source: 'default' }] },
+    calculate_sale_split: { data: [{ creator_cents: 800, platform_cents: 200, fee_cents: 0, soledgic_fee_cents: 0 }] },
+    record_sale_atomic: { data: [{ out_transaction_id: 'tx_sale' }] },
+  })
+  const { provider, intents } = makeProvider({ success: true, id: 'pi_1', status: 'SUCCEEDED' })
+
+  const outcome = await renewSubscription(supabase, ledger, provider, subscriptionRow().id, requestId)
+
+  assertEquals(outcome.outcome, 'renewed')
+  assertEquals(intents[0].amount, 1000)
+  assertEquals(intents[0].payment_method_id, 'pm_1')
+  assertEquals(intents[0].idempotency_id, 'subscription_charge_subscription_charges_new')
+
+  const sale = calls.rpc.find(([fn]) => fn === 'record_sale_atomic')![1]
+  assertEquals(sale.p_reference_id, 'sale_pi_1')
+  assertEquals(sale.p_creator_id, 'creator_1')
+  assertEquals(sale.p_creator_amount, 800)
+  assertEquals(sale.p_platform_amount, 200)
+  assertEquals(sale.p_metadata.subscription_id, subscriptionRow().id)
+
+  const [advanced] = subscriptionUpdates(calls)
+  assertEquals(advanced.current_period_start, '2026-02-28T12:00:00.000Z')
+  assertEquals(advanced.current_period_end, '2026-03-31T12:00:00.000Z')
+  assertEquals(advanced.renewal_locked_until, null)
+  assertEquals(webhookEvents(calls), ['subscription.renewed'])
+})
+
+Deno.test('renewSubscription: a renewal posts through split rules, the creator reserve and debt recovery like a one-off sale', async () => {
+  const { supabase, calls } = makeSupabase({
+    buyer_subscriptions: subscriptionRow({ current_period_end: '2026-02-28T12:00:00.000Z' }),
+    subscription_plans: planRow,
+    split_rules: { id: 'rule_1', current_version: 2 },
+    split_rule_versions: { id: 'ver_2', version: 2 },
+    split_rule_recipients: [
+      { position: 1, participant_id: 'creator_1', role: 'creator', percent: 60, fixed_amount: 0, min_amount: null, max_amount: null },
+      { position: 2, participant_id: 'cocreator_1', role: 'co_creator', percent: 20, fixed_amount: 0, min_amount: null, max_amount: null },
+    ],
+  }, {
+    record_funding_atomic: { data: [{ out_transaction_id: 'tx_funding' }] },
+    get_effective_split: { data: [{ creator_percent: 80, platform_percent: 20, source: 'default' }] },
+    calculate_sale_split: { data: [{ creator_cents: 800, platform_cents: 200, fee_cents: 0, soledgic_fee_cents: 0 }] },
+    record_split_sale_atomic: {
+      data: [{
+        out_transaction_id: 'tx_sale',
+        out_split_credits: [
+          { position: 2, participant_id: 'cocreator_1', role: 'co_creator', amount: 200, withheld: 0, transaction_id: 'tx_split_2' },
+        ],
+      }],
+    },
+    apply_creator_reserve: {
+      data: [{ out_tranche_id: 'tranche_1', out_hold_transaction_id: 'tx_hold', out_amount: 0.6, out_release_at: '2026-05-29T12:00:00Z', out_created: true }],
+    },
+    recover_creator_debts: {
+      data: [{ out_debt_id: 'debt_1', out_transaction_id: 'tx_recovery', out_debt_transaction_id: 'tx_debt', out_amount: 5.4, out_status: 'outstanding' }],
+    },
+  })
+  const { provider } = makeProvider({ success: true, id: 'pi_5', status: 'SUCCEEDED' })
+
+  const outcome = await renewSubscription(supabase, ledger, provider, subscriptionRow().id, requestId)
+
+  assertEquals(outcome.outcome, 'renewed')
+  const postings = new Set([
+    'record_sale_atomic',
+    'record_split_sale_atomic',
+    'post_referral_commissions',
+    'apply_creator_reserve',
+    'recover_creator_debts',
+  ])
+  assertEquals(calls.rpc.map(([fn]) => fn).filter((fn) => postings.has(fn)), [
+    'record_split_sale_atomic',
+    'post_referral_commissions',
+    'apply_creator_reserve',
+    'recover_creator_debts',
+  ])
+
+  const sale = calls.rpc.find(([fn]) => fn === 'record_split_sale_atomic')![1]
+  assertEquals(sale.p_reference_id, 'sale_pi_5')
+  assertEquals(sale.p_creator_amount, 600)
+  // The co-creator's 200 is transferred out of platform revenue
+  assertEquals(sale.p_platform_amount, 400)
+  assertEquals(sale.p_split_rule_version_id, 'ver_2')
+  assertEquals(sale.p_split_credits, [{ position: 2, participant_id: 'cocreator_1', role: 'co_creator', amount: 200 }])
+
+  const settled = calls.updates.filter(([table]) => table === 'sale_followups').map(([, values]) => values.status)
+  assertEquals(settled, ['completed', 'completed', 'completed'])
+})
+
+Deno.test('renewSubscription: a declined renewal goes past_due on the dunning schedule', async () => {
+  const { supabase, calls } = makeSupabase({
+    buyer_subscriptions: subscriptionRow(),
+    subscription_plans: planRow,
+  })
+  const { provider } = makeProvider({ success: false, error: 'card_declined' })
+
+  const outcome = await renewSubscription(supabase, ledger, provider, subscriptionRow().id, requestId)
+
+  assertEquals(outcome.outcome, 'payment_failed')
+  const [pastDue] = subscriptionUpdates(calls)
+  assertEquals(pastDue.status, 'past_due')
+  assertEquals(pastDue.failed_attempts, 1)
+  assertEquals(typeof pastDue.next_retry_at, 'string')
+  assertEquals(calls.rpc.some(([fn]) => fn === 'record_sale_atomic'), false)
+  assertEquals(webhookEvents(calls), ['subscription.payment_failed'])
+})
+
+Deno.test('renewSubscription: the last failed retry cancels the subscription', async () => {
+  const { supabase, calls } = makeSupabase({
+    buyer_subscriptions: subscriptionRow({
+      status: 'past_due',
+      failed_attempts: 3,
+      next_retry_at: '2026-03-05T12:00:00.000Z',
+    }),
+    subscription_plans: planRow,
+  })
+  const { provider, intents } = makeProvider({ success: true, id: 'pi_2', status: 'FAILED' })
+
+  const outcome = await renewSubscription(supabase, ledger, provider, subscriptionRow().id, requestId)
+
+  assertEquals(outcome.outcome, 'canceled')
+  assertEquals(calls.inserts.find(([table]) => table === 'subscription_charges')![1].attempt, 4)
+  assertEquals(intents.length, 1)
+  const [canceled] = subscriptionUpdates(calls)
+  assertEquals(canceled.status, 'canceled')
+  assertEquals(canceled.cancel_reason, 'payment_failed')
+  assertEquals(webhookEvents(calls), ['subscription.payment_failed', 'subscription.canceled'])
+})
+
+Deno.test('renewSubscription: cancel_at_period_end ends the subscription without charging', async () => {
+  const { supabase, calls } = makeSupabase({
+    buyer_subscriptions: subscriptionRow({ cancel_at_period_end: true }),
+    subscription_plans: planRow,
+  })
+  const { provider, intents } = makeProvider({ success: true, id: 'pi_3' })
+
+  const outcome = await renewSubscription(supabase, ledger, provider, subscriptionRow().id, requestId)
+
+  assertEquals(outcome.outcome, 'canceled')
+  assertEquals(intents.length, 0)
+  const [canceled] = subscriptionUpdates(calls)
+  assertEquals(canceled.canceled_at, '2026-02-28T12:00:00.000Z')
+  assertEquals(canceled.cancel_reason, 'canceled_at_period_end')
+  assertEquals(webhookEvents(calls), ['subscription.canceled'])
+})
+
+Deno.test('renewSubscription: proration credit covers the renewal without charging the card', async () => {
+  const { supabase, calls } = makeSupabase({
+    buyer_subscriptions: subscriptionRow({ credit_balance: 1500 }),
+    subscription_plans: planRow,
+  })
+  const { provider, intents } = makeProvider({ success: true, id: 'pi_4' })
+
+  const outcome = await renewSubscription(supabase, ledger, provider, subscriptionRow().id, requestId)
+
+  assertEquals(outcome.outcome, 'renewed')
+  assertEquals(intents.length, 0)
+  assertEquals(calls.inserts.find(([table]) => table === 'subscription_charges')![1].credit_applied, 1000)
+  assertEquals(subscriptionUpdates(calls)[0].credit_balance, 500)
+})
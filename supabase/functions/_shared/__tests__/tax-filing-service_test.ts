@@ -0,0 +1,172 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.224.0/testing/asserts.ts'
+import {
+  buildFireFile,
+  buildIrisXml,
+  createTaxFilingResponse,
+  fireNameControl,
+  type TaxFilingInput,
+  validateFireFile,
+  validateIrisXml,
+  validateTaxFilingInput,
+} from '../tax-filing-service.ts'
+
+function makeInput(overrides: Partial<TaxFilingInput> = {}): TaxFilingInput {
+  return {
+    tax_year: 2025,
+    is_test: true,
+    combined_federal_state: true,
+    transmitter: {
+      tin: '123456789',
+      tcc: '12ABC',
+      name: 'Acme Platform',
+      contact_name: 'Jo Doe',
+      contact_phone: '4105551234',
+      contact_email: 'tax@acme.test',
+    },
+    payer: { tin: '987654321', name: 'Acme Platform Inc', address: '1 Main St', city: 'Baltimore', state: 'MD', zip: '21201' },
+    payees: {
+      c1: { recipient_id: 'c1', tin: '111223333', tin_type: 'ssn', business: false, name: 'Jane Q. Smith', address: '2 Elm', city: 'Austin', state: 'TX', zip: '78701' },
+      c2: { recipient_id: 'c2', tin: '222334444', tin_type: 'ein', business: true, name: 'The Widget Co', address: '3 Oak', city: 'Madison', state: 'WI', zip: '53703' },
+    },
+    documents: [
+      { id: 'd1', document_type: '1099-NEC', recipient_id: 'c1', gross_amount: 1234.56, federal_withholding: 0, state_withholding: 0, transaction_count: 4, form_boxes: { '1': 1234.56 } },
+      { id: 'd2', document_type: '1099-NEC', recipient_id: 'c2', gross_amount: 700, federal_withholding: 168, state_withholding: 10, transaction_count: 2, form_boxes: {} },
+      { id: 'd3', document_type: '1099-K', recipient_id: 'c2', gross_amount: 30000, federal_withholding: 0, state_withholding: 0, transaction_count: 250, form_boxes: { '1a': 30000, '3': 250, '5a': 10000, '5l': 20000 } },
+    ],
+    ...overrides,
+  }
+}
+
+Deno.test('buildFireFile: 750-byte records that pass the Pub 1220 layout check', () => {
+  const file = buildFireFile(makeInput())
+  const records = file.match(/.{748}\r\n/gs) || []
+
+  assertEquals(file.length, records.length * 750)
+  // T, (A B B C K) for NEC, (A B C K) for K, F
+  assertEquals(records.map((r) => r[0]).join(''), 'TABBCKABCKF')
+  assertEquals(records[1].slice(25, 27), 'NE')
+  assertEquals(records[1].slice(27, 29), '14')
+  assertEquals(records[6].slice(25, 27), 'MC')
+
+  const check = validateFireFile(file)
+  assertEquals(check.errors, [])
+  assertEquals(check.payer_count, 2)
+  assertEquals(check.payee_count, 3)
+})
+
+Deno.test('buildFireFile: B record fields sit at their Pub 1220 positions', () => {
+  const records = buildFireFile(makeInput()).match(/.{748}\r\n/gs) || []
+  // Pub 1220 positions are 1-based and inclusive
+  const at = (record: string, from: number, to: number) => record.slice(from - 1, to)
+  const jane = records[2]
+
+  assertEquals(at(jane, 1, 1), 'B')
+  assertEquals(at(jane, 2, 5), '2025')
+  assertEquals(at(jane, 7, 10), 'SMIT')
+  assertEquals(at(jane, 11, 11), '2')
+  assertEquals(at(jane, 12, 20), '111223333')
+  assertEquals(at(jane, 21, 40).trim(), 'C1')
+  // Payment amounts 1-9, A-H and J: 18 fields of 12 from 55 to 270
+  assertEquals(at(jane, 55, 66), '000000123456')
+  assertEquals(at(jane, 67, 270), '0'.repeat(204))
+  assertEquals(at(jane, 271, 287).trim(), '')
+  assertEquals(at(jane, 288, 327), 'JANE Q. SMITH'.padEnd(40))
+  assertEquals(at(jane, 328, 367).trim(), '')
+  assertEquals(at(jane, 368, 407), '2 ELM'.padEnd(40))
+  assertEquals(at(jane, 408, 447), 'AUSTIN'.padEnd(40))
+  assertEquals(at(jane, 448, 449), 'TX')
+  assertEquals(at(jane, 450, 458), '78701    ')
+  assertEquals(at(jane, 500, 507), '00000003')
+
+  // Federal withholding is amount code 4 (positions 91-102); C totals are 18 wide from 16
+  assertEquals(at(records[3], 91, 102), '000000016800')
+  assertEquals(at(records[4], 16, 33), '000000000000193456')
+})
+
+Deno.test('validateFireFile: catches a payee amount that no longer matches the C record', () => {
+  const file = buildFireFile(makeInput())
+  const tampered = file.slice(0, 750 * 2 + 54) + '9' + file.slice(750 * 2 + 55)
+
+  const check = validateFireFile(tampered)
+  assertEquals(check.valid, false)
+  assertEquals(check.errors, ['Record 5 (C): control total 1 does not match B records'])
+  assertEquals(validateFireFile(file.slice(0, 700)).valid, false)
+})
+
+Deno.test('fireNameControl: surname for individuals, name for businesses', () => {
+  assertEquals(fireNameControl('Jane Q. Smith', false), 'SMIT')
+  assertEquals(fireNameControl('The Widget Co', true), 'WIDG')
+})
+
+Deno.test('buildIrisXml: one submission per form type with matching counts', () => {
+  const xml = buildIrisXml(makeInput({ is_test: false }), 'tx-1:IRIS:12ABC::A')
+
+  assertEquals(validateIrisXml(xml), { valid: true, errors: [] })
+  assert(xml.includes('<TestCd>P</TestCd>'))
+  assert(xml.includes('<TotalIssuerFormCnt>2</TotalIssuerFormCnt>'))
+  assert(xml.includes('<GrossAmt>30000.00</GrossAmt><JanuaryAmt>10000.00</JanuaryAmt><DecemberAmt>20000.00</DecemberAmt>'))
+  assertEquals(validateIrisXml(xml.replace('<TotalRecipientFormCnt>3', '<TotalRecipientFormCnt>4')).valid, false)
+})
+
+Deno.test('validateTaxFilingInput: reports payees without a full TIN or W-9', () => {
+  const input = makeInput({ payees: { c1: { ...makeInput().payees.c1, tin: '' } } })
+  const check = validateTaxFilingInput(input)
+
+  assertEquals(check.valid, false)
+  assertEquals(check.errors, [
+    '1099-NEC for c1: full 9-digit TIN not provided in payee_tins',
+    '1099-NEC for c2: no active W-9 tax profile on file',
+    '1099-K for c2: no active W-9 tax profile on file',
+  ])
+})
+
+Deno.test('createTaxFilingResponse: rejects a TIN that does not match the last four on file', async () => {
+  const tables: Record<string, unknown[]> = {
+    tax_documents: [{ id: 'd1', document_type: '1099-NEC', recipient_id: 'c1', gross_amount: 900, form_boxes: { '1': 900 } }],
+    tax_info_submissions: [{ entity_id: 'c1', legal_name: 'Jane Smith', tax_id_type: 'ssn', tax_id_last4: '3333', address_line1: '2 Elm', address_city: 'Austin', address_state: 'TX', address_postal_code: '78701' }],
+    participant_identity_links: [],
+  }
+  const calls: string[] = []
+  const supabase = {
+    from(table: string) {
+      const chain: any = {
+        select: () => chain,
+        eq: () => chain,
+        in: () => chain,
+        order: () => Promise.resolve({ data: tables[table], error: null }),
+        then: (resolve: any) => resolve({ data: tables[table], error: null }),
+      }
+      return chain
+    },
+    rpc(fn: string) {
+      calls.push(fn)
+      return Promise.resolve({ data: null, error: null })
+    },
+    storage: {
+      from() {
+        calls.push('storage')
+        return {}
+      },
+    },
+  } as any
+  const ledger = {
+    id: 'ledger_1',
+    business_name: 'Acme Platform',
+    settings: {
+      tax_filing: {
+        transmitter: { tin: '123456789', tcc: '12abc', contact_name: 'Jo Doe', contact_phone: '410-555-1234', contact_email: 'tax@acme.test' },
+        payer: { tin: '98-7654321', address: '1 Main St', city: 'Baltimore', state: 'md', zip: '21201' },
+      },
+    },
+  } as any
+
+  const result = await createTaxFilingResponse(new Request('https://example.com/tax/filings'), supabase, ledger, {
+    tax_year: 2025,
+    payee_tins: { c1: '111-22-4444' },
+  }, 'req_1')
+
+  assertEquals(result.status, 422)
+  assertEquals(result.body.error_code, 'tax_filing_invalid')
+  assertEquals(result.body.errors, ['1099-NEC for c1: full 9-digit TIN not provided in payee_tins'])
+  assertEquals(calls, [])
+})
@@ -7,6 +7,8 @@ import {
   calculateParticipantTaxResponse,
   markTaxDocumentsFiledBulkResponse,
   issueCorrectedTaxDocumentResponse,
+  buildTaxFormPdfRequest,
+  correctTaxFormBoxes,
 } from '../tax-service.ts'
 
 const ledger = {
@@ -232,3 +234,146 @@ Deno.test('issue corrected document: requires non-empty reason', async () => {
   assertEquals(result.status, 400)
   assertEquals(result.body.error_code, 'missing_correction_reason')
 })
+
+Deno.test('list tax documents: rejects an unknown form_type', async () => {
+  const supabase = {} as any
+  const result = await listTaxDocumentsResponse(req, supabase, ledger, { tax_year: 2025, form_type: '1099-INT' }, requestId)
+  assertEquals(result.status, 400)
+  assertEquals(result.body.error_code, 'invalid_form_type')
+})
+
+// ==========================================================================
+// Form types
+// ==========================================================================
+
+Deno.test('generate tax documents: maps the RPC counters', async () => {
+  const calls: string[] = []
+  const supabase = {
+    rpc(fn: string) {
+      calls.push(fn)
+      if (fn === 'generate_1042s_documents') {
+        return Promise.resolve({ data: [{ documents_created: 1, total_amount: 5000, total_withheld: 750 }], error: null })
+      }
+      return Promise.resolve({ data: [{ documents_created: 3, documents_skipped: 2, total_amount: 41250.5, total_withheld: 312.4 }], error: null })
+    },
+    from() {
+      return { insert() { return Promise.resolve({ error: null }) } }
+    },
+  } as any
+
+  const result = await generateTaxDocumentsResponse(req, supabase, ledger, { tax_year: 2025 }, requestId)
+  assertEquals(result.status, 201)
+  assertEquals(calls, ['generate_1099_documents', 'generate_1042s_documents'])
+  assertEquals(result.body.generation, {
+    tax_year: 2025,
+    created: 3,
+    skipped: 2,
+    total_amount: 41250.5,
+    total_withheld: 312.4,
+    form_1042s: { created: 1, total_amount: 5000, total_withheld: 750 },
+  })
+})
+
+Deno.test('list tax documents: counts 1042-S alongside the 1099 forms', async () => {
+  const supabase = {
+    from() {
+      return {
+        select() { return this },
+        eq() { return this },
+        order() {
+          return Promise.resolve({
+            data: [
+              { id: 'd1', document_type: '1099-NEC', gross_amount: 900, status: 'calculated' },
+              { id: 'd2', document_type: '1042-S', gross_amount: 5000, status: 'calculated' },
+            ],
+            error: null,
+          })
+        },
+      }
+    },
+  } as any
+
+  const result = await listTaxDocumentsResponse(req, supabase, ledger, { tax_year: 2025, form_type: '1042-S' }, requestId)
+  assertEquals(result.status, 200)
+  assertEquals((result.body.summary as any).by_form_type, { '1099-NEC': 1, '1099-K': 0, '1099-MISC': 0, '1042-S': 1 })
+})
+
+Deno.test('calculate participant tax: returns one line per form with its threshold', async () => {
+  const supabase = {
+    rpc(fn: string) {
+      if (fn === 'get_tax_form_thresholds') {
+        return Promise.resolve({
+          data: [
+            { payment_category: 'nonemployee_compensation', form_type: '1099-NEC', form_box: '1', amount_threshold: 600, transaction_threshold: null, tax_year_from: 2020 },
+            { payment_category: 'royalties', form_type: '1099-MISC', form_box: '2', amount_threshold: 10, transaction_threshold: null, tax_year_from: 2020 },
+          ],
+          error: null,
+        })
+      }
+      return Promise.resolve({
+        data: [
+          { form_type: '1099-MISC', payment_category: 'royalties', form_box: '2', gross_payments: 45, transaction_count: 3, monthly_totals: { jan: 45 }, amount_threshold: 10, transaction_threshold: null, meets_threshold: true },
+          { form_type: '1099-NEC', payment_category: 'nonemployee_compensation', form_box: '1', gross_payments: 250, transaction_count: 1, monthly_totals: { jan: 50, feb: 200 }, amount_threshold: 600, transaction_threshold: null, meets_threshold: false },
+        ],
+        error: null,
+      })
+    },
+    from() {
+      return {
+        select() { return this },
+        eq() { return this },
+        maybeSingle() { return Promise.resolve({ data: null, error: null }) },
+      }
+    },
+  } as any
+
+  const result = await calculateParticipantTaxResponse(req, supabase, ledger, 'creator_1', 2025, requestId)
+  assertEquals(result.status, 200)
+
+  const calculation = result.body.calculation as any
+  assertEquals(calculation.requires_1099, true)
+  assertEquals(calculation.threshold, 600)
+  assertEquals(calculation.gross_payments, 295)
+  assertEquals(calculation.monthly_totals, { jan: 95, feb: 200 })
+  assertEquals(calculation.forms.map((form: any) => `${form.form_type}:${form.meets_threshold}`), ['1099-MISC:true', '1099-NEC:false'])
+})
+
+Deno.test('tax form PDF request: picks the template for the document type', () => {
+  const body = buildTaxFormPdfRequest(ledger.id, {
+    document_type: '1099-K',
+    tax_year: 2025,
+    recipient_id: 'creator_1',
+    gross_amount: '25000.00',
+    form_boxes: { '1a': 25000, '3': 240 },
+  }, 'b')
+
+  assertEquals(body.report_type, '1099_k_form')
+  assertEquals(body.form_boxes, { '1a': 25000, '3': 240 })
+  assertEquals(body.gross_amount, 25000)
+
+  const legacy = buildTaxFormPdfRequest(ledger.id, { document_type: '1099-NEC', tax_year: 2024, gross_amount: 900 }, 'a')
+  assertEquals(legacy.report_type, '1099_nec_form')
+  assertEquals(legacy.form_boxes, {})
+})
+
+Deno.test('correct tax form boxes: gross correction moves the single amount box', () => {
+  assertEquals(correctTaxFormBoxes({ document_type: '1099-MISC', form_boxes: { '2': 40 } }, undefined, 55), { '2': 55 })
+  assertEquals(correctTaxFormBoxes({ document_type: '1099-K', form_boxes: { '1a': 21000, '3': 220 } }, undefined, 20500), { '1a': 20500, '3': 220 })
+  assertEquals(correctTaxFormBoxes({ document_type: '1099-MISC', form_boxes: { '1': 700, '2': 40 } }, undefined, 800), { '1': 700, '2': 40 })
+  assertEquals(correctTaxFormBoxes({ document_type: '1099-NEC', form_boxes: {} }, { '1': -5 }, null), null)
+})
+
+Deno.test('tax form PDF request: 1042-S carries withholding to the foreign recipient template', () => {
+  const body = buildTaxFormPdfRequest(ledger.id, {
+    document_type: '1042-S',
+    tax_year: 2025,
+    recipient_id: 'creator_uk',
+    gross_amount: 5000,
+    federal_withholding: 0,
+    form_boxes: { '1': 17, '2': 5000, '3': 3, '3a': 4, '3b': 0 },
+  }, 'b')
+
+  assertEquals(body.report_type, '1042_s_form')
+  assertEquals(body.federal_withholding, 0)
+  assertEquals(correctTaxFormBoxes({ document_type: '1042-S', form_boxes: body.form_boxes }, undefined, 4500), { '1': 17, '2': 4500, '3': 3, '3a': 4, '3b': 0 })
+})
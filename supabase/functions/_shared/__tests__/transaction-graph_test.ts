@@ -13,8 +13,9 @@ Deno.test('TransactionLink: valid link types', () => {
   const validTypes: LinkType[] = [
     'refund', 'fee', 'payout_item', 'dispute',
     'split', 'reversal', 'adjustment', 'recurring_child',
+    'payout_return',
   ]
-  assertEquals(validTypes.length, 8)
+  assertEquals(validTypes.length, 9)
 })
 
 Deno.test('TransactionLink: constructs valid link object', () => {
@@ -74,6 +75,14 @@ function buildAutoLinks(transaction: {
     })
   }
 
+  if (transaction.transaction_type === 'payout_return' && transaction.reverses) {
+    links.push({
+      source_id: transaction.id,
+      target_id: transaction.reverses,
+      link_type: 'payout_return',
+    })
+  }
+
   const parentId = transaction.metadata?.parent_transaction_id as string | undefined
   if (parentId && (transaction.transaction_type === 'transfer' || transaction.transaction_type === 'adjustment')) {
     links.push({
@@ -108,6 +117,18 @@ Deno.test('autoLink: reversal creates reversal edge', () => {
   assertEquals(links[0].link_type, 'reversal')
 })
 
+Deno.test('autoLink: payout return creates payout_return edge to the payout', () => {
+  const links = buildAutoLinks({
+    id: 'ret_001',
+    transaction_type: 'payout_return',
+    reverses: 'payout_001',
+    metadata: { return_code: 'R03' },
+  })
+  assertEquals(links.length, 1)
+  assertEquals(links[0].link_type, 'payout_return')
+  assertEquals(links[0].target_id, 'payout_001')
+})
+
 Deno.test('autoLink: fee split creates split edge', () => {
   const links = buildAutoLinks({
     id: 'fee_001',
@@ -67,8 +67,8 @@ Deno.test('processPayoutResponse: retries transient RPC failures before succeedi
         })
       }
 
-      if (fn === 'queue_webhook') {
-        return Promise.resolve({ data: null, error: null })
+      if (fn === 'queue_webhook' || fn === 'recover_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
       }
 
       throw new Error(`Unexpected RPC in payout retry test: ${fn}`)
@@ -97,6 +97,50 @@ Deno.test('processPayoutResponse: retries transient RPC failures before succeedi
   assertEquals(body.payout.new_balance, 190)
 })
 
+Deno.test('processPayoutResponse: refuses the payout while a creator debt is outstanding', async () => {
+  const rpcCalls: string[] = []
+
+  const supabase = {
+    rpc(fn: string) {
+      rpcCalls.push(fn)
+      if (fn === 'recover_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
+      }
+
+      throw new Error(`Unexpected RPC in payout block test: ${fn}`)
+    },
+    from(table: string) {
+      const rows = table === 'creator_debts'
+        ? [{ amount: 40, recovered_amount: 12.5, written_off_amount: 0 }]
+        : null
+      const chain: any = {
+        select() { return chain },
+        eq() { return chain },
+        gte() { return chain },
+        neq() { return chain },
+        single() { return Promise.resolve({ data: null, error: null }) },
+        insert() { return Promise.resolve({ error: null }) },
+        then(resolve: any) { return resolve({ data: rows, error: null }) },
+      }
+      return chain
+    },
+  } as any
+
+  const result = await processPayoutResponse(req, supabase, {
+    ...ledger,
+    settings: { negative_balance_block_payouts: true },
+  }, {
+    participant_id: 'participant_1',
+    amount: 5000,
+    reference_id: 'payout_blocked_1',
+  }, requestId)
+
+  assertEquals(result.status, 409)
+  assertEquals(result.body.error_code, 'creator_debt_outstanding')
+  assertEquals(result.body.outstanding_debt, 27.5)
+  assertEquals(rpcCalls, ['recover_creator_debts'])
+})
+
 Deno.test('createParticipantResponse: returns structured invalid_user_id error', async () => {
   const result = await createParticipantResponse(req, {} as any, ledger, {
     participant_id: 'participant_1',
@@ -258,6 +302,18 @@ Deno.test('recordRefundResponse: allows refunding remaining balance after a reve
         return Promise.resolve({ data: null, error: null })
       }
 
+      if (name === 'reverse_referral_commissions') {
+        return Promise.resolve({ data: [], error: null })
+      }
+
+      if (name === 'reverse_revenue_schedule') {
+        return Promise.resolve({ data: [], error: null })
+      }
+
+      if (name === 'record_creator_debts') {
+        return Promise.resolve({ data: [], error: null })
+      }
+
       throw new Error(`Unexpected RPC call in refund-reversal test: ${name}`)
     },
   } as any
@@ -151,6 +151,21 @@ Deno.test('normalize: maps various status values', () => {
   }
 })
 
+Deno.test('normalize: extracts NACHA return code from returned transfers', () => {
+  const adapter = getProcessorWebhookAdapter()
+
+  const returned = adapter.normalize(makeRow({
+    payload: { _embedded: { transfers: [{ id: 'TR1', state: 'RETURNED', failure_code: 'r03' }] } },
+  }))
+  assertEquals(returned[0].status, 'failed')
+  assertEquals(returned[0].return_code, 'R03')
+
+  const declined = adapter.normalize(makeRow({
+    payload: { state: 'FAILED', failure_code: 'CARD_DECLINED' },
+  }))
+  assertEquals(declined[0].return_code, null)
+})
+
 Deno.test('normalize: extracts tags from metadata', () => {
   const adapter = getProcessorWebhookAdapter()
   const row = makeRow({
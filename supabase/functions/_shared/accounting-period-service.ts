@@ -0,0 +1,216 @@
+// SERVICE_ID: SVC_ACCOUNTING_PERIODS
+// Soledgic: reopening closed accounting periods
+// A closed month or quarter blocks new and reversed transactions dated in
+// it. When a late correction is needed, an organization owner can reopen it
+// from the dashboard with a reason; the dashboard proxy asks for step-up
+// auth first. Fiscal years, locked by their closing entries, stay locked,
+// and a period inside a closed quarter or year cannot be reopened on its own.
+// Closing the period again bumps close_version, and frozen-statements keeps
+// the statements of every close as separate versions.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  getDashboardUserId,
+  LedgerContext,
+  sanitizeForAudit,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+
+// ============================================================================
+// TYPES AND CONSTANTS
+// ============================================================================
+
+export const MAX_REOPEN_REASON_LENGTH = 1000
+
+export interface PeriodReopenInput {
+  period_id: string
+  reason: string
+}
+
+export interface AccountingPeriodBounds {
+  id: string
+  period_type: string
+  period_start: string
+  period_end: string
+  status: string
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function validatePeriodReopen(
+  body: Record<string, unknown>,
+): { request?: PeriodReopenInput; error?: string } {
+  const periodId = validateUUID(body.period_id)
+  if (!periodId) return { error: 'period_id must be a valid UUID' }
+
+  if (typeof body.reason !== 'string' || body.reason.trim().length === 0) {
+    return { error: 'reason is required to reopen a period' }
+  }
+  const reason = validateString(body.reason.trim(), MAX_REOPEN_REASON_LENGTH)
+  if (!reason) return { error: `reason must be at most ${MAX_REOPEN_REASON_LENGTH} characters` }
+
+  return { request: { period_id: periodId, reason } }
+}
+
+/** A closed or locked period other than this one that covers all of it. */
+export function findEnclosingClosedPeriod<T extends AccountingPeriodBounds>(
+  period: AccountingPeriodBounds,
+  periods: T[],
+): T | null {
+  return periods.find((candidate) =>
+    candidate.id !== period.id &&
+    (candidate.status === 'closed' || candidate.status === 'locked') &&
+    candidate.period_start <= period.period_start &&
+    candidate.period_end >= period.period_end
+  ) || null
+}
+
+/** The close_version a close of this period records: reopened periods move to the next one. */
+export function nextCloseVersion(
+  period: { close_version?: number | null; reopened_at?: string | null } | null,
+): number {
+  const current = Number(period?.close_version) || 1
+  return period?.reopened_at ? current + 1 : current
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+/** POST /reopen-period. Owners only, from the dashboard. */
+export async function reopenPeriodResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  // An API key must not be able to undo a close it is locked out of
+  const userId = getDashboardUserId(req)
+  if (!userId) {
+    return resourceError('Periods can only be reopened by a signed-in owner', 403, {}, 'owner_required')
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', ledger.organization_id)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  if (membership?.role !== 'owner') {
+    return resourceError('Only organization owners can reopen periods', 403, {}, 'insufficient_role')
+  }
+
+  const { request, error: validationError } = validatePeriodReopen(body)
+  if (!request) {
+    return resourceError(validationError!, 400, {}, 'invalid_period_reopen')
+  }
+
+  const { data: period } = await supabase
+    .from('accounting_periods')
+    .select('id, period_type, period_start, period_end, status, close_version, closed_at, closing_hash')
+    .eq('id', request.period_id)
+    .eq('ledger_id', ledger.id)
+    .maybeSingle()
+
+  if (!period) {
+    return resourceError('Period not found', 404, {}, 'period_not_found')
+  }
+
+  if (period.status === 'locked') {
+    return resourceError('Locked fiscal years cannot be reopened', 409, {}, 'period_locked')
+  }
+  if (period.status !== 'closed') {
+    return resourceError(`Period is ${period.status || 'open'}, not closed`, 409, {}, 'period_not_closed')
+  }
+
+  const { data: covering } = await supabase
+    .from('accounting_periods')
+    .select('id, period_type, period_start, period_end, status')
+    .eq('ledger_id', ledger.id)
+    .in('status', ['closed', 'locked'])
+    .lte('period_start', period.period_start)
+    .gte('period_end', period.period_end)
+
+  const enclosing = findEnclosingClosedPeriod(period, covering || [])
+  if (enclosing) {
+    return resourceError(
+      `Period falls inside a ${enclosing.status} ${enclosing.period_type} period (${enclosing.period_start} to ${enclosing.period_end})`,
+      409,
+      { enclosing_period_id: enclosing.id },
+      'enclosing_period_closed',
+    )
+  }
+
+  const reopenedAt = new Date().toISOString()
+  const { data: reopened, error } = await supabase
+    .from('accounting_periods')
+    .update({
+      status: 'open',
+      reopened_at: reopenedAt,
+      reopened_by: userId,
+      reopen_reason: request.reason,
+      updated_at: reopenedAt,
+    })
+    .eq('id', period.id)
+    .eq('status', 'closed')
+    .select('id, period_type, period_start, period_end, status, close_version, reopened_at, reopened_by, reopen_reason')
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[${requestId}] Failed to reopen period:`, error)
+    return resourceError('Failed to reopen period', 500, {}, 'period_reopen_failed')
+  }
+  if (!reopened) {
+    return resourceError('Period was changed by another request; reload and try again', 409, {}, 'period_not_closed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'reopen_period',
+    entity_type: 'accounting_period',
+    entity_id: period.id,
+    actor_type: 'admin',
+    actor_id: userId,
+    request_body: sanitizeForAudit({
+      reason: request.reason,
+      period_start: period.period_start,
+      period_end: period.period_end,
+      close_version: period.close_version,
+      closing_hash: period.closing_hash,
+    }),
+    response_status: 200,
+    risk_score: 50,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    period: {
+      id: reopened.id,
+      period_type: reopened.period_type,
+      start_date: reopened.period_start,
+      end_date: reopened.period_end,
+      status: reopened.status,
+      close_version: reopened.close_version,
+      reopened_at: reopened.reopened_at,
+      reopened_by: reopened.reopened_by,
+      reopen_reason: reopened.reopen_reason,
+    },
+    previous_close: {
+      close_version: period.close_version,
+      closed_at: period.closed_at,
+      closing_hash: period.closing_hash,
+    },
+  })
+}
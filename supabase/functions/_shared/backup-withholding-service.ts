@@ -0,0 +1,685 @@
+// SERVICE_ID: SVC_BACKUP_WITHHOLDING
+// Soledgic: backup withholding states and CP2100 notice workflow
+// A participant's backup withholding state is derived in the database
+// (refresh_backup_withholding_state) from their tax info, the ledger's
+// missing-TIN setting and any open B-notices; the sale and payout RPCs
+// withhold 24% while it is active. This service imports CP2100/CP2100A
+// name/TIN mismatch lists, computes the B-notice deadlines and records how
+// each notice was resolved.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const BACKUP_WITHHOLDING_STATUSES = ['not_required', 'required_missing_tin', 'required_b_notice'] as const
+export type BackupWithholdingStatus = typeof BACKUP_WITHHOLDING_STATUSES[number]
+
+export const BACKUP_WITHHOLDING_RATE_BPS = 2400
+
+export type NoticeSource = 'cp2100' | 'cp2100a'
+export type NoticeResolution = 'w9_recertified' | 'irs_validation' | 'ssa_validation' | 'notice_withdrawn'
+export type NoticeDeadlineStatus = 'b_notice_due' | 'b_notice_overdue' | 'awaiting_response' | 'withholding_active' | 'resolved'
+
+export interface Cp2100Row {
+  participant_id?: string
+  account_number?: string
+  name?: string
+  tin?: string
+  tax_year?: number
+}
+
+export interface Cp2100ParseResult {
+  rows: Cp2100Row[]
+  errors: string[]
+}
+
+export interface NoticeDeadlines {
+  base_date: string
+  b_notice_due_date: string
+  withholding_start_date: string
+}
+
+export interface ImportNoticesInput {
+  notice_date?: string
+  received_date?: string
+  notice_source?: string
+  rows?: unknown
+  csv?: string
+}
+
+const NOTICE_SOURCES: NoticeSource[] = ['cp2100', 'cp2100a']
+const NOTICE_RESOLUTIONS: NoticeResolution[] = ['w9_recertified', 'irs_validation', 'ssa_validation', 'notice_withdrawn']
+// A second B-notice can only be cleared by the IRS or SSA validating the TIN
+const SECOND_NOTICE_RESOLUTIONS: NoticeResolution[] = ['irs_validation', 'ssa_validation', 'notice_withdrawn']
+const MAX_IMPORT_ROWS = 5000
+// Business days from the CP2100 date (or receipt, if later) - Treas. Reg. 31.3406(d)-5
+const B_NOTICE_DUE_BUSINESS_DAYS = 15
+const WITHHOLDING_START_BUSINESS_DAYS = 30
+// Two notices for the same account within three calendar years make the second a second notice
+const SECOND_NOTICE_LOOKBACK_YEARS = 3
+const DUE_SOON_DAYS = 5
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+}
+
+/** Adds business days (Monday-Friday) to a YYYY-MM-DD date. Holidays are not skipped. */
+export function addBusinessDays(date: string, days: number): string {
+  const cursor = new Date(`${date}T00:00:00Z`)
+  let remaining = days
+  while (remaining > 0) {
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+    const weekday = cursor.getUTCDay()
+    if (weekday !== 0 && weekday !== 6) remaining--
+  }
+  return cursor.toISOString().slice(0, 10)
+}
+
+export function computeNoticeDeadlines(noticeDate: string, receivedDate: string): NoticeDeadlines {
+  const baseDate = receivedDate > noticeDate ? receivedDate : noticeDate
+  return {
+    base_date: baseDate,
+    b_notice_due_date: addBusinessDays(baseDate, B_NOTICE_DUE_BUSINESS_DAYS),
+    withholding_start_date: addBusinessDays(baseDate, WITHHOLDING_START_BUSINESS_DAYS),
+  }
+}
+
+export function getNoticeDeadlineStatus(
+  notice: { status: string; b_notice_due_date: string; withholding_start_date: string },
+  asOf = today(),
+): NoticeDeadlineStatus {
+  if (notice.status === 'resolved') return 'resolved'
+  if (notice.withholding_start_date <= asOf) return 'withholding_active'
+  if (notice.status === 'b_notice_sent') return 'awaiting_response'
+  return notice.b_notice_due_date < asOf ? 'b_notice_overdue' : 'b_notice_due'
+}
+
+/** Only the last four digits of a TIN are kept. */
+export function maskTin(value: unknown): string | null {
+  const tinDigits = text(value).replace(/\D/g, '')
+  return tinDigits.length >= 4 ? tinDigits.slice(-4) : null
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'))
+}
+
+/**
+ * CSV with a header row, as exported from the CP2100 CD/listing. Recognised
+ * columns: account_number|account, participant_id, name|payee_name, tin,
+ * tax_year|year. Either an account number or a participant id is required.
+ */
+export function parseCp2100Csv(content: string): Cp2100ParseResult {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0)
+  const result: Cp2100ParseResult = { rows: [], errors: [] }
+  if (lines.length === 0) {
+    result.errors.push('CSV is empty')
+    return result
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ','
+  const headers = splitCsvLine(lines[0], delimiter).map((header) => header.toLowerCase())
+  const column = (...names: string[]) => headers.findIndex((header) => names.includes(header))
+
+  const accountCol = column('account_number', 'account')
+  const participantCol = column('participant_id')
+  const nameCol = column('name', 'payee_name')
+  const tinCol = column('tin')
+  const yearCol = column('tax_year', 'year')
+
+  if (accountCol < 0 && participantCol < 0) {
+    result.errors.push('CSV header must include account_number or participant_id')
+    return result
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const cells = splitCsvLine(lines[i], delimiter)
+    const row: Cp2100Row = {}
+    if (accountCol >= 0 && cells[accountCol]) row.account_number = cells[accountCol]
+    if (participantCol >= 0 && cells[participantCol]) row.participant_id = cells[participantCol]
+    if (nameCol >= 0 && cells[nameCol]) row.name = cells[nameCol]
+    if (tinCol >= 0 && cells[tinCol]) row.tin = cells[tinCol]
+    if (yearCol >= 0 && cells[yearCol]) row.tax_year = Number(cells[yearCol])
+
+    if (!row.account_number && !row.participant_id) {
+      result.errors.push(`Row ${i + 1}: missing account number`)
+      continue
+    }
+    result.rows.push(row)
+  }
+
+  return result
+}
+
+function normalizeRows(raw: unknown): Cp2100ParseResult {
+  const result: Cp2100ParseResult = { rows: [], errors: [] }
+  if (!Array.isArray(raw)) {
+    result.errors.push('rows must be an array')
+    return result
+  }
+
+  raw.forEach((item, index) => {
+    const row = item && typeof item === 'object' ? item as Record<string, unknown> : {}
+    const participantId = text(row.participant_id)
+    const accountNumber = text(row.account_number)
+    if (!participantId && !accountNumber) {
+      result.errors.push(`Row ${index + 1}: missing account number`)
+      return
+    }
+    result.rows.push({
+      ...(participantId ? { participant_id: participantId } : {}),
+      ...(accountNumber ? { account_number: accountNumber } : {}),
+      ...(text(row.name) ? { name: text(row.name) } : {}),
+      ...(text(row.tin) ? { tin: text(row.tin) } : {}),
+      ...(row.tax_year != null ? { tax_year: Number(row.tax_year) } : {}),
+    })
+  })
+
+  return result
+}
+
+// ============================================================================
+// MAPPERS
+// ============================================================================
+
+function mapState(row: any) {
+  return {
+    participant_id: row.entity_id,
+    status: row.status as BackupWithholdingStatus,
+    active: row.status !== 'not_required',
+    rate_bps: row.status !== 'not_required' ? BACKUP_WITHHOLDING_RATE_BPS : 0,
+    notice_id: row.notice_id ?? null,
+    activated_at: row.activated_at ?? null,
+    resolved_at: row.resolved_at ?? null,
+    withheld_earnings: Number(row.withheld_earnings || 0),
+    updated_at: row.updated_at ?? null,
+  }
+}
+
+function mapNotice(row: any) {
+  return {
+    id: row.id,
+    participant_id: row.entity_id,
+    notice_source: row.notice_source,
+    notice_date: row.notice_date,
+    received_date: row.received_date,
+    tax_year: row.tax_year,
+    b_notice_type: row.b_notice_type,
+    payee_name: row.payee_name ?? null,
+    tin_last4: row.tin_last4 ?? null,
+    status: row.status,
+    deadline_status: getNoticeDeadlineStatus(row),
+    b_notice_due_date: row.b_notice_due_date,
+    withholding_start_date: row.withholding_start_date,
+    b_notice_sent_at: row.b_notice_sent_at ?? null,
+    resolved_at: row.resolved_at ?? null,
+    resolution: row.resolution ?? null,
+    import_batch_id: row.import_batch_id ?? null,
+    created_at: row.created_at,
+  }
+}
+
+async function refreshState(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  participantId: string,
+): Promise<{ status: BackupWithholdingStatus; notice_id: string | null; withheld_earnings: number } | null> {
+  const { data, error } = await supabase.rpc('refresh_backup_withholding_state', {
+    p_ledger_id: ledgerId,
+    p_entity_id: participantId,
+  })
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (error || !row) {
+    console.error('refresh_backup_withholding_state error:', error)
+    return null
+  }
+
+  return {
+    status: row.out_status as BackupWithholdingStatus,
+    notice_id: row.out_notice_id ?? null,
+    withheld_earnings: Number(row.out_withheld_earnings || 0),
+  }
+}
+
+// ============================================================================
+// STATES
+// ============================================================================
+
+export async function listBackupWithholdingStatesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  status: string | null,
+  _requestId: string,
+): Promise<ResourceResult> {
+  if (status && !BACKUP_WITHHOLDING_STATUSES.includes(status as BackupWithholdingStatus)) {
+    return resourceError(`status must be one of: ${BACKUP_WITHHOLDING_STATUSES.join(', ')}`, 400, {}, 'invalid_backup_withholding_status')
+  }
+
+  let query = supabase
+    .from('backup_withholding_states')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  query = status ? query.eq('status', status) : query.neq('status', 'not_required')
+
+  const { data, error } = await query.order('updated_at', { ascending: false }).limit(500)
+  if (error) {
+    console.error('listBackupWithholdingStatesResponse error:', error)
+    return resourceError('Failed to list backup withholding states', 500, {}, 'backup_withholding_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    states: (data || []).map(mapState),
+  })
+}
+
+export async function getBackupWithholdingStateResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  participantIdRaw: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const participantId = validateId(participantIdRaw, 100)
+  if (!participantId) {
+    return resourceError('participant_id is invalid', 400, {}, 'invalid_participant_id')
+  }
+
+  const { data: account } = await supabase
+    .from('accounts')
+    .select('id')
+    .eq('ledger_id', ledger.id)
+    .eq('account_type', 'creator_balance')
+    .eq('entity_id', participantId)
+    .maybeSingle()
+
+  if (!account) {
+    return resourceError('Participant not found', 404, {}, 'participant_not_found')
+  }
+
+  const refreshed = await refreshState(supabase, ledger.id, participantId)
+  if (!refreshed) {
+    return resourceError('Failed to load backup withholding state', 500, {}, 'backup_withholding_state_failed')
+  }
+
+  const [{ data: state }, { data: notices }] = await Promise.all([
+    supabase
+      .from('backup_withholding_states')
+      .select('*')
+      .eq('ledger_id', ledger.id)
+      .eq('entity_id', participantId)
+      .maybeSingle(),
+    supabase
+      .from('backup_withholding_notices')
+      .select('*')
+      .eq('ledger_id', ledger.id)
+      .eq('entity_id', participantId)
+      .order('notice_date', { ascending: false }),
+  ])
+
+  return resourceOk({
+    success: true,
+    state: mapState(state || { entity_id: participantId, ...refreshed }),
+    notices: (notices || []).map(mapNotice),
+  })
+}
+
+// ============================================================================
+// NOTICES
+// ============================================================================
+
+export async function listBackupWithholdingNoticesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: { status?: string | null; tax_year?: number },
+  _requestId: string,
+): Promise<ResourceResult> {
+  let query = supabase
+    .from('backup_withholding_notices')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.status === 'unresolved') {
+    query = query.neq('status', 'resolved')
+  } else if (filters.status) {
+    query = query.eq('status', filters.status)
+  }
+  if (filters.tax_year) {
+    query = query.eq('tax_year', filters.tax_year)
+  }
+
+  const { data, error } = await query.order('b_notice_due_date', { ascending: true }).limit(500)
+  if (error) {
+    console.error('listBackupWithholdingNoticesResponse error:', error)
+    return resourceError('Failed to list backup withholding notices', 500, {}, 'backup_withholding_notices_list_failed')
+  }
+
+  const notices = (data || []).map(mapNotice)
+  const asOf = today()
+  const dueSoon = addBusinessDays(asOf, DUE_SOON_DAYS)
+
+  return resourceOk({
+    success: true,
+    notices,
+    summary: {
+      total: notices.length,
+      b_notice_overdue: notices.filter((n) => n.deadline_status === 'b_notice_overdue').length,
+      b_notice_due_soon: notices.filter((n) => n.deadline_status === 'b_notice_due' && n.b_notice_due_date <= dueSoon).length,
+      withholding_active: notices.filter((n) => n.deadline_status === 'withholding_active').length,
+    },
+  })
+}
+
+export async function importBackupWithholdingNoticesResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: ImportNoticesInput,
+  requestId: string,
+): Promise<ResourceResult> {
+  if (!isValidDate(body.notice_date)) {
+    return resourceError('notice_date is required (YYYY-MM-DD)', 400, {}, 'invalid_notice_date')
+  }
+  const noticeDate = body.notice_date
+
+  const receivedDate = body.received_date ?? today()
+  if (!isValidDate(receivedDate) || receivedDate < noticeDate) {
+    return resourceError('received_date must be a date on or after notice_date', 400, {}, 'invalid_received_date')
+  }
+
+  const noticeSource = (text(body.notice_source) || 'cp2100').toLowerCase() as NoticeSource
+  if (!NOTICE_SOURCES.includes(noticeSource)) {
+    return resourceError(`notice_source must be one of: ${NOTICE_SOURCES.join(', ')}`, 400, {}, 'invalid_notice_source')
+  }
+
+  const parsed = typeof body.csv === 'string' ? parseCp2100Csv(body.csv) : normalizeRows(body.rows)
+  if (parsed.rows.length === 0) {
+    return resourceError('No notice rows to import', 400, { errors: parsed.errors }, 'no_notice_rows')
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    return resourceError(`At most ${MAX_IMPORT_ROWS} rows per import`, 400, {}, 'too_many_notice_rows')
+  }
+
+  // CP2100 account numbers are the ones reported on the 1099 - the participant id
+  const candidateIds = [...new Set(parsed.rows.map((row) => row.participant_id || row.account_number!))]
+  const { data: accounts, error: accountsError } = await supabase
+    .from('accounts')
+    .select('entity_id')
+    .eq('ledger_id', ledger.id)
+    .eq('account_type', 'creator_balance')
+    .in('entity_id', candidateIds)
+
+  if (accountsError) {
+    console.error('importBackupWithholdingNoticesResponse accounts error:', accountsError)
+    return resourceError('Failed to match notice rows', 500, {}, 'backup_withholding_import_failed')
+  }
+
+  const known = new Set((accounts || []).map((account) => String(account.entity_id)))
+  const lookbackStart = `${Number(noticeDate.slice(0, 4)) - SECOND_NOTICE_LOOKBACK_YEARS}-01-01`
+  const { data: priorNotices } = await supabase
+    .from('backup_withholding_notices')
+    .select('entity_id, notice_date')
+    .eq('ledger_id', ledger.id)
+    .in('entity_id', [...known])
+    .gte('notice_date', lookbackStart)
+    .lt('notice_date', noticeDate)
+
+  const hasPriorNotice = new Set((priorNotices || []).map((notice) => String(notice.entity_id)))
+  const deadlines = computeNoticeDeadlines(noticeDate, receivedDate)
+  const batchId = crypto.randomUUID()
+  const defaultTaxYear = Number(noticeDate.slice(0, 4)) - 1
+
+  const unmatched: Array<{ row: number; account_number: string; name: string | null }> = []
+  const inserts: Record<string, unknown>[] = []
+  const seen = new Set<string>()
+
+  parsed.rows.forEach((row, index) => {
+    const participantId = row.participant_id || row.account_number!
+    if (!known.has(participantId)) {
+      unmatched.push({ row: index + 1, account_number: participantId, name: row.name ?? null })
+      return
+    }
+
+    const taxYear = Number.isInteger(row.tax_year) && row.tax_year! >= 2000 ? row.tax_year! : defaultTaxYear
+    const key = `${participantId}:${taxYear}`
+    if (seen.has(key)) return
+    seen.add(key)
+
+    inserts.push({
+      ledger_id: ledger.id,
+      entity_id: participantId,
+      notice_source: noticeSource,
+      notice_date: noticeDate,
+      received_date: receivedDate,
+      tax_year: taxYear,
+      b_notice_type: hasPriorNotice.has(participantId) ? 'second' : 'first',
+      payee_name: row.name ?? null,
+      tin_last4: maskTin(row.tin),
+      account_number: row.account_number ?? null,
+      b_notice_due_date: deadlines.b_notice_due_date,
+      withholding_start_date: deadlines.withholding_start_date,
+      import_batch_id: batchId,
+    })
+  })
+
+  let imported: any[] = []
+  if (inserts.length > 0) {
+    const { data, error } = await supabase
+      .from('backup_withholding_notices')
+      .upsert(inserts, { onConflict: 'ledger_id,entity_id,notice_date,tax_year', ignoreDuplicates: true })
+      .select('*')
+
+    if (error) {
+      console.error('importBackupWithholdingNoticesResponse insert error:', error)
+      return resourceError('Failed to import notices', 500, {}, 'backup_withholding_import_failed')
+    }
+    imported = data || []
+  }
+
+  // Withholding only starts once the start date passes; the refresh records
+  // the state for participants whose earlier notices are already past it.
+  for (const participantId of new Set(imported.map((notice) => String(notice.entity_id)))) {
+    await refreshState(supabase, ledger.id, participantId)
+  }
+
+  const result = {
+    batch_id: batchId,
+    notice_source: noticeSource,
+    notice_date: noticeDate,
+    received_date: receivedDate,
+    ...deadlines,
+    imported: imported.length,
+    second_notices: imported.filter((notice) => notice.b_notice_type === 'second').length,
+    duplicates: inserts.length - imported.length,
+    unmatched,
+    errors: parsed.errors,
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'backup_withholding_notices_imported',
+    entity_type: 'backup_withholding_notice',
+    entity_id: batchId,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ ...result, unmatched: unmatched.length, errors: parsed.errors.length }),
+    response_status: 201,
+    risk_score: 30,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    import: result,
+    notices: imported.map(mapNotice),
+  }, 201)
+}
+
+async function loadNotice(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  noticeIdRaw: string,
+): Promise<{ notice?: any; error?: ResourceResult }> {
+  const noticeId = validateId(noticeIdRaw, 100)
+  if (!noticeId) {
+    return { error: resourceError('notice_id is invalid', 400, {}, 'invalid_notice_id') }
+  }
+
+  const { data: notice } = await supabase
+    .from('backup_withholding_notices')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', noticeId)
+    .maybeSingle()
+
+  if (!notice) {
+    return { error: resourceError('Notice not found', 404, {}, 'notice_not_found') }
+  }
+  return { notice }
+}
+
+export async function markBNoticeSentResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  noticeIdRaw: string,
+  body: { sent_at?: string },
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadNotice(supabase, ledger.id, noticeIdRaw)
+  if (loaded.error) return loaded.error
+  const notice = loaded.notice
+
+  if (notice.status !== 'open') {
+    return resourceError(`Notice is already ${notice.status}`, 409, {}, 'notice_not_open')
+  }
+
+  const sentAt = body.sent_at ?? new Date().toISOString()
+  if (Number.isNaN(Date.parse(sentAt))) {
+    return resourceError('sent_at must be an ISO date', 400, {}, 'invalid_sent_at')
+  }
+
+  const { data: updated, error } = await supabase
+    .from('backup_withholding_notices')
+    .update({ status: 'b_notice_sent', b_notice_sent_at: sentAt, updated_at: new Date().toISOString() })
+    .eq('id', notice.id)
+    .eq('status', 'open')
+    .select('*')
+    .maybeSingle()
+
+  if (error || !updated) {
+    console.error('markBNoticeSentResponse error:', error)
+    return resourceError('Failed to update notice', 500, {}, 'notice_update_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'backup_withholding_b_notice_sent',
+    entity_type: 'backup_withholding_notice',
+    entity_id: notice.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      participant_id: notice.entity_id,
+      b_notice_type: notice.b_notice_type,
+      sent_at: sentAt,
+      late: sentAt.slice(0, 10) > notice.b_notice_due_date,
+    }),
+    response_status: 200,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    notice: mapNotice(updated),
+  })
+}
+
+export async function resolveBackupWithholdingNoticeResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  noticeIdRaw: string,
+  body: { resolution?: string },
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadNotice(supabase, ledger.id, noticeIdRaw)
+  if (loaded.error) return loaded.error
+  const notice = loaded.notice
+
+  const resolution = text(body.resolution) as NoticeResolution
+  const allowed = notice.b_notice_type === 'second' ? SECOND_NOTICE_RESOLUTIONS : NOTICE_RESOLUTIONS
+  if (!allowed.includes(resolution)) {
+    return resourceError(`resolution must be one of: ${allowed.join(', ')}`, 400, {}, 'invalid_notice_resolution')
+  }
+
+  if (notice.status === 'resolved') {
+    return resourceError('Notice is already resolved', 409, {}, 'notice_already_resolved')
+  }
+
+  const { data: updated, error } = await supabase
+    .from('backup_withholding_notices')
+    .update({
+      status: 'resolved',
+      resolution,
+      resolved_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', notice.id)
+    .neq('status', 'resolved')
+    .select('*')
+    .maybeSingle()
+
+  if (error || !updated) {
+    console.error('resolveBackupWithholdingNoticeResponse error:', error)
+    return resourceError('Failed to resolve notice', 500, {}, 'notice_update_failed')
+  }
+
+  const state = await refreshState(supabase, ledger.id, String(notice.entity_id))
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'backup_withholding_notice_resolved',
+    entity_type: 'backup_withholding_notice',
+    entity_id: notice.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      participant_id: notice.entity_id,
+      resolution,
+      state: state?.status ?? null,
+    }),
+    response_status: 200,
+    risk_score: 30,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    notice: mapNotice(updated),
+    state: state ? mapState({ entity_id: notice.entity_id, ...state }) : null,
+  })
+}
@@ -17,10 +17,21 @@ import {
   resourceError,
   resourceOk,
 } from './treasury-resource.ts'
+import { getFxRateSource, resolvePostingCurrency } from './fx-rates-service.ts'
+import { calculateSalesTax, normalizeCustomerTaxId, type SalesTaxQuote } from './sales-tax-service.ts'
+import { postSaleWithSplitRule, resolveSplitRule } from './split-rules-service.ts'
 
-export interface CreateCheckoutRequest {
-  amount: number
+export interface CheckoutLineItemRequest {
   participant_id: string
+  amount: number
+  product_id?: string
+  product_name?: string
+}
+
+export interface CreateCheckoutRequest {
+  amount?: number
+  participant_id?: string
+  line_items?: CheckoutLineItemRequest[]
   currency?: string
   product_id?: string
   product_name?: string
@@ -30,6 +41,7 @@ export interface CreateCheckoutRequest {
   customer_country?: string
   customer_state?: string
   customer_postal_code?: string
+  customer_tax_id?: string
   customer_address?: {
     country?: string
     state?: string
@@ -45,7 +57,105 @@ export interface CreateCheckoutRequest {
   metadata?: Record<string, string>
 }
 
-const MARYLAND_DIGITAL_GOODS_TAX_RATE_BPS = 600
+interface CheckoutLineItem {
+  position: number
+  participant_id: string
+  product_id: string | null
+  product_name: string | null
+  amount: number
+}
+
+interface PricedCheckoutLineItem extends CheckoutLineItem {
+  creator_percent: number
+  creator_amount: number
+  platform_amount: number
+  soledgic_fee: number
+}
+
+interface LineItemSaleRow {
+  out_line_item_id: string
+  out_reference_id: string
+  out_transaction_id: string
+  out_sales_tax: number
+}
+
+const MAX_CHECKOUT_LINE_ITEMS = 50
+
+// Soledgic fee: 3.5% of taxable subtotal, off the top before split.
+export function splitCheckoutAmount(subtotalCents: number, creatorPercent: number) {
+  const soledgicFee = Math.floor(subtotalCents * 0.035)
+  const netAfterFee = subtotalCents - soledgicFee
+  const creatorAmount = Math.floor(netAfterFee * (creatorPercent / 100))
+  return {
+    soledgic_fee: soledgicFee,
+    creator_amount: creatorAmount,
+    platform_amount: netAfterFee - creatorAmount,
+  }
+}
+
+export function validateCheckoutLineItems(value: unknown): { items?: CheckoutLineItem[]; error?: ResourceResult } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: resourceError('line_items must be a non-empty array', 400, {}, 'invalid_line_items') }
+  }
+  if (value.length > MAX_CHECKOUT_LINE_ITEMS) {
+    return { error: resourceError(`line_items cannot exceed ${MAX_CHECKOUT_LINE_ITEMS} items`, 400, {}, 'too_many_line_items') }
+  }
+
+  const items: CheckoutLineItem[] = []
+  for (let i = 0; i < value.length; i++) {
+    const raw = value[i] as Record<string, unknown> | null
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { error: resourceError(`line_items[${i}] must be an object`, 400, {}, 'invalid_line_items') }
+    }
+
+    const participantId = validateId(raw.participant_id ?? raw.creator_id, 100)
+    if (!participantId) {
+      return { error: resourceError(`Invalid line_items[${i}].participant_id`, 400, {}, 'invalid_participant_id') }
+    }
+
+    const amount = validateAmount(raw.amount)
+    if (amount === null || amount <= 0) {
+      return { error: resourceError(`Invalid line_items[${i}].amount: must be a positive integer (cents)`, 400, {}, 'invalid_amount') }
+    }
+
+    const productId = raw.product_id !== undefined && raw.product_id !== null ? validateId(raw.product_id, 100) : null
+    if (raw.product_id !== undefined && raw.product_id !== null && !productId) {
+      return { error: resourceError(`Invalid line_items[${i}].product_id`, 400, {}, 'invalid_product_id') }
+    }
+
+    items.push({
+      position: i + 1,
+      participant_id: participantId,
+      product_id: productId,
+      product_name: raw.product_name ? validateString(raw.product_name, 200) : null,
+      amount,
+    })
+  }
+
+  return { items }
+}
+
+function mapCheckoutLineItem(
+  item: PricedCheckoutLineItem,
+  row: { id?: string | null; reference_id?: string | null; transaction_id?: string | null } | undefined,
+) {
+  return {
+    id: row?.id ?? null,
+    position: item.position,
+    participant_id: item.participant_id,
+    product_id: item.product_id,
+    product_name: item.product_name,
+    amount: item.amount,
+    reference_id: row?.reference_id ?? null,
+    transaction_id: row?.transaction_id ?? null,
+    breakdown: {
+      creator_amount: item.creator_amount / 100,
+      platform_amount: item.platform_amount / 100,
+      soledgic_fee: item.soledgic_fee / 100,
+      creator_percent: item.creator_percent,
+    },
+  }
+}
 
 function pickFirstString(...values: unknown[]): string | null {
   for (const value of values) {
@@ -90,18 +200,6 @@ function isDigitalGoodsCategory(taxCategory: string | null): boolean {
   return taxCategory === 'digital_goods'
 }
 
-function shouldCollectMarylandDigitalGoodsTax(
-  taxCategory: string | null,
-  collectSalesTax: boolean,
-  customerCountry: string | null,
-  customerState: string | null,
-): boolean {
-  if (!collectSalesTax) return false
-  if (!isDigitalGoodsCategory(taxCategory)) return false
-  if ((customerCountry || 'US') !== 'US') return false
-  return customerState === 'MD'
-}
-
 async function recordSalesTaxThresholdProgress(
   supabase: SupabaseClient,
   ledgerId: string,
@@ -189,6 +287,55 @@ async function getParticipantSplit(
   return 80
 }
 
+// Each line item gets the split manage-splits resolves for its own
+// participant and product.
+async function priceCheckoutLineItems(
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  items: CheckoutLineItem[],
+): Promise<PricedCheckoutLineItem[]> {
+  const percents = new Map<string, number>()
+  const priced: PricedCheckoutLineItem[] = []
+
+  for (const item of items) {
+    const key = `${item.participant_id}|${item.product_id || ''}`
+    let percent = percents.get(key)
+    if (percent === undefined) {
+      percent = await getParticipantSplit(supabase, ledger, item.participant_id, item.product_id)
+      percents.set(key, percent)
+    }
+    priced.push({ ...item, creator_percent: percent, ...splitCheckoutAmount(item.amount, percent) })
+  }
+
+  return priced
+}
+
+async function saveCheckoutLineItems(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  checkoutReference: string,
+  checkoutSessionId: string | null,
+  items: PricedCheckoutLineItem[],
+) {
+  return await supabase
+    .from('checkout_line_items')
+    .upsert(items.map((item) => ({
+      ledger_id: ledgerId,
+      checkout_session_id: checkoutSessionId,
+      checkout_reference: checkoutReference,
+      position: item.position,
+      creator_id: item.participant_id,
+      product_id: item.product_id,
+      product_name: item.product_name,
+      amount: item.amount,
+      creator_percent: item.creator_percent,
+      creator_amount: item.creator_amount,
+      platform_amount: item.platform_amount,
+      soledgic_fee: item.soledgic_fee,
+    })), { onConflict: 'ledger_id,checkout_reference,position' })
+    .select('id, position, reference_id, transaction_id')
+}
+
 export async function createCheckoutResponse(
   req: Request,
   supabase: SupabaseClient,
@@ -197,37 +344,74 @@ export async function createCheckoutResponse(
   requestId: string,
   provider?: PaymentProvider,
 ): Promise<ResourceResult> {
-  const requestedAmount = validateAmount(body.amount)
+  // A cart spanning several creators carries line items; the top-level
+  // amount (when given) must match their total.
+  let lineItems: CheckoutLineItem[] | null = null
+  if (body.line_items !== undefined) {
+    const parsed = validateCheckoutLineItems(body.line_items)
+    if (parsed.error) return parsed.error
+    lineItems = parsed.items!
+
+    if (body.participant_id) {
+      return resourceError('participant_id cannot be combined with line_items; set it on each line item', 400, {}, 'participant_with_line_items')
+    }
+  }
+  const lineItemsTotal = lineItems ? lineItems.reduce((sum, item) => sum + item.amount, 0) : null
+
+  const requestedAmount = body.amount === undefined && lineItemsTotal !== null
+    ? lineItemsTotal
+    : validateAmount(body.amount)
   if (requestedAmount === null || requestedAmount <= 0) {
     return resourceError('Invalid amount: must be a positive integer (cents)', 400, {}, 'invalid_amount')
   }
 
+  if (lineItemsTotal !== null && requestedAmount !== lineItemsTotal) {
+    return resourceError('amount must equal the sum of line item amounts', 400, {}, 'line_items_total_mismatch')
+  }
+
   if (requestedAmount < 50) {
     return resourceError('Amount must be at least 50 cents', 400, {}, 'amount_below_minimum')
   }
 
-  const participantId = validateId(body.participant_id, 100)
-  if (!participantId) {
+  const participantId = lineItems ? null : validateId(body.participant_id, 100)
+  if (!lineItems && !participantId) {
     return resourceError('Invalid participant_id: must be 1-100 alphanumeric characters', 400, {}, 'invalid_participant_id')
   }
 
-  const { data: participantCheck } = await supabase
-    .from('accounts')
-    .select('id, is_active')
-    .eq('ledger_id', ledger.id)
-    .eq('account_type', 'creator_balance')
-    .eq('entity_id', participantId)
-    .maybeSingle()
+  if (participantId) {
+    const { data: participantCheck } = await supabase
+      .from('accounts')
+      .select('id, is_active')
+      .eq('ledger_id', ledger.id)
+      .eq('account_type', 'creator_balance')
+      .eq('entity_id', participantId)
+      .maybeSingle()
 
-  if (participantCheck && participantCheck.is_active === false) {
-    return resourceError('Participant has been deleted', 410, {}, 'participant_deleted')
+    if (participantCheck && participantCheck.is_active === false) {
+      return resourceError('Participant has been deleted', 410, {}, 'participant_deleted')
+    }
+  }
+
+  if (lineItems) {
+    const { data: participantChecks } = await supabase
+      .from('accounts')
+      .select('entity_id, is_active')
+      .eq('ledger_id', ledger.id)
+      .eq('account_type', 'creator_balance')
+      .in('entity_id', Array.from(new Set(lineItems.map((item) => item.participant_id))))
+
+    const deleted = (participantChecks || []).find((row: { is_active?: boolean }) => row.is_active === false)
+    if (deleted) {
+      return resourceError(`Participant ${deleted.entity_id} has been deleted`, 410, {}, 'participant_deleted')
+    }
   }
 
-  const currency = body.currency?.toUpperCase() || 'USD'
-  const validCurrencies = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF', 'NGN']
-  if (!validCurrencies.includes(currency)) {
-    return resourceError(`Invalid currency: must be one of ${validCurrencies.join(', ')}`, 400, {}, 'invalid_currency')
+  // Cross-currency checkouts lock the rate on file at creation; no rate, no checkout.
+  const currencyResult = await resolvePostingCurrency(getFxRateSource(supabase, ledger), ledger, body.currency, undefined)
+  if (!currencyResult.ok) {
+    return resourceError(currencyResult.error, currencyResult.status, {}, currencyResult.error_code)
   }
+  const { currency, functional_currency: functionalCurrency, fx_rate: fxRate } = currencyResult.value
 
   const productId = body.product_id ? validateId(body.product_id, 100) : null
   const productName = body.product_name ? validateString(body.product_name, 200) : null
@@ -259,6 +443,10 @@ export async function createCheckoutResponse(
     )
   )
   const collectSalesTax = body.collect_sales_tax === true
+  const customerTaxId = body.customer_tax_id ? normalizeCustomerTaxId(body.customer_tax_id) : null
+  if (body.customer_tax_id && !customerTaxId) {
+    return resourceError('Invalid customer_tax_id', 400, {}, 'invalid_customer_tax_id')
+  }
   const customerTaxSource =
     customerState || customerPostalCode || customerCountry
       ? 'request_address'
@@ -271,8 +459,9 @@ export async function createCheckoutResponse(
     return resourceError('Invalid idempotency_key', 400, {}, 'invalid_idempotency_key')
   }
 
-  if (collectSalesTax && isDigitalGoodsCategory(taxCategory) && !customerState) {
-    return resourceError('customer_state is required when collect_sales_tax is true for digital goods', 400, {}, 'missing_customer_state')
+  // US rates are set per state; other countries resolve on country alone.
+  if (collectSalesTax && customerCountry === 'US' && taxCategory !== 'exempt' && !customerState) {
+    return resourceError('customer_state is required when collect_sales_tax is true for US customers', 400, {}, 'missing_customer_state')
   }
 
   if (paymentMethodId && collectSalesTax) {
@@ -287,19 +476,47 @@ export async function createCheckoutResponse(
   }
 
   const subtotalAmount = requestedAmount
-  const salesTaxAmount = shouldCollectMarylandDigitalGoodsTax(taxCategory, collectSalesTax, customerCountry, customerState)
-    ? Math.round(subtotalAmount * (MARYLAND_DIGITAL_GOODS_TAX_RATE_BPS / 10000))
-    : 0
-  const salesTaxRateBps = salesTaxAmount > 0 ? MARYLAND_DIGITAL_GOODS_TAX_RATE_BPS : null
-  const salesTaxState = salesTaxAmount > 0 ? 'MD' : null
+  let salesTaxQuote: SalesTaxQuote | null = null
+  if (collectSalesTax) {
+    const taxResult = await calculateSalesTax(supabase, ledger.id, {
+      subtotal_cents: subtotalAmount,
+      country: customerCountry,
+      state: customerState,
+      postal_code: customerPostalCode,
+      tax_category: taxCategory,
+      customer_tax_id: customerTaxId,
+    })
+    if (!taxResult.ok) {
+      return resourceError(taxResult.error, taxResult.status, {}, taxResult.error_code)
+    }
+    salesTaxQuote = taxResult.quote
+  }
+  const salesTaxAmount = salesTaxQuote?.collect ? salesTaxQuote.tax_cents : 0
+  const salesTaxRateBps = salesTaxQuote?.collect ? salesTaxQuote.rate_bps : null
+  const salesTaxState = salesTaxAmount > 0 && customerCountry === 'US' ? customerState : null
+  const salesTaxJurisdiction = salesTaxQuote && (salesTaxQuote.collect || salesTaxQuote.reverse_charge)
+    ? salesTaxQuote.jurisdiction_code
+    : null
+  const salesTaxReverseCharge = salesTaxQuote?.reverse_charge === true
   const totalAmount = subtotalAmount + salesTaxAmount
 
-  const participantPercent = await getParticipantSplit(supabase, ledger, participantId, productId)
-  // Soledgic fee: 3.5% of taxable subtotal, off the top before split.
-  const actualSoledgicFee = Math.floor(subtotalAmount * 0.035)
-  const netAfterFee = subtotalAmount - actualSoledgicFee
-  const participantAmount = Math.floor(netAfterFee * (participantPercent / 100))
-  const platformAmount = netAfterFee - participantAmount
+  let participantPercent: number | null = null
+  let pricedLineItems: PricedCheckoutLineItem[] | null = null
+  let split: ReturnType<typeof splitCheckoutAmount>
+  if (lineItems) {
+    pricedLineItems = await priceCheckoutLineItems(supabase, ledger, lineItems)
+    split = pricedLineItems.reduce((totals, item) => ({
+      soledgic_fee: totals.soledgic_fee + item.soledgic_fee,
+      creator_amount: totals.creator_amount + item.creator_amount,
+      platform_amount: totals.platform_amount + item.platform_amount,
+    }), { soledgic_fee: 0, creator_amount: 0, platform_amount: 0 })
+  } else {
+    participantPercent = await getParticipantSplit(supabase, ledger, participantId!, productId)
+    split = splitCheckoutAmount(subtotalAmount, participantPercent)
+  }
+  const actualSoledgicFee = split.soledgic_fee
+  const participantAmount = split.creator_amount
+  const platformAmount = split.platform_amount
 
   if (!paymentMethodId) {
     const successUrl = body.success_url ? validateUrl(body.success_url) : null
@@ -337,9 +554,13 @@ export async function createCheckoutResponse(
         sales_tax_amount: salesTaxAmount,
         sales_tax_rate_bps: salesTaxRateBps,
         sales_tax_state: salesTaxState,
+        sales_tax_jurisdiction: salesTaxJurisdiction,
+        sales_tax_type: salesTaxJurisdiction ? salesTaxQuote?.tax_type ?? null : null,
+        sales_tax_reverse_charge: salesTaxReverseCharge,
         customer_tax_country: customerCountry,
         customer_tax_state: customerState,
         customer_tax_postal_code: customerPostalCode,
+        customer_tax_id: customerTaxId,
         currency,
         creator_id: participantId,
         product_id: productId,
@@ -351,12 +572,14 @@ export async function createCheckoutResponse(
           ...(taxCategory ? { tax_category: taxCategory } : {}),
           collect_sales_tax: collectSalesTax,
           ...(customerTaxSource ? { customer_tax_source: customerTaxSource } : {}),
+          ...(fxRate !== null ? { fx_rate: fxRate } : {}),
         },
         success_url: successUrl,
         cancel_url: cancelUrl,
         creator_percent: participantPercent,
         creator_amount: participantAmount,
         platform_amount: platformAmount,
+        ...(pricedLineItems ? { line_item_count: pricedLineItems.length } : {}),
         expires_at: sessionExpiresAt,
         ...(idempotencyKey ? { idempotency_key: idempotencyKey } : {}),
       })
@@ -368,6 +591,24 @@ export async function createCheckoutResponse(
       return resourceError('Failed to create checkout session', 500, {}, 'checkout_session_create_failed')
     }
 
+    let savedLineItems: Array<{ id: string; position: number }> = []
+    if (pricedLineItems) {
+      const { data: lineItemRows, error: lineItemsError } = await saveCheckoutLineItems(
+        supabase,
+        ledger.id,
+        `checkout_${session.id}`,
+        session.id,
+        pricedLineItems,
+      )
+
+      if (lineItemsError || !lineItemRows) {
+        console.error(`[${requestId}] Failed to save checkout line items:`, lineItemsError)
+        await supabase.from('checkout_sessions').delete().eq('id', session.id)
+        return resourceError('Failed to create checkout session', 500, {}, 'checkout_line_items_create_failed')
+      }
+      savedLineItems = lineItemRows
+    }
+
     const appUrl = (Deno.env.get('APP_URL') || Deno.env.get('NEXT_PUBLIC_APP_URL') || 'https://soledgic.com').replace(/\/+$/, '')
 
     await createAuditLog(supabase, req, {
@@ -384,9 +625,12 @@ export async function createCheckoutResponse(
         participant_id: participantId,
         product_id: productId,
         participant_percent: participantPercent,
+        line_item_count: pricedLineItems?.length ?? 0,
         customer_tax_state: customerState,
         collect_sales_tax: collectSalesTax,
         customer_tax_source: customerTaxSource,
+        sales_tax_jurisdiction: salesTaxJurisdiction,
+        sales_tax_reverse_charge: salesTaxReverseCharge,
       }),
       response_status: 200,
       risk_score: 10,
@@ -412,11 +656,20 @@ export async function createCheckoutResponse(
           subtotal_amount: subtotalAmount / 100,
           sales_tax_amount: salesTaxAmount / 100,
           sales_tax_state: salesTaxState,
+          sales_tax_jurisdiction: salesTaxJurisdiction,
+          sales_tax_reverse_charge: salesTaxReverseCharge,
           creator_amount: participantAmount / 100,
           platform_amount: platformAmount / 100,
           soledgic_fee: actualSoledgicFee / 100,
           creator_percent: participantPercent,
         },
+        ...(pricedLineItems
+          ? {
+              line_items: pricedLineItems.map((item) =>
+                mapCheckoutLineItem(item, savedLineItems.find((row) => row.position === item.position))
+              ),
+            }
+          : {}),
       },
     })
   }
@@ -443,8 +696,16 @@ export async function createCheckoutResponse(
   }
 
   checkoutMetadata.ledger_id = ledger.id
-  checkoutMetadata.creator_id = participantId
-  checkoutMetadata.participant_id = participantId
+  if (participantId) {
+    checkoutMetadata.creator_id = participantId
+    checkoutMetadata.participant_id = participantId
+  }
+  if (pricedLineItems) {
+    checkoutMetadata.line_item_count = String(pricedLineItems.length)
+    checkoutMetadata.participant_ids = Array.from(new Set(pricedLineItems.map((item) => item.participant_id)))
+      .join(',')
+      .substring(0, 500)
+  }
   checkoutMetadata.soledgic_request_id = requestId
   checkoutMetadata.checkout_provider = 'card'
 
@@ -511,12 +772,14 @@ export async function createCheckoutResponse(
   let fundingBooked = false
   let fundingTransactionId: string | null = null
   let saleBooked = false
-  let saleTransactionId: string | null = null
+  const saleTransactionIds: string[] = []
+  let savedLineItems: Array<{ id: string; position: number }> = []
+  let lineItemSales: LineItemSaleRow[] = []
 
   if (!isChargeFailed && !checkoutPayment.requires_action) {
     const fundingReferenceId = `funding_${checkoutPayment.id}`
     const saleReferenceId = `sale_${checkoutPayment.id}`
-    const buyerId = body.customer_id || body.buyer_id || participantId
+    const buyerId = body.customer_id || body.buyer_id || participantId || pricedLineItems![0].participant_id
 
     // ── Step 1: FUNDING (Stripe → buyer wallet) ──────────────────
     // External money enters the system. No creator, no platform split.
@@ -531,6 +794,8 @@ export async function createCheckoutResponse(
           checkout_provider: 'card',
           stripe_payment_id: checkoutPayment.id,
         },
+        p_currency: currency,
+        p_fx_rate: fxRate,
       })
 
       if (fundingError) {
@@ -550,10 +815,64 @@ export async function createCheckoutResponse(
 
     // ── Step 2: SALE (wallet redistribution) ─────────────────────
     // Internal: buyer wallet → creator + platform + soledgic fee.
-    // Only proceeds if funding succeeded.
-    if (fundingBooked) {
+    // Only proceeds if funding succeeded. A multi-party cart posts one
+    // sale per line item under sale_<payment id>_<position>; each line
+    // already names its participant and price, so split rules apply only to
+    // a single-participant checkout.
+    const saleMetadata = {
+      ...(body.metadata || {}),
+      funding_transaction_id: fundingTransactionId,
+      buyer_id: buyerId,
+      checkout_provider: 'card',
+      subtotal_amount_cents: subtotalAmount,
+      sales_tax_amount_cents: salesTaxAmount,
+      customer_tax_country: customerCountry,
+      customer_tax_state: customerState,
+      ...(customerTaxSource ? { customer_tax_source: customerTaxSource } : {}),
+      ...(taxCategory ? { tax_category: taxCategory } : {}),
+    }
+
+    if (fundingBooked && pricedLineItems) {
       try {
-        const { data: saleResult, error: saleError } = await supabase.rpc('record_sale_atomic', {
+        const { data: lineItemRows, error: lineItemsError } = await saveCheckoutLineItems(
+          supabase,
+          ledger.id,
+          saleReferenceId,
+          null,
+          pricedLineItems,
+        )
+
+        if (lineItemsError || !lineItemRows) {
+          console.error(`[${requestId}] Line item booking failed:`, lineItemsError?.message)
+        } else {
+          savedLineItems = lineItemRows
+          const { data: saleRows, error: saleError } = await supabase.rpc('record_checkout_line_item_sales', {
+            p_ledger_id: ledger.id,
+            p_checkout_reference: saleReferenceId,
+            p_sales_tax: salesTaxAmount,
+            p_metadata: saleMetadata,
+            p_currency: currency,
+            p_fx_rate: fxRate,
+          })
+
+          if (saleError) {
+            console.error(`[${requestId}] Line item sale booking failed:`, saleError.message)
+          } else {
+            lineItemSales = (saleRows || []) as LineItemSaleRow[]
+            saleBooked = lineItemSales.length > 0
+            for (const row of lineItemSales) {
+              if (row.out_transaction_id) saleTransactionIds.push(row.out_transaction_id)
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`[${requestId}] Line item sale booking error:`, error)
+      }
+    } else if (fundingBooked && participantId) {
+      try {
+        // A product or creator split rule divides the sale like record-sale
+        const splitRule = await resolveSplitRule(supabase, ledger.id, { productId, creatorId: participantId })
+        const { transaction_id: saleTransactionId, error: saleError } = await postSaleWithSplitRule(supabase, {
           p_ledger_id: ledger.id,
           p_reference_id: saleReferenceId,
           p_creator_id: participantId,
@@ -565,19 +884,10 @@ export async function createCheckoutResponse(
           p_sales_tax: salesTaxAmount,
           p_product_id: productId || null,
           p_product_name: productName || null,
-          p_metadata: {
-            ...(body.metadata || {}),
-            funding_transaction_id: fundingTransactionId,
-            buyer_id: buyerId,
-            checkout_provider: 'card',
-            subtotal_amount_cents: subtotalAmount,
-            sales_tax_amount_cents: salesTaxAmount,
-            customer_tax_country: customerCountry,
-            customer_tax_state: customerState,
-            ...(customerTaxSource ? { customer_tax_source: customerTaxSource } : {}),
-            ...(taxCategory ? { tax_category: taxCategory } : {}),
-          },
-        })
+          p_metadata: saleMetadata,
+          p_currency: currency,
+          p_fx_rate: fxRate,
+        }, splitRule, functionalCurrency)
 
         if (saleError) {
           if (saleError.code === '23505' || String(saleError.message || '').includes('duplicate')) {
@@ -587,15 +897,14 @@ export async function createCheckoutResponse(
           }
         } else {
           saleBooked = true
-          const row = Array.isArray(saleResult) ? saleResult[0] : saleResult
-          saleTransactionId = row?.out_transaction_id || null
+          if (saleTransactionId) saleTransactionIds.push(saleTransactionId)
         }
       } catch (error) {
         console.error(`[${requestId}] Sale booking error:`, error)
       }
     }
 
-    if (saleBooked && saleTransactionId) {
+    if (saleBooked && saleTransactionIds.length > 0) {
       await recordSalesTaxThresholdProgress(
         supabase,
         ledger.id,
@@ -613,10 +922,12 @@ export async function createCheckoutResponse(
         },
       )
 
-      void autoLinkTransaction(supabase, ledger.id, {
-        id: saleTransactionId,
-        transaction_type: 'sale',
-      })
+      for (const saleTransactionId of saleTransactionIds) {
+        void autoLinkTransaction(supabase, ledger.id, {
+          id: saleTransactionId,
+          transaction_type: 'sale',
+        })
+      }
 
       supabase.rpc('queue_webhook', {
         p_ledger_id: ledger.id,
@@ -626,7 +937,7 @@ export async function createCheckoutResponse(
           data: {
             payment_id: checkoutPayment.id,
             funding_transaction_id: fundingTransactionId,
-            sale_transaction_id: saleTransactionId,
+            sale_transaction_id: pricedLineItems ? null : saleTransactionIds[0],
             amount: totalAmount / 100,
             subtotal_amount: subtotalAmount / 100,
             sales_tax_amount: salesTaxAmount / 100,
@@ -634,6 +945,15 @@ export async function createCheckoutResponse(
             currency,
             participant_id: participantId,
             product_id: productId,
+            ...(pricedLineItems
+              ? {
+                  line_items: lineItemSales.map((row) => ({
+                    line_item_id: row.out_line_item_id,
+                    reference_id: row.out_reference_id,
+                    transaction_id: row.out_transaction_id,
+                  })),
+                }
+              : {}),
             direct_charge: true,
             created_at: new Date().toISOString(),
           },
@@ -659,6 +979,7 @@ export async function createCheckoutResponse(
       product_id: productId,
       participant_percent: participantPercent,
       provider: 'card',
+      line_item_count: pricedLineItems?.length ?? 0,
       sale_booked: saleBooked,
       customer_tax_state: customerState,
       collect_sales_tax: collectSalesTax,
@@ -693,6 +1014,19 @@ export async function createCheckoutResponse(
         soledgic_fee: actualSoledgicFee / 100,
         creator_percent: participantPercent,
       },
+      ...(pricedLineItems
+        ? {
+            line_items: pricedLineItems.map((item) => {
+              const saved = savedLineItems.find((row) => row.position === item.position)
+              const sale = saved ? lineItemSales.find((row) => row.out_line_item_id === saved.id) : undefined
+              return mapCheckoutLineItem(item, {
+                id: saved?.id,
+                reference_id: sale?.out_reference_id,
+                transaction_id: sale?.out_transaction_id,
+              })
+            }),
+          }
+        : {}),
     },
   })
 }
@@ -0,0 +1,463 @@
+// SERVICE_ID: SVC_CREATOR_RECEIVABLES
+// Soledgic: negative creator balance recovery
+// When a refund or chargeback leaves a creator's balance below zero,
+// record_creator_debts moves the deficit to a per-creator receivable and
+// opens a creator debt. recover_creator_debts nets later earnings against
+// open debts, payouts can be blocked until they are recovered, and the
+// process-creator-debts cron writes aged debts off to bad debt expense.
+// The RPCs link each posting in transaction_links themselves.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const CREATOR_DEBT_STATUSES = ['outstanding', 'recovered', 'written_off'] as const
+export type CreatorDebtStatus = typeof CREATOR_DEBT_STATUSES[number]
+
+/** Ledger settings that govern negative balances (`negative_balance_*`). */
+export interface NegativeBalancePolicy {
+  /** Share of each later creator credit applied to open debts (0-100) */
+  recovery_percent: number
+  /** Refuse payouts while the creator has an open debt */
+  block_payouts: boolean
+  /** Write open debts off after this many days; null never writes off */
+  write_off_days: number | null
+}
+
+export interface CreatorDebtsQuery {
+  status?: string
+  creator_id?: string
+  limit?: number
+}
+
+/** A debt opened (or already on file) for one creator by one transaction. */
+export interface CreatorDebtPosting {
+  debt_id: string
+  creator_id: string
+  debt_transaction_id: string
+  amount: number
+  created: boolean
+}
+
+/** Part of a recovery transaction applied to one debt. */
+export interface CreatorDebtRecovery {
+  debt_id: string
+  transaction_id: string
+  debt_transaction_id: string
+  amount: number
+  status: CreatorDebtStatus
+}
+
+export function getNegativeBalancePolicy(settings: Record<string, unknown> | null | undefined): NegativeBalancePolicy {
+  const percent = settings?.negative_balance_recovery_percent
+  const days = settings?.negative_balance_write_off_days
+
+  return {
+    recovery_percent: typeof percent === 'number' && Number.isFinite(percent)
+      ? Math.min(Math.max(percent, 0), 100)
+      : 100,
+    block_payouts: settings?.negative_balance_block_payouts === true,
+    write_off_days: typeof days === 'number' && Number.isInteger(days) && days >= 0 ? days : null,
+  }
+}
+
+// ============================================================================
+// MAPPING AND LOADING
+// ============================================================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function mapDebt(row: any) {
+  const amount = Number(row.amount)
+  const recovered = Number(row.recovered_amount)
+  const writtenOff = Number(row.written_off_amount)
+  return {
+    id: row.id,
+    creator_id: row.creator_id,
+    source_transaction_id: row.source_transaction_id,
+    debt_transaction_id: row.debt_transaction_id ?? null,
+    write_off_transaction_id: row.write_off_transaction_id ?? null,
+    currency: row.currency,
+    amount,
+    recovered_amount: recovered,
+    written_off_amount: writtenOff,
+    outstanding_amount: roundMoney(amount - recovered - writtenOff),
+    status: row.status,
+    settled_at: row.settled_at ?? null,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+  }
+}
+
+function mapAgingRow(row: any) {
+  return {
+    creator_id: row.out_creator_id,
+    debt_count: Number(row.out_debt_count),
+    outstanding: Number(row.out_outstanding),
+    current: Number(row.out_current),
+    days_31_60: Number(row.out_days_31_60),
+    days_61_90: Number(row.out_days_61_90),
+    days_over_90: Number(row.out_days_over_90),
+    oldest_debt_at: row.out_oldest_debt_at ?? null,
+  }
+}
+
+async function loadDebt(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  debtIdRaw: string,
+): Promise<{ debt?: any; error?: ResourceResult }> {
+  const debtId = validateUUID(debtIdRaw)
+  if (!debtId) {
+    return { error: resourceError('debt_id is invalid', 400, {}, 'invalid_debt_id') }
+  }
+
+  const { data: debt } = await supabase
+    .from('creator_debts')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', debtId)
+    .maybeSingle()
+
+  if (!debt) {
+    return { error: resourceError('Creator debt not found', 404, {}, 'creator_debt_not_found') }
+  }
+  return { debt }
+}
+
+// ============================================================================
+// POSTING
+// ============================================================================
+
+/**
+ * Open debts for any creator a refund or chargeback left below zero. Never
+ * fails the caller: the refund or chargeback is
+ * already committed and the RPC is idempotent.
+ */
+export async function recordCreatorDebts(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  transactionId: string,
+  requestId: string,
+): Promise<CreatorDebtPosting[]> {
+  const { data, error } = await supabase.rpc('record_creator_debts', {
+    p_ledger_id: ledgerId,
+    p_transaction_id: transactionId,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to record creator debts for ${transactionId}:`, error)
+    return []
+  }
+
+  return (data || []).map((row: any) => ({
+    debt_id: row.out_debt_id,
+    creator_id: row.out_creator_id,
+    debt_transaction_id: row.out_debt_transaction_id,
+    amount: Number(row.out_amount),
+    created: Boolean(row.out_created),
+  }))
+}
+
+/**
+ * Net a creator's earnings against their open debts, oldest first. Returns
+ * one row per debt paid down. Never throws: a failure comes back as an error,
+ * and retrying is safe because the RPC nets the current balance.
+ */
+export async function recoverCreatorDebts(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  creatorId: string,
+  requestId: string,
+): Promise<{ recoveries: CreatorDebtRecovery[]; error?: string }> {
+  const { data, error } = await supabase.rpc('recover_creator_debts', {
+    p_ledger_id: ledgerId,
+    p_creator_id: creatorId,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to recover creator debts for ${creatorId}:`, error)
+    return { recoveries: [], error: error.message || 'Failed to recover creator debts' }
+  }
+
+  return {
+    recoveries: (data || []).map((row: any) => ({
+      debt_id: row.out_debt_id,
+      transaction_id: row.out_transaction_id,
+      debt_transaction_id: row.out_debt_transaction_id,
+      amount: Number(row.out_amount),
+      status: row.out_status,
+    })),
+  }
+}
+
+/**
+ * Recover what the creator's balance can cover, then report whether the
+ * ledger's policy blocks the payout because a debt is still open.
+ */
+export async function checkCreatorDebtPayoutBlock(
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  creatorId: string,
+  requestId: string,
+): Promise<{ blocked: boolean; outstanding: number }> {
+  await recoverCreatorDebts(supabase, ledger.id, creatorId, requestId)
+
+  if (!getNegativeBalancePolicy(ledger.settings).block_payouts) {
+    return { blocked: false, outstanding: 0 }
+  }
+
+  const { data, error } = await supabase
+    .from('creator_debts')
+    .select('amount, recovered_amount, written_off_amount')
+    .eq('ledger_id', ledger.id)
+    .eq('creator_id', creatorId)
+    .eq('status', 'outstanding')
+
+  if (error) {
+    // Fail closed: the policy exists to stop money leaving while a debt is open
+    console.error(`[${requestId}] Failed to load creator debts for ${creatorId}:`, error)
+    return { blocked: true, outstanding: 0 }
+  }
+
+  const outstanding = roundMoney((data || []).reduce(
+    (sum: number, row: any) => sum + Number(row.amount) - Number(row.recovered_amount) - Number(row.written_off_amount),
+    0,
+  ))
+  return { blocked: outstanding > 0, outstanding }
+}
+
+// ============================================================================
+// RECEIVABLES
+// ============================================================================
+
+/** Outstanding creator debt per creator with aging buckets. */
+export async function creatorReceivablesReportResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: { creator_id?: string; as_of?: string },
+  _requestId: string,
+): Promise<ResourceResult> {
+  let creatorId: string | null = null
+  if (filters.creator_id) {
+    creatorId = validateId(filters.creator_id, 100)
+    if (!creatorId) return resourceError('Invalid creator_id', 400, {}, 'invalid_creator_id')
+  }
+
+  let asOf = new Date().toISOString()
+  if (filters.as_of) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(filters.as_of) || Number.isNaN(Date.parse(filters.as_of))) {
+      return resourceError('as_of must be a YYYY-MM-DD date', 400, {}, 'invalid_as_of')
+    }
+    asOf = filters.as_of + 'T23:59:59Z'
+  }
+
+  const { data, error } = await supabase.rpc('creator_receivables_aging', {
+    p_ledger_id: ledger.id,
+    p_as_of: asOf,
+  })
+
+  if (error) {
+    console.error('Failed to load creator receivables aging:', error)
+    return resourceError('Failed to load creator receivables', 500, {}, 'creator_receivables_failed')
+  }
+
+  const creators = (data || [])
+    .map(mapAgingRow)
+    .filter((row: ReturnType<typeof mapAgingRow>) => !creatorId || row.creator_id === creatorId)
+
+  const total = (key: 'outstanding' | 'current' | 'days_31_60' | 'days_61_90' | 'days_over_90') =>
+    roundMoney(creators.reduce((sum: number, row: ReturnType<typeof mapAgingRow>) => sum + row[key], 0))
+
+  return resourceOk({
+    success: true,
+    as_of: asOf.slice(0, 10),
+    policy: getNegativeBalancePolicy(ledger.settings),
+    summary: {
+      creators: creators.length,
+      debts: creators.reduce((sum: number, row: ReturnType<typeof mapAgingRow>) => sum + row.debt_count, 0),
+      total_outstanding: total('outstanding'),
+      current: total('current'),
+      days_31_60: total('days_31_60'),
+      days_61_90: total('days_61_90'),
+      days_over_90: total('days_over_90'),
+    },
+    creators,
+  })
+}
+
+export async function listCreatorDebtsResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: CreatorDebtsQuery,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 100), 1), 500)
+
+  let query = supabase
+    .from('creator_debts')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.status) {
+    if (!(CREATOR_DEBT_STATUSES as readonly string[]).includes(filters.status)) {
+      return resourceError(`status must be one of: ${CREATOR_DEBT_STATUSES.join(', ')}`, 400, {}, 'invalid_creator_debt_status')
+    }
+    query = query.eq('status', filters.status)
+  }
+  if (filters.creator_id) {
+    const creatorId = validateId(filters.creator_id, 100)
+    if (!creatorId) return resourceError('Invalid creator_id', 400, {}, 'invalid_creator_id')
+    query = query.eq('creator_id', creatorId)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list creator debts:', error)
+    return resourceError('Failed to list creator debts', 500, {}, 'creator_debts_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    debts: (data || []).map(mapDebt),
+  })
+}
+
+export async function getCreatorDebtResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  debtIdRaw: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadDebt(supabase, ledger.id, debtIdRaw)
+  if (loaded.error) return loaded.error
+
+  return resourceOk({
+    success: true,
+    debt: mapDebt(loaded.debt),
+  })
+}
+
+/** Net the creator's current balance against their open debts now. */
+export async function recoverCreatorDebtsResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const creatorId = validateId(body.creator_id, 100)
+  if (!creatorId) {
+    return resourceError('creator_id is required', 400, {}, 'invalid_creator_id')
+  }
+
+  const { recoveries, error } = await recoverCreatorDebts(supabase, ledger.id, creatorId, requestId)
+  if (error) {
+    return resourceError('Failed to recover creator debts', 500, {}, 'creator_debt_recovery_failed')
+  }
+  const recovered = roundMoney(recoveries.reduce((sum, recovery) => sum + recovery.amount, 0))
+
+  if (recoveries.length > 0) {
+    createAuditLogAsync(supabase, req, {
+      ledger_id: ledger.id,
+      action: 'creator_debt_recovered',
+      entity_type: 'creator',
+      entity_id: creatorId,
+      actor_type: 'api',
+      request_body: sanitizeForAudit({
+        transaction_id: recoveries[0].transaction_id,
+        amount: recovered,
+        debts: recoveries.length,
+      }),
+      response_status: 200,
+      risk_score: 20,
+    }, requestId)
+  }
+
+  return resourceOk({
+    success: true,
+    creator_id: creatorId,
+    recovered_amount: recovered,
+    transaction_id: recoveries[0]?.transaction_id ?? null,
+    recoveries,
+  })
+}
+
+/** Write off what is left of an open debt to bad debt expense. */
+export async function writeOffCreatorDebtResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  debtIdRaw: string,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadDebt(supabase, ledger.id, debtIdRaw)
+  if (loaded.error) return loaded.error
+  const debt = loaded.debt
+
+  const reason = body.reason === undefined || body.reason === null ? null : validateString(body.reason, 500)
+  if (body.reason !== undefined && body.reason !== null && !reason) {
+    return resourceError('reason must be a string of at most 500 characters', 400, {}, 'invalid_reason')
+  }
+  if (debt.status !== 'outstanding') {
+    return resourceError(`Creator debt is ${debt.status.replace('_', ' ')}`, 409, {}, 'creator_debt_not_outstanding')
+  }
+
+  const { data, error } = await supabase.rpc('write_off_creator_debt', {
+    p_ledger_id: ledger.id,
+    p_debt_id: debt.id,
+    p_reason: reason,
+  })
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (error || !row) {
+    const message = error?.message || ''
+    if (/has been/i.test(message)) {
+      return resourceError(message, 409, {}, 'creator_debt_not_outstanding')
+    }
+    console.error('write_off_creator_debt failed:', error)
+    return resourceError('Failed to write off creator debt', 500, {}, 'creator_debt_write_off_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'creator_debt_written_off',
+    entity_type: 'creator_debt',
+    entity_id: debt.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      creator_id: debt.creator_id,
+      amount: Number(row.out_amount),
+      transaction_id: row.out_transaction_id,
+      reason,
+    }),
+    response_status: 200,
+    risk_score: 40,
+  }, requestId)
+
+  return getCreatorDebtResponse(req, supabase, ledger, debt.id, requestId)
+}
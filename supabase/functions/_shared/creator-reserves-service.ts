@@ -0,0 +1,349 @@
+// SERVICE_ID: SVC_CREATOR_RESERVES
+// Soledgic: per-creator rolling reserves
+// A reserve policy holds a percentage of each of a creator's sales for a
+// number of days. apply_creator_reserve moves the slice from the creator's
+// balance to their reserve sub-account as a tranche with its own release
+// date, and the release-expired-holds cron pays due tranches back through
+// release_due_creator_reserves. A creator policy replaces the org-wide
+// reserve_percent for that creator. The RPCs link each posting in
+// transaction_links themselves.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const MAX_RESERVE_HOLD_DAYS = 730
+
+export interface CreatorReservePolicyInput {
+  reserve_percent: number
+  hold_days: number
+}
+
+/** The reserved slice of one sale for one creator. */
+export interface CreatorReservePosting {
+  tranche_id: string
+  transaction_id: string
+  amount: number
+  release_at: string
+  created: boolean
+}
+
+export function validateReservePolicy(
+  body: Record<string, unknown>,
+): { policy?: CreatorReservePolicyInput; error?: string } {
+  const percent = body.reserve_percent
+  if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+    return { error: 'reserve_percent must be a number greater than 0 and at most 100' }
+  }
+  if (Math.round(percent * 100) !== percent * 100) {
+    return { error: 'reserve_percent allows at most two decimal places' }
+  }
+
+  const days = body.hold_days
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_RESERVE_HOLD_DAYS) {
+    return { error: `hold_days must be a whole number from 1 to ${MAX_RESERVE_HOLD_DAYS}` }
+  }
+
+  return { policy: { reserve_percent: percent, hold_days: days } }
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function mapPolicy(row: any) {
+  return {
+    creator_id: row.creator_id,
+    reserve_percent: Number(row.reserve_percent),
+    hold_days: row.hold_days,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+function mapTranche(row: any) {
+  return {
+    id: row.id,
+    creator_id: row.creator_id,
+    sale_transaction_id: row.sale_transaction_id,
+    hold_transaction_id: row.hold_transaction_id ?? null,
+    release_transaction_id: row.release_transaction_id ?? null,
+    currency: row.currency,
+    amount: Number(row.amount),
+    reserve_percent: Number(row.reserve_percent),
+    release_at: row.release_at,
+    status: row.status,
+    released_at: row.released_at ?? null,
+    created_at: row.created_at,
+  }
+}
+
+function mapSummary(row: any) {
+  return {
+    creator_id: row.out_creator_id,
+    reserve_percent: row.out_reserve_percent === null ? null : Number(row.out_reserve_percent),
+    hold_days: row.out_hold_days ?? null,
+    held_amount: Number(row.out_held_amount),
+    held_tranches: Number(row.out_held_tranches),
+    released_amount: Number(row.out_released_amount),
+    next_release_at: row.out_next_release_at ?? null,
+    next_release_amount: Number(row.out_next_release_amount),
+  }
+}
+
+function parseCreatorId(raw: string): { creatorId?: string; error?: ResourceResult } {
+  const creatorId = validateId(raw, 100)
+  if (!creatorId) {
+    return { error: resourceError('participant_id is invalid', 400, {}, 'invalid_participant_id') }
+  }
+  return { creatorId }
+}
+
+// ============================================================================
+// POSTING
+// ============================================================================
+
+/**
+ * Hold the creator's reserve slice of a sale. The reserve is null when the
+ * creator has no reserve policy. Never throws: the sale is already committed,
+ * so a failure comes back as an error the caller can retry; the RPC is
+ * idempotent.
+ */
+export async function applyCreatorReserve(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  transactionId: string,
+  creatorId: string,
+  requestId: string,
+): Promise<{ reserve: CreatorReservePosting | null; error?: string }> {
+  const { data, error } = await supabase.rpc('apply_creator_reserve', {
+    p_ledger_id: ledgerId,
+    p_transaction_id: transactionId,
+    p_creator_id: creatorId,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to apply creator reserve for ${transactionId}:`, error)
+    return { reserve: null, error: error.message || 'Failed to apply creator reserve' }
+  }
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (!row?.out_tranche_id) return { reserve: null }
+
+  return {
+    reserve: {
+      tranche_id: row.out_tranche_id,
+      transaction_id: row.out_hold_transaction_id,
+      amount: Number(row.out_amount),
+      release_at: row.out_release_at,
+      created: Boolean(row.out_created),
+    },
+  }
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+/** Held reserve per creator with a policy or a tranche still held. */
+export async function listCreatorReservesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const { data, error } = await supabase.rpc('creator_reserve_summary', {
+    p_ledger_id: ledger.id,
+    p_creator_id: null,
+  })
+
+  if (error) {
+    console.error('Failed to load creator reserves:', error)
+    return resourceError('Failed to load creator reserves', 500, {}, 'creator_reserves_failed')
+  }
+
+  const reserves = (data || []).map(mapSummary)
+
+  return resourceOk({
+    success: true,
+    reserves,
+    total_held: roundMoney(reserves.reduce((sum: number, row: ReturnType<typeof mapSummary>) => sum + row.held_amount, 0)),
+  })
+}
+
+/** One creator's policy, totals and held tranches, soonest release first. */
+export async function getCreatorReserveResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  participantIdRaw: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const parsed = parseCreatorId(participantIdRaw)
+  if (parsed.error) return parsed.error
+  const creatorId = parsed.creatorId!
+
+  const [summary, tranches] = await Promise.all([
+    supabase.rpc('creator_reserve_summary', {
+      p_ledger_id: ledger.id,
+      p_creator_id: creatorId,
+    }),
+    supabase
+      .from('creator_reserve_tranches')
+      .select('*')
+      .eq('ledger_id', ledger.id)
+      .eq('creator_id', creatorId)
+      .eq('status', 'held')
+      .order('release_at', { ascending: true })
+      .limit(500),
+  ])
+
+  if (summary.error || tranches.error) {
+    console.error('Failed to load creator reserve:', summary.error || tranches.error)
+    return resourceError('Failed to load creator reserve', 500, {}, 'creator_reserves_failed')
+  }
+
+  const row = (summary.data || [])[0]
+  const mapped = row ? mapSummary(row) : null
+
+  return resourceOk({
+    success: true,
+    participant_id: creatorId,
+    policy: mapped?.reserve_percent != null
+      ? { reserve_percent: mapped.reserve_percent, hold_days: mapped.hold_days }
+      : null,
+    held_amount: mapped?.held_amount ?? 0,
+    released_amount: mapped?.released_amount ?? 0,
+    next_release_at: mapped?.next_release_at ?? null,
+    next_release_amount: mapped?.next_release_amount ?? 0,
+    tranches: (tranches.data || []).map(mapTranche),
+  })
+}
+
+/** Create or replace a creator's policy. Applies to sales from now on. */
+export async function setCreatorReservePolicyResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  participantIdRaw: string,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const parsed = parseCreatorId(participantIdRaw)
+  if (parsed.error) return parsed.error
+  const creatorId = parsed.creatorId!
+
+  const validated = validateReservePolicy(body)
+  if (validated.error) {
+    return resourceError(validated.error, 400, {}, 'invalid_reserve_policy')
+  }
+
+  const { data: account } = await supabase
+    .from('accounts')
+    .select('id')
+    .eq('ledger_id', ledger.id)
+    .eq('account_type', 'creator_balance')
+    .eq('entity_id', creatorId)
+    .maybeSingle()
+
+  if (!account) {
+    return resourceError('Participant not found', 404, {}, 'participant_not_found')
+  }
+
+  const { data: policy, error } = await supabase
+    .from('creator_reserve_policies')
+    .upsert({
+      ledger_id: ledger.id,
+      creator_id: creatorId,
+      reserve_percent: validated.policy!.reserve_percent,
+      hold_days: validated.policy!.hold_days,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'ledger_id,creator_id' })
+    .select('*')
+    .single()
+
+  if (error || !policy) {
+    console.error('Failed to save creator reserve policy:', error)
+    return resourceError('Failed to save reserve policy', 500, {}, 'reserve_policy_save_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'creator_reserve_policy_set',
+    entity_type: 'creator',
+    entity_id: creatorId,
+    actor_type: 'api',
+    request_body: sanitizeForAudit(validated.policy),
+    response_status: 200,
+    risk_score: 20,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    policy: mapPolicy(policy),
+  })
+}
+
+/**
+ * Remove a creator's policy. Tranches already held still release on their
+ * own dates.
+ */
+export async function deleteCreatorReservePolicyResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  participantIdRaw: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  const parsed = parseCreatorId(participantIdRaw)
+  if (parsed.error) return parsed.error
+  const creatorId = parsed.creatorId!
+
+  const { data: deleted, error } = await supabase
+    .from('creator_reserve_policies')
+    .delete()
+    .eq('ledger_id', ledger.id)
+    .eq('creator_id', creatorId)
+    .select('id')
+
+  if (error) {
+    console.error('Failed to delete creator reserve policy:', error)
+    return resourceError('Failed to delete reserve policy', 500, {}, 'reserve_policy_delete_failed')
+  }
+
+  if (!deleted?.length) {
+    return resourceError('Reserve policy not found', 404, {}, 'reserve_policy_not_found')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'creator_reserve_policy_deleted',
+    entity_type: 'creator',
+    entity_id: creatorId,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ participant_id: creatorId }),
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    deleted: true,
+    participant_id: creatorId,
+  })
+}
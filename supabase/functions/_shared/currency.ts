@@ -0,0 +1,179 @@
+// Soledgic: Currency and functional-currency helpers
+// Every ledger books in a single functional currency. Transactions may be
+// denominated in another supported currency as long as they carry an FX rate
+// (functional units per one unit of the transaction currency).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { LedgerContext } from './utils.ts'
+
+export const SUPPORTED_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF', 'MXN', 'BRL', 'INR', 'NGN',
+] as const
+
+export type SupportedCurrency = typeof SUPPORTED_CURRENCIES[number]
+
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'VND']
+const THREE_DECIMAL_CURRENCIES = ['BHD', 'IQD', 'JOD', 'KWD', 'OMR', 'TND']
+
+// Guard against obviously broken rates (e.g. a rate pasted in the wrong
+// direction for a zero-decimal currency still fits well inside this range).
+const MIN_FX_RATE = 0.000001
+const MAX_FX_RATE = 1000000
+
+export function normalizeCurrency(value: unknown): SupportedCurrency | null {
+  if (typeof value !== 'string') return null
+  const normalized = value.trim().toUpperCase()
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(normalized)
+    ? normalized as SupportedCurrency
+    : null
+}
+
+export function minorUnitFactor(currency: string | null | undefined): number {
+  const normalized = (currency || 'USD').toUpperCase()
+  if (ZERO_DECIMAL_CURRENCIES.includes(normalized)) return 1
+  if (THREE_DECIMAL_CURRENCIES.includes(normalized)) return 1000
+  return 100
+}
+
+export function majorToMinor(amountMajor: number, currency: string | null | undefined): number {
+  return Math.round(amountMajor * minorUnitFactor(currency))
+}
+
+export function minorToMajor(amountMinor: number, currency: string | null | undefined): number {
+  return amountMinor / minorUnitFactor(currency)
+}
+
+export function validateFxRate(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null
+  if (value < MIN_FX_RATE || value > MAX_FX_RATE) return null
+  return value
+}
+
+/**
+ * Convert a minor-unit amount between currencies at `rate`
+ * (units of `toCurrency` per one unit of `fromCurrency`).
+ */
+export function convertMinorAmount(
+  amountMinor: number,
+  fromCurrency: string,
+  toCurrency: string,
+  rate: number,
+): number {
+  if (fromCurrency.toUpperCase() === toCurrency.toUpperCase()) return amountMinor
+  const major = minorToMajor(amountMinor, fromCurrency) * rate
+  return majorToMinor(major, toCurrency)
+}
+
+/** The ledger's functional currency (what balances and reports are booked in). */
+export function getFunctionalCurrency(ledger: Pick<LedgerContext, 'settings'>): SupportedCurrency {
+  return normalizeCurrency((ledger.settings as any)?.currency) || 'USD'
+}
+
+export interface TransactionCurrencyResolution {
+  currency: SupportedCurrency
+  functional_currency: SupportedCurrency
+  fx_rate: number | null
+  is_foreign: boolean
+}
+
+/**
+ * Resolve the currency a request is denominated in against the ledger's
+ * functional currency. Foreign-currency requests must carry an explicit rate;
+ * we never silently book them 1:1.
+ */
+export function resolveTransactionCurrency(
+  ledger: Pick<LedgerContext, 'settings'>,
+  rawCurrency: unknown,
+  rawFxRate: unknown,
+): { ok: true; value: TransactionCurrencyResolution } | { ok: false; error: string; error_code: string } {
+  const functionalCurrency = getFunctionalCurrency(ledger)
+
+  if (rawCurrency === undefined || rawCurrency === null || rawCurrency === '') {
+    return {
+      ok: true,
+      value: { currency: functionalCurrency, functional_currency: functionalCurrency, fx_rate: null, is_foreign: false },
+    }
+  }
+
+  const currency = normalizeCurrency(rawCurrency)
+  if (!currency) {
+    return {
+      ok: false,
+      error: `Invalid currency: must be one of ${SUPPORTED_CURRENCIES.join(', ')}`,
+      error_code: 'invalid_currency',
+    }
+  }
+
+  if (currency === functionalCurrency) {
+    return {
+      ok: true,
+      value: { currency, functional_currency: functionalCurrency, fx_rate: null, is_foreign: false },
+    }
+  }
+
+  if (rawFxRate === undefined || rawFxRate === null) {
+    return {
+      ok: false,
+      error: `fx_rate is required for ${currency} transactions on a ${functionalCurrency} ledger`,
+      error_code: 'fx_rate_required',
+    }
+  }
+
+  const fxRate = validateFxRate(rawFxRate)
+  if (fxRate === null) {
+    return { ok: false, error: 'Invalid fx_rate: must be a positive number', error_code: 'invalid_fx_rate' }
+  }
+
+  return {
+    ok: true,
+    value: { currency, functional_currency: functionalCurrency, fx_rate: fxRate, is_foreign: true },
+  }
+}
+
+export interface AccountCurrencyBalance {
+  currency: string
+  original_balance: number
+  functional_balance: number
+}
+
+/**
+ * Per-currency positions for every account that has entries in a currency
+ * other than the ledger's functional currency, keyed by account id.
+ * Balances are signed debit-positive, matching account_currency_balances().
+ */
+export async function loadForeignCurrencyBalances(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  functionalCurrency: string,
+  asOf?: string,
+): Promise<Map<string, AccountCurrencyBalance[]>> {
+  const { data, error } = await supabase.rpc('account_currency_balances', {
+    p_ledger_id: ledgerId,
+    ...(asOf ? { p_as_of_date: asOf } : {}),
+  })
+
+  const byAccount = new Map<string, AccountCurrencyBalance[]>()
+  if (error || !Array.isArray(data)) {
+    if (error) console.error('Failed to load currency balances:', error)
+    return byAccount
+  }
+
+  for (const row of data as Array<Record<string, unknown>>) {
+    const accountId = String(row.account_id)
+    const list = byAccount.get(accountId) || []
+    list.push({
+      currency: String(row.currency),
+      original_balance: Number(row.original_balance || 0),
+      functional_balance: Number(row.functional_balance || 0),
+    })
+    byAccount.set(accountId, list)
+  }
+
+  for (const [accountId, list] of byAccount) {
+    if (list.every((entry) => entry.currency === functionalCurrency)) {
+      byAccount.delete(accountId)
+    }
+  }
+
+  return byAccount
+}
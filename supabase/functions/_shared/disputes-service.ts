@@ -0,0 +1,514 @@
+// SERVICE_ID: SVC_DISPUTE_ENGINE
+// Soledgic: dispute lifecycle
+// A dispute posts a chargeback (creator balance + dispute fee out of cash) when
+// it opens, and reverses it when won. Lost and accepted disputes leave the
+// chargeback in place. Both the disputes API and process-processor-inbox go
+// through openDispute / resolveDispute so postings and webhooks stay identical.
+// A chargeback that leaves the creator below zero opens a creator debt; a won
+// dispute's reversal is netted against it straight away.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+import { recordCreatorDebts, recoverCreatorDebts } from './creator-receivables-service.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DisputeStatus = 'open' | 'evidence_submitted' | 'won' | 'lost' | 'accepted'
+export type DisputeOutcome = 'won' | 'lost' | 'accepted'
+
+export interface OpenDisputeInput {
+  external_dispute_id: string
+  amount_cents: number
+  fee_cents?: number
+  sale_reference?: string | null
+  creator_id?: string | null
+  reason?: string | null
+  evidence_due_by?: string | null
+  currency?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface CreateDisputeRequest {
+  dispute_id?: string
+  amount?: number
+  fee?: number
+  sale_reference?: string
+  creator_id?: string
+  reason?: string
+  evidence_due_by?: string
+  currency?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface ListDisputesRequest {
+  status?: string
+  creator_id?: string
+  sale_reference?: string
+  limit?: number
+}
+
+export interface SubmitDisputeEvidenceRequest {
+  evidence?: unknown
+  submit?: boolean
+}
+
+export interface RecordDisputeOutcomeRequest {
+  outcome?: string
+  fee_refunded?: boolean
+}
+
+export type DisputeMutationResult =
+  | { ok: true; dispute_id: string; status: DisputeStatus; transaction_id: string | null; changed: boolean }
+  | { ok: false; error: string; error_code: string; status: number }
+
+const DISPUTE_STATUSES: DisputeStatus[] = ['open', 'evidence_submitted', 'won', 'lost', 'accepted']
+const RESOLVED_STATUSES: DisputeStatus[] = ['won', 'lost', 'accepted']
+const MAX_EVIDENCE_BYTES = 32 * 1024
+
+const DISPUTE_COLUMNS = [
+  'id', 'external_dispute_id', 'sale_transaction_id', 'sale_reference', 'creator_id',
+  'amount', 'fee_amount', 'currency', 'original_amount', 'fx_rate', 'reason', 'status',
+  'evidence', 'evidence_due_by', 'evidence_submitted_at', 'chargeback_transaction_id',
+  'reversal_transaction_id', 'fee_refunded', 'source', 'resolved_at', 'metadata',
+  'created_at', 'updated_at',
+].join(', ')
+
+export function mapDisputeRow(row: any) {
+  return {
+    id: row.id,
+    dispute_id: row.external_dispute_id,
+    status: row.status as DisputeStatus,
+    sale_reference: row.sale_reference ?? null,
+    sale_transaction_id: row.sale_transaction_id ?? null,
+    creator_id: row.creator_id,
+    amount: Number(row.amount),
+    fee: Number(row.fee_amount ?? 0),
+    currency: row.currency,
+    original_amount: row.original_amount === null || row.original_amount === undefined ? null : Number(row.original_amount),
+    fx_rate: row.fx_rate === null || row.fx_rate === undefined ? null : Number(row.fx_rate),
+    reason: row.reason ?? null,
+    evidence: row.evidence || {},
+    evidence_due_by: row.evidence_due_by ?? null,
+    evidence_submitted_at: row.evidence_submitted_at ?? null,
+    chargeback_transaction_id: row.chargeback_transaction_id ?? null,
+    reversal_transaction_id: row.reversal_transaction_id ?? null,
+    fee_refunded: Boolean(row.fee_refunded),
+    source: row.source,
+    resolved_at: row.resolved_at ?? null,
+    metadata: row.metadata || {},
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+function mapDisputeRpcError(error: any): { error: string; error_code: string; status: number } {
+  const message = String(error?.message || '')
+  if (message.includes('Sale not found')) return { error: message, error_code: 'sale_not_found', status: 404 }
+  if (message.includes('Creator account not found')) return { error: message, error_code: 'creator_not_found', status: 404 }
+  if (message.includes('Dispute not found')) return { error: 'Dispute not found', error_code: 'dispute_not_found', status: 404 }
+  if (message.includes('already resolved')) return { error: message, error_code: 'dispute_already_resolved', status: 409 }
+  if (message.includes('No FX rate on file')) return { error: message, error_code: 'fx_rate_missing', status: 422 }
+  if (message.includes('closed period') || message.includes('locked period')) {
+    return { error: message, error_code: 'period_closed', status: 409 }
+  }
+  if (message.includes('required') || message.includes('must be positive') || message.includes('cannot be negative')) {
+    return { error: message, error_code: 'invalid_dispute', status: 400 }
+  }
+  console.error('Dispute RPC failed:', error)
+  return { error: 'Failed to record dispute', error_code: 'dispute_failed', status: 500 }
+}
+
+function queueDisputeWebhook(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  eventType: 'dispute.opened' | 'dispute.won' | 'dispute.lost',
+  dispute: ReturnType<typeof mapDisputeRow>,
+): void {
+  Promise.resolve(
+    supabase.rpc('queue_webhook', {
+      p_ledger_id: ledgerId,
+      p_event_type: eventType,
+      p_payload: {
+        event: eventType,
+        data: {
+          id: dispute.id,
+          dispute_id: dispute.dispute_id,
+          status: dispute.status,
+          sale_reference: dispute.sale_reference,
+          creator_id: dispute.creator_id,
+          amount: dispute.amount,
+          fee: dispute.fee,
+          currency: dispute.currency,
+          reason: dispute.reason,
+          chargeback_transaction_id: dispute.chargeback_transaction_id,
+          reversal_transaction_id: dispute.reversal_transaction_id,
+          fee_refunded: dispute.fee_refunded,
+          occurred_at: new Date().toISOString(),
+        },
+      },
+    }),
+  ).then(({ error }: any) => {
+    if (error) console.error(`Failed to queue ${eventType} webhook:`, error)
+  })
+}
+
+async function loadDispute(supabase: SupabaseClient, ledgerId: string, disputeId: string) {
+  const { data } = await supabase
+    .from('disputes')
+    .select(DISPUTE_COLUMNS)
+    .eq('ledger_id', ledgerId)
+    .eq('id', disputeId)
+    .maybeSingle()
+
+  return data ? mapDisputeRow(data) : null
+}
+
+// ============================================================================
+// CORE OPERATIONS (shared with process-processor-inbox)
+// ============================================================================
+
+/** Open a dispute and post its chargeback. Idempotent on external_dispute_id. */
+export async function openDispute(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  input: OpenDisputeInput,
+  source: 'api' | 'processor',
+): Promise<DisputeMutationResult> {
+  const { data, error } = await supabase.rpc('record_dispute_atomic', {
+    p_ledger_id: ledgerId,
+    p_external_dispute_id: input.external_dispute_id,
+    p_amount_cents: input.amount_cents,
+    p_fee_cents: input.fee_cents ?? 0,
+    p_sale_reference: input.sale_reference ?? null,
+    p_creator_id: input.creator_id ?? null,
+    p_reason: input.reason ?? null,
+    p_evidence_due_by: input.evidence_due_by ?? null,
+    p_currency: input.currency ?? null,
+    p_source: source,
+    p_metadata: input.metadata ?? {},
+  })
+
+  if (error) return { ok: false, ...mapDisputeRpcError(error) }
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (!row?.out_dispute_id) {
+    return { ok: false, error: 'Failed to record dispute', error_code: 'dispute_failed', status: 500 }
+  }
+
+  const created = Boolean(row.out_created)
+  if (created) {
+    if (row.out_chargeback_transaction_id) {
+      await recordCreatorDebts(supabase, ledgerId, row.out_chargeback_transaction_id, `dispute_${row.out_dispute_id}`)
+    }
+
+    const dispute = await loadDispute(supabase, ledgerId, row.out_dispute_id)
+    if (dispute) {
+      queueDisputeWebhook(supabase, ledgerId, 'dispute.opened', dispute)
+      void supabase.rpc('update_creator_risk_score', {
+        p_ledger_id: ledgerId,
+        p_creator_id: dispute.creator_id,
+      }).then(() => {}, () => {})
+    }
+  }
+
+  return {
+    ok: true,
+    dispute_id: row.out_dispute_id,
+    status: row.out_status as DisputeStatus,
+    transaction_id: row.out_chargeback_transaction_id ?? null,
+    changed: created,
+  }
+}
+
+/** Record a dispute outcome. Repeating the same outcome is a no-op. */
+export async function resolveDispute(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  disputeId: string,
+  outcome: DisputeOutcome,
+  feeRefunded = false,
+): Promise<DisputeMutationResult> {
+  const { data, error } = await supabase.rpc('resolve_dispute_atomic', {
+    p_ledger_id: ledgerId,
+    p_dispute_id: disputeId,
+    p_outcome: outcome,
+    p_fee_refunded: feeRefunded,
+  })
+
+  if (error) return { ok: false, ...mapDisputeRpcError(error) }
+
+  const row = Array.isArray(data) ? data[0] : data
+  const changed = Boolean(row?.out_changed)
+
+  if (changed) {
+    const dispute = await loadDispute(supabase, ledgerId, disputeId)
+    if (dispute) {
+      queueDisputeWebhook(supabase, ledgerId, outcome === 'won' ? 'dispute.won' : 'dispute.lost', dispute)
+      if (outcome === 'won' && dispute.creator_id) {
+        await recoverCreatorDebts(supabase, ledgerId, dispute.creator_id, `dispute_${disputeId}`)
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    dispute_id: disputeId,
+    status: (row?.out_status || outcome) as DisputeStatus,
+    transaction_id: row?.out_reversal_transaction_id ?? null,
+    changed,
+  }
+}
+
+// ============================================================================
+// RESOURCE HANDLERS
+// ============================================================================
+
+export async function listDisputesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: ListDisputesRequest,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(body.limit || 50), 1), 200)
+
+  let query = supabase
+    .from('disputes')
+    .select(DISPUTE_COLUMNS)
+    .eq('ledger_id', ledger.id)
+
+  if (body.status) {
+    if (!DISPUTE_STATUSES.includes(body.status as DisputeStatus)) {
+      return resourceError(`status must be one of ${DISPUTE_STATUSES.join(', ')}`, 400, {}, 'invalid_status')
+    }
+    query = query.eq('status', body.status)
+  }
+  if (body.creator_id) {
+    const creatorId = validateId(body.creator_id, 100)
+    if (!creatorId) return resourceError('Invalid creator_id', 400, {}, 'invalid_creator_id')
+    query = query.eq('creator_id', creatorId)
+  }
+  if (body.sale_reference) {
+    const saleReference = validateId(body.sale_reference, 255)
+    if (!saleReference) return resourceError('Invalid sale_reference', 400, {}, 'invalid_sale_reference')
+    query = query.eq('sale_reference', saleReference)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list disputes:', error)
+    return resourceError('Failed to list disputes', 500, {}, 'dispute_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    disputes: (data || []).map(mapDisputeRow),
+  })
+}
+
+export async function getDisputeResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  disputeId: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const id = validateUUID(disputeId)
+  if (!id) return resourceError('Invalid dispute id', 400, {}, 'invalid_dispute_id')
+
+  const dispute = await loadDispute(supabase, ledger.id, id)
+  if (!dispute) return resourceError('Dispute not found', 404, {}, 'dispute_not_found')
+
+  return resourceOk({ success: true, dispute })
+}
+
+export async function createDisputeResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: CreateDisputeRequest,
+  requestId: string,
+): Promise<ResourceResult> {
+  const externalId = validateId(body.dispute_id, 255)
+  if (!externalId) return resourceError('dispute_id is required', 400, {}, 'invalid_dispute_id')
+
+  if (typeof body.amount !== 'number' || !Number.isInteger(body.amount) || body.amount <= 0) {
+    return resourceError('amount must be a positive integer in cents', 400, {}, 'invalid_amount')
+  }
+  if (body.fee !== undefined && (typeof body.fee !== 'number' || !Number.isInteger(body.fee) || body.fee < 0)) {
+    return resourceError('fee must be a non-negative integer in cents', 400, {}, 'invalid_fee')
+  }
+
+  const saleReference = body.sale_reference ? validateId(body.sale_reference, 255) : null
+  if (body.sale_reference && !saleReference) {
+    return resourceError('Invalid sale_reference', 400, {}, 'invalid_sale_reference')
+  }
+  const creatorId = body.creator_id ? validateId(body.creator_id, 100) : null
+  if (body.creator_id && !creatorId) {
+    return resourceError('Invalid creator_id', 400, {}, 'invalid_creator_id')
+  }
+  if (!saleReference && !creatorId) {
+    return resourceError('sale_reference or creator_id is required', 400, {}, 'invalid_dispute')
+  }
+  if (body.evidence_due_by !== undefined && Number.isNaN(Date.parse(String(body.evidence_due_by)))) {
+    return resourceError('Invalid evidence_due_by', 400, {}, 'invalid_date')
+  }
+
+  const result = await openDispute(supabase, ledger.id, {
+    external_dispute_id: externalId,
+    amount_cents: body.amount,
+    fee_cents: body.fee ?? 0,
+    sale_reference: saleReference,
+    creator_id: creatorId,
+    reason: body.reason ? validateString(body.reason, 500) : null,
+    evidence_due_by: body.evidence_due_by ?? null,
+    currency: body.currency ?? null,
+    metadata: body.metadata && typeof body.metadata === 'object' ? body.metadata : {},
+  }, 'api')
+
+  if (!result.ok) return resourceError(result.error, result.status, {}, result.error_code)
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'dispute_opened',
+    entity_type: 'dispute',
+    entity_id: result.dispute_id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      dispute_id: externalId,
+      amount: body.amount,
+      fee: body.fee ?? 0,
+      sale_reference: saleReference,
+      creator_id: creatorId,
+    }),
+    response_status: result.changed ? 201 : 200,
+    risk_score: 40,
+  }, requestId)
+
+  const dispute = await loadDispute(supabase, ledger.id, result.dispute_id)
+  return resourceOk({ success: true, created: result.changed, dispute }, result.changed ? 201 : 200)
+}
+
+export async function submitDisputeEvidenceResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  disputeId: string,
+  body: SubmitDisputeEvidenceRequest,
+  requestId: string,
+): Promise<ResourceResult> {
+  const id = validateUUID(disputeId)
+  if (!id) return resourceError('Invalid dispute id', 400, {}, 'invalid_dispute_id')
+
+  if (!body.evidence || typeof body.evidence !== 'object' || Array.isArray(body.evidence)) {
+    return resourceError('evidence must be an object', 400, {}, 'invalid_evidence')
+  }
+  if (JSON.stringify(body.evidence).length > MAX_EVIDENCE_BYTES) {
+    return resourceError('evidence is too large; store files with the processor and reference them here', 400, {}, 'invalid_evidence')
+  }
+
+  const existing = await loadDispute(supabase, ledger.id, id)
+  if (!existing) return resourceError('Dispute not found', 404, {}, 'dispute_not_found')
+  if (RESOLVED_STATUSES.includes(existing.status)) {
+    return resourceError(`Dispute already resolved as ${existing.status}`, 409, {}, 'dispute_already_resolved')
+  }
+
+  const submit = body.submit !== false
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('disputes')
+    .update({
+      evidence: { ...existing.evidence, ...(body.evidence as Record<string, unknown>) },
+      ...(submit ? { status: 'evidence_submitted', evidence_submitted_at: now } : {}),
+      updated_at: now,
+    })
+    .eq('ledger_id', ledger.id)
+    .eq('id', id)
+    .in('status', ['open', 'evidence_submitted'])
+    .select(DISPUTE_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to store dispute evidence:', error)
+    return resourceError('Failed to store dispute evidence', 500, {}, 'dispute_evidence_failed')
+  }
+  if (!data) {
+    return resourceError('Dispute was resolved while evidence was being submitted', 409, {}, 'dispute_already_resolved')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'dispute_evidence_submitted',
+    entity_type: 'dispute',
+    entity_id: id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ fields: Object.keys(body.evidence as Record<string, unknown>), submit }),
+    response_status: 200,
+    risk_score: 10,
+  }, requestId)
+
+  return resourceOk({ success: true, dispute: mapDisputeRow(data) })
+}
+
+export async function acceptDisputeResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  disputeId: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  return recordDisputeOutcomeResponse(req, supabase, ledger, disputeId, { outcome: 'accepted' }, requestId)
+}
+
+export async function recordDisputeOutcomeResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  disputeId: string,
+  body: RecordDisputeOutcomeRequest,
+  requestId: string,
+): Promise<ResourceResult> {
+  const id = validateUUID(disputeId)
+  if (!id) return resourceError('Invalid dispute id', 400, {}, 'invalid_dispute_id')
+
+  const outcome = body.outcome as DisputeOutcome
+  if (!RESOLVED_STATUSES.includes(outcome)) {
+    return resourceError('outcome must be one of won, lost, accepted', 400, {}, 'invalid_outcome')
+  }
+
+  const result = await resolveDispute(supabase, ledger.id, id, outcome, body.fee_refunded === true)
+  if (!result.ok) return resourceError(result.error, result.status, {}, result.error_code)
+
+  if (result.changed) {
+    createAuditLogAsync(supabase, req, {
+      ledger_id: ledger.id,
+      action: `dispute_${outcome}`,
+      entity_type: 'dispute',
+      entity_id: id,
+      actor_type: 'api',
+      request_body: sanitizeForAudit({ outcome, fee_refunded: body.fee_refunded === true }),
+      response_status: 200,
+      risk_score: outcome === 'won' ? 20 : 30,
+    }, requestId)
+  }
+
+  const dispute = await loadDispute(supabase, ledger.id, id)
+  return resourceOk({ success: true, changed: result.changed, dispute })
+}
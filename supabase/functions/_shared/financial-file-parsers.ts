@@ -4,6 +4,8 @@
 //
 // All parsers normalize to ParsedTransaction[] — the same format used by
 // import-transactions, so every format flows into the same reconciliation engine.
+// The NACHA return/NOC parser is the exception: it yields entry-level return
+// and change records keyed by original trace number, not statement lines.
 
 // ============================================================================
 // SHARED TYPES
@@ -600,6 +602,213 @@ export function normalizeMerchant(description: string): string {
   return segment || cleaned
 }
 
+// ============================================================================
+// NACHA RETURN / NOC PARSER
+// ============================================================================
+
+export interface NACHAReturnEntry {
+  kind: 'return' | 'noc' | 'entry'
+  trace_number: string               // Trace number of this entry (assigned by the RDFI for returns/NOCs)
+  original_trace_number: string | null // Trace number of the payout entry we originated
+  transaction_code: string
+  receiving_dfi: string              // 8-digit routing prefix
+  account_number: string
+  amount_cents: number
+  individual_id: string
+  individual_name: string
+  return_code: string | null         // R01, R03, ... (kind = 'return')
+  change_code: string | null         // C01, C02, ... (kind = 'noc')
+  corrected_data: string | null      // Raw corrected data field (kind = 'noc')
+  addenda_information: string | null
+  batch_number: string
+  line_number: number
+}
+
+export interface NACHAReturnParseResult {
+  format: 'nacha'
+  immediate_origin: string | null
+  file_creation_date: string | null  // YYYY-MM-DD
+  entries: NACHAReturnEntry[]
+  errors: string[]
+}
+
+export interface NACHABankDetailCorrection {
+  routing_number?: string
+  account_number?: string
+  account_type?: 'checking' | 'savings'
+}
+
+export function isNACHAFile(content: string): boolean {
+  const firstLine = content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] || ''
+  return /^101[ 0-9]{20}\d{6}/.test(firstLine)
+}
+
+function nachaField(line: string, start: number, end: number): string {
+  // 1-based inclusive positions, as in the NACHA record layouts
+  return line.substring(start - 1, end)
+}
+
+function parseNACHADate(raw: string): string | null {
+  if (!/^\d{6}$/.test(raw)) return null
+  return `20${raw.substring(0, 2)}-${raw.substring(2, 4)}-${raw.substring(4, 6)}`
+}
+
+/**
+ * Parse a NACHA file returned by the bank: return entries (addenda type 99),
+ * notifications of change (COR batches, addenda type 98) and, for
+ * acknowledgment files, plain entry echoes with no addenda.
+ */
+export function parseNACHAReturnFile(content: string): NACHAReturnParseResult {
+  const entries: NACHAReturnEntry[] = []
+  const errors: string[] = []
+  let immediateOrigin: string | null = null
+  let fileCreationDate: string | null = null
+  let batchNumber = ''
+  let pending: NACHAReturnEntry | null = null
+
+  const flush = () => {
+    if (pending) entries.push(pending)
+    pending = null
+  }
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\s+$/, '').padEnd(94)
+    const recordType = line[0]
+    if (line.trim() === '' || /^9{94}$/.test(line)) continue
+
+    switch (recordType) {
+      case '1':
+        immediateOrigin = nachaField(line, 14, 23).trim() || null
+        fileCreationDate = parseNACHADate(nachaField(line, 24, 29))
+        break
+
+      case '5':
+        flush()
+        batchNumber = nachaField(line, 88, 94).trim()
+        break
+
+      case '6': {
+        flush()
+        const amount = parseInt(nachaField(line, 30, 39), 10)
+        if (isNaN(amount)) {
+          errors.push(`Line ${i + 1}: invalid entry amount`)
+          break
+        }
+        pending = {
+          kind: 'entry',
+          trace_number: nachaField(line, 80, 94).trim(),
+          original_trace_number: null,
+          transaction_code: nachaField(line, 2, 3),
+          receiving_dfi: nachaField(line, 4, 11),
+          account_number: nachaField(line, 13, 29).trim(),
+          amount_cents: amount,
+          individual_id: nachaField(line, 40, 54).trim(),
+          individual_name: nachaField(line, 55, 76).trim(),
+          return_code: null,
+          change_code: null,
+          corrected_data: null,
+          addenda_information: null,
+          batch_number: batchNumber,
+          line_number: i + 1,
+        }
+        break
+      }
+
+      case '7': {
+        const addendaType = nachaField(line, 2, 3)
+        if (!pending) {
+          errors.push(`Line ${i + 1}: addenda record without an entry`)
+          break
+        }
+        const reasonCode = nachaField(line, 4, 6).trim()
+        const originalTrace = nachaField(line, 7, 21).trim() || null
+
+        if (addendaType === '99') {
+          if (!/^R\d{2}$/.test(reasonCode)) {
+            errors.push(`Line ${i + 1}: invalid return reason code '${reasonCode}'`)
+            break
+          }
+          pending.kind = 'return'
+          pending.return_code = reasonCode
+          pending.original_trace_number = originalTrace
+          pending.addenda_information = nachaField(line, 36, 79).trim() || null
+        } else if (addendaType === '98') {
+          if (!/^C\d{2}$/.test(reasonCode)) {
+            errors.push(`Line ${i + 1}: invalid change code '${reasonCode}'`)
+            break
+          }
+          pending.kind = 'noc'
+          pending.change_code = reasonCode
+          pending.original_trace_number = originalTrace
+          pending.corrected_data = nachaField(line, 36, 64).trim() || null
+        }
+        break
+      }
+
+      case '8':
+        flush()
+        break
+
+      case '9':
+        flush()
+        break
+
+      default:
+        errors.push(`Line ${i + 1}: unknown record type '${recordType}'`)
+    }
+  }
+
+  flush()
+
+  return {
+    format: 'nacha',
+    immediate_origin: immediateOrigin,
+    file_creation_date: fileCreationDate,
+    entries,
+    errors,
+  }
+}
+
+function accountTypeFromTransactionCode(code: string): 'checking' | 'savings' | undefined {
+  if (code.startsWith('2')) return 'checking'
+  if (code.startsWith('3')) return 'savings'
+  return undefined
+}
+
+/**
+ * Decode the corrected data of a NOC into bank detail fields. Change codes
+ * that don't touch bank details (C04 name, C09 individual id, ...) return null.
+ */
+export function parseNOCCorrection(changeCode: string, correctedData: string): NACHABankDetailCorrection | null {
+  const data = correctedData.padEnd(29)
+  const routing = data.substring(0, 9).trim()
+  switch (changeCode) {
+    case 'C01':
+      return { account_number: data.substring(0, 17).trim() }
+    case 'C02':
+      return { routing_number: routing }
+    case 'C03':
+      return { routing_number: routing, account_number: data.substring(12, 29).trim() }
+    case 'C05':
+      return { account_type: accountTypeFromTransactionCode(data.substring(0, 2)) }
+    case 'C06':
+      return {
+        account_number: data.substring(0, 17).trim(),
+        account_type: accountTypeFromTransactionCode(data.substring(20, 22)),
+      }
+    case 'C07':
+      return {
+        routing_number: routing,
+        account_number: data.substring(9, 26).trim(),
+        account_type: accountTypeFromTransactionCode(data.substring(26, 28)),
+      }
+    default:
+      return null
+  }
+}
+
 // ============================================================================
 // UNIVERSAL PARSE ENTRY POINT
 // ============================================================================
@@ -0,0 +1,115 @@
+// SERVICE_ID: SVC_FISCAL_YEAR
+// Soledgic: fiscal years and year-end close
+// A ledger's fiscal year starts in the month given by
+// settings.fiscal_year_start (a month number or the 'MM-DD' string
+// create-ledger stores; default January) and is named by the calendar year
+// it ends in, so with a July start FY2026 runs 2025-07-01 to 2026-06-30.
+// close-period posts the closing entries through close_fiscal_year_books
+// before locking the year, and the balance sheet and P&L use the same
+// bounds to split current-year income from retained earnings.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FiscalYearBounds {
+  fiscal_year: number
+  start_date: string
+  end_date: string
+}
+
+export interface FiscalYearClosePosting {
+  transaction_id: string | null
+  retained_earnings_account_id: string | null
+  net_income: number
+  accounts_closed: number
+  created: boolean
+}
+
+// ============================================================================
+// BOUNDS
+// ============================================================================
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`
+}
+
+/** First month of the ledger's fiscal year (1-12). */
+export function getFiscalYearStartMonth(settings: unknown): number {
+  const value = settings && typeof settings === 'object'
+    ? (settings as Record<string, unknown>).fiscal_year_start
+    : undefined
+
+  const month = typeof value === 'number'
+    ? value
+    : typeof value === 'string' && /^\d{1,2}(-\d{1,2})?$/.test(value.trim())
+      ? parseInt(value.trim().split('-')[0], 10)
+      : NaN
+
+  return Number.isInteger(month) && month >= 1 && month <= 12 ? month : 1
+}
+
+export function fiscalYearBounds(fiscalYear: number, startMonth: number): FiscalYearBounds {
+  const startYear = startMonth === 1 ? fiscalYear : fiscalYear - 1
+  const endMonth = startMonth === 1 ? 12 : startMonth - 1
+  const lastDay = new Date(Date.UTC(fiscalYear, endMonth, 0)).getUTCDate()
+
+  return {
+    fiscal_year: fiscalYear,
+    start_date: isoDate(startYear, startMonth, 1),
+    end_date: isoDate(fiscalYear, endMonth, lastDay),
+  }
+}
+
+/** The fiscal year a YYYY-MM-DD date falls in. */
+export function fiscalYearForDate(date: string, startMonth: number): number {
+  const [year, month] = date.split('-').map((part) => parseInt(part, 10))
+  return startMonth !== 1 && month >= startMonth ? year + 1 : year
+}
+
+/** The last day of the fiscal year before the one a date falls in. */
+export function priorFiscalYearEnd(date: string, startMonth: number): string {
+  return fiscalYearBounds(fiscalYearForDate(date, startMonth) - 1, startMonth).end_date
+}
+
+// ============================================================================
+// POSTING
+// ============================================================================
+
+/**
+ * Post the closing entries for a fiscal year. Unlike most posting helpers
+ * this fails the caller: the year must not be locked without them.
+ * Idempotent, so a close retried after a failed lock reuses the posting.
+ */
+export async function postFiscalYearClose(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  bounds: FiscalYearBounds,
+  requestId: string,
+): Promise<{ posting?: FiscalYearClosePosting; error?: string }> {
+  const { data, error } = await supabase.rpc('close_fiscal_year_books', {
+    p_ledger_id: ledgerId,
+    p_fiscal_year: bounds.fiscal_year,
+    p_period_start: bounds.start_date,
+    p_period_end: bounds.end_date,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to post closing entries for FY${bounds.fiscal_year}:`, error)
+    return { error: 'Failed to post closing entries' }
+  }
+
+  const row = Array.isArray(data) ? data[0] : data
+
+  return {
+    posting: {
+      transaction_id: row?.out_transaction_id ?? null,
+      retained_earnings_account_id: row?.out_retained_earnings_account_id ?? null,
+      net_income: Number(row?.out_net_income ?? 0),
+      accounts_closed: Number(row?.out_accounts_closed ?? 0),
+      created: Boolean(row?.out_created),
+    },
+  }
+}
@@ -0,0 +1,665 @@
+// SERVICE_ID: SVC_FIXED_ASSETS
+// Soledgic: fixed asset register and depreciation schedules
+// register_fixed_asset books an asset's cost to Fixed Assets and lays out one
+// depreciation line per month of its useful life (straight-line or declining
+// balance). The run-depreciation cron posts due lines as 'depreciation'
+// adjustments into Accumulated Depreciation, and dispose_fixed_asset posts
+// the gain or loss against net book value. The schedule report rolls book
+// value forward over a period from the same lines.
+// Amounts are minor units (cents) at the API and major units in storage.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+import { fiscalYearBounds, fiscalYearForDate, getFiscalYearStartMonth } from './fiscal-year-service.ts'
+
+// ============================================================================
+// TYPES AND CONSTANTS
+// ============================================================================
+
+export const DEPRECIATION_METHODS = ['straight_line', 'declining_balance'] as const
+export type DepreciationMethod = typeof DEPRECIATION_METHODS[number]
+
+export const FIXED_ASSET_STATUSES = ['active', 'fully_depreciated', 'disposed'] as const
+
+/** Accounts that can pay for an asset when it is registered. */
+export const FUNDING_ACCOUNT_TYPES = ['cash', 'accounts_payable', 'owner_equity'] as const
+
+/** Accounts that can receive disposal proceeds. */
+export const PROCEEDS_ACCOUNT_TYPES = ['cash', 'accounts_receivable'] as const
+
+export const MAX_USEFUL_LIFE_MONTHS = 600
+const DEFAULT_DECLINING_FACTOR = 2
+const MAX_DECLINING_FACTOR = 4
+
+export interface FixedAssetInput {
+  name: string
+  category: string | null
+  description: string | null
+  /** Minor units */
+  cost: number
+  /** Minor units */
+  salvage_value: number
+  acquisition_date: string
+  useful_life_months: number
+  method: DepreciationMethod
+  /** Declining balance only */
+  declining_factor: number | null
+  funding_account_type: typeof FUNDING_ACCOUNT_TYPES[number]
+}
+
+export interface FixedAssetDisposalInput {
+  disposal_date: string
+  /** Minor units */
+  proceeds: number
+  proceeds_account_type: typeof PROCEEDS_ACCOUNT_TYPES[number]
+}
+
+/** One asset's roll-forward over a schedule period, in minor units. */
+export interface DepreciationScheduleAsset {
+  asset_id: string
+  name: string
+  category: string | null
+  method: DepreciationMethod
+  status: string
+  opening_book_value: number
+  additions: number
+  depreciation: number
+  depreciation_posted: number
+  disposals: number
+  closing_book_value: number
+}
+
+export interface DepreciationScheduleReport {
+  start_date: string
+  end_date: string
+  assets: DepreciationScheduleAsset[]
+  months: Array<{ month: string; depreciation: number }>
+  totals: {
+    opening_book_value: number
+    additions: number
+    depreciation: number
+    disposals: number
+    closing_book_value: number
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) &&
+    new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)
+}
+
+function optionalText(value: unknown, maxLength: number): string | null | undefined {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') return undefined
+  return validateString(value.trim(), maxLength) || undefined
+}
+
+export function validateFixedAsset(
+  value: Record<string, unknown>,
+  today: string,
+): { asset?: FixedAssetInput; error?: string } {
+  const name = typeof value.name === 'string' ? validateString(value.name.trim(), 200) : null
+  if (!name) return { error: 'name is required' }
+
+  const category = optionalText(value.category, 100)
+  if (category === undefined) return { error: 'category must be a string of at most 100 characters' }
+
+  const description = optionalText(value.description, 1000)
+  if (description === undefined) return { error: 'description must be a string of at most 1000 characters' }
+
+  const cost = value.cost
+  if (typeof cost !== 'number' || !Number.isInteger(cost) || cost <= 0) {
+    return { error: 'cost must be a positive integer in cents' }
+  }
+
+  const salvageValue = value.salvage_value ?? 0
+  if (typeof salvageValue !== 'number' || !Number.isInteger(salvageValue) || salvageValue < 0) {
+    return { error: 'salvage_value must be a non-negative integer in cents' }
+  }
+  if (salvageValue >= cost) return { error: 'salvage_value must be less than cost' }
+
+  const acquisitionDate = value.acquisition_date ?? today
+  if (!isIsoDate(acquisitionDate)) return { error: 'acquisition_date must be YYYY-MM-DD' }
+  if (acquisitionDate > today) return { error: 'acquisition_date cannot be in the future' }
+
+  const life = value.useful_life_months
+  if (typeof life !== 'number' || !Number.isInteger(life) || life < 1 || life > MAX_USEFUL_LIFE_MONTHS) {
+    return { error: `useful_life_months must be an integer from 1 to ${MAX_USEFUL_LIFE_MONTHS}` }
+  }
+
+  const method = value.method ?? 'straight_line'
+  if (!(DEPRECIATION_METHODS as readonly unknown[]).includes(method)) {
+    return { error: `method must be one of: ${DEPRECIATION_METHODS.join(', ')}` }
+  }
+
+  let decliningFactor: number | null = null
+  if (method === 'declining_balance') {
+    const factor = value.declining_factor ?? DEFAULT_DECLINING_FACTOR
+    if (typeof factor !== 'number' || !Number.isFinite(factor) || factor <= 1 || factor > MAX_DECLINING_FACTOR) {
+      return { error: `declining_factor must be greater than 1 and at most ${MAX_DECLINING_FACTOR}` }
+    }
+    decliningFactor = Math.round(factor * 100) / 100
+  } else if (value.declining_factor !== undefined) {
+    return { error: 'declining_factor only applies to declining_balance assets' }
+  }
+
+  const fundingAccountType = value.funding_account_type ?? 'cash'
+  if (!(FUNDING_ACCOUNT_TYPES as readonly unknown[]).includes(fundingAccountType)) {
+    return { error: `funding_account_type must be one of: ${FUNDING_ACCOUNT_TYPES.join(', ')}` }
+  }
+
+  return {
+    asset: {
+      name,
+      category,
+      description,
+      cost,
+      salvage_value: salvageValue,
+      acquisition_date: acquisitionDate,
+      useful_life_months: life,
+      method: method as DepreciationMethod,
+      declining_factor: decliningFactor,
+      funding_account_type: fundingAccountType as FixedAssetInput['funding_account_type'],
+    },
+  }
+}
+
+export function validateFixedAssetDisposal(
+  value: Record<string, unknown>,
+  acquisitionDate: string,
+  today: string,
+): { disposal?: FixedAssetDisposalInput; error?: string } {
+  const disposalDate = value.disposal_date ?? today
+  if (!isIsoDate(disposalDate)) return { error: 'disposal_date must be YYYY-MM-DD' }
+  if (disposalDate > today) return { error: 'disposal_date cannot be in the future' }
+  if (disposalDate < acquisitionDate) return { error: 'disposal_date cannot be before the acquisition date' }
+
+  const proceeds = value.proceeds ?? 0
+  if (typeof proceeds !== 'number' || !Number.isInteger(proceeds) || proceeds < 0) {
+    return { error: 'proceeds must be a non-negative integer in cents' }
+  }
+
+  const proceedsAccountType = value.proceeds_account_type ?? 'cash'
+  if (!(PROCEEDS_ACCOUNT_TYPES as readonly unknown[]).includes(proceedsAccountType)) {
+    return { error: `proceeds_account_type must be one of: ${PROCEEDS_ACCOUNT_TYPES.join(', ')}` }
+  }
+
+  return {
+    disposal: {
+      disposal_date: disposalDate,
+      proceeds,
+      proceeds_account_type: proceedsAccountType as FixedAssetDisposalInput['proceeds_account_type'],
+    },
+  }
+}
+
+// ============================================================================
+// MAPPING AND LOADING
+// ============================================================================
+
+function toCents(value: unknown): number {
+  return Math.round(Number(value || 0) * 100)
+}
+
+function mapAsset(row: any) {
+  const cost = toCents(row.cost)
+  const accumulated = toCents(row.accumulated_depreciation)
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category ?? null,
+    description: row.description ?? null,
+    currency: row.currency,
+    cost,
+    salvage_value: toCents(row.salvage_value),
+    acquisition_date: row.acquisition_date,
+    useful_life_months: Number(row.useful_life_months),
+    method: row.method,
+    declining_factor: row.declining_factor === null || row.declining_factor === undefined
+      ? null
+      : Number(row.declining_factor),
+    funding_account_type: row.funding_account_type,
+    accumulated_depreciation: accumulated,
+    net_book_value: row.status === 'disposed' ? 0 : cost - accumulated,
+    status: row.status,
+    acquisition_transaction_id: row.acquisition_transaction_id ?? null,
+    last_depreciated_on: row.last_depreciated_on ?? null,
+    last_error: row.last_error ?? null,
+    disposal_date: row.disposal_date ?? null,
+    disposal_proceeds: row.disposal_proceeds === null || row.disposal_proceeds === undefined
+      ? null
+      : toCents(row.disposal_proceeds),
+    disposal_gain_loss: row.disposal_gain_loss === null || row.disposal_gain_loss === undefined
+      ? null
+      : toCents(row.disposal_gain_loss),
+    disposal_transaction_id: row.disposal_transaction_id ?? null,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+function mapLine(row: any) {
+  return {
+    line_number: Number(row.line_number),
+    depreciate_on: row.depreciate_on,
+    amount: toCents(row.amount),
+    book_value_after: toCents(row.book_value_after),
+    status: row.status,
+    posted_at: row.posted_at ?? null,
+    transaction_id: row.transaction_id ?? null,
+  }
+}
+
+async function loadAsset(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  assetIdRaw: string,
+): Promise<{ asset?: any; error?: ResourceResult }> {
+  const assetId = validateUUID(assetIdRaw)
+  if (!assetId) {
+    return { error: resourceError('asset_id must be a UUID', 400, {}, 'invalid_asset_id') }
+  }
+
+  const { data: asset } = await supabase
+    .from('fixed_assets')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', assetId)
+    .maybeSingle()
+
+  if (!asset) {
+    return { error: resourceError('Fixed asset not found', 404, {}, 'fixed_asset_not_found') }
+  }
+  return { asset }
+}
+
+/** Map an RPC exception to an HTTP status; anything unexpected is a 500. */
+function fixedAssetErrorStatus(message: string): number {
+  if (/closed period|locked period|already been disposed/i.test(message)) return 409
+  if (/not found|invalid/i.test(message)) return 400
+  return 500
+}
+
+// ============================================================================
+// SCHEDULE REPORT
+// ============================================================================
+
+/**
+ * Roll each asset's book value forward from startDate to endDate (inclusive)
+ * using its depreciation lines. Depreciation counts every line dated in the
+ * period that has not been canceled, so months still to come are projected;
+ * depreciation_posted is the part already on the books. An asset disposed in
+ * the period leaves through disposals at its book value on that date.
+ */
+export function buildDepreciationSchedule(
+  assets: any[],
+  lines: any[],
+  startDate: string,
+  endDate: string,
+): DepreciationScheduleReport {
+  const linesByAsset = new Map<string, any[]>()
+  for (const line of lines) {
+    if (line.status === 'canceled') continue
+    const assetLines = linesByAsset.get(line.asset_id) || []
+    assetLines.push(line)
+    linesByAsset.set(line.asset_id, assetLines)
+  }
+
+  const months = new Map<string, number>()
+  const rows: DepreciationScheduleAsset[] = []
+
+  for (const asset of assets) {
+    if (asset.acquisition_date > endDate) continue
+    if (asset.disposal_date && asset.disposal_date < startDate) continue
+
+    const cost = toCents(asset.cost)
+    let before = 0
+    let depreciation = 0
+    let posted = 0
+
+    for (const line of linesByAsset.get(asset.id) || []) {
+      const amount = toCents(line.amount)
+      if (line.depreciate_on < startDate) {
+        before += amount
+      } else if (line.depreciate_on <= endDate) {
+        depreciation += amount
+        if (line.status === 'posted') posted += amount
+        const month = String(line.depreciate_on).slice(0, 7)
+        months.set(month, (months.get(month) || 0) + amount)
+      }
+    }
+
+    const acquiredInPeriod = asset.acquisition_date >= startDate
+    const opening = acquiredInPeriod ? 0 : cost - before
+    const additions = acquiredInPeriod ? cost : 0
+    const disposedInPeriod = asset.status === 'disposed' && asset.disposal_date && asset.disposal_date <= endDate
+    const disposals = disposedInPeriod ? opening + additions - depreciation : 0
+
+    rows.push({
+      asset_id: asset.id,
+      name: asset.name,
+      category: asset.category ?? null,
+      method: asset.method,
+      status: asset.status,
+      opening_book_value: opening,
+      additions,
+      depreciation,
+      depreciation_posted: posted,
+      disposals,
+      closing_book_value: opening + additions - depreciation - disposals,
+    })
+  }
+
+  const sum = (key: keyof DepreciationScheduleAsset) =>
+    rows.reduce((total, row) => total + (row[key] as number), 0)
+
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    assets: rows,
+    months: [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, amount]) => ({ month, depreciation: amount })),
+    totals: {
+      opening_book_value: sum('opening_book_value'),
+      additions: sum('additions'),
+      depreciation: sum('depreciation'),
+      disposals: sum('disposals'),
+      closing_book_value: sum('closing_book_value'),
+    },
+  }
+}
+
+/** GET /fixed-assets/schedule; defaults to the fiscal year containing today. */
+export async function getDepreciationScheduleResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: { start_date?: string; end_date?: string },
+  _requestId: string,
+): Promise<ResourceResult> {
+  const today = new Date().toISOString().split('T')[0]
+  const startMonth = getFiscalYearStartMonth(ledger.settings)
+  const fiscalYear = fiscalYearBounds(fiscalYearForDate(today, startMonth), startMonth)
+
+  const startDate = filters.start_date ?? fiscalYear.start_date
+  const endDate = filters.end_date ?? fiscalYear.end_date
+  if (!isIsoDate(startDate) || !isIsoDate(endDate)) {
+    return resourceError('start_date and end_date must be YYYY-MM-DD', 400, {}, 'invalid_schedule_period')
+  }
+  if (endDate < startDate) {
+    return resourceError('end_date must be on or after start_date', 400, {}, 'invalid_schedule_period')
+  }
+
+  const { data: assets, error: assetsError } = await supabase
+    .from('fixed_assets')
+    .select('id, name, category, method, status, cost, acquisition_date, disposal_date')
+    .eq('ledger_id', ledger.id)
+    .lte('acquisition_date', endDate)
+    .order('acquisition_date', { ascending: true })
+
+  if (assetsError) {
+    console.error('Failed to load fixed assets for schedule:', assetsError)
+    return resourceError('Failed to build depreciation schedule', 500, {}, 'depreciation_schedule_failed')
+  }
+
+  const assetIds = (assets || []).map((asset: any) => asset.id)
+  let lines: any[] = []
+  if (assetIds.length > 0) {
+    const { data, error } = await supabase
+      .from('fixed_asset_depreciation_lines')
+      .select('asset_id, depreciate_on, amount, status')
+      .eq('ledger_id', ledger.id)
+      .in('asset_id', assetIds)
+      .neq('status', 'canceled')
+      .lte('depreciate_on', endDate)
+
+    if (error) {
+      console.error('Failed to load depreciation lines for schedule:', error)
+      return resourceError('Failed to build depreciation schedule', 500, {}, 'depreciation_schedule_failed')
+    }
+    lines = data || []
+  }
+
+  return resourceOk({
+    success: true,
+    schedule: buildDepreciationSchedule(assets || [], lines, startDate, endDate),
+  })
+}
+
+// ============================================================================
+// ASSETS
+// ============================================================================
+
+export async function listFixedAssetsResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: { status?: string; category?: string; limit?: number },
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 100), 1), 500)
+
+  let query = supabase
+    .from('fixed_assets')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.status) {
+    if (!(FIXED_ASSET_STATUSES as readonly string[]).includes(filters.status)) {
+      return resourceError(
+        `status must be one of: ${FIXED_ASSET_STATUSES.join(', ')}`,
+        400,
+        {},
+        'invalid_fixed_asset_status',
+      )
+    }
+    query = query.eq('status', filters.status)
+  }
+  if (filters.category) {
+    query = query.eq('category', filters.category)
+  }
+
+  const { data, error } = await query
+    .order('acquisition_date', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list fixed assets:', error)
+    return resourceError('Failed to list fixed assets', 500, {}, 'fixed_assets_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    assets: (data || []).map(mapAsset),
+  })
+}
+
+/** Register an asset, book its cost and post any depreciation already due. */
+export async function createFixedAssetResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const today = new Date().toISOString().split('T')[0]
+  const validated = validateFixedAsset(body, today)
+  if (validated.error) {
+    return resourceError(validated.error, 400, {}, 'invalid_fixed_asset')
+  }
+  const asset = validated.asset!
+
+  const { data, error } = await supabase.rpc('register_fixed_asset', {
+    p_ledger_id: ledger.id,
+    p_name: asset.name,
+    p_category: asset.category,
+    p_description: asset.description,
+    p_cost: asset.cost / 100,
+    p_salvage_value: asset.salvage_value / 100,
+    p_acquisition_date: asset.acquisition_date,
+    p_useful_life_months: asset.useful_life_months,
+    p_method: asset.method,
+    p_declining_factor: asset.declining_factor,
+    p_funding_account_type: asset.funding_account_type,
+    p_metadata: {},
+  })
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (error || !row) {
+    const message = error?.message || 'Failed to register fixed asset'
+    const status = fixedAssetErrorStatus(message)
+    if (status === 500) console.error(`[${requestId}] register_fixed_asset failed:`, error)
+    return resourceError(
+      status === 500 ? 'Failed to register fixed asset' : message,
+      status,
+      {},
+      'fixed_asset_create_failed',
+    )
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'fixed_asset_registered',
+    entity_type: 'fixed_asset',
+    entity_id: row.out_asset_id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      cost: asset.cost,
+      salvage_value: asset.salvage_value,
+      acquisition_date: asset.acquisition_date,
+      useful_life_months: asset.useful_life_months,
+      method: asset.method,
+      funding_account_type: asset.funding_account_type,
+      lines_posted: row.out_lines_posted,
+    }),
+    response_status: 201,
+    risk_score: 20,
+  }, requestId)
+
+  return getFixedAssetResponse(req, supabase, ledger, row.out_asset_id, requestId, 201)
+}
+
+/** An asset with its full depreciation schedule. */
+export async function getFixedAssetResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  assetIdRaw: string,
+  _requestId: string,
+  status = 200,
+): Promise<ResourceResult> {
+  const loaded = await loadAsset(supabase, ledger.id, assetIdRaw)
+  if (loaded.error) return loaded.error
+
+  const { data: lines, error } = await supabase
+    .from('fixed_asset_depreciation_lines')
+    .select('line_number, depreciate_on, amount, book_value_after, status, posted_at, transaction_id')
+    .eq('asset_id', loaded.asset.id)
+    .order('line_number', { ascending: true })
+
+  if (error) {
+    console.error('Failed to load depreciation lines:', error)
+    return resourceError('Failed to load fixed asset', 500, {}, 'fixed_asset_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    asset: mapAsset(loaded.asset),
+    lines: (lines || []).map(mapLine),
+  }, status)
+}
+
+/** POST /fixed-assets/:id/dispose */
+export async function disposeFixedAssetResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  assetIdRaw: string,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadAsset(supabase, ledger.id, assetIdRaw)
+  if (loaded.error) return loaded.error
+  const asset = loaded.asset
+
+  if (asset.status === 'disposed') {
+    return resourceError('Fixed asset has already been disposed', 409, {}, 'fixed_asset_already_disposed')
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+  const validated = validateFixedAssetDisposal(body, asset.acquisition_date, today)
+  if (validated.error) {
+    return resourceError(validated.error, 400, {}, 'invalid_fixed_asset_disposal')
+  }
+  const disposal = validated.disposal!
+
+  const { data, error } = await supabase.rpc('dispose_fixed_asset', {
+    p_ledger_id: ledger.id,
+    p_asset_id: asset.id,
+    p_disposal_date: disposal.disposal_date,
+    p_proceeds: disposal.proceeds / 100,
+    p_proceeds_account_type: disposal.proceeds_account_type,
+  })
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (error || !row) {
+    const message = error?.message || 'Failed to dispose of fixed asset'
+    const status = fixedAssetErrorStatus(message)
+    if (status === 500) console.error(`[${requestId}] dispose_fixed_asset failed:`, error)
+    return resourceError(
+      status === 500 ? 'Failed to dispose of fixed asset' : message,
+      status,
+      {},
+      'fixed_asset_dispose_failed',
+    )
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'fixed_asset_disposed',
+    entity_type: 'fixed_asset',
+    entity_id: asset.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      disposal_date: disposal.disposal_date,
+      proceeds: disposal.proceeds,
+      proceeds_account_type: disposal.proceeds_account_type,
+      gain_loss: toCents(row.out_gain_loss),
+    }),
+    response_status: 200,
+    risk_score: 30,
+  }, requestId)
+
+  const result = await getFixedAssetResponse(req, supabase, ledger, asset.id, requestId)
+  if (result.status !== 200) return result
+
+  return resourceOk({
+    ...result.body,
+    disposal: {
+      transaction_id: row.out_transaction_id,
+      accumulated_depreciation: toCents(row.out_accumulated_depreciation),
+      net_book_value: toCents(row.out_net_book_value),
+      proceeds: disposal.proceeds,
+      gain_loss: toCents(row.out_gain_loss),
+    },
+  })
+}
@@ -0,0 +1,523 @@
+// SERVICE_ID: SVC_FX_RATES
+// Soledgic: FX rate table and pluggable rate sources
+// Rates are effective-dated per ledger (1 base = rate quote). Any service that
+// converts into the functional currency resolves rates through an FxRateSource
+// and must refuse to post when none exists — never assume 1:1.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+import {
+  getFunctionalCurrency,
+  normalizeCurrency,
+  resolveTransactionCurrency,
+  type TransactionCurrencyResolution,
+  validateFxRate,
+} from './currency.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FxRateFormat = 'csv' | 'ecb_xml'
+export type FxRateLookupMethod = 'identity' | 'direct' | 'inverse' | 'cross' | 'explicit'
+
+export interface FxRateInput {
+  base_currency: string
+  quote_currency: string
+  rate: number
+  effective_date: string
+}
+
+export interface FxRateQuote {
+  rate: number
+  effective_date: string
+  method: FxRateLookupMethod
+  source: string | null
+}
+
+export interface FxRateParseResult {
+  rates: FxRateInput[]
+  skipped: number
+  errors: string[]
+}
+
+/** A place rates come from. The ledger's own rate table is the only built-in source. */
+export interface FxRateSource {
+  readonly name: string
+  getRate(fromCurrency: string, toCurrency: string, onDate: string): Promise<FxRateQuote | null>
+}
+
+export interface FxRatesQueryRequest {
+  base_currency?: string
+  quote_currency?: string
+  from_date?: string
+  to_date?: string
+  limit?: number
+}
+
+export interface FxRateLookupRequest {
+  from?: string
+  to?: string
+  date?: string
+}
+
+const MAX_IMPORT_ROWS = 5000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+// ============================================================================
+// RATE SOURCES
+// ============================================================================
+
+class RateTableFxRateSource implements FxRateSource {
+  readonly name = 'rate_table'
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly ledgerId: string,
+  ) {}
+
+  async getRate(fromCurrency: string, toCurrency: string, onDate: string): Promise<FxRateQuote | null> {
+    const { data, error } = await this.supabase.rpc('get_fx_rate', {
+      p_ledger_id: this.ledgerId,
+      p_from_currency: fromCurrency,
+      p_to_currency: toCurrency,
+      p_date: onDate,
+    })
+
+    if (error) {
+      console.error('FX rate lookup failed:', error)
+      return null
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row || row.out_rate === null || row.out_rate === undefined) return null
+
+    return {
+      rate: Number(row.out_rate),
+      effective_date: String(row.out_effective_date),
+      method: row.out_method as FxRateLookupMethod,
+      source: row.out_source ?? null,
+    }
+  }
+}
+
+export function getFxRateSource(supabase: SupabaseClient, ledger: Pick<LedgerContext, 'id'>): FxRateSource {
+  const configured = (Deno.env.get('FX_RATE_SOURCE') || 'rate_table').toLowerCase().trim()
+  if (configured !== 'rate_table') {
+    console.warn(`Unknown FX_RATE_SOURCE "${configured}", falling back to rate_table`)
+  }
+  return new RateTableFxRateSource(supabase, ledger.id)
+}
+
+export type PostingCurrencyResult =
+  | { ok: true; value: TransactionCurrencyResolution & { rate_effective_date: string | null } }
+  | { ok: false; error: string; error_code: string; status: number }
+
+/**
+ * Resolve currency + rate for a posting. An explicit fx_rate wins; otherwise
+ * the rate source is consulted for `onDate`. A foreign amount with no rate is
+ * refused with `fx_rate_missing`.
+ */
+export async function resolvePostingCurrency(
+  source: FxRateSource,
+  ledger: Pick<LedgerContext, 'settings'>,
+  rawCurrency: unknown,
+  rawFxRate: unknown,
+  onDate: string = today(),
+): Promise<PostingCurrencyResult> {
+  const resolved = resolveTransactionCurrency(ledger, rawCurrency, rawFxRate)
+  if (resolved.ok) {
+    return { ok: true, value: { ...resolved.value, rate_effective_date: null } }
+  }
+
+  if (resolved.error_code !== 'fx_rate_required') {
+    return { ok: false, error: resolved.error, error_code: resolved.error_code, status: 400 }
+  }
+
+  const currency = normalizeCurrency(rawCurrency)!
+  const functionalCurrency = getFunctionalCurrency(ledger)
+  const quote = await source.getRate(currency, functionalCurrency, onDate)
+  if (!quote) {
+    return {
+      ok: false,
+      error: `No FX rate on file for ${currency} -> ${functionalCurrency} on ${onDate}`,
+      error_code: 'fx_rate_missing',
+      status: 422,
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      currency,
+      functional_currency: functionalCurrency,
+      fx_rate: quote.rate,
+      is_foreign: true,
+      rate_effective_date: quote.effective_date,
+    },
+  }
+}
+
+// ============================================================================
+// PARSERS
+// ============================================================================
+
+export function detectFxRateFormat(content: string): FxRateFormat {
+  const trimmed = content.trimStart()
+  return trimmed.startsWith('<') ? 'ecb_xml' : 'csv'
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'))
+}
+
+/**
+ * CSV with a header row. Recognised columns:
+ * effective_date|date, base_currency|base, quote_currency|quote, rate
+ */
+export function parseFxRatesCsv(content: string): FxRateParseResult {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0)
+  const result: FxRateParseResult = { rates: [], skipped: 0, errors: [] }
+  if (lines.length === 0) {
+    result.errors.push('CSV is empty')
+    return result
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ','
+  const headers = splitCsvLine(lines[0], delimiter).map((header) => header.toLowerCase())
+  const column = (...names: string[]) => headers.findIndex((header) => names.includes(header))
+
+  const dateCol = column('effective_date', 'date')
+  const baseCol = column('base_currency', 'base')
+  const quoteCol = column('quote_currency', 'quote')
+  const rateCol = column('rate')
+
+  if (dateCol < 0 || baseCol < 0 || quoteCol < 0 || rateCol < 0) {
+    result.errors.push('CSV header must include effective_date, base_currency, quote_currency and rate')
+    return result
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const cells = splitCsvLine(lines[i], delimiter)
+    const effectiveDate = cells[dateCol]
+    const base = (cells[baseCol] || '').toUpperCase()
+    const quote = (cells[quoteCol] || '').toUpperCase()
+    const rate = Number(cells[rateCol])
+
+    if (!isValidDate(effectiveDate) || validateFxRate(rate) === null || !/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote)) {
+      result.errors.push(`Row ${i + 1}: invalid rate row`)
+      continue
+    }
+
+    if (!normalizeCurrency(base) || !normalizeCurrency(quote) || base === quote) {
+      result.skipped++
+      continue
+    }
+
+    result.rates.push({ base_currency: base, quote_currency: quote, rate, effective_date: effectiveDate })
+  }
+
+  return result
+}
+
+/**
+ * ECB eurofxref layout: <Cube time="YYYY-MM-DD"><Cube currency="USD" rate="1.08"/>...</Cube>.
+ * Rates are quoted against `baseCurrency` (EUR for the ECB feed itself).
+ */
+export function parseEcbXml(content: string, baseCurrency = 'EUR'): FxRateParseResult {
+  const result: FxRateParseResult = { rates: [], skipped: 0, errors: [] }
+  const base = baseCurrency.toUpperCase()
+  const dayPattern = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/gi
+  const ratePattern = /<Cube\s+currency=["']([A-Za-z]{3})["']\s+rate=["']([0-9.]+)["']\s*\/>/gi
+
+  for (const day of content.matchAll(dayPattern)) {
+    const effectiveDate = day[1]
+    for (const entry of day[2].matchAll(ratePattern)) {
+      const quote = entry[1].toUpperCase()
+      const rate = Number(entry[2])
+
+      if (validateFxRate(rate) === null) {
+        result.errors.push(`${effectiveDate} ${quote}: invalid rate`)
+        continue
+      }
+
+      if (!normalizeCurrency(quote) || !normalizeCurrency(base) || quote === base) {
+        result.skipped++
+        continue
+      }
+
+      result.rates.push({ base_currency: base, quote_currency: quote, rate, effective_date: effectiveDate })
+    }
+  }
+
+  if (result.rates.length === 0 && result.skipped === 0 && result.errors.length === 0) {
+    result.errors.push('No <Cube time="..."> rate blocks found')
+  }
+
+  return result
+}
+
+// ============================================================================
+// RESOURCE HANDLERS
+// ============================================================================
+
+function mapRateRow(row: any) {
+  return {
+    id: row.id,
+    base_currency: row.base_currency,
+    quote_currency: row.quote_currency,
+    rate: Number(row.rate),
+    effective_date: row.effective_date,
+    source: row.source,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+async function storeRates(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  rates: FxRateInput[],
+  source: 'api' | 'csv' | 'ecb_xml',
+  importBatchId: string | null,
+): Promise<{ stored: number; error: any }> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .upsert(rates.map((rate) => ({
+      ledger_id: ledgerId,
+      base_currency: rate.base_currency,
+      quote_currency: rate.quote_currency,
+      rate: rate.rate,
+      effective_date: rate.effective_date,
+      source,
+      import_batch_id: importBatchId,
+      updated_at: now,
+    })), { onConflict: 'ledger_id,base_currency,quote_currency,effective_date' })
+    .select('id')
+
+  return { stored: Array.isArray(data) ? data.length : 0, error }
+}
+
+export async function listFxRatesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: FxRatesQueryRequest,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(body.limit || 100), 1), 500)
+
+  let query = supabase
+    .from('fx_rates')
+    .select('id, base_currency, quote_currency, rate, effective_date, source, created_at, updated_at')
+    .eq('ledger_id', ledger.id)
+
+  if (body.base_currency) {
+    const base = normalizeCurrency(body.base_currency)
+    if (!base) return resourceError('Invalid base_currency', 400, {}, 'invalid_currency')
+    query = query.eq('base_currency', base)
+  }
+  if (body.quote_currency) {
+    const quote = normalizeCurrency(body.quote_currency)
+    if (!quote) return resourceError('Invalid quote_currency', 400, {}, 'invalid_currency')
+    query = query.eq('quote_currency', quote)
+  }
+  if (body.from_date) {
+    if (!isValidDate(body.from_date)) return resourceError('Invalid from_date. Use YYYY-MM-DD', 400, {}, 'invalid_date')
+    query = query.gte('effective_date', body.from_date)
+  }
+  if (body.to_date) {
+    if (!isValidDate(body.to_date)) return resourceError('Invalid to_date. Use YYYY-MM-DD', 400, {}, 'invalid_date')
+    query = query.lte('effective_date', body.to_date)
+  }
+
+  const { data, error } = await query
+    .order('effective_date', { ascending: false })
+    .order('base_currency')
+    .order('quote_currency')
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list FX rates:', error)
+    return resourceError('Failed to list FX rates', 500, {}, 'fx_rates_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    functional_currency: getFunctionalCurrency(ledger),
+    rates: (data || []).map(mapRateRow),
+  })
+}
+
+export async function lookupFxRateResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: FxRateLookupRequest,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const functionalCurrency = getFunctionalCurrency(ledger)
+  const from = normalizeCurrency(body.from)
+  const to = body.to ? normalizeCurrency(body.to) : functionalCurrency
+  if (!from || !to) {
+    return resourceError('from and to must be supported currency codes', 400, {}, 'invalid_currency')
+  }
+
+  const onDate = body.date || today()
+  if (!isValidDate(onDate)) {
+    return resourceError('Invalid date. Use YYYY-MM-DD', 400, {}, 'invalid_date')
+  }
+
+  const source = getFxRateSource(supabase, ledger)
+  const quote = await source.getRate(from, to, onDate)
+  if (!quote) {
+    return resourceError(`No FX rate on file for ${from} -> ${to} on ${onDate}`, 404, {}, 'fx_rate_missing')
+  }
+
+  return resourceOk({
+    success: true,
+    from,
+    to,
+    date: onDate,
+    rate: quote.rate,
+    effective_date: quote.effective_date,
+    method: quote.method,
+    source: quote.source,
+    rate_source: source.name,
+  })
+}
+
+export async function pushFxRatesResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: { rates?: unknown },
+  requestId: string,
+): Promise<ResourceResult> {
+  if (!Array.isArray(body.rates) || body.rates.length === 0) {
+    return resourceError('rates must be a non-empty array', 400, {}, 'invalid_rates')
+  }
+  if (body.rates.length > MAX_IMPORT_ROWS) {
+    return resourceError(`At most ${MAX_IMPORT_ROWS} rates per request`, 400, {}, 'too_many_rates')
+  }
+
+  const rates: FxRateInput[] = []
+  for (const [index, raw] of body.rates.entries()) {
+    const base = normalizeCurrency(raw?.base_currency)
+    const quote = normalizeCurrency(raw?.quote_currency)
+    const rate = validateFxRate(raw?.rate)
+    const effectiveDate = raw?.effective_date
+
+    if (!base || !quote || base === quote) {
+      return resourceError(`rates[${index}]: base_currency and quote_currency must be distinct supported currencies`, 400, {}, 'invalid_currency')
+    }
+    if (rate === null) {
+      return resourceError(`rates[${index}]: rate must be a positive number`, 400, {}, 'invalid_fx_rate')
+    }
+    if (!isValidDate(effectiveDate)) {
+      return resourceError(`rates[${index}]: effective_date must be YYYY-MM-DD`, 400, {}, 'invalid_date')
+    }
+
+    rates.push({ base_currency: base, quote_currency: quote, rate, effective_date: effectiveDate })
+  }
+
+  const { stored, error } = await storeRates(supabase, ledger.id, rates, 'api', null)
+  if (error) {
+    console.error('Failed to store FX rates:', error)
+    return resourceError('Failed to store FX rates', 500, {}, 'fx_rates_store_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'fx_rates_push',
+    entity_type: 'fx_rates',
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ count: rates.length }),
+    response_status: 200,
+    risk_score: 10,
+  }, requestId)
+
+  return resourceOk({ success: true, stored })
+}
+
+export async function importFxRatesResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: { format?: string; data?: unknown; base_currency?: string },
+  requestId: string,
+): Promise<ResourceResult> {
+  if (typeof body.data !== 'string' || body.data.trim().length === 0) {
+    return resourceError('data must be the raw file content', 400, {}, 'invalid_import')
+  }
+
+  const requested = (body.format || 'auto').toLowerCase()
+  if (!['auto', 'csv', 'ecb_xml'].includes(requested)) {
+    return resourceError('format must be one of csv, ecb_xml, auto', 400, {}, 'invalid_format')
+  }
+  const format: FxRateFormat = requested === 'auto' ? detectFxRateFormat(body.data) : requested as FxRateFormat
+
+  let baseCurrency = 'EUR'
+  if (body.base_currency !== undefined) {
+    const normalized = normalizeCurrency(body.base_currency)
+    if (!normalized) return resourceError('Invalid base_currency', 400, {}, 'invalid_currency')
+    baseCurrency = normalized
+  }
+
+  const parsed = format === 'csv' ? parseFxRatesCsv(body.data) : parseEcbXml(body.data, baseCurrency)
+
+  if (parsed.rates.length === 0) {
+    return resourceError('No importable rates found', 400, {
+      skipped: parsed.skipped,
+      errors: parsed.errors.slice(0, 50),
+    }, 'invalid_import')
+  }
+  if (parsed.rates.length > MAX_IMPORT_ROWS) {
+    return resourceError(`At most ${MAX_IMPORT_ROWS} rates per import`, 400, {}, 'too_many_rates')
+  }
+
+  const importBatchId = crypto.randomUUID()
+  const { stored, error } = await storeRates(supabase, ledger.id, parsed.rates, format, importBatchId)
+  if (error) {
+    console.error('Failed to import FX rates:', error)
+    return resourceError('Failed to import FX rates', 500, {}, 'fx_rates_store_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'fx_rates_import',
+    entity_type: 'fx_rates',
+    entity_id: importBatchId,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ format, count: parsed.rates.length, skipped: parsed.skipped }),
+    response_status: 200,
+    risk_score: 10,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    import_batch_id: importBatchId,
+    format,
+    stored,
+    skipped: parsed.skipped,
+    errors: parsed.errors.slice(0, 50),
+  })
+}
@@ -0,0 +1,660 @@
+// SERVICE_ID: SVC_GIFT_CODES
+// Soledgic: gift cards and promo codes
+// Codes are generated in batches with a denomination, currency and expiry
+// and redeemed into a customer's consumer_credit wallet (user_wallet
+// account). Gift cards are single-use stored value booked to
+// gift_card_liability when the batch is issued; what expires unredeemed is
+// recognized as breakage by the expire-gift-codes cron. Promo codes are
+// multi-use, once per customer, and expensed to platform marketing when
+// redeemed. Failed redemptions are logged and throttled per customer.
+// The RPCs link each posting in transaction_links themselves.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+import { getFunctionalCurrency, majorToMinor, minorToMajor, normalizeCurrency } from './currency.ts'
+import { recordRiskSignal } from './risk-engine.ts'
+
+// ============================================================================
+// TYPES AND CONSTANTS
+// ============================================================================
+
+export const GIFT_CODE_KINDS = ['gift_card', 'promo'] as const
+export type GiftCodeKind = typeof GIFT_CODE_KINDS[number]
+
+export const GIFT_CODE_STATUSES = ['active', 'redeemed', 'expired', 'voided'] as const
+
+export const MAX_CODES_PER_BATCH = 10000
+
+/** Failed redemptions allowed per customer inside the throttle window. */
+export const MAX_FAILED_REDEMPTIONS = 5
+export const FAILED_REDEMPTION_WINDOW_MINUTES = 15
+
+// No 0/O or 1/I: codes are read off cards and typed in by hand.
+// 32 symbols, so a random byte masked to 5 bits is unbiased.
+const GIFT_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+export interface GiftCodeBatchInput {
+  kind: GiftCodeKind
+  name: string
+  /** Minor units of currency */
+  denomination: number
+  currency: string
+  count: number
+  /** Promo only: a chosen code instead of a generated one (count must be 1) */
+  code: string | null
+  max_redemptions: number | null
+  expires_at: string | null
+  metadata: Record<string, unknown>
+}
+
+const REDEMPTION_FAILURES: Record<string, { message: string; status: number }> = {
+  not_found: { message: 'Gift code not found', status: 404 },
+  expired: { message: 'Gift code has expired', status: 409 },
+  voided: { message: 'Gift code has been voided', status: 409 },
+  already_redeemed: { message: 'Gift code has already been redeemed', status: 409 },
+  throttled: { message: 'Too many failed redemption attempts, try again later', status: 429 },
+}
+
+// ============================================================================
+// CODES
+// ============================================================================
+
+/** A random 16-character code grouped as XXXX-XXXX-XXXX-XXXX. */
+export function generateGiftCode(): string {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  const chars = Array.from(bytes, (byte) => GIFT_CODE_ALPHABET[byte & 31])
+  return [0, 4, 8, 12].map((start) => chars.slice(start, start + 4).join('')).join('-')
+}
+
+/** Upper-case and strip whitespace; null when the result is not a code. */
+export function normalizeGiftCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const code = value.replace(/\s+/g, '').toUpperCase()
+  return /^[A-Z0-9-]{4,40}$/.test(code) ? code : null
+}
+
+export function validateGiftCodeBatch(
+  value: Record<string, unknown>,
+  functionalCurrency: string,
+): { batch?: GiftCodeBatchInput; error?: string } {
+  const kind = value.kind
+  if (!(GIFT_CODE_KINDS as readonly unknown[]).includes(kind)) {
+    return { error: `kind must be one of: ${GIFT_CODE_KINDS.join(', ')}` }
+  }
+
+  const name = typeof value.name === 'string' ? validateString(value.name.trim(), 200) : null
+  if (!name) return { error: 'name is required' }
+
+  const denomination = value.denomination
+  if (typeof denomination !== 'number' || !Number.isInteger(denomination) || denomination <= 0) {
+    return { error: 'denomination must be a positive integer in minor units' }
+  }
+
+  let currency = functionalCurrency
+  if (value.currency !== undefined) {
+    const requested = normalizeCurrency(value.currency)
+    if (!requested) return { error: 'Unsupported currency' }
+    if (requested !== functionalCurrency) {
+      return { error: `currency must be the ledger's functional currency (${functionalCurrency})` }
+    }
+    currency = requested
+  }
+
+  const count = value.count ?? 1
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_CODES_PER_BATCH) {
+    return { error: `count must be an integer between 1 and ${MAX_CODES_PER_BATCH}` }
+  }
+
+  let code: string | null = null
+  if (value.code !== undefined && value.code !== null) {
+    if (kind !== 'promo') return { error: 'code can only be chosen for promo codes' }
+    if (count !== 1) return { error: 'code can only be chosen when count is 1' }
+    code = normalizeGiftCode(value.code)
+    if (!code) return { error: 'code must be 4-40 letters, digits or dashes' }
+  }
+
+  let maxRedemptions: number | null = kind === 'gift_card' ? 1 : null
+  if (value.max_redemptions !== undefined && value.max_redemptions !== null) {
+    if (kind === 'gift_card') return { error: 'Gift cards are single-use; max_redemptions is for promo codes' }
+    const max = value.max_redemptions
+    if (typeof max !== 'number' || !Number.isInteger(max) || max < 1) {
+      return { error: 'max_redemptions must be a positive integer' }
+    }
+    maxRedemptions = max
+  }
+
+  let expiresAt: string | null = null
+  if (value.expires_at !== undefined && value.expires_at !== null) {
+    const parsed = typeof value.expires_at === 'string' ? Date.parse(value.expires_at) : NaN
+    if (Number.isNaN(parsed)) return { error: 'expires_at must be an ISO 8601 timestamp' }
+    if (parsed <= Date.now()) return { error: 'expires_at must be in the future' }
+    expiresAt = new Date(parsed).toISOString()
+  }
+
+  const metadata = value.metadata ?? {}
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return { error: 'metadata must be an object' }
+  }
+
+  return {
+    batch: {
+      kind: kind as GiftCodeKind,
+      name,
+      denomination,
+      currency,
+      count,
+      code,
+      max_redemptions: maxRedemptions,
+      expires_at: expiresAt,
+      metadata: metadata as Record<string, unknown>,
+    },
+  }
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+function mapBatch(row: any) {
+  return {
+    id: row.id,
+    kind: row.kind,
+    name: row.name,
+    denomination: majorToMinor(Number(row.denomination), row.currency),
+    currency: row.currency,
+    code_count: row.code_count,
+    max_redemptions: row.max_redemptions ?? null,
+    expires_at: row.expires_at ?? null,
+    status: row.status,
+    issue_transaction_id: row.issue_transaction_id ?? null,
+    exported_at: row.exported_at ?? null,
+    voided_at: row.voided_at ?? null,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+  }
+}
+
+function mapCode(row: any) {
+  return {
+    id: row.id,
+    code: row.code,
+    status: row.status,
+    redemption_count: row.redemption_count,
+    remaining_value: row.remaining_value === null || row.remaining_value === undefined
+      ? null
+      : majorToMinor(Number(row.remaining_value), row.currency),
+    expires_at: row.expires_at ?? null,
+    redeemed_at: row.redeemed_at ?? null,
+    voided_at: row.voided_at ?? null,
+  }
+}
+
+function isDuplicateError(error: { code?: string; message?: string }): boolean {
+  return error.code === '23505' || String(error.message || '').includes('Duplicate gift code')
+}
+
+async function loadBatch(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  batchIdRaw: string,
+): Promise<{ batch?: any; error?: ResourceResult }> {
+  const batchId = validateUUID(batchIdRaw)
+  if (!batchId) {
+    return { error: resourceError('batch_id must be a UUID', 400, {}, 'invalid_batch_id') }
+  }
+
+  const { data: batch } = await supabase
+    .from('gift_code_batches')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', batchId)
+    .maybeSingle()
+
+  if (!batch) {
+    return { error: resourceError('Gift code batch not found', 404, {}, 'gift_code_batch_not_found') }
+  }
+  return { batch }
+}
+
+// ============================================================================
+// BATCHES
+// ============================================================================
+
+export async function createGiftCodeBatchResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const validated = validateGiftCodeBatch(body, getFunctionalCurrency(ledger))
+  if (validated.error) {
+    return resourceError(validated.error, 400, {}, 'invalid_gift_code_batch')
+  }
+  const batch = validated.batch!
+
+  const codes = batch.code
+    ? [batch.code]
+    : Array.from(new Set(Array.from({ length: batch.count }, generateGiftCode)))
+
+  const { data, error } = await supabase.rpc('create_gift_code_batch', {
+    p_ledger_id: ledger.id,
+    p_kind: batch.kind,
+    p_name: batch.name,
+    p_denomination: minorToMajor(batch.denomination, batch.currency),
+    p_codes: codes,
+    p_max_redemptions: batch.max_redemptions,
+    p_expires_at: batch.expires_at,
+    p_metadata: batch.metadata,
+  })
+
+  if (error) {
+    if (isDuplicateError(error)) {
+      return resourceError(
+        batch.code ? 'A gift code with this code already exists' : 'Generated code collided with an existing code, retry',
+        409,
+        {},
+        'gift_code_exists',
+      )
+    }
+    console.error(`[${requestId}] Failed to create gift code batch:`, error)
+    return resourceError('Failed to create gift code batch', 500, {}, 'gift_code_batch_create_failed')
+  }
+
+  const row = Array.isArray(data) ? data[0] : data
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'gift_code_batch_created',
+    entity_type: 'gift_code_batch',
+    entity_id: row?.out_batch_id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      kind: batch.kind,
+      denomination: batch.denomination,
+      count: codes.length,
+      expires_at: batch.expires_at,
+    }),
+    response_status: 201,
+    risk_score: batch.kind === 'gift_card' ? 30 : 20,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    batch: {
+      id: row?.out_batch_id,
+      kind: batch.kind,
+      name: batch.name,
+      denomination: batch.denomination,
+      currency: batch.currency,
+      code_count: row?.out_code_count ?? codes.length,
+      max_redemptions: batch.max_redemptions,
+      expires_at: batch.expires_at,
+      status: 'active',
+      issue_transaction_id: row?.out_issue_transaction_id ?? null,
+    },
+    codes,
+  }, 201)
+}
+
+export async function listGiftCodeBatchesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: { kind?: string; status?: string; limit?: number },
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 50), 1), 200)
+
+  let query = supabase
+    .from('gift_code_batches')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.kind) {
+    if (!(GIFT_CODE_KINDS as readonly string[]).includes(filters.kind)) {
+      return resourceError(`kind must be one of: ${GIFT_CODE_KINDS.join(', ')}`, 400, {}, 'invalid_gift_code_kind')
+    }
+    query = query.eq('kind', filters.kind)
+  }
+  if (filters.status) {
+    if (!['active', 'voided'].includes(filters.status)) {
+      return resourceError('status must be one of: active, voided', 400, {}, 'invalid_gift_code_batch_status')
+    }
+    query = query.eq('status', filters.status)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list gift code batches:', error)
+    return resourceError('Failed to list gift code batches', 500, {}, 'gift_code_batches_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    batches: (data || []).map(mapBatch),
+  })
+}
+
+/** A batch with its codes counted by status and the value still redeemable. */
+export async function getGiftCodeBatchResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  batchIdRaw: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadBatch(supabase, ledger.id, batchIdRaw)
+  if (loaded.error) return loaded.error
+
+  const { data: codes, error } = await supabase
+    .from('gift_codes')
+    .select('status, redemption_count, remaining_value')
+    .eq('batch_id', loaded.batch.id)
+
+  if (error) {
+    console.error('Failed to load gift codes:', error)
+    return resourceError('Failed to load gift code batch', 500, {}, 'gift_code_batch_failed')
+  }
+
+  const summary: Record<string, number> = { active: 0, redeemed: 0, expired: 0, voided: 0, redemptions: 0 }
+  let outstanding = 0
+  for (const code of codes || []) {
+    summary[code.status] = (summary[code.status] || 0) + 1
+    summary.redemptions += Number(code.redemption_count || 0)
+    if (code.status === 'active') outstanding += Number(code.remaining_value || 0)
+  }
+
+  return resourceOk({
+    success: true,
+    batch: mapBatch(loaded.batch),
+    summary: {
+      ...summary,
+      // Gift cards only: promo codes carry no liability
+      outstanding_value: majorToMinor(outstanding, loaded.batch.currency),
+    },
+  })
+}
+
+/** Every code in a batch as CSV (default) or JSON, for printing or a distributor. */
+export async function exportGiftCodeBatchResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  batchIdRaw: string,
+  formatRaw: string | null,
+  requestId: string,
+): Promise<Response | ResourceResult> {
+  const format = formatRaw || 'csv'
+  if (format !== 'csv' && format !== 'json') {
+    return resourceError('format must be csv or json', 400, {}, 'invalid_export_format')
+  }
+
+  const loaded = await loadBatch(supabase, ledger.id, batchIdRaw)
+  if (loaded.error) return loaded.error
+  const batch = loaded.batch
+
+  const { data: codes, error } = await supabase
+    .from('gift_codes')
+    .select('*')
+    .eq('batch_id', batch.id)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Failed to export gift codes:', error)
+    return resourceError('Failed to export gift codes', 500, {}, 'gift_code_export_failed')
+  }
+
+  await supabase
+    .from('gift_code_batches')
+    .update({ exported_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', batch.id)
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'gift_code_batch_exported',
+    entity_type: 'gift_code_batch',
+    entity_id: batch.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ format, count: codes?.length || 0 }),
+    risk_score: 30,
+  }, requestId)
+
+  const rows = (codes || []).map(mapCode)
+
+  if (format === 'json') {
+    return new Response(JSON.stringify({
+      success: true,
+      batch: mapBatch(batch),
+      codes: rows,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  const headers = ['code', 'kind', 'denomination', 'currency', 'status', 'redemption_count', 'expires_at']
+  const lines = rows.map((code) => [
+    code.code,
+    batch.kind,
+    Number(batch.denomination),
+    batch.currency,
+    code.status,
+    code.redemption_count,
+    code.expires_at || '',
+  ].join(','))
+
+  return new Response([headers.join(','), ...lines].join('\n'), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': `attachment; filename="gift_codes_${batch.id}.csv"`,
+    },
+  })
+}
+
+async function voidGiftCodes(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  target: { batch_id?: string; code_id?: string },
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const reason = body.reason !== undefined ? validateString(body.reason, 500) : null
+  if (body.reason !== undefined && !reason) {
+    return resourceError('reason must be a string of at most 500 characters', 400, {}, 'invalid_reason')
+  }
+
+  const { data, error } = await supabase.rpc('void_gift_codes', {
+    p_ledger_id: ledger.id,
+    p_batch_id: target.batch_id ?? null,
+    p_code_id: target.code_id ?? null,
+    p_reason: reason,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to void gift codes:`, error)
+    return resourceError('Failed to void gift codes', 500, {}, 'gift_code_void_failed')
+  }
+
+  const row = Array.isArray(data) ? data[0] : data
+  const voided = Number(row?.out_voided_count ?? 0)
+  const amount = Number(row?.out_amount ?? 0)
+  const currency = getFunctionalCurrency(ledger)
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'gift_codes_voided',
+    entity_type: target.batch_id ? 'gift_code_batch' : 'gift_code',
+    entity_id: target.batch_id ?? target.code_id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ reason, voided, amount }),
+    response_status: 200,
+    risk_score: 30,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    voided_count: voided,
+    // Gift card value refunded out of the liability, in minor units
+    refunded_value: majorToMinor(amount, currency),
+    transaction_id: row?.out_transaction_id ?? null,
+  })
+}
+
+/** Void every active code in a batch. Redeemed codes are unaffected. */
+export async function voidGiftCodeBatchResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  batchIdRaw: string,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadBatch(supabase, ledger.id, batchIdRaw)
+  if (loaded.error) return loaded.error
+  if (loaded.batch.status === 'voided') {
+    return resourceError('Gift code batch is already voided', 409, {}, 'gift_code_batch_voided')
+  }
+
+  return voidGiftCodes(req, supabase, ledger, { batch_id: loaded.batch.id }, body, requestId)
+}
+
+export async function voidGiftCodeResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  codeRaw: string,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const code = normalizeGiftCode(decodeURIComponent(codeRaw))
+  if (!code) {
+    return resourceError('code is invalid', 400, {}, 'invalid_gift_code')
+  }
+
+  const { data: row } = await supabase
+    .from('gift_codes')
+    .select('id, status')
+    .eq('ledger_id', ledger.id)
+    .eq('code', code)
+    .maybeSingle()
+
+  if (!row) {
+    return resourceError('Gift code not found', 404, {}, 'gift_code_not_found')
+  }
+  if (row.status !== 'active') {
+    return resourceError(`Gift code is ${row.status}`, 409, {}, 'gift_code_not_active')
+  }
+
+  return voidGiftCodes(req, supabase, ledger, { code_id: row.id }, body, requestId)
+}
+
+// ============================================================================
+// REDEMPTION
+// ============================================================================
+
+/** Redeem a code into the customer's consumer_credit wallet. */
+export async function redeemGiftCodeResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const customerId = validateId(body.customer_id, 100)
+  if (!customerId) {
+    return resourceError('customer_id is required', 400, {}, 'invalid_customer_id')
+  }
+
+  const code = normalizeGiftCode(body.code)
+  if (!code) {
+    return resourceError('code is invalid', 400, {}, 'invalid_gift_code')
+  }
+
+  const { data, error } = await supabase.rpc('redeem_gift_code', {
+    p_ledger_id: ledger.id,
+    p_code: code,
+    p_customer_id: customerId,
+    p_max_failures: MAX_FAILED_REDEMPTIONS,
+    p_window_minutes: FAILED_REDEMPTION_WINDOW_MINUTES,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to redeem gift code:`, error)
+    return resourceError('Failed to redeem gift code', 500, {}, 'gift_code_redeem_failed')
+  }
+
+  const row = Array.isArray(data) ? data[0] : data
+  const status = row?.out_status
+
+  if (status !== 'redeemed') {
+    const failure = REDEMPTION_FAILURES[status] || REDEMPTION_FAILURES.not_found
+
+    if (status === 'throttled' && ledger.organization_id) {
+      void recordRiskSignal(supabase, {
+        ledgerId: ledger.id,
+        organizationId: ledger.organization_id,
+        signalType: 'custom',
+        severity: 'medium',
+        entityType: 'wallet',
+        entityId: customerId,
+        description: `Gift code redemption throttled after ${MAX_FAILED_REDEMPTIONS} failures in ${FAILED_REDEMPTION_WINDOW_MINUTES} minutes`,
+        details: { signal: 'gift_code_redemption_throttled', customer_id: customerId },
+      })
+    }
+
+    return resourceError(failure.message, failure.status, {}, status === 'throttled'
+      ? 'too_many_failed_redemptions'
+      : `gift_code_${status || 'not_found'}`)
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'gift_code_redeemed',
+    entity_type: 'gift_code',
+    entity_id: row.out_code_id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      customer_id: customerId,
+      kind: row.out_kind,
+      transaction_id: row.out_transaction_id,
+    }),
+    response_status: 200,
+    risk_score: 20,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    redemption: {
+      code_id: row.out_code_id,
+      kind: row.out_kind,
+      customer_id: customerId,
+      amount: majorToMinor(Number(row.out_amount), row.out_currency),
+      currency: row.out_currency,
+      transaction_id: row.out_transaction_id,
+    },
+    wallet: {
+      wallet_id: row.out_wallet_account_id,
+      owner_id: customerId,
+      balance: Number(row.out_wallet_balance ?? 0),
+    },
+  })
+}
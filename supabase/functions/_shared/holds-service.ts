@@ -12,6 +12,7 @@ import {
   resourceOk,
 } from './treasury-resource.ts'
 import { type AuthorityLevel, canOverride, toAuthorityLevel } from './authority.ts'
+import { majorToMinor } from './currency.ts'
 
 type RpcCandidate = {
   name: string
@@ -101,17 +102,6 @@ async function rpcWithFallback(
   return { data: null, error: lastMissingError || { message: 'No compatible RPC found' }, used: null }
 }
 
-function minorUnitFactor(currency: string): number {
-  const normalized = (currency || 'USD').toUpperCase()
-  if (['JPY', 'KRW', 'VND'].includes(normalized)) return 1
-  if (['BHD', 'IQD', 'JOD', 'KWD', 'OMR', 'TND'].includes(normalized)) return 1000
-  return 100
-}
-
-function majorToMinor(amountMajor: number, currency: string): number {
-  return Math.round(amountMajor * minorUnitFactor(currency))
-}
-
 function asNumber(value: unknown): number {
   const numeric = Number(value)
   return Number.isFinite(numeric) ? numeric : 0
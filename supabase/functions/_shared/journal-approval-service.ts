@@ -0,0 +1,734 @@
+// SERVICE_ID: SVC_JOURNAL_APPROVALS
+// Soledgic: maker-checker approval for manual journals
+// record-adjustment, reverse-transaction and record-opening-balance call
+// gateJournal before posting. When the ledger has an active approval policy
+// for the journal type and the amount reaches its threshold, the request is
+// stored in pending_journals (202) instead of touching entries. A team
+// member with at least the policy's role approves or rejects it from the
+// dashboard; approval replays the stored request against the original
+// endpoint, flagged with the pending journal id so it posts this time. A
+// replay that fails leaves the journal approved with the error and attempt
+// count, and POST /pending-journals/{id}/post tries it again.
+// The preparer can never approve their own journal (decide_pending_journal).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  getDashboardUserId,
+  isInternalRequest,
+  LedgerContext,
+  sanitizeForAudit,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+
+// ============================================================================
+// TYPES AND CONSTANTS
+// ============================================================================
+
+export const JOURNAL_TYPES = ['adjustment', 'reversal', 'opening_balance'] as const
+export type JournalType = typeof JOURNAL_TYPES[number]
+
+export const APPROVER_ROLES = ['owner', 'admin', 'member'] as const
+export type ApproverRole = typeof APPROVER_ROLES[number]
+
+export const PENDING_JOURNAL_STATUSES = ['pending', 'approved', 'rejected', 'posted'] as const
+
+const JOURNAL_ENDPOINTS: Record<JournalType, string> = {
+  adjustment: 'record-adjustment',
+  reversal: 'reverse-transaction',
+  opening_balance: 'record-opening-balance',
+}
+
+// Set by approval replays; only trusted on internal requests
+const PENDING_JOURNAL_HEADER = 'x-soledgic-pending-journal-id'
+
+// A posting claim older than this is treated as abandoned (the request died
+// mid-replay) and can be taken over by a retry
+const POSTING_CLAIM_TTL_MS = 10 * 60 * 1000
+
+// The gated endpoints take cents and book in USD, so thresholds and pending
+// amounts use the same units
+const JOURNAL_CURRENCY = 'USD'
+
+const DECISION_FAILURES: Record<string, { message: string; status: number }> = {
+  not_found: { message: 'Pending journal not found', status: 404 },
+  not_pending: { message: 'Journal has already been decided', status: 409 },
+  not_a_member: { message: 'Approver is not a member of this organization', status: 403 },
+  insufficient_role: { message: 'Your role cannot approve journals under this policy', status: 403 },
+  self_approval: { message: 'A journal cannot be approved by its preparer', status: 403 },
+}
+
+// Policies store thresholds in major units; the API takes cents
+function fromCents(cents: number): number {
+  return Math.round(cents) / 100
+}
+
+export interface JournalSubmission {
+  journal_type: JournalType
+  /** Major units, as the endpoint books it */
+  amount: number
+  summary: string
+  prepared_by: string | null
+  payload: Record<string, unknown>
+}
+
+export type JournalGate =
+  | { post: true; approval: { pending_journal_id: string; approved_by: string; approved_at: string } | null }
+  | { post: false; status: number; body: Record<string, unknown> }
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+function rankRole(role: string | null | undefined): number {
+  switch (role) {
+    case 'owner': return 100
+    case 'admin': return 80
+    case 'member': return 50
+    default: return 0
+  }
+}
+
+export function roleMeetsRequirement(role: string | null | undefined, required: ApproverRole): boolean {
+  return rankRole(role) >= rankRole(required)
+}
+
+// ============================================================================
+// GATE
+// ============================================================================
+
+/**
+ * Decide whether a journal posts now. Approval replays post; journals that
+ * reach an active policy's threshold are queued and answered with 202.
+ */
+export async function gateJournal(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  submission: JournalSubmission,
+  requestId: string,
+): Promise<JournalGate> {
+  const replayHeader = isInternalRequest(req) ? req.headers.get(PENDING_JOURNAL_HEADER) : null
+  if (replayHeader) {
+    const replayId = validateUUID(replayHeader)
+    const { data: journal } = replayId
+      ? await supabase
+        .from('pending_journals')
+        .select('id, journal_type, status, decided_by_user_id, decided_at, transaction_id')
+        .eq('id', replayId)
+        .eq('ledger_id', ledger.id)
+        .maybeSingle()
+      : { data: null }
+
+    if (!journal || journal.journal_type !== submission.journal_type ||
+        journal.status !== 'approved' || journal.transaction_id) {
+      return {
+        post: false,
+        status: 409,
+        body: { success: false, error: 'Pending journal is not approved', error_code: 'journal_not_approved' },
+      }
+    }
+
+    return {
+      post: true,
+      approval: {
+        pending_journal_id: journal.id,
+        approved_by: journal.decided_by_user_id,
+        approved_at: journal.decided_at,
+      },
+    }
+  }
+
+  const { data: policy, error: policyError } = await supabase
+    .from('journal_approval_policies')
+    .select('id, threshold_amount, required_role')
+    .eq('ledger_id', ledger.id)
+    .eq('journal_type', submission.journal_type)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (policyError) {
+    // Fail closed: an unreadable policy must not let a journal skip review
+    console.error(`[${requestId}] Failed to load approval policy:`, policyError)
+    return {
+      post: false,
+      status: 500,
+      body: { success: false, error: 'Failed to load approval policy', error_code: 'approval_policy_failed' },
+    }
+  }
+
+  if (!policy || submission.amount < Number(policy.threshold_amount)) {
+    return { post: true, approval: null }
+  }
+
+  const userId = getDashboardUserId(req)
+  const { ledger_id: _ledgerId, ...payload } = submission.payload
+
+  const { data: journal, error } = await supabase
+    .from('pending_journals')
+    .insert({
+      ledger_id: ledger.id,
+      journal_type: submission.journal_type,
+      amount: submission.amount,
+      currency: JOURNAL_CURRENCY,
+      summary: submission.summary,
+      payload,
+      prepared_by: submission.prepared_by || userId || 'api',
+      prepared_by_user_id: userId,
+      policy_id: policy.id,
+      required_role: policy.required_role,
+    })
+    .select('*')
+    .single()
+
+  if (error || !journal) {
+    console.error(`[${requestId}] Failed to queue journal for approval:`, error)
+    return {
+      post: false,
+      status: 500,
+      body: { success: false, error: 'Failed to queue journal for approval', error_code: 'pending_journal_create_failed' },
+    }
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'journal_submitted_for_approval',
+    entity_type: 'pending_journal',
+    entity_id: journal.id,
+    actor_type: userId ? 'admin' : 'api',
+    actor_id: userId || journal.prepared_by,
+    request_body: sanitizeForAudit({
+      journal_type: submission.journal_type,
+      amount: submission.amount,
+      required_role: policy.required_role,
+    }),
+    response_status: 202,
+  }, requestId)
+
+  return {
+    post: false,
+    status: 202,
+    body: {
+      success: true,
+      status: 'pending_approval',
+      pending_journal: mapPendingJournal(journal),
+    },
+  }
+}
+
+// ============================================================================
+// PENDING JOURNALS
+// ============================================================================
+
+function mapPendingJournal(row: any) {
+  return {
+    id: row.id,
+    journal_type: row.journal_type,
+    status: row.status,
+    amount: Math.round(Number(row.amount) * 100),
+    currency: row.currency,
+    summary: row.summary,
+    prepared_by: row.prepared_by,
+    prepared_by_user_id: row.prepared_by_user_id ?? null,
+    required_role: row.required_role,
+    decided_by_user_id: row.decided_by_user_id ?? null,
+    decided_at: row.decided_at ?? null,
+    decision_reason: row.decision_reason ?? null,
+    transaction_id: row.transaction_id ?? null,
+    posted_at: row.posted_at ?? null,
+    posting_error: row.posting_error ?? null,
+    posting_attempts: Number(row.posting_attempts ?? 0),
+    created_at: row.created_at,
+  }
+}
+
+export async function listPendingJournalsResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: { status?: string; journal_type?: string; limit?: number },
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 50), 1), 200)
+
+  let query = supabase
+    .from('pending_journals')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.status) {
+    if (!(PENDING_JOURNAL_STATUSES as readonly string[]).includes(filters.status)) {
+      return resourceError(`status must be one of: ${PENDING_JOURNAL_STATUSES.join(', ')}`, 400, {}, 'invalid_pending_journal_status')
+    }
+    query = query.eq('status', filters.status)
+  }
+  if (filters.journal_type) {
+    if (!(JOURNAL_TYPES as readonly string[]).includes(filters.journal_type)) {
+      return resourceError(`journal_type must be one of: ${JOURNAL_TYPES.join(', ')}`, 400, {}, 'invalid_journal_type')
+    }
+    query = query.eq('journal_type', filters.journal_type)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list pending journals:', error)
+    return resourceError('Failed to list pending journals', 500, {}, 'pending_journals_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    pending_journals: (data || []).map(mapPendingJournal),
+  })
+}
+
+/** A pending journal with the request that will post when it is approved. */
+export async function getPendingJournalResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  journalIdRaw: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const journalId = validateUUID(journalIdRaw)
+  if (!journalId) {
+    return resourceError('Invalid pending journal id', 400, {}, 'invalid_pending_journal_id')
+  }
+
+  const { data: journal } = await supabase
+    .from('pending_journals')
+    .select('*')
+    .eq('id', journalId)
+    .eq('ledger_id', ledger.id)
+    .maybeSingle()
+
+  if (!journal) {
+    return resourceError('Pending journal not found', 404, {}, 'pending_journal_not_found')
+  }
+
+  return resourceOk({
+    success: true,
+    pending_journal: { ...mapPendingJournal(journal), payload: journal.payload },
+  })
+}
+
+/** Post an approved journal by replaying its request with the journal id attached. */
+async function postApprovedJournal(
+  ledger: LedgerContext,
+  journal: any,
+  requestId: string,
+): Promise<{ ok: boolean; transaction_id: string | null; error: string | null }> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const internalToken =
+    Deno.env.get('SOLEDGIC_INTERNAL_FUNCTION_TOKEN') ||
+    Deno.env.get('INTERNAL_FUNCTION_TOKEN')
+
+  if (!supabaseUrl || !internalToken) {
+    return { ok: false, transaction_id: null, error: 'Internal function token is not configured' }
+  }
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/${JOURNAL_ENDPOINTS[journal.journal_type as JournalType]}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-soledgic-internal-token': internalToken,
+        'x-ledger-id': ledger.id,
+        [PENDING_JOURNAL_HEADER]: journal.id,
+      },
+      body: JSON.stringify(journal.payload),
+    })
+
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok || result?.success === false) {
+      return { ok: false, transaction_id: null, error: result?.error || `Posting failed with status ${response.status}` }
+    }
+
+    return {
+      ok: true,
+      // Reversals answer with reversal_id, or only transaction_id for a void
+      transaction_id: result.reversal_id || result.transaction_id || null,
+      error: null,
+    }
+  } catch (err) {
+    console.error(`[${requestId}] Failed to post approved journal ${journal.id}:`, err)
+    return { ok: false, transaction_id: null, error: 'Failed to reach the posting endpoint' }
+  }
+}
+
+/** Approve (and post) or reject a pending journal as the signed-in team member. */
+export async function decidePendingJournalResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  journalIdRaw: string,
+  decision: 'approve' | 'reject',
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const userId = getDashboardUserId(req)
+  if (!userId) {
+    return resourceError('Journals can only be approved or rejected by a signed-in team member', 403, {}, 'approver_required')
+  }
+
+  const journalId = validateUUID(journalIdRaw)
+  if (!journalId) {
+    return resourceError('Invalid pending journal id', 400, {}, 'invalid_pending_journal_id')
+  }
+
+  const reason = body.reason !== undefined ? validateString(body.reason, 500) : null
+  if (body.reason !== undefined && !reason) {
+    return resourceError('reason must be a string of at most 500 characters', 400, {}, 'invalid_reason')
+  }
+  if (decision === 'reject' && !reason) {
+    return resourceError('reason is required to reject a journal', 400, {}, 'reason_required')
+  }
+
+  const { data, error } = await supabase.rpc('decide_pending_journal', {
+    p_ledger_id: ledger.id,
+    p_journal_id: journalId,
+    p_user_id: userId,
+    p_decision: decision,
+    p_reason: reason,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to decide pending journal:`, error)
+    return resourceError('Failed to decide pending journal', 500, {}, 'pending_journal_decision_failed')
+  }
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (row?.out_error) {
+    const failure = DECISION_FAILURES[row.out_error] || { message: 'Failed to decide pending journal', status: 409 }
+    createAuditLogAsync(supabase, req, {
+      ledger_id: ledger.id,
+      action: 'journal_decision_denied',
+      entity_type: 'pending_journal',
+      entity_id: journalId,
+      actor_type: 'admin',
+      actor_id: userId,
+      request_body: sanitizeForAudit({ decision, error: row.out_error }),
+      response_status: failure.status,
+      risk_score: row.out_error === 'self_approval' ? 60 : 30,
+    }, requestId)
+    return resourceError(failure.message, failure.status, {}, row.out_error)
+  }
+
+  const { data: journal } = await supabase
+    .from('pending_journals')
+    .select('*')
+    .eq('id', journalId)
+    .single()
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: decision === 'approve' ? 'journal_approved' : 'journal_rejected',
+    entity_type: 'pending_journal',
+    entity_id: journalId,
+    actor_type: 'admin',
+    actor_id: userId,
+    request_body: sanitizeForAudit({
+      journal_type: journal?.journal_type,
+      amount: journal?.amount,
+      prepared_by: journal?.prepared_by,
+      reason,
+    }),
+    response_status: 200,
+    risk_score: 30,
+  }, requestId)
+
+  if (decision === 'reject' || !journal) {
+    return resourceOk({ success: true, pending_journal: journal ? mapPendingJournal(journal) : null })
+  }
+
+  return settleJournalPosting(req, supabase, ledger, journal, userId, requestId)
+}
+
+/**
+ * A transaction an earlier replay already posted for this journal, e.g. one
+ * whose response was lost. Adjustments post under adj_pj_<id>; reversals and
+ * opening balances carry the journal id in their metadata.
+ */
+async function findJournalTransaction(
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  journal: any,
+): Promise<string | null> {
+  const query = supabase
+    .from('transactions')
+    .select('id')
+    .eq('ledger_id', ledger.id)
+
+  const { data } = await (journal.journal_type === 'adjustment'
+    ? query.eq('reference_id', `adj_pj_${journal.id}`)
+    : query.eq('metadata->>pending_journal_id', journal.id))
+    .limit(1)
+    .maybeSingle()
+
+  return data?.id ?? null
+}
+
+/**
+ * Claim an approved journal, replay it unless an earlier replay already
+ * posted it, and record the outcome. Only the claim holder replays, so two
+ * concurrent retries cannot both post. A failed replay keeps the journal
+ * approved, with the error and attempt count, so it can be retried.
+ */
+async function settleJournalPosting(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  journal: any,
+  userId: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  const claimedAt = new Date().toISOString()
+  const staleBefore = new Date(Date.now() - POSTING_CLAIM_TTL_MS).toISOString()
+  const { data: claimed } = await supabase
+    .from('pending_journals')
+    .update({ posting_started_at: claimedAt, updated_at: claimedAt })
+    .eq('id', journal.id)
+    .eq('status', 'approved')
+    .is('transaction_id', null)
+    .or(`posting_started_at.is.null,posting_started_at.lt.${staleBefore}`)
+    .select('*')
+    .maybeSingle()
+
+  if (!claimed) {
+    return resourceError('Journal is already being posted', 409, {}, 'journal_posting_in_progress')
+  }
+
+  const existingTransactionId = await findJournalTransaction(supabase, ledger, claimed)
+  const posting = existingTransactionId
+    ? { ok: true, transaction_id: existingTransactionId, error: null }
+    : await postApprovedJournal(ledger, claimed, requestId)
+  const attempts = Number(claimed.posting_attempts ?? 0) + 1
+  const now = new Date().toISOString()
+  const changes = posting.ok
+    ? { status: 'posted', transaction_id: posting.transaction_id, posted_at: now, posting_error: null, posting_attempts: attempts, posting_started_at: null, updated_at: now }
+    : { posting_error: posting.error, posting_attempts: attempts, posting_started_at: null, updated_at: now }
+
+  const { data: updated } = await supabase
+    .from('pending_journals')
+    .update(changes)
+    .eq('id', journal.id)
+    .eq('posting_started_at', claimedAt)
+    .select('*')
+    .maybeSingle()
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: posting.ok ? 'journal_posted' : 'journal_posting_failed',
+    entity_type: 'pending_journal',
+    entity_id: journal.id,
+    actor_type: 'admin',
+    actor_id: userId,
+    request_body: sanitizeForAudit({
+      transaction_id: posting.transaction_id,
+      error: posting.error,
+      attempt: attempts,
+      recovered: !!existingTransactionId,
+    }),
+    response_status: posting.ok ? 200 : 502,
+  }, requestId)
+
+  const pendingJournal = mapPendingJournal(updated || { ...claimed, ...changes })
+  if (!posting.ok) {
+    return resourceError(`Journal approved but posting failed: ${posting.error}`, 502, {
+      pending_journal: pendingJournal,
+    }, 'journal_posting_failed')
+  }
+
+  return resourceOk({ success: true, pending_journal: pendingJournal })
+}
+
+/** Retry posting an approved journal whose replay failed. */
+export async function retryJournalPostingResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  journalIdRaw: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  const userId = getDashboardUserId(req)
+  if (!userId) {
+    return resourceError('Journal postings can only be retried by a signed-in team member', 403, {}, 'approver_required')
+  }
+
+  const journalId = validateUUID(journalIdRaw)
+  if (!journalId) {
+    return resourceError('Invalid pending journal id', 400, {}, 'invalid_pending_journal_id')
+  }
+
+  const { data: journal } = await supabase
+    .from('pending_journals')
+    .select('*')
+    .eq('id', journalId)
+    .eq('ledger_id', ledger.id)
+    .maybeSingle()
+
+  if (!journal) {
+    return resourceError('Pending journal not found', 404, {}, 'pending_journal_not_found')
+  }
+  if (journal.status !== 'approved' || journal.transaction_id) {
+    return resourceError('Only approved journals that have not posted can be retried', 409, {}, 'journal_not_retryable')
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', ledger.organization_id)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  if (!roleMeetsRequirement(membership?.role, journal.required_role)) {
+    return resourceError('Your role cannot post journals under this policy', 403, {}, 'insufficient_role')
+  }
+
+  return settleJournalPosting(req, supabase, ledger, journal, userId, requestId)
+}
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+function mapPolicy(row: any) {
+  return {
+    id: row.id,
+    journal_type: row.journal_type,
+    threshold_amount: Math.round(Number(row.threshold_amount) * 100),
+    required_role: row.required_role,
+    is_active: row.is_active,
+    updated_by: row.updated_by ?? null,
+    updated_at: row.updated_at,
+  }
+}
+
+export async function listApprovalPoliciesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const { data, error } = await supabase
+    .from('journal_approval_policies')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+    .order('journal_type', { ascending: true })
+
+  if (error) {
+    console.error('Failed to list approval policies:', error)
+    return resourceError('Failed to list approval policies', 500, {}, 'approval_policies_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    policies: (data || []).map(mapPolicy),
+  })
+}
+
+export function validateApprovalPolicy(body: Record<string, unknown>): {
+  policy?: { journal_type: JournalType; threshold_amount: number; required_role: ApproverRole; is_active: boolean }
+  error?: string
+} {
+  if (!(JOURNAL_TYPES as readonly unknown[]).includes(body.journal_type)) {
+    return { error: `journal_type must be one of: ${JOURNAL_TYPES.join(', ')}` }
+  }
+
+  const threshold = body.threshold_amount ?? 0
+  if (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < 0) {
+    return { error: 'threshold_amount must be a non-negative integer (minor units)' }
+  }
+
+  const role = body.required_role ?? 'admin'
+  if (!(APPROVER_ROLES as readonly unknown[]).includes(role)) {
+    return { error: `required_role must be one of: ${APPROVER_ROLES.join(', ')}` }
+  }
+
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    return { error: 'is_active must be a boolean' }
+  }
+
+  return {
+    policy: {
+      journal_type: body.journal_type as JournalType,
+      threshold_amount: threshold,
+      required_role: role as ApproverRole,
+      is_active: body.is_active !== false,
+    },
+  }
+}
+
+/** Create or replace the policy for a journal type. Owners and admins only. */
+export async function upsertApprovalPolicyResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  // An API key must not be able to switch off the review of its own journals
+  const userId = getDashboardUserId(req)
+  if (!userId) {
+    return resourceError('Approval policies can only be changed by a signed-in team member', 403, {}, 'approver_required')
+  }
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', ledger.organization_id)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  if (!roleMeetsRequirement(membership?.role, 'admin')) {
+    return resourceError('Only owners and admins can change approval policies', 403, {}, 'insufficient_role')
+  }
+
+  const { policy, error: validationError } = validateApprovalPolicy(body)
+  if (!policy) {
+    return resourceError(validationError!, 400, {}, 'invalid_approval_policy')
+  }
+
+  const { data, error } = await supabase
+    .from('journal_approval_policies')
+    .upsert({
+      ledger_id: ledger.id,
+      journal_type: policy.journal_type,
+      threshold_amount: fromCents(policy.threshold_amount),
+      required_role: policy.required_role,
+      is_active: policy.is_active,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'ledger_id,journal_type' })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    console.error(`[${requestId}] Failed to save approval policy:`, error)
+    return resourceError('Failed to save approval policy', 500, {}, 'approval_policy_save_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'journal_approval_policy_updated',
+    entity_type: 'journal_approval_policy',
+    entity_id: data.id,
+    actor_type: 'admin',
+    actor_id: userId,
+    request_body: sanitizeForAudit(policy),
+    response_status: 200,
+    risk_score: 40,
+  }, requestId)
+
+  return resourceOk({ success: true, policy: mapPolicy(data) })
+}
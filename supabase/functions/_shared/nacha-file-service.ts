@@ -0,0 +1,391 @@
+// SERVICE_ID: SVC_NACHA_FILES
+// Soledgic: NACHA trace numbers and bank return/NOC file ingestion
+// Every payout written to an outbound NACHA file gets a ledger-unique trace
+// number (nacha_file_entries). Return, NOC and acknowledgment files from the
+// bank are matched back to the originating payout by that trace number.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  isNACHAFile,
+  type NACHAReturnEntry,
+  parseNACHAReturnFile,
+  parseNOCCorrection,
+} from './financial-file-parsers.ts'
+import { recordPayoutReturn } from './payout-service.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NachaFileType = 'return' | 'acknowledgment'
+
+export type NachaEntryOutcome =
+  | 'returned'
+  | 'failed'
+  | 'acknowledged'
+  | 'corrected'
+  | 'already_processed'
+  | 'ignored'
+  | 'unmatched'
+  | 'error'
+
+export interface NachaEntryResult {
+  line_number: number
+  kind: NACHAReturnEntry['kind']
+  trace_number: string | null
+  payout_id: string | null
+  outcome: NachaEntryOutcome
+  return_code?: string
+  change_code?: string
+  return_transaction_id?: string
+  bank_details_updated?: boolean
+  error?: string
+}
+
+export interface NachaIngestSummary {
+  file_type: NachaFileType
+  file_creation_date: string | null
+  entry_count: number
+  counts: Record<NachaEntryOutcome, number>
+  entries: NachaEntryResult[]
+  parse_errors: string[]
+}
+
+export type NachaIngestResult =
+  | ({ ok: true } & NachaIngestSummary)
+  | { ok: false; error: string; error_code: string; status: number }
+
+interface NachaFileEntryRow {
+  id: string
+  payout_transaction_id: string
+  trace_number: string
+  status: string
+}
+
+const NACHA_FILE_TYPES: NachaFileType[] = ['return', 'acknowledgment']
+
+// ============================================================================
+// TRACE NUMBERS
+// ============================================================================
+
+export function normalizeNachaFileType(value: unknown): NachaFileType | null {
+  if (typeof value !== 'string') return null
+  const fileType = value.trim().toLowerCase()
+  return (NACHA_FILE_TYPES as string[]).includes(fileType) ? fileType as NachaFileType : null
+}
+
+/**
+ * Reserve trace numbers for payouts about to be written to an outbound file.
+ * Returns payout id → 15-digit trace number.
+ */
+export async function allocateTraceNumbers(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  originatingDfi: string,
+  filePath: string,
+  payoutIds: string[],
+): Promise<Record<string, string>> {
+  if (payoutIds.length === 0) return {}
+
+  const { data, error } = await supabase.rpc('allocate_nacha_trace_numbers', {
+    p_ledger_id: ledgerId,
+    p_odfi: originatingDfi,
+    p_file_path: filePath,
+    p_payout_ids: payoutIds,
+  })
+
+  if (error) {
+    throw new Error(`Failed to allocate NACHA trace numbers: ${error.message}`)
+  }
+
+  const traceNumbers: Record<string, string> = {}
+  for (const row of (data || []) as Array<{ out_payout_transaction_id: string; out_trace_number: string }>) {
+    traceNumbers[row.out_payout_transaction_id] = row.out_trace_number
+  }
+  return traceNumbers
+}
+
+/** Release trace numbers reserved for a file that was never delivered. */
+export async function releaseTraceNumbers(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  filePath: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from('nacha_file_entries')
+    .delete()
+    .eq('ledger_id', ledgerId)
+    .eq('file_path', filePath)
+    .eq('status', 'submitted')
+
+  if (error) console.error('Failed to release NACHA trace numbers:', error)
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+function matchTraceFor(entry: NACHAReturnEntry): string | null {
+  // Returns and NOCs carry the RDFI's own trace; ours is in the addenda.
+  return entry.kind === 'entry' ? entry.trace_number || null : entry.original_trace_number
+}
+
+function emptyCounts(): Record<NachaEntryOutcome, number> {
+  return {
+    returned: 0,
+    failed: 0,
+    acknowledged: 0,
+    corrected: 0,
+    already_processed: 0,
+    ignored: 0,
+    unmatched: 0,
+    error: 0,
+  }
+}
+
+async function updateFileEntry(
+  supabase: SupabaseClient,
+  row: NachaFileEntryRow,
+  patch: Record<string, unknown>,
+): Promise<void> {
+  const { error } = await supabase
+    .from('nacha_file_entries')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', row.id)
+
+  if (error) console.error(`Failed to update NACHA file entry ${row.trace_number}:`, error)
+}
+
+async function applyReturn(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  entry: NACHAReturnEntry,
+  row: NachaFileEntryRow,
+  returnedAt: string | null,
+  base: NachaEntryResult,
+): Promise<NachaEntryResult> {
+  const returned = await recordPayoutReturn(supabase, ledgerId, row.payout_transaction_id, {
+    return_code: entry.return_code!,
+    reason: entry.addenda_information,
+    source: 'nacha_file',
+    returned_at: returnedAt,
+    metadata: { trace_number: row.trace_number, rdfi_trace_number: entry.trace_number },
+  })
+
+  if (!returned.ok) {
+    // Already reversed (manually, by a processor webhook or an earlier file).
+    if (returned.status === 409) return { ...base, outcome: 'already_processed', error: returned.error }
+    return { ...base, outcome: 'error', error: returned.error }
+  }
+
+  await updateFileEntry(supabase, row, { status: 'returned', return_code: returned.return_code })
+
+  return {
+    ...base,
+    outcome: returned.created ? 'returned' : 'already_processed',
+    return_transaction_id: returned.return_transaction_id,
+  }
+}
+
+async function applyRejection(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  entry: NACHAReturnEntry,
+  row: NachaFileEntryRow,
+  base: NachaEntryResult,
+): Promise<NachaEntryResult> {
+  if (row.status === 'failed' || row.status === 'returned') {
+    return { ...base, outcome: 'already_processed' }
+  }
+
+  const { data: payoutTx } = await supabase
+    .from('transactions')
+    .select('id, metadata')
+    .eq('id', row.payout_transaction_id)
+    .eq('ledger_id', ledgerId)
+    .maybeSingle()
+
+  if (!payoutTx?.id) return { ...base, outcome: 'error', error: 'Payout not found' }
+
+  await supabase
+    .from('transactions')
+    .update({
+      metadata: {
+        ...(payoutTx.metadata || {}),
+        rail_status: 'failed',
+        return_code: entry.return_code,
+        rail_error: entry.addenda_information?.substring(0, 100) || null,
+      },
+    })
+    .eq('id', payoutTx.id)
+
+  await updateFileEntry(supabase, row, { status: 'failed', return_code: entry.return_code })
+
+  Promise.resolve(
+    supabase.rpc('queue_webhook', {
+      p_ledger_id: ledgerId,
+      p_event_type: 'payout.failed',
+      p_payload: {
+        event: 'payout.failed',
+        data: {
+          payout_id: payoutTx.id,
+          status: 'failed',
+          return_code: entry.return_code,
+          trace_number: row.trace_number,
+          occurred_at: new Date().toISOString(),
+        },
+      },
+    }),
+  ).then(({ error: webhookError }: any) => {
+    if (webhookError) console.error('Failed to queue payout.failed webhook:', webhookError)
+  })
+
+  return { ...base, outcome: 'failed' }
+}
+
+async function applyAcknowledgment(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  row: NachaFileEntryRow,
+  base: NachaEntryResult,
+): Promise<NachaEntryResult> {
+  if (row.status !== 'submitted') return { ...base, outcome: 'already_processed' }
+
+  const { data: payoutTx } = await supabase
+    .from('transactions')
+    .select('id, metadata')
+    .eq('id', row.payout_transaction_id)
+    .eq('ledger_id', ledgerId)
+    .maybeSingle()
+
+  const railStatus = String(payoutTx?.metadata?.rail_status || '')
+  if (payoutTx?.id && !['completed', 'failed', 'returned'].includes(railStatus)) {
+    await supabase
+      .from('transactions')
+      .update({ metadata: { ...(payoutTx.metadata || {}), rail_status: 'processing' } })
+      .eq('id', payoutTx.id)
+  }
+
+  await updateFileEntry(supabase, row, { status: 'acknowledged' })
+  return { ...base, outcome: 'acknowledged' }
+}
+
+async function applyNoc(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  entry: NACHAReturnEntry,
+  row: NachaFileEntryRow,
+  base: NachaEntryResult,
+): Promise<NachaEntryResult> {
+  const correction = parseNOCCorrection(entry.change_code!, entry.corrected_data || '')
+  const corrections = Object.fromEntries(
+    Object.entries(correction || {}).filter(([, value]) => typeof value === 'string' && value.length > 0),
+  )
+
+  const { data, error } = await supabase.rpc('apply_nacha_noc', {
+    p_ledger_id: ledgerId,
+    p_trace_number: row.trace_number,
+    p_change_code: entry.change_code,
+    p_corrected_data: entry.corrected_data,
+    p_corrections: corrections,
+  })
+
+  if (error) {
+    console.error('NOC apply RPC failed:', error)
+    return { ...base, outcome: 'error', error: 'Failed to apply notification of change' }
+  }
+
+  const result = (data || {}) as Record<string, any>
+  if (result.status === 'unmatched') return { ...base, outcome: 'unmatched' }
+  if (result.status === 'duplicate') return { ...base, outcome: 'already_processed' }
+
+  return { ...base, outcome: 'corrected', bank_details_updated: result.bank_details_updated === true }
+}
+
+/**
+ * Ingest a NACHA file received from the bank.
+ * - return files: R-coded entries reverse the payout (recordPayoutReturn)
+ * - acknowledgment files: R-coded entries were rejected before settlement and
+ *   mark the payout failed; plain entry echoes mark it acknowledged
+ * - NOC (COR) entries in either file correct the creator's stored bank details
+ * @critical-path payout — restores creator balance for bank-returned payouts
+ */
+export async function ingestNachaFile(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  content: string,
+  fileType: NachaFileType,
+): Promise<NachaIngestResult> {
+  if (!isNACHAFile(content)) {
+    return { ok: false, error: 'file_content is not a NACHA file', error_code: 'invalid_nacha_file', status: 400 }
+  }
+
+  const parsed = parseNACHAReturnFile(content)
+  const returnedAt = parsed.file_creation_date ? `${parsed.file_creation_date}T00:00:00Z` : null
+
+  const traces = [...new Set(parsed.entries.map(matchTraceFor).filter((t): t is string => Boolean(t)))]
+  const rowsByTrace = new Map<string, NachaFileEntryRow>()
+
+  if (traces.length > 0) {
+    const { data: rows, error } = await supabase
+      .from('nacha_file_entries')
+      .select('id, payout_transaction_id, trace_number, status')
+      .eq('ledger_id', ledgerId)
+      .in('trace_number', traces)
+
+    if (error) {
+      console.error('Failed to load NACHA file entries:', error)
+      return { ok: false, error: 'Failed to match NACHA entries', error_code: 'nacha_match_failed', status: 500 }
+    }
+
+    for (const row of (rows || []) as NachaFileEntryRow[]) rowsByTrace.set(row.trace_number, row)
+  }
+
+  const results: NachaEntryResult[] = []
+
+  for (const entry of parsed.entries) {
+    const trace = matchTraceFor(entry)
+    const row = trace ? rowsByTrace.get(trace) : undefined
+    const base: NachaEntryResult = {
+      line_number: entry.line_number,
+      kind: entry.kind,
+      trace_number: trace,
+      payout_id: row?.payout_transaction_id ?? null,
+      outcome: 'unmatched',
+      ...(entry.return_code ? { return_code: entry.return_code } : {}),
+      ...(entry.change_code ? { change_code: entry.change_code } : {}),
+    }
+
+    if (!row) {
+      results.push(base)
+      continue
+    }
+
+    if (entry.kind === 'noc') {
+      results.push(await applyNoc(supabase, ledgerId, entry, row, base))
+    } else if (entry.kind === 'return') {
+      results.push(
+        fileType === 'return'
+          ? await applyReturn(supabase, ledgerId, entry, row, returnedAt, base)
+          : await applyRejection(supabase, ledgerId, entry, row, base),
+      )
+    } else if (fileType === 'acknowledgment') {
+      results.push(await applyAcknowledgment(supabase, ledgerId, row, base))
+    } else {
+      results.push({ ...base, outcome: 'ignored' })
+    }
+  }
+
+  const counts = emptyCounts()
+  for (const result of results) counts[result.outcome]++
+
+  return {
+    ok: true,
+    file_type: fileType,
+    file_creation_date: parsed.file_creation_date,
+    entry_count: parsed.entries.length,
+    counts,
+    entries: results,
+    parse_errors: parsed.errors,
+  }
+}
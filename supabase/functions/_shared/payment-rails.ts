@@ -0,0 +1,711 @@
+// SERVICE_ID: SVC_PAYMENT_RAILS
+// Payout rail registry. Each rail owns its config validation, execution,
+// status polling and the mapping of processor webhook statuses onto rail status.
+// Shared-merchant invariant: processor rails use platform-managed credentials only.
+
+import { isProduction } from './utils.ts'
+import { getPaymentProvider } from './payment-provider.ts'
+import { sendACH, getTransactionStatus as getMercuryTxnStatus } from './mercury-client.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Public rail names are whitelabeled. Rails are looked up by name at runtime,
+// so registering a new rail does not require widening a union here.
+export type PayoutRail = string
+
+export type RailStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface RailFeeSchedule {
+  /** Percentage of the payout amount, e.g. 1.5 for 1.5% */
+  percent?: number
+  fixed_cents?: number
+  min_cents?: number
+  max_cents?: number
+  paid_by?: 'creator' | 'platform'
+}
+
+export interface RailConfig {
+  rail: PayoutRail
+  enabled: boolean
+  credentials?: Record<string, string>
+  settings?: Record<string, any>
+}
+
+export interface PayoutResult {
+  success: boolean
+  payout_id: string
+  rail: PayoutRail
+  external_id?: string
+  status: RailStatus
+  error?: string
+  metadata?: Record<string, any>
+}
+
+export interface CreatorPayoutDetails {
+  payout_id: string
+  ledger_id: string
+  creator_id: string
+  creator_name: string
+  amount: number
+  currency: string
+  livemode?: boolean
+  payout_method?: {
+    rail: PayoutRail
+    account_id?: string
+    card_id?: string
+    bank_account?: {
+      routing_number: string
+      account_number: string
+      account_type: 'checking' | 'savings'
+    }
+    email?: string
+    wallet_address?: string
+  }
+}
+
+export interface PaymentRail {
+  name: PayoutRail
+  execute(payout: CreatorPayoutDetails, config: RailConfig): Promise<PayoutResult>
+  getStatus(externalId: string, config: RailConfig): Promise<PayoutResult>
+  validateConfig(config: RailConfig): { valid: boolean; errors: string[] }
+  /** Map a processor webhook status onto this rail's status. */
+  mapWebhookStatus(status: string | undefined): RailStatus
+  /** Fee schedule applied when the ledger has not configured one. */
+  defaultFeeSchedule?: RailFeeSchedule
+}
+
+// ============================================================================
+// FEE SCHEDULES
+// ============================================================================
+
+export function validateFeeSchedule(value: unknown): string[] {
+  if (value === undefined || value === null) return []
+  if (typeof value !== 'object' || Array.isArray(value)) return ['fee_schedule must be an object']
+
+  const schedule = value as Record<string, unknown>
+  const errors: string[] = []
+
+  if (schedule.percent !== undefined) {
+    const percent = Number(schedule.percent)
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      errors.push('fee_schedule.percent must be between 0 and 100')
+    }
+  }
+  for (const key of ['fixed_cents', 'min_cents', 'max_cents']) {
+    if (schedule[key] === undefined) continue
+    const cents = Number(schedule[key])
+    if (!Number.isInteger(cents) || cents < 0) errors.push(`fee_schedule.${key} must be a non-negative integer`)
+  }
+  if (
+    schedule.min_cents !== undefined && schedule.max_cents !== undefined &&
+    Number(schedule.min_cents) > Number(schedule.max_cents)
+  ) {
+    errors.push('fee_schedule.min_cents cannot exceed max_cents')
+  }
+  if (schedule.paid_by !== undefined && schedule.paid_by !== 'creator' && schedule.paid_by !== 'platform') {
+    errors.push("fee_schedule.paid_by must be 'creator' or 'platform'")
+  }
+
+  return errors
+}
+
+/** The configured schedule wins; otherwise the rail's default, if any. */
+export function resolveFeeSchedule(rail: PaymentRail, config: RailConfig): RailFeeSchedule | null {
+  const configured = config.settings?.fee_schedule
+  if (configured && typeof configured === 'object' && validateFeeSchedule(configured).length === 0) {
+    return configured as RailFeeSchedule
+  }
+  return rail.defaultFeeSchedule || null
+}
+
+/** Fee in minor units for a payout amount in minor units. Percent fees round half up. */
+export function calculateRailFee(schedule: RailFeeSchedule | null, amountCents: number): number {
+  if (!schedule || amountCents <= 0) return 0
+
+  let fee = Math.round((amountCents * Number(schedule.percent || 0)) / 100) + Number(schedule.fixed_cents || 0)
+  if (schedule.min_cents !== undefined) fee = Math.max(fee, Number(schedule.min_cents))
+  if (schedule.max_cents !== undefined) fee = Math.min(fee, Number(schedule.max_cents))
+
+  return Math.max(0, Math.min(fee, amountCents))
+}
+
+// ============================================================================
+// CARD PROCESSOR RAIL
+// ============================================================================
+
+function mapProviderStatus(status: string | undefined): RailStatus {
+  const normalized = String(status || '').toLowerCase().trim()
+  if (normalized === 'succeeded' || normalized === 'completed' || normalized === 'settled') return 'completed'
+  if (normalized === 'failed' || normalized === 'canceled' || normalized === 'cancelled') return 'failed'
+  if (normalized === 'processing') return 'processing'
+  return 'pending'
+}
+
+// Processor webhook vocabulary, matching the inbox adapters' normalization.
+function mapProcessorWebhookStatus(status: string | undefined): RailStatus {
+  const normalized = String(status || '').toUpperCase().trim()
+  if (['SUCCEEDED', 'SETTLED', 'COMPLETED', 'SUCCESS'].includes(normalized)) return 'completed'
+  if (['FAILED', 'CANCELED', 'CANCELLED', 'REJECTED', 'DECLINED', 'RETURNED', 'ERROR'].includes(normalized)) return 'failed'
+  if (['PROCESSING', 'PENDING', 'CREATED', 'SENT', 'IN_PROGRESS'].includes(normalized)) return 'processing'
+  return 'pending'
+}
+
+class CardProcessorRail implements PaymentRail {
+  name: PayoutRail = 'card'
+
+  async execute(payout: CreatorPayoutDetails, _config: RailConfig): Promise<PayoutResult> {
+    const destination = payout.payout_method?.account_id || null
+    if (!destination) {
+      return {
+        success: false,
+        payout_id: payout.payout_id,
+        rail: this.name,
+        status: 'failed',
+        error: 'No destination account configured',
+      }
+    }
+
+    const operationKey =
+      (Deno.env.get('PROCESSOR_PAYOUT_OPERATION_KEY') || '').trim() || 'PUSH_TO_ACH'
+
+    return await pushProcessorTransfer(this.name, payout, destination, operationKey, `payout_${payout.payout_id}`)
+  }
+
+  async getStatus(externalId: string, _config: RailConfig): Promise<PayoutResult> {
+    return await getProcessorTransferStatus(this.name, externalId)
+  }
+
+  validateConfig(_config: RailConfig): { valid: boolean; errors: string[] } {
+    const errors = processorCredentialErrors()
+    return { valid: errors.length === 0, errors }
+  }
+
+  mapWebhookStatus(status: string | undefined): RailStatus {
+    return mapProcessorWebhookStatus(status)
+  }
+}
+
+// ============================================================================
+// INSTANT PAYOUT RAIL (push-to-debit-card through the processor)
+// ============================================================================
+
+class InstantPayoutRail implements PaymentRail {
+  name: PayoutRail = 'instant'
+
+  // Instant pushes cost more than ACH; the creator pays unless the ledger
+  // configures a different schedule.
+  defaultFeeSchedule: RailFeeSchedule = { percent: 1.5, min_cents: 50, paid_by: 'creator' }
+
+  async execute(payout: CreatorPayoutDetails, config: RailConfig): Promise<PayoutResult> {
+    const destination = payout.payout_method?.card_id || payout.payout_method?.account_id || null
+    if (!destination) {
+      return {
+        success: false,
+        payout_id: payout.payout_id,
+        rail: this.name,
+        status: 'failed',
+        error: 'No debit card configured for instant payouts',
+      }
+    }
+
+    const maxAmount = Number(config.settings?.max_amount || 0)
+    if (maxAmount > 0 && payout.amount > maxAmount) {
+      return {
+        success: false,
+        payout_id: payout.payout_id,
+        rail: this.name,
+        status: 'failed',
+        error: `Instant payouts are limited to ${maxAmount.toFixed(2)}`,
+      }
+    }
+
+    const operationKey =
+      (Deno.env.get('PROCESSOR_INSTANT_PAYOUT_OPERATION_KEY') || '').trim() || 'PUSH_TO_CARD'
+
+    return await pushProcessorTransfer(this.name, payout, destination, operationKey, `instant_payout_${payout.payout_id}`)
+  }
+
+  async getStatus(externalId: string, _config: RailConfig): Promise<PayoutResult> {
+    return await getProcessorTransferStatus(this.name, externalId)
+  }
+
+  validateConfig(config: RailConfig): { valid: boolean; errors: string[] } {
+    const errors = processorCredentialErrors()
+    if (config.settings?.max_amount !== undefined) {
+      const maxAmount = Number(config.settings.max_amount)
+      if (!Number.isFinite(maxAmount) || maxAmount <= 0) errors.push('max_amount must be a positive number')
+    }
+    return { valid: errors.length === 0, errors }
+  }
+
+  mapWebhookStatus(status: string | undefined): RailStatus {
+    // Card pushes settle within minutes; processors report "sent" once the
+    // network accepts the push.
+    const normalized = String(status || '').toLowerCase().trim()
+    if (normalized === 'sent' || normalized === 'paid') return 'completed'
+    return mapProcessorWebhookStatus(status)
+  }
+}
+
+function processorCredentialErrors(): string[] {
+  const errors: string[] = []
+
+  const baseUrl = Deno.env.get('PROCESSOR_BASE_URL') || ''
+  const username = Deno.env.get('PROCESSOR_USERNAME') || ''
+  const password = Deno.env.get('PROCESSOR_PASSWORD') || ''
+  const merchant = Deno.env.get('PROCESSOR_MERCHANT_ID') || ''
+
+  if (!baseUrl.trim()) errors.push('Processor base URL required')
+  if (!username.trim()) errors.push('Processor username required')
+  if (!password.trim()) errors.push('Processor password required')
+  if (!merchant.trim()) errors.push('Processor merchant required')
+
+  return errors
+}
+
+async function pushProcessorTransfer(
+  rail: PayoutRail,
+  payout: CreatorPayoutDetails,
+  destination: string,
+  operationKey: string,
+  idempotencyId: string,
+): Promise<PayoutResult> {
+  // Platform funding instrument (optional, depends on processor configuration).
+  const platformSource =
+    (Deno.env.get('PROCESSOR_PAYOUT_SOURCE_ID') || '').trim() || null
+
+  const processorNameRaw = (Deno.env.get('PROCESSOR_NAME') || '').trim()
+  if (!processorNameRaw && isProduction()) {
+    return {
+      success: false,
+      payout_id: payout.payout_id,
+      rail,
+      status: 'failed',
+      error: 'PROCESSOR_NAME must be configured in production',
+    }
+  }
+  const processorName = processorNameRaw || 'DUMMY_V1'
+
+  const provider = getPaymentProvider('card', { livemode: payout.livemode })
+  const result = await provider.createPaymentIntent({
+    amount: Math.round(payout.amount * 100),
+    currency: payout.currency.toUpperCase(),
+    description: `Payout ${payout.payout_id}`,
+    metadata: {
+      ledger_id: payout.ledger_id,
+      soledgic_ledger_id: payout.ledger_id,
+      soledgic_payout_id: payout.payout_id,
+      creator_id: payout.creator_id,
+    },
+    payment_method_id: platformSource || undefined,
+    destination_id: destination,
+    idempotency_id: idempotencyId,
+    operation_key: operationKey,
+    processor: processorName,
+  })
+
+  if (!result.success || !result.id) {
+    return {
+      success: false,
+      payout_id: payout.payout_id,
+      rail,
+      status: 'failed',
+      error: result.error || 'Processor transfer failed',
+    }
+  }
+
+  return {
+    success: true,
+    payout_id: payout.payout_id,
+    rail,
+    external_id: result.id,
+    status: mapProviderStatus(result.status),
+    metadata: { transfer_id: result.id },
+  }
+}
+
+async function getProcessorTransferStatus(rail: PayoutRail, externalId: string): Promise<PayoutResult> {
+  const provider = getPaymentProvider('card')
+  const status = await provider.getPaymentStatus(externalId)
+  if (!status.success) {
+    return {
+      success: false,
+      payout_id: '',
+      rail,
+      external_id: externalId,
+      status: 'failed',
+      error: status.error || 'Processor status lookup failed',
+    }
+  }
+
+  return {
+    success: true,
+    payout_id: '',
+    rail,
+    external_id: externalId,
+    status: mapProviderStatus(status.status),
+  }
+}
+
+// ============================================================================
+// MANUAL BANK FILE RAIL (NACHA/ACH file generation)
+// ============================================================================
+
+export class ManualBankFileRail implements PaymentRail {
+  name: PayoutRail
+
+  constructor(name: PayoutRail = 'manual') {
+    this.name = name
+  }
+
+  async execute(payout: CreatorPayoutDetails, config: RailConfig): Promise<PayoutResult> {
+    return {
+      success: true,
+      payout_id: payout.payout_id,
+      rail: this.name,
+      external_id: `manual_${payout.payout_id}`,
+      status: 'pending',
+      metadata: {
+        requires_batch_file: true,
+        // SECURITY: Don't include full bank account in response
+        bank_account_last4: payout.payout_method?.bank_account?.account_number?.slice(-4),
+      },
+    }
+  }
+
+  async getStatus(externalId: string, config: RailConfig): Promise<PayoutResult> {
+    return { success: true, payout_id: '', rail: this.name, external_id: externalId, status: 'pending' }
+  }
+
+  validateConfig(config: RailConfig): { valid: boolean; errors: string[] } {
+    const errors: string[] = []
+
+    // NACHA is extremely strict. Defaults are OK for sandbox/dev demos but
+    // should never be used in production.
+    if (isProduction()) {
+      const companyId = (config.settings?.company_id || '').toString().trim()
+      const originatingDfi = (config.settings?.originating_dfi || '').toString().trim()
+      const bankName = (config.settings?.bank_name || '').toString().trim()
+      const companyName = (config.settings?.company_name || '').toString().trim()
+
+      if (!companyId) errors.push('company_id is required for NACHA generation')
+      if (!originatingDfi) errors.push('originating_dfi is required for NACHA generation')
+      if (!bankName) errors.push('bank_name is required for NACHA generation')
+      if (!companyName) errors.push('company_name is required for NACHA generation')
+    }
+
+    return { valid: errors.length === 0, errors }
+  }
+
+  mapWebhookStatus(status: string | undefined): RailStatus {
+    // Bank files settle out of band; only processor-reported transfers land here.
+    return mapProcessorWebhookStatus(status)
+  }
+
+  /**
+   * Build an outbound PPD credit file. Pass the trace numbers reserved in
+   * nacha_file_entries so bank returns can be matched back to each payout;
+   * without them entries fall back to a per-file sequence.
+   */
+  generateNACHAFile(
+    payouts: CreatorPayoutDetails[],
+    config: RailConfig,
+    traceNumbers: Record<string, string> = {},
+  ): string {
+    const bankNameRaw = (config.settings?.bank_name || 'BANK NAME').toString()
+    const companyNameRaw = (config.settings?.company_name || 'SOLEDGIC').toString()
+    const companyIdRaw = (config.settings?.company_id || '1234567890').toString()
+    const originatingDfiRaw = (config.settings?.originating_dfi || '12345678').toString()
+
+    if (isProduction()) {
+      const { valid, errors } = this.validateConfig(config)
+      if (!valid) {
+        throw new Error(`Manual NACHA config invalid: ${errors.join(', ')}`)
+      }
+    }
+
+    const companyName = companyNameRaw.substring(0, 16).padEnd(16)
+    const companyId = companyIdRaw.padStart(10, '0')
+    const originatingDFI = originatingDfiRaw.substring(0, 8)
+    const batchNumber = (config.settings?.batch_number || '0000001').padStart(7, '0')
+    const now = new Date()
+    const effectiveDate = now.toISOString().slice(2, 10).replace(/-/g, '')
+    const fileCreationDate = now.toISOString().slice(2, 10).replace(/-/g, '')
+    const fileCreationTime = now.toTimeString().slice(0, 5).replace(':', '')
+
+    const lines: string[] = []
+
+    // File Header Record (1)
+    lines.push(
+      '1' +
+      '01' +
+      ' ' + originatingDFI.padStart(9, '0') +
+      ' ' + companyId.padStart(9, '0').substring(0, 9) +
+      fileCreationDate +
+      fileCreationTime +
+      'A' +
+      '094' +
+      '10' +
+      '1' +
+      bankNameRaw.substring(0, 23).padEnd(23) +
+      companyName.padEnd(23) +
+      ''.padEnd(8)
+    )
+
+    // Batch Header Record (5)
+    lines.push(
+      '5' +
+      '220' +
+      companyName +
+      ''.padEnd(20) +
+      companyId +
+      'PPD' +
+      'PAYOUT'.padEnd(10) +
+      effectiveDate +
+      effectiveDate +
+      ''.padEnd(3) +
+      '1' +
+      originatingDFI +
+      batchNumber
+    )
+
+    // Entry Detail Records (6)
+    let entryHash = 0
+    let totalAmount = 0
+    let entryCount = 0
+
+    for (const payout of payouts) {
+      const bank = payout.payout_method?.bank_account
+      if (!bank) continue
+
+      const routingNumber = bank.routing_number.padStart(9, '0')
+      entryHash += parseInt(routingNumber.slice(0, 8))
+      const amountCents = Math.round(payout.amount * 100)
+      totalAmount += amountCents
+      entryCount++
+
+      lines.push(
+        '6' +
+        '22' +
+        routingNumber +
+        bank.account_number.padEnd(17).slice(0, 17) +
+        amountCents.toString().padStart(10, '0') +
+        payout.creator_id.padEnd(15).slice(0, 15) +
+        payout.creator_name.padEnd(22).slice(0, 22) +
+        '  ' +
+        '0' +
+        (traceNumbers[payout.payout_id] || originatingDFI + entryCount.toString().padStart(7, '0'))
+      )
+    }
+
+    // Batch Control Record (8)
+    lines.push(
+      '8' +
+      '220' +
+      entryCount.toString().padStart(6, '0') +
+      (entryHash % 10000000000).toString().padStart(10, '0') +
+      '0'.repeat(12) +
+      totalAmount.toString().padStart(12, '0') +
+      companyId +
+      ''.padEnd(19) +
+      ''.padEnd(6) +
+      originatingDFI +
+      batchNumber
+    )
+
+    // File Control Record (9)
+    const batchCount = 1
+    const blockCount = Math.ceil((lines.length + 1) / 10)
+
+    lines.push(
+      '9' +
+      batchCount.toString().padStart(6, '0') +
+      blockCount.toString().padStart(6, '0') +
+      entryCount.toString().padStart(8, '0') +
+      (entryHash % 10000000000).toString().padStart(10, '0') +
+      '0'.repeat(12) +
+      totalAmount.toString().padStart(12, '0') +
+      ''.padEnd(39)
+    )
+
+    while (lines.length % 10 !== 0) {
+      lines.push('9'.repeat(94))
+    }
+
+    return lines.join('\n')
+  }
+}
+
+class DisabledAliasRail implements PaymentRail {
+  name: PayoutRail
+  private readonly reason: string
+
+  constructor(name: PayoutRail, reason: string) {
+    this.name = name
+    this.reason = reason
+  }
+
+  async execute(payout: CreatorPayoutDetails, _config: RailConfig): Promise<PayoutResult> {
+    return {
+      success: false,
+      payout_id: payout.payout_id,
+      rail: this.name,
+      status: 'failed',
+      error: this.reason,
+    }
+  }
+
+  async getStatus(externalId: string, _config: RailConfig): Promise<PayoutResult> {
+    return {
+      success: false,
+      payout_id: '',
+      rail: this.name,
+      external_id: externalId,
+      status: 'failed',
+      error: this.reason,
+    }
+  }
+
+  validateConfig(_config: RailConfig): { valid: boolean; errors: string[] } {
+    return { valid: false, errors: [this.reason] }
+  }
+
+  mapWebhookStatus(status: string | undefined): RailStatus {
+    return mapProcessorWebhookStatus(status)
+  }
+}
+
+// ============================================================================
+// MERCURY ACH RAIL (direct bank transfer via Mercury API)
+// ============================================================================
+
+class MercuryACHRail implements PaymentRail {
+  name: PayoutRail = 'ach'
+
+  async execute(payout: CreatorPayoutDetails, _config: RailConfig): Promise<PayoutResult> {
+    // Mercury recipient ID must be stored in the creator's payout method
+    const mercuryRecipientId = payout.payout_method?.account_id || null
+    if (!mercuryRecipientId) {
+      return {
+        success: false,
+        payout_id: payout.payout_id,
+        rail: this.name,
+        status: 'failed',
+        error: 'No Mercury recipient configured for this creator. Set up bank account first.',
+      }
+    }
+
+    const result = await sendACH({
+      recipientId: mercuryRecipientId,
+      amountDollars: payout.amount, // amount is already in major units
+      description: `Payout to ${payout.creator_name} (${payout.payout_id})`,
+      idempotencyKey: `payout_${payout.payout_id}`,
+    })
+
+    if (!result.success) {
+      return {
+        success: false,
+        payout_id: payout.payout_id,
+        rail: this.name,
+        status: 'failed',
+        error: result.error || 'Mercury ACH transfer failed',
+      }
+    }
+
+    return {
+      success: true,
+      payout_id: payout.payout_id,
+      rail: this.name,
+      external_id: result.transactionId,
+      status: this.mapWebhookStatus(result.status),
+      metadata: { mercury_transaction_id: result.transactionId },
+    }
+  }
+
+  async getStatus(externalId: string, _config: RailConfig): Promise<PayoutResult> {
+    const txn = await getMercuryTxnStatus(externalId)
+    if (!txn) {
+      return {
+        success: false,
+        payout_id: '',
+        rail: this.name,
+        external_id: externalId,
+        status: 'failed',
+        error: 'Mercury transaction not found',
+      }
+    }
+
+    return {
+      success: true,
+      payout_id: '',
+      rail: this.name,
+      external_id: externalId,
+      status: this.mapWebhookStatus(txn.status),
+    }
+  }
+
+  validateConfig(_config: RailConfig): { valid: boolean; errors: string[] } {
+    const errors: string[] = []
+    if (!Deno.env.get('MERCURY_API_KEY')?.trim()) errors.push('MERCURY_API_KEY required')
+    if (!Deno.env.get('MERCURY_ACCOUNT_ID')?.trim()) errors.push('MERCURY_ACCOUNT_ID required')
+    return { valid: errors.length === 0, errors }
+  }
+
+  mapWebhookStatus(status: string | undefined): RailStatus {
+    const s = String(status || '').toLowerCase()
+    if (s === 'sent' || s === 'completed') return 'completed'
+    if (s === 'failed' || s === 'cancelled') return 'failed'
+    if (s === 'pending') return 'pending'
+    return 'processing'
+  }
+}
+
+// ============================================================================
+// RAIL REGISTRY
+// ============================================================================
+
+const RAILS = new Map<PayoutRail, PaymentRail>()
+const RAIL_ALIASES = new Map<string, PayoutRail>()
+
+/** Register a rail under its name plus any request-side aliases. Later registrations replace earlier ones. */
+export function registerPaymentRail(rail: PaymentRail, aliases: string[] = []): void {
+  RAILS.set(rail.name, rail)
+  RAIL_ALIASES.set(rail.name, rail.name)
+  for (const alias of aliases) {
+    RAIL_ALIASES.set(alias, rail.name)
+  }
+}
+
+export function getPaymentRail(name: PayoutRail | null | undefined): PaymentRail | null {
+  if (!name) return null
+  return RAILS.get(name) || null
+}
+
+export function listPaymentRails(): PaymentRail[] {
+  return Array.from(RAILS.values())
+}
+
+export function normalizeRail(value?: string | null): PayoutRail | null {
+  if (!value) return null
+  return RAIL_ALIASES.get(value) || null
+}
+
+const ALLOW_LEGACY_MANUAL_RAIL_ALIASES =
+  (Deno.env.get('ALLOW_LEGACY_MANUAL_RAIL_ALIASES') || '').trim().toLowerCase() === 'true'
+
+registerPaymentRail(new MercuryACHRail(), ['bank', 'mercury'])
+registerPaymentRail(new CardProcessorRail(), ['processor', 'primary'])
+registerPaymentRail(new InstantPayoutRail(), ['instant_card', 'push_to_card'])
+registerPaymentRail(new ManualBankFileRail('manual'))
+registerPaymentRail(
+  ALLOW_LEGACY_MANUAL_RAIL_ALIASES
+    ? new ManualBankFileRail('wise')
+    : new DisabledAliasRail('wise', 'Rail "wise" is disabled. Use "card" or "manual".'),
+)
+registerPaymentRail(
+  ALLOW_LEGACY_MANUAL_RAIL_ALIASES
+    ? new ManualBankFileRail('crypto')
+    : new DisabledAliasRail('crypto', 'Rail "crypto" is disabled. Use "card" or "manual".'),
+)
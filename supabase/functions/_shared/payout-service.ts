@@ -18,6 +18,7 @@ import {
 } from './treasury-resource.ts'
 import { loadOrgCapabilities, getDailyPayoutTotal, checkPayoutAllowed } from './capabilities.ts'
 import { recordRiskSignal, checkLargeTransaction } from './risk-engine.ts'
+import { checkCreatorDebtPayoutBlock } from './creator-receivables-service.ts'
 
 export interface PayoutRequest {
   wallet_id?: string
@@ -190,6 +191,18 @@ export async function processPayoutResponse(
     return resourceError(capCheck.reason || 'Payout blocked by organization limits', 403, {}, 'capability_blocked')
   }
 
+  // Negative balance gate: net earnings against open creator debts first, and
+  // refuse the payout if the ledger blocks payouts until they are recovered
+  const debtCheck = await checkCreatorDebtPayoutBlock(supabase, ledger, participantId, requestId)
+  if (debtCheck.blocked) {
+    return resourceError(
+      'Participant has an outstanding negative balance; payouts are blocked until it is recovered',
+      409,
+      { outstanding_debt: debtCheck.outstanding },
+      'creator_debt_outstanding',
+    )
+  }
+
   const { data: rpcResult, error: rpcError } = await callProcessPayoutRpcWithRetry(supabase, {
     p_ledger_id: ledger.id,
     p_reference_id: referenceId,
@@ -218,6 +231,7 @@ export async function processPayoutResponse(
     gross_payout?: number
     fees?: number
     net_to_creator?: number
+    backup_withheld?: number
     previous_balance?: number
     new_balance?: number
     ledger_balance?: number
@@ -275,6 +289,8 @@ export async function processPayoutResponse(
   const payoutAmount = result.gross_payout!
   const feesAmount = result.fees!
   const netToParticipant = result.net_to_creator!
+  // Already deducted from net_to_creator; kept back for the IRS
+  const backupWithheld = Number(result.backup_withheld || 0)
   const previousBalance = result.previous_balance!
   const newBalance = result.new_balance!
 
@@ -358,6 +374,7 @@ export async function processPayoutResponse(
           gross_payout: payoutAmount,
           fees: feesAmount,
           net_amount: netToParticipant,
+          backup_withholding: backupWithheld,
           previous_balance: previousBalance,
           new_balance: newBalance,
           created_at: new Date().toISOString(),
@@ -443,8 +460,248 @@ export async function processPayoutResponse(
       gross_amount: payoutAmount,
       fees: feesAmount,
       net_amount: netToParticipant,
+      backup_withholding: backupWithheld,
       previous_balance: previousBalance,
       new_balance: newBalance,
     },
   })
 }
+
+// ============================================================================
+// PAYOUT RETURNS
+// ============================================================================
+
+export type PayoutReturnSource = 'api' | 'webhook' | 'nacha_file'
+
+export interface PayoutReturnInput {
+  return_code: string
+  reason?: string | null
+  source: PayoutReturnSource
+  returned_at?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface ReturnPayoutRequest {
+  return_code?: string
+  reason?: string
+  returned_at?: string
+}
+
+export type PayoutReturnResult =
+  | {
+      ok: true
+      payout_id: string
+      return_transaction_id: string
+      return_code: string
+      requires_new_bank_details: boolean
+      created: boolean
+    }
+  | { ok: false; error: string; error_code: string; status: number }
+
+/** NACHA return reason codes a payout (ACH credit) can come back with. */
+export const ACH_RETURN_REASONS: Record<string, string> = {
+  R01: 'Insufficient funds',
+  R02: 'Account closed',
+  R03: 'No account / unable to locate account',
+  R04: 'Invalid account number',
+  R06: 'Returned per ODFI request',
+  R07: 'Authorization revoked by customer',
+  R08: 'Payment stopped',
+  R09: 'Uncollected funds',
+  R10: 'Customer advises not authorized',
+  R11: 'Customer advises entry not in accordance with authorization',
+  R12: 'Account sold to another DFI',
+  R13: 'Invalid ACH routing number',
+  R14: 'Representative payee deceased',
+  R15: 'Beneficiary or account holder deceased',
+  R16: 'Account frozen',
+  R17: 'File record edit criteria',
+  R20: 'Non-transaction account',
+  R23: 'Credit entry refused by receiver',
+  R24: 'Duplicate entry',
+  R29: 'Corporate customer advises not authorized',
+}
+
+// Returns caused by the receiving bank's funds position or by our own ODFI;
+// the creator's bank details are still good and can be retried as-is.
+const TRANSIENT_RETURN_CODES = new Set(['R01', 'R06', 'R09', 'R24'])
+
+export function normalizeReturnCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const code = value.trim().toUpperCase()
+  return /^R\d{2}$/.test(code) ? code : null
+}
+
+export function requiresNewBankDetails(returnCode: string): boolean {
+  return !TRANSIENT_RETURN_CODES.has(returnCode)
+}
+
+function mapPayoutReturnRpcError(error: any): { error: string; error_code: string; status: number } {
+  const message = String(error?.message || '')
+  if (message.includes('Payout not found')) return { error: 'Payout not found', error_code: 'payout_not_found', status: 404 }
+  if (message.includes('Invalid return')) return { error: message, error_code: 'invalid_return_code', status: 400 }
+  if (message.includes('closed period') || message.includes('locked period')) {
+    return { error: message, error_code: 'period_closed', status: 409 }
+  }
+  console.error('Payout return RPC failed:', error)
+  return { error: 'Failed to record payout return', error_code: 'payout_return_failed', status: 500 }
+}
+
+/**
+ * Reverse a returned payout back into the creator balance. Shared by the
+ * payouts API and process-processor-inbox so postings, graph links and the
+ * payout.returned webhook are identical regardless of how the return arrived.
+ * @critical-path payout — restores creator balance after a bank return
+ */
+export async function recordPayoutReturn(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  payoutId: string,
+  input: PayoutReturnInput,
+): Promise<PayoutReturnResult> {
+  const returnCode = normalizeReturnCode(input.return_code)
+  if (!returnCode) {
+    return { ok: false, error: 'return_code must be a NACHA return code (R01-R99)', error_code: 'invalid_return_code', status: 400 }
+  }
+
+  const reason = input.reason || ACH_RETURN_REASONS[returnCode] || null
+  const needsNewBankDetails = requiresNewBankDetails(returnCode)
+
+  const { data, error } = await supabase.rpc('record_payout_return_atomic', {
+    p_ledger_id: ledgerId,
+    p_payout_transaction_id: payoutId,
+    p_return_code: returnCode,
+    p_return_reason: reason,
+    p_source: input.source,
+    p_requires_new_bank_details: needsNewBankDetails,
+    p_returned_at: input.returned_at || null,
+    p_metadata: input.metadata || {},
+  })
+
+  if (error) return { ok: false, ...mapPayoutReturnRpcError(error) }
+
+  const result = (data || {}) as Record<string, any>
+  if (result.status === 'error') {
+    if (result.error === 'return_code_conflict') {
+      return {
+        ok: false,
+        error: `Payout was already returned with ${result.return_code}`,
+        error_code: 'return_code_conflict',
+        status: 409,
+      }
+    }
+    return { ok: false, error: 'Payout has already been reversed', error_code: 'payout_already_reversed', status: 409 }
+  }
+
+  const returnTransactionId = String(result.transaction_id)
+  const created = result.status === 'created'
+
+  if (created) {
+    void autoLinkTransaction(supabase, ledgerId, {
+      id: returnTransactionId,
+      transaction_type: 'payout_return',
+      reverses: payoutId,
+      metadata: { return_code: returnCode },
+    })
+
+    Promise.resolve(
+      supabase.rpc('queue_webhook', {
+        p_ledger_id: ledgerId,
+        p_event_type: 'payout.returned',
+        p_payload: {
+          event: 'payout.returned',
+          data: {
+            payout_id: payoutId,
+            return_transaction_id: returnTransactionId,
+            creator_id: result.creator_id ?? null,
+            amount: Number(result.amount),
+            currency: result.currency ?? null,
+            return_code: returnCode,
+            return_reason: reason,
+            requires_new_bank_details: needsNewBankDetails,
+            source: input.source,
+            occurred_at: input.returned_at || new Date().toISOString(),
+          },
+        },
+      }),
+    ).then(({ error: webhookError }: any) => {
+      if (webhookError) console.error('Failed to queue payout.returned webhook:', webhookError)
+    })
+  }
+
+  return {
+    ok: true,
+    payout_id: payoutId,
+    return_transaction_id: returnTransactionId,
+    return_code: returnCode,
+    requires_new_bank_details: needsNewBankDetails,
+    created,
+  }
+}
+
+export async function returnPayoutResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  payoutId: string,
+  body: ReturnPayoutRequest,
+  requestId: string,
+): Promise<ResourceResult> {
+  const payoutUuid = validateUUID(payoutId)
+  if (!payoutUuid) {
+    return resourceError('payout_id must be a UUID', 400, {}, 'invalid_payout_id')
+  }
+
+  if (!normalizeReturnCode(body.return_code)) {
+    return resourceError('return_code must be a NACHA return code (R01-R99)', 400, {}, 'invalid_return_code')
+  }
+
+  let returnedAt: string | null = null
+  if (body.returned_at) {
+    const parsed = new Date(body.returned_at)
+    if (Number.isNaN(parsed.getTime())) {
+      return resourceError('returned_at must be an ISO 8601 timestamp', 400, {}, 'invalid_returned_at')
+    }
+    returnedAt = parsed.toISOString()
+  }
+
+  const result = await recordPayoutReturn(supabase, ledger.id, payoutUuid, {
+    return_code: body.return_code as string,
+    reason: body.reason ? validateString(body.reason, 500) : null,
+    source: 'api',
+    returned_at: returnedAt,
+  })
+
+  if (!result.ok) {
+    return resourceError(result.error, result.status, {}, result.error_code)
+  }
+
+  if (result.created) {
+    await createAuditLog(supabase, req, {
+      ledger_id: ledger.id,
+      action: 'payout_returned',
+      entity_type: 'transaction',
+      entity_id: payoutUuid,
+      actor_type: 'api',
+      request_body: sanitizeForAudit({
+        return_code: result.return_code,
+        return_transaction_id: result.return_transaction_id,
+        requires_new_bank_details: result.requires_new_bank_details,
+      }),
+      response_status: 201,
+      risk_score: 40,
+    }, requestId)
+  }
+
+  return resourceOk({
+    success: true,
+    created: result.created,
+    payout_return: {
+      payout_id: result.payout_id,
+      return_transaction_id: result.return_transaction_id,
+      return_code: result.return_code,
+      return_reason: ACH_RETURN_REASONS[result.return_code] ?? null,
+      requires_new_bank_details: result.requires_new_bank_details,
+    },
+  }, result.created ? 201 : 200)
+}
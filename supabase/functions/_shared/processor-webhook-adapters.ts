@@ -30,6 +30,10 @@ export interface NormalizedProcessorEvent {
   ledger_id: string | null
   kind: NormalizedProcessorEventKind
   status: NormalizedProcessorEventStatus
+  /** Status as sent by the processor, before normalization. Payout rails map it themselves. */
+  processor_status: string | null
+  /** NACHA return code (R01, R03, ...) when the processor reports a returned ACH transfer. */
+  return_code: string | null
   amount_minor_units: number | null
   currency: string | null
   tags: Record<string, string>
@@ -139,6 +143,25 @@ function mapStatus(value: string | null): NormalizedProcessorEventStatus {
   return value ? 'unknown' : 'unknown'
 }
 
+function extractReturnCode(payload: any): string | null {
+  const ef = extractEmbeddedFirst(payload)
+  const candidates = [
+    ef?.return_code,
+    ef?.return_reason_code,
+    ef?.failure_code,
+    payload?.data?.object?.return_code,
+    payload?.data?.object?.failure_code,
+    payload?.resource?.return_code,
+    payload?.resource?.failure_code,
+    payload?.return_code,
+  ]
+  for (const v of candidates) {
+    const code = pickString(v, 8)?.toUpperCase()
+    if (code && /^R\d{2}$/.test(code)) return code
+  }
+  return null
+}
+
 function extractCurrency(payload: any): string | null {
   const ef = extractEmbeddedFirst(payload)
   const c =
@@ -270,6 +293,8 @@ class GenericJsonAdapter implements ProcessorWebhookAdapter {
         ledger_id: ledgerId,
         kind,
         status,
+        processor_status: statusCandidate,
+        return_code: extractReturnCode(payloadObj),
         amount_minor_units: amountMinorUnits,
         currency,
         tags,
@@ -0,0 +1,529 @@
+// SERVICE_ID: SVC_RECURRING_JOURNALS
+// Soledgic: auto-reversing accruals and recurring journal templates
+// An accrual or deferral booked through record-adjustment can auto-reverse:
+// it stores the first day of the next accounting period and the
+// run-recurring-journals cron posts the reversing entry on that date.
+// Recurring templates hold a balanced set of adjustment entries and a
+// weekly/monthly/quarterly/annual schedule; the same cron posts one instance
+// per due date through run_due_recurring_journals, which links every
+// instance after the first to the first as a 'recurring_child'.
+// Amounts are minor units (cents) at the API and major units in storage,
+// as record-adjustment books them.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+
+// ============================================================================
+// TYPES AND CONSTANTS
+// ============================================================================
+
+export const RECURRING_JOURNAL_TYPES = ['accrual', 'deferral', 'depreciation', 'reclassification', 'other'] as const
+export type RecurringJournalType = typeof RECURRING_JOURNAL_TYPES[number]
+
+export const RECURRENCE_INTERVALS = ['weekly', 'monthly', 'quarterly', 'annual'] as const
+export type RecurrenceInterval = typeof RECURRENCE_INTERVALS[number]
+
+export const RECURRING_JOURNAL_STATUSES = ['active', 'paused', 'ended'] as const
+
+/** Adjustment types that may auto-reverse at the start of the next period. */
+export const AUTO_REVERSE_TYPES = ['accrual', 'deferral'] as const
+
+const MAX_TEMPLATE_ENTRIES = 20
+
+export interface RecurringJournalEntryInput {
+  account_type: string
+  entity_id: string | null
+  entry_type: 'debit' | 'credit'
+  /** Minor units */
+  amount: number
+}
+
+export interface RecurringJournalTemplateInput {
+  name: string
+  adjustment_type: RecurringJournalType
+  reason: string
+  entries: RecurringJournalEntryInput[]
+  /** Minor units: total debits, which equal total credits */
+  amount: number
+  recurrence_interval: RecurrenceInterval
+  start_date: string
+  end_date: string | null
+  auto_reverse: boolean
+  prepared_by: string
+}
+
+const STATUS_ACTIONS: Record<string, { from: string[]; to: string; action: string }> = {
+  pause: { from: ['active'], to: 'paused', action: 'recurring_journal_paused' },
+  resume: { from: ['paused'], to: 'active', action: 'recurring_journal_resumed' },
+  end: { from: ['active', 'paused'], to: 'ended', action: 'recurring_journal_ended' },
+}
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) &&
+    new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)
+}
+
+/**
+ * The date `count` intervals after `startDate`. Months clamp to the last day
+ * like Postgres date arithmetic, so a schedule starting on the 31st posts on
+ * the last day of shorter months without drifting.
+ */
+export function addRecurrence(startDate: string, interval: RecurrenceInterval, count: number): string {
+  const start = new Date(`${startDate}T00:00:00Z`)
+
+  if (interval === 'weekly') {
+    return new Date(start.getTime() + count * 7 * 86400000).toISOString().split('T')[0]
+  }
+
+  const months = count * (interval === 'monthly' ? 1 : interval === 'quarterly' ? 3 : 12)
+  const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + months) / 12)
+  const month = (start.getUTCMonth() + months) % 12
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay))).toISOString().split('T')[0]
+}
+
+/**
+ * First day of the accounting period after the one containing `date`, via
+ * next_accounting_period_start (the first of the next month when the ledger
+ * has no period covering the date).
+ */
+export async function resolveAutoReverseDate(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  date: string,
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('next_accounting_period_start', {
+    p_ledger_id: ledgerId,
+    p_date: date,
+  })
+
+  if (error || typeof data !== 'string') {
+    console.error('Failed to resolve auto-reverse date:', error)
+    return null
+  }
+  return data
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function validateRecurringJournalTemplate(
+  value: Record<string, unknown>,
+  today: string,
+): { template?: RecurringJournalTemplateInput; error?: string } {
+  const name = typeof value.name === 'string' ? validateString(value.name.trim(), 200) : null
+  if (!name) return { error: 'name is required' }
+
+  const adjustmentType = value.adjustment_type
+  if (!(RECURRING_JOURNAL_TYPES as readonly unknown[]).includes(adjustmentType)) {
+    return { error: `adjustment_type must be one of: ${RECURRING_JOURNAL_TYPES.join(', ')}` }
+  }
+
+  const reason = typeof value.reason === 'string' ? validateString(value.reason, 1000) : null
+  if (!reason) return { error: 'reason is required' }
+
+  const preparedBy = typeof value.prepared_by === 'string' ? validateString(value.prepared_by, 200) : null
+  if (!preparedBy) return { error: 'prepared_by is required' }
+
+  if (!Array.isArray(value.entries) || value.entries.length < 2 || value.entries.length > MAX_TEMPLATE_ENTRIES) {
+    return { error: `entries must have between 2 and ${MAX_TEMPLATE_ENTRIES} lines` }
+  }
+
+  const entries: RecurringJournalEntryInput[] = []
+  let debits = 0
+  let credits = 0
+  for (const raw of value.entries) {
+    const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+    const accountType = validateId(entry.account_type, 50)
+    if (!accountType) return { error: 'Each entry needs a valid account_type' }
+
+    let entityId: string | null = null
+    if (entry.entity_id !== undefined && entry.entity_id !== null) {
+      entityId = validateId(entry.entity_id, 100)
+      if (!entityId) return { error: `Invalid entity_id for ${accountType}` }
+    }
+
+    if (entry.entry_type !== 'debit' && entry.entry_type !== 'credit') {
+      return { error: 'entry_type must be debit or credit' }
+    }
+
+    const amount = entry.amount
+    if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+      return { error: 'Entry amounts must be positive integers in cents' }
+    }
+
+    if (entry.entry_type === 'debit') debits += amount
+    else credits += amount
+    entries.push({ account_type: accountType, entity_id: entityId, entry_type: entry.entry_type, amount })
+  }
+
+  if (debits !== credits) {
+    return { error: `Entries must balance (debits ${debits}, credits ${credits})` }
+  }
+
+  const interval = value.recurrence_interval
+  if (!(RECURRENCE_INTERVALS as readonly unknown[]).includes(interval)) {
+    return { error: `recurrence_interval must be one of: ${RECURRENCE_INTERVALS.join(', ')}` }
+  }
+
+  const startDate = value.start_date ?? today
+  if (!isIsoDate(startDate)) return { error: 'start_date must be YYYY-MM-DD' }
+  if (startDate < today) return { error: 'start_date cannot be in the past' }
+
+  let endDate: string | null = null
+  if (value.end_date !== undefined && value.end_date !== null) {
+    if (!isIsoDate(value.end_date)) return { error: 'end_date must be YYYY-MM-DD' }
+    if (value.end_date < startDate) return { error: 'end_date must be on or after start_date' }
+    endDate = value.end_date
+  }
+
+  const autoReverse = value.auto_reverse === true
+  if (value.auto_reverse !== undefined && typeof value.auto_reverse !== 'boolean') {
+    return { error: 'auto_reverse must be a boolean' }
+  }
+  if (autoReverse && !(AUTO_REVERSE_TYPES as readonly unknown[]).includes(adjustmentType)) {
+    return { error: `auto_reverse is only available for ${AUTO_REVERSE_TYPES.join(' and ')} journals` }
+  }
+
+  return {
+    template: {
+      name,
+      adjustment_type: adjustmentType as RecurringJournalType,
+      reason,
+      entries,
+      amount: debits,
+      recurrence_interval: interval as RecurrenceInterval,
+      start_date: startDate,
+      end_date: endDate,
+      auto_reverse: autoReverse,
+      prepared_by: preparedBy,
+    },
+  }
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+function toCents(value: unknown): number {
+  return Math.round(Number(value || 0) * 100)
+}
+
+function fromCents(cents: number): number {
+  return Math.round(cents) / 100
+}
+
+function mapTemplate(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    adjustment_type: row.adjustment_type,
+    reason: row.reason,
+    entries: (Array.isArray(row.entries) ? row.entries : []).map((entry: any) => ({
+      account_type: entry.account_type,
+      entity_id: entry.entity_id ?? null,
+      entry_type: entry.entry_type,
+      amount: toCents(entry.amount),
+    })),
+    amount: toCents(row.amount),
+    currency: row.currency,
+    recurrence_interval: row.recurrence_interval,
+    start_date: row.start_date,
+    end_date: row.end_date ?? null,
+    next_run_date: row.status === 'ended' ? null : row.next_run_date,
+    auto_reverse: row.auto_reverse === true,
+    status: row.status,
+    prepared_by: row.prepared_by,
+    occurrences_posted: row.occurrences_posted ?? 0,
+    root_transaction_id: row.root_transaction_id ?? null,
+    last_transaction_id: row.last_transaction_id ?? null,
+    last_run_at: row.last_run_at ?? null,
+    last_error: row.last_error ?? null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+function mapInstance(row: any) {
+  return {
+    adjustment_id: row.id,
+    transaction_id: row.transaction_id,
+    adjustment_date: row.adjustment_date,
+    auto_reverse_on: row.auto_reverse_on ?? null,
+    reversal_transaction_id: row.reversal_transaction_id ?? null,
+    reversed_at: row.reversed_at ?? null,
+  }
+}
+
+async function loadTemplate(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  templateIdRaw: string,
+): Promise<{ template?: any; error?: ResourceResult }> {
+  const templateId = validateUUID(templateIdRaw)
+  if (!templateId) {
+    return { error: resourceError('template_id must be a UUID', 400, {}, 'invalid_template_id') }
+  }
+
+  const { data: template } = await supabase
+    .from('recurring_journal_templates')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (!template) {
+    return { error: resourceError('Recurring journal template not found', 404, {}, 'recurring_journal_not_found') }
+  }
+  return { template }
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+export async function createRecurringJournalResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const today = new Date().toISOString().split('T')[0]
+  const validated = validateRecurringJournalTemplate(body, today)
+  if (validated.error) {
+    return resourceError(validated.error, 400, {}, 'invalid_recurring_journal')
+  }
+  const template = validated.template!
+
+  // Accounts are resolved again on every run; checking now catches typos
+  // before the first instance fails in the cron
+  for (const entry of template.entries) {
+    let accountQuery = supabase
+      .from('accounts')
+      .select('id')
+      .eq('ledger_id', ledger.id)
+      .eq('account_type', entry.account_type)
+
+    accountQuery = entry.entity_id
+      ? accountQuery.eq('entity_id', entry.entity_id)
+      : accountQuery.is('entity_id', null)
+
+    const { data: account } = await accountQuery.limit(1).maybeSingle()
+    if (!account) {
+      return resourceError(
+        `Account not found: ${entry.account_type}${entry.entity_id ? ` (${entry.entity_id})` : ''}`,
+        400,
+        {},
+        'account_not_found',
+      )
+    }
+  }
+
+  const { data: row, error } = await supabase
+    .from('recurring_journal_templates')
+    .insert({
+      ledger_id: ledger.id,
+      name: template.name,
+      adjustment_type: template.adjustment_type,
+      reason: template.reason,
+      entries: template.entries.map((entry) => ({ ...entry, amount: fromCents(entry.amount) })),
+      amount: fromCents(template.amount),
+      currency: 'USD',
+      recurrence_interval: template.recurrence_interval,
+      start_date: template.start_date,
+      end_date: template.end_date,
+      next_run_date: template.start_date,
+      auto_reverse: template.auto_reverse,
+      prepared_by: template.prepared_by,
+    })
+    .select('*')
+    .single()
+
+  if (error || !row) {
+    console.error(`[${requestId}] Failed to create recurring journal template:`, error)
+    return resourceError('Failed to create recurring journal template', 500, {}, 'recurring_journal_create_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'recurring_journal_created',
+    entity_type: 'recurring_journal_template',
+    entity_id: row.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      adjustment_type: template.adjustment_type,
+      amount: template.amount,
+      recurrence_interval: template.recurrence_interval,
+      start_date: template.start_date,
+      end_date: template.end_date,
+      auto_reverse: template.auto_reverse,
+      prepared_by: template.prepared_by,
+    }),
+    response_status: 201,
+    risk_score: 20,
+  }, requestId)
+
+  return resourceOk({ success: true, template: mapTemplate(row) }, 201)
+}
+
+export async function listRecurringJournalsResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: { status?: string; limit?: number },
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 50), 1), 200)
+
+  let query = supabase
+    .from('recurring_journal_templates')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.status) {
+    if (!(RECURRING_JOURNAL_STATUSES as readonly string[]).includes(filters.status)) {
+      return resourceError(
+        `status must be one of: ${RECURRING_JOURNAL_STATUSES.join(', ')}`,
+        400,
+        {},
+        'invalid_recurring_journal_status',
+      )
+    }
+    query = query.eq('status', filters.status)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list recurring journal templates:', error)
+    return resourceError('Failed to list recurring journal templates', 500, {}, 'recurring_journals_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    templates: (data || []).map(mapTemplate),
+  })
+}
+
+/** The next `count` run dates of a template, mirroring run_due_recurring_journals. */
+export function upcomingRunDates(template: any, count: number): string[] {
+  if (template.status === 'ended') return []
+
+  const dates: string[] = []
+  for (let i = 0; i < count; i++) {
+    const date = addRecurrence(template.start_date, template.recurrence_interval, (template.occurrences_posted ?? 0) + i)
+    if (template.end_date && date > template.end_date) break
+    dates.push(date)
+  }
+  return dates
+}
+
+/** A template with its next run dates and most recent posted instances. */
+export async function getRecurringJournalResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  templateIdRaw: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadTemplate(supabase, ledger.id, templateIdRaw)
+  if (loaded.error) return loaded.error
+
+  const { data: instances, error } = await supabase
+    .from('adjustment_journals')
+    .select('id, transaction_id, adjustment_date, auto_reverse_on, reversal_transaction_id, reversed_at')
+    .eq('ledger_id', ledger.id)
+    .eq('recurring_template_id', loaded.template.id)
+    .order('adjustment_date', { ascending: false })
+    .limit(24)
+
+  if (error) {
+    console.error('Failed to load recurring journal instances:', error)
+    return resourceError('Failed to load recurring journal template', 500, {}, 'recurring_journal_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    template: mapTemplate(loaded.template),
+    upcoming_run_dates: upcomingRunDates(loaded.template, 3),
+    instances: (instances || []).map(mapInstance),
+  })
+}
+
+/** pause, resume or end a template. Ended templates cannot be resumed. */
+export async function updateRecurringJournalStatusResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  templateIdRaw: string,
+  actionRaw: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  const transition = STATUS_ACTIONS[actionRaw]
+  if (!transition) {
+    return resourceError('Not found', 404, {}, 'not_found')
+  }
+
+  const loaded = await loadTemplate(supabase, ledger.id, templateIdRaw)
+  if (loaded.error) return loaded.error
+
+  if (!transition.from.includes(loaded.template.status)) {
+    return resourceError(
+      `Cannot ${actionRaw} a template that is ${loaded.template.status}`,
+      409,
+      { status: loaded.template.status },
+      'invalid_recurring_journal_transition',
+    )
+  }
+
+  const { data: row, error } = await supabase
+    .from('recurring_journal_templates')
+    .update({ status: transition.to, updated_at: new Date().toISOString() })
+    .eq('id', loaded.template.id)
+    .eq('status', loaded.template.status)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[${requestId}] Failed to update recurring journal template:`, error)
+    return resourceError('Failed to update recurring journal template', 500, {}, 'recurring_journal_update_failed')
+  }
+  if (!row) {
+    return resourceError('Template changed concurrently, retry', 409, {}, 'recurring_journal_conflict')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: transition.action,
+    entity_type: 'recurring_journal_template',
+    entity_id: row.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ from: loaded.template.status, to: transition.to }),
+    response_status: 200,
+    risk_score: 10,
+  }, requestId)
+
+  return resourceOk({ success: true, template: mapTemplate(row) })
+}
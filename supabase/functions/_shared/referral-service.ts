@@ -0,0 +1,492 @@
+// SERVICE_ID: SVC_REFERRALS
+// Soledgic: referral / affiliate commission program
+// An attribution pays a referrer a percent of the platform's share of a
+// referred creator's or customer's revenue for a time window. Commissions
+// are posted by post_referral_commissions after each sale or credit
+// redemption and clawed back pro rata by reverse_referral_commissions when
+// the sale is refunded. Referrers are ordinary participants.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+import { createLinks } from './transaction-graph.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const REFERRED_TYPES = ['creator', 'customer'] as const
+export type ReferredType = typeof REFERRED_TYPES[number]
+
+export const REFERRAL_STATUSES = ['active', 'ended'] as const
+export type ReferralStatus = typeof REFERRAL_STATUSES[number]
+
+export interface ReferralAttributionInput {
+  referrer_id: string
+  referred_type: ReferredType
+  referred_id: string
+  commission_percent: number
+  starts_at: string | null
+  ends_at: string | null
+  metadata: Record<string, unknown>
+}
+
+export interface ReferralAttributionsQuery {
+  referrer_id?: string
+  referred_type?: string
+  referred_id?: string
+  status?: string
+  limit?: number
+}
+
+/** A commission posted (or already on file) for one source transaction. */
+export interface ReferralCommission {
+  commission_id: string
+  attribution_id: string
+  referrer_id: string
+  transaction_id: string
+  amount: number
+}
+
+export interface ReferralReversal {
+  commission_id: string
+  referrer_id: string
+  transaction_id: string
+  commission_transaction_id: string
+  amount: number
+}
+
+function parseTimestamp(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) return undefined
+  return new Date(value).toISOString()
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate an attribution as sent by the API. referred_type defaults to
+ * creator; starts_at defaults to now in the database.
+ */
+export function validateReferralAttribution(
+  value: Record<string, unknown>,
+): { attribution?: ReferralAttributionInput; error?: string } {
+  const referrerId = validateId(value.referrer_id, 100)
+  if (!referrerId) return { error: 'Invalid referrer_id' }
+
+  const referredType = value.referred_type ?? 'creator'
+  if (!(REFERRED_TYPES as readonly unknown[]).includes(referredType)) {
+    return { error: `referred_type must be one of: ${REFERRED_TYPES.join(', ')}` }
+  }
+
+  const referredId = validateId(value.referred_id, 100)
+  if (!referredId) return { error: 'Invalid referred_id' }
+
+  if (referredType === 'creator' && referredId === referrerId) {
+    return { error: 'A creator cannot refer themselves' }
+  }
+
+  const percent = value.commission_percent
+  if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+    return { error: 'commission_percent must be greater than 0 and at most 100' }
+  }
+
+  const startsAt = parseTimestamp(value.starts_at)
+  if (startsAt === undefined) return { error: 'starts_at must be an ISO date' }
+  const endsAt = parseTimestamp(value.ends_at)
+  if (endsAt === undefined) return { error: 'ends_at must be an ISO date' }
+  if (endsAt && endsAt <= (startsAt ?? new Date().toISOString())) {
+    return { error: 'ends_at must be after starts_at' }
+  }
+
+  const metadata = value.metadata ?? {}
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return { error: 'metadata must be an object' }
+  }
+
+  return {
+    attribution: {
+      referrer_id: referrerId,
+      referred_type: referredType as ReferredType,
+      referred_id: referredId,
+      commission_percent: Math.round(percent * 100) / 100,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      metadata: metadata as Record<string, unknown>,
+    },
+  }
+}
+
+// ============================================================================
+// ATTRIBUTIONS
+// ============================================================================
+
+function mapAttribution(row: any) {
+  return {
+    id: row.id,
+    referrer_id: row.referrer_id,
+    referred_type: row.referred_type,
+    referred_id: row.referred_id,
+    commission_percent: Number(row.commission_percent),
+    starts_at: row.starts_at,
+    ends_at: row.ends_at ?? null,
+    status: row.status,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+  }
+}
+
+function mapCommission(row: any) {
+  return {
+    id: row.id,
+    source_transaction_id: row.source_transaction_id,
+    commission_transaction_id: row.commission_transaction_id,
+    base_amount: Number(row.base_amount),
+    amount: Number(row.amount),
+    reversed_amount: Number(row.reversed_amount),
+    created_at: row.created_at,
+  }
+}
+
+async function loadAttribution(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  attributionIdRaw: string,
+): Promise<{ attribution?: any; error?: ResourceResult }> {
+  const attributionId = validateId(attributionIdRaw, 100)
+  if (!attributionId) {
+    return { error: resourceError('attribution_id is invalid', 400, {}, 'invalid_attribution_id') }
+  }
+
+  const { data: attribution } = await supabase
+    .from('referral_attributions')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', attributionId)
+    .maybeSingle()
+
+  if (!attribution) {
+    return { error: resourceError('Referral attribution not found', 404, {}, 'referral_attribution_not_found') }
+  }
+  return { attribution }
+}
+
+export async function listReferralAttributionsResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: ReferralAttributionsQuery,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 100), 1), 500)
+
+  let query = supabase
+    .from('referral_attributions')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.referrer_id) query = query.eq('referrer_id', filters.referrer_id)
+  if (filters.referred_id) query = query.eq('referred_id', filters.referred_id)
+  if (filters.referred_type) {
+    if (!(REFERRED_TYPES as readonly string[]).includes(filters.referred_type)) {
+      return resourceError(`referred_type must be one of: ${REFERRED_TYPES.join(', ')}`, 400, {}, 'invalid_referred_type')
+    }
+    query = query.eq('referred_type', filters.referred_type)
+  }
+  if (filters.status) {
+    if (!(REFERRAL_STATUSES as readonly string[]).includes(filters.status)) {
+      return resourceError(`status must be one of: ${REFERRAL_STATUSES.join(', ')}`, 400, {}, 'invalid_referral_status')
+    }
+    query = query.eq('status', filters.status)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list referral attributions:', error)
+    return resourceError('Failed to list referral attributions', 500, {}, 'referral_attributions_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    attributions: (data || []).map(mapAttribution),
+  })
+}
+
+export async function createReferralAttributionResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const { attribution, error: validationError } = validateReferralAttribution(body)
+  if (!attribution) {
+    return resourceError(validationError || 'Invalid referral attribution', 400, {}, 'invalid_referral_attribution')
+  }
+
+  const { data: referrerAccount } = await supabase
+    .from('accounts')
+    .select('id, is_active')
+    .eq('ledger_id', ledger.id)
+    .eq('account_type', 'creator_balance')
+    .eq('entity_id', attribution.referrer_id)
+    .maybeSingle()
+
+  if (referrerAccount && referrerAccount.is_active === false) {
+    return resourceError(`Creator ${attribution.referrer_id} has been deleted`, 409, {}, 'referrer_deleted')
+  }
+
+  const { data: existing } = await supabase
+    .from('referral_attributions')
+    .select('id')
+    .eq('ledger_id', ledger.id)
+    .eq('referrer_id', attribution.referrer_id)
+    .eq('referred_type', attribution.referred_type)
+    .eq('referred_id', attribution.referred_id)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  if (existing) {
+    return resourceError('An active attribution already exists for this referrer and referred party', 409, {
+      attribution_id: existing.id,
+    }, 'referral_attribution_exists')
+  }
+
+  const { data: created, error } = await supabase
+    .from('referral_attributions')
+    .insert({
+      ledger_id: ledger.id,
+      referrer_id: attribution.referrer_id,
+      referred_type: attribution.referred_type,
+      referred_id: attribution.referred_id,
+      commission_percent: attribution.commission_percent,
+      ...(attribution.starts_at ? { starts_at: attribution.starts_at } : {}),
+      ends_at: attribution.ends_at,
+      metadata: attribution.metadata,
+    })
+    .select('*')
+    .single()
+
+  if (error || !created) {
+    console.error('Failed to create referral attribution:', error)
+    return resourceError('Failed to create referral attribution', 500, {}, 'referral_attribution_create_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'referral_attribution_created',
+    entity_type: 'referral_attribution',
+    entity_id: created.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      referrer_id: attribution.referrer_id,
+      referred_type: attribution.referred_type,
+      referred_id: attribution.referred_id,
+      commission_percent: attribution.commission_percent,
+      starts_at: created.starts_at,
+      ends_at: attribution.ends_at,
+    }),
+    response_status: 201,
+    risk_score: 20,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    attribution: mapAttribution(created),
+  }, 201)
+}
+
+export async function getReferralAttributionResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  attributionIdRaw: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadAttribution(supabase, ledger.id, attributionIdRaw)
+  if (loaded.error) return loaded.error
+  const attribution = loaded.attribution
+
+  const { data: commissions } = await supabase
+    .from('referral_commissions')
+    .select('id, source_transaction_id, commission_transaction_id, base_amount, amount, reversed_amount, created_at')
+    .eq('attribution_id', attribution.id)
+    .order('created_at', { ascending: false })
+    .limit(500)
+
+  const mapped = (commissions || []).map(mapCommission)
+  const earned = mapped.reduce((sum, c) => sum + c.amount, 0)
+  const reversed = mapped.reduce((sum, c) => sum + c.reversed_amount, 0)
+
+  return resourceOk({
+    success: true,
+    attribution: mapAttribution(attribution),
+    totals: {
+      commission_count: mapped.length,
+      earned: Math.round(earned * 100) / 100,
+      reversed: Math.round(reversed * 100) / 100,
+      net: Math.round((earned - reversed) * 100) / 100,
+    },
+    commissions: mapped,
+  })
+}
+
+/**
+ * Stop an attribution from earning. Commissions already posted stay and are
+ * still reversed if their sales are refunded.
+ */
+export async function endReferralAttributionResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  attributionIdRaw: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadAttribution(supabase, ledger.id, attributionIdRaw)
+  if (loaded.error) return loaded.error
+  const attribution = loaded.attribution
+
+  if (attribution.status !== 'active') {
+    return resourceError(`Referral attribution is already ${attribution.status}`, 409, {}, 'referral_attribution_not_active')
+  }
+
+  const now = new Date().toISOString()
+  const scheduledEnd = attribution.ends_at ? Date.parse(attribution.ends_at) : Infinity
+  // An attribution ended before it starts never earns anything
+  const endsAt = new Date(
+    Math.max(Math.min(Date.parse(now), scheduledEnd), Date.parse(attribution.starts_at)),
+  ).toISOString()
+
+  const { data: updated, error } = await supabase
+    .from('referral_attributions')
+    .update({ status: 'ended', ends_at: endsAt, updated_at: now })
+    .eq('id', attribution.id)
+    .eq('status', 'active')
+    .select('*')
+    .maybeSingle()
+
+  if (error || !updated) {
+    console.error('endReferralAttributionResponse error:', error)
+    return resourceError('Failed to end referral attribution', 500, {}, 'referral_attribution_update_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'referral_attribution_ended',
+    entity_type: 'referral_attribution',
+    entity_id: attribution.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      referrer_id: attribution.referrer_id,
+      referred_id: attribution.referred_id,
+      ends_at: endsAt,
+    }),
+    response_status: 200,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    attribution: mapAttribution(updated),
+  })
+}
+
+// ============================================================================
+// POSTING
+// ============================================================================
+
+/**
+ * Post the commissions owed on a sale or credit redemption and link each one
+ * to its source. Never throws: the source transaction is already committed,
+ * so a failure comes back as an error the caller can retry; the RPC is
+ * idempotent.
+ */
+export async function postReferralCommissions(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  transactionId: string,
+  requestId: string,
+): Promise<{ commissions: ReferralCommission[]; error?: string }> {
+  const { data, error } = await supabase.rpc('post_referral_commissions', {
+    p_ledger_id: ledgerId,
+    p_transaction_id: transactionId,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to post referral commissions for ${transactionId}:`, error)
+    return { commissions: [], error: error.message || 'Failed to post referral commissions' }
+  }
+
+  const commissions: ReferralCommission[] = (data || []).map((row: any) => ({
+    commission_id: row.out_commission_id,
+    attribution_id: row.out_attribution_id,
+    referrer_id: row.out_referrer_id,
+    transaction_id: row.out_transaction_id,
+    amount: Number(row.out_amount),
+  }))
+
+  await createLinks(supabase, ledgerId, commissions.map((commission) => ({
+    source_id: commission.transaction_id,
+    target_id: transactionId,
+    link_type: 'split' as const,
+    amount: commission.amount,
+    metadata: {
+      referral_attribution_id: commission.attribution_id,
+      referrer_id: commission.referrer_id,
+    },
+  })))
+
+  return { commissions }
+}
+
+/**
+ * Claw back commissions on the sale a refund reverses, in proportion to the
+ * amount refunded. Each reversal is linked to the commission it reverses.
+ */
+export async function reverseReferralCommissions(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  refundTransactionId: string,
+  requestId: string,
+): Promise<ReferralReversal[]> {
+  const { data, error } = await supabase.rpc('reverse_referral_commissions', {
+    p_ledger_id: ledgerId,
+    p_refund_transaction_id: refundTransactionId,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to reverse referral commissions for refund ${refundTransactionId}:`, error)
+    return []
+  }
+
+  const reversals: ReferralReversal[] = (data || []).map((row: any) => ({
+    commission_id: row.out_commission_id,
+    referrer_id: row.out_referrer_id,
+    transaction_id: row.out_transaction_id,
+    commission_transaction_id: row.out_commission_transaction_id,
+    amount: Number(row.out_amount),
+  }))
+
+  await createLinks(supabase, ledgerId, reversals.map((reversal) => ({
+    source_id: reversal.transaction_id,
+    target_id: reversal.commission_transaction_id,
+    link_type: 'reversal' as const,
+    amount: reversal.amount,
+    metadata: { refund_transaction_id: refundTransactionId },
+  })))
+
+  return reversals
+}
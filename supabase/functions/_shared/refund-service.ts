@@ -10,6 +10,9 @@ import {
 } from './utils.ts'
 import type { PaymentProvider } from './payment-provider.ts'
 import { autoLinkTransaction } from './transaction-graph.ts'
+import { reverseReferralCommissions, type ReferralReversal } from './referral-service.ts'
+import { reverseRevenueSchedule, type RevenueScheduleUnwind } from './revenue-recognition-service.ts'
+import { recordCreatorDebts, type CreatorDebtPosting } from './creator-receivables-service.ts'
 import {
   ResourceResult,
   resourceError,
@@ -19,6 +22,7 @@ import { checkRefundRate } from './risk-engine.ts'
 
 export interface RefundRequest {
   original_sale_reference: string
+  line_item_id?: string
   amount?: number
   reason: string
   refund_from?: 'both' | 'platform_only' | 'creator_only'
@@ -142,6 +146,57 @@ function mapRefundRow(row: any) {
   }
 }
 
+function referralReversalsBody(reversals: ReferralReversal[]) {
+  if (reversals.length === 0) return {}
+  return {
+    referral_reversals: reversals.map((reversal) => ({
+      referrer_id: reversal.referrer_id,
+      amount: reversal.amount,
+      transaction_id: reversal.transaction_id,
+      reverses: reversal.commission_transaction_id,
+    })),
+  }
+}
+
+function revenueUnwindsBody(unwinds: RevenueScheduleUnwind[]) {
+  if (unwinds.length === 0) return {}
+  return {
+    revenue_unwinds: unwinds.map((unwind) => ({
+      schedule_id: unwind.schedule_id,
+      amount: unwind.amount,
+      transaction_id: unwind.transaction_id,
+      reverses: unwind.deferral_transaction_id,
+    })),
+  }
+}
+
+function creatorDebtsBody(debts: CreatorDebtPosting[]) {
+  if (debts.length === 0) return {}
+  return {
+    creator_debts: debts.map((debt) => ({
+      debt_id: debt.debt_id,
+      creator_id: debt.creator_id,
+      amount: debt.amount,
+      transaction_id: debt.debt_transaction_id,
+    })),
+  }
+}
+
+/** Debts for creators the refund, or a commission clawback, left below zero. */
+async function recordRefundCreatorDebts(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  refundTransactionId: string,
+  referralReversals: ReferralReversal[],
+  requestId: string,
+): Promise<CreatorDebtPosting[]> {
+  const debts = await recordCreatorDebts(supabase, ledgerId, refundTransactionId, requestId)
+  for (const reversal of referralReversals) {
+    debts.push(...await recordCreatorDebts(supabase, ledgerId, reversal.transaction_id, requestId))
+  }
+  return debts
+}
+
 function mapPendingRefundRow(
   row: PendingProcessorRefundRow,
   originalSale: { reference_id?: string | null; currency?: string | null } | null,
@@ -294,10 +349,14 @@ export async function recordRefundResponse(
   requestId: string,
   provider?: PaymentProvider,
 ): Promise<ResourceResult> {
-  const originalRef = validateId(body.original_sale_reference, 255)
+  const requestedRef = body.original_sale_reference ? validateId(body.original_sale_reference, 255) : null
   const reason = validateString(body.reason, 500)
 
-  if (!originalRef) {
+  const lineItemId = body.line_item_id ? validateId(body.line_item_id, 100) : null
+  if (body.line_item_id !== undefined && !lineItemId) {
+    return resourceError('Invalid line_item_id', 400, {}, 'invalid_line_item_id')
+  }
+  if (!requestedRef && (body.original_sale_reference || !lineItemId)) {
     return resourceError('Invalid original_sale_reference', 400, {}, 'invalid_original_sale_reference')
   }
   if (!reason) {
@@ -340,6 +399,35 @@ export async function recordRefundResponse(
     return resourceError('Invalid processor_payment_id', 400, {}, 'invalid_processor_payment_id')
   }
 
+  // A multi-party checkout posts each line item as its own sale; refunding a
+  // line item refunds that sale. original_sale_reference, when also given,
+  // may name either the line's sale or the whole checkout.
+  let originalRef = requestedRef ?? ''
+  if (lineItemId) {
+    const { data: lineItem, error: lineItemError } = await supabase
+      .from('checkout_line_items')
+      .select('id, checkout_reference, reference_id')
+      .eq('ledger_id', ledger.id)
+      .eq('id', lineItemId)
+      .maybeSingle()
+
+    if (lineItemError) {
+      console.error(`[${requestId}] Failed to load checkout line item:`, lineItemError)
+      return resourceError('Failed to load line item', 500, {}, 'line_item_lookup_failed')
+    }
+    if (!lineItem) {
+      return resourceError('Line item not found', 404, {}, 'line_item_not_found')
+    }
+    if (requestedRef && requestedRef !== lineItem.reference_id && requestedRef !== lineItem.checkout_reference) {
+      return resourceError('line_item_id does not belong to original_sale_reference', 400, {}, 'line_item_sale_mismatch')
+    }
+    if (!lineItem.reference_id) {
+      return resourceError('Line item has not been posted to the ledger yet', 409, {}, 'line_item_not_posted')
+    }
+
+    originalRef = String(lineItem.reference_id)
+  }
+
   const { data: originalSale, error: saleError } = await supabase
     .from('transactions')
     .select('id, amount, currency, status, reference_id, metadata, reversed_by')
@@ -449,9 +537,10 @@ export async function recordRefundResponse(
     )
   }
 
-  const metadata = body.metadata && typeof body.metadata === 'object' && !Array.isArray(body.metadata)
-    ? body.metadata
-    : {}
+  const metadata = {
+    ...(body.metadata && typeof body.metadata === 'object' && !Array.isArray(body.metadata) ? body.metadata : {}),
+    ...(lineItemId ? { checkout_line_item_id: lineItemId } : {}),
+  }
 
   let refundRefId: string
   if (externalRefundId) {
@@ -598,6 +687,7 @@ export async function recordRefundResponse(
       actor_type: 'api',
       request_body: sanitizeForAudit({
         original_sale_reference: originalRef,
+        line_item_id: lineItemId,
         refund_amount_cents: refundedCents,
         refund_from: refundFrom,
         reason,
@@ -613,8 +703,17 @@ export async function recordRefundResponse(
       id: reservedRow.out_transaction_id,
       transaction_type: 'refund',
       reverses: originalSale.id,
+    }).catch((err: unknown) => {
+      console.error(`[${requestId}] Failed to link refund to original sale:`, err)
     })
 
+    // Claw back referral commissions in proportion to the amount refunded
+    const referralReversals = await reverseReferralCommissions(supabase, ledger.id, reservedRow.out_transaction_id, requestId)
+    // Revenue still deferred on the sale will never be earned
+    const revenueUnwinds = await reverseRevenueSchedule(supabase, ledger.id, reservedRow.out_transaction_id, requestId)
+    // Creators already paid out now owe what the refund took from them
+    const creatorDebts = await recordRefundCreatorDebts(supabase, ledger.id, reservedRow.out_transaction_id, referralReversals, requestId)
+
     Promise.resolve(
       supabase.rpc('queue_webhook', {
         p_ledger_id: ledger.id,
@@ -624,6 +723,7 @@ export async function recordRefundResponse(
           data: {
             transaction_id: reservedRow.out_transaction_id,
             original_sale_reference: originalRef,
+            line_item_id: lineItemId,
             refunded_amount: refundedCents / 100,
             from_creator: fromCreatorCents / 100,
             from_platform: fromPlatformCents / 100,
@@ -663,6 +763,9 @@ export async function recordRefundResponse(
           from_platform: fromPlatformCents / 100,
         },
         is_full_refund: Boolean(reservedRow.out_is_full_refund),
+        ...referralReversalsBody(referralReversals),
+        ...revenueUnwindsBody(revenueUnwinds),
+        ...creatorDebtsBody(creatorDebts),
       },
     })
   }
@@ -769,8 +872,17 @@ export async function recordRefundResponse(
     id: refundRow.out_transaction_id,
     transaction_type: 'refund',
     reverses: originalSale.id,
+  }).catch((err: unknown) => {
+    console.error(`[${requestId}] Failed to link refund to original sale:`, err)
   })
 
+  // Claw back referral commissions in proportion to the amount refunded
+  const referralReversals = await reverseReferralCommissions(supabase, ledger.id, refundRow.out_transaction_id, requestId)
+  // Revenue still deferred on the sale will never be earned
+  const revenueUnwinds = await reverseRevenueSchedule(supabase, ledger.id, refundRow.out_transaction_id, requestId)
+  // Creators already paid out now owe what the refund took from them
+  const creatorDebts = await recordRefundCreatorDebts(supabase, ledger.id, refundRow.out_transaction_id, referralReversals, requestId)
+
   Promise.resolve(
     supabase.rpc('queue_webhook', {
       p_ledger_id: ledger.id,
@@ -819,6 +931,9 @@ export async function recordRefundResponse(
         from_platform: fromPlatformCents / 100,
       },
       is_full_refund: Boolean(refundRow.out_is_full_refund),
+      ...referralReversalsBody(referralReversals),
+      ...revenueUnwindsBody(revenueUnwinds),
+      ...creatorDebtsBody(creatorDebts),
     },
   })
 }
@@ -0,0 +1,554 @@
+// SERVICE_ID: SVC_REVENUE_RECOGNITION
+// Soledgic: revenue recognition schedules
+// A schedule defers the platform's share of a sale to unearned_revenue and
+// releases it to platform_revenue straight-line by month or by milestone.
+// create_revenue_schedule posts the deferral, the recognize-deferred-revenue
+// cron releases due lines, and reverse_revenue_schedule unwinds the
+// unrecognized remainder when the sale is refunded.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+import { createLinks } from './transaction-graph.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const RECOGNITION_METHODS = ['straight_line', 'milestone'] as const
+export type RecognitionMethod = typeof RECOGNITION_METHODS[number]
+
+export const REVENUE_SCHEDULE_STATUSES = ['active', 'completed', 'canceled'] as const
+export type RevenueScheduleStatus = typeof REVENUE_SCHEDULE_STATUSES[number]
+
+export const MAX_SCHEDULE_MONTHS = 120
+export const MAX_SCHEDULE_MILESTONES = 50
+
+export interface RevenueMilestoneInput {
+  name: string
+  percent: number
+  /** Release date; omit to release when the milestone is completed */
+  recognize_on: string | null
+}
+
+export interface RevenueScheduleInput {
+  method: RecognitionMethod
+  /** Straight-line only */
+  months: number | null
+  /** Defaults to the sale date in the database */
+  start_date: string | null
+  /** Milestone only */
+  milestones: RevenueMilestoneInput[] | null
+}
+
+export interface RevenueSchedulesQuery {
+  status?: string
+  source_transaction_id?: string
+  limit?: number
+}
+
+/** A schedule created (or already on file) for one sale. */
+export interface RevenueSchedulePosting {
+  schedule_id: string
+  deferral_transaction_id: string
+  total_amount: number
+  created: boolean
+}
+
+export interface RevenueScheduleUnwind {
+  schedule_id: string
+  transaction_id: string
+  deferral_transaction_id: string
+  amount: number
+}
+
+/** Movement on unearned_revenue for a period, in the functional currency. */
+export interface DeferredRevenueSummary {
+  opening_balance: number
+  deferred: number
+  recognized: number
+  unwound: number
+  closing_balance: number
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function parseDate(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return undefined
+  const parsed = new Date(`${value}T00:00:00Z`)
+  if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== value) return undefined
+  return value
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a recognition schedule as sent on record-sale or
+ * POST /revenue-recognition. Milestone percents must add up to 100.
+ */
+export function validateRevenueSchedule(
+  value: unknown,
+): { schedule?: RevenueScheduleInput; error?: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'recognition must be an object' }
+  }
+  const input = value as Record<string, unknown>
+
+  if (!(RECOGNITION_METHODS as readonly unknown[]).includes(input.method)) {
+    return { error: `recognition.method must be one of: ${RECOGNITION_METHODS.join(', ')}` }
+  }
+  const method = input.method as RecognitionMethod
+
+  const startDate = parseDate(input.start_date)
+  if (startDate === undefined) return { error: 'recognition.start_date must be a YYYY-MM-DD date' }
+
+  if (method === 'straight_line') {
+    const months = input.months
+    if (typeof months !== 'number' || !Number.isInteger(months) || months < 1 || months > MAX_SCHEDULE_MONTHS) {
+      return { error: `recognition.months must be an integer from 1 to ${MAX_SCHEDULE_MONTHS}` }
+    }
+    if (input.milestones !== undefined) {
+      return { error: 'recognition.milestones only applies to milestone schedules' }
+    }
+    return { schedule: { method, months, start_date: startDate, milestones: null } }
+  }
+
+  if (input.months !== undefined) {
+    return { error: 'recognition.months only applies to straight_line schedules' }
+  }
+
+  const rawMilestones = input.milestones
+  if (!Array.isArray(rawMilestones) || rawMilestones.length === 0 || rawMilestones.length > MAX_SCHEDULE_MILESTONES) {
+    return { error: `recognition.milestones must list 1 to ${MAX_SCHEDULE_MILESTONES} milestones` }
+  }
+
+  const milestones: RevenueMilestoneInput[] = []
+  for (const [index, raw] of rawMilestones.entries()) {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      return { error: `recognition.milestones[${index}] must be an object` }
+    }
+    const milestone = raw as Record<string, unknown>
+
+    const name = validateString(milestone.name, 200)
+    if (!name) return { error: `recognition.milestones[${index}].name is required` }
+
+    const percent = milestone.percent
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      return { error: `recognition.milestones[${index}].percent must be greater than 0 and at most 100` }
+    }
+
+    const recognizeOn = parseDate(milestone.recognize_on)
+    if (recognizeOn === undefined) {
+      return { error: `recognition.milestones[${index}].recognize_on must be a YYYY-MM-DD date` }
+    }
+
+    milestones.push({ name, percent: Math.round(percent * 100) / 100, recognize_on: recognizeOn })
+  }
+
+  const percentTotal = milestones.reduce((sum, m) => sum + Math.round(m.percent * 100), 0)
+  if (percentTotal !== 10000) {
+    return { error: 'recognition.milestones percents must add up to 100' }
+  }
+
+  return { schedule: { method, months: null, start_date: startDate, milestones } }
+}
+
+/**
+ * Straight-line schedule covering one subscription period. Only month and
+ * year intervals can be recognized ratably.
+ */
+export function ratableScheduleForPeriod(
+  interval: string,
+  intervalCount: number,
+  periodStart: string,
+): RevenueScheduleInput | null {
+  const months = interval === 'year' ? intervalCount * 12 : interval === 'month' ? intervalCount : 0
+  if (months < 1 || months > MAX_SCHEDULE_MONTHS) return null
+  return {
+    method: 'straight_line',
+    months,
+    start_date: periodStart.slice(0, 10),
+    milestones: null,
+  }
+}
+
+// ============================================================================
+// MAPPING AND LOADING
+// ============================================================================
+
+function mapSchedule(row: any) {
+  const total = Number(row.total_amount)
+  const recognized = Number(row.recognized_amount)
+  const unwound = Number(row.unwound_amount)
+  return {
+    id: row.id,
+    source_transaction_id: row.source_transaction_id,
+    deferral_transaction_id: row.deferral_transaction_id ?? null,
+    method: row.method,
+    currency: row.currency,
+    total_amount: total,
+    recognized_amount: recognized,
+    unwound_amount: unwound,
+    deferred_balance: Math.round((total - recognized - unwound) * 100) / 100,
+    start_date: row.start_date,
+    months: row.months ?? null,
+    status: row.status,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+  }
+}
+
+function mapLine(row: any) {
+  return {
+    line_number: Number(row.line_number),
+    name: row.name ?? null,
+    recognize_on: row.recognize_on ?? null,
+    amount: Number(row.amount),
+    status: row.status,
+    recognized_at: row.recognized_at ?? null,
+    recognition_transaction_id: row.recognition_transaction_id ?? null,
+  }
+}
+
+async function loadSchedule(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  scheduleIdRaw: string,
+): Promise<{ schedule?: any; error?: ResourceResult }> {
+  const scheduleId = validateUUID(scheduleIdRaw)
+  if (!scheduleId) {
+    return { error: resourceError('schedule_id is invalid', 400, {}, 'invalid_schedule_id') }
+  }
+
+  const { data: schedule } = await supabase
+    .from('revenue_schedules')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', scheduleId)
+    .maybeSingle()
+
+  if (!schedule) {
+    return { error: resourceError('Revenue schedule not found', 404, {}, 'revenue_schedule_not_found') }
+  }
+  return { schedule }
+}
+
+/** Map an RPC exception to an HTTP status; anything unexpected is a 500. */
+function scheduleErrorStatus(message: string): number {
+  if (/not found/i.test(message)) return 404
+  if (/has been|has refunds|no platform revenue|apply to sales/i.test(message)) return 409
+  if (/invalid|need|must add up/i.test(message)) return 400
+  return 500
+}
+
+// ============================================================================
+// POSTING
+// ============================================================================
+
+/**
+ * Defer a sale's platform revenue on a schedule and link the deferral to the
+ * sale. Idempotent: a sale has at most one schedule, and re-running returns
+ * it with created=false.
+ */
+export async function createRevenueSchedule(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  transactionId: string,
+  schedule: RevenueScheduleInput,
+  requestId: string,
+  metadata: Record<string, unknown> = {},
+): Promise<{ posting?: RevenueSchedulePosting; error?: string; status?: number }> {
+  const { data, error } = await supabase.rpc('create_revenue_schedule', {
+    p_ledger_id: ledgerId,
+    p_transaction_id: transactionId,
+    p_method: schedule.method,
+    p_start_date: schedule.start_date,
+    p_months: schedule.months,
+    p_milestones: schedule.milestones,
+    p_metadata: metadata,
+  })
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (error || !row) {
+    const message = error?.message || 'Failed to create revenue schedule'
+    const status = scheduleErrorStatus(message)
+    if (status === 500) {
+      console.error(`[${requestId}] Failed to create revenue schedule for ${transactionId}:`, error)
+      return { error: 'Failed to create revenue schedule', status }
+    }
+    return { error: message, status }
+  }
+
+  const posting: RevenueSchedulePosting = {
+    schedule_id: row.out_schedule_id,
+    deferral_transaction_id: row.out_deferral_transaction_id,
+    total_amount: Number(row.out_total_amount),
+    created: Boolean(row.out_created),
+  }
+
+  if (posting.created) {
+    await createLinks(supabase, ledgerId, [{
+      source_id: posting.deferral_transaction_id,
+      target_id: transactionId,
+      link_type: 'adjustment',
+      amount: posting.total_amount,
+      metadata: { revenue_schedule_id: posting.schedule_id },
+    }])
+  }
+
+  return { posting }
+}
+
+/**
+ * Unwind the unrecognized revenue on the sale a refund reverses. Never fails
+ * the caller: the refund is already committed and the RPC is idempotent.
+ */
+export async function reverseRevenueSchedule(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  refundTransactionId: string,
+  requestId: string,
+): Promise<RevenueScheduleUnwind[]> {
+  const { data, error } = await supabase.rpc('reverse_revenue_schedule', {
+    p_ledger_id: ledgerId,
+    p_refund_transaction_id: refundTransactionId,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to unwind revenue schedule for refund ${refundTransactionId}:`, error)
+    return []
+  }
+
+  const unwinds: RevenueScheduleUnwind[] = (data || []).map((row: any) => ({
+    schedule_id: row.out_schedule_id,
+    transaction_id: row.out_transaction_id,
+    deferral_transaction_id: row.out_deferral_transaction_id,
+    amount: Number(row.out_amount),
+  }))
+
+  await createLinks(supabase, ledgerId, unwinds.map((unwind) => ({
+    source_id: unwind.transaction_id,
+    target_id: unwind.deferral_transaction_id,
+    link_type: 'reversal' as const,
+    amount: unwind.amount,
+    metadata: { refund_transaction_id: refundTransactionId, revenue_schedule_id: unwind.schedule_id },
+  })))
+
+  return unwinds
+}
+
+/** Deferred revenue movement between two YYYY-MM-DD dates (inclusive). */
+export async function getDeferredRevenueSummary(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  startDate: string,
+  endDate: string,
+): Promise<DeferredRevenueSummary | null> {
+  const { data, error } = await supabase.rpc('deferred_revenue_summary', {
+    p_ledger_id: ledgerId,
+    p_start_date: startDate,
+    p_end_date: endDate + 'T23:59:59Z',
+  })
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (error || !row) {
+    if (error) console.error('Failed to load deferred revenue summary:', error)
+    return null
+  }
+
+  return {
+    opening_balance: Number(row.out_opening_balance),
+    deferred: Number(row.out_deferred),
+    recognized: Number(row.out_recognized),
+    unwound: Number(row.out_unwound),
+    closing_balance: Number(row.out_closing_balance),
+  }
+}
+
+// ============================================================================
+// SCHEDULES
+// ============================================================================
+
+export async function listRevenueSchedulesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: RevenueSchedulesQuery,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 100), 1), 500)
+
+  let query = supabase
+    .from('revenue_schedules')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.status) {
+    if (!(REVENUE_SCHEDULE_STATUSES as readonly string[]).includes(filters.status)) {
+      return resourceError(`status must be one of: ${REVENUE_SCHEDULE_STATUSES.join(', ')}`, 400, {}, 'invalid_revenue_schedule_status')
+    }
+    query = query.eq('status', filters.status)
+  }
+  if (filters.source_transaction_id) {
+    const sourceId = validateUUID(filters.source_transaction_id)
+    if (!sourceId) {
+      return resourceError('source_transaction_id is invalid', 400, {}, 'invalid_source_transaction_id')
+    }
+    query = query.eq('source_transaction_id', sourceId)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list revenue schedules:', error)
+    return resourceError('Failed to list revenue schedules', 500, {}, 'revenue_schedules_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    schedules: (data || []).map(mapSchedule),
+  })
+}
+
+/**
+ * Put an already-recorded sale on a schedule, e.g. a checkout or
+ * subscription sale. The sale must not have been refunded yet.
+ */
+export async function createRevenueScheduleResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const transactionId = validateUUID(body.transaction_id)
+  if (!transactionId) {
+    return resourceError('transaction_id is required', 400, {}, 'invalid_transaction_id')
+  }
+
+  const { schedule, error: validationError } = validateRevenueSchedule(body.recognition)
+  if (!schedule) {
+    return resourceError(validationError || 'Invalid recognition schedule', 400, {}, 'invalid_revenue_schedule')
+  }
+
+  const { posting, error, status } = await createRevenueSchedule(supabase, ledger.id, transactionId, schedule, requestId)
+  if (!posting) {
+    return resourceError(error || 'Failed to create revenue schedule', status || 500, {}, 'revenue_schedule_create_failed')
+  }
+
+  if (posting.created) {
+    createAuditLogAsync(supabase, req, {
+      ledger_id: ledger.id,
+      action: 'revenue_schedule_created',
+      entity_type: 'revenue_schedule',
+      entity_id: posting.schedule_id,
+      actor_type: 'api',
+      request_body: sanitizeForAudit({
+        transaction_id: transactionId,
+        method: schedule.method,
+        months: schedule.months,
+        milestones: schedule.milestones?.length,
+        deferred_amount: posting.total_amount,
+      }),
+      response_status: 201,
+      risk_score: 20,
+    }, requestId)
+  }
+
+  return getRevenueScheduleResponse(req, supabase, ledger, posting.schedule_id, requestId, posting.created ? 201 : 200)
+}
+
+export async function getRevenueScheduleResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  scheduleIdRaw: string,
+  _requestId: string,
+  status = 200,
+): Promise<ResourceResult> {
+  const loaded = await loadSchedule(supabase, ledger.id, scheduleIdRaw)
+  if (loaded.error) return loaded.error
+
+  const { data: lines } = await supabase
+    .from('revenue_schedule_lines')
+    .select('line_number, name, recognize_on, amount, status, recognized_at, recognition_transaction_id')
+    .eq('schedule_id', loaded.schedule.id)
+    .order('line_number', { ascending: true })
+
+  return resourceOk({
+    success: true,
+    schedule: mapSchedule(loaded.schedule),
+    lines: (lines || []).map(mapLine),
+  }, status)
+}
+
+/** Release a milestone now, along with any other line already due. */
+export async function completeRevenueMilestoneResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  scheduleIdRaw: string,
+  lineNumberRaw: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadSchedule(supabase, ledger.id, scheduleIdRaw)
+  if (loaded.error) return loaded.error
+  const schedule = loaded.schedule
+
+  const lineNumber = Number(validateId(lineNumberRaw, 10))
+  if (!Number.isInteger(lineNumber) || lineNumber < 1) {
+    return resourceError('milestone must be a line number', 400, {}, 'invalid_milestone')
+  }
+  if (schedule.method !== 'milestone') {
+    return resourceError('Only milestone schedules have milestones to complete', 409, {}, 'not_milestone_schedule')
+  }
+  if (schedule.status !== 'active') {
+    return resourceError(`Revenue schedule is ${schedule.status}`, 409, {}, 'revenue_schedule_not_active')
+  }
+
+  const { error } = await supabase.rpc('complete_revenue_milestone', {
+    p_ledger_id: ledger.id,
+    p_schedule_id: schedule.id,
+    p_line_number: lineNumber,
+  })
+
+  if (error) {
+    const status = scheduleErrorStatus(error.message || '')
+    if (status === 500) console.error('complete_revenue_milestone failed:', error)
+    return resourceError(
+      status === 500 ? 'Failed to complete milestone' : error.message,
+      status,
+      {},
+      'revenue_milestone_complete_failed',
+    )
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'revenue_milestone_completed',
+    entity_type: 'revenue_schedule',
+    entity_id: schedule.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ line_number: lineNumber }),
+    response_status: 200,
+    risk_score: 20,
+  }, requestId)
+
+  return getRevenueScheduleResponse(req, supabase, ledger, schedule.id, requestId)
+}
@@ -0,0 +1,266 @@
+// SERVICE_ID: SVC_SALE_FOLLOWUPS
+// Soledgic: post-commit steps of a sale
+// A sale commits in its own RPC; referral commissions, the revenue
+// recognition schedule, the creator's rolling reserve and creator debt
+// recovery each post afterwards in their own. Every step is recorded in
+// sale_followups before it runs, so a step that fails, or never runs because
+// the request died, stays pending and the process-sale-followups cron
+// retries it. Every step RPC is idempotent.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { postReferralCommissions, ReferralCommission } from './referral-service.ts'
+import {
+  createRevenueSchedule,
+  RevenueScheduleInput,
+  RevenueSchedulePosting,
+} from './revenue-recognition-service.ts'
+import { applyCreatorReserve, CreatorReservePosting } from './creator-reserves-service.ts'
+import { CreatorDebtRecovery, recoverCreatorDebts } from './creator-receivables-service.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * In posting order: commissions come out of what the platform kept, only
+ * what the platform keeps after them is deferred, and the reserve holds its
+ * slice before debt recovery draws on the creator's share.
+ */
+export const SALE_FOLLOWUP_STEPS = [
+  'referral_commissions',
+  'revenue_schedule',
+  'creator_reserve',
+  'creator_debt_recovery',
+] as const
+export type SaleFollowupStep = typeof SALE_FOLLOWUP_STEPS[number]
+export type SaleFollowupStatus = 'pending' | 'completed' | 'failed'
+
+/** A step gives up after this many attempts and is left failed for review */
+export const MAX_SALE_FOLLOWUP_ATTEMPTS = 5
+/** The cron leaves steps alone this long so it does not race the sale's own request */
+const RETRY_AFTER_MS = 5 * 60 * 1000
+
+export interface SaleFollowupInput {
+  ledgerId: string
+  transactionId: string
+  creatorId: string
+  /** Defer the platform's share on this schedule; omit to recognize it now */
+  recognition?: RevenueScheduleInput | null
+  recognitionMetadata?: Record<string, unknown>
+}
+
+export interface SaleFollowupResults {
+  referral_commissions: ReferralCommission[]
+  revenue_schedule: RevenueSchedulePosting | null
+  /** Why the schedule was not created; a rejected schedule is not retried */
+  revenue_schedule_error: string | null
+  creator_reserve: CreatorReservePosting | null
+  debt_recoveries: CreatorDebtRecovery[]
+  completed: SaleFollowupStep[]
+  /** Steps left for the cron, including any after the first one that failed */
+  pending: SaleFollowupStep[]
+  failed: SaleFollowupStep[]
+}
+
+interface StepOutcome {
+  error?: string
+  /** The RPC rejected the step itself; retrying will not change that */
+  final?: boolean
+}
+
+// ============================================================================
+// STEPS
+// ============================================================================
+
+async function runStep(
+  supabase: SupabaseClient,
+  step: SaleFollowupStep,
+  input: SaleFollowupInput,
+  results: SaleFollowupResults,
+  requestId: string,
+): Promise<StepOutcome> {
+  switch (step) {
+    case 'referral_commissions': {
+      const { commissions, error } = await postReferralCommissions(supabase, input.ledgerId, input.transactionId, requestId)
+      results.referral_commissions = commissions
+      return { error }
+    }
+    case 'revenue_schedule': {
+      if (!input.recognition) return {}
+      const { posting, error, status } = await createRevenueSchedule(
+        supabase,
+        input.ledgerId,
+        input.transactionId,
+        input.recognition,
+        requestId,
+        input.recognitionMetadata,
+      )
+      results.revenue_schedule = posting ?? null
+      results.revenue_schedule_error = error ?? null
+      return { error, final: status !== undefined && status < 500 }
+    }
+    case 'creator_reserve': {
+      const { reserve, error } = await applyCreatorReserve(supabase, input.ledgerId, input.transactionId, input.creatorId, requestId)
+      results.creator_reserve = reserve
+      return { error }
+    }
+    case 'creator_debt_recovery': {
+      const { recoveries, error } = await recoverCreatorDebts(supabase, input.ledgerId, input.creatorId, requestId)
+      results.debt_recoveries = recoveries
+      return { error }
+    }
+  }
+}
+
+/**
+ * Run the given steps in posting order and settle each marker. A step that
+ * can still be retried stops the run, so later steps never post ahead of it.
+ */
+async function runSteps(
+  supabase: SupabaseClient,
+  input: SaleFollowupInput,
+  steps: Array<{ step: SaleFollowupStep; attempts: number }>,
+  requestId: string,
+): Promise<SaleFollowupResults> {
+  const results: SaleFollowupResults = {
+    referral_commissions: [],
+    revenue_schedule: null,
+    revenue_schedule_error: null,
+    creator_reserve: null,
+    debt_recoveries: [],
+    completed: [],
+    pending: [],
+    failed: [],
+  }
+
+  const ordered = [...steps].sort((a, b) => SALE_FOLLOWUP_STEPS.indexOf(a.step) - SALE_FOLLOWUP_STEPS.indexOf(b.step))
+  for (const { step, attempts } of ordered) {
+    if (results.pending.length > 0) {
+      results.pending.push(step)
+      continue
+    }
+
+    const outcome = await runStep(supabase, step, input, results, requestId)
+    const attempt = attempts + 1
+    const status: SaleFollowupStatus = !outcome.error
+      ? 'completed'
+      : outcome.final || attempt >= MAX_SALE_FOLLOWUP_ATTEMPTS ? 'failed' : 'pending'
+
+    const now = new Date().toISOString()
+    const { error } = await supabase
+      .from('sale_followups')
+      .update({
+        status,
+        attempts: attempt,
+        last_error: outcome.error ?? null,
+        completed_at: status === 'completed' ? now : null,
+        updated_at: now,
+      })
+      .eq('transaction_id', input.transactionId)
+      .eq('step', step)
+
+    if (error) {
+      console.error(`[${requestId}] Failed to settle ${step} for sale ${input.transactionId}:`, error)
+    }
+
+    results[status].push(step)
+  }
+
+  return results
+}
+
+// ============================================================================
+// ENTRY POINTS
+// ============================================================================
+
+/**
+ * Record and run the post-commit steps of a sale that just committed. Never
+ * throws: a step that fails is left pending for the cron and reported in
+ * `pending`.
+ */
+export async function runSaleFollowups(
+  supabase: SupabaseClient,
+  input: SaleFollowupInput,
+  requestId: string,
+): Promise<SaleFollowupResults> {
+  const steps = SALE_FOLLOWUP_STEPS.filter((step) => step !== 'revenue_schedule' || input.recognition)
+
+  const { error } = await supabase
+    .from('sale_followups')
+    .upsert(steps.map((step) => ({
+      ledger_id: input.ledgerId,
+      transaction_id: input.transactionId,
+      creator_id: input.creatorId,
+      step,
+      payload: step === 'revenue_schedule'
+        ? { recognition: input.recognition, metadata: input.recognitionMetadata ?? {} }
+        : {},
+    })), { onConflict: 'transaction_id,step', ignoreDuplicates: true })
+
+  if (error) {
+    // Still post: a missing marker only costs the retry, not the step
+    console.error(`[${requestId}] Failed to record follow-ups for sale ${input.transactionId}:`, error)
+  }
+
+  return runSteps(supabase, input, steps.map((step) => ({ step, attempts: 0 })), requestId)
+}
+
+/**
+ * Retry the pending steps of up to `limit` sales, oldest first. Every
+ * pending step of a picked sale is retried together so they stay in order.
+ */
+export async function retrySaleFollowups(
+  supabase: SupabaseClient,
+  limit: number,
+  requestId: string,
+): Promise<{ sales: number; completed: number; pending: number; failed: number; error?: string }> {
+  const summary = { sales: 0, completed: 0, pending: 0, failed: 0 }
+
+  const { data: due, error: dueError } = await supabase
+    .from('sale_followups')
+    .select('transaction_id')
+    .eq('status', 'pending')
+    .lt('updated_at', new Date(Date.now() - RETRY_AFTER_MS).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (dueError) {
+    console.error(`[${requestId}] Failed to list pending sale follow-ups:`, dueError)
+    return { ...summary, error: 'Failed to list pending sale follow-ups' }
+  }
+
+  const transactionIds: string[] = Array.from(new Set((due || []).map((row: any) => row.transaction_id)))
+  if (transactionIds.length === 0) return summary
+
+  const { data: rows, error: rowsError } = await supabase
+    .from('sale_followups')
+    .select('ledger_id, transaction_id, creator_id, step, attempts, payload')
+    .eq('status', 'pending')
+    .in('transaction_id', transactionIds)
+
+  if (rowsError) {
+    console.error(`[${requestId}] Failed to load pending sale follow-ups:`, rowsError)
+    return { ...summary, error: 'Failed to load pending sale follow-ups' }
+  }
+
+  for (const transactionId of transactionIds) {
+    const saleRows = (rows || []).filter((row: any) => row.transaction_id === transactionId)
+    if (saleRows.length === 0) continue
+
+    const scheduleRow = saleRows.find((row: any) => row.step === 'revenue_schedule')
+    const results = await runSteps(supabase, {
+      ledgerId: saleRows[0].ledger_id,
+      transactionId,
+      creatorId: saleRows[0].creator_id,
+      recognition: scheduleRow?.payload?.recognition ?? null,
+      recognitionMetadata: scheduleRow?.payload?.metadata ?? {},
+    }, saleRows.map((row: any) => ({ step: row.step, attempts: Number(row.attempts) })), requestId)
+
+    summary.sales++
+    summary.completed += results.completed.length
+    summary.pending += results.pending.length
+    summary.failed += results.failed.length
+  }
+
+  return summary
+}
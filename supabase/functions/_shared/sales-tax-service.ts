@@ -0,0 +1,815 @@
+// SERVICE_ID: SVC_SALES_TAX
+// Soledgic: Jurisdiction sales tax / VAT engine
+// Rates live in an effective-dated table keyed by country / state / postal
+// prefix / tax category (built-in rates plus per-ledger overrides). Tax is only
+// collected where the ledger has nexus; B2B VAT sales with a buyer tax ID are
+// reverse charged. The calculation itself runs in calculate_sales_tax.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SalesTaxType = 'sales_tax' | 'vat' | 'gst'
+export type SalesTaxNoCollectReason = 'exempt' | 'no_rate' | 'no_nexus' | 'reverse_charge'
+
+export interface SalesTaxQuoteInput {
+  subtotal_cents: number
+  country: string
+  state?: string | null
+  postal_code?: string | null
+  tax_category?: string | null
+  customer_tax_id?: string | null
+  as_of?: string | null
+}
+
+export interface SalesTaxQuote {
+  collect: boolean
+  tax_cents: number
+  rate_bps: number | null
+  jurisdiction_code: string | null
+  jurisdiction_name: string | null
+  tax_type: SalesTaxType | null
+  reverse_charge: boolean
+  reason: SalesTaxNoCollectReason | null
+}
+
+export type SalesTaxQuoteResult =
+  | { ok: true; quote: SalesTaxQuote }
+  | { ok: false; error: string; error_code: string; status: number }
+
+export interface SalesTaxRateInput {
+  country_code: string
+  state_code?: string
+  postal_code?: string
+  tax_category?: string
+  jurisdiction_code?: string
+  jurisdiction_name?: string
+  tax_type?: string
+  rate_bps: number
+  effective_from: string
+  effective_to?: string | null
+}
+
+export interface SalesTaxNexusInput {
+  country_code: string
+  state_code?: string
+  registration_number?: string | null
+  collect_tax?: boolean
+  effective_from?: string
+  effective_to?: string | null
+}
+
+export interface SalesTaxRatesQueryRequest {
+  country_code?: string
+  state_code?: string
+  as_of?: string
+}
+
+export interface SalesTaxLiabilityJurisdiction {
+  jurisdiction_code: string
+  jurisdiction_name: string | null
+  tax_type: SalesTaxType | null
+  currency: string
+  taxable_sales_count: number
+  taxable_sales: number
+  tax_collected: number
+  exempt_sales_count: number
+  exempt_sales: number
+  reverse_charge_sales: number
+  refund_count: number
+  refunded_sales: number
+  tax_refunded: number
+  net_tax_due: number
+}
+
+export interface SalesTaxLiabilityTotals {
+  currency: string
+  taxable_sales: number
+  exempt_sales: number
+  tax_collected: number
+  tax_refunded: number
+  net_tax_due: number
+}
+
+export interface SalesTaxLiabilityReport {
+  period: { start: string; end: string }
+  jurisdictions: SalesTaxLiabilityJurisdiction[]
+  totals: SalesTaxLiabilityTotals[]
+}
+
+export type SalesTaxLiabilityResult =
+  | { ok: true; report: SalesTaxLiabilityReport }
+  | { ok: false; error: string }
+
+export interface SalesTaxCalculateRequest {
+  amount?: unknown
+  customer_country?: unknown
+  customer_state?: unknown
+  customer_postal_code?: unknown
+  tax_category?: unknown
+  customer_tax_id?: unknown
+  as_of?: unknown
+}
+
+const MAX_ROWS_PER_REQUEST = 500
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TAX_TYPES: SalesTaxType[] = ['sales_tax', 'vat', 'gst']
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+export function normalizeTaxCountry(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const normalized = value.trim().toUpperCase()
+  return /^[A-Z]{2}$/.test(normalized) ? normalized : null
+}
+
+/** State / region code. Empty string means "whole country". */
+export function normalizeTaxRegion(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return ''
+  if (typeof value !== 'string') return null
+  const normalized = value.trim().toUpperCase()
+  if (normalized === '') return ''
+  return /^[A-Z0-9]{1,3}$/.test(normalized) ? normalized : null
+}
+
+/** Buyer VAT / tax ID, uppercased with spaces removed. */
+export function normalizeCustomerTaxId(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const normalized = value.replace(/\s+/g, '').toUpperCase()
+  return /^[A-Z0-9.\-]{4,32}$/.test(normalized) ? normalized : null
+}
+
+function normalizePostalPrefix(value: unknown): string | null {
+  if (value === undefined || value === null) return ''
+  if (typeof value !== 'string') return null
+  const normalized = value.replace(/\s+/g, '').toUpperCase()
+  return normalized.length <= 20 ? normalized : null
+}
+
+function normalizeCategory(value: unknown): string | null {
+  if (value === undefined || value === null) return ''
+  if (typeof value !== 'string') return null
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+  return normalized.length <= 50 ? normalized : null
+}
+
+function mapQuote(data: any): SalesTaxQuote {
+  const rateBps = data?.rate_bps
+  return {
+    collect: data?.collect === true,
+    tax_cents: Math.max(0, Math.round(Number(data?.tax_cents ?? 0))),
+    rate_bps: rateBps === null || rateBps === undefined ? null : Number(rateBps),
+    jurisdiction_code: data?.jurisdiction_code ?? null,
+    jurisdiction_name: data?.jurisdiction_name ?? null,
+    tax_type: data?.tax_type ?? null,
+    reverse_charge: data?.reverse_charge === true,
+    reason: data?.reason ?? null,
+  }
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Quote the tax on a subtotal for the buyer's location. No rate, no nexus and
+ * exempt categories all return a zero-tax quote with `reason` set; only an
+ * RPC failure is an error.
+ */
+export async function calculateSalesTax(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  input: SalesTaxQuoteInput,
+): Promise<SalesTaxQuoteResult> {
+  const { data, error } = await supabase.rpc('calculate_sales_tax', {
+    p_ledger_id: ledgerId,
+    p_subtotal_cents: input.subtotal_cents,
+    p_country_code: input.country,
+    p_state_code: input.state || null,
+    p_postal_code: input.postal_code || null,
+    p_tax_category: input.tax_category || null,
+    p_customer_tax_id: input.customer_tax_id || null,
+    p_as_of: input.as_of || today(),
+  })
+
+  if (error) {
+    console.error('Sales tax calculation failed:', error)
+    return { ok: false, error: 'Failed to calculate sales tax', error_code: 'sales_tax_calculation_failed', status: 500 }
+  }
+
+  return { ok: true, quote: mapQuote(data) }
+}
+
+// ============================================================================
+// LIABILITY REPORT
+// ============================================================================
+
+const REPORT_PAGE_SIZE = 1000
+
+interface LiabilityTransaction {
+  id: string
+  amount: number | string
+  currency?: string | null
+  metadata?: Record<string, any> | null
+  reverses?: string | null
+}
+
+function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100)
+}
+
+function fromCents(cents: number): number {
+  return Math.round(cents) / 100
+}
+
+function readCents(value: unknown): number | null {
+  const n = Number(value)
+  return value !== null && value !== undefined && value !== '' && Number.isFinite(n) ? Math.round(n) : null
+}
+
+/**
+ * Tax split of a recorded sale. Reads metadata.amounts_cents as written by
+ * record_sale_atomic; sales recorded before tax was split out count as untaxed.
+ */
+function saleTaxBasis(sale: LiabilityTransaction) {
+  const meta = sale.metadata || {}
+  const amounts = meta.amounts_cents && typeof meta.amounts_cents === 'object' ? meta.amounts_cents : {}
+  const grossCents = readCents(amounts.gross) ?? toCents(sale.amount)
+  const taxCents = Math.max(0, readCents(amounts.sales_tax) ?? readCents(meta.sales_tax_amount_cents) ?? 0)
+  const subtotalCents = readCents(amounts.subtotal) ?? grossCents - taxCents
+
+  return {
+    grossCents,
+    taxCents,
+    subtotalCents,
+    jurisdiction: saleJurisdiction(meta),
+    currency: String(meta.currency || sale.currency || 'USD').toUpperCase(),
+    reverseCharge: meta.sales_tax_reverse_charge === true,
+  }
+}
+
+// Sales recorded before the jurisdiction engine only carry the buyer location.
+function saleJurisdiction(meta: Record<string, any>): string {
+  if (typeof meta.sales_tax_jurisdiction === 'string' && meta.sales_tax_jurisdiction.trim()) {
+    return meta.sales_tax_jurisdiction.trim().toUpperCase()
+  }
+  const country = normalizeTaxCountry(meta.customer_tax_country)
+  const state = normalizeTaxRegion(meta.customer_tax_state)
+  if (country && state) return `${country}-${state}`
+  return country || 'UNASSIGNED'
+}
+
+/**
+ * Group a period's sales and refunds by jurisdiction. Sales with tax are
+ * taxable, everything else (including reverse-charge VAT) is exempt. Refunds
+ * and reversals land in the jurisdiction of the sale they reverse, with the
+ * tax portion pro-rated from that sale's gross; `originals` must hold those
+ * sales even when they fall outside the period.
+ */
+export function summarizeSalesTaxLiability(
+  period: { start: string; end: string },
+  sales: LiabilityTransaction[],
+  adjustments: LiabilityTransaction[],
+  originals: LiabilityTransaction[],
+): SalesTaxLiabilityReport {
+  const rows = new Map<string, {
+    jurisdiction: string
+    currency: string
+    taxableCount: number
+    taxable: number
+    tax: number
+    exemptCount: number
+    exempt: number
+    reverseCharge: number
+    refundCount: number
+    refunded: number
+    taxRefunded: number
+  }>()
+
+  const rowFor = (jurisdiction: string, currency: string) => {
+    const key = `${jurisdiction}|${currency}`
+    let row = rows.get(key)
+    if (!row) {
+      row = {
+        jurisdiction, currency,
+        taxableCount: 0, taxable: 0, tax: 0,
+        exemptCount: 0, exempt: 0, reverseCharge: 0,
+        refundCount: 0, refunded: 0, taxRefunded: 0,
+      }
+      rows.set(key, row)
+    }
+    return row
+  }
+
+  for (const sale of sales) {
+    const basis = saleTaxBasis(sale)
+    const row = rowFor(basis.jurisdiction, basis.currency)
+    if (basis.taxCents > 0) {
+      row.taxableCount++
+      row.taxable += basis.subtotalCents
+      row.tax += basis.taxCents
+    } else {
+      row.exemptCount++
+      row.exempt += basis.subtotalCents
+      if (basis.reverseCharge) row.reverseCharge += basis.subtotalCents
+    }
+  }
+
+  const originalsById = new Map(originals.map((sale) => [sale.id, sale]))
+  for (const adjustment of adjustments) {
+    const original = adjustment.reverses ? originalsById.get(adjustment.reverses) : undefined
+    if (!original) continue
+
+    const basis = saleTaxBasis(original)
+    const refundCents = Math.min(toCents(adjustment.amount), basis.grossCents)
+    const taxRefunded = basis.grossCents > 0
+      ? Math.min(basis.taxCents, Math.round(refundCents * basis.taxCents / basis.grossCents))
+      : 0
+
+    const row = rowFor(basis.jurisdiction, basis.currency)
+    row.refundCount++
+    row.refunded += refundCents - taxRefunded
+    row.taxRefunded += taxRefunded
+  }
+
+  const jurisdictions = [...rows.values()]
+    .sort((a, b) => a.jurisdiction.localeCompare(b.jurisdiction) || a.currency.localeCompare(b.currency))
+    .map((row): SalesTaxLiabilityJurisdiction => ({
+      jurisdiction_code: row.jurisdiction,
+      jurisdiction_name: null,
+      tax_type: null,
+      currency: row.currency,
+      taxable_sales_count: row.taxableCount,
+      taxable_sales: fromCents(row.taxable),
+      tax_collected: fromCents(row.tax),
+      exempt_sales_count: row.exemptCount,
+      exempt_sales: fromCents(row.exempt),
+      reverse_charge_sales: fromCents(row.reverseCharge),
+      refund_count: row.refundCount,
+      refunded_sales: fromCents(row.refunded),
+      tax_refunded: fromCents(row.taxRefunded),
+      net_tax_due: fromCents(row.tax - row.taxRefunded),
+    }))
+
+  const totals = new Map<string, { taxable: number; exempt: number; tax: number; taxRefunded: number }>()
+  for (const row of rows.values()) {
+    const total = totals.get(row.currency) || { taxable: 0, exempt: 0, tax: 0, taxRefunded: 0 }
+    total.taxable += row.taxable
+    total.exempt += row.exempt
+    total.tax += row.tax
+    total.taxRefunded += row.taxRefunded
+    totals.set(row.currency, total)
+  }
+
+  return {
+    period,
+    jurisdictions,
+    totals: [...totals.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([currency, total]) => ({
+      currency,
+      taxable_sales: fromCents(total.taxable),
+      exempt_sales: fromCents(total.exempt),
+      tax_collected: fromCents(total.tax),
+      tax_refunded: fromCents(total.taxRefunded),
+      net_tax_due: fromCents(total.tax - total.taxRefunded),
+    })),
+  }
+}
+
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<{ rows: T[]; error: unknown }> {
+  const rows: T[] = []
+  for (let from = 0; ; from += REPORT_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + REPORT_PAGE_SIZE - 1)
+    if (error) return { rows, error }
+    rows.push(...(data || []))
+    if (!data || data.length < REPORT_PAGE_SIZE) return { rows, error: null }
+  }
+}
+
+/**
+ * Sales tax / VAT liability for a filing period (inclusive dates). Sales that
+ * were later refunded in full are still reported as sales; the refund shows up
+ * in the period it was issued.
+ */
+export async function buildSalesTaxLiabilityReport(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  startDate: string,
+  endDate: string,
+): Promise<SalesTaxLiabilityResult> {
+  const periodEnd = endDate + 'T23:59:59'
+
+  const sales = await fetchAllPages<LiabilityTransaction>((from, to) =>
+    supabase
+      .from('transactions')
+      .select('id, amount, currency, metadata')
+      .eq('ledger_id', ledgerId)
+      .eq('transaction_type', 'sale')
+      .in('status', ['completed', 'reversed'])
+      .gte('created_at', startDate)
+      .lte('created_at', periodEnd)
+      .order('created_at', { ascending: true })
+      .range(from, to)
+  )
+
+  const adjustments = await fetchAllPages<LiabilityTransaction>((from, to) =>
+    supabase
+      .from('transactions')
+      .select('id, amount, currency, reverses')
+      .eq('ledger_id', ledgerId)
+      .in('transaction_type', ['refund', 'reversal'])
+      .eq('status', 'completed')
+      .not('reverses', 'is', null)
+      .gte('created_at', startDate)
+      .lte('created_at', periodEnd)
+      .order('created_at', { ascending: true })
+      .range(from, to)
+  )
+
+  if (sales.error || adjustments.error) {
+    console.error('Sales tax liability query failed:', sales.error || adjustments.error)
+    return { ok: false, error: 'Failed to load sales for the period' }
+  }
+
+  const inPeriod = new Map(sales.rows.map((sale) => [sale.id, sale]))
+  const missing = [...new Set(adjustments.rows.map((a) => a.reverses as string))].filter((id) => !inPeriod.has(id))
+  const originals = [...sales.rows]
+
+  for (let i = 0; i < missing.length; i += REPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, amount, currency, metadata')
+      .eq('ledger_id', ledgerId)
+      .eq('transaction_type', 'sale')
+      .in('id', missing.slice(i, i + REPORT_PAGE_SIZE))
+    if (error) {
+      console.error('Sales tax liability query failed:', error)
+      return { ok: false, error: 'Failed to load refunded sales' }
+    }
+    originals.push(...(data || []))
+  }
+
+  const report = summarizeSalesTaxLiability({ start: startDate, end: endDate }, sales.rows, adjustments.rows, originals)
+
+  const codes = report.jurisdictions.map((j) => j.jurisdiction_code).filter((code) => code !== 'UNASSIGNED')
+  if (codes.length > 0) {
+    const [defaults, overrides] = await Promise.all([
+      supabase.from('sales_tax_rates').select('jurisdiction_code, jurisdiction_name, tax_type').in('jurisdiction_code', codes),
+      supabase.from('ledger_sales_tax_rates').select('jurisdiction_code, jurisdiction_name, tax_type').eq('ledger_id', ledgerId).in('jurisdiction_code', codes),
+    ])
+    const names: Record<string, { name: string | null; tax_type: SalesTaxType | null }> = {}
+    for (const row of [...(defaults.data || []), ...(overrides.data || [])]) {
+      names[row.jurisdiction_code] = { name: row.jurisdiction_name ?? null, tax_type: row.tax_type ?? null }
+    }
+    for (const jurisdiction of report.jurisdictions) {
+      jurisdiction.jurisdiction_name = names[jurisdiction.jurisdiction_code]?.name ?? null
+      jurisdiction.tax_type = names[jurisdiction.jurisdiction_code]?.tax_type ?? null
+    }
+  }
+
+  return { ok: true, report }
+}
+
+// ============================================================================
+// RESOURCE HANDLERS
+// ============================================================================
+
+function mapRateRow(row: any, source: 'ledger' | 'default') {
+  return {
+    id: row.id,
+    source,
+    country_code: row.country_code,
+    state_code: row.state_code || null,
+    postal_code: row.postal_code || null,
+    tax_category: row.tax_category || null,
+    jurisdiction_code: row.jurisdiction_code,
+    jurisdiction_name: row.jurisdiction_name,
+    tax_type: row.tax_type,
+    rate_bps: Number(row.rate_bps),
+    effective_from: row.effective_from,
+    effective_to: row.effective_to ?? null,
+  }
+}
+
+function mapNexusRow(row: any) {
+  return {
+    id: row.id,
+    country_code: row.country_code,
+    state_code: row.state_code || null,
+    registration_number: row.registration_number ?? null,
+    collect_tax: row.collect_tax === true,
+    effective_from: row.effective_from,
+    effective_to: row.effective_to ?? null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  }
+}
+
+export async function listSalesTaxRatesResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: SalesTaxRatesQueryRequest,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const columns = 'id, country_code, state_code, postal_code, tax_category, jurisdiction_code, jurisdiction_name, tax_type, rate_bps, effective_from, effective_to'
+  let ledgerQuery = supabase.from('ledger_sales_tax_rates').select(columns).eq('ledger_id', ledger.id)
+  let defaultQuery = supabase.from('sales_tax_rates').select(columns)
+
+  if (body.country_code) {
+    const country = normalizeTaxCountry(body.country_code)
+    if (!country) return resourceError('Invalid country_code', 400, {}, 'invalid_country_code')
+    ledgerQuery = ledgerQuery.eq('country_code', country)
+    defaultQuery = defaultQuery.eq('country_code', country)
+  }
+  if (body.state_code) {
+    const state = normalizeTaxRegion(body.state_code)
+    if (!state) return resourceError('Invalid state_code', 400, {}, 'invalid_state_code')
+    ledgerQuery = ledgerQuery.in('state_code', ['', state])
+    defaultQuery = defaultQuery.in('state_code', ['', state])
+  }
+  if (body.as_of) {
+    if (!isValidDate(body.as_of)) return resourceError('Invalid as_of. Use YYYY-MM-DD', 400, {}, 'invalid_date')
+    ledgerQuery = ledgerQuery.lte('effective_from', body.as_of).or(`effective_to.is.null,effective_to.gt.${body.as_of}`)
+    defaultQuery = defaultQuery.lte('effective_from', body.as_of).or(`effective_to.is.null,effective_to.gt.${body.as_of}`)
+  }
+
+  const [ledgerRates, defaultRates] = await Promise.all([
+    ledgerQuery.order('country_code').order('state_code').order('effective_from', { ascending: false }).limit(MAX_ROWS_PER_REQUEST),
+    defaultQuery.order('country_code').order('state_code').order('effective_from', { ascending: false }).limit(MAX_ROWS_PER_REQUEST),
+  ])
+
+  if (ledgerRates.error || defaultRates.error) {
+    console.error('Failed to list sales tax rates:', ledgerRates.error || defaultRates.error)
+    return resourceError('Failed to list sales tax rates', 500, {}, 'sales_tax_rates_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    rates: [
+      ...(ledgerRates.data || []).map((row: any) => mapRateRow(row, 'ledger')),
+      ...(defaultRates.data || []).map((row: any) => mapRateRow(row, 'default')),
+    ],
+  })
+}
+
+export async function upsertSalesTaxRatesResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: { rates?: unknown },
+  requestId: string,
+): Promise<ResourceResult> {
+  if (!Array.isArray(body.rates) || body.rates.length === 0) {
+    return resourceError('rates must be a non-empty array', 400, {}, 'invalid_rates')
+  }
+  if (body.rates.length > MAX_ROWS_PER_REQUEST) {
+    return resourceError(`At most ${MAX_ROWS_PER_REQUEST} rates per request`, 400, {}, 'too_many_rates')
+  }
+
+  const now = new Date().toISOString()
+  const rows: Record<string, unknown>[] = []
+  for (const [index, raw] of (body.rates as SalesTaxRateInput[]).entries()) {
+    const country = normalizeTaxCountry(raw?.country_code)
+    const state = normalizeTaxRegion(raw?.state_code)
+    const postal = normalizePostalPrefix(raw?.postal_code)
+    const category = normalizeCategory(raw?.tax_category)
+    const taxType = (raw?.tax_type || 'sales_tax') as SalesTaxType
+    const rateBps = raw?.rate_bps
+
+    if (!country || state === null) {
+      return resourceError(`rates[${index}]: country_code must be ISO 3166-1 alpha-2 and state_code at most 3 characters`, 400, {}, 'invalid_jurisdiction')
+    }
+    if (postal === null || category === null) {
+      return resourceError(`rates[${index}]: invalid postal_code or tax_category`, 400, {}, 'invalid_jurisdiction')
+    }
+    if (!TAX_TYPES.includes(taxType)) {
+      return resourceError(`rates[${index}]: tax_type must be one of ${TAX_TYPES.join(', ')}`, 400, {}, 'invalid_tax_type')
+    }
+    if (typeof rateBps !== 'number' || !Number.isInteger(rateBps) || rateBps < 0 || rateBps > 10000) {
+      return resourceError(`rates[${index}]: rate_bps must be an integer between 0 and 10000`, 400, {}, 'invalid_rate_bps')
+    }
+    if (!isValidDate(raw?.effective_from)) {
+      return resourceError(`rates[${index}]: effective_from must be YYYY-MM-DD`, 400, {}, 'invalid_date')
+    }
+    if (raw.effective_to !== undefined && raw.effective_to !== null && (!isValidDate(raw.effective_to) || raw.effective_to <= raw.effective_from)) {
+      return resourceError(`rates[${index}]: effective_to must be YYYY-MM-DD after effective_from`, 400, {}, 'invalid_date')
+    }
+
+    const defaultCode = state ? `${country}-${state}` : country
+    rows.push({
+      ledger_id: ledger.id,
+      country_code: country,
+      state_code: state,
+      postal_code: postal,
+      tax_category: category,
+      jurisdiction_code: typeof raw.jurisdiction_code === 'string' && raw.jurisdiction_code.trim()
+        ? raw.jurisdiction_code.trim().toUpperCase().slice(0, 40)
+        : (postal ? `${defaultCode}-${postal}` : defaultCode),
+      jurisdiction_name: typeof raw.jurisdiction_name === 'string' && raw.jurisdiction_name.trim()
+        ? raw.jurisdiction_name.trim().slice(0, 200)
+        : defaultCode,
+      tax_type: taxType,
+      rate_bps: rateBps,
+      effective_from: raw.effective_from,
+      effective_to: raw.effective_to ?? null,
+      updated_at: now,
+    })
+  }
+
+  const { data, error } = await supabase
+    .from('ledger_sales_tax_rates')
+    .upsert(rows, { onConflict: 'ledger_id,country_code,state_code,postal_code,tax_category,effective_from' })
+    .select('id')
+
+  if (error) {
+    console.error('Failed to store sales tax rates:', error)
+    return resourceError('Failed to store sales tax rates', 500, {}, 'sales_tax_rates_store_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'sales_tax_rates_upsert',
+    entity_type: 'sales_tax_rates',
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ count: rows.length }),
+    response_status: 200,
+    risk_score: 20,
+  }, requestId)
+
+  return resourceOk({ success: true, stored: Array.isArray(data) ? data.length : 0 })
+}
+
+export async function listSalesTaxNexusResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const { data, error } = await supabase
+    .from('ledger_sales_tax_nexus')
+    .select('id, country_code, state_code, registration_number, collect_tax, effective_from, effective_to, created_at, updated_at')
+    .eq('ledger_id', ledger.id)
+    .order('country_code')
+    .order('state_code')
+
+  if (error) {
+    console.error('Failed to list sales tax nexus:', error)
+    return resourceError('Failed to list sales tax nexus', 500, {}, 'sales_tax_nexus_list_failed')
+  }
+
+  const nexus = (data || []).map(mapNexusRow)
+  return resourceOk({
+    success: true,
+    // No nexus rows: the legacy Maryland-only default applies.
+    default_nexus: nexus.length === 0,
+    nexus,
+  })
+}
+
+export async function upsertSalesTaxNexusResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: { nexus?: unknown },
+  requestId: string,
+): Promise<ResourceResult> {
+  if (!Array.isArray(body.nexus) || body.nexus.length === 0) {
+    return resourceError('nexus must be a non-empty array', 400, {}, 'invalid_nexus')
+  }
+  if (body.nexus.length > MAX_ROWS_PER_REQUEST) {
+    return resourceError(`At most ${MAX_ROWS_PER_REQUEST} nexus rows per request`, 400, {}, 'too_many_nexus_rows')
+  }
+
+  const now = new Date().toISOString()
+  const rows: Record<string, unknown>[] = []
+  for (const [index, raw] of (body.nexus as SalesTaxNexusInput[]).entries()) {
+    const country = normalizeTaxCountry(raw?.country_code)
+    const state = normalizeTaxRegion(raw?.state_code)
+    if (!country || state === null) {
+      return resourceError(`nexus[${index}]: country_code must be ISO 3166-1 alpha-2 and state_code at most 3 characters`, 400, {}, 'invalid_jurisdiction')
+    }
+    const effectiveFrom = raw.effective_from ?? today()
+    if (!isValidDate(effectiveFrom)) {
+      return resourceError(`nexus[${index}]: effective_from must be YYYY-MM-DD`, 400, {}, 'invalid_date')
+    }
+    if (raw.effective_to !== undefined && raw.effective_to !== null && (!isValidDate(raw.effective_to) || raw.effective_to <= effectiveFrom)) {
+      return resourceError(`nexus[${index}]: effective_to must be YYYY-MM-DD after effective_from`, 400, {}, 'invalid_date')
+    }
+    if (raw.collect_tax !== undefined && typeof raw.collect_tax !== 'boolean') {
+      return resourceError(`nexus[${index}]: collect_tax must be a boolean`, 400, {}, 'invalid_nexus')
+    }
+
+    rows.push({
+      ledger_id: ledger.id,
+      country_code: country,
+      state_code: state,
+      registration_number: typeof raw.registration_number === 'string' && raw.registration_number.trim()
+        ? raw.registration_number.trim().slice(0, 64)
+        : null,
+      collect_tax: raw.collect_tax ?? true,
+      effective_from: effectiveFrom,
+      effective_to: raw.effective_to ?? null,
+      updated_at: now,
+    })
+  }
+
+  const { data, error } = await supabase
+    .from('ledger_sales_tax_nexus')
+    .upsert(rows, { onConflict: 'ledger_id,country_code,state_code' })
+    .select('id, country_code, state_code, registration_number, collect_tax, effective_from, effective_to, created_at, updated_at')
+
+  if (error) {
+    console.error('Failed to store sales tax nexus:', error)
+    return resourceError('Failed to store sales tax nexus', 500, {}, 'sales_tax_nexus_store_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'sales_tax_nexus_upsert',
+    entity_type: 'sales_tax_nexus',
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      jurisdictions: rows.map((row) => row.state_code ? `${row.country_code}-${row.state_code}` : row.country_code),
+    }),
+    response_status: 200,
+    risk_score: 20,
+  }, requestId)
+
+  return resourceOk({ success: true, nexus: (data || []).map(mapNexusRow) })
+}
+
+export async function calculateSalesTaxResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: SalesTaxCalculateRequest,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const amount = body.amount
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+    return resourceError('amount must be a positive integer in cents', 400, {}, 'invalid_amount')
+  }
+
+  const country = normalizeTaxCountry(body.customer_country ?? 'US')
+  const state = normalizeTaxRegion(body.customer_state)
+  if (!country || state === null) {
+    return resourceError('customer_country must be ISO 3166-1 alpha-2 and customer_state at most 3 characters', 400, {}, 'invalid_jurisdiction')
+  }
+  const postal = normalizePostalPrefix(body.customer_postal_code)
+  const category = normalizeCategory(body.tax_category)
+  if (postal === null || category === null) {
+    return resourceError('Invalid customer_postal_code or tax_category', 400, {}, 'invalid_jurisdiction')
+  }
+
+  let customerTaxId: string | null = null
+  if (body.customer_tax_id !== undefined && body.customer_tax_id !== null && body.customer_tax_id !== '') {
+    customerTaxId = normalizeCustomerTaxId(body.customer_tax_id)
+    if (!customerTaxId) return resourceError('Invalid customer_tax_id', 400, {}, 'invalid_customer_tax_id')
+  }
+
+  const asOf = body.as_of ?? today()
+  if (!isValidDate(asOf)) {
+    return resourceError('Invalid as_of. Use YYYY-MM-DD', 400, {}, 'invalid_date')
+  }
+
+  const result = await calculateSalesTax(supabase, ledger.id, {
+    subtotal_cents: amount,
+    country,
+    state,
+    postal_code: postal,
+    tax_category: category,
+    customer_tax_id: customerTaxId,
+    as_of: asOf,
+  })
+  if (!result.ok) {
+    return resourceError(result.error, result.status, {}, result.error_code)
+  }
+
+  return resourceOk({
+    success: true,
+    subtotal_amount: amount,
+    total_amount: amount + result.quote.tax_cents,
+    as_of: asOf,
+    ...result.quote,
+  })
+}
@@ -0,0 +1,429 @@
+// SERVICE_ID: SVC_SPLIT_RULES
+// Soledgic: Multi-recipient waterfall split rules
+// Versioned rules that distribute one sale to N participants, and the
+// posting of one credit per recipient linked back to the sale.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { validateAmount, validateId } from './utils.ts'
+import { createLinks } from './transaction-graph.ts'
+import { convertMinorAmount, minorToMajor } from './currency.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SplitRuleScope = 'product' | 'creator'
+export type SplitRecipientRole = 'creator' | 'co_creator' | 'affiliate' | 'referral'
+
+export interface SplitRuleRecipient {
+  position: number
+  participant_id: string
+  role: SplitRecipientRole
+  percent: number
+  fixed_amount: number
+  min_amount: number | null
+  max_amount: number | null
+}
+
+export interface SplitAllocation {
+  position: number
+  participant_id: string
+  role: SplitRecipientRole
+  amount: number
+}
+
+export interface SplitRuleVersion {
+  split_rule_id: string
+  version_id: string
+  version: number
+  recipients: SplitRuleRecipient[]
+}
+
+export interface SplitCredit extends SplitAllocation {
+  transaction_id: string | null
+}
+
+/** record_sale_atomic arguments, shared by every sale entry point. */
+export interface SaleAtomicParams {
+  p_ledger_id: string
+  p_reference_id: string
+  p_creator_id: string
+  p_gross_amount: number
+  p_creator_amount: number
+  p_platform_amount: number
+  p_processing_fee: number
+  p_soledgic_fee: number
+  p_sales_tax?: number
+  p_product_id: string | null
+  p_product_name: string | null
+  p_metadata: Record<string, unknown>
+  p_entry_method?: string
+  p_currency?: string | null
+  p_fx_rate?: number | null
+}
+
+export interface SaleSplit {
+  creator_amount: number
+  platform_amount: number
+  credits: SplitCredit[]
+}
+
+export interface SplitSalePosting extends SaleSplit {
+  data: any
+  error: { code?: string; message?: string } | null
+  transaction_id: string | null
+}
+
+const SPLIT_RULE_SCOPES: SplitRuleScope[] = ['product', 'creator']
+const SPLIT_RECIPIENT_ROLES: SplitRecipientRole[] = ['creator', 'co_creator', 'affiliate', 'referral']
+const MAX_SPLIT_RECIPIENTS = 20
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function isSplitRuleScope(value: unknown): value is SplitRuleScope {
+  return typeof value === 'string' && (SPLIT_RULE_SCOPES as string[]).includes(value)
+}
+
+function optionalMinorAmount(value: unknown): number | null | undefined {
+  if (value === undefined || value === null) return null
+  const amount = validateAmount(value)
+  return amount === null || amount < 0 ? undefined : amount
+}
+
+/**
+ * Validate recipients as sent by the API. Array order is the waterfall
+ * order unless every recipient carries an explicit `position`.
+ */
+export function validateSplitRecipients(value: unknown): { recipients?: SplitRuleRecipient[]; error?: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'recipients must be a non-empty array' }
+  }
+  if (value.length > MAX_SPLIT_RECIPIENTS) {
+    return { error: `recipients cannot exceed ${MAX_SPLIT_RECIPIENTS} entries` }
+  }
+
+  const explicitPositions = value.every((raw) => raw && typeof raw === 'object' && raw.position !== undefined)
+  const recipients: SplitRuleRecipient[] = []
+  let percentTotal = 0
+
+  for (let i = 0; i < value.length; i++) {
+    const raw = value[i] as Record<string, unknown> | null
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { error: `recipients[${i}] must be an object` }
+    }
+
+    const participantId = validateId(raw.participant_id, 100)
+    if (!participantId) {
+      return { error: `Invalid recipients[${i}].participant_id` }
+    }
+
+    const role = raw.role ?? 'co_creator'
+    if (!(SPLIT_RECIPIENT_ROLES as unknown[]).includes(role)) {
+      return { error: `Invalid recipients[${i}].role: must be one of ${SPLIT_RECIPIENT_ROLES.join(', ')}` }
+    }
+
+    const percent = raw.percent ?? 0
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+      return { error: `Invalid recipients[${i}].percent: must be 0-100` }
+    }
+
+    const fixedAmount = optionalMinorAmount(raw.fixed_amount)
+    const minAmount = optionalMinorAmount(raw.min_amount)
+    const maxAmount = optionalMinorAmount(raw.max_amount)
+    if (fixedAmount === undefined || minAmount === undefined || maxAmount === undefined) {
+      return { error: `Invalid recipients[${i}] amounts: must be non-negative integers (minor units)` }
+    }
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+      return { error: `Invalid recipients[${i}]: min_amount cannot exceed max_amount` }
+    }
+    if (percent === 0 && !fixedAmount && !minAmount) {
+      return { error: `recipients[${i}] needs a percent, fixed_amount or min_amount` }
+    }
+
+    const position = explicitPositions ? Number(raw.position) : i + 1
+    if (!Number.isInteger(position) || position < 1) {
+      return { error: `Invalid recipients[${i}].position: must be a positive integer` }
+    }
+
+    percentTotal += percent
+    recipients.push({
+      position,
+      participant_id: participantId,
+      role: role as SplitRecipientRole,
+      percent: Math.round(percent * 100) / 100,
+      fixed_amount: fixedAmount ?? 0,
+      min_amount: minAmount,
+      max_amount: maxAmount,
+    })
+  }
+
+  if (percentTotal > 100) {
+    return { error: 'recipient percents cannot total more than 100' }
+  }
+  if (new Set(recipients.map((r) => r.position)).size !== recipients.length) {
+    return { error: 'recipient positions must be unique' }
+  }
+
+  recipients.sort((a, b) => a.position - b.position)
+  return { recipients }
+}
+
+// ============================================================================
+// WATERFALL
+// ============================================================================
+
+/**
+ * Distribute a sale's net (minor units, after processing and Soledgic fees)
+ * down the waterfall. Each recipient takes percent of the net plus its fixed
+ * amount, raised to min_amount and capped at max_amount, but never more
+ * than what earlier recipients left. The platform keeps the remainder.
+ */
+export function computeWaterfallSplit(netAmount: number, recipients: SplitRuleRecipient[]) {
+  let remaining = Math.max(0, Math.floor(netAmount))
+  const allocations: SplitAllocation[] = []
+
+  for (const recipient of [...recipients].sort((a, b) => a.position - b.position)) {
+    // Integer basis points: 19.99% of 10000 is 1999, not a float floored to 1998
+    let amount = Math.floor(netAmount * Math.round(recipient.percent * 100) / 10000) + recipient.fixed_amount
+    if (recipient.min_amount !== null) amount = Math.max(amount, recipient.min_amount)
+    if (recipient.max_amount !== null) amount = Math.min(amount, recipient.max_amount)
+    amount = Math.min(Math.max(amount, 0), remaining)
+    remaining -= amount
+
+    allocations.push({
+      position: recipient.position,
+      participant_id: recipient.participant_id,
+      role: recipient.role,
+      amount,
+    })
+  }
+
+  return { allocations, platform_amount: remaining }
+}
+
+/**
+ * Divide a sale's net (creator plus platform share) down a rule. The
+ * selling creator's own allocations become its share of the sale; every
+ * other recipient gets a credit out of what the platform would keep.
+ */
+export function applySplitRule(rule: SplitRuleVersion, creatorId: string, netAmount: number): SaleSplit {
+  const waterfall = computeWaterfallSplit(netAmount, rule.recipients)
+  const creatorAmount = waterfall.allocations
+    .filter((a) => a.participant_id === creatorId)
+    .reduce((sum, a) => sum + a.amount, 0)
+
+  return {
+    creator_amount: creatorAmount,
+    platform_amount: netAmount - creatorAmount,
+    credits: waterfall.allocations
+      .filter((a) => a.participant_id !== creatorId && a.amount > 0)
+      .map((a) => ({ ...a, transaction_id: null })),
+  }
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+async function loadSplitRuleVersion(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  splitRuleId: string,
+  version: number,
+): Promise<SplitRuleVersion | null> {
+  const { data: versionRow } = await supabase
+    .from('split_rule_versions')
+    .select('id, version')
+    .eq('ledger_id', ledgerId)
+    .eq('split_rule_id', splitRuleId)
+    .eq('version', version)
+    .maybeSingle()
+
+  if (!versionRow) return null
+
+  const { data: recipients } = await supabase
+    .from('split_rule_recipients')
+    .select('position, participant_id, role, percent, fixed_amount, min_amount, max_amount')
+    .eq('split_rule_version_id', versionRow.id)
+    .order('position', { ascending: true })
+
+  return {
+    split_rule_id: splitRuleId,
+    version_id: versionRow.id,
+    version: versionRow.version,
+    recipients: (recipients || []).map((r: any) => ({
+      position: Number(r.position),
+      participant_id: r.participant_id,
+      role: r.role,
+      percent: Number(r.percent),
+      fixed_amount: Number(r.fixed_amount ?? 0),
+      min_amount: r.min_amount === null ? null : Number(r.min_amount),
+      max_amount: r.max_amount === null ? null : Number(r.max_amount),
+    })),
+  }
+}
+
+/**
+ * Current version of the rule that applies to a sale: an explicit rule id,
+ * else the product's rule, else the selling creator's rule.
+ */
+export async function resolveSplitRule(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  options: { splitRuleId?: string | null; productId?: string | null; creatorId: string },
+): Promise<SplitRuleVersion | null> {
+  const candidates: Array<{ column: 'id' | 'scope_id'; value: string; scope?: SplitRuleScope }> = []
+  if (options.splitRuleId) {
+    candidates.push({ column: 'id', value: options.splitRuleId })
+  } else {
+    if (options.productId) candidates.push({ column: 'scope_id', value: options.productId, scope: 'product' })
+    candidates.push({ column: 'scope_id', value: options.creatorId, scope: 'creator' })
+  }
+
+  for (const candidate of candidates) {
+    let query = supabase
+      .from('split_rules')
+      .select('id, current_version')
+      .eq('ledger_id', ledgerId)
+      .eq('status', 'active')
+      .eq(candidate.column, candidate.value)
+    if (candidate.scope) query = query.eq('scope', candidate.scope)
+
+    const { data: rule } = await query.maybeSingle()
+    if (rule && rule.current_version > 0) {
+      return loadSplitRuleVersion(supabase, ledgerId, rule.id, rule.current_version)
+    }
+  }
+
+  return null
+}
+
+/** A rule with every version, newest first. */
+export async function getSplitRuleHistory(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  splitRuleId: string,
+) {
+  const { data: rule } = await supabase
+    .from('split_rules')
+    .select('id, scope, scope_id, name, status, current_version, created_at, updated_at')
+    .eq('ledger_id', ledgerId)
+    .eq('id', splitRuleId)
+    .maybeSingle()
+
+  if (!rule) return null
+
+  const versions: SplitRuleVersion[] = []
+  for (let version = rule.current_version; version >= 1; version--) {
+    const loaded = await loadSplitRuleVersion(supabase, ledgerId, rule.id, version)
+    if (loaded) versions.push(loaded)
+  }
+
+  return { ...rule, versions }
+}
+
+// ============================================================================
+// POSTING
+// ============================================================================
+
+/**
+ * Post a sale from any single-creator entry point. Without a rule this is
+ * record_sale_atomic as given. With one the net is re-divided down the rule
+ * and the sale and its recipient credits post together in
+ * record_split_sale_atomic, then the credits are linked to the sale.
+ *
+ * RPC errors are returned as-is so each entry point keeps its own duplicate
+ * and idempotency handling. functionalCurrency is looked up when not known.
+ */
+export async function postSaleWithSplitRule(
+  supabase: SupabaseClient,
+  params: SaleAtomicParams,
+  rule: SplitRuleVersion | null,
+  functionalCurrency: string | null = null,
+): Promise<SplitSalePosting> {
+  if (!rule) {
+    const { data, error } = await supabase.rpc('record_sale_atomic', params)
+    const row = Array.isArray(data) ? data[0] : data
+    return {
+      data,
+      error,
+      transaction_id: row?.out_transaction_id ?? null,
+      creator_amount: params.p_creator_amount,
+      platform_amount: params.p_platform_amount,
+      credits: [],
+    }
+  }
+
+  const split = applySplitRule(rule, params.p_creator_id, params.p_creator_amount + params.p_platform_amount)
+  const { data, error } = await supabase.rpc('record_split_sale_atomic', {
+    ...params,
+    p_creator_amount: split.creator_amount,
+    p_platform_amount: split.platform_amount,
+    p_split_rule_version_id: rule.version_id,
+    p_split_credits: split.credits.map(({ position, participant_id, role, amount }) => ({
+      position, participant_id, role, amount,
+    })),
+  })
+  const row = Array.isArray(data) ? data[0] : data
+  const transactionId: string | null = row?.out_transaction_id ?? null
+  if (error || !transactionId) {
+    return { data, error, transaction_id: transactionId, ...split }
+  }
+
+  const credits = (row?.out_split_credits || []) as SplitCredit[]
+  let functional = functionalCurrency
+  if (!functional) {
+    const { data: ledgerCurrency } = await supabase.rpc('ledger_functional_currency', {
+      p_ledger_id: params.p_ledger_id,
+    })
+    functional = typeof ledgerCurrency === 'string' ? ledgerCurrency : 'USD'
+  }
+  const currency = params.p_currency || functional
+  await linkSplitCredits(supabase, params.p_ledger_id, transactionId, rule, credits, {
+    currency,
+    functionalCurrency: functional,
+    fxRate: params.p_fx_rate ?? null,
+  })
+
+  return { data, error, transaction_id: transactionId, ...split, credits }
+}
+
+/**
+ * Link each split credit to its sale. The credits already carry
+ * metadata.parent_transaction_id; this adds the functional-currency amount
+ * and rule version to the graph edge.
+ */
+export async function linkSplitCredits(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  saleTransactionId: string,
+  rule: SplitRuleVersion,
+  credits: SplitCredit[],
+  amounts: { currency: string; functionalCurrency: string; fxRate: number | null },
+) {
+  return createLinks(
+    supabase,
+    ledgerId,
+    credits
+      .filter((credit) => credit.transaction_id)
+      .map((credit) => ({
+        source_id: credit.transaction_id as string,
+        target_id: saleTransactionId,
+        link_type: 'split' as const,
+        amount: minorToMajor(
+          convertMinorAmount(credit.amount, amounts.currency, amounts.functionalCurrency, amounts.fxRate ?? 1),
+          amounts.functionalCurrency,
+        ),
+        metadata: {
+          split_rule_id: rule.split_rule_id,
+          split_rule_version_id: rule.version_id,
+          split_rule_version: rule.version,
+          participant_id: credit.participant_id,
+          role: credit.role,
+          position: credit.position,
+        },
+      })),
+  )
+}
@@ -48,6 +48,18 @@ function classifyStripeEventKind(eventType: string): NormalizedProcessorEventKin
   return 'unknown'
 }
 
+// Stripe reports failed payouts with its own failure codes; the ones that mean
+// the bank returned the transfer are mapped to their NACHA equivalents.
+const STRIPE_FAILURE_RETURN_CODES: Record<string, string> = {
+  insufficient_funds: 'R01',
+  account_closed: 'R02',
+  no_account: 'R03',
+  invalid_account_number: 'R04',
+  debit_not_authorized: 'R10',
+  account_frozen: 'R16',
+  bank_account_restricted: 'R16',
+}
+
 function mapStripeStatus(eventType: string, objStatus: string | null): NormalizedProcessorEventStatus {
   const t = eventType.toLowerCase()
 
@@ -148,6 +160,10 @@ export class StripeWebhookAdapter implements ProcessorWebhookAdapter {
         ledger_id: ledgerId,
         kind,
         status,
+        processor_status: objStatus,
+        return_code: kind === 'payout'
+          ? STRIPE_FAILURE_RETURN_CODES[pickString(obj.failure_code, 64) || ''] ?? null
+          : null,
         amount_minor_units: amountMinorUnits,
         currency,
         tags,
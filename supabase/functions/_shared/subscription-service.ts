@@ -0,0 +1,1556 @@
+// SERVICE_ID: SVC_SUBSCRIPTIONS
+// Soledgic: buyer subscriptions
+// A plan prices a participant's product on a recurring interval; a
+// subscription bills the buyer's saved payment method every period. Each
+// successful charge is booked as funding + a normal split sale. Failed
+// renewals follow the ledger's dunning schedule, and plan changes are
+// prorated over the rest of the current period.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateEmail,
+  validateId,
+  validateString,
+  validateUUID,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+import { getPaymentProvider } from './payment-provider.ts'
+import type { PaymentProvider } from './payment-provider-types.ts'
+import { autoLinkTransaction } from './transaction-graph.ts'
+import { getFunctionalCurrency, normalizeCurrency } from './currency.ts'
+import { getFxRateSource, resolvePostingCurrency } from './fx-rates-service.ts'
+import { ratableScheduleForPeriod } from './revenue-recognition-service.ts'
+import { postSaleWithSplitRule, resolveSplitRule } from './split-rules-service.ts'
+import { runSaleFollowups } from './sale-followups-service.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SUBSCRIPTION_INTERVALS = ['day', 'week', 'month', 'year'] as const
+export type SubscriptionInterval = typeof SUBSCRIPTION_INTERVALS[number]
+
+export const SUBSCRIPTION_STATUSES = ['incomplete', 'active', 'past_due', 'canceled'] as const
+export type SubscriptionStatus = typeof SUBSCRIPTION_STATUSES[number]
+
+export const SUBSCRIPTION_PLAN_STATUSES = ['active', 'archived'] as const
+
+/** 'ratable' defers each period's charge and recognizes it month by month. */
+export const SUBSCRIPTION_REVENUE_RECOGNITION = ['immediate', 'ratable'] as const
+export type SubscriptionRevenueRecognition = typeof SUBSCRIPTION_REVENUE_RECOGNITION[number]
+
+export type SubscriptionChargeKind = 'initial' | 'renewal' | 'proration'
+
+export type SubscriptionWebhookEvent =
+  | 'subscription.created'
+  | 'subscription.renewed'
+  | 'subscription.payment_failed'
+  | 'subscription.updated'
+  | 'subscription.canceled'
+
+/** Days to wait after each failed renewal before retrying it. */
+export const DEFAULT_DUNNING_SCHEDULE_DAYS = [1, 3, 5]
+
+export interface SubscriptionPlanInput {
+  participant_id: string
+  product_id: string | null
+  name: string
+  amount: number
+  currency: string | null
+  interval: SubscriptionInterval
+  interval_count: number
+  revenue_recognition: SubscriptionRevenueRecognition
+  metadata: Record<string, unknown>
+}
+
+export interface SubscriptionPlansQuery {
+  participant_id?: string
+  status?: string
+  limit?: number
+}
+
+export interface SubscriptionsQuery {
+  status?: string
+  buyer_id?: string
+  participant_id?: string
+  plan_id?: string
+  limit?: number
+}
+
+export interface SubscriptionProration {
+  remaining_fraction: number
+  unused_amount: number
+  new_amount: number
+  net_amount: number
+}
+
+export interface SubscriptionRenewalOutcome {
+  subscription_id: string
+  outcome: 'renewed' | 'payment_failed' | 'canceled' | 'skipped'
+  charge_id?: string
+  next_retry_at?: string | null
+}
+
+interface ChargeRequest {
+  kind: SubscriptionChargeKind
+  period_start: Date
+  period_end: Date
+  amount: number
+  attempt: number
+}
+
+interface ChargeOutcome {
+  charge: any | null
+  succeeded: boolean
+  failure_reason?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// BILLING MATH
+// ============================================================================
+
+/**
+ * Advance a period boundary by one billing interval. Monthly and yearly
+ * periods land on anchorDay, clamped to the last day of short months, so a
+ * subscription started on the 31st renews on Feb 28 and then Mar 31.
+ */
+export function addBillingInterval(
+  from: Date,
+  interval: SubscriptionInterval,
+  count: number,
+  anchorDay: number,
+): Date {
+  if (interval === 'day' || interval === 'week') {
+    const days = interval === 'day' ? count : count * 7
+    return new Date(from.getTime() + days * DAY_MS)
+  }
+
+  const months = from.getUTCMonth() + (interval === 'month' ? count : count * 12)
+  const year = from.getUTCFullYear() + Math.floor(months / 12)
+  const month = months % 12
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(anchorDay, lastDay),
+    from.getUTCHours(),
+    from.getUTCMinutes(),
+    from.getUTCSeconds(),
+    from.getUTCMilliseconds(),
+  ))
+}
+
+/**
+ * Price a mid-period plan change. The buyer is credited the unused share of
+ * the current plan and owes the same share of the new one; a positive net is
+ * charged now and a negative net becomes credit for later charges.
+ */
+export function computeProration(input: {
+  current_amount: number
+  new_amount: number
+  period_start: Date
+  period_end: Date
+  at: Date
+}): SubscriptionProration {
+  const total = input.period_end.getTime() - input.period_start.getTime()
+  const remaining = Math.min(Math.max(input.period_end.getTime() - input.at.getTime(), 0), total)
+  const fraction = total > 0 ? remaining / total : 0
+
+  const unusedAmount = Math.round(input.current_amount * fraction)
+  const newAmount = Math.round(input.new_amount * fraction)
+
+  return {
+    remaining_fraction: Math.round(fraction * 10000) / 10000,
+    unused_amount: unusedAmount,
+    new_amount: newAmount,
+    net_amount: newAmount - unusedAmount,
+  }
+}
+
+/** Split a charge into what the card pays and what proration credit covers. */
+export function applyCredit(amount: number, creditBalance: number): { charge_amount: number; credit_applied: number } {
+  const creditApplied = Math.min(Math.max(creditBalance, 0), amount)
+  return { charge_amount: amount - creditApplied, credit_applied: creditApplied }
+}
+
+/**
+ * Retry delays from ledger settings (`subscription_retry_days`), e.g.
+ * [1, 3, 5] retries a day after the first failure, then three days after the
+ * second, then five days after the third. An empty list cancels on the
+ * first failed renewal.
+ */
+export function getDunningSchedule(settings: Record<string, unknown> | null | undefined): number[] {
+  const configured = settings?.subscription_retry_days
+  if (!Array.isArray(configured)) return DEFAULT_DUNNING_SCHEDULE_DAYS
+
+  return configured
+    .filter((days): days is number => typeof days === 'number' && Number.isInteger(days) && days >= 1 && days <= 30)
+    .slice(0, 10)
+}
+
+/** When to retry after the given number of consecutive failures, or null once the schedule is exhausted. */
+export function nextRetryAt(failedAttempts: number, schedule: number[], from: Date): Date | null {
+  const days = schedule[failedAttempts - 1]
+  if (days === undefined) return null
+  return new Date(from.getTime() + days * DAY_MS)
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/** Validate a plan as sent by the API. currency defaults to the ledger's functional currency. */
+export function validateSubscriptionPlan(
+  value: Record<string, unknown>,
+): { plan?: SubscriptionPlanInput; error?: string } {
+  const participantId = validateId(value.participant_id, 100)
+  if (!participantId) return { error: 'Invalid participant_id' }
+
+  const productId = value.product_id !== undefined && value.product_id !== null
+    ? validateId(value.product_id, 100)
+    : null
+  if (value.product_id !== undefined && value.product_id !== null && !productId) {
+    return { error: 'Invalid product_id' }
+  }
+
+  const name = typeof value.name === 'string' ? validateString(value.name.trim(), 200) : null
+  if (!name) return { error: 'name is required' }
+
+  const amount = value.amount
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+    return { error: 'amount must be a positive integer in minor units' }
+  }
+
+  let currency: string | null = null
+  if (value.currency !== undefined) {
+    currency = normalizeCurrency(value.currency)
+    if (!currency) return { error: 'Unsupported currency' }
+  }
+
+  const interval = value.interval
+  if (!(SUBSCRIPTION_INTERVALS as readonly unknown[]).includes(interval)) {
+    return { error: `interval must be one of: ${SUBSCRIPTION_INTERVALS.join(', ')}` }
+  }
+
+  const intervalCount = value.interval_count ?? 1
+  if (typeof intervalCount !== 'number' || !Number.isInteger(intervalCount) || intervalCount < 1 || intervalCount > 365) {
+    return { error: 'interval_count must be an integer between 1 and 365' }
+  }
+
+  const revenueRecognition = value.revenue_recognition ?? 'immediate'
+  if (!(SUBSCRIPTION_REVENUE_RECOGNITION as readonly unknown[]).includes(revenueRecognition)) {
+    return { error: `revenue_recognition must be one of: ${SUBSCRIPTION_REVENUE_RECOGNITION.join(', ')}` }
+  }
+  if (
+    revenueRecognition === 'ratable'
+    && !ratableScheduleForPeriod(interval as string, intervalCount, new Date().toISOString())
+  ) {
+    return { error: 'ratable revenue recognition needs a monthly or yearly plan of at most 120 months' }
+  }
+
+  const metadata = value.metadata ?? {}
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return { error: 'metadata must be an object' }
+  }
+
+  return {
+    plan: {
+      participant_id: participantId,
+      product_id: productId,
+      name,
+      amount,
+      currency,
+      interval: interval as SubscriptionInterval,
+      interval_count: intervalCount,
+      revenue_recognition: revenueRecognition as SubscriptionRevenueRecognition,
+      metadata: metadata as Record<string, unknown>,
+    },
+  }
+}
+
+// ============================================================================
+// MAPPING AND LOADING
+// ============================================================================
+
+function mapPlan(row: any) {
+  return {
+    id: row.id,
+    participant_id: row.participant_id,
+    product_id: row.product_id ?? null,
+    name: row.name,
+    amount: Number(row.amount),
+    currency: row.currency,
+    interval: row.billing_interval,
+    interval_count: row.interval_count,
+    revenue_recognition: row.revenue_recognition ?? 'immediate',
+    status: row.status,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+  }
+}
+
+function mapSubscription(row: any) {
+  return {
+    id: row.id,
+    plan_id: row.plan_id,
+    participant_id: row.participant_id,
+    buyer_id: row.buyer_id,
+    customer_email: row.customer_email ?? null,
+    status: row.status,
+    current_period_start: row.current_period_start,
+    current_period_end: row.current_period_end,
+    cancel_at_period_end: Boolean(row.cancel_at_period_end),
+    canceled_at: row.canceled_at ?? null,
+    cancel_reason: row.cancel_reason ?? null,
+    credit_balance: Number(row.credit_balance ?? 0),
+    failed_attempts: row.failed_attempts ?? 0,
+    next_retry_at: row.next_retry_at ?? null,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+  }
+}
+
+function mapCharge(row: any) {
+  return {
+    id: row.id,
+    kind: row.kind,
+    period_start: row.period_start,
+    period_end: row.period_end,
+    amount: Number(row.amount),
+    credit_applied: Number(row.credit_applied ?? 0),
+    currency: row.currency,
+    attempt: row.attempt,
+    status: row.status,
+    payment_id: row.payment_id ?? null,
+    sale_transaction_id: row.sale_transaction_id ?? null,
+    failure_reason: row.failure_reason ?? null,
+    created_at: row.created_at,
+  }
+}
+
+async function loadPlan(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  planIdRaw: unknown,
+): Promise<{ plan?: any; error?: ResourceResult }> {
+  const planId = validateUUID(planIdRaw)
+  if (!planId) {
+    return { error: resourceError('plan_id is invalid', 400, {}, 'invalid_plan_id') }
+  }
+
+  const { data: plan } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', planId)
+    .maybeSingle()
+
+  if (!plan) {
+    return { error: resourceError('Subscription plan not found', 404, {}, 'subscription_plan_not_found') }
+  }
+  return { plan }
+}
+
+async function loadSubscription(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  subscriptionIdRaw: string,
+): Promise<{ subscription?: any; error?: ResourceResult }> {
+  const subscriptionId = validateUUID(subscriptionIdRaw)
+  if (!subscriptionId) {
+    return { error: resourceError('subscription_id is invalid', 400, {}, 'invalid_subscription_id') }
+  }
+
+  const { data: subscription } = await supabase
+    .from('buyer_subscriptions')
+    .select('*')
+    .eq('ledger_id', ledgerId)
+    .eq('id', subscriptionId)
+    .maybeSingle()
+
+  if (!subscription) {
+    return { error: resourceError('Subscription not found', 404, {}, 'subscription_not_found') }
+  }
+  return { subscription }
+}
+
+async function isParticipantDeleted(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  participantId: string,
+): Promise<boolean> {
+  const { data: account } = await supabase
+    .from('accounts')
+    .select('is_active')
+    .eq('ledger_id', ledgerId)
+    .eq('account_type', 'creator_balance')
+    .eq('entity_id', participantId)
+    .maybeSingle()
+
+  return account?.is_active === false
+}
+
+function queueSubscriptionWebhook(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  event: SubscriptionWebhookEvent,
+  data: Record<string, unknown>,
+  requestId: string,
+) {
+  supabase.rpc('queue_webhook', {
+    p_ledger_id: ledgerId,
+    p_event_type: event,
+    p_payload: {
+      event,
+      data: { ...data, created_at: new Date().toISOString() },
+    },
+  }).then(({ error }: { error: unknown }) => {
+    if (error) console.error(`[${requestId}] Failed to queue ${event} webhook:`, error)
+  })
+}
+
+// ============================================================================
+// CHARGING
+// ============================================================================
+
+/** Card provider for a ledger's subscription charges (test or live by ledger mode). */
+export function getSubscriptionPaymentProvider(ledger: LedgerContext): PaymentProvider {
+  return getPaymentProvider('card', { livemode: ledger.livemode })
+}
+
+async function findTransactionId(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  referenceId: string,
+): Promise<string | null> {
+  const { data } = await supabase
+    .from('transactions')
+    .select('id')
+    .eq('ledger_id', ledgerId)
+    .eq('reference_id', referenceId)
+    .maybeSingle()
+  return data?.id ?? null
+}
+
+function isDuplicateError(error: { code?: string; message?: string }): boolean {
+  return error.code === '23505' || String(error.message || '').includes('duplicate')
+}
+
+/**
+ * Book a paid charge: funding from the card into the buyer's wallet, then a
+ * sale posted like any one-off sale: split by the participant's effective
+ * split or split rule, followed by the same post-commit steps. Both postings
+ * are keyed on the payment id, so a retry after a partial failure is safe.
+ */
+async function postSubscriptionSale(
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  subscription: any,
+  plan: any,
+  charge: any,
+  paymentId: string,
+  requestId: string,
+): Promise<{ funding_transaction_id: string | null; sale_transaction_id: string | null }> {
+  const posted = { funding_transaction_id: null as string | null, sale_transaction_id: null as string | null }
+  const grossAmount = Number(charge.amount) - Number(charge.credit_applied ?? 0)
+  const fundingReferenceId = `funding_${paymentId}`
+  const saleReferenceId = `sale_${paymentId}`
+
+  const currencyResult = await resolvePostingCurrency(getFxRateSource(supabase, ledger), ledger, charge.currency, undefined)
+  if (!currencyResult.ok) {
+    console.error(`[${requestId}] Subscription charge ${charge.id} currency resolution failed:`, currencyResult.error)
+    return posted
+  }
+  const { currency, fx_rate: fxRate, functional_currency: functionalCurrency } = currencyResult.value
+
+  const { data: fundingResult, error: fundingError } = await supabase.rpc('record_funding_atomic', {
+    p_ledger_id: ledger.id,
+    p_reference_id: fundingReferenceId,
+    p_buyer_id: subscription.buyer_id,
+    p_amount_cents: grossAmount,
+    p_processing_fee_cents: 0,
+    p_metadata: {
+      checkout_provider: 'card',
+      stripe_payment_id: paymentId,
+      subscription_id: subscription.id,
+    },
+    p_currency: currency,
+    p_fx_rate: fxRate,
+  })
+
+  if (fundingError && !isDuplicateError(fundingError)) {
+    console.error(`[${requestId}] Subscription funding booking failed:`, fundingError.message)
+    return posted
+  }
+  const fundingRow = Array.isArray(fundingResult) ? fundingResult[0] : fundingResult
+  posted.funding_transaction_id = fundingRow?.out_transaction_id
+    ?? await findTransactionId(supabase, ledger.id, fundingReferenceId)
+
+  const { data: effectiveSplit, error: effectiveSplitError } = await supabase.rpc('get_effective_split', {
+    p_ledger_id: ledger.id,
+    p_creator_id: plan.participant_id,
+    p_product_id: plan.product_id ?? null,
+  })
+  const creatorPercent = Number((Array.isArray(effectiveSplit) ? effectiveSplit[0] : effectiveSplit)?.creator_percent)
+  if (effectiveSplitError || !Number.isFinite(creatorPercent)) {
+    console.error(`[${requestId}] Subscription split lookup failed:`, effectiveSplitError)
+    return posted
+  }
+
+  const { data: splitResult, error: splitError } = await supabase.rpc('calculate_sale_split', {
+    p_gross_cents: grossAmount,
+    p_creator_percent: creatorPercent,
+    p_processing_fee_cents: 0,
+  })
+  const split = splitResult?.[0]
+  if (splitError || !split) {
+    console.error(`[${requestId}] Subscription split calculation failed:`, splitError)
+    return posted
+  }
+
+  const splitRule = await resolveSplitRule(supabase, ledger.id, {
+    productId: plan.product_id ?? null,
+    creatorId: plan.participant_id,
+  })
+  const { transaction_id: saleTransactionId, error: saleError } = await postSaleWithSplitRule(supabase, {
+    p_ledger_id: ledger.id,
+    p_reference_id: saleReferenceId,
+    p_creator_id: plan.participant_id,
+    p_gross_amount: grossAmount,
+    p_creator_amount: split.creator_cents,
+    p_platform_amount: split.platform_cents,
+    p_processing_fee: 0,
+    p_soledgic_fee: split.soledgic_fee_cents ?? 0,
+    p_sales_tax: 0,
+    p_product_id: plan.product_id ?? null,
+    p_product_name: plan.name,
+    p_metadata: {
+      funding_transaction_id: posted.funding_transaction_id,
+      buyer_id: subscription.buyer_id,
+      checkout_provider: 'card',
+      subscription_id: subscription.id,
+      subscription_charge_id: charge.id,
+      subscription_plan_id: plan.id,
+      charge_kind: charge.kind,
+      period_start: charge.period_start,
+      period_end: charge.period_end,
+    },
+    p_currency: currency,
+    p_fx_rate: fxRate,
+  }, splitRule, functionalCurrency)
+
+  if (saleError) {
+    if (!isDuplicateError(saleError)) {
+      console.error(`[${requestId}] Subscription sale booking failed:`, saleError.message)
+      return posted
+    }
+    posted.sale_transaction_id = await findTransactionId(supabase, ledger.id, saleReferenceId)
+    return posted
+  }
+
+  posted.sale_transaction_id = saleTransactionId
+
+  if (posted.sale_transaction_id) {
+    void autoLinkTransaction(supabase, ledger.id, {
+      id: posted.sale_transaction_id,
+      transaction_type: 'sale',
+    })
+
+    // Ratable plans earn each period's charge over the period; proration
+    // charges settle a plan change and are recognized immediately.
+    const schedule = plan.revenue_recognition === 'ratable' && charge.kind !== 'proration'
+      ? ratableScheduleForPeriod(plan.billing_interval, plan.interval_count, String(charge.period_start))
+      : null
+    const followups = await runSaleFollowups(supabase, {
+      ledgerId: ledger.id,
+      transactionId: posted.sale_transaction_id,
+      creatorId: plan.participant_id,
+      recognition: schedule,
+      recognitionMetadata: { subscription_id: subscription.id, subscription_charge_id: charge.id },
+    }, requestId)
+    if (followups.revenue_schedule_error) {
+      console.error(`[${requestId}] Subscription charge ${charge.id} revenue schedule failed:`, followups.revenue_schedule_error)
+    }
+  }
+
+  return posted
+}
+
+/**
+ * Charge one billing attempt. Proration credit is applied first; a charge
+ * fully covered by credit succeeds without touching the card. Attempts are
+ * recorded before the card is charged and the provider call is keyed on the
+ * charge id, so a crashed attempt is resumed rather than charged twice.
+ */
+async function chargeSubscription(
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  provider: PaymentProvider,
+  subscription: any,
+  plan: any,
+  request: ChargeRequest,
+  requestId: string,
+): Promise<ChargeOutcome> {
+  const { credit_applied: creditApplied } = applyCredit(request.amount, Number(subscription.credit_balance ?? 0))
+
+  let { data: charge, error: insertError } = await supabase
+    .from('subscription_charges')
+    .insert({
+      ledger_id: ledger.id,
+      subscription_id: subscription.id,
+      plan_id: plan.id,
+      kind: request.kind,
+      period_start: request.period_start.toISOString(),
+      period_end: request.period_end.toISOString(),
+      amount: request.amount,
+      credit_applied: creditApplied,
+      currency: plan.currency,
+      attempt: request.attempt,
+    })
+    .select('*')
+    .single()
+
+  if (insertError && insertError.code === '23505') {
+    const { data: existing } = await supabase
+      .from('subscription_charges')
+      .select('*')
+      .eq('subscription_id', subscription.id)
+      .eq('kind', request.kind)
+      .eq('period_start', request.period_start.toISOString())
+      .eq('attempt', request.attempt)
+      .maybeSingle()
+
+    if (existing && existing.status !== 'pending') {
+      return existing.status === 'failed'
+        ? { charge: existing, succeeded: false, failure_reason: existing.failure_reason || 'payment_failed' }
+        : { charge: existing, succeeded: true }
+    }
+    charge = existing
+  } else if (insertError) {
+    console.error(`[${requestId}] Failed to record subscription charge:`, insertError)
+  }
+
+  if (!charge) {
+    return { charge: null, succeeded: false, failure_reason: 'charge_record_failed' }
+  }
+
+  const chargeUpdate: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  const remainingCredit = Number(subscription.credit_balance ?? 0) - Number(charge.credit_applied ?? 0)
+  const cardAmount = Number(charge.amount) - Number(charge.credit_applied ?? 0)
+
+  if (cardAmount > 0) {
+    const metadata: Record<string, string> = {
+      ledger_id: ledger.id,
+      subscription_id: subscription.id,
+      subscription_charge_id: charge.id,
+      subscription_plan_id: plan.id,
+      creator_id: plan.participant_id,
+      participant_id: plan.participant_id,
+      buyer_id: subscription.buyer_id,
+      charge_kind: request.kind,
+      soledgic_request_id: requestId,
+      checkout_provider: 'card',
+    }
+    if (plan.product_id) metadata.product_id = plan.product_id
+
+    const result = await provider.createPaymentIntent({
+      amount: cardAmount,
+      currency: plan.currency,
+      metadata,
+      description: plan.name,
+      receipt_email: subscription.customer_email || undefined,
+      payment_method_id: subscription.payment_method_id,
+      idempotency_id: `subscription_charge_${charge.id}`,
+    })
+
+    const providerStatus = (result.status || '').toUpperCase()
+    if (!result.success || !result.id || providerStatus === 'FAILED' || providerStatus === 'CANCELED' || result.requires_action) {
+      // Renewals run off-session, so a card asking for authentication has failed
+      const failureReason = result.requires_action
+        ? 'authentication_required'
+        : (result.error || 'payment_failed')
+
+      const { data: failed } = await supabase
+        .from('subscription_charges')
+        .update({ ...chargeUpdate, status: 'failed', payment_id: result.id || null, failure_reason: failureReason.substring(0, 500) })
+        .eq('id', charge.id)
+        .select('*')
+        .single()
+
+      return { charge: failed || charge, succeeded: false, failure_reason: failureReason }
+    }
+
+    const posted = await postSubscriptionSale(supabase, ledger, subscription, plan, charge, result.id, requestId)
+    chargeUpdate.payment_id = result.id
+    chargeUpdate.funding_transaction_id = posted.funding_transaction_id
+    chargeUpdate.sale_transaction_id = posted.sale_transaction_id
+    chargeUpdate.status = posted.sale_transaction_id ? 'succeeded' : 'charged_pending_ledger'
+  } else {
+    chargeUpdate.status = 'succeeded'
+  }
+
+  if (Number(charge.credit_applied ?? 0) > 0) {
+    await supabase
+      .from('buyer_subscriptions')
+      .update({ credit_balance: Math.max(remainingCredit, 0), updated_at: chargeUpdate.updated_at })
+      .eq('id', subscription.id)
+    subscription.credit_balance = Math.max(remainingCredit, 0)
+  }
+
+  const { data: updated } = await supabase
+    .from('subscription_charges')
+    .update(chargeUpdate)
+    .eq('id', charge.id)
+    .select('*')
+    .single()
+
+  return { charge: updated || { ...charge, ...chargeUpdate }, succeeded: true }
+}
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export async function listSubscriptionPlansResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: SubscriptionPlansQuery,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 100), 1), 500)
+
+  let query = supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.participant_id) query = query.eq('participant_id', filters.participant_id)
+  if (filters.status) {
+    if (!(SUBSCRIPTION_PLAN_STATUSES as readonly string[]).includes(filters.status)) {
+      return resourceError(`status must be one of: ${SUBSCRIPTION_PLAN_STATUSES.join(', ')}`, 400, {}, 'invalid_subscription_plan_status')
+    }
+    query = query.eq('status', filters.status)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list subscription plans:', error)
+    return resourceError('Failed to list subscription plans', 500, {}, 'subscription_plans_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    plans: (data || []).map(mapPlan),
+  })
+}
+
+export async function createSubscriptionPlanResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const { plan, error: validationError } = validateSubscriptionPlan(body)
+  if (!plan) {
+    return resourceError(validationError || 'Invalid subscription plan', 400, {}, 'invalid_subscription_plan')
+  }
+
+  if (await isParticipantDeleted(supabase, ledger.id, plan.participant_id)) {
+    return resourceError(`Participant ${plan.participant_id} has been deleted`, 410, {}, 'participant_deleted')
+  }
+
+  const { data: created, error } = await supabase
+    .from('subscription_plans')
+    .insert({
+      ledger_id: ledger.id,
+      participant_id: plan.participant_id,
+      product_id: plan.product_id,
+      name: plan.name,
+      amount: plan.amount,
+      currency: plan.currency ?? getFunctionalCurrency(ledger),
+      billing_interval: plan.interval,
+      interval_count: plan.interval_count,
+      revenue_recognition: plan.revenue_recognition,
+      metadata: plan.metadata,
+    })
+    .select('*')
+    .single()
+
+  if (error || !created) {
+    console.error('Failed to create subscription plan:', error)
+    return resourceError('Failed to create subscription plan', 500, {}, 'subscription_plan_create_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'subscription_plan_created',
+    entity_type: 'subscription_plan',
+    entity_id: created.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      participant_id: plan.participant_id,
+      product_id: plan.product_id,
+      amount: plan.amount,
+      currency: created.currency,
+      interval: plan.interval,
+      interval_count: plan.interval_count,
+      revenue_recognition: plan.revenue_recognition,
+    }),
+    response_status: 201,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    plan: mapPlan(created),
+  }, 201)
+}
+
+/** Archived plans take no new subscribers; existing subscriptions keep renewing. */
+export async function archiveSubscriptionPlanResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  planIdRaw: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadPlan(supabase, ledger.id, planIdRaw)
+  if (loaded.error) return loaded.error
+  const plan = loaded.plan
+
+  if (plan.status === 'archived') {
+    return resourceError('Subscription plan is already archived', 409, {}, 'subscription_plan_archived')
+  }
+
+  const { data: updated, error } = await supabase
+    .from('subscription_plans')
+    .update({ status: 'archived', updated_at: new Date().toISOString() })
+    .eq('id', plan.id)
+    .select('*')
+    .single()
+
+  if (error || !updated) {
+    console.error('archiveSubscriptionPlanResponse error:', error)
+    return resourceError('Failed to archive subscription plan', 500, {}, 'subscription_plan_update_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'subscription_plan_archived',
+    entity_type: 'subscription_plan',
+    entity_id: plan.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ participant_id: plan.participant_id, name: plan.name }),
+    response_status: 200,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    plan: mapPlan(updated),
+  })
+}
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+export async function listSubscriptionsResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filters: SubscriptionsQuery,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || 100), 1), 500)
+
+  let query = supabase
+    .from('buyer_subscriptions')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+
+  if (filters.buyer_id) query = query.eq('buyer_id', filters.buyer_id)
+  if (filters.participant_id) query = query.eq('participant_id', filters.participant_id)
+  if (filters.plan_id) query = query.eq('plan_id', filters.plan_id)
+  if (filters.status) {
+    if (!(SUBSCRIPTION_STATUSES as readonly string[]).includes(filters.status)) {
+      return resourceError(`status must be one of: ${SUBSCRIPTION_STATUSES.join(', ')}`, 400, {}, 'invalid_subscription_status')
+    }
+    query = query.eq('status', filters.status)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Failed to list subscriptions:', error)
+    return resourceError('Failed to list subscriptions', 500, {}, 'subscriptions_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    subscriptions: (data || []).map(mapSubscription),
+  })
+}
+
+/**
+ * Subscribe a buyer and charge the first period. A subscription whose first
+ * charge fails stays incomplete and is never renewed.
+ */
+export async function createSubscriptionResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: Record<string, unknown>,
+  requestId: string,
+  provider: PaymentProvider,
+): Promise<ResourceResult> {
+  const buyerId = validateId(body.buyer_id, 100)
+  if (!buyerId) {
+    return resourceError('Invalid buyer_id', 400, {}, 'invalid_buyer_id')
+  }
+
+  const paymentMethodId = validateString(body.payment_method_id, 200)
+  if (!paymentMethodId) {
+    return resourceError('payment_method_id is required', 400, {}, 'missing_payment_method_id')
+  }
+
+  const idempotencyKey = validateId(body.idempotency_key, 120)
+  if (!idempotencyKey) {
+    return resourceError('idempotency_key is required for subscriptions', 400, {}, 'missing_idempotency_key')
+  }
+
+  const customerEmail = body.customer_email !== undefined ? validateEmail(body.customer_email) : null
+  if (body.customer_email !== undefined && !customerEmail) {
+    return resourceError('Invalid customer_email', 400, {}, 'invalid_customer_email')
+  }
+
+  const metadata = body.metadata ?? {}
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return resourceError('metadata must be an object', 400, {}, 'invalid_metadata')
+  }
+
+  const { data: existing } = await supabase
+    .from('buyer_subscriptions')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle()
+
+  if (existing) {
+    return resourceOk({
+      success: existing.status !== 'incomplete',
+      subscription: mapSubscription(existing),
+      idempotent: true,
+    })
+  }
+
+  const loaded = await loadPlan(supabase, ledger.id, body.plan_id)
+  if (loaded.error) return loaded.error
+  const plan = loaded.plan
+
+  if (plan.status !== 'active') {
+    return resourceError('Subscription plan is archived', 409, {}, 'subscription_plan_archived')
+  }
+
+  if (await isParticipantDeleted(supabase, ledger.id, plan.participant_id)) {
+    return resourceError(`Participant ${plan.participant_id} has been deleted`, 410, {}, 'participant_deleted')
+  }
+
+  const periodStart = new Date()
+  const anchorDay = periodStart.getUTCDate()
+  const periodEnd = addBillingInterval(periodStart, plan.billing_interval, plan.interval_count, anchorDay)
+
+  const { data: subscription, error: insertError } = await supabase
+    .from('buyer_subscriptions')
+    .insert({
+      ledger_id: ledger.id,
+      plan_id: plan.id,
+      participant_id: plan.participant_id,
+      buyer_id: buyerId,
+      customer_email: customerEmail,
+      payment_method_id: paymentMethodId,
+      idempotency_key: idempotencyKey,
+      current_period_start: periodStart.toISOString(),
+      current_period_end: periodEnd.toISOString(),
+      billing_anchor_day: anchorDay,
+      metadata,
+    })
+    .select('*')
+    .single()
+
+  if (insertError || !subscription) {
+    console.error('Failed to create subscription:', insertError)
+    return resourceError('Failed to create subscription', 500, {}, 'subscription_create_failed')
+  }
+
+  const outcome = await chargeSubscription(supabase, ledger, provider, subscription, plan, {
+    kind: 'initial',
+    period_start: periodStart,
+    period_end: periodEnd,
+    amount: Number(plan.amount),
+    attempt: 1,
+  }, requestId)
+
+  const auditBody = sanitizeForAudit({
+    plan_id: plan.id,
+    participant_id: plan.participant_id,
+    buyer_id: buyerId,
+    amount: Number(plan.amount),
+    currency: plan.currency,
+    charge_status: outcome.charge?.status ?? null,
+  })
+
+  if (!outcome.succeeded) {
+    createAuditLogAsync(supabase, req, {
+      ledger_id: ledger.id,
+      action: 'subscription_payment_failed',
+      entity_type: 'subscription',
+      entity_id: subscription.id,
+      actor_type: 'api',
+      request_body: auditBody,
+      response_status: 402,
+      risk_score: 30,
+    }, requestId)
+
+    return resourceError(`Payment failed: ${outcome.failure_reason}`, 402, {
+      subscription: mapSubscription(subscription),
+      charge: outcome.charge ? mapCharge(outcome.charge) : null,
+    }, 'subscription_payment_failed')
+  }
+
+  const { data: activated } = await supabase
+    .from('buyer_subscriptions')
+    .update({ status: 'active', updated_at: new Date().toISOString() })
+    .eq('id', subscription.id)
+    .select('*')
+    .single()
+  const current = activated || { ...subscription, status: 'active' }
+
+  queueSubscriptionWebhook(supabase, ledger.id, 'subscription.created', {
+    subscription_id: current.id,
+    plan_id: plan.id,
+    participant_id: plan.participant_id,
+    buyer_id: buyerId,
+    amount: Number(plan.amount),
+    currency: plan.currency,
+    current_period_start: current.current_period_start,
+    current_period_end: current.current_period_end,
+    charge_id: outcome.charge.id,
+    sale_transaction_id: outcome.charge.sale_transaction_id ?? null,
+  }, requestId)
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'subscription_created',
+    entity_type: 'subscription',
+    entity_id: current.id,
+    actor_type: 'api',
+    request_body: auditBody,
+    response_status: 201,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    subscription: mapSubscription(current),
+    charge: mapCharge(outcome.charge),
+  }, 201)
+}
+
+export async function getSubscriptionResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  subscriptionIdRaw: string,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadSubscription(supabase, ledger.id, subscriptionIdRaw)
+  if (loaded.error) return loaded.error
+  const subscription = loaded.subscription
+
+  const { data: charges } = await supabase
+    .from('subscription_charges')
+    .select('*')
+    .eq('subscription_id', subscription.id)
+    .order('created_at', { ascending: false })
+    .limit(100)
+
+  return resourceOk({
+    success: true,
+    subscription: mapSubscription(subscription),
+    charges: (charges || []).map(mapCharge),
+  })
+}
+
+/**
+ * Move an active subscription to another plan with the same currency and
+ * interval. With prorate (the default) the rest of the period is repriced:
+ * an upgrade is charged now, a downgrade becomes credit.
+ */
+export async function changeSubscriptionPlanResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  subscriptionIdRaw: string,
+  body: Record<string, unknown>,
+  requestId: string,
+  provider: PaymentProvider,
+): Promise<ResourceResult> {
+  const loaded = await loadSubscription(supabase, ledger.id, subscriptionIdRaw)
+  if (loaded.error) return loaded.error
+  const subscription = loaded.subscription
+
+  if (subscription.status !== 'active') {
+    return resourceError(`Cannot change the plan of a ${subscription.status} subscription`, 409, {}, 'subscription_not_active')
+  }
+
+  const newPlanLoaded = await loadPlan(supabase, ledger.id, body.plan_id)
+  if (newPlanLoaded.error) return newPlanLoaded.error
+  const newPlan = newPlanLoaded.plan
+
+  if (newPlan.id === subscription.plan_id) {
+    return resourceError('Subscription is already on this plan', 409, {}, 'subscription_plan_unchanged')
+  }
+  if (newPlan.status !== 'active') {
+    return resourceError('Subscription plan is archived', 409, {}, 'subscription_plan_archived')
+  }
+
+  const { data: currentPlan } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('id', subscription.plan_id)
+    .single()
+
+  if (
+    !currentPlan ||
+    currentPlan.currency !== newPlan.currency ||
+    currentPlan.billing_interval !== newPlan.billing_interval ||
+    currentPlan.interval_count !== newPlan.interval_count
+  ) {
+    return resourceError('New plan must bill in the same currency and interval', 400, {}, 'subscription_plan_incompatible')
+  }
+
+  if (body.prorate !== undefined && typeof body.prorate !== 'boolean') {
+    return resourceError('prorate must be a boolean', 400, {}, 'invalid_prorate')
+  }
+  const prorate = body.prorate !== false
+
+  const now = new Date()
+  const proration = computeProration({
+    current_amount: Number(currentPlan.amount),
+    new_amount: Number(newPlan.amount),
+    period_start: new Date(subscription.current_period_start),
+    period_end: new Date(subscription.current_period_end),
+    at: now,
+  })
+
+  let charge: any = null
+  if (prorate && proration.net_amount > 0) {
+    const outcome = await chargeSubscription(supabase, ledger, provider, subscription, newPlan, {
+      kind: 'proration',
+      period_start: now,
+      period_end: new Date(subscription.current_period_end),
+      amount: proration.net_amount,
+      attempt: 1,
+    }, requestId)
+
+    if (!outcome.succeeded) {
+      return resourceError(`Payment failed: ${outcome.failure_reason}`, 402, {
+        charge: outcome.charge ? mapCharge(outcome.charge) : null,
+      }, 'subscription_payment_failed')
+    }
+    charge = outcome.charge
+  }
+
+  const creditAdded = prorate && proration.net_amount < 0 ? -proration.net_amount : 0
+
+  const { data: updated, error } = await supabase
+    .from('buyer_subscriptions')
+    .update({
+      plan_id: newPlan.id,
+      participant_id: newPlan.participant_id,
+      credit_balance: Number(subscription.credit_balance ?? 0) + creditAdded,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', subscription.id)
+    .select('*')
+    .single()
+
+  if (error || !updated) {
+    console.error('changeSubscriptionPlanResponse error:', error)
+    return resourceError('Failed to change subscription plan', 500, {}, 'subscription_update_failed')
+  }
+
+  const prorationBody = {
+    ...proration,
+    prorated: prorate,
+    credit_added: creditAdded,
+    charge: charge ? mapCharge(charge) : null,
+  }
+
+  queueSubscriptionWebhook(supabase, ledger.id, 'subscription.updated', {
+    subscription_id: subscription.id,
+    previous_plan_id: currentPlan.id,
+    plan_id: newPlan.id,
+    participant_id: newPlan.participant_id,
+    buyer_id: subscription.buyer_id,
+    proration: { ...proration, credit_added: creditAdded, charge_id: charge?.id ?? null },
+  }, requestId)
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'subscription_plan_changed',
+    entity_type: 'subscription',
+    entity_id: subscription.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      previous_plan_id: currentPlan.id,
+      plan_id: newPlan.id,
+      prorate,
+      net_amount: proration.net_amount,
+    }),
+    response_status: 200,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    subscription: mapSubscription(updated),
+    proration: prorationBody,
+  })
+}
+
+/**
+ * Cancel at the end of the paid period (the default for active
+ * subscriptions) or immediately. Immediate cancellation does not refund the
+ * current period.
+ */
+export async function cancelSubscriptionResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  subscriptionIdRaw: string,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadSubscription(supabase, ledger.id, subscriptionIdRaw)
+  if (loaded.error) return loaded.error
+  const subscription = loaded.subscription
+
+  if (subscription.status === 'canceled') {
+    return resourceError('Subscription is already canceled', 409, {}, 'subscription_canceled')
+  }
+
+  if (body.at_period_end !== undefined && typeof body.at_period_end !== 'boolean') {
+    return resourceError('at_period_end must be a boolean', 400, {}, 'invalid_at_period_end')
+  }
+  const atPeriodEnd = body.at_period_end !== false && subscription.status === 'active'
+  const now = new Date().toISOString()
+
+  const { data: updated, error } = await supabase
+    .from('buyer_subscriptions')
+    .update(atPeriodEnd
+      ? { cancel_at_period_end: true, updated_at: now }
+      : {
+          status: 'canceled',
+          canceled_at: now,
+          cancel_reason: 'requested',
+          cancel_at_period_end: false,
+          next_retry_at: null,
+          updated_at: now,
+        })
+    .eq('id', subscription.id)
+    .neq('status', 'canceled')
+    .select('*')
+    .maybeSingle()
+
+  if (error || !updated) {
+    console.error('cancelSubscriptionResponse error:', error)
+    return resourceError('Failed to cancel subscription', 500, {}, 'subscription_update_failed')
+  }
+
+  queueSubscriptionWebhook(supabase, ledger.id, atPeriodEnd ? 'subscription.updated' : 'subscription.canceled', {
+    subscription_id: subscription.id,
+    plan_id: subscription.plan_id,
+    participant_id: subscription.participant_id,
+    buyer_id: subscription.buyer_id,
+    cancel_at_period_end: atPeriodEnd,
+    canceled_at: updated.canceled_at ?? null,
+    cancel_reason: updated.cancel_reason ?? null,
+  }, requestId)
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'subscription_canceled',
+    entity_type: 'subscription',
+    entity_id: subscription.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ at_period_end: atPeriodEnd, previous_status: subscription.status }),
+    response_status: 200,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    subscription: mapSubscription(updated),
+  })
+}
+
+/** Replace the saved payment method. A past_due subscription is retried on the next renewal run. */
+export async function updateSubscriptionPaymentMethodResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  subscriptionIdRaw: string,
+  body: Record<string, unknown>,
+  requestId: string,
+): Promise<ResourceResult> {
+  const loaded = await loadSubscription(supabase, ledger.id, subscriptionIdRaw)
+  if (loaded.error) return loaded.error
+  const subscription = loaded.subscription
+
+  if (subscription.status === 'canceled' || subscription.status === 'incomplete') {
+    return resourceError(`Cannot update a ${subscription.status} subscription`, 409, {}, 'subscription_not_active')
+  }
+
+  const paymentMethodId = validateString(body.payment_method_id, 200)
+  if (!paymentMethodId) {
+    return resourceError('payment_method_id is required', 400, {}, 'missing_payment_method_id')
+  }
+
+  const now = new Date().toISOString()
+  const { data: updated, error } = await supabase
+    .from('buyer_subscriptions')
+    .update({
+      payment_method_id: paymentMethodId,
+      ...(subscription.status === 'past_due' ? { next_retry_at: now } : {}),
+      updated_at: now,
+    })
+    .eq('id', subscription.id)
+    .select('*')
+    .single()
+
+  if (error || !updated) {
+    console.error('updateSubscriptionPaymentMethodResponse error:', error)
+    return resourceError('Failed to update payment method', 500, {}, 'subscription_update_failed')
+  }
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'subscription_payment_method_updated',
+    entity_type: 'subscription',
+    entity_id: subscription.id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({ status: subscription.status }),
+    response_status: 200,
+    risk_score: 20,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    subscription: mapSubscription(updated),
+  })
+}
+
+// ============================================================================
+// RENEWALS
+// ============================================================================
+
+/**
+ * Act on one subscription claimed by the renewal cron: end it if it was set
+ * to cancel at period end, otherwise charge the next period. A failed charge
+ * schedules the next dunning retry or, once the schedule is exhausted,
+ * cancels the subscription. Always releases the renewal claim.
+ */
+export async function renewSubscription(
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  provider: PaymentProvider,
+  subscriptionId: string,
+  requestId: string,
+): Promise<SubscriptionRenewalOutcome> {
+  const { data: subscription } = await supabase
+    .from('buyer_subscriptions')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+    .eq('id', subscriptionId)
+    .maybeSingle()
+
+  if (!subscription) {
+    return { subscription_id: subscriptionId, outcome: 'skipped' }
+  }
+
+  const now = new Date()
+  const release = { renewal_locked_until: null, updated_at: now.toISOString() }
+  const updateSubscription = (changes: Record<string, unknown>) =>
+    supabase.from('buyer_subscriptions').update({ ...changes, ...release }).eq('id', subscription.id)
+
+  const isDue = subscription.status === 'active'
+    ? Date.parse(subscription.current_period_end) <= now.getTime()
+    : subscription.status === 'past_due' && Boolean(subscription.next_retry_at) &&
+      Date.parse(subscription.next_retry_at) <= now.getTime()
+
+  if (!isDue) {
+    await updateSubscription({})
+    return { subscription_id: subscription.id, outcome: 'skipped' }
+  }
+
+  const webhookBase = {
+    subscription_id: subscription.id,
+    plan_id: subscription.plan_id,
+    participant_id: subscription.participant_id,
+    buyer_id: subscription.buyer_id,
+  }
+
+  if (subscription.status === 'active' && subscription.cancel_at_period_end) {
+    await updateSubscription({
+      status: 'canceled',
+      canceled_at: subscription.current_period_end,
+      cancel_reason: 'canceled_at_period_end',
+    })
+    queueSubscriptionWebhook(supabase, ledger.id, 'subscription.canceled', {
+      ...webhookBase,
+      canceled_at: subscription.current_period_end,
+      cancel_reason: 'canceled_at_period_end',
+    }, requestId)
+    return { subscription_id: subscription.id, outcome: 'canceled' }
+  }
+
+  const { data: plan } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('id', subscription.plan_id)
+    .single()
+
+  if (!plan) {
+    console.error(`[${requestId}] Subscription ${subscription.id} has no plan`)
+    await updateSubscription({})
+    return { subscription_id: subscription.id, outcome: 'skipped' }
+  }
+
+  // A past_due subscription keeps retrying the period it failed to renew
+  const periodStart = new Date(subscription.current_period_end)
+  const periodEnd = addBillingInterval(periodStart, plan.billing_interval, plan.interval_count, subscription.billing_anchor_day)
+  const attempt = (subscription.failed_attempts ?? 0) + 1
+
+  const outcome = await chargeSubscription(supabase, ledger, provider, subscription, plan, {
+    kind: 'renewal',
+    period_start: periodStart,
+    period_end: periodEnd,
+    amount: Number(plan.amount),
+    attempt,
+  }, requestId)
+
+  if (outcome.succeeded) {
+    await updateSubscription({
+      status: 'active',
+      current_period_start: periodStart.toISOString(),
+      current_period_end: periodEnd.toISOString(),
+      failed_attempts: 0,
+      next_retry_at: null,
+    })
+    queueSubscriptionWebhook(supabase, ledger.id, 'subscription.renewed', {
+      ...webhookBase,
+      charge_id: outcome.charge.id,
+      amount: Number(outcome.charge.amount),
+      credit_applied: Number(outcome.charge.credit_applied ?? 0),
+      currency: plan.currency,
+      current_period_start: periodStart.toISOString(),
+      current_period_end: periodEnd.toISOString(),
+      sale_transaction_id: outcome.charge.sale_transaction_id ?? null,
+    }, requestId)
+    return { subscription_id: subscription.id, outcome: 'renewed', charge_id: outcome.charge.id }
+  }
+
+  const retryAt = nextRetryAt(attempt, getDunningSchedule(ledger.settings), now)
+
+  queueSubscriptionWebhook(supabase, ledger.id, 'subscription.payment_failed', {
+    ...webhookBase,
+    charge_id: outcome.charge?.id ?? null,
+    attempt,
+    failure_reason: outcome.failure_reason,
+    next_retry_at: retryAt?.toISOString() ?? null,
+  }, requestId)
+
+  if (retryAt) {
+    await updateSubscription({
+      status: 'past_due',
+      failed_attempts: attempt,
+      next_retry_at: retryAt.toISOString(),
+    })
+    return {
+      subscription_id: subscription.id,
+      outcome: 'payment_failed',
+      charge_id: outcome.charge?.id,
+      next_retry_at: retryAt.toISOString(),
+    }
+  }
+
+  await updateSubscription({
+    status: 'canceled',
+    canceled_at: now.toISOString(),
+    cancel_reason: 'payment_failed',
+    failed_attempts: attempt,
+    next_retry_at: null,
+  })
+  queueSubscriptionWebhook(supabase, ledger.id, 'subscription.canceled', {
+    ...webhookBase,
+    canceled_at: now.toISOString(),
+    cancel_reason: 'payment_failed',
+  }, requestId)
+  return { subscription_id: subscription.id, outcome: 'canceled', charge_id: outcome.charge?.id }
+}
+
+/**
+ * Book a charge whose card payment succeeded but whose sale did not post.
+ * Returns true once the sale is on the ledger.
+ */
+export async function retrySubscriptionChargeLedger(
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  chargeId: string,
+  requestId: string,
+): Promise<boolean> {
+  const { data: charge } = await supabase
+    .from('subscription_charges')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+    .eq('id', chargeId)
+    .eq('status', 'charged_pending_ledger')
+    .maybeSingle()
+
+  if (!charge?.payment_id) return false
+
+  const [{ data: subscription }, { data: plan }] = await Promise.all([
+    supabase.from('buyer_subscriptions').select('*').eq('id', charge.subscription_id).single(),
+    supabase.from('subscription_plans').select('*').eq('id', charge.plan_id).single(),
+  ])
+  if (!subscription || !plan) return false
+
+  const posted = await postSubscriptionSale(supabase, ledger, subscription, plan, charge, charge.payment_id, requestId)
+  if (!posted.sale_transaction_id) return false
+
+  await supabase
+    .from('subscription_charges')
+    .update({
+      status: 'succeeded',
+      funding_transaction_id: posted.funding_transaction_id,
+      sale_transaction_id: posted.sale_transaction_id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', charge.id)
+
+  return true
+}
@@ -0,0 +1,1034 @@
+// SERVICE_ID: SVC_TAX_FILING
+// Soledgic: electronic 1099 filing files
+// Builds an IRS FIRE (Publication 1220) fixed-width file or an IRIS XML
+// transmission from a ledger's tax documents, validates it locally, stores it
+// in the private tax-filings bucket and records the submission. Full payee
+// TINs are supplied per request and only ever written to the stored file;
+// Soledgic keeps the last four digits.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createAuditLogAsync,
+  LedgerContext,
+  sanitizeForAudit,
+  validateId,
+} from './utils.ts'
+import {
+  ResourceResult,
+  resourceError,
+  resourceOk,
+} from './treasury-resource.ts'
+import { getLinkedUserIdsForParticipants } from './identity-service.ts'
+import { TAX_FORM_TYPES, type TaxFormType } from './tax-service.ts'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TaxFilingFormat = 'fire' | 'iris'
+
+export interface TaxFilingTransmitter {
+  tin: string
+  tcc: string
+  name: string
+  contact_name: string
+  contact_phone: string
+  contact_email: string
+}
+
+export interface TaxFilingParty {
+  tin: string
+  name: string
+  address: string
+  city: string
+  state: string
+  zip: string
+  phone?: string
+}
+
+export interface TaxFilingPayee extends TaxFilingParty {
+  recipient_id: string
+  tin_type: 'ssn' | 'ein' | 'itin'
+  business: boolean
+}
+
+export interface TaxFilingDocument {
+  id: string
+  document_type: TaxFormType
+  recipient_id: string
+  gross_amount: number
+  federal_withholding: number
+  state_withholding: number
+  transaction_count: number
+  form_boxes: Record<string, number>
+}
+
+export interface TaxFilingInput {
+  tax_year: number
+  is_test: boolean
+  combined_federal_state: boolean
+  transmitter: TaxFilingTransmitter
+  payer: TaxFilingParty
+  payees: Record<string, TaxFilingPayee>
+  documents: TaxFilingDocument[]
+}
+
+export interface TaxFilingValidation {
+  valid: boolean
+  errors: string[]
+}
+
+export interface FireFileSummary extends TaxFilingValidation {
+  payer_count: number
+  payee_count: number
+}
+
+const TAX_FILING_FORMATS: TaxFilingFormat[] = ['fire', 'iris']
+const TAX_FILING_BUCKET = 'tax-filings'
+// Filing files carry full TINs - keep the download window as short as NACHA's
+const TAX_FILING_URL_EXPIRY_SECONDS = 300
+
+// ============================================================================
+// FORM LAYOUTS
+// ============================================================================
+
+// Pub 1220 amount codes in B/C/K record order: payment amounts 1-9, A-H, J
+// (the 18 codes of A record positions 28-45; there is no code I)
+const FIRE_AMOUNT_CODES = '123456789ABCDEFGHJ'.split('')
+
+interface FormLayout {
+  fire_type_of_return: string
+  iris_form_type: string
+  iris_detail: string
+  // Box reported when a legacy document has no form_boxes breakdown
+  default_box: string
+  // form box → FIRE amount code and IRIS element
+  boxes: Record<string, { code: string; element: string }>
+}
+
+const MONTH_ELEMENTS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+const FORM_LAYOUTS: Record<TaxFormType, FormLayout> = {
+  '1099-NEC': {
+    fire_type_of_return: 'NE',
+    iris_form_type: '1099NEC',
+    iris_detail: 'Form1099NECDetail',
+    default_box: '1',
+    boxes: {
+      '1': { code: '1', element: 'NonemployeeCompensationAmt' },
+    },
+  },
+  '1099-MISC': {
+    fire_type_of_return: 'A',
+    iris_form_type: '1099MISC',
+    iris_detail: 'Form1099MISCDetail',
+    default_box: '3',
+    boxes: {
+      '1': { code: '1', element: 'RentAmt' },
+      '2': { code: '2', element: 'RoyaltyAmt' },
+      '3': { code: '3', element: 'OtherIncomeAmt' },
+    },
+  },
+  '1099-K': {
+    fire_type_of_return: 'MC',
+    iris_form_type: '1099K',
+    iris_detail: 'Form1099KDetail',
+    default_box: '1a',
+    boxes: {
+      '1a': { code: '1', element: 'GrossAmt' },
+      ...Object.fromEntries(MONTH_ELEMENTS.map((month, i) => [
+        `5${String.fromCharCode(97 + i)}`,
+        { code: FIRE_AMOUNT_CODES[4 + i], element: `${month}Amt` },
+      ])),
+    },
+  },
+}
+
+// Federal income tax withheld is amount code 4 on all three forms
+const FEDERAL_WITHHOLDING_CODE = '4'
+
+// Combined Federal/State Filing Program participant codes
+const CFSF_STATE_CODES: Record<string, string> = {
+  AL: '01', AZ: '04', AR: '05', CA: '06', CO: '07', CT: '08', DE: '10', GA: '13',
+  HI: '15', ID: '16', IN: '18', KS: '20', LA: '22', ME: '23', MD: '24', MA: '25',
+  MI: '26', MN: '27', MS: '28', MO: '29', MT: '30', NE: '31', NJ: '34', NM: '35',
+  NC: '37', ND: '38', OH: '39', OK: '40', SC: '45', WI: '55',
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+function digits(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).replace(/\D/g, '') : ''
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function fromCents(cents: number): number {
+  return Math.round(cents) / 100
+}
+
+function documentAmounts(doc: TaxFilingDocument): Record<string, number> {
+  const layout = FORM_LAYOUTS[doc.document_type]
+  const amounts: Record<string, number> = {}
+  const boxes = Object.keys(doc.form_boxes).length > 0
+    ? doc.form_boxes
+    : { [layout.default_box]: doc.gross_amount }
+
+  for (const [box, amount] of Object.entries(boxes)) {
+    const mapping = layout.boxes[box]
+    if (mapping && Number(amount)) amounts[mapping.code] = roundMoney((amounts[mapping.code] || 0) + Number(amount))
+  }
+  if (doc.federal_withholding > 0) amounts[FEDERAL_WITHHOLDING_CODE] = roundMoney(doc.federal_withholding)
+  return amounts
+}
+
+/**
+ * Pre-flight checks shared by both formats: everything the IRS rejects a
+ * submission for that can be caught before a file is built.
+ */
+export function validateTaxFilingInput(input: TaxFilingInput): TaxFilingValidation {
+  const errors: string[] = []
+  const { transmitter, payer } = input
+
+  if (!/^[0-9]{9}$/.test(transmitter.tin)) errors.push('transmitter.tin must be 9 digits')
+  if (!/^[A-Z0-9]{5}$/.test(transmitter.tcc)) errors.push('transmitter.tcc must be a 5-character Transmitter Control Code')
+  if (!transmitter.name.trim()) errors.push('transmitter.name is required')
+  if (!transmitter.contact_name.trim()) errors.push('transmitter.contact_name is required')
+  if (!/^[0-9]{10,15}$/.test(transmitter.contact_phone)) errors.push('transmitter.contact_phone must be 10-15 digits')
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(transmitter.contact_email)) errors.push('transmitter.contact_email is invalid')
+
+  if (!/^[0-9]{9}$/.test(payer.tin)) errors.push('payer.tin must be 9 digits')
+  if (!payer.name.trim()) errors.push('payer.name is required')
+  if (!payer.address.trim() || !payer.city.trim()) errors.push('payer address is required')
+  if (!/^[A-Z]{2}$/.test(payer.state)) errors.push('payer.state must be a 2-letter state code')
+  if (!/^[0-9]{5}([0-9]{4})?$/.test(payer.zip)) errors.push('payer.zip must be 5 or 9 digits')
+
+  if (input.documents.length === 0) errors.push('No tax documents to file')
+
+  for (const doc of input.documents) {
+    const payee = input.payees[doc.recipient_id]
+    const label = `${doc.document_type} for ${doc.recipient_id}`
+    if (!payee) {
+      errors.push(`${label}: no active W-9 tax profile on file`)
+      continue
+    }
+    if (!/^[0-9]{9}$/.test(payee.tin)) errors.push(`${label}: full 9-digit TIN not provided in payee_tins`)
+    if (!payee.name.trim()) errors.push(`${label}: payee legal name is missing`)
+    if (!payee.address.trim() || !payee.city.trim() || !/^[A-Z]{2}$/.test(payee.state) || !/^[0-9]{5}([0-9]{4})?$/.test(payee.zip)) {
+      errors.push(`${label}: payee US mailing address is incomplete`)
+    }
+    if (Object.keys(documentAmounts(doc)).length === 0) errors.push(`${label}: no reportable amounts`)
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+// ============================================================================
+// FIRE (PUBLICATION 1220)
+// ============================================================================
+
+const FIRE_RECORD_LENGTH = 750
+
+type FireField = [start: number, length: number, value: string]
+
+function fireText(value: string, length: number): string {
+  return value
+    .toUpperCase()
+    .normalize('NFKD')
+    .replace(/[^A-Z0-9 &\-,.'/#]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, length)
+}
+
+function fireNumber(value: number, length: number): string {
+  return String(Math.max(0, Math.round(value))).padStart(length, '0').slice(-length)
+}
+
+function fireMoney(amount: number, length = 12): string {
+  return fireNumber(Math.round(amount * 100), length)
+}
+
+function fireRecord(fields: FireField[], sequence: number): string {
+  const chars = new Array<string>(FIRE_RECORD_LENGTH).fill(' ')
+  for (const [start, length, value] of [...fields, [500, 8, fireNumber(sequence, 8)] as FireField]) {
+    const text = value.slice(0, length).padEnd(length)
+    for (let i = 0; i < length; i++) chars[start - 1 + i] = text[i]
+  }
+  chars[748] = '\r'
+  chars[749] = '\n'
+  return chars.join('')
+}
+
+/**
+ * First four characters of the payee's surname (individuals) or name
+ * (businesses), as Pub 1220 expects in B record positions 7-10.
+ */
+export function fireNameControl(name: string, business: boolean): string {
+  const words = fireText(name, 80).replace(/[^A-Z0-9 &-]/g, '').split(' ').filter(Boolean)
+  const source = business ? words.filter((word) => word !== 'THE').join('') : (words[words.length - 1] || '')
+  return source.slice(0, 4)
+}
+
+function amountFields(amounts: Record<string, number>, start: number, width: number): FireField[] {
+  return FIRE_AMOUNT_CODES.map((code, i) => [start + i * width, width, fireMoney(amounts[code] || 0, width)] as FireField)
+}
+
+export function buildFireFile(input: TaxFilingInput): string {
+  const records: string[] = []
+  const year = String(input.tax_year)
+  const priorYear = input.tax_year < new Date().getFullYear() - 1 ? 'P' : ' '
+  const payeeCount = input.documents.length
+  const next = (fields: FireField[]) => records.push(fireRecord(fields, records.length + 1))
+
+  // T - Transmitter
+  next([
+    [1, 1, 'T'],
+    [2, 4, year],
+    [6, 1, priorYear],
+    [7, 9, input.transmitter.tin],
+    [16, 5, input.transmitter.tcc],
+    [28, 1, input.is_test ? 'T' : ' '],
+    [30, 40, fireText(input.transmitter.name, 40)],
+    [110, 40, fireText(input.payer.name, 40)],
+    [190, 40, fireText(input.payer.address, 40)],
+    [230, 40, fireText(input.payer.city, 40)],
+    [270, 2, input.payer.state],
+    [272, 9, input.payer.zip],
+    [296, 8, fireNumber(payeeCount, 8)],
+    [304, 40, fireText(input.transmitter.contact_name, 40)],
+    [344, 15, input.transmitter.contact_phone],
+    [359, 50, input.transmitter.contact_email.slice(0, 50)],
+    [518, 1, 'I'],
+  ])
+
+  let payerCount = 0
+  for (const formType of TAX_FORM_TYPES) {
+    const docs = input.documents.filter((doc) => doc.document_type === formType)
+    if (docs.length === 0) continue
+    payerCount += 1
+
+    const layout = FORM_LAYOUTS[formType]
+    const amountsByDoc = docs.map(documentAmounts)
+    const usedCodes = FIRE_AMOUNT_CODES.filter((code) => amountsByDoc.some((amounts) => amounts[code] !== undefined))
+
+    // A - Payer
+    next([
+      [1, 1, 'A'],
+      [2, 4, year],
+      [6, 1, input.combined_federal_state ? '1' : ' '],
+      [12, 9, input.payer.tin],
+      [26, 2, layout.fire_type_of_return],
+      [28, 18, usedCodes.join('')],
+      [53, 40, fireText(input.payer.name, 40)],
+      [134, 40, fireText(input.payer.address, 40)],
+      [174, 40, fireText(input.payer.city, 40)],
+      [214, 2, input.payer.state],
+      [216, 9, input.payer.zip],
+      [225, 15, digits(input.payer.phone)],
+    ])
+
+    const totals: Record<string, number> = {}
+    const stateTotals = new Map<string, { count: number; amounts: Record<string, number>; state_withheld: number }>()
+
+    // B - Payee
+    docs.forEach((doc, i) => {
+      const payee = input.payees[doc.recipient_id]
+      const amounts = amountsByDoc[i]
+      const cfsf = input.combined_federal_state ? CFSF_STATE_CODES[payee.state] || '' : ''
+
+      for (const [code, amount] of Object.entries(amounts)) totals[code] = roundMoney((totals[code] || 0) + amount)
+      if (cfsf) {
+        const state = stateTotals.get(cfsf) || { count: 0, amounts: {}, state_withheld: 0 }
+        state.count += 1
+        state.state_withheld = roundMoney(state.state_withheld + doc.state_withholding)
+        for (const [code, amount] of Object.entries(amounts)) state.amounts[code] = roundMoney((state.amounts[code] || 0) + amount)
+        stateTotals.set(cfsf, state)
+      }
+
+      const formFields: FireField[] = formType === '1099-K'
+        ? [
+          [547, 1, '1'],
+          [548, 1, '2'],
+          [549, 13, fireNumber(Number(doc.form_boxes['3'] ?? doc.transaction_count ?? 0), 13)],
+          [565, 40, fireText(`${input.payer.name} ${digits(input.payer.phone)}`, 40)],
+        ]
+        : []
+
+      next([
+        [1, 1, 'B'],
+        [2, 4, year],
+        [7, 4, fireNameControl(payee.name, payee.business)],
+        [11, 1, payee.tin_type === 'ein' ? '1' : '2'],
+        [12, 9, payee.tin],
+        [21, 20, fireText(doc.recipient_id, 20)],
+        ...amountFields(amounts, 55, 12),
+        [288, 40, fireText(payee.name, 40)],
+        [368, 40, fireText(payee.address, 40)],
+        [408, 40, fireText(payee.city, 40)],
+        [448, 2, payee.state],
+        [450, 9, payee.zip],
+        ...formFields,
+        [723, 12, fireMoney(doc.state_withholding)],
+        [735, 12, fireMoney(0)],
+        [747, 2, cfsf],
+      ])
+    })
+
+    // C - End of Payer
+    next([
+      [1, 1, 'C'],
+      [2, 8, fireNumber(docs.length, 8)],
+      ...amountFields(totals, 16, 18),
+    ])
+
+    // K - State Totals (Combined Federal/State Filing Program only)
+    for (const [cfsf, state] of [...stateTotals.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      next([
+        [1, 1, 'K'],
+        [2, 8, fireNumber(state.count, 8)],
+        ...amountFields(state.amounts, 16, 18),
+        [707, 18, fireMoney(state.state_withheld, 18)],
+        [725, 18, fireMoney(0, 18)],
+        [747, 2, cfsf],
+      ])
+    }
+  }
+
+  // F - End of Transmission
+  next([
+    [1, 1, 'F'],
+    [2, 8, fireNumber(payerCount, 8)],
+    [10, 21, '0'.repeat(21)],
+    [50, 8, fireNumber(payeeCount, 8)],
+  ])
+
+  return records.join('')
+}
+
+function field(record: string, start: number, length: number): string {
+  return record.slice(start - 1, start - 1 + length)
+}
+
+function parseFireAmounts(record: string, start: number, width: number): Record<string, number> {
+  const amounts: Record<string, number> = {}
+  FIRE_AMOUNT_CODES.forEach((code, i) => {
+    amounts[code] = fromCents(Number(field(record, start + i * width, width)))
+  })
+  return amounts
+}
+
+type FireRecordState = 'start' | 'T' | 'A' | 'B' | 'C' | 'K' | 'F'
+
+/**
+ * Check a FIRE file against the Pub 1220 record layout: record lengths and
+ * order (T, then A/B/C/K per payer, then F), sequence numbers, and the
+ * payee counts and control totals carried in the C, K, T and F records.
+ */
+export function validateFireFile(content: string): FireFileSummary {
+  const errors: string[] = []
+  if (content.length === 0 || content.length % FIRE_RECORD_LENGTH !== 0) {
+    return { valid: false, errors: [`File length ${content.length} is not a multiple of ${FIRE_RECORD_LENGTH}`], payer_count: 0, payee_count: 0 }
+  }
+
+  const records: string[] = []
+  for (let offset = 0; offset < content.length; offset += FIRE_RECORD_LENGTH) {
+    records.push(content.slice(offset, offset + FIRE_RECORD_LENGTH))
+  }
+
+  let payerCount = 0
+  let payeeCount = 0
+  let state = 'start' as FireRecordState
+  let payerAmountCodes = ''
+  let payerPayees = 0
+  let payerTotals: Record<string, number> = {}
+
+  for (const [i, record] of records.entries()) {
+    const type = record[0]
+    const at = `Record ${i + 1} (${type})`
+
+    if (field(record, 500, 8) !== fireNumber(i + 1, 8)) errors.push(`${at}: sequence number should be ${i + 1}`)
+    if (!['\r\n', '  '].includes(field(record, 749, 2))) errors.push(`${at}: positions 749-750 must be blank or CR/LF`)
+
+    const allowed: Record<FireRecordState, string> = { start: 'T', T: 'A', A: 'B', B: 'BC', C: 'KAF', K: 'KAF', F: '' }
+    if (!allowed[state].includes(type)) {
+      errors.push(`${at}: unexpected record type after ${state}`)
+    }
+
+    switch (type) {
+      case 'T':
+        if (!/^[0-9]{4}$/.test(field(record, 2, 4))) errors.push(`${at}: payment year must be 4 digits`)
+        if (!/^[0-9]{9}$/.test(field(record, 7, 9))) errors.push(`${at}: transmitter TIN must be 9 digits`)
+        if (!/^[A-Z0-9]{5}$/.test(field(record, 16, 5))) errors.push(`${at}: TCC must be 5 characters`)
+        if (!field(record, 30, 40).trim()) errors.push(`${at}: transmitter name is required`)
+        break
+      case 'A': {
+        payerCount += 1
+        payerPayees = 0
+        payerTotals = {}
+        payerAmountCodes = field(record, 28, 18).trim()
+        if (!/^[0-9]{9}$/.test(field(record, 12, 9))) errors.push(`${at}: payer TIN must be 9 digits`)
+        if (!['NE', 'A ', 'MC'].includes(field(record, 26, 2))) errors.push(`${at}: unsupported type of return`)
+        if (!payerAmountCodes) errors.push(`${at}: amount codes are required`)
+        break
+      }
+      case 'B': {
+        payeeCount += 1
+        payerPayees += 1
+        if (!/^[12]$/.test(field(record, 11, 1))) errors.push(`${at}: type of TIN must be 1 or 2`)
+        if (!/^[0-9]{9}$/.test(field(record, 12, 9))) errors.push(`${at}: payee TIN must be 9 digits`)
+        if (!field(record, 288, 40).trim()) errors.push(`${at}: payee name is required`)
+        if (!/^[0-9]{216}$/.test(field(record, 55, 216))) errors.push(`${at}: payment amounts must be numeric`)
+        const amounts = parseFireAmounts(record, 55, 12)
+        for (const [code, amount] of Object.entries(amounts)) {
+          if (amount !== 0 && !payerAmountCodes.includes(code)) errors.push(`${at}: amount code ${code} not declared in A record`)
+          payerTotals[code] = roundMoney((payerTotals[code] || 0) + amount)
+        }
+        break
+      }
+      case 'C': {
+        if (Number(field(record, 2, 8)) !== payerPayees) errors.push(`${at}: payee count ${Number(field(record, 2, 8))} does not match ${payerPayees} B records`)
+        const totals = parseFireAmounts(record, 16, 18)
+        for (const code of FIRE_AMOUNT_CODES) {
+          if (roundMoney(totals[code]) !== roundMoney(payerTotals[code] || 0)) errors.push(`${at}: control total ${code} does not match B records`)
+        }
+        break
+      }
+      case 'K':
+        if (Number(field(record, 2, 8)) > payerPayees) errors.push(`${at}: state payee count exceeds B records`)
+        if (!Object.values(CFSF_STATE_CODES).includes(field(record, 747, 2))) errors.push(`${at}: invalid combined federal/state code`)
+        break
+      case 'F':
+        if (Number(field(record, 2, 8)) !== payerCount) errors.push(`${at}: A record count does not match`)
+        if (Number(field(record, 50, 8)) !== payeeCount) errors.push(`${at}: payee count does not match`)
+        break
+      default:
+        errors.push(`${at}: unknown record type`)
+    }
+
+    if (['T', 'A', 'B', 'C', 'K', 'F'].includes(type)) state = type as FireRecordState
+  }
+
+  if (state !== 'F') errors.push('File must end with an F record')
+  if (records[0]?.[0] === 'T' && Number(field(records[0], 296, 8)) !== payeeCount) {
+    errors.push('T record total number of payees does not match B records')
+  }
+
+  return { valid: errors.length === 0, errors, payer_count: payerCount, payee_count: payeeCount }
+}
+
+// ============================================================================
+// IRIS (XML)
+// ============================================================================
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function el(name: string, value: string | number): string {
+  return `<${name}>${xml(String(value))}</${name}>`
+}
+
+function irisAddress(party: TaxFilingParty): string {
+  return '<MailingAddressGrp><USAddress>' +
+    el('AddressLine1Txt', party.address.slice(0, 35)) +
+    el('CityNm', party.city.slice(0, 22)) +
+    el('StateAbbreviationCd', party.state) +
+    el('ZIPCd', party.zip) +
+    '</USAddress></MailingAddressGrp>'
+}
+
+/**
+ * IRIS A2A transmission: one manifest, then one IRSubmission1Grp per form
+ * type with a detail element per recipient.
+ */
+export function buildIrisXml(input: TaxFilingInput, transmissionId: string): string {
+  const submissions: string[] = []
+  let recordId = 0
+
+  for (const formType of TAX_FORM_TYPES) {
+    const docs = input.documents.filter((doc) => doc.document_type === formType)
+    if (docs.length === 0) continue
+
+    const layout = FORM_LAYOUTS[formType]
+    const details = docs.map((doc) => {
+      recordId += 1
+      const payee = input.payees[doc.recipient_id]
+      const amounts = documentAmounts(doc)
+      const boxElements = Object.values(layout.boxes)
+        .filter((mapping) => amounts[mapping.code] !== undefined)
+        .map((mapping) => el(mapping.element, amounts[mapping.code].toFixed(2)))
+        .join('')
+      const kElements = formType === '1099-K'
+        ? el('FilerTypeCd', 'PSE') + el('TransactionReportingCd', 'THIRD_PARTY_NETWORK') +
+          el('PaymentTransactionNumberCnt', Number(doc.form_boxes['3'] ?? doc.transaction_count ?? 0))
+        : ''
+      const name = payee.business
+        ? `<BusinessName>${el('BusinessNameLine1Txt', payee.name.slice(0, 75))}</BusinessName>`
+        : `<PersonName>${el('PersonFullNm', payee.name.slice(0, 70))}</PersonName>`
+
+      return `<${layout.iris_detail}>` +
+        el('TaxYr', input.tax_year) +
+        el('RecordId', recordId) +
+        el('VoidInd', 0) +
+        el('CorrectedInd', 0) +
+        '<RecipientDetail>' +
+        el('TINSubmittedTypeCd', payee.tin_type === 'ein' ? 'BUSINESS_TIN' : 'INDIVIDUAL_TIN') +
+        el('RecipientTIN', payee.tin) +
+        name +
+        irisAddress(payee) +
+        '</RecipientDetail>' +
+        el('RecipientAccountNum', doc.recipient_id.slice(0, 30)) +
+        kElements +
+        boxElements +
+        el('FederalIncomeTaxWithheldAmt', doc.federal_withholding.toFixed(2)) +
+        (doc.state_withholding > 0
+          ? `<StateLocalTaxGrp><StateTaxGrp>${el('StateAbbreviationCd', payee.state)}${el('StateTaxWithheldAmt', doc.state_withholding.toFixed(2))}</StateTaxGrp></StateLocalTaxGrp>`
+          : '') +
+        `</${layout.iris_detail}>`
+    })
+
+    submissions.push('<IRSubmission1Grp><IRSubmission1Header>' +
+      el('SubmissionId', submissions.length + 1) +
+      el('TaxYr', input.tax_year) +
+      '<IssuerDetail>' +
+      el('ForeignEntityInd', 0) +
+      el('TINSubmittedTypeCd', 'BUSINESS_TIN') +
+      el('TIN', input.payer.tin) +
+      `<BusinessName>${el('BusinessNameLine1Txt', input.payer.name.slice(0, 75))}</BusinessName>` +
+      irisAddress(input.payer) +
+      (input.payer.phone ? el('PhoneNum', digits(input.payer.phone)) : '') +
+      '</IssuerDetail>' +
+      el('FormTypeCd', layout.iris_form_type) +
+      el('ParentFormTypeCd', '1096') +
+      el('CFSFElectionInd', input.combined_federal_state ? 1 : 0) +
+      el('TotalReportedRcpntFormCnt', docs.length) +
+      '</IRSubmission1Header><IRSubmission1Detail>' +
+      details.join('') +
+      '</IRSubmission1Detail></IRSubmission1Grp>')
+  }
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<IRTransmission xmlns="urn:us:gov:treasury:irs:ir">' +
+    '<IRTransmissionManifest>' +
+    el('UniqueTransmissionId', transmissionId) +
+    el('TaxYr', input.tax_year) +
+    el('PriorYearDataInd', input.tax_year < new Date().getFullYear() - 1 ? 1 : 0) +
+    el('TransmissionTypeCd', 'O') +
+    el('TestCd', input.is_test ? 'T' : 'P') +
+    '<TransmitterGrp>' +
+    el('TINSubmittedTypeCd', 'BUSINESS_TIN') +
+    el('TIN', input.transmitter.tin) +
+    el('TransmitterControlCd', input.transmitter.tcc) +
+    `<BusinessName>${el('BusinessNameLine1Txt', input.transmitter.name.slice(0, 75))}</BusinessName>` +
+    '</TransmitterGrp>' +
+    el('VendorCd', 'I') +
+    el('TotalIssuerFormCnt', submissions.length) +
+    el('TotalRecipientFormCnt', recordId) +
+    el('PaperSubmissionInd', 0) +
+    el('MediaSourceCd', 'A') +
+    el('SubmissionChannelCd', 'A2A') +
+    '<ContactPersonInformationGrp>' +
+    el('ContactNm', input.transmitter.contact_name) +
+    el('ContactEmailAddressTxt', input.transmitter.contact_email) +
+    el('ContactPhoneNum', input.transmitter.contact_phone) +
+    '</ContactPersonInformationGrp>' +
+    '</IRTransmissionManifest>' +
+    submissions.join('') +
+    '</IRTransmission>\n'
+}
+
+/**
+ * Structural check of an IRIS transmission: balanced elements and the
+ * manifest/header form counts agreeing with the detail records.
+ */
+export function validateIrisXml(content: string): TaxFilingValidation {
+  const errors: string[] = []
+  const stack: string[] = []
+
+  for (const match of content.matchAll(/<(\/?)([A-Za-z][A-Za-z0-9]*)[^>]*?(\/?)>/g)) {
+    const [, closing, name, selfClosing] = match
+    if (selfClosing) continue
+    if (!closing) {
+      stack.push(name)
+    } else if (stack.pop() !== name) {
+      errors.push(`Unbalanced element </${name}>`)
+      break
+    }
+  }
+  if (stack.length > 0 && errors.length === 0) errors.push(`Unclosed element <${stack[stack.length - 1]}>`)
+
+  const count = (pattern: RegExp) => [...content.matchAll(pattern)].length
+  const number = (name: string) => [...content.matchAll(new RegExp(`<${name}>([0-9]+)</${name}>`, 'g'))].map((m) => Number(m[1]))
+
+  const detailCount = count(/<Form1099(NEC|MISC|K)Detail>/g)
+  const submissionCount = count(/<IRSubmission1Grp>/g)
+  const [recipientTotal] = number('TotalRecipientFormCnt')
+  const [issuerTotal] = number('TotalIssuerFormCnt')
+  const headerTotal = number('TotalReportedRcpntFormCnt').reduce((sum, value) => sum + value, 0)
+
+  if (recipientTotal !== detailCount) errors.push('TotalRecipientFormCnt does not match detail records')
+  if (issuerTotal !== submissionCount) errors.push('TotalIssuerFormCnt does not match submissions')
+  if (headerTotal !== detailCount) errors.push('TotalReportedRcpntFormCnt does not match detail records')
+  if (count(/<RecipientTIN>[0-9]{9}<\/RecipientTIN>/g) !== detailCount) errors.push('Every recipient needs a 9-digit RecipientTIN')
+
+  return { valid: errors.length === 0, errors }
+}
+
+// ============================================================================
+// FILING SUBMISSION
+// ============================================================================
+
+export interface CreateTaxFilingInput {
+  tax_year?: number
+  format?: string
+  test_file?: boolean
+  form_type?: string
+  combined_federal_state?: boolean
+  payee_tins?: Record<string, unknown>
+  transmitter?: Record<string, unknown>
+  payer?: Record<string, unknown>
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new Uint8Array(bytes))
+  return Array.from(new Uint8Array(hashBuffer)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Payee name, TIN type and address from the active W-9 submission on this
+ * ledger, falling back to the linked user's shared tax profile. The full TIN
+ * comes from the request and must end in the last four digits on file.
+ */
+async function loadTaxFilingPayees(
+  supabase: SupabaseClient,
+  ledgerId: string,
+  recipientIds: string[],
+  payeeTins: Record<string, unknown>,
+): Promise<Record<string, TaxFilingPayee>> {
+  const profiles = new Map<string, Record<string, any>>()
+
+  const { data: submissions } = await supabase
+    .from('tax_info_submissions')
+    .select('entity_id, legal_name, tax_id_type, tax_id_last4, business_type, address_line1, address_line2, address_city, address_state, address_postal_code')
+    .eq('ledger_id', ledgerId)
+    .eq('status', 'active')
+    .in('entity_id', recipientIds)
+
+  for (const row of submissions || []) profiles.set(String(row.entity_id), row)
+
+  const missing = recipientIds.filter((id) => !profiles.has(id))
+  const links = await getLinkedUserIdsForParticipants(supabase, ledgerId, missing)
+  if (links.size > 0) {
+    const { data: shared } = await supabase
+      .from('shared_tax_profiles')
+      .select('user_id, legal_name, tax_id_type, tax_id_last4, business_type, address_line1, address_line2, address_city, address_state, address_postal_code')
+      .eq('status', 'active')
+      .in('user_id', [...links.values()])
+
+    const byUser = new Map((shared || []).map((row) => [String(row.user_id), row]))
+    for (const [participantId, userId] of links) {
+      const row = byUser.get(userId)
+      if (row) profiles.set(participantId, row)
+    }
+  }
+
+  const payees: Record<string, TaxFilingPayee> = {}
+  for (const [recipientId, profile] of profiles) {
+    const tin = digits(payeeTins[recipientId])
+    payees[recipientId] = {
+      recipient_id: recipientId,
+      tin: tin.length === 9 && tin.endsWith(String(profile.tax_id_last4 || '')) ? tin : '',
+      tin_type: profile.tax_id_type === 'ein' ? 'ein' : profile.tax_id_type === 'itin' ? 'itin' : 'ssn',
+      business: ['llc', 'corporation', 'partnership'].includes(profile.business_type),
+      name: text(profile.legal_name),
+      address: [text(profile.address_line1), text(profile.address_line2)].filter(Boolean).join(' '),
+      city: text(profile.address_city),
+      state: text(profile.address_state).toUpperCase(),
+      zip: digits(profile.address_postal_code),
+    }
+  }
+  return payees
+}
+
+export async function createTaxFilingResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  body: CreateTaxFilingInput,
+  requestId: string,
+): Promise<ResourceResult> {
+  const format = (text(body.format) || 'fire').toLowerCase() as TaxFilingFormat
+  if (!TAX_FILING_FORMATS.includes(format)) {
+    return resourceError(`format must be one of: ${TAX_FILING_FORMATS.join(', ')}`, 400, {}, 'invalid_filing_format')
+  }
+
+  const currentYear = new Date().getFullYear()
+  const taxYear = typeof body.tax_year === 'number' && body.tax_year >= 2020 && body.tax_year <= currentYear
+    ? body.tax_year
+    : currentYear - 1
+
+  if (body.form_type && !TAX_FORM_TYPES.includes(body.form_type as TaxFormType)) {
+    return resourceError(`form_type must be one of: ${TAX_FORM_TYPES.join(', ')}`, 400, {}, 'invalid_form_type')
+  }
+
+  const isTest = body.test_file === true
+  const settings = (ledger.settings?.tax_filing || {}) as Record<string, unknown>
+  const transmitterRaw = { ...(settings.transmitter as Record<string, unknown> || {}), ...(body.transmitter || {}) }
+  const payerRaw = { ...(settings.payer as Record<string, unknown> || {}), ...(body.payer || {}) }
+
+  let query = supabase
+    .from('tax_documents')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+    .eq('tax_year', taxYear)
+    .in('status', ['calculated', 'exported'])
+
+  // 1042-S has its own Publication 1187 layout and is not filed here
+  query = body.form_type
+    ? query.eq('document_type', body.form_type)
+    : query.in('document_type', [...TAX_FORM_TYPES])
+
+  const { data: documentRows, error: documentsError } = await query.order('recipient_id')
+  if (documentsError) {
+    console.error('createTaxFilingResponse documents error:', documentsError)
+    return resourceError('Failed to load tax documents', 500, {}, 'tax_documents_fetch_failed')
+  }
+
+  if (!documentRows?.length) {
+    return resourceError(`No unfiled tax documents for ${taxYear}`, 404, {}, 'no_tax_documents')
+  }
+
+  const documents: TaxFilingDocument[] = documentRows.map((row) => ({
+    id: row.id,
+    document_type: (TAX_FORM_TYPES.includes(row.document_type) ? row.document_type : '1099-NEC') as TaxFormType,
+    recipient_id: String(row.recipient_id),
+    gross_amount: Number(row.gross_amount || 0),
+    federal_withholding: Number(row.federal_withholding || 0),
+    state_withholding: Number(row.state_withholding || 0),
+    transaction_count: Number(row.transaction_count || 0),
+    form_boxes: Object.fromEntries(Object.entries(row.form_boxes || {}).map(([box, amount]) => [box, Number(amount)])),
+  }))
+
+  const recipientIds = [...new Set(documents.map((doc) => doc.recipient_id))]
+  const payees = await loadTaxFilingPayees(supabase, ledger.id, recipientIds, body.payee_tins || {})
+
+  const input: TaxFilingInput = {
+    tax_year: taxYear,
+    is_test: isTest,
+    combined_federal_state: body.combined_federal_state ?? settings.combined_federal_state === true,
+    transmitter: {
+      tin: digits(transmitterRaw.tin),
+      tcc: text(transmitterRaw.tcc).toUpperCase(),
+      name: text(transmitterRaw.name) || text(ledger.business_name),
+      contact_name: text(transmitterRaw.contact_name),
+      contact_phone: digits(transmitterRaw.contact_phone),
+      contact_email: text(transmitterRaw.contact_email),
+    },
+    payer: {
+      tin: digits(payerRaw.tin),
+      name: text(payerRaw.name) || text(ledger.business_name),
+      address: text(payerRaw.address),
+      city: text(payerRaw.city),
+      state: text(payerRaw.state).toUpperCase(),
+      zip: digits(payerRaw.zip),
+      phone: digits(payerRaw.phone),
+    },
+    payees,
+    documents,
+  }
+
+  const preflight = validateTaxFilingInput(input)
+  if (!preflight.valid) {
+    return resourceError('Tax filing validation failed', 422, { errors: preflight.errors }, 'tax_filing_invalid')
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const content = format === 'fire'
+    ? buildFireFile(input)
+    : buildIrisXml(input, `${crypto.randomUUID()}:IRIS:${input.transmitter.tcc}::A`)
+  const layoutCheck = format === 'fire' ? validateFireFile(content) : validateIrisXml(content)
+  if (!layoutCheck.valid) {
+    console.error(`[${requestId}] Generated ${format} file failed layout validation:`, layoutCheck.errors)
+    return resourceError('Generated filing failed layout validation', 500, { errors: layoutCheck.errors }, 'tax_filing_layout_invalid')
+  }
+
+  const bytes = new TextEncoder().encode(content)
+  const fileHash = await sha256Hex(bytes)
+  const fileName = `${format}_${taxYear}${isTest ? '_test' : ''}_${timestamp}.${format === 'fire' ? 'txt' : 'xml'}`
+  const storagePath = `${ledger.id}/${taxYear}/${fileName}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(TAX_FILING_BUCKET)
+    .upload(storagePath, bytes, {
+      contentType: format === 'fire' ? 'text/plain' : 'application/xml',
+      upsert: false,
+    })
+
+  if (uploadError) {
+    console.error(`[${requestId}] Tax filing upload failed:`, uploadError.message)
+    return resourceError('Failed to store tax filing', 500, {}, 'tax_filing_upload_failed')
+  }
+
+  const totalAmount = roundMoney(documents.reduce((sum, doc) => sum + doc.gross_amount, 0))
+  const formTypes = TAX_FORM_TYPES.filter((formType) => documents.some((doc) => doc.document_type === formType))
+
+  const { data: recorded, error: recordError } = await supabase.rpc('record_tax_filing', {
+    p_ledger_id: ledger.id,
+    p_tax_year: taxYear,
+    p_format: format,
+    p_is_test: isTest,
+    p_form_types: formTypes,
+    p_document_ids: documents.map((doc) => doc.id),
+    p_payee_count: recipientIds.length,
+    p_total_amount: totalAmount,
+    p_file_name: fileName,
+    p_storage_path: storagePath,
+    p_file_hash: fileHash,
+    p_file_size_bytes: bytes.byteLength,
+    p_request_id: requestId,
+  })
+
+  const record = Array.isArray(recorded) ? recorded[0] : recorded
+  if (recordError || !record?.out_filing_id) {
+    console.error(`[${requestId}] record_tax_filing failed:`, recordError)
+    await supabase.storage.from(TAX_FILING_BUCKET).remove([storagePath])
+    return resourceError('Failed to record tax filing', 500, {}, 'tax_filing_record_failed')
+  }
+
+  const { data: signed } = await supabase.storage
+    .from(TAX_FILING_BUCKET)
+    .createSignedUrl(storagePath, TAX_FILING_URL_EXPIRY_SECONDS)
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'tax_filing_generated',
+    entity_type: 'tax_filing',
+    entity_id: record.out_filing_id,
+    actor_type: 'api',
+    request_body: sanitizeForAudit({
+      tax_year: taxYear,
+      format,
+      test_file: isTest,
+      form_types: formTypes,
+      document_count: documents.length,
+      documents_filed: Number(record.out_documents_filed || 0),
+      file_hash: fileHash,
+    }),
+    response_status: 201,
+    risk_score: 50,
+  }, requestId)
+
+  return resourceOk({
+    success: true,
+    filing: {
+      id: record.out_filing_id,
+      tax_year: taxYear,
+      format,
+      test_file: isTest,
+      form_types: formTypes,
+      document_count: documents.length,
+      payee_count: recipientIds.length,
+      documents_filed: Number(record.out_documents_filed || 0),
+      total_amount: totalAmount,
+      file_name: fileName,
+      file_hash: fileHash,
+      download_url: signed?.signedUrl || null,
+      expires_in_seconds: TAX_FILING_URL_EXPIRY_SECONDS,
+    },
+  }, 201)
+}
+
+export async function listTaxFilingsResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  taxYear: number | undefined,
+  _requestId: string,
+): Promise<ResourceResult> {
+  let query = supabase
+    .from('tax_filings')
+    .select('id, tax_year, format, is_test, form_types, document_count, payee_count, total_amount, file_name, file_hash, status, created_at')
+    .eq('ledger_id', ledger.id)
+
+  if (taxYear) {
+    query = query.eq('tax_year', taxYear)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(100)
+  if (error) {
+    console.error('listTaxFilingsResponse error:', error)
+    return resourceError('Failed to list tax filings', 500, {}, 'tax_filings_list_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    filings: data || [],
+  })
+}
+
+export async function getTaxFilingResponse(
+  req: Request,
+  supabase: SupabaseClient,
+  ledger: LedgerContext,
+  filingIdRaw: string,
+  requestId: string,
+): Promise<ResourceResult> {
+  const filingId = validateId(filingIdRaw, 100)
+  if (!filingId) {
+    return resourceError('filing_id is invalid', 400, {}, 'invalid_filing_id')
+  }
+
+  const { data: filing, error } = await supabase
+    .from('tax_filings')
+    .select('*')
+    .eq('ledger_id', ledger.id)
+    .eq('id', filingId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('getTaxFilingResponse error:', error)
+    return resourceError('Failed to load tax filing', 500, {}, 'tax_filing_lookup_failed')
+  }
+
+  if (!filing?.id) {
+    return resourceError('Tax filing not found', 404, {}, 'tax_filing_not_found')
+  }
+
+  const { data: signed } = await supabase.storage
+    .from(TAX_FILING_BUCKET)
+    .createSignedUrl(filing.storage_path, TAX_FILING_URL_EXPIRY_SECONDS)
+
+  createAuditLogAsync(supabase, req, {
+    ledger_id: ledger.id,
+    action: 'tax_filing_downloaded',
+    entity_type: 'tax_filing',
+    entity_id: filing.id,
+    actor_type: 'api',
+    risk_score: 40,
+  }, requestId)
+
+  const { storage_path: _storagePath, request_id: _requestId, ...publicFields } = filing
+
+  return resourceOk({
+    success: true,
+    filing: {
+      ...publicFields,
+      download_url: signed?.signedUrl || null,
+      expires_in_seconds: TAX_FILING_URL_EXPIRY_SECONDS,
+    },
+  })
+}
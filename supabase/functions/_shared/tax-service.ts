@@ -12,8 +12,64 @@ import {
   resourceOk,
 } from './treasury-resource.ts'
 
+export const TAX_FORM_TYPES = ['1099-NEC', '1099-K', '1099-MISC'] as const
+export type TaxFormType = typeof TAX_FORM_TYPES[number]
+// 1042-S is issued to foreign (W-8) recipients in place of a 1099
+export const TAX_DOCUMENT_TYPES = [...TAX_FORM_TYPES, '1042-S'] as const
+export type TaxDocumentType = typeof TAX_DOCUMENT_TYPES[number]
+
+interface TaxFormDefinition {
+  report_type: string
+  title: string
+  reports: string
+  filename: string
+}
+
+// Recipient-facing details per form. report_type selects the template in
+// generate-pdf.
+export const TAX_FORM_DEFINITIONS: Record<TaxDocumentType, TaxFormDefinition> = {
+  '1099-NEC': {
+    report_type: '1099_nec_form',
+    title: 'Form 1099-NEC',
+    reports: 'the nonemployee compensation you received during the tax year',
+    filename: '1099_nec',
+  },
+  '1099-K': {
+    report_type: '1099_k_form',
+    title: 'Form 1099-K',
+    reports: 'the gross payments settled to you through our platform during the tax year',
+    filename: '1099_k',
+  },
+  '1099-MISC': {
+    report_type: '1099_misc_form',
+    title: 'Form 1099-MISC',
+    reports: 'the royalties, rents and other income you received during the tax year',
+    filename: '1099_misc',
+  },
+  '1042-S': {
+    report_type: '1042_s_form',
+    title: 'Form 1042-S',
+    reports: 'the U.S. source income paid to you and the tax withheld from it during the tax year',
+    filename: '1042_s',
+  },
+}
+
+export function getTaxFormDefinition(documentType: unknown): TaxFormDefinition {
+  return TAX_FORM_DEFINITIONS[documentType as TaxDocumentType] || TAX_FORM_DEFINITIONS['1099-NEC']
+}
+
+export interface TaxFormThreshold {
+  payment_category: string
+  form_type: TaxFormType
+  form_box: string
+  amount_threshold: number
+  transaction_threshold: number | null
+  tax_year_from: number
+}
+
 export interface TaxDocumentListInput {
   tax_year?: number
+  form_type?: string
 }
 
 export interface TaxDocumentGenerateInput {
@@ -31,6 +87,47 @@ function normalizeTaxYear(value: number | undefined): number {
   return value && value >= 2020 && value <= currentYear ? value : currentYear - 1
 }
 
+async function getTaxFormThresholds(
+  supabase: SupabaseClient,
+  taxYear: number,
+): Promise<TaxFormThreshold[] | null> {
+  const { data, error } = await supabase.rpc('get_tax_form_thresholds', { p_tax_year: taxYear })
+  if (error) {
+    console.error('getTaxFormThresholds error:', error)
+    return null
+  }
+
+  return ((data || []) as Array<Record<string, unknown>>).map((row) => ({
+    payment_category: String(row.payment_category),
+    form_type: row.form_type as TaxFormType,
+    form_box: String(row.form_box),
+    amount_threshold: Number(row.amount_threshold),
+    transaction_threshold: row.transaction_threshold == null ? null : Number(row.transaction_threshold),
+    tax_year_from: Number(row.tax_year_from),
+  }))
+}
+
+// Body for the internal generate-pdf call. Documents created before form_boxes
+// existed only carry gross_amount, which the template prints in box 1.
+export function buildTaxFormPdfRequest(
+  ledgerId: string,
+  doc: Record<string, any>,
+  copyType: string,
+): Record<string, unknown> {
+  return {
+    report_type: getTaxFormDefinition(doc.document_type).report_type,
+    ledger_id: ledgerId,
+    tax_year: doc.tax_year,
+    document_type: doc.document_type,
+    gross_amount: Number(doc.gross_amount),
+    federal_withholding: Number(doc.federal_withholding || 0),
+    state_withholding: Number(doc.state_withholding || 0),
+    form_boxes: doc.form_boxes && typeof doc.form_boxes === 'object' ? doc.form_boxes : {},
+    recipient_id: doc.recipient_id,
+    copy_type: copyType,
+  }
+}
+
 async function getLinkedUserIdForParticipant(
   supabase: SupabaseClient,
   ledgerId: string,
@@ -75,12 +172,21 @@ export async function listTaxDocumentsResponse(
 ): Promise<ResourceResult> {
   const taxYear = normalizeTaxYear(options.tax_year)
 
-  const { data: documents, error } = await supabase
+  if (options.form_type && !TAX_DOCUMENT_TYPES.includes(options.form_type as TaxDocumentType)) {
+    return resourceError(`form_type must be one of: ${TAX_DOCUMENT_TYPES.join(', ')}`, 400, {}, 'invalid_form_type')
+  }
+
+  let query = supabase
     .from('tax_documents')
     .select('*')
     .eq('ledger_id', ledger.id)
     .eq('tax_year', taxYear)
-    .order('gross_amount', { ascending: false })
+
+  if (options.form_type) {
+    query = query.eq('document_type', options.form_type)
+  }
+
+  const { data: documents, error } = await query.order('gross_amount', { ascending: false })
 
   if (error) {
     console.error('listTaxDocumentsResponse error:', error)
@@ -98,6 +204,10 @@ export async function listTaxDocumentsResponse(
         exported: (documents || []).filter((document) => document.status === 'exported').length,
         filed: (documents || []).filter((document) => document.status === 'filed').length,
       },
+      by_form_type: Object.fromEntries(TAX_DOCUMENT_TYPES.map((formType) => [
+        formType,
+        (documents || []).filter((document) => document.document_type === formType).length,
+      ])),
     },
     documents: documents || [],
   })
@@ -156,29 +266,44 @@ export async function generateTaxDocumentsResponse(
     return resourceError('Failed to generate tax documents', 500, {}, 'tax_documents_generate_failed')
   }
 
-  const result = Array.isArray(data) ? data[0] : data || { created: 0, skipped: 0, total_amount: 0 }
+  // Creators with an active W-8 are skipped above and reported on 1042-S
+  const { data: foreignData, error: foreignError } = await supabase.rpc('generate_1042s_documents', {
+    p_ledger_id: ledger.id,
+    p_tax_year: taxYear,
+  })
+
+  if (foreignError) {
+    console.error('generateTaxDocumentsResponse 1042-S error:', foreignError)
+    return resourceError('Failed to generate tax documents', 500, {}, 'tax_documents_generate_failed')
+  }
+
+  const result = Array.isArray(data) ? data[0] : data
+  const foreignResult = Array.isArray(foreignData) ? foreignData[0] : foreignData
+  const generation = {
+    tax_year: taxYear,
+    created: Number(result?.documents_created || 0),
+    skipped: Number(result?.documents_skipped || 0),
+    total_amount: Number(result?.total_amount || 0),
+    // Backup withholding reported as federal income tax withheld on the 1099s
+    total_withheld: Number(result?.total_withheld || 0),
+    form_1042s: {
+      created: Number(foreignResult?.documents_created || 0),
+      total_amount: Number(foreignResult?.total_amount || 0),
+      total_withheld: Number(foreignResult?.total_withheld || 0),
+    },
+  }
 
   createAuditLogAsync(supabase, req, {
     ledger_id: ledger.id,
     action: 'generate_1099_documents',
     entity_type: 'tax_documents',
     actor_type: 'api',
-    request_body: sanitizeForAudit({
-      tax_year: taxYear,
-      created: result?.created || 0,
-      skipped: result?.skipped || 0,
-      total_amount: result?.total_amount || 0,
-    }),
+    request_body: sanitizeForAudit(generation),
   }, requestId)
 
   return resourceOk({
     success: true,
-    generation: {
-      tax_year: taxYear,
-      created: result?.created || 0,
-      skipped: result?.skipped || 0,
-      total_amount: result?.total_amount || 0,
-    },
+    generation,
   }, 201)
 }
 
@@ -251,7 +376,7 @@ export async function calculateParticipantTaxResponse(
 
   const taxYear = normalizeTaxYear(taxYearRaw)
 
-  const { data, error } = await supabase.rpc('calculate_1099_totals', {
+  const { data, error } = await supabase.rpc('calculate_1099_form_totals', {
     p_ledger_id: ledger.id,
     p_creator_id: participantId,
     p_tax_year: taxYear,
@@ -262,7 +387,32 @@ export async function calculateParticipantTaxResponse(
     return resourceError('Failed to calculate participant tax totals', 500, {}, 'tax_calculation_failed')
   }
 
-  const result = Array.isArray(data) ? data[0] : data || {}
+  const thresholds = await getTaxFormThresholds(supabase, taxYear)
+  if (!thresholds) {
+    return resourceError('Failed to load tax form thresholds', 500, {}, 'tax_thresholds_lookup_failed')
+  }
+
+  const forms = ((data || []) as Array<Record<string, any>>).map((row) => ({
+    form_type: row.form_type as TaxFormType,
+    payment_category: row.payment_category,
+    form_box: row.form_box,
+    gross_payments: Number(row.gross_payments || 0),
+    transaction_count: Number(row.transaction_count || 0),
+    monthly_totals: row.monthly_totals || {},
+    amount_threshold: Number(row.amount_threshold),
+    transaction_threshold: row.transaction_threshold == null ? null : Number(row.transaction_threshold),
+    meets_threshold: Boolean(row.meets_threshold),
+    backup_withheld: Number(row.backup_withheld || 0),
+  }))
+
+  const monthlyTotals: Record<string, number> = {}
+  for (const form of forms) {
+    for (const [month, amount] of Object.entries(form.monthly_totals as Record<string, unknown>)) {
+      monthlyTotals[month] = Math.round(((monthlyTotals[month] || 0) + Number(amount)) * 100) / 100
+    }
+  }
+
+  const necThreshold = thresholds.find((row) => row.payment_category === 'nonemployee_compensation')
   const linkedUserId = await getLinkedUserIdForParticipant(supabase, ledger.id, participantId)
   const taxProfile = await getSharedTaxProfileSummary(supabase, linkedUserId)
 
@@ -271,17 +421,38 @@ export async function calculateParticipantTaxResponse(
     calculation: {
       participant_id: participantId,
       tax_year: taxYear,
-      gross_payments: result?.gross_payments || 0,
-      transaction_count: result?.transaction_count || 0,
-      requires_1099: Boolean(result?.requires_1099),
-      monthly_totals: result?.monthly_totals || {},
-      threshold: 600,
+      gross_payments: Math.round(forms.reduce((sum, form) => sum + form.gross_payments, 0) * 100) / 100,
+      transaction_count: forms.reduce((sum, form) => sum + form.transaction_count, 0),
+      requires_1099: forms.some((form) => form.meets_threshold),
+      monthly_totals: monthlyTotals,
+      threshold: necThreshold?.amount_threshold ?? null,
+      forms,
       linked_user_id: linkedUserId,
       shared_tax_profile: taxProfile,
     },
   })
 }
 
+export async function listTaxFormThresholdsResponse(
+  _req: Request,
+  supabase: SupabaseClient,
+  _ledger: LedgerContext,
+  taxYearRaw: number | undefined,
+  _requestId: string,
+): Promise<ResourceResult> {
+  const taxYear = normalizeTaxYear(taxYearRaw)
+  const thresholds = await getTaxFormThresholds(supabase, taxYear)
+  if (!thresholds) {
+    return resourceError('Failed to load tax form thresholds', 500, {}, 'tax_thresholds_lookup_failed')
+  }
+
+  return resourceOk({
+    success: true,
+    tax_year: taxYear,
+    thresholds,
+  })
+}
+
 export async function getTaxSummaryResponse(
   req: Request,
   supabase: SupabaseClient,
@@ -556,13 +727,14 @@ export async function deliverTaxDocumentCopyBResponse(
     return resourceError('Email configuration missing (RESEND_API_KEY / FROM_EMAIL)', 500, {}, 'email_config_error')
   }
 
-  // Fetch all tax documents for the ledger/year that meet the 1099 threshold
+  // Documents only exist for forms that met their threshold when generated;
+  // superseded originals are replaced by their correction.
   const { data: documents, error: docsError } = await supabase
     .from('tax_documents')
     .select('*')
     .eq('ledger_id', ledger.id)
     .eq('tax_year', taxYear)
-    .gte('gross_amount', 600)
+    .neq('status', 'superseded')
 
   if (docsError) {
     console.error('deliverTaxDocumentCopyBResponse fetch error:', docsError)
@@ -648,22 +820,14 @@ export async function deliverTaxDocumentCopyBResponse(
       }
 
       // Generate Copy B PDF via internal generate-pdf call
+      const form = getTaxFormDefinition(doc.document_type)
       const pdfRes = await fetch(`${supabaseUrl}/functions/v1/generate-pdf`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${serviceKey}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          report_type: '1099_nec_form',
-          ledger_id: ledger.id,
-          tax_year: doc.tax_year,
-          gross_amount: Number(doc.gross_amount),
-          federal_withholding: Number(doc.federal_withholding || 0),
-          state_withholding: Number(doc.state_withholding || 0),
-          recipient_id: doc.recipient_id,
-          copy_type: 'b',
-        }),
+        body: JSON.stringify(buildTaxFormPdfRequest(ledger.id, doc, 'b')),
       })
 
       const pdfResult = await pdfRes.json()
@@ -674,13 +838,13 @@ export async function deliverTaxDocumentCopyBResponse(
       }
 
       // Send email via Resend (following send-statements pattern)
-      const subject = `Your ${taxYear} Form 1099-NEC from ${businessName}`
+      const subject = `Your ${taxYear} ${form.title} from ${businessName}`
       const textBody = [
         `Hello${recipientName ? ` ${recipientName}` : ''},`,
         '',
-        `Attached is your Form 1099-NEC (Copy B) for tax year ${taxYear} from ${businessName}.`,
+        `Attached is your ${form.title} (Copy B) for tax year ${taxYear} from ${businessName}.`,
         '',
-        'This form reports the nonemployee compensation you received during the tax year.',
+        `This form reports ${form.reports}.`,
         'Please retain this copy for your tax records.',
         '',
         'If you have questions about the amounts reported, please contact us.',
@@ -702,7 +866,7 @@ export async function deliverTaxDocumentCopyBResponse(
           text: textBody,
           attachments: [{
             content: pdfResult.data,
-            filename: pdfResult.filename || `1099_nec_${taxYear}_copy_b.pdf`,
+            filename: pdfResult.filename || `${form.filename}_${taxYear}_copy_b.pdf`,
           }],
         }),
       })
@@ -735,6 +899,7 @@ export async function deliverTaxDocumentCopyBResponse(
           ledger_id: ledger.id,
           creator_id: recipientId,
           email_type: '1099_copy_b',
+          metadata: { document_id: doc.id, document_type: doc.document_type },
           recipient_email: recipientEmail,
           subject,
           status: 'sent',
@@ -818,16 +983,7 @@ export async function generateTaxDocumentPdfResponse(
       'Authorization': `Bearer ${serviceKey}`,
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
-      report_type: '1099_nec_form',
-      ledger_id: ledger.id,
-      tax_year: doc.tax_year,
-      gross_amount: Number(doc.gross_amount),
-      federal_withholding: Number(doc.federal_withholding || 0),
-      state_withholding: Number(doc.state_withholding || 0),
-      recipient_id: doc.recipient_id,
-      copy_type: copyType,
-    }),
+    body: JSON.stringify(buildTaxFormPdfRequest(ledger.id, doc, copyType)),
   })
 
   const pdfResult = await pdfRes.json()
@@ -921,16 +1077,7 @@ export async function generateTaxDocumentPdfBatchResponse(
           'Authorization': `Bearer ${serviceKey}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          report_type: '1099_nec_form',
-          ledger_id: ledger.id,
-          tax_year: doc.tax_year,
-          gross_amount: Number(doc.gross_amount),
-          federal_withholding: Number(doc.federal_withholding || 0),
-          state_withholding: Number(doc.state_withholding || 0),
-          recipient_id: doc.recipient_id,
-          copy_type: copyType,
-        }),
+        body: JSON.stringify(buildTaxFormPdfRequest(ledger.id, doc, copyType)),
       })
 
       const pdfResult = await pdfRes.json()
@@ -988,6 +1135,47 @@ export async function generateTaxDocumentPdfBatchResponse(
   })
 }
 
+// Boxes whose amounts add up to gross_amount on each form.
+const TAX_FORM_AMOUNT_BOXES: Record<TaxDocumentType, string[]> = {
+  '1099-NEC': ['1'],
+  '1099-K': ['1a'],
+  '1099-MISC': ['2', '1', '3'],
+  '1042-S': ['2'],
+}
+
+// Box amounts for a corrected document. Explicit form_boxes override the
+// original's; a bare gross_amount correction moves the single amount box in
+// use, and leaves multi-box 1099-MISC documents for form_boxes to correct.
+export function correctTaxFormBoxes(
+  original: Record<string, any>,
+  boxesRaw: unknown,
+  correctedGross: number | null,
+): Record<string, number> | null {
+  const boxes: Record<string, number> = {}
+  if (original.form_boxes && typeof original.form_boxes === 'object') {
+    for (const [box, amount] of Object.entries(original.form_boxes)) boxes[box] = Number(amount)
+  }
+
+  if (boxesRaw !== undefined) {
+    if (!boxesRaw || typeof boxesRaw !== 'object' || Array.isArray(boxesRaw)) return null
+    for (const [box, amount] of Object.entries(boxesRaw as Record<string, unknown>)) {
+      if (!/^[0-9]{1,2}[a-l]?$/.test(box) || typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+        return null
+      }
+      boxes[box] = amount
+    }
+    return boxes
+  }
+
+  if (correctedGross !== null) {
+    const amountBoxes = TAX_FORM_AMOUNT_BOXES[original.document_type as TaxDocumentType] || ['1']
+    const used = amountBoxes.filter((box) => Number(boxes[box] || 0) > 0)
+    if (used.length <= 1) boxes[used[0] || amountBoxes[0]] = correctedGross
+  }
+
+  return boxes
+}
+
 export async function issueCorrectedTaxDocumentResponse(
   req: Request,
   supabase: SupabaseClient,
@@ -1027,6 +1215,15 @@ export async function issueCorrectedTaxDocumentResponse(
     ? body.state_withholding
     : (original.state_withholding != null ? Number(original.state_withholding) : null)
 
+  const correctedBoxes = correctTaxFormBoxes(
+    original,
+    body.form_boxes,
+    typeof body.gross_amount === 'number' ? correctedGross : null,
+  )
+  if (!correctedBoxes) {
+    return resourceError('form_boxes must map box numbers to non-negative amounts', 400, {}, 'invalid_form_boxes')
+  }
+
   const { data: corrected, error: insertError } = await supabase
     .from('tax_documents')
     .insert({
@@ -1040,6 +1237,7 @@ export async function issueCorrectedTaxDocumentResponse(
       state_withholding: correctedState,
       transaction_count: original.transaction_count,
       monthly_amounts: original.monthly_amounts,
+      form_boxes: correctedBoxes,
       status: 'calculated',
       copy_type: original.copy_type,
       metadata: {
@@ -1071,6 +1269,11 @@ export async function issueCorrectedTaxDocumentResponse(
     .eq('id', original.id)
 
   if (correctedGross !== Number(original.gross_amount)) {
+    const thresholds = await getTaxFormThresholds(supabase, Number(original.tax_year)) || []
+    const formThreshold = thresholds
+      .filter((row) => row.form_type === original.document_type)
+      .reduce((min, row) => Math.min(min, row.amount_threshold), Number.POSITIVE_INFINITY)
+
     await supabase.from('tax_year_summaries').upsert({
       ledger_id: ledger.id,
       entity_id: original.recipient_id,
@@ -1079,7 +1282,9 @@ export async function issueCorrectedTaxDocumentResponse(
       refunds_issued: 0,
       net_earnings: correctedGross,
       total_paid_out: 0,
-      requires_1099: correctedGross >= 600,
+      requires_1099: original.document_type === '1042-S'
+        ? false
+        : Number.isFinite(formThreshold) ? correctedGross >= formThreshold : true,
       is_corrected: true,
       updated_at: new Date().toISOString(),
     }, { onConflict: 'ledger_id,entity_id,tax_year,is_corrected' })
@@ -1112,6 +1317,7 @@ export async function issueCorrectedTaxDocumentResponse(
       gross_amount: correctedGross,
       federal_withholding: correctedFederal,
       state_withholding: correctedState,
+      form_boxes: correctedBoxes,
       reason,
       status: 'calculated',
     },
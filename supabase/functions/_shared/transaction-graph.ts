@@ -14,10 +14,11 @@ export type LinkType =
   | 'fee'             // fee deduction → parent charge
   | 'payout_item'     // charge → payout batch
   | 'dispute'         // dispute → original charge
-  | 'split'           // platform fee split → sale
+  | 'split'           // platform fee split, split-rule credit or referral commission → source
   | 'reversal'        // generic reversal → reversed txn
   | 'adjustment'      // adjustment → corrected txn
-  | 'recurring_child' // recurring instance → parent
+  | 'recurring_child' // recurring journal instance → template's first instance
+  | 'payout_return'   // returned payout reversal → original payout
 
 export interface TransactionLink {
   source_id: string
@@ -259,6 +260,16 @@ export async function autoLinkTransaction(
     })
   }
 
+  // Payout return → returned payout
+  if (transaction.transaction_type === 'payout_return' && transaction.reverses) {
+    links.push({
+      source_id: transaction.id,
+      target_id: transaction.reverses,
+      link_type: 'payout_return',
+      metadata: transaction.metadata?.return_code ? { return_code: transaction.metadata.return_code } : undefined,
+    })
+  }
+
   // Fee split → parent sale (via metadata.parent_transaction_id)
   const parentId = transaction.metadata?.parent_transaction_id as string | undefined
   if (parentId && (transaction.transaction_type === 'transfer' || transaction.transaction_type === 'adjustment')) {
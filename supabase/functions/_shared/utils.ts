@@ -24,6 +24,7 @@ import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-
 import { Ratelimit } from 'https://esm.sh/@upstash/ratelimit@2'
 import { Redis } from 'https://esm.sh/@upstash/redis@1'
 import { captureException } from './error-tracking.ts'
+import { validateUUID } from './validators.ts'
 
 // ============================================================================
 // ENVIRONMENT DETECTION (Fail-Closed)
@@ -81,6 +82,7 @@ const ENDPOINT_BODY_SIZE_LIMITS: Record<string, number> = {
   'record-expense': 64 * 1024,               // 64KB - single transaction
   'record-income': 64 * 1024,                // 64KB - single transaction
   'refunds': 64 * 1024,                      // 64KB - single transaction
+  'disputes': 64 * 1024,                     // 64KB - dispute + evidence metadata
   'execute-payout': 256 * 1024,              // 256KB - batch payouts
   'payouts': 64 * 1024,                      // 64KB - single payout
   'webhooks': 64 * 1024,                     // 64KB - webhook config
@@ -93,10 +95,20 @@ const ENDPOINT_BODY_SIZE_LIMITS: Record<string, number> = {
   'transfers': 64 * 1024,                    // 64KB - wallet transfers
   'holds': 64 * 1024,                        // 64KB - hold queries/releases
   'checkout-sessions': 64 * 1024,            // 64KB - checkout creation
+  'subscriptions': 64 * 1024,                // 64KB - plan and subscription writes
+  'revenue-recognition': 64 * 1024,          // 64KB - schedule with milestones
+  'creator-receivables': 16 * 1024,          // 16KB - recoveries and write-offs
+  'gift-codes': 16 * 1024,                   // 16KB - batch definitions and redemptions
+  'pending-journals': 16 * 1024,             // 16KB - decisions and approval policies
+  'recurring-journals': 32 * 1024,           // 32KB - template entries and schedules
+  'fixed-assets': 16 * 1024,                 // 16KB - asset registration or disposal
+  'reopen-period': 8 * 1024,                 // 8KB - period id and reason
   'reconciliations': 128 * 1024,             // 128KB - snapshot and matching payloads
   'fraud': 64 * 1024,                        // 64KB - evaluations and policy writes
   'compliance': 64 * 1024,                   // 64KB - read-only monitoring queries
   'tax': 128 * 1024,                         // 128KB - document generation/export requests
+  'fx-rates': 2 * 1024 * 1024,               // 2MB - CSV / ECB XML rate imports
+  'sales-tax': 256 * 1024,                   // 256KB - rate / nexus upserts
   'default': 512 * 1024,                     // 512KB - default
 }
 
@@ -114,12 +126,18 @@ const FAIL_CLOSED_ENDPOINTS = [
   'payouts',
   'record-sale',
   'refunds',
+  'disputes',           // Chargeback postings move creator balances
   'create-ledger',      // Prevent resource exhaustion attacks
   'send-statements',    // Prevent email spam
   'import-transactions', // Prevent data flooding
   'import-bank-statement',
   'checkout-sessions',  // Prevent checkout spam / processor rate-limit exhaustion
+  'subscriptions',      // Subscribing charges the saved card immediately
   'holds',              // Critical: Prevent unauthorized fund releases
+  'creator-receivables', // Write-offs move creator debt to bad debt expense
+  'gift-codes',         // Redemption throttling depends on the limiter staying up
+  'pending-journals',   // Approvals post held journals to entries
+  'reopen-period',      // Reopening lets entries back into a closed period
 ]
 
 // ============================================================================
@@ -467,18 +485,35 @@ export interface LedgerContext {
 
 const INTERNAL_TOKEN_HEADER = 'x-soledgic-internal-token'
 const INTERNAL_LEDGER_HEADER = 'x-ledger-id'
+// Set by the dashboard proxy to the signed-in team member
+const DASHBOARD_USER_HEADER = 'x-soledgic-user-id'
 
-function getInternalLedgerId(req: Request): string | null {
+/**
+ * True when the request carries the internal function token, i.e. it comes
+ * from the dashboard proxy or another edge function. Headers beyond the
+ * ledger id (such as the dashboard user) are only trusted on such requests.
+ */
+export function isInternalRequest(req: Request): boolean {
   const expectedToken =
     Deno.env.get('SOLEDGIC_INTERNAL_FUNCTION_TOKEN') ||
     Deno.env.get('INTERNAL_FUNCTION_TOKEN') ||
     ''
 
-  if (!expectedToken) return null
+  if (!expectedToken) return false
 
   const providedToken = req.headers.get(INTERNAL_TOKEN_HEADER) || ''
-  if (!providedToken) return null
-  if (!timingSafeEqual(providedToken.trim(), expectedToken.trim())) return null
+  if (!providedToken) return false
+  return timingSafeEqual(providedToken.trim(), expectedToken.trim())
+}
+
+/** The signed-in dashboard user behind a proxied request, if any. */
+export function getDashboardUserId(req: Request): string | null {
+  if (!isInternalRequest(req)) return null
+  return validateUUID(req.headers.get(DASHBOARD_USER_HEADER))
+}
+
+function getInternalLedgerId(req: Request): string | null {
+  if (!isInternalRequest(req)) return null
 
   const ledgerId = req.headers.get(INTERNAL_LEDGER_HEADER)?.trim() || ''
   return ledgerId.length > 0 ? ledgerId : null
@@ -613,6 +648,7 @@ const RATE_LIMITS: Record<string, { requests: number; windowSeconds: number }> =
   'record-expense': { requests: 200, windowSeconds: 60 },
   'record-income': { requests: 200, windowSeconds: 60 },
   'refunds': { requests: 100, windowSeconds: 60 },
+  'disputes': { requests: 100, windowSeconds: 60 },
   'generate-pdf': { requests: 20, windowSeconds: 60 },
   'generate-report': { requests: 30, windowSeconds: 60 },
   'export-report': { requests: 20, windowSeconds: 60 },
@@ -630,6 +666,14 @@ const RATE_LIMITS: Record<string, { requests: number; windowSeconds: number }> =
   'transfers': { requests: 100, windowSeconds: 60 },
   'holds': { requests: 50, windowSeconds: 60 },            // Fund releases (sensitive financial operation)
   'checkout-sessions': { requests: 100, windowSeconds: 60 }, // Checkout creation (processor-safe baseline)
+  'subscriptions': { requests: 100, windowSeconds: 60 },
+  'revenue-recognition': { requests: 100, windowSeconds: 60 },
+  'creator-receivables': { requests: 50, windowSeconds: 60 },
+  'gift-codes': { requests: 100, windowSeconds: 60 },
+  'pending-journals': { requests: 50, windowSeconds: 60 },
+  'recurring-journals': { requests: 50, windowSeconds: 60 },
+  'fixed-assets': { requests: 50, windowSeconds: 60 },
+  'reopen-period': { requests: 10, windowSeconds: 60 },
   'default': { requests: 100, windowSeconds: 60 },
 }
 
@@ -862,19 +906,24 @@ const ENDPOINT_SCOPE_MAP: Record<string, ApiScope> = {
   // Payments
   'checkout-sessions': 'payments',
   'record-sale': 'payments',
+  'subscriptions': 'payments',
+  'revenue-recognition': 'payments',
   // Payouts
   'payouts': 'payouts',
   'execute-payout': 'payouts',
   'platform-payouts': 'payouts',
   'scheduled-payouts': 'payouts',
+  'creator-receivables': 'payouts',
   // Creators / participants
   'participants': 'creators',
   'delete-creator': 'creators',
   'submit-tax-info': 'creators',
   // Credits
   'credits': 'credits',
+  'gift-codes': 'credits',
   // Refunds
   'refunds': 'payments',
+  'disputes': 'payments',
   // Webhooks management
   'webhooks': 'webhooks',
   // Read-only endpoints: accessible by 'read' scope (and all others)
@@ -16,6 +16,8 @@ import {
   resourceOk,
 } from './treasury-resource.ts'
 import { checkRapidTopupWithdraw, checkLargeTransaction } from './risk-engine.ts'
+import { getFunctionalCurrency } from './currency.ts'
+import { postSaleWithSplitRule, resolveSplitRule } from './split-rules-service.ts'
 
 export type WalletType = 'consumer_credit' | 'creator_earnings'
 export type WalletScopeType = 'customer' | 'participant'
@@ -405,7 +407,7 @@ export async function createWalletResponse(
       entity_id: ownerId,
       entity_type: ownerType,
       name,
-      currency: 'USD',
+      currency: getFunctionalCurrency(ledger),
       metadata,
     })
     .select('id, account_type, entity_id, entity_type, name, balance, currency, metadata, is_active, created_at')
@@ -1137,7 +1139,17 @@ export async function purchaseFromWalletByIdResponse(
   const split = splitResult[0]
   const soledgicFeeCents = split.soledgic_fee_cents ?? 0
 
-  const { data: saleResult, error: saleError } = await supabase.rpc('record_sale_atomic', {
+  // An explicit creator_percent bypasses split rules, as in record-sale
+  const splitRule = typeof body.creator_percent === 'number'
+    ? null
+    : await resolveSplitRule(supabase, ledger.id, { productId: body.product_id || null, creatorId })
+  const {
+    transaction_id: saleTransactionId,
+    error: saleError,
+    creator_amount: creatorCents,
+    platform_amount: platformCents,
+    credits: splitCredits,
+  } = await postSaleWithSplitRule(supabase, {
     p_ledger_id: ledger.id,
     p_reference_id: referenceId,
     p_creator_id: creatorId,
@@ -1154,7 +1166,7 @@ export async function purchaseFromWalletByIdResponse(
       wallet_id: walletId,
       buyer_id: wallet.entity_id,
     },
-  })
+  }, splitRule, getFunctionalCurrency(ledger))
 
   if (saleError) {
     const msg = String(saleError.message || '')
@@ -1170,8 +1182,12 @@ export async function purchaseFromWalletByIdResponse(
     return resourceError('Failed to record sale', 500, {}, 'sale_recording_failed')
   }
 
-  const saleRow = Array.isArray(saleResult) ? saleResult[0] : saleResult
-  const saleTransactionId = saleRow?.out_transaction_id
+  // Without the sale's id it can neither be linked nor voided, so the wallet
+  // is not debited
+  if (!saleTransactionId) {
+    console.error(`[${requestId}] Sale ${referenceId} returned no transaction id`)
+    return resourceError('Failed to record sale', 500, {}, 'sale_recording_failed')
+  }
 
   // Step 2: Debit the wallet
   const withdrawRef = `${referenceId}_wallet_debit`
@@ -1189,15 +1205,20 @@ export async function purchaseFromWalletByIdResponse(
   })
 
   if (withdrawError) {
-    // Sale was recorded but wallet debit failed — void the sale
+    // Sale was recorded but wallet debit failed — void the sale and any
+    // split credits posted with it
     console.error(`[${requestId}] Wallet debit failed after sale — voiding sale:`, withdrawError)
-    try {
-      await supabase.rpc('void_transaction_atomic', {
-        p_ledger_id: ledger.id,
-        p_transaction_id: saleTransactionId,
-        p_reason: `Wallet debit failed: ${withdrawError.message}`,
-      })
-    } catch { /* best-effort void */ }
+    const voidIds = [saleTransactionId, ...splitCredits.map((credit) => credit.transaction_id)]
+    for (const transactionId of voidIds) {
+      if (!transactionId) continue
+      try {
+        await supabase.rpc('void_transaction_atomic', {
+          p_ledger_id: ledger.id,
+          p_transaction_id: transactionId,
+          p_reason: `Wallet debit failed: ${withdrawError.message}`,
+        })
+      } catch { /* best-effort void */ }
+    }
 
     return mapWalletRpcError(withdrawError, ledger.id, withdrawRef, supabase)
   }
@@ -1236,8 +1257,8 @@ export async function purchaseFromWalletByIdResponse(
       buyer_id: wallet.entity_id,
       creator_id: creatorId,
       amount_cents: amount,
-      creator_cents: split.creator_cents,
-      platform_cents: split.platform_cents,
+      creator_cents: creatorCents,
+      platform_cents: platformCents,
       product_id: body.product_id,
     }),
     response_status: 200,
@@ -1251,8 +1272,8 @@ export async function purchaseFromWalletByIdResponse(
       reference_id: referenceId,
       amount_cents: amount,
       creator_id: creatorId,
-      creator_amount_cents: split.creator_cents,
-      platform_amount_cents: split.platform_cents,
+      creator_amount_cents: creatorCents,
+      platform_amount_cents: platformCents,
       wallet_id: walletId,
       wallet_balance_cents: Math.round(newBalance * 100),
       product_id: body.product_id || null,
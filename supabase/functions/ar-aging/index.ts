@@ -80,12 +80,13 @@ const handler = createHandler(
     // In Soledgic, invoices are transactions with transaction_type = 'invoice' or 'income' 
     // that have corresponding entries in accounts_receivable
     
-    // First, get the AR account
+    // First, get the AR account (creator receivables carry an entity_id)
     const { data: arAccount } = await supabase
       .from('accounts')
       .select('id')
       .eq('ledger_id', ledger.id)
       .eq('account_type', 'accounts_receivable')
+      .is('entity_id', null)
       .single()
 
     if (!arAccount) {
@@ -1,6 +1,13 @@
 // Soledgic Edge Function: Balance Sheet Report
 // GET /balance-sheet
 // Generate Balance Sheet: Assets = Liabilities + Equity
+// deferred_revenue is the part of current liabilities that revenue
+// recognition schedules have yet to release.
+// Equity splits income at the ledger's fiscal-year start: earlier years sit
+// in retained_earnings once closed (and are added to it until they are),
+// the current year is reported as current_period_net_income.
+// Fixed assets show cost, accumulated depreciation (contra-asset) and the
+// net book value the fixed asset register depreciates.
 // SECURITY HARDENED VERSION
 
 import { 
@@ -10,12 +17,15 @@ import {
   getClientIp,
   LedgerContext
 } from '../_shared/utils.ts'
+import { AccountCurrencyBalance, getFunctionalCurrency, loadForeignCurrencyBalances } from '../_shared/currency.ts'
+import { getFiscalYearStartMonth, priorFiscalYearEnd } from '../_shared/fiscal-year-service.ts'
 
 interface AccountBalance {
   account_id: string
   account_name: string
   account_type: string
   balance: number
+  currency_balances?: AccountCurrencyBalance[]
 }
 
 interface BalanceSheetSection {
@@ -23,17 +33,25 @@ interface BalanceSheetSection {
   total: number
 }
 
+interface FixedAssetSection extends BalanceSheetSection {
+  cost: number
+  accumulated_depreciation: number
+  net_book_value: number
+}
+
 interface BalanceSheetResponse {
   success: boolean
   as_of_date: string
+  functional_currency: string
   assets: {
     current_assets: BalanceSheetSection
-    fixed_assets: BalanceSheetSection
+    fixed_assets: FixedAssetSection
     total_assets: number
   }
   liabilities: {
     current_liabilities: BalanceSheetSection
     long_term_liabilities: BalanceSheetSection
+    deferred_revenue: number
     total_liabilities: number
   }
   equity: {
@@ -53,14 +71,38 @@ interface BalanceSheetResponse {
 // Account type classifications
 const CURRENT_ASSET_TYPES = ['cash', 'accounts_receivable', 'inventory', 'prepaid_expense']
 const FIXED_ASSET_TYPES = ['fixed_asset', 'property', 'equipment', 'accumulated_depreciation']
-const CURRENT_LIABILITY_TYPES = ['accounts_payable', 'creator_balance', 'payee_balance', 'accrued_expense', 'tax_payable', 'unearned_revenue']
+const CURRENT_LIABILITY_TYPES = ['accounts_payable', 'creator_balance', 'payee_balance', 'accrued_expense', 'tax_payable', 'withholding_tax_payable', 'unearned_revenue', 'gift_card_liability']
 const LONG_TERM_LIABILITY_TYPES = ['long_term_debt', 'notes_payable', 'deferred_tax']
 const EQUITY_TYPES = ['owner_equity', 'retained_earnings', 'common_stock', 'additional_paid_in_capital']
+// FX gains are credits, losses debits; both flow through current period income
+const FX_GAIN_LOSS_TYPES = ['unrealized_fx_gain_loss', 'realized_fx_gain_loss']
 
 // Debit-normal accounts (positive balance means debit > credit)
 const DEBIT_NORMAL_TYPES = ['cash', 'accounts_receivable', 'inventory', 'prepaid_expense', 'fixed_asset', 'property', 'equipment', 'expense', 'processing_fees', 'cost_of_goods']
 // Credit-normal accounts (positive balance means credit > debit)
-const CREDIT_NORMAL_TYPES = ['accounts_payable', 'creator_balance', 'payee_balance', 'accrued_expense', 'tax_payable', 'unearned_revenue', 'long_term_debt', 'notes_payable', 'owner_equity', 'retained_earnings', 'revenue', 'platform_revenue', 'other_income']
+const CREDIT_NORMAL_TYPES = ['accounts_payable', 'creator_balance', 'payee_balance', 'accrued_expense', 'tax_payable', 'withholding_tax_payable', 'unearned_revenue', 'gift_card_liability', 'long_term_debt', 'notes_payable', 'owner_equity', 'retained_earnings', 'revenue', 'platform_revenue', 'other_income', ...FX_GAIN_LOSS_TYPES]
+
+const REVENUE_TYPES = ['revenue', 'platform_revenue', 'other_income', ...FX_GAIN_LOSS_TYPES]
+const EXPENSE_TYPES = ['expense', 'processing_fees', 'cost_of_goods']
+
+// Revenue - Expenses across the given balance rows
+function netIncomeFrom(rows: Array<{ account_type: string; balance: number | string }>): number {
+  let totalRevenue = 0
+  let totalExpenses = 0
+
+  for (const row of rows) {
+    const rawBalance = Number(row.balance)
+    if (REVENUE_TYPES.includes(row.account_type)) {
+      totalRevenue += CREDIT_NORMAL_TYPES.includes(row.account_type) ? -rawBalance : rawBalance
+    } else if (EXPENSE_TYPES.includes(row.account_type)) {
+      // Expenses/fees are debit-normal (expense) or credit-normal (processing_fees).
+      // Use raw balance from entries to avoid double-flipping.
+      totalExpenses += Math.abs(rawBalance)
+    }
+  }
+
+  return totalRevenue - totalExpenses
+}
 
 const handler = createHandler(
   { endpoint: 'balance-sheet', requireAuth: true, rateLimit: true },
@@ -95,12 +137,28 @@ const handler = createHandler(
       return errorResponse('Failed to fetch account balances', 500, req, requestId)
     }
 
-    // Build a lookup of raw balances (debit - credit) per account
-    const accountBalances: Record<string, number> = {}
-    for (const account of accounts || []) {
-      accountBalances[account.account_id] = Number(account.balance)
+    // Income up to the end of the previous fiscal year, left in revenue and
+    // expense accounts when that year was never closed
+    const priorYearEnd = priorFiscalYearEnd(asOfDate, getFiscalYearStartMonth(ledger.settings))
+    const { data: priorAccounts, error: priorAccountsError } = await supabase
+      .rpc('account_balances_as_of', {
+        p_ledger_id: ledger.id,
+        p_as_of_date: priorYearEnd + 'T23:59:59Z'
+      })
+
+    if (priorAccountsError) {
+      console.error('Failed to fetch prior fiscal year balances:', priorAccountsError)
+      return errorResponse('Failed to fetch account balances', 500, req, requestId)
     }
 
+    const functionalCurrency = getFunctionalCurrency(ledger)
+    const currencyBalances = await loadForeignCurrencyBalances(
+      supabase,
+      ledger.id,
+      functionalCurrency,
+      asOfDate + 'T23:59:59Z'
+    )
+
     // Organize accounts into balance sheet sections
     const currentAssets: AccountBalance[] = []
     const fixedAssets: AccountBalance[] = []
@@ -108,10 +166,6 @@ const handler = createHandler(
     const longTermLiabilities: AccountBalance[] = []
     const ownerEquity: AccountBalance[] = []
 
-    // Track revenue and expenses for current period net income
-    let totalRevenue = 0
-    let totalExpenses = 0
-
     for (const account of accounts || []) {
       let balance = Number(account.balance)
       const accountType = account.account_type
@@ -129,7 +183,10 @@ const handler = createHandler(
         account_id: account.account_id,
         account_name: account.account_name,
         account_type: accountType,
-        balance: Math.round(balance * 100) / 100
+        balance: Math.round(balance * 100) / 100,
+        ...(currencyBalances.has(account.account_id)
+          ? { currency_balances: currencyBalances.get(account.account_id) }
+          : {}),
       }
 
       // Categorize account
@@ -147,35 +204,38 @@ const handler = createHandler(
         longTermLiabilities.push(accountBalance)
       } else if (EQUITY_TYPES.includes(accountType)) {
         ownerEquity.push(accountBalance)
-      } else if (accountType === 'revenue' || accountType === 'platform_revenue' || accountType === 'other_income') {
-        totalRevenue += balance
-      } else if (accountType === 'expense' || accountType === 'processing_fees' || accountType === 'cost_of_goods') {
-        // Expenses/fees are debit-normal (expense) or credit-normal (processing_fees).
-        // Use raw balance from entries to avoid double-flipping.
-        totalExpenses += Math.abs(accountBalances[account.account_id] || 0)
       }
     }
 
-    // Calculate current period net income (Revenue - Expenses)
-    const currentPeriodNetIncome = Math.round((totalRevenue - totalExpenses) * 100) / 100
+    // Current period net income is this fiscal year's income to date
+    const unclosedPriorIncome = netIncomeFrom(priorAccounts || [])
+    const currentPeriodNetIncome = Math.round((netIncomeFrom(accounts || []) - unclosedPriorIncome) * 100) / 100
 
     // Calculate section totals
     const totalCurrentAssets = currentAssets.reduce((sum, a) => sum + a.balance, 0)
     const totalFixedAssets = fixedAssets.reduce((sum, a) => sum + a.balance, 0)
+    const accumulatedDepreciation = -fixedAssets
+      .filter(a => a.account_type === 'accumulated_depreciation')
+      .reduce((sum, a) => sum + a.balance, 0)
     const totalAssets = totalCurrentAssets + totalFixedAssets
 
     const totalCurrentLiabilities = currentLiabilities.reduce((sum, a) => sum + a.balance, 0)
     const totalLongTermLiabilities = longTermLiabilities.reduce((sum, a) => sum + a.balance, 0)
     const totalLiabilities = totalCurrentLiabilities + totalLongTermLiabilities
+    const deferredRevenue = currentLiabilities
+      .filter(a => a.account_type === 'unearned_revenue')
+      .reduce((sum, a) => sum + a.balance, 0)
 
     const totalOwnerEquity = ownerEquity.reduce((sum, a) => sum + a.balance, 0)
     
-    // Retained earnings: we'd need historical data, for now assume it's tracked in retained_earnings account
+    // Retained earnings: closed years sit in the retained_earnings account,
+    // prior years that were never closed are still in income accounts
     const retainedEarningsAccount = ownerEquity.find(a => a.account_type === 'retained_earnings')
-    const retainedEarnings = retainedEarningsAccount?.balance || 0
+    const retainedEarningsBalance = retainedEarningsAccount?.balance || 0
+    const retainedEarnings = retainedEarningsBalance + unclosedPriorIncome
 
     // Total equity = Owner contributions + Retained earnings + Current period income
-    const totalEquity = totalOwnerEquity + currentPeriodNetIncome
+    const totalEquity = totalOwnerEquity - retainedEarningsBalance + retainedEarnings + currentPeriodNetIncome
 
     // Balance check
     const liabilitiesPlusEquity = totalLiabilities + totalEquity
@@ -206,6 +266,7 @@ const handler = createHandler(
     const response: BalanceSheetResponse = {
       success: true,
       as_of_date: asOfDate,
+      functional_currency: functionalCurrency,
       assets: {
         current_assets: {
           accounts: currentAssets,
@@ -213,7 +274,10 @@ const handler = createHandler(
         },
         fixed_assets: {
           accounts: fixedAssets,
-          total: Math.round(totalFixedAssets * 100) / 100
+          total: Math.round(totalFixedAssets * 100) / 100,
+          cost: Math.round((totalFixedAssets + accumulatedDepreciation) * 100) / 100,
+          accumulated_depreciation: Math.round(accumulatedDepreciation * 100) / 100,
+          net_book_value: Math.round(totalFixedAssets * 100) / 100
         },
         total_assets: Math.round(totalAssets * 100) / 100
       },
@@ -226,12 +290,13 @@ const handler = createHandler(
           accounts: longTermLiabilities,
           total: Math.round(totalLongTermLiabilities * 100) / 100
         },
+        deferred_revenue: Math.round(deferredRevenue * 100) / 100,
         total_liabilities: Math.round(totalLiabilities * 100) / 100
       },
       equity: {
         owner_equity: {
           accounts: ownerEquity.filter(a => a.account_type !== 'retained_earnings'),
-          total: Math.round((totalOwnerEquity - retainedEarnings) * 100) / 100
+          total: Math.round((totalOwnerEquity - retainedEarningsBalance) * 100) / 100
         },
         retained_earnings: Math.round(retainedEarnings * 100) / 100,
         current_period_net_income: currentPeriodNetIncome,
@@ -8,7 +8,7 @@ import {
   getResourceSegments,
   respondWithResult,
 } from '../_shared/treasury-resource.ts'
-import { createCheckoutResponse } from '../_shared/checkout-service.ts'
+import { createCheckoutResponse, type CreateCheckoutRequest } from '../_shared/checkout-service.ts'
 import { getPaymentProvider } from '../_shared/payment-provider.ts'
 
 const handler = createHandler(
@@ -33,8 +33,9 @@ const handler = createHandler(
     }
 
     const response = await createCheckoutResponse(req, supabase, ledger, {
-      amount: typeof payload.amount === 'number' ? payload.amount : NaN,
+      amount: typeof payload.amount === 'number' ? payload.amount : (payload.line_items !== undefined ? undefined : NaN),
       participant_id: String(payload.participant_id ?? payload.creator_id ?? ''),
+      line_items: payload.line_items as CreateCheckoutRequest['line_items'],
       currency: typeof payload.currency === 'string' ? payload.currency : undefined,
       product_id: typeof payload.product_id === 'string' ? payload.product_id : undefined,
       product_name: typeof payload.product_name === 'string' ? payload.product_name : undefined,
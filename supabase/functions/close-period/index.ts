@@ -1,6 +1,9 @@
 // Soledgic Edge Function: Close Accounting Period
 // POST /close-period
 // Lock a month/quarter so no transactions can be added to it
+// With fiscal_year: true, post the closing entries that roll revenue and
+// expenses into retained earnings and lock the whole fiscal year
+// Closing a period reopened with reopen-period records the next close_version
 // MIGRATED TO createHandler
 
 import { 
@@ -11,11 +14,19 @@ import {
   getClientIp,
   LedgerContext
 } from '../_shared/utils.ts'
+import {
+  FiscalYearClosePosting,
+  fiscalYearBounds,
+  getFiscalYearStartMonth,
+  postFiscalYearClose
+} from '../_shared/fiscal-year-service.ts'
+import { nextCloseVersion } from '../_shared/accounting-period-service.ts'
 
 interface ClosePeriodRequest {
   year: number
   month?: number
   quarter?: number
+  fiscal_year?: boolean
   notes?: string
 }
 
@@ -30,8 +41,8 @@ const handler = createHandler(
       return errorResponse('Invalid year: must be between 2000-2100', 400, req, requestId)
     }
 
-    if (!body.month && !body.quarter) {
-      return errorResponse('Either month or quarter is required', 400, req, requestId)
+    if (!body.month && !body.quarter && body.fiscal_year !== true) {
+      return errorResponse('Either month, quarter or fiscal_year is required', 400, req, requestId)
     }
 
     if (body.month && (body.month < 1 || body.month > 12)) {
@@ -46,7 +57,14 @@ const handler = createHandler(
 
     let periodStart: string, periodEnd: string, periodType: string, periodNumber: number
 
-    if (body.month) {
+    if (body.fiscal_year === true) {
+      // Fiscal years are named by the calendar year they end in
+      const bounds = fiscalYearBounds(body.year, getFiscalYearStartMonth(ledger.settings))
+      periodStart = bounds.start_date
+      periodEnd = bounds.end_date
+      periodType = 'annual'
+      periodNumber = 1
+    } else if (body.month) {
       const m = body.month
       periodStart = `${body.year}-${m.toString().padStart(2, '0')}-01`
       const lastDay = new Date(body.year, m, 0).getDate()
@@ -67,7 +85,7 @@ const handler = createHandler(
     // Check if period already exists
     const { data: existingPeriod } = await supabase
       .from('accounting_periods')
-      .select('id, status')
+      .select('id, status, close_version, reopened_at, closing_hash')
       .eq('ledger_id', ledger.id)
       .eq('period_start', periodStart)
       .eq('period_end', periodEnd)
@@ -81,6 +99,22 @@ const handler = createHandler(
       }, 409, req, requestId)
     }
 
+    // Year-end close: zero revenue and expenses into retained earnings
+    let closing: FiscalYearClosePosting | null = null
+    if (periodType === 'annual') {
+      const { posting, error: closingError } = await postFiscalYearClose(
+        supabase,
+        ledger.id,
+        { fiscal_year: body.year, start_date: periodStart, end_date: periodEnd },
+        requestId
+      )
+
+      if (closingError || !posting) {
+        return errorResponse(closingError || 'Failed to post closing entries', 500, req, requestId)
+      }
+      closing = posting
+    }
+
     // Verify ledger is balanced
     const { data: accounts } = await supabase
       .from('accounts')
@@ -131,18 +165,24 @@ const handler = createHandler(
       return errorResponse('Failed to create snapshot', 500, req, requestId)
     }
 
+    // Fiscal years are locked, not just closed
+    const periodStatus = periodType === 'annual' ? 'locked' : 'closed'
+    const closeVersion = nextCloseVersion(existingPeriod)
+    const previousClosingHash = existingPeriod?.reopened_at ? existingPeriod.closing_hash : null
+
     // Create or update period
     let period
     if (existingPeriod) {
       const { data: updated, error: updateError } = await supabase
         .from('accounting_periods')
         .update({
-          status: 'closed',
+          status: periodStatus,
           closed_at: new Date().toISOString(),
           closed_by: 'api',
           close_notes: notes,
           closing_trial_balance: accounts,
           closing_hash: snapshotHash,
+          close_version: closeVersion,
           updated_at: new Date().toISOString()
         })
         .eq('id', existingPeriod.id)
@@ -164,7 +204,7 @@ const handler = createHandler(
           period_end: periodEnd,
           fiscal_year: body.year,
           period_number: periodNumber,
-          status: 'closed',
+          status: periodStatus,
           closed_at: new Date().toISOString(),
           closed_by: 'api',
           close_notes: notes,
@@ -190,7 +230,15 @@ const handler = createHandler(
       actor_type: 'api',
       ip_address: getClientIp(req),
       request_id: requestId,
-      request_body: { year: body.year, month: body.month, quarter: body.quarter }
+      request_body: {
+        year: body.year,
+        month: body.month,
+        quarter: body.quarter,
+        fiscal_year: body.fiscal_year === true,
+        closing_transaction_id: closing?.transaction_id ?? null,
+        close_version: closeVersion,
+        previous_closing_hash: previousClosingHash,
+      }
     })
 
     return jsonResponse({
@@ -199,14 +247,29 @@ const handler = createHandler(
       period: {
         start_date: periodStart,
         end_date: periodEnd,
-        status: 'closed'
+        status: periodStatus,
+        close_version: closeVersion
       },
+      ...(previousClosingHash ? {
+        reclose: {
+          previous_closing_hash: previousClosingHash,
+          closing_hash: snapshotHash
+        }
+      } : {}),
       snapshot: {
         snapshot_id: snapshot.id,
         total_debits: snapshot.total_debits,
         total_credits: snapshot.total_credits,
         is_balanced: snapshot.is_balanced
-      }
+      },
+      ...(closing ? {
+        closing: {
+          transaction_id: closing.transaction_id,
+          retained_earnings_account_id: closing.retained_earnings_account_id,
+          net_income: closing.net_income,
+          accounts_closed: closing.accounts_closed
+        }
+      } : {})
     }, 200, req, requestId)
   }
 )
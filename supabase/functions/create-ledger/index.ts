@@ -27,6 +27,13 @@ interface CreateLedgerRequest {
     min_payout_amount?: number
     payout_schedule?: 'manual' | 'weekly' | 'monthly'
     tax_withholding_percent?: number
+    // Withhold 24% from participants with no TIN on file (IRC 3406)
+    backup_withholding_enabled?: boolean
+    // Negative creator balances: share of later earnings netted against the
+    // debt, whether payouts wait for it, and days before it is written off
+    negative_balance_recovery_percent?: number
+    negative_balance_block_payouts?: boolean
+    negative_balance_write_off_days?: number | null
     currency?: string
   }
 }
@@ -40,6 +47,10 @@ function getDefaultSettings(mode: LedgerMode, overrides?: CreateLedgerRequest['s
       default_platform_fee_percent: overrides?.platform_fee_percent ?? 20,
       platform_fee_percent: overrides?.platform_fee_percent ?? 20,
       tax_withholding_percent: overrides?.tax_withholding_percent ?? 0,
+      backup_withholding_enabled: overrides?.backup_withholding_enabled ?? false,
+      negative_balance_recovery_percent: overrides?.negative_balance_recovery_percent ?? 100,
+      negative_balance_block_payouts: overrides?.negative_balance_block_payouts ?? false,
+      negative_balance_write_off_days: overrides?.negative_balance_write_off_days ?? null,
       min_payout_amount: overrides?.min_payout_amount ?? 10.00,
       payout_schedule: overrides?.payout_schedule ?? 'manual',
       currency: overrides?.currency ?? 'USD',
@@ -0,0 +1,106 @@
+// SERVICE_ID: SVC_CREATOR_RECEIVABLES_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  creatorReceivablesReportResponse,
+  getCreatorDebtResponse,
+  listCreatorDebtsResponse,
+  recoverCreatorDebtsResponse,
+  writeOffCreatorDebtResponse,
+} from '../_shared/creator-receivables-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'creator-receivables', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'creator-receivables')
+    const url = new URL(req.url)
+
+    if (segments.length === 0) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const creatorId = url.searchParams.get('creator_id')
+      const asOf = url.searchParams.get('as_of')
+
+      const response = await creatorReceivablesReportResponse(req, supabase, ledger, {
+        ...(creatorId ? { creator_id: creatorId } : {}),
+        ...(asOf ? { as_of: asOf } : {}),
+      }, requestId)
+
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 1 && segments[0] === 'recover') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body)
+      if (!payload) {
+        return errorResponse('Invalid JSON body', 400, req, requestId)
+      }
+
+      const response = await recoverCreatorDebtsResponse(req, supabase, ledger, payload, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments[0] !== 'debts') {
+      return errorResponse('Not found', 404, req, requestId)
+    }
+
+    if (segments.length === 1) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const status = url.searchParams.get('status')
+      const creatorId = url.searchParams.get('creator_id')
+      const limit = getNumberParam(url, 'limit')
+
+      const response = await listCreatorDebtsResponse(req, supabase, ledger, {
+        ...(status ? { status } : {}),
+        ...(creatorId ? { creator_id: creatorId } : {}),
+        ...(limit !== undefined ? { limit } : {}),
+      }, requestId)
+
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 2) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await getCreatorDebtResponse(req, supabase, ledger, segments[1], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 3 && segments[2] === 'write-off') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body) || {}
+      const response = await writeOffCreatorDebtResponse(req, supabase, ledger, segments[1], payload, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
@@ -9,6 +9,8 @@
 //   Convert: DR credits_liability → CR user_spendable_balance (min $5 / 5000 credits)
 //   Redeem:  DR user_spendable_balance → CR creator_balance + CR platform_revenue (via split)
 //   Payout:  Existing payout flow (creator_balance → cash)
+//   Referral: DR platform_revenue → CR referrer creator_balance on redemptions
+//            by a referred creator or user (see referral-service.ts)
 //
 // Users can spend credits in-app. Users CANNOT withdraw credits as cash.
 // Only creators receive real payouts — from revenue (real or credit-funded).
@@ -25,6 +27,7 @@ import {
   createAuditLogAsync,
   sanitizeForAudit,
 } from '../_shared/utils.ts'
+import { postReferralCommissions } from '../_shared/referral-service.ts'
 
 // ============================================================================
 // SOLEDGIC STANDARD: Fixed conversion rate. No per-platform overrides.
@@ -275,7 +278,19 @@ const handler = createHandler(
         risk_score: 30,
       }, requestId)
 
-      return jsonResponse(rpcResult, 200, req, requestId)
+      const { commissions: referralCommissions } = await postReferralCommissions(supabase, ledger!.id, rpcResult.transaction_id, requestId)
+
+      return jsonResponse({
+        ...rpcResult,
+        ...(referralCommissions.length > 0 ? {
+          referral_commissions: referralCommissions.map((commission) => ({
+            attribution_id: commission.attribution_id,
+            referrer_id: commission.referrer_id,
+            amount: commission.amount,
+            transaction_id: commission.transaction_id,
+          })),
+        } : {}),
+      }, 200, req, requestId)
     }
 
     return errorResponse('Invalid action', 400, req, requestId)
@@ -0,0 +1,113 @@
+// SERVICE_ID: SVC_DISPUTES_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  acceptDisputeResponse,
+  createDisputeResponse,
+  getDisputeResponse,
+  listDisputesResponse,
+  recordDisputeOutcomeResponse,
+  submitDisputeEvidenceResponse,
+} from '../_shared/disputes-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'disputes', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'disputes')
+    const url = new URL(req.url)
+
+    if (segments.length === 0) {
+      if (req.method === 'GET') {
+        const limit = getNumberParam(url, 'limit')
+        const response = await listDisputesResponse(req, supabase, ledger, {
+          status: url.searchParams.get('status') || undefined,
+          creator_id: url.searchParams.get('creator_id') || undefined,
+          sale_reference: url.searchParams.get('sale_reference') || undefined,
+          ...(limit !== undefined ? { limit } : {}),
+        }, requestId)
+
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await createDisputeResponse(req, supabase, ledger, {
+          dispute_id: typeof payload.dispute_id === 'string' ? payload.dispute_id : undefined,
+          amount: typeof payload.amount === 'number' ? payload.amount : undefined,
+          fee: typeof payload.fee === 'number' ? payload.fee : undefined,
+          sale_reference: typeof payload.sale_reference === 'string' ? payload.sale_reference : undefined,
+          creator_id: typeof payload.creator_id === 'string' ? payload.creator_id : undefined,
+          reason: typeof payload.reason === 'string' ? payload.reason : undefined,
+          evidence_due_by: typeof payload.evidence_due_by === 'string' ? payload.evidence_due_by : undefined,
+          currency: typeof payload.currency === 'string' ? payload.currency : undefined,
+          metadata: asJsonObject(payload.metadata) || undefined,
+        }, requestId)
+
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    const disputeId = segments[0]
+
+    if (segments.length === 1) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await getDisputeResponse(req, supabase, ledger, disputeId, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 2 && req.method === 'POST') {
+      const payload = asJsonObject(body) || {}
+
+      if (segments[1] === 'evidence') {
+        const response = await submitDisputeEvidenceResponse(req, supabase, ledger, disputeId, {
+          evidence: payload.evidence,
+          submit: typeof payload.submit === 'boolean' ? payload.submit : undefined,
+        }, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (segments[1] === 'accept') {
+        const response = await acceptDisputeResponse(req, supabase, ledger, disputeId, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (segments[1] === 'outcome') {
+        const response = await recordDisputeOutcomeResponse(req, supabase, ledger, disputeId, {
+          outcome: typeof payload.outcome === 'string' ? payload.outcome : undefined,
+          fee_refunded: payload.fee_refunded === true,
+        }, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+    }
+
+    if (segments.length === 2 && ['evidence', 'accept', 'outcome'].includes(segments[1])) {
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
@@ -8,537 +8,52 @@ import {
   jsonResponse,
   errorResponse,
   LedgerContext,
-  isProduction,
   createAuditLog
 } from '../_shared/utils.ts'
-import { getPaymentProvider } from '../_shared/payment-provider.ts'
-import { sendACH, getTransactionStatus as getMercuryTxnStatus } from '../_shared/mercury-client.ts'
+import {
+  calculateRailFee,
+  CreatorPayoutDetails,
+  getPaymentRail,
+  listPaymentRails,
+  ManualBankFileRail,
+  normalizeRail,
+  PaymentRail,
+  PayoutRail,
+  PayoutResult,
+  RailConfig,
+  resolveFeeSchedule,
+  validateFeeSchedule,
+} from '../_shared/payment-rails.ts'
+import {
+  allocateTraceNumbers,
+  ingestNachaFile,
+  normalizeNachaFileType,
+  releaseTraceNumbers,
+} from '../_shared/nacha-file-service.ts'
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-// Public rail names are whitelabeled.
-type PayoutRail = 'card' | 'ach' | 'wise' | 'manual' | 'crypto'
-
 interface PayoutRequest {
-  action: 'execute' | 'batch_execute' | 'get_status' | 'configure_rail' | 'list_rails' | 'generate_batch_file'
+  action:
+    | 'execute'
+    | 'batch_execute'
+    | 'get_status'
+    | 'configure_rail'
+    | 'list_rails'
+    | 'generate_batch_file'
+    | 'import_return_file'
   payout_id?: string
   payout_ids?: string[]
   rail?: PayoutRail
   rail_config?: RailConfig
-}
-
-interface RailConfig {
-  rail: PayoutRail
-  enabled: boolean
-  credentials?: Record<string, string>
-  settings?: Record<string, any>
-}
-
-interface PayoutResult {
-  success: boolean
-  payout_id: string
-  rail: PayoutRail
-  external_id?: string
-  status: 'pending' | 'processing' | 'completed' | 'failed'
-  error?: string
-  metadata?: Record<string, any>
-}
-
-interface CreatorPayoutDetails {
-  payout_id: string
-  ledger_id: string
-  creator_id: string
-  creator_name: string
-  amount: number
-  currency: string
-  livemode?: boolean
-  payout_method?: {
-    rail: PayoutRail
-    account_id?: string
-    bank_account?: {
-      routing_number: string
-      account_number: string
-      account_type: 'checking' | 'savings'
-    }
-    email?: string
-    wallet_address?: string
-  }
+  file_content?: string
+  file_type?: string
 }
 
 // Platform-managed processor settings live in environment variables.
-
-// ============================================================================
-// PAYMENT RAIL INTERFACE
-// ============================================================================
-
-interface PaymentRail {
-  name: PayoutRail
-  execute(payout: CreatorPayoutDetails, config: RailConfig): Promise<PayoutResult>
-  getStatus(externalId: string, config: RailConfig): Promise<PayoutResult>
-  validateConfig(config: RailConfig): { valid: boolean; errors: string[] }
-}
-
-// ============================================================================
-// CARD PROCESSOR RAIL
-// ============================================================================
-
-class CardProcessorRail implements PaymentRail {
-  name: PayoutRail = 'card'
-
-  private mapProviderStatus(status: string | undefined): PayoutResult['status'] {
-    const normalized = String(status || '').toLowerCase().trim()
-    if (normalized === 'succeeded' || normalized === 'completed' || normalized === 'settled') return 'completed'
-    if (normalized === 'failed' || normalized === 'canceled' || normalized === 'cancelled') return 'failed'
-    if (normalized === 'processing') return 'processing'
-    return 'pending'
-  }
-
-  async execute(payout: CreatorPayoutDetails, _config: RailConfig): Promise<PayoutResult> {
-    const destination = payout.payout_method?.account_id || null
-    if (!destination) {
-      return {
-        success: false,
-        payout_id: payout.payout_id,
-        rail: this.name,
-        status: 'failed',
-        error: 'No destination account configured',
-      }
-    }
-
-    // Platform funding instrument (optional, depends on processor configuration).
-    const platformSource =
-      (Deno.env.get('PROCESSOR_PAYOUT_SOURCE_ID') || '').trim() || null
-
-    const operationKey =
-      (Deno.env.get('PROCESSOR_PAYOUT_OPERATION_KEY') || '').trim() || 'PUSH_TO_ACH'
-    const processorNameRaw = (Deno.env.get('PROCESSOR_NAME') || '').trim()
-    if (!processorNameRaw && isProduction()) {
-      return {
-        success: false,
-        payout_id: payout.payout_id,
-        rail: this.name,
-        status: 'failed',
-        error: 'PROCESSOR_NAME must be configured in production',
-      }
-    }
-    const processorName = processorNameRaw || 'DUMMY_V1'
-
-    const provider = getPaymentProvider('card', { livemode: payout.livemode })
-    const result = await provider.createPaymentIntent({
-      amount: Math.round(payout.amount * 100),
-      currency: payout.currency.toUpperCase(),
-      description: `Payout ${payout.payout_id}`,
-      metadata: {
-        ledger_id: payout.ledger_id,
-        soledgic_ledger_id: payout.ledger_id,
-        soledgic_payout_id: payout.payout_id,
-        creator_id: payout.creator_id,
-      },
-      payment_method_id: platformSource || undefined,
-      destination_id: destination,
-      idempotency_id: `payout_${payout.payout_id}`,
-      operation_key: operationKey,
-      processor: processorName,
-    })
-
-    if (!result.success || !result.id) {
-      return {
-        success: false,
-        payout_id: payout.payout_id,
-        rail: this.name,
-        status: 'failed',
-        error: result.error || 'Processor transfer failed',
-      }
-    }
-
-    return {
-      success: true,
-      payout_id: payout.payout_id,
-      rail: this.name,
-      external_id: result.id,
-      status: this.mapProviderStatus(result.status),
-      metadata: { transfer_id: result.id },
-    }
-  }
-
-  async getStatus(externalId: string, _config: RailConfig): Promise<PayoutResult> {
-    const provider = getPaymentProvider('card')
-    const status = await provider.getPaymentStatus(externalId)
-    if (!status.success) {
-      return {
-        success: false,
-        payout_id: '',
-        rail: this.name,
-        external_id: externalId,
-        status: 'failed',
-        error: status.error || 'Processor status lookup failed',
-      }
-    }
-
-    return {
-      success: true,
-      payout_id: '',
-      rail: this.name,
-      external_id: externalId,
-      status: this.mapProviderStatus(status.status),
-    }
-  }
-
-  validateConfig(_config: RailConfig): { valid: boolean; errors: string[] } {
-    const errors: string[] = []
-
-    const baseUrl = Deno.env.get('PROCESSOR_BASE_URL') || ''
-    const username = Deno.env.get('PROCESSOR_USERNAME') || ''
-    const password = Deno.env.get('PROCESSOR_PASSWORD') || ''
-    const merchant = Deno.env.get('PROCESSOR_MERCHANT_ID') || ''
-
-    if (!baseUrl.trim()) errors.push('Processor base URL required')
-    if (!username.trim()) errors.push('Processor username required')
-    if (!password.trim()) errors.push('Processor password required')
-    if (!merchant.trim()) errors.push('Processor merchant required')
-
-    return { valid: errors.length === 0, errors }
-  }
-}
-
-// ============================================================================
-// MANUAL BANK FILE RAIL (NACHA/ACH file generation)
-// ============================================================================
-
-class ManualBankFileRail implements PaymentRail {
-  name: PayoutRail
-
-  constructor(name: PayoutRail = 'manual') {
-    this.name = name
-  }
-
-  async execute(payout: CreatorPayoutDetails, config: RailConfig): Promise<PayoutResult> {
-    return {
-      success: true,
-      payout_id: payout.payout_id,
-      rail: this.name,
-      external_id: `manual_${payout.payout_id}`,
-      status: 'pending',
-      metadata: { 
-        requires_batch_file: true,
-        // SECURITY: Don't include full bank account in response
-        bank_account_last4: payout.payout_method?.bank_account?.account_number?.slice(-4),
-      },
-    }
-  }
-
-  async getStatus(externalId: string, config: RailConfig): Promise<PayoutResult> {
-    return { success: true, payout_id: '', rail: this.name, external_id: externalId, status: 'pending' }
-  }
-
-  validateConfig(config: RailConfig): { valid: boolean; errors: string[] } {
-    const errors: string[] = []
-
-    // NACHA is extremely strict. Defaults are OK for sandbox/dev demos but
-    // should never be used in production.
-    if (isProduction()) {
-      const companyId = (config.settings?.company_id || '').toString().trim()
-      const originatingDfi = (config.settings?.originating_dfi || '').toString().trim()
-      const bankName = (config.settings?.bank_name || '').toString().trim()
-      const companyName = (config.settings?.company_name || '').toString().trim()
-
-      if (!companyId) errors.push('company_id is required for NACHA generation')
-      if (!originatingDfi) errors.push('originating_dfi is required for NACHA generation')
-      if (!bankName) errors.push('bank_name is required for NACHA generation')
-      if (!companyName) errors.push('company_name is required for NACHA generation')
-    }
-
-    return { valid: errors.length === 0, errors }
-  }
-
-  generateNACHAFile(payouts: CreatorPayoutDetails[], config: RailConfig): string {
-    const bankNameRaw = (config.settings?.bank_name || 'BANK NAME').toString()
-    const companyNameRaw = (config.settings?.company_name || 'SOLEDGIC').toString()
-    const companyIdRaw = (config.settings?.company_id || '1234567890').toString()
-    const originatingDfiRaw = (config.settings?.originating_dfi || '12345678').toString()
-
-    if (isProduction()) {
-      const { valid, errors } = this.validateConfig(config)
-      if (!valid) {
-        throw new Error(`Manual NACHA config invalid: ${errors.join(', ')}`)
-      }
-    }
-
-    const companyName = companyNameRaw.substring(0, 16).padEnd(16)
-    const companyId = companyIdRaw.padStart(10, '0')
-    const originatingDFI = originatingDfiRaw.substring(0, 8)
-    const batchNumber = (config.settings?.batch_number || '0000001').padStart(7, '0')
-    const now = new Date()
-    const effectiveDate = now.toISOString().slice(2, 10).replace(/-/g, '')
-    const fileCreationDate = now.toISOString().slice(2, 10).replace(/-/g, '')
-    const fileCreationTime = now.toTimeString().slice(0, 5).replace(':', '')
-
-    const lines: string[] = []
-
-    // File Header Record (1)
-    lines.push(
-      '1' +
-      '01' +
-      ' ' + originatingDFI.padStart(9, '0') +
-      ' ' + companyId.padStart(9, '0').substring(0, 9) +
-      fileCreationDate +
-      fileCreationTime +
-      'A' +
-      '094' +
-      '10' +
-      '1' +
-      bankNameRaw.substring(0, 23).padEnd(23) +
-      companyName.padEnd(23) +
-      ''.padEnd(8)
-    )
-
-    // Batch Header Record (5)
-    lines.push(
-      '5' +
-      '220' +
-      companyName +
-      ''.padEnd(20) +
-      companyId +
-      'PPD' +
-      'PAYOUT'.padEnd(10) +
-      effectiveDate +
-      effectiveDate +
-      ''.padEnd(3) +
-      '1' +
-      originatingDFI +
-      batchNumber
-    )
-
-    // Entry Detail Records (6)
-    let entryHash = 0
-    let totalAmount = 0
-    let entryCount = 0
-
-    for (const payout of payouts) {
-      const bank = payout.payout_method?.bank_account
-      if (!bank) continue
-
-      const routingNumber = bank.routing_number.padStart(9, '0')
-      entryHash += parseInt(routingNumber.slice(0, 8))
-      const amountCents = Math.round(payout.amount * 100)
-      totalAmount += amountCents
-      entryCount++
-
-      lines.push(
-        '6' +
-        '22' +
-        routingNumber +
-        bank.account_number.padEnd(17).slice(0, 17) +
-        amountCents.toString().padStart(10, '0') +
-        payout.creator_id.padEnd(15).slice(0, 15) +
-        payout.creator_name.padEnd(22).slice(0, 22) +
-        '  ' +
-        '0' +
-        originatingDFI +
-        entryCount.toString().padStart(7, '0')
-      )
-    }
-
-    // Batch Control Record (8)
-    lines.push(
-      '8' +
-      '220' +
-      entryCount.toString().padStart(6, '0') +
-      (entryHash % 10000000000).toString().padStart(10, '0') +
-      '0'.repeat(12) +
-      totalAmount.toString().padStart(12, '0') +
-      companyId +
-      ''.padEnd(19) +
-      ''.padEnd(6) +
-      originatingDFI +
-      batchNumber
-    )
-
-    // File Control Record (9)
-    const batchCount = 1
-    const blockCount = Math.ceil((lines.length + 1) / 10)
-
-    lines.push(
-      '9' +
-      batchCount.toString().padStart(6, '0') +
-      blockCount.toString().padStart(6, '0') +
-      entryCount.toString().padStart(8, '0') +
-      (entryHash % 10000000000).toString().padStart(10, '0') +
-      '0'.repeat(12) +
-      totalAmount.toString().padStart(12, '0') +
-      ''.padEnd(39)
-    )
-
-    while (lines.length % 10 !== 0) {
-      lines.push('9'.repeat(94))
-    }
-
-    return lines.join('\n')
-  }
-}
-
-class DisabledAliasRail implements PaymentRail {
-  name: PayoutRail
-  private readonly reason: string
-
-  constructor(name: PayoutRail, reason: string) {
-    this.name = name
-    this.reason = reason
-  }
-
-  async execute(payout: CreatorPayoutDetails, _config: RailConfig): Promise<PayoutResult> {
-    return {
-      success: false,
-      payout_id: payout.payout_id,
-      rail: this.name,
-      status: 'failed',
-      error: this.reason,
-    }
-  }
-
-  async getStatus(externalId: string, _config: RailConfig): Promise<PayoutResult> {
-    return {
-      success: false,
-      payout_id: '',
-      rail: this.name,
-      external_id: externalId,
-      status: 'failed',
-      error: this.reason,
-    }
-  }
-
-  validateConfig(_config: RailConfig): { valid: boolean; errors: string[] } {
-    return { valid: false, errors: [this.reason] }
-  }
-}
-
-// ============================================================================
-// MERCURY ACH RAIL (direct bank transfer via Mercury API)
-// ============================================================================
-
-class MercuryACHRail implements PaymentRail {
-  name: PayoutRail = 'ach'
-
-  private mapMercuryStatus(status: string | undefined): PayoutResult['status'] {
-    const s = String(status || '').toLowerCase()
-    if (s === 'sent' || s === 'completed') return 'completed'
-    if (s === 'failed' || s === 'cancelled') return 'failed'
-    if (s === 'pending') return 'pending'
-    return 'processing'
-  }
-
-  async execute(payout: CreatorPayoutDetails, _config: RailConfig): Promise<PayoutResult> {
-    // Mercury recipient ID must be stored in the creator's payout method
-    const mercuryRecipientId = payout.payout_method?.account_id || null
-    if (!mercuryRecipientId) {
-      return {
-        success: false,
-        payout_id: payout.payout_id,
-        rail: this.name,
-        status: 'failed',
-        error: 'No Mercury recipient configured for this creator. Set up bank account first.',
-      }
-    }
-
-    const result = await sendACH({
-      recipientId: mercuryRecipientId,
-      amountDollars: payout.amount, // amount is already in major units
-      description: `Payout to ${payout.creator_name} (${payout.payout_id})`,
-      idempotencyKey: `payout_${payout.payout_id}`,
-    })
-
-    if (!result.success) {
-      return {
-        success: false,
-        payout_id: payout.payout_id,
-        rail: this.name,
-        status: 'failed',
-        error: result.error || 'Mercury ACH transfer failed',
-      }
-    }
-
-    return {
-      success: true,
-      payout_id: payout.payout_id,
-      rail: this.name,
-      external_id: result.transactionId,
-      status: this.mapMercuryStatus(result.status),
-      metadata: { mercury_transaction_id: result.transactionId },
-    }
-  }
-
-  async getStatus(externalId: string, _config: RailConfig): Promise<PayoutResult> {
-    const txn = await getMercuryTxnStatus(externalId)
-    if (!txn) {
-      return {
-        success: false,
-        payout_id: '',
-        rail: this.name,
-        external_id: externalId,
-        status: 'failed',
-        error: 'Mercury transaction not found',
-      }
-    }
-
-    return {
-      success: true,
-      payout_id: '',
-      rail: this.name,
-      external_id: externalId,
-      status: this.mapMercuryStatus(txn.status),
-    }
-  }
-
-  validateConfig(_config: RailConfig): { valid: boolean; errors: string[] } {
-    const errors: string[] = []
-    if (!Deno.env.get('MERCURY_API_KEY')?.trim()) errors.push('MERCURY_API_KEY required')
-    if (!Deno.env.get('MERCURY_ACCOUNT_ID')?.trim()) errors.push('MERCURY_ACCOUNT_ID required')
-    return { valid: errors.length === 0, errors }
-  }
-}
-
-// ============================================================================
-// RAIL REGISTRY
-// ============================================================================
-
-const ALLOW_LEGACY_MANUAL_RAIL_ALIASES =
-  (Deno.env.get('ALLOW_LEGACY_MANUAL_RAIL_ALIASES') || '').trim().toLowerCase() === 'true'
-
-const RAILS: Record<PayoutRail, PaymentRail> = {
-  ach: new MercuryACHRail(),
-  card: new CardProcessorRail(),
-  manual: new ManualBankFileRail('manual'),
-  wise: ALLOW_LEGACY_MANUAL_RAIL_ALIASES
-    ? new ManualBankFileRail('wise')
-    : new DisabledAliasRail('wise', 'Rail "wise" is disabled. Use "card" or "manual".'),
-  crypto: ALLOW_LEGACY_MANUAL_RAIL_ALIASES
-    ? new ManualBankFileRail('crypto')
-    : new DisabledAliasRail('crypto', 'Rail "crypto" is disabled. Use "card" or "manual".'),
-}
-
-function normalizeRail(value?: string | null): PayoutRail | null {
-  if (!value) return null
-  switch (value) {
-    case 'ach':
-    case 'bank':
-    case 'mercury':
-      return 'ach'
-    case 'card':
-    case 'processor':
-    case 'primary':
-      return 'card'
-    case 'manual':
-      return 'manual'
-    case 'wise':
-      return 'wise'
-    case 'crypto':
-      return 'crypto'
-    default:
-      return null
-  }
-}
+// Rail implementations and the rail registry live in _shared/payment-rails.ts.
 
 function normalizeRailConfigs(configs: any): RailConfig[] {
   if (!Array.isArray(configs)) return []
@@ -570,6 +85,85 @@ function pickDefaultRail(configs: RailConfig[]): PayoutRail {
   return 'ach'
 }
 
+interface RailFeeQuote {
+  fee_cents: number
+  paid_by: 'creator' | 'platform'
+  /** The fee in major units of the payout currency */
+  amount: number
+}
+
+interface RailFeeResult extends RailFeeQuote {
+  transaction_id: string | null
+  error?: string
+}
+
+// Fee for a payout in the payout currency's minor units. The factor comes from
+// currency_minor_unit_factor, which record_payout_rail_fee converts back with.
+async function quoteRailFee(
+  supabase: any,
+  railImpl: PaymentRail,
+  railConfig: RailConfig,
+  amount: number,
+  currency: string,
+): Promise<{ fee?: RailFeeQuote | null; error?: string }> {
+  const schedule = resolveFeeSchedule(railImpl, railConfig)
+  if (!schedule) return { fee: null }
+
+  const { data: factor, error } = await supabase.rpc('currency_minor_unit_factor', { p_currency: currency })
+  if (error || !Number(factor)) {
+    console.error('Failed to resolve currency minor units:', error)
+    return { error: 'Failed to resolve the rail fee currency' }
+  }
+
+  const feeCents = calculateRailFee(schedule, Math.round(amount * Number(factor)))
+  if (feeCents <= 0) return { fee: null }
+
+  return {
+    fee: {
+      fee_cents: feeCents,
+      paid_by: schedule.paid_by === 'platform' ? 'platform' : 'creator',
+      amount: feeCents / Number(factor),
+    },
+  }
+}
+
+// Rail fees are booked as their own payout_fee transaction once the rail has
+// accepted the payout. A failed booking is logged and surfaced in metadata;
+// the payout itself has already left and is not rolled back.
+async function recordRailFee(
+  supabase: any,
+  ledgerId: string,
+  payoutId: string,
+  railImpl: PaymentRail,
+  fee: RailFeeQuote,
+): Promise<RailFeeResult> {
+  const { data, error } = await supabase.rpc('record_payout_rail_fee', {
+    p_ledger_id: ledgerId,
+    p_payout_transaction_id: payoutId,
+    p_rail: railImpl.name,
+    p_fee_cents: fee.fee_cents,
+    p_paid_by: fee.paid_by,
+  })
+
+  if (error || data?.status === 'error') {
+    console.error('Failed to record rail fee:', error || data)
+    return { ...fee, transaction_id: null, error: 'fee_not_recorded' }
+  }
+
+  return { ...fee, transaction_id: data?.transaction_id ?? null }
+}
+
+function findCreatorEntry(entries: any[]): any | undefined {
+  return entries.find(e => e.accounts?.account_type === 'creator_balance')
+}
+
+// Backup withholding taken when the payout was recorded stays with the
+// platform, so only the remainder is sent.
+function getDisbursementAmount(payout: { amount: number; metadata?: any }): number {
+  const withheldCents = Number(payout.metadata?.amounts_cents?.backup_withholding || 0)
+  return Math.round(Number(payout.amount) * 100 - withheldCents) / 100
+}
+
 // Shared-merchant invariant: do not merge per-organization processor settings into rails.
 
 // ============================================================================
@@ -589,8 +183,8 @@ async function executeSinglePayout(
   const { data: payout, error: payoutError } = await supabase
     .from('transactions')
     .select(`
-      id, amount, reference_id, description, metadata,
-      entries!inner(account_id, accounts!inner(entity_id, name, metadata))
+      id, amount, currency, reference_id, description, metadata,
+      entries!inner(account_id, accounts!inner(account_type, entity_id, name, metadata))
     `)
     .eq('id', payoutId)
     .eq('ledger_id', ledger.id)
@@ -607,7 +201,7 @@ async function executeSinglePayout(
     }
   }
 
-  const creatorEntry = (payout.entries as any[]).find(e => e.accounts?.entity_id)
+  const creatorEntry = findCreatorEntry(payout.entries as any[])
   if (!creatorEntry) {
     return {
       success: false,
@@ -618,13 +212,32 @@ async function executeSinglePayout(
     }
   }
 
+  // A returned payout means the bank details on file are bad; don't resend to them.
+  const { data: connectedAccount } = await supabase
+    .from('connected_accounts')
+    .select('bank_details_required, last_payout_return_code')
+    .eq('ledger_id', ledger.id)
+    .eq('entity_id', creatorEntry.accounts.entity_id)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (connectedAccount?.bank_details_required) {
+    return {
+      success: false,
+      payout_id: payoutId,
+      rail: 'manual',
+      status: 'failed',
+      error: `Creator must update bank details after a returned payout (${connectedAccount.last_payout_return_code || 'return'})`,
+    }
+  }
+
   const creatorMeta = creatorEntry.accounts.metadata || {}
   const payoutDetails: CreatorPayoutDetails = {
     payout_id: payout.id,
     ledger_id: ledger.id,
     creator_id: creatorEntry.accounts.entity_id,
     creator_name: creatorEntry.accounts.name,
-    amount: payout.amount,
+    amount: getDisbursementAmount(payout),
     currency: (ledger.settings as any)?.currency || 'USD',
     livemode: ledger.livemode,
     payout_method: creatorMeta.payout_method,
@@ -632,7 +245,7 @@ async function executeSinglePayout(
 
   const requestedRail = normalizeRail((rail as string | undefined) || creatorMeta.payout_method?.rail)
   const selectedRail = requestedRail || pickDefaultRail(payoutRails)
-  const railImpl = RAILS[selectedRail]
+  const railImpl = getPaymentRail(selectedRail)
 
   if (!railImpl) {
     return {
@@ -655,8 +268,41 @@ async function executeSinglePayout(
     }
   }
 
+  // A creator-paid fee comes out of the creator's balance after the payout
+  // has already taken its amount, so it must fit in what is left.
+  const feeCurrency = payout.currency || payoutDetails.currency
+  const { fee: railFeeQuote, error: feeError } = await quoteRailFee(
+    supabase, railImpl, railConfig, payoutDetails.amount, feeCurrency,
+  )
+  if (feeError) {
+    return { success: false, payout_id: payoutId, rail: selectedRail, status: 'failed', error: feeError }
+  }
+  if (railFeeQuote?.paid_by === 'creator') {
+    const { data: creatorAccount } = await supabase
+      .from('accounts')
+      .select('balance')
+      .eq('id', creatorEntry.account_id)
+      .maybeSingle()
+
+    if (Number(creatorAccount?.balance ?? 0) < railFeeQuote.amount) {
+      return {
+        success: false,
+        payout_id: payoutId,
+        rail: selectedRail,
+        status: 'failed',
+        error: `Creator balance does not cover the ${selectedRail} rail fee (${railFeeQuote.amount} ${feeCurrency})`,
+      }
+    }
+  }
+
   // Execute
   const result = await railImpl.execute(payoutDetails, railConfig)
+  const railFee = result.success && railFeeQuote
+    ? await recordRailFee(supabase, ledger.id, payoutId, railImpl, railFeeQuote)
+    : null
+  if (railFee) {
+    result.metadata = { ...(result.metadata || {}), rail_fee: railFee }
+  }
 
   // Update transaction
   await supabase
@@ -669,6 +315,7 @@ async function executeSinglePayout(
         rail_status: result.status,
         // SECURITY: Don't store full error in metadata
         rail_error: result.error?.substring(0, 100),
+        ...(railFee ? { rail_fee: railFee } : {}),
       },
     })
     .eq('id', payoutId)
@@ -686,6 +333,7 @@ async function executeSinglePayout(
         rail: selectedRail,
         success: result.success,
         external_id: result.external_id,
+        rail_fee_cents: railFee?.fee_cents ?? 0,
       },
       response_status: result.success ? 200 : 500,
       risk_score: result.success ? 20 : 35,
@@ -739,6 +387,73 @@ const handler = createHandler(
         return jsonResponse(result, result.success ? 200 : 500, req)
       }
 
+      // ================================================================
+      // GET STATUS (poll the rail that executed the payout)
+      // ================================================================
+      case 'get_status': {
+        if (!body.payout_id) {
+          return errorResponse('payout_id required', 400, req)
+        }
+
+        const { data: payoutTx } = await supabase
+          .from('transactions')
+          .select('id, metadata')
+          .eq('id', body.payout_id)
+          .eq('ledger_id', ledger.id)
+          .eq('transaction_type', 'payout')
+          .maybeSingle()
+
+        if (!payoutTx) {
+          return errorResponse('Payout not found', 404, req)
+        }
+
+        const metadata = payoutTx.metadata || {}
+        const railName = normalizeRail(metadata.rail_used)
+        const railImpl = getPaymentRail(railName)
+        const externalId = typeof metadata.external_id === 'string' ? metadata.external_id : null
+
+        // Not executed yet, or a rail that settles out of band.
+        if (!railName || !railImpl || !externalId) {
+          return jsonResponse({
+            success: true,
+            payout_id: payoutTx.id,
+            rail: railName,
+            external_id: externalId,
+            status: metadata.rail_status || 'pending',
+          }, 200, req)
+        }
+
+        const railConfig = payoutRails.find(r => r.rail === railName) || { rail: railName, enabled: true }
+        const result = await railImpl.getStatus(externalId, railConfig)
+        if (!result.success) {
+          return jsonResponse({ ...result, payout_id: payoutTx.id }, 502, req)
+        }
+
+        const prevStatus = String(metadata.rail_status || '')
+        if (prevStatus !== result.status) {
+          await supabase
+            .from('transactions')
+            .update({ metadata: { ...metadata, rail_status: result.status } })
+            .eq('id', payoutTx.id)
+
+          if (result.status === 'completed' || result.status === 'failed') {
+            const eventType = result.status === 'completed' ? 'payout.executed' : 'payout.failed'
+            await supabase.rpc('queue_webhook', {
+              p_ledger_id: ledger.id,
+              p_event_type: eventType,
+              p_payload: {
+                payout_id: payoutTx.id,
+                external_id: externalId,
+                status: result.status,
+                occurred_at: new Date().toISOString(),
+              },
+            })
+          }
+        }
+
+        return jsonResponse({ ...result, payout_id: payoutTx.id }, 200, req)
+      }
+
       // ================================================================
       // BATCH EXECUTE (direct internal calls, no HTTP recursion)
       // ================================================================
@@ -789,8 +504,8 @@ const handler = createHandler(
         const { data: payouts } = await supabase
           .from('transactions')
           .select(`
-            id, amount, reference_id,
-            entries!inner(accounts!inner(entity_id, name, metadata))
+            id, amount, reference_id, metadata,
+            entries!inner(accounts!inner(account_type, entity_id, name, metadata))
           `)
           .in('id', body.payout_ids)
           .eq('ledger_id', ledger.id)
@@ -801,24 +516,40 @@ const handler = createHandler(
         }
 
         const payoutDetails: CreatorPayoutDetails[] = payouts.map(p => {
-          const creatorEntry = (p.entries as any[]).find(e => e.accounts?.entity_id)
+          const creatorEntry = findCreatorEntry(p.entries as any[])
           return {
             payout_id: p.id,
             ledger_id: ledger.id,
             creator_id: creatorEntry?.accounts?.entity_id || '',
             creator_name: creatorEntry?.accounts?.name || '',
-            amount: p.amount,
+            amount: getDisbursementAmount(p),
             currency: (ledger.settings as any)?.currency || 'USD',
             payout_method: creatorEntry?.accounts?.metadata?.payout_method,
           }
         })
 
-        const manualRail = RAILS.manual as ManualBankFileRail
+        const manualRail = getPaymentRail('manual') as ManualBankFileRail
         const railConfig = payoutRails.find(r => r.rail === 'manual') || { rail: 'manual' as PayoutRail, enabled: true }
-        const nachaFile = manualRail.generateNACHAFile(payoutDetails, railConfig)
 
         // SECURITY: Store file in secure bucket instead of returning in response
         const filename = `nacha/${ledger.id}/${Date.now()}_payouts.ach`
+
+        // Reserve trace numbers so the bank's return/NOC files can be matched back
+        let traceNumbers: Record<string, string>
+        try {
+          traceNumbers = await allocateTraceNumbers(
+            supabase,
+            ledger.id,
+            (railConfig.settings?.originating_dfi || '12345678').toString().substring(0, 8),
+            filename,
+            payoutDetails.filter(p => p.payout_method?.bank_account).map(p => p.payout_id),
+          )
+        } catch (err) {
+          console.error(err)
+          return errorResponse('Failed to generate batch file', 500, req)
+        }
+
+        const nachaFile = manualRail.generateNACHAFile(payoutDetails, railConfig, traceNumbers)
         const encoder = new TextEncoder()
         const fileData = encoder.encode(nachaFile)
 
@@ -832,6 +563,7 @@ const handler = createHandler(
 
         if (uploadError) {
           console.error('Failed to upload NACHA file:', uploadError)
+          await releaseTraceNumbers(supabase, ledger.id, filename)
           return errorResponse('Failed to generate batch file', 500, req)
         }
 
@@ -881,14 +613,60 @@ const handler = createHandler(
         }, 200, req)
       }
 
+      // ================================================================
+      // IMPORT BANK RETURN / ACKNOWLEDGMENT FILE
+      // ================================================================
+      case 'import_return_file': {
+        if (typeof body.file_content !== 'string' || !body.file_content.trim()) {
+          return errorResponse('file_content required', 400, req)
+        }
+
+        const fileType = normalizeNachaFileType(body.file_type ?? 'return')
+        if (!fileType) {
+          return errorResponse('file_type must be return or acknowledgment', 400, req)
+        }
+
+        const result = await ingestNachaFile(supabase, ledger.id, body.file_content, fileType)
+        if (!result.ok) {
+          return errorResponse(result.error, result.status, req)
+        }
+
+        const { ok: _ok, ...summary } = result
+
+        await createAuditLog(
+          supabase,
+          req,
+          {
+            ledger_id: ledger.id,
+            action: 'nacha_file_imported',
+            entity_type: 'payout_batch',
+            actor_type: 'api',
+            request_body: {
+              file_type: fileType,
+              entry_count: summary.entry_count,
+              counts: summary.counts,
+            },
+            response_status: 200,
+            risk_score: 30,
+          },
+          requestId,
+        )
+
+        return jsonResponse({ success: true, ...summary }, 200, req)
+      }
+
       // ================================================================
       // LIST AVAILABLE RAILS
       // ================================================================
       case 'list_rails': {
-        const availableRails = Object.keys(RAILS).map(rail => ({
-          rail,
-          configured: !!payoutRails.find(r => r.rail === rail && r.enabled),
-        }))
+        const availableRails = listPaymentRails().map(railImpl => {
+          const railConfig = payoutRails.find(r => r.rail === railImpl.name)
+          return {
+            rail: railImpl.name,
+            configured: !!railConfig?.enabled,
+            fee_schedule: resolveFeeSchedule(railImpl, railConfig || { rail: railImpl.name, enabled: false }),
+          }
+        })
 
         return jsonResponse({
           success: true,
@@ -905,18 +683,21 @@ const handler = createHandler(
           return errorResponse('rail_config required', 400, req)
         }
 
-        const railImpl = RAILS[body.rail_config.rail]
-        if (!railImpl) {
+        const railName = normalizeRail(body.rail_config.rail)
+        const railImpl = getPaymentRail(railName)
+        if (!railName || !railImpl) {
           return errorResponse(`Unknown rail: ${body.rail_config.rail}`, 400, req)
         }
 
-        const validation = railImpl.validateConfig(body.rail_config)
-        if (!validation.valid) {
-          return errorResponse(`Invalid config: ${validation.errors.join(', ')}`, 400, req)
+        const railConfig: RailConfig = { ...body.rail_config, rail: railName }
+        const validation = railImpl.validateConfig(railConfig)
+        const configErrors = [...validation.errors, ...validateFeeSchedule(railConfig.settings?.fee_schedule)]
+        if (configErrors.length > 0) {
+          return errorResponse(`Invalid config: ${configErrors.join(', ')}`, 400, req)
         }
 
-        const existingRails = rawPayoutRails.filter(r => r.rail !== body.rail_config!.rail)
-        existingRails.push(body.rail_config)
+        const existingRails = rawPayoutRails.filter(r => r.rail !== railName)
+        existingRails.push(railConfig)
 
         await supabase
           .from('ledgers')
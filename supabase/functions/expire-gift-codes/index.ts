@@ -0,0 +1,136 @@
+// Soledgic Edge Function: Expire Gift Codes
+// POST /expire-gift-codes
+// Marks active gift cards and promo codes past their expires_at as expired
+// and books the unredeemed gift card value from gift card liability to
+// breakage revenue. Promo codes carry no liability and post nothing.
+// Designed to run on a schedule (e.g. hourly via cron).
+//
+// Security:
+// - Requires Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY> or x-cron-secret
+// - Does NOT use createHandler (no ledger-key auth — this is a global job)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCorsHeaders, timingSafeEqual } from '../_shared/utils.ts'
+
+interface ExpireGiftCodesRequest {
+  limit?: number     // Max codes to expire (default 500)
+  dry_run?: boolean
+}
+
+function parseBearerToken(authHeader: string | null): string | null {
+  if (!authHeader) return null
+  const trimmed = authHeader.trim()
+  if (!trimmed.toLowerCase().startsWith('bearer ')) return null
+  const token = trimmed.slice('bearer '.length).trim()
+  return token.length > 0 ? token : null
+}
+
+function isAuthorizedCronRequest(req: Request, serviceRoleKey: string, cronSecret: string | undefined): boolean {
+  const bearer = parseBearerToken(req.headers.get('authorization'))
+  if (bearer && timingSafeEqual(bearer, serviceRoleKey)) {
+    return true
+  }
+
+  const providedCronSecret = (req.headers.get('x-cron-secret') || '').trim()
+  if (cronSecret && providedCronSecret && timingSafeEqual(providedCronSecret, cronSecret)) {
+    return true
+  }
+
+  return false
+}
+
+function jsonResponse(req: Request, body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'content-type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: getCorsHeaders(req) })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(req, { success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const serviceRoleKey = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').trim()
+  if (!serviceRoleKey) {
+    return jsonResponse(req, { success: false, error: 'Server misconfigured' }, 500)
+  }
+
+  if (!isAuthorizedCronRequest(req, serviceRoleKey, Deno.env.get('CRON_SECRET'))) {
+    return jsonResponse(req, { success: false, error: 'Unauthorized' }, 401)
+  }
+
+  let body: ExpireGiftCodesRequest = {}
+  try {
+    body = await req.json()
+  } catch {
+    // empty body is fine — defaults apply
+  }
+
+  const limit = Math.min(Math.max(Math.floor(body.limit ?? 500), 1), 5000)
+  const dryRun = body.dry_run === true
+  const requestId = crypto.randomUUID()
+  const asOf = new Date().toISOString()
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  )
+
+  if (dryRun) {
+    const { data: due, error: dueError } = await supabase
+      .from('gift_codes')
+      .select('ledger_id, kind, remaining_value')
+      .eq('status', 'active')
+      .lte('expires_at', asOf)
+      .limit(limit)
+
+    if (dueError) {
+      console.error(`[${requestId}] Failed to list expiring gift codes:`, dueError)
+      return jsonResponse(req, { success: false, error: 'Failed to list expiring gift codes' }, 500)
+    }
+
+    const codes = due || []
+    return jsonResponse(req, {
+      success: true,
+      dry_run: true,
+      due: codes.length,
+      breakage_amount: Math.round(codes.reduce(
+        (sum, code) => sum + (code.kind === 'gift_card' ? Number(code.remaining_value || 0) : 0),
+        0,
+      ) * 100) / 100,
+      ledgers: Array.from(new Set(codes.map((code) => code.ledger_id))).length,
+    })
+  }
+
+  const { data, error } = await supabase.rpc('expire_gift_codes', {
+    p_as_of: asOf,
+    p_limit: limit,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to expire gift codes:`, error)
+    return jsonResponse(req, { success: false, error: 'Failed to expire gift codes' }, 500)
+  }
+
+  const expired = (data || []) as Array<{ out_code_id: string; out_ledger_id: string; out_kind: string; out_transaction_id: string | null; out_amount: number }>
+  const breakage = expired.filter((row) => row.out_transaction_id)
+
+  return jsonResponse(req, {
+    success: true,
+    expired: expired.length,
+    breakage_recognized: breakage.length,
+    breakage_amount: Math.round(breakage.reduce((sum, row) => sum + Number(row.out_amount), 0) * 100) / 100,
+    breakage: breakage.map((row) => ({
+      code_id: row.out_code_id,
+      ledger_id: row.out_ledger_id,
+      transaction_id: row.out_transaction_id,
+      amount: Number(row.out_amount),
+    })),
+  })
+})
@@ -12,11 +12,12 @@ import {
   getClientIp,
   LedgerContext
 } from '../_shared/utils.ts'
+import { buildSalesTaxLiabilityReport } from '../_shared/sales-tax-service.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 interface ExportRequest {
   report_type: 'transaction_detail' | 'creator_earnings' | 'platform_revenue' | 
-               'payout_summary' | 'reconciliation' | 'audit_log'
+               'payout_summary' | 'reconciliation' | 'audit_log' | 'sales_tax_liability'
   format: 'csv' | 'json'
   start_date?: string
   end_date?: string
@@ -24,7 +25,7 @@ interface ExportRequest {
 }
 
 const VALID_REPORT_TYPES = ['transaction_detail', 'creator_earnings', 'platform_revenue', 
-                           'payout_summary', 'reconciliation', 'audit_log']
+                           'payout_summary', 'reconciliation', 'audit_log', 'sales_tax_liability']
 
 function getSaleAmounts(metadata: unknown, fallbackGrossAmount: number) {
   const meta = metadata && typeof metadata === 'object' && !Array.isArray(metadata)
@@ -235,6 +236,29 @@ const handler = createHandler(
         columns = ['id', 'action', 'entity_type', 'entity_id', 'actor_type', 'actor_id', 'ip_address', 'created_at']
         break
       }
+
+      case 'sales_tax_liability': {
+        // A filing period needs both ends; default to the current month.
+        const now = new Date()
+        const periodStart = startDate || new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().split('T')[0]
+        const periodEnd = endDate || now.toISOString().split('T')[0]
+
+        const result = await buildSalesTaxLiabilityReport(supabase, ledger.id, periodStart, periodEnd)
+        if (!result.ok) {
+          return errorResponse(result.error, 500, req)
+        }
+
+        data = result.report.jurisdictions.map(j => ({
+          period_start: periodStart,
+          period_end: periodEnd,
+          ...j
+        }))
+
+        columns = ['period_start', 'period_end', 'jurisdiction_code', 'jurisdiction_name', 'tax_type', 'currency',
+                   'taxable_sales_count', 'taxable_sales', 'tax_collected', 'exempt_sales_count', 'exempt_sales',
+                   'reverse_charge_sales', 'refund_count', 'refunded_sales', 'tax_refunded', 'net_tax_due']
+        break
+      }
     }
 
     // Record the export
@@ -0,0 +1,104 @@
+// SERVICE_ID: SVC_FIXED_ASSETS_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  createFixedAssetResponse,
+  disposeFixedAssetResponse,
+  getDepreciationScheduleResponse,
+  getFixedAssetResponse,
+  listFixedAssetsResponse,
+} from '../_shared/fixed-asset-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'fixed-assets', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'fixed-assets')
+
+    if (segments.length === 0) {
+      if (req.method === 'GET') {
+        const url = new URL(req.url)
+        const status = url.searchParams.get('status')
+        const category = url.searchParams.get('category')
+        const limit = getNumberParam(url, 'limit')
+
+        const response = await listFixedAssetsResponse(req, supabase, ledger, {
+          ...(status ? { status } : {}),
+          ...(category ? { category } : {}),
+          ...(limit !== undefined ? { limit } : {}),
+        }, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        if (ledger.status !== 'active') {
+          return errorResponse('Ledger is not active', 403, req, requestId)
+        }
+
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await createFixedAssetResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1 && segments[0] === 'schedule') {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const url = new URL(req.url)
+      const startDate = url.searchParams.get('start_date')
+      const endDate = url.searchParams.get('end_date')
+
+      const response = await getDepreciationScheduleResponse(req, supabase, ledger, {
+        ...(startDate ? { start_date: startDate } : {}),
+        ...(endDate ? { end_date: endDate } : {}),
+      }, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 1) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await getFixedAssetResponse(req, supabase, ledger, segments[0], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 2 && segments[1] === 'dispose') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+      if (ledger.status !== 'active') {
+        return errorResponse('Ledger is not active', 403, req, requestId)
+      }
+
+      const payload = asJsonObject(body) || {}
+      const response = await disposeFixedAssetResponse(req, supabase, ledger, segments[0], payload, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
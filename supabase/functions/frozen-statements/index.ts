@@ -2,6 +2,9 @@
 // Soledgic Edge Function: Frozen Statements
 // POST /frozen-statements
 // Generate and retrieve read-only financial statements for locked periods
+// Statements are versioned by the period's close_version: generating after a
+// reopen and re-close adds a new version and keeps the earlier ones, with
+// their integrity hashes, for comparison
 // MIGRATED TO createHandler
 
 import { 
@@ -12,18 +15,24 @@ import {
   getClientIp,
   LedgerContext
 } from '../_shared/utils.ts'
+import { buildSalesTaxLiabilityReport } from '../_shared/sales-tax-service.ts'
+import { getDeferredRevenueSummary } from '../_shared/revenue-recognition-service.ts'
 
 type Action = 'generate' | 'get' | 'list' | 'verify'
-type StatementType = 'profit_loss' | 'balance_sheet' | 'trial_balance' | 'cash_flow'
+type StatementType = 'profit_loss' | 'balance_sheet' | 'trial_balance' | 'cash_flow' | 'sales_tax_liability'
 
 interface FrozenStatementRequest {
   action: Action
   period_id?: string
   statement_type?: StatementType
+  version?: number
 }
 
 const VALID_ACTIONS = ['generate', 'get', 'list', 'verify']
-const VALID_STATEMENT_TYPES = ['profit_loss', 'balance_sheet', 'trial_balance', 'cash_flow']
+const VALID_STATEMENT_TYPES = ['profit_loss', 'balance_sheet', 'trial_balance', 'cash_flow', 'sales_tax_liability']
+const REVENUE_TYPES = ['revenue', 'platform_revenue', 'other_income']
+const EXPENSE_TYPES = ['expense', 'processing_fees', 'cost_of_goods']
+const EQUITY_TYPES = ['equity', 'owner_equity', 'retained_earnings']
 
 async function generateHash(data: any): Promise<string> {
   const json = JSON.stringify(data, Object.keys(data).sort())
@@ -76,16 +85,19 @@ const handler = createHandler(
           .eq('is_active', true)
 
         const accountBalances: any[] = []
+        const periodActivity: any[] = []
         let totalDebits = 0, totalCredits = 0
-        let totalAssets = 0, totalLiabilities = 0, totalEquity = 0
+        let totalAssets = 0, totalLiabilities = 0, totalEquity = 0, retainedEarnings = 0
         let totalRevenue = 0, totalExpenses = 0
+        // Income left in revenue/expense accounts; zero for fiscal years already closed
+        let unclosedIncome = 0
 
         // Batch fetch all entries for all accounts (avoid N+1)
         const accountIds = (accounts || []).map((a) => a.id)
         const { data: allEntries } = accountIds.length > 0
           ? await supabase
               .from('entries')
-              .select('account_id, entry_type, amount, transactions!inner(created_at, status)')
+              .select('account_id, entry_type, amount, transactions!inner(created_at, status, transaction_type)')
               .in('account_id', accountIds)
               .not('transactions.status', 'in', '("voided","reversed")')
               .lte('transactions.created_at', period.period_end + 'T23:59:59')
@@ -102,9 +114,18 @@ const handler = createHandler(
           const entries = entriesByAccount.get(account.id) || []
 
           let debits = 0, credits = 0
+          // P&L covers the period itself, without the entries that closed a fiscal year
+          let periodDebits = 0, periodCredits = 0
           for (const e of entries) {
-            if (e.entry_type === 'debit') debits += Number(e.amount)
-            else credits += Number(e.amount)
+            const tx = e.transactions as any
+            const inPeriod = tx.created_at >= period.period_start && tx.transaction_type !== 'fiscal_year_close'
+            if (e.entry_type === 'debit') {
+              debits += Number(e.amount)
+              if (inPeriod) periodDebits += Number(e.amount)
+            } else {
+              credits += Number(e.amount)
+              if (inPeriod) periodCredits += Number(e.amount)
+            }
           }
 
           const netBalance = debits - credits
@@ -124,19 +145,46 @@ const handler = createHandler(
 
             if (['cash', 'accounts_receivable', 'inventory', 'fixed_asset'].includes(account.account_type)) {
               totalAssets += Math.abs(netBalance)
-            } else if (['accounts_payable', 'creator_balance', 'credit_card', 'reserve'].includes(account.account_type)) {
+            } else if (account.account_type === 'accumulated_depreciation') {
+              // Contra-asset: its credit balance reduces total assets
+              totalAssets += netBalance
+            } else if (['accounts_payable', 'creator_balance', 'credit_card', 'reserve', 'unearned_revenue', 'gift_card_liability'].includes(account.account_type)) {
               totalLiabilities += Math.abs(netBalance)
-            } else if (['equity', 'retained_earnings'].includes(account.account_type)) {
-              totalEquity += netBalance
-            } else if (['revenue', 'platform_revenue', 'other_income'].includes(account.account_type)) {
-              totalRevenue += Math.abs(netBalance)
-            } else if (['expense', 'processing_fees', 'cost_of_goods'].includes(account.account_type)) {
-              totalExpenses += Math.abs(netBalance)
+            } else if (EQUITY_TYPES.includes(account.account_type)) {
+              // Equity is credit-normal
+              totalEquity -= netBalance
+              if (account.account_type === 'retained_earnings') retainedEarnings -= netBalance
+            } else if (REVENUE_TYPES.includes(account.account_type) || EXPENSE_TYPES.includes(account.account_type)) {
+              unclosedIncome -= netBalance
+            }
+          }
+
+          if (periodDebits > 0 || periodCredits > 0) {
+            const periodBalance = periodDebits - periodCredits
+            if (REVENUE_TYPES.includes(account.account_type)) {
+              totalRevenue += Math.abs(periodBalance)
+            } else if (EXPENSE_TYPES.includes(account.account_type)) {
+              totalExpenses += Math.abs(periodBalance)
+            } else {
+              continue
             }
+            periodActivity.push({
+              account_id: account.id,
+              name: account.name,
+              type: account.account_type,
+              debits: Math.round(periodDebits * 100) / 100,
+              credits: Math.round(periodCredits * 100) / 100,
+              balance: Math.round(periodBalance * 100) / 100
+            })
           }
         }
 
         const netIncome = totalRevenue - totalExpenses
+        // Earlier income, whether closed into retained_earnings or not yet closed
+        const retainedEarningsTotal = retainedEarnings + unclosedIncome - netIncome
+        const totalEquityWithIncome = totalEquity + unclosedIncome
+        // Revenue above is what was recognized; this is what is still owed to buyers
+        const deferredRevenue = await getDeferredRevenueSummary(supabase, ledger.id, period.period_start, period.period_end)
         const generatedAt = new Date().toISOString()
 
         const trialBalanceData = {
@@ -153,9 +201,10 @@ const handler = createHandler(
           period: { start: period.period_start, end: period.period_end },
           business: ledger.business_name,
           generated_at: generatedAt,
-          revenue: { items: accountBalances.filter(a => ['revenue', 'platform_revenue', 'other_income'].includes(a.type)), total: Math.round(totalRevenue * 100) / 100 },
-          expenses: { items: accountBalances.filter(a => ['expense', 'processing_fees', 'cost_of_goods'].includes(a.type)), total: Math.round(totalExpenses * 100) / 100 },
-          net_income: Math.round(netIncome * 100) / 100
+          revenue: { items: periodActivity.filter(a => REVENUE_TYPES.includes(a.type)), total: Math.round(totalRevenue * 100) / 100 },
+          expenses: { items: periodActivity.filter(a => EXPENSE_TYPES.includes(a.type)), total: Math.round(totalExpenses * 100) / 100 },
+          net_income: Math.round(netIncome * 100) / 100,
+          ...(deferredRevenue ? { deferred_revenue: deferredRevenue } : {})
         }
 
         const balanceSheetData = {
@@ -163,23 +212,78 @@ const handler = createHandler(
           as_of: period.period_end,
           business: ledger.business_name,
           generated_at: generatedAt,
-          assets: { items: accountBalances.filter(a => ['cash', 'accounts_receivable', 'inventory', 'fixed_asset'].includes(a.type)), total: Math.round(totalAssets * 100) / 100 },
-          liabilities: { items: accountBalances.filter(a => ['accounts_payable', 'creator_balance', 'credit_card', 'reserve'].includes(a.type)), total: Math.round(totalLiabilities * 100) / 100 },
-          equity: { retained_earnings: Math.round(netIncome * 100) / 100, total: Math.round((totalEquity + netIncome) * 100) / 100 },
-          balanced: Math.abs(totalAssets - totalLiabilities - totalEquity - netIncome) < 0.01
+          assets: { items: accountBalances.filter(a => ['cash', 'accounts_receivable', 'inventory', 'fixed_asset', 'accumulated_depreciation'].includes(a.type)), total: Math.round(totalAssets * 100) / 100 },
+          liabilities: {
+            items: accountBalances.filter(a => ['accounts_payable', 'creator_balance', 'credit_card', 'reserve', 'unearned_revenue', 'gift_card_liability'].includes(a.type)),
+            deferred_revenue: Math.round(accountBalances.filter(a => a.type === 'unearned_revenue').reduce((sum, a) => sum - a.balance, 0) * 100) / 100,
+            total: Math.round(totalLiabilities * 100) / 100
+          },
+          equity: {
+            retained_earnings: Math.round(retainedEarningsTotal * 100) / 100,
+            current_period_net_income: Math.round(netIncome * 100) / 100,
+            total: Math.round(totalEquityWithIncome * 100) / 100
+          },
+          balanced: Math.abs(totalAssets - totalLiabilities - totalEquityWithIncome) < 0.01
+        }
+
+        const salesTax = await buildSalesTaxLiabilityReport(supabase, ledger.id, period.period_start, period.period_end)
+        if (!salesTax.ok) {
+          return errorResponse(salesTax.error, 500, req, requestId)
+        }
+
+        const salesTaxData = {
+          statement_type: 'sales_tax_liability',
+          period: salesTax.report.period,
+          business: ledger.business_name,
+          generated_at: generatedAt,
+          jurisdictions: salesTax.report.jurisdictions,
+          totals: salesTax.report.totals
         }
 
-        const [trialBalanceHash, profitLossHash, balanceSheetHash] = await Promise.all([
+        const version = Number(period.close_version) || 1
+
+        // Hashes from the most recent earlier close, if the period was reopened
+        const { data: earlierStatements } = await supabase
+          .from('frozen_statements')
+          .select('statement_type, version, integrity_hash')
+          .eq('ledger_id', ledger.id)
+          .eq('period_id', periodId)
+          .lt('version', version)
+          .order('version', { ascending: false })
+
+        const previousVersion = earlierStatements?.[0]?.version ?? null
+        const previousHashes = new Map<string, string>()
+        for (const stmt of earlierStatements || []) {
+          if (stmt.version === previousVersion) previousHashes.set(stmt.statement_type, stmt.integrity_hash)
+        }
+
+        const [trialBalanceHash, profitLossHash, balanceSheetHash, salesTaxHash] = await Promise.all([
           generateHash(trialBalanceData),
           generateHash(profitLossData),
-          generateHash(balanceSheetData)
+          generateHash(balanceSheetData),
+          generateHash(salesTaxData)
         ])
 
         await supabase.from('frozen_statements').upsert([
-          { ledger_id: ledger.id, period_id: periodId, statement_type: 'trial_balance', statement_data: trialBalanceData, integrity_hash: trialBalanceHash, generated_at: generatedAt },
-          { ledger_id: ledger.id, period_id: periodId, statement_type: 'profit_loss', statement_data: profitLossData, integrity_hash: profitLossHash, generated_at: generatedAt },
-          { ledger_id: ledger.id, period_id: periodId, statement_type: 'balance_sheet', statement_data: balanceSheetData, integrity_hash: balanceSheetHash, generated_at: generatedAt }
-        ], { onConflict: 'ledger_id,period_id,statement_type' })
+          { ledger_id: ledger.id, period_id: periodId, statement_type: 'trial_balance', statement_data: trialBalanceData, integrity_hash: trialBalanceHash, generated_at: generatedAt, version },
+          { ledger_id: ledger.id, period_id: periodId, statement_type: 'profit_loss', statement_data: profitLossData, integrity_hash: profitLossHash, generated_at: generatedAt, version },
+          { ledger_id: ledger.id, period_id: periodId, statement_type: 'balance_sheet', statement_data: balanceSheetData, integrity_hash: balanceSheetHash, generated_at: generatedAt, version },
+          { ledger_id: ledger.id, period_id: periodId, statement_type: 'sales_tax_liability', statement_data: salesTaxData, integrity_hash: salesTaxHash, generated_at: generatedAt, version }
+        ], { onConflict: 'ledger_id,period_id,statement_type,version' })
+
+        if (previousVersion !== null) {
+          await supabase
+            .from('frozen_statements')
+            .update({ superseded_at: generatedAt })
+            .eq('ledger_id', ledger.id)
+            .eq('period_id', periodId)
+            .lt('version', version)
+            .is('superseded_at', null)
+        }
+
+        const compare = (type: string, hash: string) => previousHashes.has(type)
+          ? { previous_hash: previousHashes.get(type), changed: previousHashes.get(type) !== hash }
+          : {}
 
         await supabase.from('audit_log').insert({
           ledger_id: ledger.id,
@@ -189,17 +293,24 @@ const handler = createHandler(
           actor_type: 'api',
           ip_address: getClientIp(req),
           request_id: requestId,
-          request_body: { hashes: { trial_balance: trialBalanceHash, profit_loss: profitLossHash, balance_sheet: balanceSheetHash } }
+          request_body: {
+            version,
+            previous_version: previousVersion,
+            hashes: { trial_balance: trialBalanceHash, profit_loss: profitLossHash, balance_sheet: balanceSheetHash, sales_tax_liability: salesTaxHash }
+          }
         })
 
         return jsonResponse({
           success: true,
           message: 'Frozen statements generated',
           period_id: periodId,
+          version,
+          previous_version: previousVersion,
           statements: {
-            trial_balance: { hash: trialBalanceHash, balanced: trialBalanceData.totals.balanced },
-            profit_loss: { hash: profitLossHash, net_income: profitLossData.net_income },
-            balance_sheet: { hash: balanceSheetHash, balanced: balanceSheetData.balanced }
+            trial_balance: { hash: trialBalanceHash, balanced: trialBalanceData.totals.balanced, ...compare('trial_balance', trialBalanceHash) },
+            profit_loss: { hash: profitLossHash, net_income: profitLossData.net_income, ...compare('profit_loss', profitLossHash) },
+            balance_sheet: { hash: balanceSheetHash, balanced: balanceSheetData.balanced, ...compare('balance_sheet', balanceSheetHash) },
+            sales_tax_liability: { hash: salesTaxHash, jurisdictions: salesTaxData.jurisdictions.length, ...compare('sales_tax_liability', salesTaxHash) }
           }
         }, 200, req, requestId)
       }
@@ -211,13 +322,24 @@ const handler = createHandler(
           return errorResponse(`Invalid statement_type: must be one of ${VALID_STATEMENT_TYPES.join(', ')}`, 400, req, requestId)
         }
 
-        const { data: statement } = await supabase
+        if (body.version !== undefined && (!Number.isInteger(body.version) || body.version < 1)) {
+          return errorResponse('Invalid version: must be a positive integer', 400, req, requestId)
+        }
+
+        // Latest version unless an earlier close is asked for
+        let statementQuery = supabase
           .from('frozen_statements')
           .select('*')
           .eq('ledger_id', ledger.id)
           .eq('period_id', periodId)
           .eq('statement_type', body.statement_type)
-          .single()
+
+        if (body.version !== undefined) statementQuery = statementQuery.eq('version', body.version)
+
+        const { data: statement } = await statementQuery
+          .order('version', { ascending: false })
+          .limit(1)
+          .maybeSingle()
 
         if (!statement) {
           return errorResponse('Statement not found', 404, req, requestId)
@@ -231,6 +353,8 @@ const handler = createHandler(
           statement: {
             type: statement.statement_type,
             period_id: statement.period_id,
+            version: statement.version,
+            superseded_at: statement.superseded_at,
             generated_at: statement.generated_at,
             integrity_hash: statement.integrity_hash,
             integrity_valid: integrityValid,
@@ -244,7 +368,7 @@ const handler = createHandler(
       case 'list': {
         let query = supabase
           .from('frozen_statements')
-          .select('id, period_id, statement_type, integrity_hash, generated_at')
+          .select('id, period_id, statement_type, version, superseded_at, integrity_hash, generated_at')
           .eq('ledger_id', ledger.id)
 
         if (body.period_id) {
@@ -274,7 +398,7 @@ const handler = createHandler(
           const currentHash = await generateHash(stmt.statement_data)
           const valid = currentHash === stmt.integrity_hash
           if (!valid) allValid = false
-          results.push({ statement_type: stmt.statement_type, stored_hash: stmt.integrity_hash, computed_hash: currentHash, valid })
+          results.push({ statement_type: stmt.statement_type, version: stmt.version, stored_hash: stmt.integrity_hash, computed_hash: currentHash, valid })
         }
 
         return jsonResponse({ success: true, period_id: periodId, all_valid: allValid, verification_results: results }, 200, req, requestId)
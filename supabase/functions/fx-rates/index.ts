@@ -0,0 +1,99 @@
+// SERVICE_ID: SVC_FX_RATES_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  importFxRatesResponse,
+  listFxRatesResponse,
+  lookupFxRateResponse,
+  pushFxRatesResponse,
+} from '../_shared/fx-rates-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'fx-rates', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'fx-rates')
+    const url = new URL(req.url)
+
+    if (segments.length === 0) {
+      if (req.method === 'GET') {
+        const base = url.searchParams.get('base_currency')
+        const quote = url.searchParams.get('quote_currency')
+        const fromDate = url.searchParams.get('from_date')
+        const toDate = url.searchParams.get('to_date')
+        const limit = getNumberParam(url, 'limit')
+
+        const response = await listFxRatesResponse(req, supabase, ledger, {
+          ...(base ? { base_currency: base } : {}),
+          ...(quote ? { quote_currency: quote } : {}),
+          ...(fromDate ? { from_date: fromDate } : {}),
+          ...(toDate ? { to_date: toDate } : {}),
+          ...(limit !== undefined ? { limit } : {}),
+        }, requestId)
+
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await pushFxRatesResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1 && segments[0] === 'lookup') {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await lookupFxRateResponse(req, supabase, ledger, {
+        from: url.searchParams.get('from') || undefined,
+        to: url.searchParams.get('to') || undefined,
+        date: url.searchParams.get('date') || undefined,
+      }, requestId)
+
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 1 && segments[0] === 'import') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body)
+      if (!payload) {
+        return errorResponse('Invalid JSON body', 400, req, requestId)
+      }
+
+      const response = await importFxRatesResponse(req, supabase, ledger, {
+        format: typeof payload.format === 'string' ? payload.format : undefined,
+        data: payload.data,
+        base_currency: typeof payload.base_currency === 'string' ? payload.base_currency : undefined,
+      }, requestId)
+
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
@@ -0,0 +1,141 @@
+// Soledgic Edge Function: FX Revaluation
+// POST /fx-revaluation  - Revalue open foreign-currency positions as of a date
+// GET  /fx-revaluation  - List past revaluation runs
+// Posts unrealized FX gain/loss against the ledger's functional currency
+
+import {
+  createHandler,
+  jsonResponse,
+  errorResponse,
+  createAuditLogAsync,
+  sanitizeForAudit,
+  LedgerContext
+} from '../_shared/utils.ts'
+import {
+  getFunctionalCurrency,
+  normalizeCurrency,
+  SUPPORTED_CURRENCIES,
+  validateFxRate,
+} from '../_shared/currency.ts'
+import { getFxRateSource } from '../_shared/fx-rates-service.ts'
+
+interface FxRevaluationRequest {
+  as_of_date: string  // YYYY-MM-DD
+  rates?: Record<string, number>  // Functional units per one unit; missing ones come from fx-rates
+}
+
+const handler = createHandler(
+  { endpoint: 'fx-revaluation', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body: FxRevaluationRequest, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const functionalCurrency = getFunctionalCurrency(ledger)
+
+    if (req.method === 'GET') {
+      const url = new URL(req.url)
+      const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || 20, 1), 100)
+
+      const { data: runs, error } = await supabase
+        .from('fx_revaluation_runs')
+        .select('id, as_of_date, functional_currency, rates, transaction_id, unrealized_amount, realized_amount, position_count, created_at')
+        .eq('ledger_id', ledger.id)
+        .order('as_of_date', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Failed to list FX revaluation runs:', error)
+        return errorResponse('Failed to list revaluation runs', 500, req, requestId)
+      }
+
+      return jsonResponse({
+        success: true,
+        functional_currency: functionalCurrency,
+        runs: runs || [],
+      }, 200, req, requestId)
+    }
+
+    if (req.method !== 'POST') {
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    const asOfDate = typeof body.as_of_date === 'string' ? body.as_of_date : ''
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOfDate) || Number.isNaN(Date.parse(asOfDate))) {
+      return errorResponse('Invalid as_of_date. Use YYYY-MM-DD', 400, req, requestId)
+    }
+
+    if (body.rates !== undefined && (!body.rates || typeof body.rates !== 'object' || Array.isArray(body.rates))) {
+      return errorResponse('rates must be an object keyed by currency code', 400, req, requestId)
+    }
+
+    const rates: Record<string, number> = {}
+    for (const [rawCurrency, rawRate] of Object.entries(body.rates || {})) {
+      const currency = normalizeCurrency(rawCurrency)
+      if (!currency) {
+        return errorResponse(`Unsupported currency in rates: ${rawCurrency}`, 400, req, requestId)
+      }
+      if (currency === functionalCurrency) continue
+      const rate = validateFxRate(rawRate)
+      if (rate === null) {
+        return errorResponse(`Invalid rate for ${currency}: must be a positive number`, 400, req, requestId)
+      }
+      rates[currency] = rate
+    }
+
+    // Closing rates not supplied explicitly are taken from the rate table as of
+    // the revaluation date. Positions still without a rate are refused below.
+    const rateSource = getFxRateSource(supabase, ledger)
+    for (const currency of SUPPORTED_CURRENCIES) {
+      if (currency === functionalCurrency || rates[currency] !== undefined) continue
+      const quote = await rateSource.getRate(currency, functionalCurrency, asOfDate)
+      if (quote) rates[currency] = quote.rate
+    }
+
+    const { data, error } = await supabase.rpc('run_fx_revaluation', {
+      p_ledger_id: ledger.id,
+      p_as_of_date: asOfDate,
+      p_rates: rates,
+      p_created_by: 'api',
+    })
+
+    if (error) {
+      const message = error.message || ''
+      if (message.includes('No revaluation rate supplied')) {
+        return errorResponse(message, 422, req, requestId)
+      }
+      if (message.includes('closed period')) {
+        return errorResponse(message, 400, req, requestId)
+      }
+      console.error('FX revaluation failed:', error)
+      return errorResponse('Failed to run FX revaluation', 500, req, requestId)
+    }
+
+    const result = Array.isArray(data) ? data[0] : data
+
+    createAuditLogAsync(supabase, req, {
+      ledger_id: ledger.id,
+      action: 'fx_revaluation',
+      entity_type: 'fx_revaluation_run',
+      entity_id: result?.out_run_id,
+      actor_type: 'api',
+      request_body: sanitizeForAudit({ as_of_date: asOfDate, rates }),
+      response_status: 200,
+      risk_score: 20,
+    }, requestId)
+
+    return jsonResponse({
+      success: true,
+      run_id: result?.out_run_id ?? null,
+      transaction_id: result?.out_transaction_id ?? null,
+      as_of_date: asOfDate,
+      functional_currency: functionalCurrency,
+      rates,
+      unrealized_gain_loss: Number(result?.out_unrealized_amount ?? 0),
+      realized_gain_loss: Number(result?.out_realized_amount ?? 0),
+      positions_revalued: Number(result?.out_position_count ?? 0),
+    }, 200, req, requestId)
+  }
+)
+
+Deno.serve(handler)
@@ -15,9 +15,11 @@ import {
   getClientIp,
   LedgerContext
 } from '../_shared/utils.ts'
+import { buildSalesTaxLiabilityReport } from '../_shared/sales-tax-service.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
-type ReportType = 'creator_statement' | 'profit_loss' | 'balance_sheet' | 'trial_balance' | '1099' | '1099_nec_form' | 'reconciliation_summary'
+type TaxFormReportType = '1099_nec_form' | '1099_misc_form' | '1099_k_form' | '1042_s_form'
+type ReportType = 'creator_statement' | 'profit_loss' | 'balance_sheet' | 'trial_balance' | '1099' | TaxFormReportType | 'reconciliation_summary' | 'sales_tax_liability'
 
 interface PDFRequest {
   report_type: ReportType
@@ -27,7 +29,9 @@ interface PDFRequest {
   end_date?: string
   tax_year?: number
   ledger_id?: string
-  // 1099_nec_form specific
+  // 1099_nec_form / 1099_misc_form / 1099_k_form / 1042_s_form specific
+  document_type?: string
+  form_boxes?: Record<string, number>
   gross_amount?: number
   federal_withholding?: number
   state_withholding?: number
@@ -94,7 +98,198 @@ function generatePDF(content: PDFContent): string {
   return btoa(pdf)
 }
 
-const VALID_REPORT_TYPES = ['creator_statement', 'profit_loss', 'balance_sheet', 'trial_balance', '1099', '1099_nec_form', 'reconciliation_summary']
+// ============================================================================
+// 1099 FORM TEMPLATES
+// ============================================================================
+
+interface TaxFormBox {
+  box: string
+  label: string
+  // amount/count/code/rate read form_boxes; withholding boxes read the document columns
+  source: 'amount' | 'count' | 'code' | 'rate' | 'federal_withholding' | 'state_withholding' | 'blank'
+}
+
+interface TaxFormTemplate {
+  formName: string
+  subtitle: string
+  filePrefix: string
+  primaryBox: string
+  columns: number
+  boxes: TaxFormBox[]
+  // Certificate the recipient's identity comes from (default W-9)
+  recipientCertificate?: string
+}
+
+const MONTH_BOX_LABELS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+const TAX_FORM_TEMPLATES: Record<TaxFormReportType, TaxFormTemplate> = {
+  '1099_nec_form': {
+    formName: 'Form 1099-NEC',
+    subtitle: 'Nonemployee Compensation',
+    filePrefix: '1099_nec',
+    primaryBox: '1',
+    columns: 2,
+    boxes: [
+      { box: '1', label: 'Nonemployee compensation', source: 'amount' },
+      { box: '4', label: 'Federal income tax withheld', source: 'federal_withholding' },
+      { box: '5', label: 'State tax withheld', source: 'state_withholding' },
+      { box: '7', label: "State/Payer's state no.", source: 'blank' },
+    ],
+  },
+  '1099_misc_form': {
+    formName: 'Form 1099-MISC',
+    subtitle: 'Miscellaneous Information',
+    filePrefix: '1099_misc',
+    primaryBox: '2',
+    columns: 2,
+    boxes: [
+      { box: '1', label: 'Rents', source: 'amount' },
+      { box: '2', label: 'Royalties', source: 'amount' },
+      { box: '3', label: 'Other income', source: 'amount' },
+      { box: '4', label: 'Federal income tax withheld', source: 'federal_withholding' },
+      { box: '15', label: 'State tax withheld', source: 'state_withholding' },
+      { box: '16', label: "State/Payer's state no.", source: 'blank' },
+    ],
+  },
+  '1099_k_form': {
+    formName: 'Form 1099-K',
+    subtitle: 'Payment Card and Third Party Network Transactions',
+    filePrefix: '1099_k',
+    primaryBox: '1a',
+    columns: 3,
+    boxes: [
+      { box: '1a', label: 'Gross amount of payment transactions', source: 'amount' },
+      { box: '3', label: 'Number of payment transactions', source: 'count' },
+      { box: '4', label: 'Federal income tax withheld', source: 'federal_withholding' },
+      ...MONTH_BOX_LABELS.map((month, i): TaxFormBox => ({ box: `5${String.fromCharCode(97 + i)}`, label: month, source: 'amount' })),
+      { box: '7', label: "State/Payer's state no.", source: 'blank' },
+      { box: '8', label: 'State income tax withheld', source: 'state_withholding' },
+    ],
+  },
+  '1042_s_form': {
+    formName: 'Form 1042-S',
+    subtitle: "Foreign Person's U.S. Source Income Subject to Withholding",
+    filePrefix: '1042_s',
+    primaryBox: '2',
+    columns: 3,
+    recipientCertificate: 'W-8',
+    boxes: [
+      { box: '1', label: 'Income code', source: 'code' },
+      { box: '2', label: 'Gross income', source: 'amount' },
+      { box: '3', label: 'Chapter indicator', source: 'code' },
+      { box: '3a', label: 'Exemption code', source: 'code' },
+      { box: '3b', label: 'Tax rate', source: 'rate' },
+      { box: '7a', label: 'Federal tax withheld', source: 'federal_withholding' },
+      { box: '10', label: 'Total withholding credit', source: 'federal_withholding' },
+      { box: '13b', label: "Recipient's country code", source: 'blank' },
+      { box: '13e', label: "Recipient's U.S. TIN", source: 'blank' },
+    ],
+  },
+}
+
+const TAX_FORM_COPY_LABELS: Record<string, string> = {
+  a: 'Copy A - For Internal Revenue Service',
+  b: 'Copy B - For Recipient',
+  '1': 'Copy 1 - For State Tax Department',
+  '2': 'Copy 2 - For Payer',
+}
+
+interface TaxFormFields {
+  year: number
+  copyType: string
+  payerName: string
+  recipientId: string
+  boxes: Record<string, number>
+  federalWithholding: number
+  stateWithholding: number
+}
+
+function formatFormAmount(n: number): string {
+  return `$${n.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`
+}
+
+// Single-page 8.5" x 11" (612 x 792 points) layout: header, payer and
+// recipient blocks, then the template's boxes in a grid. Returns base64, so
+// text must stay within Latin-1 (octal escapes for anything else).
+function renderTaxFormPDF(template: TaxFormTemplate, fields: TaxFormFields): string {
+  const lm = 50, formTop = 720, recipientX = 320
+  const copyLabel = TAX_FORM_COPY_LABELS[fields.copyType] || TAX_FORM_COPY_LABELS.b
+  const at = (x: number, y: number) => `1 0 0 1 ${x} ${y} Tm\n`
+
+  let cs = 'BT\n'
+
+  // Title
+  cs += `/F1 14 Tf\n${at(lm, formTop)}(${escapePDF(`${fields.year}  ${template.formName}`)}) Tj\n`
+  cs += `/F1 9 Tf\n${at(lm, formTop - 16)}(${escapePDF(`${template.subtitle} - Draft/Export Form`)}) Tj\n`
+  cs += `/F1 8 Tf\n${at(lm, formTop - 30)}(${escapePDF(copyLabel)}) Tj\n`
+
+  // Payer info block (left side)
+  const payerY = formTop - 70
+  cs += `/F1 8 Tf\n${at(lm, payerY)}(PAYER'S name, street address, city or town, state, and ZIP code) Tj\n`
+  cs += `/F1 10 Tf\n${at(lm, payerY - 14)}(${escapePDF(fields.payerName)}) Tj\n`
+
+  // Recipient info block (right side) - blank per amounts-only philosophy
+  const recipientLines = ["RECIPIENT'S name", '______________________________________', 'Street address', '______________________________________', 'City, state, and ZIP code', '______________________________________', "RECIPIENT'S TIN", '___-__-____']
+  cs += '/F1 8 Tf\n'
+  recipientLines.forEach((line, i) => { cs += `${at(recipientX, payerY - i * 14)}(${escapePDF(line)}) Tj\n` })
+  cs += 'ET\n'
+
+  // Box grid
+  const gap = 10, boxH = template.boxes.length > 8 ? 32 : 40
+  const boxW = (512 - gap * (template.columns - 1)) / template.columns
+  const gridTop = payerY - 130
+  const position = (i: number) => ({
+    x: lm + (i % template.columns) * (boxW + gap),
+    y: gridTop - Math.floor(i / template.columns) * (boxH + gap),
+  })
+
+  cs += 'q\n0.5 w\n'
+  template.boxes.forEach((_, i) => { const p = position(i); cs += `${p.x} ${p.y} ${boxW} ${boxH} re S\n` })
+  cs += 'Q\n'
+
+  cs += 'BT\n'
+  template.boxes.forEach((box, i) => {
+    const p = position(i)
+    let value = '________________'
+    if (box.source === 'amount') value = formatFormAmount(fields.boxes[box.box] ?? 0)
+    else if (box.source === 'count') value = String(Math.round(fields.boxes[box.box] ?? 0))
+    else if (box.source === 'code') value = String(Math.round(fields.boxes[box.box] ?? 0))
+    else if (box.source === 'rate') value = `${(fields.boxes[box.box] ?? 0).toFixed(2)}%`
+    else if (box.source === 'federal_withholding') value = formatFormAmount(fields.federalWithholding)
+    else if (box.source === 'state_withholding') value = formatFormAmount(fields.stateWithholding)
+
+    cs += `/F1 8 Tf\n${at(p.x + 4, p.y + boxH - 10)}(${escapePDF(`${box.box}  ${box.label}`)}) Tj\n`
+    cs += `/F1 ${boxH > 32 ? 12 : 10} Tf\n${at(p.x + 4, p.y + 6)}(${escapePDF(value)}) Tj\n`
+  })
+
+  // Reference ID and footer
+  const footerY = position(template.boxes.length - 1).y - 30
+  cs += `/F1 8 Tf\n${at(lm, footerY)}(Recipient Reference: ${escapePDF(fields.recipientId)}) Tj\n`
+  cs += `/F1 7 Tf\n${at(lm, footerY - 30)}(Generated by Soledgic \\267 ${template.formName.replace('Form ', '')} Draft Form \\267 For official filing, merge with recipient ${template.recipientCertificate || 'W-9'} data) Tj\n`
+  cs += `${at(lm, footerY - 42)}(This is NOT an IRS-filed form. Verify all amounts before filing.) Tj\n`
+  cs += 'ET'
+
+  // Build PDF manually (same pattern as generatePDF)
+  const objects = [
+    `1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj`,
+    `2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj`,
+    `3 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>\nendobj`,
+    `4 0 obj\n<< /Length ${cs.length} >>\nstream\n${cs}\nendstream\nendobj`,
+    `5 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj`
+  ]
+
+  let pdf = '%PDF-1.4\n'; const xrefOffsets: number[] = []
+  for (const obj of objects) { xrefOffsets.push(pdf.length); pdf += obj + '\n' }
+  const xrefStart = pdf.length
+  pdf += 'xref\n'; pdf += `0 ${objects.length + 1}\n`; pdf += '0000000000 65535 f \n'
+  for (const offset of xrefOffsets) pdf += offset.toString().padStart(10, '0') + ' 00000 n \n'
+  pdf += 'trailer\n'; pdf += `<< /Size ${objects.length + 1} /Root 1 0 R >>\n`
+  pdf += 'startxref\n'; pdf += xrefStart + '\n'; pdf += '%%EOF'
+
+  return btoa(pdf)
+}
+
+const VALID_REPORT_TYPES = ['creator_statement', 'profit_loss', 'balance_sheet', 'trial_balance', '1099', '1099_nec_form', '1099_misc_form', '1099_k_form', '1042_s_form', 'reconciliation_summary', 'sales_tax_liability']
 
 // ============================================================================
 // SECURITY FIX: Validate internal service calls properly
@@ -317,119 +512,62 @@ Deno.serve(async (req) => {
         return jsonResponse({ success: true, filename: `1099_summary_${year}.pdf`, content_type: 'application/pdf', data: generatePDF(pdfContent) }, 200, req)
       }
 
-      case '1099_nec_form': {
+      case 'sales_tax_liability': {
+        const now = new Date()
+        const startDate = body.start_date && dateRegex.test(body.start_date) ? body.start_date : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().split('T')[0]
+        const endDate = body.end_date && dateRegex.test(body.end_date) ? body.end_date : now.toISOString().split('T')[0]
+
+        const result = await buildSalesTaxLiabilityReport(supabase, ledgerId, startDate, endDate)
+        if (!result.ok) return errorResponse(result.error, 500, req)
+
+        const formatMoney = (n: number, currency: string) => currency === 'USD' ? formatCurrency(n) : `${currency} ${n.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`
+        const jurisdictionRows = result.report.jurisdictions.map(j => ({
+          label: `${j.jurisdiction_code}${j.jurisdiction_name ? ` ${j.jurisdiction_name}` : ''}: taxable ${formatMoney(j.taxable_sales, j.currency)}, exempt ${formatMoney(j.exempt_sales, j.currency)}, tax refunded ${formatMoney(j.tax_refunded, j.currency)}`,
+          amount: formatMoney(j.net_tax_due, j.currency)
+        }))
+        const totalRows = result.report.totals.flatMap(t => [
+          { label: `Tax Collected (${t.currency})`, amount: formatMoney(t.tax_collected, t.currency) },
+          { label: `Tax Refunded (${t.currency})`, amount: `(${formatMoney(t.tax_refunded, t.currency)})` },
+          { label: `Net Tax Due (${t.currency})`, amount: formatMoney(t.net_tax_due, t.currency), isTotal: true }
+        ])
+
+        const pdfContent: PDFContent = { title: 'Sales Tax Liability', subtitle: 'Net tax due by jurisdiction', businessName: ledgerData.business_name || 'Soledgic', period: `${startDate} to ${endDate}`,
+          sections: [
+            { title: 'JURISDICTIONS', rows: jurisdictionRows.length > 0 ? jurisdictionRows.slice(0, 30) : [{ label: 'No sales in this period', amount: formatCurrency(0) }] },
+            { title: 'SUMMARY', rows: totalRows }
+          ]
+        }
+
+        return jsonResponse({ success: true, filename: `sales_tax_liability_${startDate}_${endDate}.pdf`, content_type: 'application/pdf', data: generatePDF(pdfContent) }, 200, req)
+      }
+
+      case '1099_nec_form':
+      case '1099_misc_form':
+      case '1099_k_form':
+      case '1042_s_form': {
+        const template = TAX_FORM_TEMPLATES[body.report_type]
         const year = body.tax_year && body.tax_year >= 2020 && body.tax_year <= 2100 ? body.tax_year : new Date().getFullYear()
-        const grossAmount = body.gross_amount ?? 0
-        const federalWithholding = body.federal_withholding ?? 0
-        const stateWithholding = body.state_withholding ?? 0
         const recipientId = body.recipient_id || 'N/A'
         const copyType = body.copy_type || 'b'
 
-        const copyLabels: Record<string, string> = {
-          a: 'Copy A \u2014 For Internal Revenue Service',
-          b: 'Copy B \u2014 For Recipient',
-          '1': 'Copy 1 \u2014 For State Tax Department',
-          '2': 'Copy 2 \u2014 For Payer',
-        }
-        const copyLabel = copyLabels[copyType] || copyLabels.b
-
-        // Build 1099-NEC form layout (8.5" x 11" = 612 x 792 points)
-        const lm = 50, rm = 562, formTop = 720
-        let cs = 'BT\n'
-
-        // Title
-        cs += `/F1 14 Tf\n${lm} ${formTop} Td\n(${escapePDF(`${year}  Form 1099-NEC`)}) Tj\n`
-        cs += `/F1 9 Tf\n0 -16 Td\n(Nonemployee Compensation \u2014 Draft/Export Form) Tj\n`
-        cs += `/F1 8 Tf\n0 -14 Td\n(${escapePDF(copyLabel)}) Tj\n`
-
-        // Payer info block (left side)
-        const payerY = formTop - 70
-        cs += `/F1 8 Tf\n${lm} ${payerY} Td\n(PAYER'S name, street address, city or town, state, and ZIP code) Tj\n`
-        cs += `/F1 10 Tf\n0 -14 Td\n(${escapePDF(ledgerData.business_name || 'See attached payer information')}) Tj\n`
-
-        // Recipient info block (right side) — blank per amounts-only philosophy
-        const recipientX = 320
-        cs += `/F1 8 Tf\n${recipientX - lm} 14 Td\n(RECIPIENT'S name) Tj\n`
-        cs += `0 -14 Td\n(______________________________________) Tj\n`
-        cs += `0 -14 Td\n(Street address) Tj\n`
-        cs += `0 -14 Td\n(______________________________________) Tj\n`
-        cs += `0 -14 Td\n(City, state, and ZIP code) Tj\n`
-        cs += `0 -14 Td\n(______________________________________) Tj\n`
-        cs += `0 -14 Td\n(RECIPIENT'S TIN) Tj\n`
-        cs += `0 -14 Td\n(___-__-____) Tj\n`
-
-        cs += 'ET\n'
-
-        // Draw box borders for form fields
-        cs += 'q\n0.5 w\n'
-
-        // Box grid starting position
-        const boxTop = payerY - 130
-        const boxW = 240, boxH = 40, col2X = lm + boxW + 20
-
-        // Box 1: Nonemployee compensation
-        cs += `${lm} ${boxTop} ${boxW} ${boxH} re S\n`
-        // Box 4: Federal income tax withheld
-        cs += `${col2X} ${boxTop} ${boxW} ${boxH} re S\n`
-        // Box 5: State tax withheld
-        const box5Y = boxTop - boxH - 15
-        cs += `${lm} ${box5Y} ${boxW} ${boxH} re S\n`
-        // Box 7: State/Payer's state no.
-        cs += `${col2X} ${box5Y} ${boxW} ${boxH} re S\n`
-
-        cs += 'Q\n'
-
-        // Box labels and values
-        cs += 'BT\n'
-
-        // Box 1
-        cs += `/F1 8 Tf\n${lm + 4} ${boxTop + boxH - 10} Td\n(1  Nonemployee compensation) Tj\n`
-        cs += `/F1 12 Tf\n0 -18 Td\n($ ${escapePDF(formatCurrency(grossAmount))}) Tj\n`
-
-        // Box 4
-        cs += `/F1 8 Tf\n${col2X - lm - 4 + 4} 18 Td\n(4  Federal income tax withheld) Tj\n`
-        cs += `/F1 12 Tf\n0 -18 Td\n($ ${escapePDF(formatCurrency(federalWithholding))}) Tj\n`
-
-        // Box 5
-        const box5LabelY = box5Y + boxH - 10
-        cs += `/F1 8 Tf\n${lm - col2X + 4} ${box5LabelY - (boxTop + boxH - 10) + 18} Td\n(5  State tax withheld) Tj\n`
-        cs += `/F1 12 Tf\n0 -18 Td\n($ ${escapePDF(formatCurrency(stateWithholding))}) Tj\n`
-
-        // Box 7
-        cs += `/F1 8 Tf\n${col2X - lm - 4 + 4} 18 Td\n(7  State/Payer's state no.) Tj\n`
-        cs += `/F1 10 Tf\n0 -18 Td\n(________________) Tj\n`
-
-        // Reference ID
-        cs += `/F1 8 Tf\n${lm - col2X + 4} -40 Td\n(Recipient Reference: ${escapePDF(recipientId)}) Tj\n`
-
-        // Footer
-        cs += `/F1 7 Tf\n0 -30 Td\n(Generated by Soledgic \\267 1099-NEC Draft Form \\267 For official filing, merge with recipient W-9 data) Tj\n`
-        cs += `0 -12 Td\n(This is NOT an IRS-filed form. Verify all amounts before filing.) Tj\n`
-
-        cs += 'ET'
-
-        // Build PDF manually (same pattern as generatePDF)
-        const objects = [
-          `1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj`,
-          `2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj`,
-          `3 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>\nendobj`,
-          `4 0 obj\n<< /Length ${cs.length} >>\nstream\n${cs}\nendstream\nendobj`,
-          `5 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj`
-        ]
-
-        let pdf = '%PDF-1.4\n'; const xrefOffsets: number[] = []
-        for (const obj of objects) { xrefOffsets.push(pdf.length); pdf += obj + '\n' }
-        const xrefStart = pdf.length
-        pdf += 'xref\n'; pdf += `0 ${objects.length + 1}\n`; pdf += '0000000000 65535 f \n'
-        for (const offset of xrefOffsets) pdf += offset.toString().padStart(10, '0') + ' 00000 n \n'
-        pdf += 'trailer\n'; pdf += `<< /Size ${objects.length + 1} /Root 1 0 R >>\n`
-        pdf += 'startxref\n'; pdf += xrefStart + '\n'; pdf += '%%EOF'
+        // Documents generated before form_boxes existed only carry gross_amount
+        const boxes: Record<string, number> = {}
+        for (const [box, value] of Object.entries(body.form_boxes || {})) boxes[box] = Number(value) || 0
+        if (Object.keys(boxes).length === 0) boxes[template.primaryBox] = body.gross_amount ?? 0
 
         return jsonResponse({
           success: true,
-          filename: `1099_nec_${recipientId}_${year}_copy_${copyType}.pdf`,
+          filename: `${template.filePrefix}_${recipientId}_${year}_copy_${copyType}.pdf`,
           content_type: 'application/pdf',
-          data: btoa(pdf),
+          data: renderTaxFormPDF(template, {
+            year,
+            copyType,
+            payerName: ledgerData.business_name || 'See attached payer information',
+            recipientId,
+            boxes,
+            federalWithholding: body.federal_withholding ?? 0,
+            stateWithholding: body.state_withholding ?? 0,
+          }),
         }, 200, req)
       }
 
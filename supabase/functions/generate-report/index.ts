@@ -11,9 +11,10 @@ import {
   getClientIp,
   LedgerContext
 } from '../_shared/utils.ts'
+import { buildSalesTaxLiabilityReport } from '../_shared/sales-tax-service.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
-type ReportType = 'profit_loss' | 'trial_balance' | 'general_ledger' | '1099_summary' | 'creator_earnings' | 'transaction_history' | 'provenance'
+type ReportType = 'profit_loss' | 'trial_balance' | 'general_ledger' | '1099_summary' | 'creator_earnings' | 'transaction_history' | 'provenance' | 'sales_tax_liability'
 
 interface ReportRequest {
   report_type: ReportType
@@ -294,6 +295,22 @@ const handler = createHandler(
         }, 200, req)
       }
 
+      case 'sales_tax_liability': {
+        const result = await buildSalesTaxLiabilityReport(supabase, ledger.id, startDate, endDate)
+        if (!result.ok) {
+          return errorResponse(result.error, 500, req)
+        }
+
+        return jsonResponse({
+          success: true,
+          report: {
+            type: 'sales_tax_liability',
+            business: ledger.business_name,
+            ...result.report
+          }
+        }, 200, req)
+      }
+
       case 'provenance': {
         // Counts by entry_method
         const countsByMethod: Record<string, number> = {}
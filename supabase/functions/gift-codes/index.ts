@@ -0,0 +1,126 @@
+// SERVICE_ID: SVC_GIFT_CODES_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  createGiftCodeBatchResponse,
+  exportGiftCodeBatchResponse,
+  getGiftCodeBatchResponse,
+  listGiftCodeBatchesResponse,
+  redeemGiftCodeResponse,
+  voidGiftCodeBatchResponse,
+  voidGiftCodeResponse,
+} from '../_shared/gift-code-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'gift-codes', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'gift-codes')
+
+    if (segments.length === 1 && segments[0] === 'redeem') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body)
+      if (!payload) {
+        return errorResponse('Invalid JSON body', 400, req, requestId)
+      }
+
+      const response = await redeemGiftCodeResponse(req, supabase, ledger, payload, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments[0] === 'batches') {
+      if (segments.length === 1) {
+        if (req.method === 'GET') {
+          const url = new URL(req.url)
+          const kind = url.searchParams.get('kind')
+          const status = url.searchParams.get('status')
+          const limit = getNumberParam(url, 'limit')
+
+          const response = await listGiftCodeBatchesResponse(req, supabase, ledger, {
+            ...(kind ? { kind } : {}),
+            ...(status ? { status } : {}),
+            ...(limit !== undefined ? { limit } : {}),
+          }, requestId)
+          return respondWithResult(req, requestId, response)
+        }
+
+        if (req.method === 'POST') {
+          const payload = asJsonObject(body)
+          if (!payload) {
+            return errorResponse('Invalid JSON body', 400, req, requestId)
+          }
+
+          const response = await createGiftCodeBatchResponse(req, supabase, ledger, payload, requestId)
+          return respondWithResult(req, requestId, response)
+        }
+
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      if (segments.length === 2) {
+        if (req.method !== 'GET') {
+          return errorResponse('Method not allowed', 405, req, requestId)
+        }
+
+        const response = await getGiftCodeBatchResponse(req, supabase, ledger, segments[1], requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (segments.length === 3 && segments[2] === 'export') {
+        if (req.method !== 'GET') {
+          return errorResponse('Method not allowed', 405, req, requestId)
+        }
+
+        const url = new URL(req.url)
+        const response = await exportGiftCodeBatchResponse(
+          req,
+          supabase,
+          ledger,
+          segments[1],
+          url.searchParams.get('format'),
+          requestId,
+        )
+        return response instanceof Response ? response : respondWithResult(req, requestId, response)
+      }
+
+      if (segments.length === 3 && segments[2] === 'void') {
+        if (req.method !== 'POST') {
+          return errorResponse('Method not allowed', 405, req, requestId)
+        }
+
+        const payload = asJsonObject(body) || {}
+        const response = await voidGiftCodeBatchResponse(req, supabase, ledger, segments[1], payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+    }
+
+    if (segments.length === 3 && segments[0] === 'codes' && segments[2] === 'void') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body) || {}
+      const response = await voidGiftCodeResponse(req, supabase, ledger, segments[1], payload, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
@@ -16,6 +16,12 @@ import {
   listHeldFundsResponse,
   releaseHeldFundsResponse,
 } from '../_shared/holds-service.ts'
+import {
+  deleteCreatorReservePolicyResponse,
+  getCreatorReserveResponse,
+  listCreatorReservesResponse,
+  setCreatorReservePolicyResponse,
+} from '../_shared/creator-reserves-service.ts'
 import { getPaymentProvider } from '../_shared/payment-provider.ts'
 
 const handler = createHandler(
@@ -58,6 +64,43 @@ const handler = createHandler(
       return respondWithResult(req, requestId, response)
     }
 
+    if (segments[0] === 'reserves') {
+      if (segments.length === 1) {
+        if (req.method !== 'GET') {
+          return errorResponse('Method not allowed', 405, req, requestId)
+        }
+
+        const response = await listCreatorReservesResponse(req, supabase, ledger, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (segments.length !== 2) {
+        return errorResponse('Not found', 404, req, requestId)
+      }
+
+      if (req.method === 'GET') {
+        const response = await getCreatorReserveResponse(req, supabase, ledger, segments[1], requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await setCreatorReservePolicyResponse(req, supabase, ledger, segments[1], payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'DELETE') {
+        const response = await deleteCreatorReservePolicyResponse(req, supabase, ledger, segments[1], requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
     if (segments.length === 2 && segments[1] === 'release') {
       if (req.method !== 'POST') {
         return errorResponse('Method not allowed', 405, req, requestId)
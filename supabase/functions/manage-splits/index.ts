@@ -1,7 +1,8 @@
 // SERVICE_ID: SVC_SPLIT_MANAGER
 // Soledgic Edge Function: Manage Splits
 // POST /manage-splits
-// Configure tiers, per-creator rates, per-product rates
+// Configure tiers, per-creator rates, per-product rates, and versioned
+// multi-recipient split rules
 // SECURITY HARDENED VERSION
 
 import {
@@ -10,17 +11,39 @@ import {
   errorResponse,
   LedgerContext,
   validateId,
+  validateString,
   getClientIp
 } from '../_shared/utils.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-type Action = 'list_tiers' | 'get_effective_split' | 'set_creator_split' | 'clear_creator_split' | 'set_product_split' | 'clear_product_split' | 'auto_promote_creators'
+import {
+  getSplitRuleHistory,
+  isSplitRuleScope,
+  validateSplitRecipients,
+} from '../_shared/split-rules-service.ts'
+
+type Action =
+  | 'list_tiers'
+  | 'get_effective_split'
+  | 'set_creator_split'
+  | 'clear_creator_split'
+  | 'set_product_split'
+  | 'clear_product_split'
+  | 'auto_promote_creators'
+  | 'set_split_rule'
+  | 'get_split_rule'
+  | 'list_split_rules'
+  | 'archive_split_rule'
 
 interface ManageSplitsRequest {
   action: Action
   creator_id?: string
   creator_percent?: number
   product_id?: string
+  split_rule_id?: string
+  scope?: string
+  scope_id?: string
+  name?: string
+  recipients?: unknown
 }
 
 const handler = createHandler(
@@ -283,6 +306,135 @@ const handler = createHandler(
         return jsonResponse({ success: true, promoted, message: `${promoted} creators promoted` }, 200, req, requestId)
       }
 
+      case 'set_split_rule': {
+        if (!isSplitRuleScope(body.scope)) {
+          return errorResponse('scope must be product or creator', 400, req, requestId)
+        }
+
+        const scopeId = validateId(body.scope_id, 100)
+        if (!scopeId) {
+          return errorResponse('Invalid scope_id', 400, req, requestId)
+        }
+
+        const { recipients, error: recipientsError } = validateSplitRecipients(body.recipients)
+        if (!recipients) {
+          return errorResponse(recipientsError || 'Invalid recipients', 400, req, requestId)
+        }
+
+        const name = typeof body.name === 'string' ? validateString(body.name, 200) : null
+
+        // Each call appends a version; sales already split keep theirs
+        const { data: created, error: createError } = await supabase.rpc('create_split_rule_version', {
+          p_ledger_id: ledger.id,
+          p_scope: body.scope,
+          p_scope_id: scopeId,
+          p_name: name,
+          p_recipients: recipients,
+        })
+
+        const row = Array.isArray(created) ? created[0] : created
+        if (createError || !row?.out_split_rule_id) {
+          console.error(`[${requestId}] Failed to create split rule version:`, createError)
+          return errorResponse('Failed to save split rule', 500, req, requestId)
+        }
+
+        supabase.from('audit_log').insert({
+          ledger_id: ledger.id,
+          action: 'set_split_rule',
+          entity_type: 'split_rule',
+          entity_id: row.out_split_rule_id,
+          actor_type: 'api',
+          ip_address: getClientIp(req),
+          request_body: { scope: body.scope, scope_id: scopeId, version: row.out_version, recipients }
+        }).then(() => {}).catch(() => {})
+
+        return jsonResponse({
+          success: true,
+          data: {
+            split_rule_id: row.out_split_rule_id,
+            scope: body.scope,
+            scope_id: scopeId,
+            name,
+            version: row.out_version,
+            version_id: row.out_version_id,
+            recipients
+          }
+        }, 200, req, requestId)
+      }
+
+      case 'get_split_rule': {
+        let splitRuleId = body.split_rule_id ? validateId(body.split_rule_id, 100) : null
+        if (!splitRuleId) {
+          const scopeId = body.scope_id ? validateId(body.scope_id, 100) : null
+          if (!isSplitRuleScope(body.scope) || !scopeId) {
+            return errorResponse('split_rule_id or scope and scope_id required', 400, req, requestId)
+          }
+
+          const { data: rule } = await supabase
+            .from('split_rules')
+            .select('id')
+            .eq('ledger_id', ledger.id)
+            .eq('scope', body.scope)
+            .eq('scope_id', scopeId)
+            .maybeSingle()
+          splitRuleId = rule?.id ?? null
+        }
+
+        const history = splitRuleId ? await getSplitRuleHistory(supabase, ledger.id, splitRuleId) : null
+        if (!history) {
+          return errorResponse('Split rule not found', 404, req, requestId)
+        }
+
+        return jsonResponse({ success: true, data: history }, 200, req, requestId)
+      }
+
+      case 'list_split_rules': {
+        let query = supabase
+          .from('split_rules')
+          .select('id, scope, scope_id, name, status, current_version, created_at, updated_at')
+          .eq('ledger_id', ledger.id)
+          .order('created_at', { ascending: false })
+
+        if (isSplitRuleScope(body.scope)) {
+          query = query.eq('scope', body.scope)
+        }
+
+        const { data: rules } = await query
+        return jsonResponse({ success: true, data: rules || [] }, 200, req, requestId)
+      }
+
+      case 'archive_split_rule': {
+        const splitRuleId = body.split_rule_id ? validateId(body.split_rule_id, 100) : null
+        if (!splitRuleId) {
+          return errorResponse('split_rule_id required', 400, req, requestId)
+        }
+
+        // Versions stay so historical sales still resolve the rule they used
+        const { data: archived } = await supabase
+          .from('split_rules')
+          .update({ status: 'archived', updated_at: new Date().toISOString() })
+          .eq('ledger_id', ledger.id)
+          .eq('id', splitRuleId)
+          .select('id')
+          .maybeSingle()
+
+        if (!archived) {
+          return errorResponse('Split rule not found', 404, req, requestId)
+        }
+
+        supabase.from('audit_log').insert({
+          ledger_id: ledger.id,
+          action: 'archive_split_rule',
+          entity_type: 'split_rule',
+          entity_id: splitRuleId,
+          actor_type: 'api',
+          ip_address: getClientIp(req),
+          request_body: { split_rule_id: splitRuleId }
+        }).then(() => {}).catch(() => {})
+
+        return jsonResponse({ success: true, message: 'Split rule archived' }, 200, req, requestId)
+      }
+
       default:
         return errorResponse(`Unknown action: ${body.action}`, 400, req, requestId)
     }
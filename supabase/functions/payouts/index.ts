@@ -8,7 +8,7 @@ import {
   getResourceSegments,
   respondWithResult,
 } from '../_shared/treasury-resource.ts'
-import { processPayoutResponse } from '../_shared/payout-service.ts'
+import { processPayoutResponse, returnPayoutResponse } from '../_shared/payout-service.ts'
 
 const handler = createHandler(
   { endpoint: 'payouts', requireAuth: true, rateLimit: true },
@@ -18,6 +18,22 @@ const handler = createHandler(
     }
 
     const segments = getResourceSegments(req, 'payouts')
+
+    if (segments.length === 2 && segments[1] === 'return') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body) || {}
+      const response = await returnPayoutResponse(req, supabase, ledger, segments[0], {
+        return_code: typeof payload.return_code === 'string' ? payload.return_code : undefined,
+        reason: typeof payload.reason === 'string' ? payload.reason : undefined,
+        returned_at: typeof payload.returned_at === 'string' ? payload.returned_at : undefined,
+      }, requestId)
+
+      return respondWithResult(req, requestId, response)
+    }
+
     if (segments.length !== 0) {
       return errorResponse('Not found', 404, req, requestId)
     }
@@ -0,0 +1,108 @@
+// SERVICE_ID: SVC_PENDING_JOURNALS_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  decidePendingJournalResponse,
+  getPendingJournalResponse,
+  listApprovalPoliciesResponse,
+  listPendingJournalsResponse,
+  retryJournalPostingResponse,
+  upsertApprovalPolicyResponse,
+} from '../_shared/journal-approval-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'pending-journals', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'pending-journals')
+
+    if (segments.length === 0) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const url = new URL(req.url)
+      const status = url.searchParams.get('status')
+      const journalType = url.searchParams.get('journal_type')
+      const limit = getNumberParam(url, 'limit')
+
+      const response = await listPendingJournalsResponse(req, supabase, ledger, {
+        ...(status ? { status } : {}),
+        ...(journalType ? { journal_type: journalType } : {}),
+        ...(limit !== undefined ? { limit } : {}),
+      }, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 1 && segments[0] === 'policies') {
+      if (req.method === 'GET') {
+        const response = await listApprovalPoliciesResponse(req, supabase, ledger, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await upsertApprovalPolicyResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await getPendingJournalResponse(req, supabase, ledger, segments[0], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 2 && (segments[1] === 'approve' || segments[1] === 'reject')) {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body) || {}
+      const response = await decidePendingJournalResponse(
+        req,
+        supabase,
+        ledger,
+        segments[0],
+        segments[1],
+        payload,
+        requestId,
+      )
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 2 && segments[1] === 'post') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await retryJournalPostingResponse(req, supabase, ledger, segments[0], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
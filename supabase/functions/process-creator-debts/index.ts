@@ -0,0 +1,151 @@
+// Soledgic Edge Function: Process Creator Debts
+// POST /process-creator-debts
+// Nets creator earnings against open negative-balance debts for every
+// creator that has one, then writes off debts older than their ledger's
+// negative_balance_write_off_days to bad debt expense.
+// Designed to run on a schedule (e.g. daily via cron).
+//
+// Security:
+// - Requires Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY> or x-cron-secret
+// - Does NOT use createHandler (no ledger-key auth — this is a global job)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCorsHeaders, timingSafeEqual } from '../_shared/utils.ts'
+
+interface CreatorDebtsRequest {
+  limit?: number     // Max creators to recover and debts to write off (default 200)
+  dry_run?: boolean
+}
+
+function parseBearerToken(authHeader: string | null): string | null {
+  if (!authHeader) return null
+  const trimmed = authHeader.trim()
+  if (!trimmed.toLowerCase().startsWith('bearer ')) return null
+  const token = trimmed.slice('bearer '.length).trim()
+  return token.length > 0 ? token : null
+}
+
+function isAuthorizedCronRequest(req: Request, serviceRoleKey: string, cronSecret: string | undefined): boolean {
+  const bearer = parseBearerToken(req.headers.get('authorization'))
+  if (bearer && timingSafeEqual(bearer, serviceRoleKey)) {
+    return true
+  }
+
+  const providedCronSecret = (req.headers.get('x-cron-secret') || '').trim()
+  if (cronSecret && providedCronSecret && timingSafeEqual(providedCronSecret, cronSecret)) {
+    return true
+  }
+
+  return false
+}
+
+function jsonResponse(req: Request, body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'content-type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: getCorsHeaders(req) })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(req, { success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const serviceRoleKey = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').trim()
+  if (!serviceRoleKey) {
+    return jsonResponse(req, { success: false, error: 'Server misconfigured' }, 500)
+  }
+
+  if (!isAuthorizedCronRequest(req, serviceRoleKey, Deno.env.get('CRON_SECRET'))) {
+    return jsonResponse(req, { success: false, error: 'Unauthorized' }, 401)
+  }
+
+  let body: CreatorDebtsRequest = {}
+  try {
+    body = await req.json()
+  } catch {
+    // empty body is fine — defaults apply
+  }
+
+  const limit = Math.min(Math.max(Math.floor(body.limit ?? 200), 1), 1000)
+  const dryRun = body.dry_run === true
+  const requestId = crypto.randomUUID()
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  )
+
+  if (dryRun) {
+    const { data: open, error: openError } = await supabase
+      .from('creator_debts')
+      .select('ledger_id, creator_id, amount, recovered_amount, written_off_amount')
+      .eq('status', 'outstanding')
+      .limit(limit)
+
+    if (openError) {
+      console.error(`[${requestId}] Failed to list creator debts:`, openError)
+      return jsonResponse(req, { success: false, error: 'Failed to list creator debts' }, 500)
+    }
+
+    const debts = open || []
+    return jsonResponse(req, {
+      success: true,
+      dry_run: true,
+      outstanding_debts: debts.length,
+      outstanding_amount: Math.round(debts.reduce(
+        (sum, debt) => sum + Number(debt.amount) - Number(debt.recovered_amount) - Number(debt.written_off_amount),
+        0,
+      ) * 100) / 100,
+      creators: Array.from(new Set(debts.map((debt) => `${debt.ledger_id}:${debt.creator_id}`))).length,
+    })
+  }
+
+  const { data: recovered, error: recoverError } = await supabase.rpc('recover_outstanding_creator_debts', {
+    p_limit: limit,
+  })
+
+  if (recoverError) {
+    console.error(`[${requestId}] Failed to recover creator debts:`, recoverError)
+    return jsonResponse(req, { success: false, error: 'Failed to recover creator debts' }, 500)
+  }
+
+  // Recover first so a creator who has earned enough is not written off
+  const { data: writtenOff, error: writeOffError } = await supabase.rpc('write_off_aged_creator_debts', {
+    p_as_of: new Date().toISOString(),
+    p_limit: limit,
+  })
+
+  if (writeOffError) {
+    console.error(`[${requestId}] Failed to write off aged creator debts:`, writeOffError)
+    return jsonResponse(req, { success: false, error: 'Failed to write off aged creator debts' }, 500)
+  }
+
+  const recoveries = (recovered || []) as Array<{ out_ledger_id: string; out_creator_id: string; out_transaction_id: string; out_amount: number }>
+  const writeOffs = (writtenOff || []) as Array<{ out_debt_id: string; out_ledger_id: string; out_transaction_id: string; out_amount: number }>
+
+  return jsonResponse(req, {
+    success: true,
+    recovered: recoveries.length,
+    recovered_amount: Math.round(recoveries.reduce((sum, row) => sum + Number(row.out_amount), 0) * 100) / 100,
+    written_off: writeOffs.length,
+    written_off_amount: Math.round(writeOffs.reduce((sum, row) => sum + Number(row.out_amount), 0) * 100) / 100,
+    recoveries: recoveries.map((row) => ({
+      ledger_id: row.out_ledger_id,
+      creator_id: row.out_creator_id,
+      transaction_id: row.out_transaction_id,
+      amount: Number(row.out_amount),
+    })),
+    write_offs: writeOffs.map((row) => ({
+      debt_id: row.out_debt_id,
+      ledger_id: row.out_ledger_id,
+      transaction_id: row.out_transaction_id,
+      amount: Number(row.out_amount),
+    })),
+  })
+})
@@ -17,6 +17,11 @@ import {
   type ProcessorWebhookInboxRow,
 } from '../_shared/processor-webhook-adapters.ts'
 import { getCorsHeaders, timingSafeEqual } from '../_shared/utils.ts'
+import { minorUnitFactor } from '../_shared/currency.ts'
+import { openDispute, resolveDispute } from '../_shared/disputes-service.ts'
+import { getPaymentRail, normalizeRail, RailStatus } from '../_shared/payment-rails.ts'
+import { recordPayoutReturn } from '../_shared/payout-service.ts'
+import { postSaleWithSplitRule, resolveSplitRule } from '../_shared/split-rules-service.ts'
 
 function isAuthorized(authHeader: string, serviceRoleKey: string): boolean {
   const expectedAuth = `Bearer ${serviceRoleKey}`
@@ -34,13 +39,6 @@ function json(req: Request, payload: unknown, status = 200) {
   })
 }
 
-function minorUnitFactor(currency: string | null): number {
-  const c = (currency || 'USD').toUpperCase()
-  if (['JPY', 'KRW', 'VND'].includes(c)) return 1
-  if (['BHD', 'IQD', 'JOD', 'KWD', 'OMR', 'TND'].includes(c)) return 1000
-  return 100
-}
-
 function amountToMajorUnits(amountMinorUnits: number, currency: string | null): number {
   const unitMode = (Deno.env.get('PROCESSOR_AMOUNT_UNIT') || 'minor').toLowerCase().trim()
   if (unitMode === 'major') return Number(amountMinorUnits)
@@ -102,10 +100,15 @@ async function queueWebhook(
   })
 }
 
-function mapToPayoutRailStatus(status: NormalizedProcessorEvent['status']): 'pending' | 'processing' | 'completed' | 'failed' {
-  if (status === 'completed') return 'completed'
-  if (status === 'failed') return 'failed'
-  if (status === 'processing') return 'processing'
+function mapToPayoutRailStatus(ev: NormalizedProcessorEvent, railUsed: unknown): RailStatus {
+  // The rail that executed the payout knows its processor's vocabulary
+  // (e.g. instant pushes report SENT once funds land).
+  const rail = getPaymentRail(normalizeRail(typeof railUsed === 'string' ? railUsed : null))
+  if (rail && ev.processor_status) return rail.mapWebhookStatus(ev.processor_status)
+
+  if (ev.status === 'completed') return 'completed'
+  if (ev.status === 'failed') return 'failed'
+  if (ev.status === 'processing') return 'processing'
   return 'pending'
 }
 
@@ -127,7 +130,27 @@ async function handlePayoutUpdate(
 
   if (!payoutTx?.id) return { transactionId: null, webhookQueued: false }
 
-  const nextRailStatus = mapToPayoutRailStatus(ev.status)
+  // A bank return is terminal: reverse the payout and stop tracking rail status.
+  if (payoutTx.metadata?.rail_status === 'returned') {
+    return { transactionId: payoutTx.id, webhookQueued: false }
+  }
+
+  if (ev.return_code) {
+    const returned = await recordPayoutReturn(supabase, ledgerId, payoutTx.id, {
+      return_code: ev.return_code,
+      source: 'webhook',
+      returned_at: ev.occurred_at,
+      metadata: { processor_event_id: ev.source_event_id, external_id: ev.resource_id },
+    })
+    if (!returned.ok) {
+      // Already reversed by another path (manual reversal or an earlier return): nothing to book.
+      if (returned.status === 409) return { transactionId: payoutTx.id, webhookQueued: false }
+      throw new Error(`Payout ${payoutTx.id} return could not be recorded: ${returned.error}`)
+    }
+    return { transactionId: returned.return_transaction_id, webhookQueued: returned.created }
+  }
+
+  const nextRailStatus = mapToPayoutRailStatus(ev, payoutTx.metadata?.rail_used)
   const prevRailStatus = String(payoutTx.metadata?.rail_status || '')
   const shouldQueue = prevRailStatus !== nextRailStatus && (nextRailStatus === 'completed' || nextRailStatus === 'failed')
 
@@ -274,12 +297,35 @@ function disputeActionFromEventType(ev: NormalizedProcessorEvent): 'open' | 'res
   return null
 }
 
+function disputeOutcomeFromEvent(ev: NormalizedProcessorEvent): 'won' | 'lost' | null {
+  const t = (ev.source_event_type || '').toLowerCase()
+  if (t.includes('won')) return 'won'
+  if (t.includes('lost')) return 'lost'
+
+  // Stripe: charge.dispute.closed carries the outcome on data.object.status.
+  // Finix: the embedded dispute carries it on state (WON / LOST).
+  const raw = ev.raw as any
+  const embedded = raw?._embedded && typeof raw._embedded === 'object'
+    ? (Object.values(raw._embedded).find(Array.isArray) as any[] | undefined)?.[0]
+    : null
+  const candidates = [raw?.data?.object?.status, raw?.data?.object?.state, embedded?.state, raw?.state]
+  for (const candidate of candidates) {
+    const value = typeof candidate === 'string' ? candidate.toLowerCase() : ''
+    if (value === 'won') return 'won'
+    if (value === 'lost') return 'lost'
+  }
+  return null
+}
+
+// Dispute bookings stay behind PROCESSOR_WEBHOOK_ENABLE_DISPUTE_HOLDS. A
+// dispute that cannot be booked is reported on the inbox row instead of
+// failing it, so the rest of the event is still processed.
 async function handleDisputeUpdate(
   supabase: any,
   ev: NormalizedProcessorEvent,
-): Promise<{ heldFundId: string | null }> {
+): Promise<{ transactionId: string | null; webhookQueued: boolean; error: string | null }> {
   const enabled = (Deno.env.get('PROCESSOR_WEBHOOK_ENABLE_DISPUTE_HOLDS') || '').toLowerCase().trim() === 'true'
-  if (!enabled) return { heldFundId: null }
+  if (!enabled) return { transactionId: null, webhookQueued: false, error: null }
 
   const ledgerId = ev.ledger_id
   let creatorId = (ev.tags.creator_id || '').trim()
@@ -291,25 +337,56 @@ async function handleDisputeUpdate(
     creatorId = (resolved.creator_id || '').trim()
   }
 
-  if (!ledgerId || !creatorId || !disputeId) return { heldFundId: null }
+  if (!ledgerId || !disputeId) return { transactionId: null, webhookQueued: false, error: null }
 
   const action = disputeActionFromEventType(ev)
-  if (action !== 'open') return { heldFundId: null }
 
-  const amountMinor = ev.amount_minor_units
-  if (typeof amountMinor !== 'number' || !Number.isFinite(amountMinor) || amountMinor <= 0) return { heldFundId: null }
-  const amountMajor = amountToMajorUnits(amountMinor, ev.currency)
+  if (action === 'open') {
+    const amountMinor = ev.amount_minor_units
+    if (typeof amountMinor !== 'number' || !Number.isFinite(amountMinor) || amountMinor <= 0) {
+      return { transactionId: null, webhookQueued: false, error: null }
+    }
+    const saleReference = ev.tags.soledgic_original_sale_reference || ev.tags.original_sale_reference || null
+    if (!creatorId && !saleReference) return { transactionId: null, webhookQueued: false, error: null }
+
+    const amountCents = Math.round(amountToMajorUnits(amountMinor, ev.currency) * minorUnitFactor(ev.currency))
+    const result = await openDispute(supabase, ledgerId, {
+      external_dispute_id: disputeId,
+      amount_cents: amountCents,
+      sale_reference: saleReference,
+      creator_id: creatorId || null,
+      reason: ev.tags.dispute_reason || (ev.raw as any)?.data?.object?.reason || null,
+      currency: ev.currency,
+      metadata: { processor_event_id: ev.source_event_id },
+    }, 'processor')
+
+    if (!result.ok) {
+      return { transactionId: null, webhookQueued: false, error: `Dispute ${disputeId} could not be recorded: ${result.error}` }
+    }
+    return { transactionId: result.transaction_id, webhookQueued: result.changed, error: null }
+  }
 
-  const { data: result } = await supabase.rpc('apply_dispute_hold', {
-    p_ledger_id: ledgerId,
-    p_creator_id: creatorId,
-    p_dispute_id: disputeId,
-    p_amount: amountMajor,
-    p_source_reference: ev.tags.soledgic_original_sale_reference || ev.tags.original_sale_reference || null,
-  })
+  if (action === 'resolve') {
+    const outcome = disputeOutcomeFromEvent(ev)
+    if (!outcome) return { transactionId: null, webhookQueued: false, error: null }
 
-  const heldFundId = result?.held_fund_id ? String(result.held_fund_id) : null
-  return { heldFundId }
+    const { data: dispute } = await supabase
+      .from('disputes')
+      .select('id')
+      .eq('ledger_id', ledgerId)
+      .eq('external_dispute_id', disputeId)
+      .maybeSingle()
+
+    if (!dispute?.id) return { transactionId: null, webhookQueued: false, error: null }
+
+    const result = await resolveDispute(supabase, ledgerId, dispute.id, outcome)
+    if (!result.ok) {
+      return { transactionId: null, webhookQueued: false, error: `Dispute ${disputeId} outcome could not be recorded: ${result.error}` }
+    }
+    return { transactionId: result.transaction_id, webhookQueued: result.changed, error: null }
+  }
+
+  return { transactionId: null, webhookQueued: false, error: null }
 }
 
 async function upsertProcessorTransaction(
@@ -551,7 +628,9 @@ async function handleChargeCompleted(
   const platformAmountCents = netAfterFee - creatorAmountCents
   const actualSoledgicFee = soledgicFeeCents
 
-  const { data: saleResult, error: saleError } = await supabase.rpc('record_sale_atomic', {
+  // A product or creator split rule divides the sale like record-sale
+  const splitRule = await resolveSplitRule(supabase, ledgerId, { productId, creatorId })
+  const { transaction_id: txId, error: saleError } = await postSaleWithSplitRule(supabase, {
     p_ledger_id: ledgerId,
     p_reference_id: referenceId,
     p_creator_id: creatorId,
@@ -569,7 +648,7 @@ async function handleChargeCompleted(
       source_event_id: ev.source_event_id,
     },
     p_entry_method: 'system',
-  })
+  }, splitRule)
 
   if (saleError) {
     // Duplicate reference means it was already booked (race condition) — not an error
@@ -580,9 +659,6 @@ async function handleChargeCompleted(
     return { transactionId: null, webhookQueued: false }
   }
 
-  const saleRow = Array.isArray(saleResult) ? saleResult[0] : saleResult
-  const txId = saleRow?.out_transaction_id || null
-
   if (txId) {
     console.log(`[inbox] Auto-booked charge ${ev.resource_id} → sale tx=${txId}`)
     await queueWebhook(supabase, ledgerId, 'checkout.completed', {
@@ -688,6 +764,7 @@ Deno.serve(async (req: Request) => {
       }
 
       let linkedTxId: string | null = null
+      let handlerError: string | null = null
 
       if (!dryRun && ev.kind === 'payout') {
         const payout = await handlePayoutUpdate(supabase, ev)
@@ -702,7 +779,10 @@ Deno.serve(async (req: Request) => {
       }
 
       if (!dryRun && ev.kind === 'dispute') {
-        await handleDisputeUpdate(supabase, ev)
+        const dispute = await handleDisputeUpdate(supabase, ev)
+        if (dispute.transactionId) linkedTxId = dispute.transactionId
+        if (dispute.webhookQueued) results.webhooks_queued++
+        handlerError = dispute.error
       }
 
       // ====================================================================
@@ -727,8 +807,9 @@ Deno.serve(async (req: Request) => {
           status: 'processed',
           transaction_id: linkedTxId,
           processed_at: new Date().toISOString(),
+          error_message: handlerError,
         })
-        await markInboxRow(supabase, row.id, { status: 'processed' })
+        await markInboxRow(supabase, row.id, { status: 'processed', error: handlerError })
       }
 
       results.processed++
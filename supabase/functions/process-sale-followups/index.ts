@@ -0,0 +1,113 @@
+// Soledgic Edge Function: Process Sale Follow-ups
+// POST /process-sale-followups
+// Retries the post-commit steps of sales (referral commissions, revenue
+// schedule, creator reserve, creator debt recovery) that failed or never
+// ran after the sale committed. Steps give up after five attempts and are
+// left failed in sale_followups for review.
+// Designed to run on a schedule (e.g. every 15 minutes via cron).
+//
+// Security:
+// - Requires Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY> or x-cron-secret
+// - Does NOT use createHandler (no ledger-key auth — this is a global job)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCorsHeaders, timingSafeEqual } from '../_shared/utils.ts'
+import { retrySaleFollowups } from '../_shared/sale-followups-service.ts'
+
+interface SaleFollowupsRequest {
+  limit?: number     // Max sales to retry (default 100)
+  dry_run?: boolean
+}
+
+function parseBearerToken(authHeader: string | null): string | null {
+  if (!authHeader) return null
+  const trimmed = authHeader.trim()
+  if (!trimmed.toLowerCase().startsWith('bearer ')) return null
+  const token = trimmed.slice('bearer '.length).trim()
+  return token.length > 0 ? token : null
+}
+
+function isAuthorizedCronRequest(req: Request, serviceRoleKey: string, cronSecret: string | undefined): boolean {
+  const bearer = parseBearerToken(req.headers.get('authorization'))
+  if (bearer && timingSafeEqual(bearer, serviceRoleKey)) {
+    return true
+  }
+
+  const providedCronSecret = (req.headers.get('x-cron-secret') || '').trim()
+  if (cronSecret && providedCronSecret && timingSafeEqual(providedCronSecret, cronSecret)) {
+    return true
+  }
+
+  return false
+}
+
+function jsonResponse(req: Request, body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'content-type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: getCorsHeaders(req) })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(req, { success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const serviceRoleKey = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').trim()
+  if (!serviceRoleKey) {
+    return jsonResponse(req, { success: false, error: 'Server misconfigured' }, 500)
+  }
+
+  if (!isAuthorizedCronRequest(req, serviceRoleKey, Deno.env.get('CRON_SECRET'))) {
+    return jsonResponse(req, { success: false, error: 'Unauthorized' }, 401)
+  }
+
+  let body: SaleFollowupsRequest = {}
+  try {
+    body = await req.json()
+  } catch {
+    // empty body is fine — defaults apply
+  }
+
+  const limit = Math.min(Math.max(Math.floor(body.limit ?? 100), 1), 500)
+  const dryRun = body.dry_run === true
+  const requestId = crypto.randomUUID()
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  )
+
+  if (dryRun) {
+    const { data: pending, error: pendingError } = await supabase
+      .from('sale_followups')
+      .select('transaction_id, step')
+      .eq('status', 'pending')
+      .limit(limit)
+
+    if (pendingError) {
+      console.error(`[${requestId}] Failed to list pending sale follow-ups:`, pendingError)
+      return jsonResponse(req, { success: false, error: 'Failed to list pending sale follow-ups' }, 500)
+    }
+
+    const rows = pending || []
+    return jsonResponse(req, {
+      success: true,
+      dry_run: true,
+      pending_steps: rows.length,
+      sales: Array.from(new Set(rows.map((row) => row.transaction_id))).length,
+    })
+  }
+
+  const { error, ...summary } = await retrySaleFollowups(supabase, limit, requestId)
+  if (error) {
+    return jsonResponse(req, { success: false, error }, 500)
+  }
+
+  return jsonResponse(req, { success: true, ...summary })
+})
@@ -1,6 +1,10 @@
 // Soledgic Edge Function: Profit & Loss Report
 // GET /profit-loss
 // Generate P&L statement combining revenue and expenses
+// Revenue is what was recognized in the period; deferred_revenue shows what
+// revenue recognition schedules deferred, released and unwound.
+// An annual report covers the ledger's fiscal year (named by the year it
+// ends in) and leaves out the entries that closed it.
 // MIGRATED TO createHandler
 
 import { 
@@ -11,6 +15,11 @@ import {
   LedgerContext
 } from '../_shared/utils.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  getDeferredRevenueSummary,
+  type DeferredRevenueSummary,
+} from '../_shared/revenue-recognition-service.ts'
+import { fiscalYearBounds, getFiscalYearStartMonth } from '../_shared/fiscal-year-service.ts'
 
 interface MonthlyData {
   month: string
@@ -33,6 +42,7 @@ interface ProfitLossResponse {
     net_revenue: number
     platform_fees_earned: number
   }
+  deferred_revenue?: DeferredRevenueSummary
   expenses?: {
     by_category: Array<{
       code: string
@@ -168,6 +178,7 @@ const handler = createHandler(
     const month = url.searchParams.get('month')
     const quarter = url.searchParams.get('quarter')
     const breakdown = url.searchParams.get('breakdown') === 'monthly'
+    const fiscalYear = fiscalYearBounds(year, getFiscalYearStartMonth(ledger.settings))
     
     let startDate: string, endDate: string
     let periodType: 'annual' | 'quarterly' | 'monthly' | 'custom' = 'annual'
@@ -187,27 +198,32 @@ const handler = createHandler(
       endDate = `${year}-${endMonth.toString().padStart(2, '0')}-${lastDay}`
       periodType = 'quarterly'
     } else {
-      startDate = url.searchParams.get('start_date') || `${year}-01-01`
-      endDate = url.searchParams.get('end_date') || `${year}-12-31`
+      startDate = url.searchParams.get('start_date') || fiscalYear.start_date
+      endDate = url.searchParams.get('end_date') || fiscalYear.end_date
       if (url.searchParams.get('start_date') || url.searchParams.get('end_date')) {
         periodType = 'custom'
       }
     }
 
     const mainPL = await calculatePeriodPL(supabase, ledger.id, startDate, endDate, platformAccount?.id)
+    const deferredRevenue = await getDeferredRevenueSummary(supabase, ledger.id, startDate, endDate)
 
     let monthlyBreakdown: MonthlyData[] | undefined
     if (breakdown) {
       const monthNames = ['January', 'February', 'March', 'April', 'May', 'June',
         'July', 'August', 'September', 'October', 'November', 'December']
       monthlyBreakdown = []
-      for (let m = 1; m <= 12; m++) {
-        const mStart = `${year}-${m.toString().padStart(2, '0')}-01`
-        const lastDay = new Date(year, m, 0).getDate()
-        const mEnd = `${year}-${m.toString().padStart(2, '0')}-${lastDay}`
+      // Walk the twelve months of the fiscal year
+      const [fyStartYear, fyStartMonth] = fiscalYear.start_date.split('-').map(Number)
+      for (let i = 0; i < 12; i++) {
+        const y = fyStartYear + Math.floor((fyStartMonth - 1 + i) / 12)
+        const m = ((fyStartMonth - 1 + i) % 12) + 1
+        const mStart = `${y}-${m.toString().padStart(2, '0')}-01`
+        const lastDay = new Date(y, m, 0).getDate()
+        const mEnd = `${y}-${m.toString().padStart(2, '0')}-${lastDay}`
         const monthPL = await calculatePeriodPL(supabase, ledger.id, mStart, mEnd, platformAccount?.id)
         monthlyBreakdown.push({
-          month: `${year}-${m.toString().padStart(2, '0')}`,
+          month: `${y}-${m.toString().padStart(2, '0')}`,
           month_name: monthNames[m - 1],
           revenue: Math.round(monthPL.netRevenue * 100) / 100,
           expenses: Math.round(monthPL.totalExpenses * 100) / 100,
@@ -256,6 +272,7 @@ const handler = createHandler(
         net_revenue: Math.round(mainPL.netRevenue * 100) / 100,
         platform_fees_earned: Math.round(mainPL.platformFeesEarned * 100) / 100
       },
+      ...(deferredRevenue ? { deferred_revenue: deferredRevenue } : {}),
       expenses: {
         by_category: mainPL.expensesByCategory.map((c: any) => ({ ...c, amount: Math.round(c.amount * 100) / 100 })),
         total: Math.round(mainPL.totalExpenses * 100) / 100
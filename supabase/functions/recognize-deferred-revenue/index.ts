@@ -0,0 +1,142 @@
+// Soledgic Edge Function: Recognize Deferred Revenue
+// POST /recognize-deferred-revenue
+// Releases revenue schedule lines that have come due, moving their amount
+// from unearned_revenue to platform_revenue. Sales voided since they were
+// scheduled have their remainder unwound instead.
+// Designed to run on a schedule (e.g. daily via cron).
+//
+// Security:
+// - Requires Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY> or x-cron-secret
+// - Does NOT use createHandler (no ledger-key auth — this is a global job)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCorsHeaders, timingSafeEqual } from '../_shared/utils.ts'
+
+interface RecognitionRequest {
+  as_of?: string     // YYYY-MM-DD, defaults to today (UTC)
+  limit?: number     // Max schedules to process per invocation (default 200)
+  dry_run?: boolean
+}
+
+function parseBearerToken(authHeader: string | null): string | null {
+  if (!authHeader) return null
+  const trimmed = authHeader.trim()
+  if (!trimmed.toLowerCase().startsWith('bearer ')) return null
+  const token = trimmed.slice('bearer '.length).trim()
+  return token.length > 0 ? token : null
+}
+
+function isAuthorizedCronRequest(req: Request, serviceRoleKey: string, cronSecret: string | undefined): boolean {
+  const bearer = parseBearerToken(req.headers.get('authorization'))
+  if (bearer && timingSafeEqual(bearer, serviceRoleKey)) {
+    return true
+  }
+
+  const providedCronSecret = (req.headers.get('x-cron-secret') || '').trim()
+  if (cronSecret && providedCronSecret && timingSafeEqual(providedCronSecret, cronSecret)) {
+    return true
+  }
+
+  return false
+}
+
+function jsonResponse(req: Request, body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'content-type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: getCorsHeaders(req) })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(req, { success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const serviceRoleKey = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').trim()
+  if (!serviceRoleKey) {
+    return jsonResponse(req, { success: false, error: 'Server misconfigured' }, 500)
+  }
+
+  if (!isAuthorizedCronRequest(req, serviceRoleKey, Deno.env.get('CRON_SECRET'))) {
+    return jsonResponse(req, { success: false, error: 'Unauthorized' }, 401)
+  }
+
+  let body: RecognitionRequest = {}
+  try {
+    body = await req.json()
+  } catch {
+    // empty body is fine — defaults apply
+  }
+
+  const today = new Date().toISOString().slice(0, 10)
+  const asOf = body.as_of ?? today
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || Number.isNaN(Date.parse(asOf))) {
+    return jsonResponse(req, { success: false, error: 'as_of must be a YYYY-MM-DD date' }, 400)
+  }
+  if (asOf > today) {
+    // Releasing revenue ahead of schedule would book it in the wrong period
+    return jsonResponse(req, { success: false, error: 'as_of cannot be in the future' }, 400)
+  }
+
+  const limit = Math.min(Math.max(Math.floor(body.limit ?? 200), 1), 1000)
+  const dryRun = body.dry_run === true
+  const requestId = crypto.randomUUID()
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  )
+
+  if (dryRun) {
+    const { data: due, error: dueError } = await supabase
+      .from('revenue_schedule_lines')
+      .select('schedule_id, amount')
+      .eq('status', 'pending')
+      .lte('recognize_on', asOf)
+      .limit(limit)
+
+    if (dueError) {
+      console.error(`[${requestId}] Failed to list due revenue lines:`, dueError)
+      return jsonResponse(req, { success: false, error: 'Failed to list due revenue lines' }, 500)
+    }
+
+    const lines = due || []
+    return jsonResponse(req, {
+      success: true,
+      dry_run: true,
+      as_of: asOf,
+      due_lines: lines.length,
+      due_amount: Math.round(lines.reduce((sum, line) => sum + Number(line.amount), 0) * 100) / 100,
+      schedule_ids: Array.from(new Set(lines.map((line) => line.schedule_id))),
+    })
+  }
+
+  const { data, error } = await supabase.rpc('recognize_due_revenue', {
+    p_as_of: asOf,
+    p_limit: limit,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to recognize due revenue:`, error)
+    return jsonResponse(req, { success: false, error: 'Failed to recognize due revenue' }, 500)
+  }
+
+  const rows = (data || []) as Array<{ out_schedule_id: string; out_ledger_id: string; out_lines_recognized: number }>
+
+  return jsonResponse(req, {
+    success: true,
+    as_of: asOf,
+    processed: rows.length,
+    lines_recognized: rows.reduce((sum, row) => sum + Number(row.out_lines_recognized), 0),
+    results: rows.map((row) => ({
+      schedule_id: row.out_schedule_id,
+      ledger_id: row.out_ledger_id,
+      lines_recognized: Number(row.out_lines_recognized),
+    })),
+  })
+})
@@ -9,6 +9,7 @@
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { getCorsHeaders, timingSafeEqual } from '../_shared/utils.ts'
+import { postSaleWithSplitRule, resolveSplitRule } from '../_shared/split-rules-service.ts'
 
 interface ReconcileRequest {
   limit?: number       // Max sessions to process per invocation (default 20)
@@ -68,7 +69,7 @@ Deno.serve(async (req: Request) => {
   const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString()
   const { data: sessions, error: fetchError } = await supabase
     .from('checkout_sessions')
-    .select('id, ledger_id, creator_id, amount, subtotal_amount, sales_tax_amount, sales_tax_state, customer_tax_country, customer_tax_state, creator_amount, platform_amount, product_id, product_name, metadata, payment_id, reference_id, updated_at')
+    .select('id, ledger_id, creator_id, amount, subtotal_amount, sales_tax_amount, sales_tax_state, sales_tax_jurisdiction, customer_tax_country, customer_tax_state, creator_amount, platform_amount, line_item_count, product_id, product_name, currency, metadata, payment_id, reference_id, updated_at')
     .eq('status', 'charged_pending_ledger')
     .gte('updated_at', cutoff)
     .order('updated_at', { ascending: true })
@@ -147,26 +148,48 @@ Deno.serve(async (req: Request) => {
       const actualSoledgicFee = soledgicFeeCents
       const taxCategory = typeof session.metadata?.tax_category === 'string' ? session.metadata.tax_category : null
 
-      const { error: rpcError } = await supabase.rpc('record_sale_atomic', {
-        p_ledger_id: session.ledger_id,
-        p_reference_id: referenceId,
-        p_creator_id: session.creator_id,
-        p_gross_amount: session.amount,
-        p_creator_amount: session.creator_amount,
-        p_platform_amount: session.platform_amount,
-        p_processing_fee: 0,
-        p_soledgic_fee: actualSoledgicFee,
-        p_sales_tax: session.sales_tax_amount || 0,
-        p_product_id: session.product_id || null,
-        p_product_name: session.product_name || null,
-        p_metadata: {
-          ...(session.metadata || {}),
-          subtotal_amount_cents: subtotalAmountCents,
-          sales_tax_amount_cents: session.sales_tax_amount ?? 0,
-          customer_tax_country: session.customer_tax_country ?? null,
-          customer_tax_state: session.customer_tax_state ?? null,
-        },
-      })
+      const saleMetadata = {
+        ...(session.metadata || {}),
+        subtotal_amount_cents: subtotalAmountCents,
+        sales_tax_amount_cents: session.sales_tax_amount ?? 0,
+        customer_tax_country: session.customer_tax_country ?? null,
+        customer_tax_state: session.customer_tax_state ?? null,
+        ...(session.sales_tax_jurisdiction ? { sales_tax_jurisdiction: session.sales_tax_jurisdiction } : {}),
+      }
+
+      // Rate locked when the session was created; the RPC refuses foreign
+      // sales with no rate rather than booking them 1:1. Multi-party
+      // sessions re-post their line items; lines already booked are returned
+      // as-is by record_sale_atomic. A single-creator session is divided by
+      // the product's or creator's split rule, like a direct checkout.
+      const { error: rpcError } = Number(session.line_item_count ?? 0) > 0
+        ? await supabase.rpc('record_checkout_line_item_sales', {
+            p_ledger_id: session.ledger_id,
+            p_checkout_reference: referenceId,
+            p_sales_tax: session.sales_tax_amount || 0,
+            p_metadata: saleMetadata,
+            p_currency: session.currency || null,
+            p_fx_rate: session.metadata?.fx_rate ?? null,
+          })
+        : await postSaleWithSplitRule(supabase, {
+            p_ledger_id: session.ledger_id,
+            p_reference_id: referenceId,
+            p_creator_id: session.creator_id,
+            p_gross_amount: session.amount,
+            p_creator_amount: session.creator_amount,
+            p_platform_amount: session.platform_amount,
+            p_processing_fee: 0,
+            p_soledgic_fee: actualSoledgicFee,
+            p_sales_tax: session.sales_tax_amount || 0,
+            p_product_id: session.product_id || null,
+            p_product_name: session.product_name || null,
+            p_metadata: saleMetadata,
+            p_currency: session.currency || null,
+            p_fx_rate: session.metadata?.fx_rate ?? null,
+          }, await resolveSplitRule(supabase, session.ledger_id, {
+            productId: session.product_id || null,
+            creatorId: session.creator_id,
+          }))
 
       if (rpcError) {
         // Duplicate reference_id means sale was actually already recorded
@@ -236,6 +259,7 @@ Deno.serve(async (req: Request) => {
               sales_tax_amount: Number(session.sales_tax_amount ?? 0) / 100,
               sales_tax_state: session.sales_tax_state ?? null,
               creator_id: session.creator_id,
+              line_item_count: Number(session.line_item_count ?? 0),
               product_id: session.product_id,
               reconciled: true,
               reconciled_at: now,
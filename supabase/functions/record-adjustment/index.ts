@@ -1,6 +1,10 @@
 // Soledgic Edge Function: Record Adjustment Journal
 // POST /record-adjustment
 // Create CPA-style adjusting entries
+// Adjustments at or above the ledger's approval threshold are queued in
+// pending_journals (202) and post once another team member approves them
+// Accruals and deferrals can auto_reverse: run-recurring-journals posts the
+// reversing entry on the first day of the next accounting period
 // SECURITY HARDENED VERSION
 
 import {
@@ -14,6 +18,8 @@ import {
   getClientIp
 } from '../_shared/utils.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { gateJournal } from '../_shared/journal-approval-service.ts'
+import { AUTO_REVERSE_TYPES, resolveAutoReverseDate } from '../_shared/recurring-journal-service.ts'
 
 interface AdjustmentEntry {
   account_type: string
@@ -30,6 +36,7 @@ interface RecordAdjustmentRequest {
   original_transaction_id?: string
   supporting_documentation?: string
   prepared_by: string
+  auto_reverse?: boolean
 }
 
 const VALID_ADJUSTMENT_TYPES = ['correction', 'reclassification', 'accrual', 'deferral',
@@ -67,6 +74,14 @@ const handler = createHandler(
       return errorResponse('Invalid or missing prepared_by', 400, req, requestId)
     }
 
+    if (body.auto_reverse !== undefined && typeof body.auto_reverse !== 'boolean') {
+      return errorResponse('auto_reverse must be a boolean', 400, req, requestId)
+    }
+    const autoReverse = body.auto_reverse === true
+    if (autoReverse && !(AUTO_REVERSE_TYPES as readonly string[]).includes(body.adjustment_type)) {
+      return errorResponse(`auto_reverse is only available for ${AUTO_REVERSE_TYPES.join(' and ')} adjustments`, 400, req, requestId)
+    }
+
     if (!body.entries || !Array.isArray(body.entries) || body.entries.length < 2) {
       return errorResponse('Adjustment must have at least 2 entries (debit and credit)', 400, req, requestId)
     }
@@ -140,11 +155,32 @@ const handler = createHandler(
       })
     }
 
+    let autoReverseOn: string | null = null
+    if (autoReverse) {
+      autoReverseOn = await resolveAutoReverseDate(supabase, ledger.id, adjustmentDate)
+      if (!autoReverseOn) {
+        return errorResponse('Failed to resolve auto-reverse date', 500, req, requestId)
+      }
+    }
+
+    const gate = await gateJournal(req, supabase, ledger, {
+      journal_type: 'adjustment',
+      amount: totalAmount,
+      summary: `${body.adjustment_type}: ${reason}`,
+      prepared_by: preparedBy,
+      payload: body,
+    }, requestId)
+    if (!gate.post) {
+      return jsonResponse(gate.body, gate.status, req, requestId)
+    }
+    const approval = gate.approval
+
     // Atomic: duplicate check + transaction insert + entries insert with account locking
+    // An approved journal posts under its own reference so it can only post once
     const { data: rpcResult, error: rpcError } = await supabase.rpc('record_transaction_atomic', {
       p_ledger_id: ledger.id,
       p_transaction_type: 'adjustment',
-      p_reference_id: `adj_${Date.now()}`,
+      p_reference_id: approval ? `adj_pj_${approval.pending_journal_id}` : `adj_${Date.now()}`,
       p_reference_type: 'adjustment',
       p_description: `${body.adjustment_type}: ${reason}`,
       p_amount: totalAmount,
@@ -154,7 +190,9 @@ const handler = createHandler(
       p_metadata: {
         adjustment_type: body.adjustment_type,
         prepared_by: preparedBy,
-        adjustment_date: adjustmentDate
+        adjustment_date: adjustmentDate,
+        ...(autoReverseOn ? { auto_reverse_on: autoReverseOn } : {}),
+        ...(approval ? { pending_journal_id: approval.pending_journal_id, approved_by: approval.approved_by } : {})
       },
       p_entries: JSON.stringify(entryRecords),
       p_authorizing_instrument_id: null,
@@ -185,7 +223,10 @@ const handler = createHandler(
         reason: reason,
         supporting_documentation: body.supporting_documentation ? validateString(body.supporting_documentation, 2000) : null,
         prepared_by: preparedBy,
-        adjustment_date: adjustmentDate
+        adjustment_date: adjustmentDate,
+        auto_reverse_on: autoReverseOn,
+        reviewed_by: approval?.approved_by ?? null,
+        reviewed_at: approval?.approved_at ?? null
       })
       .select('id')
       .single()
@@ -202,7 +243,9 @@ const handler = createHandler(
       request_body: {
         adjustment_type: body.adjustment_type,
         amount: totalAmount,
-        entries: body.entries.length
+        entries: body.entries.length,
+        auto_reverse_on: autoReverseOn,
+        pending_journal_id: approval?.pending_journal_id ?? null
       }
     }).then(() => {}).catch(() => {})
 
@@ -210,7 +253,8 @@ const handler = createHandler(
       success: true,
       transaction_id: transaction.id,
       adjustment_id: adjustment?.id,
-      entries_created: entryRecords.length
+      entries_created: entryRecords.length,
+      auto_reverse_on: autoReverseOn
     }, 200, req, requestId)
   }
 )
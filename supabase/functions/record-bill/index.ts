@@ -100,6 +100,7 @@ const handler = createHandler(
       .select('id, account_type')
       .eq('ledger_id', ledger.id)
       .in('account_type', ['cash', 'accounts_payable', 'expense'])
+      .is('entity_id', null)
 
     let cashAccount = accounts?.find(a => a.account_type === 'cash')
     let apAccount = accounts?.find(a => a.account_type === 'accounts_payable')
@@ -188,6 +188,7 @@ const handler = createHandler(
       .select('id, name')
       .eq('ledger_id', ledger.id)
       .eq('account_type', 'expense')
+      .is('entity_id', null)
       .limit(1)
 
     let expenseAccount = expenseAccounts?.[0]
@@ -1,6 +1,7 @@
 // Soledgic Edge Function: Record Opening Balances
 // POST /record-opening-balance
 // Set initial balances when starting a ledger mid-year
+// Subject to the ledger's journal approval policy for opening balances
 // SECURITY HARDENED VERSION
 
 import {
@@ -13,6 +14,7 @@ import {
   getClientIp
 } from '../_shared/utils.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { gateJournal } from '../_shared/journal-approval-service.ts'
 
 interface OpeningBalanceEntry {
   account_type: string
@@ -25,6 +27,7 @@ interface RecordOpeningBalanceRequest {
   source: 'manual' | 'imported' | 'migrated' | 'year_start'
   source_description?: string
   balances: OpeningBalanceEntry[]
+  prepared_by?: string
 }
 
 const VALID_SOURCES = ['manual', 'imported', 'migrated', 'year_start']
@@ -60,6 +63,11 @@ const handler = createHandler(
       return errorResponse('balances must be a non-empty array', 400, req, requestId)
     }
 
+    const preparedBy = body.prepared_by !== undefined ? validateString(body.prepared_by, 200) : null
+    if (body.prepared_by !== undefined && !preparedBy) {
+      return errorResponse('Invalid prepared_by', 400, req, requestId)
+    }
+
     // Check if opening balances already exist
     const { data: existing } = await supabase
       .from('opening_balances')
@@ -109,6 +117,19 @@ const handler = createHandler(
       }, 400, req, requestId)
     }
 
+    // Queue for approval before resolving accounts, which can create creator accounts
+    const gate = await gateJournal(req, supabase, ledger, {
+      journal_type: 'opening_balance',
+      amount: totalAssets,
+      summary: `Opening balances as of ${body.as_of_date}`,
+      prepared_by: preparedBy,
+      payload: body,
+    }, requestId)
+    if (!gate.post) {
+      return jsonResponse(gate.body, gate.status, req, requestId)
+    }
+    const approval = gate.approval
+
     // Resolve accounts for entries before RPC call
     const entries = []
     for (const bal of body.balances) {
@@ -174,7 +195,9 @@ const handler = createHandler(
       p_metadata: {
         source: body.source,
         source_description: body.source_description ? validateString(body.source_description, 500) : null,
-        as_of_date: body.as_of_date
+        as_of_date: body.as_of_date,
+        ...(preparedBy ? { prepared_by: preparedBy } : {}),
+        ...(approval ? { pending_journal_id: approval.pending_journal_id, approved_by: approval.approved_by } : {})
       },
       p_entries: JSON.stringify(entries),
       p_authorizing_instrument_id: null,
@@ -219,7 +242,12 @@ const handler = createHandler(
       actor_type: 'api',
       ip_address: getClientIp(req),
       user_agent: req.headers.get('user-agent'),
-      request_body: { as_of_date: body.as_of_date, source: body.source, accounts: body.balances.length }
+      request_body: {
+        as_of_date: body.as_of_date,
+        source: body.source,
+        accounts: body.balances.length,
+        pending_journal_id: approval?.pending_journal_id ?? null
+      }
     }).then(() => {}).catch(() => {})
 
     return jsonResponse({
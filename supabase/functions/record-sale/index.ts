@@ -1,6 +1,12 @@
 // Soledgic Edge Function: Record Sale
 // POST /record-sale
-// Records a sale with automatic revenue split and withholding
+// Records a sale with automatic revenue split and withholding.
+// A split rule (explicit, or the product's / creator's) distributes the
+// net to several recipients instead of the single creator_percent split.
+// Active referral attributions on the creator or buyer earn a commission
+// out of the platform's share.
+// A recognition schedule defers what the platform keeps to deferred revenue
+// and releases it straight-line by month or by milestone.
 // SECURITY HARDENED VERSION - Uses atomic database function
 
 import { 
@@ -17,16 +23,34 @@ import {
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { checkLargeTransaction } from '../_shared/risk-engine.ts'
 import { loadOrgCapabilities, getDailyVolume, checkDailyVolumeAllowed } from '../_shared/capabilities.ts'
+import { convertMinorAmount, minorToMajor } from '../_shared/currency.ts'
+import { getFxRateSource, resolvePostingCurrency } from '../_shared/fx-rates-service.ts'
+import {
+  applySplitRule,
+  postSaleWithSplitRule,
+  resolveSplitRule,
+  type SplitCredit,
+  type SplitRuleVersion,
+} from '../_shared/split-rules-service.ts'
+import {
+  validateRevenueSchedule,
+  type RevenueScheduleInput,
+} from '../_shared/revenue-recognition-service.ts'
+import { runSaleFollowups } from '../_shared/sale-followups-service.ts'
 
 interface SaleRequest {
   reference_id: string
   creator_id: string
-  amount: number  // In cents
+  amount: number  // In minor units of `currency`
+  currency?: string  // Defaults to the ledger's functional currency
+  fx_rate?: number  // Functional units per one unit of `currency`; looked up from fx-rates when omitted
   processing_fee?: number
   processing_fee_paid_by?: 'platform' | 'creator' | 'split'
   product_id?: string
   product_name?: string
   creator_percent?: number
+  split_rule_id?: string
+  recognition?: Record<string, unknown>  // Revenue recognition schedule for the platform's share
   skip_withholding?: boolean
   metadata?: Record<string, any>
 }
@@ -63,12 +87,59 @@ const handler = createHandler(
       return errorResponse('Invalid processing_fee: must be a non-negative integer', 400, req, requestId)
     }
 
+    const currencyResult = await resolvePostingCurrency(
+      getFxRateSource(supabase, ledger),
+      ledger,
+      body.currency,
+      body.fx_rate,
+    )
+    if (!currencyResult.ok) {
+      return errorResponse(currencyResult.error, currencyResult.status, req, requestId)
+    }
+    const {
+      currency,
+      functional_currency: functionalCurrency,
+      fx_rate: fxRate,
+      rate_effective_date: fxRateEffectiveDate,
+    } = currencyResult.value
+    // Limits, risk signals and holds are evaluated in the functional currency.
+    const functionalAmount = convertMinorAmount(amount, currency, functionalCurrency, fxRate ?? 1)
+
     const productId = body.product_id ? validateId(body.product_id, 100) : null
     const productName = body.product_name ? validateString(body.product_name, 500) : null
 
+    if (body.split_rule_id !== undefined && body.creator_percent !== undefined) {
+      return errorResponse('Provide either creator_percent or split_rule_id, not both', 400, req, requestId)
+    }
+
+    const splitRuleId = body.split_rule_id !== undefined ? validateId(body.split_rule_id, 100) : null
+    if (body.split_rule_id !== undefined && !splitRuleId) {
+      return errorResponse('Invalid split_rule_id', 400, req, requestId)
+    }
+
+    // An explicit creator_percent bypasses split rules
+    const splitRule: SplitRuleVersion | null = body.creator_percent === undefined
+      ? await resolveSplitRule(supabase, ledger.id, { splitRuleId, productId, creatorId })
+      : null
+    if (splitRuleId && !splitRule) {
+      return errorResponse('Split rule not found', 404, req, requestId)
+    }
+
+    let recognition: RevenueScheduleInput | null = null
+    if (body.recognition !== undefined && body.recognition !== null) {
+      const recognitionResult = validateRevenueSchedule(body.recognition)
+      if (!recognitionResult.schedule) {
+        return errorResponse(recognitionResult.error || 'Invalid recognition schedule', 400, req, requestId)
+      }
+      recognition = recognitionResult.schedule
+    }
+
     // Validate creator_percent if provided
     let creatorPercent: number
-    if (body.creator_percent !== undefined) {
+    if (splitRule) {
+      // Reported as the creator's effective share once the waterfall is known
+      creatorPercent = 0
+    } else if (body.creator_percent !== undefined) {
       if (typeof body.creator_percent !== 'number' || body.creator_percent < 0 || body.creator_percent > 100) {
         return errorResponse('Invalid creator_percent: must be 0-100', 400, req, requestId)
       }
@@ -82,6 +153,8 @@ const handler = createHandler(
     // CALCULATE SPLIT (using database function for precision)
     // ========================================================================
     
+    // With a split rule the creator share comes from the waterfall, so the
+    // whole net is taken here and distributed below.
     const { data: splitResult, error: splitError } = await supabase.rpc('calculate_sale_split', {
       p_gross_cents: amount,
       p_creator_percent: creatorPercent,
@@ -94,18 +167,26 @@ const handler = createHandler(
     }
 
     const split = splitResult[0]
-    const creatorCents = split.creator_cents
-    const platformCents = split.platform_cents
     const feeCents = split.fee_cents
     const soledgicFeeCents = split.soledgic_fee_cents ?? 0
 
+    // The selling creator's allocations are credited by the sale itself;
+    // every other recipient gets its own split credit out of platform revenue.
+    const { creator_amount: creatorCents, platform_amount: platformCents } = splitRule
+      ? applySplitRule(splitRule, creatorId, split.creator_cents + split.platform_cents)
+      : { creator_amount: split.creator_cents, platform_amount: split.platform_cents }
+    if (splitRule) {
+      const netCents = creatorCents + platformCents
+      creatorPercent = netCents > 0 ? Math.round(creatorCents / netCents * 10000) / 100 : 0
+    }
+
     // ========================================================================
     // CAPABILITY GATE: daily volume limit
     // ========================================================================
     const caps = await loadOrgCapabilities(supabase, ledger.organization_id)
     if (caps.max_daily_volume_cents !== -1) {
       const dailyVol = await getDailyVolume(supabase, ledger.id)
-      const volCheck = checkDailyVolumeAllowed(caps, dailyVol, amount)
+      const volCheck = checkDailyVolumeAllowed(caps, dailyVol, functionalAmount)
       if (!volCheck.allowed) {
         return errorResponse(volCheck.reason || 'Daily volume limit exceeded', 403, req, requestId)
       }
@@ -117,19 +198,24 @@ const handler = createHandler(
     // All inserts happen in single database transaction
     // If anything fails, entire operation rolls back
 
-    const { data: result, error: txError } = await supabase.rpc('record_sale_atomic', {
+    const saleParams = {
       p_ledger_id: ledger.id,
       p_reference_id: referenceId,
       p_creator_id: creatorId,
       p_gross_amount: amount,
-      p_creator_amount: creatorCents,
-      p_platform_amount: platformCents,
+      p_creator_amount: split.creator_cents,
+      p_platform_amount: split.platform_cents,
       p_processing_fee: feeCents,
       p_soledgic_fee: soledgicFeeCents,
       p_product_id: productId,
       p_product_name: productName,
-      p_metadata: body.metadata || {}
-    })
+      p_metadata: body.metadata || {},
+      p_currency: currency,
+      p_fx_rate: fxRate,
+    }
+
+    const posting = await postSaleWithSplitRule(supabase, saleParams, splitRule, functionalCurrency)
+    const { data: result, error: txError } = posting
 
     if (txError) {
       // Handle duplicate reference_id (idempotent response)
@@ -159,6 +245,14 @@ const handler = createHandler(
         }, 409, req, requestId)
       }
 
+      if (txError.message?.includes('has been deleted')) {
+        return errorResponse(txError.message, 409, req, requestId)
+      }
+
+      if (txError.message?.includes('No FX rate on file')) {
+        return errorResponse(txError.message, 422, req, requestId)
+      }
+
       // Handle uninitialized ledger (missing platform_revenue or cash accounts)
       if (txError.message?.includes('Platform accounts not initialized')) {
         return errorResponse(
@@ -174,12 +268,34 @@ const handler = createHandler(
     const txResult = result?.[0] || result
     // Column names changed to out_* prefix to avoid ambiguity in PL/pgSQL
     const transactionId = txResult?.out_transaction_id || txResult?.transaction_id
+    const splitCredits: SplitCredit[] = posting.credits
+    // Commissions, the revenue schedule, the creator reserve and debt recovery
+    // post after the sale. The sale is already committed, so a failed step is
+    // left pending for process-sale-followups and reported, not raised.
+    const followups = await runSaleFollowups(supabase, {
+      ledgerId: ledger.id,
+      transactionId,
+      creatorId,
+      recognition,
+    }, requestId)
+    const {
+      referral_commissions: referralCommissions,
+      revenue_schedule: revenueSchedule,
+      revenue_schedule_error: revenueScheduleError,
+      creator_reserve: creatorReserve,
+      debt_recoveries: debtRecoveries,
+    } = followups
+    const debtRecovered = Math.round(debtRecoveries.reduce((sum, recovery) => sum + recovery.amount, 0) * 100) / 100
     // Recompute from entries to avoid depending on account-balance trigger timing.
     const creatorBalance = await getCreatorLiveBalance(supabase, ledger.id, creatorId)
+    // NRA and backup withholding are decided inside the atomic RPC from the
+    // creator's tax forms and backup withholding state
+    const withholdings = await getSaleWithholdings(supabase, transactionId)
+    const withheldCents = withholdings.reduce((sum, w) => sum + w.amount_cents, 0)
 
     // Risk signal: flag large sales
     if (ledger.organization_id) {
-      void checkLargeTransaction(supabase, ledger.id, ledger.organization_id, amount, 'sale', referenceId, transactionId)
+      void checkLargeTransaction(supabase, ledger.id, ledger.organization_id, functionalAmount, 'sale', referenceId, transactionId)
     }
 
     // Recalculate creator risk score after every sale (mandatory for all platforms)
@@ -190,15 +306,20 @@ const handler = createHandler(
       console.error(`[${requestId}] Failed to update creator risk score:`, err)
     })
 
-    // Reserve hold: if org has reserve_percent > 0, hold that % of creator earnings
-    if (caps.reserve_percent > 0 && creatorCents > 0) {
-      const reserveAmount = Math.round(creatorCents * caps.reserve_percent / 100)
+    // Reserve hold: if org has reserve_percent > 0, hold that % of creator earnings.
+    // A creator reserve policy replaces the org-wide reserve for that creator;
+    // while that step is pending the org-wide hold is skipped rather than
+    // risk holding the same earnings twice.
+    if (!creatorReserve && !followups.pending.includes('creator_reserve') && caps.reserve_percent > 0 && creatorCents > 0) {
+      const reserveAmount = Math.round(
+        convertMinorAmount(creatorCents, currency, functionalCurrency, fxRate ?? 1) * caps.reserve_percent / 100
+      )
       if (reserveAmount > 0) {
         void supabase.rpc('apply_payout_hold', {
           p_ledger_id: ledger.id,
           p_creator_id: creatorId,
           p_transaction_id: transactionId,
-          p_amount: reserveAmount / 100, // RPC expects major units
+          p_amount: minorToMajor(reserveAmount, functionalCurrency), // RPC expects major units
           p_delay_days: 90, // reserve held for 90 days (chargeback window)
           p_reason: 'reserve',
         }).catch((err: unknown) => {
@@ -221,7 +342,16 @@ const handler = createHandler(
         reference_id: referenceId,
         creator_id: creatorId,
         amount_cents: amount,
+        currency,
+        fx_rate: fxRate,
         creator_percent: creatorPercent,
+        split_rule_id: splitRule?.split_rule_id,
+        split_rule_version: splitRule?.version,
+        referral_commissions: referralCommissions.length || undefined,
+        recognition_method: recognition?.method,
+        revenue_schedule_id: revenueSchedule?.schedule_id,
+        creator_debt_recovered: debtRecovered || undefined,
+        creator_reserve_tranche_id: creatorReserve?.tranche_id,
       }),
       response_status: 200,
       risk_score: 10,
@@ -234,18 +364,85 @@ const handler = createHandler(
     return jsonResponse({
       success: true,
       transaction_id: transactionId,
+      currency,
+      functional_currency: functionalCurrency,
+      fx_rate: fxRate,
+      fx_rate_effective_date: fxRateEffectiveDate,
       breakdown: {
-        gross_amount: amount / 100,
-        processing_fee: feeCents / 100,
-        net_amount: (amount - feeCents) / 100,
-        creator_amount: creatorCents / 100,
-        platform_amount: platformCents / 100,
+        gross_amount: minorToMajor(amount, currency),
+        processing_fee: minorToMajor(feeCents, currency),
+        net_amount: minorToMajor(amount - feeCents, currency),
+        creator_amount: minorToMajor(creatorCents, currency),
+        platform_amount: minorToMajor(platformCents, currency),
         creator_percent: creatorPercent,
         platform_percent: 100 - creatorPercent,
-        withheld_amount: 0,
-        available_amount: creatorCents / 100,
-        withholdings: []
+        withheld_amount: minorToMajor(withheldCents, currency),
+        available_amount: minorToMajor(creatorCents - withheldCents, currency),
+        withholdings: withholdings.map((w) => ({
+          type: w.type,
+          rate_bps: w.rate_bps,
+          reason: w.reason,
+          ...(w.type === 'nra' ? { treaty_country: w.treaty_country ?? null } : {}),
+          ...(w.type === 'backup' ? { notice_id: w.notice_id ?? null } : {}),
+          amount: minorToMajor(w.amount_cents, currency),
+        }))
       },
+      ...(splitRule ? {
+        split_rule: {
+          split_rule_id: splitRule.split_rule_id,
+          version: splitRule.version,
+          version_id: splitRule.version_id,
+          credits: splitCredits.map((credit) => ({
+            position: credit.position,
+            participant_id: credit.participant_id,
+            role: credit.role,
+            amount: minorToMajor(credit.amount, currency),
+            transaction_id: credit.transaction_id,
+          })),
+        },
+      } : {}),
+      ...(referralCommissions.length > 0 ? {
+        // Functional-currency amounts, like the commission transactions
+        referral_commissions: referralCommissions.map((commission) => ({
+          attribution_id: commission.attribution_id,
+          referrer_id: commission.referrer_id,
+          amount: commission.amount,
+          transaction_id: commission.transaction_id,
+        })),
+      } : {}),
+      ...(recognition ? {
+        revenue_schedule: revenueSchedule ? {
+          schedule_id: revenueSchedule.schedule_id,
+          method: recognition.method,
+          deferral_transaction_id: revenueSchedule.deferral_transaction_id,
+          // Functional currency, like the deferral transaction
+          deferred_amount: revenueSchedule.total_amount,
+        } : {
+          error: revenueScheduleError,
+        },
+      } : {}),
+      ...(creatorReserve ? {
+        // Functional currency, like the reserve hold transaction
+        reserve: {
+          tranche_id: creatorReserve.tranche_id,
+          amount: creatorReserve.amount,
+          release_at: creatorReserve.release_at,
+          transaction_id: creatorReserve.transaction_id,
+        },
+      } : {}),
+      ...(debtRecoveries.length > 0 ? {
+        // Functional currency, like the recovery transaction
+        creator_debt_recovery: {
+          amount: debtRecovered,
+          transaction_id: debtRecoveries[0].transaction_id,
+          debts: debtRecoveries.map((recovery) => ({
+            debt_id: recovery.debt_id,
+            amount: recovery.amount,
+            status: recovery.status,
+          })),
+        },
+      } : {}),
+      ...(followups.pending.length > 0 ? { pending_followups: followups.pending } : {}),
       creator_balance: creatorBalance
     }, 200, req, requestId)
   }
@@ -258,6 +455,37 @@ Deno.serve(handler)
 // HELPER FUNCTIONS
 // ============================================================================
 
+interface SaleWithholding {
+  type: 'nra' | 'backup'
+  rate_bps: number
+  reason: string
+  treaty_country?: string | null
+  notice_id?: string | null
+  amount_cents: number
+}
+
+async function getSaleWithholdings(
+  supabase: SupabaseClient,
+  transactionId: string | undefined
+): Promise<SaleWithholding[]> {
+  if (!transactionId) return []
+
+  const { data } = await supabase
+    .from('transactions')
+    .select('metadata')
+    .eq('id', transactionId)
+    .maybeSingle()
+
+  const withholdings: SaleWithholding[] = []
+  for (const type of ['nra', 'backup'] as const) {
+    const withholding = data?.metadata?.[`${type}_withholding`]
+    if (withholding && Number(withholding.amount_cents) > 0) {
+      withholdings.push({ ...withholding, type, amount_cents: Number(withholding.amount_cents) })
+    }
+  }
+  return withholdings
+}
+
 async function getCreatorPercent(
   supabase: SupabaseClient, 
   ledger: LedgerContext, 
@@ -0,0 +1,88 @@
+// SERVICE_ID: SVC_RECURRING_JOURNALS_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  createRecurringJournalResponse,
+  getRecurringJournalResponse,
+  listRecurringJournalsResponse,
+  updateRecurringJournalStatusResponse,
+} from '../_shared/recurring-journal-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'recurring-journals', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'recurring-journals')
+
+    if (segments.length === 0) {
+      if (req.method === 'GET') {
+        const url = new URL(req.url)
+        const status = url.searchParams.get('status')
+        const limit = getNumberParam(url, 'limit')
+
+        const response = await listRecurringJournalsResponse(req, supabase, ledger, {
+          ...(status ? { status } : {}),
+          ...(limit !== undefined ? { limit } : {}),
+        }, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        if (ledger.status !== 'active') {
+          return errorResponse('Ledger is not active', 403, req, requestId)
+        }
+
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await createRecurringJournalResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await getRecurringJournalResponse(req, supabase, ledger, segments[0], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 2 && ['pause', 'resume', 'end'].includes(segments[1])) {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await updateRecurringJournalStatusResponse(
+        req,
+        supabase,
+        ledger,
+        segments[0],
+        segments[1],
+        requestId,
+      )
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
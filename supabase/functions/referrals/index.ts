@@ -0,0 +1,84 @@
+// SERVICE_ID: SVC_REFERRALS_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  createReferralAttributionResponse,
+  endReferralAttributionResponse,
+  getReferralAttributionResponse,
+  listReferralAttributionsResponse,
+} from '../_shared/referral-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'referrals', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'referrals')
+    const url = new URL(req.url)
+
+    if (segments.length === 0) {
+      if (req.method === 'GET') {
+        const referrerId = url.searchParams.get('referrer_id')
+        const referredType = url.searchParams.get('referred_type')
+        const referredId = url.searchParams.get('referred_id')
+        const status = url.searchParams.get('status')
+        const limit = getNumberParam(url, 'limit')
+
+        const response = await listReferralAttributionsResponse(req, supabase, ledger, {
+          ...(referrerId ? { referrer_id: referrerId } : {}),
+          ...(referredType ? { referred_type: referredType } : {}),
+          ...(referredId ? { referred_id: referredId } : {}),
+          ...(status ? { status } : {}),
+          ...(limit !== undefined ? { limit } : {}),
+        }, requestId)
+
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await createReferralAttributionResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await getReferralAttributionResponse(req, supabase, ledger, segments[0], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 2 && segments[1] === 'end') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await endReferralAttributionResponse(req, supabase, ledger, segments[0], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
@@ -48,6 +48,7 @@ const handler = createHandler(
 
     const response = await recordRefundResponse(req, supabase, ledger, {
       original_sale_reference: String(payload.sale_reference ?? payload.original_sale_reference ?? ''),
+      line_item_id: typeof payload.line_item_id === 'string' ? payload.line_item_id : undefined,
       reason: String(payload.reason ?? ''),
       amount: typeof payload.amount === 'number' ? payload.amount : undefined,
       refund_from: payload.refund_from as 'both' | 'platform_only' | 'creator_only' | undefined,
@@ -1,6 +1,7 @@
 // SERVICE_ID: SVC_HOLD_RELEASE_CRON
 //
-// Auto-releases payout holds whose delay period has elapsed.
+// Auto-releases payout holds whose delay period has elapsed, and pays
+// creator rolling reserve tranches back once their release date passes.
 // Called by cron (e.g. every hour). Auth: x-cron-secret header.
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
@@ -28,6 +29,24 @@ Deno.serve(async (req) => {
     Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
   )
 
+  // Reserve tranches first: they are released independently of payout holds
+  const { data: tranches, error: reserveError } = await supabase.rpc('release_due_creator_reserves', {
+    p_as_of: new Date().toISOString(),
+  })
+
+  if (reserveError) {
+    console.error('[release-expired-holds] Reserve release RPC error:', reserveError)
+    return new Response(JSON.stringify({ error: reserveError.message }), { status: 500 })
+  }
+
+  const reserveTranchesReleased = (tranches || []).length
+  const reserveAmountReleased = Math.round(
+    (tranches || []).reduce((sum: number, row: any) => sum + Number(row.out_amount), 0) * 100,
+  ) / 100
+  if (reserveTranchesReleased > 0) {
+    console.log(`[release-expired-holds] Released ${reserveTranchesReleased} creator reserve tranches`)
+  }
+
   const { data: result, error } = await supabase.rpc('release_expired_holds')
 
   if (error) {
@@ -40,7 +59,12 @@ Deno.serve(async (req) => {
     console.log(`[release-expired-holds] Released ${releasedCount} expired holds`)
   }
 
-  return new Response(JSON.stringify({ success: true, released_count: releasedCount }), {
+  return new Response(JSON.stringify({
+    success: true,
+    released_count: releasedCount,
+    reserve_tranches_released: reserveTranchesReleased,
+    reserve_amount_released: reserveAmountReleased,
+  }), {
     status: 200,
     headers: { 'Content-Type': 'application/json' },
   })
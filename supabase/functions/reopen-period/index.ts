@@ -0,0 +1,40 @@
+// SERVICE_ID: SVC_REOPEN_PERIOD_ROUTER
+// Soledgic Edge Function: Reopen Accounting Period
+// POST /reopen-period
+// Reopen a closed month or quarter so a late correction can be posted.
+// Owners only, through the dashboard (which requires step-up auth); a
+// reason is mandatory. Close it again with close-period.
+
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import { reopenPeriodResponse } from '../_shared/accounting-period-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'reopen-period', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    if (req.method !== 'POST') {
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    const payload = asJsonObject(body)
+    if (!payload) {
+      return errorResponse('Invalid JSON body', 400, req, requestId)
+    }
+
+    const response = await reopenPeriodResponse(req, supabase, ledger, payload, requestId)
+    return respondWithResult(req, requestId, response)
+  },
+)
+
+Deno.serve(handler)
@@ -0,0 +1,80 @@
+// SERVICE_ID: SVC_REVENUE_RECOGNITION_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  completeRevenueMilestoneResponse,
+  createRevenueScheduleResponse,
+  getRevenueScheduleResponse,
+  listRevenueSchedulesResponse,
+} from '../_shared/revenue-recognition-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'revenue-recognition', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'revenue-recognition')
+    const url = new URL(req.url)
+
+    if (segments.length === 0) {
+      if (req.method === 'GET') {
+        const status = url.searchParams.get('status')
+        const sourceTransactionId = url.searchParams.get('source_transaction_id')
+        const limit = getNumberParam(url, 'limit')
+
+        const response = await listRevenueSchedulesResponse(req, supabase, ledger, {
+          ...(status ? { status } : {}),
+          ...(sourceTransactionId ? { source_transaction_id: sourceTransactionId } : {}),
+          ...(limit !== undefined ? { limit } : {}),
+        }, requestId)
+
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await createRevenueScheduleResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await getRevenueScheduleResponse(req, supabase, ledger, segments[0], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 4 && segments[1] === 'milestones' && segments[3] === 'complete') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await completeRevenueMilestoneResponse(req, supabase, ledger, segments[0], segments[2], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
@@ -5,6 +5,8 @@
 // - Draft (unreconciled): Soft delete (mark as voided)
 // - Reconciled: Create reversing entries
 // - Locked period: 403 error
+// Reversals at or above the ledger's approval threshold are queued in
+// pending_journals (202) until another team member approves them
 // SECURITY HARDENED VERSION
 
 import { 
@@ -19,6 +21,7 @@ import {
 } from '../_shared/utils.ts'
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { autoLinkTransaction } from '../_shared/transaction-graph.ts'
+import { gateJournal } from '../_shared/journal-approval-service.ts'
 
 interface ReversalRequest {
   transaction_id: string
@@ -26,6 +29,7 @@ interface ReversalRequest {
   partial_amount?: number
   idempotency_key?: string
   metadata?: Record<string, any>
+  prepared_by?: string
 }
 
 function centsFromMajor(amount: unknown): number {
@@ -107,7 +111,13 @@ async function syncSaleRefundStateAfterRefundReversal(
 
 const handler = createHandler(
   { endpoint: 'reverse-transaction', requireAuth: true, rateLimit: true },
-  async (req: Request, supabase: SupabaseClient, ledger: LedgerContext | null, body: ReversalRequest) => {
+  async (
+    req: Request,
+    supabase: SupabaseClient,
+    ledger: LedgerContext | null,
+    body: ReversalRequest,
+    { requestId }: { requestId: string }
+  ) => {
     if (!ledger) {
       return errorResponse('Ledger not found', 401, req)
     }
@@ -138,6 +148,11 @@ const handler = createHandler(
       return errorResponse('Invalid idempotency_key', 400, req)
     }
 
+    const preparedBy = body.prepared_by !== undefined ? validateString(body.prepared_by, 200) : null
+    if (body.prepared_by !== undefined && !preparedBy) {
+      return errorResponse('Invalid prepared_by', 400, req)
+    }
+
     // Get original transaction with entries
     const { data: originalTx, error: txError } = await supabase
       .from('transactions')
@@ -184,6 +199,18 @@ const handler = createHandler(
       }
     }
 
+    const gate = await gateJournal(req, supabase, ledger, {
+      journal_type: 'reversal',
+      amount: partialAmountCents ? partialAmountCents / 100 : Number(originalTx.amount),
+      summary: `Reverse ${originalTx.reference_id || transactionId}: ${reason}`,
+      prepared_by: preparedBy,
+      payload: body as unknown as Record<string, unknown>,
+    }, requestId)
+    if (!gate.post) {
+      return jsonResponse(gate.body, gate.status, req, requestId)
+    }
+    const approval = gate.approval
+
     // Determine transaction state
     const isReconciled = originalTx.metadata?.reconciled === true ||
                          originalTx.metadata?.bank_match_id != null ||
@@ -229,7 +256,12 @@ const handler = createHandler(
         entity_id: transactionId,
         actor_type: 'api',
         ip_address: getClientIp(req),
-        request_body: { reason: reason, void_type: 'soft_delete' }
+        request_body: {
+          reason: reason,
+          void_type: 'soft_delete',
+          prepared_by: preparedBy,
+          pending_journal_id: approval?.pending_journal_id ?? null
+        }
       })
 
       return jsonResponse({
@@ -312,6 +344,8 @@ const handler = createHandler(
         is_partial: reversalRatio < 1,
         reversal_ratio: reversalRatio,
         void_type: 'reversing_entry',
+        ...(preparedBy ? { prepared_by: preparedBy } : {}),
+        ...(approval ? { pending_journal_id: approval.pending_journal_id, approved_by: approval.approved_by } : {}),
       },
     })
 
@@ -376,7 +410,9 @@ const handler = createHandler(
         reason: reason,
         void_type: 'reversing_entry',
         is_partial: reversalRatio < 1,
-        was_reconciled: isReconciled
+        was_reconciled: isReconciled,
+        prepared_by: preparedBy,
+        pending_journal_id: approval?.pending_journal_id ?? null
       }
     })
 
@@ -0,0 +1,142 @@
+// Soledgic Edge Function: Run Depreciation
+// POST /run-depreciation
+// Posts every fixed asset depreciation line dated on or before today as a
+// 'depreciation' adjustment (expense debited, Accumulated Depreciation
+// credited). Assets that fell behind catch up in one run.
+// Designed to run on a schedule (e.g. daily via cron).
+//
+// Security:
+// - Requires Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY> or x-cron-secret
+// - Does NOT use createHandler (no ledger-key auth — this is a global job)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCorsHeaders, timingSafeEqual } from '../_shared/utils.ts'
+
+interface RunDepreciationRequest {
+  limit?: number     // Max assets per run (default 500)
+  dry_run?: boolean
+}
+
+function parseBearerToken(authHeader: string | null): string | null {
+  if (!authHeader) return null
+  const trimmed = authHeader.trim()
+  if (!trimmed.toLowerCase().startsWith('bearer ')) return null
+  const token = trimmed.slice('bearer '.length).trim()
+  return token.length > 0 ? token : null
+}
+
+function isAuthorizedCronRequest(req: Request, serviceRoleKey: string, cronSecret: string | undefined): boolean {
+  const bearer = parseBearerToken(req.headers.get('authorization'))
+  if (bearer && timingSafeEqual(bearer, serviceRoleKey)) {
+    return true
+  }
+
+  const providedCronSecret = (req.headers.get('x-cron-secret') || '').trim()
+  if (cronSecret && providedCronSecret && timingSafeEqual(providedCronSecret, cronSecret)) {
+    return true
+  }
+
+  return false
+}
+
+function jsonResponse(req: Request, body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'content-type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: getCorsHeaders(req) })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(req, { success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const serviceRoleKey = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').trim()
+  if (!serviceRoleKey) {
+    return jsonResponse(req, { success: false, error: 'Server misconfigured' }, 500)
+  }
+
+  if (!isAuthorizedCronRequest(req, serviceRoleKey, Deno.env.get('CRON_SECRET'))) {
+    return jsonResponse(req, { success: false, error: 'Unauthorized' }, 401)
+  }
+
+  let body: RunDepreciationRequest = {}
+  try {
+    body = await req.json()
+  } catch {
+    // empty body is fine — defaults apply
+  }
+
+  const limit = Math.min(Math.max(Math.floor(body.limit ?? 500), 1), 5000)
+  const dryRun = body.dry_run === true
+  const requestId = crypto.randomUUID()
+  const asOf = new Date().toISOString().split('T')[0]
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  )
+
+  if (dryRun) {
+    const { data: dueLines, error: dueError } = await supabase
+      .from('fixed_asset_depreciation_lines')
+      .select('asset_id, amount')
+      .eq('status', 'pending')
+      .lte('depreciate_on', asOf)
+      .limit(5000)
+
+    if (dueError) {
+      console.error(`[${requestId}] Failed to count due depreciation:`, dueError)
+      return jsonResponse(req, { success: false, error: 'Failed to count due depreciation' }, 500)
+    }
+
+    const lines = dueLines || []
+    return jsonResponse(req, {
+      success: true,
+      dry_run: true,
+      as_of: asOf,
+      assets_due: new Set(lines.map((line) => line.asset_id)).size,
+      lines_due: lines.length,
+      amount_due: Math.round(lines.reduce((sum, line) => sum + Number(line.amount || 0), 0) * 100) / 100,
+    })
+  }
+
+  const { data, error } = await supabase.rpc('post_due_depreciation', {
+    p_as_of: asOf,
+    p_limit: limit,
+  })
+
+  if (error) {
+    console.error(`[${requestId}] Failed to run depreciation:`, error)
+    return jsonResponse(req, { success: false, error: 'Failed to run depreciation' }, 500)
+  }
+
+  const rows = (data || []) as Array<{ out_asset_id: string; out_ledger_id: string; out_lines_posted: number; out_amount: number; out_error: string | null }>
+  const posted = rows.filter((row) => !row.out_error)
+
+  for (const row of rows) {
+    if (row.out_error) {
+      console.warn(`[${requestId}] Depreciation skipped asset ${row.out_asset_id}:`, row.out_error)
+    }
+  }
+
+  return jsonResponse(req, {
+    success: true,
+    as_of: asOf,
+    assets_processed: posted.length,
+    assets_failed: rows.length - posted.length,
+    lines_posted: posted.reduce((sum, row) => sum + Number(row.out_lines_posted || 0), 0),
+    amount_posted: Math.round(posted.reduce((sum, row) => sum + Number(row.out_amount || 0), 0) * 100) / 100,
+    assets: posted.map((row) => ({
+      asset_id: row.out_asset_id,
+      ledger_id: row.out_ledger_id,
+      lines_posted: Number(row.out_lines_posted),
+      amount: Number(row.out_amount),
+    })),
+  })
+})
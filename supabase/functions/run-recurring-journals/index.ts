@@ -0,0 +1,171 @@
+// Soledgic Edge Function: Run Recurring Journals
+// POST /run-recurring-journals
+// Posts the next instance of every recurring journal template that is due,
+// then the reversing entries of auto-reversing accruals and deferrals whose
+// reversal date has arrived (including instances posted by this run).
+// Designed to run on a schedule (e.g. daily via cron).
+//
+// Security:
+// - Requires Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY> or x-cron-secret
+// - Does NOT use createHandler (no ledger-key auth — this is a global job)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCorsHeaders, timingSafeEqual } from '../_shared/utils.ts'
+
+interface RunRecurringJournalsRequest {
+  limit?: number     // Max templates and max reversals per run (default 500)
+  dry_run?: boolean
+}
+
+function parseBearerToken(authHeader: string | null): string | null {
+  if (!authHeader) return null
+  const trimmed = authHeader.trim()
+  if (!trimmed.toLowerCase().startsWith('bearer ')) return null
+  const token = trimmed.slice('bearer '.length).trim()
+  return token.length > 0 ? token : null
+}
+
+function isAuthorizedCronRequest(req: Request, serviceRoleKey: string, cronSecret: string | undefined): boolean {
+  const bearer = parseBearerToken(req.headers.get('authorization'))
+  if (bearer && timingSafeEqual(bearer, serviceRoleKey)) {
+    return true
+  }
+
+  const providedCronSecret = (req.headers.get('x-cron-secret') || '').trim()
+  if (cronSecret && providedCronSecret && timingSafeEqual(providedCronSecret, cronSecret)) {
+    return true
+  }
+
+  return false
+}
+
+function jsonResponse(req: Request, body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'content-type': 'application/json' },
+  })
+}
+
+function sumAmount(rows: Array<{ out_amount: number }>): number {
+  return Math.round(rows.reduce((sum, row) => sum + Number(row.out_amount || 0), 0) * 100) / 100
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: getCorsHeaders(req) })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(req, { success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const serviceRoleKey = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').trim()
+  if (!serviceRoleKey) {
+    return jsonResponse(req, { success: false, error: 'Server misconfigured' }, 500)
+  }
+
+  if (!isAuthorizedCronRequest(req, serviceRoleKey, Deno.env.get('CRON_SECRET'))) {
+    return jsonResponse(req, { success: false, error: 'Unauthorized' }, 401)
+  }
+
+  let body: RunRecurringJournalsRequest = {}
+  try {
+    body = await req.json()
+  } catch {
+    // empty body is fine — defaults apply
+  }
+
+  const limit = Math.min(Math.max(Math.floor(body.limit ?? 500), 1), 5000)
+  const dryRun = body.dry_run === true
+  const requestId = crypto.randomUUID()
+  const asOf = new Date().toISOString().split('T')[0]
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  )
+
+  if (dryRun) {
+    const [templates, reversals] = await Promise.all([
+      supabase
+        .from('recurring_journal_templates')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'active')
+        .lte('next_run_date', asOf),
+      supabase
+        .from('adjustment_journals')
+        .select('id', { count: 'exact', head: true })
+        .is('reversed_at', null)
+        .lte('auto_reverse_on', asOf),
+    ])
+
+    if (templates.error || reversals.error) {
+      console.error(`[${requestId}] Failed to count due recurring journals:`, templates.error || reversals.error)
+      return jsonResponse(req, { success: false, error: 'Failed to count due recurring journals' }, 500)
+    }
+
+    return jsonResponse(req, {
+      success: true,
+      dry_run: true,
+      as_of: asOf,
+      templates_due: templates.count ?? 0,
+      reversals_due: reversals.count ?? 0,
+    })
+  }
+
+  const { data: runData, error: runError } = await supabase.rpc('run_due_recurring_journals', {
+    p_as_of: asOf,
+    p_limit: limit,
+  })
+
+  if (runError) {
+    console.error(`[${requestId}] Failed to run recurring journals:`, runError)
+    return jsonResponse(req, { success: false, error: 'Failed to run recurring journals' }, 500)
+  }
+
+  const { data: reversalData, error: reversalError } = await supabase.rpc('post_due_accrual_reversals', {
+    p_as_of: asOf,
+    p_limit: limit,
+  })
+
+  if (reversalError) {
+    console.error(`[${requestId}] Failed to post accrual reversals:`, reversalError)
+    return jsonResponse(req, { success: false, error: 'Failed to post accrual reversals' }, 500)
+  }
+
+  const runs = (runData || []) as Array<{ out_template_id: string; out_ledger_id: string; out_transaction_id: string | null; out_run_date: string; out_amount: number; out_error: string | null }>
+  const reversals = (reversalData || []) as Array<{ out_adjustment_id: string; out_ledger_id: string; out_transaction_id: string | null; out_amount: number; out_error: string | null }>
+  const posted = runs.filter((row) => row.out_transaction_id)
+  const reversed = reversals.filter((row) => row.out_transaction_id)
+
+  for (const row of [...runs, ...reversals]) {
+    if (row.out_error) {
+      console.warn(`[${requestId}] Recurring journal run skipped an entry:`, row.out_error)
+    }
+  }
+
+  return jsonResponse(req, {
+    success: true,
+    as_of: asOf,
+    instances_posted: posted.length,
+    instances_failed: runs.filter((row) => row.out_error).length,
+    instances_amount: sumAmount(posted),
+    reversals_posted: reversed.length,
+    reversals_failed: reversals.filter((row) => row.out_error).length,
+    reversals_amount: sumAmount(reversed),
+    instances: posted.map((row) => ({
+      template_id: row.out_template_id,
+      ledger_id: row.out_ledger_id,
+      transaction_id: row.out_transaction_id,
+      run_date: row.out_run_date,
+      amount: Number(row.out_amount),
+    })),
+    reversals: reversed.map((row) => ({
+      adjustment_id: row.out_adjustment_id,
+      ledger_id: row.out_ledger_id,
+      transaction_id: row.out_transaction_id,
+      amount: Number(row.out_amount),
+    })),
+  })
+})
@@ -0,0 +1,95 @@
+// SERVICE_ID: SVC_SALES_TAX_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  calculateSalesTaxResponse,
+  listSalesTaxNexusResponse,
+  listSalesTaxRatesResponse,
+  upsertSalesTaxNexusResponse,
+  upsertSalesTaxRatesResponse,
+} from '../_shared/sales-tax-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'sales-tax', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'sales-tax')
+    const url = new URL(req.url)
+
+    if (segments.length === 1 && segments[0] === 'rates') {
+      if (req.method === 'GET') {
+        const country = url.searchParams.get('country_code')
+        const state = url.searchParams.get('state_code')
+        const asOf = url.searchParams.get('as_of')
+
+        const response = await listSalesTaxRatesResponse(req, supabase, ledger, {
+          ...(country ? { country_code: country } : {}),
+          ...(state ? { state_code: state } : {}),
+          ...(asOf ? { as_of: asOf } : {}),
+        }, requestId)
+
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await upsertSalesTaxRatesResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1 && segments[0] === 'nexus') {
+      if (req.method === 'GET') {
+        const response = await listSalesTaxNexusResponse(req, supabase, ledger, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await upsertSalesTaxNexusResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1 && segments[0] === 'calculate') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body)
+      if (!payload) {
+        return errorResponse('Invalid JSON body', 400, req, requestId)
+      }
+
+      const response = await calculateSalesTaxResponse(req, supabase, ledger, payload, requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
@@ -1,6 +1,6 @@
 // Soledgic Edge Function: Submit Tax Info
 // POST /submit-tax-info
-// Collect W-9 style tax identity for a creator (last 4 of TIN only)
+// Collect W-9 or W-8BEN / W-8BEN-E tax identity for a creator (last 4 of TIN only)
 
 import {
   createHandler,
@@ -26,16 +26,28 @@ function taxInfoError(req: Request, requestId: string, error: string, status: nu
   }, status, req, requestId)
 }
 
+const VALID_FORM_TYPES = ['W-9', 'W-8BEN', 'W-8BEN-E'] as const
 const VALID_TAX_ID_TYPES = ['ssn', 'ein', 'itin'] as const
 const VALID_BUSINESS_TYPES = ['individual', 'sole_proprietor', 'llc', 'corporation', 'partnership'] as const
+// Statutory chapter 3 rate; treaty claims can only reduce it
+const MAX_TREATY_RATE_BPS = 3000
 
 interface SubmitTaxInfoRequest {
   participant_id?: string
   creator_id?: string
+  user_id?: string
+  form_type?: typeof VALID_FORM_TYPES[number]
   legal_name: string
-  tax_id_type: typeof VALID_TAX_ID_TYPES[number]
-  tax_id_last4: string
-  business_type: typeof VALID_BUSINESS_TYPES[number]
+  tax_id_type?: typeof VALID_TAX_ID_TYPES[number]
+  tax_id_last4?: string
+  business_type?: typeof VALID_BUSINESS_TYPES[number]
+  // W-8 only
+  foreign_tax_id_last4?: string
+  citizenship_country?: string
+  treaty_country?: string
+  treaty_article?: string
+  treaty_rate_bps?: number
+  signed_at?: string
   address?: {
     line1?: string
     line2?: string
@@ -69,18 +81,34 @@ const handler = createHandler(
       return taxInfoError(req, requestId, 'legal_name is required (max 255 characters)', 400, 'invalid_legal_name')
     }
 
-    // Validate tax_id_type
-    if (!VALID_TAX_ID_TYPES.includes(body.tax_id_type as any)) {
-      return taxInfoError(req, requestId, 'tax_id_type must be one of: ssn, ein, itin', 400, 'invalid_tax_id_type')
+    const formType = body.form_type ?? 'W-9'
+    if (!VALID_FORM_TYPES.includes(formType)) {
+      return taxInfoError(req, requestId, 'form_type must be one of: W-9, W-8BEN, W-8BEN-E', 400, 'invalid_form_type')
     }
+    const isW8 = formType !== 'W-9'
 
-    // Validate tax_id_last4
-    if (!body.tax_id_last4 || !/^\d{4}$/.test(body.tax_id_last4)) {
-      return taxInfoError(req, requestId, 'tax_id_last4 must be exactly 4 digits', 400, 'invalid_tax_id_last4')
+    // A US TIN is required on a W-9 and optional on a W-8
+    if (!isW8 || body.tax_id_type !== undefined || body.tax_id_last4 !== undefined) {
+      if (!VALID_TAX_ID_TYPES.includes(body.tax_id_type as any)) {
+        return taxInfoError(req, requestId, 'tax_id_type must be one of: ssn, ein, itin', 400, 'invalid_tax_id_type')
+      }
+
+      if (!body.tax_id_last4 || !/^\d{4}$/.test(body.tax_id_last4)) {
+        return taxInfoError(req, requestId, 'tax_id_last4 must be exactly 4 digits', 400, 'invalid_tax_id_last4')
+      }
+    }
+
+    // W-8BEN is for individuals; W-8BEN-E for entities
+    const businessType = body.business_type ?? (formType === 'W-8BEN' ? 'individual' : undefined)
+    if (formType === 'W-8BEN' && businessType !== 'individual') {
+      return taxInfoError(req, requestId, 'W-8BEN is for individuals; entities use W-8BEN-E', 400, 'invalid_business_type')
+    }
+    if (formType === 'W-8BEN-E' && (businessType === 'individual' || businessType === 'sole_proprietor')) {
+      return taxInfoError(req, requestId, 'W-8BEN-E is for entities; individuals use W-8BEN', 400, 'invalid_business_type')
     }
 
     // Validate business_type
-    if (!VALID_BUSINESS_TYPES.includes(body.business_type as any)) {
+    if (!VALID_BUSINESS_TYPES.includes(businessType as any)) {
       return taxInfoError(
         req,
         requestId,
@@ -90,6 +118,11 @@ const handler = createHandler(
       )
     }
 
+    const w8 = isW8 ? validateW8Fields(body) : null
+    if (w8 && 'error' in w8) {
+      return taxInfoError(req, requestId, w8.error, 400, w8.error_code)
+    }
+
     // Require certification
     if (body.certify !== true) {
       return taxInfoError(req, requestId, 'Certification is required (certify must be true)', 400, 'missing_certification')
@@ -116,7 +149,12 @@ const handler = createHandler(
     const addressCity = address.city ? validateString(address.city, 100) : null
     const addressState = address.state ? validateString(address.state, 50) : null
     const addressPostalCode = address.postal_code ? validateString(address.postal_code, 20) : null
-    const addressCountry = address.country ? validateString(address.country, 2) : 'US'
+    const addressCountry = address.country ? validateString(address.country, 2)?.toUpperCase() ?? null : 'US'
+
+    // W-8 filers certify a permanent residence address outside the US
+    if (isW8 && (!addressCountry || addressCountry === 'US' || !/^[A-Z]{2}$/.test(addressCountry))) {
+      return taxInfoError(req, requestId, 'W-8 forms require a non-US permanent residence address.country', 400, 'invalid_address_country')
+    }
 
     // Atomic supersede + insert via RPC (prevents orphaned submissions)
     const now = new Date().toISOString()
@@ -124,9 +162,9 @@ const handler = createHandler(
       p_ledger_id: ledger.id,
       p_entity_id: participantId,
       p_legal_name: legalName,
-      p_tax_id_type: body.tax_id_type,
-      p_tax_id_last4: body.tax_id_last4,
-      p_business_type: body.business_type,
+      p_tax_id_type: body.tax_id_type ?? null,
+      p_tax_id_last4: body.tax_id_last4 ?? null,
+      p_business_type: businessType,
       p_address_line1: addressLine1,
       p_address_line2: addressLine2,
       p_address_city: addressCity,
@@ -134,6 +172,13 @@ const handler = createHandler(
       p_address_postal_code: addressPostalCode,
       p_address_country: addressCountry,
       p_certified_by: participantId,
+      p_form_type: formType,
+      p_foreign_tax_id_last4: w8?.foreign_tax_id_last4 ?? null,
+      p_citizenship_country: w8?.citizenship_country ?? null,
+      p_treaty_country: w8?.treaty_country ?? null,
+      p_treaty_article: w8?.treaty_article ?? null,
+      p_treaty_rate_bps: w8?.treaty_rate_bps ?? null,
+      p_signed_at: w8?.signed_at ?? null,
     })
 
     if (rpcError || !rpcResult?.success) {
@@ -141,7 +186,25 @@ const handler = createHandler(
       return taxInfoError(req, requestId, 'Failed to submit tax info', 500, 'tax_info_submission_failed')
     }
 
-    const submission = { id: rpcResult.submission_id, entity_id: participantId, legal_name: legalName, tax_id_type: body.tax_id_type, tax_id_last4: body.tax_id_last4, business_type: body.business_type, certified_at: now }
+    const submission = {
+      id: rpcResult.submission_id,
+      entity_id: participantId,
+      form_type: formType,
+      legal_name: legalName,
+      tax_id_type: body.tax_id_type ?? null,
+      tax_id_last4: body.tax_id_last4 ?? null,
+      business_type: businessType,
+      certified_at: now,
+      ...(w8 ? {
+        citizenship_country: w8.citizenship_country,
+        treaty_country: w8.treaty_country,
+        treaty_article: w8.treaty_article,
+        treaty_rate_bps: w8.treaty_rate_bps,
+        // Sales withhold at this rate until the form expires, then at 30%
+        withholding_rate_bps: w8.treaty_rate_bps ?? MAX_TREATY_RATE_BPS,
+        expires_at: rpcResult.expires_at ?? null,
+      } : {}),
+    }
 
     // Audit log
     createAuditLogAsync(supabase, req, {
@@ -152,9 +215,12 @@ const handler = createHandler(
       actor_type: 'api',
       request_body: sanitizeForAudit({
         participant_id: participantId,
+        form_type: formType,
         tax_id_type: body.tax_id_type,
         tax_id_last4: body.tax_id_last4,
-        business_type: body.business_type,
+        business_type: businessType,
+        treaty_country: w8?.treaty_country,
+        treaty_rate_bps: w8?.treaty_rate_bps,
       }),
     }, requestId)
 
@@ -170,12 +236,14 @@ const handler = createHandler(
       }
     }
 
-    if (linkedUserId) {
+    // Shared profiles hold W-9 data only; a W-8 certifies to this ledger as
+    // withholding agent and is not carried across platforms.
+    if (linkedUserId && !isW8) {
       await upsertSharedTaxProfile(supabase, linkedUserId, {
         legal_name: legalName,
-        tax_id_type: body.tax_id_type,
-        tax_id_last4: body.tax_id_last4,
-        business_type: body.business_type,
+        tax_id_type: body.tax_id_type!,
+        tax_id_last4: body.tax_id_last4!,
+        business_type: businessType!,
         address: {
           line1: addressLine1,
           line2: addressLine2,
@@ -202,3 +270,69 @@ const handler = createHandler(
 )
 
 Deno.serve(handler)
+
+interface W8Fields {
+  foreign_tax_id_last4: string | null
+  citizenship_country: string
+  treaty_country: string | null
+  treaty_article: string | null
+  treaty_rate_bps: number | null
+  signed_at: string | null
+}
+
+function validateW8Fields(body: SubmitTaxInfoRequest): W8Fields | { error: string; error_code: string } {
+  const citizenshipCountry = typeof body.citizenship_country === 'string' ? body.citizenship_country.trim().toUpperCase() : ''
+  if (!/^[A-Z]{2}$/.test(citizenshipCountry)) {
+    return { error: 'citizenship_country must be an ISO 3166-1 alpha-2 code', error_code: 'invalid_citizenship_country' }
+  }
+
+  let foreignTaxIdLast4: string | null = null
+  if (body.foreign_tax_id_last4 !== undefined) {
+    foreignTaxIdLast4 = typeof body.foreign_tax_id_last4 === 'string' ? body.foreign_tax_id_last4.trim().toUpperCase() : ''
+    if (!/^[A-Z0-9]{1,4}$/.test(foreignTaxIdLast4)) {
+      return { error: 'foreign_tax_id_last4 must be the last 1-4 characters of the foreign TIN', error_code: 'invalid_foreign_tax_id_last4' }
+    }
+  }
+
+  let treatyCountry: string | null = null
+  let treatyArticle: string | null = null
+  let treatyRateBps: number | null = null
+  if (body.treaty_country !== undefined || body.treaty_rate_bps !== undefined) {
+    treatyCountry = typeof body.treaty_country === 'string' ? body.treaty_country.trim().toUpperCase() : ''
+    if (!/^[A-Z]{2}$/.test(treatyCountry) || treatyCountry === 'US') {
+      return { error: 'treaty_country must be a non-US ISO 3166-1 alpha-2 code', error_code: 'invalid_treaty_country' }
+    }
+
+    if (
+      typeof body.treaty_rate_bps !== 'number'
+      || !Number.isInteger(body.treaty_rate_bps)
+      || body.treaty_rate_bps < 0
+      || body.treaty_rate_bps > MAX_TREATY_RATE_BPS
+    ) {
+      return { error: `treaty_rate_bps must be an integer from 0 to ${MAX_TREATY_RATE_BPS}`, error_code: 'invalid_treaty_rate' }
+    }
+    treatyRateBps = body.treaty_rate_bps
+
+    treatyArticle = body.treaty_article ? validateString(body.treaty_article, 50) : null
+    if (!treatyArticle) {
+      return { error: 'treaty_article is required to claim a treaty rate', error_code: 'missing_treaty_article' }
+    }
+  }
+
+  let signedAt: string | null = null
+  if (body.signed_at !== undefined) {
+    signedAt = typeof body.signed_at === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(body.signed_at) ? body.signed_at : ''
+    if (!signedAt || Number.isNaN(Date.parse(signedAt)) || signedAt > new Date().toISOString().slice(0, 10)) {
+      return { error: 'signed_at must be a YYYY-MM-DD date that is not in the future', error_code: 'invalid_signed_at' }
+    }
+  }
+
+  return {
+    foreign_tax_id_last4: foreignTaxIdLast4,
+    citizenship_country: citizenshipCountry,
+    treaty_country: treatyCountry,
+    treaty_article: treatyArticle,
+    treaty_rate_bps: treatyRateBps,
+    signed_at: signedAt,
+  }
+}
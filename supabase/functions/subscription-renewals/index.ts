@@ -0,0 +1,192 @@
+// Soledgic Edge Function: Subscription Renewals
+// POST /subscription-renewals
+// Charges subscriptions whose period has ended, retries past_due ones on
+// their dunning schedule, ends subscriptions set to cancel at period end,
+// and re-books charges stuck in 'charged_pending_ledger'.
+// Designed to run on a schedule (e.g. every 15 minutes via cron).
+//
+// Security:
+// - Requires Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY> or x-cron-secret
+// - Does NOT use createHandler (no ledger-key auth — this is a global job)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getCorsHeaders, LedgerContext, timingSafeEqual } from '../_shared/utils.ts'
+import {
+  getSubscriptionPaymentProvider,
+  renewSubscription,
+  retrySubscriptionChargeLedger,
+  type SubscriptionRenewalOutcome,
+} from '../_shared/subscription-service.ts'
+
+interface RenewalRequest {
+  limit?: number     // Max subscriptions to claim per invocation (default 50)
+  dry_run?: boolean
+}
+
+function parseBearerToken(authHeader: string | null): string | null {
+  if (!authHeader) return null
+  const trimmed = authHeader.trim()
+  if (!trimmed.toLowerCase().startsWith('bearer ')) return null
+  const token = trimmed.slice('bearer '.length).trim()
+  return token.length > 0 ? token : null
+}
+
+function isAuthorizedCronRequest(req: Request, serviceRoleKey: string, cronSecret: string | undefined): boolean {
+  const bearer = parseBearerToken(req.headers.get('authorization'))
+  if (bearer && timingSafeEqual(bearer, serviceRoleKey)) {
+    return true
+  }
+
+  const providedCronSecret = (req.headers.get('x-cron-secret') || '').trim()
+  if (cronSecret && providedCronSecret && timingSafeEqual(providedCronSecret, cronSecret)) {
+    return true
+  }
+
+  return false
+}
+
+function jsonResponse(req: Request, body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'content-type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: getCorsHeaders(req) })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(req, { success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const serviceRoleKey = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').trim()
+  if (!serviceRoleKey) {
+    return jsonResponse(req, { success: false, error: 'Server misconfigured' }, 500)
+  }
+
+  if (!isAuthorizedCronRequest(req, serviceRoleKey, Deno.env.get('CRON_SECRET'))) {
+    return jsonResponse(req, { success: false, error: 'Unauthorized' }, 401)
+  }
+
+  let body: RenewalRequest = {}
+  try {
+    body = await req.json()
+  } catch {
+    // empty body is fine — defaults apply
+  }
+
+  const limit = Math.min(Math.max(Math.floor(body.limit ?? 50), 1), 200)
+  const dryRun = body.dry_run === true
+  const requestId = crypto.randomUUID()
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    { auth: { persistSession: false } }
+  )
+
+  if (dryRun) {
+    const nowIso = new Date().toISOString()
+    const { data: due, error: dueError } = await supabase
+      .from('buyer_subscriptions')
+      .select('id, ledger_id, status, current_period_end, next_retry_at')
+      .or(`and(status.eq.active,current_period_end.lte.${nowIso}),and(status.eq.past_due,next_retry_at.lte.${nowIso})`)
+      .limit(limit)
+
+    if (dueError) {
+      console.error(`[${requestId}] Failed to list due subscriptions:`, dueError)
+      return jsonResponse(req, { success: false, error: 'Failed to list due subscriptions' }, 500)
+    }
+
+    return jsonResponse(req, {
+      success: true,
+      dry_run: true,
+      due_count: (due || []).length,
+      subscription_ids: (due || []).map((s) => s.id),
+    })
+  }
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_due_subscriptions', {
+    p_limit: limit,
+  })
+
+  if (claimError) {
+    console.error(`[${requestId}] Failed to claim due subscriptions:`, claimError)
+    return jsonResponse(req, { success: false, error: 'Failed to claim due subscriptions' }, 500)
+  }
+
+  const { data: pendingCharges } = await supabase
+    .from('subscription_charges')
+    .select('id, ledger_id')
+    .eq('status', 'charged_pending_ledger')
+    .order('updated_at', { ascending: true })
+    .limit(limit)
+
+  const claimedRows = (claimed || []) as Array<{ out_subscription_id: string; out_ledger_id: string }>
+  const ledgerIds = Array.from(new Set([
+    ...claimedRows.map((row) => row.out_ledger_id),
+    ...(pendingCharges || []).map((row) => row.ledger_id),
+  ]))
+
+  const ledgers = new Map<string, LedgerContext>()
+  if (ledgerIds.length > 0) {
+    const { data: ledgerRows } = await supabase
+      .from('ledgers')
+      .select('id, business_name, ledger_mode, livemode, status, settings, organization_id')
+      .in('id', ledgerIds)
+    for (const ledger of ledgerRows || []) ledgers.set(ledger.id, ledger as LedgerContext)
+  }
+
+  const results: SubscriptionRenewalOutcome[] = []
+  const errors: Array<{ subscription_id: string; error: string }> = []
+
+  for (const row of claimedRows) {
+    const ledger = ledgers.get(row.out_ledger_id)
+    if (!ledger || ledger.status !== 'active') {
+      // The claim expires on its own; the subscription is picked up once the ledger is active again
+      results.push({ subscription_id: row.out_subscription_id, outcome: 'skipped' })
+      continue
+    }
+
+    try {
+      const provider = getSubscriptionPaymentProvider(ledger)
+      results.push(await renewSubscription(supabase, ledger, provider, row.out_subscription_id, requestId))
+    } catch (err) {
+      console.error(`[${requestId}] Renewal failed for subscription ${row.out_subscription_id}:`, err)
+      errors.push({
+        subscription_id: row.out_subscription_id,
+        error: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+
+  let rebooked = 0
+  for (const charge of pendingCharges || []) {
+    const ledger = ledgers.get(charge.ledger_id)
+    if (!ledger) continue
+
+    try {
+      if (await retrySubscriptionChargeLedger(supabase, ledger, charge.id, requestId)) rebooked++
+    } catch (err) {
+      console.error(`[${requestId}] Ledger retry failed for subscription charge ${charge.id}:`, err)
+    }
+  }
+
+  const count = (outcome: SubscriptionRenewalOutcome['outcome']) =>
+    results.filter((result) => result.outcome === outcome).length
+
+  return jsonResponse(req, {
+    success: true,
+    processed: claimedRows.length,
+    renewed: count('renewed'),
+    payment_failed: count('payment_failed'),
+    canceled: count('canceled'),
+    skipped: count('skipped'),
+    errors: errors.length,
+    pending_ledger_rebooked: rebooked,
+    results,
+    ...(errors.length > 0 ? { error_details: errors } : {}),
+  })
+})
@@ -0,0 +1,163 @@
+// SERVICE_ID: SVC_SUBSCRIPTIONS_ROUTER
+import {
+  createHandler,
+  errorResponse,
+  LedgerContext,
+} from '../_shared/utils.ts'
+import {
+  asJsonObject,
+  getNumberParam,
+  getResourceSegments,
+  respondWithResult,
+} from '../_shared/treasury-resource.ts'
+import {
+  archiveSubscriptionPlanResponse,
+  cancelSubscriptionResponse,
+  changeSubscriptionPlanResponse,
+  createSubscriptionPlanResponse,
+  createSubscriptionResponse,
+  getSubscriptionPaymentProvider,
+  getSubscriptionResponse,
+  listSubscriptionPlansResponse,
+  listSubscriptionsResponse,
+  updateSubscriptionPaymentMethodResponse,
+} from '../_shared/subscription-service.ts'
+
+const handler = createHandler(
+  { endpoint: 'subscriptions', requireAuth: true, rateLimit: true },
+  async (req, supabase, ledger: LedgerContext | null, body, { requestId }) => {
+    if (!ledger) {
+      return errorResponse('Ledger not found', 401, req, requestId)
+    }
+
+    const segments = getResourceSegments(req, 'subscriptions')
+    const url = new URL(req.url)
+
+    if (segments[0] === 'plans') {
+      if (segments.length === 1) {
+        if (req.method === 'GET') {
+          const participantId = url.searchParams.get('participant_id')
+          const status = url.searchParams.get('status')
+          const limit = getNumberParam(url, 'limit')
+
+          const response = await listSubscriptionPlansResponse(req, supabase, ledger, {
+            ...(participantId ? { participant_id: participantId } : {}),
+            ...(status ? { status } : {}),
+            ...(limit !== undefined ? { limit } : {}),
+          }, requestId)
+
+          return respondWithResult(req, requestId, response)
+        }
+
+        if (req.method === 'POST') {
+          const payload = asJsonObject(body)
+          if (!payload) {
+            return errorResponse('Invalid JSON body', 400, req, requestId)
+          }
+
+          const response = await createSubscriptionPlanResponse(req, supabase, ledger, payload, requestId)
+          return respondWithResult(req, requestId, response)
+        }
+
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      if (segments.length === 3 && segments[2] === 'archive') {
+        if (req.method !== 'POST') {
+          return errorResponse('Method not allowed', 405, req, requestId)
+        }
+
+        const response = await archiveSubscriptionPlanResponse(req, supabase, ledger, segments[1], requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Not found', 404, req, requestId)
+    }
+
+    if (segments.length === 0) {
+      if (req.method === 'GET') {
+        const status = url.searchParams.get('status')
+        const buyerId = url.searchParams.get('buyer_id')
+        const participantId = url.searchParams.get('participant_id')
+        const planId = url.searchParams.get('plan_id')
+        const limit = getNumberParam(url, 'limit')
+
+        const response = await listSubscriptionsResponse(req, supabase, ledger, {
+          ...(status ? { status } : {}),
+          ...(buyerId ? { buyer_id: buyerId } : {}),
+          ...(participantId ? { participant_id: participantId } : {}),
+          ...(planId ? { plan_id: planId } : {}),
+          ...(limit !== undefined ? { limit } : {}),
+        }, requestId)
+
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const response = await createSubscriptionResponse(
+          req,
+          supabase,
+          ledger,
+          payload,
+          requestId,
+          getSubscriptionPaymentProvider(ledger),
+        )
+        return respondWithResult(req, requestId, response)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    if (segments.length === 1) {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const response = await getSubscriptionResponse(req, supabase, ledger, segments[0], requestId)
+      return respondWithResult(req, requestId, response)
+    }
+
+    if (segments.length === 2) {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body ?? {})
+      if (!payload) {
+        return errorResponse('Invalid JSON body', 400, req, requestId)
+      }
+
+      if (segments[1] === 'change-plan') {
+        const response = await changeSubscriptionPlanResponse(
+          req,
+          supabase,
+          ledger,
+          segments[0],
+          payload,
+          requestId,
+          getSubscriptionPaymentProvider(ledger),
+        )
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (segments[1] === 'cancel') {
+        const response = await cancelSubscriptionResponse(req, supabase, ledger, segments[0], payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+
+      if (segments[1] === 'payment-method') {
+        const response = await updateSubscriptionPaymentMethodResponse(req, supabase, ledger, segments[0], payload, requestId)
+        return respondWithResult(req, requestId, response)
+      }
+    }
+
+    return errorResponse('Not found', 404, req, requestId)
+  },
+)
+
+Deno.serve(handler)
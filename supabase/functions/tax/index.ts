@@ -20,9 +20,23 @@ import {
   getTaxSummaryResponse,
   issueCorrectedTaxDocumentResponse,
   listTaxDocumentsResponse,
+  listTaxFormThresholdsResponse,
   markTaxDocumentFiledResponse,
   markTaxDocumentsFiledBulkResponse,
 } from '../_shared/tax-service.ts'
+import {
+  createTaxFilingResponse,
+  getTaxFilingResponse,
+  listTaxFilingsResponse,
+} from '../_shared/tax-filing-service.ts'
+import {
+  getBackupWithholdingStateResponse,
+  importBackupWithholdingNoticesResponse,
+  listBackupWithholdingNoticesResponse,
+  listBackupWithholdingStatesResponse,
+  markBNoticeSentResponse,
+  resolveBackupWithholdingNoticeResponse,
+} from '../_shared/backup-withholding-service.ts'
 
 const handler = createHandler(
   { endpoint: 'tax', requireAuth: true, rateLimit: true },
@@ -55,8 +69,10 @@ const handler = createHandler(
 
     if (segments.length === 1 && segments[0] === 'documents') {
       if (req.method === 'GET') {
+        const formType = url.searchParams.get('form_type')
         const result = await listTaxDocumentsResponse(req, supabase, ledger, {
           tax_year: getNumberParam(url, 'tax_year'),
+          ...(formType ? { form_type: formType } : {}),
         }, requestId)
         return respondWithResult(req, requestId, result)
       }
@@ -64,6 +80,53 @@ const handler = createHandler(
       return errorResponse('Method not allowed', 405, req, requestId)
     }
 
+    // GET /tax/thresholds?tax_year=
+    if (segments.length === 1 && segments[0] === 'thresholds') {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const result = await listTaxFormThresholdsResponse(
+        req,
+        supabase,
+        ledger,
+        getNumberParam(url, 'tax_year'),
+        requestId,
+      )
+      return respondWithResult(req, requestId, result)
+    }
+
+    // POST /tax/filings — generate a FIRE or IRIS submission file
+    // GET  /tax/filings?tax_year=
+    if (segments.length === 1 && segments[0] === 'filings') {
+      if (req.method === 'POST') {
+        const payload = asJsonObject(body)
+        if (!payload) {
+          return errorResponse('Invalid JSON body', 400, req, requestId)
+        }
+
+        const result = await createTaxFilingResponse(req, supabase, ledger, payload, requestId)
+        return respondWithResult(req, requestId, result)
+      }
+
+      if (req.method === 'GET') {
+        const result = await listTaxFilingsResponse(req, supabase, ledger, getNumberParam(url, 'tax_year'), requestId)
+        return respondWithResult(req, requestId, result)
+      }
+
+      return errorResponse('Method not allowed', 405, req, requestId)
+    }
+
+    // GET /tax/filings/{id} — filing record with a fresh download URL
+    if (segments.length === 2 && segments[0] === 'filings') {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const result = await getTaxFilingResponse(req, supabase, ledger, segments[1], requestId)
+      return respondWithResult(req, requestId, result)
+    }
+
     // POST /tax/documents/mark-filed (bulk — marks all exported for the year)
     if (segments.length === 2 && segments[0] === 'documents' && segments[1] === 'mark-filed') {
       if (req.method !== 'POST') {
@@ -159,6 +222,80 @@ const handler = createHandler(
       return respondWithResult(req, requestId, result)
     }
 
+    // GET /tax/backup-withholding?status= — participants with active backup withholding
+    if (segments.length === 1 && segments[0] === 'backup-withholding') {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const result = await listBackupWithholdingStatesResponse(req, supabase, ledger, url.searchParams.get('status'), requestId)
+      return respondWithResult(req, requestId, result)
+    }
+
+    // GET /tax/backup-withholding/notices?status=&tax_year=
+    if (segments.length === 2 && segments[0] === 'backup-withholding' && segments[1] === 'notices') {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const result = await listBackupWithholdingNoticesResponse(req, supabase, ledger, {
+        status: url.searchParams.get('status'),
+        tax_year: getNumberParam(url, 'tax_year'),
+      }, requestId)
+      return respondWithResult(req, requestId, result)
+    }
+
+    // POST /tax/backup-withholding/notices/import — CP2100 / CP2100A list
+    if (segments.length === 3 && segments[0] === 'backup-withholding' && segments[1] === 'notices' && segments[2] === 'import') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body)
+      if (!payload) {
+        return errorResponse('Invalid JSON body', 400, req, requestId)
+      }
+
+      const result = await importBackupWithholdingNoticesResponse(req, supabase, ledger, payload, requestId)
+      return respondWithResult(req, requestId, result)
+    }
+
+    // POST /tax/backup-withholding/notices/{id}/b-notice-sent
+    if (segments.length === 4 && segments[0] === 'backup-withholding' && segments[1] === 'notices' && segments[3] === 'b-notice-sent') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body) || {}
+      const result = await markBNoticeSentResponse(req, supabase, ledger, segments[2], payload, requestId)
+      return respondWithResult(req, requestId, result)
+    }
+
+    // POST /tax/backup-withholding/notices/{id}/resolve
+    if (segments.length === 4 && segments[0] === 'backup-withholding' && segments[1] === 'notices' && segments[3] === 'resolve') {
+      if (req.method !== 'POST') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const payload = asJsonObject(body)
+      if (!payload) {
+        return errorResponse('Invalid JSON body', 400, req, requestId)
+      }
+
+      const result = await resolveBackupWithholdingNoticeResponse(req, supabase, ledger, segments[2], payload, requestId)
+      return respondWithResult(req, requestId, result)
+    }
+
+    // GET /tax/backup-withholding/{participant_id} — current state and notices
+    if (segments.length === 2 && segments[0] === 'backup-withholding') {
+      if (req.method !== 'GET') {
+        return errorResponse('Method not allowed', 405, req, requestId)
+      }
+
+      const result = await getBackupWithholdingStateResponse(req, supabase, ledger, segments[1], requestId)
+      return respondWithResult(req, requestId, result)
+    }
+
     if (segments.length === 2 && segments[0] === 'summaries') {
       if (req.method !== 'GET') {
         return errorResponse('Method not allowed', 405, req, requestId)
@@ -10,11 +10,13 @@ import {
   getClientIp,
   LedgerContext
 } from '../_shared/utils.ts'
+import { AccountCurrencyBalance, getFunctionalCurrency, loadForeignCurrencyBalances } from '../_shared/currency.ts'
 
 interface TrialBalanceResponse {
   success: boolean
   ledger_id?: string
   as_of?: string
+  functional_currency?: string
   accounts?: Array<{
     account_id: string
     account_type: string
@@ -22,6 +24,7 @@ interface TrialBalanceResponse {
     name: string
     balance: number
     balance_type: 'debit' | 'credit'
+    currency_balances?: AccountCurrencyBalance[]
   }>
   totals?: {
     total_debits: number
@@ -29,6 +32,8 @@ interface TrialBalanceResponse {
     difference: number
     is_balanced: boolean
   }
+  // Net open position per non-functional currency, in that currency
+  currency_exposure?: Record<string, number>
   integrity?: {
     is_balanced: boolean
     account_count: number
@@ -70,6 +75,18 @@ const handler = createHandler(
       return errorResponse('Failed to fetch accounts', 500, req, requestId)
     }
 
+    // Balances are in the functional currency; foreign positions are broken out
+    const functionalCurrency = getFunctionalCurrency(ledger)
+    const currencyBalances = await loadForeignCurrencyBalances(supabase, ledger.id, functionalCurrency)
+    const currencyExposure: Record<string, number> = {}
+    for (const list of currencyBalances.values()) {
+      for (const position of list) {
+        if (position.currency === functionalCurrency) continue
+        currencyExposure[position.currency] =
+          Math.round(((currencyExposure[position.currency] || 0) + position.original_balance) * 10000) / 10000
+      }
+    }
+
     // Calculate totals
     let totalDebits = 0
     let totalCredits = 0
@@ -90,7 +107,8 @@ const handler = createHandler(
         entity_id: acc.entity_id,
         name: acc.name,
         balance: Math.abs(balance),
-        balance_type: isDebit ? 'debit' : 'credit' as const
+        balance_type: isDebit ? 'debit' : 'credit' as const,
+        ...(currencyBalances.has(acc.id) ? { currency_balances: currencyBalances.get(acc.id) } : {}),
       }
     }) || []
 
@@ -141,6 +159,7 @@ const handler = createHandler(
       success: true,
       ledger_id: ledger.id,
       as_of: asOfDate,
+      functional_currency: functionalCurrency,
       accounts: formattedAccounts,
       totals: {
         total_debits: totalDebits,
@@ -148,6 +167,7 @@ const handler = createHandler(
         difference,
         is_balanced: isBalanced
       },
+      currency_exposure: currencyExposure,
       integrity: {
         is_balanced: isBalanced,
         account_count: accounts?.length || 0,
@@ -0,0 +1,731 @@
+-- Multi-currency ledgers with FX revaluation.
+-- Scope:
+-- 1. Each ledger books in one functional currency (ledgers.default_currency,
+--    mirrored in settings.currency). Balances, entries.amount and
+--    transactions.amount are always functional-currency values.
+-- 2. Transactions may be denominated in another currency. The transaction
+--    currency, original amount and FX rate are stored on the transaction, and
+--    each entry keeps its transaction-currency amount (entries.currency +
+--    entries.original_amount) so reports can show both views.
+-- 3. Period-end revaluation restates open foreign-currency positions on
+--    monetary accounts at the closing rate and books the difference to
+--    unrealized_fx_gain_loss. Positions that have been fully settled but still
+--    carry a functional residual are cleared to realized_fx_gain_loss.
+
+-- ============================================================
+-- 1. Functional currency
+-- ============================================================
+UPDATE public.ledgers
+SET default_currency = UPPER(settings->>'currency')
+WHERE settings ? 'currency'
+  AND COALESCE(settings->>'currency', '') ~ '^[A-Za-z]{3}$'
+  AND default_currency IS DISTINCT FROM UPPER(settings->>'currency');
+
+UPDATE public.ledgers
+SET default_currency = 'USD'
+WHERE default_currency IS NULL;
+
+ALTER TABLE public.ledgers
+  ALTER COLUMN default_currency SET NOT NULL;
+
+ALTER TABLE public.ledgers
+  DROP CONSTRAINT IF EXISTS ledgers_default_currency_check;
+
+ALTER TABLE public.ledgers
+  ADD CONSTRAINT ledgers_default_currency_check
+  CHECK (default_currency ~ '^[A-Z]{3}$');
+
+COMMENT ON COLUMN public.ledgers.default_currency IS 'Functional currency: every balance, entry amount and report total on this ledger is booked in it';
+
+CREATE OR REPLACE FUNCTION public.ledger_functional_currency(p_ledger_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  SELECT COALESCE(
+    NULLIF(UPPER(l.settings->>'currency'), ''),
+    l.default_currency,
+    'USD'
+  )
+  FROM public.ledgers l
+  WHERE l.id = p_ledger_id
+$function$;
+
+CREATE OR REPLACE FUNCTION public.currency_minor_unit_factor(p_currency text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO ''
+AS $function$
+  SELECT CASE
+    WHEN UPPER(COALESCE(p_currency, 'USD')) IN ('JPY', 'KRW', 'VND') THEN 1
+    WHEN UPPER(COALESCE(p_currency, 'USD')) IN ('BHD', 'IQD', 'JOD', 'KWD', 'OMR', 'TND') THEN 1000
+    ELSE 100
+  END
+$function$;
+
+REVOKE ALL ON FUNCTION public.ledger_functional_currency(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ledger_functional_currency(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.currency_minor_unit_factor(text) TO service_role;
+
+-- ============================================================
+-- 2. Transaction-currency columns
+-- ============================================================
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS original_currency text,
+  ADD COLUMN IF NOT EXISTS original_amount numeric(18,4),
+  ADD COLUMN IF NOT EXISTS fx_rate numeric(20,10);
+
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_fx_rate_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_fx_rate_check
+  CHECK (fx_rate IS NULL OR fx_rate > 0);
+
+COMMENT ON COLUMN public.transactions.original_currency IS 'Currency the transaction was denominated in (NULL = functional currency)';
+COMMENT ON COLUMN public.transactions.original_amount IS 'Gross amount in original_currency, major units';
+COMMENT ON COLUMN public.transactions.fx_rate IS 'Functional-currency units per one unit of original_currency at booking';
+
+ALTER TABLE public.entries
+  ADD COLUMN IF NOT EXISTS original_amount numeric(18,4);
+
+COMMENT ON COLUMN public.entries.currency IS 'Transaction currency of this entry; amount is always functional currency';
+COMMENT ON COLUMN public.entries.original_amount IS 'Entry amount in entries.currency, major units (NULL = same as amount)';
+
+CREATE INDEX IF NOT EXISTS idx_entries_account_currency
+  ON public.entries (account_id, currency);
+
+-- ============================================================
+-- 3. FX gain/loss account types
+-- ============================================================
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS chk_valid_account_type;
+ALTER TABLE public.accounts
+  ADD CONSTRAINT chk_valid_account_type CHECK (account_type IN (
+    'cash', 'bank', 'bank_account', 'petty_cash', 'undeposited_funds',
+    'accounts_receivable', 'inventory', 'prepaid_expense',
+    'fixed_asset', 'property', 'equipment', 'asset', 'other_asset',
+    'expense', 'processing_fees', 'cost_of_goods_sold', 'cogs',
+    'payroll', 'rent', 'utilities', 'insurance', 'depreciation',
+    'taxes', 'interest_expense', 'other_expense', 'loss',
+    'owner_draw',
+    'refund_reserve', 'tax_reserve', 'reserve',
+    'accounts_payable', 'creator_balance', 'creator_pool',
+    'sales_tax_payable', 'tax_payable', 'unearned_revenue', 'credit_card',
+    'owner_equity',
+    'revenue', 'platform_revenue', 'soledgic_fee', 'income', 'other_income',
+    'user_wallet',
+    'stripe_clearing', 'buyer_wallet',
+    'unrealized_fx_gain_loss', 'realized_fx_gain_loss'
+  ));
+
+-- ============================================================
+-- 4. Revaluation runs
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.fx_revaluation_runs (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  as_of_date date NOT NULL,
+  functional_currency text NOT NULL,
+  rates jsonb NOT NULL DEFAULT '{}'::jsonb,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  unrealized_amount numeric(14,2) NOT NULL DEFAULT 0,  -- net gain (+) / loss (-)
+  realized_amount numeric(14,2) NOT NULL DEFAULT 0,    -- net gain (+) / loss (-)
+  position_count integer NOT NULL DEFAULT 0,
+  positions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT fx_revaluation_runs_ledger_date_key UNIQUE (ledger_id, as_of_date)
+);
+
+COMMENT ON TABLE public.fx_revaluation_runs IS 'Period-end FX revaluations: one per ledger and as-of date';
+
+CREATE INDEX IF NOT EXISTS idx_fx_revaluation_runs_ledger
+  ON public.fx_revaluation_runs (ledger_id, as_of_date DESC);
+
+ALTER TABLE public.fx_revaluation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS fx_revaluation_runs_service_all ON public.fx_revaluation_runs;
+CREATE POLICY fx_revaluation_runs_service_all ON public.fx_revaluation_runs
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS fx_revaluation_runs_read_org_members ON public.fx_revaluation_runs;
+CREATE POLICY fx_revaluation_runs_read_org_members
+  ON public.fx_revaluation_runs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = fx_revaluation_runs.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 5. Per-currency balances
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.account_currency_balances(
+  p_ledger_id uuid,
+  p_as_of_date timestamp with time zone DEFAULT now()
+)
+RETURNS TABLE(
+  account_id uuid,
+  account_type text,
+  currency text,
+  original_balance numeric,
+  functional_balance numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  SELECT
+    a.id AS account_id,
+    a.account_type,
+    COALESCE(e.currency, public.ledger_functional_currency(p_ledger_id)) AS currency,
+    COALESCE(SUM(
+      CASE WHEN e.entry_type = 'debit'
+        THEN COALESCE(e.original_amount, e.amount)
+        ELSE -COALESCE(e.original_amount, e.amount)
+      END
+    ), 0)::NUMERIC(18,4) AS original_balance,
+    COALESCE(SUM(
+      CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE -e.amount END
+    ), 0)::NUMERIC(14,2) AS functional_balance
+  FROM public.accounts a
+  JOIN public.entries e ON e.account_id = a.id
+  JOIN public.transactions t ON t.id = e.transaction_id
+  WHERE a.ledger_id = p_ledger_id
+    AND t.ledger_id = p_ledger_id
+    AND t.status NOT IN ('voided', 'reversed')
+    AND t.created_at <= p_as_of_date
+  GROUP BY a.id, a.account_type, COALESCE(e.currency, public.ledger_functional_currency(p_ledger_id))
+$function$;
+
+REVOKE ALL ON FUNCTION public.account_currency_balances(uuid, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.account_currency_balances(uuid, timestamp with time zone) TO service_role;
+
+-- ============================================================
+-- 6. Revaluation
+-- ============================================================
+-- Monetary account types whose foreign-currency positions are revalued.
+-- Participant balances are excluded: they are converted into the functional
+-- currency at the booking rate and settle in it.
+CREATE OR REPLACE FUNCTION public.run_fx_revaluation(
+  p_ledger_id uuid,
+  p_as_of_date date,
+  p_rates jsonb,
+  p_created_by text DEFAULT NULL,
+  p_account_types text[] DEFAULT NULL
+)
+RETURNS TABLE(
+  out_run_id uuid,
+  out_transaction_id uuid,
+  out_unrealized_amount numeric,
+  out_realized_amount numeric,
+  out_position_count integer
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_functional text;
+  v_existing public.fx_revaluation_runs%ROWTYPE;
+  v_position record;
+  v_rate numeric;
+  v_target numeric(14,2);
+  v_adjustment numeric(14,2);
+  v_is_realized boolean;
+  v_tx_id uuid;
+  v_run_id uuid;
+  v_unrealized_account_id uuid;
+  v_realized_account_id uuid;
+  v_unrealized_total numeric(14,2) := 0;
+  v_realized_total numeric(14,2) := 0;
+  v_debit_total numeric(14,2) := 0;
+  v_positions jsonb := '[]'::jsonb;
+  v_count integer := 0;
+  v_cutoff timestamptz;
+  v_account_types text[] := COALESCE(p_account_types, ARRAY[
+    'cash', 'bank', 'bank_account', 'undeposited_funds',
+    'accounts_receivable', 'accounts_payable',
+    'sales_tax_payable', 'tax_payable', 'stripe_clearing'
+  ]);
+BEGIN
+  IF p_ledger_id IS NULL OR p_as_of_date IS NULL THEN
+    RAISE EXCEPTION 'ledger_id and as_of_date are required';
+  END IF;
+
+  IF p_rates IS NULL OR jsonb_typeof(p_rates) <> 'object' THEN
+    RAISE EXCEPTION 'rates must be an object keyed by currency code';
+  END IF;
+
+  v_functional := public.ledger_functional_currency(p_ledger_id);
+  IF v_functional IS NULL THEN
+    RAISE EXCEPTION 'Ledger % not found', p_ledger_id;
+  END IF;
+
+  -- Serialize revaluations per ledger.
+  PERFORM pg_advisory_xact_lock(hashtext('fx_revaluation:' || p_ledger_id::text));
+
+  SELECT * INTO v_existing
+  FROM public.fx_revaluation_runs
+  WHERE ledger_id = p_ledger_id AND as_of_date = p_as_of_date;
+
+  IF v_existing.id IS NOT NULL THEN
+    RETURN QUERY SELECT v_existing.id, v_existing.transaction_id,
+      v_existing.unrealized_amount, v_existing.realized_amount, v_existing.position_count;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.accounting_periods ap
+    WHERE ap.ledger_id = p_ledger_id
+      AND ap.status IN ('closed', 'locked')
+      AND p_as_of_date BETWEEN ap.period_start AND ap.period_end
+  ) THEN
+    RAISE EXCEPTION 'Cannot revalue into a closed period (%)', p_as_of_date;
+  END IF;
+
+  v_cutoff := (p_as_of_date + 1)::timestamptz;
+
+  FOR v_position IN
+    SELECT b.account_id, b.account_type, b.currency, b.original_balance, b.functional_balance
+    FROM public.account_currency_balances(p_ledger_id, v_cutoff - interval '1 microsecond') b
+    WHERE b.currency <> v_functional
+      AND b.account_type = ANY(v_account_types)
+    ORDER BY b.account_type, b.account_id, b.currency
+  LOOP
+    v_is_realized := v_position.original_balance = 0;
+
+    IF v_is_realized THEN
+      v_target := 0;
+      v_rate := NULL;
+    ELSE
+      IF NOT (p_rates ? v_position.currency) THEN
+        RAISE EXCEPTION 'No revaluation rate supplied for % (as of %)', v_position.currency, p_as_of_date;
+      END IF;
+      v_rate := (p_rates->>v_position.currency)::numeric;
+      IF v_rate IS NULL OR v_rate <= 0 THEN
+        RAISE EXCEPTION 'Invalid revaluation rate for %', v_position.currency;
+      END IF;
+      v_target := ROUND(v_position.original_balance * v_rate, 2);
+    END IF;
+
+    v_adjustment := v_target - v_position.functional_balance;
+    CONTINUE WHEN v_adjustment = 0;
+
+    IF v_tx_id IS NULL THEN
+      INSERT INTO public.transactions (
+        ledger_id, transaction_type, reference_id, reference_type,
+        description, amount, currency, status, entry_method, metadata
+      ) VALUES (
+        p_ledger_id, 'fx_revaluation', 'fx_reval_' || to_char(p_as_of_date, 'YYYYMMDD'), 'fx_revaluation',
+        'FX revaluation as of ' || p_as_of_date::text,
+        0, v_functional, 'completed', 'system',
+        jsonb_build_object('as_of_date', p_as_of_date, 'rates', p_rates)
+      )
+      RETURNING id INTO v_tx_id;
+    END IF;
+
+    IF v_is_realized THEN
+      IF v_realized_account_id IS NULL THEN
+        SELECT id INTO v_realized_account_id
+        FROM public.accounts
+        WHERE ledger_id = p_ledger_id AND account_type = 'realized_fx_gain_loss'
+        LIMIT 1;
+
+        IF v_realized_account_id IS NULL THEN
+          INSERT INTO public.accounts (ledger_id, account_type, entity_type, name, currency)
+          VALUES (p_ledger_id, 'realized_fx_gain_loss', 'platform', 'Realized FX Gain/Loss', v_functional)
+          RETURNING id INTO v_realized_account_id;
+        END IF;
+      END IF;
+    ELSIF v_unrealized_account_id IS NULL THEN
+      SELECT id INTO v_unrealized_account_id
+      FROM public.accounts
+      WHERE ledger_id = p_ledger_id AND account_type = 'unrealized_fx_gain_loss'
+      LIMIT 1;
+
+      IF v_unrealized_account_id IS NULL THEN
+        INSERT INTO public.accounts (ledger_id, account_type, entity_type, name, currency)
+        VALUES (p_ledger_id, 'unrealized_fx_gain_loss', 'platform', 'Unrealized FX Gain/Loss', v_functional)
+        RETURNING id INTO v_unrealized_account_id;
+      END IF;
+    END IF;
+
+    -- Position leg keeps the position currency with a zero original amount so
+    -- it moves only the functional carrying value.
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (
+      v_tx_id, v_position.account_id,
+      CASE WHEN v_adjustment > 0 THEN 'debit' ELSE 'credit' END,
+      ABS(v_adjustment), v_position.currency, 0
+    );
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (
+      v_tx_id,
+      CASE WHEN v_is_realized THEN v_realized_account_id ELSE v_unrealized_account_id END,
+      CASE WHEN v_adjustment > 0 THEN 'credit' ELSE 'debit' END,
+      ABS(v_adjustment), v_functional
+    );
+
+    IF v_is_realized THEN
+      v_realized_total := v_realized_total + v_adjustment;
+    ELSE
+      v_unrealized_total := v_unrealized_total + v_adjustment;
+    END IF;
+
+    v_debit_total := v_debit_total + ABS(v_adjustment);
+    v_count := v_count + 1;
+    v_positions := v_positions || jsonb_build_object(
+      'account_id', v_position.account_id,
+      'account_type', v_position.account_type,
+      'currency', v_position.currency,
+      'original_balance', v_position.original_balance,
+      'carrying_balance', v_position.functional_balance,
+      'rate', v_rate,
+      'revalued_balance', v_target,
+      'adjustment', v_adjustment,
+      'kind', CASE WHEN v_is_realized THEN 'realized' ELSE 'unrealized' END
+    );
+  END LOOP;
+
+  IF v_tx_id IS NOT NULL THEN
+    UPDATE public.transactions
+    SET amount = v_debit_total
+    WHERE id = v_tx_id;
+  END IF;
+
+  INSERT INTO public.fx_revaluation_runs (
+    ledger_id, as_of_date, functional_currency, rates, transaction_id,
+    unrealized_amount, realized_amount, position_count, positions, created_by
+  ) VALUES (
+    p_ledger_id, p_as_of_date, v_functional, p_rates, v_tx_id,
+    v_unrealized_total, v_realized_total, v_count, v_positions, p_created_by
+  )
+  RETURNING id INTO v_run_id;
+
+  RETURN QUERY SELECT v_run_id, v_tx_id, v_unrealized_total, v_realized_total, v_count;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.run_fx_revaluation(uuid, date, jsonb, text, text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_fx_revaluation(uuid, date, jsonb, text, text[]) TO service_role;
+
+-- ============================================================
+-- 7. record_sale_atomic: transaction currency + FX rate
+-- ============================================================
+-- Amount parameters stay in minor units of the transaction currency. Each leg
+-- is converted to the functional currency at p_fx_rate; the rounding residual
+-- lands on the platform leg so the entry set always balances.
+DROP FUNCTION IF EXISTS public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, text);
+DROP FUNCTION IF EXISTS public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text);
+
+CREATE OR REPLACE FUNCTION public.record_sale_atomic(
+  p_ledger_id uuid,
+  p_reference_id text,
+  p_creator_id text,
+  p_gross_amount bigint,
+  p_creator_amount bigint,
+  p_platform_amount bigint,
+  p_processing_fee bigint DEFAULT 0,
+  p_soledgic_fee bigint DEFAULT 0,
+  p_product_id text DEFAULT NULL::text,
+  p_product_name text DEFAULT NULL::text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_sales_tax bigint DEFAULT 0,
+  p_entry_method text DEFAULT 'processor'::text,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric
+)
+RETURNS TABLE(out_transaction_id uuid, out_creator_account_id uuid, out_creator_balance numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_tx_id UUID;
+  v_creator_account_id UUID;
+  v_creator_is_active BOOLEAN;
+  v_platform_account_id UUID;
+  v_buyer_wallet_id UUID;
+  v_fee_account_id UUID;
+  v_soledgic_fee_account_id UUID;
+  v_sales_tax_payable_account_id UUID;
+  v_creator_balance NUMERIC(14,2);
+  v_total_distributed BIGINT;
+  v_entry_method TEXT;
+  v_existing_amount NUMERIC(18,4);
+  v_buyer_id TEXT;
+  v_functional TEXT;
+  v_currency TEXT;
+  v_is_foreign BOOLEAN;
+  v_rate NUMERIC;
+  v_factor NUMERIC;
+  v_gross_f NUMERIC(14,2);
+  v_creator_f NUMERIC(14,2);
+  v_platform_f NUMERIC(14,2);
+  v_fee_f NUMERIC(14,2);
+  v_soledgic_f NUMERIC(14,2);
+  v_tax_f NUMERIC(14,2);
+  v_residual NUMERIC(14,2);
+BEGIN
+  IF p_gross_amount <= 0 THEN
+    RAISE EXCEPTION 'Gross amount must be positive: %', p_gross_amount;
+  END IF;
+
+  IF p_creator_amount < 0 OR p_platform_amount < 0 OR p_processing_fee < 0 OR p_soledgic_fee < 0 OR p_sales_tax < 0 THEN
+    RAISE EXCEPTION 'Amounts cannot be negative';
+  END IF;
+
+  v_total_distributed := p_creator_amount + p_platform_amount + p_processing_fee + p_soledgic_fee + p_sales_tax;
+  IF v_total_distributed != p_gross_amount THEN
+    RAISE EXCEPTION 'Double-entry sum mismatch: creator(%) + platform(%) + fee(%) + soledgic(%) + sales_tax(%) = % != gross(%)',
+      p_creator_amount, p_platform_amount, p_processing_fee, p_soledgic_fee, p_sales_tax, v_total_distributed, p_gross_amount;
+  END IF;
+
+  v_functional := public.ledger_functional_currency(p_ledger_id);
+  v_currency := UPPER(COALESCE(NULLIF(TRIM(p_currency), ''), v_functional));
+  IF v_currency !~ '^[A-Z]{3}$' THEN
+    RAISE EXCEPTION 'Invalid currency: %', p_currency;
+  END IF;
+
+  v_is_foreign := v_currency <> v_functional;
+  IF v_is_foreign THEN
+    IF p_fx_rate IS NULL OR p_fx_rate <= 0 THEN
+      RAISE EXCEPTION 'fx_rate is required for % sales on a % ledger', v_currency, v_functional;
+    END IF;
+    v_rate := p_fx_rate;
+  ELSE
+    v_rate := 1;
+  END IF;
+
+  v_factor := public.currency_minor_unit_factor(v_currency);
+  v_gross_f := ROUND(p_gross_amount / v_factor * v_rate, 2);
+  v_creator_f := ROUND(p_creator_amount / v_factor * v_rate, 2);
+  v_platform_f := ROUND(p_platform_amount / v_factor * v_rate, 2);
+  v_fee_f := ROUND(p_processing_fee / v_factor * v_rate, 2);
+  v_soledgic_f := ROUND(p_soledgic_fee / v_factor * v_rate, 2);
+  v_tax_f := ROUND(p_sales_tax / v_factor * v_rate, 2);
+
+  v_residual := v_gross_f - (v_creator_f + v_platform_f + v_fee_f + v_soledgic_f + v_tax_f);
+  IF v_residual <> 0 THEN
+    IF v_platform_f + v_residual >= 0 THEN
+      v_platform_f := v_platform_f + v_residual;
+    ELSE
+      v_creator_f := v_creator_f + v_residual;
+    END IF;
+  END IF;
+
+  v_entry_method := COALESCE(NULLIF(TRIM(p_entry_method), ''), 'processor');
+  IF v_entry_method NOT IN ('processor', 'manual', 'system', 'import') THEN
+    v_entry_method := 'processor';
+  END IF;
+
+  v_buyer_id := p_metadata->>'buyer_id';
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  IF v_platform_account_id IS NULL THEN
+    RAISE EXCEPTION 'Platform revenue account not initialized for ledger %', p_ledger_id;
+  END IF;
+
+  IF v_buyer_id IS NOT NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'buyer_wallet'
+      AND entity_id = v_buyer_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'cash'
+    LIMIT 1;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'No debit account (buyer_wallet or cash) found for ledger %', p_ledger_id;
+  END IF;
+
+  SELECT id, is_active INTO v_creator_account_id, v_creator_is_active
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'creator_balance'
+    AND entity_id = p_creator_id
+  FOR UPDATE;
+
+  IF v_creator_account_id IS NOT NULL AND v_creator_is_active = false THEN
+    RAISE EXCEPTION 'Creator % has been deleted', p_creator_id;
+  END IF;
+
+  IF v_creator_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_id, entity_type, name, currency
+    ) VALUES (
+      p_ledger_id, 'creator_balance', p_creator_id, 'creator', 'Creator ' || p_creator_id, v_functional
+    )
+    RETURNING id INTO v_creator_account_id;
+  END IF;
+
+  IF p_processing_fee > 0 THEN
+    SELECT id INTO v_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'processing_fees', 'platform', 'Processing Fees'
+      )
+      RETURNING id INTO v_fee_account_id;
+    END IF;
+  END IF;
+
+  IF p_soledgic_fee > 0 THEN
+    SELECT id INTO v_soledgic_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'soledgic_fee'
+    LIMIT 1;
+
+    IF v_soledgic_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'soledgic_fee', 'platform', 'Soledgic Platform Fee'
+      )
+      RETURNING id INTO v_soledgic_fee_account_id;
+    END IF;
+  END IF;
+
+  IF p_sales_tax > 0 THEN
+    SELECT id INTO v_sales_tax_payable_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'sales_tax_payable'
+    LIMIT 1;
+
+    IF v_sales_tax_payable_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'sales_tax_payable', 'platform', 'Sales Tax Payable'
+      )
+      RETURNING id INTO v_sales_tax_payable_account_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata,
+    original_currency, original_amount, fx_rate
+  ) VALUES (
+    p_ledger_id, 'sale', p_reference_id, 'external',
+    COALESCE(p_product_name, 'Sale for creator ' || p_creator_id),
+    v_gross_f, v_functional, 'completed', v_entry_method,
+    jsonb_build_object(
+      'creator_id', p_creator_id,
+      'product_id', p_product_id,
+      'buyer_id', v_buyer_id,
+      'currency', v_currency,
+      'amounts_cents', jsonb_build_object(
+        'gross', p_gross_amount,
+        'subtotal', p_gross_amount - p_sales_tax,
+        'sales_tax', p_sales_tax,
+        'creator', p_creator_amount,
+        'platform', p_platform_amount,
+        'fee', p_processing_fee,
+        'soledgic_fee', p_soledgic_fee
+      )
+    ) || p_metadata,
+    CASE WHEN v_is_foreign THEN v_currency ELSE NULL END,
+    CASE WHEN v_is_foreign THEN p_gross_amount / v_factor ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_rate ELSE NULL END
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_buyer_wallet_id, 'debit', v_gross_f, v_currency, p_gross_amount / v_factor);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_creator_account_id, 'credit', v_creator_f, v_currency, p_creator_amount / v_factor);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_platform_account_id, 'credit', v_platform_f, v_currency, p_platform_amount / v_factor);
+
+  IF p_processing_fee > 0 AND v_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_fee_account_id, 'credit', v_fee_f, v_currency, p_processing_fee / v_factor);
+  END IF;
+
+  IF p_soledgic_fee > 0 AND v_soledgic_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_soledgic_fee_account_id, 'credit', v_soledgic_f, v_currency, p_soledgic_fee / v_factor);
+  END IF;
+
+  IF p_sales_tax > 0 AND v_sales_tax_payable_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_sales_tax_payable_account_id, 'credit', v_tax_f, v_currency, p_sales_tax / v_factor);
+  END IF;
+
+  SELECT balance INTO v_creator_balance
+  FROM public.accounts
+  WHERE id = v_creator_account_id;
+
+  PERFORM 1 FROM (
+    SELECT
+      SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE 0 END) AS debits,
+      SUM(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE 0 END) AS credits
+    FROM public.entries e
+    WHERE e.transaction_id = v_tx_id
+  ) AS totals
+  WHERE totals.debits != totals.credits;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'CRITICAL: Double-entry validation failed for transaction %', v_tx_id;
+  END IF;
+
+  RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT t.id, COALESCE(t.original_amount, t.amount)
+      INTO v_tx_id, v_existing_amount
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = p_reference_id;
+
+    IF v_tx_id IS NULL THEN RAISE; END IF;
+
+    IF v_existing_amount IS DISTINCT FROM (p_gross_amount / v_factor) THEN
+      RAISE EXCEPTION 'Idempotency conflict: reference_id "%" already exists with amount % but request has amount %',
+        p_reference_id, v_existing_amount, p_gross_amount / v_factor;
+    END IF;
+
+    SELECT a.id, a.balance
+      INTO v_creator_account_id, v_creator_balance
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'creator_balance'
+       AND a.entity_id = p_creator_id;
+
+    RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) TO service_role;
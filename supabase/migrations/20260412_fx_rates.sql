@@ -0,0 +1,687 @@
+-- FX rate table.
+-- Rates are imported (CSV / ECB-style XML) or pushed through the fx-rates API,
+-- versioned by effective date, and looked up for any conversion into a
+-- ledger's functional currency. A rate means: 1 unit of base_currency is worth
+-- `rate` units of quote_currency from effective_date until a newer row.
+--
+-- Lookups never fall back to 1:1. record_sale_atomic now resolves a missing
+-- p_fx_rate from this table and refuses to post when none is on file.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  base_currency text NOT NULL,
+  quote_currency text NOT NULL,
+  rate numeric(20,10) NOT NULL,
+  effective_date date NOT NULL,
+  source text NOT NULL DEFAULT 'api',
+  import_batch_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT fx_rates_currency_format CHECK (
+    base_currency ~ '^[A-Z]{3}$' AND quote_currency ~ '^[A-Z]{3}$'
+  ),
+  CONSTRAINT fx_rates_distinct_pair CHECK (base_currency <> quote_currency),
+  CONSTRAINT fx_rates_rate_positive CHECK (rate > 0),
+  CONSTRAINT fx_rates_source_check CHECK (source IN ('api', 'csv', 'ecb_xml', 'manual')),
+  CONSTRAINT fx_rates_pair_date_key UNIQUE (ledger_id, base_currency, quote_currency, effective_date)
+);
+
+COMMENT ON TABLE public.fx_rates IS 'Effective-dated exchange rates per ledger: 1 base_currency = rate quote_currency';
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_lookup
+  ON public.fx_rates (ledger_id, base_currency, quote_currency, effective_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_ledger_date
+  ON public.fx_rates (ledger_id, effective_date DESC);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS fx_rates_service_all ON public.fx_rates;
+CREATE POLICY fx_rates_service_all ON public.fx_rates
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS fx_rates_read_org_members ON public.fx_rates;
+CREATE POLICY fx_rates_read_org_members
+  ON public.fx_rates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = fx_rates.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. Lookup
+-- ============================================================
+-- Resolution order for from -> to on p_date (latest effective_date <= p_date):
+--   direct   from/to row
+--   inverse  to/from row, 1 / rate
+--   cross    two rows sharing a base (e.g. ECB EUR/USD and EUR/GBP),
+--            both effective on the older of the two dates
+CREATE OR REPLACE FUNCTION public.get_fx_rate(
+  p_ledger_id uuid,
+  p_from_currency text,
+  p_to_currency text,
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  out_rate numeric,
+  out_effective_date date,
+  out_method text,
+  out_source text
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_from text := UPPER(TRIM(p_from_currency));
+  v_to text := UPPER(TRIM(p_to_currency));
+  v_row record;
+BEGIN
+  IF v_from = v_to THEN
+    RETURN QUERY SELECT 1::numeric, p_date, 'identity'::text, NULL::text;
+    RETURN;
+  END IF;
+
+  SELECT r.rate, r.effective_date, r.source INTO v_row
+  FROM public.fx_rates r
+  WHERE r.ledger_id = p_ledger_id
+    AND r.base_currency = v_from
+    AND r.quote_currency = v_to
+    AND r.effective_date <= p_date
+  ORDER BY r.effective_date DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT v_row.rate::numeric, v_row.effective_date, 'direct'::text, v_row.source;
+    RETURN;
+  END IF;
+
+  SELECT r.rate, r.effective_date, r.source INTO v_row
+  FROM public.fx_rates r
+  WHERE r.ledger_id = p_ledger_id
+    AND r.base_currency = v_to
+    AND r.quote_currency = v_from
+    AND r.effective_date <= p_date
+  ORDER BY r.effective_date DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT ROUND(1 / v_row.rate, 10), v_row.effective_date, 'inverse'::text, v_row.source;
+    RETURN;
+  END IF;
+
+  SELECT
+    to_leg.rate / from_leg.rate AS rate,
+    LEAST(from_leg.effective_date, to_leg.effective_date) AS effective_date,
+    to_leg.source AS source
+  INTO v_row
+  FROM (
+    SELECT DISTINCT ON (r.base_currency) r.base_currency, r.rate, r.effective_date
+    FROM public.fx_rates r
+    WHERE r.ledger_id = p_ledger_id
+      AND r.quote_currency = v_from
+      AND r.effective_date <= p_date
+    ORDER BY r.base_currency, r.effective_date DESC
+  ) from_leg
+  JOIN (
+    SELECT DISTINCT ON (r.base_currency) r.base_currency, r.rate, r.effective_date, r.source
+    FROM public.fx_rates r
+    WHERE r.ledger_id = p_ledger_id
+      AND r.quote_currency = v_to
+      AND r.effective_date <= p_date
+    ORDER BY r.base_currency, r.effective_date DESC
+  ) to_leg ON to_leg.base_currency = from_leg.base_currency
+  ORDER BY LEAST(from_leg.effective_date, to_leg.effective_date) DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT ROUND(v_row.rate, 10), v_row.effective_date, 'cross'::text, v_row.source;
+  END IF;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_fx_rate(uuid, text, text, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_fx_rate(uuid, text, text, date) TO service_role;
+
+-- ============================================================
+-- 3. record_sale_atomic: resolve missing rates from the table
+-- ============================================================
+-- Wraps the resolution in a helper so the posting function only has to
+-- change in one place.
+CREATE OR REPLACE FUNCTION public.resolve_posting_fx_rate(
+  p_ledger_id uuid,
+  p_currency text,
+  p_fx_rate numeric,
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_functional text := public.ledger_functional_currency(p_ledger_id);
+  v_rate numeric;
+BEGIN
+  IF p_currency IS NULL OR UPPER(p_currency) = v_functional THEN
+    RETURN 1;
+  END IF;
+
+  IF p_fx_rate IS NOT NULL THEN
+    IF p_fx_rate <= 0 THEN
+      RAISE EXCEPTION 'Invalid fx_rate %', p_fx_rate;
+    END IF;
+    RETURN p_fx_rate;
+  END IF;
+
+  SELECT r.out_rate INTO v_rate
+  FROM public.get_fx_rate(p_ledger_id, p_currency, v_functional, p_date) r;
+
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'No FX rate on file for % -> % on %', UPPER(p_currency), v_functional, p_date
+      USING ERRCODE = 'P0001', HINT = 'fx_rate_missing';
+  END IF;
+
+  RETURN v_rate;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.resolve_posting_fx_rate(uuid, text, numeric, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_posting_fx_rate(uuid, text, numeric, date) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.record_sale_atomic(
+  p_ledger_id uuid,
+  p_reference_id text,
+  p_creator_id text,
+  p_gross_amount bigint,
+  p_creator_amount bigint,
+  p_platform_amount bigint,
+  p_processing_fee bigint DEFAULT 0,
+  p_soledgic_fee bigint DEFAULT 0,
+  p_product_id text DEFAULT NULL::text,
+  p_product_name text DEFAULT NULL::text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_sales_tax bigint DEFAULT 0,
+  p_entry_method text DEFAULT 'processor'::text,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric
+)
+RETURNS TABLE(out_transaction_id uuid, out_creator_account_id uuid, out_creator_balance numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_tx_id UUID;
+  v_creator_account_id UUID;
+  v_creator_is_active BOOLEAN;
+  v_platform_account_id UUID;
+  v_buyer_wallet_id UUID;
+  v_fee_account_id UUID;
+  v_soledgic_fee_account_id UUID;
+  v_sales_tax_payable_account_id UUID;
+  v_creator_balance NUMERIC(14,2);
+  v_total_distributed BIGINT;
+  v_entry_method TEXT;
+  v_existing_amount NUMERIC(18,4);
+  v_buyer_id TEXT;
+  v_functional TEXT;
+  v_currency TEXT;
+  v_is_foreign BOOLEAN;
+  v_rate NUMERIC;
+  v_factor NUMERIC;
+  v_gross_f NUMERIC(14,2);
+  v_creator_f NUMERIC(14,2);
+  v_platform_f NUMERIC(14,2);
+  v_fee_f NUMERIC(14,2);
+  v_soledgic_f NUMERIC(14,2);
+  v_tax_f NUMERIC(14,2);
+  v_residual NUMERIC(14,2);
+BEGIN
+  IF p_gross_amount <= 0 THEN
+    RAISE EXCEPTION 'Gross amount must be positive: %', p_gross_amount;
+  END IF;
+
+  IF p_creator_amount < 0 OR p_platform_amount < 0 OR p_processing_fee < 0 OR p_soledgic_fee < 0 OR p_sales_tax < 0 THEN
+    RAISE EXCEPTION 'Amounts cannot be negative';
+  END IF;
+
+  v_total_distributed := p_creator_amount + p_platform_amount + p_processing_fee + p_soledgic_fee + p_sales_tax;
+  IF v_total_distributed != p_gross_amount THEN
+    RAISE EXCEPTION 'Double-entry sum mismatch: creator(%) + platform(%) + fee(%) + soledgic(%) + sales_tax(%) = % != gross(%)',
+      p_creator_amount, p_platform_amount, p_processing_fee, p_soledgic_fee, p_sales_tax, v_total_distributed, p_gross_amount;
+  END IF;
+
+  v_functional := public.ledger_functional_currency(p_ledger_id);
+  v_currency := UPPER(COALESCE(NULLIF(TRIM(p_currency), ''), v_functional));
+  IF v_currency !~ '^[A-Z]{3}$' THEN
+    RAISE EXCEPTION 'Invalid currency: %', p_currency;
+  END IF;
+
+  v_is_foreign := v_currency <> v_functional;
+  -- Explicit rate wins; otherwise the rate table for today. Never 1:1.
+  v_rate := public.resolve_posting_fx_rate(p_ledger_id, v_currency, p_fx_rate, CURRENT_DATE);
+
+  v_factor := public.currency_minor_unit_factor(v_currency);
+  v_gross_f := ROUND(p_gross_amount / v_factor * v_rate, 2);
+  v_creator_f := ROUND(p_creator_amount / v_factor * v_rate, 2);
+  v_platform_f := ROUND(p_platform_amount / v_factor * v_rate, 2);
+  v_fee_f := ROUND(p_processing_fee / v_factor * v_rate, 2);
+  v_soledgic_f := ROUND(p_soledgic_fee / v_factor * v_rate, 2);
+  v_tax_f := ROUND(p_sales_tax / v_factor * v_rate, 2);
+
+  v_residual := v_gross_f - (v_creator_f + v_platform_f + v_fee_f + v_soledgic_f + v_tax_f);
+  IF v_residual <> 0 THEN
+    IF v_platform_f + v_residual >= 0 THEN
+      v_platform_f := v_platform_f + v_residual;
+    ELSE
+      v_creator_f := v_creator_f + v_residual;
+    END IF;
+  END IF;
+
+  v_entry_method := COALESCE(NULLIF(TRIM(p_entry_method), ''), 'processor');
+  IF v_entry_method NOT IN ('processor', 'manual', 'system', 'import') THEN
+    v_entry_method := 'processor';
+  END IF;
+
+  v_buyer_id := p_metadata->>'buyer_id';
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  IF v_platform_account_id IS NULL THEN
+    RAISE EXCEPTION 'Platform revenue account not initialized for ledger %', p_ledger_id;
+  END IF;
+
+  IF v_buyer_id IS NOT NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'buyer_wallet'
+      AND entity_id = v_buyer_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'cash'
+    LIMIT 1;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'No debit account (buyer_wallet or cash) found for ledger %', p_ledger_id;
+  END IF;
+
+  SELECT id, is_active INTO v_creator_account_id, v_creator_is_active
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'creator_balance'
+    AND entity_id = p_creator_id
+  FOR UPDATE;
+
+  IF v_creator_account_id IS NOT NULL AND v_creator_is_active = false THEN
+    RAISE EXCEPTION 'Creator % has been deleted', p_creator_id;
+  END IF;
+
+  IF v_creator_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_id, entity_type, name, currency
+    ) VALUES (
+      p_ledger_id, 'creator_balance', p_creator_id, 'creator', 'Creator ' || p_creator_id, v_functional
+    )
+    RETURNING id INTO v_creator_account_id;
+  END IF;
+
+  IF p_processing_fee > 0 THEN
+    SELECT id INTO v_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'processing_fees', 'platform', 'Processing Fees'
+      )
+      RETURNING id INTO v_fee_account_id;
+    END IF;
+  END IF;
+
+  IF p_soledgic_fee > 0 THEN
+    SELECT id INTO v_soledgic_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'soledgic_fee'
+    LIMIT 1;
+
+    IF v_soledgic_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'soledgic_fee', 'platform', 'Soledgic Platform Fee'
+      )
+      RETURNING id INTO v_soledgic_fee_account_id;
+    END IF;
+  END IF;
+
+  IF p_sales_tax > 0 THEN
+    SELECT id INTO v_sales_tax_payable_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'sales_tax_payable'
+    LIMIT 1;
+
+    IF v_sales_tax_payable_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'sales_tax_payable', 'platform', 'Sales Tax Payable'
+      )
+      RETURNING id INTO v_sales_tax_payable_account_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata,
+    original_currency, original_amount, fx_rate
+  ) VALUES (
+    p_ledger_id, 'sale', p_reference_id, 'external',
+    COALESCE(p_product_name, 'Sale for creator ' || p_creator_id),
+    v_gross_f, v_functional, 'completed', v_entry_method,
+    jsonb_build_object(
+      'creator_id', p_creator_id,
+      'product_id', p_product_id,
+      'buyer_id', v_buyer_id,
+      'currency', v_currency,
+      'amounts_cents', jsonb_build_object(
+        'gross', p_gross_amount,
+        'subtotal', p_gross_amount - p_sales_tax,
+        'sales_tax', p_sales_tax,
+        'creator', p_creator_amount,
+        'platform', p_platform_amount,
+        'fee', p_processing_fee,
+        'soledgic_fee', p_soledgic_fee
+      )
+    ) || p_metadata,
+    CASE WHEN v_is_foreign THEN v_currency ELSE NULL END,
+    CASE WHEN v_is_foreign THEN p_gross_amount / v_factor ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_rate ELSE NULL END
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_buyer_wallet_id, 'debit', v_gross_f, v_currency, p_gross_amount / v_factor);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_creator_account_id, 'credit', v_creator_f, v_currency, p_creator_amount / v_factor);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_platform_account_id, 'credit', v_platform_f, v_currency, p_platform_amount / v_factor);
+
+  IF p_processing_fee > 0 AND v_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_fee_account_id, 'credit', v_fee_f, v_currency, p_processing_fee / v_factor);
+  END IF;
+
+  IF p_soledgic_fee > 0 AND v_soledgic_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_soledgic_fee_account_id, 'credit', v_soledgic_f, v_currency, p_soledgic_fee / v_factor);
+  END IF;
+
+  IF p_sales_tax > 0 AND v_sales_tax_payable_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_sales_tax_payable_account_id, 'credit', v_tax_f, v_currency, p_sales_tax / v_factor);
+  END IF;
+
+  SELECT balance INTO v_creator_balance
+  FROM public.accounts
+  WHERE id = v_creator_account_id;
+
+  PERFORM 1 FROM (
+    SELECT
+      SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE 0 END) AS debits,
+      SUM(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE 0 END) AS credits
+    FROM public.entries e
+    WHERE e.transaction_id = v_tx_id
+  ) AS totals
+  WHERE totals.debits != totals.credits;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'CRITICAL: Double-entry validation failed for transaction %', v_tx_id;
+  END IF;
+
+  RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT t.id, COALESCE(t.original_amount, t.amount)
+      INTO v_tx_id, v_existing_amount
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = p_reference_id;
+
+    IF v_tx_id IS NULL THEN RAISE; END IF;
+
+    IF v_existing_amount IS DISTINCT FROM (p_gross_amount / v_factor) THEN
+      RAISE EXCEPTION 'Idempotency conflict: reference_id "%" already exists with amount % but request has amount %',
+        p_reference_id, v_existing_amount, p_gross_amount / v_factor;
+    END IF;
+
+    SELECT a.id, a.balance
+      INTO v_creator_account_id, v_creator_balance
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'creator_balance'
+       AND a.entity_id = p_creator_id;
+
+    RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) TO service_role;
+
+-- ============================================================
+-- 4. record_funding_atomic: transaction currency + FX rate
+-- ============================================================
+DROP FUNCTION IF EXISTS public.record_funding_atomic(uuid, text, text, bigint, bigint, jsonb);
+
+CREATE OR REPLACE FUNCTION public.record_funding_atomic(
+  p_ledger_id uuid,
+  p_reference_id text,
+  p_buyer_id text,
+  p_amount_cents bigint,
+  p_processing_fee_cents bigint DEFAULT 0,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric
+)
+RETURNS TABLE(out_transaction_id uuid, out_buyer_wallet_id uuid, out_wallet_balance numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_tx_id UUID;
+  v_clearing_account_id UUID;
+  v_buyer_wallet_id UUID;
+  v_fee_account_id UUID;
+  v_wallet_balance NUMERIC(14,2);
+  v_existing_amount NUMERIC(18,4);
+  v_functional TEXT;
+  v_currency TEXT;
+  v_is_foreign BOOLEAN;
+  v_rate NUMERIC;
+  v_factor NUMERIC;
+  v_original NUMERIC(18,4);
+  v_amount NUMERIC(14,2);
+BEGIN
+  IF p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Funding amount must be positive: %', p_amount_cents;
+  END IF;
+
+  IF p_processing_fee_cents < 0 THEN
+    RAISE EXCEPTION 'Processing fee cannot be negative';
+  END IF;
+
+  IF p_processing_fee_cents >= p_amount_cents THEN
+    RAISE EXCEPTION 'Processing fee (%) cannot equal or exceed amount (%)',
+      p_processing_fee_cents, p_amount_cents;
+  END IF;
+
+  v_functional := public.ledger_functional_currency(p_ledger_id);
+  v_currency := UPPER(COALESCE(NULLIF(TRIM(p_currency), ''), v_functional));
+  v_is_foreign := v_currency <> v_functional;
+  v_rate := public.resolve_posting_fx_rate(p_ledger_id, v_currency, p_fx_rate, CURRENT_DATE);
+  v_factor := public.currency_minor_unit_factor(v_currency);
+  v_original := p_amount_cents / v_factor;
+  v_amount := ROUND(v_original * v_rate, 2);
+
+  -- Get or create stripe_clearing account
+  SELECT id INTO v_clearing_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'stripe_clearing'
+  LIMIT 1;
+
+  IF v_clearing_account_id IS NULL THEN
+    INSERT INTO public.accounts (ledger_id, account_type, entity_type, name)
+    VALUES (p_ledger_id, 'stripe_clearing', 'clearing', 'Stripe Clearing')
+    RETURNING id INTO v_clearing_account_id;
+  END IF;
+
+  -- Get or create buyer wallet (per buyer entity)
+  SELECT id INTO v_buyer_wallet_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'buyer_wallet'
+    AND entity_id = p_buyer_id
+  FOR UPDATE;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_id, entity_type, name
+    ) VALUES (
+      p_ledger_id, 'buyer_wallet', p_buyer_id, 'buyer', 'Buyer ' || p_buyer_id
+    )
+    RETURNING id INTO v_buyer_wallet_id;
+  END IF;
+
+  -- Processing fees account (on-demand)
+  IF p_processing_fee_cents > 0 THEN
+    SELECT id INTO v_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (ledger_id, account_type, entity_type, name)
+      VALUES (p_ledger_id, 'processing_fees', 'platform', 'Processing Fees')
+      RETURNING id INTO v_fee_account_id;
+    END IF;
+  END IF;
+
+  -- Create funding transaction
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata,
+    original_currency, original_amount, fx_rate
+  ) VALUES (
+    p_ledger_id, 'funding', p_reference_id, 'stripe',
+    'Funding from Stripe for buyer ' || p_buyer_id,
+    v_amount, v_functional, 'completed', 'processor',
+    jsonb_build_object(
+      'buyer_id', p_buyer_id,
+      'currency', v_currency,
+      'amounts_cents', jsonb_build_object(
+        'gross', p_amount_cents,
+        'processing_fee', p_processing_fee_cents
+      )
+    ) || p_metadata,
+    CASE WHEN v_is_foreign THEN v_currency ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_original ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_rate ELSE NULL END
+  )
+  RETURNING id INTO v_tx_id;
+
+  -- DR stripe_clearing (gross amount arrived from Stripe)
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_clearing_account_id, 'debit', v_amount, v_currency, v_original);
+
+  -- CR buyer_wallet (buyer gets full gross — fee is separate expense)
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_buyer_wallet_id, 'credit', v_amount, v_currency, v_original);
+
+  -- DR processing_fees (Stripe's fee as expense — debits balance the extra credit)
+  IF p_processing_fee_cents > 0 AND v_fee_account_id IS NOT NULL THEN
+    -- To keep double-entry balanced with gross on both sides:
+    -- DR stripe_clearing = gross
+    -- CR buyer_wallet = gross
+    -- These balance. The fee is tracked in metadata only (not as a separate entry)
+    -- because Stripe settles net to our bank — the fee never flows through our ledger.
+    -- It's recorded in transaction metadata for reporting.
+    NULL;
+  END IF;
+
+  -- Validate double-entry
+  PERFORM 1 FROM (
+    SELECT
+      SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE 0 END) as debits,
+      SUM(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE 0 END) as credits
+    FROM public.entries e
+    WHERE e.transaction_id = v_tx_id
+  ) AS totals
+  WHERE totals.debits != totals.credits;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'CRITICAL: Double-entry validation failed for funding %', v_tx_id;
+  END IF;
+
+  SELECT balance INTO v_wallet_balance
+  FROM public.accounts WHERE id = v_buyer_wallet_id;
+
+  RETURN QUERY SELECT v_tx_id, v_buyer_wallet_id, v_wallet_balance;
+
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT t.id, COALESCE(t.original_amount, t.amount)
+      INTO v_tx_id, v_existing_amount
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = p_reference_id
+       AND t.transaction_type = 'funding';
+
+    IF v_tx_id IS NULL THEN RAISE; END IF;
+
+    IF v_existing_amount IS DISTINCT FROM v_original THEN
+      RAISE EXCEPTION 'Idempotency conflict: funding "%" exists with amount % but request has %',
+        p_reference_id, v_existing_amount, v_original;
+    END IF;
+
+    SELECT a.id, a.balance
+      INTO v_buyer_wallet_id, v_wallet_balance
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'buyer_wallet'
+       AND a.entity_id = p_buyer_id;
+
+    RETURN QUERY SELECT v_tx_id, v_buyer_wallet_id, v_wallet_balance;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_funding_atomic(uuid, text, text, bigint, bigint, jsonb, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_funding_atomic(uuid, text, text, bigint, bigint, jsonb, text, numeric) TO service_role;
@@ -0,0 +1,618 @@
+-- Disputes as a first-class resource.
+-- A dispute is opened (from the processor inbox or the disputes API), posts a
+-- chargeback that debits the creator balance plus the processor's dispute fee,
+-- and is resolved as won (chargeback reversed), lost or accepted (chargeback
+-- stands). Evidence is stored as metadata only; files live with the processor.
+--
+-- Replaces the env-gated apply_dispute_hold side-effect in
+-- process-processor-inbox. apply_dispute_hold is left in place for holds that
+-- were created before this migration.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.disputes (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  external_dispute_id text NOT NULL,
+  sale_transaction_id uuid REFERENCES public.transactions(id),
+  sale_reference text,
+  creator_id text NOT NULL,
+  amount numeric(14,2) NOT NULL,
+  fee_amount numeric(14,2) NOT NULL DEFAULT 0,
+  currency text NOT NULL,
+  original_amount numeric(18,4),
+  fx_rate numeric(20,10),
+  reason text,
+  status text NOT NULL DEFAULT 'open',
+  evidence jsonb NOT NULL DEFAULT '{}'::jsonb,
+  evidence_due_by timestamptz,
+  evidence_submitted_at timestamptz,
+  chargeback_transaction_id uuid REFERENCES public.transactions(id),
+  reversal_transaction_id uuid REFERENCES public.transactions(id),
+  fee_refunded boolean NOT NULL DEFAULT false,
+  source text NOT NULL DEFAULT 'api',
+  resolved_at timestamptz,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT disputes_amount_positive CHECK (amount > 0),
+  CONSTRAINT disputes_fee_nonnegative CHECK (fee_amount >= 0),
+  CONSTRAINT disputes_status_check CHECK (status IN ('open', 'evidence_submitted', 'won', 'lost', 'accepted')),
+  CONSTRAINT disputes_source_check CHECK (source IN ('api', 'processor')),
+  CONSTRAINT disputes_external_id_key UNIQUE (ledger_id, external_dispute_id)
+);
+
+COMMENT ON TABLE public.disputes IS 'Card disputes / chargebacks with their ledger postings and outcome';
+
+CREATE INDEX IF NOT EXISTS idx_disputes_ledger_status
+  ON public.disputes (ledger_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_disputes_ledger_creator
+  ON public.disputes (ledger_id, creator_id);
+
+CREATE INDEX IF NOT EXISTS idx_disputes_sale_reference
+  ON public.disputes (ledger_id, sale_reference)
+  WHERE sale_reference IS NOT NULL;
+
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS disputes_service_all ON public.disputes;
+CREATE POLICY disputes_service_all ON public.disputes
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS disputes_read_org_members ON public.disputes;
+CREATE POLICY disputes_read_org_members
+  ON public.disputes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = disputes.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. record_dispute_atomic: open a dispute and post the chargeback
+--    DR creator_balance  (disputed amount)
+--    DR processing_fees  (dispute fee)
+--    CR cash             (amount + fee withdrawn by the processor)
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.record_dispute_atomic(
+  p_ledger_id uuid,
+  p_external_dispute_id text,
+  p_amount_cents bigint,
+  p_fee_cents bigint DEFAULT 0,
+  p_sale_reference text DEFAULT NULL::text,
+  p_creator_id text DEFAULT NULL::text,
+  p_reason text DEFAULT NULL::text,
+  p_evidence_due_by timestamptz DEFAULT NULL::timestamptz,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric,
+  p_source text DEFAULT 'api'::text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(out_dispute_id uuid, out_chargeback_transaction_id uuid, out_status text, out_created boolean)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_external_id text;
+  v_existing public.disputes%ROWTYPE;
+  v_sale public.transactions%ROWTYPE;
+  v_creator_id text;
+  v_creator_account_id uuid;
+  v_cash_account_id uuid;
+  v_fee_account_id uuid;
+  v_functional text;
+  v_currency text;
+  v_is_foreign boolean;
+  v_rate numeric;
+  v_factor numeric;
+  v_amount numeric(14,2);
+  v_fee numeric(14,2);
+  v_original_amount numeric(18,4);
+  v_original_fee numeric(18,4);
+  v_dispute_id uuid := gen_random_uuid();
+  v_tx_id uuid;
+BEGIN
+  v_external_id := NULLIF(TRIM(p_external_dispute_id), '');
+  IF v_external_id IS NULL THEN
+    RAISE EXCEPTION 'external_dispute_id is required';
+  END IF;
+
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Dispute amount must be positive';
+  END IF;
+
+  IF COALESCE(p_fee_cents, 0) < 0 THEN
+    RAISE EXCEPTION 'Dispute fee cannot be negative';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('dispute:' || p_ledger_id::text || ':' || v_external_id));
+
+  SELECT * INTO v_existing
+  FROM public.disputes
+  WHERE ledger_id = p_ledger_id AND external_dispute_id = v_external_id;
+
+  IF v_existing.id IS NOT NULL THEN
+    RETURN QUERY SELECT v_existing.id, v_existing.chargeback_transaction_id, v_existing.status, false;
+    RETURN;
+  END IF;
+
+  IF NULLIF(TRIM(p_sale_reference), '') IS NOT NULL THEN
+    SELECT * INTO v_sale
+    FROM public.transactions
+    WHERE ledger_id = p_ledger_id
+      AND reference_id = TRIM(p_sale_reference)
+      AND transaction_type = 'sale'
+    LIMIT 1;
+
+    IF v_sale.id IS NULL THEN
+      RAISE EXCEPTION 'Sale not found: %', p_sale_reference;
+    END IF;
+  END IF;
+
+  v_creator_id := COALESCE(NULLIF(TRIM(p_creator_id), ''), v_sale.metadata->>'creator_id');
+  IF v_creator_id IS NULL THEN
+    RAISE EXCEPTION 'creator_id is required when no sale is linked';
+  END IF;
+
+  SELECT id INTO v_creator_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'creator_balance'
+    AND entity_id = v_creator_id
+  FOR UPDATE;
+
+  IF v_creator_account_id IS NULL THEN
+    RAISE EXCEPTION 'Creator account not found: %', v_creator_id;
+  END IF;
+
+  IF v_sale.id IS NOT NULL THEN
+    SELECT e.account_id INTO v_cash_account_id
+    FROM public.entries e
+    JOIN public.accounts a ON a.id = e.account_id
+    WHERE e.transaction_id = v_sale.id
+      AND e.entry_type = 'debit'
+      AND a.account_type = 'cash'
+    LIMIT 1;
+  END IF;
+
+  IF v_cash_account_id IS NULL THEN
+    SELECT id INTO v_cash_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'cash'
+    LIMIT 1;
+  END IF;
+
+  IF v_cash_account_id IS NULL THEN
+    RAISE EXCEPTION 'Cash account not found for ledger %', p_ledger_id;
+  END IF;
+
+  -- Same currency as the sale: book at the sale's rate so a won dispute nets
+  -- to zero. Anything else resolves through the FX rate table.
+  v_functional := public.ledger_functional_currency(p_ledger_id);
+  v_currency := UPPER(COALESCE(NULLIF(TRIM(p_currency), ''), v_sale.original_currency, v_functional));
+  v_is_foreign := v_currency <> v_functional;
+  v_rate := public.resolve_posting_fx_rate(
+    p_ledger_id,
+    v_currency,
+    COALESCE(p_fx_rate, CASE WHEN v_sale.original_currency = v_currency THEN v_sale.fx_rate END),
+    CURRENT_DATE
+  );
+  v_factor := public.currency_minor_unit_factor(v_currency);
+  v_original_amount := p_amount_cents / v_factor;
+  v_original_fee := COALESCE(p_fee_cents, 0) / v_factor;
+  v_amount := ROUND(v_original_amount * v_rate, 2);
+  v_fee := ROUND(v_original_fee * v_rate, 2);
+
+  IF v_fee > 0 THEN
+    SELECT id INTO v_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (ledger_id, account_type, entity_type, name)
+      VALUES (p_ledger_id, 'processing_fees', 'platform', 'Processing Fees')
+      RETURNING id INTO v_fee_account_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata,
+    original_currency, original_amount, fx_rate
+  ) VALUES (
+    p_ledger_id, 'chargeback', 'dispute_' || v_external_id, 'dispute',
+    'Chargeback for dispute ' || v_external_id,
+    v_amount + v_fee, v_functional, 'completed',
+    CASE WHEN p_source = 'processor' THEN 'processor' ELSE 'manual' END,
+    COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object(
+      'dispute_id', v_dispute_id,
+      'external_dispute_id', v_external_id,
+      'creator_id', v_creator_id,
+      'sale_reference', v_sale.reference_id,
+      'amounts_cents', jsonb_build_object(
+        'chargeback', p_amount_cents,
+        'fee', COALESCE(p_fee_cents, 0)
+      )
+    ),
+    CASE WHEN v_is_foreign THEN v_currency ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_original_amount + v_original_fee ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_rate ELSE NULL END
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_creator_account_id, 'debit', v_amount, v_currency, v_original_amount);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_fee_account_id, 'debit', v_fee, v_currency, v_original_fee);
+  END IF;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_cash_account_id, 'credit', v_amount + v_fee, v_currency, v_original_amount + v_original_fee);
+
+  INSERT INTO public.disputes (
+    id, ledger_id, external_dispute_id, sale_transaction_id, sale_reference,
+    creator_id, amount, fee_amount, currency, original_amount, fx_rate,
+    reason, status, evidence_due_by, chargeback_transaction_id, source, metadata
+  ) VALUES (
+    v_dispute_id, p_ledger_id, v_external_id, v_sale.id, v_sale.reference_id,
+    v_creator_id, v_amount, v_fee, v_currency,
+    CASE WHEN v_is_foreign THEN v_original_amount ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_rate ELSE NULL END,
+    NULLIF(TRIM(p_reason), ''), 'open', p_evidence_due_by, v_tx_id,
+    CASE WHEN p_source = 'processor' THEN 'processor' ELSE 'api' END,
+    COALESCE(p_metadata, '{}'::jsonb)
+  );
+
+  RETURN QUERY SELECT v_dispute_id, v_tx_id, 'open'::text, true;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_dispute_atomic(uuid, text, bigint, bigint, text, text, text, timestamptz, text, numeric, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_dispute_atomic(uuid, text, bigint, bigint, text, text, text, timestamptz, text, numeric, text, jsonb) TO service_role;
+
+-- ============================================================
+-- 3. resolve_dispute_atomic: record the outcome
+--    won      → reverse the chargeback (fee too, if the processor refunded it)
+--    lost     → chargeback stands
+--    accepted → merchant conceded; chargeback stands
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.resolve_dispute_atomic(
+  p_ledger_id uuid,
+  p_dispute_id uuid,
+  p_outcome text,
+  p_fee_refunded boolean DEFAULT false
+)
+RETURNS TABLE(out_status text, out_reversal_transaction_id uuid, out_changed boolean)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_dispute public.disputes%ROWTYPE;
+  v_outcome text;
+  v_creator_account_id uuid;
+  v_cash_account_id uuid;
+  v_fee_account_id uuid;
+  v_fee numeric(14,2) := 0;
+  v_original_fee numeric(18,4);
+  v_original_amount numeric(18,4);
+  v_is_foreign boolean;
+  v_tx_id uuid;
+BEGIN
+  v_outcome := LOWER(COALESCE(TRIM(p_outcome), ''));
+  IF v_outcome NOT IN ('won', 'lost', 'accepted') THEN
+    RAISE EXCEPTION 'Invalid dispute outcome: %', p_outcome;
+  END IF;
+
+  SELECT * INTO v_dispute
+  FROM public.disputes
+  WHERE id = p_dispute_id AND ledger_id = p_ledger_id
+  FOR UPDATE;
+
+  IF v_dispute.id IS NULL THEN
+    RAISE EXCEPTION 'Dispute not found: %', p_dispute_id;
+  END IF;
+
+  IF v_dispute.status IN ('won', 'lost', 'accepted') THEN
+    IF v_dispute.status = v_outcome THEN
+      RETURN QUERY SELECT v_dispute.status, v_dispute.reversal_transaction_id, false;
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Dispute already resolved as %', v_dispute.status;
+  END IF;
+
+  IF v_outcome = 'won' THEN
+    SELECT e.account_id INTO v_creator_account_id
+    FROM public.entries e
+    JOIN public.accounts a ON a.id = e.account_id
+    WHERE e.transaction_id = v_dispute.chargeback_transaction_id
+      AND e.entry_type = 'debit'
+      AND a.account_type = 'creator_balance'
+    LIMIT 1;
+
+    SELECT e.account_id INTO v_cash_account_id
+    FROM public.entries e
+    WHERE e.transaction_id = v_dispute.chargeback_transaction_id
+      AND e.entry_type = 'credit'
+    LIMIT 1;
+
+    IF v_creator_account_id IS NULL OR v_cash_account_id IS NULL THEN
+      RAISE EXCEPTION 'Chargeback postings not found for dispute %', p_dispute_id;
+    END IF;
+
+    v_is_foreign := v_dispute.fx_rate IS NOT NULL;
+    v_original_amount := COALESCE(v_dispute.original_amount, v_dispute.amount);
+
+    IF p_fee_refunded AND v_dispute.fee_amount > 0 THEN
+      v_fee := v_dispute.fee_amount;
+      v_original_fee := CASE WHEN v_is_foreign THEN ROUND(v_fee / v_dispute.fx_rate, 4) ELSE v_fee END;
+
+      SELECT e.account_id INTO v_fee_account_id
+      FROM public.entries e
+      JOIN public.accounts a ON a.id = e.account_id
+      WHERE e.transaction_id = v_dispute.chargeback_transaction_id
+        AND e.entry_type = 'debit'
+        AND a.account_type = 'processing_fees'
+      LIMIT 1;
+    END IF;
+
+    INSERT INTO public.transactions (
+      ledger_id, transaction_type, reference_id, reference_type,
+      description, amount, currency, status, entry_method, metadata,
+      original_currency, original_amount, fx_rate
+    ) VALUES (
+      p_ledger_id, 'chargeback_reversal', 'dispute_' || v_dispute.external_dispute_id || '_won', 'dispute',
+      'Dispute won: ' || v_dispute.external_dispute_id,
+      v_dispute.amount + v_fee, public.ledger_functional_currency(p_ledger_id), 'completed', 'system',
+      jsonb_build_object(
+        'dispute_id', v_dispute.id,
+        'external_dispute_id', v_dispute.external_dispute_id,
+        'creator_id', v_dispute.creator_id,
+        'chargeback_transaction_id', v_dispute.chargeback_transaction_id,
+        'fee_refunded', v_fee > 0
+      ),
+      CASE WHEN v_is_foreign THEN v_dispute.currency ELSE NULL END,
+      CASE WHEN v_is_foreign THEN v_original_amount + COALESCE(v_original_fee, 0) ELSE NULL END,
+      v_dispute.fx_rate
+    )
+    RETURNING id INTO v_tx_id;
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_cash_account_id, 'debit', v_dispute.amount + v_fee, v_dispute.currency, v_original_amount + COALESCE(v_original_fee, 0));
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_creator_account_id, 'credit', v_dispute.amount, v_dispute.currency, v_original_amount);
+
+    IF v_fee > 0 AND v_fee_account_id IS NOT NULL THEN
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+      VALUES (v_tx_id, v_fee_account_id, 'credit', v_fee, v_dispute.currency, v_original_fee);
+    END IF;
+  END IF;
+
+  UPDATE public.disputes
+  SET status = v_outcome,
+      resolved_at = now(),
+      reversal_transaction_id = v_tx_id,
+      fee_refunded = v_fee > 0,
+      updated_at = now()
+  WHERE id = v_dispute.id;
+
+  RETURN QUERY SELECT v_outcome, v_tx_id, true;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.resolve_dispute_atomic(uuid, uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_dispute_atomic(uuid, uuid, text, boolean) TO service_role;
+
+-- ============================================================
+-- 4. Creator risk score counts disputes from the disputes table
+--    (legacy dispute holds are still counted)
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.update_creator_risk_score(
+  p_ledger_id uuid,
+  p_creator_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_connected_account_id uuid;
+  v_previous_score smallint;
+  v_last_updated timestamptz;
+  v_account_age interval;
+  v_total_sales integer;
+  v_total_refunds integer;
+  v_total_disputes integer;
+  v_sale_volume_cents bigint;
+  v_refund_volume_cents bigint;
+  v_refund_rate numeric;
+  v_refund_value_rate numeric;
+  v_dispute_rate numeric;
+  v_event_score integer := 0;
+  v_final_score integer;
+  v_flags text[] := '{}';
+  v_delay_days integer;
+BEGIN
+  -- Get connected account with previous score
+  SELECT id, risk_score, updated_at, (NOW() - created_at)
+  INTO v_connected_account_id, v_previous_score, v_last_updated, v_account_age
+  FROM public.connected_accounts
+  WHERE ledger_id = p_ledger_id
+    AND entity_id = p_creator_id
+    AND is_active = true
+  LIMIT 1;
+
+  IF v_connected_account_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Creator not found');
+  END IF;
+
+  -- COOLDOWN: skip if scored within last 30 seconds (debounce rapid events)
+  IF v_last_updated IS NOT NULL AND v_last_updated > NOW() - interval '30 seconds' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'risk_score', COALESCE(v_previous_score, 0),
+      'debounced', true
+    );
+  END IF;
+
+  -- Gather 90-day transaction stats (count + volume)
+  SELECT
+    count(*) FILTER (WHERE transaction_type = 'sale'),
+    count(*) FILTER (WHERE transaction_type = 'refund'),
+    COALESCE(SUM(amount * 100) FILTER (WHERE transaction_type = 'sale'), 0)::bigint,
+    COALESCE(SUM(amount * 100) FILTER (WHERE transaction_type = 'refund'), 0)::bigint
+  INTO v_total_sales, v_total_refunds, v_sale_volume_cents, v_refund_volume_cents
+  FROM public.transactions
+  WHERE ledger_id = p_ledger_id
+    AND status = 'completed'
+    AND created_at > NOW() - interval '90 days'
+    AND metadata->>'creator_id' = p_creator_id;
+
+  -- Count disputes (all time — disputes are serious)
+  SELECT
+    (SELECT count(*)
+     FROM public.disputes
+     WHERE ledger_id = p_ledger_id
+       AND creator_id = p_creator_id)
+    +
+    (SELECT count(*)
+     FROM public.held_funds
+     WHERE ledger_id = p_ledger_id
+       AND creator_id = p_creator_id
+       AND hold_reason LIKE 'dispute:%')
+  INTO v_total_disputes;
+
+  -- Calculate rates
+  v_refund_rate := CASE WHEN v_total_sales > 0 THEN v_total_refunds::numeric / v_total_sales ELSE 0 END;
+  v_refund_value_rate := CASE WHEN v_sale_volume_cents > 0 THEN v_refund_volume_cents::numeric / v_sale_volume_cents ELSE 0 END;
+  v_dispute_rate := CASE WHEN v_total_sales > 0 THEN v_total_disputes::numeric / v_total_sales ELSE 0 END;
+
+  -- ================================================================
+  -- RISK FACTORS (add to event score)
+  -- ================================================================
+
+  -- Refund count rate: >15% = +15, >30% = +30
+  IF v_refund_rate > 0.30 THEN
+    v_event_score := v_event_score + 30;
+    v_flags := array_append(v_flags, 'high_refund_rate');
+  ELSIF v_refund_rate > 0.15 THEN
+    v_event_score := v_event_score + 15;
+    v_flags := array_append(v_flags, 'elevated_refund_rate');
+  END IF;
+
+  -- Refund VALUE rate (amount-weighted): >20% of volume refunded = +20, >40% = +35
+  IF v_refund_value_rate > 0.40 THEN
+    v_event_score := v_event_score + 35;
+    v_flags := array_append(v_flags, 'high_refund_value_rate');
+  ELSIF v_refund_value_rate > 0.20 THEN
+    v_event_score := v_event_score + 20;
+    v_flags := array_append(v_flags, 'elevated_refund_value_rate');
+  END IF;
+
+  -- Disputes (amount-weighted by severity)
+  IF v_dispute_rate > 0.05 THEN
+    v_event_score := v_event_score + 40;
+    v_flags := array_append(v_flags, 'high_dispute_rate');
+  ELSIF v_total_disputes > 0 THEN
+    v_event_score := v_event_score + 20;
+    v_flags := array_append(v_flags, 'has_disputes');
+  END IF;
+
+  -- New creator (< 30 days): +10 (uncertainty premium)
+  IF v_account_age < interval '30 days' THEN
+    v_event_score := v_event_score + 10;
+    v_flags := array_append(v_flags, 'new_creator');
+  END IF;
+
+  -- ================================================================
+  -- POSITIVE SIGNALS (subtract from event score — trust building)
+  -- ================================================================
+
+  -- Clean refund history: <5% refund rate with 20+ sales
+  IF v_total_sales >= 20 AND v_refund_rate < 0.05 THEN
+    v_event_score := v_event_score - 10;
+    v_flags := array_append(v_flags, 'low_refund_rate');
+  END IF;
+
+  -- Zero disputes ever
+  IF v_total_disputes = 0 AND v_total_sales >= 10 THEN
+    v_event_score := v_event_score - 15;
+    v_flags := array_append(v_flags, 'clean_dispute_history');
+  END IF;
+
+  -- Established creator (> 180 days)
+  IF v_account_age > interval '180 days' THEN
+    v_event_score := v_event_score - 5;
+    v_flags := array_append(v_flags, 'established_creator');
+  END IF;
+
+  -- Clamp event score to 0-100
+  v_event_score := GREATEST(0, LEAST(100, v_event_score));
+
+  -- ================================================================
+  -- SCORE SMOOTHING: blend previous score with new event score
+  -- Prevents volatile jumps from single events
+  -- Formula: final = previous * 0.7 + event * 0.3
+  -- ================================================================
+  IF v_previous_score IS NOT NULL AND v_previous_score > 0 THEN
+    v_final_score := ROUND(v_previous_score * 0.7 + v_event_score * 0.3);
+  ELSE
+    v_final_score := v_event_score;
+  END IF;
+
+  v_final_score := GREATEST(0, LEAST(100, v_final_score));
+
+  -- ================================================================
+  -- POLICY LAYER: map score → payout delay
+  -- This is separated from scoring so policy can change independently.
+  -- ================================================================
+  IF v_final_score >= 60 THEN v_delay_days := 14;
+  ELSIF v_final_score >= 30 THEN v_delay_days := 10;
+  ELSE v_delay_days := 7;
+  END IF;
+
+  -- Update connected account
+  UPDATE public.connected_accounts
+  SET risk_score = v_final_score,
+      risk_flags = v_flags,
+      payout_delay_days = v_delay_days,
+      payout_delay_reason = CASE
+        WHEN v_final_score >= 60 THEN 'risk_high'
+        WHEN v_final_score >= 30 THEN 'risk_elevated'
+        ELSE 'default'
+      END,
+      updated_at = NOW()
+  WHERE id = v_connected_account_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'risk_score', v_final_score,
+    'previous_score', COALESCE(v_previous_score, 0),
+    'event_score', v_event_score,
+    'risk_flags', to_jsonb(v_flags),
+    'payout_delay_days', v_delay_days,
+    'refund_rate', round(v_refund_rate * 100, 1),
+    'refund_value_rate', round(v_refund_value_rate * 100, 1),
+    'dispute_rate', round(v_dispute_rate * 100, 1),
+    'total_sales_90d', v_total_sales,
+    'total_refunds_90d', v_total_refunds,
+    'total_disputes', v_total_disputes,
+    'debounced', false
+  );
+END;
+$$;
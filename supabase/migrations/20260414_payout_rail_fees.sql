@@ -0,0 +1,157 @@
+-- Per-rail payout fees.
+-- Payout rails (execute-payout, _shared/payment-rails.ts) can carry a fee
+-- schedule. Once a rail accepts a payout, its fee is booked as its own
+-- 'payout_fee' transaction linked to the payout rather than folded into the
+-- payout entries, so the payout amount stays what the creator asked for.
+--
+--   paid_by = 'creator':  DR creator_balance / CR cash
+--   paid_by = 'platform': DR processing_fees / CR cash
+--
+-- The fee is booked after the money has moved, so it is not blocked by the
+-- creator's available balance; execute-payout refuses a payout whose
+-- creator-paid fee the remaining balance cannot cover before the rail runs.
+
+-- ============================================================
+-- 1. record_payout_rail_fee
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.record_payout_rail_fee(
+  p_ledger_id uuid,
+  p_payout_transaction_id uuid,
+  p_rail text,
+  p_fee_cents bigint,
+  p_paid_by text DEFAULT 'creator'::text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_payout public.transactions%ROWTYPE;
+  v_reference_id text;
+  v_existing_id uuid;
+  v_existing_amount numeric(14,2);
+  v_creator_id text;
+  v_debit_account_id uuid;
+  v_cash_account_id uuid;
+  v_currency text;
+  v_fee numeric(14,2);
+  v_tx_id uuid;
+BEGIN
+  IF p_fee_cents IS NULL OR p_fee_cents <= 0 THEN
+    RAISE EXCEPTION 'Rail fee must be positive';
+  END IF;
+
+  IF p_paid_by NOT IN ('creator', 'platform') THEN
+    RAISE EXCEPTION 'paid_by must be creator or platform';
+  END IF;
+
+  SELECT * INTO v_payout
+  FROM public.transactions
+  WHERE id = p_payout_transaction_id
+    AND ledger_id = p_ledger_id
+    AND transaction_type = 'payout';
+
+  IF v_payout.id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found: %', p_payout_transaction_id;
+  END IF;
+
+  v_currency := COALESCE(v_payout.currency, public.ledger_functional_currency(p_ledger_id));
+  v_fee := ROUND(p_fee_cents / public.currency_minor_unit_factor(v_currency), 2);
+  v_reference_id := 'payout_fee_' || v_payout.id::text;
+
+  SELECT id, amount INTO v_existing_id, v_existing_amount
+  FROM public.transactions
+  WHERE ledger_id = p_ledger_id AND reference_id = v_reference_id;
+
+  IF v_existing_id IS NOT NULL THEN
+    IF v_existing_amount IS DISTINCT FROM v_fee THEN
+      RETURN jsonb_build_object(
+        'status', 'error',
+        'error', 'idempotency_conflict',
+        'transaction_id', v_existing_id
+      );
+    END IF;
+
+    RETURN jsonb_build_object('status', 'duplicate', 'transaction_id', v_existing_id);
+  END IF;
+
+  IF p_paid_by = 'creator' THEN
+    v_creator_id := v_payout.metadata->>'creator_id';
+
+    SELECT id INTO v_debit_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'creator_balance'
+      AND entity_id = v_creator_id
+    FOR UPDATE;
+
+    IF v_debit_account_id IS NULL THEN
+      RAISE EXCEPTION 'Creator account not found: %', v_creator_id;
+    END IF;
+  ELSE
+    SELECT id INTO v_debit_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_debit_account_id IS NULL THEN
+      INSERT INTO public.accounts (ledger_id, account_type, entity_type, name)
+      VALUES (p_ledger_id, 'processing_fees', 'platform', 'Processing Fees')
+      RETURNING id INTO v_debit_account_id;
+    END IF;
+  END IF;
+
+  SELECT e.account_id INTO v_cash_account_id
+  FROM public.entries e
+  JOIN public.accounts a ON a.id = e.account_id
+  WHERE e.transaction_id = v_payout.id
+    AND e.entry_type = 'credit'
+    AND a.account_type = 'cash'
+  LIMIT 1;
+
+  IF v_cash_account_id IS NULL THEN
+    SELECT id INTO v_cash_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'cash'
+    LIMIT 1;
+  END IF;
+
+  IF v_cash_account_id IS NULL THEN
+    RAISE EXCEPTION 'Cash account not found for ledger %', p_ledger_id;
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, metadata
+  ) VALUES (
+    p_ledger_id, 'payout_fee', v_reference_id, 'payout_rail_fee',
+    'Rail fee (' || p_rail || ') for payout ' || COALESCE(v_payout.reference_id, v_payout.id::text),
+    v_fee, v_currency, 'completed',
+    COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object(
+      'payout_transaction_id', v_payout.id,
+      'creator_id', v_payout.metadata->>'creator_id',
+      'rail', p_rail,
+      'fee_cents', p_fee_cents,
+      'fees_paid_by', p_paid_by
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_debit_account_id, 'debit', v_fee, v_currency, v_fee);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_cash_account_id, 'credit', v_fee, v_currency, v_fee);
+
+  RETURN jsonb_build_object(
+    'status', 'created',
+    'transaction_id', v_tx_id,
+    'fee', v_fee,
+    'fees_paid_by', p_paid_by
+  );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_payout_rail_fee(uuid, uuid, text, bigint, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payout_rail_fee(uuid, uuid, text, bigint, text, jsonb) TO service_role;
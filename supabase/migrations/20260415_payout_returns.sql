@@ -0,0 +1,176 @@
+-- Returned payouts.
+-- When a bank sends back an ACH payout (R01, R03, ...), whether reported by a
+-- processor webhook, a returned NACHA batch or the payouts API, the payout's
+-- entries are mirrored into a 'payout_return' transaction that restores the
+-- creator balance. The payout is marked reversed and, for account-level return
+-- codes, the creator's connected account is flagged as needing new bank
+-- details and has payouts disabled until they are replaced.
+--
+-- Rail fees booked by record_payout_rail_fee are not reversed: the rail
+-- charged for the attempt.
+
+-- ============================================================
+-- 1. Payout profile flag
+-- ============================================================
+ALTER TABLE public.connected_accounts
+  ADD COLUMN IF NOT EXISTS bank_details_required boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS bank_details_required_reason text,
+  ADD COLUMN IF NOT EXISTS last_payout_return_code text,
+  ADD COLUMN IF NOT EXISTS last_payout_returned_at timestamptz;
+
+COMMENT ON COLUMN public.connected_accounts.bank_details_required IS 'Set when a payout is returned for an account-level reason; cleared when new bank details are saved';
+
+-- ============================================================
+-- 2. record_payout_return_atomic
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.record_payout_return_atomic(
+  p_ledger_id uuid,
+  p_payout_transaction_id uuid,
+  p_return_code text,
+  p_return_reason text DEFAULT NULL,
+  p_source text DEFAULT 'api'::text,
+  p_requires_new_bank_details boolean DEFAULT true,
+  p_returned_at timestamptz DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_payout public.transactions%ROWTYPE;
+  v_reference_id text;
+  v_existing_id uuid;
+  v_existing_code text;
+  v_creator_id text;
+  v_returned_at timestamptz := COALESCE(p_returned_at, now());
+  v_tx_id uuid;
+BEGIN
+  IF p_return_code IS NULL OR p_return_code !~ '^R[0-9]{2}$' THEN
+    RAISE EXCEPTION 'Invalid return code: %', p_return_code;
+  END IF;
+
+  IF p_source NOT IN ('api', 'webhook', 'nacha_file') THEN
+    RAISE EXCEPTION 'Invalid return source: %', p_source;
+  END IF;
+
+  SELECT * INTO v_payout
+  FROM public.transactions
+  WHERE id = p_payout_transaction_id
+    AND ledger_id = p_ledger_id
+    AND transaction_type = 'payout'
+  FOR UPDATE;
+
+  IF v_payout.id IS NULL THEN
+    RAISE EXCEPTION 'Payout not found: %', p_payout_transaction_id;
+  END IF;
+
+  v_reference_id := 'payout_return_' || v_payout.id::text;
+  v_creator_id := v_payout.metadata->>'creator_id';
+
+  SELECT id, metadata->>'return_code' INTO v_existing_id, v_existing_code
+  FROM public.transactions
+  WHERE ledger_id = p_ledger_id AND reference_id = v_reference_id;
+
+  IF v_existing_id IS NOT NULL THEN
+    IF v_existing_code IS DISTINCT FROM p_return_code THEN
+      RETURN jsonb_build_object(
+        'status', 'error',
+        'error', 'return_code_conflict',
+        'transaction_id', v_existing_id,
+        'return_code', v_existing_code
+      );
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', 'duplicate',
+      'transaction_id', v_existing_id,
+      'creator_id', v_creator_id,
+      'amount', v_payout.amount,
+      'currency', v_payout.currency
+    );
+  END IF;
+
+  IF v_payout.status IN ('voided', 'reversed') THEN
+    RETURN jsonb_build_object(
+      'status', 'error',
+      'error', 'payout_already_reversed',
+      'transaction_id', v_payout.reversed_by
+    );
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, reverses, metadata,
+    original_currency, original_amount, fx_rate
+  ) VALUES (
+    p_ledger_id, 'payout_return', v_reference_id, 'payout_return',
+    'Payout returned (' || p_return_code || '): ' || COALESCE(v_payout.reference_id, v_payout.id::text),
+    v_payout.amount, v_payout.currency, 'completed', 'system', v_payout.id,
+    COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object(
+      'payout_transaction_id', v_payout.id,
+      'creator_id', v_creator_id,
+      'return_code', p_return_code,
+      'return_reason', p_return_reason,
+      'return_source', p_source,
+      'returned_at', v_returned_at
+    ),
+    v_payout.original_currency, v_payout.original_amount, v_payout.fx_rate
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  SELECT
+    v_tx_id,
+    e.account_id,
+    CASE WHEN e.entry_type = 'debit' THEN 'credit' ELSE 'debit' END,
+    e.amount,
+    e.currency,
+    e.original_amount
+  FROM public.entries e
+  WHERE e.transaction_id = v_payout.id;
+
+  UPDATE public.transactions
+  SET status = 'reversed',
+      reversed_by = v_tx_id,
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+        'rail_status', 'returned',
+        'return_code', p_return_code,
+        'return_transaction_id', v_tx_id,
+        'returned_at', v_returned_at
+      )
+  WHERE id = v_payout.id;
+
+  IF p_requires_new_bank_details AND v_creator_id IS NOT NULL THEN
+    UPDATE public.connected_accounts
+    SET bank_details_required = true,
+        bank_details_required_reason = 'payout_returned',
+        last_payout_return_code = p_return_code,
+        last_payout_returned_at = v_returned_at,
+        payouts_enabled = false,
+        updated_at = now()
+    WHERE ledger_id = p_ledger_id
+      AND entity_id = v_creator_id
+      AND is_active = true;
+  ELSIF v_creator_id IS NOT NULL THEN
+    UPDATE public.connected_accounts
+    SET last_payout_return_code = p_return_code,
+        last_payout_returned_at = v_returned_at,
+        updated_at = now()
+    WHERE ledger_id = p_ledger_id
+      AND entity_id = v_creator_id
+      AND is_active = true;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'created',
+    'transaction_id', v_tx_id,
+    'creator_id', v_creator_id,
+    'amount', v_payout.amount,
+    'currency', v_payout.currency
+  );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_payout_return_atomic(uuid, uuid, text, text, text, boolean, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payout_return_atomic(uuid, uuid, text, text, text, boolean, timestamptz, jsonb) TO service_role;
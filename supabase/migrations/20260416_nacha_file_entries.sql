@@ -0,0 +1,207 @@
+-- NACHA file entries.
+-- Every payout written to an outbound NACHA file (execute-payout
+-- generate_batch_file) gets a ledger-unique trace number recorded here, so the
+-- bank's return, NOC (notification of change) and acknowledgment files can be
+-- matched back to the originating payout by trace number.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.nacha_file_entries (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  payout_transaction_id uuid NOT NULL REFERENCES public.transactions(id),
+  trace_number text NOT NULL,
+  file_path text,
+  status text NOT NULL DEFAULT 'submitted',
+  return_code text,
+  change_code text,
+  corrected_data text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT nacha_file_entries_trace_number_format CHECK (trace_number ~ '^[0-9]{15}$'),
+  CONSTRAINT nacha_file_entries_status_check
+    CHECK (status IN ('submitted', 'acknowledged', 'failed', 'returned', 'corrected')),
+  CONSTRAINT nacha_file_entries_trace_key UNIQUE (ledger_id, trace_number)
+);
+
+COMMENT ON TABLE public.nacha_file_entries IS 'Payouts written to outbound NACHA files, keyed by trace number for return/NOC matching';
+
+CREATE INDEX IF NOT EXISTS idx_nacha_file_entries_payout
+  ON public.nacha_file_entries (ledger_id, payout_transaction_id);
+
+ALTER TABLE public.nacha_file_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS nacha_file_entries_service_all ON public.nacha_file_entries;
+CREATE POLICY nacha_file_entries_service_all ON public.nacha_file_entries
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS nacha_file_entries_read_org_members ON public.nacha_file_entries;
+CREATE POLICY nacha_file_entries_read_org_members
+  ON public.nacha_file_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = nacha_file_entries.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. allocate_nacha_trace_numbers
+-- ============================================================
+-- Trace number = 8-digit ODFI routing prefix + 7-digit sequence. The sequence
+-- continues from the ledger's last trace for that ODFI so trace numbers stay
+-- unique across files.
+CREATE OR REPLACE FUNCTION public.allocate_nacha_trace_numbers(
+  p_ledger_id uuid,
+  p_odfi text,
+  p_file_path text,
+  p_payout_ids uuid[]
+)
+RETURNS TABLE (out_payout_transaction_id uuid, out_trace_number text)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_odfi text := lpad(left(COALESCE(p_odfi, ''), 8), 8, '0');
+  v_last_seq bigint;
+BEGIN
+  IF v_odfi !~ '^[0-9]{8}$' THEN
+    RAISE EXCEPTION 'Invalid ODFI routing prefix: %', p_odfi;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('nacha_trace:' || p_ledger_id::text));
+
+  SELECT COALESCE(MAX(right(trace_number, 7)::bigint), 0) INTO v_last_seq
+  FROM public.nacha_file_entries
+  WHERE ledger_id = p_ledger_id
+    AND left(trace_number, 8) = v_odfi;
+
+  RETURN QUERY
+  INSERT INTO public.nacha_file_entries (ledger_id, payout_transaction_id, trace_number, file_path)
+  SELECT
+    p_ledger_id,
+    t.id,
+    v_odfi || lpad((((v_last_seq + ids.ord - 1) % 9999999) + 1)::text, 7, '0'),
+    p_file_path
+  FROM unnest(p_payout_ids) WITH ORDINALITY AS ids(payout_id, ord)
+  JOIN public.transactions t
+    ON t.id = ids.payout_id
+   AND t.ledger_id = p_ledger_id
+   AND t.transaction_type = 'payout'
+  ORDER BY ids.ord
+  RETURNING payout_transaction_id, trace_number;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.allocate_nacha_trace_numbers(uuid, text, text, uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.allocate_nacha_trace_numbers(uuid, text, text, uuid[]) TO service_role;
+
+-- ============================================================
+-- 3. apply_nacha_noc
+-- ============================================================
+-- Applies a notification of change to the creator's stored bank details
+-- (accounts.metadata.payout_method.bank_account) and records it on the
+-- payout and its file entry. Only routing_number, account_number and
+-- account_type are accepted as corrections.
+CREATE OR REPLACE FUNCTION public.apply_nacha_noc(
+  p_ledger_id uuid,
+  p_trace_number text,
+  p_change_code text,
+  p_corrected_data text,
+  p_corrections jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_entry public.nacha_file_entries%ROWTYPE;
+  v_creator_id text;
+  v_account_id uuid;
+  v_corrections jsonb;
+  v_applied boolean := false;
+BEGIN
+  SELECT * INTO v_entry
+  FROM public.nacha_file_entries
+  WHERE ledger_id = p_ledger_id AND trace_number = p_trace_number
+  FOR UPDATE;
+
+  IF v_entry.id IS NULL THEN
+    RETURN jsonb_build_object('status', 'unmatched');
+  END IF;
+
+  IF v_entry.change_code IS NOT DISTINCT FROM p_change_code
+     AND v_entry.corrected_data IS NOT DISTINCT FROM p_corrected_data THEN
+    RETURN jsonb_build_object('status', 'duplicate', 'payout_transaction_id', v_entry.payout_transaction_id);
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_corrections
+  FROM jsonb_each(COALESCE(p_corrections, '{}'::jsonb))
+  WHERE key IN ('routing_number', 'account_number', 'account_type')
+    AND jsonb_typeof(value) = 'string';
+
+  SELECT metadata->>'creator_id' INTO v_creator_id
+  FROM public.transactions
+  WHERE id = v_entry.payout_transaction_id;
+
+  IF v_corrections <> '{}'::jsonb AND v_creator_id IS NOT NULL THEN
+    SELECT id INTO v_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'creator_balance'
+      AND entity_id = v_creator_id
+    FOR UPDATE;
+
+    IF v_account_id IS NOT NULL THEN
+      UPDATE public.accounts
+      SET metadata = jsonb_set(
+            COALESCE(metadata, '{}'::jsonb),
+            '{payout_method}',
+            COALESCE(metadata->'payout_method', '{}'::jsonb)
+              || jsonb_build_object(
+                'bank_account',
+                COALESCE(metadata #> '{payout_method,bank_account}', '{}'::jsonb) || v_corrections
+              )
+              || jsonb_build_object(
+                'last_noc', jsonb_build_object('change_code', p_change_code, 'trace_number', p_trace_number, 'applied_at', now())
+              )
+          )
+      WHERE id = v_account_id;
+      v_applied := true;
+    END IF;
+  END IF;
+
+  UPDATE public.nacha_file_entries
+  SET status = CASE WHEN status IN ('returned', 'failed') THEN status ELSE 'corrected' END,
+      change_code = p_change_code,
+      corrected_data = p_corrected_data,
+      updated_at = now()
+  WHERE id = v_entry.id;
+
+  UPDATE public.transactions
+  SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(
+        'noc_change_code', p_change_code,
+        'noc_applied', v_applied
+      )
+  WHERE id = v_entry.payout_transaction_id;
+
+  RETURN jsonb_build_object(
+    'status', 'applied',
+    'payout_transaction_id', v_entry.payout_transaction_id,
+    'creator_id', v_creator_id,
+    'bank_details_updated', v_applied
+  );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.apply_nacha_noc(uuid, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_nacha_noc(uuid, text, text, text, jsonb) TO service_role;
@@ -0,0 +1,664 @@
+-- Sales tax jurisdictions.
+-- Replaces the hard-coded Maryland 6% digital-goods rate with a rate table
+-- keyed by country / state / postal prefix / tax category and effective date,
+-- per-ledger rate overrides, per-ledger nexus (where the platform is
+-- registered to collect), and VAT reverse charge for B2B buyers that supply a
+-- tax ID. Collected tax posts to a sales_tax_payable account per jurisdiction.
+--
+-- Ledgers with no nexus rows keep the previous behaviour: tax is collected
+-- for US-MD only.
+
+-- ============================================================
+-- 1. Reference rates
+-- ============================================================
+-- Empty state_code / postal_code / tax_category mean "any". postal_code is a
+-- prefix match. The most specific matching row wins; ties go to the newest
+-- effective_from.
+CREATE TABLE IF NOT EXISTS public.sales_tax_rates (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  country_code text NOT NULL,
+  state_code text NOT NULL DEFAULT '',
+  postal_code text NOT NULL DEFAULT '',
+  tax_category text NOT NULL DEFAULT '',
+  jurisdiction_code text NOT NULL,
+  jurisdiction_name text NOT NULL,
+  tax_type text NOT NULL DEFAULT 'sales_tax',
+  rate_bps integer NOT NULL,
+  effective_from date NOT NULL,
+  effective_to date,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT sales_tax_rates_country_format CHECK (country_code ~ '^[A-Z]{2}$'),
+  CONSTRAINT sales_tax_rates_state_format CHECK (state_code = '' OR state_code ~ '^[A-Z0-9]{1,3}$'),
+  CONSTRAINT sales_tax_rates_tax_type_check CHECK (tax_type IN ('sales_tax', 'vat', 'gst')),
+  CONSTRAINT sales_tax_rates_rate_range CHECK (rate_bps >= 0 AND rate_bps <= 10000),
+  CONSTRAINT sales_tax_rates_effective_range CHECK (effective_to IS NULL OR effective_to > effective_from),
+  CONSTRAINT sales_tax_rates_key UNIQUE (country_code, state_code, postal_code, tax_category, effective_from)
+);
+
+COMMENT ON TABLE public.sales_tax_rates IS 'Built-in sales tax / VAT rates by jurisdiction, tax category and effective date';
+
+ALTER TABLE public.sales_tax_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sales_tax_rates_service_all ON public.sales_tax_rates;
+CREATE POLICY sales_tax_rates_service_all ON public.sales_tax_rates
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS sales_tax_rates_read_authenticated ON public.sales_tax_rates;
+CREATE POLICY sales_tax_rates_read_authenticated ON public.sales_tax_rates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Standard rates as published by the tax authorities; review before each
+-- scheduled change and add a new effective_from row rather than editing.
+INSERT INTO public.sales_tax_rates
+  (country_code, state_code, tax_category, jurisdiction_code, jurisdiction_name, tax_type, rate_bps, effective_from, effective_to)
+VALUES
+  ('US', 'MD', 'digital_goods', 'US-MD', 'Maryland', 'sales_tax', 600, '2021-03-14', NULL),
+  ('AT', '', '', 'AT', 'Austria', 'vat', 2000, '2020-01-01', NULL),
+  ('BE', '', '', 'BE', 'Belgium', 'vat', 2100, '2020-01-01', NULL),
+  ('BG', '', '', 'BG', 'Bulgaria', 'vat', 2000, '2020-01-01', NULL),
+  ('HR', '', '', 'HR', 'Croatia', 'vat', 2500, '2020-01-01', NULL),
+  ('CY', '', '', 'CY', 'Cyprus', 'vat', 1900, '2020-01-01', NULL),
+  ('CZ', '', '', 'CZ', 'Czechia', 'vat', 2100, '2020-01-01', NULL),
+  ('DK', '', '', 'DK', 'Denmark', 'vat', 2500, '2020-01-01', NULL),
+  ('EE', '', '', 'EE', 'Estonia', 'vat', 2000, '2020-01-01', '2024-01-01'),
+  ('EE', '', '', 'EE', 'Estonia', 'vat', 2200, '2024-01-01', '2025-07-01'),
+  ('EE', '', '', 'EE', 'Estonia', 'vat', 2400, '2025-07-01', NULL),
+  ('FI', '', '', 'FI', 'Finland', 'vat', 2400, '2020-01-01', '2024-09-01'),
+  ('FI', '', '', 'FI', 'Finland', 'vat', 2550, '2024-09-01', NULL),
+  ('FR', '', '', 'FR', 'France', 'vat', 2000, '2020-01-01', NULL),
+  ('DE', '', '', 'DE', 'Germany', 'vat', 1900, '2021-01-01', NULL),
+  ('GR', '', '', 'GR', 'Greece', 'vat', 2400, '2020-01-01', NULL),
+  ('HU', '', '', 'HU', 'Hungary', 'vat', 2700, '2020-01-01', NULL),
+  ('IE', '', '', 'IE', 'Ireland', 'vat', 2300, '2021-03-01', NULL),
+  ('IT', '', '', 'IT', 'Italy', 'vat', 2200, '2020-01-01', NULL),
+  ('LV', '', '', 'LV', 'Latvia', 'vat', 2100, '2020-01-01', NULL),
+  ('LT', '', '', 'LT', 'Lithuania', 'vat', 2100, '2020-01-01', NULL),
+  ('LU', '', '', 'LU', 'Luxembourg', 'vat', 1700, '2020-01-01', NULL),
+  ('MT', '', '', 'MT', 'Malta', 'vat', 1800, '2020-01-01', NULL),
+  ('NL', '', '', 'NL', 'Netherlands', 'vat', 2100, '2020-01-01', NULL),
+  ('PL', '', '', 'PL', 'Poland', 'vat', 2300, '2020-01-01', NULL),
+  ('PT', '', '', 'PT', 'Portugal', 'vat', 2300, '2020-01-01', NULL),
+  ('RO', '', '', 'RO', 'Romania', 'vat', 1900, '2020-01-01', '2025-08-01'),
+  ('RO', '', '', 'RO', 'Romania', 'vat', 2100, '2025-08-01', NULL),
+  ('SK', '', '', 'SK', 'Slovakia', 'vat', 2000, '2020-01-01', '2025-01-01'),
+  ('SK', '', '', 'SK', 'Slovakia', 'vat', 2300, '2025-01-01', NULL),
+  ('SI', '', '', 'SI', 'Slovenia', 'vat', 2200, '2020-01-01', NULL),
+  ('ES', '', '', 'ES', 'Spain', 'vat', 2100, '2020-01-01', NULL),
+  ('SE', '', '', 'SE', 'Sweden', 'vat', 2500, '2020-01-01', NULL),
+  ('GB', '', '', 'GB', 'United Kingdom', 'vat', 2000, '2020-01-01', NULL)
+ON CONFLICT (country_code, state_code, postal_code, tax_category, effective_from) DO NOTHING;
+
+-- ============================================================
+-- 2. Ledger rate overrides
+-- ============================================================
+-- Same shape as sales_tax_rates; a matching ledger row always beats the
+-- built-in table (e.g. local district rates, category exemptions).
+CREATE TABLE IF NOT EXISTS public.ledger_sales_tax_rates (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  country_code text NOT NULL,
+  state_code text NOT NULL DEFAULT '',
+  postal_code text NOT NULL DEFAULT '',
+  tax_category text NOT NULL DEFAULT '',
+  jurisdiction_code text NOT NULL,
+  jurisdiction_name text NOT NULL,
+  tax_type text NOT NULL DEFAULT 'sales_tax',
+  rate_bps integer NOT NULL,
+  effective_from date NOT NULL,
+  effective_to date,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ledger_sales_tax_rates_country_format CHECK (country_code ~ '^[A-Z]{2}$'),
+  CONSTRAINT ledger_sales_tax_rates_state_format CHECK (state_code = '' OR state_code ~ '^[A-Z0-9]{1,3}$'),
+  CONSTRAINT ledger_sales_tax_rates_tax_type_check CHECK (tax_type IN ('sales_tax', 'vat', 'gst')),
+  CONSTRAINT ledger_sales_tax_rates_rate_range CHECK (rate_bps >= 0 AND rate_bps <= 10000),
+  CONSTRAINT ledger_sales_tax_rates_effective_range CHECK (effective_to IS NULL OR effective_to > effective_from),
+  CONSTRAINT ledger_sales_tax_rates_key UNIQUE (ledger_id, country_code, state_code, postal_code, tax_category, effective_from)
+);
+
+COMMENT ON TABLE public.ledger_sales_tax_rates IS 'Per-ledger sales tax rate overrides; take precedence over sales_tax_rates';
+
+ALTER TABLE public.ledger_sales_tax_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ledger_sales_tax_rates_service_all ON public.ledger_sales_tax_rates;
+CREATE POLICY ledger_sales_tax_rates_service_all ON public.ledger_sales_tax_rates
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS ledger_sales_tax_rates_read_org_members ON public.ledger_sales_tax_rates;
+CREATE POLICY ledger_sales_tax_rates_read_org_members
+  ON public.ledger_sales_tax_rates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = ledger_sales_tax_rates.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 3. Nexus
+-- ============================================================
+-- One row per country (state_code '') or US state the ledger collects in.
+CREATE TABLE IF NOT EXISTS public.ledger_sales_tax_nexus (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  country_code text NOT NULL,
+  state_code text NOT NULL DEFAULT '',
+  registration_number text,
+  collect_tax boolean NOT NULL DEFAULT true,
+  effective_from date NOT NULL DEFAULT CURRENT_DATE,
+  effective_to date,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ledger_sales_tax_nexus_country_format CHECK (country_code ~ '^[A-Z]{2}$'),
+  CONSTRAINT ledger_sales_tax_nexus_state_format CHECK (state_code = '' OR state_code ~ '^[A-Z0-9]{1,3}$'),
+  CONSTRAINT ledger_sales_tax_nexus_effective_range CHECK (effective_to IS NULL OR effective_to > effective_from),
+  CONSTRAINT ledger_sales_tax_nexus_key UNIQUE (ledger_id, country_code, state_code)
+);
+
+COMMENT ON TABLE public.ledger_sales_tax_nexus IS 'Jurisdictions where a ledger is registered to collect sales tax / VAT';
+
+ALTER TABLE public.ledger_sales_tax_nexus ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ledger_sales_tax_nexus_service_all ON public.ledger_sales_tax_nexus;
+CREATE POLICY ledger_sales_tax_nexus_service_all ON public.ledger_sales_tax_nexus
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS ledger_sales_tax_nexus_read_org_members ON public.ledger_sales_tax_nexus;
+CREATE POLICY ledger_sales_tax_nexus_read_org_members
+  ON public.ledger_sales_tax_nexus
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = ledger_sales_tax_nexus.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 4. Checkout session columns
+-- ============================================================
+ALTER TABLE public.checkout_sessions
+  ADD COLUMN IF NOT EXISTS sales_tax_jurisdiction text,
+  ADD COLUMN IF NOT EXISTS sales_tax_type text,
+  ADD COLUMN IF NOT EXISTS sales_tax_reverse_charge boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS customer_tax_id text;
+
+-- ============================================================
+-- 5. calculate_sales_tax
+-- ============================================================
+-- Returns { collect, tax_cents, rate_bps, jurisdiction_code,
+-- jurisdiction_name, tax_type, reverse_charge, reason }. reason is set when no
+-- tax is charged: exempt, no_rate, no_nexus, reverse_charge.
+--
+-- Reverse charge: a VAT sale to a buyer with a tax ID in a country other than
+-- the ledger's home country (settings.tax_home_country, default US) carries
+-- no VAT; the buyer self-assesses.
+CREATE OR REPLACE FUNCTION public.calculate_sales_tax(
+  p_ledger_id uuid,
+  p_subtotal_cents bigint,
+  p_country_code text,
+  p_state_code text DEFAULT NULL,
+  p_postal_code text DEFAULT NULL,
+  p_tax_category text DEFAULT NULL,
+  p_customer_tax_id text DEFAULT NULL,
+  p_as_of date DEFAULT CURRENT_DATE
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_country text := UPPER(TRIM(COALESCE(p_country_code, 'US')));
+  v_state text := UPPER(TRIM(COALESCE(p_state_code, '')));
+  v_postal text := UPPER(REPLACE(COALESCE(p_postal_code, ''), ' ', ''));
+  v_category text := LOWER(TRIM(COALESCE(p_tax_category, '')));
+  v_as_of date := COALESCE(p_as_of, CURRENT_DATE);
+  v_home_country text;
+  v_rate record;
+  v_has_nexus_rows boolean;
+  v_in_nexus boolean;
+  v_tax_cents bigint;
+BEGIN
+  IF v_category = 'exempt' THEN
+    RETURN jsonb_build_object('collect', false, 'tax_cents', 0, 'reason', 'exempt');
+  END IF;
+
+  SELECT r.jurisdiction_code, r.jurisdiction_name, r.tax_type, r.rate_bps
+  INTO v_rate
+  FROM (
+    SELECT 0 AS source_rank, lr.country_code, lr.state_code, lr.postal_code, lr.tax_category,
+           lr.jurisdiction_code, lr.jurisdiction_name, lr.tax_type, lr.rate_bps,
+           lr.effective_from, lr.effective_to
+    FROM public.ledger_sales_tax_rates lr
+    WHERE lr.ledger_id = p_ledger_id
+    UNION ALL
+    SELECT 1, gr.country_code, gr.state_code, gr.postal_code, gr.tax_category,
+           gr.jurisdiction_code, gr.jurisdiction_name, gr.tax_type, gr.rate_bps,
+           gr.effective_from, gr.effective_to
+    FROM public.sales_tax_rates gr
+  ) r
+  WHERE r.country_code = v_country
+    AND (r.state_code = '' OR r.state_code = v_state)
+    AND (r.postal_code = '' OR v_postal LIKE r.postal_code || '%')
+    AND (r.tax_category = '' OR r.tax_category = v_category)
+    AND r.effective_from <= v_as_of
+    AND (r.effective_to IS NULL OR r.effective_to > v_as_of)
+  ORDER BY r.source_rank,
+           length(r.postal_code) DESC,
+           (r.state_code <> '') DESC,
+           (r.tax_category <> '') DESC,
+           r.effective_from DESC
+  LIMIT 1;
+
+  IF v_rate.jurisdiction_code IS NULL THEN
+    RETURN jsonb_build_object('collect', false, 'tax_cents', 0, 'reason', 'no_rate');
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.ledger_sales_tax_nexus WHERE ledger_id = p_ledger_id
+  ) INTO v_has_nexus_rows;
+
+  IF v_has_nexus_rows THEN
+    SELECT EXISTS (
+      SELECT 1
+      FROM public.ledger_sales_tax_nexus n
+      WHERE n.ledger_id = p_ledger_id
+        AND n.country_code = v_country
+        AND (n.state_code = '' OR n.state_code = v_state)
+        AND n.collect_tax
+        AND n.effective_from <= v_as_of
+        AND (n.effective_to IS NULL OR n.effective_to > v_as_of)
+    ) INTO v_in_nexus;
+  ELSE
+    v_in_nexus := v_country = 'US' AND v_state = 'MD';
+  END IF;
+
+  IF NOT v_in_nexus THEN
+    RETURN jsonb_build_object(
+      'collect', false,
+      'tax_cents', 0,
+      'jurisdiction_code', v_rate.jurisdiction_code,
+      'jurisdiction_name', v_rate.jurisdiction_name,
+      'tax_type', v_rate.tax_type,
+      'reason', 'no_nexus'
+    );
+  END IF;
+
+  SELECT UPPER(COALESCE(NULLIF(TRIM(l.settings->>'tax_home_country'), ''), 'US'))
+  INTO v_home_country
+  FROM public.ledgers l
+  WHERE l.id = p_ledger_id;
+
+  IF v_rate.tax_type = 'vat'
+     AND NULLIF(TRIM(COALESCE(p_customer_tax_id, '')), '') IS NOT NULL
+     AND v_country <> COALESCE(v_home_country, 'US') THEN
+    RETURN jsonb_build_object(
+      'collect', false,
+      'tax_cents', 0,
+      'rate_bps', 0,
+      'jurisdiction_code', v_rate.jurisdiction_code,
+      'jurisdiction_name', v_rate.jurisdiction_name,
+      'tax_type', v_rate.tax_type,
+      'reverse_charge', true,
+      'reason', 'reverse_charge'
+    );
+  END IF;
+
+  v_tax_cents := ROUND(GREATEST(COALESCE(p_subtotal_cents, 0), 0) * v_rate.rate_bps / 10000.0);
+
+  RETURN jsonb_build_object(
+    'collect', true,
+    'tax_cents', v_tax_cents,
+    'rate_bps', v_rate.rate_bps,
+    'jurisdiction_code', v_rate.jurisdiction_code,
+    'jurisdiction_name', v_rate.jurisdiction_name,
+    'tax_type', v_rate.tax_type,
+    'reverse_charge', false
+  );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.calculate_sales_tax(uuid, bigint, text, text, text, text, text, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_sales_tax(uuid, bigint, text, text, text, text, text, date) TO service_role;
+
+-- ============================================================
+-- 6. record_sale_atomic: per-jurisdiction tax payable
+-- ============================================================
+-- Unchanged from 20260412_fx_rates except the sales tax account lookup.
+CREATE OR REPLACE FUNCTION public.record_sale_atomic(
+  p_ledger_id uuid,
+  p_reference_id text,
+  p_creator_id text,
+  p_gross_amount bigint,
+  p_creator_amount bigint,
+  p_platform_amount bigint,
+  p_processing_fee bigint DEFAULT 0,
+  p_soledgic_fee bigint DEFAULT 0,
+  p_product_id text DEFAULT NULL::text,
+  p_product_name text DEFAULT NULL::text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_sales_tax bigint DEFAULT 0,
+  p_entry_method text DEFAULT 'processor'::text,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric
+)
+RETURNS TABLE(out_transaction_id uuid, out_creator_account_id uuid, out_creator_balance numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_tx_id UUID;
+  v_creator_account_id UUID;
+  v_creator_is_active BOOLEAN;
+  v_platform_account_id UUID;
+  v_buyer_wallet_id UUID;
+  v_fee_account_id UUID;
+  v_soledgic_fee_account_id UUID;
+  v_sales_tax_payable_account_id UUID;
+  v_tax_jurisdiction TEXT;
+  v_creator_balance NUMERIC(14,2);
+  v_total_distributed BIGINT;
+  v_entry_method TEXT;
+  v_existing_amount NUMERIC(18,4);
+  v_buyer_id TEXT;
+  v_functional TEXT;
+  v_currency TEXT;
+  v_is_foreign BOOLEAN;
+  v_rate NUMERIC;
+  v_factor NUMERIC;
+  v_gross_f NUMERIC(14,2);
+  v_creator_f NUMERIC(14,2);
+  v_platform_f NUMERIC(14,2);
+  v_fee_f NUMERIC(14,2);
+  v_soledgic_f NUMERIC(14,2);
+  v_tax_f NUMERIC(14,2);
+  v_residual NUMERIC(14,2);
+BEGIN
+  IF p_gross_amount <= 0 THEN
+    RAISE EXCEPTION 'Gross amount must be positive: %', p_gross_amount;
+  END IF;
+
+  IF p_creator_amount < 0 OR p_platform_amount < 0 OR p_processing_fee < 0 OR p_soledgic_fee < 0 OR p_sales_tax < 0 THEN
+    RAISE EXCEPTION 'Amounts cannot be negative';
+  END IF;
+
+  v_total_distributed := p_creator_amount + p_platform_amount + p_processing_fee + p_soledgic_fee + p_sales_tax;
+  IF v_total_distributed != p_gross_amount THEN
+    RAISE EXCEPTION 'Double-entry sum mismatch: creator(%) + platform(%) + fee(%) + soledgic(%) + sales_tax(%) = % != gross(%)',
+      p_creator_amount, p_platform_amount, p_processing_fee, p_soledgic_fee, p_sales_tax, v_total_distributed, p_gross_amount;
+  END IF;
+
+  v_functional := public.ledger_functional_currency(p_ledger_id);
+  v_currency := UPPER(COALESCE(NULLIF(TRIM(p_currency), ''), v_functional));
+  IF v_currency !~ '^[A-Z]{3}$' THEN
+    RAISE EXCEPTION 'Invalid currency: %', p_currency;
+  END IF;
+
+  v_is_foreign := v_currency <> v_functional;
+  -- Explicit rate wins; otherwise the rate table for today. Never 1:1.
+  v_rate := public.resolve_posting_fx_rate(p_ledger_id, v_currency, p_fx_rate, CURRENT_DATE);
+
+  v_factor := public.currency_minor_unit_factor(v_currency);
+  v_gross_f := ROUND(p_gross_amount / v_factor * v_rate, 2);
+  v_creator_f := ROUND(p_creator_amount / v_factor * v_rate, 2);
+  v_platform_f := ROUND(p_platform_amount / v_factor * v_rate, 2);
+  v_fee_f := ROUND(p_processing_fee / v_factor * v_rate, 2);
+  v_soledgic_f := ROUND(p_soledgic_fee / v_factor * v_rate, 2);
+  v_tax_f := ROUND(p_sales_tax / v_factor * v_rate, 2);
+
+  v_residual := v_gross_f - (v_creator_f + v_platform_f + v_fee_f + v_soledgic_f + v_tax_f);
+  IF v_residual <> 0 THEN
+    IF v_platform_f + v_residual >= 0 THEN
+      v_platform_f := v_platform_f + v_residual;
+    ELSE
+      v_creator_f := v_creator_f + v_residual;
+    END IF;
+  END IF;
+
+  v_entry_method := COALESCE(NULLIF(TRIM(p_entry_method), ''), 'processor');
+  IF v_entry_method NOT IN ('processor', 'manual', 'system', 'import') THEN
+    v_entry_method := 'processor';
+  END IF;
+
+  v_buyer_id := p_metadata->>'buyer_id';
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  IF v_platform_account_id IS NULL THEN
+    RAISE EXCEPTION 'Platform revenue account not initialized for ledger %', p_ledger_id;
+  END IF;
+
+  IF v_buyer_id IS NOT NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'buyer_wallet'
+      AND entity_id = v_buyer_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'cash'
+    LIMIT 1;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'No debit account (buyer_wallet or cash) found for ledger %', p_ledger_id;
+  END IF;
+
+  SELECT id, is_active INTO v_creator_account_id, v_creator_is_active
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'creator_balance'
+    AND entity_id = p_creator_id
+  FOR UPDATE;
+
+  IF v_creator_account_id IS NOT NULL AND v_creator_is_active = false THEN
+    RAISE EXCEPTION 'Creator % has been deleted', p_creator_id;
+  END IF;
+
+  IF v_creator_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_id, entity_type, name, currency
+    ) VALUES (
+      p_ledger_id, 'creator_balance', p_creator_id, 'creator', 'Creator ' || p_creator_id, v_functional
+    )
+    RETURNING id INTO v_creator_account_id;
+  END IF;
+
+  IF p_processing_fee > 0 THEN
+    SELECT id INTO v_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'processing_fees', 'platform', 'Processing Fees'
+      )
+      RETURNING id INTO v_fee_account_id;
+    END IF;
+  END IF;
+
+  IF p_soledgic_fee > 0 THEN
+    SELECT id INTO v_soledgic_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'soledgic_fee'
+    LIMIT 1;
+
+    IF v_soledgic_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'soledgic_fee', 'platform', 'Soledgic Platform Fee'
+      )
+      RETURNING id INTO v_soledgic_fee_account_id;
+    END IF;
+  END IF;
+
+  -- Collected tax is owed to a specific jurisdiction: post it to that
+  -- jurisdiction's payable account (entity_id = jurisdiction code). Sales
+  -- without a jurisdiction keep using the ledger-wide payable account.
+  v_tax_jurisdiction := NULLIF(UPPER(TRIM(COALESCE(p_metadata->>'sales_tax_jurisdiction', ''))), '');
+
+  IF p_sales_tax > 0 AND v_tax_jurisdiction IS NOT NULL THEN
+    SELECT id INTO v_sales_tax_payable_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'sales_tax_payable'
+      AND entity_id = v_tax_jurisdiction
+    LIMIT 1;
+
+    IF v_sales_tax_payable_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_id, entity_type, name, currency
+      ) VALUES (
+        p_ledger_id, 'sales_tax_payable', v_tax_jurisdiction, 'tax_jurisdiction',
+        'Sales Tax Payable - ' || v_tax_jurisdiction, v_functional
+      )
+      RETURNING id INTO v_sales_tax_payable_account_id;
+    END IF;
+  ELSIF p_sales_tax > 0 THEN
+    SELECT id INTO v_sales_tax_payable_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'sales_tax_payable'
+      AND entity_id IS NULL
+    LIMIT 1;
+
+    IF v_sales_tax_payable_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'sales_tax_payable', 'platform', 'Sales Tax Payable'
+      )
+      RETURNING id INTO v_sales_tax_payable_account_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata,
+    original_currency, original_amount, fx_rate
+  ) VALUES (
+    p_ledger_id, 'sale', p_reference_id, 'external',
+    COALESCE(p_product_name, 'Sale for creator ' || p_creator_id),
+    v_gross_f, v_functional, 'completed', v_entry_method,
+    jsonb_build_object(
+      'creator_id', p_creator_id,
+      'product_id', p_product_id,
+      'buyer_id', v_buyer_id,
+      'currency', v_currency,
+      'amounts_cents', jsonb_build_object(
+        'gross', p_gross_amount,
+        'subtotal', p_gross_amount - p_sales_tax,
+        'sales_tax', p_sales_tax,
+        'creator', p_creator_amount,
+        'platform', p_platform_amount,
+        'fee', p_processing_fee,
+        'soledgic_fee', p_soledgic_fee
+      )
+    ) || p_metadata,
+    CASE WHEN v_is_foreign THEN v_currency ELSE NULL END,
+    CASE WHEN v_is_foreign THEN p_gross_amount / v_factor ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_rate ELSE NULL END
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_buyer_wallet_id, 'debit', v_gross_f, v_currency, p_gross_amount / v_factor);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_creator_account_id, 'credit', v_creator_f, v_currency, p_creator_amount / v_factor);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_platform_account_id, 'credit', v_platform_f, v_currency, p_platform_amount / v_factor);
+
+  IF p_processing_fee > 0 AND v_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_fee_account_id, 'credit', v_fee_f, v_currency, p_processing_fee / v_factor);
+  END IF;
+
+  IF p_soledgic_fee > 0 AND v_soledgic_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_soledgic_fee_account_id, 'credit', v_soledgic_f, v_currency, p_soledgic_fee / v_factor);
+  END IF;
+
+  IF p_sales_tax > 0 AND v_sales_tax_payable_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_sales_tax_payable_account_id, 'credit', v_tax_f, v_currency, p_sales_tax / v_factor);
+  END IF;
+
+  SELECT balance INTO v_creator_balance
+  FROM public.accounts
+  WHERE id = v_creator_account_id;
+
+  PERFORM 1 FROM (
+    SELECT
+      SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE 0 END) AS debits,
+      SUM(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE 0 END) AS credits
+    FROM public.entries e
+    WHERE e.transaction_id = v_tx_id
+  ) AS totals
+  WHERE totals.debits != totals.credits;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'CRITICAL: Double-entry validation failed for transaction %', v_tx_id;
+  END IF;
+
+  RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT t.id, COALESCE(t.original_amount, t.amount)
+      INTO v_tx_id, v_existing_amount
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = p_reference_id;
+
+    IF v_tx_id IS NULL THEN RAISE; END IF;
+
+    IF v_existing_amount IS DISTINCT FROM (p_gross_amount / v_factor) THEN
+      RAISE EXCEPTION 'Idempotency conflict: reference_id "%" already exists with amount % but request has amount %',
+        p_reference_id, v_existing_amount, p_gross_amount / v_factor;
+    END IF;
+
+    SELECT a.id, a.balance
+      INTO v_creator_account_id, v_creator_balance
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'creator_balance'
+       AND a.entity_id = p_creator_id;
+
+    RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) TO service_role;
@@ -0,0 +1,449 @@
+-- Tax form types: 1099-K and 1099-MISC alongside 1099-NEC.
+-- Which form a creator's earnings land on depends on the payment category:
+-- services are nonemployee compensation (1099-NEC), marketplace settlement
+-- through a third-party network is 1099-K, royalties / rents / other income
+-- go on 1099-MISC. Each category has its own filing threshold, and those
+-- thresholds change by tax year, so they live in a table keyed by the first
+-- tax year they apply to.
+--
+-- The category of a sale is read from transactions.metadata.payment_category,
+-- then the creator account's metadata.payment_category, then the ledger's
+-- settings.tax_payment_category, defaulting to nonemployee_compensation.
+
+-- ============================================================
+-- 1. Per-year thresholds
+-- ============================================================
+-- A form is required when the category total reaches amount_threshold. Where
+-- transaction_threshold is set (1099-K) the total must exceed the amount AND
+-- the number of transactions must exceed the count.
+CREATE TABLE IF NOT EXISTS public.tax_form_thresholds (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  payment_category text NOT NULL,
+  form_type text NOT NULL,
+  form_box text NOT NULL,
+  tax_year_from integer NOT NULL,
+  amount_threshold numeric(14,2) NOT NULL,
+  transaction_threshold integer,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT tax_form_thresholds_category_check CHECK (
+    payment_category IN ('nonemployee_compensation', 'payment_settlement', 'royalties', 'rents', 'other_income')
+  ),
+  CONSTRAINT tax_form_thresholds_form_type_check CHECK (form_type IN ('1099-NEC', '1099-K', '1099-MISC')),
+  CONSTRAINT tax_form_thresholds_amount_check CHECK (amount_threshold >= 0),
+  CONSTRAINT tax_form_thresholds_count_check CHECK (transaction_threshold IS NULL OR transaction_threshold >= 0),
+  CONSTRAINT tax_form_thresholds_key UNIQUE (payment_category, tax_year_from)
+);
+
+COMMENT ON TABLE public.tax_form_thresholds IS '1099 form, box and filing threshold per payment category, by first tax year in effect';
+
+ALTER TABLE public.tax_form_thresholds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tax_form_thresholds_service_all ON public.tax_form_thresholds;
+CREATE POLICY tax_form_thresholds_service_all ON public.tax_form_thresholds
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS tax_form_thresholds_read_authenticated ON public.tax_form_thresholds;
+CREATE POLICY tax_form_thresholds_read_authenticated ON public.tax_form_thresholds
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- NEC / MISC rents and other income move from $600 to $2,000 for payments
+-- made after 2025. The 1099-K $20,000 / 200 transaction test was restored
+-- retroactively, so it is the only row for that form. Add a new
+-- tax_year_from row for future changes rather than editing these.
+INSERT INTO public.tax_form_thresholds
+  (payment_category, form_type, form_box, tax_year_from, amount_threshold, transaction_threshold)
+VALUES
+  ('nonemployee_compensation', '1099-NEC', '1', 2020, 600, NULL),
+  ('nonemployee_compensation', '1099-NEC', '1', 2026, 2000, NULL),
+  ('payment_settlement', '1099-K', '1a', 2020, 20000, 200),
+  ('royalties', '1099-MISC', '2', 2020, 10, NULL),
+  ('rents', '1099-MISC', '1', 2020, 600, NULL),
+  ('rents', '1099-MISC', '1', 2026, 2000, NULL),
+  ('other_income', '1099-MISC', '3', 2020, 600, NULL),
+  ('other_income', '1099-MISC', '3', 2026, 2000, NULL)
+ON CONFLICT (payment_category, tax_year_from) DO NOTHING;
+
+-- ============================================================
+-- 2. Form type on tax documents
+-- ============================================================
+ALTER TABLE public.tax_documents
+  ADD COLUMN IF NOT EXISTS form_boxes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS metadata jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.tax_documents.form_boxes IS 'Amounts by form box, e.g. {"1": 1200.00} for 1099-NEC or {"1a": 25000.00, "3": 240} for 1099-K';
+
+UPDATE public.tax_documents
+   SET form_boxes = jsonb_build_object('1', gross_amount)
+ WHERE document_type = '1099-NEC'
+   AND form_boxes = '{}'::jsonb;
+
+ALTER TABLE public.tax_documents
+  DROP CONSTRAINT IF EXISTS tax_documents_document_type_check;
+ALTER TABLE public.tax_documents
+  ADD CONSTRAINT tax_documents_document_type_check
+  CHECK (document_type IN ('1099-NEC', '1099-K', '1099-MISC'));
+
+-- ============================================================
+-- 3. Threshold lookup
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_tax_form_thresholds(p_tax_year integer)
+ RETURNS TABLE(
+   payment_category      text,
+   form_type             text,
+   form_box              text,
+   amount_threshold      numeric,
+   transaction_threshold integer,
+   tax_year_from         integer
+ )
+ LANGUAGE sql
+ STABLE
+ SET search_path TO ''
+AS $function$
+  SELECT DISTINCT ON (t.payment_category)
+    t.payment_category,
+    t.form_type,
+    t.form_box,
+    t.amount_threshold,
+    t.transaction_threshold,
+    t.tax_year_from
+  FROM public.tax_form_thresholds t
+  WHERE t.tax_year_from <= p_tax_year
+  ORDER BY t.payment_category, t.tax_year_from DESC;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_tax_form_thresholds(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tax_form_thresholds(integer) TO service_role;
+
+-- ============================================================
+-- 4. Per-category totals for one creator
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.calculate_1099_form_totals(
+  p_ledger_id uuid,
+  p_creator_id text,
+  p_tax_year integer
+)
+ RETURNS TABLE(
+   payment_category      text,
+   form_type             text,
+   form_box              text,
+   gross_payments        numeric,
+   transaction_count     integer,
+   monthly_totals        jsonb,
+   amount_threshold      numeric,
+   transaction_threshold integer,
+   meets_threshold       boolean
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_default_category text;
+BEGIN
+  SELECT COALESCE(NULLIF(l.settings->>'tax_payment_category', ''), 'nonemployee_compensation')
+    INTO v_default_category
+    FROM public.ledgers l
+   WHERE l.id = p_ledger_id;
+
+  RETURN QUERY
+  WITH thresholds AS (
+    SELECT * FROM public.get_tax_form_thresholds(p_tax_year)
+  ),
+  credits AS (
+    SELECT
+      COALESCE(
+        NULLIF(t.metadata->>'payment_category', ''),
+        NULLIF(a.metadata->>'payment_category', ''),
+        v_default_category,
+        'nonemployee_compensation'
+      ) AS category,
+      EXTRACT(MONTH FROM t.created_at)::integer AS month,
+      e.amount
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+    JOIN public.accounts a ON a.id = e.account_id
+    WHERE a.ledger_id = p_ledger_id
+      AND a.account_type = 'creator_balance'
+      AND a.entity_id = p_creator_id
+      AND e.entry_type = 'credit'
+      AND t.transaction_type = 'sale'
+      AND t.status NOT IN ('voided', 'reversed')
+      AND EXTRACT(YEAR FROM t.created_at)::integer = p_tax_year
+  ),
+  -- Unknown categories fall back to 1099-NEC rather than going unreported.
+  categorized AS (
+    SELECT
+      CASE WHEN th.payment_category IS NULL THEN 'nonemployee_compensation' ELSE c.category END AS category,
+      c.month,
+      c.amount
+    FROM credits c
+    LEFT JOIN thresholds th ON th.payment_category = c.category
+  ),
+  monthly AS (
+    SELECT cz.category, cz.month, SUM(cz.amount) AS amount
+    FROM categorized cz
+    GROUP BY cz.category, cz.month
+  ),
+  totals AS (
+    SELECT
+      cz.category,
+      SUM(cz.amount)::numeric(14,2) AS gross,
+      COUNT(*)::integer AS cnt
+    FROM categorized cz
+    GROUP BY cz.category
+  )
+  SELECT
+    tt.category,
+    th.form_type,
+    th.form_box,
+    tt.gross,
+    tt.cnt,
+    COALESCE((
+      SELECT jsonb_object_agg(
+        (ARRAY['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'])[m.month],
+        m.amount
+      )
+      FROM monthly m
+      WHERE m.category = tt.category
+    ), '{}'::jsonb),
+    th.amount_threshold,
+    th.transaction_threshold,
+    CASE
+      WHEN th.transaction_threshold IS NOT NULL
+        THEN tt.gross > th.amount_threshold AND tt.cnt > th.transaction_threshold
+      ELSE tt.gross >= th.amount_threshold
+    END
+  FROM totals tt
+  JOIN thresholds th ON th.payment_category = tt.category
+  ORDER BY th.form_type, th.form_box;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.calculate_1099_form_totals(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_1099_form_totals(uuid, text, integer) TO service_role;
+
+-- ============================================================
+-- 5. Document generation per form type
+-- ============================================================
+-- One document per creator and form type. A form is generated when any of
+-- its boxes meets that box's threshold; every box on the form is then
+-- reported. 1099-K also carries the transaction count (box 3) and monthly
+-- amounts (boxes 5a-5l).
+CREATE OR REPLACE FUNCTION public.generate_1099_documents(p_ledger_id uuid, p_tax_year integer)
+ RETURNS TABLE(documents_created integer, documents_skipped integer, total_amount numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_creator RECORD;
+  v_form RECORD;
+  v_boxes JSONB;
+  v_created INTEGER := 0;
+  v_skipped INTEGER := 0;
+  v_total NUMERIC(14,2) := 0;
+BEGIN
+  FOR v_creator IN
+    SELECT a.entity_id
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'creator_balance'
+       AND a.entity_id IS NOT NULL
+  LOOP
+    FOR v_form IN
+      WITH lines AS (
+        SELECT * FROM public.calculate_1099_form_totals(p_ledger_id, v_creator.entity_id, p_tax_year)
+      ),
+      months AS (
+        SELECT l.form_type, m.key AS month, SUM(m.value::numeric) AS amount
+        FROM lines l, jsonb_each_text(l.monthly_totals) m
+        GROUP BY l.form_type, m.key
+      )
+      SELECT
+        l.form_type,
+        bool_or(l.meets_threshold) AS required,
+        SUM(l.gross_payments)::numeric(14,2) AS gross,
+        SUM(l.transaction_count)::integer AS cnt,
+        jsonb_object_agg(l.form_box, l.gross_payments) AS boxes,
+        COALESCE((
+          SELECT jsonb_object_agg(mo.month, mo.amount)
+          FROM months mo
+          WHERE mo.form_type = l.form_type
+        ), '{}'::jsonb) AS monthly,
+        array_agg(l.payment_category ORDER BY l.payment_category) AS categories
+      FROM lines l
+      GROUP BY l.form_type
+    LOOP
+      IF NOT v_form.required THEN
+        v_skipped := v_skipped + 1;
+        CONTINUE;
+      END IF;
+
+      v_boxes := v_form.boxes;
+      IF v_form.form_type = '1099-K' THEN
+        v_boxes := v_boxes
+          || jsonb_build_object('3', v_form.cnt)
+          || COALESCE((
+            SELECT jsonb_object_agg('5' || chr(96 + mi.idx), COALESCE(v_form.monthly->>mi.month, '0')::numeric)
+            FROM unnest(ARRAY['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'])
+              WITH ORDINALITY AS mi(month, idx)
+          ), '{}'::jsonb);
+      END IF;
+
+      INSERT INTO public.tax_documents (
+        ledger_id, document_type, tax_year, recipient_type, recipient_id,
+        gross_amount, transaction_count, monthly_amounts, form_boxes, metadata, status
+      ) VALUES (
+        p_ledger_id, v_form.form_type, p_tax_year, 'creator', v_creator.entity_id,
+        v_form.gross, v_form.cnt, v_form.monthly, v_boxes,
+        jsonb_build_object('payment_categories', to_jsonb(v_form.categories)), 'calculated'
+      )
+      ON CONFLICT (ledger_id, document_type, tax_year, recipient_id)
+      DO UPDATE SET
+        gross_amount = EXCLUDED.gross_amount,
+        transaction_count = EXCLUDED.transaction_count,
+        monthly_amounts = EXCLUDED.monthly_amounts,
+        form_boxes = EXCLUDED.form_boxes,
+        metadata = public.tax_documents.metadata || EXCLUDED.metadata,
+        updated_at = NOW();
+
+      v_created := v_created + 1;
+      v_total := v_total + v_form.gross;
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, v_skipped, v_total;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.generate_1099_documents(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_1099_documents(uuid, integer) TO service_role;
+
+-- ============================================================
+-- 6. Tax year summaries use the per-year 1099-NEC threshold
+-- ============================================================
+-- requires_1099 here is the summary flag only; the per-form decision is
+-- made by calculate_1099_form_totals.
+CREATE OR REPLACE FUNCTION public.compute_tax_year_summaries(
+  p_ledger_id uuid,
+  p_tax_year integer
+)
+ RETURNS TABLE(
+   entity_id        text,
+   gross_earnings   numeric,
+   refunds_issued   numeric,
+   net_earnings     numeric,
+   total_paid_out   numeric,
+   requires_1099    boolean,
+   linked_user_id   uuid,
+   has_tax_profile  boolean
+ )
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_threshold numeric;
+BEGIN
+  SELECT th.amount_threshold INTO v_threshold
+    FROM public.get_tax_form_thresholds(p_tax_year) th
+   WHERE th.payment_category = 'nonemployee_compensation';
+  v_threshold := COALESCE(v_threshold, 600);
+
+  -- Upsert summaries from a single aggregating CTE, then return them
+  -- enriched with identity-link and tax-profile info.
+  RETURN QUERY
+  WITH creator_totals AS (
+    SELECT
+      a.entity_id,
+      COALESCE(SUM(e.amount) FILTER (
+        WHERE t.transaction_type = 'sale' AND e.entry_type = 'credit'
+      ), 0)::numeric(14,2)  AS gross_earnings,
+      COALESCE(SUM(e.amount) FILTER (
+        WHERE t.transaction_type = 'refund' AND e.entry_type = 'debit'
+      ), 0)::numeric(14,2)  AS refunds_issued,
+      COALESCE(SUM(e.amount) FILTER (
+        WHERE t.transaction_type = 'payout' AND e.entry_type = 'debit'
+      ), 0)::numeric(14,2)  AS total_paid_out
+    FROM public.accounts    a
+    JOIN public.entries      e ON e.account_id = a.id
+    JOIN public.transactions t ON t.id = e.transaction_id
+    WHERE a.ledger_id    = p_ledger_id
+      AND a.account_type = 'creator_balance'
+      AND a.entity_id    IS NOT NULL
+      AND t.status       = 'completed'
+      AND EXTRACT(YEAR FROM t.created_at)::integer = p_tax_year
+    GROUP BY a.entity_id
+  ),
+  computed AS (
+    SELECT
+      ct.entity_id,
+      ct.gross_earnings,
+      ct.refunds_issued,
+      (ct.gross_earnings - ct.refunds_issued)::numeric(14,2) AS net_earnings,
+      ct.total_paid_out,
+      ((ct.gross_earnings - ct.refunds_issued) >= v_threshold) AS requires_1099
+    FROM creator_totals ct
+  ),
+  upserted AS (
+    INSERT INTO public.tax_year_summaries (
+      ledger_id, entity_id, tax_year,
+      gross_earnings, refunds_issued, net_earnings, total_paid_out,
+      requires_1099, is_corrected, updated_at
+    )
+    SELECT
+      p_ledger_id,
+      c.entity_id,
+      p_tax_year,
+      c.gross_earnings,
+      c.refunds_issued,
+      c.net_earnings,
+      c.total_paid_out,
+      c.requires_1099,
+      false,
+      now()
+    FROM computed c
+    ON CONFLICT (ledger_id, entity_id, tax_year, is_corrected)
+    DO UPDATE SET
+      gross_earnings = EXCLUDED.gross_earnings,
+      refunds_issued = EXCLUDED.refunds_issued,
+      net_earnings   = EXCLUDED.net_earnings,
+      total_paid_out = EXCLUDED.total_paid_out,
+      requires_1099  = EXCLUDED.requires_1099,
+      updated_at     = now()
+    RETURNING
+      public.tax_year_summaries.entity_id,
+      public.tax_year_summaries.gross_earnings,
+      public.tax_year_summaries.refunds_issued,
+      public.tax_year_summaries.net_earnings,
+      public.tax_year_summaries.total_paid_out,
+      public.tax_year_summaries.requires_1099
+  )
+  SELECT
+    u.entity_id,
+    u.gross_earnings,
+    u.refunds_issued,
+    u.net_earnings,
+    u.total_paid_out,
+    u.requires_1099,
+    pil.user_id            AS linked_user_id,
+    (stp.user_id IS NOT NULL) AS has_tax_profile
+  FROM upserted u
+  LEFT JOIN public.participant_identity_links pil
+    ON  pil.ledger_id      = p_ledger_id
+    AND pil.participant_id = u.entity_id
+    AND pil.status         = 'active'
+  LEFT JOIN public.shared_tax_profiles stp
+    ON  stp.user_id = pil.user_id
+    AND stp.status  = 'active'
+    AND stp.tax_id_last4 IS NOT NULL;
+
+  RETURN;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.compute_tax_year_summaries(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.compute_tax_year_summaries(uuid, integer) TO service_role;
@@ -0,0 +1,132 @@
+-- Tax filings.
+-- An electronic 1099 submission for a tax year: an IRS FIRE (Publication
+-- 1220) fixed-width file or an IRIS XML transmission. The file itself is
+-- stored in the private tax-filings bucket; this table records what was
+-- generated, its hash, and which tax documents it carried. Production
+-- (non-test) filings mark their documents filed in the same transaction.
+
+-- ============================================================
+-- 1. Table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.tax_filings (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  tax_year integer NOT NULL,
+  format text NOT NULL,
+  is_test boolean NOT NULL DEFAULT false,
+  form_types text[] NOT NULL DEFAULT '{}',
+  document_count integer NOT NULL,
+  payee_count integer NOT NULL,
+  total_amount numeric(14,2) NOT NULL,
+  file_name text NOT NULL,
+  storage_path text NOT NULL,
+  file_hash text NOT NULL,
+  file_size_bytes integer NOT NULL,
+  status text NOT NULL DEFAULT 'generated',
+  request_id text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT tax_filings_format_check CHECK (format IN ('fire', 'iris')),
+  CONSTRAINT tax_filings_status_check CHECK (status IN ('generated', 'submitted', 'accepted', 'rejected')),
+  CONSTRAINT tax_filings_counts_check CHECK (document_count >= 0 AND payee_count >= 0)
+);
+
+COMMENT ON TABLE public.tax_filings IS 'IRS FIRE / IRIS 1099 submission files generated per ledger and tax year';
+
+CREATE INDEX IF NOT EXISTS idx_tax_filings_ledger_year
+  ON public.tax_filings (ledger_id, tax_year, created_at DESC);
+
+ALTER TABLE public.tax_filings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tax_filings_service_all ON public.tax_filings;
+CREATE POLICY tax_filings_service_all ON public.tax_filings
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS tax_filings_read_org_members ON public.tax_filings;
+CREATE POLICY tax_filings_read_org_members
+  ON public.tax_filings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = tax_filings.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. Filing reference on tax documents
+-- ============================================================
+-- filed_at is written by the mark-filed endpoints but was never added.
+ALTER TABLE public.tax_documents
+  ADD COLUMN IF NOT EXISTS filed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS filing_id uuid REFERENCES public.tax_filings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tax_docs_filing
+  ON public.tax_documents (filing_id)
+  WHERE filing_id IS NOT NULL;
+
+-- ============================================================
+-- 3. record_tax_filing
+-- ============================================================
+-- Records the generated file and, unless it is a test file, marks every
+-- included document filed. Documents already filed, superseded or belonging
+-- to another ledger are left untouched; documents_filed reports how many
+-- were updated.
+CREATE OR REPLACE FUNCTION public.record_tax_filing(
+  p_ledger_id uuid,
+  p_tax_year integer,
+  p_format text,
+  p_is_test boolean,
+  p_form_types text[],
+  p_document_ids uuid[],
+  p_payee_count integer,
+  p_total_amount numeric,
+  p_file_name text,
+  p_storage_path text,
+  p_file_hash text,
+  p_file_size_bytes integer,
+  p_request_id text
+)
+RETURNS TABLE (out_filing_id uuid, out_documents_filed integer)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_filing_id uuid;
+  v_filed integer := 0;
+BEGIN
+  INSERT INTO public.tax_filings (
+    ledger_id, tax_year, format, is_test, form_types, document_count, payee_count,
+    total_amount, file_name, storage_path, file_hash, file_size_bytes, request_id
+  ) VALUES (
+    p_ledger_id, p_tax_year, p_format, p_is_test, COALESCE(p_form_types, '{}'),
+    COALESCE(array_length(p_document_ids, 1), 0), p_payee_count,
+    p_total_amount, p_file_name, p_storage_path, p_file_hash, p_file_size_bytes, p_request_id
+  )
+  RETURNING id INTO v_filing_id;
+
+  IF NOT p_is_test THEN
+    UPDATE public.tax_documents
+       SET status = 'filed',
+           filed_at = now(),
+           filing_id = v_filing_id,
+           updated_at = now()
+     WHERE ledger_id = p_ledger_id
+       AND tax_year = p_tax_year
+       AND id = ANY(p_document_ids)
+       AND status NOT IN ('filed', 'superseded');
+    GET DIAGNOSTICS v_filed = ROW_COUNT;
+  END IF;
+
+  RETURN QUERY SELECT v_filing_id, v_filed;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_tax_filing(uuid, integer, text, boolean, text[], uuid[], integer, numeric, text, text, text, integer, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_tax_filing(uuid, integer, text, boolean, text[], uuid[], integer, numeric, text, text, text, integer, text) TO service_role;
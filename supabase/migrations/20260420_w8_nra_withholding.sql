@@ -0,0 +1,818 @@
+-- W-8BEN / W-8BEN-E collection and NRA withholding.
+-- Foreign participants certify on a W-8 form (treaty country, claimed treaty
+-- rate, expiration) instead of a W-9. Sales credited to a participant with an
+-- active W-8 withhold chapter 3 tax from the participant's share: the treaty
+-- rate while the form is valid and claims one, 30% otherwise. Withheld tax
+-- posts to a withholding_tax_payable account (entity_id 'nra') and is
+-- reported on a 1042-S at year end; W-8 participants no longer get 1099s.
+
+-- ============================================================
+-- 1. W-8 fields on tax info submissions
+-- ============================================================
+-- W-8 filers may not have a US TIN, so the TIN columns only stay required
+-- for W-9 submissions. Foreign TINs are kept to the last four characters,
+-- same as US TINs.
+ALTER TABLE public.tax_info_submissions
+  ADD COLUMN IF NOT EXISTS form_type text NOT NULL DEFAULT 'W-9',
+  ADD COLUMN IF NOT EXISTS foreign_tax_id_last4 text,
+  ADD COLUMN IF NOT EXISTS citizenship_country text,
+  ADD COLUMN IF NOT EXISTS treaty_country text,
+  ADD COLUMN IF NOT EXISTS treaty_article text,
+  ADD COLUMN IF NOT EXISTS treaty_rate_bps integer,
+  ADD COLUMN IF NOT EXISTS signed_at date,
+  ADD COLUMN IF NOT EXISTS expires_at date;
+
+ALTER TABLE public.tax_info_submissions
+  ALTER COLUMN tax_id_type DROP NOT NULL,
+  ALTER COLUMN tax_id_last4 DROP NOT NULL;
+
+COMMENT ON COLUMN public.tax_info_submissions.citizenship_country IS 'W-8BEN country of citizenship / W-8BEN-E country of incorporation (ISO 3166-1 alpha-2)';
+COMMENT ON COLUMN public.tax_info_submissions.treaty_rate_bps IS 'Chapter 3 withholding rate claimed under the treaty, basis points (1000 = 10%)';
+COMMENT ON COLUMN public.tax_info_submissions.expires_at IS 'W-8 validity ends on the last day of the third calendar year after signing';
+
+ALTER TABLE public.tax_info_submissions
+  DROP CONSTRAINT IF EXISTS tax_info_form_type_valid,
+  DROP CONSTRAINT IF EXISTS tax_info_w9_tin_required,
+  DROP CONSTRAINT IF EXISTS tax_info_treaty_valid,
+  DROP CONSTRAINT IF EXISTS tax_info_country_format;
+
+ALTER TABLE public.tax_info_submissions
+  ADD CONSTRAINT tax_info_form_type_valid
+    CHECK (form_type IN ('W-9', 'W-8BEN', 'W-8BEN-E')),
+  ADD CONSTRAINT tax_info_w9_tin_required
+    CHECK (form_type <> 'W-9' OR (tax_id_type IS NOT NULL AND tax_id_last4 IS NOT NULL)),
+  ADD CONSTRAINT tax_info_treaty_valid
+    CHECK (
+      treaty_rate_bps IS NULL
+      OR (treaty_rate_bps BETWEEN 0 AND 3000 AND treaty_country IS NOT NULL)
+    ),
+  ADD CONSTRAINT tax_info_country_format
+    CHECK (
+      (citizenship_country IS NULL OR citizenship_country ~ '^[A-Z]{2}$')
+      AND (treaty_country IS NULL OR treaty_country ~ '^[A-Z]{2}$')
+    );
+
+-- ============================================================
+-- 2. submit_tax_info_atomic: W-8 fields
+-- ============================================================
+DROP FUNCTION IF EXISTS public.submit_tax_info_atomic(uuid, text, text, text, text, text, text, text, text, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.submit_tax_info_atomic(
+  p_ledger_id uuid,
+  p_entity_id text,
+  p_legal_name text,
+  p_tax_id_type text,
+  p_tax_id_last4 text,
+  p_business_type text,
+  p_address_line1 text DEFAULT NULL,
+  p_address_line2 text DEFAULT NULL,
+  p_address_city text DEFAULT NULL,
+  p_address_state text DEFAULT NULL,
+  p_address_postal_code text DEFAULT NULL,
+  p_address_country text DEFAULT 'US',
+  p_certified_by text DEFAULT NULL,
+  p_form_type text DEFAULT 'W-9',
+  p_foreign_tax_id_last4 text DEFAULT NULL,
+  p_citizenship_country text DEFAULT NULL,
+  p_treaty_country text DEFAULT NULL,
+  p_treaty_article text DEFAULT NULL,
+  p_treaty_rate_bps integer DEFAULT NULL,
+  p_signed_at date DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_submission_id uuid;
+  v_now timestamptz := now();
+  v_signed_at date := COALESCE(p_signed_at, CURRENT_DATE);
+  v_expires_at date;
+BEGIN
+  IF p_form_type <> 'W-9' THEN
+    v_expires_at := make_date(EXTRACT(YEAR FROM v_signed_at)::integer + 3, 12, 31);
+  END IF;
+
+  UPDATE public.tax_info_submissions
+  SET status = 'superseded', updated_at = v_now
+  WHERE ledger_id = p_ledger_id
+    AND entity_id = p_entity_id
+    AND status = 'active';
+
+  INSERT INTO public.tax_info_submissions (
+    ledger_id, entity_id, status, form_type, legal_name, tax_id_type, tax_id_last4,
+    business_type, address_line1, address_line2, address_city,
+    address_state, address_postal_code, address_country,
+    foreign_tax_id_last4, citizenship_country, treaty_country, treaty_article,
+    treaty_rate_bps, signed_at, expires_at,
+    certified_at, certified_by
+  ) VALUES (
+    p_ledger_id, p_entity_id, 'active', p_form_type, p_legal_name, p_tax_id_type,
+    p_tax_id_last4, p_business_type, p_address_line1, p_address_line2,
+    p_address_city, p_address_state, p_address_postal_code, p_address_country,
+    p_foreign_tax_id_last4, p_citizenship_country, p_treaty_country, p_treaty_article,
+    p_treaty_rate_bps, v_signed_at, v_expires_at,
+    v_now, COALESCE(p_certified_by, p_entity_id)
+  )
+  RETURNING id INTO v_submission_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'submission_id', v_submission_id,
+    'entity_id', p_entity_id,
+    'form_type', p_form_type,
+    'expires_at', v_expires_at
+  );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.submit_tax_info_atomic(uuid, text, text, text, text, text, text, text, text, text, text, text, text, text, text, text, text, text, integer, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_tax_info_atomic(uuid, text, text, text, text, text, text, text, text, text, text, text, text, text, text, text, text, text, integer, date) TO service_role;
+
+-- ============================================================
+-- 3. Withholding liability account type
+-- ============================================================
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS chk_valid_account_type;
+ALTER TABLE public.accounts
+  ADD CONSTRAINT chk_valid_account_type CHECK (account_type IN (
+    'cash', 'bank', 'bank_account', 'petty_cash', 'undeposited_funds',
+    'accounts_receivable', 'inventory', 'prepaid_expense',
+    'fixed_asset', 'property', 'equipment', 'asset', 'other_asset',
+    'expense', 'processing_fees', 'cost_of_goods_sold', 'cogs',
+    'payroll', 'rent', 'utilities', 'insurance', 'depreciation',
+    'taxes', 'interest_expense', 'other_expense', 'loss',
+    'owner_draw',
+    'refund_reserve', 'tax_reserve', 'reserve',
+    'accounts_payable', 'creator_balance', 'creator_pool',
+    'sales_tax_payable', 'tax_payable', 'withholding_tax_payable',
+    'unearned_revenue', 'credit_card',
+    'owner_equity',
+    'revenue', 'platform_revenue', 'soledgic_fee', 'income', 'other_income',
+    'user_wallet',
+    'stripe_clearing', 'buyer_wallet',
+    'unrealized_fx_gain_loss', 'realized_fx_gain_loss'
+  ));
+
+-- ============================================================
+-- 4. NRA withholding rate
+-- ============================================================
+-- No row for participants without an active W-8. An expired W-8, or one that
+-- claims no treaty rate, withholds at the statutory 30%.
+CREATE OR REPLACE FUNCTION public.get_nra_withholding_rate(
+  p_ledger_id uuid,
+  p_entity_id text,
+  p_as_of date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  rate_bps integer,
+  reason text,
+  form_type text,
+  treaty_country text,
+  submission_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  SELECT
+    CASE
+      WHEN s.expires_at IS NOT NULL AND s.expires_at < p_as_of THEN 3000
+      WHEN s.treaty_rate_bps IS NOT NULL THEN s.treaty_rate_bps
+      ELSE 3000
+    END,
+    CASE
+      WHEN s.expires_at IS NOT NULL AND s.expires_at < p_as_of THEN 'expired_form'
+      WHEN s.treaty_rate_bps IS NOT NULL THEN 'treaty'
+      ELSE 'statutory'
+    END,
+    s.form_type,
+    s.treaty_country,
+    s.id
+  FROM public.tax_info_submissions s
+  WHERE s.ledger_id = p_ledger_id
+    AND s.entity_id = p_entity_id
+    AND s.status = 'active'
+    AND s.form_type IN ('W-8BEN', 'W-8BEN-E')
+  LIMIT 1;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_nra_withholding_rate(uuid, text, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_nra_withholding_rate(uuid, text, date) TO service_role;
+
+-- ============================================================
+-- 5. record_sale_atomic: NRA withholding
+-- ============================================================
+-- Unchanged from 20260417_sales_tax_jurisdictions except that the creator's
+-- share is split between creator_balance and withholding_tax_payable when
+-- the creator has an active W-8. The withheld amount and rate are recorded
+-- in the transaction metadata for the 1042-S; a caller-supplied
+-- metadata.nra_withholding is dropped so only this function can write it.
+CREATE OR REPLACE FUNCTION public.record_sale_atomic(
+  p_ledger_id uuid,
+  p_reference_id text,
+  p_creator_id text,
+  p_gross_amount bigint,
+  p_creator_amount bigint,
+  p_platform_amount bigint,
+  p_processing_fee bigint DEFAULT 0,
+  p_soledgic_fee bigint DEFAULT 0,
+  p_product_id text DEFAULT NULL::text,
+  p_product_name text DEFAULT NULL::text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_sales_tax bigint DEFAULT 0,
+  p_entry_method text DEFAULT 'processor'::text,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric
+)
+RETURNS TABLE(out_transaction_id uuid, out_creator_account_id uuid, out_creator_balance numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_tx_id UUID;
+  v_creator_account_id UUID;
+  v_creator_is_active BOOLEAN;
+  v_platform_account_id UUID;
+  v_buyer_wallet_id UUID;
+  v_fee_account_id UUID;
+  v_soledgic_fee_account_id UUID;
+  v_sales_tax_payable_account_id UUID;
+  v_tax_jurisdiction TEXT;
+  v_creator_balance NUMERIC(14,2);
+  v_total_distributed BIGINT;
+  v_entry_method TEXT;
+  v_existing_amount NUMERIC(18,4);
+  v_buyer_id TEXT;
+  v_functional TEXT;
+  v_currency TEXT;
+  v_is_foreign BOOLEAN;
+  v_rate NUMERIC;
+  v_factor NUMERIC;
+  v_gross_f NUMERIC(14,2);
+  v_creator_f NUMERIC(14,2);
+  v_platform_f NUMERIC(14,2);
+  v_fee_f NUMERIC(14,2);
+  v_soledgic_f NUMERIC(14,2);
+  v_tax_f NUMERIC(14,2);
+  v_residual NUMERIC(14,2);
+  v_nra RECORD;
+  v_withholding_account_id UUID;
+  v_withheld BIGINT := 0;
+  v_withheld_f NUMERIC(14,2) := 0;
+BEGIN
+  IF p_gross_amount <= 0 THEN
+    RAISE EXCEPTION 'Gross amount must be positive: %', p_gross_amount;
+  END IF;
+
+  IF p_creator_amount < 0 OR p_platform_amount < 0 OR p_processing_fee < 0 OR p_soledgic_fee < 0 OR p_sales_tax < 0 THEN
+    RAISE EXCEPTION 'Amounts cannot be negative';
+  END IF;
+
+  v_total_distributed := p_creator_amount + p_platform_amount + p_processing_fee + p_soledgic_fee + p_sales_tax;
+  IF v_total_distributed != p_gross_amount THEN
+    RAISE EXCEPTION 'Double-entry sum mismatch: creator(%) + platform(%) + fee(%) + soledgic(%) + sales_tax(%) = % != gross(%)',
+      p_creator_amount, p_platform_amount, p_processing_fee, p_soledgic_fee, p_sales_tax, v_total_distributed, p_gross_amount;
+  END IF;
+
+  v_functional := public.ledger_functional_currency(p_ledger_id);
+  v_currency := UPPER(COALESCE(NULLIF(TRIM(p_currency), ''), v_functional));
+  IF v_currency !~ '^[A-Z]{3}$' THEN
+    RAISE EXCEPTION 'Invalid currency: %', p_currency;
+  END IF;
+
+  v_is_foreign := v_currency <> v_functional;
+  -- Explicit rate wins; otherwise the rate table for today. Never 1:1.
+  v_rate := public.resolve_posting_fx_rate(p_ledger_id, v_currency, p_fx_rate, CURRENT_DATE);
+
+  v_factor := public.currency_minor_unit_factor(v_currency);
+  v_gross_f := ROUND(p_gross_amount / v_factor * v_rate, 2);
+  v_creator_f := ROUND(p_creator_amount / v_factor * v_rate, 2);
+  v_platform_f := ROUND(p_platform_amount / v_factor * v_rate, 2);
+  v_fee_f := ROUND(p_processing_fee / v_factor * v_rate, 2);
+  v_soledgic_f := ROUND(p_soledgic_fee / v_factor * v_rate, 2);
+  v_tax_f := ROUND(p_sales_tax / v_factor * v_rate, 2);
+
+  v_residual := v_gross_f - (v_creator_f + v_platform_f + v_fee_f + v_soledgic_f + v_tax_f);
+  IF v_residual <> 0 THEN
+    IF v_platform_f + v_residual >= 0 THEN
+      v_platform_f := v_platform_f + v_residual;
+    ELSE
+      v_creator_f := v_creator_f + v_residual;
+    END IF;
+  END IF;
+
+  -- Chapter 3 withholding comes out of the creator's share. Computed in
+  -- transaction minor units, then converted like every other line.
+  SELECT * INTO v_nra
+  FROM public.get_nra_withholding_rate(p_ledger_id, p_creator_id);
+
+  IF v_nra.rate_bps IS NOT NULL AND v_nra.rate_bps > 0 AND p_creator_amount > 0 THEN
+    v_withheld := ROUND(p_creator_amount * v_nra.rate_bps / 10000.0);
+    v_withheld_f := LEAST(ROUND(v_withheld / v_factor * v_rate, 2), v_creator_f);
+    v_creator_f := v_creator_f - v_withheld_f;
+  END IF;
+
+  v_entry_method := COALESCE(NULLIF(TRIM(p_entry_method), ''), 'processor');
+  IF v_entry_method NOT IN ('processor', 'manual', 'system', 'import') THEN
+    v_entry_method := 'processor';
+  END IF;
+
+  v_buyer_id := p_metadata->>'buyer_id';
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  IF v_platform_account_id IS NULL THEN
+    RAISE EXCEPTION 'Platform revenue account not initialized for ledger %', p_ledger_id;
+  END IF;
+
+  IF v_buyer_id IS NOT NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'buyer_wallet'
+      AND entity_id = v_buyer_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'cash'
+    LIMIT 1;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'No debit account (buyer_wallet or cash) found for ledger %', p_ledger_id;
+  END IF;
+
+  SELECT id, is_active INTO v_creator_account_id, v_creator_is_active
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'creator_balance'
+    AND entity_id = p_creator_id
+  FOR UPDATE;
+
+  IF v_creator_account_id IS NOT NULL AND v_creator_is_active = false THEN
+    RAISE EXCEPTION 'Creator % has been deleted', p_creator_id;
+  END IF;
+
+  IF v_creator_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_id, entity_type, name, currency
+    ) VALUES (
+      p_ledger_id, 'creator_balance', p_creator_id, 'creator', 'Creator ' || p_creator_id, v_functional
+    )
+    RETURNING id INTO v_creator_account_id;
+  END IF;
+
+  IF p_processing_fee > 0 THEN
+    SELECT id INTO v_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'processing_fees', 'platform', 'Processing Fees'
+      )
+      RETURNING id INTO v_fee_account_id;
+    END IF;
+  END IF;
+
+  IF p_soledgic_fee > 0 THEN
+    SELECT id INTO v_soledgic_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'soledgic_fee'
+    LIMIT 1;
+
+    IF v_soledgic_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'soledgic_fee', 'platform', 'Soledgic Platform Fee'
+      )
+      RETURNING id INTO v_soledgic_fee_account_id;
+    END IF;
+  END IF;
+
+  -- Collected tax is owed to a specific jurisdiction: post it to that
+  -- jurisdiction's payable account (entity_id = jurisdiction code). Sales
+  -- without a jurisdiction keep using the ledger-wide payable account.
+  v_tax_jurisdiction := NULLIF(UPPER(TRIM(COALESCE(p_metadata->>'sales_tax_jurisdiction', ''))), '');
+
+  IF p_sales_tax > 0 AND v_tax_jurisdiction IS NOT NULL THEN
+    SELECT id INTO v_sales_tax_payable_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'sales_tax_payable'
+      AND entity_id = v_tax_jurisdiction
+    LIMIT 1;
+
+    IF v_sales_tax_payable_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_id, entity_type, name, currency
+      ) VALUES (
+        p_ledger_id, 'sales_tax_payable', v_tax_jurisdiction, 'tax_jurisdiction',
+        'Sales Tax Payable - ' || v_tax_jurisdiction, v_functional
+      )
+      RETURNING id INTO v_sales_tax_payable_account_id;
+    END IF;
+  ELSIF p_sales_tax > 0 THEN
+    SELECT id INTO v_sales_tax_payable_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'sales_tax_payable'
+      AND entity_id IS NULL
+    LIMIT 1;
+
+    IF v_sales_tax_payable_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'sales_tax_payable', 'platform', 'Sales Tax Payable'
+      )
+      RETURNING id INTO v_sales_tax_payable_account_id;
+    END IF;
+  END IF;
+
+  IF v_withheld > 0 THEN
+    SELECT id INTO v_withholding_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'withholding_tax_payable'
+      AND entity_id = 'nra'
+    LIMIT 1;
+
+    IF v_withholding_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_id, entity_type, name, currency
+      ) VALUES (
+        p_ledger_id, 'withholding_tax_payable', 'nra', 'tax_authority',
+        'NRA Withholding Payable', v_functional
+      )
+      RETURNING id INTO v_withholding_account_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata,
+    original_currency, original_amount, fx_rate
+  ) VALUES (
+    p_ledger_id, 'sale', p_reference_id, 'external',
+    COALESCE(p_product_name, 'Sale for creator ' || p_creator_id),
+    v_gross_f, v_functional, 'completed', v_entry_method,
+    jsonb_build_object(
+      'creator_id', p_creator_id,
+      'product_id', p_product_id,
+      'buyer_id', v_buyer_id,
+      'currency', v_currency,
+      'amounts_cents', jsonb_build_object(
+        'gross', p_gross_amount,
+        'subtotal', p_gross_amount - p_sales_tax,
+        'sales_tax', p_sales_tax,
+        'creator', p_creator_amount,
+        'platform', p_platform_amount,
+        'fee', p_processing_fee,
+        'soledgic_fee', p_soledgic_fee,
+        'nra_withholding', v_withheld
+      )
+    ) || (p_metadata - 'nra_withholding') || CASE WHEN v_withheld > 0 THEN jsonb_build_object(
+      'nra_withholding', jsonb_build_object(
+        'rate_bps', v_nra.rate_bps,
+        'reason', v_nra.reason,
+        'form_type', v_nra.form_type,
+        'treaty_country', v_nra.treaty_country,
+        'submission_id', v_nra.submission_id,
+        'amount_cents', v_withheld
+      )
+    ) ELSE '{}'::jsonb END,
+    CASE WHEN v_is_foreign THEN v_currency ELSE NULL END,
+    CASE WHEN v_is_foreign THEN p_gross_amount / v_factor ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_rate ELSE NULL END
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_buyer_wallet_id, 'debit', v_gross_f, v_currency, p_gross_amount / v_factor);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_creator_account_id, 'credit', v_creator_f, v_currency, (p_creator_amount - v_withheld) / v_factor);
+
+  IF v_withheld > 0 THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_withholding_account_id, 'credit', v_withheld_f, v_currency, v_withheld / v_factor);
+  END IF;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_platform_account_id, 'credit', v_platform_f, v_currency, p_platform_amount / v_factor);
+
+  IF p_processing_fee > 0 AND v_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_fee_account_id, 'credit', v_fee_f, v_currency, p_processing_fee / v_factor);
+  END IF;
+
+  IF p_soledgic_fee > 0 AND v_soledgic_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_soledgic_fee_account_id, 'credit', v_soledgic_f, v_currency, p_soledgic_fee / v_factor);
+  END IF;
+
+  IF p_sales_tax > 0 AND v_sales_tax_payable_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_sales_tax_payable_account_id, 'credit', v_tax_f, v_currency, p_sales_tax / v_factor);
+  END IF;
+
+  SELECT balance INTO v_creator_balance
+  FROM public.accounts
+  WHERE id = v_creator_account_id;
+
+  PERFORM 1 FROM (
+    SELECT
+      SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE 0 END) AS debits,
+      SUM(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE 0 END) AS credits
+    FROM public.entries e
+    WHERE e.transaction_id = v_tx_id
+  ) AS totals
+  WHERE totals.debits != totals.credits;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'CRITICAL: Double-entry validation failed for transaction %', v_tx_id;
+  END IF;
+
+  RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT t.id, COALESCE(t.original_amount, t.amount)
+      INTO v_tx_id, v_existing_amount
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = p_reference_id;
+
+    IF v_tx_id IS NULL THEN RAISE; END IF;
+
+    IF v_existing_amount IS DISTINCT FROM (p_gross_amount / v_factor) THEN
+      RAISE EXCEPTION 'Idempotency conflict: reference_id "%" already exists with amount % but request has amount %',
+        p_reference_id, v_existing_amount, p_gross_amount / v_factor;
+    END IF;
+
+    SELECT a.id, a.balance
+      INTO v_creator_account_id, v_creator_balance
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'creator_balance'
+       AND a.entity_id = p_creator_id;
+
+    RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) TO service_role;
+
+-- ============================================================
+-- 6. 1042-S document type
+-- ============================================================
+ALTER TABLE public.tax_documents
+  DROP CONSTRAINT IF EXISTS tax_documents_document_type_check;
+ALTER TABLE public.tax_documents
+  ADD CONSTRAINT tax_documents_document_type_check
+  CHECK (document_type IN ('1099-NEC', '1099-K', '1099-MISC', '1042-S'));
+
+-- ============================================================
+-- 7. generate_1099_documents: skip W-8 participants
+-- ============================================================
+-- Unchanged from 20260418_tax_form_types except the creator filter: foreign
+-- persons are reported on 1042-S, not 1099.
+CREATE OR REPLACE FUNCTION public.generate_1099_documents(p_ledger_id uuid, p_tax_year integer)
+ RETURNS TABLE(documents_created integer, documents_skipped integer, total_amount numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_creator RECORD;
+  v_form RECORD;
+  v_boxes JSONB;
+  v_created INTEGER := 0;
+  v_skipped INTEGER := 0;
+  v_total NUMERIC(14,2) := 0;
+BEGIN
+  FOR v_creator IN
+    SELECT a.entity_id
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'creator_balance'
+       AND a.entity_id IS NOT NULL
+       AND NOT EXISTS (
+         SELECT 1
+           FROM public.tax_info_submissions s
+          WHERE s.ledger_id = p_ledger_id
+            AND s.entity_id = a.entity_id
+            AND s.status = 'active'
+            AND s.form_type IN ('W-8BEN', 'W-8BEN-E')
+       )
+  LOOP
+    FOR v_form IN
+      WITH lines AS (
+        SELECT * FROM public.calculate_1099_form_totals(p_ledger_id, v_creator.entity_id, p_tax_year)
+      ),
+      months AS (
+        SELECT l.form_type, m.key AS month, SUM(m.value::numeric) AS amount
+        FROM lines l, jsonb_each_text(l.monthly_totals) m
+        GROUP BY l.form_type, m.key
+      )
+      SELECT
+        l.form_type,
+        bool_or(l.meets_threshold) AS required,
+        SUM(l.gross_payments)::numeric(14,2) AS gross,
+        SUM(l.transaction_count)::integer AS cnt,
+        jsonb_object_agg(l.form_box, l.gross_payments) AS boxes,
+        COALESCE((
+          SELECT jsonb_object_agg(mo.month, mo.amount)
+          FROM months mo
+          WHERE mo.form_type = l.form_type
+        ), '{}'::jsonb) AS monthly,
+        array_agg(l.payment_category ORDER BY l.payment_category) AS categories
+      FROM lines l
+      GROUP BY l.form_type
+    LOOP
+      IF NOT v_form.required THEN
+        v_skipped := v_skipped + 1;
+        CONTINUE;
+      END IF;
+
+      v_boxes := v_form.boxes;
+      IF v_form.form_type = '1099-K' THEN
+        v_boxes := v_boxes
+          || jsonb_build_object('3', v_form.cnt)
+          || COALESCE((
+            SELECT jsonb_object_agg('5' || chr(96 + mi.idx), COALESCE(v_form.monthly->>mi.month, '0')::numeric)
+            FROM unnest(ARRAY['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'])
+              WITH ORDINALITY AS mi(month, idx)
+          ), '{}'::jsonb);
+      END IF;
+
+      INSERT INTO public.tax_documents (
+        ledger_id, document_type, tax_year, recipient_type, recipient_id,
+        gross_amount, transaction_count, monthly_amounts, form_boxes, metadata, status
+      ) VALUES (
+        p_ledger_id, v_form.form_type, p_tax_year, 'creator', v_creator.entity_id,
+        v_form.gross, v_form.cnt, v_form.monthly, v_boxes,
+        jsonb_build_object('payment_categories', to_jsonb(v_form.categories)), 'calculated'
+      )
+      ON CONFLICT (ledger_id, document_type, tax_year, recipient_id)
+      DO UPDATE SET
+        gross_amount = EXCLUDED.gross_amount,
+        transaction_count = EXCLUDED.transaction_count,
+        monthly_amounts = EXCLUDED.monthly_amounts,
+        form_boxes = EXCLUDED.form_boxes,
+        metadata = public.tax_documents.metadata || EXCLUDED.metadata,
+        updated_at = NOW();
+
+      v_created := v_created + 1;
+      v_total := v_total + v_form.gross;
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, v_skipped, v_total;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.generate_1099_documents(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_1099_documents(uuid, integer) TO service_role;
+
+-- ============================================================
+-- 8. 1042-S generation
+-- ============================================================
+-- One 1042-S per foreign creator per year: anyone with an active W-8 or with
+-- NRA withholding on a sale that year. Gross income (box 2) is the creator's
+-- share before withholding; box 3b is the effective chapter 3 rate and
+-- federal_withholding (boxes 7a/10) the tax withheld. Box 1 income code
+-- comes from ledger settings.nra_income_code (default 17, independent
+-- personal services, the counterpart of 1099-NEC).
+CREATE OR REPLACE FUNCTION public.generate_1042s_documents(p_ledger_id uuid, p_tax_year integer)
+ RETURNS TABLE(documents_created integer, total_amount numeric, total_withheld numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_income_code INTEGER;
+  v_recipient RECORD;
+  v_created INTEGER := 0;
+  v_total NUMERIC(14,2) := 0;
+  v_withheld_total NUMERIC(14,2) := 0;
+  v_rate NUMERIC(5,2);
+BEGIN
+  SELECT COALESCE(NULLIF(l.settings->>'nra_income_code', '')::integer, 17)
+    INTO v_income_code
+    FROM public.ledgers l
+   WHERE l.id = p_ledger_id;
+
+  FOR v_recipient IN
+    WITH sales AS (
+      SELECT
+        t.id,
+        t.metadata->>'creator_id' AS creator_id,
+        t.metadata->'nra_withholding' AS nra,
+        EXTRACT(MONTH FROM t.created_at)::integer AS month
+      FROM public.transactions t
+      WHERE t.ledger_id = p_ledger_id
+        AND t.transaction_type = 'sale'
+        AND t.status NOT IN ('voided', 'reversed')
+        AND EXTRACT(YEAR FROM t.created_at)::integer = p_tax_year
+    ),
+    lines AS (
+      SELECT
+        s.creator_id,
+        s.nra,
+        SUM(CASE WHEN a.account_type = 'creator_balance' THEN e.amount ELSE 0 END) AS net,
+        SUM(CASE WHEN a.account_type = 'withholding_tax_payable' THEN e.amount ELSE 0 END) AS withheld
+      FROM sales s
+      JOIN public.entries e ON e.transaction_id = s.id AND e.entry_type = 'credit'
+      JOIN public.accounts a ON a.id = e.account_id
+      WHERE (a.account_type = 'creator_balance' AND a.entity_id = s.creator_id)
+         OR (a.account_type = 'withholding_tax_payable' AND a.entity_id = 'nra')
+      GROUP BY s.id, s.creator_id, s.nra
+    ),
+    foreign_creators AS (
+      SELECT sub.entity_id AS creator_id, sub.form_type, sub.treaty_country,
+             sub.citizenship_country, sub.address_country, sub.business_type
+        FROM public.tax_info_submissions sub
+       WHERE sub.ledger_id = p_ledger_id
+         AND sub.status = 'active'
+         AND sub.form_type IN ('W-8BEN', 'W-8BEN-E')
+    )
+    SELECT
+      l.creator_id,
+      SUM(l.net + l.withheld)::numeric(14,2) AS gross,
+      SUM(l.withheld)::numeric(14,2) AS withheld,
+      COUNT(*)::integer AS cnt,
+      COALESCE(jsonb_agg(DISTINCT (l.nra->>'rate_bps')::integer) FILTER (WHERE l.nra IS NOT NULL), '[]'::jsonb) AS rates,
+      MAX(fc.form_type) AS form_type,
+      MAX(COALESCE(fc.treaty_country, l.nra->>'treaty_country')) AS treaty_country,
+      MAX(COALESCE(fc.citizenship_country, fc.address_country)) AS recipient_country,
+      MAX(fc.business_type) AS business_type
+    FROM lines l
+    LEFT JOIN foreign_creators fc ON fc.creator_id = l.creator_id
+    WHERE l.creator_id IS NOT NULL
+    GROUP BY l.creator_id
+    HAVING bool_or(fc.creator_id IS NOT NULL) OR SUM(l.withheld) > 0
+  LOOP
+    IF v_recipient.gross <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    v_rate := ROUND(v_recipient.withheld / v_recipient.gross * 100, 2);
+
+    INSERT INTO public.tax_documents (
+      ledger_id, document_type, tax_year, recipient_type, recipient_id,
+      gross_amount, federal_withholding, transaction_count, form_boxes, metadata, status
+    ) VALUES (
+      p_ledger_id, '1042-S', p_tax_year, 'creator', v_recipient.creator_id,
+      v_recipient.gross, v_recipient.withheld, v_recipient.cnt,
+      jsonb_build_object(
+        '1', v_income_code,
+        '2', v_recipient.gross,
+        '3', 3,
+        '3a', CASE WHEN v_recipient.withheld = 0 AND v_recipient.treaty_country IS NOT NULL THEN 4 ELSE 0 END,
+        '3b', v_rate
+      ),
+      jsonb_build_object(
+        'chapter', 3,
+        'income_code', lpad(v_income_code::text, 2, '0'),
+        'withholding_rates_bps', v_recipient.rates,
+        'w8_form_type', v_recipient.form_type,
+        'treaty_country', v_recipient.treaty_country,
+        'recipient_country', v_recipient.recipient_country,
+        'business_type', v_recipient.business_type
+      ),
+      'calculated'
+    )
+    ON CONFLICT (ledger_id, document_type, tax_year, recipient_id)
+    DO UPDATE SET
+      gross_amount = EXCLUDED.gross_amount,
+      federal_withholding = EXCLUDED.federal_withholding,
+      transaction_count = EXCLUDED.transaction_count,
+      form_boxes = EXCLUDED.form_boxes,
+      metadata = public.tax_documents.metadata || EXCLUDED.metadata,
+      updated_at = NOW();
+
+    v_created := v_created + 1;
+    v_total := v_total + v_recipient.gross;
+    v_withheld_total := v_withheld_total + v_recipient.withheld;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, v_total, v_withheld_total;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.generate_1042s_documents(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_1042s_documents(uuid, integer) TO service_role;
@@ -0,0 +1,1202 @@
+-- Backup withholding states and CP2100 / B-notice tracking.
+-- Each participant has a backup withholding state: not required, required
+-- because no TIN is on file (opt-in per ledger via the
+-- backup_withholding_enabled setting), or required because the IRS matched
+-- a bad name/TIN combination and the participant's B-notice withholding
+-- start date has passed. While a state is active, sales and payouts
+-- withhold 24% into withholding_tax_payable (entity_id 'backup'), and the
+-- withheld amounts are reported as federal withholding on the 1099.
+--
+-- Earnings withheld at sale time are tracked on the state so the later
+-- payout of those earnings is not withheld a second time.
+
+-- ============================================================
+-- 1. Backup withholding states
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.backup_withholding_states (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  entity_id text NOT NULL,
+  status text NOT NULL DEFAULT 'not_required',
+  notice_id uuid,
+  activated_at timestamptz,
+  resolved_at timestamptz,
+  withheld_earnings numeric(14,2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT backup_withholding_states_status_check
+    CHECK (status IN ('not_required', 'required_missing_tin', 'required_b_notice')),
+  CONSTRAINT backup_withholding_states_earnings_check CHECK (withheld_earnings >= 0),
+  CONSTRAINT backup_withholding_states_entity_unique UNIQUE (ledger_id, entity_id)
+);
+
+COMMENT ON TABLE public.backup_withholding_states IS 'Per-participant backup withholding status (IRC 3406)';
+COMMENT ON COLUMN public.backup_withholding_states.withheld_earnings IS 'Balance credited from sales already withheld on; consumed by payouts so they are not withheld twice';
+
+CREATE INDEX IF NOT EXISTS idx_backup_withholding_states_active
+  ON public.backup_withholding_states (ledger_id, status)
+  WHERE status <> 'not_required';
+
+ALTER TABLE public.backup_withholding_states ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS backup_withholding_states_service_all ON public.backup_withholding_states;
+CREATE POLICY backup_withholding_states_service_all ON public.backup_withholding_states
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS backup_withholding_states_read_org_members ON public.backup_withholding_states;
+CREATE POLICY backup_withholding_states_read_org_members
+  ON public.backup_withholding_states
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = backup_withholding_states.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. CP2100 notices
+-- ============================================================
+-- One row per participant listed on an imported CP2100/CP2100A. The B-notice
+-- must go out within 15 business days of the later of the notice date and
+-- the date it was received; withholding starts 30 business days after that
+-- date unless the participant has resolved the mismatch. The deadlines are
+-- computed by the import and stored here.
+CREATE TABLE IF NOT EXISTS public.backup_withholding_notices (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  entity_id text NOT NULL,
+  notice_source text NOT NULL DEFAULT 'cp2100',
+  notice_date date NOT NULL,
+  received_date date NOT NULL,
+  tax_year integer NOT NULL,
+  b_notice_type text NOT NULL DEFAULT 'first',
+  payee_name text,
+  tin_last4 text,
+  account_number text,
+  status text NOT NULL DEFAULT 'open',
+  b_notice_due_date date NOT NULL,
+  withholding_start_date date NOT NULL,
+  b_notice_sent_at timestamptz,
+  resolved_at timestamptz,
+  resolution text,
+  import_batch_id uuid,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT backup_withholding_notices_source_check CHECK (notice_source IN ('cp2100', 'cp2100a')),
+  CONSTRAINT backup_withholding_notices_type_check CHECK (b_notice_type IN ('first', 'second')),
+  CONSTRAINT backup_withholding_notices_status_check CHECK (status IN ('open', 'b_notice_sent', 'resolved')),
+  CONSTRAINT backup_withholding_notices_resolution_check
+    CHECK (resolution IS NULL OR resolution IN ('w9_recertified', 'irs_validation', 'ssa_validation', 'notice_withdrawn')),
+  CONSTRAINT backup_withholding_notices_tin_last4_check CHECK (tin_last4 IS NULL OR tin_last4 ~ '^\d{4}$'),
+  CONSTRAINT backup_withholding_notices_unique UNIQUE (ledger_id, entity_id, notice_date, tax_year)
+);
+
+COMMENT ON TABLE public.backup_withholding_notices IS 'IRS CP2100/CP2100A name/TIN mismatch entries and their B-notice deadlines';
+
+CREATE INDEX IF NOT EXISTS idx_backup_withholding_notices_ledger_status
+  ON public.backup_withholding_notices (ledger_id, status, b_notice_due_date);
+
+CREATE INDEX IF NOT EXISTS idx_backup_withholding_notices_entity
+  ON public.backup_withholding_notices (ledger_id, entity_id, notice_date DESC);
+
+ALTER TABLE public.backup_withholding_notices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS backup_withholding_notices_service_all ON public.backup_withholding_notices;
+CREATE POLICY backup_withholding_notices_service_all ON public.backup_withholding_notices
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS backup_withholding_notices_read_org_members ON public.backup_withholding_notices;
+CREATE POLICY backup_withholding_notices_read_org_members
+  ON public.backup_withholding_notices
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = backup_withholding_notices.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 3. refresh_backup_withholding_state
+-- ============================================================
+-- Recomputes a participant's state from their tax info and notices and
+-- persists it when it changes. Called by the sale and payout RPCs before
+-- withholding, and by the notice workflow after an import or resolution.
+-- A fresh W-9 certified after a first notice was received resolves it;
+-- second notices stay open until the operator records IRS/SSA validation.
+CREATE OR REPLACE FUNCTION public.refresh_backup_withholding_state(
+  p_ledger_id uuid,
+  p_entity_id text
+)
+ RETURNS TABLE(out_status text, out_notice_id uuid, out_withheld_earnings numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_status TEXT := 'not_required';
+  v_notice_id UUID;
+  v_current public.backup_withholding_states%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+      FROM public.tax_info_submissions s
+     WHERE s.ledger_id = p_ledger_id
+       AND s.entity_id = p_entity_id
+       AND s.status = 'active'
+       AND s.form_type IN ('W-8BEN', 'W-8BEN-E')
+  ) THEN
+    UPDATE public.backup_withholding_notices n
+       SET status = 'resolved',
+           resolution = 'w9_recertified',
+           resolved_at = NOW(),
+           updated_at = NOW()
+      FROM public.tax_info_submissions s
+     WHERE n.ledger_id = p_ledger_id
+       AND n.entity_id = p_entity_id
+       AND n.status <> 'resolved'
+       AND n.b_notice_type = 'first'
+       AND s.ledger_id = n.ledger_id
+       AND s.entity_id = n.entity_id
+       AND s.status = 'active'
+       AND s.form_type = 'W-9'
+       AND s.certified_at >= n.received_date;
+
+    SELECT n.id INTO v_notice_id
+      FROM public.backup_withholding_notices n
+     WHERE n.ledger_id = p_ledger_id
+       AND n.entity_id = p_entity_id
+       AND n.status <> 'resolved'
+       AND n.withholding_start_date <= CURRENT_DATE
+     ORDER BY n.notice_date DESC
+     LIMIT 1;
+
+    IF v_notice_id IS NOT NULL THEN
+      v_status := 'required_b_notice';
+    ELSIF COALESCE((
+      SELECT (l.settings->>'backup_withholding_enabled')::boolean
+        FROM public.ledgers l
+       WHERE l.id = p_ledger_id
+    ), false) AND NOT public.creator_has_tax_info(p_ledger_id, p_entity_id) THEN
+      v_status := 'required_missing_tin';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_current
+    FROM public.backup_withholding_states st
+   WHERE st.ledger_id = p_ledger_id
+     AND st.entity_id = p_entity_id
+   FOR UPDATE;
+
+  IF v_current.id IS NULL THEN
+    IF v_status <> 'not_required' THEN
+      INSERT INTO public.backup_withholding_states (
+        ledger_id, entity_id, status, notice_id, activated_at
+      ) VALUES (
+        p_ledger_id, p_entity_id, v_status, v_notice_id, NOW()
+      )
+      ON CONFLICT (ledger_id, entity_id) DO NOTHING;
+    END IF;
+
+    RETURN QUERY SELECT v_status, v_notice_id, 0::numeric;
+    RETURN;
+  END IF;
+
+  IF v_current.status IS DISTINCT FROM v_status OR v_current.notice_id IS DISTINCT FROM v_notice_id THEN
+    UPDATE public.backup_withholding_states st
+       SET status = v_status,
+           notice_id = v_notice_id,
+           activated_at = CASE
+             WHEN v_status = 'not_required' THEN st.activated_at
+             WHEN st.status = 'not_required' THEN NOW()
+             ELSE st.activated_at
+           END,
+           resolved_at = CASE WHEN v_status = 'not_required' THEN NOW() ELSE NULL END,
+           withheld_earnings = CASE WHEN v_status = 'not_required' THEN 0 ELSE st.withheld_earnings END,
+           updated_at = NOW()
+     WHERE st.id = v_current.id
+     RETURNING st.withheld_earnings INTO v_current.withheld_earnings;
+  END IF;
+
+  RETURN QUERY SELECT v_status, v_notice_id, v_current.withheld_earnings;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.refresh_backup_withholding_state(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_backup_withholding_state(uuid, text) TO service_role;
+
+-- ============================================================
+-- 4. record_sale_atomic: backup withholding
+-- ============================================================
+-- Unchanged from 20260420_w8_nra_withholding except that, when no NRA
+-- withholding applies and the creator's backup withholding state is active,
+-- 24% of the creator's share is credited to withholding_tax_payable
+-- ('backup') instead of creator_balance. Caller metadata cannot supply
+-- nra_withholding or backup_withholding.
+CREATE OR REPLACE FUNCTION public.record_sale_atomic(
+  p_ledger_id uuid,
+  p_reference_id text,
+  p_creator_id text,
+  p_gross_amount bigint,
+  p_creator_amount bigint,
+  p_platform_amount bigint,
+  p_processing_fee bigint DEFAULT 0,
+  p_soledgic_fee bigint DEFAULT 0,
+  p_product_id text DEFAULT NULL::text,
+  p_product_name text DEFAULT NULL::text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_sales_tax bigint DEFAULT 0,
+  p_entry_method text DEFAULT 'processor'::text,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric
+)
+RETURNS TABLE(out_transaction_id uuid, out_creator_account_id uuid, out_creator_balance numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_tx_id UUID;
+  v_creator_account_id UUID;
+  v_creator_is_active BOOLEAN;
+  v_platform_account_id UUID;
+  v_buyer_wallet_id UUID;
+  v_fee_account_id UUID;
+  v_soledgic_fee_account_id UUID;
+  v_sales_tax_payable_account_id UUID;
+  v_tax_jurisdiction TEXT;
+  v_creator_balance NUMERIC(14,2);
+  v_total_distributed BIGINT;
+  v_entry_method TEXT;
+  v_existing_amount NUMERIC(18,4);
+  v_buyer_id TEXT;
+  v_functional TEXT;
+  v_currency TEXT;
+  v_is_foreign BOOLEAN;
+  v_rate NUMERIC;
+  v_factor NUMERIC;
+  v_gross_f NUMERIC(14,2);
+  v_creator_f NUMERIC(14,2);
+  v_platform_f NUMERIC(14,2);
+  v_fee_f NUMERIC(14,2);
+  v_soledgic_f NUMERIC(14,2);
+  v_tax_f NUMERIC(14,2);
+  v_residual NUMERIC(14,2);
+  v_nra RECORD;
+  v_withholding_account_id UUID;
+  v_withheld BIGINT := 0;
+  v_withheld_f NUMERIC(14,2) := 0;
+  v_backup RECORD;
+  v_backup_account_id UUID;
+  v_backup_withheld BIGINT := 0;
+  v_backup_withheld_f NUMERIC(14,2) := 0;
+BEGIN
+  IF p_gross_amount <= 0 THEN
+    RAISE EXCEPTION 'Gross amount must be positive: %', p_gross_amount;
+  END IF;
+
+  IF p_creator_amount < 0 OR p_platform_amount < 0 OR p_processing_fee < 0 OR p_soledgic_fee < 0 OR p_sales_tax < 0 THEN
+    RAISE EXCEPTION 'Amounts cannot be negative';
+  END IF;
+
+  v_total_distributed := p_creator_amount + p_platform_amount + p_processing_fee + p_soledgic_fee + p_sales_tax;
+  IF v_total_distributed != p_gross_amount THEN
+    RAISE EXCEPTION 'Double-entry sum mismatch: creator(%) + platform(%) + fee(%) + soledgic(%) + sales_tax(%) = % != gross(%)',
+      p_creator_amount, p_platform_amount, p_processing_fee, p_soledgic_fee, p_sales_tax, v_total_distributed, p_gross_amount;
+  END IF;
+
+  v_functional := public.ledger_functional_currency(p_ledger_id);
+  v_currency := UPPER(COALESCE(NULLIF(TRIM(p_currency), ''), v_functional));
+  IF v_currency !~ '^[A-Z]{3}$' THEN
+    RAISE EXCEPTION 'Invalid currency: %', p_currency;
+  END IF;
+
+  v_is_foreign := v_currency <> v_functional;
+  -- Explicit rate wins; otherwise the rate table for today. Never 1:1.
+  v_rate := public.resolve_posting_fx_rate(p_ledger_id, v_currency, p_fx_rate, CURRENT_DATE);
+
+  v_factor := public.currency_minor_unit_factor(v_currency);
+  v_gross_f := ROUND(p_gross_amount / v_factor * v_rate, 2);
+  v_creator_f := ROUND(p_creator_amount / v_factor * v_rate, 2);
+  v_platform_f := ROUND(p_platform_amount / v_factor * v_rate, 2);
+  v_fee_f := ROUND(p_processing_fee / v_factor * v_rate, 2);
+  v_soledgic_f := ROUND(p_soledgic_fee / v_factor * v_rate, 2);
+  v_tax_f := ROUND(p_sales_tax / v_factor * v_rate, 2);
+
+  v_residual := v_gross_f - (v_creator_f + v_platform_f + v_fee_f + v_soledgic_f + v_tax_f);
+  IF v_residual <> 0 THEN
+    IF v_platform_f + v_residual >= 0 THEN
+      v_platform_f := v_platform_f + v_residual;
+    ELSE
+      v_creator_f := v_creator_f + v_residual;
+    END IF;
+  END IF;
+
+  -- Chapter 3 withholding comes out of the creator's share. Computed in
+  -- transaction minor units, then converted like every other line.
+  SELECT * INTO v_nra
+  FROM public.get_nra_withholding_rate(p_ledger_id, p_creator_id);
+
+  IF v_nra.rate_bps IS NOT NULL AND v_nra.rate_bps > 0 AND p_creator_amount > 0 THEN
+    v_withheld := ROUND(p_creator_amount * v_nra.rate_bps / 10000.0);
+    v_withheld_f := LEAST(ROUND(v_withheld / v_factor * v_rate, 2), v_creator_f);
+    v_creator_f := v_creator_f - v_withheld_f;
+  END IF;
+
+  -- Backup withholding (24%) for US payees with a missing TIN or an
+  -- unresolved B-notice. Never stacks on chapter 3 withholding.
+  IF v_withheld = 0 AND p_creator_amount > 0 THEN
+    SELECT * INTO v_backup
+    FROM public.refresh_backup_withholding_state(p_ledger_id, p_creator_id);
+
+    IF v_backup.out_status <> 'not_required' THEN
+      v_backup_withheld := ROUND(p_creator_amount * 2400 / 10000.0);
+      v_backup_withheld_f := LEAST(ROUND(v_backup_withheld / v_factor * v_rate, 2), v_creator_f);
+      v_creator_f := v_creator_f - v_backup_withheld_f;
+    END IF;
+  END IF;
+
+  v_entry_method := COALESCE(NULLIF(TRIM(p_entry_method), ''), 'processor');
+  IF v_entry_method NOT IN ('processor', 'manual', 'system', 'import') THEN
+    v_entry_method := 'processor';
+  END IF;
+
+  v_buyer_id := p_metadata->>'buyer_id';
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  IF v_platform_account_id IS NULL THEN
+    RAISE EXCEPTION 'Platform revenue account not initialized for ledger %', p_ledger_id;
+  END IF;
+
+  IF v_buyer_id IS NOT NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'buyer_wallet'
+      AND entity_id = v_buyer_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    SELECT id INTO v_buyer_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'cash'
+    LIMIT 1;
+  END IF;
+
+  IF v_buyer_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'No debit account (buyer_wallet or cash) found for ledger %', p_ledger_id;
+  END IF;
+
+  SELECT id, is_active INTO v_creator_account_id, v_creator_is_active
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'creator_balance'
+    AND entity_id = p_creator_id
+  FOR UPDATE;
+
+  IF v_creator_account_id IS NOT NULL AND v_creator_is_active = false THEN
+    RAISE EXCEPTION 'Creator % has been deleted', p_creator_id;
+  END IF;
+
+  IF v_creator_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_id, entity_type, name, currency
+    ) VALUES (
+      p_ledger_id, 'creator_balance', p_creator_id, 'creator', 'Creator ' || p_creator_id, v_functional
+    )
+    RETURNING id INTO v_creator_account_id;
+  END IF;
+
+  IF p_processing_fee > 0 THEN
+    SELECT id INTO v_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'processing_fees', 'platform', 'Processing Fees'
+      )
+      RETURNING id INTO v_fee_account_id;
+    END IF;
+  END IF;
+
+  IF p_soledgic_fee > 0 THEN
+    SELECT id INTO v_soledgic_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'soledgic_fee'
+    LIMIT 1;
+
+    IF v_soledgic_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'soledgic_fee', 'platform', 'Soledgic Platform Fee'
+      )
+      RETURNING id INTO v_soledgic_fee_account_id;
+    END IF;
+  END IF;
+
+  -- Collected tax is owed to a specific jurisdiction: post it to that
+  -- jurisdiction's payable account (entity_id = jurisdiction code). Sales
+  -- without a jurisdiction keep using the ledger-wide payable account.
+  v_tax_jurisdiction := NULLIF(UPPER(TRIM(COALESCE(p_metadata->>'sales_tax_jurisdiction', ''))), '');
+
+  IF p_sales_tax > 0 AND v_tax_jurisdiction IS NOT NULL THEN
+    SELECT id INTO v_sales_tax_payable_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'sales_tax_payable'
+      AND entity_id = v_tax_jurisdiction
+    LIMIT 1;
+
+    IF v_sales_tax_payable_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_id, entity_type, name, currency
+      ) VALUES (
+        p_ledger_id, 'sales_tax_payable', v_tax_jurisdiction, 'tax_jurisdiction',
+        'Sales Tax Payable - ' || v_tax_jurisdiction, v_functional
+      )
+      RETURNING id INTO v_sales_tax_payable_account_id;
+    END IF;
+  ELSIF p_sales_tax > 0 THEN
+    SELECT id INTO v_sales_tax_payable_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'sales_tax_payable'
+      AND entity_id IS NULL
+    LIMIT 1;
+
+    IF v_sales_tax_payable_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'sales_tax_payable', 'platform', 'Sales Tax Payable'
+      )
+      RETURNING id INTO v_sales_tax_payable_account_id;
+    END IF;
+  END IF;
+
+  IF v_withheld > 0 THEN
+    SELECT id INTO v_withholding_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'withholding_tax_payable'
+      AND entity_id = 'nra'
+    LIMIT 1;
+
+    IF v_withholding_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_id, entity_type, name, currency
+      ) VALUES (
+        p_ledger_id, 'withholding_tax_payable', 'nra', 'tax_authority',
+        'NRA Withholding Payable', v_functional
+      )
+      RETURNING id INTO v_withholding_account_id;
+    END IF;
+  END IF;
+
+  IF v_backup_withheld > 0 THEN
+    SELECT id INTO v_backup_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'withholding_tax_payable'
+      AND entity_id = 'backup'
+    LIMIT 1;
+
+    IF v_backup_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_id, entity_type, name, currency
+      ) VALUES (
+        p_ledger_id, 'withholding_tax_payable', 'backup', 'tax_authority',
+        'Backup Withholding Payable', v_functional
+      )
+      RETURNING id INTO v_backup_account_id;
+    END IF;
+
+    -- Earnings withheld on here are not withheld on again when paid out
+    UPDATE public.backup_withholding_states
+       SET withheld_earnings = withheld_earnings + v_creator_f,
+           updated_at = NOW()
+     WHERE ledger_id = p_ledger_id
+       AND entity_id = p_creator_id;
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata,
+    original_currency, original_amount, fx_rate
+  ) VALUES (
+    p_ledger_id, 'sale', p_reference_id, 'external',
+    COALESCE(p_product_name, 'Sale for creator ' || p_creator_id),
+    v_gross_f, v_functional, 'completed', v_entry_method,
+    jsonb_build_object(
+      'creator_id', p_creator_id,
+      'product_id', p_product_id,
+      'buyer_id', v_buyer_id,
+      'currency', v_currency,
+      'amounts_cents', jsonb_build_object(
+        'gross', p_gross_amount,
+        'subtotal', p_gross_amount - p_sales_tax,
+        'sales_tax', p_sales_tax,
+        'creator', p_creator_amount,
+        'platform', p_platform_amount,
+        'fee', p_processing_fee,
+        'soledgic_fee', p_soledgic_fee,
+        'nra_withholding', v_withheld,
+        'backup_withholding', v_backup_withheld
+      )
+    ) || (p_metadata - 'nra_withholding' - 'backup_withholding') || CASE WHEN v_withheld > 0 THEN jsonb_build_object(
+      'nra_withholding', jsonb_build_object(
+        'rate_bps', v_nra.rate_bps,
+        'reason', v_nra.reason,
+        'form_type', v_nra.form_type,
+        'treaty_country', v_nra.treaty_country,
+        'submission_id', v_nra.submission_id,
+        'amount_cents', v_withheld
+      )
+    ) ELSE '{}'::jsonb END || CASE WHEN v_backup_withheld > 0 THEN jsonb_build_object(
+      'backup_withholding', jsonb_build_object(
+        'rate_bps', 2400,
+        'reason', v_backup.out_status,
+        'notice_id', v_backup.out_notice_id,
+        'amount_cents', v_backup_withheld
+      )
+    ) ELSE '{}'::jsonb END,
+    CASE WHEN v_is_foreign THEN v_currency ELSE NULL END,
+    CASE WHEN v_is_foreign THEN p_gross_amount / v_factor ELSE NULL END,
+    CASE WHEN v_is_foreign THEN v_rate ELSE NULL END
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_buyer_wallet_id, 'debit', v_gross_f, v_currency, p_gross_amount / v_factor);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_creator_account_id, 'credit', v_creator_f, v_currency, (p_creator_amount - v_withheld - v_backup_withheld) / v_factor);
+
+  IF v_withheld > 0 THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_withholding_account_id, 'credit', v_withheld_f, v_currency, v_withheld / v_factor);
+  END IF;
+
+  IF v_backup_withheld > 0 THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_backup_account_id, 'credit', v_backup_withheld_f, v_currency, v_backup_withheld / v_factor);
+  END IF;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+  VALUES (v_tx_id, v_platform_account_id, 'credit', v_platform_f, v_currency, p_platform_amount / v_factor);
+
+  IF p_processing_fee > 0 AND v_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_fee_account_id, 'credit', v_fee_f, v_currency, p_processing_fee / v_factor);
+  END IF;
+
+  IF p_soledgic_fee > 0 AND v_soledgic_fee_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_soledgic_fee_account_id, 'credit', v_soledgic_f, v_currency, p_soledgic_fee / v_factor);
+  END IF;
+
+  IF p_sales_tax > 0 AND v_sales_tax_payable_account_id IS NOT NULL THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+    VALUES (v_tx_id, v_sales_tax_payable_account_id, 'credit', v_tax_f, v_currency, p_sales_tax / v_factor);
+  END IF;
+
+  SELECT balance INTO v_creator_balance
+  FROM public.accounts
+  WHERE id = v_creator_account_id;
+
+  PERFORM 1 FROM (
+    SELECT
+      SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE 0 END) AS debits,
+      SUM(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE 0 END) AS credits
+    FROM public.entries e
+    WHERE e.transaction_id = v_tx_id
+  ) AS totals
+  WHERE totals.debits != totals.credits;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'CRITICAL: Double-entry validation failed for transaction %', v_tx_id;
+  END IF;
+
+  RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT t.id, COALESCE(t.original_amount, t.amount)
+      INTO v_tx_id, v_existing_amount
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = p_reference_id;
+
+    IF v_tx_id IS NULL THEN RAISE; END IF;
+
+    IF v_existing_amount IS DISTINCT FROM (p_gross_amount / v_factor) THEN
+      RAISE EXCEPTION 'Idempotency conflict: reference_id "%" already exists with amount % but request has amount %',
+        p_reference_id, v_existing_amount, p_gross_amount / v_factor;
+    END IF;
+
+    SELECT a.id, a.balance
+      INTO v_creator_account_id, v_creator_balance
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'creator_balance'
+       AND a.entity_id = p_creator_id;
+
+    RETURN QUERY SELECT v_tx_id, v_creator_account_id, v_creator_balance;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, bigint, text, text, numeric) TO service_role;
+
+-- ============================================================
+-- 5. process_payout_atomic: backup withholding
+-- ============================================================
+-- Unchanged from 20260358_integrity_hardening except that, while the
+-- creator's backup withholding state is active, 24% of the part of the
+-- payout not already withheld on at sale time is kept back in
+-- withholding_tax_payable ('backup') instead of leaving cash. Caller metadata
+-- cannot supply backup_withholding.
+CREATE OR REPLACE FUNCTION public.process_payout_atomic(
+  p_ledger_id uuid,
+  p_reference_id text,
+  p_creator_id text,
+  p_amount bigint,
+  p_fees bigint DEFAULT 0,
+  p_fees_paid_by text DEFAULT 'platform'::text,
+  p_payout_method text DEFAULT NULL::text,
+  p_description text DEFAULT NULL::text,
+  p_reference_type text DEFAULT 'manual'::text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_tx_id UUID;
+  v_creator_account_id UUID;
+  v_cash_account_id UUID;
+  v_fee_account_id UUID;
+  v_available_balance NUMERIC(14,2);
+  v_payout_amount NUMERIC(14,2);
+  v_fees_amount NUMERIC(14,2);
+  v_net_to_creator NUMERIC(14,2);
+  v_new_balance NUMERIC(14,2);
+  v_reference_type TEXT;
+  v_existing_amount NUMERIC(14,2);
+  v_backup RECORD;
+  v_backup_account_id UUID;
+  v_already_withheld NUMERIC(14,2) := 0;
+  v_backup_withheld NUMERIC(14,2) := 0;
+BEGIN
+  v_payout_amount := p_amount / 100.0;
+  v_fees_amount := p_fees / 100.0;
+
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payout amount must be positive: %', p_amount;
+  END IF;
+
+  v_reference_type := COALESCE(NULLIF(TRIM(p_reference_type), ''), 'manual');
+
+  -- Check for existing transaction with this reference_id BEFORE locking
+  SELECT t.id, t.amount
+    INTO v_tx_id, v_existing_amount
+    FROM public.transactions t
+   WHERE t.ledger_id = p_ledger_id
+     AND t.reference_id = p_reference_id;
+
+  IF v_tx_id IS NOT NULL THEN
+    -- GAP 1 FIX: Verify amount matches before returning duplicate
+    IF v_existing_amount IS DISTINCT FROM v_payout_amount THEN
+      RETURN jsonb_build_object(
+        'status', 'error',
+        'error', 'idempotency_conflict',
+        'message', format('reference_id "%s" exists with amount %s but request has %s',
+                          p_reference_id, v_existing_amount, v_payout_amount)
+      );
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', 'duplicate',
+      'transaction_id', v_tx_id
+    );
+  END IF;
+
+  -- Lock creator account FOR UPDATE (serialize concurrent payouts)
+  SELECT id, balance INTO v_creator_account_id, v_available_balance
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'creator_balance'
+    AND entity_id = p_creator_id
+  FOR UPDATE;
+
+  IF v_creator_account_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'status', 'error',
+      'error', 'creator_not_found'
+    );
+  END IF;
+
+  IF p_fees_paid_by = 'creator' THEN
+    v_net_to_creator := v_payout_amount - v_fees_amount;
+    IF v_available_balance < v_payout_amount THEN
+      RETURN jsonb_build_object(
+        'status', 'error',
+        'error', 'insufficient_balance',
+        'available', v_available_balance,
+        'required', v_payout_amount
+      );
+    END IF;
+  ELSE
+    v_net_to_creator := v_payout_amount;
+    IF v_available_balance < v_payout_amount THEN
+      RETURN jsonb_build_object(
+        'status', 'error',
+        'error', 'insufficient_balance',
+        'available', v_available_balance,
+        'required', v_payout_amount
+      );
+    END IF;
+  END IF;
+
+  -- Backup withholding on the part of the payout not already withheld on
+  -- when it was earned (sales posted while the same state was active).
+  SELECT * INTO v_backup
+  FROM public.refresh_backup_withholding_state(p_ledger_id, p_creator_id);
+
+  IF v_backup.out_status <> 'not_required' THEN
+    v_already_withheld := LEAST(v_backup.out_withheld_earnings, v_payout_amount);
+    v_backup_withheld := LEAST(
+      ROUND((v_payout_amount - v_already_withheld) * 0.24, 2),
+      v_net_to_creator
+    );
+    v_net_to_creator := v_net_to_creator - v_backup_withheld;
+
+    UPDATE public.backup_withholding_states
+       SET withheld_earnings = withheld_earnings - v_already_withheld,
+           updated_at = NOW()
+     WHERE ledger_id = p_ledger_id
+       AND entity_id = p_creator_id;
+  END IF;
+
+  SELECT id INTO v_cash_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'cash'
+  LIMIT 1;
+
+  IF v_cash_account_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'status', 'error',
+      'error', 'cash_account_not_found'
+    );
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, metadata
+  ) VALUES (
+    p_ledger_id, 'payout', p_reference_id, v_reference_type,
+    COALESCE(p_description, 'Payout for creator ' || p_creator_id),
+    v_payout_amount, 'USD', 'completed',
+    jsonb_build_object(
+      'creator_id', p_creator_id,
+      'payout_method', p_payout_method,
+      'amounts_cents', jsonb_build_object(
+        'gross', p_amount,
+        'fees', p_fees,
+        'net', (p_amount - CASE WHEN p_fees_paid_by = 'creator' THEN p_fees ELSE 0 END) - ROUND(v_backup_withheld * 100)::bigint,
+        'fees_paid_by', p_fees_paid_by,
+        'backup_withholding', ROUND(v_backup_withheld * 100)::bigint
+      )
+    ) || (p_metadata - 'backup_withholding') || CASE WHEN v_backup_withheld > 0 THEN jsonb_build_object(
+      'backup_withholding', jsonb_build_object(
+        'rate_bps', 2400,
+        'reason', v_backup.out_status,
+        'notice_id', v_backup.out_notice_id,
+        'amount_cents', ROUND(v_backup_withheld * 100)::bigint
+      )
+    ) ELSE '{}'::jsonb END
+  )
+  RETURNING id INTO v_tx_id;
+
+  -- Debit creator_balance (reduce liability)
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount)
+  VALUES (v_tx_id, v_creator_account_id, 'debit', v_payout_amount);
+
+  -- Credit cash (money leaving)
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount)
+  VALUES (v_tx_id, v_cash_account_id, 'credit', v_net_to_creator);
+
+  -- Withheld portion stays with the platform until deposited with the IRS
+  IF v_backup_withheld > 0 THEN
+    SELECT id INTO v_backup_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'withholding_tax_payable'
+      AND entity_id = 'backup'
+    LIMIT 1;
+
+    IF v_backup_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_id, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'withholding_tax_payable', 'backup', 'tax_authority', 'Backup Withholding Payable'
+      )
+      RETURNING id INTO v_backup_account_id;
+    END IF;
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount)
+    VALUES (v_tx_id, v_backup_account_id, 'credit', v_backup_withheld);
+  END IF;
+
+  IF v_fees_amount > 0 THEN
+    SELECT id INTO v_fee_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id AND account_type = 'processing_fees'
+    LIMIT 1;
+
+    IF v_fee_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_type, name
+      ) VALUES (
+        p_ledger_id, 'processing_fees', 'platform', 'Processing Fees'
+      )
+      RETURNING id INTO v_fee_account_id;
+    END IF;
+
+    IF p_fees_paid_by = 'creator' THEN
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount)
+      VALUES (v_tx_id, v_fee_account_id, 'credit', v_fees_amount);
+    ELSE
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount)
+      VALUES (v_tx_id, v_fee_account_id, 'debit', v_fees_amount);
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount)
+      VALUES (v_tx_id, v_cash_account_id, 'credit', v_fees_amount);
+    END IF;
+  END IF;
+
+  SELECT balance INTO v_new_balance
+  FROM public.accounts
+  WHERE id = v_creator_account_id;
+
+  RETURN jsonb_build_object(
+    'status', 'created',
+    'transaction_id', v_tx_id,
+    'gross_payout', v_payout_amount,
+    'fees', v_fees_amount,
+    'net_to_creator', v_net_to_creator,
+    'backup_withheld', v_backup_withheld,
+    'previous_balance', v_available_balance,
+    'new_balance', v_new_balance
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    -- Duplicate reference_id — verify amount matches
+    SELECT t.id, t.amount
+      INTO v_tx_id, v_existing_amount
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = p_reference_id;
+
+    IF v_tx_id IS NULL THEN
+      RAISE;  -- Not a reference_id collision — re-raise
+    END IF;
+
+    IF v_existing_amount IS DISTINCT FROM v_payout_amount THEN
+      RAISE EXCEPTION 'Idempotency conflict: reference_id "%" already exists with amount % but request has amount %',
+        p_reference_id, v_existing_amount, v_payout_amount;
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', 'duplicate',
+      'transaction_id', v_tx_id
+    );
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.process_payout_atomic(uuid, text, text, bigint, bigint, text, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.process_payout_atomic(uuid, text, text, bigint, bigint, text, text, text, text, jsonb) TO service_role;
+
+-- ============================================================
+-- 6. calculate_1099_form_totals: backup withholding
+-- ============================================================
+-- Unchanged from 20260418_tax_form_types except that amounts withheld on a
+-- sale are added back into the gross payment and returned per category,
+-- and any withholding makes the form reportable below the threshold.
+DROP FUNCTION IF EXISTS public.calculate_1099_form_totals(uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION public.calculate_1099_form_totals(
+  p_ledger_id uuid,
+  p_creator_id text,
+  p_tax_year integer
+)
+ RETURNS TABLE(
+   payment_category      text,
+   form_type             text,
+   form_box              text,
+   gross_payments        numeric,
+   transaction_count     integer,
+   monthly_totals        jsonb,
+   amount_threshold      numeric,
+   transaction_threshold integer,
+   meets_threshold       boolean,
+   backup_withheld       numeric
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_default_category text;
+BEGIN
+  SELECT COALESCE(NULLIF(l.settings->>'tax_payment_category', ''), 'nonemployee_compensation')
+    INTO v_default_category
+    FROM public.ledgers l
+   WHERE l.id = p_ledger_id;
+
+  RETURN QUERY
+  WITH thresholds AS (
+    SELECT * FROM public.get_tax_form_thresholds(p_tax_year)
+  ),
+  credits AS (
+    SELECT
+      COALESCE(
+        NULLIF(t.metadata->>'payment_category', ''),
+        NULLIF(a.metadata->>'payment_category', ''),
+        v_default_category,
+        'nonemployee_compensation'
+      ) AS category,
+      EXTRACT(MONTH FROM t.created_at)::integer AS month,
+      e.amount + COALESCE(bw.amount, 0) AS amount,
+      COALESCE(bw.amount, 0) AS withheld
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+    JOIN public.accounts a ON a.id = e.account_id
+    -- Backup withholding is part of the payment reported in the box
+    LEFT JOIN LATERAL (
+      SELECT SUM(we.amount) AS amount
+      FROM public.entries we
+      JOIN public.accounts wa ON wa.id = we.account_id
+      WHERE we.transaction_id = t.id
+        AND we.entry_type = 'credit'
+        AND wa.account_type = 'withholding_tax_payable'
+        AND wa.entity_id = 'backup'
+    ) bw ON true
+    WHERE a.ledger_id = p_ledger_id
+      AND a.account_type = 'creator_balance'
+      AND a.entity_id = p_creator_id
+      AND e.entry_type = 'credit'
+      AND t.transaction_type = 'sale'
+      AND t.status NOT IN ('voided', 'reversed')
+      AND EXTRACT(YEAR FROM t.created_at)::integer = p_tax_year
+  ),
+  -- Unknown categories fall back to 1099-NEC rather than going unreported.
+  categorized AS (
+    SELECT
+      CASE WHEN th.payment_category IS NULL THEN 'nonemployee_compensation' ELSE c.category END AS category,
+      c.month,
+      c.amount,
+      c.withheld
+    FROM credits c
+    LEFT JOIN thresholds th ON th.payment_category = c.category
+  ),
+  monthly AS (
+    SELECT cz.category, cz.month, SUM(cz.amount) AS amount
+    FROM categorized cz
+    GROUP BY cz.category, cz.month
+  ),
+  totals AS (
+    SELECT
+      cz.category,
+      SUM(cz.amount)::numeric(14,2) AS gross,
+      SUM(cz.withheld)::numeric(14,2) AS withheld,
+      COUNT(*)::integer AS cnt
+    FROM categorized cz
+    GROUP BY cz.category
+  )
+  SELECT
+    tt.category,
+    th.form_type,
+    th.form_box,
+    tt.gross,
+    tt.cnt,
+    COALESCE((
+      SELECT jsonb_object_agg(
+        (ARRAY['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'])[m.month],
+        m.amount
+      )
+      FROM monthly m
+      WHERE m.category = tt.category
+    ), '{}'::jsonb),
+    th.amount_threshold,
+    th.transaction_threshold,
+    -- Any backup withholding makes the form reportable regardless of amount
+    tt.withheld > 0 OR CASE
+      WHEN th.transaction_threshold IS NOT NULL
+        THEN tt.gross > th.amount_threshold AND tt.cnt > th.transaction_threshold
+      ELSE tt.gross >= th.amount_threshold
+    END,
+    tt.withheld
+  FROM totals tt
+  JOIN thresholds th ON th.payment_category = tt.category
+  ORDER BY th.form_type, th.form_box;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.calculate_1099_form_totals(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_1099_form_totals(uuid, text, integer) TO service_role;
+
+-- ============================================================
+-- 7. generate_1099_documents: federal withholding
+-- ============================================================
+-- Unchanged from 20260420_w8_nra_withholding except that backup withholding
+-- from sales and payouts populates federal_withholding, and the total
+-- withheld is returned.
+DROP FUNCTION IF EXISTS public.generate_1099_documents(uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.generate_1099_documents(p_ledger_id uuid, p_tax_year integer)
+ RETURNS TABLE(documents_created integer, documents_skipped integer, total_amount numeric, total_withheld numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_creator RECORD;
+  v_form RECORD;
+  v_boxes JSONB;
+  v_created INTEGER := 0;
+  v_skipped INTEGER := 0;
+  v_total NUMERIC(14,2) := 0;
+  v_withheld_total NUMERIC(14,2) := 0;
+  v_payout_withheld NUMERIC(14,2);
+BEGIN
+  FOR v_creator IN
+    SELECT a.entity_id
+      FROM public.accounts a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.account_type = 'creator_balance'
+       AND a.entity_id IS NOT NULL
+       AND NOT EXISTS (
+         SELECT 1
+           FROM public.tax_info_submissions s
+          WHERE s.ledger_id = p_ledger_id
+            AND s.entity_id = a.entity_id
+            AND s.status = 'active'
+            AND s.form_type IN ('W-8BEN', 'W-8BEN-E')
+       )
+  LOOP
+    -- Withholding taken at payout has no payment category; it is reported
+    -- on the creator's largest form.
+    SELECT COALESCE(SUM(e.amount), 0)
+      INTO v_payout_withheld
+      FROM public.transactions t
+      JOIN public.entries e ON e.transaction_id = t.id AND e.entry_type = 'credit'
+      JOIN public.accounts a ON a.id = e.account_id
+     WHERE t.ledger_id = p_ledger_id
+       AND t.transaction_type = 'payout'
+       AND t.status NOT IN ('voided', 'reversed')
+       AND t.metadata->>'creator_id' = v_creator.entity_id
+       AND EXTRACT(YEAR FROM t.created_at)::integer = p_tax_year
+       AND a.account_type = 'withholding_tax_payable'
+       AND a.entity_id = 'backup';
+
+    FOR v_form IN
+      WITH lines AS (
+        SELECT * FROM public.calculate_1099_form_totals(p_ledger_id, v_creator.entity_id, p_tax_year)
+      ),
+      months AS (
+        SELECT l.form_type, m.key AS month, SUM(m.value::numeric) AS amount
+        FROM lines l, jsonb_each_text(l.monthly_totals) m
+        GROUP BY l.form_type, m.key
+      )
+      SELECT
+        l.form_type,
+        bool_or(l.meets_threshold) AS required,
+        SUM(l.gross_payments)::numeric(14,2) AS gross,
+        SUM(l.transaction_count)::integer AS cnt,
+        jsonb_object_agg(l.form_box, l.gross_payments) AS boxes,
+        COALESCE((
+          SELECT jsonb_object_agg(mo.month, mo.amount)
+          FROM months mo
+          WHERE mo.form_type = l.form_type
+        ), '{}'::jsonb) AS monthly,
+        array_agg(l.payment_category ORDER BY l.payment_category) AS categories,
+        SUM(l.backup_withheld)::numeric(14,2) AS withheld
+      FROM lines l
+      GROUP BY l.form_type
+      ORDER BY bool_or(l.meets_threshold) DESC, SUM(l.gross_payments) DESC
+    LOOP
+      IF NOT v_form.required THEN
+        v_skipped := v_skipped + 1;
+        CONTINUE;
+      END IF;
+
+      v_boxes := v_form.boxes;
+      IF v_form.form_type = '1099-K' THEN
+        v_boxes := v_boxes
+          || jsonb_build_object('3', v_form.cnt)
+          || COALESCE((
+            SELECT jsonb_object_agg('5' || chr(96 + mi.idx), COALESCE(v_form.monthly->>mi.month, '0')::numeric)
+            FROM unnest(ARRAY['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'])
+              WITH ORDINALITY AS mi(month, idx)
+          ), '{}'::jsonb);
+      END IF;
+
+      INSERT INTO public.tax_documents (
+        ledger_id, document_type, tax_year, recipient_type, recipient_id,
+        gross_amount, federal_withholding, transaction_count, monthly_amounts, form_boxes, metadata, status
+      ) VALUES (
+        p_ledger_id, v_form.form_type, p_tax_year, 'creator', v_creator.entity_id,
+        v_form.gross, v_form.withheld + v_payout_withheld, v_form.cnt, v_form.monthly, v_boxes,
+        jsonb_build_object('payment_categories', to_jsonb(v_form.categories)), 'calculated'
+      )
+      ON CONFLICT (ledger_id, document_type, tax_year, recipient_id)
+      DO UPDATE SET
+        gross_amount = EXCLUDED.gross_amount,
+        federal_withholding = EXCLUDED.federal_withholding,
+        transaction_count = EXCLUDED.transaction_count,
+        monthly_amounts = EXCLUDED.monthly_amounts,
+        form_boxes = EXCLUDED.form_boxes,
+        metadata = public.tax_documents.metadata || EXCLUDED.metadata,
+        updated_at = NOW();
+
+      v_created := v_created + 1;
+      v_total := v_total + v_form.gross;
+      v_withheld_total := v_withheld_total + v_form.withheld + v_payout_withheld;
+      v_payout_withheld := 0;
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, v_skipped, v_total, v_withheld_total;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.generate_1099_documents(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_1099_documents(uuid, integer) TO service_role;
@@ -0,0 +1,205 @@
+-- Multi-party checkout line items.
+-- A checkout can carry line items that each name a participant, product and
+-- amount. The buyer is charged once for the whole cart; on completion each
+-- line item is posted as its own sale (record_sale_atomic) with that line's
+-- creator/platform split, so refunds can later target a single line.
+--
+-- Line items are keyed by the checkout's base reference: checkout_<session id>
+-- for hosted sessions and sale_<payment id> for direct charges. Line N posts
+-- under <base reference>_N.
+
+-- ============================================================
+-- 1. Line items
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.checkout_line_items (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  checkout_session_id uuid REFERENCES public.checkout_sessions(id) ON DELETE CASCADE,
+  checkout_reference text NOT NULL,
+  position integer NOT NULL,
+  creator_id text NOT NULL,
+  product_id text,
+  product_name text,
+  amount bigint NOT NULL,
+  creator_percent numeric NOT NULL,
+  creator_amount bigint NOT NULL,
+  platform_amount bigint NOT NULL,
+  soledgic_fee bigint NOT NULL DEFAULT 0,
+  sales_tax_amount bigint NOT NULL DEFAULT 0,
+  reference_id text,
+  transaction_id uuid REFERENCES public.transactions(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT checkout_line_items_position_check CHECK (position >= 1),
+  CONSTRAINT checkout_line_items_amounts_check CHECK (
+    amount > 0
+    AND creator_amount >= 0
+    AND platform_amount >= 0
+    AND soledgic_fee >= 0
+    AND sales_tax_amount >= 0
+    AND creator_amount + platform_amount + soledgic_fee = amount
+  ),
+  CONSTRAINT checkout_line_items_position_unique UNIQUE (ledger_id, checkout_reference, position)
+);
+
+COMMENT ON TABLE public.checkout_line_items IS 'Per-participant line items of a multi-party checkout; each posts as its own sale';
+COMMENT ON COLUMN public.checkout_line_items.amount IS 'Line subtotal in minor units, before sales tax';
+COMMENT ON COLUMN public.checkout_line_items.reference_id IS 'Sale reference the line was posted under; set on completion';
+
+CREATE INDEX IF NOT EXISTS idx_checkout_line_items_session
+  ON public.checkout_line_items (checkout_session_id)
+  WHERE checkout_session_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_checkout_line_items_creator
+  ON public.checkout_line_items (ledger_id, creator_id, created_at DESC);
+
+ALTER TABLE public.checkout_line_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS checkout_line_items_service_all ON public.checkout_line_items;
+CREATE POLICY checkout_line_items_service_all ON public.checkout_line_items
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS checkout_line_items_read_org_members ON public.checkout_line_items;
+CREATE POLICY checkout_line_items_read_org_members
+  ON public.checkout_line_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = checkout_line_items.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. Multi-party sessions
+-- ============================================================
+-- A session with line items has no single creator: creator_id and
+-- creator_percent stay NULL and creator_amount/platform_amount hold the
+-- totals across lines.
+ALTER TABLE public.checkout_sessions
+  ADD COLUMN IF NOT EXISTS line_item_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.checkout_sessions
+  ALTER COLUMN creator_id DROP NOT NULL,
+  ALTER COLUMN creator_percent DROP NOT NULL;
+
+ALTER TABLE public.checkout_sessions
+  DROP CONSTRAINT IF EXISTS checkout_sessions_creator_check;
+
+ALTER TABLE public.checkout_sessions
+  ADD CONSTRAINT checkout_sessions_creator_check
+  CHECK (line_item_count > 0 OR (creator_id IS NOT NULL AND creator_percent IS NOT NULL));
+
+-- ============================================================
+-- 3. record_checkout_line_item_sales
+-- ============================================================
+-- Posts one record_sale_atomic per line item of a checkout, all in one
+-- transaction. Sales tax is charged once on the cart and allocated to lines
+-- in proportion to their subtotals, the rounding remainder going to the last
+-- line. Re-running after a partial failure is safe: record_sale_atomic
+-- returns the existing sale for a reference that is already booked.
+CREATE OR REPLACE FUNCTION public.record_checkout_line_item_sales(
+  p_ledger_id uuid,
+  p_checkout_reference text,
+  p_sales_tax bigint DEFAULT 0,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric
+)
+RETURNS TABLE(out_line_item_id uuid, out_reference_id text, out_transaction_id uuid, out_sales_tax bigint)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_line RECORD;
+  v_subtotal BIGINT;
+  v_count INTEGER;
+  v_index INTEGER := 0;
+  v_tax_remaining BIGINT;
+  v_tax BIGINT;
+  v_reference TEXT;
+  v_tx_id UUID;
+BEGIN
+  IF COALESCE(p_sales_tax, 0) < 0 THEN
+    RAISE EXCEPTION 'Sales tax cannot be negative: %', p_sales_tax;
+  END IF;
+
+  SELECT COALESCE(SUM(li.amount), 0), COUNT(*)
+    INTO v_subtotal, v_count
+    FROM public.checkout_line_items li
+   WHERE li.ledger_id = p_ledger_id
+     AND li.checkout_reference = p_checkout_reference;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'No line items found for checkout %', p_checkout_reference;
+  END IF;
+
+  v_tax_remaining := COALESCE(p_sales_tax, 0);
+
+  FOR v_line IN
+    SELECT li.*
+      FROM public.checkout_line_items li
+     WHERE li.ledger_id = p_ledger_id
+       AND li.checkout_reference = p_checkout_reference
+     ORDER BY li.position
+     FOR UPDATE
+  LOOP
+    v_index := v_index + 1;
+    IF v_index = v_count THEN
+      v_tax := v_tax_remaining;
+    ELSE
+      v_tax := FLOOR(COALESCE(p_sales_tax, 0)::numeric * v_line.amount / v_subtotal);
+    END IF;
+    v_tax_remaining := v_tax_remaining - v_tax;
+    v_reference := p_checkout_reference || '_' || v_line.position;
+
+    SELECT s.out_transaction_id INTO v_tx_id
+    FROM public.record_sale_atomic(
+      p_ledger_id,
+      v_reference,
+      v_line.creator_id,
+      v_line.amount + v_tax,
+      v_line.creator_amount,
+      v_line.platform_amount,
+      0,
+      v_line.soledgic_fee,
+      v_line.product_id,
+      v_line.product_name,
+      COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object(
+        'checkout_reference', p_checkout_reference,
+        'checkout_line_item_id', v_line.id,
+        'line_item_position', v_line.position,
+        'subtotal_amount_cents', v_line.amount,
+        'sales_tax_amount_cents', v_tax
+      ),
+      v_tax,
+      'processor',
+      p_currency,
+      p_fx_rate
+    ) s;
+
+    UPDATE public.checkout_line_items
+       SET reference_id = v_reference,
+           transaction_id = v_tx_id,
+           sales_tax_amount = v_tax,
+           updated_at = NOW()
+     WHERE id = v_line.id;
+
+    out_line_item_id := v_line.id;
+    out_reference_id := v_reference;
+    out_transaction_id := v_tx_id;
+    out_sales_tax := v_tax;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_checkout_line_item_sales(uuid, text, bigint, jsonb, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_checkout_line_item_sales(uuid, text, bigint, jsonb, text, numeric) TO service_role;
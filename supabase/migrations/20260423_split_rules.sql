@@ -0,0 +1,802 @@
+-- Versioned multi-recipient split rules (waterfall splits).
+-- A split rule distributes the net of one sale (gross less processing and
+-- Soledgic fees) to N participants: the selling creator, co-creators,
+-- affiliates and referral partners. Recipients are paid in position order;
+-- each takes percent of the net plus a fixed amount, clamped to its min/max
+-- and to whatever the earlier recipients left. The platform keeps the rest.
+--
+-- Rules are scoped to a product or a creator and are never edited in place:
+-- every change writes a new version, and each sale records the version it
+-- was split under.
+--
+-- Posting: the sale itself credits the selling creator's share. Every other
+-- recipient is credited by its own transfer out of platform_revenue, with
+-- metadata.parent_transaction_id pointing at the sale so the transaction
+-- graph links it back as a 'split'. Refunds reverse the sale only; split
+-- credits stay with their recipients and come out of the platform's share.
+
+-- ============================================================
+-- 1. Rules, versions and recipients
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.split_rules (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  scope text NOT NULL,
+  scope_id text NOT NULL,
+  name text,
+  current_version integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'active',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT split_rules_scope_check CHECK (scope IN ('product', 'creator')),
+  CONSTRAINT split_rules_status_check CHECK (status IN ('active', 'archived')),
+  CONSTRAINT split_rules_scope_unique UNIQUE (ledger_id, scope, scope_id)
+);
+
+COMMENT ON TABLE public.split_rules IS 'Multi-recipient waterfall split rules, scoped to a product or creator';
+COMMENT ON COLUMN public.split_rules.current_version IS 'Version applied to new sales; older versions stay for history';
+
+CREATE TABLE IF NOT EXISTS public.split_rule_versions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  split_rule_id uuid NOT NULL REFERENCES public.split_rules(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT split_rule_versions_version_check CHECK (version >= 1),
+  CONSTRAINT split_rule_versions_unique UNIQUE (split_rule_id, version)
+);
+
+COMMENT ON TABLE public.split_rule_versions IS 'Immutable snapshots of a split rule; sales reference the version they used';
+
+CREATE TABLE IF NOT EXISTS public.split_rule_recipients (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  split_rule_version_id uuid NOT NULL REFERENCES public.split_rule_versions(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  participant_id text NOT NULL,
+  role text NOT NULL DEFAULT 'co_creator',
+  percent numeric(5,2) NOT NULL DEFAULT 0,
+  fixed_amount bigint NOT NULL DEFAULT 0,
+  min_amount bigint,
+  max_amount bigint,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT split_rule_recipients_position_check CHECK (position >= 1),
+  CONSTRAINT split_rule_recipients_role_check CHECK (role IN ('creator', 'co_creator', 'affiliate', 'referral')),
+  CONSTRAINT split_rule_recipients_amounts_check CHECK (
+    percent >= 0 AND percent <= 100
+    AND fixed_amount >= 0
+    AND (min_amount IS NULL OR min_amount >= 0)
+    AND (max_amount IS NULL OR max_amount >= 0)
+    AND (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+  ),
+  CONSTRAINT split_rule_recipients_position_unique UNIQUE (split_rule_version_id, position)
+);
+
+COMMENT ON TABLE public.split_rule_recipients IS 'Recipients of a split rule version, paid in position order';
+COMMENT ON COLUMN public.split_rule_recipients.fixed_amount IS 'Minor units added on top of percent';
+COMMENT ON COLUMN public.split_rule_recipients.min_amount IS 'Floor in minor units, still limited by what is left of the net';
+
+CREATE INDEX IF NOT EXISTS idx_split_rule_versions_rule
+  ON public.split_rule_versions (split_rule_id, version DESC);
+
+CREATE INDEX IF NOT EXISTS idx_split_rule_recipients_participant
+  ON public.split_rule_recipients (ledger_id, participant_id);
+
+ALTER TABLE public.split_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.split_rule_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.split_rule_recipients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS split_rules_service_all ON public.split_rules;
+CREATE POLICY split_rules_service_all ON public.split_rules
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS split_rule_versions_service_all ON public.split_rule_versions;
+CREATE POLICY split_rule_versions_service_all ON public.split_rule_versions
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS split_rule_recipients_service_all ON public.split_rule_recipients;
+CREATE POLICY split_rule_recipients_service_all ON public.split_rule_recipients
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS split_rules_read_org_members ON public.split_rules;
+CREATE POLICY split_rules_read_org_members
+  ON public.split_rules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = split_rules.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS split_rule_versions_read_org_members ON public.split_rule_versions;
+CREATE POLICY split_rule_versions_read_org_members
+  ON public.split_rule_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = split_rule_versions.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS split_rule_recipients_read_org_members ON public.split_rule_recipients;
+CREATE POLICY split_rule_recipients_read_org_members
+  ON public.split_rule_recipients
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = split_rule_recipients.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. create_split_rule_version
+-- ============================================================
+-- Creates the rule on first use and appends a version with its recipients.
+-- The rule row is locked so concurrent edits get consecutive versions.
+-- p_recipients: [{position, participant_id, role, percent, fixed_amount,
+-- min_amount, max_amount}], already validated by the caller.
+CREATE OR REPLACE FUNCTION public.create_split_rule_version(
+  p_ledger_id uuid,
+  p_scope text,
+  p_scope_id text,
+  p_name text,
+  p_recipients jsonb
+)
+RETURNS TABLE(out_split_rule_id uuid, out_version_id uuid, out_version integer)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_rule_id UUID;
+  v_version INTEGER;
+  v_version_id UUID;
+BEGIN
+  IF jsonb_typeof(p_recipients) <> 'array' OR jsonb_array_length(p_recipients) = 0 THEN
+    RAISE EXCEPTION 'Split rule needs at least one recipient';
+  END IF;
+
+  INSERT INTO public.split_rules (ledger_id, scope, scope_id, name)
+  VALUES (p_ledger_id, p_scope, p_scope_id, p_name)
+  ON CONFLICT (ledger_id, scope, scope_id) DO NOTHING;
+
+  SELECT r.id, r.current_version + 1
+    INTO v_rule_id, v_version
+    FROM public.split_rules r
+   WHERE r.ledger_id = p_ledger_id
+     AND r.scope = p_scope
+     AND r.scope_id = p_scope_id
+   FOR UPDATE;
+
+  INSERT INTO public.split_rule_versions (ledger_id, split_rule_id, version)
+  VALUES (p_ledger_id, v_rule_id, v_version)
+  RETURNING id INTO v_version_id;
+
+  INSERT INTO public.split_rule_recipients (
+    ledger_id, split_rule_version_id, position, participant_id, role,
+    percent, fixed_amount, min_amount, max_amount
+  )
+  SELECT
+    p_ledger_id,
+    v_version_id,
+    (r->>'position')::integer,
+    r->>'participant_id',
+    COALESCE(r->>'role', 'co_creator'),
+    COALESCE((r->>'percent')::numeric, 0),
+    COALESCE((r->>'fixed_amount')::bigint, 0),
+    (r->>'min_amount')::bigint,
+    (r->>'max_amount')::bigint
+  FROM jsonb_array_elements(p_recipients) r;
+
+  UPDATE public.split_rules
+     SET current_version = v_version,
+         name = COALESCE(p_name, name),
+         status = 'active',
+         updated_at = NOW()
+   WHERE id = v_rule_id;
+
+  RETURN QUERY SELECT v_rule_id, v_version_id, v_version;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.create_split_rule_version(uuid, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_split_rule_version(uuid, text, text, text, jsonb) TO service_role;
+
+-- ============================================================
+-- 3. record_split_sale_atomic
+-- ============================================================
+-- Records the sale with record_sale_atomic and, in the same transaction,
+-- one transfer per non-selling recipient: debit platform_revenue, credit
+-- the recipient's creator_balance. p_platform_amount must include the
+-- recipients' shares. p_split_credits: [{position, participant_id, role,
+-- amount}] in minor units of the sale currency, converted at the sale's rate.
+--
+-- Every single-creator sale entry point posts through here when a split
+-- rule applies. Checkout carts are exempt: each line item already names its
+-- participant and price, and posts through record_checkout_line_item_sales.
+--
+-- Each credit posts under <reference>_split_<position>; a retry returns the
+-- credits already booked. A credit is withheld on like the seller's share in
+-- record_sale_atomic: chapter 3 at the recipient's NRA rate, otherwise
+-- backup withholding at 24% when the recipient requires it.
+CREATE OR REPLACE FUNCTION public.record_split_sale_atomic(
+  p_ledger_id uuid,
+  p_reference_id text,
+  p_creator_id text,
+  p_gross_amount bigint,
+  p_creator_amount bigint,
+  p_platform_amount bigint,
+  p_processing_fee bigint,
+  p_soledgic_fee bigint,
+  p_product_id text,
+  p_product_name text,
+  p_metadata jsonb,
+  p_split_rule_version_id uuid,
+  p_split_credits jsonb,
+  p_currency text DEFAULT NULL::text,
+  p_fx_rate numeric DEFAULT NULL::numeric,
+  p_sales_tax bigint DEFAULT 0,
+  p_entry_method text DEFAULT 'processor'::text
+)
+RETURNS TABLE(out_transaction_id uuid, out_creator_balance numeric, out_split_credits jsonb)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_sale RECORD;
+  v_version RECORD;
+  v_tx RECORD;
+  v_credit jsonb;
+  v_credits jsonb := '[]'::jsonb;
+  v_credit_total BIGINT := 0;
+  v_amount BIGINT;
+  v_amount_f NUMERIC(14,2);
+  v_recipient TEXT;
+  v_reference TEXT;
+  v_factor NUMERIC;
+  v_rate NUMERIC;
+  v_currency TEXT;
+  v_platform_account_id UUID;
+  v_recipient_account_id UUID;
+  v_recipient_is_active BOOLEAN;
+  v_split_tx_id UUID;
+  v_functional TEXT := public.ledger_functional_currency(p_ledger_id);
+  v_nra RECORD;
+  v_withholding_account_id UUID;
+  v_withheld BIGINT;
+  v_withheld_f NUMERIC(14,2);
+  v_backup RECORD;
+  v_backup_account_id UUID;
+  v_backup_withheld BIGINT;
+  v_backup_withheld_f NUMERIC(14,2);
+  v_net_f NUMERIC(14,2);
+BEGIN
+  SELECT sv.id, sv.split_rule_id, sv.version
+    INTO v_version
+    FROM public.split_rule_versions sv
+   WHERE sv.id = p_split_rule_version_id
+     AND sv.ledger_id = p_ledger_id;
+
+  IF v_version.id IS NULL THEN
+    RAISE EXCEPTION 'Split rule version % not found', p_split_rule_version_id;
+  END IF;
+
+  SELECT COALESCE(SUM((c->>'amount')::bigint), 0)
+    INTO v_credit_total
+    FROM jsonb_array_elements(COALESCE(p_split_credits, '[]'::jsonb)) c;
+
+  IF v_credit_total > p_platform_amount THEN
+    RAISE EXCEPTION 'Split credits (%) exceed platform amount (%)', v_credit_total, p_platform_amount;
+  END IF;
+
+  SELECT s.out_transaction_id, s.out_creator_balance
+    INTO v_sale
+    FROM public.record_sale_atomic(
+      p_ledger_id,
+      p_reference_id,
+      p_creator_id,
+      p_gross_amount,
+      p_creator_amount,
+      p_platform_amount,
+      p_processing_fee,
+      p_soledgic_fee,
+      p_product_id,
+      p_product_name,
+      COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object(
+        'split_rule_id', v_version.split_rule_id,
+        'split_rule_version_id', v_version.id,
+        'split_rule_version', v_version.version
+      ),
+      p_sales_tax,
+      p_entry_method,
+      p_currency,
+      p_fx_rate
+    ) s;
+
+  -- Credits convert exactly like the sale did
+  SELECT t.reference_id, t.original_currency, t.currency, t.fx_rate
+    INTO v_tx
+    FROM public.transactions t
+   WHERE t.id = v_sale.out_transaction_id;
+
+  v_currency := COALESCE(v_tx.original_currency, v_tx.currency);
+  v_factor := public.currency_minor_unit_factor(v_currency);
+  v_rate := COALESCE(v_tx.fx_rate, 1);
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  FOR v_credit IN
+    SELECT c FROM jsonb_array_elements(COALESCE(p_split_credits, '[]'::jsonb)) c
+    ORDER BY (c->>'position')::integer
+  LOOP
+    v_amount := (v_credit->>'amount')::bigint;
+    CONTINUE WHEN v_amount IS NULL OR v_amount <= 0;
+
+    v_recipient := v_credit->>'participant_id';
+    v_reference := p_reference_id || '_split_' || (v_credit->>'position');
+    v_amount_f := ROUND(v_amount / v_factor * v_rate, 2);
+
+    SELECT t.id INTO v_split_tx_id
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = v_reference;
+
+    IF v_split_tx_id IS NULL THEN
+      SELECT id, is_active INTO v_recipient_account_id, v_recipient_is_active
+      FROM public.accounts
+      WHERE ledger_id = p_ledger_id
+        AND account_type = 'creator_balance'
+        AND entity_id = v_recipient
+      FOR UPDATE;
+
+      IF v_recipient_account_id IS NOT NULL AND v_recipient_is_active = false THEN
+        RAISE EXCEPTION 'Creator % has been deleted', v_recipient;
+      END IF;
+
+      IF v_recipient_account_id IS NULL THEN
+        INSERT INTO public.accounts (
+          ledger_id, account_type, entity_id, entity_type, name, currency
+        ) VALUES (
+          p_ledger_id, 'creator_balance', v_recipient, 'creator', 'Creator ' || v_recipient,
+          v_functional
+        )
+        RETURNING id INTO v_recipient_account_id;
+      END IF;
+
+      v_withheld := 0;
+      v_withheld_f := 0;
+      v_backup_withheld := 0;
+      v_backup_withheld_f := 0;
+      v_net_f := v_amount_f;
+
+      SELECT * INTO v_nra
+      FROM public.get_nra_withholding_rate(p_ledger_id, v_recipient);
+
+      IF v_nra.rate_bps IS NOT NULL AND v_nra.rate_bps > 0 THEN
+        v_withheld := ROUND(v_amount * v_nra.rate_bps / 10000.0);
+        v_withheld_f := LEAST(ROUND(v_withheld / v_factor * v_rate, 2), v_net_f);
+        v_net_f := v_net_f - v_withheld_f;
+      END IF;
+
+      IF v_withheld = 0 THEN
+        SELECT * INTO v_backup
+        FROM public.refresh_backup_withholding_state(p_ledger_id, v_recipient);
+
+        IF v_backup.out_status <> 'not_required' THEN
+          v_backup_withheld := ROUND(v_amount * 2400 / 10000.0);
+          v_backup_withheld_f := LEAST(ROUND(v_backup_withheld / v_factor * v_rate, 2), v_net_f);
+          v_net_f := v_net_f - v_backup_withheld_f;
+        END IF;
+      END IF;
+
+      IF v_withheld > 0 THEN
+        SELECT id INTO v_withholding_account_id
+        FROM public.accounts
+        WHERE ledger_id = p_ledger_id
+          AND account_type = 'withholding_tax_payable'
+          AND entity_id = 'nra'
+        LIMIT 1;
+
+        IF v_withholding_account_id IS NULL THEN
+          INSERT INTO public.accounts (
+            ledger_id, account_type, entity_id, entity_type, name, currency
+          ) VALUES (
+            p_ledger_id, 'withholding_tax_payable', 'nra', 'tax_authority',
+            'NRA Withholding Payable', v_functional
+          )
+          RETURNING id INTO v_withholding_account_id;
+        END IF;
+      END IF;
+
+      IF v_backup_withheld > 0 THEN
+        SELECT id INTO v_backup_account_id
+        FROM public.accounts
+        WHERE ledger_id = p_ledger_id
+          AND account_type = 'withholding_tax_payable'
+          AND entity_id = 'backup'
+        LIMIT 1;
+
+        IF v_backup_account_id IS NULL THEN
+          INSERT INTO public.accounts (
+            ledger_id, account_type, entity_id, entity_type, name, currency
+          ) VALUES (
+            p_ledger_id, 'withholding_tax_payable', 'backup', 'tax_authority',
+            'Backup Withholding Payable', v_functional
+          )
+          RETURNING id INTO v_backup_account_id;
+        END IF;
+
+        UPDATE public.backup_withholding_states
+           SET withheld_earnings = withheld_earnings + v_net_f,
+               updated_at = NOW()
+         WHERE ledger_id = p_ledger_id
+           AND entity_id = v_recipient;
+      END IF;
+
+      INSERT INTO public.transactions (
+        ledger_id, transaction_type, reference_id, reference_type,
+        description, amount, currency, status, entry_method, metadata,
+        original_currency, original_amount, fx_rate
+      ) VALUES (
+        p_ledger_id, 'transfer', v_reference, 'split',
+        'Split of sale ' || v_tx.reference_id || ' to ' || v_recipient,
+        v_amount_f, v_tx.currency, 'completed', 'system',
+        jsonb_build_object(
+          'parent_transaction_id', v_sale.out_transaction_id,
+          'creator_id', v_recipient,
+          'split_rule_id', v_version.split_rule_id,
+          'split_rule_version_id', v_version.id,
+          'split_rule_version', v_version.version,
+          'split_position', (v_credit->>'position')::integer,
+          'split_role', v_credit->>'role',
+          'amount_cents', v_amount,
+          'nra_withholding_cents', v_withheld,
+          'backup_withholding_cents', v_backup_withheld
+        ) || CASE WHEN v_withheld > 0 THEN jsonb_build_object(
+          'nra_withholding', jsonb_build_object(
+            'rate_bps', v_nra.rate_bps,
+            'reason', v_nra.reason,
+            'form_type', v_nra.form_type,
+            'treaty_country', v_nra.treaty_country,
+            'submission_id', v_nra.submission_id,
+            'amount_cents', v_withheld
+          )
+        ) ELSE '{}'::jsonb END || CASE WHEN v_backup_withheld > 0 THEN jsonb_build_object(
+          'backup_withholding', jsonb_build_object(
+            'rate_bps', 2400,
+            'reason', v_backup.out_status,
+            'notice_id', v_backup.out_notice_id,
+            'amount_cents', v_backup_withheld
+          )
+        ) ELSE '{}'::jsonb END,
+        v_tx.original_currency,
+        CASE WHEN v_tx.original_currency IS NOT NULL THEN v_amount / v_factor ELSE NULL END,
+        v_tx.fx_rate
+      )
+      RETURNING id INTO v_split_tx_id;
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+      VALUES (v_split_tx_id, v_platform_account_id, 'debit', v_amount_f, v_currency, v_amount / v_factor);
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+      VALUES (v_split_tx_id, v_recipient_account_id, 'credit', v_net_f, v_currency, (v_amount - v_withheld - v_backup_withheld) / v_factor);
+
+      IF v_withheld > 0 THEN
+        INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+        VALUES (v_split_tx_id, v_withholding_account_id, 'credit', v_withheld_f, v_currency, v_withheld / v_factor);
+      END IF;
+
+      IF v_backup_withheld > 0 THEN
+        INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency, original_amount)
+        VALUES (v_split_tx_id, v_backup_account_id, 'credit', v_backup_withheld_f, v_currency, v_backup_withheld / v_factor);
+      END IF;
+    ELSE
+      SELECT COALESCE((t.metadata->>'nra_withholding_cents')::bigint, 0)
+           + COALESCE((t.metadata->>'backup_withholding_cents')::bigint, 0)
+        INTO v_withheld
+        FROM public.transactions t
+       WHERE t.id = v_split_tx_id;
+      v_backup_withheld := 0;
+    END IF;
+
+    v_credits := v_credits || jsonb_build_array(jsonb_build_object(
+      'position', (v_credit->>'position')::integer,
+      'participant_id', v_recipient,
+      'role', v_credit->>'role',
+      'amount', v_amount,
+      'withheld', v_withheld + v_backup_withheld,
+      'transaction_id', v_split_tx_id
+    ));
+  END LOOP;
+
+  RETURN QUERY SELECT v_sale.out_transaction_id, v_sale.out_creator_balance, v_credits;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.record_split_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, uuid, jsonb, text, numeric, bigint, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_split_sale_atomic(uuid, text, text, bigint, bigint, bigint, bigint, bigint, text, text, jsonb, uuid, jsonb, text, numeric, bigint, text) TO service_role;
+
+-- ============================================================
+-- 4. calculate_1099_form_totals: split credits
+-- ============================================================
+-- Unchanged from 20260421_backup_withholding except that split credits
+-- (transfers carrying split_rule_version_id) count as payments to the
+-- recipient alongside its own sales.
+CREATE OR REPLACE FUNCTION public.calculate_1099_form_totals(
+  p_ledger_id uuid,
+  p_creator_id text,
+  p_tax_year integer
+)
+ RETURNS TABLE(
+   payment_category      text,
+   form_type             text,
+   form_box              text,
+   gross_payments        numeric,
+   transaction_count     integer,
+   monthly_totals        jsonb,
+   amount_threshold      numeric,
+   transaction_threshold integer,
+   meets_threshold       boolean,
+   backup_withheld       numeric
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_default_category text;
+BEGIN
+  SELECT COALESCE(NULLIF(l.settings->>'tax_payment_category', ''), 'nonemployee_compensation')
+    INTO v_default_category
+    FROM public.ledgers l
+   WHERE l.id = p_ledger_id;
+
+  RETURN QUERY
+  WITH thresholds AS (
+    SELECT * FROM public.get_tax_form_thresholds(p_tax_year)
+  ),
+  credits AS (
+    SELECT
+      COALESCE(
+        NULLIF(t.metadata->>'payment_category', ''),
+        NULLIF(a.metadata->>'payment_category', ''),
+        v_default_category,
+        'nonemployee_compensation'
+      ) AS category,
+      EXTRACT(MONTH FROM t.created_at)::integer AS month,
+      e.amount + COALESCE(bw.amount, 0) AS amount,
+      COALESCE(bw.amount, 0) AS withheld
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+    JOIN public.accounts a ON a.id = e.account_id
+    -- Backup withholding is part of the payment reported in the box
+    LEFT JOIN LATERAL (
+      SELECT SUM(we.amount) AS amount
+      FROM public.entries we
+      JOIN public.accounts wa ON wa.id = we.account_id
+      WHERE we.transaction_id = t.id
+        AND we.entry_type = 'credit'
+        AND wa.account_type = 'withholding_tax_payable'
+        AND wa.entity_id = 'backup'
+    ) bw ON true
+    WHERE a.ledger_id = p_ledger_id
+      AND a.account_type = 'creator_balance'
+      AND a.entity_id = p_creator_id
+      AND e.entry_type = 'credit'
+      AND (
+        t.transaction_type = 'sale'
+        OR (t.transaction_type = 'transfer' AND t.metadata ? 'split_rule_version_id')
+      )
+      AND t.status NOT IN ('voided', 'reversed')
+      AND EXTRACT(YEAR FROM t.created_at)::integer = p_tax_year
+  ),
+  -- Unknown categories fall back to 1099-NEC rather than going unreported.
+  categorized AS (
+    SELECT
+      CASE WHEN th.payment_category IS NULL THEN 'nonemployee_compensation' ELSE c.category END AS category,
+      c.month,
+      c.amount,
+      c.withheld
+    FROM credits c
+    LEFT JOIN thresholds th ON th.payment_category = c.category
+  ),
+  monthly AS (
+    SELECT cz.category, cz.month, SUM(cz.amount) AS amount
+    FROM categorized cz
+    GROUP BY cz.category, cz.month
+  ),
+  totals AS (
+    SELECT
+      cz.category,
+      SUM(cz.amount)::numeric(14,2) AS gross,
+      SUM(cz.withheld)::numeric(14,2) AS withheld,
+      COUNT(*)::integer AS cnt
+    FROM categorized cz
+    GROUP BY cz.category
+  )
+  SELECT
+    tt.category,
+    th.form_type,
+    th.form_box,
+    tt.gross,
+    tt.cnt,
+    COALESCE((
+      SELECT jsonb_object_agg(
+        (ARRAY['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'])[m.month],
+        m.amount
+      )
+      FROM monthly m
+      WHERE m.category = tt.category
+    ), '{}'::jsonb),
+    th.amount_threshold,
+    th.transaction_threshold,
+    -- Any backup withholding makes the form reportable regardless of amount
+    tt.withheld > 0 OR CASE
+      WHEN th.transaction_threshold IS NOT NULL
+        THEN tt.gross > th.amount_threshold AND tt.cnt > th.transaction_threshold
+      ELSE tt.gross >= th.amount_threshold
+    END,
+    tt.withheld
+  FROM totals tt
+  JOIN thresholds th ON th.payment_category = tt.category
+  ORDER BY th.form_type, th.form_box;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.calculate_1099_form_totals(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_1099_form_totals(uuid, text, integer) TO service_role;
+
+-- ============================================================
+-- 5. 1042-S generation: split credits
+-- ============================================================
+-- Unchanged from 20260420_w8_nra_withholding except that split credits
+-- (transfers carrying split_rule_version_id) count as income to the
+-- recipient alongside its own sales.
+CREATE OR REPLACE FUNCTION public.generate_1042s_documents(p_ledger_id uuid, p_tax_year integer)
+ RETURNS TABLE(documents_created integer, total_amount numeric, total_withheld numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_income_code INTEGER;
+  v_recipient RECORD;
+  v_created INTEGER := 0;
+  v_total NUMERIC(14,2) := 0;
+  v_withheld_total NUMERIC(14,2) := 0;
+  v_rate NUMERIC(5,2);
+BEGIN
+  SELECT COALESCE(NULLIF(l.settings->>'nra_income_code', '')::integer, 17)
+    INTO v_income_code
+    FROM public.ledgers l
+   WHERE l.id = p_ledger_id;
+
+  FOR v_recipient IN
+    WITH sales AS (
+      SELECT
+        t.id,
+        t.metadata->>'creator_id' AS creator_id,
+        t.metadata->'nra_withholding' AS nra,
+        EXTRACT(MONTH FROM t.created_at)::integer AS month
+      FROM public.transactions t
+      WHERE t.ledger_id = p_ledger_id
+        AND (
+          t.transaction_type = 'sale'
+          OR (t.transaction_type = 'transfer' AND t.metadata ? 'split_rule_version_id')
+        )
+        AND t.status NOT IN ('voided', 'reversed')
+        AND EXTRACT(YEAR FROM t.created_at)::integer = p_tax_year
+    ),
+    lines AS (
+      SELECT
+        s.creator_id,
+        s.nra,
+        SUM(CASE WHEN a.account_type = 'creator_balance' THEN e.amount ELSE 0 END) AS net,
+        SUM(CASE WHEN a.account_type = 'withholding_tax_payable' THEN e.amount ELSE 0 END) AS withheld
+      FROM sales s
+      JOIN public.entries e ON e.transaction_id = s.id AND e.entry_type = 'credit'
+      JOIN public.accounts a ON a.id = e.account_id
+      WHERE (a.account_type = 'creator_balance' AND a.entity_id = s.creator_id)
+         OR (a.account_type = 'withholding_tax_payable' AND a.entity_id = 'nra')
+      GROUP BY s.id, s.creator_id, s.nra
+    ),
+    foreign_creators AS (
+      SELECT sub.entity_id AS creator_id, sub.form_type, sub.treaty_country,
+             sub.citizenship_country, sub.address_country, sub.business_type
+        FROM public.tax_info_submissions sub
+       WHERE sub.ledger_id = p_ledger_id
+         AND sub.status = 'active'
+         AND sub.form_type IN ('W-8BEN', 'W-8BEN-E')
+    )
+    SELECT
+      l.creator_id,
+      SUM(l.net + l.withheld)::numeric(14,2) AS gross,
+      SUM(l.withheld)::numeric(14,2) AS withheld,
+      COUNT(*)::integer AS cnt,
+      COALESCE(jsonb_agg(DISTINCT (l.nra->>'rate_bps')::integer) FILTER (WHERE l.nra IS NOT NULL), '[]'::jsonb) AS rates,
+      MAX(fc.form_type) AS form_type,
+      MAX(COALESCE(fc.treaty_country, l.nra->>'treaty_country')) AS treaty_country,
+      MAX(COALESCE(fc.citizenship_country, fc.address_country)) AS recipient_country,
+      MAX(fc.business_type) AS business_type
+    FROM lines l
+    LEFT JOIN foreign_creators fc ON fc.creator_id = l.creator_id
+    WHERE l.creator_id IS NOT NULL
+    GROUP BY l.creator_id
+    HAVING bool_or(fc.creator_id IS NOT NULL) OR SUM(l.withheld) > 0
+  LOOP
+    IF v_recipient.gross <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    v_rate := ROUND(v_recipient.withheld / v_recipient.gross * 100, 2);
+
+    INSERT INTO public.tax_documents (
+      ledger_id, document_type, tax_year, recipient_type, recipient_id,
+      gross_amount, federal_withholding, transaction_count, form_boxes, metadata, status
+    ) VALUES (
+      p_ledger_id, '1042-S', p_tax_year, 'creator', v_recipient.creator_id,
+      v_recipient.gross, v_recipient.withheld, v_recipient.cnt,
+      jsonb_build_object(
+        '1', v_income_code,
+        '2', v_recipient.gross,
+        '3', 3,
+        '3a', CASE WHEN v_recipient.withheld = 0 AND v_recipient.treaty_country IS NOT NULL THEN 4 ELSE 0 END,
+        '3b', v_rate
+      ),
+      jsonb_build_object(
+        'chapter', 3,
+        'income_code', lpad(v_income_code::text, 2, '0'),
+        'withholding_rates_bps', v_recipient.rates,
+        'w8_form_type', v_recipient.form_type,
+        'treaty_country', v_recipient.treaty_country,
+        'recipient_country', v_recipient.recipient_country,
+        'business_type', v_recipient.business_type
+      ),
+      'calculated'
+    )
+    ON CONFLICT (ledger_id, document_type, tax_year, recipient_id)
+    DO UPDATE SET
+      gross_amount = EXCLUDED.gross_amount,
+      federal_withholding = EXCLUDED.federal_withholding,
+      transaction_count = EXCLUDED.transaction_count,
+      form_boxes = EXCLUDED.form_boxes,
+      metadata = public.tax_documents.metadata || EXCLUDED.metadata,
+      updated_at = NOW();
+
+    v_created := v_created + 1;
+    v_total := v_total + v_recipient.gross;
+    v_withheld_total := v_withheld_total + v_recipient.withheld;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, v_total, v_withheld_total;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.generate_1042s_documents(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_1042s_documents(uuid, integer) TO service_role;
@@ -0,0 +1,566 @@
+-- Referral / affiliate commissions.
+-- A referral attribution pays a referrer commission_percent of the
+-- platform's share of every sale or credit redemption by the referred
+-- creator or customer between starts_at and ends_at. Commissions are
+-- transfers out of platform_revenue into the referrer's creator_balance,
+-- so referrers are ordinary participants paid out through the usual flow.
+--
+-- Refunds reverse commissions in proportion to the amount refunded.
+
+-- ============================================================
+-- 1. Attributions and commissions
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.referral_attributions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  referrer_id text NOT NULL,
+  referred_type text NOT NULL,
+  referred_id text NOT NULL,
+  commission_percent numeric(5,2) NOT NULL,
+  starts_at timestamptz NOT NULL DEFAULT now(),
+  ends_at timestamptz,
+  status text NOT NULL DEFAULT 'active',
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT referral_attributions_referred_type_check CHECK (referred_type IN ('creator', 'customer')),
+  CONSTRAINT referral_attributions_percent_check CHECK (commission_percent > 0 AND commission_percent <= 100),
+  CONSTRAINT referral_attributions_window_check CHECK (ends_at IS NULL OR ends_at >= starts_at),
+  CONSTRAINT referral_attributions_status_check CHECK (status IN ('active', 'ended')),
+  CONSTRAINT referral_attributions_self_check CHECK (NOT (referred_type = 'creator' AND referred_id = referrer_id))
+);
+
+COMMENT ON TABLE public.referral_attributions IS 'Referrer earns commission_percent of the platform share on the referred party''s revenue within the window';
+COMMENT ON COLUMN public.referral_attributions.referred_id IS 'Creator id, or the buyer_id / credits user_id of a referred customer';
+
+CREATE INDEX IF NOT EXISTS idx_referral_attributions_referred
+  ON public.referral_attributions (ledger_id, referred_type, referred_id)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_referral_attributions_referrer
+  ON public.referral_attributions (ledger_id, referrer_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.referral_commissions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  attribution_id uuid NOT NULL REFERENCES public.referral_attributions(id) ON DELETE CASCADE,
+  referrer_id text NOT NULL,
+  source_transaction_id uuid NOT NULL REFERENCES public.transactions(id),
+  commission_transaction_id uuid NOT NULL REFERENCES public.transactions(id),
+  base_amount numeric(14,2) NOT NULL,
+  amount numeric(14,2) NOT NULL,
+  reversed_amount numeric(14,2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT referral_commissions_amounts_check CHECK (
+    amount > 0 AND reversed_amount >= 0 AND reversed_amount <= amount
+  ),
+  CONSTRAINT referral_commissions_source_unique UNIQUE (attribution_id, source_transaction_id)
+);
+
+COMMENT ON TABLE public.referral_commissions IS 'One commission per attribution per sale or credit redemption';
+COMMENT ON COLUMN public.referral_commissions.base_amount IS 'Platform share the commission was computed on, after split-rule credits';
+
+CREATE INDEX IF NOT EXISTS idx_referral_commissions_source
+  ON public.referral_commissions (ledger_id, source_transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_referral_commissions_attribution
+  ON public.referral_commissions (attribution_id, created_at DESC);
+
+ALTER TABLE public.referral_attributions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.referral_commissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS referral_attributions_service_all ON public.referral_attributions;
+CREATE POLICY referral_attributions_service_all ON public.referral_attributions
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS referral_commissions_service_all ON public.referral_commissions;
+CREATE POLICY referral_commissions_service_all ON public.referral_commissions
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS referral_attributions_read_org_members ON public.referral_attributions;
+CREATE POLICY referral_attributions_read_org_members
+  ON public.referral_attributions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = referral_attributions.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS referral_commissions_read_org_members ON public.referral_commissions;
+CREATE POLICY referral_commissions_read_org_members
+  ON public.referral_commissions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = referral_commissions.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. post_referral_commissions
+-- ============================================================
+-- Posts the commissions owed on one sale or credit redemption. The base is
+-- the platform_revenue credited by the transaction less any split-rule
+-- credits already paid out of it; commissions never exceed that base.
+-- Safe to re-run: an attribution is paid at most once per transaction.
+CREATE OR REPLACE FUNCTION public.post_referral_commissions(
+  p_ledger_id uuid,
+  p_transaction_id uuid
+)
+RETURNS TABLE(out_commission_id uuid, out_attribution_id uuid, out_referrer_id text, out_transaction_id uuid, out_amount numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_source RECORD;
+  v_attr RECORD;
+  v_existing RECORD;
+  v_creator TEXT;
+  v_buyer TEXT;
+  v_currency TEXT;
+  v_platform_account_id UUID;
+  v_referrer_account_id UUID;
+  v_referrer_is_active BOOLEAN;
+  v_base NUMERIC(14,2);
+  v_split_credits NUMERIC(14,2);
+  v_remaining NUMERIC(14,2);
+  v_amount NUMERIC(14,2);
+  v_tx_id UUID;
+  v_commission_id UUID;
+BEGIN
+  SELECT t.id, t.reference_id, t.transaction_type, t.currency, t.status, t.metadata, t.created_at
+    INTO v_source
+    FROM public.transactions t
+   WHERE t.id = p_transaction_id
+     AND t.ledger_id = p_ledger_id;
+
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF v_source.transaction_type NOT IN ('sale', 'credit_redemption') THEN
+    RAISE EXCEPTION 'Referral commissions apply to sales and credit redemptions, not %', v_source.transaction_type;
+  END IF;
+
+  IF v_source.status IN ('voided', 'reversed') THEN
+    RETURN;
+  END IF;
+
+  v_creator := v_source.metadata->>'creator_id';
+  v_buyer := COALESCE(v_source.metadata->>'buyer_id', v_source.metadata->>'user_id');
+  v_currency := COALESCE(v_source.currency, public.ledger_functional_currency(p_ledger_id));
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  IF v_platform_account_id IS NULL THEN
+    RAISE EXCEPTION 'Platform revenue account not initialized for ledger %', p_ledger_id;
+  END IF;
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_base
+    FROM public.entries e
+   WHERE e.transaction_id = v_source.id
+     AND e.account_id = v_platform_account_id
+     AND e.entry_type = 'credit';
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_split_credits
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+   WHERE t.ledger_id = p_ledger_id
+     AND t.metadata->>'parent_transaction_id' = v_source.id::text
+     AND t.metadata ? 'split_rule_version_id'
+     AND e.account_id = v_platform_account_id
+     AND e.entry_type = 'debit';
+
+  v_base := GREATEST(v_base - v_split_credits, 0);
+  v_remaining := v_base;
+
+  FOR v_attr IN
+    SELECT a.*
+      FROM public.referral_attributions a
+     WHERE a.ledger_id = p_ledger_id
+       AND a.status = 'active'
+       AND (
+         (a.referred_type = 'creator' AND a.referred_id = v_creator)
+         OR (a.referred_type = 'customer' AND a.referred_id = v_buyer)
+       )
+       AND a.starts_at <= v_source.created_at
+       AND (a.ends_at IS NULL OR a.ends_at > v_source.created_at)
+     ORDER BY a.created_at, a.id
+  LOOP
+    SELECT c.id, c.commission_transaction_id, c.amount
+      INTO v_existing
+      FROM public.referral_commissions c
+     WHERE c.attribution_id = v_attr.id
+       AND c.source_transaction_id = v_source.id;
+
+    IF v_existing.id IS NOT NULL THEN
+      v_remaining := v_remaining - v_existing.amount;
+      out_commission_id := v_existing.id;
+      out_attribution_id := v_attr.id;
+      out_referrer_id := v_attr.referrer_id;
+      out_transaction_id := v_existing.commission_transaction_id;
+      out_amount := v_existing.amount;
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    v_amount := LEAST(ROUND(v_base * v_attr.commission_percent / 100, 2), v_remaining);
+    CONTINUE WHEN v_amount <= 0;
+
+    SELECT id, is_active INTO v_referrer_account_id, v_referrer_is_active
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'creator_balance'
+      AND entity_id = v_attr.referrer_id
+    FOR UPDATE;
+
+    -- A deleted referrer earns nothing further; the platform keeps the share
+    CONTINUE WHEN v_referrer_account_id IS NOT NULL AND v_referrer_is_active = false;
+
+    IF v_referrer_account_id IS NULL THEN
+      INSERT INTO public.accounts (
+        ledger_id, account_type, entity_id, entity_type, name, currency
+      ) VALUES (
+        p_ledger_id, 'creator_balance', v_attr.referrer_id, 'creator', 'Creator ' || v_attr.referrer_id,
+        public.ledger_functional_currency(p_ledger_id)
+      )
+      RETURNING id INTO v_referrer_account_id;
+    END IF;
+
+    INSERT INTO public.transactions (
+      ledger_id, transaction_type, reference_id, reference_type,
+      description, amount, currency, status, entry_method, metadata
+    ) VALUES (
+      p_ledger_id, 'transfer',
+      COALESCE(v_source.reference_id, v_source.id::text) || '_referral_' || LEFT(v_attr.id::text, 8),
+      'referral',
+      'Referral commission on ' || COALESCE(v_source.reference_id, v_source.id::text) || ' to ' || v_attr.referrer_id,
+      v_amount, v_currency, 'completed', 'system',
+      jsonb_build_object(
+        'parent_transaction_id', v_source.id,
+        'creator_id', v_attr.referrer_id,
+        'referral_attribution_id', v_attr.id,
+        'referred_type', v_attr.referred_type,
+        'referred_id', v_attr.referred_id,
+        'commission_percent', v_attr.commission_percent,
+        'commission_base', v_base
+      )
+    )
+    RETURNING id INTO v_tx_id;
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_platform_account_id, 'debit', v_amount, v_currency);
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_referrer_account_id, 'credit', v_amount, v_currency);
+
+    INSERT INTO public.referral_commissions (
+      ledger_id, attribution_id, referrer_id, source_transaction_id,
+      commission_transaction_id, base_amount, amount
+    ) VALUES (
+      p_ledger_id, v_attr.id, v_attr.referrer_id, v_source.id, v_tx_id, v_base, v_amount
+    )
+    RETURNING id INTO v_commission_id;
+
+    v_remaining := v_remaining - v_amount;
+
+    out_commission_id := v_commission_id;
+    out_attribution_id := v_attr.id;
+    out_referrer_id := v_attr.referrer_id;
+    out_transaction_id := v_tx_id;
+    out_amount := v_amount;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.post_referral_commissions(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_referral_commissions(uuid, uuid) TO service_role;
+
+-- ============================================================
+-- 3. reverse_referral_commissions
+-- ============================================================
+-- Claws back commissions on the sale a refund reverses, in proportion to
+-- refund / sale amount. Once the sale is fully refunded whatever is left of
+-- each commission is reversed, so rounding never strands a cent. Each
+-- reversal debits the referrer (which may take the balance negative if the
+-- commission was already paid out) and credits platform_revenue.
+CREATE OR REPLACE FUNCTION public.reverse_referral_commissions(
+  p_ledger_id uuid,
+  p_refund_transaction_id uuid
+)
+RETURNS TABLE(out_commission_id uuid, out_referrer_id text, out_transaction_id uuid, out_commission_transaction_id uuid, out_amount numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_refund RECORD;
+  v_source RECORD;
+  v_commission RECORD;
+  v_refunded_total NUMERIC(14,2);
+  v_ratio NUMERIC;
+  v_fully_refunded BOOLEAN;
+  v_reference TEXT;
+  v_amount NUMERIC(14,2);
+  v_platform_account_id UUID;
+  v_referrer_account_id UUID;
+  v_tx_id UUID;
+BEGIN
+  SELECT t.id, t.reverses, t.amount
+    INTO v_refund
+    FROM public.transactions t
+   WHERE t.id = p_refund_transaction_id
+     AND t.ledger_id = p_ledger_id
+     AND t.transaction_type = 'refund';
+
+  IF v_refund.id IS NULL OR v_refund.reverses IS NULL THEN
+    RAISE EXCEPTION 'Refund % not found', p_refund_transaction_id;
+  END IF;
+
+  SELECT t.id, t.amount, t.currency INTO v_source
+    FROM public.transactions t
+   WHERE t.id = v_refund.reverses;
+
+  IF v_source.amount IS NULL OR v_source.amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(t.amount), 0) INTO v_refunded_total
+    FROM public.transactions t
+   WHERE t.ledger_id = p_ledger_id
+     AND t.reverses = v_source.id
+     AND t.transaction_type = 'refund'
+     AND t.status NOT IN ('voided', 'reversed');
+
+  v_fully_refunded := v_refunded_total >= v_source.amount;
+  v_ratio := LEAST(v_refund.amount / v_source.amount, 1);
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  FOR v_commission IN
+    SELECT c.*
+      FROM public.referral_commissions c
+     WHERE c.ledger_id = p_ledger_id
+       AND c.source_transaction_id = v_source.id
+     ORDER BY c.created_at, c.id
+     FOR UPDATE
+  LOOP
+    v_reference := 'referral_reversal_' || v_commission.id || '_' || v_refund.id;
+
+    SELECT t.id, t.amount INTO v_tx_id, v_amount
+      FROM public.transactions t
+     WHERE t.ledger_id = p_ledger_id
+       AND t.reference_id = v_reference;
+
+    IF v_tx_id IS NULL THEN
+      v_amount := v_commission.amount - v_commission.reversed_amount;
+      IF NOT v_fully_refunded THEN
+        v_amount := LEAST(ROUND(v_commission.amount * v_ratio, 2), v_amount);
+      END IF;
+      CONTINUE WHEN v_amount <= 0;
+
+      SELECT id INTO v_referrer_account_id
+      FROM public.accounts
+      WHERE ledger_id = p_ledger_id
+        AND account_type = 'creator_balance'
+        AND entity_id = v_commission.referrer_id
+      FOR UPDATE;
+
+      INSERT INTO public.transactions (
+        ledger_id, transaction_type, reference_id, reference_type,
+        description, amount, currency, status, entry_method, reverses, metadata
+      ) VALUES (
+        p_ledger_id, 'transfer', v_reference, 'referral',
+        'Referral commission reversal to ' || v_commission.referrer_id,
+        v_amount, COALESCE(v_source.currency, public.ledger_functional_currency(p_ledger_id)),
+        'completed', 'system', v_commission.commission_transaction_id,
+        jsonb_build_object(
+          'creator_id', v_commission.referrer_id,
+          'referral_commission_id', v_commission.id,
+          'referral_attribution_id', v_commission.attribution_id,
+          'refund_transaction_id', v_refund.id,
+          'refund_ratio', ROUND(v_ratio, 6)
+        )
+      )
+      RETURNING id INTO v_tx_id;
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      VALUES (v_tx_id, v_referrer_account_id, 'debit', v_amount, COALESCE(v_source.currency, public.ledger_functional_currency(p_ledger_id)));
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      VALUES (v_tx_id, v_platform_account_id, 'credit', v_amount, COALESCE(v_source.currency, public.ledger_functional_currency(p_ledger_id)));
+
+      UPDATE public.referral_commissions
+         SET reversed_amount = reversed_amount + v_amount,
+             updated_at = NOW()
+       WHERE id = v_commission.id;
+    END IF;
+
+    out_commission_id := v_commission.id;
+    out_referrer_id := v_commission.referrer_id;
+    out_transaction_id := v_tx_id;
+    out_commission_transaction_id := v_commission.commission_transaction_id;
+    out_amount := v_amount;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.reverse_referral_commissions(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_referral_commissions(uuid, uuid) TO service_role;
+
+-- ============================================================
+-- 4. calculate_1099_form_totals: referral commissions
+-- ============================================================
+-- Unchanged from 20260423_split_rules except that referral commissions
+-- count as payments to the referrer alongside sales and split credits.
+CREATE OR REPLACE FUNCTION public.calculate_1099_form_totals(
+  p_ledger_id uuid,
+  p_creator_id text,
+  p_tax_year integer
+)
+ RETURNS TABLE(
+   payment_category      text,
+   form_type             text,
+   form_box              text,
+   gross_payments        numeric,
+   transaction_count     integer,
+   monthly_totals        jsonb,
+   amount_threshold      numeric,
+   transaction_threshold integer,
+   meets_threshold       boolean,
+   backup_withheld       numeric
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO ''
+AS $function$
+DECLARE
+  v_default_category text;
+BEGIN
+  SELECT COALESCE(NULLIF(l.settings->>'tax_payment_category', ''), 'nonemployee_compensation')
+    INTO v_default_category
+    FROM public.ledgers l
+   WHERE l.id = p_ledger_id;
+
+  RETURN QUERY
+  WITH thresholds AS (
+    SELECT * FROM public.get_tax_form_thresholds(p_tax_year)
+  ),
+  credits AS (
+    SELECT
+      COALESCE(
+        NULLIF(t.metadata->>'payment_category', ''),
+        NULLIF(a.metadata->>'payment_category', ''),
+        v_default_category,
+        'nonemployee_compensation'
+      ) AS category,
+      EXTRACT(MONTH FROM t.created_at)::integer AS month,
+      e.amount + COALESCE(bw.amount, 0) AS amount,
+      COALESCE(bw.amount, 0) AS withheld
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+    JOIN public.accounts a ON a.id = e.account_id
+    -- Backup withholding is part of the payment reported in the box
+    LEFT JOIN LATERAL (
+      SELECT SUM(we.amount) AS amount
+      FROM public.entries we
+      JOIN public.accounts wa ON wa.id = we.account_id
+      WHERE we.transaction_id = t.id
+        AND we.entry_type = 'credit'
+        AND wa.account_type = 'withholding_tax_payable'
+        AND wa.entity_id = 'backup'
+    ) bw ON true
+    WHERE a.ledger_id = p_ledger_id
+      AND a.account_type = 'creator_balance'
+      AND a.entity_id = p_creator_id
+      AND e.entry_type = 'credit'
+      AND (
+        t.transaction_type = 'sale'
+        OR (
+          t.transaction_type = 'transfer'
+          AND (t.metadata ? 'split_rule_version_id' OR t.metadata ? 'referral_attribution_id')
+        )
+      )
+      AND t.status NOT IN ('voided', 'reversed')
+      AND EXTRACT(YEAR FROM t.created_at)::integer = p_tax_year
+  ),
+  -- Unknown categories fall back to 1099-NEC rather than going unreported.
+  categorized AS (
+    SELECT
+      CASE WHEN th.payment_category IS NULL THEN 'nonemployee_compensation' ELSE c.category END AS category,
+      c.month,
+      c.amount,
+      c.withheld
+    FROM credits c
+    LEFT JOIN thresholds th ON th.payment_category = c.category
+  ),
+  monthly AS (
+    SELECT cz.category, cz.month, SUM(cz.amount) AS amount
+    FROM categorized cz
+    GROUP BY cz.category, cz.month
+  ),
+  totals AS (
+    SELECT
+      cz.category,
+      SUM(cz.amount)::numeric(14,2) AS gross,
+      SUM(cz.withheld)::numeric(14,2) AS withheld,
+      COUNT(*)::integer AS cnt
+    FROM categorized cz
+    GROUP BY cz.category
+  )
+  SELECT
+    tt.category,
+    th.form_type,
+    th.form_box,
+    tt.gross,
+    tt.cnt,
+    COALESCE((
+      SELECT jsonb_object_agg(
+        (ARRAY['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'])[m.month],
+        m.amount
+      )
+      FROM monthly m
+      WHERE m.category = tt.category
+    ), '{}'::jsonb),
+    th.amount_threshold,
+    th.transaction_threshold,
+    -- Any backup withholding makes the form reportable regardless of amount
+    tt.withheld > 0 OR CASE
+      WHEN th.transaction_threshold IS NOT NULL
+        THEN tt.gross > th.amount_threshold AND tt.cnt > th.transaction_threshold
+      ELSE tt.gross >= th.amount_threshold
+    END,
+    tt.withheld
+  FROM totals tt
+  JOIN thresholds th ON th.payment_category = tt.category
+  ORDER BY th.form_type, th.form_box;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.calculate_1099_form_totals(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_1099_form_totals(uuid, text, integer) TO service_role;
@@ -0,0 +1,249 @@
+-- Buyer subscriptions.
+-- A subscription plan prices a participant's product on a recurring
+-- interval. A subscription bills a buyer's saved payment method for each
+-- period; every successful charge is booked as an ordinary funding + split
+-- sale, so subscription revenue flows through the same creator balances,
+-- withholding and payouts as one-off checkouts.
+--
+-- Renewals are charged by the subscription-renewals cron. Failed renewals
+-- move the subscription to past_due and are retried on the ledger's dunning
+-- schedule; when the schedule is exhausted the subscription is canceled.
+-- Downgrades leave a proration credit that is applied to later charges.
+
+-- ============================================================
+-- 1. Plans
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.subscription_plans (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  participant_id text NOT NULL,
+  product_id text,
+  name text NOT NULL,
+  amount bigint NOT NULL,
+  currency text NOT NULL,
+  billing_interval text NOT NULL,
+  interval_count integer NOT NULL DEFAULT 1,
+  status text NOT NULL DEFAULT 'active',
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT subscription_plans_amount_check CHECK (amount > 0),
+  CONSTRAINT subscription_plans_interval_check CHECK (billing_interval IN ('day', 'week', 'month', 'year')),
+  CONSTRAINT subscription_plans_interval_count_check CHECK (interval_count BETWEEN 1 AND 365),
+  CONSTRAINT subscription_plans_status_check CHECK (status IN ('active', 'archived'))
+);
+
+COMMENT ON TABLE public.subscription_plans IS 'Recurring price for a participant''s product; amount is in minor units of currency';
+
+CREATE INDEX IF NOT EXISTS idx_subscription_plans_ledger
+  ON public.subscription_plans (ledger_id, status, created_at DESC);
+
+-- ============================================================
+-- 2. Subscriptions and charges
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.buyer_subscriptions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL REFERENCES public.subscription_plans(id),
+  participant_id text NOT NULL,
+  buyer_id text NOT NULL,
+  customer_email text,
+  payment_method_id text NOT NULL,
+  idempotency_key text NOT NULL,
+  status text NOT NULL DEFAULT 'incomplete',
+  current_period_start timestamptz NOT NULL,
+  current_period_end timestamptz NOT NULL,
+  billing_anchor_day integer NOT NULL,
+  cancel_at_period_end boolean NOT NULL DEFAULT false,
+  canceled_at timestamptz,
+  cancel_reason text,
+  credit_balance bigint NOT NULL DEFAULT 0,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  next_retry_at timestamptz,
+  renewal_locked_until timestamptz,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT buyer_subscriptions_status_check CHECK (status IN ('incomplete', 'active', 'past_due', 'canceled')),
+  CONSTRAINT buyer_subscriptions_period_check CHECK (current_period_end > current_period_start),
+  CONSTRAINT buyer_subscriptions_anchor_day_check CHECK (billing_anchor_day BETWEEN 1 AND 31),
+  CONSTRAINT buyer_subscriptions_credit_check CHECK (credit_balance >= 0),
+  CONSTRAINT buyer_subscriptions_idempotency_unique UNIQUE (ledger_id, idempotency_key)
+);
+
+COMMENT ON TABLE public.buyer_subscriptions IS 'A buyer''s recurring plan with a ledger''s participant; public.subscriptions is the organization''s own billing plan';
+COMMENT ON COLUMN public.buyer_subscriptions.billing_anchor_day IS 'Day of month renewals land on; short months clamp to their last day';
+COMMENT ON COLUMN public.buyer_subscriptions.credit_balance IS 'Unused proration credit in minor units, applied to the next charges';
+COMMENT ON COLUMN public.buyer_subscriptions.renewal_locked_until IS 'Set while the renewal cron is charging this subscription';
+
+CREATE INDEX IF NOT EXISTS idx_buyer_subscriptions_ledger
+  ON public.buyer_subscriptions (ledger_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_buyer_subscriptions_buyer
+  ON public.buyer_subscriptions (ledger_id, buyer_id);
+
+CREATE INDEX IF NOT EXISTS idx_buyer_subscriptions_renewal_due
+  ON public.buyer_subscriptions (current_period_end)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_buyer_subscriptions_retry_due
+  ON public.buyer_subscriptions (next_retry_at)
+  WHERE status = 'past_due';
+
+CREATE TABLE IF NOT EXISTS public.subscription_charges (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  subscription_id uuid NOT NULL REFERENCES public.buyer_subscriptions(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL REFERENCES public.subscription_plans(id),
+  kind text NOT NULL,
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  amount bigint NOT NULL,
+  credit_applied bigint NOT NULL DEFAULT 0,
+  currency text NOT NULL,
+  attempt integer NOT NULL DEFAULT 1,
+  status text NOT NULL DEFAULT 'pending',
+  payment_id text,
+  funding_transaction_id uuid REFERENCES public.transactions(id),
+  sale_transaction_id uuid REFERENCES public.transactions(id),
+  failure_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT subscription_charges_kind_check CHECK (kind IN ('initial', 'renewal', 'proration')),
+  CONSTRAINT subscription_charges_status_check CHECK (
+    status IN ('pending', 'succeeded', 'charged_pending_ledger', 'failed')
+  ),
+  CONSTRAINT subscription_charges_amounts_check CHECK (
+    amount >= 0 AND credit_applied >= 0 AND credit_applied <= amount
+  )
+);
+
+COMMENT ON TABLE public.subscription_charges IS 'One row per billing attempt; amount is the period price before credit_applied';
+COMMENT ON COLUMN public.subscription_charges.status IS 'charged_pending_ledger: the card was charged but the sale is not booked yet; the renewal cron retries it';
+
+-- A period is billed at most once per attempt
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscription_charges_attempt
+  ON public.subscription_charges (subscription_id, kind, period_start, attempt)
+  WHERE kind IN ('initial', 'renewal');
+
+CREATE INDEX IF NOT EXISTS idx_subscription_charges_subscription
+  ON public.subscription_charges (subscription_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_charges_pending_ledger
+  ON public.subscription_charges (updated_at)
+  WHERE status = 'charged_pending_ledger';
+
+ALTER TABLE public.subscription_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.buyer_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscription_charges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS subscription_plans_service_all ON public.subscription_plans;
+CREATE POLICY subscription_plans_service_all ON public.subscription_plans
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS buyer_subscriptions_service_all ON public.buyer_subscriptions;
+CREATE POLICY buyer_subscriptions_service_all ON public.buyer_subscriptions
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS subscription_charges_service_all ON public.subscription_charges;
+CREATE POLICY subscription_charges_service_all ON public.subscription_charges
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS subscription_plans_read_org_members ON public.subscription_plans;
+CREATE POLICY subscription_plans_read_org_members
+  ON public.subscription_plans
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = subscription_plans.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS buyer_subscriptions_read_org_members ON public.buyer_subscriptions;
+CREATE POLICY buyer_subscriptions_read_org_members
+  ON public.buyer_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = buyer_subscriptions.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS subscription_charges_read_org_members ON public.subscription_charges;
+CREATE POLICY subscription_charges_read_org_members
+  ON public.subscription_charges
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = subscription_charges.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 3. claim_due_subscriptions
+-- ============================================================
+-- Claims subscriptions the renewal cron should act on: active ones whose
+-- period has ended (renewal or scheduled cancellation) and past_due ones
+-- whose next retry is due. The claim expires after p_lock_minutes so a
+-- crashed run does not strand a subscription; SKIP LOCKED keeps
+-- overlapping runs from charging the same subscription twice.
+CREATE OR REPLACE FUNCTION public.claim_due_subscriptions(
+  p_limit integer DEFAULT 50,
+  p_lock_minutes integer DEFAULT 10
+)
+RETURNS TABLE (
+  out_subscription_id uuid,
+  out_ledger_id uuid
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT s.id
+    FROM public.buyer_subscriptions s
+    WHERE (
+        (s.status = 'active' AND s.current_period_end <= now())
+        OR (s.status = 'past_due' AND s.next_retry_at <= now())
+      )
+      AND (s.renewal_locked_until IS NULL OR s.renewal_locked_until < now())
+    ORDER BY COALESCE(s.next_retry_at, s.current_period_end)
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 500)
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.buyer_subscriptions s
+  SET renewal_locked_until = now() + make_interval(mins => GREATEST(COALESCE(p_lock_minutes, 10), 1)),
+      updated_at = now()
+  FROM due
+  WHERE s.id = due.id
+  RETURNING s.id, s.ledger_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_due_subscriptions(integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_subscriptions(integer, integer) TO service_role;
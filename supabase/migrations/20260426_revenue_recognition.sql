@@ -0,0 +1,876 @@
+-- Revenue recognition schedules.
+-- A sale can carry a schedule that defers the platform's share of it to an
+-- unearned_revenue liability and releases it back to platform_revenue over
+-- time: straight-line (one equal line per month) or by milestone. Only the
+-- platform share is deferred; the creator's share is a liability to the
+-- creator either way. The deferred amount is the platform_revenue the sale
+-- credited less split-rule credits, the same base referral commissions use.
+--
+-- Lines are released by the recognize-deferred-revenue cron on or after
+-- their recognize_on date. Milestone lines without a date wait until the
+-- milestone is completed. Refunds unwind the unrecognized remainder in
+-- proportion to the platform revenue they reverse; a voided sale unwinds
+-- all of it.
+--
+-- Subscription plans can recognize each billed period ratably.
+
+-- ============================================================
+-- 1. Schedules and lines
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.revenue_schedules (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  source_transaction_id uuid NOT NULL REFERENCES public.transactions(id),
+  deferral_transaction_id uuid REFERENCES public.transactions(id),
+  method text NOT NULL,
+  currency text NOT NULL,
+  total_amount numeric(14,2) NOT NULL,
+  recognized_amount numeric(14,2) NOT NULL DEFAULT 0,
+  unwound_amount numeric(14,2) NOT NULL DEFAULT 0,
+  start_date date NOT NULL,
+  months integer,
+  status text NOT NULL DEFAULT 'active',
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT revenue_schedules_method_check CHECK (method IN ('straight_line', 'milestone')),
+  CONSTRAINT revenue_schedules_status_check CHECK (status IN ('active', 'completed', 'canceled')),
+  CONSTRAINT revenue_schedules_months_check CHECK (months IS NULL OR months BETWEEN 1 AND 120),
+  CONSTRAINT revenue_schedules_amounts_check CHECK (
+    total_amount > 0
+    AND recognized_amount >= 0
+    AND unwound_amount >= 0
+    AND recognized_amount + unwound_amount <= total_amount
+  ),
+  CONSTRAINT revenue_schedules_source_unique UNIQUE (source_transaction_id)
+);
+
+COMMENT ON TABLE public.revenue_schedules IS 'Deferred platform revenue on one sale, released to platform_revenue by its lines';
+COMMENT ON COLUMN public.revenue_schedules.total_amount IS 'Functional-currency amount moved to unearned_revenue when the schedule was created';
+COMMENT ON COLUMN public.revenue_schedules.unwound_amount IS 'Unrecognized revenue removed by refunds or a void of the sale';
+
+CREATE INDEX IF NOT EXISTS idx_revenue_schedules_ledger
+  ON public.revenue_schedules (ledger_id, status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.revenue_schedule_lines (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  schedule_id uuid NOT NULL REFERENCES public.revenue_schedules(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  name text,
+  recognize_on date,
+  amount numeric(14,2) NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  recognized_at timestamptz,
+  recognition_transaction_id uuid REFERENCES public.transactions(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT revenue_schedule_lines_status_check CHECK (status IN ('pending', 'recognized', 'canceled')),
+  CONSTRAINT revenue_schedule_lines_amount_check CHECK (amount >= 0),
+  CONSTRAINT revenue_schedule_lines_number_unique UNIQUE (schedule_id, line_number)
+);
+
+COMMENT ON COLUMN public.revenue_schedule_lines.recognize_on IS 'Release date; NULL for a milestone that has not been completed yet';
+
+CREATE INDEX IF NOT EXISTS idx_revenue_schedule_lines_due
+  ON public.revenue_schedule_lines (recognize_on)
+  WHERE status = 'pending';
+
+ALTER TABLE public.revenue_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.revenue_schedule_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS revenue_schedules_service_all ON public.revenue_schedules;
+CREATE POLICY revenue_schedules_service_all ON public.revenue_schedules
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS revenue_schedule_lines_service_all ON public.revenue_schedule_lines;
+CREATE POLICY revenue_schedule_lines_service_all ON public.revenue_schedule_lines
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS revenue_schedules_read_org_members ON public.revenue_schedules;
+CREATE POLICY revenue_schedules_read_org_members
+  ON public.revenue_schedules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = revenue_schedules.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS revenue_schedule_lines_read_org_members ON public.revenue_schedule_lines;
+CREATE POLICY revenue_schedule_lines_read_org_members
+  ON public.revenue_schedule_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = revenue_schedule_lines.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- Ratable plans defer each billed period over the period's months
+ALTER TABLE public.subscription_plans
+  ADD COLUMN IF NOT EXISTS revenue_recognition text NOT NULL DEFAULT 'immediate';
+
+ALTER TABLE public.subscription_plans DROP CONSTRAINT IF EXISTS subscription_plans_revenue_recognition_check;
+ALTER TABLE public.subscription_plans ADD CONSTRAINT subscription_plans_revenue_recognition_check CHECK (
+  revenue_recognition = 'immediate'
+  OR (revenue_recognition = 'ratable' AND billing_interval IN ('month', 'year'))
+);
+
+-- ============================================================
+-- 2. Posting helpers
+-- ============================================================
+-- The ledger-wide deferred revenue account, created on first use.
+CREATE OR REPLACE FUNCTION public.get_or_create_unearned_revenue_account(p_ledger_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'unearned_revenue'
+    AND entity_id IS NULL
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_type, name, currency
+    ) VALUES (
+      p_ledger_id, 'unearned_revenue', 'platform', 'Deferred Revenue',
+      public.ledger_functional_currency(p_ledger_id)
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$function$;
+
+-- Releases a schedule's pending lines due on or before p_as_of. A schedule
+-- whose sale has been voided is unwound instead. Returns the number of
+-- lines recognized.
+CREATE OR REPLACE FUNCTION public.recognize_revenue_schedule(
+  p_schedule_id uuid,
+  p_as_of date DEFAULT CURRENT_DATE
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule RECORD;
+  v_source RECORD;
+  v_line RECORD;
+  v_platform_account_id UUID;
+  v_unearned_account_id UUID;
+  v_tx_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_schedule
+  FROM public.revenue_schedules
+  WHERE id = p_schedule_id
+  FOR UPDATE;
+
+  IF v_schedule.id IS NULL OR v_schedule.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  SELECT t.id, t.reference_id, t.status INTO v_source
+  FROM public.transactions t
+  WHERE t.id = v_schedule.source_transaction_id;
+
+  IF v_source.status = 'voided' THEN
+    PERFORM public.unwind_revenue_schedule(
+      v_schedule.id,
+      v_schedule.total_amount - v_schedule.recognized_amount - v_schedule.unwound_amount,
+      'revenue_unwind_' || v_schedule.id || '_void',
+      jsonb_build_object('unwind_reason', 'void')
+    );
+    RETURN 0;
+  END IF;
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = v_schedule.ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  v_unearned_account_id := public.get_or_create_unearned_revenue_account(v_schedule.ledger_id);
+
+  FOR v_line IN
+    SELECT l.*
+    FROM public.revenue_schedule_lines l
+    WHERE l.schedule_id = v_schedule.id
+      AND l.status = 'pending'
+      AND l.recognize_on IS NOT NULL
+      AND l.recognize_on <= p_as_of
+    ORDER BY l.line_number
+    FOR UPDATE
+  LOOP
+    IF v_line.amount > 0 THEN
+      INSERT INTO public.transactions (
+        ledger_id, transaction_type, reference_id, reference_type,
+        description, amount, currency, status, entry_method, metadata
+      ) VALUES (
+        v_schedule.ledger_id, 'revenue_recognition',
+        'revenue_recognition_' || v_schedule.id || '_' || v_line.line_number,
+        'revenue_recognition',
+        'Revenue recognized on ' || COALESCE(v_source.reference_id, v_source.id::text)
+          || COALESCE(' (' || v_line.name || ')', ' (' || v_line.line_number || ')'),
+        v_line.amount, v_schedule.currency, 'completed', 'system',
+        jsonb_build_object(
+          'parent_transaction_id', v_schedule.source_transaction_id,
+          'revenue_schedule_id', v_schedule.id,
+          'revenue_schedule_line', v_line.line_number,
+          'recognize_on', v_line.recognize_on
+        )
+      )
+      RETURNING id INTO v_tx_id;
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      VALUES (v_tx_id, v_unearned_account_id, 'debit', v_line.amount, v_schedule.currency);
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      VALUES (v_tx_id, v_platform_account_id, 'credit', v_line.amount, v_schedule.currency);
+    ELSE
+      v_tx_id := NULL;
+    END IF;
+
+    UPDATE public.revenue_schedule_lines
+       SET status = 'recognized',
+           recognized_at = NOW(),
+           recognition_transaction_id = v_tx_id,
+           updated_at = NOW()
+     WHERE id = v_line.id;
+
+    UPDATE public.revenue_schedules
+       SET recognized_amount = recognized_amount + v_line.amount,
+           updated_at = NOW()
+     WHERE id = v_schedule.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE public.revenue_schedules s
+     SET status = 'completed',
+         updated_at = NOW()
+   WHERE s.id = v_schedule.id
+     AND NOT EXISTS (
+       SELECT 1 FROM public.revenue_schedule_lines l
+       WHERE l.schedule_id = s.id AND l.status = 'pending'
+     );
+
+  RETURN v_count;
+END;
+$function$;
+
+-- Moves p_amount of a schedule's unrecognized revenue back to
+-- platform_revenue and shrinks its pending lines by the same fraction, the
+-- last pending line absorbing rounding. Idempotent on p_reference.
+CREATE OR REPLACE FUNCTION public.unwind_revenue_schedule(
+  p_schedule_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule RECORD;
+  v_tx_id UUID;
+  v_remaining NUMERIC(14,2);
+  v_amount NUMERIC(14,2);
+  v_left NUMERIC(14,2);
+  v_keep NUMERIC;
+  v_line RECORD;
+  v_last_line INTEGER;
+  v_new_amount NUMERIC(14,2);
+  v_allocated NUMERIC(14,2) := 0;
+  v_platform_account_id UUID;
+  v_unearned_account_id UUID;
+BEGIN
+  SELECT * INTO v_schedule
+  FROM public.revenue_schedules
+  WHERE id = p_schedule_id
+  FOR UPDATE;
+
+  IF v_schedule.id IS NULL THEN
+    RAISE EXCEPTION 'Revenue schedule % not found', p_schedule_id;
+  END IF;
+
+  SELECT t.id INTO v_tx_id
+  FROM public.transactions t
+  WHERE t.ledger_id = v_schedule.ledger_id
+    AND t.reference_id = p_reference;
+
+  IF v_tx_id IS NOT NULL THEN
+    RETURN v_tx_id;
+  END IF;
+
+  v_remaining := v_schedule.total_amount - v_schedule.recognized_amount - v_schedule.unwound_amount;
+  v_amount := LEAST(GREATEST(COALESCE(p_amount, 0), 0), v_remaining);
+  IF v_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = v_schedule.ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  v_unearned_account_id := public.get_or_create_unearned_revenue_account(v_schedule.ledger_id);
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, reverses, metadata
+  ) VALUES (
+    v_schedule.ledger_id, 'revenue_deferral_reversal', p_reference, 'revenue_recognition',
+    'Deferred revenue unwound', v_amount, v_schedule.currency, 'completed', 'system',
+    v_schedule.deferral_transaction_id,
+    jsonb_build_object(
+      'parent_transaction_id', v_schedule.source_transaction_id,
+      'revenue_schedule_id', v_schedule.id
+    ) || COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_unearned_account_id, 'debit', v_amount, v_schedule.currency);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_platform_account_id, 'credit', v_amount, v_schedule.currency);
+
+  v_left := v_remaining - v_amount;
+  v_keep := v_left / v_remaining;
+
+  SELECT MAX(line_number) INTO v_last_line
+  FROM public.revenue_schedule_lines
+  WHERE schedule_id = v_schedule.id AND status = 'pending';
+
+  FOR v_line IN
+    SELECT l.*
+    FROM public.revenue_schedule_lines l
+    WHERE l.schedule_id = v_schedule.id
+      AND l.status = 'pending'
+    ORDER BY l.line_number
+    FOR UPDATE
+  LOOP
+    IF v_line.line_number = v_last_line THEN
+      v_new_amount := v_left - v_allocated;
+    ELSE
+      v_new_amount := LEAST(ROUND(v_line.amount * v_keep, 2), v_left - v_allocated);
+    END IF;
+    v_allocated := v_allocated + v_new_amount;
+
+    UPDATE public.revenue_schedule_lines
+       SET amount = v_new_amount,
+           status = CASE WHEN v_new_amount <= 0 THEN 'canceled' ELSE status END,
+           updated_at = NOW()
+     WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE public.revenue_schedules
+     SET unwound_amount = unwound_amount + v_amount,
+         status = CASE WHEN v_left <= 0 THEN 'canceled' ELSE status END,
+         updated_at = NOW()
+   WHERE id = v_schedule.id;
+
+  RETURN v_tx_id;
+END;
+$function$;
+
+-- ============================================================
+-- 3. create_revenue_schedule
+-- ============================================================
+-- Defers a sale's platform revenue and lays out its lines. Straight-line
+-- schedules release one equal line at the end of each month of service
+-- (start_date + 1 month, + 2 months, ...); milestone schedules release
+-- p_milestones[i].percent of the deferral on its recognize_on date, or when
+-- completed. Lines already due are released immediately. Safe to re-run:
+-- a sale has at most one schedule.
+CREATE OR REPLACE FUNCTION public.create_revenue_schedule(
+  p_ledger_id uuid,
+  p_transaction_id uuid,
+  p_method text,
+  p_start_date date DEFAULT NULL,
+  p_months integer DEFAULT NULL,
+  p_milestones jsonb DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(out_schedule_id uuid, out_deferral_transaction_id uuid, out_total_amount numeric, out_created boolean)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_source RECORD;
+  v_existing RECORD;
+  v_currency TEXT;
+  v_platform_account_id UUID;
+  v_unearned_account_id UUID;
+  v_base NUMERIC(14,2);
+  v_split_credits NUMERIC(14,2);
+  v_start DATE;
+  v_schedule_id UUID;
+  v_tx_id UUID;
+  v_count INTEGER;
+  v_line_amount NUMERIC(14,2);
+  v_allocated NUMERIC(14,2) := 0;
+  v_percent_total NUMERIC := 0;
+  v_milestone JSONB;
+  v_i INTEGER;
+BEGIN
+  SELECT s.id, s.deferral_transaction_id, s.total_amount INTO v_existing
+  FROM public.revenue_schedules s
+  WHERE s.ledger_id = p_ledger_id
+    AND s.source_transaction_id = p_transaction_id;
+
+  IF v_existing.id IS NOT NULL THEN
+    RETURN QUERY SELECT v_existing.id, v_existing.deferral_transaction_id, v_existing.total_amount, false;
+    RETURN;
+  END IF;
+
+  SELECT t.id, t.reference_id, t.transaction_type, t.currency, t.status, t.created_at
+    INTO v_source
+    FROM public.transactions t
+   WHERE t.id = p_transaction_id
+     AND t.ledger_id = p_ledger_id
+   FOR UPDATE;
+
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF v_source.transaction_type <> 'sale' THEN
+    RAISE EXCEPTION 'Revenue schedules apply to sales, not %', v_source.transaction_type;
+  END IF;
+
+  IF v_source.status IN ('voided', 'reversed') THEN
+    RAISE EXCEPTION 'Sale % has been %', p_transaction_id, v_source.status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.ledger_id = p_ledger_id
+      AND t.reverses = v_source.id
+      AND t.transaction_type = 'refund'
+      AND t.status NOT IN ('voided', 'reversed')
+  ) THEN
+    RAISE EXCEPTION 'Sale % has refunds; schedules must be created before refunding', p_transaction_id;
+  END IF;
+
+  IF p_method NOT IN ('straight_line', 'milestone') THEN
+    RAISE EXCEPTION 'Invalid recognition method: %', p_method;
+  END IF;
+
+  IF p_method = 'straight_line' AND (p_months IS NULL OR p_months < 1 OR p_months > 120) THEN
+    RAISE EXCEPTION 'Straight-line schedules need 1-120 months';
+  END IF;
+
+  IF p_method = 'milestone' THEN
+    IF p_milestones IS NULL OR jsonb_typeof(p_milestones) <> 'array'
+       OR jsonb_array_length(p_milestones) < 1 OR jsonb_array_length(p_milestones) > 50 THEN
+      RAISE EXCEPTION 'Milestone schedules need 1-50 milestones';
+    END IF;
+
+    SELECT COALESCE(SUM((m->>'percent')::numeric), 0) INTO v_percent_total
+    FROM jsonb_array_elements(p_milestones) m;
+
+    IF v_percent_total <> 100 THEN
+      RAISE EXCEPTION 'Milestone percents must add up to 100, got %', v_percent_total;
+    END IF;
+  END IF;
+
+  v_currency := COALESCE(v_source.currency, public.ledger_functional_currency(p_ledger_id));
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  IF v_platform_account_id IS NULL THEN
+    RAISE EXCEPTION 'Platform revenue account not initialized for ledger %', p_ledger_id;
+  END IF;
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_base
+    FROM public.entries e
+   WHERE e.transaction_id = v_source.id
+     AND e.account_id = v_platform_account_id
+     AND e.entry_type = 'credit';
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_split_credits
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+   WHERE t.ledger_id = p_ledger_id
+     AND t.metadata->>'parent_transaction_id' = v_source.id::text
+     AND t.metadata ? 'split_rule_version_id'
+     AND e.account_id = v_platform_account_id
+     AND e.entry_type = 'debit';
+
+  v_base := v_base - v_split_credits;
+  IF v_base <= 0 THEN
+    RAISE EXCEPTION 'Sale % has no platform revenue to defer', p_transaction_id;
+  END IF;
+
+  v_start := COALESCE(p_start_date, v_source.created_at::date, CURRENT_DATE);
+  v_unearned_account_id := public.get_or_create_unearned_revenue_account(p_ledger_id);
+
+  INSERT INTO public.revenue_schedules (
+    ledger_id, source_transaction_id, method, currency, total_amount,
+    start_date, months, metadata
+  ) VALUES (
+    p_ledger_id, v_source.id, p_method, v_currency, v_base,
+    v_start, CASE WHEN p_method = 'straight_line' THEN p_months ELSE NULL END,
+    COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_schedule_id;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata
+  ) VALUES (
+    p_ledger_id, 'revenue_deferral',
+    'revenue_deferral_' || v_schedule_id,
+    'revenue_recognition',
+    'Revenue deferred on ' || COALESCE(v_source.reference_id, v_source.id::text),
+    v_base, v_currency, 'completed', 'system',
+    jsonb_build_object(
+      'parent_transaction_id', v_source.id,
+      'revenue_schedule_id', v_schedule_id,
+      'recognition_method', p_method
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_platform_account_id, 'debit', v_base, v_currency);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_unearned_account_id, 'credit', v_base, v_currency);
+
+  UPDATE public.revenue_schedules
+     SET deferral_transaction_id = v_tx_id
+   WHERE id = v_schedule_id;
+
+  IF p_method = 'straight_line' THEN
+    FOR v_i IN 1..p_months LOOP
+      IF v_i = p_months THEN
+        v_line_amount := v_base - v_allocated;
+      ELSE
+        v_line_amount := ROUND(v_base / p_months, 2);
+      END IF;
+      v_allocated := v_allocated + v_line_amount;
+
+      INSERT INTO public.revenue_schedule_lines (
+        ledger_id, schedule_id, line_number, recognize_on, amount
+      ) VALUES (
+        p_ledger_id, v_schedule_id, v_i, (v_start + make_interval(months => v_i))::date, v_line_amount
+      );
+    END LOOP;
+  ELSE
+    v_count := jsonb_array_length(p_milestones);
+    FOR v_i IN 1..v_count LOOP
+      v_milestone := p_milestones->(v_i - 1);
+      IF v_i = v_count THEN
+        v_line_amount := v_base - v_allocated;
+      ELSE
+        v_line_amount := ROUND(v_base * (v_milestone->>'percent')::numeric / 100, 2);
+      END IF;
+      v_allocated := v_allocated + v_line_amount;
+
+      INSERT INTO public.revenue_schedule_lines (
+        ledger_id, schedule_id, line_number, name, recognize_on, amount
+      ) VALUES (
+        p_ledger_id, v_schedule_id, v_i,
+        NULLIF(TRIM(v_milestone->>'name'), ''),
+        NULLIF(v_milestone->>'recognize_on', '')::date,
+        v_line_amount
+      );
+    END LOOP;
+  END IF;
+
+  PERFORM public.recognize_revenue_schedule(v_schedule_id, CURRENT_DATE);
+
+  RETURN QUERY SELECT v_schedule_id, v_tx_id, v_base, true;
+END;
+$function$;
+
+-- ============================================================
+-- 4. Milestones, the recognition run and refunds
+-- ============================================================
+-- Completes a milestone: it becomes due today (or keeps an earlier date)
+-- and is released along with anything else due on the schedule.
+CREATE OR REPLACE FUNCTION public.complete_revenue_milestone(
+  p_ledger_id uuid,
+  p_schedule_id uuid,
+  p_line_number integer
+)
+RETURNS TABLE(out_line_id uuid, out_status text, out_transaction_id uuid)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_line RECORD;
+BEGIN
+  SELECT l.* INTO v_line
+  FROM public.revenue_schedule_lines l
+  JOIN public.revenue_schedules s ON s.id = l.schedule_id
+  WHERE s.id = p_schedule_id
+    AND s.ledger_id = p_ledger_id
+    AND s.method = 'milestone'
+    AND l.line_number = p_line_number;
+
+  IF v_line.id IS NULL THEN
+    RAISE EXCEPTION 'Milestone % not found on schedule %', p_line_number, p_schedule_id;
+  END IF;
+
+  IF v_line.status = 'pending' THEN
+    UPDATE public.revenue_schedule_lines
+       SET recognize_on = LEAST(COALESCE(recognize_on, CURRENT_DATE), CURRENT_DATE),
+           updated_at = NOW()
+     WHERE id = v_line.id;
+
+    PERFORM public.recognize_revenue_schedule(p_schedule_id, CURRENT_DATE);
+  END IF;
+
+  RETURN QUERY
+  SELECT l.id, l.status, l.recognition_transaction_id
+  FROM public.revenue_schedule_lines l
+  WHERE l.id = v_line.id;
+END;
+$function$;
+
+-- Releases due lines across all ledgers for the recognize-deferred-revenue
+-- cron. SKIP LOCKED keeps overlapping runs off the same schedule.
+CREATE OR REPLACE FUNCTION public.recognize_due_revenue(
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_limit integer DEFAULT 200
+)
+RETURNS TABLE(out_schedule_id uuid, out_ledger_id uuid, out_lines_recognized integer)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_schedule RECORD;
+BEGIN
+  FOR v_schedule IN
+    SELECT s.id, s.ledger_id
+    FROM public.revenue_schedules s
+    WHERE s.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.revenue_schedule_lines l
+        WHERE l.schedule_id = s.id
+          AND l.status = 'pending'
+          AND l.recognize_on <= COALESCE(p_as_of, CURRENT_DATE)
+      )
+    ORDER BY s.created_at
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 200), 1), 1000)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    out_schedule_id := v_schedule.id;
+    out_ledger_id := v_schedule.ledger_id;
+    out_lines_recognized := public.recognize_revenue_schedule(v_schedule.id, COALESCE(p_as_of, CURRENT_DATE));
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- Unwinds the unrecognized revenue on the sale a refund reverses, in
+-- proportion to the platform revenue the refund debits out of what the sale
+-- had left. A full refund unwinds whatever remains.
+CREATE OR REPLACE FUNCTION public.reverse_revenue_schedule(
+  p_ledger_id uuid,
+  p_refund_transaction_id uuid
+)
+RETURNS TABLE(out_schedule_id uuid, out_transaction_id uuid, out_deferral_transaction_id uuid, out_amount numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_refund RECORD;
+  v_source RECORD;
+  v_schedule RECORD;
+  v_platform_account_id UUID;
+  v_sale_platform NUMERIC(14,2);
+  v_refund_platform NUMERIC(14,2);
+  v_prior_platform NUMERIC(14,2);
+  v_refunded_total NUMERIC(14,2);
+  v_remaining NUMERIC(14,2);
+  v_ratio NUMERIC;
+  v_amount NUMERIC(14,2);
+  v_tx_id UUID;
+BEGIN
+  SELECT t.id, t.reverses, t.amount
+    INTO v_refund
+    FROM public.transactions t
+   WHERE t.id = p_refund_transaction_id
+     AND t.ledger_id = p_ledger_id
+     AND t.transaction_type = 'refund';
+
+  IF v_refund.id IS NULL OR v_refund.reverses IS NULL THEN
+    RAISE EXCEPTION 'Refund % not found', p_refund_transaction_id;
+  END IF;
+
+  SELECT s.* INTO v_schedule
+  FROM public.revenue_schedules s
+  WHERE s.ledger_id = p_ledger_id
+    AND s.source_transaction_id = v_refund.reverses
+  FOR UPDATE;
+
+  IF v_schedule.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT t.id, t.amount INTO v_source
+  FROM public.transactions t
+  WHERE t.id = v_refund.reverses;
+
+  SELECT id INTO v_platform_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id AND account_type = 'platform_revenue'
+  LIMIT 1;
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_sale_platform
+    FROM public.entries e
+   WHERE e.transaction_id = v_source.id
+     AND e.account_id = v_platform_account_id
+     AND e.entry_type = 'credit';
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_refund_platform
+    FROM public.entries e
+   WHERE e.transaction_id = v_refund.id
+     AND e.account_id = v_platform_account_id
+     AND e.entry_type = 'debit';
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_prior_platform
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+   WHERE t.ledger_id = p_ledger_id
+     AND t.reverses = v_source.id
+     AND t.transaction_type = 'refund'
+     AND t.status NOT IN ('voided', 'reversed')
+     AND t.id <> v_refund.id
+     AND t.created_at <= (SELECT created_at FROM public.transactions WHERE id = v_refund.id)
+     AND e.account_id = v_platform_account_id
+     AND e.entry_type = 'debit';
+
+  SELECT COALESCE(SUM(t.amount), 0) INTO v_refunded_total
+    FROM public.transactions t
+   WHERE t.ledger_id = p_ledger_id
+     AND t.reverses = v_source.id
+     AND t.transaction_type = 'refund'
+     AND t.status NOT IN ('voided', 'reversed');
+
+  v_remaining := v_schedule.total_amount - v_schedule.recognized_amount - v_schedule.unwound_amount;
+
+  IF v_refunded_total >= v_source.amount THEN
+    v_amount := v_remaining;
+  ELSIF v_sale_platform - v_prior_platform <= 0 THEN
+    v_amount := 0;
+  ELSE
+    v_ratio := LEAST(v_refund_platform / (v_sale_platform - v_prior_platform), 1);
+    v_amount := LEAST(ROUND(v_remaining * v_ratio, 2), v_remaining);
+  END IF;
+
+  v_tx_id := public.unwind_revenue_schedule(
+    v_schedule.id,
+    v_amount,
+    'revenue_unwind_' || v_schedule.id || '_' || v_refund.id,
+    jsonb_build_object('unwind_reason', 'refund', 'refund_transaction_id', v_refund.id)
+  );
+
+  IF v_tx_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT t.amount INTO v_amount FROM public.transactions t WHERE t.id = v_tx_id;
+
+  out_schedule_id := v_schedule.id;
+  out_transaction_id := v_tx_id;
+  out_deferral_transaction_id := v_schedule.deferral_transaction_id;
+  out_amount := v_amount;
+  RETURN NEXT;
+END;
+$function$;
+
+-- ============================================================
+-- 5. deferred_revenue_summary
+-- ============================================================
+-- Movement on unearned_revenue accounts for a reporting period: opening
+-- and closing balances (credit-normal, so positive means owed), revenue
+-- deferred, released by schedules, and unwound by refunds or voids.
+CREATE OR REPLACE FUNCTION public.deferred_revenue_summary(
+  p_ledger_id uuid,
+  p_start_date timestamptz,
+  p_end_date timestamptz
+)
+RETURNS TABLE(
+  out_opening_balance numeric,
+  out_deferred numeric,
+  out_recognized numeric,
+  out_unwound numeric,
+  out_closing_balance numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  WITH movements AS (
+    SELECT
+      t.created_at,
+      t.transaction_type,
+      CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE -e.amount END AS amount
+    FROM public.entries e
+    JOIN public.accounts a ON a.id = e.account_id
+    JOIN public.transactions t ON t.id = e.transaction_id
+    WHERE a.ledger_id = p_ledger_id
+      AND a.account_type = 'unearned_revenue'
+      AND t.status = 'completed'
+      AND t.created_at <= p_end_date
+  )
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE created_at < p_start_date), 0)::numeric(14,2),
+    COALESCE(SUM(amount) FILTER (WHERE created_at >= p_start_date AND amount > 0), 0)::numeric(14,2),
+    COALESCE(-SUM(amount) FILTER (WHERE created_at >= p_start_date AND amount < 0 AND transaction_type = 'revenue_recognition'), 0)::numeric(14,2),
+    COALESCE(-SUM(amount) FILTER (WHERE created_at >= p_start_date AND amount < 0 AND transaction_type <> 'revenue_recognition'), 0)::numeric(14,2),
+    COALESCE(SUM(amount), 0)::numeric(14,2)
+  FROM movements
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_or_create_unearned_revenue_account(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_unearned_revenue_account(uuid) TO service_role;
+REVOKE ALL ON FUNCTION public.recognize_revenue_schedule(uuid, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recognize_revenue_schedule(uuid, date) TO service_role;
+REVOKE ALL ON FUNCTION public.unwind_revenue_schedule(uuid, numeric, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.unwind_revenue_schedule(uuid, numeric, text, jsonb) TO service_role;
+REVOKE ALL ON FUNCTION public.create_revenue_schedule(uuid, uuid, text, date, integer, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_revenue_schedule(uuid, uuid, text, date, integer, jsonb, jsonb) TO service_role;
+REVOKE ALL ON FUNCTION public.complete_revenue_milestone(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_revenue_milestone(uuid, uuid, integer) TO service_role;
+REVOKE ALL ON FUNCTION public.recognize_due_revenue(date, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recognize_due_revenue(date, integer) TO service_role;
+REVOKE ALL ON FUNCTION public.reverse_revenue_schedule(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_revenue_schedule(uuid, uuid) TO service_role;
+REVOKE ALL ON FUNCTION public.deferred_revenue_summary(uuid, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.deferred_revenue_summary(uuid, timestamptz, timestamptz) TO service_role;
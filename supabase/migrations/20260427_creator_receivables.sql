@@ -0,0 +1,668 @@
+-- Creator receivables: recovering negative creator balances.
+-- A creator-funded refund or chargeback against a creator who has already
+-- been paid out drives their creator_balance below zero. The deficit is
+-- moved to a per-creator accounts_receivable account (entity_id = creator
+-- id) and tracked as a creator_debts row, which brings creator_balance back
+-- to zero and puts the amount owed on the balance sheet as an asset.
+--
+-- Later earnings are netted against the debt: recover_creator_debts moves
+-- up to settings.negative_balance_recovery_percent (default 100) of the
+-- creator's credits since the oldest open debt from creator_balance back to
+-- the receivable, oldest debt first, never touching held funds. Payouts can
+-- be refused while a debt is open (settings.negative_balance_block_payouts)
+-- and debts older than settings.negative_balance_write_off_days are written
+-- off to a Bad Debt Expense account by the process-creator-debts cron.
+-- Every posting is linked in transaction_links ('adjustment') to the
+-- transaction it settles, so the cron's postings are traced like the API's.
+
+-- ============================================================
+-- 1. creator_debts
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.creator_debts (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  creator_id text NOT NULL,
+  source_transaction_id uuid NOT NULL REFERENCES public.transactions(id),
+  debt_transaction_id uuid REFERENCES public.transactions(id),
+  write_off_transaction_id uuid REFERENCES public.transactions(id),
+  currency text NOT NULL,
+  amount numeric(14,2) NOT NULL,
+  recovered_amount numeric(14,2) NOT NULL DEFAULT 0,
+  written_off_amount numeric(14,2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'outstanding',
+  settled_at timestamptz,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT creator_debts_status_check CHECK (status IN ('outstanding', 'recovered', 'written_off')),
+  CONSTRAINT creator_debts_amounts_check CHECK (
+    amount > 0
+    AND recovered_amount >= 0
+    AND written_off_amount >= 0
+    AND recovered_amount + written_off_amount <= amount
+  ),
+  CONSTRAINT creator_debts_source_unique UNIQUE (source_transaction_id, creator_id)
+);
+
+COMMENT ON TABLE public.creator_debts IS 'Negative creator balance moved to a creator receivable, recovered from later earnings or written off';
+COMMENT ON COLUMN public.creator_debts.source_transaction_id IS 'Refund or chargeback that drove creator_balance negative';
+COMMENT ON COLUMN public.creator_debts.amount IS 'Functional-currency deficit moved from creator_balance to the receivable';
+
+CREATE INDEX IF NOT EXISTS idx_creator_debts_ledger
+  ON public.creator_debts (ledger_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_creator_debts_creator
+  ON public.creator_debts (ledger_id, creator_id, created_at)
+  WHERE status = 'outstanding';
+
+ALTER TABLE public.creator_debts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS creator_debts_service_all ON public.creator_debts;
+CREATE POLICY creator_debts_service_all ON public.creator_debts
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS creator_debts_read_org_members ON public.creator_debts;
+CREATE POLICY creator_debts_read_org_members
+  ON public.creator_debts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = creator_debts.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. Posting helpers
+-- ============================================================
+-- One receivable per creator, alongside the ledger's own (entity-less)
+-- accounts_receivable so balance sheets and trial balances pick it up.
+CREATE OR REPLACE FUNCTION public.get_or_create_creator_receivable_account(
+  p_ledger_id uuid,
+  p_creator_id text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'accounts_receivable'
+    AND entity_id = p_creator_id;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_type, entity_id, name, currency, metadata
+    ) VALUES (
+      p_ledger_id, 'accounts_receivable', 'business', p_creator_id,
+      'Creator Receivable - ' || p_creator_id,
+      public.ledger_functional_currency(p_ledger_id),
+      jsonb_build_object('receivable_type', 'creator_debt')
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$function$;
+
+-- Kept apart from the ledger's general expense account so write-offs show
+-- up as their own line on the P&L.
+CREATE OR REPLACE FUNCTION public.get_or_create_bad_debt_account(p_ledger_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'expense'
+    AND entity_id = 'bad_debt';
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_type, entity_id, name, currency, metadata
+    ) VALUES (
+      p_ledger_id, 'expense', 'business', 'bad_debt', 'Bad Debt Expense',
+      public.ledger_functional_currency(p_ledger_id),
+      jsonb_build_object('category', 'bad_debt')
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$function$;
+
+-- ============================================================
+-- 3. record_creator_debts
+-- ============================================================
+-- Called after a refund or chargeback. Every creator_balance the
+-- transaction debited that is now below zero has its deficit moved to the
+-- creator's receivable. Safe to re-run: one debt per transaction and
+-- creator.
+CREATE OR REPLACE FUNCTION public.record_creator_debts(
+  p_ledger_id uuid,
+  p_transaction_id uuid
+)
+RETURNS TABLE(
+  out_debt_id uuid,
+  out_creator_id text,
+  out_debt_transaction_id uuid,
+  out_amount numeric,
+  out_created boolean
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_source RECORD;
+  v_account RECORD;
+  v_existing RECORD;
+  v_balance NUMERIC(14,2);
+  v_currency TEXT;
+  v_receivable_id UUID;
+  v_tx_id UUID;
+  v_debt_id UUID;
+BEGIN
+  SELECT t.id, t.reference_id, t.transaction_type
+    INTO v_source
+    FROM public.transactions t
+   WHERE t.id = p_transaction_id
+     AND t.ledger_id = p_ledger_id;
+
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  v_currency := public.ledger_functional_currency(p_ledger_id);
+
+  FOR v_account IN
+    SELECT DISTINCT a.id, a.entity_id
+    FROM public.entries e
+    JOIN public.accounts a ON a.id = e.account_id
+    WHERE e.transaction_id = v_source.id
+      AND e.entry_type = 'debit'
+      AND a.account_type = 'creator_balance'
+      AND a.entity_id IS NOT NULL
+  LOOP
+    SELECT d.id, d.debt_transaction_id, d.amount
+      INTO v_existing
+      FROM public.creator_debts d
+     WHERE d.source_transaction_id = v_source.id
+       AND d.creator_id = v_account.entity_id;
+
+    IF v_existing.id IS NOT NULL THEN
+      out_debt_id := v_existing.id;
+      out_creator_id := v_account.entity_id;
+      out_debt_transaction_id := v_existing.debt_transaction_id;
+      out_amount := v_existing.amount;
+      out_created := FALSE;
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    -- Lock the balance so a concurrent recovery or payout sees the move
+    SELECT a.balance INTO v_balance
+    FROM public.accounts a
+    WHERE a.id = v_account.id
+    FOR UPDATE;
+
+    IF v_balance >= 0 THEN
+      CONTINUE;
+    END IF;
+
+    v_receivable_id := public.get_or_create_creator_receivable_account(p_ledger_id, v_account.entity_id);
+
+    INSERT INTO public.transactions (
+      ledger_id, transaction_type, reference_id, reference_type,
+      description, amount, currency, status, entry_method, metadata
+    ) VALUES (
+      p_ledger_id, 'creator_debt',
+      'creator_debt_' || v_source.id || '_' || v_account.entity_id,
+      'creator_debt',
+      'Negative balance for ' || v_account.entity_id || ' after '
+        || COALESCE(v_source.reference_id, v_source.id::text),
+      -v_balance, v_currency, 'completed', 'system',
+      jsonb_build_object(
+        'creator_id', v_account.entity_id,
+        'source_transaction_id', v_source.id,
+        'source_transaction_type', v_source.transaction_type
+      )
+    )
+    RETURNING id INTO v_tx_id;
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_receivable_id, 'debit', -v_balance, v_currency);
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_account.id, 'credit', -v_balance, v_currency);
+
+    INSERT INTO public.creator_debts (
+      ledger_id, creator_id, source_transaction_id, debt_transaction_id,
+      currency, amount, metadata
+    ) VALUES (
+      p_ledger_id, v_account.entity_id, v_source.id, v_tx_id,
+      v_currency, -v_balance,
+      jsonb_build_object('source_transaction_type', v_source.transaction_type)
+    )
+    RETURNING id INTO v_debt_id;
+
+    INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+    VALUES (
+      p_ledger_id, v_tx_id, v_source.id, 'adjustment', -v_balance,
+      jsonb_build_object('creator_debt_id', v_debt_id, 'creator_id', v_account.entity_id)
+    )
+    ON CONFLICT DO NOTHING;
+
+    out_debt_id := v_debt_id;
+    out_creator_id := v_account.entity_id;
+    out_debt_transaction_id := v_tx_id;
+    out_amount := -v_balance;
+    out_created := TRUE;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- ============================================================
+-- 4. recover_creator_debts
+-- ============================================================
+-- Nets a creator's earnings against their open debts. The recoverable
+-- amount is the recovery percent of everything credited to creator_balance
+-- since the oldest open debt, less what has already been recovered since
+-- then, capped at the balance not covered by held funds. One recovery
+-- transaction is posted and applied to debts oldest first; a row is
+-- returned per debt it paid down.
+CREATE OR REPLACE FUNCTION public.recover_creator_debts(
+  p_ledger_id uuid,
+  p_creator_id text
+)
+RETURNS TABLE(
+  out_debt_id uuid,
+  out_transaction_id uuid,
+  out_debt_transaction_id uuid,
+  out_amount numeric,
+  out_status text
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account RECORD;
+  v_debt RECORD;
+  v_percent NUMERIC;
+  v_since TIMESTAMPTZ;
+  v_outstanding NUMERIC(14,2);
+  v_credited NUMERIC(14,2);
+  v_recovered NUMERIC(14,2);
+  v_held NUMERIC(14,2);
+  v_amount NUMERIC(14,2);
+  v_left NUMERIC(14,2);
+  v_apply NUMERIC(14,2);
+  v_currency TEXT;
+  v_receivable_id UUID;
+  v_tx_id UUID;
+BEGIN
+  SELECT a.id, a.balance INTO v_account
+  FROM public.accounts a
+  WHERE a.ledger_id = p_ledger_id
+    AND a.account_type = 'creator_balance'
+    AND a.entity_id = p_creator_id
+  FOR UPDATE;
+
+  IF v_account.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT MIN(d.created_at), COALESCE(SUM(d.amount - d.recovered_amount - d.written_off_amount), 0)
+    INTO v_since, v_outstanding
+    FROM public.creator_debts d
+   WHERE d.ledger_id = p_ledger_id
+     AND d.creator_id = p_creator_id
+     AND d.status = 'outstanding';
+
+  IF v_since IS NULL OR v_outstanding <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT CASE
+           WHEN COALESCE(l.settings->>'negative_balance_recovery_percent', '') ~ '^[0-9]+(\.[0-9]+)?$'
+             THEN LEAST((l.settings->>'negative_balance_recovery_percent')::numeric, 100)
+           ELSE 100
+         END
+    INTO v_percent
+    FROM public.ledgers l
+   WHERE l.id = p_ledger_id;
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_credited
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+   WHERE e.account_id = v_account.id
+     AND e.entry_type = 'credit'
+     AND t.created_at >= v_since
+     AND t.status NOT IN ('voided', 'reversed')
+     AND t.transaction_type NOT IN ('creator_debt', 'creator_debt_recovery');
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_recovered
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+   WHERE e.account_id = v_account.id
+     AND e.entry_type = 'debit'
+     AND t.created_at >= v_since
+     AND t.transaction_type = 'creator_debt_recovery';
+
+  SELECT COALESCE(SUM(h.held_amount - h.released_amount), 0) INTO v_held
+    FROM public.held_funds h
+   WHERE h.ledger_id = p_ledger_id
+     AND h.creator_id = p_creator_id
+     AND h.status IN ('held', 'partial');
+
+  v_amount := LEAST(
+    v_outstanding,
+    ROUND(v_credited * v_percent / 100, 2) - v_recovered,
+    v_account.balance - v_held
+  );
+
+  IF v_amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  v_currency := public.ledger_functional_currency(p_ledger_id);
+  v_receivable_id := public.get_or_create_creator_receivable_account(p_ledger_id, p_creator_id);
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata
+  ) VALUES (
+    p_ledger_id, 'creator_debt_recovery',
+    'creator_debt_recovery_' || gen_random_uuid(),
+    'creator_debt',
+    'Negative balance recovered from ' || p_creator_id || ' earnings',
+    v_amount, v_currency, 'completed', 'system',
+    jsonb_build_object('creator_id', p_creator_id, 'recovery_percent', v_percent)
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_account.id, 'debit', v_amount, v_currency);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_receivable_id, 'credit', v_amount, v_currency);
+
+  v_left := v_amount;
+  FOR v_debt IN
+    SELECT d.*
+    FROM public.creator_debts d
+    WHERE d.ledger_id = p_ledger_id
+      AND d.creator_id = p_creator_id
+      AND d.status = 'outstanding'
+    ORDER BY d.created_at, d.id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+
+    v_apply := LEAST(v_left, v_debt.amount - v_debt.recovered_amount - v_debt.written_off_amount);
+    v_left := v_left - v_apply;
+
+    UPDATE public.creator_debts
+       SET recovered_amount = recovered_amount + v_apply,
+           status = CASE
+             WHEN recovered_amount + v_apply + written_off_amount >= amount THEN 'recovered'
+             ELSE status
+           END,
+           settled_at = CASE
+             WHEN recovered_amount + v_apply + written_off_amount >= amount THEN now()
+             ELSE settled_at
+           END,
+           updated_at = now()
+     WHERE id = v_debt.id
+     RETURNING status INTO out_status;
+
+    INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+    VALUES (
+      p_ledger_id, v_tx_id, v_debt.debt_transaction_id, 'adjustment', v_apply,
+      jsonb_build_object('creator_debt_id', v_debt.id, 'creator_id', p_creator_id)
+    )
+    ON CONFLICT DO NOTHING;
+
+    out_debt_id := v_debt.id;
+    out_transaction_id := v_tx_id;
+    out_debt_transaction_id := v_debt.debt_transaction_id;
+    out_amount := v_apply;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- ============================================================
+-- 5. Write-offs and the cron entry points
+-- ============================================================
+-- Writes off what is left of a debt: Bad Debt Expense is debited and the
+-- creator receivable credited. creator_balance is untouched.
+CREATE OR REPLACE FUNCTION public.write_off_creator_debt(
+  p_ledger_id uuid,
+  p_debt_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS TABLE(out_debt_id uuid, out_transaction_id uuid, out_amount numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_debt RECORD;
+  v_amount NUMERIC(14,2);
+  v_expense_id UUID;
+  v_receivable_id UUID;
+  v_tx_id UUID;
+BEGIN
+  SELECT d.* INTO v_debt
+  FROM public.creator_debts d
+  WHERE d.id = p_debt_id
+    AND d.ledger_id = p_ledger_id
+  FOR UPDATE;
+
+  IF v_debt.id IS NULL THEN
+    RAISE EXCEPTION 'Creator debt % not found', p_debt_id;
+  END IF;
+
+  IF v_debt.status <> 'outstanding' THEN
+    RAISE EXCEPTION 'Creator debt % has been %', p_debt_id, REPLACE(v_debt.status, '_', ' ');
+  END IF;
+
+  v_amount := v_debt.amount - v_debt.recovered_amount - v_debt.written_off_amount;
+  v_expense_id := public.get_or_create_bad_debt_account(p_ledger_id);
+  v_receivable_id := public.get_or_create_creator_receivable_account(p_ledger_id, v_debt.creator_id);
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata
+  ) VALUES (
+    p_ledger_id, 'creator_debt_write_off',
+    'creator_debt_write_off_' || v_debt.id,
+    'creator_debt',
+    'Bad debt written off for ' || v_debt.creator_id,
+    v_amount, v_debt.currency, 'completed', 'system',
+    jsonb_build_object(
+      'creator_id', v_debt.creator_id,
+      'creator_debt_id', v_debt.id,
+      'source_transaction_id', v_debt.source_transaction_id,
+      'reason', p_reason
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_expense_id, 'debit', v_amount, v_debt.currency);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_receivable_id, 'credit', v_amount, v_debt.currency);
+
+  UPDATE public.creator_debts
+     SET written_off_amount = written_off_amount + v_amount,
+         write_off_transaction_id = v_tx_id,
+         status = 'written_off',
+         settled_at = now(),
+         metadata = metadata || jsonb_build_object('write_off_reason', p_reason),
+         updated_at = now()
+   WHERE id = v_debt.id;
+
+  INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+  VALUES (
+    p_ledger_id, v_tx_id, v_debt.debt_transaction_id, 'adjustment', v_amount,
+    jsonb_build_object('creator_debt_id', v_debt.id, 'creator_id', v_debt.creator_id)
+  )
+  ON CONFLICT DO NOTHING;
+
+  out_debt_id := v_debt.id;
+  out_transaction_id := v_tx_id;
+  out_amount := v_amount;
+  RETURN NEXT;
+END;
+$function$;
+
+-- Sweeps recoveries for every creator with an open debt, for earnings
+-- posted by paths that do not recover inline (checkout, subscriptions,
+-- split credits, won disputes).
+CREATE OR REPLACE FUNCTION public.recover_outstanding_creator_debts(p_limit integer DEFAULT 200)
+RETURNS TABLE(out_ledger_id uuid, out_creator_id text, out_transaction_id uuid, out_amount numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_creator RECORD;
+BEGIN
+  FOR v_creator IN
+    SELECT d.ledger_id, d.creator_id
+    FROM public.creator_debts d
+    WHERE d.status = 'outstanding'
+    GROUP BY d.ledger_id, d.creator_id
+    ORDER BY MIN(d.created_at)
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 200), 1), 1000)
+  LOOP
+    RETURN QUERY
+    SELECT v_creator.ledger_id, v_creator.creator_id, r.out_transaction_id, SUM(r.out_amount)
+    FROM public.recover_creator_debts(v_creator.ledger_id, v_creator.creator_id) r
+    GROUP BY r.out_transaction_id;
+  END LOOP;
+END;
+$function$;
+
+-- Writes off open debts older than their ledger's
+-- settings.negative_balance_write_off_days. Ledgers without the setting
+-- never write off automatically. SKIP LOCKED keeps overlapping runs apart.
+-- p_as_of defaults to now().
+CREATE OR REPLACE FUNCTION public.write_off_aged_creator_debts(
+  p_as_of timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 200
+)
+RETURNS TABLE(out_debt_id uuid, out_ledger_id uuid, out_transaction_id uuid, out_amount numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_debt RECORD;
+  v_write_off RECORD;
+BEGIN
+  FOR v_debt IN
+    SELECT d.id, d.ledger_id
+    FROM public.creator_debts d
+    JOIN public.ledgers l ON l.id = d.ledger_id
+    WHERE d.status = 'outstanding'
+      AND COALESCE(l.settings->>'negative_balance_write_off_days', '') ~ '^[0-9]+$'
+      AND d.created_at <= COALESCE(p_as_of, now())
+        - make_interval(days => (l.settings->>'negative_balance_write_off_days')::integer)
+    ORDER BY d.created_at
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 200), 1), 1000)
+    FOR UPDATE OF d SKIP LOCKED
+  LOOP
+    SELECT * INTO v_write_off
+    FROM public.write_off_creator_debt(v_debt.ledger_id, v_debt.id, 'aged');
+
+    out_debt_id := v_debt.id;
+    out_ledger_id := v_debt.ledger_id;
+    out_transaction_id := v_write_off.out_transaction_id;
+    out_amount := v_write_off.out_amount;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- ============================================================
+-- 6. creator_receivables_aging
+-- ============================================================
+-- Outstanding creator debt per creator, bucketed by the age of each debt
+-- as of p_as_of (now() when NULL).
+CREATE OR REPLACE FUNCTION public.creator_receivables_aging(
+  p_ledger_id uuid,
+  p_as_of timestamptz DEFAULT NULL
+)
+RETURNS TABLE(
+  out_creator_id text,
+  out_debt_count integer,
+  out_outstanding numeric,
+  out_current numeric,
+  out_days_31_60 numeric,
+  out_days_61_90 numeric,
+  out_days_over_90 numeric,
+  out_oldest_debt_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  WITH open_debts AS (
+    SELECT
+      d.creator_id,
+      d.created_at,
+      d.amount - d.recovered_amount - d.written_off_amount AS remaining,
+      EXTRACT(DAY FROM COALESCE(p_as_of, now()) - d.created_at) AS age_days
+    FROM public.creator_debts d
+    WHERE d.ledger_id = p_ledger_id
+      AND d.status = 'outstanding'
+      AND d.created_at <= COALESCE(p_as_of, now())
+  )
+  SELECT
+    creator_id,
+    COUNT(*)::integer,
+    SUM(remaining)::numeric(14,2),
+    COALESCE(SUM(remaining) FILTER (WHERE age_days <= 30), 0)::numeric(14,2),
+    COALESCE(SUM(remaining) FILTER (WHERE age_days > 30 AND age_days <= 60), 0)::numeric(14,2),
+    COALESCE(SUM(remaining) FILTER (WHERE age_days > 60 AND age_days <= 90), 0)::numeric(14,2),
+    COALESCE(SUM(remaining) FILTER (WHERE age_days > 90), 0)::numeric(14,2),
+    MIN(created_at)
+  FROM open_debts
+  GROUP BY creator_id
+  ORDER BY SUM(remaining) DESC, creator_id
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_or_create_creator_receivable_account(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_creator_receivable_account(uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.get_or_create_bad_debt_account(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_bad_debt_account(uuid) TO service_role;
+REVOKE ALL ON FUNCTION public.record_creator_debts(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_creator_debts(uuid, uuid) TO service_role;
+REVOKE ALL ON FUNCTION public.recover_creator_debts(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recover_creator_debts(uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.write_off_creator_debt(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.write_off_creator_debt(uuid, uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.recover_outstanding_creator_debts(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recover_outstanding_creator_debts(integer) TO service_role;
+REVOKE ALL ON FUNCTION public.write_off_aged_creator_debts(timestamptz, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.write_off_aged_creator_debts(timestamptz, integer) TO service_role;
+REVOKE ALL ON FUNCTION public.creator_receivables_aging(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.creator_receivables_aging(uuid, timestamptz) TO service_role;
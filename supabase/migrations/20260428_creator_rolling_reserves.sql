@@ -0,0 +1,646 @@
+-- Rolling reserves per creator.
+-- OrgCapabilities.reserve_percent holds one org-wide percentage of every
+-- sale through apply_payout_hold. A creator reserve policy replaces it for
+-- one participant with their own percentage and hold period, e.g. 10% for
+-- 90 days.
+--
+-- Each sale's reserved slice is moved from the creator's creator_balance to
+-- a per-creator reserve sub-account (account_type reserve, entity_id =
+-- creator id) and tracked as a creator_reserve_tranches row with its own
+-- release date. The release-expired-holds cron calls
+-- release_due_creator_reserves to move due tranches back to creator_balance.
+-- Hold and release postings are linked in transaction_links to the sale and
+-- the hold they settle.
+
+-- ============================================================
+-- 1. creator_reserve_policies
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.creator_reserve_policies (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  creator_id text NOT NULL,
+  reserve_percent numeric(5,2) NOT NULL,
+  hold_days integer NOT NULL,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT creator_reserve_policies_percent_check CHECK (reserve_percent > 0 AND reserve_percent <= 100),
+  CONSTRAINT creator_reserve_policies_days_check CHECK (hold_days >= 1 AND hold_days <= 730),
+  CONSTRAINT creator_reserve_policies_creator_unique UNIQUE (ledger_id, creator_id)
+);
+
+COMMENT ON TABLE public.creator_reserve_policies IS 'Per-creator rolling reserve: percent of each sale held for hold_days. Replaces the org-wide reserve_percent for that creator';
+
+ALTER TABLE public.creator_reserve_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS creator_reserve_policies_service_all ON public.creator_reserve_policies;
+CREATE POLICY creator_reserve_policies_service_all ON public.creator_reserve_policies
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS creator_reserve_policies_read_org_members ON public.creator_reserve_policies;
+CREATE POLICY creator_reserve_policies_read_org_members
+  ON public.creator_reserve_policies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = creator_reserve_policies.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 2. creator_reserve_tranches
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.creator_reserve_tranches (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  creator_id text NOT NULL,
+  sale_transaction_id uuid NOT NULL REFERENCES public.transactions(id),
+  hold_transaction_id uuid REFERENCES public.transactions(id),
+  release_transaction_id uuid REFERENCES public.transactions(id),
+  currency text NOT NULL,
+  amount numeric(14,2) NOT NULL,
+  reserve_percent numeric(5,2) NOT NULL,
+  release_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'held',
+  released_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT creator_reserve_tranches_status_check CHECK (status IN ('held', 'released')),
+  CONSTRAINT creator_reserve_tranches_amount_check CHECK (amount > 0),
+  CONSTRAINT creator_reserve_tranches_sale_unique UNIQUE (sale_transaction_id, creator_id)
+);
+
+COMMENT ON TABLE public.creator_reserve_tranches IS 'One sale''s reserved slice, held in the creator reserve sub-account until release_at';
+COMMENT ON COLUMN public.creator_reserve_tranches.amount IS 'Functional-currency amount moved from creator_balance to the creator reserve';
+
+CREATE INDEX IF NOT EXISTS idx_creator_reserve_tranches_due
+  ON public.creator_reserve_tranches (release_at)
+  WHERE status = 'held';
+
+CREATE INDEX IF NOT EXISTS idx_creator_reserve_tranches_creator
+  ON public.creator_reserve_tranches (ledger_id, creator_id, status, release_at);
+
+ALTER TABLE public.creator_reserve_tranches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS creator_reserve_tranches_service_all ON public.creator_reserve_tranches;
+CREATE POLICY creator_reserve_tranches_service_all ON public.creator_reserve_tranches
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS creator_reserve_tranches_read_org_members ON public.creator_reserve_tranches;
+CREATE POLICY creator_reserve_tranches_read_org_members
+  ON public.creator_reserve_tranches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = creator_reserve_tranches.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 3. Reserve sub-account
+-- ============================================================
+-- One reserve per creator. entity_type stays off 'creator' so lookups of a
+-- participant's creator_balance by entity_id alone still find one row.
+CREATE OR REPLACE FUNCTION public.get_or_create_creator_reserve_account(
+  p_ledger_id uuid,
+  p_creator_id text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'reserve'
+    AND entity_id = p_creator_id;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_type, entity_id, name, currency, metadata
+    ) VALUES (
+      p_ledger_id, 'reserve', 'business', p_creator_id,
+      'Creator Reserve - ' || p_creator_id,
+      public.ledger_functional_currency(p_ledger_id),
+      jsonb_build_object('reserve_type', 'creator_rolling_reserve')
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$function$;
+
+-- ============================================================
+-- 4. apply_creator_reserve
+-- ============================================================
+-- Holds the creator's reserve percent of what the sale credited to their
+-- creator_balance. Returns nothing when the creator has no policy or the
+-- sale credited them nothing; an existing tranche is returned with
+-- out_created = false.
+CREATE OR REPLACE FUNCTION public.apply_creator_reserve(
+  p_ledger_id uuid,
+  p_transaction_id uuid,
+  p_creator_id text
+)
+RETURNS TABLE(
+  out_tranche_id uuid,
+  out_hold_transaction_id uuid,
+  out_amount numeric,
+  out_release_at timestamptz,
+  out_created boolean
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_existing RECORD;
+  v_policy RECORD;
+  v_sale RECORD;
+  v_account_id UUID;
+  v_reserve_id UUID;
+  v_credited NUMERIC(14,2);
+  v_amount NUMERIC(14,2);
+  v_release_at TIMESTAMPTZ;
+  v_currency TEXT;
+  v_tx_id UUID;
+  v_tranche_id UUID;
+BEGIN
+  SELECT r.id, r.hold_transaction_id, r.amount, r.release_at INTO v_existing
+  FROM public.creator_reserve_tranches r
+  WHERE r.sale_transaction_id = p_transaction_id
+    AND r.creator_id = p_creator_id;
+
+  IF v_existing.id IS NOT NULL THEN
+    out_tranche_id := v_existing.id;
+    out_hold_transaction_id := v_existing.hold_transaction_id;
+    out_amount := v_existing.amount;
+    out_release_at := v_existing.release_at;
+    out_created := FALSE;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT p.reserve_percent, p.hold_days INTO v_policy
+  FROM public.creator_reserve_policies p
+  WHERE p.ledger_id = p_ledger_id
+    AND p.creator_id = p_creator_id;
+
+  IF v_policy.reserve_percent IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT t.id, t.reference_id, t.created_at INTO v_sale
+  FROM public.transactions t
+  WHERE t.id = p_transaction_id
+    AND t.ledger_id = p_ledger_id
+    AND t.status = 'completed';
+
+  IF v_sale.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT a.id INTO v_account_id
+  FROM public.accounts a
+  WHERE a.ledger_id = p_ledger_id
+    AND a.account_type = 'creator_balance'
+    AND a.entity_id = p_creator_id;
+
+  IF v_account_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE -e.amount END), 0)
+    INTO v_credited
+    FROM public.entries e
+   WHERE e.transaction_id = p_transaction_id
+     AND e.account_id = v_account_id;
+
+  v_amount := ROUND(v_credited * v_policy.reserve_percent / 100, 2);
+  IF v_amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  v_release_at := v_sale.created_at + make_interval(days => v_policy.hold_days);
+  v_currency := public.ledger_functional_currency(p_ledger_id);
+  v_reserve_id := public.get_or_create_creator_reserve_account(p_ledger_id, p_creator_id);
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata
+  ) VALUES (
+    p_ledger_id, 'creator_reserve_hold',
+    'creator_reserve_' || p_transaction_id || '_' || p_creator_id,
+    'creator_reserve',
+    v_policy.reserve_percent || '% reserve on ' || COALESCE(v_sale.reference_id, p_transaction_id::text)
+      || ' until ' || to_char(v_release_at, 'YYYY-MM-DD'),
+    v_amount, v_currency, 'completed', 'system',
+    jsonb_build_object(
+      'creator_id', p_creator_id,
+      'sale_transaction_id', p_transaction_id,
+      'reserve_percent', v_policy.reserve_percent,
+      'hold_days', v_policy.hold_days,
+      'release_at', v_release_at
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_account_id, 'debit', v_amount, v_currency);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_reserve_id, 'credit', v_amount, v_currency);
+
+  INSERT INTO public.creator_reserve_tranches (
+    ledger_id, creator_id, sale_transaction_id, hold_transaction_id,
+    currency, amount, reserve_percent, release_at
+  ) VALUES (
+    p_ledger_id, p_creator_id, p_transaction_id, v_tx_id,
+    v_currency, v_amount, v_policy.reserve_percent, v_release_at
+  )
+  RETURNING id INTO v_tranche_id;
+
+  INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+  VALUES (
+    p_ledger_id, v_tx_id, p_transaction_id, 'adjustment', v_amount,
+    jsonb_build_object('creator_reserve_tranche_id', v_tranche_id, 'creator_id', p_creator_id)
+  )
+  ON CONFLICT DO NOTHING;
+
+  out_tranche_id := v_tranche_id;
+  out_hold_transaction_id := v_tx_id;
+  out_amount := v_amount;
+  out_release_at := v_release_at;
+  out_created := TRUE;
+  RETURN NEXT;
+END;
+$function$;
+
+-- ============================================================
+-- 5. release_due_creator_reserves
+-- ============================================================
+-- Called by the release-expired-holds cron. Moves every tranche whose
+-- release date has passed from the creator reserve back to creator_balance.
+-- SKIP LOCKED keeps overlapping runs apart.
+CREATE OR REPLACE FUNCTION public.release_due_creator_reserves(
+  p_as_of timestamptz DEFAULT NOW(),
+  p_limit integer DEFAULT 500
+)
+RETURNS TABLE(
+  out_tranche_id uuid,
+  out_ledger_id uuid,
+  out_creator_id text,
+  out_transaction_id uuid,
+  out_amount numeric
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_tranche RECORD;
+  v_account_id UUID;
+  v_reserve_id UUID;
+  v_tx_id UUID;
+BEGIN
+  FOR v_tranche IN
+    SELECT r.*
+    FROM public.creator_reserve_tranches r
+    WHERE r.status = 'held'
+      AND r.release_at <= COALESCE(p_as_of, NOW())
+    ORDER BY r.release_at, r.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 5000)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT a.id INTO v_account_id
+    FROM public.accounts a
+    WHERE a.ledger_id = v_tranche.ledger_id
+      AND a.account_type = 'creator_balance'
+      AND a.entity_id = v_tranche.creator_id;
+
+    IF v_account_id IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    v_reserve_id := public.get_or_create_creator_reserve_account(v_tranche.ledger_id, v_tranche.creator_id);
+
+    INSERT INTO public.transactions (
+      ledger_id, transaction_type, reference_id, reference_type,
+      description, amount, currency, status, entry_method, metadata
+    ) VALUES (
+      v_tranche.ledger_id, 'creator_reserve_release',
+      'creator_reserve_release_' || v_tranche.id,
+      'creator_reserve',
+      'Reserve released to ' || v_tranche.creator_id,
+      v_tranche.amount, v_tranche.currency, 'completed', 'system',
+      jsonb_build_object(
+        'creator_id', v_tranche.creator_id,
+        'creator_reserve_tranche_id', v_tranche.id,
+        'sale_transaction_id', v_tranche.sale_transaction_id
+      )
+    )
+    RETURNING id INTO v_tx_id;
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_reserve_id, 'debit', v_tranche.amount, v_tranche.currency);
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_account_id, 'credit', v_tranche.amount, v_tranche.currency);
+
+    UPDATE public.creator_reserve_tranches
+       SET status = 'released',
+           release_transaction_id = v_tx_id,
+           released_at = NOW(),
+           updated_at = NOW()
+     WHERE id = v_tranche.id;
+
+    INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+    VALUES (
+      v_tranche.ledger_id, v_tx_id, v_tranche.hold_transaction_id, 'reversal', v_tranche.amount,
+      jsonb_build_object('creator_reserve_tranche_id', v_tranche.id, 'creator_id', v_tranche.creator_id)
+    )
+    ON CONFLICT DO NOTHING;
+
+    out_tranche_id := v_tranche.id;
+    out_ledger_id := v_tranche.ledger_id;
+    out_creator_id := v_tranche.creator_id;
+    out_transaction_id := v_tx_id;
+    out_amount := v_tranche.amount;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- ============================================================
+-- 6. creator_reserve_summary
+-- ============================================================
+-- Held reserve per creator with the next release, for every creator with a
+-- policy or a held tranche.
+CREATE OR REPLACE FUNCTION public.creator_reserve_summary(
+  p_ledger_id uuid,
+  p_creator_id text DEFAULT NULL
+)
+RETURNS TABLE(
+  out_creator_id text,
+  out_reserve_percent numeric,
+  out_hold_days integer,
+  out_held_amount numeric,
+  out_held_tranches integer,
+  out_released_amount numeric,
+  out_next_release_at timestamptz,
+  out_next_release_amount numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+  WITH creators AS (
+    SELECT p.creator_id
+    FROM public.creator_reserve_policies p
+    WHERE p.ledger_id = p_ledger_id
+    UNION
+    SELECT r.creator_id
+    FROM public.creator_reserve_tranches r
+    WHERE r.ledger_id = p_ledger_id
+      AND r.status = 'held'
+  ),
+  totals AS (
+    SELECT
+      r.creator_id,
+      COALESCE(SUM(r.amount) FILTER (WHERE r.status = 'held'), 0) AS held_amount,
+      COUNT(*) FILTER (WHERE r.status = 'held') AS held_tranches,
+      COALESCE(SUM(r.amount) FILTER (WHERE r.status = 'released'), 0) AS released_amount,
+      MIN(r.release_at) FILTER (WHERE r.status = 'held') AS next_release_at
+    FROM public.creator_reserve_tranches r
+    WHERE r.ledger_id = p_ledger_id
+    GROUP BY r.creator_id
+  )
+  SELECT
+    c.creator_id,
+    p.reserve_percent,
+    p.hold_days,
+    COALESCE(t.held_amount, 0)::numeric(14,2),
+    COALESCE(t.held_tranches, 0)::integer,
+    COALESCE(t.released_amount, 0)::numeric(14,2),
+    t.next_release_at,
+    (
+      SELECT COALESCE(SUM(r.amount), 0)::numeric(14,2)
+      FROM public.creator_reserve_tranches r
+      WHERE r.ledger_id = p_ledger_id
+        AND r.creator_id = c.creator_id
+        AND r.status = 'held'
+        AND r.release_at = t.next_release_at
+    )
+  FROM creators c
+  LEFT JOIN public.creator_reserve_policies p
+    ON p.ledger_id = p_ledger_id AND p.creator_id = c.creator_id
+  LEFT JOIN totals t ON t.creator_id = c.creator_id
+  WHERE p_creator_id IS NULL OR c.creator_id = p_creator_id
+  ORDER BY COALESCE(t.held_amount, 0) DESC, c.creator_id
+$function$;
+
+-- ============================================================
+-- 7. recover_creator_debts: net reserve holds out of credits
+-- ============================================================
+-- A sale credits creator_balance in full and its reserve is debited back
+-- out; the reserve is credited again when released. Count earnings since
+-- the oldest open debt net of reserve holds so a reserved slice is not
+-- counted twice.
+CREATE OR REPLACE FUNCTION public.recover_creator_debts(
+  p_ledger_id uuid,
+  p_creator_id text
+)
+RETURNS TABLE(
+  out_debt_id uuid,
+  out_transaction_id uuid,
+  out_debt_transaction_id uuid,
+  out_amount numeric,
+  out_status text
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account RECORD;
+  v_debt RECORD;
+  v_percent NUMERIC;
+  v_since TIMESTAMPTZ;
+  v_outstanding NUMERIC(14,2);
+  v_credited NUMERIC(14,2);
+  v_reserved NUMERIC(14,2);
+  v_recovered NUMERIC(14,2);
+  v_held NUMERIC(14,2);
+  v_amount NUMERIC(14,2);
+  v_left NUMERIC(14,2);
+  v_apply NUMERIC(14,2);
+  v_currency TEXT;
+  v_receivable_id UUID;
+  v_tx_id UUID;
+BEGIN
+  SELECT a.id, a.balance INTO v_account
+  FROM public.accounts a
+  WHERE a.ledger_id = p_ledger_id
+    AND a.account_type = 'creator_balance'
+    AND a.entity_id = p_creator_id
+  FOR UPDATE;
+
+  IF v_account.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT MIN(d.created_at), COALESCE(SUM(d.amount - d.recovered_amount - d.written_off_amount), 0)
+    INTO v_since, v_outstanding
+    FROM public.creator_debts d
+   WHERE d.ledger_id = p_ledger_id
+     AND d.creator_id = p_creator_id
+     AND d.status = 'outstanding';
+
+  IF v_since IS NULL OR v_outstanding <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT CASE
+           WHEN COALESCE(l.settings->>'negative_balance_recovery_percent', '') ~ '^[0-9]+(\.[0-9]+)?$'
+             THEN LEAST((l.settings->>'negative_balance_recovery_percent')::numeric, 100)
+           ELSE 100
+         END
+    INTO v_percent
+    FROM public.ledgers l
+   WHERE l.id = p_ledger_id;
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_credited
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+   WHERE e.account_id = v_account.id
+     AND e.entry_type = 'credit'
+     AND t.created_at >= v_since
+     AND t.status NOT IN ('voided', 'reversed')
+     AND t.transaction_type NOT IN ('creator_debt', 'creator_debt_recovery');
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_reserved
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+   WHERE e.account_id = v_account.id
+     AND e.entry_type = 'debit'
+     AND t.created_at >= v_since
+     AND t.transaction_type = 'creator_reserve_hold';
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_recovered
+    FROM public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+   WHERE e.account_id = v_account.id
+     AND e.entry_type = 'debit'
+     AND t.created_at >= v_since
+     AND t.transaction_type = 'creator_debt_recovery';
+
+  SELECT COALESCE(SUM(h.held_amount - h.released_amount), 0) INTO v_held
+    FROM public.held_funds h
+   WHERE h.ledger_id = p_ledger_id
+     AND h.creator_id = p_creator_id
+     AND h.status IN ('held', 'partial');
+
+  v_amount := LEAST(
+    v_outstanding,
+    ROUND((v_credited - v_reserved) * v_percent / 100, 2) - v_recovered,
+    v_account.balance - v_held
+  );
+
+  IF v_amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  v_currency := public.ledger_functional_currency(p_ledger_id);
+  v_receivable_id := public.get_or_create_creator_receivable_account(p_ledger_id, p_creator_id);
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata
+  ) VALUES (
+    p_ledger_id, 'creator_debt_recovery',
+    'creator_debt_recovery_' || gen_random_uuid(),
+    'creator_debt',
+    'Negative balance recovered from ' || p_creator_id || ' earnings',
+    v_amount, v_currency, 'completed', 'system',
+    jsonb_build_object('creator_id', p_creator_id, 'recovery_percent', v_percent)
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_account.id, 'debit', v_amount, v_currency);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_receivable_id, 'credit', v_amount, v_currency);
+
+  v_left := v_amount;
+  FOR v_debt IN
+    SELECT d.*
+    FROM public.creator_debts d
+    WHERE d.ledger_id = p_ledger_id
+      AND d.creator_id = p_creator_id
+      AND d.status = 'outstanding'
+    ORDER BY d.created_at, d.id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+
+    v_apply := LEAST(v_left, v_debt.amount - v_debt.recovered_amount - v_debt.written_off_amount);
+    v_left := v_left - v_apply;
+
+    UPDATE public.creator_debts
+       SET recovered_amount = recovered_amount + v_apply,
+           status = CASE
+             WHEN recovered_amount + v_apply + written_off_amount >= amount THEN 'recovered'
+             ELSE status
+           END,
+           settled_at = CASE
+             WHEN recovered_amount + v_apply + written_off_amount >= amount THEN NOW()
+             ELSE settled_at
+           END,
+           updated_at = NOW()
+     WHERE id = v_debt.id
+     RETURNING status INTO out_status;
+
+    INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+    VALUES (
+      p_ledger_id, v_tx_id, v_debt.debt_transaction_id, 'adjustment', v_apply,
+      jsonb_build_object('creator_debt_id', v_debt.id, 'creator_id', p_creator_id)
+    )
+    ON CONFLICT DO NOTHING;
+
+    out_debt_id := v_debt.id;
+    out_transaction_id := v_tx_id;
+    out_debt_transaction_id := v_debt.debt_transaction_id;
+    out_amount := v_apply;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_or_create_creator_reserve_account(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_creator_reserve_account(uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.apply_creator_reserve(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_creator_reserve(uuid, uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.release_due_creator_reserves(timestamptz, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_due_creator_reserves(timestamptz, integer) TO service_role;
+REVOKE ALL ON FUNCTION public.creator_reserve_summary(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.creator_reserve_summary(uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.recover_creator_debts(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recover_creator_debts(uuid, text) TO service_role;
@@ -0,0 +1,786 @@
+-- Gift cards and promo codes on the consumer_credit wallet.
+-- Credits (credits/index.ts) are issued programmatically per user. These are
+-- redeemable codes generated in batches with a denomination, currency and
+-- expiry:
+--   gift_card — single-use stored value, sold when the batch is issued.
+--               Issue:      DR cash → CR gift_card_liability
+--               Redeem:     DR gift_card_liability → CR user_wallet
+--               Expire:     DR gift_card_liability → CR Gift Card Breakage (revenue)
+--               Void:       DR gift_card_liability → CR cash
+--   promo     — multi-use marketing code, once per customer, no liability
+--               until redeemed.
+--               Redeem:     DR platform_marketing_expense → CR user_wallet
+--
+-- Redemption attempts are logged so repeated failures by one customer are
+-- throttled. Redemption, breakage and void postings are linked to the
+-- batch's issue transaction in transaction_links.
+
+-- ============================================================
+-- 1. gift_code_batches
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.gift_code_batches (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  kind text NOT NULL,
+  name text NOT NULL,
+  denomination numeric(14,2) NOT NULL,
+  currency text NOT NULL,
+  code_count integer NOT NULL,
+  max_redemptions integer,
+  expires_at timestamptz,
+  status text NOT NULL DEFAULT 'active',
+  issue_transaction_id uuid REFERENCES public.transactions(id),
+  exported_at timestamptz,
+  voided_at timestamptz,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT gift_code_batches_kind_check CHECK (kind IN ('gift_card', 'promo')),
+  CONSTRAINT gift_code_batches_status_check CHECK (status IN ('active', 'voided')),
+  CONSTRAINT gift_code_batches_denomination_check CHECK (denomination > 0),
+  CONSTRAINT gift_code_batches_count_check CHECK (code_count >= 1 AND code_count <= 10000),
+  CONSTRAINT gift_code_batches_redemptions_check CHECK (
+    (kind = 'gift_card' AND max_redemptions = 1)
+    OR (kind = 'promo' AND (max_redemptions IS NULL OR max_redemptions >= 1))
+  )
+);
+
+COMMENT ON TABLE public.gift_code_batches IS 'One issuance of gift card or promo codes sharing a denomination, currency and expiry';
+COMMENT ON COLUMN public.gift_code_batches.denomination IS 'Face value of each code in the functional currency (major units)';
+COMMENT ON COLUMN public.gift_code_batches.max_redemptions IS 'Redemptions allowed per code: 1 for gift cards, NULL for unlimited promo codes';
+
+CREATE INDEX IF NOT EXISTS idx_gift_code_batches_ledger
+  ON public.gift_code_batches (ledger_id, created_at DESC);
+
+-- ============================================================
+-- 2. gift_codes
+-- ============================================================
+-- Codes are kept as issued so a batch can be exported again; reads are
+-- limited to the service role and the ledger's organization members.
+CREATE TABLE IF NOT EXISTS public.gift_codes (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  batch_id uuid NOT NULL REFERENCES public.gift_code_batches(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  kind text NOT NULL,
+  denomination numeric(14,2) NOT NULL,
+  currency text NOT NULL,
+  max_redemptions integer,
+  redemption_count integer NOT NULL DEFAULT 0,
+  remaining_value numeric(14,2),
+  status text NOT NULL DEFAULT 'active',
+  expires_at timestamptz,
+  redeemed_at timestamptz,
+  voided_at timestamptz,
+  breakage_transaction_id uuid REFERENCES public.transactions(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT gift_codes_kind_check CHECK (kind IN ('gift_card', 'promo')),
+  CONSTRAINT gift_codes_status_check CHECK (status IN ('active', 'redeemed', 'expired', 'voided')),
+  CONSTRAINT gift_codes_code_check CHECK (code ~ '^[A-Z0-9-]{4,40}$'),
+  CONSTRAINT gift_codes_remaining_check CHECK (remaining_value IS NULL OR remaining_value >= 0),
+  CONSTRAINT gift_codes_code_unique UNIQUE (ledger_id, code)
+);
+
+COMMENT ON TABLE public.gift_codes IS 'A redeemable gift card or promo code. Gift cards carry remaining_value as gift_card_liability until redeemed, expired or voided';
+
+CREATE INDEX IF NOT EXISTS idx_gift_codes_batch
+  ON public.gift_codes (batch_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_gift_codes_expiring
+  ON public.gift_codes (expires_at)
+  WHERE status = 'active' AND expires_at IS NOT NULL;
+
+-- ============================================================
+-- 3. gift_code_redemptions
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.gift_code_redemptions (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  code_id uuid NOT NULL REFERENCES public.gift_codes(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  amount numeric(14,2) NOT NULL,
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT gift_code_redemptions_customer_unique UNIQUE (code_id, customer_id)
+);
+
+COMMENT ON TABLE public.gift_code_redemptions IS 'One customer redeeming one code into their consumer_credit wallet';
+
+CREATE INDEX IF NOT EXISTS idx_gift_code_redemptions_customer
+  ON public.gift_code_redemptions (ledger_id, customer_id, created_at DESC);
+
+-- ============================================================
+-- 4. gift_code_redemption_attempts
+-- ============================================================
+-- Every redemption attempt, so repeated failures by one customer can be
+-- throttled. Only the code's last four characters are kept.
+CREATE TABLE IF NOT EXISTS public.gift_code_redemption_attempts (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  code_suffix text,
+  outcome text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT gift_code_redemption_attempts_outcome_check CHECK (
+    outcome IN ('redeemed', 'not_found', 'expired', 'voided', 'already_redeemed', 'throttled')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_code_redemption_attempts_customer
+  ON public.gift_code_redemption_attempts (ledger_id, customer_id, created_at DESC);
+
+-- ============================================================
+-- 5. RLS
+-- ============================================================
+ALTER TABLE public.gift_code_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_code_redemptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_code_redemption_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS gift_code_batches_service_all ON public.gift_code_batches;
+CREATE POLICY gift_code_batches_service_all ON public.gift_code_batches
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS gift_code_batches_read_org_members ON public.gift_code_batches;
+CREATE POLICY gift_code_batches_read_org_members
+  ON public.gift_code_batches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = gift_code_batches.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS gift_codes_service_all ON public.gift_codes;
+CREATE POLICY gift_codes_service_all ON public.gift_codes
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS gift_codes_read_org_members ON public.gift_codes;
+CREATE POLICY gift_codes_read_org_members
+  ON public.gift_codes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = gift_codes.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS gift_code_redemptions_service_all ON public.gift_code_redemptions;
+CREATE POLICY gift_code_redemptions_service_all ON public.gift_code_redemptions
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS gift_code_redemptions_read_org_members ON public.gift_code_redemptions;
+CREATE POLICY gift_code_redemptions_read_org_members
+  ON public.gift_code_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = gift_code_redemptions.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS gift_code_redemption_attempts_service_all ON public.gift_code_redemption_attempts;
+CREATE POLICY gift_code_redemption_attempts_service_all ON public.gift_code_redemption_attempts
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================================
+-- 6. System accounts
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_or_create_gift_card_liability_account(p_ledger_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'gift_card_liability'
+  LIMIT 1;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_type, entity_id, name, currency
+    ) VALUES (
+      p_ledger_id, 'gift_card_liability', 'system', 'gift_card_liability', 'Gift Card Liability',
+      public.ledger_functional_currency(p_ledger_id)
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_or_create_gift_card_breakage_account(p_ledger_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'revenue'
+    AND entity_id = 'gift_card_breakage';
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_type, entity_id, name, currency, metadata
+    ) VALUES (
+      p_ledger_id, 'revenue', 'system', 'gift_card_breakage', 'Gift Card Breakage',
+      public.ledger_functional_currency(p_ledger_id),
+      jsonb_build_object('category', 'gift_card_breakage')
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$function$;
+
+-- ============================================================
+-- 7. create_gift_code_batch
+-- ============================================================
+-- Codes are generated by the caller. A gift card batch books its full face
+-- value as sold: DR cash, CR gift_card_liability.
+CREATE OR REPLACE FUNCTION public.create_gift_code_batch(
+  p_ledger_id uuid,
+  p_kind text,
+  p_name text,
+  p_denomination numeric,
+  p_codes text[],
+  p_max_redemptions integer DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(out_batch_id uuid, out_issue_transaction_id uuid, out_code_count integer, out_total_value numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_currency TEXT;
+  v_count INTEGER;
+  v_max INTEGER;
+  v_total NUMERIC(14,2);
+  v_batch_id UUID;
+  v_tx_id UUID;
+  v_cash_id UUID;
+  v_liability_id UUID;
+  v_inserted INTEGER;
+BEGIN
+  IF p_kind NOT IN ('gift_card', 'promo') THEN
+    RAISE EXCEPTION 'Invalid gift code kind: %', p_kind;
+  END IF;
+
+  v_count := COALESCE(array_length(p_codes, 1), 0);
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'At least one code is required';
+  END IF;
+
+  v_currency := public.ledger_functional_currency(p_ledger_id);
+  v_max := CASE WHEN p_kind = 'gift_card' THEN 1 ELSE p_max_redemptions END;
+  v_total := CASE WHEN p_kind = 'gift_card' THEN p_denomination * v_count ELSE 0 END;
+
+  INSERT INTO public.gift_code_batches (
+    ledger_id, kind, name, denomination, currency, code_count,
+    max_redemptions, expires_at, metadata
+  ) VALUES (
+    p_ledger_id, p_kind, p_name, p_denomination, v_currency, v_count,
+    v_max, p_expires_at, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_batch_id;
+
+  INSERT INTO public.gift_codes (
+    ledger_id, batch_id, code, kind, denomination, currency,
+    max_redemptions, remaining_value, expires_at
+  )
+  SELECT
+    p_ledger_id, v_batch_id, c.code, p_kind, p_denomination, v_currency,
+    v_max, CASE WHEN p_kind = 'gift_card' THEN p_denomination END, p_expires_at
+  FROM unnest(p_codes) AS c(code)
+  ON CONFLICT (ledger_id, code) DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  IF v_inserted <> v_count THEN
+    RAISE EXCEPTION 'Duplicate gift code in batch %', v_batch_id USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF p_kind = 'gift_card' THEN
+    SELECT id INTO v_cash_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'cash'
+      AND entity_id IS NULL
+    LIMIT 1;
+
+    IF v_cash_id IS NULL THEN
+      RAISE EXCEPTION 'Cash account not initialized for ledger %', p_ledger_id;
+    END IF;
+
+    v_liability_id := public.get_or_create_gift_card_liability_account(p_ledger_id);
+
+    INSERT INTO public.transactions (
+      ledger_id, transaction_type, reference_id, reference_type,
+      description, amount, currency, status, entry_method, metadata
+    ) VALUES (
+      p_ledger_id, 'gift_card_issue',
+      'gift_card_issue_' || v_batch_id,
+      'gift_code_batch',
+      'Gift cards issued: ' || p_name || ' (' || v_count || ' x ' || p_denomination || ')',
+      v_total, v_currency, 'completed', 'system',
+      jsonb_build_object('gift_code_batch_id', v_batch_id, 'code_count', v_count, 'denomination', p_denomination)
+    )
+    RETURNING id INTO v_tx_id;
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_cash_id, 'debit', v_total, v_currency);
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_liability_id, 'credit', v_total, v_currency);
+
+    UPDATE public.gift_code_batches
+       SET issue_transaction_id = v_tx_id
+     WHERE id = v_batch_id;
+  END IF;
+
+  out_batch_id := v_batch_id;
+  out_issue_transaction_id := v_tx_id;
+  out_code_count := v_count;
+  out_total_value := v_total;
+  RETURN NEXT;
+END;
+$function$;
+
+-- ============================================================
+-- 8. redeem_gift_code
+-- ============================================================
+-- Never raises for a bad code: the attempt is logged and returned as a
+-- status so failures count toward the customer's throttle.
+CREATE OR REPLACE FUNCTION public.redeem_gift_code(
+  p_ledger_id uuid,
+  p_code text,
+  p_customer_id text,
+  p_max_failures integer DEFAULT 5,
+  p_window_minutes integer DEFAULT 15
+)
+RETURNS TABLE(
+  out_status text,
+  out_code_id uuid,
+  out_kind text,
+  out_transaction_id uuid,
+  out_amount numeric,
+  out_currency text,
+  out_wallet_account_id uuid,
+  out_wallet_balance numeric
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_failures INTEGER;
+  v_code RECORD;
+  v_batch RECORD;
+  v_status TEXT;
+  v_amount NUMERIC(14,2);
+  v_wallet_id UUID;
+  v_source_id UUID;
+  v_tx_id UUID;
+BEGIN
+  SELECT COUNT(*) INTO v_failures
+  FROM public.gift_code_redemption_attempts a
+  WHERE a.ledger_id = p_ledger_id
+    AND a.customer_id = p_customer_id
+    AND a.outcome NOT IN ('redeemed', 'throttled')
+    AND a.created_at > now() - make_interval(mins => GREATEST(COALESCE(p_window_minutes, 15), 1));
+
+  IF v_failures >= GREATEST(COALESCE(p_max_failures, 5), 1) THEN
+    INSERT INTO public.gift_code_redemption_attempts (ledger_id, customer_id, code_suffix, outcome)
+    VALUES (p_ledger_id, p_customer_id, right(p_code, 4), 'throttled');
+    out_status := 'throttled';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_code
+  FROM public.gift_codes g
+  WHERE g.ledger_id = p_ledger_id
+    AND g.code = p_code
+  FOR UPDATE;
+
+  IF v_code.id IS NULL THEN
+    v_status := 'not_found';
+  ELSIF v_code.status = 'voided' THEN
+    v_status := 'voided';
+  ELSIF v_code.status = 'expired'
+     OR (v_code.status = 'active' AND v_code.expires_at IS NOT NULL AND v_code.expires_at <= now()) THEN
+    v_status := 'expired';
+  ELSIF v_code.status = 'redeemed'
+     OR EXISTS (
+       SELECT 1 FROM public.gift_code_redemptions r
+       WHERE r.code_id = v_code.id AND r.customer_id = p_customer_id
+     ) THEN
+    v_status := 'already_redeemed';
+  END IF;
+
+  IF v_status IS NOT NULL THEN
+    INSERT INTO public.gift_code_redemption_attempts (ledger_id, customer_id, code_suffix, outcome)
+    VALUES (p_ledger_id, p_customer_id, right(p_code, 4), v_status);
+    out_status := v_status;
+    out_code_id := v_code.id;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_amount := CASE WHEN v_code.kind = 'gift_card' THEN v_code.remaining_value ELSE v_code.denomination END;
+
+  -- Same consumer_credit wallet account wallet_deposit_atomic tops up
+  SELECT id INTO v_wallet_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'user_wallet'
+    AND entity_id = p_customer_id;
+
+  IF v_wallet_id IS NULL THEN
+    INSERT INTO public.accounts (ledger_id, account_type, entity_id, entity_type, name)
+    VALUES (p_ledger_id, 'user_wallet', p_customer_id, 'customer', 'User Wallet')
+    ON CONFLICT (ledger_id, account_type, entity_id) WHERE entity_id IS NOT NULL
+    DO NOTHING;
+
+    SELECT id INTO v_wallet_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'user_wallet'
+      AND entity_id = p_customer_id;
+  END IF;
+
+  IF v_code.kind = 'gift_card' THEN
+    v_source_id := public.get_or_create_gift_card_liability_account(p_ledger_id);
+  ELSE
+    SELECT id INTO v_source_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'platform_marketing_expense'
+    LIMIT 1;
+
+    IF v_source_id IS NULL THEN
+      INSERT INTO public.accounts (ledger_id, account_type, entity_type, entity_id, name)
+      VALUES (p_ledger_id, 'platform_marketing_expense', 'system', 'marketing_expense', 'Platform Marketing Expense')
+      RETURNING id INTO v_source_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata
+  ) VALUES (
+    p_ledger_id, 'gift_code_redemption',
+    'gift_code_redemption_' || v_code.id || '_' || p_customer_id,
+    'gift_code',
+    CASE WHEN v_code.kind = 'gift_card' THEN 'Gift card' ELSE 'Promo code' END
+      || ' ...' || right(v_code.code, 4) || ' redeemed by ' || p_customer_id,
+    v_amount, v_code.currency, 'completed', 'system',
+    jsonb_build_object(
+      'user_id', p_customer_id,
+      'operation', 'gift_code_redemption',
+      'gift_code_id', v_code.id,
+      'gift_code_batch_id', v_code.batch_id,
+      'kind', v_code.kind
+    )
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_source_id, 'debit', v_amount, v_code.currency);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_wallet_id, 'credit', v_amount, v_code.currency);
+
+  INSERT INTO public.gift_code_redemptions (ledger_id, code_id, customer_id, amount, transaction_id)
+  VALUES (p_ledger_id, v_code.id, p_customer_id, v_amount, v_tx_id);
+
+  UPDATE public.gift_codes
+     SET redemption_count = redemption_count + 1,
+         remaining_value = CASE WHEN kind = 'gift_card' THEN 0 ELSE remaining_value END,
+         status = CASE
+           WHEN max_redemptions IS NOT NULL AND redemption_count + 1 >= max_redemptions THEN 'redeemed'
+           ELSE status
+         END,
+         redeemed_at = now(),
+         updated_at = now()
+   WHERE id = v_code.id;
+
+  INSERT INTO public.gift_code_redemption_attempts (ledger_id, customer_id, code_suffix, outcome)
+  VALUES (p_ledger_id, p_customer_id, right(p_code, 4), 'redeemed');
+
+  SELECT b.issue_transaction_id INTO v_batch
+  FROM public.gift_code_batches b
+  WHERE b.id = v_code.batch_id;
+
+  IF v_batch.issue_transaction_id IS NOT NULL THEN
+    INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+    VALUES (
+      p_ledger_id, v_tx_id, v_batch.issue_transaction_id, 'adjustment', v_amount,
+      jsonb_build_object('gift_code_id', v_code.id, 'customer_id', p_customer_id)
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  out_status := 'redeemed';
+  out_code_id := v_code.id;
+  out_kind := v_code.kind;
+  out_transaction_id := v_tx_id;
+  out_amount := v_amount;
+  out_currency := v_code.currency;
+  out_wallet_account_id := v_wallet_id;
+  SELECT balance INTO out_wallet_balance FROM public.accounts WHERE id = v_wallet_id;
+  RETURN NEXT;
+END;
+$function$;
+
+-- ============================================================
+-- 9. void_gift_codes
+-- ============================================================
+-- Voids one code, or every active code in a batch. Unredeemed gift card
+-- value is refunded out of the liability: DR gift_card_liability, CR cash.
+CREATE OR REPLACE FUNCTION public.void_gift_codes(
+  p_ledger_id uuid,
+  p_batch_id uuid DEFAULT NULL,
+  p_code_id uuid DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS TABLE(out_voided_count integer, out_transaction_id uuid, out_amount numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_count INTEGER;
+  v_amount NUMERIC(14,2);
+  v_batch_ids UUID[];
+  v_issue_tx UUID;
+  v_currency TEXT;
+  v_cash_id UUID;
+  v_liability_id UUID;
+  v_tx_id UUID;
+BEGIN
+  IF (p_batch_id IS NULL) = (p_code_id IS NULL) THEN
+    RAISE EXCEPTION 'Exactly one of batch_id or code_id is required';
+  END IF;
+
+  WITH voided AS (
+    UPDATE public.gift_codes g
+       SET status = 'voided',
+           voided_at = now(),
+           updated_at = now()
+     WHERE g.ledger_id = p_ledger_id
+       AND g.status = 'active'
+       AND (p_batch_id IS NULL OR g.batch_id = p_batch_id)
+       AND (p_code_id IS NULL OR g.id = p_code_id)
+    RETURNING g.batch_id, g.kind, g.remaining_value
+  )
+  SELECT COUNT(*)::integer,
+         COALESCE(SUM(remaining_value) FILTER (WHERE kind = 'gift_card'), 0),
+         array_agg(DISTINCT batch_id)
+    INTO v_count, v_amount, v_batch_ids
+    FROM voided;
+
+  IF p_batch_id IS NOT NULL THEN
+    UPDATE public.gift_code_batches
+       SET status = 'voided',
+           voided_at = now(),
+           updated_at = now(),
+           metadata = metadata || jsonb_build_object('void_reason', p_reason)
+     WHERE id = p_batch_id
+       AND ledger_id = p_ledger_id;
+  END IF;
+
+  IF v_amount > 0 THEN
+    v_currency := public.ledger_functional_currency(p_ledger_id);
+    v_liability_id := public.get_or_create_gift_card_liability_account(p_ledger_id);
+
+    SELECT id INTO v_cash_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = 'cash'
+      AND entity_id IS NULL
+    LIMIT 1;
+
+    IF v_cash_id IS NULL THEN
+      RAISE EXCEPTION 'Cash account not initialized for ledger %', p_ledger_id;
+    END IF;
+
+    INSERT INTO public.transactions (
+      ledger_id, transaction_type, reference_id, reference_type,
+      description, amount, currency, status, entry_method, metadata
+    ) VALUES (
+      p_ledger_id, 'gift_card_void',
+      'gift_card_void_' || gen_random_uuid(),
+      'gift_code_batch',
+      'Gift cards voided (' || v_count || ')' || COALESCE(': ' || p_reason, ''),
+      v_amount, v_currency, 'completed', 'system',
+      jsonb_build_object(
+        'gift_code_batch_id', p_batch_id,
+        'gift_code_id', p_code_id,
+        'voided_count', v_count,
+        'reason', p_reason
+      )
+    )
+    RETURNING id INTO v_tx_id;
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_liability_id, 'debit', v_amount, v_currency);
+
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_cash_id, 'credit', v_amount, v_currency);
+
+    SELECT b.issue_transaction_id INTO v_issue_tx
+    FROM public.gift_code_batches b
+    WHERE b.id = v_batch_ids[1];
+
+    IF v_issue_tx IS NOT NULL THEN
+      INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+      VALUES (
+        p_ledger_id, v_tx_id, v_issue_tx, 'reversal', v_amount,
+        jsonb_build_object('voided_count', v_count)
+      )
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+
+  out_voided_count := v_count;
+  out_transaction_id := v_tx_id;
+  out_amount := v_amount;
+  RETURN NEXT;
+END;
+$function$;
+
+-- ============================================================
+-- 10. expire_gift_codes (cron)
+-- ============================================================
+-- Marks codes past their expiry as expired. What is left on an expired gift
+-- card is recognized as breakage: DR gift_card_liability, CR Gift Card
+-- Breakage. SKIP LOCKED keeps overlapping runs apart. p_as_of defaults to
+-- now().
+CREATE OR REPLACE FUNCTION public.expire_gift_codes(
+  p_as_of timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 500
+)
+RETURNS TABLE(out_code_id uuid, out_ledger_id uuid, out_kind text, out_transaction_id uuid, out_amount numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_code RECORD;
+  v_issue_tx UUID;
+  v_tx_id UUID;
+  v_liability_id UUID;
+  v_breakage_id UUID;
+BEGIN
+  FOR v_code IN
+    SELECT g.*
+    FROM public.gift_codes g
+    WHERE g.status = 'active'
+      AND g.expires_at IS NOT NULL
+      AND g.expires_at <= COALESCE(p_as_of, now())
+    ORDER BY g.expires_at, g.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 5000)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_tx_id := NULL;
+
+    IF v_code.kind = 'gift_card' AND COALESCE(v_code.remaining_value, 0) > 0 THEN
+      v_liability_id := public.get_or_create_gift_card_liability_account(v_code.ledger_id);
+      v_breakage_id := public.get_or_create_gift_card_breakage_account(v_code.ledger_id);
+
+      INSERT INTO public.transactions (
+        ledger_id, transaction_type, reference_id, reference_type,
+        description, amount, currency, status, entry_method, metadata
+      ) VALUES (
+        v_code.ledger_id, 'gift_card_breakage',
+        'gift_card_breakage_' || v_code.id,
+        'gift_code',
+        'Gift card ...' || right(v_code.code, 4) || ' expired unredeemed',
+        v_code.remaining_value, v_code.currency, 'completed', 'system',
+        jsonb_build_object('gift_code_id', v_code.id, 'gift_code_batch_id', v_code.batch_id)
+      )
+      RETURNING id INTO v_tx_id;
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      VALUES (v_tx_id, v_liability_id, 'debit', v_code.remaining_value, v_code.currency);
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      VALUES (v_tx_id, v_breakage_id, 'credit', v_code.remaining_value, v_code.currency);
+
+      SELECT b.issue_transaction_id INTO v_issue_tx
+      FROM public.gift_code_batches b
+      WHERE b.id = v_code.batch_id;
+
+      IF v_issue_tx IS NOT NULL THEN
+        INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+        VALUES (
+          v_code.ledger_id, v_tx_id, v_issue_tx, 'adjustment', v_code.remaining_value,
+          jsonb_build_object('gift_code_id', v_code.id)
+        )
+        ON CONFLICT DO NOTHING;
+      END IF;
+    END IF;
+
+    UPDATE public.gift_codes
+       SET status = 'expired',
+           remaining_value = CASE WHEN kind = 'gift_card' THEN 0 ELSE remaining_value END,
+           breakage_transaction_id = v_tx_id,
+           updated_at = now()
+     WHERE id = v_code.id;
+
+    out_code_id := v_code.id;
+    out_ledger_id := v_code.ledger_id;
+    out_kind := v_code.kind;
+    out_transaction_id := v_tx_id;
+    out_amount := CASE WHEN v_tx_id IS NULL THEN 0 ELSE v_code.remaining_value END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_or_create_gift_card_liability_account(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_gift_card_liability_account(uuid) TO service_role;
+REVOKE ALL ON FUNCTION public.get_or_create_gift_card_breakage_account(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_gift_card_breakage_account(uuid) TO service_role;
+REVOKE ALL ON FUNCTION public.create_gift_code_batch(uuid, text, text, numeric, text[], integer, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_gift_code_batch(uuid, text, text, numeric, text[], integer, timestamptz, jsonb) TO service_role;
+REVOKE ALL ON FUNCTION public.redeem_gift_code(uuid, text, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_gift_code(uuid, text, text, integer, integer) TO service_role;
+REVOKE ALL ON FUNCTION public.void_gift_codes(uuid, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.void_gift_codes(uuid, uuid, uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.expire_gift_codes(timestamptz, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_gift_codes(timestamptz, integer) TO service_role;
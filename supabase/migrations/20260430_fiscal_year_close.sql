@@ -0,0 +1,335 @@
+-- Fiscal year close: rolling net income into retained earnings.
+-- close-period with fiscal_year = true posts one fiscal_year_close
+-- transaction dated the last second of the fiscal year that zeroes every
+-- revenue, income, FX gain/loss and expense account as of that date and
+-- books the net to Retained Earnings, then closes the year as an annual
+-- accounting period. The fiscal year follows settings.fiscal_year_start
+-- (month, default January) and is named by the calendar year it ends in.
+--
+-- The closing posting may land in months that are already closed, so the
+-- period triggers let a fiscal_year_close transaction through while
+-- close_fiscal_year_books has set soledgic.fiscal_year_close for its own
+-- transaction. account_balances_for_period leaves closing transactions out
+-- so a P&L over a closed year still shows the year's income, and both
+-- balance RPCs now only count entries whose transaction is in range (the
+-- LEFT JOIN previously kept every entry regardless of date or status).
+
+-- ============================================================
+-- 1. Retained earnings account
+-- ============================================================
+-- Reuses a retained_earnings account the ledger already has (from a chart
+-- of accounts template or an opening balance) before creating one.
+CREATE OR REPLACE FUNCTION public.get_or_create_retained_earnings_account(p_ledger_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = 'retained_earnings'
+  ORDER BY (entity_id = 'retained_earnings') DESC NULLS LAST, created_at
+  LIMIT 1;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_type, entity_id, name, currency
+    ) VALUES (
+      p_ledger_id, 'retained_earnings', 'business', 'retained_earnings', 'Retained Earnings',
+      public.ledger_functional_currency(p_ledger_id)
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$function$;
+
+-- ============================================================
+-- 2. Period triggers
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.check_period_not_closed()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Closing entries are dated inside the year they close
+  IF NEW.transaction_type = 'fiscal_year_close'
+     AND current_setting('soledgic.fiscal_year_close', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_period_closed(NEW.ledger_id, NEW.created_at::date) THEN
+    RAISE EXCEPTION 'Cannot create transaction in closed period. Use a correcting entry in the current period.';
+  END IF;
+  RETURN NEW;
+END;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.check_period_lock()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_period RECORD;
+  v_tx_date DATE;
+BEGIN
+  IF TG_TABLE_NAME = 'transactions'
+     AND TG_OP = 'INSERT'
+     AND NEW.transaction_type = 'fiscal_year_close'
+     AND current_setting('soledgic.fiscal_year_close', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get transaction date
+  IF TG_TABLE_NAME = 'transactions' THEN
+    v_tx_date := COALESCE(NEW.created_at::date, CURRENT_DATE);
+  ELSIF TG_TABLE_NAME = 'entries' THEN
+    SELECT t.created_at::date INTO v_tx_date
+    FROM transactions t
+    WHERE t.id = NEW.transaction_id;
+  END IF;
+
+  -- Check if date falls in a locked period
+  SELECT * INTO v_period
+  FROM accounting_periods
+  WHERE ledger_id = NEW.ledger_id
+    AND v_tx_date BETWEEN period_start AND period_end
+    AND status = 'locked';
+
+  IF v_period IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot modify transactions in locked period: % to %',
+      v_period.period_start, v_period.period_end;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$
+;
+
+-- ============================================================
+-- 3. Balance RPCs
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.account_balances_as_of(p_ledger_id uuid, p_as_of_date timestamp with time zone DEFAULT now())
+ RETURNS TABLE(account_id uuid, account_name text, account_type text, entity_type text, balance numeric)
+ LANGUAGE sql
+ STABLE
+ SET search_path TO ''
+AS $function$
+  SELECT
+    a.id AS account_id,
+    a.name AS account_name,
+    a.account_type,
+    a.entity_type,
+    COALESCE(SUM(
+      CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE -e.amount END
+    ), 0)::NUMERIC(14,2) AS balance
+  FROM public.accounts a
+  LEFT JOIN (
+    public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+      AND t.ledger_id = p_ledger_id
+      AND t.status = 'completed'
+      AND t.created_at <= p_as_of_date
+  ) ON e.account_id = a.id
+  WHERE a.ledger_id = p_ledger_id
+  GROUP BY a.id, a.name, a.account_type, a.entity_type
+$function$
+;
+
+-- Income statement movements: closing entries are excluded so a closed
+-- year still reports the revenue and expenses it rolled into retained
+-- earnings.
+CREATE OR REPLACE FUNCTION public.account_balances_for_period(p_ledger_id uuid, p_start_date timestamp with time zone, p_end_date timestamp with time zone)
+ RETURNS TABLE(account_id uuid, account_name text, account_type text, balance numeric)
+ LANGUAGE sql
+ STABLE
+ SET search_path TO ''
+AS $function$
+  SELECT
+    a.id AS account_id,
+    a.name AS account_name,
+    a.account_type,
+    COALESCE(SUM(
+      CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE -e.amount END
+    ), 0)::NUMERIC(14,2) AS balance
+  FROM public.accounts a
+  LEFT JOIN (
+    public.entries e
+    JOIN public.transactions t ON t.id = e.transaction_id
+      AND t.ledger_id = p_ledger_id
+      AND t.status = 'completed'
+      AND t.transaction_type <> 'fiscal_year_close'
+      AND t.created_at >= p_start_date
+      AND t.created_at <= p_end_date
+  ) ON e.account_id = a.id
+  WHERE a.ledger_id = p_ledger_id
+  GROUP BY a.id, a.name, a.account_type
+$function$
+;
+
+-- ============================================================
+-- 4. close_fiscal_year_books
+-- ============================================================
+-- Posts the closing entries for one fiscal year. Every temporary account's
+-- balance as of the last second of the year (which includes any earlier
+-- year that was never closed) is reversed and the net lands in Retained
+-- Earnings: a credit for net income, a debit for a net loss. Idempotent
+-- per fiscal year: a second call returns the existing transaction.
+CREATE OR REPLACE FUNCTION public.close_fiscal_year_books(
+  p_ledger_id uuid,
+  p_fiscal_year integer,
+  p_period_start date,
+  p_period_end date
+)
+RETURNS TABLE(
+  out_transaction_id uuid,
+  out_retained_earnings_account_id uuid,
+  out_net_income numeric,
+  out_accounts_closed integer,
+  out_created boolean
+)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_reference TEXT := 'fiscal_year_close_' || p_fiscal_year;
+  v_closing_at TIMESTAMPTZ;
+  v_currency TEXT;
+  v_existing RECORD;
+  v_account RECORD;
+  v_balances JSONB;
+  v_retained_id UUID;
+  v_tx_id UUID;
+  v_net NUMERIC(14,2) := 0;
+  v_total NUMERIC(14,2) := 0;
+  v_count INTEGER := 0;
+BEGIN
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Fiscal year % ends before it starts', p_fiscal_year;
+  END IF;
+
+  -- One close at a time per ledger
+  PERFORM 1 FROM public.ledgers WHERE id = p_ledger_id FOR UPDATE;
+
+  SELECT t.id, t.metadata INTO v_existing
+  FROM public.transactions t
+  WHERE t.ledger_id = p_ledger_id
+    AND t.reference_id = v_reference
+    AND t.status = 'completed';
+
+  IF v_existing.id IS NOT NULL THEN
+    out_transaction_id := v_existing.id;
+    out_retained_earnings_account_id := NULLIF(v_existing.metadata->>'retained_earnings_account_id', '')::uuid;
+    out_net_income := COALESCE((v_existing.metadata->>'net_income')::numeric, 0);
+    out_accounts_closed := COALESCE((v_existing.metadata->>'accounts_closed')::integer, 0);
+    out_created := false;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_closing_at := (p_period_end::timestamp + interval '23 hours 59 minutes 59 seconds') AT TIME ZONE 'UTC';
+  v_currency := public.ledger_functional_currency(p_ledger_id);
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('account_id', b.account_id, 'balance', b.balance)), '[]'::jsonb),
+    COALESCE(SUM(b.balance), 0),
+    COALESCE(SUM(ABS(b.balance)), 0),
+    COUNT(*)
+  INTO v_balances, v_net, v_total, v_count
+  FROM (
+    SELECT a.id AS account_id,
+           SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE -e.amount END)::numeric(14,2) AS balance
+    FROM public.accounts a
+    JOIN public.entries e ON e.account_id = a.id
+    JOIN public.transactions t ON t.id = e.transaction_id
+    WHERE a.ledger_id = p_ledger_id
+      AND t.ledger_id = p_ledger_id
+      AND t.status = 'completed'
+      AND t.created_at <= v_closing_at
+      AND a.account_type IN (
+        'revenue', 'platform_revenue', 'income', 'sales', 'service_revenue', 'other_income',
+        'unrealized_fx_gain_loss', 'realized_fx_gain_loss',
+        'expense', 'processing_fees', 'cost_of_goods', 'cost_of_goods_sold',
+        'operating_expense', 'platform_marketing_expense'
+      )
+    GROUP BY a.id
+    HAVING SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE -e.amount END) <> 0
+  ) b;
+
+  v_retained_id := public.get_or_create_retained_earnings_account(p_ledger_id);
+
+  IF v_count = 0 THEN
+    out_transaction_id := NULL;
+    out_retained_earnings_account_id := v_retained_id;
+    out_net_income := 0;
+    out_accounts_closed := 0;
+    out_created := false;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- Debit-minus-credit across the closed accounts: negative is net income
+  PERFORM set_config('soledgic.fiscal_year_close', 'on', true);
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata, created_at
+  ) VALUES (
+    p_ledger_id, 'fiscal_year_close', v_reference, 'fiscal_year',
+    'Closing entries for fiscal year ' || p_fiscal_year,
+    -- Total debits of the posting, which equal its credits
+    ROUND((v_total + ABS(v_net)) / 2, 2), v_currency, 'completed', 'system',
+    jsonb_build_object(
+      'fiscal_year', p_fiscal_year,
+      'period_start', p_period_start,
+      'period_end', p_period_end,
+      'net_income', -v_net,
+      'accounts_closed', v_count,
+      'retained_earnings_account_id', v_retained_id
+    ),
+    v_closing_at
+  )
+  RETURNING id INTO v_tx_id;
+
+  PERFORM set_config('soledgic.fiscal_year_close', 'off', true);
+
+  FOR v_account IN
+    SELECT * FROM jsonb_to_recordset(v_balances) AS b(account_id uuid, balance numeric)
+  LOOP
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (
+      v_tx_id, v_account.account_id,
+      CASE WHEN v_account.balance > 0 THEN 'credit' ELSE 'debit' END,
+      ABS(v_account.balance), v_currency
+    );
+  END LOOP;
+
+  IF v_net <> 0 THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (
+      v_tx_id, v_retained_id,
+      CASE WHEN v_net < 0 THEN 'credit' ELSE 'debit' END,
+      ABS(v_net), v_currency
+    );
+  END IF;
+
+  out_transaction_id := v_tx_id;
+  out_retained_earnings_account_id := v_retained_id;
+  out_net_income := -v_net;
+  out_accounts_closed := v_count;
+  out_created := true;
+  RETURN NEXT;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_or_create_retained_earnings_account(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_retained_earnings_account(uuid) TO service_role;
+REVOKE ALL ON FUNCTION public.close_fiscal_year_books(uuid, integer, date, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.close_fiscal_year_books(uuid, integer, date, date) TO service_role;
@@ -0,0 +1,226 @@
+-- Maker-checker approval for manual journals.
+-- Adjustments (record-adjustment), reversals (reverse-transaction) and
+-- opening balances (record-opening-balance) post as soon as they are
+-- submitted. A ledger can now require approval per journal type above an
+-- amount threshold: the request is stored as a pending journal instead of
+-- touching entries, and a team member with at least the policy's role
+-- approves or rejects it from the dashboard. Approval replays the stored
+-- request against the original endpoint; rejection discards it.
+--
+-- A journal is never approvable by its preparer. The preparer is the
+-- dashboard user who submitted it or, for API submissions, the free-text
+-- prepared_by, compared to the approver's user id and email.
+
+-- ============================================================
+-- 1. journal_approval_policies
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.journal_approval_policies (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  journal_type text NOT NULL,
+  threshold_amount numeric(14,2) NOT NULL DEFAULT 0,
+  required_role text NOT NULL DEFAULT 'admin',
+  is_active boolean NOT NULL DEFAULT true,
+  updated_by uuid,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT journal_approval_policies_type_check CHECK (journal_type IN ('adjustment', 'reversal', 'opening_balance')),
+  CONSTRAINT journal_approval_policies_role_check CHECK (required_role IN ('owner', 'admin', 'member')),
+  CONSTRAINT journal_approval_policies_threshold_check CHECK (threshold_amount >= 0),
+  CONSTRAINT journal_approval_policies_ledger_type_unique UNIQUE (ledger_id, journal_type)
+);
+
+COMMENT ON TABLE public.journal_approval_policies IS 'Per-ledger maker-checker rule: journals of this type at or above the threshold wait for approval';
+COMMENT ON COLUMN public.journal_approval_policies.threshold_amount IS 'Journal amount (major units, as the gated endpoints book it) from which approval is required; 0 means every journal';
+COMMENT ON COLUMN public.journal_approval_policies.required_role IS 'Lowest organization role allowed to approve (owner > admin > member)';
+
+-- ============================================================
+-- 2. pending_journals
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.pending_journals (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  journal_type text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  amount numeric(14,2) NOT NULL,
+  currency text NOT NULL,
+  summary text NOT NULL,
+  payload jsonb NOT NULL,
+  prepared_by text NOT NULL,
+  prepared_by_user_id uuid,
+  policy_id uuid REFERENCES public.journal_approval_policies(id) ON DELETE SET NULL,
+  required_role text NOT NULL,
+  decided_by_user_id uuid,
+  decided_at timestamptz,
+  decision_reason text,
+  transaction_id uuid REFERENCES public.transactions(id),
+  posted_at timestamptz,
+  posting_error text,
+  posting_attempts integer NOT NULL DEFAULT 0,
+  posting_started_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT pending_journals_type_check CHECK (journal_type IN ('adjustment', 'reversal', 'opening_balance')),
+  CONSTRAINT pending_journals_status_check CHECK (status IN ('pending', 'approved', 'rejected', 'posted')),
+  CONSTRAINT pending_journals_role_check CHECK (required_role IN ('owner', 'admin', 'member')),
+  CONSTRAINT pending_journals_no_self_approval CHECK (
+    status IN ('pending', 'rejected')
+    OR prepared_by_user_id IS NULL
+    OR decided_by_user_id IS DISTINCT FROM prepared_by_user_id
+  )
+);
+
+COMMENT ON TABLE public.pending_journals IS 'Manual journals held for maker-checker approval before they post to entries';
+COMMENT ON COLUMN public.pending_journals.payload IS 'The original request body, replayed against the journal''s endpoint on approval';
+COMMENT ON COLUMN public.pending_journals.prepared_by IS 'Preparer as submitted (prepared_by, or the dashboard user id)';
+COMMENT ON COLUMN public.pending_journals.status IS 'pending → approved → posted, or pending → rejected';
+COMMENT ON COLUMN public.pending_journals.posting_error IS 'Why the last replay failed; the journal stays approved until a retry posts it';
+COMMENT ON COLUMN public.pending_journals.posting_started_at IS 'Claim held while a replay runs, so concurrent approvals and retries post at most once; cleared when the replay settles';
+
+CREATE INDEX IF NOT EXISTS idx_pending_journals_ledger_status
+  ON public.pending_journals (ledger_id, status, created_at DESC);
+
+-- adjustment_journals.reviewed_by / reviewed_at now record the approver
+COMMENT ON COLUMN public.adjustment_journals.reviewed_by IS 'User id of the team member who approved the adjustment, when approval was required';
+
+-- ============================================================
+-- 3. RLS
+-- ============================================================
+ALTER TABLE public.journal_approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pending_journals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS journal_approval_policies_service_all ON public.journal_approval_policies;
+CREATE POLICY journal_approval_policies_service_all ON public.journal_approval_policies
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS journal_approval_policies_read_org_members ON public.journal_approval_policies;
+CREATE POLICY journal_approval_policies_read_org_members
+  ON public.journal_approval_policies
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = journal_approval_policies.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS pending_journals_service_all ON public.pending_journals;
+CREATE POLICY pending_journals_service_all ON public.pending_journals
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS pending_journals_read_org_members ON public.pending_journals;
+CREATE POLICY pending_journals_read_org_members
+  ON public.pending_journals
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = pending_journals.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 4. decide_pending_journal
+-- ============================================================
+-- Approve or reject a pending journal as p_user_id. Locks the row so two
+-- approvers cannot both move it out of pending. Errors come back as
+-- out_error: not_found, not_pending, not_a_member, insufficient_role,
+-- self_approval.
+CREATE OR REPLACE FUNCTION public.decide_pending_journal(
+  p_ledger_id uuid,
+  p_journal_id uuid,
+  p_user_id uuid,
+  p_decision text,
+  p_reason text
+)
+RETURNS TABLE(out_status text, out_error text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  v_journal public.pending_journals%ROWTYPE;
+  v_role text;
+  v_email text;
+  v_preparer text;
+BEGIN
+  IF p_decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'decision must be approve or reject';
+  END IF;
+
+  SELECT * INTO v_journal
+  FROM public.pending_journals
+  WHERE id = p_journal_id
+    AND ledger_id = p_ledger_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::text, 'not_found'::text;
+    RETURN;
+  END IF;
+
+  IF v_journal.status <> 'pending' THEN
+    RETURN QUERY SELECT v_journal.status, 'not_pending'::text;
+    RETURN;
+  END IF;
+
+  SELECT om.role INTO v_role
+  FROM public.ledgers l
+  JOIN public.organization_members om
+    ON om.organization_id = l.organization_id
+  WHERE l.id = p_ledger_id
+    AND om.user_id = p_user_id
+    AND om.status = 'active';
+
+  IF v_role IS NULL THEN
+    RETURN QUERY SELECT v_journal.status, 'not_a_member'::text;
+    RETURN;
+  END IF;
+
+  IF (CASE v_role WHEN 'owner' THEN 100 WHEN 'admin' THEN 80 WHEN 'member' THEN 50 ELSE 0 END)
+     < (CASE v_journal.required_role WHEN 'owner' THEN 100 WHEN 'admin' THEN 80 ELSE 50 END) THEN
+    RETURN QUERY SELECT v_journal.status, 'insufficient_role'::text;
+    RETURN;
+  END IF;
+
+  IF p_decision = 'approve' THEN
+    SELECT lower(u.email) INTO v_email FROM auth.users u WHERE u.id = p_user_id;
+    v_preparer := lower(btrim(v_journal.prepared_by));
+
+    IF v_journal.prepared_by_user_id = p_user_id
+       OR v_preparer = lower(p_user_id::text)
+       OR (v_email IS NOT NULL AND v_preparer = v_email) THEN
+      RETURN QUERY SELECT v_journal.status, 'self_approval'::text;
+      RETURN;
+    END IF;
+  END IF;
+
+  UPDATE public.pending_journals
+  SET status = CASE p_decision WHEN 'approve' THEN 'approved' ELSE 'rejected' END,
+      decided_by_user_id = p_user_id,
+      decided_at = NOW(),
+      decision_reason = p_reason,
+      updated_at = NOW()
+  WHERE id = v_journal.id
+  RETURNING status INTO v_journal.status;
+
+  RETURN QUERY SELECT v_journal.status, NULL::text;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.decide_pending_journal(uuid, uuid, uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.decide_pending_journal(uuid, uuid, uuid, text, text) TO service_role;
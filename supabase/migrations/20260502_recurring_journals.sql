@@ -0,0 +1,420 @@
+-- Auto-reversing accruals and recurring journal templates.
+-- Accruals and deferrals booked through record-adjustment are one-shot
+-- entries someone has to remember to reverse. An adjustment can now ask to
+-- auto-reverse: it records the first day of the next accounting period and
+-- the run-recurring-journals cron posts the reversing entry on that date.
+-- The original stays completed so it keeps counting in its own period.
+--
+-- Recurring journal templates (monthly rent accrual, amortization) hold a
+-- balanced set of adjustment entries and a schedule. The same cron posts one
+-- instance per due date as an adjustment. The first instance anchors the
+-- template's chain in the transaction graph: every later instance points at
+-- it through recurring_parent_id and a 'recurring_child' link.
+
+-- ============================================================
+-- 1. adjustment_journals: auto-reversal
+-- ============================================================
+ALTER TABLE public.adjustment_journals
+  ADD COLUMN IF NOT EXISTS auto_reverse_on date,
+  ADD COLUMN IF NOT EXISTS reversal_transaction_id uuid REFERENCES public.transactions(id),
+  ADD COLUMN IF NOT EXISTS reversed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS recurring_template_id uuid;
+
+COMMENT ON COLUMN public.adjustment_journals.auto_reverse_on IS 'Date the cron posts the reversing entry (first day of the next period); NULL when the adjustment does not auto-reverse';
+COMMENT ON COLUMN public.adjustment_journals.reversal_transaction_id IS 'Reversing entry posted for an auto-reversing adjustment';
+COMMENT ON COLUMN public.adjustment_journals.recurring_template_id IS 'Recurring journal template that generated this adjustment';
+
+CREATE INDEX IF NOT EXISTS idx_adjustment_journals_auto_reverse_due
+  ON public.adjustment_journals (auto_reverse_on)
+  WHERE auto_reverse_on IS NOT NULL AND reversed_at IS NULL;
+
+-- ============================================================
+-- 2. recurring_journal_templates
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.recurring_journal_templates (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  adjustment_type text NOT NULL,
+  reason text NOT NULL,
+  entries jsonb NOT NULL,
+  amount numeric(14,2) NOT NULL,
+  currency text NOT NULL DEFAULT 'USD',
+  recurrence_interval text NOT NULL,
+  start_date date NOT NULL,
+  end_date date,
+  next_run_date date NOT NULL,
+  auto_reverse boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'active',
+  prepared_by text NOT NULL,
+  occurrences_posted integer NOT NULL DEFAULT 0,
+  root_transaction_id uuid REFERENCES public.transactions(id),
+  last_transaction_id uuid REFERENCES public.transactions(id),
+  last_run_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT NOW(),
+  updated_at timestamptz NOT NULL DEFAULT NOW(),
+  CONSTRAINT recurring_journal_templates_type_check CHECK (adjustment_type IN ('accrual', 'deferral', 'depreciation', 'reclassification', 'other')),
+  CONSTRAINT recurring_journal_templates_interval_check CHECK (recurrence_interval IN ('weekly', 'monthly', 'quarterly', 'annual')),
+  CONSTRAINT recurring_journal_templates_status_check CHECK (status IN ('active', 'paused', 'ended')),
+  CONSTRAINT recurring_journal_templates_amount_check CHECK (amount > 0),
+  CONSTRAINT recurring_journal_templates_dates_check CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT recurring_journal_templates_auto_reverse_check CHECK (NOT auto_reverse OR adjustment_type IN ('accrual', 'deferral'))
+);
+
+COMMENT ON TABLE public.recurring_journal_templates IS 'Scheduled adjustment journals posted by the run-recurring-journals cron';
+COMMENT ON COLUMN public.recurring_journal_templates.entries IS 'Balanced entries: [{account_type, entity_id, entry_type, amount}] with amount in major units';
+COMMENT ON COLUMN public.recurring_journal_templates.next_run_date IS 'start_date plus occurrences_posted intervals, so month-end schedules do not drift';
+COMMENT ON COLUMN public.recurring_journal_templates.root_transaction_id IS 'First posted instance; later instances link to it as recurring_child';
+COMMENT ON COLUMN public.recurring_journal_templates.last_error IS 'Why the last run could not post (missing account, locked period); the template retries on the next run';
+
+ALTER TABLE public.adjustment_journals
+  DROP CONSTRAINT IF EXISTS adjustment_journals_recurring_template_id_fkey;
+ALTER TABLE public.adjustment_journals
+  ADD CONSTRAINT adjustment_journals_recurring_template_id_fkey
+  FOREIGN KEY (recurring_template_id) REFERENCES public.recurring_journal_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_recurring_journal_templates_due
+  ON public.recurring_journal_templates (next_run_date)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_recurring_journal_templates_ledger
+  ON public.recurring_journal_templates (ledger_id, status, created_at DESC);
+
+-- ============================================================
+-- 3. RLS
+-- ============================================================
+ALTER TABLE public.recurring_journal_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS recurring_journal_templates_service_all ON public.recurring_journal_templates;
+CREATE POLICY recurring_journal_templates_service_all ON public.recurring_journal_templates
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS recurring_journal_templates_read_org_members ON public.recurring_journal_templates;
+CREATE POLICY recurring_journal_templates_read_org_members
+  ON public.recurring_journal_templates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = recurring_journal_templates.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 4. next_accounting_period_start
+-- ============================================================
+-- The day after the accounting period containing p_date ends. Ledgers that
+-- have not set up periods close monthly, so it falls back to the first day
+-- of the next month.
+CREATE OR REPLACE FUNCTION public.next_accounting_period_start(
+  p_ledger_id uuid,
+  p_date date
+)
+RETURNS date
+LANGUAGE plpgsql
+STABLE
+SET search_path TO ''
+AS $$
+DECLARE
+  v_period_end date;
+BEGIN
+  SELECT ap.period_end INTO v_period_end
+  FROM public.accounting_periods ap
+  WHERE ap.ledger_id = p_ledger_id
+    AND p_date BETWEEN ap.period_start AND ap.period_end
+  ORDER BY ap.period_end
+  LIMIT 1;
+
+  IF v_period_end IS NOT NULL THEN
+    RETURN v_period_end + 1;
+  END IF;
+
+  RETURN (date_trunc('month', p_date) + interval '1 month')::date;
+END;
+$$;
+
+-- ============================================================
+-- 5. post_due_accrual_reversals (cron)
+-- ============================================================
+-- Posts the reversing entry for every auto-reversing adjustment whose
+-- auto_reverse_on has arrived, dated that day. The original is left
+-- completed (unlike a manual reversal) so the accrual still counts in the
+-- period it was booked for. Adjustments already voided or reversed by hand
+-- are closed out without posting. SKIP LOCKED keeps overlapping runs apart.
+CREATE OR REPLACE FUNCTION public.post_due_accrual_reversals(
+  p_as_of date,
+  p_limit integer
+)
+RETURNS TABLE(out_adjustment_id uuid, out_ledger_id uuid, out_transaction_id uuid, out_amount numeric, out_error text)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_adj RECORD;
+  v_original public.transactions%ROWTYPE;
+  v_tx_id uuid;
+  v_entry RECORD;
+BEGIN
+  FOR v_adj IN
+    SELECT aj.*
+    FROM public.adjustment_journals aj
+    WHERE aj.auto_reverse_on IS NOT NULL
+      AND aj.reversed_at IS NULL
+      AND aj.auto_reverse_on <= COALESCE(p_as_of, CURRENT_DATE)
+    ORDER BY aj.auto_reverse_on, aj.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 5000)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_tx_id := NULL;
+    out_error := NULL;
+
+    SELECT * INTO v_original
+    FROM public.transactions
+    WHERE id = v_adj.transaction_id
+    FOR UPDATE;
+
+    IF v_original.status IN ('voided', 'reversed') THEN
+      UPDATE public.adjustment_journals
+         SET reversed_at = NOW(),
+             reversal_transaction_id = v_original.reversed_by
+       WHERE id = v_adj.id;
+
+      out_adjustment_id := v_adj.id;
+      out_ledger_id := v_adj.ledger_id;
+      out_transaction_id := NULL;
+      out_amount := 0;
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      INSERT INTO public.transactions (
+        ledger_id, transaction_type, reference_id, reference_type,
+        description, amount, currency, status, entry_method, reverses, metadata, created_at
+      ) VALUES (
+        v_adj.ledger_id, 'reversal', 'auto_reversal_' || v_adj.id, 'reversal',
+        'Auto-reversal of ' || v_original.description,
+        v_original.amount, v_original.currency, 'completed', 'system', v_original.id,
+        jsonb_build_object(
+          'original_transaction_id', v_original.id,
+          'adjustment_journal_id', v_adj.id,
+          'adjustment_type', v_adj.adjustment_type,
+          'reason', 'auto_reverse',
+          'void_type', 'reversing_entry',
+          'is_partial', false,
+          'reversal_ratio', 1
+        ),
+        v_adj.auto_reverse_on::timestamptz
+      )
+      RETURNING id INTO v_tx_id;
+
+      FOR v_entry IN
+        SELECT e.account_id, e.entry_type, e.amount
+        FROM public.entries e
+        WHERE e.transaction_id = v_original.id
+      LOOP
+        INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+        VALUES (
+          v_tx_id, v_entry.account_id,
+          CASE WHEN v_entry.entry_type = 'debit' THEN 'credit' ELSE 'debit' END,
+          v_entry.amount, v_original.currency
+        );
+      END LOOP;
+
+      UPDATE public.transactions
+         SET reversed_by = v_tx_id
+       WHERE id = v_original.id;
+
+      INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+      VALUES (
+        v_adj.ledger_id, v_tx_id, v_original.id, 'reversal', v_original.amount,
+        jsonb_build_object('adjustment_journal_id', v_adj.id, 'auto_reverse', true)
+      )
+      ON CONFLICT DO NOTHING;
+
+      UPDATE public.adjustment_journals
+         SET reversed_at = NOW(),
+             reversal_transaction_id = v_tx_id
+       WHERE id = v_adj.id;
+    EXCEPTION WHEN OTHERS THEN
+      -- Typically a locked period; left due so the next run retries
+      v_tx_id := NULL;
+      out_error := SQLERRM;
+    END;
+
+    out_adjustment_id := v_adj.id;
+    out_ledger_id := v_adj.ledger_id;
+    out_transaction_id := v_tx_id;
+    out_amount := CASE WHEN v_tx_id IS NULL THEN 0 ELSE v_original.amount END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- ============================================================
+-- 6. run_due_recurring_journals (cron)
+-- ============================================================
+-- Posts the next instance of every active template due by p_as_of as an
+-- adjustment dated its run date, then advances the schedule. A template
+-- that fell behind catches up one instance per run. An instance that cannot
+-- post records last_error on the template and is retried on the next run.
+CREATE OR REPLACE FUNCTION public.run_due_recurring_journals(
+  p_as_of date,
+  p_limit integer
+)
+RETURNS TABLE(out_template_id uuid, out_ledger_id uuid, out_transaction_id uuid, out_run_date date, out_amount numeric, out_error text)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_template RECORD;
+  v_entry jsonb;
+  v_account_id uuid;
+  v_tx_id uuid;
+  v_run_date date;
+  v_next_date date;
+  v_step interval;
+  v_entries jsonb;
+BEGIN
+  FOR v_template IN
+    SELECT t.*
+    FROM public.recurring_journal_templates t
+    WHERE t.status = 'active'
+      AND t.next_run_date <= COALESCE(p_as_of, CURRENT_DATE)
+    ORDER BY t.next_run_date, t.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 5000)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_tx_id := NULL;
+    v_run_date := v_template.next_run_date;
+    out_error := NULL;
+
+    IF v_template.end_date IS NOT NULL AND v_run_date > v_template.end_date THEN
+      UPDATE public.recurring_journal_templates
+         SET status = 'ended', updated_at = NOW()
+       WHERE id = v_template.id;
+      CONTINUE;
+    END IF;
+
+    v_step := CASE v_template.recurrence_interval
+      WHEN 'weekly' THEN interval '1 week'
+      WHEN 'monthly' THEN interval '1 month'
+      WHEN 'quarterly' THEN interval '3 months'
+      ELSE interval '1 year'
+    END;
+    v_next_date := (v_template.start_date + v_step * (v_template.occurrences_posted + 1))::date;
+
+    BEGIN
+      v_entries := '[]'::jsonb;
+      FOR v_entry IN SELECT * FROM jsonb_array_elements(v_template.entries)
+      LOOP
+        SELECT a.id INTO v_account_id
+        FROM public.accounts a
+        WHERE a.ledger_id = v_template.ledger_id
+          AND a.account_type = v_entry->>'account_type'
+          AND a.entity_id IS NOT DISTINCT FROM NULLIF(v_entry->>'entity_id', '')
+        LIMIT 1;
+
+        IF v_account_id IS NULL THEN
+          RAISE EXCEPTION 'Account not found: %', v_entry->>'account_type';
+        END IF;
+
+        v_entries := v_entries || jsonb_build_object(
+          'account_id', v_account_id,
+          'entry_type', v_entry->>'entry_type',
+          'amount', (v_entry->>'amount')::numeric
+        );
+      END LOOP;
+
+      INSERT INTO public.transactions (
+        ledger_id, transaction_type, reference_id, reference_type,
+        description, amount, currency, status, entry_method, metadata,
+        is_recurring, recurrence_interval, recurring_parent_id, created_at
+      ) VALUES (
+        v_template.ledger_id, 'adjustment',
+        'recurring_journal_' || v_template.id || '_' || to_char(v_run_date, 'YYYYMMDD'),
+        'adjustment',
+        v_template.adjustment_type || ': ' || v_template.reason,
+        v_template.amount, v_template.currency, 'completed', 'system',
+        jsonb_build_object(
+          'adjustment_type', v_template.adjustment_type,
+          'prepared_by', v_template.prepared_by,
+          'adjustment_date', v_run_date,
+          'recurring_template_id', v_template.id,
+          'occurrence', v_template.occurrences_posted + 1
+        ),
+        true, v_template.recurrence_interval, v_template.root_transaction_id,
+        v_run_date::timestamptz
+      )
+      RETURNING id INTO v_tx_id;
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      SELECT v_tx_id, (e->>'account_id')::uuid, e->>'entry_type', (e->>'amount')::numeric, v_template.currency
+      FROM jsonb_array_elements(v_entries) e;
+
+      INSERT INTO public.adjustment_journals (
+        ledger_id, transaction_id, adjustment_type, reason, prepared_by,
+        adjustment_date, auto_reverse_on, recurring_template_id
+      ) VALUES (
+        v_template.ledger_id, v_tx_id, v_template.adjustment_type, v_template.reason, v_template.prepared_by,
+        v_run_date,
+        CASE WHEN v_template.auto_reverse
+          THEN public.next_accounting_period_start(v_template.ledger_id, v_run_date)
+        END,
+        v_template.id
+      );
+
+      IF v_template.root_transaction_id IS NOT NULL THEN
+        INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+        VALUES (
+          v_template.ledger_id, v_tx_id, v_template.root_transaction_id, 'recurring_child', v_template.amount,
+          jsonb_build_object('recurring_template_id', v_template.id, 'occurrence', v_template.occurrences_posted + 1)
+        )
+        ON CONFLICT DO NOTHING;
+      END IF;
+
+      UPDATE public.recurring_journal_templates
+         SET occurrences_posted = occurrences_posted + 1,
+             next_run_date = v_next_date,
+             root_transaction_id = COALESCE(root_transaction_id, v_tx_id),
+             last_transaction_id = v_tx_id,
+             last_run_at = NOW(),
+             last_error = NULL,
+             status = CASE WHEN end_date IS NOT NULL AND v_next_date > end_date THEN 'ended' ELSE status END,
+             updated_at = NOW()
+       WHERE id = v_template.id;
+    EXCEPTION WHEN OTHERS THEN
+      v_tx_id := NULL;
+      out_error := SQLERRM;
+
+      UPDATE public.recurring_journal_templates
+         SET last_run_at = NOW(),
+             last_error = SQLERRM,
+             updated_at = NOW()
+       WHERE id = v_template.id;
+    END;
+
+    out_template_id := v_template.id;
+    out_ledger_id := v_template.ledger_id;
+    out_transaction_id := v_tx_id;
+    out_run_date := v_run_date;
+    out_amount := CASE WHEN v_tx_id IS NULL THEN 0 ELSE v_template.amount END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.next_accounting_period_start(uuid, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.next_accounting_period_start(uuid, date) TO service_role;
+REVOKE ALL ON FUNCTION public.post_due_accrual_reversals(date, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_due_accrual_reversals(date, integer) TO service_role;
+REVOKE ALL ON FUNCTION public.run_due_recurring_journals(date, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_due_recurring_journals(date, integer) TO service_role;
@@ -0,0 +1,724 @@
+-- Fixed asset register and depreciation schedules.
+-- 'depreciation' adjustments had nothing behind them: the cost, life and
+-- book value of an asset lived in a spreadsheet. An asset now records its
+-- cost, acquisition date, useful life, salvage value and method
+-- (straight-line, or declining balance switching to straight-line once that
+-- is larger). Registering it books the cost to Fixed Assets and lays out one
+-- depreciation line per month of its life, the acquisition month counting
+-- in full. The run-depreciation cron posts each line on the last day of its
+-- month as a 'depreciation' adjustment: expense debited, Accumulated
+-- Depreciation (the contra-asset balance-sheet nets against cost) credited.
+--
+-- Disposing of an asset posts the depreciation due through the disposal
+-- date, cancels the rest of the schedule, removes cost and accumulated
+-- depreciation and books proceeds against net book value to Gain/Loss on
+-- Asset Disposal.
+
+-- ============================================================
+-- 1. Account types
+-- ============================================================
+-- accumulated_depreciation, plus the system account types created since the
+-- constraint was last rebuilt.
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS chk_valid_account_type;
+ALTER TABLE public.accounts
+  ADD CONSTRAINT chk_valid_account_type CHECK (account_type IN (
+    'cash', 'bank', 'bank_account', 'petty_cash', 'undeposited_funds',
+    'accounts_receivable', 'inventory', 'prepaid_expense',
+    'fixed_asset', 'property', 'equipment', 'asset', 'other_asset',
+    'accumulated_depreciation',
+    'expense', 'processing_fees', 'cost_of_goods_sold', 'cogs',
+    'payroll', 'rent', 'utilities', 'insurance', 'depreciation',
+    'taxes', 'interest_expense', 'other_expense', 'loss',
+    'platform_marketing_expense',
+    'owner_draw',
+    'refund_reserve', 'tax_reserve', 'reserve',
+    'accounts_payable', 'creator_balance', 'creator_pool',
+    'creator_debt', 'creator_reserve_hold',
+    'sales_tax_payable', 'tax_payable', 'withholding_tax_payable',
+    'unearned_revenue', 'credit_card', 'gift_card_liability',
+    'owner_equity', 'retained_earnings',
+    'revenue', 'platform_revenue', 'soledgic_fee', 'income', 'other_income',
+    'user_wallet',
+    'stripe_clearing', 'buyer_wallet',
+    'unrealized_fx_gain_loss', 'realized_fx_gain_loss'
+  ));
+
+-- ============================================================
+-- 2. fixed_assets and depreciation lines
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.fixed_assets (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  category text,
+  description text,
+  currency text NOT NULL,
+  cost numeric(14,2) NOT NULL,
+  salvage_value numeric(14,2) NOT NULL DEFAULT 0,
+  acquisition_date date NOT NULL,
+  useful_life_months integer NOT NULL,
+  method text NOT NULL,
+  declining_factor numeric(4,2),
+  funding_account_type text NOT NULL,
+  accumulated_depreciation numeric(14,2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'active',
+  acquisition_transaction_id uuid REFERENCES public.transactions(id),
+  last_depreciated_on date,
+  last_error text,
+  disposal_date date,
+  disposal_proceeds numeric(14,2),
+  disposal_gain_loss numeric(14,2),
+  disposal_transaction_id uuid REFERENCES public.transactions(id),
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT fixed_assets_method_check CHECK (method IN ('straight_line', 'declining_balance')),
+  CONSTRAINT fixed_assets_status_check CHECK (status IN ('active', 'fully_depreciated', 'disposed')),
+  CONSTRAINT fixed_assets_life_check CHECK (useful_life_months BETWEEN 1 AND 600),
+  CONSTRAINT fixed_assets_funding_check CHECK (funding_account_type IN ('cash', 'accounts_payable', 'owner_equity')),
+  CONSTRAINT fixed_assets_factor_check CHECK (
+    (method = 'straight_line' AND declining_factor IS NULL)
+    OR (method = 'declining_balance' AND declining_factor > 1 AND declining_factor <= 4)
+  ),
+  CONSTRAINT fixed_assets_amounts_check CHECK (
+    cost > 0
+    AND salvage_value >= 0
+    AND salvage_value < cost
+    AND accumulated_depreciation >= 0
+    AND accumulated_depreciation <= cost - salvage_value
+  )
+);
+
+COMMENT ON TABLE public.fixed_assets IS 'Fixed asset register; cost sits in the Fixed Assets account and depreciation in Accumulated Depreciation';
+COMMENT ON COLUMN public.fixed_assets.declining_factor IS 'Declining balance only: multiple of the straight-line rate (2 = double-declining)';
+COMMENT ON COLUMN public.fixed_assets.funding_account_type IS 'Account credited for the cost when the asset was registered';
+COMMENT ON COLUMN public.fixed_assets.accumulated_depreciation IS 'Depreciation posted so far; net book value is cost less this';
+COMMENT ON COLUMN public.fixed_assets.last_error IS 'Why the last depreciation run could not post this asset (e.g. a closed period)';
+COMMENT ON COLUMN public.fixed_assets.disposal_gain_loss IS 'Proceeds less net book value at disposal; negative for a loss';
+
+CREATE INDEX IF NOT EXISTS idx_fixed_assets_ledger
+  ON public.fixed_assets (ledger_id, status, acquisition_date DESC);
+
+CREATE TABLE IF NOT EXISTS public.fixed_asset_depreciation_lines (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  asset_id uuid NOT NULL REFERENCES public.fixed_assets(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  depreciate_on date NOT NULL,
+  amount numeric(14,2) NOT NULL,
+  book_value_after numeric(14,2) NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  posted_at timestamptz,
+  transaction_id uuid REFERENCES public.transactions(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT fixed_asset_depreciation_lines_status_check CHECK (status IN ('pending', 'posted', 'canceled')),
+  CONSTRAINT fixed_asset_depreciation_lines_amount_check CHECK (amount >= 0),
+  CONSTRAINT fixed_asset_depreciation_lines_number_unique UNIQUE (asset_id, line_number)
+);
+
+COMMENT ON COLUMN public.fixed_asset_depreciation_lines.depreciate_on IS 'Last day of the month the line depreciates';
+COMMENT ON COLUMN public.fixed_asset_depreciation_lines.book_value_after IS 'Scheduled net book value once this line is posted';
+
+CREATE INDEX IF NOT EXISTS idx_fixed_asset_depreciation_lines_due
+  ON public.fixed_asset_depreciation_lines (depreciate_on)
+  WHERE status = 'pending';
+
+ALTER TABLE public.fixed_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fixed_asset_depreciation_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS fixed_assets_service_all ON public.fixed_assets;
+CREATE POLICY fixed_assets_service_all ON public.fixed_assets
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS fixed_asset_depreciation_lines_service_all ON public.fixed_asset_depreciation_lines;
+CREATE POLICY fixed_asset_depreciation_lines_service_all ON public.fixed_asset_depreciation_lines
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS fixed_assets_read_org_members ON public.fixed_assets;
+CREATE POLICY fixed_assets_read_org_members
+  ON public.fixed_assets
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = fixed_assets.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS fixed_asset_depreciation_lines_read_org_members ON public.fixed_asset_depreciation_lines;
+CREATE POLICY fixed_asset_depreciation_lines_read_org_members
+  ON public.fixed_asset_depreciation_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = fixed_asset_depreciation_lines.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
+
+-- ============================================================
+-- 3. Accounts
+-- ============================================================
+-- The ledger-wide fixed asset accounts, created on first use:
+-- cost (fixed_asset), accumulated_depreciation, depreciation_expense
+-- (an expense account) and disposal_gain_loss (other_income; a loss is a
+-- debit to it).
+CREATE OR REPLACE FUNCTION public.get_or_create_fixed_asset_account(p_ledger_id uuid, p_role text)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_account_id UUID;
+  v_account_type TEXT;
+  v_name TEXT;
+BEGIN
+  CASE p_role
+    WHEN 'cost' THEN
+      v_account_type := 'fixed_asset';
+      v_name := 'Fixed Assets';
+    WHEN 'accumulated_depreciation' THEN
+      v_account_type := 'accumulated_depreciation';
+      v_name := 'Accumulated Depreciation';
+    WHEN 'depreciation_expense' THEN
+      v_account_type := 'expense';
+      v_name := 'Depreciation Expense';
+    WHEN 'disposal_gain_loss' THEN
+      v_account_type := 'other_income';
+      v_name := 'Gain/Loss on Asset Disposal';
+    ELSE
+      RAISE EXCEPTION 'Invalid fixed asset account role: %', p_role;
+  END CASE;
+
+  SELECT id INTO v_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = v_account_type
+    AND entity_id = p_role;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.accounts (
+      ledger_id, account_type, entity_type, entity_id, name, currency, metadata
+    ) VALUES (
+      p_ledger_id, v_account_type, 'system', p_role, v_name,
+      public.ledger_functional_currency(p_ledger_id),
+      jsonb_build_object('category', 'fixed_assets')
+    )
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$function$;
+
+-- ============================================================
+-- 4. post_fixed_asset_depreciation
+-- ============================================================
+-- Posts an asset's pending lines due on or before p_as_of, oldest first,
+-- each as a 'depreciation' adjustment dated its depreciate_on. Lines that
+-- round to zero are marked posted without a transaction. Returns the number
+-- of lines posted.
+CREATE OR REPLACE FUNCTION public.post_fixed_asset_depreciation(
+  p_asset_id uuid,
+  p_as_of date
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_asset RECORD;
+  v_line RECORD;
+  v_expense_account_id UUID;
+  v_accumulated_account_id UUID;
+  v_tx_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_asset
+  FROM public.fixed_assets
+  WHERE id = p_asset_id
+  FOR UPDATE;
+
+  IF v_asset.id IS NULL OR v_asset.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  v_expense_account_id := public.get_or_create_fixed_asset_account(v_asset.ledger_id, 'depreciation_expense');
+  v_accumulated_account_id := public.get_or_create_fixed_asset_account(v_asset.ledger_id, 'accumulated_depreciation');
+
+  FOR v_line IN
+    SELECT l.*
+    FROM public.fixed_asset_depreciation_lines l
+    WHERE l.asset_id = v_asset.id
+      AND l.status = 'pending'
+      AND l.depreciate_on <= COALESCE(p_as_of, CURRENT_DATE)
+    ORDER BY l.line_number
+    FOR UPDATE
+  LOOP
+    v_tx_id := NULL;
+
+    IF v_line.amount > 0 THEN
+      INSERT INTO public.transactions (
+        ledger_id, transaction_type, reference_id, reference_type,
+        description, amount, currency, status, entry_method, metadata, created_at
+      ) VALUES (
+        v_asset.ledger_id, 'adjustment',
+        'depreciation_' || v_asset.id || '_' || v_line.line_number,
+        'adjustment',
+        'depreciation: ' || v_asset.name || ' (' || to_char(v_line.depreciate_on, 'YYYY-MM') || ')',
+        v_line.amount, v_asset.currency, 'completed', 'system',
+        jsonb_build_object(
+          'adjustment_type', 'depreciation',
+          'prepared_by', 'fixed_asset_register',
+          'adjustment_date', v_line.depreciate_on,
+          'fixed_asset_id', v_asset.id,
+          'depreciation_line', v_line.line_number
+        ),
+        v_line.depreciate_on::timestamptz
+      )
+      RETURNING id INTO v_tx_id;
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      VALUES (v_tx_id, v_expense_account_id, 'debit', v_line.amount, v_asset.currency);
+
+      INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+      VALUES (v_tx_id, v_accumulated_account_id, 'credit', v_line.amount, v_asset.currency);
+
+      INSERT INTO public.adjustment_journals (
+        ledger_id, transaction_id, adjustment_type, reason, prepared_by, adjustment_date
+      ) VALUES (
+        v_asset.ledger_id, v_tx_id, 'depreciation',
+        'Monthly depreciation of ' || v_asset.name,
+        'fixed_asset_register', v_line.depreciate_on
+      );
+
+      IF v_asset.acquisition_transaction_id IS NOT NULL THEN
+        INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+        VALUES (
+          v_asset.ledger_id, v_tx_id, v_asset.acquisition_transaction_id, 'adjustment', v_line.amount,
+          jsonb_build_object('fixed_asset_id', v_asset.id, 'depreciation_line', v_line.line_number)
+        )
+        ON CONFLICT DO NOTHING;
+      END IF;
+    END IF;
+
+    UPDATE public.fixed_asset_depreciation_lines
+       SET status = 'posted',
+           posted_at = NOW(),
+           transaction_id = v_tx_id,
+           updated_at = NOW()
+     WHERE id = v_line.id;
+
+    UPDATE public.fixed_assets
+       SET accumulated_depreciation = accumulated_depreciation + v_line.amount,
+           last_depreciated_on = v_line.depreciate_on,
+           updated_at = NOW()
+     WHERE id = v_asset.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE public.fixed_assets a
+     SET status = 'fully_depreciated',
+         last_error = NULL,
+         updated_at = NOW()
+   WHERE a.id = v_asset.id
+     AND NOT EXISTS (
+       SELECT 1 FROM public.fixed_asset_depreciation_lines l
+       WHERE l.asset_id = a.id AND l.status = 'pending'
+     );
+
+  RETURN v_count;
+END;
+$function$;
+
+-- ============================================================
+-- 5. register_fixed_asset
+-- ============================================================
+-- Books the cost (debit Fixed Assets, credit the funding account) dated the
+-- acquisition date and lays out the monthly schedule. Line i depreciates the
+-- month i - 1 months after acquisition:
+--   straight_line      (cost - salvage) / life each month, the last line
+--                      absorbing rounding
+--   declining_balance  book value * factor / life, or the straight-line
+--                      amount over the remaining months when larger, never
+--                      below salvage; the last line lands on salvage
+-- Lines already due are posted straight away.
+CREATE OR REPLACE FUNCTION public.register_fixed_asset(
+  p_ledger_id uuid,
+  p_name text,
+  p_category text,
+  p_description text,
+  p_cost numeric,
+  p_salvage_value numeric,
+  p_acquisition_date date,
+  p_useful_life_months integer,
+  p_method text,
+  p_declining_factor numeric,
+  p_funding_account_type text,
+  p_metadata jsonb
+)
+RETURNS TABLE(out_asset_id uuid, out_acquisition_transaction_id uuid, out_lines_posted integer)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_currency TEXT;
+  v_cost_account_id UUID;
+  v_funding_account_id UUID;
+  v_asset_id UUID;
+  v_tx_id UUID;
+  v_depreciable NUMERIC(14,2);
+  v_book_value NUMERIC(14,2);
+  v_allocated NUMERIC(14,2) := 0;
+  v_amount NUMERIC(14,2);
+  v_declining NUMERIC(14,2);
+  v_straight NUMERIC(14,2);
+  v_i INTEGER;
+BEGIN
+  IF p_method NOT IN ('straight_line', 'declining_balance') THEN
+    RAISE EXCEPTION 'Invalid depreciation method: %', p_method;
+  END IF;
+
+  IF p_cost IS NULL OR p_cost <= 0 OR COALESCE(p_salvage_value, 0) < 0 OR COALESCE(p_salvage_value, 0) >= p_cost THEN
+    RAISE EXCEPTION 'Invalid cost or salvage value: salvage must be at least 0 and less than cost';
+  END IF;
+
+  IF p_useful_life_months IS NULL OR p_useful_life_months < 1 OR p_useful_life_months > 600 THEN
+    RAISE EXCEPTION 'Invalid useful life: need 1-600 months';
+  END IF;
+
+  IF p_acquisition_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Invalid acquisition date: % is in the future', p_acquisition_date;
+  END IF;
+
+  v_currency := public.ledger_functional_currency(p_ledger_id);
+  v_cost_account_id := public.get_or_create_fixed_asset_account(p_ledger_id, 'cost');
+
+  SELECT id INTO v_funding_account_id
+  FROM public.accounts
+  WHERE ledger_id = p_ledger_id
+    AND account_type = p_funding_account_type
+    AND entity_id IS NULL
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_funding_account_id IS NULL THEN
+    RAISE EXCEPTION 'Account not found: %', p_funding_account_type;
+  END IF;
+
+  INSERT INTO public.fixed_assets (
+    ledger_id, name, category, description, currency, cost, salvage_value,
+    acquisition_date, useful_life_months, method, declining_factor,
+    funding_account_type, metadata
+  ) VALUES (
+    p_ledger_id, p_name, p_category, p_description, v_currency, p_cost, COALESCE(p_salvage_value, 0),
+    p_acquisition_date, p_useful_life_months, p_method,
+    CASE WHEN p_method = 'declining_balance' THEN COALESCE(p_declining_factor, 2) END,
+    p_funding_account_type, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_asset_id;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata, created_at
+  ) VALUES (
+    p_ledger_id, 'asset_acquisition',
+    'asset_acquisition_' || v_asset_id,
+    'fixed_asset',
+    'Fixed asset acquired: ' || p_name,
+    p_cost, v_currency, 'completed', 'system',
+    jsonb_build_object(
+      'fixed_asset_id', v_asset_id,
+      'funding_account_type', p_funding_account_type
+    ),
+    p_acquisition_date::timestamptz
+  )
+  RETURNING id INTO v_tx_id;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_cost_account_id, 'debit', p_cost, v_currency);
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (v_tx_id, v_funding_account_id, 'credit', p_cost, v_currency);
+
+  UPDATE public.fixed_assets
+     SET acquisition_transaction_id = v_tx_id
+   WHERE id = v_asset_id;
+
+  v_depreciable := p_cost - COALESCE(p_salvage_value, 0);
+  v_book_value := p_cost;
+
+  FOR v_i IN 1..p_useful_life_months LOOP
+    IF v_i = p_useful_life_months THEN
+      v_amount := v_depreciable - v_allocated;
+    ELSIF p_method = 'straight_line' THEN
+      v_amount := LEAST(ROUND(v_depreciable / p_useful_life_months, 2), v_depreciable - v_allocated);
+    ELSE
+      v_declining := ROUND(v_book_value * COALESCE(p_declining_factor, 2) / p_useful_life_months, 2);
+      v_straight := ROUND((v_depreciable - v_allocated) / (p_useful_life_months - v_i + 1), 2);
+      v_amount := LEAST(GREATEST(v_declining, v_straight), v_depreciable - v_allocated);
+    END IF;
+    v_allocated := v_allocated + v_amount;
+    v_book_value := v_book_value - v_amount;
+
+    INSERT INTO public.fixed_asset_depreciation_lines (
+      ledger_id, asset_id, line_number, depreciate_on, amount, book_value_after
+    ) VALUES (
+      p_ledger_id, v_asset_id, v_i,
+      (date_trunc('month', p_acquisition_date) + make_interval(months => v_i))::date - 1,
+      v_amount, v_book_value
+    );
+  END LOOP;
+
+  out_asset_id := v_asset_id;
+  out_acquisition_transaction_id := v_tx_id;
+  out_lines_posted := public.post_fixed_asset_depreciation(v_asset_id, CURRENT_DATE);
+  RETURN NEXT;
+END;
+$function$;
+
+-- ============================================================
+-- 6. dispose_fixed_asset
+-- ============================================================
+-- Catches depreciation up to the disposal date, cancels the lines after it
+-- and posts one asset_disposal transaction dated the disposal date:
+--   debit  Accumulated Depreciation   accumulated depreciation
+--   debit  proceeds account           proceeds (when any)
+--   credit Fixed Assets               cost
+--   and the difference to Gain/Loss on Asset Disposal (credit for a gain,
+--   debit for a loss).
+CREATE OR REPLACE FUNCTION public.dispose_fixed_asset(
+  p_ledger_id uuid,
+  p_asset_id uuid,
+  p_disposal_date date,
+  p_proceeds numeric,
+  p_proceeds_account_type text
+)
+RETURNS TABLE(out_transaction_id uuid, out_accumulated_depreciation numeric, out_net_book_value numeric, out_gain_loss numeric)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_asset RECORD;
+  v_proceeds NUMERIC(14,2) := COALESCE(p_proceeds, 0);
+  v_proceeds_account_id UUID;
+  v_net_book_value NUMERIC(14,2);
+  v_gain_loss NUMERIC(14,2);
+  v_tx_id UUID;
+BEGIN
+  SELECT * INTO v_asset
+  FROM public.fixed_assets
+  WHERE id = p_asset_id
+    AND ledger_id = p_ledger_id
+  FOR UPDATE;
+
+  IF v_asset.id IS NULL THEN
+    RAISE EXCEPTION 'Fixed asset % not found', p_asset_id;
+  END IF;
+
+  IF v_asset.status = 'disposed' THEN
+    RAISE EXCEPTION 'Fixed asset % has already been disposed', p_asset_id;
+  END IF;
+
+  IF p_disposal_date < v_asset.acquisition_date OR p_disposal_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Invalid disposal date: must be between % and today', v_asset.acquisition_date;
+  END IF;
+
+  IF v_proceeds < 0 THEN
+    RAISE EXCEPTION 'Invalid proceeds: cannot be negative';
+  END IF;
+
+  IF v_proceeds > 0 THEN
+    SELECT id INTO v_proceeds_account_id
+    FROM public.accounts
+    WHERE ledger_id = p_ledger_id
+      AND account_type = p_proceeds_account_type
+      AND entity_id IS NULL
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_proceeds_account_id IS NULL THEN
+      RAISE EXCEPTION 'Account not found: %', p_proceeds_account_type;
+    END IF;
+  END IF;
+
+  PERFORM public.post_fixed_asset_depreciation(v_asset.id, p_disposal_date);
+
+  UPDATE public.fixed_asset_depreciation_lines
+     SET status = 'canceled',
+         updated_at = NOW()
+   WHERE asset_id = v_asset.id
+     AND status = 'pending';
+
+  SELECT * INTO v_asset
+  FROM public.fixed_assets
+  WHERE id = p_asset_id;
+
+  v_net_book_value := v_asset.cost - v_asset.accumulated_depreciation;
+  v_gain_loss := v_proceeds - v_net_book_value;
+
+  INSERT INTO public.transactions (
+    ledger_id, transaction_type, reference_id, reference_type,
+    description, amount, currency, status, entry_method, metadata, created_at
+  ) VALUES (
+    p_ledger_id, 'asset_disposal',
+    'asset_disposal_' || v_asset.id,
+    'fixed_asset',
+    'Fixed asset disposed: ' || v_asset.name,
+    v_asset.cost, v_asset.currency, 'completed', 'system',
+    jsonb_build_object(
+      'fixed_asset_id', v_asset.id,
+      'proceeds', v_proceeds,
+      'net_book_value', v_net_book_value,
+      'gain_loss', v_gain_loss
+    ),
+    p_disposal_date::timestamptz
+  )
+  RETURNING id INTO v_tx_id;
+
+  IF v_asset.accumulated_depreciation > 0 THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (
+      v_tx_id, public.get_or_create_fixed_asset_account(p_ledger_id, 'accumulated_depreciation'),
+      'debit', v_asset.accumulated_depreciation, v_asset.currency
+    );
+  END IF;
+
+  IF v_proceeds > 0 THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (v_tx_id, v_proceeds_account_id, 'debit', v_proceeds, v_asset.currency);
+  END IF;
+
+  INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+  VALUES (
+    v_tx_id, public.get_or_create_fixed_asset_account(p_ledger_id, 'cost'),
+    'credit', v_asset.cost, v_asset.currency
+  );
+
+  IF v_gain_loss <> 0 THEN
+    INSERT INTO public.entries (transaction_id, account_id, entry_type, amount, currency)
+    VALUES (
+      v_tx_id, public.get_or_create_fixed_asset_account(p_ledger_id, 'disposal_gain_loss'),
+      CASE WHEN v_gain_loss > 0 THEN 'credit' ELSE 'debit' END,
+      ABS(v_gain_loss), v_asset.currency
+    );
+  END IF;
+
+  IF v_asset.acquisition_transaction_id IS NOT NULL THEN
+    INSERT INTO public.transaction_links (ledger_id, source_id, target_id, link_type, amount, metadata)
+    VALUES (
+      p_ledger_id, v_tx_id, v_asset.acquisition_transaction_id, 'adjustment', v_asset.cost,
+      jsonb_build_object('fixed_asset_id', v_asset.id, 'disposal', true)
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  UPDATE public.fixed_assets
+     SET status = 'disposed',
+         disposal_date = p_disposal_date,
+         disposal_proceeds = v_proceeds,
+         disposal_gain_loss = v_gain_loss,
+         disposal_transaction_id = v_tx_id,
+         last_error = NULL,
+         updated_at = NOW()
+   WHERE id = v_asset.id;
+
+  out_transaction_id := v_tx_id;
+  out_accumulated_depreciation := v_asset.accumulated_depreciation;
+  out_net_book_value := v_net_book_value;
+  out_gain_loss := v_gain_loss;
+  RETURN NEXT;
+END;
+$function$;
+
+-- ============================================================
+-- 7. post_due_depreciation (cron)
+-- ============================================================
+-- Posts due lines across all ledgers for the run-depreciation cron. SKIP
+-- LOCKED keeps overlapping runs off the same asset. An asset that cannot
+-- post (e.g. its month has been closed) records last_error and is retried
+-- on the next run.
+CREATE OR REPLACE FUNCTION public.post_due_depreciation(
+  p_as_of date,
+  p_limit integer
+)
+RETURNS TABLE(out_asset_id uuid, out_ledger_id uuid, out_lines_posted integer, out_amount numeric, out_error text)
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+  v_asset RECORD;
+  v_before NUMERIC(14,2);
+BEGIN
+  FOR v_asset IN
+    SELECT a.id, a.ledger_id, a.accumulated_depreciation
+    FROM public.fixed_assets a
+    WHERE a.status = 'active'
+      AND EXISTS (
+        SELECT 1 FROM public.fixed_asset_depreciation_lines l
+        WHERE l.asset_id = a.id
+          AND l.status = 'pending'
+          AND l.depreciate_on <= COALESCE(p_as_of, CURRENT_DATE)
+      )
+    ORDER BY a.acquisition_date, a.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 5000)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_before := v_asset.accumulated_depreciation;
+    out_error := NULL;
+
+    BEGIN
+      out_lines_posted := public.post_fixed_asset_depreciation(v_asset.id, COALESCE(p_as_of, CURRENT_DATE));
+
+      SELECT a.accumulated_depreciation - v_before INTO out_amount
+      FROM public.fixed_assets a
+      WHERE a.id = v_asset.id;
+
+      UPDATE public.fixed_assets
+         SET last_error = NULL
+       WHERE id = v_asset.id
+         AND last_error IS NOT NULL;
+    EXCEPTION WHEN OTHERS THEN
+      out_lines_posted := 0;
+      out_amount := 0;
+      out_error := SQLERRM;
+
+      UPDATE public.fixed_assets
+         SET last_error = SQLERRM,
+             updated_at = NOW()
+       WHERE id = v_asset.id;
+    END;
+
+    out_asset_id := v_asset.id;
+    out_ledger_id := v_asset.ledger_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.get_or_create_fixed_asset_account(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_or_create_fixed_asset_account(uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION public.post_fixed_asset_depreciation(uuid, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_fixed_asset_depreciation(uuid, date) TO service_role;
+REVOKE ALL ON FUNCTION public.register_fixed_asset(uuid, text, text, text, numeric, numeric, date, integer, text, numeric, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_fixed_asset(uuid, text, text, text, numeric, numeric, date, integer, text, numeric, text, jsonb) TO service_role;
+REVOKE ALL ON FUNCTION public.dispose_fixed_asset(uuid, uuid, date, numeric, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.dispose_fixed_asset(uuid, uuid, date, numeric, text) TO service_role;
+REVOKE ALL ON FUNCTION public.post_due_depreciation(date, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_due_depreciation(date, integer) TO service_role;
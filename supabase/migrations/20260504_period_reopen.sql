@@ -0,0 +1,57 @@
+-- Period reopen and versioned frozen statements.
+-- close-period closes a month or quarter for good: there was no sanctioned
+-- way back in when a late correction was needed. Owners can now reopen a
+-- closed month or quarter from the dashboard (reason required, behind the
+-- step-up check of the sensitive-action flow). Fiscal years stay locked.
+--
+-- Closing the period again bumps its close_version. Frozen statements
+-- generated after a re-close are stored as a new version next to the ones
+-- generated before, which keep their data and integrity_hash so the two
+-- closes can be compared.
+
+-- ============================================================
+-- 1. accounting_periods: close version
+-- ============================================================
+ALTER TABLE public.accounting_periods
+  ADD COLUMN IF NOT EXISTS close_version integer NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.accounting_periods.close_version IS 'How many times the period has been closed; bumped when a reopened period is closed again';
+COMMENT ON COLUMN public.accounting_periods.reopened_at IS 'When the period was last reopened';
+COMMENT ON COLUMN public.accounting_periods.reopened_by IS 'Dashboard user id of the owner who last reopened the period';
+COMMENT ON COLUMN public.accounting_periods.reopen_reason IS 'Why the period was last reopened; every reopen is also in audit_log';
+
+-- ============================================================
+-- 2. frozen_statements: one row per statement and close version
+-- ============================================================
+ALTER TABLE public.frozen_statements
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS superseded_at timestamptz;
+
+ALTER TABLE public.frozen_statements DROP CONSTRAINT IF EXISTS uq_frozen_statement;
+ALTER TABLE public.frozen_statements
+  ADD CONSTRAINT uq_frozen_statement_version UNIQUE (ledger_id, period_id, statement_type, version);
+
+COMMENT ON COLUMN public.frozen_statements.version IS 'close_version of the period when the statement was generated';
+COMMENT ON COLUMN public.frozen_statements.superseded_at IS 'When a statement for a later close of the period was generated; superseded statements can no longer change';
+
+-- Superseded statements are the audit record of an earlier close
+CREATE OR REPLACE FUNCTION public.prevent_superseded_frozen_statement_change()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF OLD.superseded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Frozen statement version % has been superseded and cannot be changed', OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$function$
+;
+
+DROP TRIGGER IF EXISTS trg_frozen_statements_superseded ON public.frozen_statements;
+CREATE TRIGGER trg_frozen_statements_superseded
+  BEFORE UPDATE ON public.frozen_statements
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_superseded_frozen_statement_change();
+
+GRANT UPDATE ON public.frozen_statements TO service_role;
@@ -0,0 +1,65 @@
+-- Post-commit steps of a sale.
+-- record-sale and subscription renewals commit the sale first and then run
+-- referral commissions, the revenue recognition schedule, the creator's
+-- rolling reserve and creator debt recovery, each in its own transaction.
+-- Every step is recorded here before it runs and marked completed when it
+-- posts, so a step that fails, or never ran because the request died, stays
+-- pending and the process-sale-followups cron retries it. A step gives up
+-- (failed) after five attempts or when its RPC rejects the sale outright.
+
+-- ============================================================
+-- 1. sale_followups
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.sale_followups (
+  id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+  ledger_id uuid NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  creator_id text NOT NULL,
+  step text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT sale_followups_step_check CHECK (
+    step IN ('referral_commissions', 'revenue_schedule', 'creator_reserve', 'creator_debt_recovery')
+  ),
+  CONSTRAINT sale_followups_status_check CHECK (status IN ('pending', 'completed', 'failed')),
+  CONSTRAINT sale_followups_step_unique UNIQUE (transaction_id, step)
+);
+
+COMMENT ON TABLE public.sale_followups IS 'One row per post-commit step of a sale; pending rows are retried by the process-sale-followups cron';
+COMMENT ON COLUMN public.sale_followups.payload IS 'Step input that is not on the sale, e.g. the recognition schedule and its metadata';
+
+CREATE INDEX IF NOT EXISTS idx_sale_followups_pending
+  ON public.sale_followups (updated_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_sale_followups_ledger
+  ON public.sale_followups (ledger_id, status, created_at DESC);
+
+ALTER TABLE public.sale_followups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sale_followups_service_all ON public.sale_followups;
+CREATE POLICY sale_followups_service_all ON public.sale_followups
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS sale_followups_read_org_members ON public.sale_followups;
+CREATE POLICY sale_followups_read_org_members
+  ON public.sale_followups
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledgers l
+      JOIN public.organization_members om
+        ON om.organization_id = l.organization_id
+      WHERE l.id = sale_followups.ledger_id
+        AND om.user_id = auth.uid()
+        AND om.status = 'active'
+    )
+  );
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { createTestClient, SoledgicTestClient } from '../test-client'
+
+// Withholding records in a sale's metadata are written by record_sale_atomic
+// and later reported on 1042-S / 1099 forms. A caller must not be able to
+// supply them through the sale's metadata.
+describe('Withholding Metadata E2E', () => {
+  let ledger: SoledgicTestClient
+  const creatorId = `e2e_wh_meta_creator_${Date.now()}`
+
+  beforeAll(async () => {
+    ledger = createTestClient()
+
+    try {
+      await ledger.createCreator({
+        creatorId,
+        displayName: 'E2E Withholding Metadata Creator',
+        email: 'e2e-wh-meta@test.soledgic.com',
+        defaultSplitPercent: 80,
+      })
+    } catch (err: any) {
+      if (!err.message?.includes('duplicate') && !err.message?.includes('already exists')) {
+        throw err
+      }
+    }
+  })
+
+  it('should ignore a forged nra_withholding key on a sale with nothing withheld', async () => {
+    const result = await ledger.recordSale({
+      referenceId: `e2e_wh_meta_nra_${Date.now()}`,
+      creatorId,
+      amount: 5000,
+      description: 'Sale with forged NRA withholding metadata',
+      metadata: {
+        nra_withholding: { rate_bps: 0, reason: 'treaty', treaty_country: 'GB', amount_cents: 1500 },
+      },
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.breakdown.withheld_amount).toBe(0)
+    expect(result.breakdown.withholdings).toEqual([])
+    expect(result.breakdown.available_amount).toBeCloseTo(40.00, 2)
+  })
+
+  it('should ignore a forged backup_withholding key on a sale with nothing withheld', async () => {
+    const result = await ledger.recordSale({
+      referenceId: `e2e_wh_meta_backup_${Date.now()}`,
+      creatorId,
+      amount: 5000,
+      description: 'Sale with forged backup withholding metadata',
+      metadata: {
+        backup_withholding: { rate_bps: 2400, reason: 'b_notice', notice_id: 'forged', amount_cents: 960 },
+      },
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.breakdown.withheld_amount).toBe(0)
+    expect(result.breakdown.withholdings).toEqual([])
+  })
+})